@@ -37,7 +37,8 @@ module android.R {
                 textSize: '14sp',
                 layerType: 'software',
                 textColor: color.textView_textColor,
-                textColorHint: 0xff808080
+                textColorHint: 0xff808080,
+                textColorLink: 0xff5c5cff
             };
         }
 
@@ -66,6 +67,17 @@ module android.R {
         }
 
 
+        static get autoCompleteTextViewStyle() {
+            return Object.assign(this.editTextStyle, {
+                singleLine: true,
+                completionThreshold: 2,
+                popupBackground: R.image.menu_panel_holo_light,
+                dropDownWidth: 'wrap_content',
+                dropDownHeight: 'wrap_content'
+            });
+        }
+
+
         static get imageButtonStyle() {
             return {
                 background: drawable.btn_default,
@@ -89,6 +101,44 @@ module android.R {
             });
         }
 
+        static get switchStyle() {
+            return Object.assign(this.buttonStyle, {
+                background: null,
+                gravity: Gravity.CENTER_VERTICAL,
+                textOn: 'ON',
+                textOff: 'OFF',
+                thumb: drawable.switch_thumb_holo_light,
+                track: drawable.switch_track_holo_light,
+                thumbTextPadding: '12dp',
+                switchMinWidth: '96dp',
+                switchPadding: '16dp',
+                switchTextSize: '14sp',
+                switchTextColor: 0xffffffff
+            });
+        }
+
+        static get toggleButtonStyle() {
+            return Object.assign(this.buttonStyle, {
+                background: drawable.btn_toggle_bg,
+                textOn: 'ON',
+                textOff: 'OFF',
+                disabledAlpha: 0.5
+            });
+        }
+
+        static get datePickerStyle() {
+            return {
+                startYear: 1900,
+                endYear: 2100
+            };
+        }
+
+        static get timePickerStyle() {
+            return {
+                is24HourView: false
+            };
+        }
+
         static get checkedTextViewStyle(){
             return {
                 textAlignment : 'viewStart'
@@ -289,6 +339,28 @@ module android.R {
             }
         }
 
+        static get searchViewStyle() {
+            return {
+                iconifiedByDefault : true,
+                gravity : Gravity.CENTER_VERTICAL
+            }
+        }
+
+        static get tabLayoutStyle() {
+            return {
+                tabIndicatorColor : 0xff33b5e5,
+                tabIndicatorHeight : '2dp',
+                tabPaddingStart : '12dp',
+                tabPaddingEnd : '12dp',
+                tabBackground : android.R.drawable.item_background,
+                tabTextSize : '14sp',
+                tabTextColor : 0xff666666,
+                tabSelectedTextColor : 0xff333333,
+                tabMode : 'fixed',
+                tabGravity : 'fill'
+            }
+        }
+
     }
 
     export module attr{
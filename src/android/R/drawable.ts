@@ -114,6 +114,43 @@ module android.R{
             return stateList;
         }
 
+        static get switch_thumb_holo_light():Drawable {
+            let stateList = new StateListDrawable();
+            stateList.addState([-View.VIEW_STATE_ENABLED], new RoundRectDrawable(0xffcccccc, 2 * density));
+            stateList.addState([View.VIEW_STATE_PRESSED], new RoundRectDrawable(0xff0099cc, 2 * density));
+            stateList.addState([View.VIEW_STATE_CHECKED], new RoundRectDrawable(0xff33b5e5, 2 * density));
+            stateList.addState([], new RoundRectDrawable(0xffaaaaaa, 2 * density));
+            return new InsetDrawable(stateList, 2 * density);
+        }
+
+        static get switch_track_holo_light():Drawable {
+            let stateList = new StateListDrawable();
+            stateList.addState([-View.VIEW_STATE_ENABLED], new RoundRectDrawable(0x1a000000, 2 * density));
+            stateList.addState([View.VIEW_STATE_CHECKED], new RoundRectDrawable(0x6633b5e5, 2 * density));
+            stateList.addState([], new RoundRectDrawable(0x33000000, 2 * density));
+            stateList.getIntrinsicHeight = ()=> 32 * density;
+            stateList.getPadding = (rect)=>{
+                rect.set(2 * density, 2 * density, 2 * density, 2 * density);
+                return true;
+            };
+            return stateList;
+        }
+
+        static get btn_toggle_bg():Drawable {
+            let layerDrawable = new LayerDrawable(null);
+            layerDrawable.addLayer(R.drawable.btn_default, R.id.background);
+
+            let toggle = new StateListDrawable();
+            toggle.addState([View.VIEW_STATE_CHECKED], new RoundRectDrawable(0x6633b5e5, 2 * density));
+            toggle.addState([], new ColorDrawable(Color.TRANSPARENT));
+            let inset = Math.floor(4 * density);
+            layerDrawable.addLayer(toggle, R.id.toggle, inset, inset, inset, inset);
+
+            layerDrawable.ensurePadding();
+            layerDrawable.onStateChange(layerDrawable.getState());
+            return layerDrawable;
+        }
+
         static get progress_small_holo():Drawable {
             let rotate1 = new RotateDrawable(null);
             rotate1.mState.mDrawable = R.image.spinner_16_outer_holo;
@@ -340,6 +377,25 @@ module android.R{
             return new InsetDrawable(line, 0, 6 * density, 0, 6 * density);
         }
 
+        static get fastscroll_thumb_holo():Drawable {
+            let stateList = new StateListDrawable();
+            stateList.addState([View.VIEW_STATE_PRESSED], new InsetDrawable(new RoundRectDrawable(0xff33b5e5, 3 * density), 9 * density, 0));
+            stateList.addState([], new InsetDrawable(new RoundRectDrawable(0xff8a8a8a, 3 * density), 9 * density, 0));
+            stateList.getIntrinsicWidth = ()=> 24 * density;
+            stateList.getIntrinsicHeight = ()=> 48 * density;
+            return stateList;
+        }
+
+        static get fastscroll_track_holo():Drawable {
+            let track = new ColorDrawable(0x33000000);
+            track.getIntrinsicWidth = ()=> 2 * density;
+            return track;
+        }
+
+        static get fastscroll_label_holo():Drawable {
+            return new RoundRectDrawable(0xcc333333, 4 * density);
+        }
+
         static get list_selector_background():Drawable {
             return this.item_background;
         }
@@ -26,6 +26,7 @@ module android.R {
         "progress_number": "progress_number",
         "content": "content",
         "background": "background",
+        "toggle": "toggle",
         "secondaryProgress": "secondaryProgress",
         "leftSpacer": "leftSpacer",
         "rightSpacer": "rightSpacer",
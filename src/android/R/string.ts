@@ -8,6 +8,11 @@ module android.R{
         static close = 'Close';
         static back = 'Back';
         static crash_catch_alert = 'Some error happen, will refresh page:';
+        static date_time_done = 'Done';
+        static date_picker_dialog_title = 'Set date';
+        static time_picker_dialog_title = 'Set time';
+        static am = 'AM';
+        static pm = 'PM';
 
         static prll_header_state_normal = 'Pull to refresh';
         static prll_header_state_ready = 'Release to refresh';
@@ -25,6 +30,11 @@ module android.R{
             this.close = '关闭';
             this.back = '返回';
             this.crash_catch_alert = '程序发生错误, 即将重载网页:';
+            this.date_time_done = '完成';
+            this.date_picker_dialog_title = '设置日期';
+            this.time_picker_dialog_title = '设置时间';
+            this.am = '上午';
+            this.pm = '下午';
 
             this.prll_header_state_normal = '下拉以刷新';
             this.prll_header_state_ready = '松开马上刷新';
@@ -0,0 +1,402 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+
+module android.animation {
+import ArrayList = java.util.ArrayList;
+import Interpolator = android.view.animation.Interpolator;
+/**
+ * This is the superclass for classes which provide basic support for animations which can be
+ * started, ended, and have <code>AnimatorListeners</code> added to them.
+ */
+export abstract class Animator {
+
+    /**
+     * The set of listeners to be sent events through the life of an animation.
+     */
+    mListeners:ArrayList<Animator.AnimatorListener> = null;
+
+    /**
+     * The set of listeners to be sent pause/resume events through the life
+     * of an animation.
+     */
+    mPauseListeners:ArrayList<Animator.AnimatorPauseListener> = null;
+
+    /**
+     * Whether this animator is currently in a paused state.
+     */
+    mPaused:boolean = false;
+
+    /**
+     * Starts this animation. If the animation has a nonzero startDelay, the animation will start
+     * running after that delay elapses. A non-delayed animation will have its initial
+     * value(s) set immediately, followed by calls to
+     * {@link AnimatorListener#onAnimationStart(Animator)} for any listeners of this animator.
+     *
+     * <p>The animation started by calling this method will be run on the frame loop of the
+     * {@link android.view.ViewRootImpl}. All listener callbacks are called from that loop.</p>
+     */
+    start():void  {
+    }
+
+    /**
+     * Cancels the animation. Unlike {@link #end()}, <code>cancel()</code> causes the animation to
+     * stop in its tracks, sending an
+     * {@link android.animation.Animator.AnimatorListener#onAnimationCancel(Animator)} to
+     * its listeners, followed by an
+     * {@link android.animation.Animator.AnimatorListener#onAnimationEnd(Animator)} message.
+     */
+    cancel():void  {
+    }
+
+    /**
+     * Ends the animation. This causes the animation to assign the end value of the property being
+     * animated, then calling the
+     * {@link android.animation.Animator.AnimatorListener#onAnimationEnd(Animator)} method on
+     * its listeners.
+     */
+    end():void  {
+    }
+
+    /**
+     * Pauses a running animation. This method should only be called on the same thread on
+     * which the animation was started. If the animation has not yet been {@link
+     * #isStarted() started} or has since ended, then the call is ignored. Paused
+     * animations can be resumed by calling {@link #resume()}.
+     *
+     * @see #resume()
+     * @see #isPaused()
+     * @see AnimatorPauseListener
+     */
+    pause():void  {
+        if (this.isStarted() && !this.mPaused) {
+            this.mPaused = true;
+            if (this.mPauseListeners != null) {
+                let tmpListeners:ArrayList<Animator.AnimatorPauseListener> = this.mPauseListeners.clone();
+                let numListeners:number = tmpListeners.size();
+                for (let i:number = 0; i < numListeners; ++i) {
+                    tmpListeners.get(i).onAnimationPause(this);
+                }
+            }
+        }
+    }
+
+    /**
+     * Resumes a paused animation, causing the animator to pick up where it left off
+     * when it was paused. This method should only be called on the same thread on
+     * which the animation was started. Calls to resume() on an animator that is
+     * not currently paused will be ignored.
+     *
+     * @see #pause()
+     * @see #isPaused()
+     * @see AnimatorPauseListener
+     */
+    resume():void  {
+        if (this.mPaused) {
+            this.mPaused = false;
+            if (this.mPauseListeners != null) {
+                let tmpListeners:ArrayList<Animator.AnimatorPauseListener> = this.mPauseListeners.clone();
+                let numListeners:number = tmpListeners.size();
+                for (let i:number = 0; i < numListeners; ++i) {
+                    tmpListeners.get(i).onAnimationResume(this);
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns whether this animator is currently in a paused state.
+     *
+     * @return True if the animator is currently paused, false otherwise.
+     *
+     * @see #pause()
+     * @see #resume()
+     */
+    isPaused():boolean  {
+        return this.mPaused;
+    }
+
+    /**
+     * The amount of time, in milliseconds, to delay processing the animation
+     * after {@link #start()} is called.
+     *
+     * @return the number of milliseconds to delay running the animation
+     */
+    abstract getStartDelay():number ;
+
+    /**
+     * The amount of time, in milliseconds, to delay processing the animation
+     * after {@link #start()} is called.
+
+     * @param startDelay The amount of the delay, in milliseconds
+     */
+    abstract setStartDelay(startDelay:number):void ;
+
+    /**
+     * Sets the duration of the animation.
+     *
+     * @param duration The length of the animation, in milliseconds.
+     */
+    abstract setDuration(duration:number):Animator ;
+
+    /**
+     * Gets the duration of the animation.
+     *
+     * @return The length of the animation, in milliseconds.
+     */
+    abstract getDuration():number ;
+
+    /**
+     * The time interpolator used in calculating the elapsed fraction of the
+     * animation. The interpolator determines whether the animation runs with
+     * linear or non-linear motion, such as acceleration and deceleration. The
+     * default value is {@link android.view.animation.AccelerateDecelerateInterpolator}.
+     *
+     * @param value the interpolator to be used by this animation
+     */
+    abstract setInterpolator(value:Interpolator):void ;
+
+    /**
+     * Returns the timing interpolator that this animation uses.
+     *
+     * @return The timing interpolator for this animation.
+     */
+    getInterpolator():Interpolator  {
+        return null;
+    }
+
+    /**
+     * Returns whether this Animator is currently running (having been started and gone past any
+     * initial startDelay period and not yet ended).
+     *
+     * @return Whether the Animator is running.
+     */
+    abstract isRunning():boolean ;
+
+    /**
+     * Returns whether this Animator has been started and not yet ended. This state is a superset
+     * of the state of {@link #isRunning()}, because an Animator with a nonzero
+     * {@link #getStartDelay() startDelay} will return true for {@link #isStarted()} during the
+     * delay phase, whereas {@link #isRunning()} will return true only after the delay phase
+     * is complete.
+     *
+     * @return Whether the Animator has been started and not yet ended.
+     */
+    isStarted():boolean  {
+        // Default method returns value for isRunning(). Subclasses should override to return a
+        // real value.
+        return this.isRunning();
+    }
+
+    /**
+     * Adds a listener to the set of listeners that are sent events through the life of an
+     * animation, such as start, repeat, and end.
+     *
+     * @param listener the listener to be added to the current set of listeners for this animation.
+     */
+    addListener(listener:Animator.AnimatorListener):void  {
+        if (this.mListeners == null) {
+            this.mListeners = new ArrayList<Animator.AnimatorListener>();
+        }
+        this.mListeners.add(listener);
+    }
+
+    /**
+     * Removes a listener from the set listening to this animation.
+     *
+     * @param listener the listener to be removed from the current set of listeners for this
+     *                 animation.
+     */
+    removeListener(listener:Animator.AnimatorListener):void  {
+        if (this.mListeners == null) {
+            return;
+        }
+        this.mListeners.remove(listener);
+        if (this.mListeners.size() == 0) {
+            this.mListeners = null;
+        }
+    }
+
+    /**
+     * Gets the set of {@link android.animation.Animator.AnimatorListener} objects that are currently
+     * listening for events on this <code>Animator</code> object.
+     *
+     * @return ArrayList<AnimatorListener> The set of listeners.
+     */
+    getListeners():ArrayList<Animator.AnimatorListener>  {
+        return this.mListeners;
+    }
+
+    /**
+     * Adds a pause listener to this animator.
+     *
+     * @param listener the listener to be added to the current set of pause listeners
+     * for this animation.
+     */
+    addPauseListener(listener:Animator.AnimatorPauseListener):void  {
+        if (this.mPauseListeners == null) {
+            this.mPauseListeners = new ArrayList<Animator.AnimatorPauseListener>();
+        }
+        this.mPauseListeners.add(listener);
+    }
+
+    /**
+     * Removes a pause listener from the set listening to this animation.
+     *
+     * @param listener the listener to be removed from the current set of pause
+     * listeners for this animation.
+     */
+    removePauseListener(listener:Animator.AnimatorPauseListener):void  {
+        if (this.mPauseListeners == null) {
+            return;
+        }
+        this.mPauseListeners.remove(listener);
+        if (this.mPauseListeners.size() == 0) {
+            this.mPauseListeners = null;
+        }
+    }
+
+    /**
+     * Removes all {@link #addListener(android.animation.Animator.AnimatorListener) listeners}
+     * and {@link #addPauseListener(android.animation.Animator.AnimatorPauseListener)
+     * pauseListeners} from this object.
+     */
+    removeAllListeners():void  {
+        if (this.mListeners != null) {
+            this.mListeners.clear();
+            this.mListeners = null;
+        }
+        if (this.mPauseListeners != null) {
+            this.mPauseListeners.clear();
+            this.mPauseListeners = null;
+        }
+    }
+
+    /**
+     * This method tells the object to use appropriate information to extract
+     * starting values for the animation. For example, a AnimatorSet object will pass
+     * this call to its child objects to tell them to set up the values. A
+     * ObjectAnimator object will use the information it has about its target object
+     * and PropertyValuesHolder objects to get the start values for its properties.
+     * A ValueAnimator object will ignore the request since it does not have enough
+     * information (such as a target object) to gather these values.
+     */
+    setupStartValues():void  {
+    }
+
+    /**
+     * This method tells the object to use appropriate information to extract
+     * ending values for the animation. For example, a AnimatorSet object will pass
+     * this call to its child objects to tell them to set up the values. A
+     * ObjectAnimator object will use the information it has about its target object
+     * and PropertyValuesHolder objects to get the start values for its properties.
+     * A ValueAnimator object will ignore the request since it does not have enough
+     * information (such as a target object) to gather these values.
+     */
+    setupEndValues():void  {
+    }
+
+    /**
+     * Sets the target object whose property will be animated by this animation. Not all subclasses
+     * operate on target objects (for example, {@link ValueAnimator}, but this method
+     * is on the superclass for the convenience of dealing generically with those subclasses
+     * that do handle targets.
+     *
+     * @param target The object being animated
+     */
+    setTarget(target:any):void  {
+    }
+
+    clone():Animator  {
+        const anim:Animator = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        if (this.mListeners != null) {
+            anim.mListeners = this.mListeners.clone();
+        }
+        if (this.mPauseListeners != null) {
+            anim.mPauseListeners = this.mPauseListeners.clone();
+        }
+        return anim;
+    }
+}
+
+export module Animator{
+/**
+ * <p>An animation listener receives notifications from an animation.
+ * Notifications indicate animation related events, such as the end or the
+ * repetition of the animation.</p>
+ */
+export interface AnimatorListener {
+
+    /**
+     * <p>Notifies the start of the animation.</p>
+     *
+     * @param animation The started animation.
+     */
+    onAnimationStart(animation:Animator):void ;
+
+    /**
+     * <p>Notifies the end of the animation. This callback is not invoked
+     * for animations with repeat count set to INFINITE.</p>
+     *
+     * @param animation The animation which reached its end.
+     */
+    onAnimationEnd(animation:Animator):void ;
+
+    /**
+     * <p>Notifies the cancellation of the animation. This callback is not invoked
+     * for animations with repeat count set to INFINITE.</p>
+     *
+     * @param animation The animation which was canceled.
+     */
+    onAnimationCancel(animation:Animator):void ;
+
+    /**
+     * <p>Notifies the repetition of the animation.</p>
+     *
+     * @param animation The animation which was repeated.
+     */
+    onAnimationRepeat(animation:Animator):void ;
+}
+
+/**
+ * A pause listener receives notifications from an animation when the
+ * animation is {@link #pause() paused} or {@link #resume() resumed}.
+ *
+ * @see #addPauseListener(AnimatorPauseListener)
+ */
+export interface AnimatorPauseListener {
+
+    /**
+     * <p>Notifies that the animation was paused.</p>
+     *
+     * @param animation The animaton being paused.
+     * @see #pause()
+     */
+    onAnimationPause(animation:Animator):void ;
+
+    /**
+     * <p>Notifies that the animation was resumed, after being
+     * previously paused.</p>
+     *
+     * @param animation The animation being resumed.
+     * @see #resume()
+     */
+    onAnimationResume(animation:Animator):void ;
+}
+}
+}
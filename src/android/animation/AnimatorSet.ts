@@ -0,0 +1,1082 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../android/animation/Animator.ts"/>
+///<reference path="../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../android/animation/ValueAnimator.ts"/>
+
+module android.animation {
+import ArrayList = java.util.ArrayList;
+import Interpolator = android.view.animation.Interpolator;
+import Animator = android.animation.Animator;
+import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+import ValueAnimator = android.animation.ValueAnimator;
+/**
+ * This class plays a set of {@link Animator} objects in the specified order. Animations
+ * can be set up to play together, in sequence, or after a specified delay.
+ *
+ * <p>There are two different approaches to adding animations to a <code>AnimatorSet</code>:
+ * either the {@link AnimatorSet#playTogether(Animator[]) playTogether()} or
+ * {@link AnimatorSet#playSequentially(Animator[]) playSequentially()} methods can be called to add
+ * a set of animations all at once, or the {@link AnimatorSet#play(Animator)} can be
+ * used in conjunction with methods in the {@link AnimatorSet.Builder Builder}
+ * class to add animations
+ * one by one.</p>
+ *
+ * <p>It is possible to set up a <code>AnimatorSet</code> with circular dependencies between
+ * its animations. For example, an animation a1 could be set up to start before animation a2, a2
+ * before a3, and a3 before a1. The results of this configuration are undefined, but will typically
+ * result in none of the affected animations being played. Because of this (and because
+ * circular dependencies do not make logical sense anyway), circular dependencies
+ * should be avoided, and the dependency flow of animations should only be in one direction.
+ */
+export class AnimatorSet extends Animator {
+
+    /**
+     * Internal variables
+     */
+    /**
+     * Tracks animations currently being played, so that we know what to
+     * cancel or end when cancel() or end() is called on this AnimatorSet
+     */
+    mPlayingSet:ArrayList<Animator> = new ArrayList<Animator>();
+
+    /**
+     * Contains all nodes, mapped to their respective Animators. When new
+     * dependency information is added for an Animator, we want to add it
+     * to a single node representing that Animator, not create a new Node
+     * if one already exists.
+     */
+    mNodeMap:Map<Animator, AnimatorSet.Node> = new Map<Animator, AnimatorSet.Node>();
+
+    /**
+     * Set of all nodes created for this AnimatorSet. This list is used upon
+     * starting the set, and the nodes are placed in sorted order into the
+     * sortedNodes collection.
+     */
+    mNodes:ArrayList<AnimatorSet.Node> = new ArrayList<AnimatorSet.Node>();
+
+    /**
+     * The sorted list of nodes. This is the order in which the animations will
+     * be played. The details about when exactly they will be played depend
+     * on the dependency relationships of the nodes.
+     */
+    mSortedNodes:ArrayList<AnimatorSet.Node> = new ArrayList<AnimatorSet.Node>();
+
+    /**
+     * Flag indicating whether the nodes should be sorted prior to playing. This
+     * flag allows us to cache the previous sorted nodes so that if the sequence
+     * is replayed with no changes, it does not have to re-sort the nodes again.
+     */
+    mNeedsSort:boolean = true;
+
+    private mSetListener:AnimatorSet.AnimatorSetListener = null;
+
+    /**
+     * Flag indicating that the AnimatorSet has been manually
+     * terminated (by calling cancel() or end()).
+     * This flag is used to avoid starting other animations when currently-playing
+     * child animations of this AnimatorSet end. It also determines whether cancel/end
+     * notifications are sent out via the normal AnimatorSetListener mechanism.
+     */
+    mTerminated:boolean = false;
+
+    /**
+     * Indicates whether an AnimatorSet has been start()'d, whether or
+     * not there is a nonzero startDelay.
+     */
+    mStarted:boolean = false;
+
+    // The amount of time in ms to delay starting the animation after start() is called
+    private mStartDelay:number = 0;
+
+    // Animator used for a nonzero startDelay
+    private mDelayAnim:ValueAnimator = null;
+
+    // How long the child animations should last in ms. The default value is negative, which
+    // simply means that there is no duration set on the AnimatorSet. When a real duration is
+    // set, it is passed along to the child animations.
+    private mDuration:number = -1;
+
+    // Records the interpolator for the set. Null value indicates that no interpolator
+    // was set on this AnimatorSet, so it should not be passed down to the children.
+    private mInterpolator:Interpolator = null;
+
+    /**
+     * Sets up this AnimatorSet to play all of the supplied animations at the same time.
+     * This is equivalent to calling {@link #play(Animator)} with the first animator in the
+     * set and then {@link Builder#with(Animator)} with each of the other animators. Note that
+     * an Animator with a {@link Animator#setStartDelay(long) startDelay} will not actually
+     * start until that delay elapses, which means that if the first animator in the list
+     * supplied to this constructor has a startDelay, none of the other animators will start
+     * until that first animator's startDelay has elapsed.
+     *
+     * @param items The animations that will be started simultaneously.
+     */
+    playTogether(...items:Animator[]):void  {
+        if (items != null && items.length > 0) {
+            this.mNeedsSort = true;
+            let builder:AnimatorSet.Builder = this.play(items[0]);
+            for (let i:number = 1; i < items.length; ++i) {
+                builder.with(items[i]);
+            }
+        }
+    }
+
+    /**
+     * Sets up this AnimatorSet to play each of the supplied animations when the
+     * previous animation ends.
+     *
+     * @param items The animations that will be started one after another.
+     */
+    playSequentially(...items:Animator[]):void  {
+        if (items != null && items.length > 0) {
+            this.mNeedsSort = true;
+            if (items.length == 1) {
+                this.play(items[0]);
+            } else {
+                for (let i:number = 0; i < items.length - 1; ++i) {
+                    this.play(items[i]).before(items[i + 1]);
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the current list of child Animator objects controlled by this
+     * AnimatorSet. This is a copy of the internal list; modifications to the returned list
+     * will not affect the AnimatorSet, although changes to the underlying Animator objects
+     * will affect those objects being managed by the AnimatorSet.
+     *
+     * @return ArrayList<Animator> The list of child animations of this AnimatorSet.
+     */
+    getChildAnimations():ArrayList<Animator>  {
+        let childList:ArrayList<Animator> = new ArrayList<Animator>();
+        for (let node of this.mNodes.getArray()) {
+            childList.add(node.animation);
+        }
+        return childList;
+    }
+
+    /**
+     * Sets the target object for all current {@link #getChildAnimations() child animations}
+     * of this AnimatorSet that take targets ({@link ObjectAnimator} and
+     * AnimatorSet).
+     *
+     * @param target The object being animated
+     */
+    setTarget(target:any):void  {
+        for (let node of this.mNodes.getArray()) {
+            node.animation.setTarget(target);
+        }
+    }
+
+    /**
+     * Sets the Interpolator for all current {@link #getChildAnimations() child animations}
+     * of this AnimatorSet. The default value is null, which means that no interpolator
+     * is set on this AnimatorSet. Setting the interpolator to any non-null value
+     * will cause that interpolator to be set on the child animations
+     * when the set is started.
+     *
+     * @param interpolator the interpolator to be used by each child animation of this AnimatorSet
+     */
+    setInterpolator(interpolator:Interpolator):void  {
+        this.mInterpolator = interpolator;
+    }
+
+    getInterpolator():Interpolator  {
+        return this.mInterpolator;
+    }
+
+    /**
+     * This method creates a <code>Builder</code> object, which is used to
+     * set up playing constraints. This initial <code>play()</code> method
+     * tells the <code>Builder</code> the animation that is the dependency for
+     * the succeeding commands to the <code>Builder</code>. For example,
+     * calling <code>play(a1).with(a2)</code> sets up the AnimatorSet to play
+     * <code>a1</code> and <code>a2</code> at the same time,
+     * <code>play(a1).before(a2)</code> sets up the AnimatorSet to play
+     * <code>a1</code> first, followed by <code>a2</code>, and
+     * <code>play(a1).after(a2)</code> sets up the AnimatorSet to play
+     * <code>a2</code> first, followed by <code>a1</code>.
+     *
+     * <p>Note that <code>play()</code> is the only way to tell the
+     * <code>Builder</code> the animation upon which the dependency is created,
+     * so successive calls to the various functions in <code>Builder</code>
+     * will all refer to the initial parameter supplied in <code>play()</code>
+     * as the dependency of the other animations. For example, calling
+     * <code>play(a1).before(a2).before(a3)</code> will play both <code>a2</code>
+     * and <code>a3</code> when a1 ends; it does not set up a dependency between
+     * <code>a2</code> and <code>a3</code>.</p>
+     *
+     * @param anim The animation that is the dependency used in later calls to the
+     * methods in the returned <code>Builder</code> object. A null parameter will result
+     * in a null <code>Builder</code> return value.
+     * @return Builder The object that constructs the AnimatorSet based on the dependencies
+     * outlined in the calls to <code>play</code> and the other methods in the
+     * <code>Builder</code object.
+     */
+    play(anim:Animator):AnimatorSet.Builder  {
+        if (anim != null) {
+            this.mNeedsSort = true;
+            return new AnimatorSet.Builder(this, anim);
+        }
+        return null;
+    }
+
+    /**
+     * {@inheritDoc}
+     *
+     * <p>Note that canceling a <code>AnimatorSet</code> also cancels all of the animations that it
+     * is responsible for.</p>
+     */
+    cancel():void  {
+        this.mTerminated = true;
+        if (this.isStarted()) {
+            let tmpListeners:ArrayList<Animator.AnimatorListener> = null;
+            if (this.mListeners != null) {
+                tmpListeners = this.mListeners.clone();
+                for (let listener of tmpListeners.getArray()) {
+                    listener.onAnimationCancel(this);
+                }
+            }
+            if (this.mDelayAnim != null && this.mDelayAnim.isRunning()) {
+                // If we're currently in the startDelay period, just cancel that animator and
+                // send out the end event to all listeners
+                this.mDelayAnim.cancel();
+            } else if (this.mSortedNodes.size() > 0) {
+                for (let node of this.mSortedNodes.getArray()) {
+                    node.animation.cancel();
+                }
+            }
+            if (tmpListeners != null) {
+                for (let listener of tmpListeners.getArray()) {
+                    listener.onAnimationEnd(this);
+                }
+            }
+            this.mStarted = false;
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     *
+     * <p>Note that ending a <code>AnimatorSet</code> also ends all of the animations that it is
+     * responsible for.</p>
+     */
+    end():void  {
+        this.mTerminated = true;
+        if (this.isStarted()) {
+            if (this.mSortedNodes.size() != this.mNodes.size()) {
+                // hasn't been started yet - sort the nodes now, then end them
+                this.sortNodes();
+                for (let node of this.mSortedNodes.getArray()) {
+                    if (this.mSetListener == null) {
+                        this.mSetListener = new AnimatorSet.AnimatorSetListener(this);
+                    }
+                    node.animation.addListener(this.mSetListener);
+                }
+            }
+            if (this.mDelayAnim != null) {
+                this.mDelayAnim.cancel();
+            }
+            if (this.mSortedNodes.size() > 0) {
+                for (let node of this.mSortedNodes.getArray()) {
+                    node.animation.end();
+                }
+            }
+            if (this.mListeners != null) {
+                let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+                for (let listener of tmpListeners.getArray()) {
+                    listener.onAnimationEnd(this);
+                }
+            }
+            this.mStarted = false;
+        }
+    }
+
+    /**
+     * Returns true if any of the child animations of this AnimatorSet have been started and have
+     * not yet ended.
+     * @return Whether this AnimatorSet has been started and has not yet ended.
+     */
+    isRunning():boolean  {
+        for (let node of this.mNodes.getArray()) {
+            if (node.animation.isRunning()) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    isStarted():boolean  {
+        return this.mStarted;
+    }
+
+    /**
+     * The amount of time, in milliseconds, to delay starting the animation after
+     * {@link #start()} is called.
+     *
+     * @return the number of milliseconds to delay running the animation
+     */
+    getStartDelay():number  {
+        return this.mStartDelay;
+    }
+
+    /**
+     * The amount of time, in milliseconds, to delay starting the animation after
+     * {@link #start()} is called.
+
+     * @param startDelay The amount of the delay, in milliseconds
+     */
+    setStartDelay(startDelay:number):void  {
+        this.mStartDelay = startDelay;
+    }
+
+    /**
+     * Gets the length of each of the child animations of this AnimatorSet. This value may
+     * be less than 0, which indicates that no duration has been set on this AnimatorSet
+     * and each of the child animations will use their own duration.
+     *
+     * @return The length of the animation, in milliseconds, of each of the child
+     * animations of this AnimatorSet.
+     */
+    getDuration():number  {
+        return this.mDuration;
+    }
+
+    /**
+     * Sets the length of each of the current child animations of this AnimatorSet. By default,
+     * each child animation will use its own duration. If the duration is set on the AnimatorSet,
+     * then each child animation inherits this duration.
+     *
+     * @param duration The length of the animation, in milliseconds, of each of the child
+     * animations of this AnimatorSet.
+     */
+    setDuration(duration:number):AnimatorSet  {
+        if (duration < 0) {
+            throw Error(`new IllegalArgumentException("duration must be a value of zero or greater")`);
+        }
+        // Just record the value for now - it will be used later when the AnimatorSet starts
+        this.mDuration = duration;
+        return this;
+    }
+
+    setupStartValues():void  {
+        for (let node of this.mNodes.getArray()) {
+            node.animation.setupStartValues();
+        }
+    }
+
+    setupEndValues():void  {
+        for (let node of this.mNodes.getArray()) {
+            node.animation.setupEndValues();
+        }
+    }
+
+    pause():void  {
+        let previouslyPaused:boolean = this.mPaused;
+        super.pause();
+        if (!previouslyPaused && this.mPaused) {
+            if (this.mDelayAnim != null) {
+                this.mDelayAnim.pause();
+            } else {
+                for (let node of this.mNodes.getArray()) {
+                    node.animation.pause();
+                }
+            }
+        }
+    }
+
+    resume():void  {
+        let previouslyPaused:boolean = this.mPaused;
+        super.resume();
+        if (previouslyPaused && !this.mPaused) {
+            if (this.mDelayAnim != null) {
+                this.mDelayAnim.resume();
+            } else {
+                for (let node of this.mNodes.getArray()) {
+                    node.animation.resume();
+                }
+            }
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     *
+     * <p>Starting this <code>AnimatorSet</code> will, in turn, start the animations for which
+     * it is responsible. The details of when exactly those animations are started depends on
+     * the dependency relationships that have been set up between the animations.
+     */
+    start():void  {
+        this.mTerminated = false;
+        this.mStarted = true;
+        this.mPaused = false;
+        if (this.mDuration >= 0) {
+            // If the duration was set on this AnimatorSet, pass it along to all child animations
+            for (let node of this.mNodes.getArray()) {
+                // TODO: don't set the duration of the timing-only nodes created by AnimatorSet to
+                // insert "play-after" delays
+                node.animation.setDuration(this.mDuration);
+            }
+        }
+        if (this.mInterpolator != null) {
+            for (let node of this.mNodes.getArray()) {
+                node.animation.setInterpolator(this.mInterpolator);
+            }
+        }
+        // First, sort the nodes (if necessary). This will ensure that sortedNodes
+        // contains the animation nodes in the correct order.
+        this.sortNodes();
+        let numSortedNodes:number = this.mSortedNodes.size();
+        for (let i:number = 0; i < numSortedNodes; ++i) {
+            let node:AnimatorSet.Node = this.mSortedNodes.get(i);
+            // First, clear out the old listeners
+            let oldListeners:ArrayList<Animator.AnimatorListener> = node.animation.getListeners();
+            if (oldListeners != null && oldListeners.size() > 0) {
+                const clonedListeners:ArrayList<Animator.AnimatorListener> = oldListeners.clone();
+                for (let listener of clonedListeners.getArray()) {
+                    if (listener instanceof AnimatorSet.DependencyListener || listener instanceof AnimatorSet.AnimatorSetListener) {
+                        node.animation.removeListener(listener);
+                    }
+                }
+            }
+        }
+        // nodesToStart holds the list of nodes to be started immediately. We don't want to
+        // start the animations in the loop directly because we first need to set up
+        // dependencies on all of the nodes. For example, we don't want to start an animation
+        // when some other animation also wants to start when the first animation begins.
+        const nodesToStart:ArrayList<AnimatorSet.Node> = new ArrayList<AnimatorSet.Node>();
+        for (let i:number = 0; i < numSortedNodes; ++i) {
+            let node:AnimatorSet.Node = this.mSortedNodes.get(i);
+            if (this.mSetListener == null) {
+                this.mSetListener = new AnimatorSet.AnimatorSetListener(this);
+            }
+            if (node.dependencies == null || node.dependencies.size() == 0) {
+                nodesToStart.add(node);
+            } else {
+                let numDependencies:number = node.dependencies.size();
+                for (let j:number = 0; j < numDependencies; ++j) {
+                    let dependency:AnimatorSet.Dependency = node.dependencies.get(j);
+                    dependency.node.animation.addListener(new AnimatorSet.DependencyListener(this, node, dependency.rule));
+                }
+                node.tmpDependencies = node.dependencies.clone();
+            }
+            node.animation.addListener(this.mSetListener);
+        }
+        // Now that all dependencies are set up, start the animations that should be started.
+        if (this.mStartDelay <= 0) {
+            for (let node of nodesToStart.getArray()) {
+                node.animation.start();
+                this.mPlayingSet.add(node.animation);
+            }
+        } else {
+            this.mDelayAnim = ValueAnimator.ofFloat(0, 1);
+            this.mDelayAnim.setDuration(this.mStartDelay);
+            this.mDelayAnim.addListener((()=>{
+                const _this = this;
+                class _Inner extends AnimatorListenerAdapter {
+                    canceled:boolean = false;
+
+                    onAnimationCancel(anim:Animator):void  {
+                        this.canceled = true;
+                    }
+
+                    onAnimationEnd(anim:Animator):void  {
+                        if (!this.canceled) {
+                            let numNodes:number = nodesToStart.size();
+                            for (let i:number = 0; i < numNodes; ++i) {
+                                let node:AnimatorSet.Node = nodesToStart.get(i);
+                                node.animation.start();
+                                _this.mPlayingSet.add(node.animation);
+                            }
+                        }
+                        _this.mDelayAnim = null;
+                    }
+                }
+                return new _Inner();
+            })());
+            this.mDelayAnim.start();
+        }
+        if (this.mListeners != null) {
+            let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+            let numListeners:number = tmpListeners.size();
+            for (let i:number = 0; i < numListeners; ++i) {
+                tmpListeners.get(i).onAnimationStart(this);
+            }
+        }
+        if (this.mNodes.size() == 0 && this.mStartDelay == 0) {
+            // Handle unusual case where empty AnimatorSet is started - should send out
+            // end event immediately since the event will not be sent out at all otherwise
+            this.mStarted = false;
+            if (this.mListeners != null) {
+                let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+                let numListeners:number = tmpListeners.size();
+                for (let i:number = 0; i < numListeners; ++i) {
+                    tmpListeners.get(i).onAnimationEnd(this);
+                }
+            }
+        }
+    }
+
+    clone():AnimatorSet  {
+        const anim:AnimatorSet = <AnimatorSet>super.clone();
+        /*
+         * The basic clone() operation copies all items. This doesn't work very well for
+         * AnimatorSet, because it will copy references that need to be recreated and state
+         * that may not apply. What we need to do now is put the clone in an uninitialized
+         * state, with fresh, empty data structures. Then we will build up the nodes list
+         * manually, as we clone each Node (and its animation). The clone will then be sorted,
+         * and will populate any appropriate lists, when it is started.
+         */
+        anim.mNeedsSort = true;
+        anim.mTerminated = false;
+        anim.mStarted = false;
+        anim.mSetListener = null;
+        anim.mDelayAnim = null;
+        anim.mPlayingSet = new ArrayList<Animator>();
+        anim.mNodeMap = new Map<Animator, AnimatorSet.Node>();
+        anim.mNodes = new ArrayList<AnimatorSet.Node>();
+        anim.mSortedNodes = new ArrayList<AnimatorSet.Node>();
+        // Walk through the old nodes list, cloning each node and adding it to the new nodemap.
+        // One problem is that the old node dependencies point to nodes in the old AnimatorSet.
+        // We need to track the old/new nodes in order to reconstruct the dependencies in the clone.
+        let nodeCloneMap:Map<AnimatorSet.Node, AnimatorSet.Node> = new Map<AnimatorSet.Node, AnimatorSet.Node>();
+        for (let node of this.mNodes.getArray()) {
+            let nodeClone:AnimatorSet.Node = node.clone();
+            nodeCloneMap.set(node, nodeClone);
+            anim.mNodes.add(nodeClone);
+            anim.mNodeMap.set(nodeClone.animation, nodeClone);
+            // Clear out the dependencies in the clone; we'll set these up manually later
+            nodeClone.dependencies = null;
+            nodeClone.tmpDependencies = null;
+            nodeClone.nodeDependents = null;
+            nodeClone.nodeDependencies = null;
+            // clear out any listeners that were set up by the AnimatorSet; these will
+            // be set up when the clone's nodes are sorted
+            let cloneListeners:ArrayList<Animator.AnimatorListener> = nodeClone.animation.getListeners();
+            if (cloneListeners != null) {
+                let listenersToRemove:ArrayList<Animator.AnimatorListener> = null;
+                for (let listener of cloneListeners.getArray()) {
+                    if (listener instanceof AnimatorSet.AnimatorSetListener) {
+                        if (listenersToRemove == null) {
+                            listenersToRemove = new ArrayList<Animator.AnimatorListener>();
+                        }
+                        listenersToRemove.add(listener);
+                    }
+                }
+                if (listenersToRemove != null) {
+                    for (let listener of listenersToRemove.getArray()) {
+                        cloneListeners.remove(listener);
+                    }
+                }
+            }
+        }
+        // Now that we've cloned all of the nodes, we're ready to walk through their
+        // dependencies, mapping the old dependencies to the new nodes
+        for (let node of this.mNodes.getArray()) {
+            let nodeClone:AnimatorSet.Node = nodeCloneMap.get(node);
+            if (node.dependencies != null) {
+                for (let dependency of node.dependencies.getArray()) {
+                    let clonedDependencyNode:AnimatorSet.Node = nodeCloneMap.get(dependency.node);
+                    let cloneDependency:AnimatorSet.Dependency = new AnimatorSet.Dependency(clonedDependencyNode, dependency.rule);
+                    nodeClone.addDependency(cloneDependency);
+                }
+            }
+        }
+        return anim;
+    }
+
+    /**
+     * This method sorts the current set of nodes, if needed. The sort is a simple
+     * DependencyGraph sort, which goes like this:
+     * - All nodes without dependencies become 'roots'
+     * - while roots list is not null
+     * -   for each root r
+     * -     add r to sorted list
+     * -     remove r as a dependency from any other node
+     * -   any nodes with no dependencies are added to the roots list
+     */
+    private sortNodes():void  {
+        if (this.mNeedsSort) {
+            this.mSortedNodes.clear();
+            let roots:ArrayList<AnimatorSet.Node> = new ArrayList<AnimatorSet.Node>();
+            let numNodes:number = this.mNodes.size();
+            for (let i:number = 0; i < numNodes; ++i) {
+                let node:AnimatorSet.Node = this.mNodes.get(i);
+                if (node.dependencies == null || node.dependencies.size() == 0) {
+                    roots.add(node);
+                }
+            }
+            let tmpRoots:ArrayList<AnimatorSet.Node> = new ArrayList<AnimatorSet.Node>();
+            while (roots.size() > 0) {
+                let numRoots:number = roots.size();
+                for (let i:number = 0; i < numRoots; ++i) {
+                    let root:AnimatorSet.Node = roots.get(i);
+                    this.mSortedNodes.add(root);
+                    if (root.nodeDependents != null) {
+                        let numDependents:number = root.nodeDependents.size();
+                        for (let j:number = 0; j < numDependents; ++j) {
+                            let node:AnimatorSet.Node = root.nodeDependents.get(j);
+                            node.nodeDependencies.remove(root);
+                            if (node.nodeDependencies.size() == 0) {
+                                tmpRoots.add(node);
+                            }
+                        }
+                    }
+                }
+                roots.clear();
+                roots.addAll(tmpRoots);
+                tmpRoots.clear();
+            }
+            this.mNeedsSort = false;
+            if (this.mSortedNodes.size() != this.mNodes.size()) {
+                throw Error(`new IllegalStateException("Circular dependencies cannot exist" + " in AnimatorSet")`);
+            }
+        } else {
+            // Doesn't need sorting, but still need to add in the nodeDependencies list
+            // because these get removed as the event listeners fire and the dependencies
+            // are satisfied
+            let numNodes:number = this.mNodes.size();
+            for (let i:number = 0; i < numNodes; ++i) {
+                let node:AnimatorSet.Node = this.mNodes.get(i);
+                if (node.dependencies != null && node.dependencies.size() > 0) {
+                    let numDependencies:number = node.dependencies.size();
+                    for (let j:number = 0; j < numDependencies; ++j) {
+                        let dependency:AnimatorSet.Dependency = node.dependencies.get(j);
+                        if (node.nodeDependencies == null) {
+                            node.nodeDependencies = new ArrayList<AnimatorSet.Node>();
+                        }
+                        if (!node.nodeDependencies.contains(dependency.node)) {
+                            node.nodeDependencies.add(dependency.node);
+                        }
+                    }
+                }
+                // nodes are 'done' by default; they become un-done when started, and done again
+                // when ended
+                node.done = false;
+            }
+        }
+    }
+}
+
+export module AnimatorSet{
+/**
+ * This class is the mechanism by which animations are started based on events in other
+ * animations. If an animation has multiple dependencies on other animations, then
+ * all dependencies must be satisfied before the animation is started.
+ */
+export class DependencyListener implements Animator.AnimatorListener {
+
+    private mAnimatorSet:AnimatorSet;
+
+    // The node upon which the dependency is based.
+    private mNode:AnimatorSet.Node;
+
+    // The Dependency rule (WITH or AFTER) that the listener should wait for on
+    // the node
+    private mRule:number = 0;
+
+    constructor(animatorSet:AnimatorSet, node:AnimatorSet.Node, rule:number) {
+        this.mAnimatorSet = animatorSet;
+        this.mNode = node;
+        this.mRule = rule;
+    }
+
+    /**
+     * Ignore cancel events for now. We may want to handle this eventually,
+     * to prevent follow-on animations from running when some dependency
+     * animation is canceled.
+     */
+    onAnimationCancel(animation:Animator):void  {
+    }
+
+    /**
+     * An end event is received - see if this is an event we are listening for
+     */
+    onAnimationEnd(animation:Animator):void  {
+        if (this.mRule == AnimatorSet.Dependency.AFTER) {
+            this.startIfReady(animation);
+        }
+    }
+
+    /**
+     * Ignore repeat events for now
+     */
+    onAnimationRepeat(animation:Animator):void  {
+    }
+
+    /**
+     * A start event is received - see if this is an event we are listening for
+     */
+    onAnimationStart(animation:Animator):void  {
+        if (this.mRule == AnimatorSet.Dependency.WITH) {
+            this.startIfReady(animation);
+        }
+    }
+
+    /**
+     * Check whether the event received is one that the node was waiting for.
+     * If so, mark it as complete and see whether it's time to start
+     * the animation.
+     * @param dependencyAnimation the animation that sent the event.
+     */
+    private startIfReady(dependencyAnimation:Animator):void  {
+        if (this.mAnimatorSet.mTerminated) {
+            // if the parent AnimatorSet was canceled, then don't start any dependent anims
+            return;
+        }
+        let dependencyToRemove:AnimatorSet.Dependency = null;
+        let numDependencies:number = this.mNode.tmpDependencies.size();
+        for (let i:number = 0; i < numDependencies; ++i) {
+            let dependency:AnimatorSet.Dependency = this.mNode.tmpDependencies.get(i);
+            if (dependency.rule == this.mRule && dependency.node.animation == dependencyAnimation) {
+                // rule fired - remove the dependency and listener and check to
+                // see whether it's time to start the animation
+                dependencyToRemove = dependency;
+                dependencyAnimation.removeListener(this);
+                break;
+            }
+        }
+        this.mNode.tmpDependencies.remove(dependencyToRemove);
+        if (this.mNode.tmpDependencies.size() == 0) {
+            // all dependencies satisfied: start the animation
+            this.mNode.animation.start();
+            this.mAnimatorSet.mPlayingSet.add(this.mNode.animation);
+        }
+    }
+}
+
+export class AnimatorSetListener implements Animator.AnimatorListener {
+
+    private mAnimatorSet:AnimatorSet;
+
+    constructor(animatorSet:AnimatorSet) {
+        this.mAnimatorSet = animatorSet;
+    }
+
+    onAnimationCancel(animation:Animator):void  {
+        if (!this.mAnimatorSet.mTerminated) {
+            // Listeners are already notified of the AnimatorSet canceling in cancel().
+            // The logic below only kicks in when animations end normally
+            if (this.mAnimatorSet.mPlayingSet.size() == 0) {
+                if (this.mAnimatorSet.mListeners != null) {
+                    let numListeners:number = this.mAnimatorSet.mListeners.size();
+                    for (let i:number = 0; i < numListeners; ++i) {
+                        this.mAnimatorSet.mListeners.get(i).onAnimationCancel(this.mAnimatorSet);
+                    }
+                }
+            }
+        }
+    }
+
+    onAnimationEnd(animation:Animator):void  {
+        animation.removeListener(this);
+        this.mAnimatorSet.mPlayingSet.remove(animation);
+        let animNode:AnimatorSet.Node = this.mAnimatorSet.mNodeMap.get(animation);
+        animNode.done = true;
+        if (!this.mAnimatorSet.mTerminated) {
+            // Listeners are already notified of the AnimatorSet ending in cancel() or
+            // end(); the logic below only kicks in when animations end normally
+            let sortedNodes:ArrayList<AnimatorSet.Node> = this.mAnimatorSet.mSortedNodes;
+            let allDone:boolean = true;
+            let numSortedNodes:number = sortedNodes.size();
+            for (let i:number = 0; i < numSortedNodes; ++i) {
+                if (!sortedNodes.get(i).done) {
+                    allDone = false;
+                    break;
+                }
+            }
+            if (allDone) {
+                // If this was the last child animation to end, then notify listeners that this
+                // AnimatorSet has ended
+                if (this.mAnimatorSet.mListeners != null) {
+                    let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mAnimatorSet.mListeners.clone();
+                    let numListeners:number = tmpListeners.size();
+                    for (let i:number = 0; i < numListeners; ++i) {
+                        tmpListeners.get(i).onAnimationEnd(this.mAnimatorSet);
+                    }
+                }
+                this.mAnimatorSet.mStarted = false;
+                this.mAnimatorSet.mPaused = false;
+            }
+        }
+    }
+
+    // Nothing to do
+    onAnimationRepeat(animation:Animator):void  {
+    }
+
+    // Nothing to do
+    onAnimationStart(animation:Animator):void  {
+    }
+}
+
+/**
+ * Dependency holds information about the node that some other node is
+ * dependent upon and the nature of that dependency.
+ *
+ */
+export class Dependency {
+
+    // dependent node must start with this dependency node
+    static WITH:number = 0;
+
+    // dependent node must start when this dependency node finishes
+    static AFTER:number = 1;
+
+    // The node that the other node with this Dependency is dependent upon
+    node:AnimatorSet.Node;
+
+    // The nature of the dependency (WITH or AFTER)
+    rule:number = 0;
+
+    constructor(node:AnimatorSet.Node, rule:number) {
+        this.node = node;
+        this.rule = rule;
+    }
+}
+
+/**
+ * A Node is an embodiment of both the Animator that it wraps as well as
+ * any dependencies that are associated with that Animation. This includes
+ * both dependencies upon other nodes (in the dependencies list) as
+ * well as dependencies of other nodes upon this (in the nodeDependents list).
+ */
+export class Node {
+
+    animation:Animator;
+
+    /**
+     *  These are the dependencies that this node's animation has on other
+     *  nodes. For example, if this node's animation should begin with some
+     *  other animation ends, then there will be an item in this node's
+     *  dependencies list for that other animation's node.
+     */
+    dependencies:ArrayList<AnimatorSet.Dependency> = null;
+
+    /**
+     * tmpDependencies is a runtime detail. We use the dependencies list for sorting.
+     * But we also use the list to keep track of when multiple dependencies are satisfied,
+     * but removing each dependency as it is satisfied. We do not want to remove
+     * the dependency itself from the list, because we need to retain that information
+     * if the AnimatorSet is launched in the future. So we create a copy of the dependency
+     * list when the AnimatorSet starts and use this tmpDependencies list to track the
+     * list of satisfied dependencies.
+     */
+    tmpDependencies:ArrayList<AnimatorSet.Dependency> = null;
+
+    /**
+     * nodeDependencies is just a list of the nodes that this Node is dependent upon.
+     * This information is used in sortNodes(), to determine when a node is a root.
+     */
+    nodeDependencies:ArrayList<AnimatorSet.Node> = null;
+
+    /**
+     * nodeDepdendents is the list of nodes that have this node as a dependency. This
+     * is a utility field used in sortNodes to facilitate removing this node as a
+     * dependency when it is a root node.
+     */
+    nodeDependents:ArrayList<AnimatorSet.Node> = null;
+
+    /**
+     * Flag indicating whether the animation in this node is finished. This flag
+     * is used by AnimatorSet to check, as each animation ends, whether all child animations
+     * are done and it's time to send out an end event for the entire AnimatorSet.
+     */
+    done:boolean = false;
+
+    /**
+     * Constructs the Node with the animation that it encapsulates. A Node has no
+     * dependencies by default; dependencies are added via the addDependency()
+     * method.
+     *
+     * @param animation The animation that the Node encapsulates.
+     */
+    constructor(animation:Animator) {
+        this.animation = animation;
+    }
+
+    /**
+     * Add a dependency to this Node. The dependency includes information about the
+     * node that this node is dependency upon and the nature of the dependency.
+     * @param dependency
+     */
+    addDependency(dependency:AnimatorSet.Dependency):void  {
+        if (this.dependencies == null) {
+            this.dependencies = new ArrayList<AnimatorSet.Dependency>();
+            this.nodeDependencies = new ArrayList<AnimatorSet.Node>();
+        }
+        this.dependencies.add(dependency);
+        if (!this.nodeDependencies.contains(dependency.node)) {
+            this.nodeDependencies.add(dependency.node);
+        }
+        let dependencyNode:AnimatorSet.Node = dependency.node;
+        if (dependencyNode.nodeDependents == null) {
+            dependencyNode.nodeDependents = new ArrayList<AnimatorSet.Node>();
+        }
+        dependencyNode.nodeDependents.add(this);
+    }
+
+    clone():AnimatorSet.Node  {
+        let node:AnimatorSet.Node = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        node.animation = this.animation.clone();
+        return node;
+    }
+}
+
+/**
+ * The <code>Builder</code> object is a utility class to facilitate adding animations to a
+ * <code>AnimatorSet</code> along with the relationships between the various animations. The
+ * intention of the <code>Builder</code> methods, along with the {@link
+ * AnimatorSet#play(Animator) play()} method of <code>AnimatorSet</code> is to make it possible
+ * to express the dependency relationships of animations in a natural way. Developers can also
+ * use the {@link AnimatorSet#playTogether(Animator[]) playTogether()} and {@link
+ * AnimatorSet#playSequentially(Animator[]) playSequentially()} methods if these suit the need,
+ * but it might be easier in some situations to express the AnimatorSet of animations in pairs.
+ * <p/>
+ * <p>The <code>Builder</code> object cannot be constructed directly, but is rather constructed
+ * internally via a call to {@link AnimatorSet#play(Animator)}.</p>
+ * <p/>
+ * <p>For example, this sets up a AnimatorSet to play anim1 and anim2 at the same time, anim3 to
+ * play when anim2 finishes, and anim4 to play when anim3 finishes:</p>
+ * <pre>
+ *     AnimatorSet s = new AnimatorSet();
+ *     s.play(anim1).with(anim2);
+ *     s.play(anim2).before(anim3);
+ *     s.play(anim4).after(anim3);
+ * </pre>
+ * <p/>
+ * <p>Note in the example that both {@link Builder#before(Animator)} and {@link
+ * Builder#after(Animator)} are used. These are just different ways of expressing the same
+ * relationship and are provided to make it easier to say things in a way that is more natural,
+ * depending on the situation.</p>
+ * <p/>
+ * <p>It is possible to make several calls into the same <code>Builder</code> object to express
+ * multiple relationships. However, note that it is only the animation passed into the initial
+ * {@link AnimatorSet#play(Animator)} method that is the dependency in any of the successive
+ * calls to the <code>Builder</code> object. For example, the following code starts both anim2
+ * and anim3 when anim1 ends; there is no direct dependency relationship between anim2 and
+ * anim3:
+ * <pre>
+ *   AnimatorSet s = new AnimatorSet();
+ *   s.play(anim1).before(anim2).before(anim3);
+ * </pre>
+ * If the desired result is to play anim1 then anim2 then anim3, this code expresses the
+ * relationship correctly:</p>
+ * <pre>
+ *   AnimatorSet s = new AnimatorSet();
+ *   s.play(anim1).before(anim2);
+ *   s.play(anim2).before(anim3);
+ * </pre>
+ * <p/>
+ * <p>Note that it is possible to express relationships that cannot be resolved and will not
+ * result in sensible results. For example, <code>play(anim1).after(anim1)</code> makes no
+ * sense. In general, circular dependencies like this one (or more indirect ones where a depends
+ * on b, which depends on c, which depends on a) should be avoided. Only create AnimatorSets
+ * that can boil down to a simple, one-way relationship of animations starting with, before, and
+ * after other, different, animations.</p>
+ */
+export class Builder {
+
+    _AnimatorSet_this:AnimatorSet;
+
+    /**
+     * This tracks the current node being processed. It is supplied to the play() method
+     * of AnimatorSet and passed into the constructor of Builder.
+     */
+    private mCurrentNode:AnimatorSet.Node;
+
+    /**
+     * package-private constructor. Builders are only constructed by AnimatorSet, when the
+     * play() method is called.
+     *
+     * @param anim The animation that is the dependency for the other animations passed into
+     * the other methods of this Builder object.
+     */
+    constructor(arg:AnimatorSet, anim:Animator) {
+        this._AnimatorSet_this = arg;
+        this.mCurrentNode = this.getOrCreateNode(anim);
+    }
+
+    private getOrCreateNode(anim:Animator):AnimatorSet.Node  {
+        let node:AnimatorSet.Node = this._AnimatorSet_this.mNodeMap.get(anim);
+        if (node == null) {
+            node = new AnimatorSet.Node(anim);
+            this._AnimatorSet_this.mNodeMap.set(anim, node);
+            this._AnimatorSet_this.mNodes.add(node);
+        }
+        return node;
+    }
+
+    /**
+     * Sets up the given animation to play at the same time as the animation supplied in the
+     * {@link AnimatorSet#play(Animator)} call that created this <code>Builder</code> object.
+     *
+     * @param anim The animation that will play when the animation supplied to the
+     * {@link AnimatorSet#play(Animator)} method starts.
+     */
+    with(anim:Animator):Builder  {
+        let node:AnimatorSet.Node = this.getOrCreateNode(anim);
+        let dependency:AnimatorSet.Dependency = new AnimatorSet.Dependency(this.mCurrentNode, AnimatorSet.Dependency.WITH);
+        node.addDependency(dependency);
+        return this;
+    }
+
+    /**
+     * Sets up the given animation to play when the animation supplied in the
+     * {@link AnimatorSet#play(Animator)} call that created this <code>Builder</code> object
+     * ends.
+     *
+     * @param anim The animation that will play when the animation supplied to the
+     * {@link AnimatorSet#play(Animator)} method ends.
+     */
+    before(anim:Animator):Builder  {
+        let node:AnimatorSet.Node = this.getOrCreateNode(anim);
+        let dependency:AnimatorSet.Dependency = new AnimatorSet.Dependency(this.mCurrentNode, AnimatorSet.Dependency.AFTER);
+        node.addDependency(dependency);
+        return this;
+    }
+
+    /**
+     * Sets up the given animation to play when the animation supplied in the
+     * {@link AnimatorSet#play(Animator)} call that created this <code>Builder</code> object
+     * to start when the animation supplied in this method call ends. If a delay (in
+     * milliseconds) is supplied instead of an animation, the animation supplied in the
+     * {@link AnimatorSet#play(Animator)} call will start after that delay.
+     *
+     * @param anim The animation whose end will cause the animation supplied to the
+     * {@link AnimatorSet#play(Animator)} method to play, or the number of milliseconds that
+     * animation should be delayed.
+     */
+    after(anim:Animator|number):Builder  {
+        if (typeof anim === 'number') {
+            // setup dummy ValueAnimator just to run the clock
+            let delayAnim:ValueAnimator = ValueAnimator.ofFloat(0, 1);
+            delayAnim.setDuration(<number>anim);
+            return this.after(delayAnim);
+        }
+        let node:AnimatorSet.Node = this.getOrCreateNode(<Animator>anim);
+        let dependency:AnimatorSet.Dependency = new AnimatorSet.Dependency(node, AnimatorSet.Dependency.AFTER);
+        this.mCurrentNode.addDependency(dependency);
+        return this;
+    }
+}
+}
+}
@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/animation/TypeEvaluator.ts"/>
+
+module android.animation {
+import TypeEvaluator = android.animation.TypeEvaluator;
+/**
+ * This evaluator can be used to perform type interpolation between integer
+ * values that represent ARGB colors.
+ */
+export class ArgbEvaluator implements TypeEvaluator<number> {
+
+    private static sInstance:ArgbEvaluator = new ArgbEvaluator();
+
+    /**
+     * Returns an instance of <code>ArgbEvaluator</code> that may be used in
+     * {@link ValueAnimator#setEvaluator(TypeEvaluator)}. The same instance may
+     * be used in multiple <code>Animator</code>s because it holds no state.
+     * @return An instance of <code>ArgbEvalutor</code>.
+     */
+    static getInstance():ArgbEvaluator  {
+        return ArgbEvaluator.sInstance;
+    }
+
+    /**
+     * This function returns the calculated in-between value for a color
+     * given integers that represent the start and end values in the four
+     * bytes of the 32-bit int. Each channel is separately linearly interpolated
+     * and the resulting calculated values are recombined into the return value.
+     *
+     * @param fraction The fraction from the starting to the ending values
+     * @param startValue A 32-bit int value representing colors in the
+     * separate bytes of the parameter
+     * @param endValue A 32-bit int value representing colors in the
+     * separate bytes of the parameter
+     * @return A value that is calculated to be the linearly interpolated
+     * result, derived by separating the start and end values into separate
+     * color channels and interpolating each one separately, recombining the
+     * resulting values in the same way.
+     */
+    evaluate(fraction:number, startValue:number, endValue:number):number  {
+        let startInt:number = startValue;
+        let startA:number = (startInt >> 24) & 0xff;
+        let startR:number = (startInt >> 16) & 0xff;
+        let startG:number = (startInt >> 8) & 0xff;
+        let startB:number = startInt & 0xff;
+        let endInt:number = endValue;
+        let endA:number = (endInt >> 24) & 0xff;
+        let endR:number = (endInt >> 16) & 0xff;
+        let endG:number = (endInt >> 8) & 0xff;
+        let endB:number = endInt & 0xff;
+        return ((startA + Math.floor(fraction * (endA - startA))) << 24) | ((startR + Math.floor(fraction * (endR - startR))) << 16) | ((startG + Math.floor(fraction * (endG - startG))) << 8) | ((startB + Math.floor(fraction * (endB - startB))));
+    }
+}
+}
@@ -0,0 +1,213 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+
+module android.animation {
+import Interpolator = android.view.animation.Interpolator;
+/**
+ * This class holds a time/value pair for an animation. The Keyframe class is used
+ * by {@link ValueAnimator} to define the values that the animation target will have over the course
+ * of the animation. As the time proceeds from one keyframe to the other, the value of the
+ * target object will animate between the value at the previous keyframe and the value at the
+ * next keyframe. Each keyframe also holds an optional {@link Interpolator}
+ * object, which defines the time interpolation over the intervalue preceding the keyframe.
+ */
+export class Keyframe {
+
+    /**
+     * The time at which mValue will hold true.
+     */
+    mFraction:number = 0;
+
+    /**
+     * The value of the animation at the time mFraction.
+     */
+    mValue:any;
+
+    /**
+     * The type of the value in this Keyframe. This type is determined at construction time,
+     * based on the type of the <code>value</code> object passed into the constructor.
+     */
+    mValueType:Keyframe.ValueType;
+
+    /**
+     * The optional time interpolator for the interval preceding this keyframe. A null interpolator
+     * (the default) results in linear interpolation over the interval.
+     */
+    private mInterpolator:Interpolator = null;
+
+    /**
+     * Flag to indicate whether this keyframe has a valid value. This flag is used when an
+     * animation first starts, to populate placeholder keyframes with real values derived
+     * from the target object.
+     */
+    mHasValue:boolean = false;
+
+    constructor(fraction:number, valueType:Keyframe.ValueType, value?:any) {
+        this.mFraction = fraction;
+        this.mValueType = valueType;
+        if (value !== undefined) {
+            this.mValue = value;
+            this.mHasValue = true;
+        }
+    }
+
+    /**
+     * Constructs a Keyframe object with the given time and value. The time defines the
+     * time, as a proportion of an overall animation's duration, at which the value will hold true
+     * for the animation. The value for the animation between keyframes will be calculated as
+     * an interpolation between the values at those keyframes.
+     *
+     * @param fraction The time, expressed as a value between 0 and 1, representing the fraction
+     * of time elapsed of the overall animation duration.
+     * @param value The value that the object will animate to as the animation time approaches
+     * the time in this keyframe, and the the value animated from as the time passes the time in
+     * this keyframe. If omitted, the value is derived from the target object when the animation
+     * first starts.
+     */
+    static ofInt(fraction:number, value?:number):Keyframe  {
+        return new Keyframe(fraction, Keyframe.ValueType.INT, value);
+    }
+
+    /**
+     * Constructs a Keyframe object with the given time and value. The time defines the
+     * time, as a proportion of an overall animation's duration, at which the value will hold true
+     * for the animation. The value for the animation between keyframes will be calculated as
+     * an interpolation between the values at those keyframes.
+     *
+     * @param fraction The time, expressed as a value between 0 and 1, representing the fraction
+     * of time elapsed of the overall animation duration.
+     * @param value The value that the object will animate to as the animation time approaches
+     * the time in this keyframe, and the the value animated from as the time passes the time in
+     * this keyframe. If omitted, the value is derived from the target object when the animation
+     * first starts.
+     */
+    static ofFloat(fraction:number, value?:number):Keyframe  {
+        return new Keyframe(fraction, Keyframe.ValueType.FLOAT, value);
+    }
+
+    /**
+     * Constructs a Keyframe object with the given time and value. The time defines the
+     * time, as a proportion of an overall animation's duration, at which the value will hold true
+     * for the animation. The value for the animation between keyframes will be calculated as
+     * an interpolation between the values at those keyframes.
+     *
+     * @param fraction The time, expressed as a value between 0 and 1, representing the fraction
+     * of time elapsed of the overall animation duration.
+     * @param value The value that the object will animate to as the animation time approaches
+     * the time in this keyframe, and the the value animated from as the time passes the time in
+     * this keyframe. If omitted, the value is derived from the target object when the animation
+     * first starts.
+     */
+    static ofObject(fraction:number, value?:any):Keyframe  {
+        return new Keyframe(fraction, Keyframe.ValueType.OBJECT, value);
+    }
+
+    /**
+     * Indicates whether this keyframe has a valid value. This method is called internally when
+     * an {@link ObjectAnimator} first starts; keyframes without values are assigned values at
+     * that time by deriving the value for the property from the target object.
+     *
+     * @return boolean Whether this object has a value assigned.
+     */
+    hasValue():boolean  {
+        return this.mHasValue;
+    }
+
+    /**
+     * Gets the value for this Keyframe.
+     *
+     * @return The value for this Keyframe.
+     */
+    getValue():any  {
+        return this.mValue;
+    }
+
+    /**
+     * Sets the value for this Keyframe.
+     *
+     * @param value value for this Keyframe.
+     */
+    setValue(value:any):void  {
+        this.mValue = value;
+        this.mHasValue = true;
+    }
+
+    /**
+     * Gets the time for this keyframe, as a fraction of the overall animation duration.
+     *
+     * @return The time associated with this keyframe, as a fraction of the overall animation
+     * duration. This should be a value between 0 and 1.
+     */
+    getFraction():number  {
+        return this.mFraction;
+    }
+
+    /**
+     * Sets the time for this keyframe, as a fraction of the overall animation duration.
+     *
+     * @param fraction time associated with this keyframe, as a fraction of the overall animation
+     * duration. This should be a value between 0 and 1.
+     */
+    setFraction(fraction:number):void  {
+        this.mFraction = fraction;
+    }
+
+    /**
+     * Gets the optional interpolator for this Keyframe. A value of <code>null</code> indicates
+     * that there is no interpolation, which is the same as linear interpolation.
+     *
+     * @return The optional interpolator for this Keyframe.
+     */
+    getInterpolator():Interpolator  {
+        return this.mInterpolator;
+    }
+
+    /**
+     * Sets the optional interpolator for this Keyframe. A value of <code>null</code> indicates
+     * that there is no interpolation, which is the same as linear interpolation.
+     *
+     * @return The optional interpolator for this Keyframe.
+     */
+    setInterpolator(interpolator:Interpolator):void  {
+        this.mInterpolator = interpolator;
+    }
+
+    /**
+     * Gets the type of keyframe. This information is used by ValueAnimator to determine the type of
+     * {@link TypeEvaluator} to use when calculating values between keyframes. The type is based
+     * on the type of Keyframe created.
+     *
+     * @return The type of the value stored in the Keyframe.
+     */
+    getType():Keyframe.ValueType  {
+        return this.mValueType;
+    }
+
+    clone():Keyframe  {
+        let kfClone:Keyframe = new Keyframe(this.getFraction(), this.mValueType, this.mHasValue ? this.mValue : undefined);
+        kfClone.setInterpolator(this.getInterpolator());
+        return kfClone;
+    }
+}
+
+export module Keyframe{
+export enum ValueType {
+    INT, FLOAT, OBJECT
+}
+}
+}
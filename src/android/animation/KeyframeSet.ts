@@ -0,0 +1,178 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../android/animation/Keyframe.ts"/>
+///<reference path="../../android/animation/TypeEvaluator.ts"/>
+
+module android.animation {
+import ArrayList = java.util.ArrayList;
+import Interpolator = android.view.animation.Interpolator;
+import Keyframe = android.animation.Keyframe;
+import TypeEvaluator = android.animation.TypeEvaluator;
+/**
+ * This class holds a collection of Keyframe objects and is called by ValueAnimator to calculate
+ * values between those keyframes for a given animation. The class internal to the animation
+ * package because it is an implementation detail of how Keyframes are stored and used.
+ */
+export class KeyframeSet {
+
+    mNumKeyframes:number = 0;
+
+    mFirstKeyframe:Keyframe;
+
+    mLastKeyframe:Keyframe;
+
+    // only used in the 2-keyframe case
+    mInterpolator:Interpolator;
+
+    mKeyframes:ArrayList<Keyframe>;
+
+    mEvaluator:TypeEvaluator<any>;
+
+    constructor(...keyframes:Keyframe[]) {
+        this.mNumKeyframes = keyframes.length;
+        this.mKeyframes = new ArrayList<Keyframe>();
+        for (let keyframe of keyframes) {
+            this.mKeyframes.add(keyframe);
+        }
+        this.mFirstKeyframe = this.mKeyframes.get(0);
+        this.mLastKeyframe = this.mKeyframes.get(this.mNumKeyframes - 1);
+        this.mInterpolator = this.mLastKeyframe.getInterpolator();
+    }
+
+    static ofInt(...values:number[]):KeyframeSet  {
+        return KeyframeSet.ofValues(Keyframe.ValueType.INT, values);
+    }
+
+    static ofFloat(...values:number[]):KeyframeSet  {
+        return KeyframeSet.ofValues(Keyframe.ValueType.FLOAT, values);
+    }
+
+    static ofObject(...values:any[]):KeyframeSet  {
+        return KeyframeSet.ofValues(Keyframe.ValueType.OBJECT, values);
+    }
+
+    static ofKeyframe(...keyframes:Keyframe[]):KeyframeSet  {
+        return new KeyframeSet(...keyframes);
+    }
+
+    /**
+     * Keyframes evenly spaced over the animation. A single value is the end value, the
+     * start value will be derived from the animated target.
+     */
+    private static ofValues(valueType:Keyframe.ValueType, values:any[]):KeyframeSet  {
+        let numKeyframes:number = values.length;
+        let keyframes:Keyframe[] = new Array<Keyframe>(Math.max(numKeyframes, 2));
+        if (numKeyframes == 1) {
+            keyframes[0] = new Keyframe(0, valueType);
+            keyframes[1] = new Keyframe(1, valueType, values[0]);
+        } else {
+            keyframes[0] = new Keyframe(0, valueType, values[0]);
+            for (let i:number = 1; i < numKeyframes; ++i) {
+                keyframes[i] = new Keyframe(i / (numKeyframes - 1), valueType, values[i]);
+            }
+        }
+        return new KeyframeSet(...keyframes);
+    }
+
+    /**
+     * Sets the TypeEvaluator to be used when calculating animated values.
+     *
+     * @param evaluator The TypeEvaluator to be used to calculate animated values.
+     */
+    setEvaluator(evaluator:TypeEvaluator<any>):void  {
+        this.mEvaluator = evaluator;
+    }
+
+    /**
+     * Gets the animated value, given the elapsed fraction of the animation (interpolated by the
+     * animation's interpolator) and the evaluator used to calculate in-between values. This
+     * function maps the input fraction to the appropriate keyframe interval and a fraction
+     * between them and returns the interpolated value. Note that the input fraction may fall
+     * outside the [0-1] bounds, if the animation's interpolator made that happen (e.g., a
+     * spring interpolation that might send the fraction past 1.0). We handle this situation by
+     * just using the two keyframes at the appropriate end when the value is outside those bounds.
+     *
+     * @param fraction The elapsed fraction of the animation
+     * @return The animated value.
+     */
+    getValue(fraction:number):any  {
+        // Special-case optimization for the common case of only two keyframes
+        if (this.mNumKeyframes == 2) {
+            if (this.mInterpolator != null) {
+                fraction = this.mInterpolator.getInterpolation(fraction);
+            }
+            return this.mEvaluator.evaluate(fraction, this.mFirstKeyframe.getValue(), this.mLastKeyframe.getValue());
+        }
+        if (fraction <= 0) {
+            const nextKeyframe:Keyframe = this.mKeyframes.get(1);
+            const interpolator:Interpolator = nextKeyframe.getInterpolator();
+            if (interpolator != null) {
+                fraction = interpolator.getInterpolation(fraction);
+            }
+            const prevFraction:number = this.mFirstKeyframe.getFraction();
+            let intervalFraction:number = (fraction - prevFraction) / (nextKeyframe.getFraction() - prevFraction);
+            return this.mEvaluator.evaluate(intervalFraction, this.mFirstKeyframe.getValue(), nextKeyframe.getValue());
+        } else if (fraction >= 1) {
+            const prevKeyframe:Keyframe = this.mKeyframes.get(this.mNumKeyframes - 2);
+            const interpolator:Interpolator = this.mLastKeyframe.getInterpolator();
+            if (interpolator != null) {
+                fraction = interpolator.getInterpolation(fraction);
+            }
+            const prevFraction:number = prevKeyframe.getFraction();
+            let intervalFraction:number = (fraction - prevFraction) / (this.mLastKeyframe.getFraction() - prevFraction);
+            return this.mEvaluator.evaluate(intervalFraction, prevKeyframe.getValue(), this.mLastKeyframe.getValue());
+        }
+        let prevKeyframe:Keyframe = this.mFirstKeyframe;
+        for (let i:number = 1; i < this.mNumKeyframes; ++i) {
+            let nextKeyframe:Keyframe = this.mKeyframes.get(i);
+            if (fraction < nextKeyframe.getFraction()) {
+                const interpolator:Interpolator = nextKeyframe.getInterpolator();
+                if (interpolator != null) {
+                    fraction = interpolator.getInterpolation(fraction);
+                }
+                const prevFraction:number = prevKeyframe.getFraction();
+                let intervalFraction:number = (fraction - prevFraction) / (nextKeyframe.getFraction() - prevFraction);
+                return this.mEvaluator.evaluate(intervalFraction, prevKeyframe.getValue(), nextKeyframe.getValue());
+            }
+            prevKeyframe = nextKeyframe;
+        }
+        // shouldn't reach here
+        return this.mLastKeyframe.getValue();
+    }
+
+    clone():KeyframeSet  {
+        let keyframes:ArrayList<Keyframe> = this.mKeyframes;
+        let numKeyframes:number = this.mKeyframes.size();
+        let newKeyframes:Keyframe[] = new Array<Keyframe>(numKeyframes);
+        for (let i:number = 0; i < numKeyframes; ++i) {
+            newKeyframes[i] = keyframes.get(i).clone();
+        }
+        let newSet:KeyframeSet = new KeyframeSet(...newKeyframes);
+        return newSet;
+    }
+
+    toString():string  {
+        let returnVal:string = " ";
+        for (let i:number = 0; i < this.mNumKeyframes; ++i) {
+            returnVal += this.mKeyframes.get(i).getValue() + "  ";
+        }
+        return returnVal;
+    }
+}
+}
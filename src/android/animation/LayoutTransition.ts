@@ -0,0 +1,1436 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/view/ViewTreeObserver.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../android/view/animation/AccelerateDecelerateInterpolator.ts"/>
+///<reference path="../../android/view/animation/DecelerateInterpolator.ts"/>
+///<reference path="../../android/animation/Animator.ts"/>
+///<reference path="../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../android/animation/ObjectAnimator.ts"/>
+///<reference path="../../android/animation/PropertyValuesHolder.ts"/>
+///<reference path="../../android/animation/ValueAnimator.ts"/>
+
+module android.animation {
+import ArrayList = java.util.ArrayList;
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ViewTreeObserver = android.view.ViewTreeObserver;
+import Interpolator = android.view.animation.Interpolator;
+import AccelerateDecelerateInterpolator = android.view.animation.AccelerateDecelerateInterpolator;
+import DecelerateInterpolator = android.view.animation.DecelerateInterpolator;
+import Animator = android.animation.Animator;
+import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+import ObjectAnimator = android.animation.ObjectAnimator;
+import PropertyValuesHolder = android.animation.PropertyValuesHolder;
+import ValueAnimator = android.animation.ValueAnimator;
+
+/**
+ * This class enables automatic animations on layout changes in ViewGroup objects. To enable
+ * transitions for a layout container, create a LayoutTransition object and set it on any
+ * ViewGroup by calling {@link ViewGroup#setLayoutTransition(LayoutTransition)}, or set
+ * <code>android:animateLayoutChanges="true"</code> on the container in the html layout.
+ * This will cause default animations to run whenever items are added to or removed from
+ * that container. To specify custom animations, use the {@link LayoutTransition#setAnimator(int,
+ * Animator) setAnimator()} method.
+ *
+ * <p>One of the core concepts of these transition animations is that there are two types of
+ * changes that cause the transition and four different animations that run because of
+ * those changes. The changes that trigger the transition are items being added to a container
+ * (referred to as an "appearing" transition) or removed from a container (also known as
+ * "disappearing"). Setting the visibility of views (between GONE and VISIBLE) will trigger
+ * the same add/remove logic. The animations that run due to those events are one that animates
+ * items being added, one that animates items being removed, and two that animate the other
+ * items in the container that change due to the add/remove occurrence. Users of
+ * the transition may want different animations for the changing items depending on whether
+ * they are changing due to an appearing or disappearing event, so there is one animation for
+ * each of these variations of the changing event. Most of the API of this class is concerned
+ * with setting up the basic properties of the animations used in these four situations,
+ * or with setting up custom animations for any or all of the four.</p>
+ *
+ * <p>By default, the DISAPPEARING animation begins immediately, as does the CHANGE_APPEARING
+ * animation. The other animations begin after a delay that is set to the default duration
+ * of the animations. This behavior facilitates a sequence of animations in transitions as
+ * follows: when an item is being added to a layout, the other children of that container will
+ * move first (thus creating space for the new item), then the appearing animation will run to
+ * animate the item being added. Conversely, when an item is removed from a container, the
+ * animation to remove it will run first, then the animations of the other children in the
+ * layout will run (closing the gap created in the layout when the item was removed). If this
+ * default choreography behavior is not desired, the {@link #setDuration(int, long)} and
+ * {@link #setStartDelay(int, long)} of any or all of the animations can be changed as
+ * appropriate.</p>
+ *
+ * <p>The animations specified for the transition, both the defaults and any custom animations
+ * set on the transition object, are templates only. That is, these animations exist to hold the
+ * basic animation properties, such as the duration, start delay, and properties being animated.
+ * But the actual target object, as well as the start and end values for those properties, are
+ * set automatically in the process of setting up the transition each time it runs. Each of the
+ * animations is cloned from the original copy and the clone is then populated with the dynamic
+ * values of the target being animated (such as one of the items in a layout container that is
+ * moving as a result of the layout event) as well as the values that are changing (such as the
+ * position and size of that object). The actual values that are pushed to each animation
+ * depends on what properties are specified for the animation. For example, the default
+ * CHANGE_APPEARING animation animates the <code>left</code>, <code>top</code>, <code>right</code>,
+ * <code>bottom</code>, <code>scrollX</code>, and <code>scrollY</code> properties.
+ * Values for these properties are updated with the pre- and post-layout
+ * values when the transition begins. Custom animations will be similarly populated with
+ * the target and values being animated, assuming they use ObjectAnimator objects with
+ * property names that are known on the target object.</p>
+ *
+ * <p>This class, and the associated html flag for containers, animateLayoutChanges,
+ * provides a simple utility meant for automating changes in straightforward situations.
+ * Using LayoutTransition at multiple levels of a nested view hierarchy may not work due to the
+ * interrelationship of the various levels of layout. Also, a container that is being scrolled
+ * at the same time as items are being added or removed is probably not a good candidate for
+ * this utility, because the before/after locations calculated by LayoutTransition
+ * may not match the actual locations when the animations finish due to the container
+ * being scrolled as the animations are running.</p>
+ */
+export class LayoutTransition {
+
+    /**
+     * A flag indicating the animation that runs on those items that are changing
+     * due to a new item appearing in the container.
+     */
+    static CHANGE_APPEARING:number = 0;
+
+    /**
+     * A flag indicating the animation that runs on those items that are changing
+     * due to an item disappearing from the container.
+     */
+    static CHANGE_DISAPPEARING:number = 1;
+
+    /**
+     * A flag indicating the animation that runs on those items that are appearing
+     * in the container.
+     */
+    static APPEARING:number = 2;
+
+    /**
+     * A flag indicating the animation that runs on those items that are disappearing
+     * from the container.
+     */
+    static DISAPPEARING:number = 3;
+
+    /**
+     * A flag indicating the animation that runs on those items that are changing
+     * due to a layout change not caused by items being added to or removed
+     * from the container. This transition type is not enabled by default; it can be
+     * enabled via {@link #enableTransitionType(int)}.
+     */
+    static CHANGING:number = 4;
+
+    /**
+     * Private bit fields used to set the collection of enabled transition types for
+     * mTransitionTypes.
+     */
+    private static FLAG_APPEARING:number = 0x01;
+
+    private static FLAG_DISAPPEARING:number = 0x02;
+
+    private static FLAG_CHANGE_APPEARING:number = 0x04;
+
+    private static FLAG_CHANGE_DISAPPEARING:number = 0x08;
+
+    private static FLAG_CHANGING:number = 0x10;
+
+    /**
+     * These variables hold the animations that are currently used to run the transition effects.
+     * These animations are set to defaults, but can be changed to custom animations by
+     * calls to setAnimator().
+     */
+    private mDisappearingAnim:Animator = null;
+
+    private mAppearingAnim:Animator = null;
+
+    private mChangingAppearingAnim:Animator = null;
+
+    private mChangingDisappearingAnim:Animator = null;
+
+    private mChangingAnim:Animator = null;
+
+    /**
+     * These are the default animations, defined in the constructor, that will be used
+     * unless the user specifies custom animations.
+     */
+    private static defaultChange:ObjectAnimator;
+
+    private static defaultChangeIn:ObjectAnimator;
+
+    private static defaultChangeOut:ObjectAnimator;
+
+    private static defaultFadeIn:ObjectAnimator;
+
+    private static defaultFadeOut:ObjectAnimator;
+
+    /**
+     * The default duration used by all animations.
+     */
+    private static DEFAULT_DURATION:number = 300;
+
+    /**
+     * The durations of the different animations
+     */
+    private mChangingAppearingDuration:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mChangingDisappearingDuration:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mChangingDuration:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mAppearingDuration:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mDisappearingDuration:number = LayoutTransition.DEFAULT_DURATION;
+
+    /**
+     * The start delays of the different animations. Note that the default behavior of
+     * the appearing item is the default duration, since it should wait for the items to move
+     * before fading it. Same for the changing animation when disappearing; it waits for the item
+     * to fade out before moving the other items.
+     */
+    private mAppearingDelay:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mDisappearingDelay:number = 0;
+
+    private mChangingAppearingDelay:number = 0;
+
+    private mChangingDisappearingDelay:number = LayoutTransition.DEFAULT_DURATION;
+
+    private mChangingDelay:number = 0;
+
+    /**
+     * The inter-animation delays used on the changing animations
+     */
+    private mChangingAppearingStagger:number = 0;
+
+    private mChangingDisappearingStagger:number = 0;
+
+    private mChangingStagger:number = 0;
+
+    /**
+     * Static interpolators - these are stateless and can be shared across the instances
+     */
+    private static ACCEL_DECEL_INTERPOLATOR:Interpolator = new AccelerateDecelerateInterpolator();
+
+    private static DECEL_INTERPOLATOR:Interpolator = new DecelerateInterpolator();
+
+    private static sAppearingInterpolator:Interpolator = LayoutTransition.ACCEL_DECEL_INTERPOLATOR;
+
+    private static sDisappearingInterpolator:Interpolator = LayoutTransition.ACCEL_DECEL_INTERPOLATOR;
+
+    private static sChangingAppearingInterpolator:Interpolator = LayoutTransition.DECEL_INTERPOLATOR;
+
+    private static sChangingDisappearingInterpolator:Interpolator = LayoutTransition.DECEL_INTERPOLATOR;
+
+    private static sChangingInterpolator:Interpolator = LayoutTransition.DECEL_INTERPOLATOR;
+
+    /**
+     * The default interpolators used for the animations
+     */
+    private mAppearingInterpolator:Interpolator = LayoutTransition.sAppearingInterpolator;
+
+    private mDisappearingInterpolator:Interpolator = LayoutTransition.sDisappearingInterpolator;
+
+    private mChangingAppearingInterpolator:Interpolator = LayoutTransition.sChangingAppearingInterpolator;
+
+    private mChangingDisappearingInterpolator:Interpolator = LayoutTransition.sChangingDisappearingInterpolator;
+
+    private mChangingInterpolator:Interpolator = LayoutTransition.sChangingInterpolator;
+
+    /**
+     * These maps hold the animations that are currently running (or, for the
+     * pendingAnimations, set up but not yet started) for each child of the container.
+     * They are used to cancel or end an animation that is still running on a child
+     * when a new transition starts on the same child.
+     */
+    private pendingAnimations:Map<View, Animator> = new Map<View, Animator>();
+
+    private currentChangingAnimations:Map<View, Animator> = new Map<View, Animator>();
+
+    private currentAppearingAnimations:Map<View, Animator> = new Map<View, Animator>();
+
+    private currentDisappearingAnimations:Map<View, Animator> = new Map<View, Animator>();
+
+    /**
+     * This map tracks the listeners that have been added to the children of a container.
+     * Any layout change events on these children will trigger the changing animations.
+     * The listeners are removed in the cleanup step of runChangeTransition().
+     */
+    private layoutChangeListenerMap:Map<View, View.OnLayoutChangeListener> = new Map<View, View.OnLayoutChangeListener>();
+
+    /**
+     * Used to track the current delay being assigned to successive animations as they are
+     * started. This value is incremented for each new animation, then zeroed before the next
+     * transition begins.
+     */
+    private staggerDelay:number = 0;
+
+    /**
+     * These are the types of transition animations that the LayoutTransition is reacting
+     * to. By default, appearing/disappearing and the change animations related to them are
+     * enabled (not CHANGING).
+     */
+    private mTransitionTypes:number = LayoutTransition.FLAG_CHANGE_APPEARING | LayoutTransition.FLAG_CHANGE_DISAPPEARING
+        | LayoutTransition.FLAG_APPEARING | LayoutTransition.FLAG_DISAPPEARING;
+
+    /**
+     * The set of listeners that should be notified when APPEARING/DISAPPEARING transitions
+     * start and end.
+     */
+    private mListeners:ArrayList<LayoutTransition.TransitionListener>;
+
+    /**
+     * Controls whether changing animations automatically animate the parent hierarchy as well.
+     * This behavior prevents artifacts when wrap_content layouts snap to the end state as the
+     * transition begins. The default value is true.
+     */
+    private mAnimateParentHierarchy:boolean = true;
+
+    /**
+     * Constructs a LayoutTransition object. By default, the object will listen to layout
+     * events on any ViewGroup that it is set on and will run default animations for each
+     * type of layout event.
+     */
+    constructor() {
+        if (LayoutTransition.defaultChangeIn == null) {
+            // "left" is just a placeholder; we'll put real properties/values in when needed
+            let pvhLeft:PropertyValuesHolder = PropertyValuesHolder.ofInt("left", 0, 1);
+            let pvhTop:PropertyValuesHolder = PropertyValuesHolder.ofInt("top", 0, 1);
+            let pvhRight:PropertyValuesHolder = PropertyValuesHolder.ofInt("right", 0, 1);
+            let pvhBottom:PropertyValuesHolder = PropertyValuesHolder.ofInt("bottom", 0, 1);
+            let pvhScrollX:PropertyValuesHolder = PropertyValuesHolder.ofInt("scrollX", 0, 1);
+            let pvhScrollY:PropertyValuesHolder = PropertyValuesHolder.ofInt("scrollY", 0, 1);
+            LayoutTransition.defaultChangeIn = ObjectAnimator.ofPropertyValuesHolder(null,
+                pvhLeft, pvhTop, pvhRight, pvhBottom, pvhScrollX, pvhScrollY);
+            LayoutTransition.defaultChangeIn.setDuration(LayoutTransition.DEFAULT_DURATION);
+            LayoutTransition.defaultChangeIn.setStartDelay(this.mChangingAppearingDelay);
+            LayoutTransition.defaultChangeIn.setInterpolator(this.mChangingAppearingInterpolator);
+            LayoutTransition.defaultChangeOut = LayoutTransition.defaultChangeIn.clone();
+            LayoutTransition.defaultChangeOut.setStartDelay(this.mChangingDisappearingDelay);
+            LayoutTransition.defaultChangeOut.setInterpolator(this.mChangingDisappearingInterpolator);
+            LayoutTransition.defaultChange = LayoutTransition.defaultChangeIn.clone();
+            LayoutTransition.defaultChange.setStartDelay(this.mChangingDelay);
+            LayoutTransition.defaultChange.setInterpolator(this.mChangingInterpolator);
+            LayoutTransition.defaultFadeIn = ObjectAnimator.ofFloat(null, "alpha", 0, 1);
+            LayoutTransition.defaultFadeIn.setDuration(LayoutTransition.DEFAULT_DURATION);
+            LayoutTransition.defaultFadeIn.setStartDelay(this.mAppearingDelay);
+            LayoutTransition.defaultFadeIn.setInterpolator(this.mAppearingInterpolator);
+            LayoutTransition.defaultFadeOut = ObjectAnimator.ofFloat(null, "alpha", 1, 0);
+            LayoutTransition.defaultFadeOut.setDuration(LayoutTransition.DEFAULT_DURATION);
+            LayoutTransition.defaultFadeOut.setStartDelay(this.mDisappearingDelay);
+            LayoutTransition.defaultFadeOut.setInterpolator(this.mDisappearingInterpolator);
+        }
+        this.mChangingAppearingAnim = LayoutTransition.defaultChangeIn;
+        this.mChangingDisappearingAnim = LayoutTransition.defaultChangeOut;
+        this.mChangingAnim = LayoutTransition.defaultChange;
+        this.mAppearingAnim = LayoutTransition.defaultFadeIn;
+        this.mDisappearingAnim = LayoutTransition.defaultFadeOut;
+    }
+
+    /**
+     * Sets the duration to be used by all animations of this transition object. If you want to
+     * set the duration of just one of the animations in particular, use the
+     * {@link #setDuration(int, long)} method.
+     *
+     * <p>With a second argument, sets the duration on one of the animation objects used by
+     * this transition. The <code>transitionType</code> parameter determines the animation
+     * whose duration is being set.</p>
+     *
+     * @param duration The length of time, in milliseconds, that the transition animations
+     * should last.
+     */
+    setDuration(duration:number):void;
+    /**
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose duration is being set.
+     * @param duration The length of time, in milliseconds, that the specified animation should run.
+     */
+    setDuration(transitionType:number, duration:number):void;
+    setDuration(...args):void {
+        if (args.length === 1) {
+            let duration:number = args[0];
+            this.mChangingAppearingDuration = duration;
+            this.mChangingDisappearingDuration = duration;
+            this.mChangingDuration = duration;
+            this.mAppearingDuration = duration;
+            this.mDisappearingDuration = duration;
+            return;
+        }
+        let [transitionType, duration] = args;
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mChangingAppearingDuration = duration;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mChangingDisappearingDuration = duration;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mChangingDuration = duration;
+                break;
+            case LayoutTransition.APPEARING:
+                this.mAppearingDuration = duration;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mDisappearingDuration = duration;
+                break;
+        }
+    }
+
+    /**
+     * Enables the specified transitionType for this LayoutTransition object.
+     * By default, a LayoutTransition listens for changes in children being
+     * added/remove/hidden/shown in the container, and runs the animations associated with
+     * those events. That is, all transition types besides {@link #CHANGING} are enabled by default.
+     * You can also enable {@link #CHANGING} animations by calling this method with the
+     * {@link #CHANGING} transitionType.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}.
+     */
+    enableTransitionType(transitionType:number):void  {
+        switch(transitionType) {
+            case LayoutTransition.APPEARING:
+                this.mTransitionTypes |= LayoutTransition.FLAG_APPEARING;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mTransitionTypes |= LayoutTransition.FLAG_DISAPPEARING;
+                break;
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mTransitionTypes |= LayoutTransition.FLAG_CHANGE_APPEARING;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mTransitionTypes |= LayoutTransition.FLAG_CHANGE_DISAPPEARING;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mTransitionTypes |= LayoutTransition.FLAG_CHANGING;
+                break;
+        }
+    }
+
+    /**
+     * Disables the specified transitionType for this LayoutTransition object.
+     * By default, all transition types except {@link #CHANGING} are enabled.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}.
+     */
+    disableTransitionType(transitionType:number):void  {
+        switch(transitionType) {
+            case LayoutTransition.APPEARING:
+                this.mTransitionTypes &= ~LayoutTransition.FLAG_APPEARING;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mTransitionTypes &= ~LayoutTransition.FLAG_DISAPPEARING;
+                break;
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mTransitionTypes &= ~LayoutTransition.FLAG_CHANGE_APPEARING;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mTransitionTypes &= ~LayoutTransition.FLAG_CHANGE_DISAPPEARING;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mTransitionTypes &= ~LayoutTransition.FLAG_CHANGING;
+                break;
+        }
+    }
+
+    /**
+     * Returns whether the specified transitionType is enabled for this LayoutTransition object.
+     * By default, all transition types except {@link #CHANGING} are enabled.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}.
+     * @return true if the specified transitionType is currently enabled, false otherwise.
+     */
+    isTransitionTypeEnabled(transitionType:number):boolean  {
+        switch(transitionType) {
+            case LayoutTransition.APPEARING:
+                return (this.mTransitionTypes & LayoutTransition.FLAG_APPEARING) == LayoutTransition.FLAG_APPEARING;
+            case LayoutTransition.DISAPPEARING:
+                return (this.mTransitionTypes & LayoutTransition.FLAG_DISAPPEARING) == LayoutTransition.FLAG_DISAPPEARING;
+            case LayoutTransition.CHANGE_APPEARING:
+                return (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_APPEARING) == LayoutTransition.FLAG_CHANGE_APPEARING;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_DISAPPEARING) == LayoutTransition.FLAG_CHANGE_DISAPPEARING;
+            case LayoutTransition.CHANGING:
+                return (this.mTransitionTypes & LayoutTransition.FLAG_CHANGING) == LayoutTransition.FLAG_CHANGING;
+        }
+        return false;
+    }
+
+    /**
+     * Sets the start delay on one of the animation objects used by this transition. The
+     * <code>transitionType</code> parameter determines the animation whose start delay
+     * is being set.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose start delay is being set.
+     * @param delay The length of time, in milliseconds, to delay before starting the animation.
+     * @see Animator#setStartDelay(long)
+     */
+    setStartDelay(transitionType:number, delay:number):void  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mChangingAppearingDelay = delay;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mChangingDisappearingDelay = delay;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mChangingDelay = delay;
+                break;
+            case LayoutTransition.APPEARING:
+                this.mAppearingDelay = delay;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mDisappearingDelay = delay;
+                break;
+        }
+    }
+
+    /**
+     * Gets the start delay on one of the animation objects used by this transition. The
+     * <code>transitionType</code> parameter determines the animation whose start delay
+     * is returned.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose start delay is returned.
+     * @return long The start delay of the specified animation.
+     * @see Animator#getStartDelay()
+     */
+    getStartDelay(transitionType:number):number  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                return this.mChangingAppearingDelay;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return this.mChangingDisappearingDelay;
+            case LayoutTransition.CHANGING:
+                return this.mChangingDelay;
+            case LayoutTransition.APPEARING:
+                return this.mAppearingDelay;
+            case LayoutTransition.DISAPPEARING:
+                return this.mDisappearingDelay;
+        }
+        // shouldn't reach here
+        return 0;
+    }
+
+    /**
+     * Gets the duration on one of the animation objects used by this transition. The
+     * <code>transitionType</code> parameter determines the animation whose duration
+     * is returned.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose duration is returned.
+     * @return long The duration of the specified animation.
+     * @see Animator#getDuration()
+     */
+    getDuration(transitionType:number):number  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                return this.mChangingAppearingDuration;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return this.mChangingDisappearingDuration;
+            case LayoutTransition.CHANGING:
+                return this.mChangingDuration;
+            case LayoutTransition.APPEARING:
+                return this.mAppearingDuration;
+            case LayoutTransition.DISAPPEARING:
+                return this.mDisappearingDuration;
+        }
+        // shouldn't reach here
+        return 0;
+    }
+
+    /**
+     * Sets the length of time to delay between starting each animation during one of the
+     * change animations.
+     *
+     * @param transitionType A value of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING}, or
+     * {@link #CHANGING}.
+     * @param duration The length of time, in milliseconds, to delay before launching the next
+     * animation in the sequence.
+     */
+    setStagger(transitionType:number, duration:number):void  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mChangingAppearingStagger = duration;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mChangingDisappearingStagger = duration;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mChangingStagger = duration;
+                break;
+        }
+    }
+
+    /**
+     * Gets the length of time to delay between starting each animation during one of the
+     * change animations.
+     *
+     * @param transitionType A value of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING}, or
+     * {@link #CHANGING}.
+     * @return long The length of time, in milliseconds, to delay before launching the next
+     * animation in the sequence.
+     */
+    getStagger(transitionType:number):number  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                return this.mChangingAppearingStagger;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return this.mChangingDisappearingStagger;
+            case LayoutTransition.CHANGING:
+                return this.mChangingStagger;
+        }
+        // shouldn't reach here
+        return 0;
+    }
+
+    /**
+     * Sets the interpolator on one of the animation objects used by this transition. The
+     * <code>transitionType</code> parameter determines the animation whose interpolator
+     * is being set.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose interpolator is being set.
+     * @param interpolator The interpolator that the specified animation should use.
+     * @see Animator#setInterpolator(TimeInterpolator)
+     */
+    setInterpolator(transitionType:number, interpolator:Interpolator):void  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mChangingAppearingInterpolator = interpolator;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mChangingDisappearingInterpolator = interpolator;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mChangingInterpolator = interpolator;
+                break;
+            case LayoutTransition.APPEARING:
+                this.mAppearingInterpolator = interpolator;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mDisappearingInterpolator = interpolator;
+                break;
+        }
+    }
+
+    /**
+     * Gets the interpolator on one of the animation objects used by this transition. The
+     * <code>transitionType</code> parameter determines the animation whose interpolator
+     * is returned.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose interpolator is being returned.
+     * @return TimeInterpolator The interpolator that the specified animation uses.
+     * @see Animator#setInterpolator(TimeInterpolator)
+     */
+    getInterpolator(transitionType:number):Interpolator  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                return this.mChangingAppearingInterpolator;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return this.mChangingDisappearingInterpolator;
+            case LayoutTransition.CHANGING:
+                return this.mChangingInterpolator;
+            case LayoutTransition.APPEARING:
+                return this.mAppearingInterpolator;
+            case LayoutTransition.DISAPPEARING:
+                return this.mDisappearingInterpolator;
+        }
+        // shouldn't reach here
+        return null;
+    }
+
+    /**
+     * Sets the animation used during one of the transition types that may run. Any
+     * Animator object can be used, but to be most useful in the context of layout
+     * transitions, the animation should either be a ObjectAnimator or a AnimatorSet
+     * of animations including PropertyAnimators. Also, these ObjectAnimator objects
+     * should be able to get and set values on their target objects automatically. For
+     * example, a ObjectAnimator that animates the property "left" is able to set and get the
+     * <code>left</code> property from the View objects being animated by the layout
+     * transition. The transition works by setting target objects and properties
+     * dynamically, according to the pre- and post-layoout values of those objects, so
+     * having animations that can handle those properties appropriately will work best
+     * for custom animation. The dynamic setting of values is only the case for the
+     * CHANGE animations; the APPEARING and DISAPPEARING animations are simply run with
+     * the values they have.
+     *
+     * <p>It is also worth noting that any and all animations (and their underlying
+     * PropertyValuesHolder objects) will have their start and end values set according
+     * to the pre- and post-layout values. So, for example, a custom animation on "alpha"
+     * as the CHANGE_APPEARING animation will inherit the real value of alpha on the target
+     * object (presumably 1) as its starting and ending value when the animation begins.
+     * Animations which need to use values at the beginning and end that may not match the
+     * values queried when the transition begins may need to use a different mechanism
+     * than a standard ObjectAnimator object.</p>
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines the
+     * animation whose animator is being set.
+     * @param animator The animation being assigned. A value of <code>null</code> means that no
+     * animation will be run for the specified transitionType.
+     */
+    setAnimator(transitionType:number, animator:Animator):void  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                this.mChangingAppearingAnim = animator;
+                break;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                this.mChangingDisappearingAnim = animator;
+                break;
+            case LayoutTransition.CHANGING:
+                this.mChangingAnim = animator;
+                break;
+            case LayoutTransition.APPEARING:
+                this.mAppearingAnim = animator;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                this.mDisappearingAnim = animator;
+                break;
+        }
+    }
+
+    /**
+     * Gets the animation used during one of the transition types that may run.
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}, which determines
+     * the animation whose animator is being returned.
+     * @return Animator The animation being used for the given transition type.
+     * @see #setAnimator(int, Animator)
+     */
+    getAnimator(transitionType:number):Animator  {
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+                return this.mChangingAppearingAnim;
+            case LayoutTransition.CHANGE_DISAPPEARING:
+                return this.mChangingDisappearingAnim;
+            case LayoutTransition.CHANGING:
+                return this.mChangingAnim;
+            case LayoutTransition.APPEARING:
+                return this.mAppearingAnim;
+            case LayoutTransition.DISAPPEARING:
+                return this.mDisappearingAnim;
+        }
+        // shouldn't reach here
+        return null;
+    }
+
+    /**
+     * This function sets up animations on all of the views that change during layout.
+     * For every child in the parent, we create a change animation of the appropriate
+     * type (appearing, disappearing, or changing) and ask it to populate its start values from its
+     * target view. We add layout listeners to all child views and listen for changes. For
+     * those views that change, we populate the end values for those animations and start them.
+     * Animations are not run on unchanging views.
+     *
+     * @param parent The container which is undergoing a change.
+     * @param newView The view being added to or removed from the parent. May be null if the
+     * changeReason is CHANGING.
+     * @param changeReason A value of APPEARING, DISAPPEARING, or CHANGING, indicating whether the
+     * transition is occurring because an item is being added to or removed from the parent, or
+     * if it is running in response to a layout operation (that is, if the value is CHANGING).
+     */
+    private runChangeTransition(parent:ViewGroup, newView:View, changeReason:number):void  {
+        let baseAnimator:Animator = null;
+        let parentAnimator:Animator = null;
+        let duration:number;
+        switch(changeReason) {
+            case LayoutTransition.APPEARING:
+                baseAnimator = this.mChangingAppearingAnim;
+                duration = this.mChangingAppearingDuration;
+                parentAnimator = LayoutTransition.defaultChangeIn;
+                break;
+            case LayoutTransition.DISAPPEARING:
+                baseAnimator = this.mChangingDisappearingAnim;
+                duration = this.mChangingDisappearingDuration;
+                parentAnimator = LayoutTransition.defaultChangeOut;
+                break;
+            case LayoutTransition.CHANGING:
+                baseAnimator = this.mChangingAnim;
+                duration = this.mChangingDuration;
+                parentAnimator = LayoutTransition.defaultChange;
+                break;
+            default:
+                // Shouldn't reach here
+                duration = 0;
+                break;
+        }
+        // If the animation is null, there's nothing to do
+        if (baseAnimator == null) {
+            return;
+        }
+        // reset the inter-animation delay, in case we use it later
+        this.staggerDelay = 0;
+        const observer:ViewTreeObserver = parent.getViewTreeObserver();
+        // used for later cleanup
+        if (!observer.isAlive()) {
+            // If the observer's not in a good state, skip the transition
+            return;
+        }
+        let numChildren:number = parent.getChildCount();
+        for (let i:number = 0; i < numChildren; ++i) {
+            const child:View = parent.getChildAt(i);
+            // only animate the views not being added or removed
+            if (child != newView) {
+                this.setupChangeAnimation(parent, changeReason, baseAnimator, duration, child);
+            }
+        }
+        if (this.mAnimateParentHierarchy) {
+            let tempParent:ViewGroup = parent;
+            while (tempParent != null) {
+                let parentParent = tempParent.getParent();
+                // full name: ViewGroup is not loaded yet when this file is
+                if (parentParent instanceof android.view.ViewGroup) {
+                    this.setupChangeAnimation(<ViewGroup>parentParent, changeReason, parentAnimator, duration, tempParent);
+                    tempParent = <ViewGroup>parentParent;
+                } else {
+                    tempParent = null;
+                }
+            }
+        }
+        // This is the cleanup step. When we get this rendering event, we know that all of
+        // the appropriate animations have been set up and run. Now we can clear out the
+        // layout listeners.
+        observer.addOnPreDrawListener((()=>{
+            const _this = this;
+            class _Inner implements ViewTreeObserver.OnPreDrawListener {
+                onPreDraw():boolean  {
+                    parent.getViewTreeObserver().removeOnPreDrawListener(this);
+                    for (let [view, listener] of _this.layoutChangeListenerMap) {
+                        view.removeOnLayoutChangeListener(listener);
+                    }
+                    _this.layoutChangeListenerMap.clear();
+                    return true;
+                }
+            }
+            return new _Inner();
+        })());
+    }
+
+    /**
+     * This flag controls whether CHANGE_APPEARING or CHANGE_DISAPPEARING animations will
+     * cause the default changing animation to be run on the parent hierarchy as well. This allows
+     * containers of transitioning views to also transition, which may be necessary in situations
+     * where the containers bounds change between the before/after states and may clip their
+     * children during the transition animations. For example, layouts with wrap_content will
+     * adjust their bounds according to the dimensions of their children.
+     *
+     * <p>The default changing transitions animate the bounds and scroll positions of the
+     * target views. These are the animations that will run on the parent hierarchy, not
+     * the custom animations that happen to be set on this LayoutTransition object.</p>
+     *
+     * @param animateParentHierarchy A boolean value indicating whether the parents of
+     * transitioning views should also be animated during the transition. Default value is true.
+     */
+    setAnimateParentHierarchy(animateParentHierarchy:boolean):void  {
+        this.mAnimateParentHierarchy = animateParentHierarchy;
+    }
+
+    /**
+     * Utility function called by runChangingTransition for both the children and the parent
+     * hierarchy.
+     */
+    private setupChangeAnimation(parent:ViewGroup, changeReason:number, baseAnimator:Animator, duration:number, child:View):void  {
+        // If we already have a listener for this child, then we've already set up the
+        // changing animation we need. Multiple calls for a child may occur when several
+        // add/remove operations are run at once on a container; each one will trigger
+        // changes for the existing children in the container.
+        if (this.layoutChangeListenerMap.get(child) != null) {
+            return;
+        }
+        // Don't animate items up from size(0,0); this is likely because the objects
+        // were offscreen/invisible or otherwise measured to be infinitely small. We don't
+        // want to see them animate into their real size; just ignore animation requests
+        // on these views
+        if (child.getWidth() == 0 && child.getHeight() == 0) {
+            return;
+        }
+        // Make a copy of the appropriate animation
+        const anim:Animator = baseAnimator.clone();
+        // Set the target object for the animation
+        anim.setTarget(child);
+        // A ObjectAnimator (or AnimatorSet of them) can extract start values from
+        // its target object
+        anim.setupStartValues();
+        // If there's an animation running on this view already, cancel it
+        let currentAnimation:Animator = this.pendingAnimations.get(child);
+        if (currentAnimation != null) {
+            currentAnimation.cancel();
+            this.pendingAnimations.delete(child);
+        }
+        // Cache the animation in case we need to cancel it later
+        this.pendingAnimations.set(child, anim);
+        // For the animations which don't get started, we have to have a means of
+        // removing them from the cache, lest we leak them and their target objects.
+        // We run an animator for the default duration+100 (an arbitrary time, but one
+        // which should far surpass the delay between setting them up here and
+        // handling layout events which start them.
+        let pendingAnimRemover:ValueAnimator = ValueAnimator.ofFloat(0, 1).setDuration(duration + 100);
+        pendingAnimRemover.addListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationEnd(animation:Animator):void  {
+                    _this.pendingAnimations.delete(child);
+                }
+            }
+            return new _Inner();
+        })());
+        pendingAnimRemover.start();
+        // Add a listener to track layout changes on this view. If we don't get a callback,
+        // then there's nothing to animate.
+        const listener:View.OnLayoutChangeListener = (()=>{
+            const _this = this;
+            class _Inner implements View.OnLayoutChangeListener {
+                onLayoutChange(v:View, left:number, top:number, right:number, bottom:number,
+                               oldLeft:number, oldTop:number, oldRight:number, oldBottom:number):void  {
+                    // Tell the animation to extract end values from the changed object
+                    anim.setupEndValues();
+                    if (anim instanceof ValueAnimator) {
+                        let valuesDiffer:boolean = false;
+                        let oldValues:PropertyValuesHolder[] = (<ValueAnimator>anim).getValues();
+                        for (let i:number = 0; i < oldValues.length; ++i) {
+                            let keyframeSet = oldValues[i].mKeyframeSet;
+                            if (keyframeSet.mFirstKeyframe == null || keyframeSet.mLastKeyframe == null
+                                || keyframeSet.mFirstKeyframe.getValue() != keyframeSet.mLastKeyframe.getValue()) {
+                                valuesDiffer = true;
+                            }
+                        }
+                        if (!valuesDiffer) {
+                            return;
+                        }
+                    }
+                    let startDelay:number = 0;
+                    switch(changeReason) {
+                        case LayoutTransition.APPEARING:
+                            startDelay = _this.mChangingAppearingDelay + _this.staggerDelay;
+                            _this.staggerDelay += _this.mChangingAppearingStagger;
+                            if (_this.mChangingAppearingInterpolator != LayoutTransition.sChangingAppearingInterpolator) {
+                                anim.setInterpolator(_this.mChangingAppearingInterpolator);
+                            }
+                            break;
+                        case LayoutTransition.DISAPPEARING:
+                            startDelay = _this.mChangingDisappearingDelay + _this.staggerDelay;
+                            _this.staggerDelay += _this.mChangingDisappearingStagger;
+                            if (_this.mChangingDisappearingInterpolator != LayoutTransition.sChangingDisappearingInterpolator) {
+                                anim.setInterpolator(_this.mChangingDisappearingInterpolator);
+                            }
+                            break;
+                        case LayoutTransition.CHANGING:
+                            startDelay = _this.mChangingDelay + _this.staggerDelay;
+                            _this.staggerDelay += _this.mChangingStagger;
+                            if (_this.mChangingInterpolator != LayoutTransition.sChangingInterpolator) {
+                                anim.setInterpolator(_this.mChangingInterpolator);
+                            }
+                            break;
+                    }
+                    anim.setStartDelay(startDelay);
+                    anim.setDuration(duration);
+                    let prevAnimation:Animator = _this.currentChangingAnimations.get(child);
+                    if (prevAnimation != null) {
+                        prevAnimation.cancel();
+                    }
+                    let pendingAnimation:Animator = _this.pendingAnimations.get(child);
+                    if (pendingAnimation != null) {
+                        _this.pendingAnimations.delete(child);
+                    }
+                    // Cache the animation in case we need to cancel it later
+                    _this.currentChangingAnimations.set(child, anim);
+                    parent.requestTransitionStart(_this);
+                    // this only removes listeners whose views changed - must clear the
+                    // other listeners later
+                    child.removeOnLayoutChangeListener(this);
+                    _this.layoutChangeListenerMap.delete(child);
+                }
+            }
+            return new _Inner();
+        })();
+        // Remove the animation from the cache when it ends
+        anim.addListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationStart(animator:Animator):void  {
+                    if (_this.hasListeners()) {
+                        let listeners = _this.mListeners.clone();
+                        for (let l of listeners.array) {
+                            l.startTransition(_this, parent, child, changeReason == LayoutTransition.APPEARING ?
+                                LayoutTransition.CHANGE_APPEARING : changeReason == LayoutTransition.DISAPPEARING ?
+                                LayoutTransition.CHANGE_DISAPPEARING : LayoutTransition.CHANGING);
+                        }
+                    }
+                }
+
+                onAnimationCancel(animator:Animator):void  {
+                    child.removeOnLayoutChangeListener(listener);
+                    _this.layoutChangeListenerMap.delete(child);
+                }
+
+                onAnimationEnd(animator:Animator):void  {
+                    _this.currentChangingAnimations.delete(child);
+                    if (_this.hasListeners()) {
+                        let listeners = _this.mListeners.clone();
+                        for (let l of listeners.array) {
+                            l.endTransition(_this, parent, child, changeReason == LayoutTransition.APPEARING ?
+                                LayoutTransition.CHANGE_APPEARING : changeReason == LayoutTransition.DISAPPEARING ?
+                                LayoutTransition.CHANGE_DISAPPEARING : LayoutTransition.CHANGING);
+                        }
+                    }
+                }
+            }
+            return new _Inner();
+        })());
+        child.addOnLayoutChangeListener(listener);
+        // cache the listener for later removal
+        this.layoutChangeListenerMap.set(child, listener);
+    }
+
+    /**
+     * Starts the animations set up for a CHANGING transition. We separate the setup of these
+     * animations from actually starting them, to avoid side-effects that starting the animations
+     * may have on the properties of the affected objects. After setup, we tell the affected parent
+     * that this transition should be started. The parent informs its ViewAncestor, which then
+     * starts the transition after the current layout/measurement phase, just prior to drawing
+     * the view hierarchy.
+     */
+    startChangingAnimations():void  {
+        for (let anim of Array.from(this.currentChangingAnimations.values())) {
+            if (anim instanceof ObjectAnimator) {
+                (<ObjectAnimator>anim).setCurrentPlayTime(0);
+            }
+            anim.start();
+        }
+    }
+
+    /**
+     * Ends the animations that are set up for a CHANGING transition. This is a variant of
+     * startChangingAnimations() which is called when the window the transition is playing in
+     * is not visible. We need to make sure the animations put their targets in their end states
+     * and that the transition finishes to remove any mid-process state (such as isRunning()).
+     */
+    endChangingAnimations():void  {
+        for (let anim of Array.from(this.currentChangingAnimations.values())) {
+            anim.start();
+            anim.end();
+        }
+        // listeners should clean up the currentChangingAnimations list, but just in case...
+        this.currentChangingAnimations.clear();
+    }
+
+    /**
+     * Returns true if animations are running which animate layout-related properties. This
+     * essentially means that either CHANGE_APPEARING or CHANGE_DISAPPEARING animations
+     * are running, since these animations operate on layout-related properties.
+     *
+     * @return true if CHANGE_APPEARING or CHANGE_DISAPPEARING animations are currently
+     * running.
+     */
+    isChangingLayout():boolean  {
+        return (this.currentChangingAnimations.size > 0);
+    }
+
+    /**
+     * Returns true if any of the animations in this transition are currently running.
+     *
+     * @return true if any animations in the transition are running.
+     */
+    isRunning():boolean  {
+        return (this.currentChangingAnimations.size > 0 || this.currentAppearingAnimations.size > 0
+            || this.currentDisappearingAnimations.size > 0);
+    }
+
+    /**
+     * Cancels the currently running transition. With a transitionType, only the animations
+     * of that type are cancelled (changing animations are cancelled, appearing and
+     * disappearing animations are ended at their final state).
+     *
+     * @param transitionType One of {@link #CHANGE_APPEARING}, {@link #CHANGE_DISAPPEARING},
+     * {@link #CHANGING}, {@link #APPEARING}, or {@link #DISAPPEARING}. All types when omitted.
+     */
+    cancel(transitionType?:number):void  {
+        if (transitionType == null) {
+            this.cancel(LayoutTransition.CHANGING);
+            this.cancel(LayoutTransition.APPEARING);
+            this.cancel(LayoutTransition.DISAPPEARING);
+            return;
+        }
+        switch(transitionType) {
+            case LayoutTransition.CHANGE_APPEARING:
+            case LayoutTransition.CHANGE_DISAPPEARING:
+            case LayoutTransition.CHANGING:
+                if (this.currentChangingAnimations.size > 0) {
+                    for (let anim of Array.from(this.currentChangingAnimations.values())) {
+                        anim.cancel();
+                    }
+                    this.currentChangingAnimations.clear();
+                }
+                break;
+            case LayoutTransition.APPEARING:
+                if (this.currentAppearingAnimations.size > 0) {
+                    for (let anim of Array.from(this.currentAppearingAnimations.values())) {
+                        anim.end();
+                    }
+                    this.currentAppearingAnimations.clear();
+                }
+                break;
+            case LayoutTransition.DISAPPEARING:
+                if (this.currentDisappearingAnimations.size > 0) {
+                    for (let anim of Array.from(this.currentDisappearingAnimations.values())) {
+                        anim.end();
+                    }
+                    this.currentDisappearingAnimations.clear();
+                }
+                break;
+        }
+    }
+
+    /**
+     * This method runs the animation that makes an added item appear.
+     *
+     * @param parent The ViewGroup to which the View is being added.
+     * @param child The View being added to the ViewGroup.
+     */
+    private runAppearingTransition(parent:ViewGroup, child:View):void  {
+        let currentAnimation:Animator = this.currentDisappearingAnimations.get(child);
+        if (currentAnimation != null) {
+            currentAnimation.cancel();
+        }
+        if (this.mAppearingAnim == null) {
+            if (this.hasListeners()) {
+                for (let l of this.mListeners.clone().array) {
+                    l.endTransition(this, parent, child, LayoutTransition.APPEARING);
+                }
+            }
+            return;
+        }
+        let anim:Animator = this.mAppearingAnim.clone();
+        anim.setTarget(child);
+        anim.setStartDelay(this.mAppearingDelay);
+        anim.setDuration(this.mAppearingDuration);
+        if (this.mAppearingInterpolator != LayoutTransition.sAppearingInterpolator) {
+            anim.setInterpolator(this.mAppearingInterpolator);
+        }
+        if (anim instanceof ObjectAnimator) {
+            (<ObjectAnimator>anim).setCurrentPlayTime(0);
+        }
+        anim.addListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationEnd(anim:Animator):void  {
+                    _this.currentAppearingAnimations.delete(child);
+                    if (_this.hasListeners()) {
+                        for (let l of _this.mListeners.clone().array) {
+                            l.endTransition(_this, parent, child, LayoutTransition.APPEARING);
+                        }
+                    }
+                }
+            }
+            return new _Inner();
+        })());
+        this.currentAppearingAnimations.set(child, anim);
+        anim.start();
+    }
+
+    /**
+     * This method runs the animation that makes a removed item disappear.
+     *
+     * @param parent The ViewGroup from which the View is being removed.
+     * @param child The View being removed from the ViewGroup.
+     */
+    private runDisappearingTransition(parent:ViewGroup, child:View):void  {
+        let currentAnimation:Animator = this.currentAppearingAnimations.get(child);
+        if (currentAnimation != null) {
+            currentAnimation.cancel();
+        }
+        if (this.mDisappearingAnim == null) {
+            if (this.hasListeners()) {
+                for (let l of this.mListeners.clone().array) {
+                    l.endTransition(this, parent, child, LayoutTransition.DISAPPEARING);
+                }
+            }
+            return;
+        }
+        let anim:Animator = this.mDisappearingAnim.clone();
+        anim.setStartDelay(this.mDisappearingDelay);
+        anim.setDuration(this.mDisappearingDuration);
+        if (this.mDisappearingInterpolator != LayoutTransition.sDisappearingInterpolator) {
+            anim.setInterpolator(this.mDisappearingInterpolator);
+        }
+        anim.setTarget(child);
+        const preAnimAlpha:number = child.getAlpha();
+        anim.addListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationEnd(anim:Animator):void  {
+                    _this.currentDisappearingAnimations.delete(child);
+                    child.setAlpha(preAnimAlpha);
+                    if (_this.hasListeners()) {
+                        for (let l of _this.mListeners.clone().array) {
+                            l.endTransition(_this, parent, child, LayoutTransition.DISAPPEARING);
+                        }
+                    }
+                }
+            }
+            return new _Inner();
+        })());
+        if (anim instanceof ObjectAnimator) {
+            (<ObjectAnimator>anim).setCurrentPlayTime(0);
+        }
+        this.currentDisappearingAnimations.set(child, anim);
+        anim.start();
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be added to the
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The ViewGroup to which the View is being added.
+     * @param child The View being added to the ViewGroup.
+     * @param changesLayout Whether the removal will cause changes in the layout of other views
+     * in the container. INVISIBLE views becoming VISIBLE will not cause changes and thus will not
+     * affect CHANGE_APPEARING or CHANGE_DISAPPEARING animations.
+     */
+    private addChildInternal(parent:ViewGroup, child:View, changesLayout:boolean):void  {
+        if (parent.getWindowVisibility() != View.VISIBLE) {
+            return;
+        }
+        if ((this.mTransitionTypes & LayoutTransition.FLAG_APPEARING) == LayoutTransition.FLAG_APPEARING) {
+            // Want disappearing animations to finish up before proceeding
+            this.cancel(LayoutTransition.DISAPPEARING);
+        }
+        if (changesLayout && (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_APPEARING) == LayoutTransition.FLAG_CHANGE_APPEARING) {
+            // Also, cancel changing animations so that we start fresh ones from current locations
+            this.cancel(LayoutTransition.CHANGE_APPEARING);
+            this.cancel(LayoutTransition.CHANGING);
+        }
+        if (this.hasListeners() && (this.mTransitionTypes & LayoutTransition.FLAG_APPEARING) == LayoutTransition.FLAG_APPEARING) {
+            for (let l of this.mListeners.clone().array) {
+                l.startTransition(this, parent, child, LayoutTransition.APPEARING);
+            }
+        }
+        if (changesLayout && (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_APPEARING) == LayoutTransition.FLAG_CHANGE_APPEARING) {
+            this.runChangeTransition(parent, child, LayoutTransition.APPEARING);
+        }
+        if ((this.mTransitionTypes & LayoutTransition.FLAG_APPEARING) == LayoutTransition.FLAG_APPEARING) {
+            this.runAppearingTransition(parent, child);
+        }
+    }
+
+    private hasListeners():boolean  {
+        return this.mListeners != null && this.mListeners.size() > 0;
+    }
+
+    /**
+     * This method is called by ViewGroup when there is a call to layout() on the container
+     * with this LayoutTransition. If the CHANGING transition is enabled and if there is no other
+     * transition currently running on the container, then this call runs a CHANGING transition.
+     * The transition does not start immediately; it just sets up the mechanism to run if any
+     * of the children of the container change their layout parameters (similar to
+     * the CHANGE_APPEARING and CHANGE_DISAPPEARING transitions).
+     *
+     * @param parent The ViewGroup whose layout() method has been called.
+     */
+    layoutChange(parent:ViewGroup):void  {
+        if (parent.getWindowVisibility() != View.VISIBLE) {
+            return;
+        }
+        if ((this.mTransitionTypes & LayoutTransition.FLAG_CHANGING) == LayoutTransition.FLAG_CHANGING && !this.isRunning()) {
+            // This method is called for all calls to layout() in the container, including
+            // those caused by add/remove/hide/show events, which will already have set up
+            // transition animations. Avoid setting up CHANGING animations in this case; only
+            // do so when there is not a transition already running on the container.
+            this.runChangeTransition(parent, null, LayoutTransition.CHANGING);
+        }
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be added to the
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The ViewGroup to which the View is being added.
+     * @param child The View being added to the ViewGroup.
+     */
+    addChild(parent:ViewGroup, child:View):void  {
+        this.addChildInternal(parent, child, true);
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be made visible in the
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The ViewGroup in which the View is being made visible.
+     * @param child The View being made visible.
+     * @param oldVisibility The previous visibility value of the child View, either
+     * {@link View#GONE} or {@link View#INVISIBLE}.
+     */
+    showChild(parent:ViewGroup, child:View, oldVisibility = View.GONE):void  {
+        this.addChildInternal(parent, child, oldVisibility == View.GONE);
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be removed from the
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The ViewGroup from which the View is being removed.
+     * @param child The View being removed from the ViewGroup.
+     * @param changesLayout Whether the removal will cause changes in the layout of other views
+     * in the container. Views becoming INVISIBLE will not cause changes and thus will not
+     * affect CHANGE_APPEARING or CHANGE_DISAPPEARING animations.
+     */
+    private removeChildInternal(parent:ViewGroup, child:View, changesLayout:boolean):void  {
+        if (parent.getWindowVisibility() != View.VISIBLE) {
+            return;
+        }
+        if ((this.mTransitionTypes & LayoutTransition.FLAG_DISAPPEARING) == LayoutTransition.FLAG_DISAPPEARING) {
+            // Want appearing animations to finish up before proceeding
+            this.cancel(LayoutTransition.APPEARING);
+        }
+        if (changesLayout && (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_DISAPPEARING) == LayoutTransition.FLAG_CHANGE_DISAPPEARING) {
+            // Also, cancel changing animations so that we start fresh ones from current locations
+            this.cancel(LayoutTransition.CHANGE_DISAPPEARING);
+            this.cancel(LayoutTransition.CHANGING);
+        }
+        if (this.hasListeners() && (this.mTransitionTypes & LayoutTransition.FLAG_DISAPPEARING) == LayoutTransition.FLAG_DISAPPEARING) {
+            for (let l of this.mListeners.clone().array) {
+                l.startTransition(this, parent, child, LayoutTransition.DISAPPEARING);
+            }
+        }
+        if (changesLayout && (this.mTransitionTypes & LayoutTransition.FLAG_CHANGE_DISAPPEARING) == LayoutTransition.FLAG_CHANGE_DISAPPEARING) {
+            this.runChangeTransition(parent, child, LayoutTransition.DISAPPEARING);
+        }
+        if ((this.mTransitionTypes & LayoutTransition.FLAG_DISAPPEARING) == LayoutTransition.FLAG_DISAPPEARING) {
+            this.runDisappearingTransition(parent, child);
+        }
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be removed from the
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The ViewGroup from which the View is being removed.
+     * @param child The View being removed from the ViewGroup.
+     */
+    removeChild(parent:ViewGroup, child:View):void  {
+        this.removeChildInternal(parent, child, true);
+    }
+
+    /**
+     * This method is called by ViewGroup when a child view is about to be hidden in
+     * container. This callback starts the process of a transition; we grab the starting
+     * values, listen for changes to all of the children of the container, and start appropriate
+     * animations.
+     *
+     * @param parent The parent ViewGroup of the View being hidden.
+     * @param child The View being hidden.
+     * @param newVisibility The new visibility value of the child View, either
+     * {@link View#GONE} or {@link View#INVISIBLE}.
+     */
+    hideChild(parent:ViewGroup, child:View, newVisibility = View.GONE):void  {
+        this.removeChildInternal(parent, child, newVisibility == View.GONE);
+    }
+
+    /**
+     * Add a listener that will be called when the bounds of the view change due to
+     * layout processing.
+     *
+     * @param listener The listener that will be called when layout bounds change.
+     */
+    addTransitionListener(listener:LayoutTransition.TransitionListener):void  {
+        if (this.mListeners == null) {
+            this.mListeners = new ArrayList<LayoutTransition.TransitionListener>();
+        }
+        this.mListeners.add(listener);
+    }
+
+    /**
+     * Remove a listener for layout changes.
+     *
+     * @param listener The listener for layout bounds change.
+     */
+    removeTransitionListener(listener:LayoutTransition.TransitionListener):void  {
+        if (this.mListeners == null) {
+            return;
+        }
+        this.mListeners.remove(listener);
+    }
+
+    /**
+     * Gets the current list of listeners for layout changes.
+     * @return
+     */
+    getTransitionListeners():ArrayList<LayoutTransition.TransitionListener>  {
+        return this.mListeners;
+    }
+}
+
+export module LayoutTransition{
+/**
+ * This interface is used for listening to starting and ending events for transitions.
+ */
+export interface TransitionListener {
+
+    /**
+     * This event is sent to listeners when any type of transition animation begins.
+     *
+     * @param transition The LayoutTransition sending out the event.
+     * @param container The ViewGroup on which the transition is playing.
+     * @param view The View object being affected by the transition animation.
+     * @param transitionType The type of transition that is beginning,
+     * {@link android.animation.LayoutTransition#APPEARING},
+     * {@link android.animation.LayoutTransition#DISAPPEARING},
+     * {@link android.animation.LayoutTransition#CHANGE_APPEARING}, or
+     * {@link android.animation.LayoutTransition#CHANGE_DISAPPEARING}.
+     */
+    startTransition(transition:LayoutTransition, container:ViewGroup, view:View, transitionType:number):void ;
+
+    /**
+     * This event is sent to listeners when any type of transition animation ends.
+     *
+     * @param transition The LayoutTransition sending out the event.
+     * @param container The ViewGroup on which the transition is playing.
+     * @param view The View object being affected by the transition animation.
+     * @param transitionType The type of transition that is ending,
+     * {@link android.animation.LayoutTransition#APPEARING},
+     * {@link android.animation.LayoutTransition#DISAPPEARING},
+     * {@link android.animation.LayoutTransition#CHANGE_APPEARING}, or
+     * {@link android.animation.LayoutTransition#CHANGE_DISAPPEARING}.
+     */
+    endTransition(transition:LayoutTransition, container:ViewGroup, view:View, transitionType:number):void ;
+}
+}
+
+}
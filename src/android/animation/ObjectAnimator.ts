@@ -0,0 +1,372 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/animation/ArgbEvaluator.ts"/>
+///<reference path="../../android/animation/PropertyValuesHolder.ts"/>
+///<reference path="../../android/animation/TypeEvaluator.ts"/>
+///<reference path="../../android/animation/ValueAnimator.ts"/>
+
+module android.animation {
+import ArgbEvaluator = android.animation.ArgbEvaluator;
+import PropertyValuesHolder = android.animation.PropertyValuesHolder;
+import TypeEvaluator = android.animation.TypeEvaluator;
+import ValueAnimator = android.animation.ValueAnimator;
+/**
+ * This subclass of {@link ValueAnimator} provides support for animating properties on target objects.
+ * The constructors of this class take parameters to define the target object that will be animated
+ * as well as the name of the property that will be animated. Appropriate set/get functions
+ * are then determined internally and the animation will call these functions as necessary to
+ * animate the property.
+ * <p>
+ * For a {@link android.view.View} target the property names are the names of its setters, e.g.
+ * <code>ObjectAnimator.ofFloat(view, "translationX", 0, 100)</code> calls
+ * <code>view.setTranslationX()</code> on every frame. A target without a setter for the property
+ * has the field of the same name animated, which allows animating plain objects as well.
+ *
+ * @see #setPropertyName(String)
+ */
+export class ObjectAnimator extends ValueAnimator {
+
+    // The target object on which the property exists, set in the constructor
+    private mTarget:any;
+
+    private mPropertyName:string;
+
+    /**
+     * Sets the name of the property that will be animated. This name is used to derive
+     * a setter function that will be called to set animated values.
+     * For example, a property name of <code>foo</code> will result
+     * in a call to the function <code>setFoo()</code> on the target object. If either
+     * <code>valueFrom</code> or <code>valueTo</code> is null, then a getter function will
+     * also be derived and called.
+     *
+     * <p>Note that the setter function derived from this property name
+     * must take the same parameter type as the
+     * <code>valueFrom</code> and <code>valueTo</code> properties, otherwise the call to
+     * the setter function will fail.</p>
+     *
+     * <p>If this ObjectAnimator has been set up to animate several properties together,
+     * using more than one PropertyValuesHolder objects, then setting the propertyName simply
+     * sets the propertyName in the first of those PropertyValuesHolder objects.</p>
+     *
+     * @param propertyName The name of the property being animated. Should not be null.
+     */
+    setPropertyName(propertyName:string):void  {
+        // mValues could be null if this is being constructed piecemeal. Just record the
+        // propertyName to be used later when setValues() is called if so.
+        if (this.mValues != null) {
+            let valuesHolder:PropertyValuesHolder = this.mValues[0];
+            let oldName:string = valuesHolder.getPropertyName();
+            valuesHolder.setPropertyName(propertyName);
+            this.mValuesMap.delete(oldName);
+            this.mValuesMap.set(propertyName, valuesHolder);
+        }
+        this.mPropertyName = propertyName;
+        // New property/values/target should cause re-initialization prior to starting
+        this.mInitialized = false;
+    }
+
+    /**
+     * Gets the name of the property that will be animated. This name will be used to derive
+     * a setter function that will be called to set animated values.
+     * For example, a property name of <code>foo</code> will result
+     * in a call to the function <code>setFoo()</code> on the target object. If either
+     * <code>valueFrom</code> or <code>valueTo</code> is null, then a getter function will
+     * also be derived and called.
+     *
+     * <p>If this animator was created with a PropertyValuesHolder[], then this property name
+     * is the names of the properties of the holders, joined with ','.</p>
+     */
+    getPropertyName():string  {
+        let propertyName:string = null;
+        if (this.mPropertyName != null) {
+            propertyName = this.mPropertyName;
+        } else if (this.mValues != null && this.mValues.length > 0) {
+            for (let i:number = 0; i < this.mValues.length; ++i) {
+                if (i == 0) {
+                    propertyName = "";
+                } else {
+                    propertyName += ",";
+                }
+                propertyName += this.mValues[i].getPropertyName();
+            }
+        }
+        return propertyName;
+    }
+
+    /**
+     * Creates a new ObjectAnimator object. This default constructor is primarily for
+     * use internally; the factory methods which take parameters are more generally
+     * useful.
+     *
+     * @param target The object whose property is to be animated.
+     * @param propertyName The name of the property being animated.
+     */
+    constructor(target?:any, propertyName?:string) {
+        super();
+        this.mTarget = target;
+        if (propertyName != null) {
+            this.setPropertyName(propertyName);
+        }
+    }
+
+    /**
+     * Constructs and returns an ObjectAnimator that animates between int values. A single
+     * value implies that that value is the one being animated to. Two values imply starting
+     * and ending values. More than two values imply a starting value, values to animate through
+     * along the way, and an ending value (these values will be distributed evenly across
+     * the duration of the animation).
+     *
+     * @param target The object whose property is to be animated. This object should
+     * have a public method on it called <code>setName()</code>, where <code>name</code> is
+     * the value of the <code>propertyName</code> parameter.
+     * @param propertyName The name of the property being animated.
+     * @param values A set of values that the animation will animate between over time.
+     * @return An ObjectAnimator object that is set up to animate between the given values.
+     */
+    static ofInt(target:any, propertyName:any, ...values:number[]):ObjectAnimator  {
+        let anim:ObjectAnimator = new ObjectAnimator(target, propertyName);
+        anim.setIntValues(...values);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns an ObjectAnimator that animates between color values. A single
+     * value implies that that value is the one being animated to. Two values imply starting
+     * and ending values. More than two values imply a starting value, values to animate through
+     * along the way, and an ending value (these values will be distributed evenly across
+     * the duration of the animation).
+     *
+     * @param target The object whose property is to be animated. This object should
+     * have a public method on it called <code>setName()</code>, where <code>name</code> is
+     * the value of the <code>propertyName</code> parameter.
+     * @param propertyName The name of the property being animated.
+     * @param values A set of values that the animation will animate between over time.
+     * @return An ObjectAnimator object that is set up to animate between the given values.
+     */
+    static ofArgb(target:any, propertyName:any, ...values:number[]):ObjectAnimator  {
+        let animator:ObjectAnimator = ObjectAnimator.ofInt(target, propertyName, ...values);
+        animator.setEvaluator(ArgbEvaluator.getInstance());
+        return animator;
+    }
+
+    /**
+     * Constructs and returns an ObjectAnimator that animates between float values. A single
+     * value implies that that value is the one being animated to. Two values imply starting
+     * and ending values. More than two values imply a starting value, values to animate through
+     * along the way, and an ending value (these values will be distributed evenly across
+     * the duration of the animation).
+     *
+     * @param target The object whose property is to be animated. This object should
+     * have a public method on it called <code>setName()</code>, where <code>name</code> is
+     * the value of the <code>propertyName</code> parameter.
+     * @param propertyName The name of the property being animated.
+     * @param values A set of values that the animation will animate between over time.
+     * @return An ObjectAnimator object that is set up to animate between the given values.
+     */
+    static ofFloat(target:any, propertyName:any, ...values:number[]):ObjectAnimator  {
+        let anim:ObjectAnimator = new ObjectAnimator(target, propertyName);
+        anim.setFloatValues(...values);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns an ObjectAnimator that animates between Object values. A single
+     * value implies that that value is the one being animated to. Two values imply starting
+     * and ending values. More than two values imply a starting value, values to animate through
+     * along the way, and an ending value (these values will be distributed evenly across
+     * the duration of the animation).
+     *
+     * @param target The object whose property is to be animated. This object should
+     * have a public method on it called <code>setName()</code>, where <code>name</code> is
+     * the value of the <code>propertyName</code> parameter.
+     * @param propertyName The name of the property being animated.
+     * @param evaluator A TypeEvaluator that will be called on each animation frame to
+     * provide the necessary interpolation between the Object values to derive the animated
+     * value.
+     * @param values A set of values that the animation will animate between over time.
+     * @return An ObjectAnimator object that is set up to animate between the given values.
+     */
+    static ofObject(target:any, propertyName:any, evaluator:TypeEvaluator<any>, ...values:any[]):ObjectAnimator  {
+        let anim:ObjectAnimator = new ObjectAnimator(target, propertyName);
+        anim.setObjectValues(...values);
+        anim.setEvaluator(evaluator);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns an ObjectAnimator that animates between the sets of values specified
+     * in <code>PropertyValueHolder</code> objects. This variant should be used when animating
+     * several properties at once with the same ObjectAnimator, since PropertyValuesHolder allows
+     * you to associate a set of animation values with a property name.
+     *
+     * @param target The object whose property is to be animated. The target object should have
+     * public methods on it called <code>setName()</code>, where <code>name</code> is the name of
+     * the property passed in as the <code>propertyName</code> parameter for each of the
+     * PropertyValuesHolder objects.
+     * @param values A set of PropertyValuesHolder objects whose values will be animated between
+     * over time.
+     * @return An ObjectAnimator object that is set up to animate between the given values.
+     */
+    static ofPropertyValuesHolder(target:any, ...values:PropertyValuesHolder[]):ObjectAnimator  {
+        let anim:ObjectAnimator = new ObjectAnimator();
+        anim.mTarget = target;
+        anim.setValues(...values);
+        return anim;
+    }
+
+    setIntValues(...values:number[]):void  {
+        if (this.mValues == null || this.mValues.length == 0) {
+            // No values yet - this animator is being constructed piecemeal. Init the values with
+            // whatever the current propertyName is
+            this.setValues(PropertyValuesHolder.ofInt(this.mPropertyName, ...values));
+        } else {
+            super.setIntValues(...values);
+        }
+    }
+
+    setFloatValues(...values:number[]):void  {
+        if (this.mValues == null || this.mValues.length == 0) {
+            // No values yet - this animator is being constructed piecemeal. Init the values with
+            // whatever the current propertyName is
+            this.setValues(PropertyValuesHolder.ofFloat(this.mPropertyName, ...values));
+        } else {
+            super.setFloatValues(...values);
+        }
+    }
+
+    setObjectValues(...values:any[]):void  {
+        if (this.mValues == null || this.mValues.length == 0) {
+            // No values yet - this animator is being constructed piecemeal. Init the values with
+            // whatever the current propertyName is
+            this.setValues(PropertyValuesHolder.ofObject(this.mPropertyName, null, ...values));
+        } else {
+            super.setObjectValues(...values);
+        }
+    }
+
+    /**
+     * This function is called immediately before processing the first animation
+     * frame of an animation. If there is a nonzero <code>startDelay</code>, the
+     * function is called after that delay ends.
+     * It takes care of the final initialization steps for the
+     * animation. This includes setting mEvaluator, if the user has not yet
+     * set it up, and the setter/getter methods, if the user did not supply
+     * them.
+     *
+     *  <p>Overriders of this method should call the superclass method to cause
+     *  internal mechanisms to be set up correctly.</p>
+     */
+    initAnimation():void  {
+        if (!this.mInitialized) {
+            // mValueType may change due to setter/getter setup; do this before calling super.init(),
+            // which uses mValueType to set up the default type evaluator.
+            let numValues:number = this.mValues.length;
+            for (let i:number = 0; i < numValues; ++i) {
+                this.mValues[i].setupSetterAndGetter(this.mTarget);
+            }
+            super.initAnimation();
+        }
+    }
+
+    /**
+     * Sets the length of the animation. The default duration is 300 milliseconds.
+     *
+     * @param duration The length of the animation, in milliseconds.
+     * @return ObjectAnimator The object called with setDuration(). This return
+     * value makes it easier to compose statements together that construct and then set the
+     * duration, as in
+     * <code>ObjectAnimator.ofInt(target, propertyName, 0, 10).setDuration(500).start()</code>.
+     */
+    setDuration(duration:number):ObjectAnimator  {
+        super.setDuration(duration);
+        return this;
+    }
+
+    /**
+     * The target object whose property will be animated by this animation
+     *
+     * @return The object being animated
+     */
+    getTarget():any  {
+        return this.mTarget;
+    }
+
+    /**
+     * Sets the target object whose property will be animated by this animation
+     *
+     * @param target The object being animated
+     */
+    setTarget(target:any):void  {
+        if (this.mTarget != target) {
+            this.mTarget = target;
+            // New target should cause re-initialization prior to starting
+            this.mInitialized = false;
+        }
+    }
+
+    setupStartValues():void  {
+        this.initAnimation();
+        let numValues:number = this.mValues.length;
+        for (let i:number = 0; i < numValues; ++i) {
+            this.mValues[i].setupStartValue(this.mTarget);
+        }
+    }
+
+    setupEndValues():void  {
+        this.initAnimation();
+        let numValues:number = this.mValues.length;
+        for (let i:number = 0; i < numValues; ++i) {
+            this.mValues[i].setupEndValue(this.mTarget);
+        }
+    }
+
+    /**
+     * This method is called with the elapsed fraction of the animation during every
+     * animation frame. This function turns the elapsed fraction into an interpolated fraction
+     * and then into an animated value (from the evaluator. The function is called mostly during
+     * animation updates, but it is also called when the <code>end()</code>
+     * function is called, to set the final value on the property.
+     *
+     * <p>Overrides of this method must call the superclass to perform the calculation
+     * of the animated value.</p>
+     *
+     * @param fraction The elapsed fraction of the animation.
+     */
+    animateValue(fraction:number):void  {
+        super.animateValue(fraction);
+        let numValues:number = this.mValues.length;
+        for (let i:number = 0; i < numValues; ++i) {
+            this.mValues[i].setAnimatedValue(this.mTarget);
+        }
+    }
+
+    clone():ObjectAnimator  {
+        const anim:ObjectAnimator = <ObjectAnimator>super.clone();
+        return anim;
+    }
+
+    toString():string  {
+        let returnVal:string = "ObjectAnimator, target " + this.mTarget;
+        if (this.mValues != null) {
+            for (let i:number = 0; i < this.mValues.length; ++i) {
+                returnVal += "\n    " + this.mValues[i].toString();
+            }
+        }
+        return returnVal;
+    }
+}
+}
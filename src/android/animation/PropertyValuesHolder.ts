@@ -0,0 +1,442 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../android/animation/FloatEvaluator.ts"/>
+///<reference path="../../android/animation/IntEvaluator.ts"/>
+///<reference path="../../android/animation/Keyframe.ts"/>
+///<reference path="../../android/animation/KeyframeSet.ts"/>
+///<reference path="../../android/animation/TypeEvaluator.ts"/>
+
+module android.animation {
+import Log = android.util.Log;
+import FloatEvaluator = android.animation.FloatEvaluator;
+import IntEvaluator = android.animation.IntEvaluator;
+import Keyframe = android.animation.Keyframe;
+import KeyframeSet = android.animation.KeyframeSet;
+import TypeEvaluator = android.animation.TypeEvaluator;
+/**
+ * This class holds information about a property and the values that that property
+ * should take on during an animation. PropertyValuesHolder objects can be used to create
+ * animations with ValueAnimator or ObjectAnimator that operate on several different properties
+ * in parallel.
+ * <p>
+ * The property of the target object is set through its setter method, resolved by name
+ * (e.g. "alpha" uses <code>setAlpha()</code> and <code>getAlpha()</code> of a View). If the
+ * target has no such setter, the field of the same name is set directly.
+ */
+export class PropertyValuesHolder {
+
+    private static TAG:string = "PropertyValuesHolder";
+
+    /**
+     * The name of the property associated with the values. This need not be a real property,
+     * unless this object is being used with ObjectAnimator. But this is the name by which
+     * aniamted values are looked up with getAnimatedValue(String) in ValueAnimator.
+     */
+    mPropertyName:string;
+
+    /**
+     * The setter function, if needed. ObjectAnimator hands off this functionality to
+     * PropertyValuesHolder, since it holds all of the per-property information. This
+     * property is automatically derived when the animation starts in setupSetterAndGetter()
+     * if using ObjectAnimator.
+     */
+    private mSetter:Function = null;
+
+    /**
+     * The getter function, if needed. ObjectAnimator hands off this functionality to
+     * PropertyValuesHolder, since it holds all of the per-property information. This
+     * property is automatically derived when the animation starts in setupSetterAndGetter()
+     * if using ObjectAnimator. The getter is only derived and used if one or more
+     * Keyframe objects in the current KeyframeSet is not set.
+     */
+    private mGetter:Function = null;
+
+    /**
+     * Whether the target has no setter and the field of the property name is used instead.
+     */
+    private mUseField:boolean = false;
+
+    /**
+     * The type of values supplied. This information is used both in deriving the setter/getter
+     * functions and in deriving the type of TypeEvaluator.
+     */
+    mValueType:Keyframe.ValueType;
+
+    /**
+     * The set of keyframes (time/value pairs) that define this animation.
+     */
+    mKeyframeSet:KeyframeSet = null;
+
+    // type evaluators for the primitive types handled by this implementation
+    private static sIntEvaluator:TypeEvaluator<number> = new IntEvaluator();
+
+    private static sFloatEvaluator:TypeEvaluator<number> = new FloatEvaluator();
+
+    /**
+     * The type evaluator used to calculate the animated values. This evaluator is determined
+     * automatically based on the type of the start/end objects passed into the constructor,
+     * but the system only knows about the primitive types int and float. Any other
+     * type will need to set the evaluator to a custom evaluator for that type.
+     */
+    private mEvaluator:TypeEvaluator<any>;
+
+    /**
+     * The value most recently calculated by calculateValue(). This is set during
+     * that function and might be retrieved later either by ValueAnimator.animatedValue() or
+     * by the property-setting logic in ObjectAnimator.animatedValue().
+     */
+    private mAnimatedValue:any;
+
+    /**
+     * Internal utility constructor, used by the factory methods to set the property name.
+     * @param propertyName The name of the property for this holder.
+     */
+    constructor(propertyName:string) {
+        this.mPropertyName = propertyName;
+    }
+
+    /**
+     * Constructs and returns a PropertyValuesHolder with a given property name and
+     * set of int values.
+     * @param propertyName The name of the property being animated.
+     * @param values The values that the named property will animate between.
+     * @return PropertyValuesHolder The constructed PropertyValuesHolder object.
+     */
+    static ofInt(propertyName:string, ...values:number[]):PropertyValuesHolder  {
+        let pvh:PropertyValuesHolder = new PropertyValuesHolder(propertyName);
+        pvh.setIntValues(...values);
+        return pvh;
+    }
+
+    /**
+     * Constructs and returns a PropertyValuesHolder with a given property name and
+     * set of float values.
+     * @param propertyName The name of the property being animated.
+     * @param values The values that the named property will animate between.
+     * @return PropertyValuesHolder The constructed PropertyValuesHolder object.
+     */
+    static ofFloat(propertyName:string, ...values:number[]):PropertyValuesHolder  {
+        let pvh:PropertyValuesHolder = new PropertyValuesHolder(propertyName);
+        pvh.setFloatValues(...values);
+        return pvh;
+    }
+
+    /**
+     * Constructs and returns a PropertyValuesHolder with a given property name and
+     * set of Object values. This variant also takes a TypeEvaluator because the system
+     * cannot automatically interpolate between objects of unknown type.
+     *
+     * @param propertyName The name of the property being animated.
+     * @param evaluator A TypeEvaluator that will be called on each animation frame to
+     * provide the necessary interpolation between the Object values to derive the animated
+     * value.
+     * @param values The values that the named property will animate between.
+     * @return PropertyValuesHolder The constructed PropertyValuesHolder object.
+     */
+    static ofObject(propertyName:string, evaluator:TypeEvaluator<any>, ...values:any[]):PropertyValuesHolder  {
+        let pvh:PropertyValuesHolder = new PropertyValuesHolder(propertyName);
+        pvh.setObjectValues(...values);
+        pvh.setEvaluator(evaluator);
+        return pvh;
+    }
+
+    /**
+     * Constructs and returns a PropertyValuesHolder object with the specified property name and set
+     * of values. These values can be of any type, but the type should be consistent so that
+     * an appropriate {@link android.animation.TypeEvaluator} can be found that matches
+     * the common type.
+     * <p>If there is only one value, it is assumed to be the end value of an animation,
+     * and an initial value will be derived, if possible, by calling a getter function
+     * on the object. Also, if any value is null, the value will be filled in when the animation
+     * starts in the same way. This mechanism of automatically getting null values only works
+     * if the PropertyValuesHolder object is used in conjunction
+     * {@link ObjectAnimator}, and with a getter function
+     * derived automatically from <code>propertyName</code>, since otherwise PropertyValuesHolder has
+     * no way of determining what the value should be.
+     * @param propertyName The name of the property associated with this set of values. This
+     * can be the actual property name to be used when using a ObjectAnimator object, or
+     * just a name used to get animated values, such as if this object is used with an
+     * ValueAnimator object.
+     * @param values The set of values to animate between.
+     */
+    static ofKeyframe(propertyName:string, ...values:Keyframe[]):PropertyValuesHolder  {
+        let pvh:PropertyValuesHolder = new PropertyValuesHolder(propertyName);
+        pvh.mKeyframeSet = KeyframeSet.ofKeyframe(...values);
+        pvh.mValueType = values[0].getType();
+        return pvh;
+    }
+
+    /**
+     * Set the animated values for this object to this set of ints.
+     * If there is only one value, it is assumed to be the end value of an animation,
+     * and an initial value will be derived, if possible, by calling a getter function
+     * on the object. Also, if any value is null, the value will be filled in when the animation
+     * starts in the same way. This mechanism of automatically getting null values only works
+     * if the PropertyValuesHolder object is used in conjunction
+     * {@link ObjectAnimator}, and with a getter function
+     * derived automatically from <code>propertyName</code>, since otherwise PropertyValuesHolder has
+     * no way of determining what the value should be.
+     *
+     * @param values One or more values that the animation will animate between.
+     */
+    setIntValues(...values:number[]):void  {
+        this.mValueType = Keyframe.ValueType.INT;
+        this.mKeyframeSet = KeyframeSet.ofInt(...values);
+    }
+
+    /**
+     * Set the animated values for this object to this set of floats.
+     * If there is only one value, it is assumed to be the end value of an animation,
+     * and an initial value will be derived, if possible, by calling a getter function
+     * on the object. Also, if any value is null, the value will be filled in when the animation
+     * starts in the same way. This mechanism of automatically getting null values only works
+     * if the PropertyValuesHolder object is used in conjunction
+     * {@link ObjectAnimator}, and with a getter function
+     * derived automatically from <code>propertyName</code>, since otherwise PropertyValuesHolder has
+     * no way of determining what the value should be.
+     *
+     * @param values One or more values that the animation will animate between.
+     */
+    setFloatValues(...values:number[]):void  {
+        this.mValueType = Keyframe.ValueType.FLOAT;
+        this.mKeyframeSet = KeyframeSet.ofFloat(...values);
+    }
+
+    /**
+     * Set the animated values for this object to this set of Objects.
+     * If there is only one value, it is assumed to be the end value of an animation,
+     * and an initial value will be derived, if possible, by calling a getter function
+     * on the object. Also, if any value is null, the value will be filled in when the animation
+     * starts in the same way. This mechanism of automatically getting null values only works
+     * if the PropertyValuesHolder object is used in conjunction
+     * {@link ObjectAnimator}, and with a getter function
+     * derived automatically from <code>propertyName</code>, since otherwise PropertyValuesHolder has
+     * no way of determining what the value should be.
+     *
+     * @param values One or more values that the animation will animate between.
+     */
+    setObjectValues(...values:any[]):void  {
+        this.mValueType = Keyframe.ValueType.OBJECT;
+        this.mKeyframeSet = KeyframeSet.ofObject(...values);
+        if (this.mEvaluator != null) {
+            this.mKeyframeSet.setEvaluator(this.mEvaluator);
+        }
+    }
+
+    /**
+     * Utility function to get the setter (and the getter, if any keyframe has no value yet)
+     * from the target object by the property name. If the target has no setter method,
+     * the field of the property name is used.
+     */
+    setupSetterAndGetter(target:any):void  {
+        this.mSetter = null;
+        this.mGetter = null;
+        this.mUseField = false;
+        let setter = target[PropertyValuesHolder.getMethodName("set", this.mPropertyName)];
+        let getter = target[PropertyValuesHolder.getMethodName("get", this.mPropertyName)];
+        if (typeof setter === 'function') {
+            this.mSetter = setter;
+        } else if (this.mPropertyName in target) {
+            this.mUseField = true;
+        } else {
+            Log.e(PropertyValuesHolder.TAG, "Couldn't find setter or field for property " + this.mPropertyName + " on target " + target);
+        }
+        if (typeof getter === 'function') {
+            this.mGetter = getter;
+        }
+        for (let kf of this.mKeyframeSet.mKeyframes.getArray()) {
+            if (!kf.hasValue()) {
+                this.setupValue(target, kf);
+            }
+        }
+    }
+
+    /**
+     * Utility function to set the value stored in a particular Keyframe. The value used is
+     * whatever the value is for the property name specified in the keyframe on the target object.
+     *
+     * @param target The target object from which the current value should be extracted.
+     * @param kf The keyframe which holds the property name and value.
+     */
+    private setupValue(target:any, kf:Keyframe):void  {
+        if (this.mGetter != null) {
+            kf.setValue(this.mGetter.call(target));
+        } else if (this.mPropertyName in target) {
+            kf.setValue(target[this.mPropertyName]);
+        } else {
+            Log.e(PropertyValuesHolder.TAG, "Couldn't find getter or field for property " + this.mPropertyName + " on target " + target);
+        }
+    }
+
+    /**
+     * This function is called by ObjectAnimator when setting the start values for an animation.
+     * The start values are set according to the current values in the target object. The
+     * property whose value is extracted is whatever is specified by the propertyName of this
+     * PropertyValuesHolder object.
+     *
+     * @param target The object which holds the start values that should be set.
+     */
+    setupStartValue(target:any):void  {
+        this.setupValue(target, this.mKeyframeSet.mKeyframes.get(0));
+    }
+
+    /**
+     * This function is called by ObjectAnimator when setting the end values for an animation.
+     * The end values are set according to the current values in the target object. The
+     * property whose value is extracted is whatever is specified by the propertyName of this
+     * PropertyValuesHolder object.
+     *
+     * @param target The object which holds the start values that should be set.
+     */
+    setupEndValue(target:any):void  {
+        this.setupValue(target, this.mKeyframeSet.mKeyframes.get(this.mKeyframeSet.mKeyframes.size() - 1));
+    }
+
+    /**
+     * Internal function, called by ValueAnimator and ObjectAnimator, to set the value on
+     * the target object.
+     *
+     * @param target The target object on which the value is set
+     */
+    setAnimatedValue(target:any):void  {
+        if (this.mSetter != null) {
+            this.mSetter.call(target, this.getAnimatedValue());
+        } else if (this.mUseField) {
+            target[this.mPropertyName] = this.getAnimatedValue();
+        }
+    }
+
+    /**
+     * Internal function, called by ValueAnimator, to set up the TypeEvaluator that will be used
+     * to calculate animated values.
+     */
+    init():void  {
+        if (this.mEvaluator == null) {
+            // We already handle int and float automatically, but not their Object
+            // equivalents
+            this.mEvaluator = (this.mValueType == Keyframe.ValueType.INT) ? PropertyValuesHolder.sIntEvaluator :
+                (this.mValueType == Keyframe.ValueType.FLOAT) ? PropertyValuesHolder.sFloatEvaluator : null;
+        }
+        if (this.mEvaluator != null) {
+            // KeyframeSet knows how to evaluate the common types - only give it a custom
+            // evaluator if one has been set on this class
+            this.mKeyframeSet.setEvaluator(this.mEvaluator);
+        }
+    }
+
+    /**
+     * The TypeEvaluator will be automatically determined based on the type of values
+     * supplied to PropertyValuesHolder. The evaluator can be manually set, however, if so
+     * desired. This may be important in cases where either the type of the values supplied
+     * do not match the way that they should be interpolated between, or if the values
+     * are of a custom type or one not currently understood by the animation system. Currently,
+     * only values of type float and int (and their Object equivalents: Float
+     * and Integer) are  correctly interpolated; all other types require setting a TypeEvaluator.
+     * @param evaluator
+     */
+    setEvaluator(evaluator:TypeEvaluator<any>):void  {
+        this.mEvaluator = evaluator;
+        this.mKeyframeSet.setEvaluator(evaluator);
+    }
+
+    /**
+     * Function used to calculate the value according to the evaluator set up for
+     * this PropertyValuesHolder object. This function is called by ValueAnimator.animateValue().
+     *
+     * @param fraction The elapsed, interpolated fraction of the animation.
+     */
+    calculateValue(fraction:number):void  {
+        this.mAnimatedValue = this.mKeyframeSet.getValue(fraction);
+    }
+
+    /**
+     * Sets the name of the property that will be animated. This name is used to derive
+     * a setter function that will be called to set animated values.
+     * For example, a property name of <code>foo</code> will result
+     * in a call to the function <code>setFoo()</code> on the target object. If either
+     * <code>valueFrom</code> or <code>valueTo</code> is null, then a getter function will
+     * also be derived and called.
+     *
+     * <p>Note that the setter function derived from this property name
+     * must take the same parameter type as the
+     * <code>valueFrom</code> and <code>valueTo</code> properties, otherwise the call to
+     * the setter function will fail.</p>
+     *
+     * @param propertyName The name of the property being animated.
+     */
+    setPropertyName(propertyName:string):void  {
+        this.mPropertyName = propertyName;
+    }
+
+    /**
+     * Gets the name of the property that will be animated. This name will be used to derive
+     * a setter function that will be called to set animated values.
+     * For example, a property name of <code>foo</code> will result
+     * in a call to the function <code>setFoo()</code> on the target object. If either
+     * <code>valueFrom</code> or <code>valueTo</code> is null, then a getter function will
+     * also be derived and called.
+     */
+    getPropertyName():string  {
+        return this.mPropertyName;
+    }
+
+    /**
+     * Internal function, called by ValueAnimator and ObjectAnimator, to retrieve the value
+     * most recently calculated in calculateValue().
+     * @return
+     */
+    getAnimatedValue():any  {
+        return this.mAnimatedValue;
+    }
+
+    clone():PropertyValuesHolder  {
+        const newPVH:PropertyValuesHolder = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        newPVH.mPropertyName = this.mPropertyName;
+        newPVH.mKeyframeSet = this.mKeyframeSet.clone();
+        newPVH.mEvaluator = this.mEvaluator;
+        return newPVH;
+    }
+
+    toString():string  {
+        return this.mPropertyName + ": " + this.mKeyframeSet.toString();
+    }
+
+    /**
+     * Utility method to derive a setter/getter method name from a property name, where the
+     * prefix is typically "set" or "get" and the first letter of the property name is
+     * capitalized.
+     *
+     * @param prefix The precursor to the method name, before the property name begins, typically
+     * "set" or "get".
+     * @param propertyName The name of the property that represents the bulk of the method name
+     * after the prefix. The first letter of this word will be capitalized in the resulting
+     * method name.
+     * @return String the property name converted to a method name according to the conventions
+     * specified above.
+     */
+    static getMethodName(prefix:string, propertyName:string):string  {
+        if (propertyName == null || propertyName.length == 0) {
+            // shouldn't get here
+            return prefix;
+        }
+        let firstLetter:string = propertyName.charAt(0).toUpperCase();
+        let theRest:string = propertyName.substring(1);
+        return prefix + firstLetter + theRest;
+    }
+}
+}
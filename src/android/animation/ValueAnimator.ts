@@ -0,0 +1,1234 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/os/Handler.ts"/>
+///<reference path="../../android/view/animation/AccelerateDecelerateInterpolator.ts"/>
+///<reference path="../../android/view/animation/AnimationUtils.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../android/view/animation/LinearInterpolator.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../android/animation/Animator.ts"/>
+///<reference path="../../android/animation/ArgbEvaluator.ts"/>
+///<reference path="../../android/animation/PropertyValuesHolder.ts"/>
+///<reference path="../../android/animation/TypeEvaluator.ts"/>
+
+module android.animation {
+import Handler = android.os.Handler;
+import AccelerateDecelerateInterpolator = android.view.animation.AccelerateDecelerateInterpolator;
+import AnimationUtils = android.view.animation.AnimationUtils;
+import Interpolator = android.view.animation.Interpolator;
+import LinearInterpolator = android.view.animation.LinearInterpolator;
+import Runnable = java.lang.Runnable;
+import ArrayList = java.util.ArrayList;
+import Animator = android.animation.Animator;
+import ArgbEvaluator = android.animation.ArgbEvaluator;
+import PropertyValuesHolder = android.animation.PropertyValuesHolder;
+import TypeEvaluator = android.animation.TypeEvaluator;
+/**
+ * This class provides a simple timing engine for running animations
+ * which calculate animated values and set them on target objects.
+ *
+ * <p>There is a single timing pulse that all animations use. It runs on the
+ * frame loop that {@link android.view.ViewRootImpl} traverses the views on,
+ * and the animated values of a frame are calculated before the views are drawn.</p>
+ *
+ * <p>By default, ValueAnimator uses non-linear time interpolation, via the
+ * {@link AccelerateDecelerateInterpolator} class, which accelerates into and decelerates
+ * out of an animation. This behavior can be changed by calling
+ * {@link ValueAnimator#setInterpolator(Interpolator)}.</p>
+ */
+export class ValueAnimator extends Animator {
+
+    /**
+     * Values used with internal variable mPlayingState to indicate the current state of an
+     * animation.
+     */
+    static STOPPED:number = 0; // Not yet started
+
+    static RUNNING:number = 1; // Playing normally
+
+    static SEEKED:number = 2; // Seeked to some time value
+
+    // The first time that the animation's animateFrame() method is called. This time is used to
+    // determine elapsed time (and therefore the elapsed fraction) in subsequent calls
+    // to animateFrame()
+    mStartTime:number = 0;
+
+    /**
+     * Set when setCurrentPlayTime() is called. If negative, animation is not currently seeked
+     * to a value.
+     */
+    mSeekTime:number = -1;
+
+    /**
+     * Set on the next frame after pause() is called, used to calculate a new startTime
+     * or delayStartTime which allows the animator to continue from the point at which
+     * it was paused. If negative, has not yet been set.
+     */
+    private mPauseTime:number = 0;
+
+    /**
+     * Set when an animator is resumed. This triggers logic in the next frame which
+     * actually resumes the animator.
+     */
+    private mResumed:boolean = false;
+
+    // The static sAnimationHandler processes the internal timing loop on which all animations
+    // are based
+    private static sAnimationHandler:ValueAnimator.AnimationHandler;
+
+    // The time interpolator to be used if none is set on the animation
+    private static sDefaultInterpolator:Interpolator = new AccelerateDecelerateInterpolator();
+
+    /**
+     * Used to indicate whether the animation is currently playing in reverse. This causes the
+     * elapsed fraction to be inverted to calculate the appropriate values.
+     */
+    private mPlayingBackwards:boolean = false;
+
+    /**
+     * This variable tracks the current iteration that is playing. When mCurrentIteration exceeds the
+     * repeatCount (if repeatCount!=INFINITE), the animation ends
+     */
+    private mCurrentIteration:number = 0;
+
+    /**
+     * Tracks current elapsed/eased fraction, for querying in getAnimatedFraction().
+     */
+    private mCurrentFraction:number = 0;
+
+    /**
+     * Tracks whether a startDelay'd animation has begun playing through the startDelay.
+     */
+    private mStartedDelay:boolean = false;
+
+    /**
+     * Tracks the time at which the animation began playing through its startDelay. This is
+     * different from the mStartTime variable, which is used to track when the animation became
+     * active (which is when the startDelay expired and the animation was added to the active
+     * animations list).
+     */
+    private mDelayStartTime:number = 0;
+
+    /**
+     * Flag that represents the current state of the animation. Used to figure out when to start
+     * an animation (if state == STOPPED). Also used to end an animation that
+     * has been cancel()'d or end()'d since the last animation frame. Possible values are
+     * STOPPED, RUNNING, SEEKED.
+     */
+    mPlayingState:number = ValueAnimator.STOPPED;
+
+    /**
+     * Additional playing state to indicate whether an animator has been start()'d. There is
+     * some lag between a call to start() and the first animation frame. We should still note
+     * that the animation has been started, even if it's first animation frame has not yet
+     * happened, and reflect that state in isRunning().
+     * Note that delayed animations are different: they are not started until their first
+     * animation frame, which occurs after their delay elapses.
+     */
+    mRunning:boolean = false;
+
+    /**
+     * Additional playing state to indicate whether an animator has been start()'d, whether or
+     * not there is a nonzero startDelay.
+     */
+    private mStarted:boolean = false;
+
+    /**
+     * Tracks whether we've notified listeners of the onAnimationStart() event. This can be
+     * complex to keep track of since we notify listeners at different times depending on
+     * startDelay and whether start() was called before end().
+     */
+    private mStartListenersCalled:boolean = false;
+
+    /**
+     * Flag that denotes whether the animation is set up and ready to go. Used to
+     * set up animation that has not yet been started.
+     */
+    mInitialized:boolean = false;
+
+    //
+    // Backing variables
+    //
+    // How long the animation should last in ms
+    private mDuration:number = 300;
+
+    // The amount of time in ms to delay starting the animation after start() is called
+    mStartDelay:number = 0;
+
+    // The number of times the animation will repeat. The default is 0, which means the animation
+    // will play only once
+    private mRepeatCount:number = 0;
+
+    /**
+     * The type of repetition that will occur when repeatMode is nonzero. RESTART means the
+     * animation will start from the beginning on every new cycle. REVERSE means the animation
+     * will reverse directions on each iteration.
+     */
+    private mRepeatMode:number = ValueAnimator.RESTART;
+
+    /**
+     * The time interpolator to be used. The elapsed fraction of the animation will be passed
+     * through this interpolator to calculate the interpolated fraction, which is then used to
+     * calculate the animated values.
+     */
+    private mInterpolator:Interpolator = ValueAnimator.sDefaultInterpolator;
+
+    /**
+     * The set of listeners to be sent events through the life of an animation.
+     */
+    private mUpdateListeners:ArrayList<ValueAnimator.AnimatorUpdateListener> = null;
+
+    /**
+     * The property/value sets being animated.
+     */
+    mValues:PropertyValuesHolder[];
+
+    /**
+     * A hashmap of the PropertyValuesHolder objects. This map is used to lookup animated values
+     * by property name during calls to getAnimatedValue(String).
+     */
+    mValuesMap:Map<string, PropertyValuesHolder>;
+
+    /**
+     * Public constants
+     */
+    /**
+     * When the animation reaches the end and <code>repeatCount</code> is INFINITE
+     * or a positive value, the animation restarts from the beginning.
+     */
+    static RESTART:number = 1;
+
+    /**
+     * When the animation reaches the end and <code>repeatCount</code> is INFINITE
+     * or a positive value, the animation reverses direction on every iteration.
+     */
+    static REVERSE:number = 2;
+
+    /**
+     * This value used used with the {@link #setRepeatCount(int)} property to repeat
+     * the animation indefinitely.
+     */
+    static INFINITE:number = -1;
+
+    /**
+     * Constructs and returns a ValueAnimator that animates between int values. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * @param values A set of values that the animation will animate between over time.
+     * @return A ValueAnimator object that is set up to animate between the given values.
+     */
+    static ofInt(...values:number[]):ValueAnimator  {
+        let anim:ValueAnimator = new ValueAnimator();
+        anim.setIntValues(...values);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns a ValueAnimator that animates between color values. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * @param values A set of values that the animation will animate between over time.
+     * @return A ValueAnimator object that is set up to animate between the given values.
+     */
+    static ofArgb(...values:number[]):ValueAnimator  {
+        let anim:ValueAnimator = new ValueAnimator();
+        anim.setIntValues(...values);
+        anim.setEvaluator(ArgbEvaluator.getInstance());
+        return anim;
+    }
+
+    /**
+     * Constructs and returns a ValueAnimator that animates between float values. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * @param values A set of values that the animation will animate between over time.
+     * @return A ValueAnimator object that is set up to animate between the given values.
+     */
+    static ofFloat(...values:number[]):ValueAnimator  {
+        let anim:ValueAnimator = new ValueAnimator();
+        anim.setFloatValues(...values);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns a ValueAnimator that animates between the values
+     * specified in the PropertyValuesHolder objects.
+     *
+     * @param values A set of PropertyValuesHolder objects whose values will be animated
+     * between over time.
+     * @return A ValueAnimator object that is set up to animate between the given values.
+     */
+    static ofPropertyValuesHolder(...values:PropertyValuesHolder[]):ValueAnimator  {
+        let anim:ValueAnimator = new ValueAnimator();
+        anim.setValues(...values);
+        return anim;
+    }
+
+    /**
+     * Constructs and returns a ValueAnimator that animates between Object values. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * <p>Since ValueAnimator does not know how to animate between arbitrary Objects, this
+     * factory method also takes a TypeEvaluator object that the ValueAnimator will use
+     * to perform that interpolation.
+     *
+     * @param evaluator A TypeEvaluator that will be called on each animation frame to
+     * provide the ncessry interpolation between the Object values to derive the animated
+     * value.
+     * @param values A set of values that the animation will animate between over time.
+     * @return A ValueAnimator object that is set up to animate between the given values.
+     */
+    static ofObject(evaluator:TypeEvaluator<any>, ...values:any[]):ValueAnimator  {
+        let anim:ValueAnimator = new ValueAnimator();
+        anim.setObjectValues(...values);
+        anim.setEvaluator(evaluator);
+        return anim;
+    }
+
+    /**
+     * Sets int values that will be animated between. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * <p>If there are already multiple sets of values defined for this ValueAnimator via more
+     * than one PropertyValuesHolder object, this method will set the values for the first
+     * of those objects.</p>
+     *
+     * @param values A set of values that the animation will animate between over time.
+     */
+    setIntValues(...values:number[]):void  {
+        if (values == null || values.length == 0) {
+            return;
+        }
+        if (this.mValues == null || this.mValues.length == 0) {
+            this.setValues(PropertyValuesHolder.ofInt("", ...values));
+        } else {
+            let valuesHolder:PropertyValuesHolder = this.mValues[0];
+            valuesHolder.setIntValues(...values);
+        }
+        // New property/values/target should cause re-initialization prior to starting
+        this.mInitialized = false;
+    }
+
+    /**
+     * Sets float values that will be animated between. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * <p>If there are already multiple sets of values defined for this ValueAnimator via more
+     * than one PropertyValuesHolder object, this method will set the values for the first
+     * of those objects.</p>
+     *
+     * @param values A set of values that the animation will animate between over time.
+     */
+    setFloatValues(...values:number[]):void  {
+        if (values == null || values.length == 0) {
+            return;
+        }
+        if (this.mValues == null || this.mValues.length == 0) {
+            this.setValues(PropertyValuesHolder.ofFloat("", ...values));
+        } else {
+            let valuesHolder:PropertyValuesHolder = this.mValues[0];
+            valuesHolder.setFloatValues(...values);
+        }
+        // New property/values/target should cause re-initialization prior to starting
+        this.mInitialized = false;
+    }
+
+    /**
+     * Sets the values to animate between for this animation. A single
+     * value implies that that value is the one being animated to. However, this is not typically
+     * useful in a ValueAnimator object because there is no way for the object to determine the
+     * starting value for the animation (unlike ObjectAnimator, which can derive that value
+     * from the target object and property being animated). Therefore, there should typically
+     * be two or more values.
+     *
+     * <p>If there are already multiple sets of values defined for this ValueAnimator via more
+     * than one PropertyValuesHolder object, this method will set the values for the first
+     * of those objects.</p>
+     *
+     * <p>There should be a TypeEvaluator set on the ValueAnimator that knows how to interpolate
+     * between these value objects. ValueAnimator only knows how to interpolate between the
+     * primitive types specified in the other setValues() methods.</p>
+     *
+     * @param values The set of values to animate between.
+     */
+    setObjectValues(...values:any[]):void  {
+        if (values == null || values.length == 0) {
+            return;
+        }
+        if (this.mValues == null || this.mValues.length == 0) {
+            this.setValues(PropertyValuesHolder.ofObject("", null, ...values));
+        } else {
+            let valuesHolder:PropertyValuesHolder = this.mValues[0];
+            valuesHolder.setObjectValues(...values);
+        }
+        // New property/values/target should cause re-initialization prior to starting
+        this.mInitialized = false;
+    }
+
+    /**
+     * Sets the values, per property, being animated between. This function is called internally
+     * by the constructors of ValueAnimator that take a list of values. But a ValueAnimator can
+     * be constructed without values and this method can be called to set the values manually
+     * instead.
+     *
+     * @param values The set of values, per property, being animated between.
+     */
+    setValues(...values:PropertyValuesHolder[]):void  {
+        let numValues:number = values.length;
+        this.mValues = values;
+        this.mValuesMap = new Map<string, PropertyValuesHolder>();
+        for (let i:number = 0; i < numValues; ++i) {
+            let valuesHolder:PropertyValuesHolder = values[i];
+            this.mValuesMap.set(valuesHolder.getPropertyName(), valuesHolder);
+        }
+        // New property/values/target should cause re-initialization prior to starting
+        this.mInitialized = false;
+    }
+
+    /**
+     * Returns the values that this ValueAnimator animates between. These values are stored in
+     * PropertyValuesHolder objects, even if the ValueAnimator was created with a simple list
+     * of value objects instead.
+     *
+     * @return PropertyValuesHolder[] An array of PropertyValuesHolder objects which hold the
+     * values, per property, that define the animation.
+     */
+    getValues():PropertyValuesHolder[]  {
+        return this.mValues;
+    }
+
+    /**
+     * This function is called immediately before processing the first animation
+     * frame of an animation. If there is a nonzero <code>startDelay</code>, the
+     * function is called after that delay ends.
+     * It takes care of the final initialization steps for the
+     * animation.
+     *
+     *  <p>Overrides of this method should call the superclass method to ensure
+     *  that internal mechanisms for the animation are set up correctly.</p>
+     */
+    initAnimation():void  {
+        if (!this.mInitialized) {
+            let numValues:number = this.mValues.length;
+            for (let i:number = 0; i < numValues; ++i) {
+                this.mValues[i].init();
+            }
+            this.mInitialized = true;
+        }
+    }
+
+    /**
+     * Sets the length of the animation. The default duration is 300 milliseconds.
+     *
+     * @param duration The length of the animation, in milliseconds. This value cannot
+     * be negative.
+     * @return ValueAnimator The object called with setDuration(). This return
+     * value makes it easier to compose statements together that construct and then set the
+     * duration, as in <code>ValueAnimator.ofInt(0, 10).setDuration(500).start()</code>.
+     */
+    setDuration(duration:number):ValueAnimator  {
+        if (duration < 0) {
+            throw Error(`new IllegalArgumentException("Animators cannot have negative duration: " + duration)`);
+        }
+        this.mDuration = duration;
+        return this;
+    }
+
+    /**
+     * Gets the length of the animation. The default duration is 300 milliseconds.
+     *
+     * @return The length of the animation, in milliseconds.
+     */
+    getDuration():number  {
+        return this.mDuration;
+    }
+
+    /**
+     * Sets the position of the animation to the specified point in time. This time should
+     * be between 0 and the total duration of the animation, including any repetition. If
+     * the animation has not yet been started, then it will not advance forward after it is
+     * set to this time; it will simply set the time to this value and perform any appropriate
+     * actions based on that time. If the animation is already running, then setCurrentPlayTime()
+     * will set the current playing time to this value and continue playing from that point.
+     *
+     * @param playTime The time, in milliseconds, to which the animation is advanced or rewound.
+     */
+    setCurrentPlayTime(playTime:number):void  {
+        this.initAnimation();
+        let currentTime:number = AnimationUtils.currentAnimationTimeMillis();
+        if (this.mPlayingState != ValueAnimator.RUNNING) {
+            this.mSeekTime = playTime;
+            this.mPlayingState = ValueAnimator.SEEKED;
+        }
+        this.mStartTime = currentTime - playTime;
+        this.doAnimationFrame(currentTime);
+    }
+
+    /**
+     * Gets the current position of the animation in time, which is equal to the current
+     * time minus the time that the animation started. An animation that is not yet started will
+     * return a value of zero.
+     *
+     * @return The current position in time of the animation.
+     */
+    getCurrentPlayTime():number  {
+        if (!this.mInitialized || this.mPlayingState == ValueAnimator.STOPPED) {
+            return 0;
+        }
+        return AnimationUtils.currentAnimationTimeMillis() - this.mStartTime;
+    }
+
+    /**
+     * The amount of time, in milliseconds, to delay starting the animation after
+     * {@link #start()} is called.
+     *
+     * @return the number of milliseconds to delay running the animation
+     */
+    getStartDelay():number  {
+        return this.mStartDelay;
+    }
+
+    /**
+     * The amount of time, in milliseconds, to delay starting the animation after
+     * {@link #start()} is called.
+
+     * @param startDelay The amount of the delay, in milliseconds
+     */
+    setStartDelay(startDelay:number):void  {
+        this.mStartDelay = startDelay;
+    }
+
+    /**
+     * The most recent value calculated by this <code>ValueAnimator</code> when there is just one
+     * property being animated. This value is only sensible while the animation is running. The main
+     * purpose for this read-only property is to retrieve the value from the <code>ValueAnimator</code>
+     * during a call to {@link AnimatorUpdateListener#onAnimationUpdate(ValueAnimator)}, which
+     * is called during each animation frame, immediately after the value is calculated.
+     *
+     * When there are multiple properties being animated, the value of the property is found by
+     * the <code>propertyName</code>, the name used in the PropertyValuesHolder passed into
+     * this animator.
+     *
+     * @return animatedValue The value most recently calculated by this <code>ValueAnimator</code>
+     * for the single property being animated. If there are several properties being animated
+     * (specified by several PropertyValuesHolder objects in the constructor), this function
+     * returns the animated value for the first of those objects.
+     */
+    getAnimatedValue(propertyName?:string):any  {
+        if (propertyName == null) {
+            if (this.mValues != null && this.mValues.length > 0) {
+                return this.mValues[0].getAnimatedValue();
+            }
+            // Shouldn't get here; should always have values unless ValueAnimator was set up wrong
+            return null;
+        }
+        let valuesHolder:PropertyValuesHolder = this.mValuesMap.get(propertyName);
+        if (valuesHolder != null) {
+            return valuesHolder.getAnimatedValue();
+        } else {
+            // At least avoid crashing if called with bogus propertyName
+            return null;
+        }
+    }
+
+    /**
+     * Sets how many times the animation should be repeated. If the repeat
+     * count is 0, the animation is never repeated. If the repeat count is
+     * greater than 0 or {@link #INFINITE}, the repeat mode will be taken
+     * into account. The repeat count is 0 by default.
+     *
+     * @param value the number of times the animation should be repeated
+     */
+    setRepeatCount(value:number):void  {
+        this.mRepeatCount = value;
+    }
+
+    /**
+     * Defines how many times the animation should repeat. The default value
+     * is 0.
+     *
+     * @return the number of times the animation should repeat, or {@link #INFINITE}
+     */
+    getRepeatCount():number  {
+        return this.mRepeatCount;
+    }
+
+    /**
+     * Defines what this animation should do when it reaches the end. This
+     * setting is applied only when the repeat count is either greater than
+     * 0 or {@link #INFINITE}. Defaults to {@link #RESTART}.
+     *
+     * @param value {@link #RESTART} or {@link #REVERSE}
+     */
+    setRepeatMode(value:number):void  {
+        this.mRepeatMode = value;
+    }
+
+    /**
+     * Defines what this animation should do when it reaches the end.
+     *
+     * @return either one of {@link #REVERSE} or {@link #RESTART}
+     */
+    getRepeatMode():number  {
+        return this.mRepeatMode;
+    }
+
+    /**
+     * Adds a listener to the set of listeners that are sent update events through the life of
+     * an animation. This method is called on all listeners for every frame of the animation,
+     * after the values for the animation have been calculated.
+     *
+     * @param listener the listener to be added to the current set of listeners for this animation.
+     */
+    addUpdateListener(listener:ValueAnimator.AnimatorUpdateListener):void  {
+        if (this.mUpdateListeners == null) {
+            this.mUpdateListeners = new ArrayList<ValueAnimator.AnimatorUpdateListener>();
+        }
+        this.mUpdateListeners.add(listener);
+    }
+
+    /**
+     * Removes all listeners from the set listening to frame updates for this animation.
+     */
+    removeAllUpdateListeners():void  {
+        if (this.mUpdateListeners == null) {
+            return;
+        }
+        this.mUpdateListeners.clear();
+        this.mUpdateListeners = null;
+    }
+
+    /**
+     * Removes a listener from the set listening to frame updates for this animation.
+     *
+     * @param listener the listener to be removed from the current set of update listeners
+     * for this animation.
+     */
+    removeUpdateListener(listener:ValueAnimator.AnimatorUpdateListener):void  {
+        if (this.mUpdateListeners == null) {
+            return;
+        }
+        this.mUpdateListeners.remove(listener);
+        if (this.mUpdateListeners.size() == 0) {
+            this.mUpdateListeners = null;
+        }
+    }
+
+    /**
+     * The time interpolator used in calculating the elapsed fraction of this animation. The
+     * interpolator determines whether the animation runs with linear or non-linear motion,
+     * such as acceleration and deceleration. The default value is
+     * {@link android.view.animation.AccelerateDecelerateInterpolator}
+     *
+     * @param value the interpolator to be used by this animation. A value of <code>null</code>
+     * will result in linear interpolation.
+     */
+    setInterpolator(value:Interpolator):void  {
+        if (value != null) {
+            this.mInterpolator = value;
+        } else {
+            this.mInterpolator = new LinearInterpolator();
+        }
+    }
+
+    /**
+     * Returns the timing interpolator that this ValueAnimator uses.
+     *
+     * @return The timing interpolator for this ValueAnimator.
+     */
+    getInterpolator():Interpolator  {
+        return this.mInterpolator;
+    }
+
+    /**
+     * The type evaluator to be used when calculating the animated values of this animation.
+     * The system will automatically assign a float or int evaluator based on the type
+     * of <code>startValue</code> and <code>endValue</code> in the constructor. But if these values
+     * are not one of these primitive types, or if different evaluation is desired (such as is
+     * necessary with int values that represent colors), a custom evaluator needs to be assigned.
+     * For example, when running an animation on color values, the {@link ArgbEvaluator}
+     * should be used to get correct RGB color interpolation.
+     *
+     * <p>If this ValueAnimator has only one set of values being animated between, this evaluator
+     * will be used for that set. If there are several sets of values being animated, which is
+     * the case if PropertyValuesHolder objects were set on the ValueAnimator, then the evaluator
+     * is assigned just to the first PropertyValuesHolder object.</p>
+     *
+     * @param value the evaluator to be used this animation
+     */
+    setEvaluator(value:TypeEvaluator<any>):void  {
+        if (value != null && this.mValues != null && this.mValues.length > 0) {
+            this.mValues[0].setEvaluator(value);
+        }
+    }
+
+    private notifyStartListeners():void  {
+        if (this.mListeners != null && !this.mStartListenersCalled) {
+            let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+            let numListeners:number = tmpListeners.size();
+            for (let i:number = 0; i < numListeners; ++i) {
+                tmpListeners.get(i).onAnimationStart(this);
+            }
+        }
+        this.mStartListenersCalled = true;
+    }
+
+    /**
+     * Start the animation playing. This version of start() takes a boolean flag that indicates
+     * whether the animation should play in reverse. The flag is usually false, but may be set
+     * to true if called from the reverse() method.
+     *
+     * <p>The animation started by calling this method will be run on the frame loop of the
+     * {@link android.view.ViewRootImpl}. All listener callbacks are called from that loop.</p>
+     *
+     * @param playBackwards Whether the ValueAnimator should start playing in reverse.
+     */
+    start(playBackwards = false):void  {
+        this.mPlayingBackwards = playBackwards;
+        this.mCurrentIteration = 0;
+        this.mPlayingState = ValueAnimator.STOPPED;
+        this.mStarted = true;
+        this.mStartedDelay = false;
+        this.mPaused = false;
+        let animationHandler:ValueAnimator.AnimationHandler = ValueAnimator.getOrCreateAnimationHandler();
+        animationHandler.mPendingAnimations.add(this);
+        if (this.mStartDelay == 0) {
+            // This sets the initial value of the animation, prior to actually starting it running
+            this.setCurrentPlayTime(0);
+            this.mPlayingState = ValueAnimator.STOPPED;
+            this.mRunning = true;
+            this.notifyStartListeners();
+        }
+        animationHandler.start();
+    }
+
+    cancel():void  {
+        // Only cancel if the animation is actually running or has been started and is about
+        // to run
+        let handler:ValueAnimator.AnimationHandler = ValueAnimator.getOrCreateAnimationHandler();
+        if (this.mPlayingState != ValueAnimator.STOPPED || handler.mPendingAnimations.contains(this) || handler.mDelayedAnims.contains(this)) {
+            // Only notify listeners if the animator has actually started
+            if ((this.mStarted || this.mRunning) && this.mListeners != null) {
+                if (!this.mRunning) {
+                    // If it's not yet running, then start listeners weren't called. Call them now.
+                    this.notifyStartListeners();
+                }
+                let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+                for (let listener of tmpListeners.getArray()) {
+                    listener.onAnimationCancel(this);
+                }
+            }
+            this.endAnimation(handler);
+        }
+    }
+
+    end():void  {
+        let handler:ValueAnimator.AnimationHandler = ValueAnimator.getOrCreateAnimationHandler();
+        if (!handler.mAnimations.contains(this) && !handler.mPendingAnimations.contains(this)) {
+            // Special case if the animation has not yet started; get it ready for ending
+            this.mStartedDelay = false;
+            this.startAnimation(handler);
+            this.mStarted = true;
+        } else if (!this.mInitialized) {
+            this.initAnimation();
+        }
+        this.animateValue(this.mPlayingBackwards ? 0 : 1);
+        this.endAnimation(handler);
+    }
+
+    resume():void  {
+        if (this.mPaused) {
+            this.mResumed = true;
+        }
+        super.resume();
+    }
+
+    pause():void  {
+        let previouslyPaused:boolean = this.mPaused;
+        super.pause();
+        if (!previouslyPaused && this.mPaused) {
+            this.mPauseTime = -1;
+            this.mResumed = false;
+        }
+    }
+
+    isRunning():boolean  {
+        return (this.mPlayingState == ValueAnimator.RUNNING || this.mRunning);
+    }
+
+    isStarted():boolean  {
+        return this.mStarted;
+    }
+
+    /**
+     * Plays the ValueAnimator in reverse. If the animation is already running,
+     * it will stop itself and play backwards from the point reached when reverse was called.
+     * If the animation is not currently running, then it will start from the end and
+     * play backwards. This behavior is only set for the current animation; future playing
+     * of the animation will use the default behavior of playing forward.
+     */
+    reverse():void  {
+        this.mPlayingBackwards = !this.mPlayingBackwards;
+        if (this.mPlayingState == ValueAnimator.RUNNING) {
+            let currentTime:number = AnimationUtils.currentAnimationTimeMillis();
+            let currentPlayTime:number = currentTime - this.mStartTime;
+            let timeLeft:number = this.mDuration - currentPlayTime;
+            this.mStartTime = currentTime - timeLeft;
+        } else if (this.mStarted) {
+            this.end();
+        } else {
+            this.start(true);
+        }
+    }
+
+    /**
+     * Called internally to end an animation by removing it from the animations list. Must be
+     * called on the UI thread.
+     */
+    endAnimation(handler:ValueAnimator.AnimationHandler):void  {
+        handler.mAnimations.remove(this);
+        handler.mPendingAnimations.remove(this);
+        handler.mDelayedAnims.remove(this);
+        this.mPlayingState = ValueAnimator.STOPPED;
+        this.mPaused = false;
+        if ((this.mStarted || this.mRunning) && this.mListeners != null) {
+            if (!this.mRunning) {
+                // If it's not yet running, then start listeners weren't called. Call them now.
+                this.notifyStartListeners();
+            }
+            let tmpListeners:ArrayList<Animator.AnimatorListener> = this.mListeners.clone();
+            let numListeners:number = tmpListeners.size();
+            for (let i:number = 0; i < numListeners; ++i) {
+                tmpListeners.get(i).onAnimationEnd(this);
+            }
+        }
+        this.mRunning = false;
+        this.mStarted = false;
+        this.mStartListenersCalled = false;
+        this.mPlayingBackwards = false;
+    }
+
+    /**
+     * Called internally to start an animation by adding it to the active animations list. Must be
+     * called on the UI thread.
+     */
+    startAnimation(handler:ValueAnimator.AnimationHandler):void  {
+        this.initAnimation();
+        handler.mAnimations.add(this);
+        if (this.mStartDelay > 0 && this.mListeners != null) {
+            // Listeners were already notified in start() if startDelay is 0; this is
+            // just for delayed animations
+            this.notifyStartListeners();
+        }
+    }
+
+    /**
+     * Internal function called to process an animation frame on an animation that is currently
+     * sleeping through its <code>startDelay</code> phase. The return value indicates whether it
+     * should be woken up and put on the active animations queue.
+     *
+     * @param currentTime The current animation time, used to calculate whether the animation
+     * has exceeded its <code>startDelay</code> and should be started.
+     * @return True if the animation's <code>startDelay</code> has been exceeded and the animation
+     * should be added to the set of active animations.
+     */
+    delayedAnimationFrame(currentTime:number):boolean  {
+        if (!this.mStartedDelay) {
+            this.mStartedDelay = true;
+            this.mDelayStartTime = currentTime;
+        } else {
+            if (this.mPaused) {
+                if (this.mPauseTime < 0) {
+                    this.mPauseTime = currentTime;
+                }
+                return false;
+            } else if (this.mResumed) {
+                this.mResumed = false;
+                if (this.mPauseTime > 0) {
+                    // Offset by the duration that the animation was paused
+                    this.mDelayStartTime += (currentTime - this.mPauseTime);
+                }
+            }
+            let deltaTime:number = currentTime - this.mDelayStartTime;
+            if (deltaTime > this.mStartDelay) {
+                // startDelay ended - start the anim and record the
+                // mStartTime appropriately
+                this.mStartTime = currentTime - (deltaTime - this.mStartDelay);
+                this.mPlayingState = ValueAnimator.RUNNING;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * This internal function processes a single animation frame for a given animation. The
+     * currentTime parameter is the timing pulse sent by the handler, used to calculate the
+     * elapsed duration, and therefore
+     * the elapsed fraction, of the animation. The return value indicates whether the animation
+     * should be ended (which happens when the elapsed time of the animation exceeds the
+     * animation's duration, including the repeatCount).
+     *
+     * @param currentTime The current time, as tracked by the static timing handler
+     * @return true if the animation's duration, including any repetitions due to
+     * <code>repeatCount</code>, has been exceeded and the animation should be ended.
+     */
+    animationFrame(currentTime:number):boolean  {
+        let done:boolean = false;
+        switch(this.mPlayingState) {
+            case ValueAnimator.RUNNING:
+            case ValueAnimator.SEEKED:
+                let fraction:number = this.mDuration > 0 ? (currentTime - this.mStartTime) / this.mDuration : 1;
+                if (fraction >= 1) {
+                    if (this.mCurrentIteration < this.mRepeatCount || this.mRepeatCount == ValueAnimator.INFINITE) {
+                        // Time to repeat
+                        if (this.mListeners != null) {
+                            let numListeners:number = this.mListeners.size();
+                            for (let i:number = 0; i < numListeners; ++i) {
+                                this.mListeners.get(i).onAnimationRepeat(this);
+                            }
+                        }
+                        if (this.mRepeatMode == ValueAnimator.REVERSE) {
+                            this.mPlayingBackwards = !this.mPlayingBackwards;
+                        }
+                        this.mCurrentIteration += Math.floor(fraction);
+                        fraction = fraction % 1;
+                        this.mStartTime += this.mDuration;
+                    } else {
+                        done = true;
+                        fraction = Math.min(fraction, 1);
+                    }
+                }
+                if (this.mPlayingBackwards) {
+                    fraction = 1 - fraction;
+                }
+                this.animateValue(fraction);
+                break;
+        }
+        return done;
+    }
+
+    /**
+     * Processes a frame of the animation, adjusting the start time if needed.
+     *
+     * @param frameTime The frame time.
+     * @return true if the animation has ended.
+     */
+    doAnimationFrame(frameTime:number):boolean  {
+        if (this.mPlayingState == ValueAnimator.STOPPED) {
+            this.mPlayingState = ValueAnimator.RUNNING;
+            if (this.mSeekTime < 0) {
+                this.mStartTime = frameTime;
+            } else {
+                this.mStartTime = frameTime - this.mSeekTime;
+                // Now that we're playing, reset the seek time
+                this.mSeekTime = -1;
+            }
+        }
+        if (this.mPaused) {
+            if (this.mPauseTime < 0) {
+                this.mPauseTime = frameTime;
+            }
+            return false;
+        } else if (this.mResumed) {
+            this.mResumed = false;
+            if (this.mPauseTime > 0) {
+                // Offset by the duration that the animation was paused
+                this.mStartTime += (frameTime - this.mPauseTime);
+            }
+        }
+        // The frame time might be before the start time during the first frame of
+        // an animation.  The "current time" must always be on or after the start
+        // time to avoid animating frames at negative time intervals.  In practice, this
+        // is very rare and only happens when seeking backwards.
+        const currentTime:number = Math.max(frameTime, this.mStartTime);
+        return this.animationFrame(currentTime);
+    }
+
+    /**
+     * Returns the current animation fraction, which is the elapsed/interpolated fraction used in
+     * the most recent frame update on the animation.
+     *
+     * @return Elapsed/interpolated fraction of the animation.
+     */
+    getAnimatedFraction():number  {
+        return this.mCurrentFraction;
+    }
+
+    /**
+     * This method is called with the elapsed fraction of the animation during every
+     * animation frame. This function turns the elapsed fraction into an interpolated fraction
+     * and then into an animated value (from the evaluator. The function is called mostly during
+     * animation updates, but it is also called when the <code>end()</code>
+     * function is called, to set the final value on the property.
+     *
+     * <p>Overrides of this method must call the superclass to perform the calculation
+     * of the animated value.</p>
+     *
+     * @param fraction The elapsed fraction of the animation.
+     */
+    animateValue(fraction:number):void  {
+        fraction = this.mInterpolator.getInterpolation(fraction);
+        this.mCurrentFraction = fraction;
+        let numValues:number = this.mValues.length;
+        for (let i:number = 0; i < numValues; ++i) {
+            this.mValues[i].calculateValue(fraction);
+        }
+        if (this.mUpdateListeners != null) {
+            let numListeners:number = this.mUpdateListeners.size();
+            for (let i:number = 0; i < numListeners; ++i) {
+                this.mUpdateListeners.get(i).onAnimationUpdate(this);
+            }
+        }
+    }
+
+    clone():ValueAnimator  {
+        const anim:ValueAnimator = <ValueAnimator>super.clone();
+        if (this.mUpdateListeners != null) {
+            anim.mUpdateListeners = this.mUpdateListeners.clone();
+        }
+        anim.mSeekTime = -1;
+        anim.mPlayingBackwards = false;
+        anim.mCurrentIteration = 0;
+        anim.mInitialized = false;
+        anim.mPlayingState = ValueAnimator.STOPPED;
+        anim.mStartedDelay = false;
+        let oldValues:PropertyValuesHolder[] = this.mValues;
+        if (oldValues != null) {
+            let numValues:number = oldValues.length;
+            anim.mValues = new Array<PropertyValuesHolder>(numValues);
+            anim.mValuesMap = new Map<string, PropertyValuesHolder>();
+            for (let i:number = 0; i < numValues; ++i) {
+                let newValuesHolder:PropertyValuesHolder = oldValues[i].clone();
+                anim.mValues[i] = newValuesHolder;
+                anim.mValuesMap.set(newValuesHolder.getPropertyName(), newValuesHolder);
+            }
+        }
+        return anim;
+    }
+
+    toString():string  {
+        let returnVal:string = "ValueAnimator";
+        if (this.mValues != null) {
+            for (let i:number = 0; i < this.mValues.length; ++i) {
+                returnVal += "\n    " + this.mValues[i].toString();
+            }
+        }
+        return returnVal;
+    }
+
+    /**
+     * Return the number of animations currently running.
+     *
+     * Used by StrictMode internally to annotate violations.
+     * May be called on arbitrary threads!
+     *
+     * @hide
+     */
+    static getCurrentAnimationsCount():number  {
+        let handler:ValueAnimator.AnimationHandler = ValueAnimator.sAnimationHandler;
+        return handler != null ? handler.mAnimations.size() : 0;
+    }
+
+    /**
+     * Clear all animations on this thread, without canceling or ending them.
+     * This should be used with caution.
+     *
+     * @hide
+     */
+    static clearAllAnimations():void  {
+        let handler:ValueAnimator.AnimationHandler = ValueAnimator.sAnimationHandler;
+        if (handler != null) {
+            handler.mAnimations.clear();
+            handler.mPendingAnimations.clear();
+            handler.mDelayedAnims.clear();
+        }
+    }
+
+    private static getOrCreateAnimationHandler():ValueAnimator.AnimationHandler  {
+        if (ValueAnimator.sAnimationHandler == null) {
+            ValueAnimator.sAnimationHandler = new ValueAnimator.AnimationHandler();
+        }
+        return ValueAnimator.sAnimationHandler;
+    }
+}
+
+export module ValueAnimator{
+/**
+ * This custom, static handler handles the timing pulse that is shared by
+ * all active animations. This approach ensures that the setting of animation
+ * values will happen on the frame loop of the {@link android.view.ViewRootImpl},
+ * before the views are traversed for that frame.
+ *
+ * @hide
+ */
+export class AnimationHandler implements Runnable {
+
+    // The per-thread list of all active animations
+    /** @hide */
+    mAnimations:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    // Used in doAnimationFrame() to avoid concurrent modifications of mAnimations
+    private mTmpAnimations:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    // The per-thread set of animations to be started on the next animation frame
+    /** @hide */
+    mPendingAnimations:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    /**
+     * Internal per-thread collections used to avoid set collisions as animations start and end
+     * while being processed.
+     * @hide
+     */
+    mDelayedAnims:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    private mEndingAnims:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    private mReadyAnims:ArrayList<ValueAnimator> = new ArrayList<ValueAnimator>();
+
+    private mHandler:Handler = new Handler();
+
+    private mAnimationScheduled:boolean;
+
+    /**
+     * Start animating on the next frame.
+     */
+    start():void  {
+        this.scheduleAnimation();
+    }
+
+    private doAnimationFrame(frameTime:number):void  {
+        // mPendingAnimations holds any animations that have requested to be started
+        // We're going to clear mPendingAnimations, but starting animation may
+        // cause more to be added to the pending list (for example, if one animation
+        // starting triggers another starting). So we loop until mPendingAnimations
+        // is empty.
+        while (this.mPendingAnimations.size() > 0) {
+            let pendingCopy:ArrayList<ValueAnimator> = this.mPendingAnimations.clone();
+            this.mPendingAnimations.clear();
+            let count:number = pendingCopy.size();
+            for (let i:number = 0; i < count; ++i) {
+                let anim:ValueAnimator = pendingCopy.get(i);
+                // If the animation has a startDelay, place it on the delayed list
+                if (anim.mStartDelay == 0) {
+                    anim.startAnimation(this);
+                } else {
+                    this.mDelayedAnims.add(anim);
+                }
+            }
+        }
+        // Next, process animations currently sitting on the delayed queue, adding
+        // them to the active animations if they are ready
+        let numDelayedAnims:number = this.mDelayedAnims.size();
+        for (let i:number = 0; i < numDelayedAnims; ++i) {
+            let anim:ValueAnimator = this.mDelayedAnims.get(i);
+            if (anim.delayedAnimationFrame(frameTime)) {
+                this.mReadyAnims.add(anim);
+            }
+        }
+        let numReadyAnims:number = this.mReadyAnims.size();
+        if (numReadyAnims > 0) {
+            for (let i:number = 0; i < numReadyAnims; ++i) {
+                let anim:ValueAnimator = this.mReadyAnims.get(i);
+                anim.startAnimation(this);
+                anim.mRunning = true;
+                this.mDelayedAnims.remove(anim);
+            }
+            this.mReadyAnims.clear();
+        }
+        // Now process all active animations. The return value from animationFrame()
+        // tells the handler whether it should now be ended
+        let numAnims:number = this.mAnimations.size();
+        for (let i:number = 0; i < numAnims; ++i) {
+            this.mTmpAnimations.add(this.mAnimations.get(i));
+        }
+        for (let i:number = 0; i < numAnims; ++i) {
+            let anim:ValueAnimator = this.mTmpAnimations.get(i);
+            if (this.mAnimations.contains(anim) && anim.doAnimationFrame(frameTime)) {
+                this.mEndingAnims.add(anim);
+            }
+        }
+        this.mTmpAnimations.clear();
+        if (this.mEndingAnims.size() > 0) {
+            for (let i:number = 0; i < this.mEndingAnims.size(); ++i) {
+                this.mEndingAnims.get(i).endAnimation(this);
+            }
+            this.mEndingAnims.clear();
+        }
+        // If there are still active or delayed animations, schedule a future call to
+        // onAnimate to process the next frame of the animations.
+        if (!this.mAnimations.isEmpty() || !this.mDelayedAnims.isEmpty()) {
+            this.scheduleAnimation();
+        }
+    }
+
+    // Called by the Handler on the next frame.
+    run():void  {
+        this.mAnimationScheduled = false;
+        this.doAnimationFrame(AnimationUtils.currentAnimationTimeMillis());
+    }
+
+    private scheduleAnimation():void  {
+        if (!this.mAnimationScheduled) {
+            this.mHandler.post(this);
+            this.mAnimationScheduled = true;
+        }
+    }
+}
+
+/**
+ * Implementors of this interface can add themselves as update listeners
+ * to an <code>ValueAnimator</code> instance to receive callbacks on every animation
+ * frame, after the current frame's values have been calculated for that
+ * <code>ValueAnimator</code>.
+ */
+export interface AnimatorUpdateListener {
+
+    /**
+     * <p>Notifies the occurrence of another frame of the animation.</p>
+     *
+     * @param animation The animation which was repeated.
+     */
+    onAnimationUpdate(animation:ValueAnimator):void ;
+}
+}
+}
@@ -19,9 +19,17 @@
 ///<reference path="../../android/view/View.ts"/>
 ///<reference path="../../android/view/ViewGroup.ts"/>
 ///<reference path="../../android/view/Window.ts"/>
+///<reference path="../../android/view/Menu.ts"/>
+///<reference path="../../android/view/MenuItem.ts"/>
+///<reference path="../../android/view/CollapsibleActionView.ts"/>
+///<reference path="../../android/view/menu/MenuPresenter.ts"/>
+///<reference path="../../android/view/menu/MenuPopupHelper.ts"/>
 ///<reference path="../../android/widget/SpinnerAdapter.ts"/>
 ///<reference path="../../android/widget/FrameLayout.ts"/>
 ///<reference path="../../android/widget/TextView.ts"/>
+///<reference path="../../android/widget/Button.ts"/>
+///<reference path="../../android/widget/ImageButton.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
 ///<reference path="../../android/app/Activity.ts"/>
 ///<reference path="../../android/app/Application.ts"/>
 ///<reference path="../../android/R/attr.ts"/>
@@ -34,9 +42,17 @@ import View = android.view.View;
 import ViewGroup = android.view.ViewGroup;
 import MarginLayoutParams = android.view.ViewGroup.MarginLayoutParams;
 import Window = android.view.Window;
+import Menu = android.view.Menu;
+import MenuItem = android.view.MenuItem;
+import CollapsibleActionView = android.view.CollapsibleActionView;
+import MenuPresenter = android.view.menu.MenuPresenter;
+import MenuPopupHelper = android.view.menu.MenuPopupHelper;
 import SpinnerAdapter = android.widget.SpinnerAdapter;
 import FrameLayout = android.widget.FrameLayout;
 import TextView = android.widget.TextView;
+import Button = android.widget.Button;
+import ImageButton = android.widget.ImageButton;
+import LinearLayout = android.widget.LinearLayout;
 import Activity = android.app.Activity;
 import Application = android.app.Application;
 /**
@@ -69,8 +85,10 @@ import Application = android.app.Application;
  *
  * AndroidUI:
  * NOTE: ActionBar‘s style was not same as Android, title was move to center. No logo support
+ * The action items of the options menu show at the right, after the right action,
+ * the other items show in the overflow popup.
  */
-export class ActionBar extends FrameLayout {
+export class ActionBar extends FrameLayout implements MenuPresenter {
 
     ///**
     // * Standard navigation mode. Consists of either a logo or icon
@@ -158,6 +176,18 @@ export class ActionBar extends FrameLayout {
     private mSubTitleView:TextView;
     private mActionLeft:TextView;
     private mActionRight:TextView;
+    private mCenterMargin:number = 0;
+
+    private mMenu:Menu;
+    private mMenuView:LinearLayout;
+    private mOverflowButton:ImageButton;
+    private mOverflowPopup:MenuPopupHelper;
+    private mMaxActionButtons:number = 0;
+
+    private mExpandedLayout:LinearLayout;
+    private mExpandedMenuItem:MenuItem;
+    private mExpandedActionView:View;
+    private mActionLeftVisibility:number = View.GONE;
 
     constructor(context:android.content.Context, bindElement?:HTMLElement, defStyle:any=android.R.attr.actionBarStyle) {
         super(context, bindElement, defStyle);
@@ -167,7 +197,49 @@ export class ActionBar extends FrameLayout {
         this.mSubTitleView = <TextView>this.findViewById('action_bar_sub_title');
         this.mActionLeft = <TextView>this.findViewById('action_bar_left');
         this.mActionRight = <TextView>this.findViewById('action_bar_right');
+        this.mCenterMargin = (<MarginLayoutParams>this.mCenterLayout.getLayoutParams()).leftMargin;
+
+        // the menu's action buttons follow the right action
+        this.removeView(this.mActionRight);
+        this.mMenuView = new LinearLayout(context);
+        this.mMenuView.setGravity(Gravity.CENTER_VERTICAL);
+        this.mMenuView.addView(this.mActionRight, new LinearLayout.LayoutParams(-2, -2));
+        this.addView(this.mMenuView, new FrameLayout.LayoutParams(-2, -2, Gravity.RIGHT | Gravity.CENTER_VERTICAL));
+
+        const density = context.getResources().getDisplayMetrics().density;
+        this.mOverflowButton = new ImageButton(context);
+        this.mOverflowButton.setBackground(android.R.drawable.item_background);
+        this.mOverflowButton.setImageDrawable(android.R.image.ic_menu_moreoverflow_normal_holo_dark);
+        this.mOverflowButton.setPadding(6 * density, 0, 6 * density, 0);
+        this.mOverflowButton.setMinimumWidth(32 * density);
+        this.mOverflowButton.setMinimumHeight(48 * density);
+        this.mOverflowButton.setOnClickListener({
+            onClick: (v:View)=>{
+                this.showOverflowMenu();
+            }
+        });
+
+        // same as ActionBarPolicy.getMaxActionButtons
+        const widthDp = context.getResources().getDisplayMetrics().widthPixels / density;
+        this.mMaxActionButtons = widthDp >= 600 ? 5 : widthDp >= 500 ? 4 : widthDp >= 360 ? 3 : 2;
+    }
 
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        // keep the title centered and clear of the views at both sides
+        let margin = this.mCenterMargin;
+        if (this.mActionLeft.getVisibility() != View.GONE) {
+            margin = Math.max(margin, this.mActionLeft.getMeasuredWidth());
+        }
+        if (this.mMenuView.getVisibility() != View.GONE) {
+            margin = Math.max(margin, this.mMenuView.getMeasuredWidth());
+        }
+        let params = <MarginLayoutParams>this.mCenterLayout.getLayoutParams();
+        if (params.leftMargin != margin || params.rightMargin != margin) {
+            params.leftMargin = margin;
+            params.rightMargin = margin;
+            super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        }
     }
 
 //    /**
@@ -904,6 +976,260 @@ export class ActionBar extends FrameLayout {
         hideActionRight():void {
             this.mActionRight.setVisibility(View.GONE);
         }
+
+    /**
+     * Set the options menu presented by this action bar. Items flagged by
+     * {@link MenuItem#setShowAsAction(int)} show as action buttons when there is
+     * room, the others show in the overflow popup.
+     *
+     * @param menu The menu to present, or null to remove the current one.
+     */
+    setMenu(menu:Menu):void {
+        if (menu == this.mMenu) return;
+        if (this.mMenu != null) {
+            this.collapseActionView();
+            this.hideOverflowMenu();
+            this.mMenu.removeMenuPresenter(this);
+            if (this.mOverflowPopup != null) {
+                this.mMenu.removeMenuPresenter(this.mOverflowPopup);
+                this.mOverflowPopup = null;
+            }
+        }
+        this.mMenu = menu;
+        if (menu != null) {
+            menu.addMenuPresenter(this);
+        }
+        this.updateMenuView(true);
+    }
+
+    getMenu():Menu {
+        return this.mMenu;
+    }
+
+    /**
+     * Display the overflow menu if one is present.
+     * @return true if the overflow menu was shown, false otherwise.
+     */
+    showOverflowMenu():boolean {
+        if (this.isOverflowMenuShowing() || this.mOverflowButton.getParent() == null) {
+            return false;
+        }
+        if (this.mOverflowPopup == null) {
+            this.mOverflowPopup = new MenuPopupHelper(this.getContext(), this.mMenu, this.mOverflowButton, true);
+        }
+        return this.mOverflowPopup.tryShow();
+    }
+
+    /**
+     * Hide the overflow menu if it is currently showing.
+     *
+     * @return true if the overflow menu was hidden, false otherwise.
+     */
+    hideOverflowMenu():boolean {
+        if (this.isOverflowMenuShowing()) {
+            this.mOverflowPopup.dismiss();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Check whether the overflow menu is currently showing. This may not reflect
+     * a pending show operation in progress.
+     *
+     * @return true if the overflow menu is currently showing
+     */
+    isOverflowMenuShowing():boolean {
+        return this.mOverflowPopup != null && this.mOverflowPopup.isShowing();
+    }
+
+    /**
+     * @return true if a menu item's action view is expanded in this action bar.
+     */
+    hasExpandedActionView():boolean {
+        return this.mExpandedMenuItem != null;
+    }
+
+    /**
+     * Collapse the expanded action view, if there is one.
+     */
+    collapseActionView():void {
+        const item = this.mExpandedMenuItem;
+        if (item != null) {
+            item.collapseActionView();
+        }
+    }
+
+    updateMenuView(cleared:boolean):void {
+        const menuView = this.mMenuView;
+        // the right action always stays first
+        if (menuView.getChildCount() > 1) {
+            menuView.removeViews(1, menuView.getChildCount() - 1);
+        }
+        if (this.mMenu == null) return;
+
+        const actionItems = this.mMenu.getActionItems();
+        for (let i = 0, size = actionItems.size(); i < size; i++) {
+            const item = actionItems.get(i);
+            if (item.isActionViewExpanded()) continue;
+            let itemView:View;
+            const actionView = item.getActionView();
+            if (actionView != null && !item.hasCollapsibleActionView()) {
+                const parent = actionView.getParent();
+                if (parent instanceof ViewGroup) {
+                    (<ViewGroup>parent).removeView(actionView);
+                }
+                itemView = actionView;
+            } else {
+                itemView = this.createItemButton(item);
+            }
+            menuView.addView(itemView, new LinearLayout.LayoutParams(-2, -2));
+        }
+
+        if (!this.mMenu.getNonActionItems().isEmpty()) {
+            menuView.addView(this.mOverflowButton, new LinearLayout.LayoutParams(-2, -2));
+        } else {
+            this.hideOverflowMenu();
+        }
+    }
+
+    private createItemButton(item:MenuItem):Button {
+        const density = this.getResources().getDisplayMetrics().density;
+        // same style as the right action
+        const button = new Button(this.getContext());
+        button.setBackground(android.R.drawable.item_background);
+        button.setTextColor(0xffffffff);
+        button.setPadding(6 * density, button.getPaddingTop(), 6 * density, button.getPaddingBottom());
+        button.setCompoundDrawablePadding(4 * density);
+        button.setMinWidth(32 * density);
+        button.setTextSize(17);
+        button.setSingleLine(true);
+
+        const icon = item.getIcon();
+        button.setCompoundDrawablesWithIntrinsicBounds(icon, null, null, null);
+        button.setText(icon == null || item.showsTextAsAction() ? item.getTitle() : '');
+        button.setEnabled(item.isEnabled());
+        button.setOnClickListener({
+            onClick: (v:View)=>{
+                this.mMenu.performItemAction(item);
+            }
+        });
+        return button;
+    }
+
+    flagActionItems():boolean {
+        const visibleItems = this.mMenu.getVisibleItems();
+        const itemsSize = visibleItems.size();
+        let maxActions = this.mMaxActionButtons;
+        if (this.mActionRight.getVisibility() != View.GONE) {
+            maxActions--;
+        }
+
+        let requiredItems = 0;
+        let requestedItems = 0;
+        let hasOverflow = false;
+        for (let i = 0; i < itemsSize; i++) {
+            const item = visibleItems.get(i);
+            if (item.requiresActionButton()) {
+                requiredItems++;
+            } else if (item.requestsActionButton()) {
+                requestedItems++;
+            } else {
+                hasOverflow = true;
+            }
+        }
+
+        // Reserve a spot for the overflow item if needed.
+        if (hasOverflow || requiredItems + requestedItems > maxActions) {
+            maxActions--;
+        }
+        maxActions -= requiredItems;
+
+        for (let i = 0; i < itemsSize; i++) {
+            const item = visibleItems.get(i);
+            if (item.requiresActionButton()) {
+                item.setIsActionButton(true);
+            } else if (item.requestsActionButton() && maxActions > 0) {
+                item.setIsActionButton(true);
+                maxActions--;
+            } else {
+                item.setIsActionButton(false);
+            }
+        }
+        return true;
+    }
+
+    expandItemActionView(menu:Menu, item:MenuItem):boolean {
+        const actionView = item.getActionView();
+        if (actionView == null) return false;
+
+        if (this.mExpandedLayout == null) {
+            this.initExpandedLayout();
+        }
+        this.mExpandedMenuItem = item;
+        this.mExpandedActionView = actionView;
+        const parent = actionView.getParent();
+        if (parent != this.mExpandedLayout) {
+            if (parent instanceof ViewGroup) {
+                (<ViewGroup>parent).removeView(actionView);
+            }
+            this.mExpandedLayout.addView(actionView, new LinearLayout.LayoutParams(0, -2, 1));
+        }
+        this.hideOverflowMenu();
+        this.mActionLeftVisibility = this.mActionLeft.getVisibility();
+        this.mActionLeft.setVisibility(View.GONE);
+        this.mCenterLayout.setVisibility(View.GONE);
+        this.mMenuView.setVisibility(View.GONE);
+        this.mExpandedLayout.setVisibility(View.VISIBLE);
+        item.setActionViewExpanded(true);
+
+        if (CollapsibleActionView.isImpl(actionView)) {
+            (<CollapsibleActionView><any>actionView).onActionViewExpanded();
+        }
+        return true;
+    }
+
+    collapseItemActionView(menu:Menu, item:MenuItem):boolean {
+        if (item != this.mExpandedMenuItem) return false;
+        const actionView = this.mExpandedActionView;
+        // Do this before detaching the actionview from the hierarchy, in case
+        // it needs to dismiss the soft keyboard, etc.
+        if (CollapsibleActionView.isImpl(actionView)) {
+            (<CollapsibleActionView><any>actionView).onActionViewCollapsed();
+        }
+        this.mExpandedLayout.removeView(actionView);
+        this.mExpandedLayout.setVisibility(View.GONE);
+        this.mActionLeft.setVisibility(this.mActionLeftVisibility);
+        this.mCenterLayout.setVisibility(View.VISIBLE);
+        this.mMenuView.setVisibility(View.VISIBLE);
+        this.mExpandedActionView = null;
+        this.mExpandedMenuItem = null;
+        item.setActionViewExpanded(false);
+        return true;
+    }
+
+    private initExpandedLayout():void {
+        const context = this.getContext();
+        const density = this.getResources().getDisplayMetrics().density;
+        this.mExpandedLayout = new LinearLayout(context);
+        this.mExpandedLayout.setGravity(Gravity.CENTER_VERTICAL);
+        this.mExpandedLayout.setVisibility(View.GONE);
+
+        // tap to collapse, as the up button of Android's action bar
+        const collapseButton = new ImageButton(context);
+        collapseButton.setBackground(android.R.drawable.item_background);
+        collapseButton.setImageDrawable(android.R.image.actionbar_ic_back_white);
+        collapseButton.setPadding(6 * density, 0, 6 * density, 0);
+        collapseButton.setMinimumWidth(32 * density);
+        collapseButton.setMinimumHeight(48 * density);
+        collapseButton.setOnClickListener({
+            onClick: (v:View)=>{
+                this.collapseActionView();
+            }
+        });
+        this.mExpandedLayout.addView(collapseButton, new LinearLayout.LayoutParams(-2, -2));
+        this.addView(this.mExpandedLayout, new FrameLayout.LayoutParams(-1, -2, Gravity.CENTER_VERTICAL));
+    }
 }
 
 export module ActionBar{
@@ -37,15 +37,26 @@ module android.app {
             const activity = this;
             let w = this.getWindow();
             let decorView:ViewGroup = w.mDecor;
+            if(this.mActionBar != null){
+                this.mActionBar.setMenu(null);
+                if(this.mActionBar.getParent() === decorView) decorView.removeView(this.mActionBar);
+            }
             this.mActionBar = actionBar;
-            decorView.addView(actionBar, -1, -2);
+            actionBar.setMenu(this.getOptionsMenu());
+            //the action bar may be already in the content layout (eg: pinned in a CollapsingToolbarLayout)
+            if(actionBar.getParent() == null){
+                decorView.addView(actionBar, -1, -2);
+            }else{
+                actionBar.setTitle(this.getTitle());
+            }
             const onMeasure = decorView.onMeasure;
             decorView.onMeasure = (widthMeasureSpec:number, heightMeasureSpec:number)=>{
                 onMeasure.call(decorView, widthMeasureSpec, heightMeasureSpec);
                 if(activity.mActionBar === actionBar){
                     let params = <MarginLayoutParams>w.mContentParent.getLayoutParams();
-                    if(params.topMargin != actionBar.getMeasuredHeight()){
-                        params.topMargin = actionBar.getMeasuredHeight();
+                    let topMargin = actionBar.getParent() === decorView ? actionBar.getMeasuredHeight() : 0;
+                    if(params.topMargin != topMargin){
+                        params.topMargin = topMargin;
                         onMeasure.call(decorView, widthMeasureSpec, heightMeasureSpec);
                     }
                 }
@@ -60,5 +71,26 @@ module android.app {
             super.onTitleChanged(title, color);
             this.mActionBar.setTitle(title);
         }
+
+        invalidateOptionsMenu():void {
+            super.invalidateOptionsMenu();
+            if(this.mActionBar != null) this.mActionBar.setMenu(this.getOptionsMenu());
+        }
+
+        openOptionsMenu():void {
+            if(this.mActionBar != null) this.mActionBar.showOverflowMenu();
+        }
+
+        closeOptionsMenu():void {
+            if(this.mActionBar != null) this.mActionBar.hideOverflowMenu();
+        }
+
+        onBackPressed():void {
+            if(this.mActionBar != null && this.mActionBar.hasExpandedActionView()){
+                this.mActionBar.collapseActionView();
+                return;
+            }
+            super.onBackPressed();
+        }
     }
 }
\ No newline at end of file
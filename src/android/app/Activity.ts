@@ -8,6 +8,8 @@
 ///<reference path="../view/ViewGroup.ts"/>
 ///<reference path="../view/ViewRootImpl.ts"/>
 ///<reference path="../view/KeyEvent.ts"/>
+///<reference path="../view/Menu.ts"/>
+///<reference path="../view/MenuItem.ts"/>
 ///<reference path="../view/animation/Animation.ts"/>
 ///<reference path="../widget/FrameLayout.ts"/>
 ///<reference path="../view/MotionEvent.ts"/>
@@ -25,6 +27,8 @@ module android.app{
     import ViewGroup = android.view.ViewGroup;
     import ViewRootImpl = android.view.ViewRootImpl;
     import KeyEvent = android.view.KeyEvent;
+    import Menu = android.view.Menu;
+    import MenuItem = android.view.MenuItem;
     import Animation = android.view.animation.Animation;
     import FrameLayout = android.widget.FrameLayout;
     import MotionEvent = android.view.MotionEvent;
@@ -79,6 +83,8 @@ module android.app{
 
         private mResultData:Intent = null;
 
+        private mOptionsMenu:Menu;
+
         //mHandler:Handler = new Handler();
 
         /** Return the intent that started this activity. */
@@ -260,6 +266,7 @@ module android.app{
             //    this.mTitleReady = true;
                 this.onTitleChanged(this.getTitle());
             //}
+            this.invalidateOptionsMenu();
             this.mCalled = true;
         }
 
@@ -666,7 +673,7 @@ module android.app{
          * @see android.view.KeyEvent
          */
         onKeyDown(keyCode:number, event:KeyEvent):boolean  {
-            if (keyCode == KeyEvent.KEYCODE_BACK) {
+            if (keyCode == KeyEvent.KEYCODE_BACK || keyCode == KeyEvent.KEYCODE_MENU) {
                 event.startTracking();
                 return true;
             }
@@ -744,6 +751,10 @@ module android.app{
                 this.onBackPressed();
                 return true;
             }
+            if (keyCode == KeyEvent.KEYCODE_MENU && event.isTracking() && !event.isCanceled()) {
+                this.openOptionsMenu();
+                return true;
+            }
             return false;
         }
 
@@ -1355,6 +1366,119 @@ module android.app{
             //}
         }
 
+        /**
+         * Initialize the contents of the Activity's standard options menu.  You
+         * should place your menu items in to <var>menu</var>.
+         *
+         * <p>This is called after {@link #onPostCreate}, and again every time
+         * {@link #invalidateOptionsMenu()} is called.
+         *
+         * <p>You can safely hold on to <var>menu</var> (and any items created
+         * from it), making modifications to it as desired, until the next
+         * time onCreateOptionsMenu() is called.
+         *
+         * <p>When you add items to the menu, you can implement the Activity's
+         * {@link #onOptionsItemSelected} method to handle them there.
+         *
+         * @param menu The options menu in which you place your items.
+         *
+         * @return You must return true for the menu to be displayed;
+         *         if you return false it will not be shown.
+         *
+         * @see #onPrepareOptionsMenu
+         * @see #onOptionsItemSelected
+         */
+        onCreateOptionsMenu(menu:Menu):boolean  {
+            return true;
+        }
+
+        /**
+         * Prepare the Screen's standard options menu to be displayed.  You can
+         * use this method to efficiently enable/disable items or otherwise
+         * dynamically modify the contents.
+         *
+         * androidui: called right after {@link #onCreateOptionsMenu}, the items
+         * can be changed at any time since the menu is always shown in the action bar.
+         *
+         * @param menu The options menu as last shown or first initialized by
+         *             onCreateOptionsMenu().
+         *
+         * @return You must return true for the menu to be displayed;
+         *         if you return false it will not be shown.
+         *
+         * @see #onCreateOptionsMenu
+         */
+        onPrepareOptionsMenu(menu:Menu):boolean  {
+            return true;
+        }
+
+        /**
+         * This hook is called whenever an item in your options menu is selected.
+         * The default implementation simply returns false to have the normal
+         * processing happen (starting the item's Intent if it has one).  You can
+         * use this method for any items for which you would like to do processing
+         * without those other facilities.
+         *
+         * @param item The menu item that was selected.
+         *
+         * @return boolean Return false to allow normal menu processing to
+         *         proceed, true to consume it here.
+         *
+         * @see #onCreateOptionsMenu
+         */
+        onOptionsItemSelected(item:MenuItem):boolean  {
+            return false;
+        }
+
+        /**
+         * Declare that the options menu has changed, so should be recreated.
+         * The {@link #onCreateOptionsMenu(Menu)} method will be called the next
+         * time it needs to be displayed.
+         *
+         * androidui: the menu is recreated at once.
+         */
+        invalidateOptionsMenu():void  {
+            let menu = this.mOptionsMenu;
+            if (menu == null) {
+                menu = this.mOptionsMenu = new Menu(this);
+                menu.setCallback({
+                    onMenuItemSelected: (menu:Menu, item:MenuItem):boolean => {
+                        return this.onOptionsItemSelected(item);
+                    }
+                });
+            }
+            menu.stopDispatchingItemsChanged();
+            menu.clear();
+            if (!this.onCreateOptionsMenu(menu) || !this.onPrepareOptionsMenu(menu)) {
+                menu.clear();
+            }
+            menu.startDispatchingItemsChanged();
+        }
+
+        /**
+         * @return The options menu of this activity, null if it isn't created yet.
+         * @see #invalidateOptionsMenu()
+         */
+        protected getOptionsMenu():Menu {
+            return this.mOptionsMenu;
+        }
+
+        /**
+         * Programmatically opens the options menu. If the options menu is already
+         * open, this method does nothing.
+         *
+         * androidui: the options menu is only presented by the action bar, see {@link ActionBarActivity}
+         */
+        openOptionsMenu():void  {
+        }
+
+        /**
+         * Progammatically closes the options menu. If the options menu is already
+         * closed, this method does nothing.
+         */
+        closeOptionsMenu():void  {
+        }
+
         /**
          * Runs the specified action on the UI thread. If the current thread is the UI
          * thread, then the action is executed immediately. If the current thread is
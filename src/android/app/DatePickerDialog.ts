@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/content/DialogInterface.ts"/>
+///<reference path="../../android/widget/DatePicker.ts"/>
+///<reference path="../../android/app/AlertDialog.ts"/>
+///<reference path="../../android/R/string.ts"/>
+
+module android.app {
+import Context = android.content.Context;
+import DialogInterface = android.content.DialogInterface;
+import DatePicker = android.widget.DatePicker;
+import AlertDialog = android.app.AlertDialog;
+
+/**
+ * A simple dialog containing an {@link android.widget.DatePicker}.
+ *
+ * <p>See the <a href="{@docRoot}guide/topics/ui/controls/pickers.html">Pickers</a>
+ * guide.</p>
+ */
+export class DatePickerDialog extends AlertDialog implements DialogInterface.OnClickListener, DatePicker.OnDateChangedListener {
+
+    private mDatePicker:DatePicker;
+
+    private mCallBack:DatePickerDialog.OnDateSetListener;
+
+    /**
+     * @param context The context the dialog is to run in.
+     * @param callBack How the parent is notified that the date is set.
+     * @param year The initial year of the dialog.
+     * @param monthOfYear The initial month of the dialog.
+     * @param dayOfMonth The initial day of the dialog.
+     */
+    constructor(context:Context, callBack:DatePickerDialog.OnDateSetListener, year:number, monthOfYear:number, dayOfMonth:number) {
+        super(context);
+        this.mCallBack = callBack;
+        this.setButton(DialogInterface.BUTTON_POSITIVE, android.R.string_.date_time_done, this);
+        this.setButton(DialogInterface.BUTTON_NEGATIVE, android.R.string_.cancel, null);
+        this.mDatePicker = new DatePicker(context);
+        this.setView(this.mDatePicker);
+        this.mDatePicker.init(year, monthOfYear, dayOfMonth, this);
+        this.updateTitle(year, monthOfYear, dayOfMonth);
+    }
+
+    onClick(dialog:DialogInterface, which:number):void  {
+        this.tryNotifyDateSet();
+    }
+
+    onDateChanged(view:DatePicker, year:number, month:number, day:number):void  {
+        this.mDatePicker.init(year, month, day, this);
+        this.updateTitle(year, month, day);
+    }
+
+    /**
+     * Gets the {@link DatePicker} contained in this dialog.
+     *
+     * @return The calendar view.
+     */
+    getDatePicker():DatePicker  {
+        return this.mDatePicker;
+    }
+
+    /**
+     * Sets the current date.
+     *
+     * @param year The date year.
+     * @param monthOfYear The date month.
+     * @param dayOfMonth The date day of month.
+     */
+    updateDate(year:number, monthOfYear:number, dayOfMonth:number):void  {
+        this.mDatePicker.updateDate(year, monthOfYear, dayOfMonth);
+    }
+
+    private tryNotifyDateSet():void  {
+        if (this.mCallBack != null) {
+            this.mDatePicker.clearFocus();
+            this.mCallBack.onDateSet(this.mDatePicker, this.mDatePicker.getYear(), this.mDatePicker.getMonth(), this.mDatePicker.getDayOfMonth());
+        }
+    }
+
+    private updateTitle(year:number, month:number, day:number):void  {
+        let locales = navigator.language ? [navigator.language] : undefined;
+        let title = new Date(year, month, day).toLocaleDateString(locales,
+            { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+        this.setTitle(title || android.R.string_.date_picker_dialog_title);
+    }
+}
+
+export module DatePickerDialog{
+/**
+ * The callback used to indicate the user is done filling in the date.
+ */
+export interface OnDateSetListener {
+
+    /**
+     * @param view The view associated with this listener.
+     * @param year The year that was set.
+     * @param monthOfYear The month that was set (0-11) for compatibility
+     *  with {@link java.util.Calendar}.
+     * @param dayOfMonth The day of the month that was set.
+     */
+    onDateSet(view:DatePicker, year:number, monthOfYear:number, dayOfMonth:number):void ;
+}
+}
+}
@@ -0,0 +1,108 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/content/DialogInterface.ts"/>
+///<reference path="../../android/widget/TimePicker.ts"/>
+///<reference path="../../android/app/AlertDialog.ts"/>
+///<reference path="../../android/R/string.ts"/>
+
+module android.app {
+import Context = android.content.Context;
+import DialogInterface = android.content.DialogInterface;
+import TimePicker = android.widget.TimePicker;
+import AlertDialog = android.app.AlertDialog;
+
+/**
+ * A dialog that prompts the user for the time of day using a {@link TimePicker}.
+ *
+ * <p>See the <a href="{@docRoot}guide/topics/ui/controls/pickers.html">Pickers</a>
+ * guide.</p>
+ */
+export class TimePickerDialog extends AlertDialog implements DialogInterface.OnClickListener, TimePicker.OnTimeChangedListener {
+
+    private mTimePicker:TimePicker;
+
+    private mCallback:TimePickerDialog.OnTimeSetListener;
+
+    private mInitialHourOfDay:number = 0;
+
+    private mInitialMinute:number = 0;
+
+    private mIs24HourView:boolean;
+
+    /**
+     * @param context Parent.
+     * @param callBack How parent is notified.
+     * @param hourOfDay The initial hour.
+     * @param minute The initial minute.
+     * @param is24HourView Whether this is a 24 hour view, or AM/PM.
+     */
+    constructor(context:Context, callBack:TimePickerDialog.OnTimeSetListener, hourOfDay:number, minute:number, is24HourView:boolean) {
+        super(context);
+        this.mCallback = callBack;
+        this.mInitialHourOfDay = hourOfDay;
+        this.mInitialMinute = minute;
+        this.mIs24HourView = is24HourView;
+        this.setTitle(android.R.string_.time_picker_dialog_title);
+        this.setButton(DialogInterface.BUTTON_POSITIVE, android.R.string_.date_time_done, this);
+        this.setButton(DialogInterface.BUTTON_NEGATIVE, android.R.string_.cancel, null);
+        this.mTimePicker = new TimePicker(context);
+        this.setView(this.mTimePicker);
+        // initialize state
+        this.mTimePicker.setIs24HourView(this.mIs24HourView);
+        this.mTimePicker.setCurrentHour(this.mInitialHourOfDay);
+        this.mTimePicker.setCurrentMinute(this.mInitialMinute);
+        this.mTimePicker.setOnTimeChangedListener(this);
+    }
+
+    onClick(dialog:DialogInterface, which:number):void  {
+        this.tryNotifyTimeSet();
+    }
+
+    updateTime(hourOfDay:number, minutOfHour:number):void  {
+        this.mTimePicker.setCurrentHour(hourOfDay);
+        this.mTimePicker.setCurrentMinute(minutOfHour);
+    }
+
+    onTimeChanged(view:TimePicker, hourOfDay:number, minute:number):void  {
+        /* do nothing */
+    }
+
+    private tryNotifyTimeSet():void  {
+        if (this.mCallback != null) {
+            this.mTimePicker.clearFocus();
+            this.mCallback.onTimeSet(this.mTimePicker, this.mTimePicker.getCurrentHour(), this.mTimePicker.getCurrentMinute());
+        }
+    }
+}
+
+export module TimePickerDialog{
+/**
+ * The callback interface used to indicate the user is done filling in
+ * the time (they clicked on the 'Set' button).
+ */
+export interface OnTimeSetListener {
+
+    /**
+     * @param view The view associated with this listener.
+     * @param hourOfDay The hour that was set.
+     * @param minute The minute that was set.
+     */
+    onTimeSet(view:TimePicker, hourOfDay:number, minute:number):void ;
+}
+}
+}
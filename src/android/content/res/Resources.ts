@@ -9,6 +9,7 @@
 module android.content.res{
     import DisplayMetrics = android.util.DisplayMetrics;
     import Drawable = android.graphics.drawable.Drawable;
+    import Animation = android.view.animation.Animation;
 
     export class Resources{
         private static instance = new Resources();
@@ -94,6 +95,19 @@ module android.content.res{
             }
         }
 
+        /**
+         * @param refString @android:anim/xxx, @android.R.anim.xxx
+         */
+        getAnimation(refString:string):Animation {
+            if(refString.startsWith('@android:anim/')){
+                refString = refString.substring('@android:anim/'.length);
+                return android.R.anim[refString];
+
+            }else if(refString.startsWith('@')){
+                return this.getObjectRef(refString);
+            }
+        }
+
         getColor(refString:string):number {
             let s = this.getString(refString);
             return android.graphics.Color.parseColor(s);
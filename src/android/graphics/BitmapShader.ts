@@ -0,0 +1,101 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="Shader.ts"/>
+///<reference path="../../androidui/image/NetImage.ts"/>
+///<reference path="../content/res/Resources.ts"/>
+
+module android.graphics{
+    import NetImage = androidui.image.NetImage;
+
+    /**
+     * Shader used to draw a image as a texture. The image can be repeated or
+     * mirrored by setting the tiling mode.
+     * Note: CLAMP mode don't replicate the edge color on web canvas, the area outside the image is transparent.
+     */
+    export class BitmapShader extends Shader{
+        private mImage:NetImage;
+        private mTileX:Shader.TileMode;
+        private mTileY:Shader.TileMode;
+        private mTileCanvas:HTMLCanvasElement;
+
+        /**
+         * Call this to create a new shader that will draw with a image.
+         *
+         * @param image            The image to use inside the shader
+         * @param tileX             The tiling mode for x to draw the image in.
+         * @param tileY             The tiling mode for y to draw the image in.
+         */
+        constructor(image:NetImage, tileX:Shader.TileMode, tileY:Shader.TileMode) {
+            super();
+            this.mImage = image;
+            this.mTileX = tileX;
+            this.mTileY = tileY;
+            image.addLoadListener(()=>{
+                //image changed, tile canvas need rebuild
+                this.mTileCanvas = null;
+            });
+        }
+
+        getImage():NetImage {
+            return this.mImage;
+        }
+
+        createCanvasStyle(context:CanvasRenderingContext2D, width:number, height:number):CanvasPattern {
+            let tileCanvas = this.getTileCanvas();
+            if(!tileCanvas) return null;
+
+            let repeatX = this.mTileX != Shader.TileMode.CLAMP;
+            let repeatY = this.mTileY != Shader.TileMode.CLAMP;
+            let repetition = repeatX && repeatY ? 'repeat' : repeatX ? 'repeat-x' : repeatY ? 'repeat-y' : 'no-repeat';
+            let pattern = context.createPattern(tileCanvas, repetition);
+
+            let matrix = this.getLocalMatrixOrNull();
+            if(matrix && pattern && typeof pattern['setTransform'] === 'function' && typeof window['DOMMatrix'] === 'function'){
+                let v = new Array<number>(9);
+                matrix.getValues(v);
+                pattern['setTransform'](new window['DOMMatrix']([v[Matrix.MSCALE_X], v[Matrix.MSKEW_Y], v[Matrix.MSKEW_X],
+                    v[Matrix.MSCALE_Y], v[Matrix.MTRANS_X], v[Matrix.MTRANS_Y]]));
+            }
+            return pattern;
+        }
+
+        /**
+         * A canvas contain the image scaled by the density (and the mirror image if tile mode is MIRROR).
+         */
+        private getTileCanvas():HTMLCanvasElement {
+            if(this.mTileCanvas) return this.mTileCanvas;
+            let image = this.mImage;
+            if(!image.isImageLoaded() || image.width <= 0 || image.height <= 0) return null;
+
+            let scale = android.content.res.Resources.getDisplayMetrics().density / image.getImageRatio();
+            let imageWidth = Math.max(1, Math.floor(image.width * scale));
+            let imageHeight = Math.max(1, Math.floor(image.height * scale));
+            let mirrorX = this.mTileX == Shader.TileMode.MIRROR;
+            let mirrorY = this.mTileY == Shader.TileMode.MIRROR;
+
+            let tileCanvas = document.createElement('canvas');
+            tileCanvas.width = mirrorX ? imageWidth * 2 : imageWidth;
+            tileCanvas.height = mirrorY ? imageHeight * 2 : imageHeight;
+            let ctx = tileCanvas.getContext('2d');
+            let browserImage = image.browserImage;
+            ctx.drawImage(browserImage, 0, 0, imageWidth, imageHeight);
+            if(mirrorX){
+                ctx.save();
+                ctx.translate(imageWidth * 2, 0);
+                ctx.scale(-1, 1);
+                ctx.drawImage(browserImage, 0, 0, imageWidth, imageHeight);
+                ctx.restore();
+            }
+            if(mirrorY){
+                ctx.save();
+                ctx.translate(0, imageHeight * 2);
+                ctx.scale(1, -1);
+                ctx.drawImage(tileCanvas, 0, 0, tileCanvas.width, imageHeight, 0, 0, tileCanvas.width, imageHeight);
+                ctx.restore();
+            }
+            this.mTileCanvas = tileCanvas;
+            return tileCanvas;
+        }
+    }
+}
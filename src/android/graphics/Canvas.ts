@@ -8,6 +8,7 @@
 ///<reference path="Paint.ts"/>
 ///<reference path="Path.ts"/>
 ///<reference path="Matrix.ts"/>
+///<reference path="Shader.ts"/>
 ///<reference path="../../androidui/image/NetImage.ts"/>
 
 module android.graphics {
@@ -26,6 +27,8 @@ module android.graphics {
         protected mCurrentClip:Rect;
         private mClipStateMap = new Map<number, Rect>();
         protected static TempMatrixValue = new Array<number>(9);
+        //css font: [font style & weight] [size]px[/line height] [font family]
+        private static FontRegex = /^(.*?)([\d.]+)px(\/\S+)?\s+(.+)$/;
 
 
         /**
@@ -278,6 +281,72 @@ module android.graphics {
         }
 
 
+        /**
+         * Intersect the current clip with the specified path.
+         *
+         * @param path The path to intersect with the current clip
+         * @return true if the resulting is non-empty
+         */
+        clipPath(path:Path):boolean {
+            let rect = Canvas.obtainRect();
+            path.computeBounds(rect, true);
+            rect.set(Math.floor(rect.left), Math.floor(rect.top), Math.ceil(rect.right), Math.ceil(rect.bottom));
+
+            this.clipPathImpl(path);
+            this.mCurrentClip.intersect(rect);
+
+            Canvas.recycleRect(rect);
+            return !this.mCurrentClip.isEmpty();
+        }
+
+        protected clipPathImpl(path:Path):void {
+            this.doPath(path);
+            this._mCanvasContent.clip(Canvas.getFillRule(path));
+        }
+
+        private doPath(path:Path):void {
+            let ctx = this._mCanvasContent;
+            let verbs = path.mVerbs;
+            let points = path.mPoints;
+            ctx.beginPath();
+            for(let i = 0, p = 0, length = verbs.length; i < length; i++){
+                switch (verbs[i]){
+                    case Path.VERB_MOVE:
+                        ctx.moveTo(points[p], points[p+1]);
+                        p += 2;
+                        break;
+                    case Path.VERB_LINE:
+                        ctx.lineTo(points[p], points[p+1]);
+                        p += 2;
+                        break;
+                    case Path.VERB_QUAD:
+                        ctx.quadraticCurveTo(points[p], points[p+1], points[p+2], points[p+3]);
+                        p += 4;
+                        break;
+                    case Path.VERB_CUBIC:
+                        ctx.bezierCurveTo(points[p], points[p+1], points[p+2], points[p+3], points[p+4], points[p+5]);
+                        p += 6;
+                        break;
+                    case Path.VERB_CLOSE:
+                        ctx.closePath();
+                        break;
+                }
+            }
+        }
+
+        /**
+         * web canvas can't draw the inverse fill types, they are drawn as the normal fill types.
+         */
+        protected static getFillRule(path:Path):string {
+            switch (path.getFillType()){
+                case Path.FillType.EVEN_ODD:
+                case Path.FillType.INVERSE_EVEN_ODD:
+                    return 'evenodd';
+                default :
+                    return 'nonzero';
+            }
+        }
+
         getClipBounds(bounds?:Rect):Rect {
             if (!this.mCurrentClip) this.mCurrentClip = Canvas.obtainRect();
             let rect = bounds || Canvas.obtainRect();
@@ -376,18 +445,18 @@ module android.graphics {
             }
         }
 
-        private applyFillOrStrokeToContent(style:Paint.Style){
+        private applyFillOrStrokeToContent(style:Paint.Style, fillRule='nonzero'){
             switch (style){
                 case Paint.Style.STROKE:
                     this._mCanvasContent.stroke();
                     break;
                 case Paint.Style.FILL_AND_STROKE:
-                    this._mCanvasContent.fill();
+                    this._mCanvasContent.fill(fillRule);
                     this._mCanvasContent.stroke();
                     break;
                 case Paint.Style.FILL:
                 default :
-                    this._mCanvasContent.fill();
+                    this._mCanvasContent.fill(fillRule);
                     break;
             }
         }
@@ -553,7 +622,23 @@ module android.graphics {
          * @param paint The paint used to draw the path
          */
         drawPath(path:Path, paint:Paint):void  {
-            //TODO set path
+            if (path == null) {
+                throw Error(`new NullPointerException()`);
+            }
+            if (path.isEmpty()) return;
+            let paintEmpty = !paint || paint.isEmpty();
+            if(!paintEmpty){
+                this.saveImpl();
+                paint.applyToCanvas(this);
+            }
+            let style = paint ? paint.getStyle() : Paint.Style.FILL;
+            this.drawPathImpl(path, style);
+            if(!paintEmpty) this.restoreImpl();
+        }
+
+        protected drawPathImpl(path:Path, style:Paint.Style):void {
+            this.doPath(path);
+            this.applyFillOrStrokeToContent(style, Canvas.getFillRule(path));
         }
 
 
@@ -608,10 +693,35 @@ module android.graphics {
             }
 
             this.drawTextImpl(text, x, y, paint ? paint.getStyle() : null);
+            if(paint && (paint.isUnderlineText() || paint.isStrikeThruText())){
+                this.drawTextDecoration(text, x, y, paint);
+            }
 
             if(!paintEmpty) this.restoreImpl();
         }
 
+        /**
+         * draw the underline & strike through line of text, the offset & thickness are same as skia.
+         */
+        private drawTextDecoration(text:string, x:number, y:number, paint:Paint):void {
+            let textSize = paint.getTextSize();
+            if(!textSize) return;
+            let width = paint.measureText(text);
+            let align = paint.getTextAlign();
+            if(align == Paint.Align.CENTER) x -= width / 2;
+            else if(align == Paint.Align.RIGHT) x -= width;
+            // kStdUnderline_Thickness = 1/18, defined in SkTextFormatParams.h
+            let thickness = Math.max(1, textSize / 18);
+            if(paint.isUnderlineText()){
+                // kStdUnderline_Offset = 1/9
+                this.drawRectImpl(x, y + textSize / 9, width, thickness, paint.getStyle());
+            }
+            if(paint.isStrikeThruText()){
+                // kStdStrikeThru_Offset = -6/21
+                this.drawRectImpl(x, y - textSize * 6 / 21, width, thickness, paint.getStyle());
+            }
+        }
+
 
         protected drawTextImpl(text:string, x:number, y:number, style:Paint.Style):void {
             switch (style){
@@ -709,9 +819,16 @@ module android.graphics {
             this.drawText_end(text, start, end, x, y, paint);
         }
 
-        static measureText(text:string, textSize:number):number {
+        /**
+         * @param text the text to measure
+         * @param textSize the font size
+         * @param fontFamily the css font family, null to use the default font family
+         * @param bold measure with bold font
+         * @param italic measure with italic font
+         */
+        static measureText(text:string, textSize:number, fontFamily:string=null, bold=false, italic=false):number {
             if(textSize==null || textSize===0) return 0;
-            return Canvas.measureTextImpl(text, textSize);
+            return Canvas.measureTextImpl(text, textSize, fontFamily, bold, italic);
         }
 
         private static _measureTextContext:CanvasRenderingContext2D = document.createElement('canvas').getContext('2d');
@@ -719,26 +836,52 @@ module android.graphics {
         private static _static = (()=>{
             Canvas._measureTextContext.font = Canvas._measureCacheTextSize + 'px ' + Canvas.getMeasureTextFontFamily();
         })();
+        private static _measureDefaultFont = Canvas._measureTextContext.font;
         private static _measureCacheMap = new Map<number, number>();//<char, width>;
-        protected static measureTextImpl(text:string, textSize:number):number {
+        private static _measureFontCacheMaps = new Map<string, Map<number, number>>();//<font, <char, width>>
+        protected static measureTextImpl(text:string, textSize:number, fontFamily?:string, bold?:boolean, italic?:boolean):number {
+            let measureCacheMap = Canvas._measureCacheMap;
+            let font = Canvas._measureDefaultFont;
+            if(fontFamily || bold || italic){
+                font = (italic ? 'italic ' : '') + (bold ? 'bold ' : '') + Canvas._measureCacheTextSize + 'px '
+                    + (fontFamily || Canvas.getMeasureTextFontFamily());
+                measureCacheMap = Canvas._measureFontCacheMaps.get(font);
+                if(!measureCacheMap){
+                    measureCacheMap = new Map<number, number>();
+                    Canvas._measureFontCacheMaps.set(font, measureCacheMap);
+                }
+            }
+
             let width = 0;
             for(let i=0,length=text.length; i<length; i++){
                 let c = text.charCodeAt(i);
 
-                let cWidth:number = Canvas._measureCacheMap.get(c);
+                let cWidth:number = measureCacheMap.get(c);
                 if(cWidth == null){
+                    if(Canvas._measureTextContext.font != font) Canvas._measureTextContext.font = font;
                     cWidth = Canvas._measureTextContext.measureText(text[i]).width;
-                    Canvas._measureCacheMap.set(c, cWidth);
+                    measureCacheMap.set(c, cWidth);
                 }
                 width += (cWidth * textSize / Canvas._measureCacheTextSize);
             }
             return width;
         }
         protected static getMeasureTextFontFamily():string {
+            let match = Canvas._measureDefaultFont && Canvas._measureDefaultFont.match(Canvas.FontRegex);
+            if(match) return match[4];
             let fontParts = Canvas._measureTextContext.font.split(' ');
             return fontParts[fontParts.length - 1];
         }
 
+        /**
+         * @hide
+         * Clear the cached char widths, call when a web font loaded.
+         */
+        static clearMeasureTextCache():void {
+            Canvas._measureCacheMap.clear();
+            Canvas._measureFontCacheMaps.clear();
+        }
+
 
         setColor(color:number, style?:Paint.Style):void {
             if(color != null){
@@ -771,6 +914,33 @@ module android.graphics {
             }
         }
 
+        /**
+         * Fill or stroke with the shader instead of the color.
+         */
+        setShader(shader:Shader, style?:Paint.Style):void {
+            if(shader != null){
+                this.setShaderImpl(shader, style);
+            }
+        }
+
+        protected setShaderImpl(shader:Shader, style?:Paint.Style):void {
+            let shaderStyle = shader.createCanvasStyle(this._mCanvasContent, this.mWidth, this.mHeight);
+            if(shaderStyle == null) return;//draw with color
+            switch (style){
+                case Paint.Style.STROKE:
+                    this._mCanvasContent.strokeStyle = shaderStyle;
+                    break;
+                case Paint.Style.FILL:
+                    this._mCanvasContent.fillStyle = shaderStyle;
+                    break;
+                default :
+                case Paint.Style.FILL_AND_STROKE:
+                    this._mCanvasContent.fillStyle = shaderStyle;
+                    this._mCanvasContent.strokeStyle = shaderStyle;
+                    break;
+            }
+        }
+
         /**
          * @param alpha [0, 1]
          */
@@ -850,22 +1020,31 @@ module android.graphics {
 
         protected setFontSizeImpl(size:number):void {
             let cFont = this._mCanvasContent.font;
-            let fontParts = cFont.split(' ');
-            if(Number.parseFloat(fontParts[fontParts.length-2]) == size) return;
-            fontParts[fontParts.length-2] = size + 'px';
-            this._mCanvasContent.font = fontParts.join(' ');
+            let match = cFont.match(Canvas.FontRegex);
+            if(!match){
+                this._mCanvasContent.font = size + 'px ' + Canvas.getMeasureTextFontFamily();
+                return;
+            }
+            if(Number.parseFloat(match[2]) == size) return;
+            this._mCanvasContent.font = match[1] + size + 'px ' + match[4];
         }
 
-        setFont(fontName:string):void {
-            if(fontName!=null){
-                this.setFontImpl(fontName);
+        /**
+         * @param fontName the css font family, null to keep current font family
+         * @param bold use bold font (or fake bold if the font family has no bold font)
+         * @param italic use italic font (or oblique if the font family has no italic font)
+         */
+        setFont(fontName:string, bold=false, italic=false):void {
+            if(fontName!=null || bold || italic){
+                this.setFontImpl(fontName, bold, italic);
             }
         }
-        protected setFontImpl(fontName:string):void {
+        protected setFontImpl(fontName:string, bold:boolean, italic:boolean):void {
             let cFont = this._mCanvasContent.font;
-            let fontParts = cFont.split(' ');
-            fontParts[fontParts.length - 1] = fontName;//font family
-            let font = fontParts.join(' ');
+            let match = cFont.match(Canvas.FontRegex);
+            let size = match ? match[2] : '10';
+            let family = fontName || (match ? match[4] : Canvas.getMeasureTextFontFamily());
+            let font = (italic ? 'italic ' : '') + (bold ? 'bold ' : '') + size + 'px ' + family;
             if(font!=cFont) this._mCanvasContent.font = font;
         }
     }
@@ -0,0 +1,65 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="Shader.ts"/>
+
+module android.graphics{
+
+    export class LinearGradient extends Shader{
+        private mX0:number;
+        private mY0:number;
+        private mX1:number;
+        private mY1:number;
+        private mColors:number[];
+        private mPositions:number[];
+        private mTileMode:Shader.TileMode;
+
+        /** Create a shader that draws a linear gradient along a line.
+         * @param x0           The x-coordinate for the start of the gradient line
+         * @param y0           The y-coordinate for the start of the gradient line
+         * @param x1           The x-coordinate for the end of the gradient line
+         * @param y1           The y-coordinate for the end of the gradient line
+         * @param colors       The colors to be distributed along the gradient line
+         * @param positions    May be null. The relative positions [0..1] of
+         *                     each corresponding color in the colors array. If this is null,
+         *                     the the colors are distributed evenly along the gradient line.
+         * @param tile         The Shader tiling mode
+         */
+        constructor(x0:number, y0:number, x1:number, y1:number, colors:number[], positions:number[], tile:Shader.TileMode);
+        /** Create a shader that draws a linear gradient along a line.
+         * @param color0       The color at the start of the gradient line.
+         * @param color1       The color at the end of the gradient line.
+         */
+        constructor(x0:number, y0:number, x1:number, y1:number, color0:number, color1:number, tile:Shader.TileMode);
+        constructor(...args){
+            super();
+            let [x0, y0, x1, y1, colors, positions, tile] = args;
+            if(!(colors instanceof Array)){
+                colors = [colors, positions];
+                positions = null;
+            }
+            Shader.checkGradientColors(colors, positions);
+            this.mX0 = x0;
+            this.mY0 = y0;
+            this.mX1 = x1;
+            this.mY1 = y1;
+            this.mColors = colors.concat();
+            this.mPositions = positions ? positions.concat() : null;
+            this.mTileMode = tile == null ? Shader.TileMode.CLAMP : tile;
+        }
+
+        createCanvasStyle(context:CanvasRenderingContext2D, width:number, height:number):CanvasGradient {
+            let points = [this.mX0, this.mY0, this.mX1, this.mY1];
+            let matrix = this.getLocalMatrixOrNull();
+            if(matrix) matrix.mapPoints(points);
+            let [x0, y0, x1, y1] = points;
+            let dx = x1 - x0, dy = y1 - y0;
+            let repeatCount = Shader.getGradientRepeatCount(this.mTileMode, Math.sqrt(dx * dx + dy * dy), width, height, x0, y0);
+
+            let gradient = context.createLinearGradient(x0 - dx * repeatCount, y0 - dy * repeatCount,
+                x1 + dx * repeatCount, y1 + dy * repeatCount);
+            Shader.addGradientColorStops(gradient, this.mColors, this.mPositions, this.mTileMode, repeatCount, true);
+            return gradient;
+        }
+    }
+}
@@ -2,6 +2,8 @@
  * Created by linfaxin on 15/10/29.
  */
 ///<reference path="Canvas.ts"/>
+///<reference path="Shader.ts"/>
+///<reference path="Typeface.ts"/>
 
 module android.graphics{
 
@@ -196,6 +198,9 @@ module android.graphics{
         private mStrokeJoin:Paint.Join;
         private textSize:number;
         private textScaleX = 1;
+        private mShader:Shader;
+        private mTypeface:Typeface;
+        private mTextSkewX = 0;
 
         private mFlag = 0;
 
@@ -256,6 +261,9 @@ module android.graphics{
             this.mStrokeJoin = paint.mStrokeJoin;
             this.textSize = paint.textSize;
             this.textScaleX = paint.textScaleX;
+            this.mShader = paint.mShader;
+            this.mTypeface = paint.mTypeface;
+            this.mTextSkewX = paint.mTextSkewX;
             this.mFlag = paint.mFlag;
             this.hasShadow = paint.hasShadow;
             this.shadowDx = paint.shadowDx;
@@ -306,6 +314,121 @@ module android.graphics{
             this.mFlag = flags;
         }
 
+        /**
+         * Helper for getFlags(), returning true if UNDERLINE_TEXT_FLAG bit is set
+         *
+         * @return true if the underlineText bit is set in the paint's flags.
+         */
+        isUnderlineText():boolean {
+            return (this.getFlags() & Paint.UNDERLINE_TEXT_FLAG) != 0;
+        }
+
+        /**
+         * Helper for setFlags(), setting or clearing the UNDERLINE_TEXT_FLAG bit
+         *
+         * @param underlineText true to set the underlineText bit in the paint's
+         *                      flags, false to clear it.
+         */
+        setUnderlineText(underlineText:boolean):void {
+            if(underlineText) this.mFlag |= Paint.UNDERLINE_TEXT_FLAG;
+            else this.mFlag &= ~Paint.UNDERLINE_TEXT_FLAG;
+        }
+
+        /**
+         * Helper for getFlags(), returning true if STRIKE_THRU_TEXT_FLAG bit is set
+         *
+         * @return true if the strikeThruText bit is set in the paint's flags.
+         */
+        isStrikeThruText():boolean {
+            return (this.getFlags() & Paint.STRIKE_THRU_TEXT_FLAG) != 0;
+        }
+
+        /**
+         * Helper for setFlags(), setting or clearing the STRIKE_THRU_TEXT_FLAG bit
+         *
+         * @param strikeThruText true to set the strikeThruText bit in the paint's
+         *                       flags, false to clear it.
+         */
+        setStrikeThruText(strikeThruText:boolean):void {
+            if(strikeThruText) this.mFlag |= Paint.STRIKE_THRU_TEXT_FLAG;
+            else this.mFlag &= ~Paint.STRIKE_THRU_TEXT_FLAG;
+        }
+
+        /**
+         * Helper for getFlags(), returning true if FAKE_BOLD_TEXT_FLAG bit is set
+         *
+         * @return true if the fakeBoldText bit is set in the paint's flags.
+         */
+        isFakeBoldText():boolean {
+            return (this.getFlags() & Paint.FAKE_BOLD_TEXT_FLAG) != 0;
+        }
+
+        /**
+         * Helper for setFlags(), setting or clearing the FAKE_BOLD_TEXT_FLAG bit
+         *
+         * @param fakeBoldText true to set the fakeBoldText bit in the paint's
+         *                     flags, false to clear it.
+         */
+        setFakeBoldText(fakeBoldText:boolean):void {
+            if(fakeBoldText) this.mFlag |= Paint.FAKE_BOLD_TEXT_FLAG;
+            else this.mFlag &= ~Paint.FAKE_BOLD_TEXT_FLAG;
+        }
+
+        /**
+         * Return the paint's horizontal skew factor for text. The default value
+         * is 0.
+         *
+         * @return         the paint's skew factor in X for drawing text.
+         */
+        getTextSkewX():number {
+            return this.mTextSkewX;
+        }
+
+        /**
+         * Set the paint's horizontal skew factor for text. The default value
+         * is 0. For approximating oblique text, use values around -0.25.
+         * Note: any non-zero value draws the text as italic (oblique) on web canvas.
+         *
+         * @param skewX set the paint's skew factor in X for drawing text.
+         */
+        setTextSkewX(skewX:number):void {
+            this.mTextSkewX = skewX;
+        }
+
+        /**
+         * Get the paint's typeface object.
+         * <p />
+         * The typeface object identifies which font to use when drawing or
+         * measuring text.
+         *
+         * @return the paint's typeface (or null)
+         */
+        getTypeface():Typeface {
+            return this.mTypeface;
+        }
+
+        /**
+         * Set or clear the typeface object.
+         * <p />
+         * Pass null to clear any previous typeface.
+         * As a convenience, the parameter passed is also returned.
+         *
+         * @param typeface May be null. The typeface to be installed in the paint
+         * @return         typeface
+         */
+        setTypeface(typeface:Typeface):Typeface {
+            this.mTypeface = typeface;
+            return typeface;
+        }
+
+        private isTextBold():boolean {
+            return this.isFakeBoldText() || (this.mTypeface != null && this.mTypeface.isBold());
+        }
+
+        private isTextItalic():boolean {
+            return this.mTextSkewX != 0 || (this.mTypeface != null && this.mTypeface.isItalic());
+        }
+
         getTextScaleX():number {
             return this.textScaleX;
         }
@@ -409,6 +532,29 @@ module android.graphics{
 
 
 
+        /**
+         * Get the paint's shader object.
+         *
+         * @return the paint's shader (or null)
+         */
+        getShader():Shader {
+            return this.mShader;
+        }
+
+        /**
+         * Set or clear the shader object.
+         * <p />
+         * Pass null to clear any previous shader.
+         * As a convenience, the parameter passed is also returned.
+         *
+         * @param shader May be null. the new shader to be installed in the paint
+         * @return       shader
+         */
+        setShader(shader:Shader):Shader {
+            this.mShader = shader;
+            return shader;
+        }
+
         setAntiAlias(enable:boolean){
             //no effect on web canvas
             //http://stackoverflow.com/questions/4261090/html5-canvas-and-anti-aliasing
@@ -563,7 +709,9 @@ module android.graphics{
          * @return      The width of the text
          */
         measureText(text:string, index=0, count=text.length):number  {
-            return Canvas.measureText(text.substr(index, count), this.textSize) * this.textScaleX;
+            let fontFamily = this.mTypeface != null ? this.mTypeface.getCssFontFamily() : null;
+            return Canvas.measureText(text.substr(index, count), this.textSize, fontFamily, this.isTextBold(), this.isTextItalic())
+                * this.textScaleX;
         }
 
         /**
@@ -774,6 +922,12 @@ module android.graphics{
                 && this.mStrokeJoin==null
                 && !this.hasShadow
                 && this.textSize==null
+                && this.mShader==null
+                && this.mTypeface==null
+                && this.mTextSkewX==0
+                && !this.isFakeBoldText()
+                && !this.isUnderlineText()
+                && !this.isStrikeThruText()
             ;
         }
 
@@ -783,6 +937,10 @@ module android.graphics{
                 canvas.setColor(this.mColor, this.getStyle());
             }
 
+            if(this.mShader!=null){
+                canvas.setShader(this.mShader, this.getStyle());
+            }
+
             if(this.mAlpha!=null){
                 canvas.multiplyAlpha(this.mAlpha / 255);
             }
@@ -808,6 +966,12 @@ module android.graphics{
                 canvas.setFontSize(this.textSize);
             }
 
+            let bold = this.isTextBold();
+            let italic = this.isTextItalic();
+            if(this.mTypeface!=null || bold || italic){
+                canvas.setFont(this.mTypeface != null ? this.mTypeface.getCssFontFamily() : null, bold, italic);
+            }
+
             if(this.textScaleX!=1){
                 canvas.scale(this.textScaleX, 1);
             }
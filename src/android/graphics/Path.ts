@@ -1,11 +1,661 @@
 /**
  * Created by linfaxin on 15/12/6.
  */
+///<reference path="RectF.ts"/>
+///<reference path="Matrix.ts"/>
+
 module android.graphics{
+    import RectF = android.graphics.RectF;
+    import Matrix = android.graphics.Matrix;
+
+    /**
+     * The Path class encapsulates compound (multiple contour) geometric paths
+     * consisting of straight line segments, quadratic curves, and cubic curves.
+     * It can be drawn with canvas.drawPath(path, paint), either filled or stroked
+     * (based on the paint's Style), or it can be used for clipping.
+     *
+     * Arcs, ovals, circles and round rects are stored as cubic curves, so the path
+     * can be offset and transformed by a Matrix without losing its shape.
+     */
     export class Path{
+        /** @hide */
+        static VERB_MOVE = 0;
+        /** @hide */
+        static VERB_LINE = 1;
+        /** @hide */
+        static VERB_QUAD = 2;
+        /** @hide */
+        static VERB_CUBIC = 3;
+        /** @hide */
+        static VERB_CLOSE = 4;
+
+        //an arc is split into cubic curves that span at most a quarter of circle
+        private static ARC_MAX_SEGMENT_ANGLE = Math.PI / 2;
+
+        /**
+         * @hide verbs of the path, read by the Canvas when drawing the path
+         */
+        mVerbs:number[] = [];
+        /**
+         * @hide points of the path, x and y pairs, read by the Canvas when drawing the path
+         */
+        mPoints:number[] = [];
+
+        private mFillType = Path.FillType.WINDING;
+        private mLastMoveToX = 0;
+        private mLastMoveToY = 0;
+
+        /**
+         * Create an empty path, or a new path that is a copy of the src path.
+         *
+         * @param src The path to copy from when initializing the new path
+         */
+        constructor(src?:Path){
+            if(src) this.set(src);
+        }
+
+        /**
+         * Clear any lines and curves from the path, making it empty.
+         * This does NOT change the fill-type setting.
+         */
+        reset():void {
+            this.mVerbs.length = 0;
+            this.mPoints.length = 0;
+            this.mLastMoveToX = this.mLastMoveToY = 0;
+        }
+
+        /**
+         * Rewinds the path: clears any lines and curves from the path but
+         * keeps the internal data structure for faster reuse.
+         */
+        rewind():void {
+            this.reset();
+        }
+
+        /** Replace the contents of this with the contents of src.
+         */
+        set(src:Path):void {
+            if (this == src) return;
+            this.mVerbs = src.mVerbs.concat();
+            this.mPoints = src.mPoints.concat();
+            this.mFillType = src.mFillType;
+            this.mLastMoveToX = src.mLastMoveToX;
+            this.mLastMoveToY = src.mLastMoveToY;
+        }
+
+        /**
+         * Return the path's fill type. This defines how "inside" is
+         * computed. The default value is WINDING.
+         *
+         * @return the path's fill type
+         */
+        getFillType():Path.FillType {
+            return this.mFillType;
+        }
+
+        /**
+         * Set the path's fill type. This defines how "inside" is computed.
+         * Note: the INVERSE fill types are drawn as their non-inverse type on web canvas.
+         *
+         * @param ft The new fill type for this path
+         */
+        setFillType(ft:Path.FillType):void {
+            this.mFillType = ft;
+        }
+
+        /**
+         * Returns true if the filltype is one of the INVERSE variants
+         *
+         * @return true if the filltype is one of the INVERSE variants
+         */
+        isInverseFillType():boolean {
+            return this.mFillType == Path.FillType.INVERSE_WINDING || this.mFillType == Path.FillType.INVERSE_EVEN_ODD;
+        }
+
+        /**
+         * Toggles the INVERSE state of the filltype
+         */
+        toggleInverseFillType():void {
+            switch (this.mFillType){
+                case Path.FillType.WINDING: this.mFillType = Path.FillType.INVERSE_WINDING; break;
+                case Path.FillType.EVEN_ODD: this.mFillType = Path.FillType.INVERSE_EVEN_ODD; break;
+                case Path.FillType.INVERSE_WINDING: this.mFillType = Path.FillType.WINDING; break;
+                case Path.FillType.INVERSE_EVEN_ODD: this.mFillType = Path.FillType.EVEN_ODD; break;
+            }
+        }
+
+        /**
+         * Returns true if the path is empty (contains no lines or curves)
+         *
+         * @return true if the path is empty (contains no lines or curves)
+         */
+        isEmpty():boolean {
+            return this.mVerbs.length == 0;
+        }
+
+        /**
+         * Compute the bounds of the control points of the path, and write the
+         * answer into bounds. If the path contains 0 or 1 points, the bounds is
+         * set to (0,0,0,0)
+         *
+         * @param bounds Returns the computed bounds of the path's control points.
+         * @param exact This parameter is no longer used.
+         */
+        computeBounds(bounds:RectF, exact:boolean):void {
+            let points = this.mPoints;
+            if(points.length < 4){
+                bounds.set(0, 0, 0, 0);
+                return;
+            }
+            let left = points[0], top = points[1], right = left, bottom = top;
+            for(let i = 2, length = points.length; i < length; i += 2){
+                let x = points[i], y = points[i+1];
+                if(x < left) left = x;
+                if(x > right) right = x;
+                if(y < top) top = y;
+                if(y > bottom) bottom = y;
+            }
+            bounds.set(left, top, right, bottom);
+        }
+
+        /**
+         * Hint to the path to prepare for adding more points. No effect on web.
+         *
+         * @param extraPtCount The number of extra points that may be added to this
+         *                     path
+         */
+        incReserve(extraPtCount:number):void {
+        }
+
+        /**
+         * Set the beginning of the next contour to the point (x,y).
+         *
+         * @param x The x-coordinate of the start of a new contour
+         * @param y The y-coordinate of the start of a new contour
+         */
+        moveTo(x:number, y:number):void {
+            let verbs = this.mVerbs;
+            if(verbs.length > 0 && verbs[verbs.length-1] == Path.VERB_MOVE){
+                //consecutive moveTo: only the last one matters
+                let points = this.mPoints;
+                points[points.length-2] = x;
+                points[points.length-1] = y;
+            }else{
+                verbs.push(Path.VERB_MOVE);
+                this.mPoints.push(x, y);
+            }
+            this.mLastMoveToX = x;
+            this.mLastMoveToY = y;
+        }
+
+        /**
+         * Set the beginning of the next contour relative to the last point on the
+         * previous contour. If there is no previous contour, this is treated the
+         * same as moveTo().
+         *
+         * @param dx The amount to add to the x-coordinate of the end of the
+         *           previous contour, to specify the start of a new contour
+         * @param dy The amount to add to the y-coordinate of the end of the
+         *           previous contour, to specify the start of a new contour
+         */
+        rMoveTo(dx:number, dy:number):void {
+            this.moveTo(this.getLastX() + dx, this.getLastY() + dy);
+        }
+
+        /**
+         * Add a line from the last point to the specified point (x,y).
+         * If no moveTo() call has been made for this contour, the first point is
+         * automatically set to (0,0).
+         *
+         * @param x The x-coordinate of the end of a line
+         * @param y The y-coordinate of the end of a line
+         */
+        lineTo(x:number, y:number):void {
+            this.injectMoveToIfNeeded();
+            this.mVerbs.push(Path.VERB_LINE);
+            this.mPoints.push(x, y);
+        }
+
+        /**
+         * Same as lineTo, but the coordinates are considered relative to the last
+         * point on this contour. If there is no previous point, then a moveTo(0,0)
+         * is inserted automatically.
+         *
+         * @param dx The amount to add to the x-coordinate of the previous point on
+         *           this contour, to specify a line
+         * @param dy The amount to add to the y-coordinate of the previous point on
+         *           this contour, to specify a line
+         */
+        rLineTo(dx:number, dy:number):void {
+            this.lineTo(this.getLastX() + dx, this.getLastY() + dy);
+        }
+
+        /**
+         * Add a quadratic bezier from the last point, approaching control point
+         * (x1,y1), and ending at (x2,y2). If no moveTo() call has been made for
+         * this contour, the first point is automatically set to (0,0).
+         *
+         * @param x1 The x-coordinate of the control point on a quadratic curve
+         * @param y1 The y-coordinate of the control point on a quadratic curve
+         * @param x2 The x-coordinate of the end point on a quadratic curve
+         * @param y2 The y-coordinate of the end point on a quadratic curve
+         */
+        quadTo(x1:number, y1:number, x2:number, y2:number):void {
+            this.injectMoveToIfNeeded();
+            this.mVerbs.push(Path.VERB_QUAD);
+            this.mPoints.push(x1, y1, x2, y2);
+        }
+
+        /**
+         * Same as quadTo, but the coordinates are considered relative to the last
+         * point on this contour. If there is no previous point, then a moveTo(0,0)
+         * is inserted automatically.
+         */
+        rQuadTo(dx1:number, dy1:number, dx2:number, dy2:number):void {
+            let lastX = this.getLastX(), lastY = this.getLastY();
+            this.quadTo(lastX + dx1, lastY + dy1, lastX + dx2, lastY + dy2);
+        }
+
+        /**
+         * Add a cubic bezier from the last point, approaching control points
+         * (x1,y1) and (x2,y2), and ending at (x3,y3). If no moveTo() call has been
+         * made for this contour, the first point is automatically set to (0,0).
+         *
+         * @param x1 The x-coordinate of the 1st control point on a cubic curve
+         * @param y1 The y-coordinate of the 1st control point on a cubic curve
+         * @param x2 The x-coordinate of the 2nd control point on a cubic curve
+         * @param y2 The y-coordinate of the 2nd control point on a cubic curve
+         * @param x3 The x-coordinate of the end point on a cubic curve
+         * @param y3 The y-coordinate of the end point on a cubic curve
+         */
+        cubicTo(x1:number, y1:number, x2:number, y2:number, x3:number, y3:number):void {
+            this.injectMoveToIfNeeded();
+            this.mVerbs.push(Path.VERB_CUBIC);
+            this.mPoints.push(x1, y1, x2, y2, x3, y3);
+        }
 
-        reset(){
+        /**
+         * Same as cubicTo, but the coordinates are considered relative to the
+         * current point on this contour. If there is no previous point, then a
+         * moveTo(0,0) is inserted automatically.
+         */
+        rCubicTo(x1:number, y1:number, x2:number, y2:number, x3:number, y3:number):void {
+            let lastX = this.getLastX(), lastY = this.getLastY();
+            this.cubicTo(lastX + x1, lastY + y1, lastX + x2, lastY + y2, lastX + x3, lastY + y3);
+        }
+
+        /**
+         * Append the specified arc to the path as a new contour. If the start of
+         * the path is different from the path's current last point, then an
+         * automatic lineTo() is added to connect the current contour to the
+         * start of the arc. However, if the path is empty, then we call moveTo()
+         * with the first point of the arc.
+         *
+         * @param oval        The bounds of oval defining shape and size of the arc
+         * @param startAngle  Starting angle (in degrees) where the arc begins
+         * @param sweepAngle  Sweep angle (in degrees) measured clockwise, treated
+         *                    mod 360.
+         * @param forceMoveTo If true, always begin a new contour with the arc
+         */
+        arcTo(oval:RectF, startAngle:number, sweepAngle:number, forceMoveTo=false):void {
+            if (sweepAngle >= 360 || sweepAngle <= -360) sweepAngle %= 360;
+            this.appendArc(oval.centerX(), oval.centerY(), oval.width() / 2, oval.height() / 2,
+                startAngle * Math.PI / 180, sweepAngle * Math.PI / 180, forceMoveTo || this.isEmpty());
+        }
+
+        /**
+         * Close the current contour. If the current point is not equal to the
+         * first point of the contour, a line segment is automatically added.
+         * The last point of the path is set back to the first point of the contour.
+         */
+        close():void {
+            let verbs = this.mVerbs;
+            if(verbs.length > 0 && verbs[verbs.length-1] != Path.VERB_CLOSE){
+                verbs.push(Path.VERB_CLOSE);
+            }
+        }
+
+        /**
+         * Add a closed rectangle contour to the path
+         *
+         * @param rect The rectangle to add as a closed contour to the path
+         * @param dir  The direction to wind the rectangle's contour
+         */
+        addRect(rect:RectF, dir:Path.Direction):void;
+        addRect(left:number, top:number, right:number, bottom:number, dir:Path.Direction):void;
+        addRect(...args):void {
+            let left:number, top:number, right:number, bottom:number, dir:Path.Direction;
+            if(args.length == 2){
+                let rect:RectF = args[0];
+                [left, top, right, bottom, dir] = [rect.left, rect.top, rect.right, rect.bottom, args[1]];
+            }else{
+                [left, top, right, bottom, dir] = args;
+            }
+            this.moveTo(left, top);
+            if(dir == Path.Direction.CCW){
+                this.lineTo(left, bottom);
+                this.lineTo(right, bottom);
+                this.lineTo(right, top);
+            }else{
+                this.lineTo(right, top);
+                this.lineTo(right, bottom);
+                this.lineTo(left, bottom);
+            }
+            this.close();
+        }
+
+        /**
+         * Add a closed oval contour to the path
+         *
+         * @param oval The bounds of the oval to add as a closed contour to the path
+         * @param dir  The direction to wind the oval's contour
+         */
+        addOval(oval:RectF, dir:Path.Direction):void {
+            if (oval == null) {
+                throw Error(`new NullPointerException("need oval parameter")`);
+            }
+            let sweep = dir == Path.Direction.CCW ? -2 * Math.PI : 2 * Math.PI;
+            this.appendArc(oval.centerX(), oval.centerY(), oval.width() / 2, oval.height() / 2, 0, sweep, true);
+            this.close();
+        }
+
+        /**
+         * Add a closed circle contour to the path
+         *
+         * @param x   The x-coordinate of the center of a circle to add to the path
+         * @param y   The y-coordinate of the center of a circle to add to the path
+         * @param radius The radius of a circle to add to the path
+         * @param dir    The direction to wind the circle's contour
+         */
+        addCircle(x:number, y:number, radius:number, dir:Path.Direction):void {
+            if(radius <= 0) return;
+            let sweep = dir == Path.Direction.CCW ? -2 * Math.PI : 2 * Math.PI;
+            this.appendArc(x, y, radius, radius, 0, sweep, true);
+            this.close();
+        }
+
+        /**
+         * Add the specified arc to the path as a new contour.
+         *
+         * @param oval The bounds of oval defining the shape and size of the arc
+         * @param startAngle Starting angle (in degrees) where the arc begins
+         * @param sweepAngle Sweep angle (in degrees) measured clockwise
+         */
+        addArc(oval:RectF, startAngle:number, sweepAngle:number):void {
+            if (oval == null) {
+                throw Error(`new NullPointerException("need oval parameter")`);
+            }
+            if (sweepAngle >= 360 || sweepAngle <= -360) {
+                this.addOval(oval, sweepAngle > 0 ? Path.Direction.CW : Path.Direction.CCW);
+                return;
+            }
+            this.appendArc(oval.centerX(), oval.centerY(), oval.width() / 2, oval.height() / 2,
+                startAngle * Math.PI / 180, sweepAngle * Math.PI / 180, true);
+        }
+
+        /**
+         * Add a closed round-rectangle contour to the path
+         *
+         * @param rect The bounds of a round-rectangle to add to the path
+         * @param rx   The x-radius of the rounded corners on the round-rectangle
+         * @param ry   The y-radius of the rounded corners on the round-rectangle
+         * @param dir  The direction to wind the round-rectangle's contour
+         */
+        addRoundRect(rect:RectF, rx:number, ry:number, dir:Path.Direction):void;
+        /**
+         * Add a closed round-rectangle contour to the path. Each corner receives
+         * two radius values [X, Y]. The corners are ordered top-left, top-right,
+         * bottom-right, bottom-left
+         *
+         * @param rect The bounds of a round-rectangle to add to the path
+         * @param radii Array of 8 values, 4 pairs of [X,Y] radii
+         * @param dir  The direction to wind the round-rectangle's contour
+         */
+        addRoundRect(rect:RectF, radii:number[], dir:Path.Direction):void;
+        addRoundRect(...args):void {
+            let rect:RectF = args[0];
+            if (rect == null) {
+                throw Error(`new NullPointerException("need rect parameter")`);
+            }
+            let radii:number[];
+            let dir:Path.Direction;
+            if(args.length == 4){
+                let rx:number = args[1], ry:number = args[2];
+                radii = [rx, ry, rx, ry, rx, ry, rx, ry];
+                dir = args[3];
+            }else{
+                radii = args[1];
+                if (radii.length < 8) {
+                    throw Error(`new ArrayIndexOutOfBoundsException("radii[] needs 8 values")`);
+                }
+                dir = args[2];
+            }
+            let [tlx, tly, trx, tRy, brx, bry, blx, bly] = radii;
+            let left = rect.left, top = rect.top, right = rect.right, bottom = rect.bottom;
+            let width = right - left, height = bottom - top;
+
+            //scale down the radii if the corners overlap
+            let scale = Math.min(width / (tlx + trx), width / (blx + brx), height / (tly + bly), height / (tRy + bry));
+            if(scale < 1){
+                tlx *= scale; tly *= scale; trx *= scale; tRy *= scale;
+                brx *= scale; bry *= scale; blx *= scale; bly *= scale;
+            }
+
+            const PI = Math.PI, HALF_PI = PI / 2;
+            if(dir == Path.Direction.CCW){
+                this.moveTo(left + tlx, top);
+                this.appendCorner(left + tlx, top + tly, tlx, tly, -HALF_PI, -HALF_PI);
+                this.lineTo(left, bottom - bly);
+                this.appendCorner(left + blx, bottom - bly, blx, bly, PI, -HALF_PI);
+                this.lineTo(right - brx, bottom);
+                this.appendCorner(right - brx, bottom - bry, brx, bry, HALF_PI, -HALF_PI);
+                this.lineTo(right, top + tRy);
+                this.appendCorner(right - trx, top + tRy, trx, tRy, 0, -HALF_PI);
+            }else{
+                this.moveTo(left + tlx, top);
+                this.lineTo(right - trx, top);
+                this.appendCorner(right - trx, top + tRy, trx, tRy, -HALF_PI, HALF_PI);
+                this.lineTo(right, bottom - bry);
+                this.appendCorner(right - brx, bottom - bry, brx, bry, 0, HALF_PI);
+                this.lineTo(left + blx, bottom);
+                this.appendCorner(left + blx, bottom - bly, blx, bly, HALF_PI, HALF_PI);
+                this.lineTo(left, top + tly);
+                this.appendCorner(left + tlx, top + tly, tlx, tly, PI, HALF_PI);
+            }
+            this.close();
+        }
+
+        /**
+         * Add a copy of src to the path, offset by (dx,dy), or transformed by the matrix.
+         *
+         * @param src The path to add as a new contour
+         * @param dx  The amount to translate the path in X as it is added
+         * @param dy  The amount to translate the path in Y as it is added
+         */
+        addPath(src:Path, dx?:number, dy?:number):void;
+        addPath(src:Path, matrix:Matrix):void;
+        addPath(...args):void {
+            let src:Path = args[0];
+            let copy = new Path(src);
+            if(args[1] instanceof Matrix){
+                copy.transform(args[1]);
+            }else if(args.length == 3){
+                copy.offset(args[1], args[2]);
+            }
+            let verbs = this.mVerbs;
+            if(verbs.length > 0 && verbs[verbs.length-1] == Path.VERB_MOVE){
+                //drop the dangling moveTo
+                verbs.pop();
+                this.mPoints.length -= 2;
+            }
+            this.mVerbs.push(...copy.mVerbs);
+            this.mPoints.push(...copy.mPoints);
+            if(!copy.isEmpty()){
+                this.mLastMoveToX = copy.mLastMoveToX;
+                this.mLastMoveToY = copy.mLastMoveToY;
+            }
+        }
+
+        /**
+         * Offset the path by (dx,dy), returning true on success
+         *
+         * @param dx  The amount in the X direction to offset the entire path
+         * @param dy  The amount in the Y direction to offset the entire path
+         * @param dst The translated path is written here. If this is null, then
+         *            the original path is modified.
+         */
+        offset(dx:number, dy:number, dst?:Path):void {
+            let path:Path = this;
+            if (dst != null) {
+                dst.set(this);
+                path = dst;
+            }
+            let points = path.mPoints;
+            for(let i = 0, length = points.length; i < length; i += 2){
+                points[i] += dx;
+                points[i+1] += dy;
+            }
+            path.mLastMoveToX += dx;
+            path.mLastMoveToY += dy;
+        }
+
+        /**
+         * Sets the last point of the path.
+         *
+         * @param dx The new X coordinate for the last point
+         * @param dy The new Y coordinate for the last point
+         */
+        setLastPoint(dx:number, dy:number):void {
+            let points = this.mPoints;
+            if(points.length == 0){
+                this.moveTo(dx, dy);
+                return;
+            }
+            points[points.length-2] = dx;
+            points[points.length-1] = dy;
+        }
+
+        /**
+         * Transform the points in this path by matrix, and write the answer
+         * into dst. If dst is null, then the the original path is modified.
+         *
+         * @param matrix The matrix to apply to the path
+         * @param dst    The transformed path is written here. If dst is null,
+         *               then the the original path is modified
+         */
+        transform(matrix:Matrix, dst?:Path):void {
+            let path:Path = this;
+            if (dst != null) {
+                dst.set(this);
+                path = dst;
+            }
+            if(path.mPoints.length > 0){
+                matrix.mapPoints(path.mPoints);
+            }
+            let lastMoveTo = [path.mLastMoveToX, path.mLastMoveToY];
+            matrix.mapPoints(lastMoveTo);
+            [path.mLastMoveToX, path.mLastMoveToY] = lastMoveTo;
+        }
+
+        private getLastX():number {
+            //close() sets the last point back to the start of the closed contour
+            if(this.isLastVerbClose()) return this.mLastMoveToX;
+            let points = this.mPoints;
+            return points.length > 0 ? points[points.length-2] : 0;
+        }
+
+        private getLastY():number {
+            if(this.isLastVerbClose()) return this.mLastMoveToY;
+            let points = this.mPoints;
+            return points.length > 0 ? points[points.length-1] : 0;
+        }
+
+        private isLastVerbClose():boolean {
+            let verbs = this.mVerbs;
+            return verbs.length > 0 && verbs[verbs.length-1] == Path.VERB_CLOSE;
+        }
+
+        private injectMoveToIfNeeded():void {
+            let verbs = this.mVerbs;
+            if(verbs.length == 0){
+                this.moveTo(0, 0);
+            }else if(verbs[verbs.length-1] == Path.VERB_CLOSE){
+                this.moveTo(this.mLastMoveToX, this.mLastMoveToY);
+            }
+        }
+
+        private appendCorner(cx:number, cy:number, rx:number, ry:number, startRadian:number, sweepRadian:number):void {
+            if(rx <= 0 || ry <= 0){
+                this.lineTo(cx + rx * Math.cos(startRadian), cy + ry * Math.sin(startRadian));
+                return;
+            }
+            this.appendArc(cx, cy, rx, ry, startRadian, sweepRadian, false);
+        }
+
+        private appendArc(cx:number, cy:number, rx:number, ry:number, startRadian:number, sweepRadian:number, forceMoveTo:boolean):void {
+            let startX = cx + rx * Math.cos(startRadian);
+            let startY = cy + ry * Math.sin(startRadian);
+            if(forceMoveTo){
+                this.moveTo(startX, startY);
+            }else if(startX != this.getLastX() || startY != this.getLastY()){
+                this.lineTo(startX, startY);
+            }
+            if(sweepRadian == 0) return;
+
+            let segmentCount = Math.ceil(Math.abs(sweepRadian) / Path.ARC_MAX_SEGMENT_ANGLE - 1e-7);
+            let segmentSweep = sweepRadian / segmentCount;
+            let k = 4 / 3 * Math.tan(segmentSweep / 4);
+            let angle = startRadian;
+            let cos = Math.cos(angle), sin = Math.sin(angle);
+            for(let i = 0; i < segmentCount; i++){
+                let nextAngle = angle + segmentSweep;
+                let nextCos = Math.cos(nextAngle), nextSin = Math.sin(nextAngle);
+                this.cubicTo(
+                    cx + rx * (cos - k * sin), cy + ry * (sin + k * cos),
+                    cx + rx * (nextCos + k * nextSin), cy + ry * (nextSin - k * nextCos),
+                    cx + rx * nextCos, cy + ry * nextSin
+                );
+                angle = nextAngle;
+                cos = nextCos;
+                sin = nextSin;
+            }
+        }
+    }
+
+    export module Path{
+        /**
+         * Specifies how closed shapes (e.g. rects, ovals) are oriented when they
+         * are added to a path.
+         */
+        export enum Direction {
+            /** clockwise */
+            CW,
+            /** counter-clockwise */
+            CCW
+        }
 
+        /**
+         * Enum for the ways a path may be filled.
+         */
+        export enum FillType {
+            /**
+             * Specifies that "inside" is computed by a non-zero sum of signed
+             * edge crossings.
+             */
+            WINDING,
+            /**
+             * Specifies that "inside" is computed by an odd number of edge
+             * crossings.
+             */
+            EVEN_ODD,
+            /**
+             * Same as {@link #WINDING}, but draws outside of the path, rather than inside.
+             */
+            INVERSE_WINDING,
+            /**
+             * Same as {@link #EVEN_ODD}, but draws outside of the path, rather than inside.
+             */
+            INVERSE_EVEN_ODD
         }
     }
-}
\ No newline at end of file
+}
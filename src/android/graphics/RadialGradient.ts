@@ -0,0 +1,68 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="Shader.ts"/>
+
+module android.graphics{
+
+    export class RadialGradient extends Shader{
+        private mX:number;
+        private mY:number;
+        private mRadius:number;
+        private mColors:number[];
+        private mPositions:number[];
+        private mTileMode:Shader.TileMode;
+
+        /** Create a shader that draws a radial gradient given the center and radius.
+         * @param centerX  The x-coordinate of the center of the radius
+         * @param centerY  The y-coordinate of the center of the radius
+         * @param radius   Must be positive. The radius of the circle for this gradient
+         * @param colors   The colors to be distributed between the center and edge of the circle
+         * @param stops    May be <code>null</code>. Valid values are between <code>0.0f</code> and
+         *                 <code>1.0f</code>. The relative position of each corresponding color in
+         *                 the colors array. If <code>null</code>, colors are distributed evenly
+         *                 between the center and edge of the circle.
+         * @param tileMode The Shader tiling mode
+         */
+        constructor(centerX:number, centerY:number, radius:number, colors:number[], stops:number[], tileMode:Shader.TileMode);
+        /** Create a shader that draws a radial gradient given the center and radius.
+         * @param centerColor  The color at the center of the circle.
+         * @param edgeColor    The color at the edge of the circle.
+         */
+        constructor(centerX:number, centerY:number, radius:number, centerColor:number, edgeColor:number, tileMode:Shader.TileMode);
+        constructor(...args){
+            super();
+            let [centerX, centerY, radius, colors, stops, tileMode] = args;
+            if (radius <= 0) {
+                throw Error(`new IllegalArgumentException("radius must be > 0")`);
+            }
+            if(!(colors instanceof Array)){
+                colors = [colors, stops];
+                stops = null;
+            }
+            Shader.checkGradientColors(colors, stops);
+            this.mX = centerX;
+            this.mY = centerY;
+            this.mRadius = radius;
+            this.mColors = colors.concat();
+            this.mPositions = stops ? stops.concat() : null;
+            this.mTileMode = tileMode == null ? Shader.TileMode.CLAMP : tileMode;
+        }
+
+        createCanvasStyle(context:CanvasRenderingContext2D, width:number, height:number):CanvasGradient {
+            let center = [this.mX, this.mY];
+            let radius = this.mRadius;
+            let matrix = this.getLocalMatrixOrNull();
+            if(matrix){
+                matrix.mapPoints(center);
+                radius = matrix.mapRadius(radius);
+            }
+            let [x, y] = center;
+            let repeatCount = Shader.getGradientRepeatCount(this.mTileMode, radius, width, height, x, y);
+
+            let gradient = context.createRadialGradient(x, y, 0, x, y, radius * (repeatCount + 1));
+            Shader.addGradientColorStops(gradient, this.mColors, this.mPositions, this.mTileMode, repeatCount, false);
+            return gradient;
+        }
+    }
+}
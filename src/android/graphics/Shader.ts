@@ -0,0 +1,134 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="Matrix.ts"/>
+///<reference path="Color.ts"/>
+
+module android.graphics{
+    import Matrix = android.graphics.Matrix;
+    import Color = android.graphics.Color;
+
+    /**
+     * Shader is the based class for objects that return horizontal spans of colors
+     * during drawing. A subclass of Shader is installed in a Paint calling
+     * paint.setShader(shader). After that any object (other than a bitmap) that is
+     * drawn with that paint will get its color(s) from the shader.
+     */
+    export class Shader{
+        //max repeat count for REPEAT and MIRROR gradient, the gradient stops will be too many if larger
+        private static MAX_GRADIENT_REPEAT = 256;
+
+        private mLocalMatrix:Matrix;
+
+        /**
+         * Return true if the shader has a non-identity local matrix.
+         * @param localM If not null, it is set to the shader's local matrix.
+         * @return true if the shader has a non-identity local matrix
+         */
+        getLocalMatrix(localM:Matrix):boolean {
+            if (this.mLocalMatrix != null) {
+                localM.set(this.mLocalMatrix);
+                return !this.mLocalMatrix.isIdentity();
+            }
+            return false;
+        }
+
+        /**
+         * Set the shader's local matrix. Passing null will reset the shader's
+         * matrix to identity
+         *
+         * @param localM The shader's new local matrix, or null to specify identity
+         */
+        setLocalMatrix(localM:Matrix):void {
+            if(localM == null || localM.isIdentity()){
+                this.mLocalMatrix = null;
+            }else{
+                if(this.mLocalMatrix == null) this.mLocalMatrix = new Matrix();
+                this.mLocalMatrix.set(localM);
+            }
+        }
+
+        /**
+         * @hide
+         * @return the local matrix, null if it's identity
+         */
+        getLocalMatrixOrNull():Matrix {
+            return this.mLocalMatrix;
+        }
+
+        /**
+         * @hide
+         * Create the fill/stroke style for the web canvas context. Return null if the shader can't draw now.
+         * @param context the canvas context which will draw with the style
+         * @param width the width of the canvas, the tile gradient will cover this size
+         * @param height the height of the canvas, the tile gradient will cover this size
+         */
+        createCanvasStyle(context:CanvasRenderingContext2D, width:number, height:number):CanvasGradient|CanvasPattern {
+            return null;
+        }
+
+        /**
+         * @hide
+         * Compute the repeat count of a gradient whose one tile length is 'tileLength', to cover the canvas.
+         */
+        static getGradientRepeatCount(tileMode:Shader.TileMode, tileLength:number, width:number, height:number,
+                                      x:number, y:number):number {
+            if(tileMode == Shader.TileMode.CLAMP || !(tileLength > 0)) return 0;
+            let coverLength = Math.sqrt(width * width + height * height) + Math.max(Math.abs(x), Math.abs(y));
+            return Math.min(Math.ceil(coverLength / tileLength), Shader.MAX_GRADIENT_REPEAT);
+        }
+
+        /**
+         * @hide
+         * Add the color stops to the web gradient. The color stops will repeat 'repeatCount' times
+         * from the begin of gradient if 'repeatBefore' is true, and repeat 'repeatCount' times after.
+         */
+        static addGradientColorStops(gradient:CanvasGradient, colors:number[], positions:number[],
+                                     tileMode:Shader.TileMode, repeatCount:number, repeatBefore:boolean):void {
+            let tileStart = repeatBefore ? -repeatCount : 0;
+            let tileCount = repeatCount + 1 - tileStart;
+            let colorCount = colors.length;
+            for(let tile = tileStart; tile <= repeatCount; tile++){
+                let mirror = tileMode == Shader.TileMode.MIRROR && (tile & 1) != 0;
+                for(let i = 0; i < colorCount; i++){
+                    let index = mirror ? colorCount - 1 - i : i;
+                    let position = positions ? positions[index] : index / (colorCount - 1);
+                    if(mirror) position = 1 - position;
+                    let offset = (tile - tileStart + Math.min(Math.max(position, 0), 1)) / tileCount;
+                    gradient.addColorStop(Math.min(Math.max(offset, 0), 1), Color.toRGBAFunc(colors[index]));
+                }
+            }
+        }
+
+        /**
+         * @hide
+         */
+        static checkGradientColors(colors:number[], positions:number[]):void {
+            if (colors.length < 2) {
+                throw Error(`new IllegalArgumentException("needs >= 2 number of colors")`);
+            }
+            if (positions != null && colors.length != positions.length) {
+                throw Error(`new IllegalArgumentException("color and position arrays must be of equal length")`);
+            }
+        }
+    }
+
+    export module Shader{
+        export enum TileMode {
+            /**
+             * replicate the edge color if the shader draws outside of its
+             * original bounds
+             */
+            CLAMP,
+            /**
+             * repeat the shader's image horizontally and vertically
+             */
+            REPEAT,
+            /**
+             * repeat the shader's image horizontally and vertically, alternating
+             * mirror images so that adjacent images always seam
+             */
+            MIRROR
+        }
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="Shader.ts"/>
+
+module android.graphics{
+
+    export class SweepGradient extends Shader{
+        private mCx:number;
+        private mCy:number;
+        private mColors:number[];
+        private mPositions:number[];
+
+        /**
+         * A subclass of Shader that draws a sweep gradient around a center point.
+         *
+         * @param cx       The x-coordinate of the center
+         * @param cy       The y-coordinate of the center
+         * @param colors   The colors to be distributed between around the center.
+         *                 There must be at least 2 colors in the array.
+         * @param positions May be NULL. The relative position of
+         *                 each corresponding color in the colors array, beginning
+         *                 with 0 and ending with 1.0. If the values are not
+         *                 monotonic, the drawing may produce unexpected results.
+         *                 If positions is NULL, then the colors are automatically
+         *                 spaced evenly.
+         */
+        constructor(cx:number, cy:number, colors:number[], positions:number[]);
+        /**
+         * A subclass of Shader that draws a sweep gradient around a center point.
+         *
+         * @param color0   The color to use at the start of the sweep
+         * @param color1   The color to use at the end of the sweep
+         */
+        constructor(cx:number, cy:number, color0:number, color1:number);
+        constructor(...args){
+            super();
+            let [cx, cy, colors, positions] = args;
+            if(!(colors instanceof Array)){
+                colors = [colors, positions];
+                positions = null;
+            }
+            Shader.checkGradientColors(colors, positions);
+            this.mCx = cx;
+            this.mCy = cy;
+            this.mColors = colors.concat();
+            this.mPositions = positions ? positions.concat() : null;
+        }
+
+        /**
+         * Use the conic gradient of web canvas. Return null (draw with the paint's color)
+         * if the browser not support conic gradient.
+         */
+        createCanvasStyle(context:CanvasRenderingContext2D, width:number, height:number):CanvasGradient {
+            if(typeof context['createConicGradient'] !== 'function') return null;
+            let points = [this.mCx, this.mCy, this.mCx + 1, this.mCy];
+            let matrix = this.getLocalMatrixOrNull();
+            if(matrix) matrix.mapPoints(points);
+            let [x, y, x1, y1] = points;
+            let startAngle = Math.atan2(y1 - y, x1 - x);
+
+            let gradient:CanvasGradient = context['createConicGradient'](startAngle, x, y);
+            Shader.addGradientColorStops(gradient, this.mColors, this.mPositions, Shader.TileMode.CLAMP, 0, false);
+            return gradient;
+        }
+    }
+}
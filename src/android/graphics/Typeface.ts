@@ -0,0 +1,254 @@
+/**
+ * Created by linfaxin on 16/2/24.
+ */
+///<reference path="../util/Log.ts"/>
+///<reference path="Canvas.ts"/>
+
+module android.graphics{
+
+    /**
+     * The Typeface class specifies the typeface and intrinsic style of a font.
+     * This is used in the paint, along with optionally Paint settings like
+     * textSize, textSkewX, textScaleX to specify
+     * how text appears when drawn (and measured).
+     *
+     * A typeface is a css font family on web. Custom web fonts can be registered with
+     * {@link #createFromUrl}, or declared with '@font-face' in page's css. A web font may
+     * not load finish when the typeface create (or be registered after the typeface create),
+     * use {@link #addLoadListener} to re-measure the text when it loaded.
+     */
+    export class Typeface{
+        // Style
+        static NORMAL = 0;
+        static BOLD = 1;
+        static ITALIC = 2;
+        static BOLD_ITALIC = 3;
+
+        private static GENERIC_FAMILIES = new Set<string>(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+        private static sTypefaceCache = new Map<string, Typeface>();
+        private static sRegisteredFontUrls = new Map<string, string>();//<url, familyName>
+        private static sFontStyleElement:HTMLStyleElement;
+
+        /** The default NORMAL typeface object */
+        static DEFAULT:Typeface = Typeface.create(<string>null, Typeface.NORMAL);
+        /**
+         * The default BOLD typeface object. Note: this may be not actually
+         * bold, depending on what fonts are installed. Call getStyle() to know
+         * for sure.
+         */
+        static DEFAULT_BOLD:Typeface = Typeface.create(<string>null, Typeface.BOLD);
+        /** The NORMAL style of the default sans serif typeface. */
+        static SANS_SERIF:Typeface = Typeface.create('sans-serif', Typeface.NORMAL);
+        /** The NORMAL style of the default serif typeface. */
+        static SERIF:Typeface = Typeface.create('serif', Typeface.NORMAL);
+        /** The NORMAL style of the default monospace typeface. */
+        static MONOSPACE:Typeface = Typeface.create('monospace', Typeface.NORMAL);
+
+        private mFamilyName:string;
+        private mStyle = 0;
+        private mLoaded = false;
+        private mLoadCount = 0;
+        private mLoadListeners:Set<()=>void>;
+
+        constructor(familyName:string, style:number) {
+            this.mFamilyName = familyName;
+            this.mStyle = style;
+            this.checkLoad();
+        }
+
+        /** Returns the typeface's intrinsic style attributes */
+        getStyle():number {
+            return this.mStyle;
+        }
+
+        /** Returns true if getStyle() has the BOLD bit set. */
+        isBold():boolean {
+            return (this.mStyle & Typeface.BOLD) != 0;
+        }
+
+        /** Returns true if getStyle() has the ITALIC bit set. */
+        isItalic():boolean {
+            return (this.mStyle & Typeface.ITALIC) != 0;
+        }
+
+        /**
+         * @hide
+         * @return the family name, null means the default font family.
+         */
+        getFamilyName():string {
+            return this.mFamilyName;
+        }
+
+        /**
+         * @hide
+         * @return the font family can be used in css font, null means the default font family.
+         */
+        getCssFontFamily():string {
+            let family = this.mFamilyName;
+            if(!family) return null;
+            if(Typeface.GENERIC_FAMILIES.has(family) || family.indexOf(',') >= 0
+                || family.indexOf('"') >= 0 || family.indexOf("'") >= 0){
+                return family;
+            }
+            return '"' + family + '"';
+        }
+
+        /**
+         * Return true if the font of this typeface was loaded (or needn't load).
+         */
+        isLoaded():boolean {
+            return this.mLoaded;
+        }
+
+        /**
+         * Listen the web font load finish. The listener will be called every time the font
+         * of this typeface loaded (even if the load failed), include the font registered
+         * after this typeface created. Remove it with {@link #removeLoadListener} when unused.
+         */
+        addLoadListener(listener:()=>void):void {
+            if(!this.mLoadListeners) this.mLoadListeners = new Set<()=>void>();
+            this.mLoadListeners.add(listener);
+        }
+
+        removeLoadListener(listener:()=>void):void {
+            if(this.mLoadListeners) this.mLoadListeners.delete(listener);
+        }
+
+        private checkLoad():void {
+            let fontFaceSet = document['fonts'];
+            let family = this.mFamilyName;
+            if(!fontFaceSet || typeof fontFaceSet.load !== 'function' || !family || Typeface.GENERIC_FAMILIES.has(family)){
+                this.mLoaded = true;
+                return;
+            }
+            let font = (this.isItalic() ? 'italic ' : '') + (this.isBold() ? 'bold ' : '') + '16px ' + this.getCssFontFamily();
+            this.mLoaded = false;
+            let loadCount = ++this.mLoadCount;
+            let onLoadFinish = ()=>{
+                if(loadCount != this.mLoadCount) return;//a newer load started by registerFont
+                this.mLoaded = true;
+                Canvas.clearMeasureTextCache();
+                if(this.mLoadListeners){
+                    for(let listener of [...this.mLoadListeners]){
+                        listener();
+                    }
+                }
+            };
+            try {
+                fontFaceSet.load(font).then(onLoadFinish, onLoadFinish);
+            } catch (e) {
+                this.mLoaded = true;
+            }
+        }
+
+        /**
+         * Create a typeface object given a family name, and option style information.
+         * If null is passed for the name, then the "default" font will be chosen.
+         * The resulting typeface object can be queried (getStyle()) to discover what
+         * its "real" style characteristics are.
+         *
+         * @param familyName May be null. The name of the font family.
+         * @param style  The style (normal, bold, italic) of the typeface.
+         *               e.g. NORMAL, BOLD, ITALIC, BOLD_ITALIC
+         * @return The best matching typeface.
+         */
+        static create(familyName:string, style:number):Typeface;
+        /**
+         * Create a typeface object that best matches the specified existing
+         * typeface and the specified Style. Use this call if you want to pick a new
+         * style from the same family of an existing typeface object. If family is
+         * null, this selects from the default font's family.
+         *
+         * @param family May be null. The name of the existing type face.
+         * @param style  The style (normal, bold, italic) of the typeface.
+         *               e.g. NORMAL, BOLD, ITALIC, BOLD_ITALIC
+         * @return The best matching typeface.
+         */
+        static create(family:Typeface, style:number):Typeface;
+        static create(family:string|Typeface, style:number):Typeface {
+            let familyName:string = family instanceof Typeface ? family.mFamilyName : <string>family;
+            if(familyName) familyName = familyName.trim();
+            if(!familyName) familyName = null;
+            style = style & Typeface.BOLD_ITALIC;
+
+            let key = familyName + '-' + style;
+            let typeface = Typeface.sTypefaceCache.get(key);
+            if(!typeface){
+                typeface = new Typeface(familyName, style);
+                Typeface.sTypefaceCache.set(key, typeface);
+            }
+            return typeface;
+        }
+
+        /**
+         * Returns one of the default typeface objects, based on the specified style
+         *
+         * @return the default typeface that corresponds to the style
+         */
+        static defaultFromStyle(style:number):Typeface {
+            return Typeface.create(<string>null, style);
+        }
+
+        /**
+         * Create a new typeface from the specified font url. The font will be registered as a
+         * web font (FontFace or '@font-face') with the family name.
+         *
+         * @param familyName The family name to register the font. The font with same family name
+         *                   and different style can be registered multiple times.
+         * @param url The url of the font file.
+         * @param style The style the font file is, e.g. NORMAL, BOLD, ITALIC, BOLD_ITALIC
+         * @return The new typeface.
+         */
+        static createFromUrl(familyName:string, url:string, style=Typeface.NORMAL):Typeface {
+            Typeface.registerFont(familyName, url, style);
+            return Typeface.create(familyName, style);
+        }
+
+        /**
+         * Create a new typeface from the specified font file. The family name is the file name.
+         *
+         * @param path The full path to the font file.
+         * @return The new typeface.
+         */
+        static createFromFile(path:string):Typeface {
+            let familyName = Typeface.sRegisteredFontUrls.get(path);
+            if(!familyName){
+                familyName = path.substring(path.lastIndexOf('/') + 1);
+                let dotIndex = familyName.indexOf('.');
+                if(dotIndex > 0) familyName = familyName.substring(0, dotIndex);
+            }
+            return Typeface.createFromUrl(familyName, path, Typeface.NORMAL);
+        }
+
+        private static registerFont(familyName:string, url:string, style:number):void {
+            if(Typeface.sRegisteredFontUrls.has(url)) return;
+            Typeface.sRegisteredFontUrls.set(url, familyName);
+
+            let weight = (style & Typeface.BOLD) != 0 ? 'bold' : 'normal';
+            let fontStyle = (style & Typeface.ITALIC) != 0 ? 'italic' : 'normal';
+            let FontFace = window['FontFace'];
+            let fontFaceSet = document['fonts'];
+            if(typeof FontFace === 'function' && fontFaceSet && typeof fontFaceSet.add === 'function'){
+                let fontFace = new FontFace(familyName, 'url("' + url + '")', { weight: weight, style: fontStyle });
+                fontFaceSet.add(fontFace);
+                fontFace.load().catch(()=>{
+                    android.util.Log.w('Typeface', 'load font fail: ' + url);
+                });
+
+            }else{
+                if(!Typeface.sFontStyleElement){
+                    Typeface.sFontStyleElement = document.createElement('style');
+                    document.head.appendChild(Typeface.sFontStyleElement);
+                }
+                Typeface.sFontStyleElement.appendChild(document.createTextNode(
+                    '@font-face { font-family: "' + familyName + '"; src: url("' + url + '");'
+                    + ' font-weight: ' + weight + '; font-style: ' + fontStyle + '; }\n'));
+            }
+
+            //the typefaces of this family created before may checked loaded with the fallback font, load again.
+            Typeface.sTypefaceCache.forEach((typeface)=>{
+                if(typeface.mFamilyName === familyName) typeface.checkLoad();
+            });
+        }
+    }
+}
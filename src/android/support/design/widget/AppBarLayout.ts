@@ -0,0 +1,818 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../../../android/view/animation/DecelerateInterpolator.ts"/>
+///<reference path="../../../../android/widget/LinearLayout.ts"/>
+///<reference path="../../../../android/widget/OverScroller.ts"/>
+///<reference path="../../../../android/animation/ValueAnimator.ts"/>
+///<reference path="../../../../android/util/MathUtils.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="../../../../java/util/List.ts"/>
+///<reference path="../../../../java/lang/Integer.ts"/>
+///<reference path="../../../../java/lang/Runnable.ts"/>
+///<reference path="../../../../android/support/design/widget/CoordinatorLayout.ts"/>
+///<reference path="../../../../android/support/design/widget/ViewOffsetBehavior.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Interpolator = android.view.animation.Interpolator;
+import DecelerateInterpolator = android.view.animation.DecelerateInterpolator;
+import LinearLayout = android.widget.LinearLayout;
+import OverScroller = android.widget.OverScroller;
+import ValueAnimator = android.animation.ValueAnimator;
+import MathUtils = android.util.MathUtils;
+import Context = android.content.Context;
+import ArrayList = java.util.ArrayList;
+import List = java.util.List;
+import Integer = java.lang.Integer;
+import Runnable = java.lang.Runnable;
+
+/**
+ * AppBarLayout is a vertical {@link LinearLayout} which implements many of the features of
+ * Material Design's app bar concept, namely scrolling gestures.
+ * <p>
+ * Children should provide their desired scrolling behavior through
+ * {@link LayoutParams#setScrollFlags(int)} and the associated layout xml attribute:
+ * {@code layout_scrollFlags}.
+ *
+ * <p>
+ * This view depends heavily on being used as a direct child within a {@link CoordinatorLayout}.
+ * If you use AppBarLayout within a different {@link ViewGroup}, most of it's functionality will
+ * not work.
+ * <p>
+ * AppBarLayout also requires a separate scrolling sibling in order to know when to scroll.
+ * The binding is done through the {@link ScrollingViewBehavior} behavior class, meaning that you
+ * should set your scrolling view's behavior to be an instance of {@link ScrollingViewBehavior}.
+ * The scrolling sibling can be a {@link android.widget.ScrollView} or any
+ * {@link android.widget.AbsListView}, both act as nested scrolling children.
+ *
+ * <pre>
+ * &lt;android.support.design.widget.CoordinatorLayout
+ *         android:layout_width="match_parent"
+ *         android:layout_height="match_parent"&gt;
+ *
+ *     &lt;ListView
+ *             android:layout_width="match_parent"
+ *             android:layout_height="match_parent"
+ *             android:layout_behavior="AppBarLayout.ScrollingViewBehavior" /&gt;
+ *
+ *     &lt;android.support.design.widget.AppBarLayout
+ *             android:layout_height="wrap_content"
+ *             android:layout_width="match_parent"&gt;
+ *
+ *         &lt;android.app.ActionBar
+ *                 android:layout_height="wrap_content"
+ *                 android:layout_width="match_parent"
+ *                 android:layout_scrollFlags="scroll|enterAlways"/&gt;
+ *
+ *     &lt;/android.support.design.widget.AppBarLayout&gt;
+ *
+ * &lt;/android.support.design.widget.CoordinatorLayout&gt;
+ * </pre>
+ *
+ * @see <a href="http://www.google.com/design/spec/layout/structure.html#structure-app-bar">
+ *     http://www.google.com/design/spec/layout/structure.html#structure-app-bar</a>
+ */
+export class AppBarLayout extends LinearLayout implements CoordinatorLayout.AttachedBehavior {
+
+    private static INVALID_SCROLL_RANGE:number = -1;
+
+    private mTotalScrollRange:number = AppBarLayout.INVALID_SCROLL_RANGE;
+
+    private mDownPreScrollRange:number = AppBarLayout.INVALID_SCROLL_RANGE;
+
+    private mDownScrollRange:number = AppBarLayout.INVALID_SCROLL_RANGE;
+
+    private mHaveChildWithInterpolator:boolean;
+
+    mListeners:ArrayList<AppBarLayout.OnOffsetChangedListener> = new ArrayList<AppBarLayout.OnOffsetChangedListener>();
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, defStyle);
+        this.setOrientation(LinearLayout.VERTICAL);
+    }
+
+    /**
+     * Add a listener that will be called when the offset of this {@link AppBarLayout} changes.
+     *
+     * @param listener The listener that will be called when the offset changes.]
+     *
+     * @see #removeOnOffsetChangedListener(OnOffsetChangedListener)
+     */
+    addOnOffsetChangedListener(listener:AppBarLayout.OnOffsetChangedListener):void {
+        if (listener != null && !this.mListeners.contains(listener)) {
+            this.mListeners.add(listener);
+        }
+    }
+
+    /**
+     * Remove the previously added {@link OnOffsetChangedListener}.
+     *
+     * @param listener listener to remove
+     */
+    removeOnOffsetChangedListener(listener:AppBarLayout.OnOffsetChangedListener):void {
+        if (listener != null) {
+            this.mListeners.remove(listener);
+        }
+    }
+
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void {
+        super.onLayout(changed, l, t, r, b);
+        // Invalidate the scroll ranges
+        this.mTotalScrollRange = AppBarLayout.INVALID_SCROLL_RANGE;
+        this.mDownPreScrollRange = AppBarLayout.INVALID_SCROLL_RANGE;
+        this.mDownScrollRange = AppBarLayout.INVALID_SCROLL_RANGE;
+        this.mHaveChildWithInterpolator = false;
+        for (let i:number = 0, z:number = this.getChildCount(); i < z; i++) {
+            const child:View = this.getChildAt(i);
+            const childLp:AppBarLayout.LayoutParams = <AppBarLayout.LayoutParams> child.getLayoutParams();
+            const interpolator:Interpolator = childLp.getScrollInterpolator();
+            if (interpolator != null) {
+                this.mHaveChildWithInterpolator = true;
+                break;
+            }
+        }
+    }
+
+    hasChildWithInterpolator():boolean {
+        return this.mHaveChildWithInterpolator;
+    }
+
+    setOrientation(orientation:number):void {
+        if (orientation != LinearLayout.VERTICAL) {
+            throw Error(`new IllegalArgumentException("AppBarLayout is always vertical and does" + " not support horizontal orientation")`);
+        }
+        super.setOrientation(orientation);
+    }
+
+    getBehavior():CoordinatorLayout.Behavior<any> {
+        return new AppBarLayout.Behavior();
+    }
+
+    protected generateDefaultLayoutParams():ViewGroup.LayoutParams {
+        return new AppBarLayout.LayoutParams(ViewGroup.LayoutParams.MATCH_PARENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):ViewGroup.LayoutParams {
+        return new AppBarLayout.LayoutParams(p);
+    }
+
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean {
+        return p instanceof AppBarLayout.LayoutParams;
+    }
+
+    hasScrollableChildren():boolean {
+        return this.getTotalScrollRange() != 0;
+    }
+
+    /**
+     * Returns the scroll range of all children.
+     *
+     * @return the scroll range in px
+     */
+    getTotalScrollRange():number {
+        if (this.mTotalScrollRange != AppBarLayout.INVALID_SCROLL_RANGE) {
+            return this.mTotalScrollRange;
+        }
+        let range:number = 0;
+        for (let i:number = 0, z:number = this.getChildCount(); i < z; i++) {
+            const child:View = this.getChildAt(i);
+            const lp:AppBarLayout.LayoutParams = <AppBarLayout.LayoutParams> child.getLayoutParams();
+            const childHeight:number = child.isLaidOut() ? child.getHeight() : child.getMeasuredHeight();
+            const flags:number = lp.mScrollFlags;
+            if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_SCROLL) != 0) {
+                // We're set to scroll so add the child's height
+                range += childHeight + lp.topMargin + lp.bottomMargin;
+                if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_EXIT_UNTIL_COLLAPSED) != 0) {
+                    // For a collapsing scroll, we to take the collapsed height into account.
+                    // We also return the range straight away since later views can't scroll
+                    // beneath us
+                    range -= child.getMinimumHeight();
+                    break;
+                }
+            } else {
+                // As soon as a view doesn't have the scroll flag, we end the range calculation.
+                // This is because views below can not scroll under a fixed view.
+                break;
+            }
+        }
+        return this.mTotalScrollRange = range;
+    }
+
+    /**
+     * Return the scroll range when scrolling up from a nested pre-scroll.
+     */
+    getUpNestedPreScrollRange():number {
+        return this.getTotalScrollRange();
+    }
+
+    /**
+     * Return the scroll range when scrolling down from a nested pre-scroll.
+     */
+    getDownNestedPreScrollRange():number {
+        if (this.mDownPreScrollRange != AppBarLayout.INVALID_SCROLL_RANGE) {
+            // If we already have a valid value, return it
+            return this.mDownPreScrollRange;
+        }
+        let range:number = 0;
+        for (let i:number = this.getChildCount() - 1; i >= 0; i--) {
+            const child:View = this.getChildAt(i);
+            const lp:AppBarLayout.LayoutParams = <AppBarLayout.LayoutParams> child.getLayoutParams();
+            const childHeight:number = child.isLaidOut() ? child.getHeight() : child.getMeasuredHeight();
+            const flags:number = lp.mScrollFlags;
+            if ((flags & AppBarLayout.LayoutParams.FLAG_QUICK_RETURN) == AppBarLayout.LayoutParams.FLAG_QUICK_RETURN) {
+                // First take the margin into account
+                range += lp.topMargin + lp.bottomMargin;
+                // The view has the quick return flag combination...
+                if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_ENTER_ALWAYS_COLLAPSED) != 0) {
+                    // If they're set to enter collapsed, use the minimum height
+                    range += child.getMinimumHeight();
+                } else {
+                    // Else use the full height
+                    range += childHeight;
+                }
+            } else if (range > 0) {
+                // If we've hit an non-quick return scrollable view, and we've already hit a
+                // quick return view, return now
+                break;
+            }
+        }
+        return this.mDownPreScrollRange = range;
+    }
+
+    /**
+     * Return the scroll range when scrolling down from a nested scroll.
+     */
+    getDownNestedScrollRange():number {
+        if (this.mDownScrollRange != AppBarLayout.INVALID_SCROLL_RANGE) {
+            // If we already have a valid value, return it
+            return this.mDownScrollRange;
+        }
+        let range:number = 0;
+        for (let i:number = 0, z:number = this.getChildCount(); i < z; i++) {
+            const child:View = this.getChildAt(i);
+            const lp:AppBarLayout.LayoutParams = <AppBarLayout.LayoutParams> child.getLayoutParams();
+            let childHeight:number = child.isLaidOut() ? child.getHeight() : child.getMeasuredHeight();
+            childHeight += lp.topMargin + lp.bottomMargin;
+            const flags:number = lp.mScrollFlags;
+            if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_SCROLL) != 0) {
+                // We're set to scroll so add the child's height
+                range += childHeight;
+                if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_EXIT_UNTIL_COLLAPSED) != 0) {
+                    // For a collapsing exit scroll, we to take the collapsed height into account.
+                    // We also return the range straight away since later views can't scroll
+                    // beneath us
+                    return this.mDownScrollRange = range - child.getMinimumHeight();
+                }
+            } else {
+                // As soon as a view doesn't have the scroll flag, we end the range calculation.
+                // This is because views below can not scroll under a fixed view.
+                break;
+            }
+        }
+        return this.mDownScrollRange = range;
+    }
+
+    getMinimumHeightForVisibleOverlappingContent():number {
+        const minHeight:number = this.getMinimumHeight();
+        if (minHeight != 0) {
+            // If this layout has a min height, use it (doubled)
+            return minHeight * 2;
+        }
+        // Otherwise, we'll use twice the min height of our last child
+        const childCount:number = this.getChildCount();
+        return childCount >= 1 ? this.getChildAt(childCount - 1).getMinimumHeight() * 2 : 0;
+    }
+}
+
+export module AppBarLayout{
+/**
+ * Interface definition for a callback to be invoked when an {@link AppBarLayout}'s vertical
+ * offset changes.
+ */
+export interface OnOffsetChangedListener {
+    /**
+     * Called when the {@link AppBarLayout}'s layout offset has been changed. This allows
+     * child views to implement custom behavior based on the offset (for instance pinning a
+     * view at a certain y value).
+     *
+     * @param appBarLayout the {@link AppBarLayout} which offset has changed
+     * @param verticalOffset the vertical offset for the parent {@link AppBarLayout}, in px
+     */
+    onOffsetChanged(appBarLayout:AppBarLayout, verticalOffset:number):void;
+}
+
+export class LayoutParams extends LinearLayout.LayoutParams {
+
+    /**
+     * The view will be scroll in direct relation to scroll events. This flag needs to be
+     * set for any of the other flags to take effect. If any sibling views
+     * before this one do not have this flag, then this value has no effect.
+     */
+    static SCROLL_FLAG_SCROLL:number = 0x1;
+
+    /**
+     * When exiting (scrolling off screen) the view will be scrolled until it is
+     * 'collapsed'. The collapsed height is defined by the view's minimum height.
+     *
+     * @see View#getMinimumHeight()
+     * @see View#setMinimumHeight(int)
+     */
+    static SCROLL_FLAG_EXIT_UNTIL_COLLAPSED:number = 0x2;
+
+    /**
+     * When entering (scrolling on screen) the view will scroll on any downwards
+     * scroll event, regardless of whether the scrolling view is also scrolling. This
+     * is commonly referred to as the 'quick return' pattern.
+     */
+    static SCROLL_FLAG_ENTER_ALWAYS:number = 0x4;
+
+    /**
+     * An additional flag for 'enterAlways' which modifies the returning view to
+     * only initially scroll back to it's collapsed height. Once the scrolling view has
+     * reached the end of it's scroll range, the remainder of this view will be scrolled
+     * into view. The collapsed height is defined by the view's minimum height.
+     *
+     * @see View#getMinimumHeight()
+     * @see View#setMinimumHeight(int)
+     */
+    static SCROLL_FLAG_ENTER_ALWAYS_COLLAPSED:number = 0x8;
+
+    /**
+     * Internal flag which allows quick checking of 'quick return'
+     */
+    static FLAG_QUICK_RETURN:number = LayoutParams.SCROLL_FLAG_SCROLL | LayoutParams.SCROLL_FLAG_ENTER_ALWAYS;
+
+    mScrollFlags:number = LayoutParams.SCROLL_FLAG_SCROLL;
+
+    mScrollInterpolator:Interpolator;
+
+    constructor();
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(width:number, height:number, weight?:number);
+    constructor(...args) {
+        super();
+        if (args.length === 1) {
+            super(args[0]);
+            if (args[0] instanceof AppBarLayout.LayoutParams) {
+                this.mScrollFlags = (<AppBarLayout.LayoutParams>args[0]).mScrollFlags;
+                this.mScrollInterpolator = (<AppBarLayout.LayoutParams>args[0]).mScrollInterpolator;
+            }
+        } else {
+            super(args[0], args[1], args[2]);
+        }
+        const a = this._attrBinder;
+        a.addAttr('scrollFlags', (value)=>{
+            this.setScrollFlags(LayoutParams.parseScrollFlags(value));
+        }, ()=>{
+            return this.mScrollFlags;
+        });
+    }
+
+    /**
+     * Set the scrolling flags.
+     *
+     * @param flags bitwise int of {@link #SCROLL_FLAG_SCROLL},
+     *             {@link #SCROLL_FLAG_EXIT_UNTIL_COLLAPSED}, {@link #SCROLL_FLAG_ENTER_ALWAYS}
+     *             and {@link #SCROLL_FLAG_ENTER_ALWAYS_COLLAPSED}.
+     *
+     * @see #getScrollFlags()
+     */
+    setScrollFlags(flags:number):void {
+        this.mScrollFlags = flags;
+    }
+
+    /**
+     * Returns the scrolling flags.
+     *
+     * @see #setScrollFlags(int)
+     */
+    getScrollFlags():number {
+        return this.mScrollFlags;
+    }
+
+    /**
+     * Set the interpolator to when scrolling the view associated with this
+     * {@link LayoutParams}.
+     *
+     * @param interpolator the interpolator to use, or null to use normal 1-to-1 scrolling.
+     */
+    setScrollInterpolator(interpolator:Interpolator):void {
+        this.mScrollInterpolator = interpolator;
+    }
+
+    /**
+     * Returns the {@link Interpolator} being used for scrolling the view associated with this
+     * {@link LayoutParams}. Null indicates 'normal' 1-to-1 scrolling.
+     */
+    getScrollInterpolator():Interpolator {
+        return this.mScrollInterpolator;
+    }
+
+    /**
+     * Parse the scroll flags of a layout xml attribute, like: "scroll|exitUntilCollapsed".
+     */
+    private static parseScrollFlags(value:any):number {
+        if (typeof value === 'number') return value;
+        let flags = 0;
+        for (let name of (value + '').split('|')) {
+            switch (name.trim()) {
+                case 'scroll':
+                    flags |= LayoutParams.SCROLL_FLAG_SCROLL;
+                    break;
+                case 'exitUntilCollapsed':
+                    flags |= LayoutParams.SCROLL_FLAG_EXIT_UNTIL_COLLAPSED;
+                    break;
+                case 'enterAlways':
+                    flags |= LayoutParams.SCROLL_FLAG_ENTER_ALWAYS;
+                    break;
+                case 'enterAlwaysCollapsed':
+                    flags |= LayoutParams.SCROLL_FLAG_ENTER_ALWAYS_COLLAPSED;
+                    break;
+            }
+        }
+        return flags;
+    }
+}
+
+/**
+ * The default {@link Behavior} for {@link AppBarLayout}. Implements the necessary nested
+ * scroll handling with offsetting.
+ */
+export class Behavior extends ViewOffsetBehavior<AppBarLayout> {
+
+    private mSkipNestedPreScroll:boolean;
+
+    private mWasFlung:boolean;
+
+    private mAnimator:ValueAnimator;
+
+    mScroller:OverScroller;
+
+    private mFlingRunnable:Runnable;
+
+    private mOffsetDelta:number = 0;
+
+    constructor() {
+        super();
+    }
+
+    onStartNestedScroll(parent:CoordinatorLayout, child:AppBarLayout, directTargetChild:View, target:View,
+                        nestedScrollAxes:number):boolean {
+        // Return true if we're nested scrolling vertically, and we have scrollable children
+        // and the scrolling view is big enough to scroll
+        const started:boolean = (nestedScrollAxes & View.SCROLL_AXIS_VERTICAL) != 0
+            && child.hasScrollableChildren()
+            && parent.getHeight() - directTargetChild.getHeight() <= child.getHeight();
+        if (started && this.mAnimator != null) {
+            // Cancel any offset animation
+            this.mAnimator.cancel();
+        }
+        return started;
+    }
+
+    onNestedPreScroll(coordinatorLayout:CoordinatorLayout, child:AppBarLayout, target:View, dx:number, dy:number,
+                      consumed:number[]):void {
+        if (dy != 0 && !this.mSkipNestedPreScroll) {
+            let min:number, max:number;
+            if (dy < 0) {
+                // We're scrolling down
+                min = -child.getTotalScrollRange();
+                max = min + child.getDownNestedPreScrollRange();
+            } else {
+                // We're scrolling up
+                min = -child.getUpNestedPreScrollRange();
+                max = 0;
+            }
+            consumed[1] = this.scroll(coordinatorLayout, child, dy, min, max);
+        }
+    }
+
+    onNestedScroll(coordinatorLayout:CoordinatorLayout, child:AppBarLayout, target:View, dxConsumed:number,
+                   dyConsumed:number, dxUnconsumed:number, dyUnconsumed:number):void {
+        if (dyUnconsumed < 0) {
+            // If the scrolling view is scrolling down but not consuming, it's probably be at
+            // the top of it's content
+            this.scroll(coordinatorLayout, child, dyUnconsumed, -child.getDownNestedScrollRange(), 0);
+            // Set the expanding flag so that onNestedPreScroll doesn't handle any events
+            this.mSkipNestedPreScroll = true;
+        } else {
+            // As we're no longer handling nested scrolls, reset the skip flag
+            this.mSkipNestedPreScroll = false;
+        }
+    }
+
+    onStopNestedScroll(coordinatorLayout:CoordinatorLayout, child:AppBarLayout, target:View):void {
+        // Reset the skip flag
+        this.mSkipNestedPreScroll = false;
+        // Reset the flung flag
+        this.mWasFlung = false;
+    }
+
+    onNestedFling(coordinatorLayout:CoordinatorLayout, child:AppBarLayout, target:View, velocityX:number,
+                  velocityY:number, consumed:boolean):boolean {
+        let flung:boolean = false;
+        if (!consumed) {
+            // It has been consumed so let's fling ourselves
+            flung = this.fling(coordinatorLayout, child, -child.getTotalScrollRange(), 0, -velocityY);
+        } else {
+            // If we're scrolling up and the child also consumed the fling. We'll fake scroll
+            // upto our 'collapsed' offset
+            let targetScroll:number;
+            if (velocityY < 0) {
+                // We're scrolling down
+                targetScroll = -child.getTotalScrollRange() + child.getDownNestedPreScrollRange();
+                if (this.getTopBottomOffsetForScrollingSibling() > targetScroll) {
+                    // If we're currently not expanded more than the target scroll, we'll
+                    // animate a fling
+                    return false;
+                }
+            } else {
+                // We're scrolling up
+                targetScroll = -child.getUpNestedPreScrollRange();
+                if (this.getTopBottomOffsetForScrollingSibling() < targetScroll) {
+                    // If we're currently not expanded less than the target scroll, we'll
+                    // animate a fling
+                    return false;
+                }
+            }
+            if (this.getTopBottomOffsetForScrollingSibling() != targetScroll) {
+                this.animateOffsetTo(coordinatorLayout, child, targetScroll);
+                flung = true;
+            }
+        }
+        this.mWasFlung = flung;
+        return flung;
+    }
+
+    private animateOffsetTo(coordinatorLayout:CoordinatorLayout, child:AppBarLayout, offset:number):void {
+        if (this.mAnimator == null) {
+            this.mAnimator = new ValueAnimator();
+            this.mAnimator.setInterpolator(new DecelerateInterpolator());
+            this.mAnimator.addUpdateListener({
+                onAnimationUpdate: (animator:ValueAnimator)=> {
+                    this.setAppBarTopBottomOffset(coordinatorLayout, child, <number>animator.getAnimatedValue());
+                }
+            });
+        } else {
+            this.mAnimator.cancel();
+        }
+        this.mAnimator.setIntValues(this.getTopBottomOffsetForScrollingSibling(), offset);
+        this.mAnimator.start();
+    }
+
+    private fling(coordinatorLayout:CoordinatorLayout, layout:AppBarLayout, minOffset:number, maxOffset:number,
+                  velocityY:number):boolean {
+        if (this.mFlingRunnable != null) {
+            layout.removeCallbacks(this.mFlingRunnable);
+        }
+        if (this.mScroller == null) {
+            this.mScroller = new OverScroller();
+        }
+        this.mScroller.fling(0, this.getTopBottomOffsetForScrollingSibling(), // curr
+            0, Math.round(velocityY), // velocity.
+            0, 0, // x
+            minOffset, maxOffset); // y
+        if (this.mScroller.computeScrollOffset()) {
+            this.mFlingRunnable = new Behavior.FlingRunnable(coordinatorLayout, layout, this);
+            layout.postOnAnimation(this.mFlingRunnable);
+            return true;
+        } else {
+            this.mFlingRunnable = null;
+            return false;
+        }
+    }
+
+    onLayoutChild(parent:CoordinatorLayout, appBarLayout:AppBarLayout, layoutDirection:number):boolean {
+        const handled:boolean = super.onLayoutChild(parent, appBarLayout, layoutDirection);
+        // Make sure we update the listeners with the current offset
+        this.dispatchOffsetUpdates(appBarLayout);
+        return handled;
+    }
+
+    private scroll(coordinatorLayout:CoordinatorLayout, appBarLayout:AppBarLayout, dy:number, minOffset:number,
+                   maxOffset:number):number {
+        return this.setAppBarTopBottomOffset(coordinatorLayout, appBarLayout,
+            this.getTopBottomOffsetForScrollingSibling() - dy, minOffset, maxOffset);
+    }
+
+    setAppBarTopBottomOffset(coordinatorLayout:CoordinatorLayout, appBarLayout:AppBarLayout, newOffset:number,
+                             minOffset:number = Integer.MIN_VALUE, maxOffset:number = Integer.MAX_VALUE):number {
+        const curOffset:number = this.getTopBottomOffsetForScrollingSibling();
+        let consumed:number = 0;
+        if (minOffset != 0 && curOffset >= minOffset && curOffset <= maxOffset) {
+            // If we have some scrolling range, and we're currently within the min and max
+            // offsets, calculate a new offset
+            newOffset = MathUtils.constrain(newOffset, minOffset, maxOffset);
+            if (curOffset != newOffset) {
+                const interpolatedOffset:number = appBarLayout.hasChildWithInterpolator()
+                    ? this.interpolateOffset(appBarLayout, newOffset) : newOffset;
+                const offsetChanged:boolean = this.setTopAndBottomOffset(interpolatedOffset);
+                // Update how much dy we have consumed
+                consumed = curOffset - newOffset;
+                // Update the stored sibling offset
+                this.mOffsetDelta = newOffset - interpolatedOffset;
+                if (!offsetChanged && appBarLayout.hasChildWithInterpolator()) {
+                    // If the offset hasn't changed and we're using an interpolated scroll
+                    // then we need to keep any dependent views updated. CoL will do this for
+                    // us when we move, but we need to do it manually when we don't (as an
+                    // interpolated scroll may finish early).
+                    coordinatorLayout.dispatchDependentViewsChanged(appBarLayout);
+                }
+                // Dispatch the updates to any listeners
+                this.dispatchOffsetUpdates(appBarLayout);
+            }
+        }
+        return consumed;
+    }
+
+    private dispatchOffsetUpdates(layout:AppBarLayout):void {
+        const listeners:List<AppBarLayout.OnOffsetChangedListener> = layout.mListeners;
+        for (let i:number = 0, z:number = listeners.size(); i < z; i++) {
+            const listener:AppBarLayout.OnOffsetChangedListener = listeners.get(i);
+            if (listener != null) {
+                listener.onOffsetChanged(layout, this.getTopAndBottomOffset());
+            }
+        }
+    }
+
+    private interpolateOffset(layout:AppBarLayout, offset:number):number {
+        const absOffset:number = Math.abs(offset);
+        for (let i:number = 0, z:number = layout.getChildCount(); i < z; i++) {
+            const child:View = layout.getChildAt(i);
+            const childLp:AppBarLayout.LayoutParams = <AppBarLayout.LayoutParams> child.getLayoutParams();
+            const interpolator:Interpolator = childLp.getScrollInterpolator();
+            if (absOffset >= child.getTop() && absOffset <= child.getBottom()) {
+                if (interpolator != null) {
+                    let childScrollableHeight:number = 0;
+                    const flags:number = childLp.getScrollFlags();
+                    if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_SCROLL) != 0) {
+                        // We're set to scroll so add the child's height plus margin
+                        childScrollableHeight += child.getHeight() + childLp.topMargin + childLp.bottomMargin;
+                        if ((flags & AppBarLayout.LayoutParams.SCROLL_FLAG_EXIT_UNTIL_COLLAPSED) != 0) {
+                            // For a collapsing scroll, we to take the collapsed height
+                            // into account.
+                            childScrollableHeight -= child.getMinimumHeight();
+                        }
+                    }
+                    if (childScrollableHeight > 0) {
+                        const offsetForView:number = absOffset - child.getTop();
+                        const interpolatedDiff:number = Math.round(childScrollableHeight *
+                            interpolator.getInterpolation(offsetForView / childScrollableHeight));
+                        return Math.sign(offset) * (child.getTop() + interpolatedDiff);
+                    }
+                }
+                // If we get to here then the view on the offset isn't suitable for interpolated
+                // scrolling. So break out of the loop
+                break;
+            }
+        }
+        return offset;
+    }
+
+    getTopBottomOffsetForScrollingSibling():number {
+        return this.getTopAndBottomOffset() + this.mOffsetDelta;
+    }
+}
+
+export module Behavior{
+export class FlingRunnable implements Runnable {
+    private mParent:CoordinatorLayout;
+    private mLayout:AppBarLayout;
+    _Behavior_this:Behavior;
+
+    constructor(parent:CoordinatorLayout, layout:AppBarLayout, arg:Behavior) {
+        this.mParent = parent;
+        this.mLayout = layout;
+        this._Behavior_this = arg;
+    }
+
+    run():void {
+        const scroller:OverScroller = this._Behavior_this.mScroller;
+        if (this.mLayout != null && scroller != null && scroller.computeScrollOffset()) {
+            this._Behavior_this.setAppBarTopBottomOffset(this.mParent, this.mLayout, scroller.getCurrY());
+            // Post ourselves so that we run on the next animation
+            this.mLayout.postOnAnimation(this);
+        }
+    }
+}
+}
+
+/**
+ * Behavior which should be used by {@link View}s which can scroll vertically and support
+ * nested scrolling to automatically scroll any {@link AppBarLayout} siblings.
+ */
+export class ScrollingViewBehavior extends ViewOffsetBehavior<View> {
+
+    private mOverlayTop:number = 0;
+
+    constructor() {
+        super();
+    }
+
+    layoutDependsOn(parent:CoordinatorLayout, child:View, dependency:View):boolean {
+        // We depend on any AppBarLayouts
+        return dependency instanceof AppBarLayout;
+    }
+
+    onMeasureChild(parent:CoordinatorLayout, child:View, parentWidthMeasureSpec:number, widthUsed:number,
+                   parentHeightMeasureSpec:number, heightUsed:number):boolean {
+        const childLpHeight:number = child.getLayoutParams().height;
+        if (childLpHeight == ViewGroup.LayoutParams.MATCH_PARENT || childLpHeight == ViewGroup.LayoutParams.WRAP_CONTENT) {
+            // If the menu's height is set to match_parent/wrap_content then measure it
+            // with the maximum visible height
+            const dependencies:List<View> = parent.getDependencies(child);
+            if (dependencies.isEmpty()) {
+                // If we don't have any dependencies, return false
+                return false;
+            }
+            const appBar:AppBarLayout = ScrollingViewBehavior.findFirstAppBarLayout(dependencies);
+            if (appBar != null && appBar.isLaidOut()) {
+                const scrollRange:number = appBar.getTotalScrollRange();
+                if (scrollRange > 0) {
+                    let parentContentHeight:number = View.MeasureSpec.getSize(parentHeightMeasureSpec);
+                    if (parentContentHeight == 0) {
+                        // If the parent doesn't have a height, use the parent's own
+                        parentContentHeight = parent.getHeight();
+                    }
+                    const height:number = parentContentHeight - appBar.getMeasuredHeight() + scrollRange;
+                    const heightMeasureSpec:number = View.MeasureSpec.makeMeasureSpec(height,
+                        childLpHeight == ViewGroup.LayoutParams.MATCH_PARENT ? View.MeasureSpec.EXACTLY : View.MeasureSpec.AT_MOST);
+                    // Now measure the scrolling menu with the correct height
+                    parent.onMeasureChild(child, parentWidthMeasureSpec, widthUsed, heightMeasureSpec, heightUsed);
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    onDependentViewChanged(parent:CoordinatorLayout, child:View, dependency:View):boolean {
+        const behavior:CoordinatorLayout.Behavior<any> =
+            (<CoordinatorLayout.LayoutParams> dependency.getLayoutParams()).getBehavior();
+        if (behavior instanceof AppBarLayout.Behavior) {
+            // Offset the child so that it is below the app-bar (with any overlap)
+            const appBarOffset:number = (<AppBarLayout.Behavior> behavior).getTopBottomOffsetForScrollingSibling();
+            const expandedMax:number = dependency.getHeight() - this.mOverlayTop;
+            const collapsedMin:number = parent.getHeight() - child.getHeight();
+            if (this.mOverlayTop != 0 && dependency instanceof AppBarLayout) {
+                // If we have an overlap top, and the dependency is an AppBarLayout, we control
+                // the offset ourselves based on the appbar's scroll progress. This is so that
+                // the scroll happens sequentially rather than linearly
+                const scrollRange:number = (<AppBarLayout> dependency).getTotalScrollRange();
+                this.setTopAndBottomOffset(Math.round(MathUtils.lerp(expandedMax, collapsedMin,
+                    Math.abs(appBarOffset) / scrollRange)));
+            } else {
+                this.setTopAndBottomOffset(dependency.getHeight() - this.mOverlayTop + appBarOffset);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Set the distance that this view should overlap any {@link AppBarLayout}.
+     *
+     * @param overlayTop the distance in px
+     */
+    setOverlayTop(overlayTop:number):void {
+        this.mOverlayTop = overlayTop;
+    }
+
+    /**
+     * Returns the distance that this view should overlap any {@link AppBarLayout}.
+     */
+    getOverlayTop():number {
+        return this.mOverlayTop;
+    }
+
+    private static findFirstAppBarLayout(views:List<View>):AppBarLayout {
+        for (let i:number = 0, z:number = views.size(); i < z; i++) {
+            const view:View = views.get(i);
+            if (view instanceof AppBarLayout) {
+                return <AppBarLayout> view;
+            }
+        }
+        return null;
+    }
+}
+}
+
+}
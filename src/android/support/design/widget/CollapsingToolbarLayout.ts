@@ -0,0 +1,463 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/ViewParent.ts"/>
+///<reference path="../../../../android/view/animation/AccelerateInterpolator.ts"/>
+///<reference path="../../../../android/view/animation/DecelerateInterpolator.ts"/>
+///<reference path="../../../../android/widget/FrameLayout.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../../android/graphics/drawable/ColorDrawable.ts"/>
+///<reference path="../../../../android/animation/ValueAnimator.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../android/app/ActionBar.ts"/>
+///<reference path="../../../../android/support/design/widget/AppBarLayout.ts"/>
+///<reference path="../../../../android/support/design/widget/ViewOffsetHelper.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ViewParent = android.view.ViewParent;
+import AccelerateInterpolator = android.view.animation.AccelerateInterpolator;
+import DecelerateInterpolator = android.view.animation.DecelerateInterpolator;
+import FrameLayout = android.widget.FrameLayout;
+import Canvas = android.graphics.Canvas;
+import Drawable = android.graphics.drawable.Drawable;
+import ColorDrawable = android.graphics.drawable.ColorDrawable;
+import ValueAnimator = android.animation.ValueAnimator;
+import Context = android.content.Context;
+import ActionBar = android.app.ActionBar;
+
+/**
+ * CollapsingToolbarLayout is a wrapper for {@link ActionBar} which implements a collapsing app bar.
+ * It is designed to be used as a direct child of a {@link AppBarLayout}.
+ * CollapsingToolbarLayout contains the following features:
+ *
+ * <h3>Content scrim</h3>
+ * A full-bleed scrim which is show or hidden when the scroll position has hit a certain threshold.
+ * You can change this via {@link #setContentScrim(Drawable)}.
+ *
+ * <h3>Parallax scrolling children</h3>
+ * Child views can opt to be scrolled within this layout in a parallax fashion.
+ * See {@link LayoutParams#COLLAPSE_MODE_PARALLAX} and
+ * {@link LayoutParams#setParallaxMultiplier(float)}.
+ *
+ * <h3>Pinned position children</h3>
+ * Child views can opt to be pinned in space globally. This is useful when implementing a
+ * collapsing as it allows the ActionBar to be fixed in place even though this layout is moving.
+ * See {@link LayoutParams#COLLAPSE_MODE_PIN}.
+ *
+ * <p>The toolbar is the child set by the <code>toolbarId</code> attribute, or the first
+ * {@link ActionBar} child. Pass it to {@link android.app.ActionBarActivity#setActionBar(ActionBar)}
+ * to use it as the activity's action bar.</p>
+ */
+export class CollapsingToolbarLayout extends FrameLayout {
+
+    private static SCRIM_ANIMATION_DURATION:number = 600;
+
+    private mRefreshToolbar:boolean = true;
+
+    private mToolbarId:string;
+
+    private mToolbar:ActionBar;
+
+    mContentScrim:Drawable;
+
+    private mScrimAlpha:number = 0;
+
+    private mScrimsAreShown:boolean;
+
+    private mScrimAnimator:ValueAnimator;
+
+    private mOnOffsetChangedListener:AppBarLayout.OnOffsetChangedListener;
+
+    mCurrentOffset:number = 0;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('contentScrim', (value)=>{
+            this.setContentScrim(this._attrBinder.parseDrawable(value));
+        }, ()=>{
+            return this.mContentScrim;
+        });
+        this._attrBinder.addAttr('toolbarId', (value)=>{
+            this.mToolbarId = this._attrBinder.parseString(value);
+            this.mRefreshToolbar = true;
+        }, ()=>{
+            return this.mToolbarId;
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+
+        this.setWillNotDraw(false);
+        //androidui: collapsing title text is not supported, the title stays in the pinned ActionBar
+    }
+
+    protected onAttachedToWindow():void {
+        super.onAttachedToWindow();
+        // Add an OnOffsetChangedListener if possible
+        const parent:ViewParent = this.getParent();
+        if (parent instanceof AppBarLayout) {
+            if (this.mOnOffsetChangedListener == null) {
+                this.mOnOffsetChangedListener = new CollapsingToolbarLayout.OffsetUpdateListener(this);
+            }
+            (<AppBarLayout> parent).addOnOffsetChangedListener(this.mOnOffsetChangedListener);
+        }
+    }
+
+    protected onDetachedFromWindow():void {
+        // Remove our OnOffsetChangedListener if possible and it exists
+        const parent:ViewParent = this.getParent();
+        if (this.mOnOffsetChangedListener != null && parent instanceof AppBarLayout) {
+            (<AppBarLayout> parent).removeOnOffsetChangedListener(this.mOnOffsetChangedListener);
+        }
+        super.onDetachedFromWindow();
+    }
+
+    draw(canvas:Canvas):void {
+        super.draw(canvas);
+        // If we don't have a toolbar, the scrim will be not be drawn in drawChild() below.
+        // Instead, we draw it here.
+        this.ensureToolbar();
+        if (this.mToolbar == null && this.mContentScrim != null && this.mScrimAlpha > 0) {
+            this.mContentScrim.mutate().setAlpha(this.mScrimAlpha);
+            this.mContentScrim.draw(canvas);
+        }
+    }
+
+    protected drawChild(canvas:Canvas, child:View, drawingTime:number):boolean {
+        // This is a little weird. Our scrim needs to be behind the Toolbar (if it is present),
+        // but in front of any other children which are behind it. To do this we intercept the
+        // drawChild() call, and draw our scrim first when drawing the toolbar
+        this.ensureToolbar();
+        if (child == this.mToolbar && this.mContentScrim != null && this.mScrimAlpha > 0) {
+            this.mContentScrim.mutate().setAlpha(this.mScrimAlpha);
+            this.mContentScrim.draw(canvas);
+        }
+        // Carry on drawing the child...
+        return super.drawChild(canvas, child, drawingTime);
+    }
+
+    protected onSizeChanged(w:number, h:number, oldw:number, oldh:number):void {
+        super.onSizeChanged(w, h, oldw, oldh);
+        if (this.mContentScrim != null) {
+            this.mContentScrim.setBounds(0, 0, w, h);
+        }
+    }
+
+    private ensureToolbar():void {
+        if (!this.mRefreshToolbar) {
+            return;
+        }
+        let fallback:ActionBar = null;
+        let selected:ActionBar = null;
+        for (let i:number = 0, count:number = this.getChildCount(); i < count; i++) {
+            const view:View = this.getChildAt(i);
+            if (view instanceof ActionBar) {
+                if (this.mToolbarId != null) {
+                    if (this.mToolbarId == view.getId()) {
+                        selected = <ActionBar> view;
+                        break;
+                    }
+                    if (fallback == null) {
+                        // Keep track of the first Toolbar in case we don't find the Toolbar
+                        // with the id
+                        fallback = <ActionBar> view;
+                    }
+                } else {
+                    // We don't have a id to check for so just use the first we come across
+                    selected = <ActionBar> view;
+                    break;
+                }
+            }
+        }
+        if (selected == null) {
+            // If we didn't find a toolbar using the id, use the fallback
+            selected = fallback;
+        }
+        this.mToolbar = selected;
+        this.mRefreshToolbar = false;
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        this.ensureToolbar();
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+    }
+
+    protected onLayout(changed:boolean, left:number, top:number, right:number, bottom:number):void {
+        super.onLayout(changed, left, top, right, bottom);
+        // Update the ViewOffsetHelpers, the pinned and parallax offsets are re-applied
+        for (let i:number = 0, z:number = this.getChildCount(); i < z; i++) {
+            CollapsingToolbarLayout.getViewOffsetHelper(this.getChildAt(i)).onViewLayout();
+        }
+        // Set our minimum height to enable proper AppBarLayout collapsing
+        if (this.mToolbar != null) {
+            this.setMinimumHeight(this.mToolbar.getHeight());
+        }
+    }
+
+    static getViewOffsetHelper(view:View):ViewOffsetHelper {
+        //androidui: there is no keyed view tag, keep the helper in the LayoutParams
+        const lp:CollapsingToolbarLayout.LayoutParams = <CollapsingToolbarLayout.LayoutParams> view.getLayoutParams();
+        if (lp.mOffsetHelper == null) {
+            lp.mOffsetHelper = new ViewOffsetHelper(view);
+        }
+        return lp.mOffsetHelper;
+    }
+
+    setScrimsShown(shown:boolean):void {
+        if (this.mScrimsAreShown != shown) {
+            this.animateScrim(shown ? 0xFF : 0x0);
+            this.mScrimsAreShown = shown;
+        }
+    }
+
+    private animateScrim(targetAlpha:number):void {
+        this.ensureToolbar();
+        if (this.mScrimAnimator == null) {
+            this.mScrimAnimator = new ValueAnimator();
+            this.mScrimAnimator.setDuration(CollapsingToolbarLayout.SCRIM_ANIMATION_DURATION);
+            this.mScrimAnimator.addUpdateListener({
+                onAnimationUpdate: (animator:ValueAnimator)=> {
+                    this.setScrimAlpha(<number>animator.getAnimatedValue());
+                }
+            });
+        } else if (this.mScrimAnimator.isRunning()) {
+            this.mScrimAnimator.cancel();
+        }
+        this.mScrimAnimator.setInterpolator(targetAlpha > this.mScrimAlpha
+            ? new AccelerateInterpolator() : new DecelerateInterpolator());
+        this.mScrimAnimator.setIntValues(this.mScrimAlpha, targetAlpha);
+        this.mScrimAnimator.start();
+    }
+
+    private setScrimAlpha(alpha:number):void {
+        if (alpha != this.mScrimAlpha) {
+            const contentScrim:Drawable = this.mContentScrim;
+            if (contentScrim != null && this.mToolbar != null) {
+                this.mToolbar.postInvalidateOnAnimation();
+            }
+            this.mScrimAlpha = alpha;
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    /**
+     * Set the drawable to use for the content scrim from resources. Providing null will disable
+     * the scrim functionality.
+     *
+     * @param drawable the drawable to display
+     *
+     * @see #getContentScrim()
+     */
+    setContentScrim(drawable:Drawable):void {
+        if (this.mContentScrim != drawable) {
+            if (this.mContentScrim != null) {
+                this.mContentScrim.setCallback(null);
+            }
+            this.mContentScrim = drawable;
+            if (drawable != null) {
+                drawable.setBounds(0, 0, this.getWidth(), this.getHeight());
+                drawable.setCallback(this);
+                drawable.mutate().setAlpha(this.mScrimAlpha);
+            }
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    /**
+     * Set the color to use for the content scrim.
+     *
+     * @param color the color to display
+     *
+     * @see #getContentScrim()
+     */
+    setContentScrimColor(color:number):void {
+        this.setContentScrim(new ColorDrawable(color));
+    }
+
+    /**
+     * Returns the drawable which is used for the foreground scrim.
+     *
+     * @see #setContentScrim(Drawable)
+     */
+    getContentScrim():Drawable {
+        return this.mContentScrim;
+    }
+
+    protected verifyDrawable(who:Drawable):boolean {
+        return super.verifyDrawable(who) || who == this.mContentScrim;
+    }
+
+    /**
+     * The additional offset used to define when to trigger the scrim visibility change.
+     */
+    getScrimTriggerOffset():number {
+        return 2 * this.getMinimumHeight();
+    }
+
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean {
+        return p instanceof CollapsingToolbarLayout.LayoutParams;
+    }
+
+    protected generateDefaultLayoutParams():FrameLayout.LayoutParams {
+        return new CollapsingToolbarLayout.LayoutParams(ViewGroup.LayoutParams.MATCH_PARENT, ViewGroup.LayoutParams.MATCH_PARENT);
+    }
+
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):FrameLayout.LayoutParams {
+        return new CollapsingToolbarLayout.LayoutParams(p);
+    }
+}
+
+export module CollapsingToolbarLayout{
+export class LayoutParams extends FrameLayout.LayoutParams {
+
+    private static DEFAULT_PARALLAX_MULTIPLIER:number = 0.5;
+
+    /**
+     * The view will act as normal with no collapsing behavior.
+     */
+    static COLLAPSE_MODE_OFF:number = 0;
+
+    /**
+     * The view will pin in place until it reaches the bottom of the
+     * {@link CollapsingToolbarLayout}.
+     */
+    static COLLAPSE_MODE_PIN:number = 1;
+
+    /**
+     * The view will scroll in a parallax fashion. See {@link #setParallaxMultiplier(float)}
+     * to change the multiplier used.
+     */
+    static COLLAPSE_MODE_PARALLAX:number = 2;
+
+    mCollapseMode:number = LayoutParams.COLLAPSE_MODE_OFF;
+
+    mParallaxMult:number = LayoutParams.DEFAULT_PARALLAX_MULTIPLIER;
+
+    mOffsetHelper:ViewOffsetHelper;
+
+    constructor();
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(width:number, height:number, gravity?:number);
+    constructor(...args) {
+        super();
+        if (args.length === 1) {
+            super(args[0]);
+            if (args[0] instanceof CollapsingToolbarLayout.LayoutParams) {
+                this.mCollapseMode = (<CollapsingToolbarLayout.LayoutParams>args[0]).mCollapseMode;
+                this.mParallaxMult = (<CollapsingToolbarLayout.LayoutParams>args[0]).mParallaxMult;
+            }
+        } else {
+            super(args[0], args[1], args[2]);
+        }
+        const a = this._attrBinder;
+        a.addAttr('collapseMode', (value)=>{
+            if ((value + '').toLowerCase() === 'pin' || value == LayoutParams.COLLAPSE_MODE_PIN) {
+                this.mCollapseMode = LayoutParams.COLLAPSE_MODE_PIN;
+            } else if ((value + '').toLowerCase() === 'parallax' || value == LayoutParams.COLLAPSE_MODE_PARALLAX) {
+                this.mCollapseMode = LayoutParams.COLLAPSE_MODE_PARALLAX;
+            } else {
+                this.mCollapseMode = LayoutParams.COLLAPSE_MODE_OFF;
+            }
+        }, ()=>{
+            return this.mCollapseMode;
+        });
+        a.addAttr('parallaxMultiplier', (value)=>{
+            this.setParallaxMultiplier(a.parseNumber(value, LayoutParams.DEFAULT_PARALLAX_MULTIPLIER));
+        }, ()=>{
+            return this.mParallaxMult;
+        });
+    }
+
+    /**
+     * Set the collapse mode.
+     *
+     * @param collapseMode one of {@link #COLLAPSE_MODE_OFF}, {@link #COLLAPSE_MODE_PIN}
+     *                     or {@link #COLLAPSE_MODE_PARALLAX}.
+     */
+    setCollapseMode(collapseMode:number):void {
+        this.mCollapseMode = collapseMode;
+    }
+
+    /**
+     * Returns the requested collapse mode.
+     *
+     * @return the current mode. One of {@link #COLLAPSE_MODE_OFF}, {@link #COLLAPSE_MODE_PIN}
+     * or {@link #COLLAPSE_MODE_PARALLAX}.
+     */
+    getCollapseMode():number {
+        return this.mCollapseMode;
+    }
+
+    /**
+     * Set the parallax scroll multiplier used in conjunction with
+     * {@link #COLLAPSE_MODE_PARALLAX}. A value of {@code 0.0} indicates no movement at all,
+     * {@code 1.0f} indicates normal scroll movement.
+     *
+     * @param multiplier the multiplier.
+     *
+     * @see #getParallaxMultiplier()
+     */
+    setParallaxMultiplier(multiplier:number):void {
+        this.mParallaxMult = multiplier;
+    }
+
+    /**
+     * Returns the parallax scroll multiplier used in conjunction with
+     * {@link #COLLAPSE_MODE_PARALLAX}.
+     *
+     * @see #setParallaxMultiplier(float)
+     */
+    getParallaxMultiplier():number {
+        return this.mParallaxMult;
+    }
+}
+
+export class OffsetUpdateListener implements AppBarLayout.OnOffsetChangedListener {
+    _CollapsingToolbarLayout_this:CollapsingToolbarLayout;
+    constructor(arg:CollapsingToolbarLayout){
+        this._CollapsingToolbarLayout_this = arg;
+    }
+
+    onOffsetChanged(layout:AppBarLayout, verticalOffset:number):void {
+        const _this = this._CollapsingToolbarLayout_this;
+        _this.mCurrentOffset = verticalOffset;
+        for (let i:number = 0, z:number = _this.getChildCount(); i < z; i++) {
+            const child:View = _this.getChildAt(i);
+            const lp:CollapsingToolbarLayout.LayoutParams = <CollapsingToolbarLayout.LayoutParams> child.getLayoutParams();
+            const offsetHelper:ViewOffsetHelper = CollapsingToolbarLayout.getViewOffsetHelper(child);
+            switch (lp.mCollapseMode) {
+                case CollapsingToolbarLayout.LayoutParams.COLLAPSE_MODE_PIN:
+                    if (_this.getHeight() + verticalOffset >= child.getHeight()) {
+                        offsetHelper.setTopAndBottomOffset(-verticalOffset);
+                    }
+                    break;
+                case CollapsingToolbarLayout.LayoutParams.COLLAPSE_MODE_PARALLAX:
+                    offsetHelper.setTopAndBottomOffset(Math.round(-verticalOffset * lp.mParallaxMult));
+                    break;
+            }
+        }
+        // Show or hide the scrims if needed
+        if (_this.mContentScrim != null) {
+            _this.setScrimsShown(_this.getHeight() + verticalOffset < _this.getScrimTriggerOffset());
+        }
+    }
+}
+}
+
+}
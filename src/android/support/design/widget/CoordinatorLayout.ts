@@ -0,0 +1,2068 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/ViewParent.ts"/>
+///<reference path="../../../../android/view/ViewTreeObserver.ts"/>
+///<reference path="../../../../android/view/Gravity.ts"/>
+///<reference path="../../../../android/view/MotionEvent.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/Color.ts"/>
+///<reference path="../../../../android/graphics/Paint.ts"/>
+///<reference path="../../../../android/graphics/Rect.ts"/>
+///<reference path="../../../../android/os/SystemClock.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="../../../../java/util/List.ts"/>
+///<reference path="../../../../androidui/util/ClassFinder.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ViewParent = android.view.ViewParent;
+import ViewTreeObserver = android.view.ViewTreeObserver;
+import Gravity = android.view.Gravity;
+import MotionEvent = android.view.MotionEvent;
+import Canvas = android.graphics.Canvas;
+import Color = android.graphics.Color;
+import Paint = android.graphics.Paint;
+import Rect = android.graphics.Rect;
+import SystemClock = android.os.SystemClock;
+import Log = android.util.Log;
+import Context = android.content.Context;
+import ArrayList = java.util.ArrayList;
+import List = java.util.List;
+import ClassFinder = androidui.util.ClassFinder;
+
+/**
+ * CoordinatorLayout is a super-powered {@link android.widget.FrameLayout FrameLayout}.
+ *
+ * <p>CoordinatorLayout is intended for two primary use cases:</p>
+ * <ol>
+ *     <li>As a top-level application decor or chrome layout</li>
+ *     <li>As a container for a specific interaction with one or more child views</li>
+ * </ol>
+ *
+ * <p>By specifying {@link CoordinatorLayout.Behavior Behaviors} for child views of a
+ * CoordinatorLayout you can provide many different interactions within a single parent and those
+ * views can also interact with one another. View classes can specify a default behavior when
+ * used as a child of a CoordinatorLayout by implementing
+ * {@link CoordinatorLayout.AttachedBehavior AttachedBehavior}.</p>
+ *
+ * <p>Behaviors may be used to implement a variety of interactions and additional layout
+ * modifications ranging from sliding drawers and panels to swipe-dismissable elements and buttons
+ * that stick to other elements as they move and animate.</p>
+ *
+ * <p>Children of a CoordinatorLayout may have an
+ * {@link CoordinatorLayout.LayoutParams#setAnchorId(String) anchor}. This view id must correspond
+ * to an arbitrary descendant of the CoordinatorLayout, but it may not be the anchored child itself
+ * or a descendant of the anchored child. This can be used to place floating views relative to
+ * other arbitrary content panes.</p>
+ *
+ * <p>A Behavior can be set from a layout with the <code>layout_behavior</code> attribute, using
+ * either the full class name or a name relative to <code>android.support.design.widget</code>:</p>
+ * <pre>
+ * &lt;android.support.design.widget.CoordinatorLayout&gt;
+ *     &lt;ListView android:layout_behavior="AppBarLayout.ScrollingViewBehavior"/&gt;
+ * &lt;/android.support.design.widget.CoordinatorLayout&gt;
+ * </pre>
+ */
+export class CoordinatorLayout extends ViewGroup {
+
+    static TAG:string = "CoordinatorLayout";
+
+    private static TYPE_ON_INTERCEPT:number = 0;
+
+    private static TYPE_ON_TOUCH:number = 1;
+
+    private mLayoutDependencyComparator = (lhs:View, rhs:View):number => {
+        if (lhs == rhs) {
+            return 0;
+        } else if ((<CoordinatorLayout.LayoutParams> lhs.getLayoutParams()).dependsOn(this, lhs, rhs)) {
+            return 1;
+        } else if ((<CoordinatorLayout.LayoutParams> rhs.getLayoutParams()).dependsOn(this, rhs, lhs)) {
+            return -1;
+        } else {
+            return 0;
+        }
+    };
+
+    private mDependencySortedChildren:ArrayList<View> = new ArrayList<View>();
+
+    private mTempList1:ArrayList<View> = new ArrayList<View>();
+
+    private mTempDependenciesList:ArrayList<View> = new ArrayList<View>();
+
+    private mTempRect1:Rect = new Rect();
+
+    private mTempRect2:Rect = new Rect();
+
+    private mTempRect3:Rect = new Rect();
+
+    private mTempIntPair:number[] = [0, 0];
+
+    private mScrimPaint:Paint;
+
+    private mIsAttachedToWindow:boolean;
+
+    private mKeylines:number[];
+
+    private mBehaviorTouchView:View;
+
+    private mNestedScrollingDirectChild:View;
+
+    private mNestedScrollingTarget:View;
+
+    private mOnPreDrawListener:CoordinatorLayout.OnPreDrawListener;
+
+    private mNeedsPreDrawListener:boolean;
+
+    mOnHierarchyChangeListener_:ViewGroup.OnHierarchyChangeListener;
+
+    private mNestedScrollAxes_:number = 0;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('keylines', (value)=>{
+            let keylines = this._attrBinder.parseTextArray(value);
+            if (keylines) {
+                this.mKeylines = keylines.map((keyline)=>this._attrBinder.parseNumber(keyline, 0));
+            } else {
+                this.mKeylines = null;
+            }
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+
+        super.setOnHierarchyChangeListener(new CoordinatorLayout.HierarchyChangeListener(this));
+    }
+
+    setOnHierarchyChangeListener(onHierarchyChangeListener:ViewGroup.OnHierarchyChangeListener):void {
+        this.mOnHierarchyChangeListener_ = onHierarchyChangeListener;
+    }
+
+    protected onAttachedToWindow():void {
+        super.onAttachedToWindow();
+        this.resetTouchBehaviors();
+        if (this.mNeedsPreDrawListener) {
+            if (this.mOnPreDrawListener == null) {
+                this.mOnPreDrawListener = new CoordinatorLayout.OnPreDrawListener(this);
+            }
+            const vto:ViewTreeObserver = this.getViewTreeObserver();
+            vto.addOnPreDrawListener(this.mOnPreDrawListener);
+        }
+        this.mIsAttachedToWindow = true;
+    }
+
+    protected onDetachedFromWindow():void {
+        super.onDetachedFromWindow();
+        this.resetTouchBehaviors();
+        if (this.mNeedsPreDrawListener && this.mOnPreDrawListener != null) {
+            const vto:ViewTreeObserver = this.getViewTreeObserver();
+            vto.removeOnPreDrawListener(this.mOnPreDrawListener);
+        }
+        if (this.mNestedScrollingTarget != null) {
+            this.onStopNestedScroll(this.mNestedScrollingTarget);
+        }
+        this.mIsAttachedToWindow = false;
+    }
+
+    /**
+     * Reset all Behavior-related tracking records either to clean up or in preparation
+     * for a new event stream. This should be called when attached or detached from a window,
+     * in response to an UP or CANCEL event, when intercept is request-disallowed
+     * and similar cases where an event stream in progress will be aborted.
+     */
+    private resetTouchBehaviors():void {
+        if (this.mBehaviorTouchView != null) {
+            const b:CoordinatorLayout.Behavior<any> =
+                (<CoordinatorLayout.LayoutParams> this.mBehaviorTouchView.getLayoutParams()).getBehavior();
+            if (b != null) {
+                const now:number = SystemClock.uptimeMillis();
+                const cancelEvent:MotionEvent = MotionEvent.obtainWithAction(now, now, MotionEvent.ACTION_CANCEL, 0, 0);
+                b.onTouchEvent(this, this.mBehaviorTouchView, cancelEvent);
+                cancelEvent.recycle();
+            }
+            this.mBehaviorTouchView = null;
+        }
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+            lp.resetTouchBehaviorTracking();
+        }
+    }
+
+    /**
+     * Populate a list with the current child views, sorted such that the topmost views
+     * in z-order are at the front of the list. Useful for hit testing and event dispatch.
+     */
+    private getTopSortedChildren(out:ArrayList<View>):void {
+        out.clear();
+        const useCustomOrder:boolean = this.isChildrenDrawingOrderEnabled();
+        const childCount:number = this.getChildCount();
+        for (let i:number = childCount - 1; i >= 0; i--) {
+            const childIndex:number = useCustomOrder ? this.getChildDrawingOrder(childCount, i) : i;
+            const child:View = this.getChildAt(childIndex);
+            out.add(child);
+        }
+    }
+
+    private performIntercept(ev:MotionEvent, type:number):boolean {
+        let intercepted:boolean = false;
+        let newBlock:boolean = false;
+        let cancelEvent:MotionEvent = null;
+        const action:number = ev.getActionMasked();
+        const topmostChildList:ArrayList<View> = this.mTempList1;
+        this.getTopSortedChildren(topmostChildList);
+        // Let topmost child views inspect first
+        const childCount:number = topmostChildList.size();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = topmostChildList.get(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+            const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if ((intercepted || newBlock) && action != MotionEvent.ACTION_DOWN) {
+                // Cancel all behaviors beneath the one that intercepted.
+                // If the event is "down" then we don't have anything to cancel yet.
+                if (b != null) {
+                    if (cancelEvent == null) {
+                        const now:number = SystemClock.uptimeMillis();
+                        cancelEvent = MotionEvent.obtainWithAction(now, now, MotionEvent.ACTION_CANCEL, 0, 0);
+                    }
+                    switch (type) {
+                        case CoordinatorLayout.TYPE_ON_INTERCEPT:
+                            b.onInterceptTouchEvent(this, child, cancelEvent);
+                            break;
+                        case CoordinatorLayout.TYPE_ON_TOUCH:
+                            b.onTouchEvent(this, child, cancelEvent);
+                            break;
+                    }
+                }
+                continue;
+            }
+            if (!intercepted && b != null) {
+                switch (type) {
+                    case CoordinatorLayout.TYPE_ON_INTERCEPT:
+                        intercepted = b.onInterceptTouchEvent(this, child, ev);
+                        break;
+                    case CoordinatorLayout.TYPE_ON_TOUCH:
+                        intercepted = b.onTouchEvent(this, child, ev);
+                        break;
+                }
+                if (intercepted) {
+                    this.mBehaviorTouchView = child;
+                }
+            }
+            // Don't keep going if we're not allowing interaction below this.
+            // Setting newBlock will make sure we cancel the rest of the behaviors.
+            const wasBlocking:boolean = lp.didBlockInteraction();
+            const isBlocking:boolean = lp.isBlockingInteractionBelow(this, child);
+            newBlock = isBlocking && !wasBlocking;
+            if (isBlocking && !newBlock) {
+                // Stop here since we don't have anything more to cancel - we already did
+                // when the behavior first started blocking things below this point.
+                break;
+            }
+        }
+        topmostChildList.clear();
+        if (cancelEvent != null) {
+            cancelEvent.recycle();
+        }
+        return intercepted;
+    }
+
+    onInterceptTouchEvent(ev:MotionEvent):boolean {
+        const action:number = ev.getActionMasked();
+        // Make sure we reset in case we had missed a previous important event.
+        if (action == MotionEvent.ACTION_DOWN) {
+            this.resetTouchBehaviors();
+        }
+        const intercepted:boolean = this.performIntercept(ev, CoordinatorLayout.TYPE_ON_INTERCEPT);
+        if (action == MotionEvent.ACTION_UP || action == MotionEvent.ACTION_CANCEL) {
+            this.resetTouchBehaviors();
+        }
+        return intercepted;
+    }
+
+    onTouchEvent(ev:MotionEvent):boolean {
+        let handled:boolean = false;
+        let cancelSuper:boolean = false;
+        let cancelEvent:MotionEvent = null;
+        const action:number = ev.getActionMasked();
+        if (this.mBehaviorTouchView != null || (cancelSuper = this.performIntercept(ev, CoordinatorLayout.TYPE_ON_TOUCH))) {
+            // Safe since performIntercept guarantees that
+            // mBehaviorTouchView != null if it returns true
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> this.mBehaviorTouchView.getLayoutParams();
+            const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (b != null) {
+                handled = b.onTouchEvent(this, this.mBehaviorTouchView, ev);
+            }
+        }
+        // Keep the super implementation correct
+        if (this.mBehaviorTouchView == null) {
+            handled = super.onTouchEvent(ev) || handled;
+        } else if (cancelSuper) {
+            const now:number = SystemClock.uptimeMillis();
+            cancelEvent = MotionEvent.obtainWithAction(now, now, MotionEvent.ACTION_CANCEL, 0, 0);
+            super.onTouchEvent(cancelEvent);
+        }
+        if (cancelEvent != null) {
+            cancelEvent.recycle();
+        }
+        if (action == MotionEvent.ACTION_UP || action == MotionEvent.ACTION_CANCEL) {
+            this.resetTouchBehaviors();
+        }
+        return handled;
+    }
+
+    requestDisallowInterceptTouchEvent(disallowIntercept:boolean):void {
+        super.requestDisallowInterceptTouchEvent(disallowIntercept);
+        if (disallowIntercept) {
+            this.resetTouchBehaviors();
+        }
+    }
+
+    private getKeyline(index:number):number {
+        if (this.mKeylines == null) {
+            Log.e(CoordinatorLayout.TAG, "No keylines defined for " + this + " - attempted index lookup " + index);
+            return 0;
+        }
+        if (index < 0 || index >= this.mKeylines.length) {
+            Log.e(CoordinatorLayout.TAG, "Keyline index " + index + " out of range for " + this);
+            return 0;
+        }
+        return this.mKeylines[index];
+    }
+
+    /**
+     * Find a {@link CoordinatorLayout.Behavior Behavior} class by its name. A name starting
+     * with '.' or without any package is resolved relative to
+     * <code>android.support.design.widget</code>.
+     */
+    static parseBehavior(name:string):CoordinatorLayout.Behavior<any> {
+        if (name == null || name.length == 0) {
+            return null;
+        }
+        if (name.startsWith('.')) {
+            name = name.substring(1);
+        }
+        let clazz = ClassFinder.findClass(name);
+        if (!clazz) clazz = ClassFinder.findClass(name, android.support.design.widget);
+        if (typeof clazz !== 'function') {
+            throw Error(`new RuntimeException("Could not inflate Behavior subclass " + ${name})`);
+        }
+        return new clazz();
+    }
+
+    getResolvedLayoutParams(child:View):CoordinatorLayout.LayoutParams {
+        const result:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        if (!result.mBehaviorResolved) {
+            if (CoordinatorLayout.AttachedBehavior.isImpl(child)) {
+                const attachedBehavior = (<CoordinatorLayout.AttachedBehavior><any>child).getBehavior();
+                if (attachedBehavior == null) {
+                    Log.e(CoordinatorLayout.TAG, "Attached behavior class is null");
+                }
+                result.setBehavior(attachedBehavior);
+            }
+            result.mBehaviorResolved = true;
+        }
+        return result;
+    }
+
+    private prepareChildren():void {
+        const childCount:number = this.getChildCount();
+        let resortRequired:boolean = this.mDependencySortedChildren.size() != childCount;
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = this.getResolvedLayoutParams(child);
+            if (!resortRequired && lp.isDirty(this, child)) {
+                resortRequired = true;
+            }
+            lp.findAnchorView(this, child);
+        }
+        if (resortRequired) {
+            this.mDependencySortedChildren.clear();
+            for (let i:number = 0; i < childCount; i++) {
+                this.mDependencySortedChildren.add(this.getChildAt(i));
+            }
+            CoordinatorLayout.selectionSort(this.mDependencySortedChildren, this.mLayoutDependencyComparator);
+        }
+    }
+
+    /**
+     * Retrieve the transformed bounding rect of an arbitrary descendant view.
+     * This does not need to be a direct child.
+     *
+     * @param descendant descendant view to reference
+     * @param out rect to set to the bounds of the descendant view
+     */
+    getDescendantRect(descendant:View, out:Rect):void {
+        out.set(0, 0, descendant.getWidth(), descendant.getHeight());
+        this.offsetDescendantRectToMyCoords(descendant, out);
+    }
+
+    /**
+     * Called to measure each individual child view unless a
+     * {@link CoordinatorLayout.Behavior Behavior} is present. The Behavior may choose to delegate
+     * child measurement to this method.
+     *
+     * @param child the child to measure
+     * @param parentWidthMeasureSpec the width requirements for this view
+     * @param widthUsed extra space that has been used up by the parent
+     *        horizontally (possibly by other children of the parent)
+     * @param parentHeightMeasureSpec the height requirements for this view
+     * @param heightUsed extra space that has been used up by the parent
+     *        vertically (possibly by other children of the parent)
+     */
+    onMeasureChild(child:View, parentWidthMeasureSpec:number, widthUsed:number, parentHeightMeasureSpec:number, heightUsed:number):void {
+        this.measureChildWithMargins(child, parentWidthMeasureSpec, widthUsed, parentHeightMeasureSpec, heightUsed);
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        this.prepareChildren();
+        this.ensurePreDrawListener();
+        const paddingLeft:number = this.getPaddingLeft();
+        const paddingTop:number = this.getPaddingTop();
+        const paddingRight:number = this.getPaddingRight();
+        const paddingBottom:number = this.getPaddingBottom();
+        const layoutDirection:number = this.getLayoutDirection();
+        const isRtl:boolean = layoutDirection == View.LAYOUT_DIRECTION_RTL;
+        const widthMode:number = View.MeasureSpec.getMode(widthMeasureSpec);
+        const widthSize:number = View.MeasureSpec.getSize(widthMeasureSpec);
+        const widthPadding:number = paddingLeft + paddingRight;
+        const heightPadding:number = paddingTop + paddingBottom;
+        let widthUsed:number = this.getSuggestedMinimumWidth();
+        let heightUsed:number = this.getSuggestedMinimumHeight();
+        let childState:number = 0;
+        const childCount:number = this.mDependencySortedChildren.size();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.mDependencySortedChildren.get(i);
+            if (child.getVisibility() == View.GONE) {
+                continue;
+            }
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+            let keylineWidthUsed:number = 0;
+            if (lp.keyline >= 0 && widthMode != View.MeasureSpec.UNSPECIFIED) {
+                const keylinePos:number = this.getKeyline(lp.keyline);
+                const keylineGravity:number = Gravity.getAbsoluteGravity(CoordinatorLayout.resolveKeylineGravity(lp.gravity),
+                    layoutDirection) & Gravity.HORIZONTAL_GRAVITY_MASK;
+                if ((keylineGravity == Gravity.LEFT && !isRtl) || (keylineGravity == Gravity.RIGHT && isRtl)) {
+                    keylineWidthUsed = Math.max(0, widthSize - paddingRight - keylinePos);
+                } else if ((keylineGravity == Gravity.RIGHT && !isRtl) || (keylineGravity == Gravity.LEFT && isRtl)) {
+                    keylineWidthUsed = Math.max(0, keylinePos - paddingLeft);
+                }
+            }
+            const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (b == null || !b.onMeasureChild(this, child, widthMeasureSpec, keylineWidthUsed, heightMeasureSpec, 0)) {
+                this.onMeasureChild(child, widthMeasureSpec, keylineWidthUsed, heightMeasureSpec, 0);
+            }
+            widthUsed = Math.max(widthUsed, widthPadding + child.getMeasuredWidth() + lp.leftMargin + lp.rightMargin);
+            heightUsed = Math.max(heightUsed, heightPadding + child.getMeasuredHeight() + lp.topMargin + lp.bottomMargin);
+            childState = View.combineMeasuredStates(childState, child.getMeasuredState());
+        }
+        const width:number = View.resolveSizeAndState(widthUsed, widthMeasureSpec, childState & View.MEASURED_STATE_MASK);
+        const height:number = View.resolveSizeAndState(heightUsed, heightMeasureSpec, childState << View.MEASURED_HEIGHT_STATE_SHIFT);
+        this.setMeasuredDimension(width, height);
+    }
+
+    /**
+     * Called to lay out each individual child view unless a
+     * {@link CoordinatorLayout.Behavior Behavior} is present. The Behavior may choose to
+     * delegate child measurement to this method.
+     *
+     * @param child child view to lay out
+     * @param layoutDirection the resolved layout direction for the CoordinatorLayout, such as
+     *                        {@link View#LAYOUT_DIRECTION_LTR} or
+     *                        {@link View#LAYOUT_DIRECTION_RTL}.
+     */
+    onLayoutChild(child:View, layoutDirection:number):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        if (lp.checkAnchorChanged()) {
+            throw Error(`new IllegalStateException("An anchor may not be changed after CoordinatorLayout" + " measurement begins before layout is complete.")`);
+        }
+        if (lp.mAnchorView != null) {
+            this.layoutChildWithAnchor(child, lp.mAnchorView, layoutDirection);
+        } else if (lp.keyline >= 0) {
+            this.layoutChildWithKeyline(child, lp.keyline, layoutDirection);
+        } else {
+            this.layoutChild(child, layoutDirection);
+        }
+    }
+
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void {
+        const layoutDirection:number = this.getLayoutDirection();
+        const childCount:number = this.mDependencySortedChildren.size();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.mDependencySortedChildren.get(i);
+            if (child.getVisibility() == View.GONE) {
+                continue;
+            }
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+            const behavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (behavior == null || !behavior.onLayoutChild(this, child, layoutDirection)) {
+                this.onLayoutChild(child, layoutDirection);
+            }
+        }
+    }
+
+    recordLastChildRect(child:View, r:Rect):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        lp.setLastChildRect(r);
+    }
+
+    getLastChildRect(child:View, out:Rect):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        out.set(lp.getLastChildRect());
+    }
+
+    /**
+     * Get the position of the child within the coordinate space of this CoordinatorLayout.
+     *
+     * @param child child view to check
+     * @param transform true to include transformation in the output rect, false to
+     *                        only account for the base position
+     * @param out rect to set to the output values
+     */
+    getChildRect(child:View, transform:boolean, out:Rect):void {
+        if (child.isLayoutRequested() || child.getVisibility() == View.GONE) {
+            out.set(0, 0, 0, 0);
+            return;
+        }
+        if (transform) {
+            this.getDescendantRect(child, out);
+        } else {
+            out.set(child.getLeft(), child.getTop(), child.getRight(), child.getBottom());
+        }
+    }
+
+    /**
+     * Calculate the desired child rect relative to an anchor rect, respecting both
+     * gravity and anchorGravity.
+     *
+     * @param child child view to calculate a rect for
+     * @param layoutDirection the desired layout direction for the CoordinatorLayout
+     * @param anchorRect rect in CoordinatorLayout coordinates of the anchor view area
+     * @param out rect to set to the output values
+     */
+    getDesiredAnchoredChildRect(child:View, layoutDirection:number, anchorRect:Rect, out:Rect):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        const absGravity:number = Gravity.getAbsoluteGravity(CoordinatorLayout.resolveAnchoredChildGravity(lp.gravity), layoutDirection);
+        const absAnchorGravity:number = Gravity.getAbsoluteGravity(CoordinatorLayout.resolveGravity(lp.anchorGravity), layoutDirection);
+        const hgrav:number = absGravity & Gravity.HORIZONTAL_GRAVITY_MASK;
+        const vgrav:number = absGravity & Gravity.VERTICAL_GRAVITY_MASK;
+        const anchorHgrav:number = absAnchorGravity & Gravity.HORIZONTAL_GRAVITY_MASK;
+        const anchorVgrav:number = absAnchorGravity & Gravity.VERTICAL_GRAVITY_MASK;
+        const childWidth:number = child.getMeasuredWidth();
+        const childHeight:number = child.getMeasuredHeight();
+        let left:number;
+        let top:number;
+        // Align to the anchor. This puts us in an assumed right/bottom child view gravity.
+        // If this is not the case we will subtract out the appropriate portion of
+        // the child size below.
+        switch (anchorHgrav) {
+            default:
+            case Gravity.LEFT:
+                left = anchorRect.left;
+                break;
+            case Gravity.RIGHT:
+                left = anchorRect.right;
+                break;
+            case Gravity.CENTER_HORIZONTAL:
+                left = anchorRect.left + Math.floor(anchorRect.width() / 2);
+                break;
+        }
+        switch (anchorVgrav) {
+            default:
+            case Gravity.TOP:
+                top = anchorRect.top;
+                break;
+            case Gravity.BOTTOM:
+                top = anchorRect.bottom;
+                break;
+            case Gravity.CENTER_VERTICAL:
+                top = anchorRect.top + Math.floor(anchorRect.height() / 2);
+                break;
+        }
+        // Offset by the child view's gravity itself. The above assumed right/bottom gravity.
+        switch (hgrav) {
+            default:
+            case Gravity.LEFT:
+                left -= childWidth;
+                break;
+            case Gravity.RIGHT:
+                // Do nothing, we're already in position.
+                break;
+            case Gravity.CENTER_HORIZONTAL:
+                left -= Math.floor(childWidth / 2);
+                break;
+        }
+        switch (vgrav) {
+            default:
+            case Gravity.TOP:
+                top -= childHeight;
+                break;
+            case Gravity.BOTTOM:
+                // Do nothing, we're already in position.
+                break;
+            case Gravity.CENTER_VERTICAL:
+                top -= Math.floor(childHeight / 2);
+                break;
+        }
+        const width:number = this.getWidth();
+        const height:number = this.getHeight();
+        // Obey margins and padding
+        left = Math.max(this.getPaddingLeft() + lp.leftMargin,
+            Math.min(left, width - this.getPaddingRight() - childWidth - lp.rightMargin));
+        top = Math.max(this.getPaddingTop() + lp.topMargin,
+            Math.min(top, height - this.getPaddingBottom() - childHeight - lp.bottomMargin));
+        out.set(left, top, left + childWidth, top + childHeight);
+    }
+
+    /**
+     * CORE ASSUMPTION: anchor has been laid out by the time this is called for a given child view.
+     *
+     * @param child child to lay out
+     * @param anchor view to anchor child relative to; already laid out.
+     * @param layoutDirection ViewCompat constant for layout direction
+     */
+    private layoutChildWithAnchor(child:View, anchor:View, layoutDirection:number):void {
+        const anchorRect:Rect = this.mTempRect1;
+        const childRect:Rect = this.mTempRect2;
+        this.getDescendantRect(anchor, anchorRect);
+        this.getDesiredAnchoredChildRect(child, layoutDirection, anchorRect, childRect);
+        child.layout(childRect.left, childRect.top, childRect.right, childRect.bottom);
+    }
+
+    /**
+     * Lay out a child view with respect to a keyline.
+     *
+     * <p>The keyline represents a horizontal offset from the unpadded starting edge of
+     * the CoordinatorLayout. The child's gravity will affect how it is positioned with
+     * respect to the keyline.</p>
+     *
+     * @param child child to lay out
+     * @param keyline offset from the starting edge in pixels of the keyline to align with
+     * @param layoutDirection ViewCompat constant for layout direction
+     */
+    private layoutChildWithKeyline(child:View, keyline:number, layoutDirection:number):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        const absGravity:number = Gravity.getAbsoluteGravity(CoordinatorLayout.resolveKeylineGravity(lp.gravity), layoutDirection);
+        const hgrav:number = absGravity & Gravity.HORIZONTAL_GRAVITY_MASK;
+        const vgrav:number = absGravity & Gravity.VERTICAL_GRAVITY_MASK;
+        const width:number = this.getWidth();
+        const height:number = this.getHeight();
+        const childWidth:number = child.getMeasuredWidth();
+        const childHeight:number = child.getMeasuredHeight();
+        let keylinePos:number = this.getKeyline(keyline);
+        if (layoutDirection == View.LAYOUT_DIRECTION_RTL) {
+            keylinePos = width - keylinePos;
+        }
+        let left:number = keylinePos - childWidth;
+        let top:number = 0;
+        switch (hgrav) {
+            default:
+            case Gravity.LEFT:
+                // Nothing to do.
+                break;
+            case Gravity.RIGHT:
+                left += childWidth;
+                break;
+            case Gravity.CENTER_HORIZONTAL:
+                left += Math.floor(childWidth / 2);
+                break;
+        }
+        switch (vgrav) {
+            default:
+            case Gravity.TOP:
+                // Do nothing, we're already in position.
+                break;
+            case Gravity.BOTTOM:
+                top += childHeight;
+                break;
+            case Gravity.CENTER_VERTICAL:
+                top += Math.floor(childHeight / 2);
+                break;
+        }
+        // Obey margins and padding
+        left = Math.max(this.getPaddingLeft() + lp.leftMargin,
+            Math.min(left, width - this.getPaddingRight() - childWidth - lp.rightMargin));
+        top = Math.max(this.getPaddingTop() + lp.topMargin,
+            Math.min(top, height - this.getPaddingBottom() - childHeight - lp.bottomMargin));
+        child.layout(left, top, left + childWidth, top + childHeight);
+    }
+
+    /**
+     * Lay out a child view with no special handling. This will position the child as
+     * if it were within a FrameLayout or similar simple frame.
+     *
+     * @param child child view to lay out
+     * @param layoutDirection ViewCompat constant for the desired layout direction
+     */
+    private layoutChild(child:View, layoutDirection:number):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        const parent:Rect = this.mTempRect1;
+        parent.set(this.getPaddingLeft() + lp.leftMargin, this.getPaddingTop() + lp.topMargin,
+            this.getWidth() - this.getPaddingRight() - lp.rightMargin,
+            this.getHeight() - this.getPaddingBottom() - lp.bottomMargin);
+        const out:Rect = this.mTempRect2;
+        Gravity.apply(CoordinatorLayout.resolveGravity(lp.gravity), child.getMeasuredWidth(), child.getMeasuredHeight(),
+            parent, out, layoutDirection);
+        child.layout(out.left, out.top, out.right, out.bottom);
+    }
+
+    /**
+     * Return the given gravity value or the default if the passed value is NO_GRAVITY.
+     * This should be used for children that are not anchored to another view or a keyline.
+     */
+    private static resolveGravity(gravity:number):number {
+        return gravity == Gravity.NO_GRAVITY ? Gravity.START | Gravity.TOP : gravity;
+    }
+
+    /**
+     * Return the given gravity value or the default if the passed value is NO_GRAVITY.
+     * This should be used for children that are positioned relative to a keyline.
+     */
+    private static resolveKeylineGravity(gravity:number):number {
+        return gravity == Gravity.NO_GRAVITY ? Gravity.END | Gravity.TOP : gravity;
+    }
+
+    /**
+     * Return the given gravity value or the default if the passed value is NO_GRAVITY.
+     * This should be used for children that are anchored to another view.
+     */
+    private static resolveAnchoredChildGravity(gravity:number):number {
+        return gravity == Gravity.NO_GRAVITY ? Gravity.CENTER : gravity;
+    }
+
+    protected drawChild(canvas:Canvas, child:View, drawingTime:number):boolean {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        if (lp.mBehavior != null && lp.mBehavior.getScrimOpacity(this, child) > 0) {
+            if (this.mScrimPaint == null) {
+                this.mScrimPaint = new Paint();
+            }
+            this.mScrimPaint.setColor(lp.mBehavior.getScrimColor(this, child));
+            // TODO: Set the clip appropriately to avoid unnecessary overdraw.
+            canvas.drawRect(this.getPaddingLeft(), this.getPaddingTop(), this.getWidth() - this.getPaddingRight(),
+                this.getHeight() - this.getPaddingBottom(), this.mScrimPaint);
+        }
+        return super.drawChild(canvas, child, drawingTime);
+    }
+
+    /**
+     * Dispatch any dependent view changes to the relevant {@link Behavior} instances.
+     *
+     * Usually run as part of the pre-draw step when at least one child view has a reported
+     * dependency on another view. This allows CoordinatorLayout to account for layout
+     * changes and animations that occur outside of the normal layout pass.
+     *
+     * It can also be ran as part of the nested scrolling dispatch to ensure that any offsetting
+     * is completed within the correct coordinate window.
+     *
+     * The offsetting behavior implemented here does not store the computed offset in
+     * the LayoutParams; instead it expects that the layout process will always reconstruct
+     * the proper positioning.
+     *
+     * @param fromNestedScroll true if this is being called from one of the nested scroll methods,
+     *                         false if run as part of the pre-draw step.
+     */
+    dispatchOnDependentViewChanged(fromNestedScroll:boolean):void {
+        const layoutDirection:number = this.getLayoutDirection();
+        const childCount:number = this.mDependencySortedChildren.size();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.mDependencySortedChildren.get(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+            // Check child views before for anchor
+            for (let j:number = 0; j < i; j++) {
+                const checkChild:View = this.mDependencySortedChildren.get(j);
+                if (lp.mAnchorDirectChild == checkChild) {
+                    this.offsetChildToAnchor(child, layoutDirection);
+                }
+            }
+            // Did it change? if not continue
+            const oldRect:Rect = this.mTempRect1;
+            const newRect:Rect = this.mTempRect2;
+            this.getLastChildRect(child, oldRect);
+            this.getChildRect(child, true, newRect);
+            if (oldRect.equals(newRect)) {
+                continue;
+            }
+            this.recordLastChildRect(child, newRect);
+            // Update any behavior-dependent views for the change
+            for (let j:number = i + 1; j < childCount; j++) {
+                const checkChild:View = this.mDependencySortedChildren.get(j);
+                const checkLp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> checkChild.getLayoutParams();
+                const b:CoordinatorLayout.Behavior<any> = checkLp.getBehavior();
+                if (b != null && b.layoutDependsOn(this, checkChild, child)) {
+                    if (!fromNestedScroll && checkLp.getChangedAfterNestedScroll()) {
+                        // If this is not from a nested scroll and we have already been changed
+                        // from a nested scroll, skip the dispatch and reset the flag
+                        checkLp.resetChangedAfterNestedScroll();
+                        continue;
+                    }
+                    const handled:boolean = b.onDependentViewChanged(this, checkChild, child);
+                    if (fromNestedScroll) {
+                        // If this is from a nested scroll, set the flag so that we may skip
+                        // any resulting onPreDraw dispatch (if needed)
+                        checkLp.setChangedAfterNestedScroll(handled);
+                    }
+                }
+            }
+        }
+    }
+
+    dispatchDependentViewRemoved(view:View):void {
+        const childCount:number = this.mDependencySortedChildren.size();
+        let viewSeen:boolean = false;
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.mDependencySortedChildren.get(i);
+            if (child == view) {
+                // We've seen our view, which means that any Views after this could be dependent
+                viewSeen = true;
+                continue;
+            }
+            if (viewSeen) {
+                const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+                const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+                if (b != null && lp.dependsOn(this, child, view)) {
+                    b.onDependentViewRemoved(this, child, view);
+                }
+            }
+        }
+    }
+
+    /**
+     * Allows the caller to manually dispatch
+     * {@link Behavior#onDependentViewChanged(CoordinatorLayout, View, View)} to the associated
+     * {@link Behavior} instances of views which depend on the provided {@link View}.
+     *
+     * <p>You should not normally need to call this method as the it will be automatically done
+     * when the view has changed.
+     *
+     * @param view the View to find dependents of to dispatch the call.
+     */
+    dispatchDependentViewsChanged(view:View):void {
+        const childCount:number = this.mDependencySortedChildren.size();
+        let viewSeen:boolean = false;
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.mDependencySortedChildren.get(i);
+            if (child == view) {
+                // We've seen our view, which means that any Views after this could be dependent
+                viewSeen = true;
+                continue;
+            }
+            if (viewSeen) {
+                const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+                const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+                if (b != null && lp.dependsOn(this, child, view)) {
+                    b.onDependentViewChanged(this, child, view);
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the list of views which the provided view depends on. Do not store this list as it's
+     * contents may not be valid beyond the caller.
+     *
+     * @param child the view to find dependencies for.
+     *
+     * @return the list of views which {@code child} depends on.
+     */
+    getDependencies(child:View):List<View> {
+        // TODO The result of this is probably a good candidate for caching.
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        const list:ArrayList<View> = this.mTempDependenciesList;
+        list.clear();
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const other:View = this.getChildAt(i);
+            if (other == child) {
+                continue;
+            }
+            if (lp.dependsOn(this, child, other)) {
+                list.add(other);
+            }
+        }
+        return list;
+    }
+
+    /**
+     * Add or remove the pre-draw listener as necessary.
+     */
+    ensurePreDrawListener():void {
+        let hasDependencies:boolean = false;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const child:View = this.getChildAt(i);
+            if (this.hasDependencies(child)) {
+                hasDependencies = true;
+                break;
+            }
+        }
+        if (hasDependencies != this.mNeedsPreDrawListener) {
+            if (hasDependencies) {
+                this.addPreDrawListener();
+            } else {
+                this.removePreDrawListener();
+            }
+        }
+    }
+
+    /**
+     * Check if the given child has any layout dependencies on other child views.
+     */
+    hasDependencies(child:View):boolean {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        if (lp.mAnchorView != null) {
+            return true;
+        }
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const other:View = this.getChildAt(i);
+            if (other == child) {
+                continue;
+            }
+            if (lp.dependsOn(this, child, other)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Add the pre-draw listener if we're attached to a window and mark that we currently
+     * need it when attached.
+     */
+    addPreDrawListener():void {
+        if (this.mIsAttachedToWindow) {
+            // Add the listener
+            if (this.mOnPreDrawListener == null) {
+                this.mOnPreDrawListener = new CoordinatorLayout.OnPreDrawListener(this);
+            }
+            const vto:ViewTreeObserver = this.getViewTreeObserver();
+            vto.addOnPreDrawListener(this.mOnPreDrawListener);
+        }
+        // Record that we need the listener regardless of whether or not we're attached.
+        // We'll add the real listener when we become attached.
+        this.mNeedsPreDrawListener = true;
+    }
+
+    /**
+     * Remove the pre-draw listener if we're attached to a window and mark that we currently
+     * do not need it when attached.
+     */
+    removePreDrawListener():void {
+        if (this.mIsAttachedToWindow) {
+            if (this.mOnPreDrawListener != null) {
+                const vto:ViewTreeObserver = this.getViewTreeObserver();
+                vto.removeOnPreDrawListener(this.mOnPreDrawListener);
+            }
+        }
+        this.mNeedsPreDrawListener = false;
+    }
+
+    /**
+     * Adjust the child left, top, right, bottom rect to the correct anchor view position,
+     * respecting gravity and anchor gravity.
+     *
+     * Note that child translation properties are ignored in this process, allowing children
+     * to be animated away from their anchor. However, if the anchor view is animated,
+     * the child will be offset to match the anchor's translated position.
+     */
+    offsetChildToAnchor(child:View, layoutDirection:number):void {
+        const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> child.getLayoutParams();
+        if (lp.mAnchorView != null) {
+            const anchorRect:Rect = this.mTempRect1;
+            const childRect:Rect = this.mTempRect2;
+            const desiredChildRect:Rect = this.mTempRect3;
+            this.getDescendantRect(lp.mAnchorView, anchorRect);
+            this.getChildRect(child, false, childRect);
+            this.getDesiredAnchoredChildRect(child, layoutDirection, anchorRect, desiredChildRect);
+            const dx:number = desiredChildRect.left - childRect.left;
+            const dy:number = desiredChildRect.top - childRect.top;
+            if (dx != 0) {
+                child.offsetLeftAndRight(dx);
+            }
+            if (dy != 0) {
+                child.offsetTopAndBottom(dy);
+            }
+            if (dx != 0 || dy != 0) {
+                // If we have needed to move, make sure to notify the child's Behavior
+                const b:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+                if (b != null) {
+                    b.onDependentViewChanged(this, child, lp.mAnchorView);
+                }
+            }
+        }
+    }
+
+    /**
+     * Check if a given point in the CoordinatorLayout's coordinates are within the view bounds
+     * of the given direct child view.
+     *
+     * @param child child view to test
+     * @param x X coordinate to test, in the CoordinatorLayout's coordinate system
+     * @param y Y coordinate to test, in the CoordinatorLayout's coordinate system
+     * @return true if the point is within the child view's bounds, false otherwise
+     */
+    isPointInChildBounds(child:View, x:number, y:number):boolean {
+        const r:Rect = this.mTempRect1;
+        this.getDescendantRect(child, r);
+        return r.contains(x, y);
+    }
+
+    /**
+     * Check whether two views overlap each other. The views need to be descendants of this
+     * {@link CoordinatorLayout} in the view hierarchy.
+     *
+     * @param first first child view to test
+     * @param second second child view to test
+     * @return true if both views are visible and overlap each other
+     */
+    doViewsOverlap(first:View, second:View):boolean {
+        if (first.getVisibility() == View.VISIBLE && second.getVisibility() == View.VISIBLE) {
+            const firstRect:Rect = this.mTempRect1;
+            this.getChildRect(first, first.getParent() != this, firstRect);
+            const secondRect:Rect = this.mTempRect2;
+            this.getChildRect(second, second.getParent() != this, secondRect);
+            return !(firstRect.left > secondRect.right || firstRect.top > secondRect.bottom
+                || firstRect.right < secondRect.left || firstRect.bottom < secondRect.top);
+        }
+        return false;
+    }
+
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):ViewGroup.LayoutParams {
+        if (p instanceof CoordinatorLayout.LayoutParams) {
+            return new CoordinatorLayout.LayoutParams(<CoordinatorLayout.LayoutParams> p);
+        } else if (p instanceof ViewGroup.MarginLayoutParams) {
+            return new CoordinatorLayout.LayoutParams(<ViewGroup.MarginLayoutParams> p);
+        }
+        return new CoordinatorLayout.LayoutParams(p);
+    }
+
+    protected generateDefaultLayoutParams():ViewGroup.LayoutParams {
+        return new CoordinatorLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean {
+        return p instanceof CoordinatorLayout.LayoutParams && super.checkLayoutParams(p);
+    }
+
+    onStartNestedScroll(child:View, target:View, nestedScrollAxes:number):boolean {
+        let handled:boolean = false;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                const accepted:boolean = viewBehavior.onStartNestedScroll(this, view, child, target, nestedScrollAxes);
+                handled = handled || accepted;
+                lp.acceptNestedScroll(accepted);
+            } else {
+                lp.acceptNestedScroll(false);
+            }
+        }
+        return handled;
+    }
+
+    onNestedScrollAccepted(child:View, target:View, nestedScrollAxes:number):void {
+        this.mNestedScrollAxes_ = nestedScrollAxes;
+        this.mNestedScrollingDirectChild = child;
+        this.mNestedScrollingTarget = target;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                viewBehavior.onNestedScrollAccepted(this, view, child, target, nestedScrollAxes);
+            }
+        }
+    }
+
+    onStopNestedScroll(target:View):void {
+        this.mNestedScrollAxes_ = 0;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                viewBehavior.onStopNestedScroll(this, view, target);
+            }
+            lp.resetNestedScroll();
+            lp.resetChangedAfterNestedScroll();
+        }
+        this.mNestedScrollingDirectChild = null;
+        this.mNestedScrollingTarget = null;
+    }
+
+    onNestedScroll(target:View, dxConsumed:number, dyConsumed:number, dxUnconsumed:number, dyUnconsumed:number):void {
+        const childCount:number = this.getChildCount();
+        let accepted:boolean = false;
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                viewBehavior.onNestedScroll(this, view, target, dxConsumed, dyConsumed, dxUnconsumed, dyUnconsumed);
+                accepted = true;
+            }
+        }
+        if (accepted) {
+            this.dispatchOnDependentViewChanged(true);
+        }
+    }
+
+    onNestedPreScroll(target:View, dx:number, dy:number, consumed:number[]):void {
+        let xConsumed:number = 0;
+        let yConsumed:number = 0;
+        let accepted:boolean = false;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                this.mTempIntPair[0] = this.mTempIntPair[1] = 0;
+                viewBehavior.onNestedPreScroll(this, view, target, dx, dy, this.mTempIntPair);
+                xConsumed = dx > 0 ? Math.max(xConsumed, this.mTempIntPair[0]) : Math.min(xConsumed, this.mTempIntPair[0]);
+                yConsumed = dy > 0 ? Math.max(yConsumed, this.mTempIntPair[1]) : Math.min(yConsumed, this.mTempIntPair[1]);
+                accepted = true;
+            }
+        }
+        consumed[0] = xConsumed;
+        consumed[1] = yConsumed;
+        if (accepted) {
+            this.dispatchOnDependentViewChanged(true);
+        }
+    }
+
+    onNestedFling(target:View, velocityX:number, velocityY:number, consumed:boolean):boolean {
+        let handled:boolean = false;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                handled = viewBehavior.onNestedFling(this, view, target, velocityX, velocityY, consumed) || handled;
+            }
+        }
+        if (handled) {
+            this.dispatchOnDependentViewChanged(true);
+        }
+        return handled;
+    }
+
+    onNestedPreFling(target:View, velocityX:number, velocityY:number):boolean {
+        let handled:boolean = false;
+        const childCount:number = this.getChildCount();
+        for (let i:number = 0; i < childCount; i++) {
+            const view:View = this.getChildAt(i);
+            const lp:CoordinatorLayout.LayoutParams = <CoordinatorLayout.LayoutParams> view.getLayoutParams();
+            if (!lp.isNestedScrollAccepted()) {
+                continue;
+            }
+            const viewBehavior:CoordinatorLayout.Behavior<any> = lp.getBehavior();
+            if (viewBehavior != null) {
+                handled = viewBehavior.onNestedPreFling(this, view, target, velocityX, velocityY) || handled;
+            }
+        }
+        return handled;
+    }
+
+    getNestedScrollAxes():number {
+        return this.mNestedScrollAxes_;
+    }
+
+    /**
+     * Sort the list of views with a comparator that is not a total order
+     * (views without a dependency between them compare as equal), so a plain
+     * array sort could produce a wrong dependency order.
+     */
+    private static selectionSort(list:ArrayList<View>, comparator:(lhs:View, rhs:View)=>number):void {
+        if (list == null || list.size() < 2) {
+            return;
+        }
+        const array:View[] = list.toArray();
+        const count:number = array.length;
+        for (let i:number = 0; i < count; i++) {
+            let min:number = i;
+            for (let j:number = i + 1; j < count; j++) {
+                if (comparator(array[j], array[min]) < 0) {
+                    min = j;
+                }
+            }
+            if (i != min) {
+                // We have a different min so swap the items
+                const minItem:View = array[min];
+                array[min] = array[i];
+                array[i] = minItem;
+            }
+        }
+        // Finally add the array back into the collection
+        list.clear();
+        for (let i:number = 0; i < count; i++) {
+            list.add(array[i]);
+        }
+    }
+}
+
+export module CoordinatorLayout{
+export class OnPreDrawListener implements ViewTreeObserver.OnPreDrawListener {
+    _CoordinatorLayout_this:CoordinatorLayout;
+    constructor(arg:CoordinatorLayout){
+        this._CoordinatorLayout_this = arg;
+    }
+
+    onPreDraw():boolean {
+        this._CoordinatorLayout_this.dispatchOnDependentViewChanged(false);
+        return true;
+    }
+}
+
+/**
+ * A view that has a default {@link Behavior} when used as a direct child of a
+ * CoordinatorLayout. The returned behavior is only used when no behavior was
+ * set for the child explicitly.
+ */
+export interface AttachedBehavior {
+    /**
+     * Returns the behavior associated with the matching {@link View} class.
+     *
+     * @return The behavior associated with the matching {@link View} class. Must be
+     * non-null.
+     */
+    getBehavior():Behavior<any>;
+}
+export module AttachedBehavior{
+    export function isImpl(obj):boolean{
+        return obj && obj['getBehavior'];
+    }
+}
+
+/**
+ * Interaction behavior plugin for child views of {@link CoordinatorLayout}.
+ *
+ * <p>A Behavior implements one or more interactions that a user can take on a child view.
+ * These interactions may include drags, swipes, flings, or any other gestures.</p>
+ *
+ * @param <V> The View type that this Behavior operates on
+ */
+export class Behavior<V extends View> {
+
+    /**
+     * Default constructor for instantiating Behaviors.
+     */
+    constructor() {
+    }
+
+    /**
+     * Respond to CoordinatorLayout touch events before they are dispatched to child views.
+     *
+     * <p>Behaviors can use this to monitor inbound touch events until one decides to
+     * intercept the rest of the event stream to take an action on its associated child view.
+     * This method will return false until it detects the proper intercept conditions, then
+     * return true once those conditions have occurred.</p>
+     *
+     * <p>Once a Behavior intercepts touch events, the rest of the event stream will
+     * be sent to the {@link #onTouchEvent} method.</p>
+     *
+     * <p>The default implementation of this method always returns false.</p>
+     *
+     * @param parent the parent view currently receiving this touch event
+     * @param child the child view associated with this Behavior
+     * @param ev the MotionEvent describing the touch event being processed
+     * @return true if this Behavior would like to intercept and take over the event stream.
+     *         The default always returns false.
+     */
+    onInterceptTouchEvent(parent:CoordinatorLayout, child:V, ev:MotionEvent):boolean {
+        return false;
+    }
+
+    /**
+     * Respond to CoordinatorLayout touch events after this Behavior has started
+     * {@link #onInterceptTouchEvent intercepting} them.
+     *
+     * <p>Behaviors may intercept touch events in order to help the CoordinatorLayout
+     * manipulate its child views. For example, a Behavior may allow a user to drag a
+     * UI pane open or closed. This method should perform actual mutations of view
+     * layout state.</p>
+     *
+     * @param parent the parent view currently receiving this touch event
+     * @param child the child view associated with this Behavior
+     * @param ev the MotionEvent describing the touch event being processed
+     * @return true if this Behavior handled this touch event and would like to continue
+     *         receiving events in this stream. The default always returns false.
+     */
+    onTouchEvent(parent:CoordinatorLayout, child:V, ev:MotionEvent):boolean {
+        return false;
+    }
+
+    /**
+     * Supply a scrim color that will be painted behind the associated child view.
+     *
+     * <p>A scrim may be used to indicate that the other elements beneath it are not currently
+     * interactive or actionable, drawing user focus and attention to the views above the scrim.</p>
+     *
+     * <p>The default implementation returns {@link Color#BLACK}.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view above the scrim
+     * @return the desired scrim color in 0xAARRGGBB format. The default return value is
+     *         {@link Color#BLACK}.
+     * @see #getScrimOpacity(CoordinatorLayout, android.view.View)
+     */
+    getScrimColor(parent:CoordinatorLayout, child:V):number {
+        return Color.BLACK;
+    }
+
+    /**
+     * Determine the current opacity of the scrim behind a given child view
+     *
+     * <p>A scrim may be used to indicate that the other elements beneath it are not currently
+     * interactive or actionable, drawing user focus and attention to the views above the scrim.</p>
+     *
+     * <p>The default implementation returns 0.0f.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view above the scrim
+     * @return the desired scrim opacity from 0.0f to 1.0f. The default return value is 0.0f.
+     */
+    getScrimOpacity(parent:CoordinatorLayout, child:V):number {
+        return 0;
+    }
+
+    /**
+     * Determine whether interaction with views behind the given child in the child order
+     * should be blocked.
+     *
+     * <p>The default implementation returns true if
+     * {@link #getScrimOpacity(CoordinatorLayout, android.view.View)} would return > 0.0f.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view to test
+     * @return true if {@link #getScrimOpacity(CoordinatorLayout, android.view.View)} would
+     *         return > 0.0f.
+     */
+    blocksInteractionBelow(parent:CoordinatorLayout, child:V):boolean {
+        return this.getScrimOpacity(parent, child) > 0;
+    }
+
+    /**
+     * Determine whether the supplied child view has another specific sibling view as a
+     * layout dependency.
+     *
+     * <p>This method will be called at least once in response to a layout request. If it
+     * returns true for a given child and dependency view pair, the parent CoordinatorLayout
+     * will:</p>
+     * <ol>
+     *     <li>Always lay out this child after the dependent child is laid out, regardless
+     *     of child order.</li>
+     *     <li>Call {@link #onDependentViewChanged} when the dependency view's layout or
+     *     position changes.</li>
+     * </ol>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view to test
+     * @param dependency the proposed dependency of child
+     * @return true if child's layout depends on the proposed dependency's layout,
+     *         false otherwise
+     *
+     * @see #onDependentViewChanged(CoordinatorLayout, android.view.View, android.view.View)
+     */
+    layoutDependsOn(parent:CoordinatorLayout, child:V, dependency:View):boolean {
+        return false;
+    }
+
+    /**
+     * Respond to a change in a child's dependent view
+     *
+     * <p>This method is called whenever a dependent view changes in size or position outside
+     * of the standard layout flow. A Behavior may use this method to appropriately update
+     * the child view in response.</p>
+     *
+     * <p>A view's dependency is determined by
+     * {@link #layoutDependsOn(CoordinatorLayout, android.view.View, android.view.View)} or
+     * if {@code child} has set another view as it's anchor.</p>
+     *
+     * <p>Note that if a Behavior changes the layout of a child via this method, it should
+     * also be able to reconstruct the correct position in
+     * {@link #onLayoutChild(CoordinatorLayout, android.view.View, int) onLayoutChild}.
+     * <code>onDependentViewChanged</code> will not be called during normal layout since
+     * the layout of each child view will always happen in dependency order.</p>
+     *
+     * <p>If the Behavior changes the child view's size or position, it should return true.
+     * The default implementation returns false.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view to manipulate
+     * @param dependency the dependent view that changed
+     * @return true if the Behavior changed the child view's size or position, false otherwise
+     */
+    onDependentViewChanged(parent:CoordinatorLayout, child:V, dependency:View):boolean {
+        return false;
+    }
+
+    /**
+     * Respond to a child's dependent view being removed.
+     *
+     * <p>This method is called after a dependent view has been removed from the parent.
+     * A Behavior may use this method to appropriately update the child view in response.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view to manipulate
+     * @param dependency the dependent view that has been removed
+     */
+    onDependentViewRemoved(parent:CoordinatorLayout, child:V, dependency:View):void {
+    }
+
+    /**
+     * Determine whether the given child view should be considered dirty.
+     *
+     * <p>If a property determined by the Behavior such as other dependent views would change,
+     * the Behavior should report a child view as dirty. This will prompt the CoordinatorLayout
+     * to re-query Behavior-determined properties as appropriate.</p>
+     *
+     * @param parent the parent view of the given child
+     * @param child the child view to check
+     * @return true if child is dirty
+     */
+    isDirty(parent:CoordinatorLayout, child:V):boolean {
+        return false;
+    }
+
+    /**
+     * Called when the parent CoordinatorLayout is about to measure the given child view.
+     *
+     * <p>This method can be used to perform custom or modified measurement of a child view
+     * in place of the default child measurement behavior. The Behavior's implementation
+     * can delegate to the standard CoordinatorLayout measurement behavior by calling
+     * {@link CoordinatorLayout#onMeasureChild(android.view.View, int, int, int, int)
+     * parent.onMeasureChild}.</p>
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param child the child to measure
+     * @param parentWidthMeasureSpec the width requirements for this view
+     * @param widthUsed extra space that has been used up by the parent
+     *        horizontally (possibly by other children of the parent)
+     * @param parentHeightMeasureSpec the height requirements for this view
+     * @param heightUsed extra space that has been used up by the parent
+     *        vertically (possibly by other children of the parent)
+     * @return true if the Behavior measured the child view, false if the CoordinatorLayout
+     *         should perform its default measurement
+     */
+    onMeasureChild(parent:CoordinatorLayout, child:V, parentWidthMeasureSpec:number, widthUsed:number,
+                   parentHeightMeasureSpec:number, heightUsed:number):boolean {
+        return false;
+    }
+
+    /**
+     * Called when the parent CoordinatorLayout is about the lay out the given child view.
+     *
+     * <p>This method can be used to perform custom or modified layout of a child view
+     * in place of the default child layout behavior. The Behavior's implementation can
+     * delegate to the standard CoordinatorLayout measurement behavior by calling
+     * {@link CoordinatorLayout#onLayoutChild(android.view.View, int)
+     * parent.onLayoutChild}.</p>
+     *
+     * <p>If a Behavior implements
+     * {@link #onDependentViewChanged(CoordinatorLayout, android.view.View, android.view.View)}
+     * to change the position of a view in response to a dependent view changing, it
+     * should also implement <code>onLayoutChild</code> in such a way that respects those
+     * dependent views. <code>onLayoutChild</code> will always be called for a dependent view
+     * <em>after</em> its dependency has been laid out.</p>
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param child child view to lay out
+     * @param layoutDirection the resolved layout direction for the CoordinatorLayout, such as
+     *                        {@link View#LAYOUT_DIRECTION_LTR} or
+     *                        {@link View#LAYOUT_DIRECTION_RTL}.
+     * @return true if the Behavior performed layout of the child view, false to request
+     *         default layout behavior
+     */
+    onLayoutChild(parent:CoordinatorLayout, child:V, layoutDirection:number):boolean {
+        return false;
+    }
+
+    /**
+     * Called when a descendant of the CoordinatorLayout attempts to initiate a nested scroll.
+     *
+     * <p>Any Behavior associated with any direct child of the CoordinatorLayout may respond
+     * to this event and return true to indicate that the CoordinatorLayout should act as
+     * a nested scrolling parent for this scroll. Only Behaviors that return true from
+     * this method will receive subsequent nested scroll events.</p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param directTargetChild the child view of the CoordinatorLayout that either is or
+     *                          contains the target of the nested scroll operation
+     * @param target the descendant view of the CoordinatorLayout initiating the nested scroll
+     * @param nestedScrollAxes the axes that this nested scroll applies to. See
+     *                         {@link View#SCROLL_AXIS_HORIZONTAL},
+     *                         {@link View#SCROLL_AXIS_VERTICAL}
+     * @return true if the Behavior wishes to accept this nested scroll
+     *
+     * @see ViewParent#onStartNestedScroll(View, View, int)
+     */
+    onStartNestedScroll(coordinatorLayout:CoordinatorLayout, child:V, directTargetChild:View, target:View,
+                        nestedScrollAxes:number):boolean {
+        return false;
+    }
+
+    /**
+     * Called when a nested scroll has been accepted by the CoordinatorLayout.
+     *
+     * <p>Any Behavior associated with any direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param directTargetChild the child view of the CoordinatorLayout that either is or
+     *                          contains the target of the nested scroll operation
+     * @param target the descendant view of the CoordinatorLayout initiating the nested scroll
+     * @param nestedScrollAxes the axes that this nested scroll applies to. See
+     *                         {@link View#SCROLL_AXIS_HORIZONTAL},
+     *                         {@link View#SCROLL_AXIS_VERTICAL}
+     *
+     * @see ViewParent#onNestedScrollAccepted(View, View, int)
+     */
+    onNestedScrollAccepted(coordinatorLayout:CoordinatorLayout, child:V, directTargetChild:View, target:View,
+                           nestedScrollAxes:number):void {
+        // Do nothing
+    }
+
+    /**
+     * Called when a nested scroll has ended.
+     *
+     * <p>Any Behavior associated with any direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * <p><code>onStopNestedScroll</code> marks the end of a single nested scroll event
+     * sequence. This method should be used to perform any cleanup of the nested scroll
+     * state.</p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param target the descendant view of the CoordinatorLayout that initiated
+     *               the nested scroll
+     *
+     * @see ViewParent#onStopNestedScroll(View)
+     */
+    onStopNestedScroll(coordinatorLayout:CoordinatorLayout, child:V, target:View):void {
+        // Do nothing
+    }
+
+    /**
+     * Called when a nested scroll in progress has updated and the target has scrolled or
+     * attempted to scroll.
+     *
+     * <p>Any Behavior associated with the direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * <p><code>onNestedScroll</code> is called each time the nested scroll is updated by the
+     * nested scrolling child, with both consumed and unconsumed components of the scroll
+     * supplied in pixels. <em>Each Behavior responding to the nested scroll will receive the
+     * same values.</em>
+     * </p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param target the descendant view of the CoordinatorLayout performing the nested scroll
+     * @param dxConsumed horizontal pixels consumed by the target's own scrolling operation
+     * @param dyConsumed vertical pixels consumed by the target's own scrolling operation
+     * @param dxUnconsumed horizontal pixels not consumed by the target's own scrolling
+     *                     operation, but requested by the user
+     * @param dyUnconsumed vertical pixels not consumed by the target's own scrolling operation,
+     *                     but requested by the user
+     *
+     * @see ViewParent#onNestedScroll(View, int, int, int, int)
+     */
+    onNestedScroll(coordinatorLayout:CoordinatorLayout, child:V, target:View, dxConsumed:number, dyConsumed:number,
+                   dxUnconsumed:number, dyUnconsumed:number):void {
+        // Do nothing
+    }
+
+    /**
+     * Called when a nested scroll in progress is about to update, before the target has
+     * consumed any of the scrolled distance.
+     *
+     * <p>Any Behavior associated with the direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * <p><code>onNestedPreScroll</code> is called each time the nested scroll is updated
+     * by the nested scrolling child, before the nested scrolling child has consumed the scroll
+     * distance itself. <em>Each Behavior responding to the nested scroll will receive the
+     * same values.</em> The CoordinatorLayout will report as consumed the maximum number
+     * of pixels in either direction that any Behavior responding to the nested scroll reported
+     * as consumed.</p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param target the descendant view of the CoordinatorLayout performing the nested scroll
+     * @param dx the raw horizontal number of pixels that the user attempted to scroll
+     * @param dy the raw vertical number of pixels that the user attempted to scroll
+     * @param consumed out parameter. consumed[0] should be set to the distance of dx that
+     *                 was consumed, consumed[1] should be set to the distance of dy that
+     *                 was consumed
+     *
+     * @see ViewParent#onNestedPreScroll(View, int, int, int[])
+     */
+    onNestedPreScroll(coordinatorLayout:CoordinatorLayout, child:V, target:View, dx:number, dy:number,
+                      consumed:number[]):void {
+        // Do nothing
+    }
+
+    /**
+     * Called when a nested scrolling child is starting a fling or an action that would
+     * be a fling.
+     *
+     * <p>Any Behavior associated with the direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * <p><code>onNestedFling</code> is called when the current nested scrolling child view
+     * detects the proper conditions for a fling. It reports if the child itself consumed
+     * the fling. If it did not, the child is expected to show some sort of overscroll
+     * indication. This method should return true if it consumes the fling, so that a child
+     * that did not itself take an action in response can choose not to show an overfling
+     * indication.</p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param target the descendant view of the CoordinatorLayout performing the nested scroll
+     * @param velocityX horizontal velocity of the attempted fling
+     * @param velocityY vertical velocity of the attempted fling
+     * @param consumed true if the nested child view consumed the fling
+     * @return true if the Behavior consumed the fling
+     *
+     * @see ViewParent#onNestedFling(View, float, float, boolean)
+     */
+    onNestedFling(coordinatorLayout:CoordinatorLayout, child:V, target:View, velocityX:number, velocityY:number,
+                  consumed:boolean):boolean {
+        return false;
+    }
+
+    /**
+     * Called when a nested scrolling child is about to start a fling.
+     *
+     * <p>Any Behavior associated with the direct child of the CoordinatorLayout may elect
+     * to accept the nested scroll as part of {@link #onStartNestedScroll}. Each Behavior
+     * that returned true will receive subsequent nested scroll events for that nested scroll.
+     * </p>
+     *
+     * <p><code>onNestedPreFling</code> is called when the current nested scrolling child view
+     * detects the proper conditions for a fling, but it has not acted on it yet. A
+     * Behavior can return true to indicate that it consumed the fling. If at least one
+     * Behavior returns true, the fling should not be acted upon by the child.</p>
+     *
+     * @param coordinatorLayout the CoordinatorLayout parent of the view this Behavior is
+     *                          associated with
+     * @param child the child view of the CoordinatorLayout this Behavior is associated with
+     * @param target the descendant view of the CoordinatorLayout performing the nested scroll
+     * @param velocityX horizontal velocity of the attempted fling
+     * @param velocityY vertical velocity of the attempted fling
+     * @return true if the Behavior consumed the fling
+     *
+     * @see ViewParent#onNestedPreFling(View, float, float)
+     */
+    onNestedPreFling(coordinatorLayout:CoordinatorLayout, child:V, target:View, velocityX:number,
+                     velocityY:number):boolean {
+        return false;
+    }
+}
+
+/**
+ * Parameters describing the desired layout for a child of a {@link CoordinatorLayout}.
+ */
+export class LayoutParams extends ViewGroup.MarginLayoutParams {
+
+    /**
+     * A {@link Behavior} that the child view should obey.
+     */
+    mBehavior:Behavior<any>;
+
+    mBehaviorResolved:boolean = false;
+
+    /**
+     * A {@link Gravity} value describing how this child view should lay out.
+     * If an {@link #setAnchorId(String) anchor} is also specified, the gravity describes
+     * how this child view should be positioned relative to its anchored position.
+     */
+    gravity:number = Gravity.NO_GRAVITY;
+
+    /**
+     * A {@link Gravity} value describing which edge of a child view's
+     * {@link #getAnchorId() anchor} view the child should position itself relative to.
+     */
+    anchorGravity:number = Gravity.NO_GRAVITY;
+
+    /**
+     * The index of the horizontal keyline specified to the parent CoordinatorLayout that this child
+     * should align relative to. If an {@link #setAnchorId(String) anchor} is present the
+     * keyline will be ignored.
+     */
+    keyline:number = -1;
+
+    /**
+     * A {@link View#getId() view id} of a descendant view of the CoordinatorLayout that
+     * this child should position relative to.
+     */
+    mAnchorId:string = View.NO_ID;
+
+    mAnchorView:View;
+
+    mAnchorDirectChild:View;
+
+    private mDidBlockInteraction:boolean;
+
+    private mDidAcceptNestedScroll:boolean;
+
+    private mDidChangeAfterNestedScroll:boolean;
+
+    private mLastChildRect:Rect = new Rect();
+
+    constructor();
+    constructor(width:number, height:number);
+    constructor(source:LayoutParams);
+    constructor(source:ViewGroup.MarginLayoutParams);
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(...args){
+        super(...(args.length == 1 ? [args[0]] : [args[0], args[1]]));
+        if (args.length == 1 && args[0] instanceof CoordinatorLayout.LayoutParams) {
+            const p:LayoutParams = <LayoutParams>args[0];
+            this.gravity = p.gravity;
+            this.anchorGravity = p.anchorGravity;
+            this.keyline = p.keyline;
+            this.mAnchorId = p.mAnchorId;
+            this.mBehavior = p.mBehavior;
+            this.mBehaviorResolved = p.mBehaviorResolved;
+        }
+
+        const a = this._attrBinder;
+        a.addAttr('gravity', (value)=>{
+            this.gravity = a.parseGravity(value, Gravity.NO_GRAVITY);
+        });
+        a.addAttr('anchor', (value)=>{
+            this.setAnchorId(value);
+        });
+        a.addAttr('anchorGravity', (value)=>{
+            this.anchorGravity = a.parseGravity(value, Gravity.NO_GRAVITY);
+        });
+        a.addAttr('keyline', (value)=>{
+            this.keyline = a.parseNumber(value, -1);
+        });
+        a.addAttr('behavior', (value)=>{
+            this.setBehavior(CoordinatorLayout.parseBehavior(a.parseString(value)));
+        });
+    }
+
+    /**
+     * Get the id of this view's anchor.
+     *
+     * <p>The view with this id must be a descendant of the CoordinatorLayout containing
+     * the child view this LayoutParams belongs to. It may not be the child view with
+     * this LayoutParams or a descendant of it.</p>
+     *
+     * @return A {@link View#getId() view id} or {@link View#NO_ID} if there is no anchor
+     */
+    getAnchorId():string {
+        return this.mAnchorId;
+    }
+
+    /**
+     * Set the id of this view's anchor.
+     *
+     * <p>The view with this id must be a descendant of the CoordinatorLayout containing
+     * the child view this LayoutParams belongs to. It may not be the child view with
+     * this LayoutParams or a descendant of it.</p>
+     *
+     * @param id The {@link View#getId() view id} of the anchor or
+     *           {@link View#NO_ID} if there is no anchor
+     */
+    setAnchorId(id:string):void {
+        this.invalidateAnchor();
+        this.mAnchorId = id;
+    }
+
+    /**
+     * Get the behavior governing the layout and interaction of the child view within
+     * a parent CoordinatorLayout.
+     *
+     * @return The current behavior or null if no behavior is specified
+     */
+    getBehavior():Behavior<any> {
+        return this.mBehavior;
+    }
+
+    /**
+     * Set the behavior governing the layout and interaction of the child view within
+     * a parent CoordinatorLayout.
+     *
+     * <p>Setting a new behavior will remove any currently associated
+     * {@link Behavior#setTag(android.view.View, Object) Behavior tag}.</p>
+     *
+     * @param behavior The behavior to set or null for no special behavior
+     */
+    setBehavior(behavior:Behavior<any>):void {
+        if (this.mBehavior != behavior) {
+            this.mBehavior = behavior;
+            this.mBehaviorResolved = true;
+        }
+    }
+
+    setLastChildRect(r:Rect):void {
+        this.mLastChildRect.set(r);
+    }
+
+    getLastChildRect():Rect {
+        return this.mLastChildRect;
+    }
+
+    /**
+     * Returns true if the anchor id changed to another valid view id since the anchor view
+     * was resolved.
+     */
+    checkAnchorChanged():boolean {
+        return this.mAnchorView == null && this.mAnchorId != View.NO_ID;
+    }
+
+    /**
+     * Returns true if the associated Behavior previously blocked interaction with other views
+     * below the associated child since the touch behavior tracking was last
+     * {@link #resetTouchBehaviorTracking() reset}.
+     *
+     * @see #isBlockingInteractionBelow(CoordinatorLayout, android.view.View)
+     */
+    didBlockInteraction():boolean {
+        if (this.mBehavior == null) {
+            this.mDidBlockInteraction = false;
+        }
+        return this.mDidBlockInteraction;
+    }
+
+    /**
+     * Check if the associated Behavior wants to block interaction below the given child
+     * view. The given child view should be the child this LayoutParams is associated with.
+     *
+     * <p>Once interaction is blocked, it will remain blocked until touch interaction tracking
+     * is {@link #resetTouchBehaviorTracking() reset}.</p>
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param child the child view this LayoutParams is associated with
+     * @return true to block interaction below the given child
+     */
+    isBlockingInteractionBelow(parent:CoordinatorLayout, child:View):boolean {
+        if (this.mDidBlockInteraction) {
+            return true;
+        }
+        return this.mDidBlockInteraction = this.mDidBlockInteraction ||
+            (this.mBehavior != null ? this.mBehavior.blocksInteractionBelow(parent, child) : false);
+    }
+
+    /**
+     * Reset tracking of Behavior-specific touch interactions. This includes
+     * interaction blocking.
+     *
+     * @see #isBlockingInteractionBelow(CoordinatorLayout, android.view.View)
+     * @see #didBlockInteraction()
+     */
+    resetTouchBehaviorTracking():void {
+        this.mDidBlockInteraction = false;
+    }
+
+    resetNestedScroll():void {
+        this.mDidAcceptNestedScroll = false;
+    }
+
+    acceptNestedScroll(accept:boolean):void {
+        this.mDidAcceptNestedScroll = accept;
+    }
+
+    isNestedScrollAccepted():boolean {
+        return this.mDidAcceptNestedScroll;
+    }
+
+    getChangedAfterNestedScroll():boolean {
+        return this.mDidChangeAfterNestedScroll;
+    }
+
+    setChangedAfterNestedScroll(changed:boolean):void {
+        this.mDidChangeAfterNestedScroll = changed;
+    }
+
+    resetChangedAfterNestedScroll():void {
+        this.mDidChangeAfterNestedScroll = false;
+    }
+
+    /**
+     * Check if an associated child view depends on another child view of the CoordinatorLayout.
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param child the child to check
+     * @param dependency the proposed dependency to check
+     * @return true if child depends on dependency
+     */
+    dependsOn(parent:CoordinatorLayout, child:View, dependency:View):boolean {
+        return dependency == this.mAnchorDirectChild
+            || (this.mBehavior != null && this.mBehavior.layoutDependsOn(parent, child, dependency));
+    }
+
+    /**
+     * Invalidate the cached anchor view and direct child ancestor of that anchor.
+     * The anchor will need to be
+     * {@link #findAnchorView(CoordinatorLayout, android.view.View) found} before
+     * being used again.
+     */
+    invalidateAnchor():void {
+        this.mAnchorView = this.mAnchorDirectChild = null;
+    }
+
+    /**
+     * Locate the appropriate anchor view by the current {@link #setAnchorId(String) anchor id}
+     * or return the cached anchor view if already known.
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param forChild the child this LayoutParams is associated with
+     * @return the located descendant anchor view, or null if the anchor id is
+     *         {@link View#NO_ID}.
+     */
+    findAnchorView(parent:CoordinatorLayout, forChild:View):View {
+        if (this.mAnchorId == View.NO_ID) {
+            this.mAnchorView = this.mAnchorDirectChild = null;
+            return null;
+        }
+        if (this.mAnchorView == null || !this.verifyAnchorView(forChild, parent)) {
+            this.resolveAnchorView(forChild, parent);
+        }
+        return this.mAnchorView;
+    }
+
+    /**
+     * Check if the child associated with this LayoutParams is currently considered
+     * "dirty" and needs to be updated. A Behavior should consider a child dirty
+     * whenever a property returned by another Behavior method would have changed,
+     * such as dependencies.
+     *
+     * @param parent the parent CoordinatorLayout
+     * @param child the child view associated with this LayoutParams
+     * @return true if this child view should be considered dirty
+     */
+    isDirty(parent:CoordinatorLayout, child:View):boolean {
+        return this.mBehavior != null && this.mBehavior.isDirty(parent, child);
+    }
+
+    /**
+     * Determine the anchor view for the child view this LayoutParams is assigned to.
+     * Assumes mAnchorId is valid.
+     */
+    private resolveAnchorView(forChild:View, parent:CoordinatorLayout):void {
+        this.mAnchorView = parent.findViewById(this.mAnchorId);
+        if (this.mAnchorView != null) {
+            let directChild:View = this.mAnchorView;
+            for (let p:ViewParent = this.mAnchorView.getParent(); p != parent && p != null; p = p.getParent()) {
+                if (p == <any>forChild) {
+                    throw Error(`new IllegalStateException("Anchor must not be a descendant of the anchored view")`);
+                }
+                if (p instanceof View) {
+                    directChild = <View><any>p;
+                }
+            }
+            this.mAnchorDirectChild = directChild;
+        } else {
+            throw Error(`new IllegalStateException("Could not find CoordinatorLayout descendant view" + " with id " + ${this.mAnchorId} + " to anchor view " + ${forChild})`);
+        }
+    }
+
+    /**
+     * Verify that the previously resolved anchor view is still valid - that it is still
+     * a descendant of the expected parent view, it is not the child this LayoutParams
+     * is assigned to or a descendant of it, and it has the expected id.
+     */
+    private verifyAnchorView(forChild:View, parent:CoordinatorLayout):boolean {
+        if (this.mAnchorView.getId() != this.mAnchorId) {
+            return false;
+        }
+        let directChild:View = this.mAnchorView;
+        for (let p:ViewParent = this.mAnchorView.getParent(); p != parent; p = p.getParent()) {
+            if (p == null || p == <any>forChild) {
+                this.mAnchorView = this.mAnchorDirectChild = null;
+                return false;
+            }
+            if (p instanceof View) {
+                directChild = <View><any>p;
+            }
+        }
+        this.mAnchorDirectChild = directChild;
+        return true;
+    }
+}
+
+export class HierarchyChangeListener implements ViewGroup.OnHierarchyChangeListener {
+    _CoordinatorLayout_this:CoordinatorLayout;
+    constructor(arg:CoordinatorLayout){
+        this._CoordinatorLayout_this = arg;
+    }
+
+    onChildViewAdded(parent:View, child:View):void {
+        if (this._CoordinatorLayout_this.mOnHierarchyChangeListener_ != null) {
+            this._CoordinatorLayout_this.mOnHierarchyChangeListener_.onChildViewAdded(parent, child);
+        }
+    }
+
+    onChildViewRemoved(parent:View, child:View):void {
+        this._CoordinatorLayout_this.dispatchDependentViewRemoved(child);
+        if (this._CoordinatorLayout_this.mOnHierarchyChangeListener_ != null) {
+            this._CoordinatorLayout_this.mOnHierarchyChangeListener_.onChildViewRemoved(parent, child);
+        }
+    }
+}
+}
+
+}
@@ -0,0 +1,733 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/ViewParent.ts"/>
+///<reference path="../../../../android/view/Gravity.ts"/>
+///<reference path="../../../../android/view/MotionEvent.ts"/>
+///<reference path="../../../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../../../android/view/animation/AccelerateDecelerateInterpolator.ts"/>
+///<reference path="../../../../android/animation/Animator.ts"/>
+///<reference path="../../../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../android/content/res/ColorStateList.ts"/>
+///<reference path="../../../../android/content/res/Resources.ts"/>
+///<reference path="../../../../android/graphics/drawable/ColorDrawable.ts"/>
+///<reference path="../../../../android/os/Handler.ts"/>
+///<reference path="../../../../android/os/Message.ts"/>
+///<reference path="../../../../android/text/TextUtils.ts"/>
+///<reference path="../../../../android/util/TypedValue.ts"/>
+///<reference path="../../../../android/widget/Button.ts"/>
+///<reference path="../../../../android/widget/FrameLayout.ts"/>
+///<reference path="../../../../android/widget/LinearLayout.ts"/>
+///<reference path="../../../../android/widget/TextView.ts"/>
+///<reference path="../../../../android/widget/Toast.ts"/>
+///<reference path="../../../../android/support/design/widget/CoordinatorLayout.ts"/>
+///<reference path="../../../../android/support/design/widget/SnackbarManager.ts"/>
+///<reference path="../../../../android/support/design/widget/SwipeDismissBehavior.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ViewParent = android.view.ViewParent;
+import Gravity = android.view.Gravity;
+import MotionEvent = android.view.MotionEvent;
+import Interpolator = android.view.animation.Interpolator;
+import AccelerateDecelerateInterpolator = android.view.animation.AccelerateDecelerateInterpolator;
+import Animator = android.animation.Animator;
+import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+import Context = android.content.Context;
+import ColorStateList = android.content.res.ColorStateList;
+import Resources = android.content.res.Resources;
+import ColorDrawable = android.graphics.drawable.ColorDrawable;
+import Handler = android.os.Handler;
+import Message = android.os.Message;
+import TextUtils = android.text.TextUtils;
+import TypedValue = android.util.TypedValue;
+import Button = android.widget.Button;
+import FrameLayout = android.widget.FrameLayout;
+import LinearLayout = android.widget.LinearLayout;
+import TextView = android.widget.TextView;
+import Toast = android.widget.Toast;
+
+/**
+ * Snackbars provide lightweight feedback about an operation. They show a brief message at the
+ * bottom of the screen on mobile and lower left on larger devices. Snackbars appear above all other
+ * elements on screen and only one can be displayed at a time.
+ * <p>
+ * They automatically disappear after a timeout or after user interaction elsewhere on the screen,
+ * particularly after interactions that summon a new surface or activity. Snackbars can be swiped
+ * off screen.
+ * <p>
+ * Snackbars can contain an action which is set via
+ * {@link #setAction(CharSequence, android.view.View.OnClickListener)}.
+ * <p>
+ * To be notified when a snackbar has been shown or dismissed, you can provide a {@link Callback}
+ * via {@link #setCallback(Callback)}.</p>
+ */
+export class Snackbar {
+
+    /**
+     * Show the Snackbar indefinitely. This means that the Snackbar will be displayed from the time
+     * that is {@link #show() shown} until either it is dismissed, or another Snackbar is shown.
+     *
+     * @see #setDuration
+     */
+    static LENGTH_INDEFINITE:number = -2;
+
+    /**
+     * Show the Snackbar for a short period of time.
+     *
+     * @see #setDuration
+     */
+    static LENGTH_SHORT:number = Toast.LENGTH_SHORT;
+
+    /**
+     * Show the Snackbar for a long period of time.
+     *
+     * @see #setDuration
+     */
+    static LENGTH_LONG:number = Toast.LENGTH_LONG;
+
+    static ANIMATION_DURATION:number = 250;
+    static ANIMATION_FADE_DURATION:number = 180;
+
+    private static FAST_OUT_SLOW_IN_INTERPOLATOR:Interpolator = new AccelerateDecelerateInterpolator();
+
+    private static MSG_SHOW:number = 0;
+    private static MSG_DISMISS:number = 1;
+
+    private static sHandler:Handler = new Handler({
+        handleMessage(message:Message):boolean {
+            switch (message.what) {
+                case Snackbar.MSG_SHOW:
+                    (<Snackbar> message.obj).showView();
+                    return true;
+                case Snackbar.MSG_DISMISS:
+                    (<Snackbar> message.obj).hideView(message.arg1);
+                    return true;
+            }
+            return false;
+        }
+    });
+
+    private mParent:ViewGroup;
+    //androidui add: the view the snackbar was made for, when it isn't a CoordinatorLayout
+    private mHostParent:ViewGroup;
+    private mContext:Context;
+    private mView:Snackbar.SnackbarLayout;
+    private mDuration:number = 0;
+    private mCallback:Snackbar.Callback;
+
+    constructor(parent:ViewGroup) {
+        this.mContext = parent.getContext();
+        if (parent instanceof CoordinatorLayout) {
+            this.mParent = parent;
+        } else {
+            //androidui add: host the snackbar in a transparent CoordinatorLayout laid over the
+            // content, so it is anchored to the bottom and can be swiped to dismiss everywhere.
+            this.mHostParent = parent;
+            this.mParent = new CoordinatorLayout(this.mContext);
+        }
+
+        this.mView = new Snackbar.SnackbarLayout(this.mContext);
+        const lp = new CoordinatorLayout.LayoutParams(ViewGroup.LayoutParams.MATCH_PARENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        lp.gravity = Gravity.BOTTOM;
+        this.mView.setLayoutParams(lp);
+    }
+
+    /**
+     * Make a Snackbar to display a message
+     *
+     * <p>Snackbar will try and find a parent view to hold Snackbar's view from the value given
+     * to {@code view}. Snackbar will walk up the view tree trying to find a suitable parent,
+     * which is defined as a {@link CoordinatorLayout} or the window decor's content view,
+     * whichever comes first.
+     *
+     * <p>When no {@link CoordinatorLayout} is found, the Snackbar is hosted in one laid over
+     * the content view, so swipe-to-dismiss is available in both cases.
+     *
+     * @param view     The view to find a parent from.
+     * @param text     The text to show.  Can be formatted text.
+     * @param duration How long to display the message.  Either {@link #LENGTH_SHORT} or {@link
+     *                 #LENGTH_LONG}
+     */
+    static make(view:View, text:string, duration:number):Snackbar {
+        let snackbar:Snackbar = new Snackbar(Snackbar.findSuitableParent(view));
+        snackbar.setText(text);
+        snackbar.setDuration(duration);
+        return snackbar;
+    }
+
+    private static findSuitableParent(view:View):ViewGroup {
+        let fallback:ViewGroup = null;
+        do {
+            if (view instanceof CoordinatorLayout) {
+                // We've found a CoordinatorLayout, use it
+                return <ViewGroup> view;
+            } else if (view instanceof FrameLayout) {
+                if (view.getId() == android.R.id.content) {
+                    // If we've hit the decor content view, then we didn't find a CoL in the
+                    // hierarchy, so use it.
+                    return <ViewGroup> view;
+                } else {
+                    // It's not the content view but we'll use it as our fallback
+                    fallback = <ViewGroup> view;
+                }
+            }
+
+            if (view != null) {
+                // Else, we will loop and crawl up the view hierarchy and try to find a parent
+                const parent:ViewParent = view.getParent();
+                view = parent instanceof View ? <View><any> parent : null;
+            }
+        } while (view != null);
+
+        // If we reach here then we didn't find a CoL or a suitable content view so we'll fallback
+        return fallback;
+    }
+
+    /**
+     * Set the action to be displayed in this {@link Snackbar}.
+     *
+     * @param text     Text to display
+     * @param listener callback to be invoked when the action is clicked
+     */
+    setAction(text:string, listener:View.OnClickListener):Snackbar {
+        const tv:TextView = this.mView.getActionView();
+
+        if (TextUtils.isEmpty(text) || listener == null) {
+            tv.setVisibility(View.GONE);
+            tv.setOnClickListener(null);
+        } else {
+            tv.setVisibility(View.VISIBLE);
+            tv.setText(text);
+            tv.setOnClickListener({
+                onClick: (view:View)=> {
+                    listener.onClick(view);
+                    // Now dismiss the Snackbar
+                    this.dispatchDismiss(Snackbar.Callback.DISMISS_EVENT_ACTION);
+                }
+            });
+        }
+        return this;
+    }
+
+    /**
+     * Sets the text color of the action specified in
+     * {@link #setAction(CharSequence, View.OnClickListener)}.
+     */
+    setActionTextColor(color:ColorStateList|number):Snackbar {
+        const tv:TextView = this.mView.getActionView();
+        tv.setTextColor(color);
+        return this;
+    }
+
+    /**
+     * Update the text in this {@link Snackbar}.
+     *
+     * @param message The new text for the Toast.
+     */
+    setText(message:string):Snackbar {
+        const tv:TextView = this.mView.getMessageView();
+        tv.setText(message);
+        return this;
+    }
+
+    /**
+     * Set how long to show the view for.
+     *
+     * @param duration either be one of the predefined lengths:
+     *                 {@link #LENGTH_SHORT}, {@link #LENGTH_LONG}, or a custom duration
+     *                 in milliseconds.
+     */
+    setDuration(duration:number):Snackbar {
+        this.mDuration = duration;
+        return this;
+    }
+
+    /**
+     * Return the duration.
+     *
+     * @see #setDuration
+     */
+    getDuration():number {
+        return this.mDuration;
+    }
+
+    /**
+     * Returns the {@link Snackbar}'s view.
+     */
+    getView():View {
+        return this.mView;
+    }
+
+    /**
+     * Show the {@link Snackbar}.
+     */
+    show():void {
+        SnackbarManager.getInstance().show(this.mDuration, this.mManagerCallback);
+    }
+
+    /**
+     * Dismiss the {@link Snackbar}.
+     */
+    dismiss():void {
+        this.dispatchDismiss(Snackbar.Callback.DISMISS_EVENT_MANUAL);
+    }
+
+    private dispatchDismiss(event:number):void {
+        SnackbarManager.getInstance().dismiss(this.mManagerCallback, event);
+    }
+
+    /**
+     * Set a callback to be called when this the visibility of this {@link Snackbar} changes.
+     */
+    setCallback(callback:Snackbar.Callback):Snackbar {
+        this.mCallback = callback;
+        return this;
+    }
+
+    /**
+     * Return whether this {@link Snackbar} is currently being shown.
+     */
+    isShown():boolean {
+        return SnackbarManager.getInstance().isCurrent(this.mManagerCallback);
+    }
+
+    /**
+     * Returns whether this {@link Snackbar} is currently being shown, or is queued to be
+     * shown next.
+     */
+    isShownOrQueued():boolean {
+        return SnackbarManager.getInstance().isCurrentOrNext(this.mManagerCallback);
+    }
+
+    mManagerCallback:SnackbarManager.Callback = {
+        show: ()=> {
+            Snackbar.sHandler.sendMessage(Message.obtain(Snackbar.sHandler, Snackbar.MSG_SHOW, this));
+        },
+        dismiss: (event:number)=> {
+            Snackbar.sHandler.sendMessage(Message.obtain(Snackbar.sHandler, Snackbar.MSG_DISMISS, event, 0, this));
+        }
+    };
+
+    showView():void {
+        if (this.mView.getParent() == null) {
+            const lp:ViewGroup.LayoutParams = this.mView.getLayoutParams();
+
+            if (lp instanceof CoordinatorLayout.LayoutParams) {
+                // If our LayoutParams are from a CoordinatorLayout, we'll setup our Behavior
+
+                const behavior:Snackbar.Behavior = new Snackbar.Behavior(this);
+                behavior.setStartAlphaSwipeDistance(0.1);
+                behavior.setEndAlphaSwipeDistance(0.6);
+                behavior.setSwipeDirection(SwipeDismissBehavior.SWIPE_DIRECTION_START_TO_END);
+                behavior.setListener({
+                    onDismiss: (view:View)=> {
+                        this.dispatchDismiss(Snackbar.Callback.DISMISS_EVENT_SWIPE);
+                    },
+                    onDragStateChanged: (state:number)=> {
+                        switch (state) {
+                            case SwipeDismissBehavior.STATE_DRAGGING:
+                            case SwipeDismissBehavior.STATE_SETTLING:
+                                // If the view is being dragged or settling, cancel the timeout
+                                SnackbarManager.getInstance().cancelTimeout(this.mManagerCallback);
+                                break;
+                            case SwipeDismissBehavior.STATE_IDLE:
+                                // If the view has been released and is idle, restore the timeout
+                                SnackbarManager.getInstance().restoreTimeout(this.mManagerCallback);
+                                break;
+                        }
+                    }
+                });
+                (<CoordinatorLayout.LayoutParams> lp).setBehavior(behavior);
+            }
+
+            //androidui add: attach the hosting CoordinatorLayout over the content first
+            if (this.mHostParent != null && this.mParent.getParent() == null) {
+                this.mHostParent.addView(this.mParent,
+                    new FrameLayout.LayoutParams(ViewGroup.LayoutParams.MATCH_PARENT, ViewGroup.LayoutParams.MATCH_PARENT));
+            }
+            this.mParent.addView(this.mView);
+        }
+
+        this.mView.setOnAttachStateChangeListener({
+            onViewAttachedToWindow: (v:View)=> {
+            },
+            onViewDetachedFromWindow: (v:View)=> {
+                if (this.isShownOrQueued()) {
+                    // If we haven't already been dismissed then this event is coming from a
+                    // non-user initiated action. Hence we need to make sure that we callback
+                    // and keep our state up to date. We need to post the call since removeView()
+                    // will call through to onDetachedFromWindow and thus overflow.
+                    Snackbar.sHandler.post({
+                        run: ()=> {
+                            this.onViewHidden(Snackbar.Callback.DISMISS_EVENT_MANUAL);
+                        }
+                    });
+                }
+            }
+        });
+
+        if (this.mView.isLaidOut()) {
+            // If the view is already laid out, animate it now
+            this.animateViewIn();
+        } else {
+            // Otherwise, add one of our layout change listeners and animate it in when laid out
+            this.mView.setOnLayoutChangeListener({
+                onLayoutChange: (view:View, left:number, top:number, right:number, bottom:number)=> {
+                    this.animateViewIn();
+                    this.mView.setOnLayoutChangeListener(null);
+                }
+            });
+        }
+    }
+
+    private animateViewIn():void {
+        this.mView.setTranslationY(this.mView.getHeight());
+        this.mView.animate().translationY(0)
+            .setInterpolator(Snackbar.FAST_OUT_SLOW_IN_INTERPOLATOR)
+            .setDuration(Snackbar.ANIMATION_DURATION)
+            .setListener((()=> {
+                const _this = this;
+                class _Inner extends AnimatorListenerAdapter {
+                    onAnimationStart(animator:Animator):void {
+                        _this.mView.animateChildrenIn(Snackbar.ANIMATION_DURATION - Snackbar.ANIMATION_FADE_DURATION,
+                            Snackbar.ANIMATION_FADE_DURATION);
+                    }
+
+                    onAnimationEnd(animator:Animator):void {
+                        if (_this.mCallback != null) {
+                            _this.mCallback.onShown(_this);
+                        }
+                        SnackbarManager.getInstance().onShown(_this.mManagerCallback);
+                    }
+                }
+                return new _Inner();
+            })()).start();
+    }
+
+    private animateViewOut(event:number):void {
+        this.mView.animate().translationY(this.mView.getHeight())
+            .setInterpolator(Snackbar.FAST_OUT_SLOW_IN_INTERPOLATOR)
+            .setDuration(Snackbar.ANIMATION_DURATION)
+            .setListener((()=> {
+                const _this = this;
+                class _Inner extends AnimatorListenerAdapter {
+                    onAnimationStart(animator:Animator):void {
+                        _this.mView.animateChildrenOut(0, Snackbar.ANIMATION_FADE_DURATION);
+                    }
+
+                    onAnimationEnd(animator:Animator):void {
+                        _this.onViewHidden(event);
+                    }
+                }
+                return new _Inner();
+            })()).start();
+    }
+
+    hideView(event:number):void {
+        if (this.mView.getVisibility() != View.VISIBLE || this.isBeingDragged()) {
+            this.onViewHidden(event);
+        } else {
+            this.animateViewOut(event);
+        }
+    }
+
+    private onViewHidden(event:number):void {
+        // First tell the SnackbarManager that it has been dismissed
+        SnackbarManager.getInstance().onDismissed(this.mManagerCallback);
+        // Now call the dismiss listener (if available)
+        if (this.mCallback != null) {
+            this.mCallback.onDismissed(this, event);
+        }
+        // Lastly, remove the view from the parent (if attached)
+        const parent:ViewParent = this.mView.getParent();
+        if (parent instanceof ViewGroup) {
+            (<ViewGroup> parent).removeView(this.mView);
+        }
+        //androidui add: detach the hosting CoordinatorLayout once it is empty
+        if (this.mHostParent != null && this.mParent.getChildCount() == 0
+            && this.mParent.getParent() == this.mHostParent) {
+            this.mHostParent.removeView(this.mParent);
+        }
+    }
+
+    /**
+     * @return if the view is being being dragged or settled by {@link SwipeDismissBehavior}.
+     */
+    private isBeingDragged():boolean {
+        const lp:ViewGroup.LayoutParams = this.mView.getLayoutParams();
+
+        if (lp instanceof CoordinatorLayout.LayoutParams) {
+            const behavior:CoordinatorLayout.Behavior<any> = (<CoordinatorLayout.LayoutParams> lp).getBehavior();
+
+            if (behavior instanceof SwipeDismissBehavior) {
+                return (<SwipeDismissBehavior<any>> behavior).getDragState() != SwipeDismissBehavior.STATE_IDLE;
+            }
+        }
+        return false;
+    }
+}
+
+export module Snackbar{
+/**
+ * Callback class for {@link Snackbar} instances.
+ *
+ * @see Snackbar#setCallback(Snackbar.Callback)
+ */
+export class Callback {
+    /** Indicates that the Snackbar was dismissed via a swipe.*/
+    static DISMISS_EVENT_SWIPE:number = 0;
+    /** Indicates that the Snackbar was dismissed via an action click.*/
+    static DISMISS_EVENT_ACTION:number = 1;
+    /** Indicates that the Snackbar was dismissed via a timeout.*/
+    static DISMISS_EVENT_TIMEOUT:number = 2;
+    /** Indicates that the Snackbar was dismissed via a call to {@link #dismiss()}.*/
+    static DISMISS_EVENT_MANUAL:number = 3;
+    /** Indicates that the Snackbar was dismissed from a new Snackbar being shown.*/
+    static DISMISS_EVENT_CONSECUTIVE:number = 4;
+
+    /**
+     * Called when the given {@link Snackbar} has been dismissed, either through a time-out,
+     * having been manually dismissed, or an action being clicked.
+     *
+     * @param snackbar The snackbar which has been dismissed.
+     * @param event The event which caused the dismissal. One of either:
+     *              {@link #DISMISS_EVENT_SWIPE}, {@link #DISMISS_EVENT_ACTION},
+     *              {@link #DISMISS_EVENT_TIMEOUT}, {@link #DISMISS_EVENT_MANUAL} or
+     *              {@link #DISMISS_EVENT_CONSECUTIVE}.
+     *
+     * @see Snackbar#dismiss()
+     */
+    onDismissed(snackbar:Snackbar, event:number):void {
+        // empty
+    }
+
+    /**
+     * Called when the given {@link Snackbar} is visible.
+     *
+     * @param snackbar The snackbar which is now visible.
+     * @see Snackbar#show()
+     */
+    onShown(snackbar:Snackbar):void {
+        // empty
+    }
+}
+
+export class SnackbarLayout extends LinearLayout {
+
+    private mMessageView:TextView;
+    private mActionView:Button;
+
+    private mMaxWidth:number = -1;
+    private mMaxInlineActionWidth:number = 0;
+
+    private mOnLayoutChangeListener:SnackbarLayout.OnLayoutChangeListener;
+    private mOnAttachStateChangeListener:SnackbarLayout.OnAttachStateChangeListener;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        const density = Resources.getDisplayMetrics().density;
+        //androidui: there are no design resources, build the layout the same way the
+        // design_layout_snackbar_include layout does.
+        this.mMaxInlineActionWidth = Math.round(128 * density);
+        this.setBackground(new ColorDrawable(0xFF323232));
+        this.setPadding(Math.round(12 * density), 0, Math.round(12 * density), 0);
+        this.setClickable(true);
+
+        this.mMessageView = new TextView(context);
+        this.mMessageView.setTextSize(TypedValue.COMPLEX_UNIT_SP, 14);
+        this.mMessageView.setTextColor(0xFFFFFFFF);
+        this.mMessageView.setMaxLines(2);
+        this.mMessageView.setEllipsize(TextUtils.TruncateAt.END);
+        this.mMessageView.setGravity(Gravity.CENTER_VERTICAL | Gravity.LEFT);
+        this.mMessageView.setPadding(Math.round(12 * density), Math.round(14 * density),
+            Math.round(12 * density), Math.round(14 * density));
+        const messageParams = new LinearLayout.LayoutParams(0, ViewGroup.LayoutParams.WRAP_CONTENT);
+        messageParams.weight = 1;
+        messageParams.gravity = Gravity.CENTER_VERTICAL | Gravity.LEFT;
+        this.addView(this.mMessageView, messageParams);
+
+        this.mActionView = new Button(context);
+        this.mActionView.setBackground(android.R.drawable.item_background);
+        this.mActionView.setMinWidth(Math.round(48 * density));
+        this.mActionView.setTextColor(0xFFFF4081);
+        this.mActionView.setVisibility(View.GONE);
+        const actionParams = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        actionParams.gravity = Gravity.CENTER_VERTICAL | Gravity.RIGHT;
+        this.addView(this.mActionView, actionParams);
+
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+    }
+
+    getMessageView():TextView {
+        return this.mMessageView;
+    }
+
+    getActionView():Button {
+        return this.mActionView;
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+
+        if (this.mMaxWidth > 0 && this.getMeasuredWidth() > this.mMaxWidth) {
+            widthMeasureSpec = View.MeasureSpec.makeMeasureSpec(this.mMaxWidth, View.MeasureSpec.EXACTLY);
+            super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        }
+
+        const density = Resources.getDisplayMetrics().density;
+        const multiLineVPadding:number = Math.round(24 * density);
+        const singleLineVPadding:number = Math.round(14 * density);
+        const isMultiLine:boolean = this.mMessageView.getLineCount() > 1;
+
+        let remeasure:boolean = false;
+        if (isMultiLine && this.mMaxInlineActionWidth > 0
+            && this.mActionView.getMeasuredWidth() > this.mMaxInlineActionWidth) {
+            if (this.updateViewsWithinLayout(LinearLayout.VERTICAL, multiLineVPadding,
+                    multiLineVPadding - singleLineVPadding)) {
+                remeasure = true;
+            }
+        } else {
+            const messagePadding:number = isMultiLine ? multiLineVPadding : singleLineVPadding;
+            if (this.updateViewsWithinLayout(LinearLayout.HORIZONTAL, messagePadding, messagePadding)) {
+                remeasure = true;
+            }
+        }
+
+        if (remeasure) {
+            super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        }
+    }
+
+    animateChildrenIn(delay:number, duration:number):void {
+        this.mMessageView.setAlpha(0);
+        this.mMessageView.animate().alpha(1).setDuration(duration)
+            .setStartDelay(delay).start();
+
+        if (this.mActionView.getVisibility() == View.VISIBLE) {
+            this.mActionView.setAlpha(0);
+            this.mActionView.animate().alpha(1).setDuration(duration)
+                .setStartDelay(delay).start();
+        }
+    }
+
+    animateChildrenOut(delay:number, duration:number):void {
+        this.mMessageView.setAlpha(1);
+        this.mMessageView.animate().alpha(0).setDuration(duration)
+            .setStartDelay(delay).start();
+
+        if (this.mActionView.getVisibility() == View.VISIBLE) {
+            this.mActionView.setAlpha(1);
+            this.mActionView.animate().alpha(0).setDuration(duration)
+                .setStartDelay(delay).start();
+        }
+    }
+
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void {
+        super.onLayout(changed, l, t, r, b);
+        if (changed && this.mOnLayoutChangeListener != null) {
+            this.mOnLayoutChangeListener.onLayoutChange(this, l, t, r, b);
+        }
+    }
+
+    protected onAttachedToWindow():void {
+        super.onAttachedToWindow();
+        if (this.mOnAttachStateChangeListener != null) {
+            this.mOnAttachStateChangeListener.onViewAttachedToWindow(this);
+        }
+    }
+
+    protected onDetachedFromWindow():void {
+        super.onDetachedFromWindow();
+        if (this.mOnAttachStateChangeListener != null) {
+            this.mOnAttachStateChangeListener.onViewDetachedFromWindow(this);
+        }
+    }
+
+    setOnLayoutChangeListener(onLayoutChangeListener:SnackbarLayout.OnLayoutChangeListener):void {
+        this.mOnLayoutChangeListener = onLayoutChangeListener;
+    }
+
+    setOnAttachStateChangeListener(listener:SnackbarLayout.OnAttachStateChangeListener):void {
+        this.mOnAttachStateChangeListener = listener;
+    }
+
+    private updateViewsWithinLayout(orientation:number, messagePadTop:number, messagePadBottom:number):boolean {
+        let changed:boolean = false;
+        if (orientation != this.getOrientation()) {
+            this.setOrientation(orientation);
+            changed = true;
+        }
+        if (this.mMessageView.getPaddingTop() != messagePadTop
+            || this.mMessageView.getPaddingBottom() != messagePadBottom) {
+            SnackbarLayout.updateTopBottomPadding(this.mMessageView, messagePadTop, messagePadBottom);
+            changed = true;
+        }
+        return changed;
+    }
+
+    private static updateTopBottomPadding(view:View, topPadding:number, bottomPadding:number):void {
+        view.setPadding(view.getPaddingLeft(), topPadding, view.getPaddingRight(), bottomPadding);
+    }
+}
+
+export module SnackbarLayout{
+export interface OnLayoutChangeListener {
+    onLayoutChange(view:View, left:number, top:number, right:number, bottom:number):void;
+}
+
+export interface OnAttachStateChangeListener {
+    onViewAttachedToWindow(v:View):void;
+    onViewDetachedFromWindow(v:View):void;
+}
+}
+
+export class Behavior extends SwipeDismissBehavior<SnackbarLayout> {
+    _Snackbar_this:Snackbar;
+
+    constructor(arg:Snackbar) {
+        super();
+        this._Snackbar_this = arg;
+    }
+
+    canSwipeDismissView(child:View):boolean {
+        return child instanceof SnackbarLayout;
+    }
+
+    onInterceptTouchEvent(parent:CoordinatorLayout, child:SnackbarLayout, event:MotionEvent):boolean {
+        // We want to make sure that we disable any Snackbar timeouts if the user is
+        // currently touching the Snackbar. We restore the timeout when complete
+        if (parent.isPointInChildBounds(child, event.getX(), event.getY())) {
+            switch (event.getActionMasked()) {
+                case MotionEvent.ACTION_DOWN:
+                    SnackbarManager.getInstance().cancelTimeout(this._Snackbar_this.mManagerCallback);
+                    break;
+                case MotionEvent.ACTION_UP:
+                case MotionEvent.ACTION_CANCEL:
+                    SnackbarManager.getInstance().restoreTimeout(this._Snackbar_this.mManagerCallback);
+                    break;
+            }
+        }
+
+        return super.onInterceptTouchEvent(parent, child, event);
+    }
+}
+}
+}
@@ -0,0 +1,220 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/os/Handler.ts"/>
+///<reference path="../../../../android/os/Message.ts"/>
+///<reference path="../../../../android/widget/Toast.ts"/>
+
+module android.support.design.widget {
+import Handler = android.os.Handler;
+import Message = android.os.Message;
+import Toast = android.widget.Toast;
+
+/**
+ * Manages {@link Snackbar}s.
+ */
+export class SnackbarManager {
+
+    static MSG_TIMEOUT:number = 0;
+
+    private static sSnackbarManager:SnackbarManager;
+
+    static getInstance():SnackbarManager {
+        if (SnackbarManager.sSnackbarManager == null) {
+            SnackbarManager.sSnackbarManager = new SnackbarManager();
+        }
+        return SnackbarManager.sSnackbarManager;
+    }
+
+    private mHandler:Handler;
+
+    private mCurrentSnackbar:SnackbarManager.SnackbarRecord;
+    private mNextSnackbar:SnackbarManager.SnackbarRecord;
+
+    constructor() {
+        this.mHandler = new Handler({
+            handleMessage: (message:Message):boolean => {
+                switch (message.what) {
+                    case SnackbarManager.MSG_TIMEOUT:
+                        this.handleTimeout(<SnackbarManager.SnackbarRecord> message.obj);
+                        return true;
+                }
+                return false;
+            }
+        });
+    }
+
+    show(duration:number, callback:SnackbarManager.Callback):void {
+        if (this.isCurrentSnackbar(callback)) {
+            // Means that the callback is already in the queue. We'll just update the duration
+            this.mCurrentSnackbar.duration = duration;
+            // If this is the Snackbar currently being shown, call re-schedule it's
+            // timeout
+            this.mHandler.removeCallbacksAndMessages(this.mCurrentSnackbar);
+            this.scheduleTimeoutLocked(this.mCurrentSnackbar);
+            return;
+        } else if (this.isNextSnackbar(callback)) {
+            // We'll just update the duration
+            this.mNextSnackbar.duration = duration;
+        } else {
+            // Else, we need to create a new record and queue it
+            this.mNextSnackbar = new SnackbarManager.SnackbarRecord(duration, callback);
+        }
+
+        if (this.mCurrentSnackbar != null && this.cancelSnackbarLocked(this.mCurrentSnackbar,
+                Snackbar.Callback.DISMISS_EVENT_CONSECUTIVE)) {
+            // If we currently have a Snackbar, try and cancel it and wait in line
+            return;
+        } else {
+            // Clear out the current snackbar
+            this.mCurrentSnackbar = null;
+            // Otherwise, just show it now
+            this.showNextSnackbarLocked();
+        }
+    }
+
+    dismiss(callback:SnackbarManager.Callback, event:number):void {
+        if (this.isCurrentSnackbar(callback)) {
+            this.cancelSnackbarLocked(this.mCurrentSnackbar, event);
+        } else if (this.isNextSnackbar(callback)) {
+            this.cancelSnackbarLocked(this.mNextSnackbar, event);
+        }
+    }
+
+    /**
+     * Should be called when a Snackbar is no longer displayed. This is after any exit
+     * animation has finished.
+     */
+    onDismissed(callback:SnackbarManager.Callback):void {
+        if (this.isCurrentSnackbar(callback)) {
+            // If the callback is from a Snackbar currently show, remove it and show a new one
+            this.mCurrentSnackbar = null;
+            if (this.mNextSnackbar != null) {
+                this.showNextSnackbarLocked();
+            }
+        } else if (this.isNextSnackbar(callback)) {
+            //androidui add: dismissed before it shows, don't show it later
+            this.mNextSnackbar = null;
+        }
+    }
+
+    /**
+     * Should be called when a Snackbar is being shown. This is after any entrance animation has
+     * finished.
+     */
+    onShown(callback:SnackbarManager.Callback):void {
+        if (this.isCurrentSnackbar(callback)) {
+            this.scheduleTimeoutLocked(this.mCurrentSnackbar);
+        }
+    }
+
+    cancelTimeout(callback:SnackbarManager.Callback):void {
+        if (this.isCurrentSnackbar(callback)) {
+            this.mHandler.removeCallbacksAndMessages(this.mCurrentSnackbar);
+        }
+    }
+
+    restoreTimeout(callback:SnackbarManager.Callback):void {
+        if (this.isCurrentSnackbar(callback)) {
+            this.scheduleTimeoutLocked(this.mCurrentSnackbar);
+        }
+    }
+
+    isCurrent(callback:SnackbarManager.Callback):boolean {
+        return this.isCurrentSnackbar(callback);
+    }
+
+    isCurrentOrNext(callback:SnackbarManager.Callback):boolean {
+        return this.isCurrentSnackbar(callback) || this.isNextSnackbar(callback);
+    }
+
+    private showNextSnackbarLocked():void {
+        if (this.mNextSnackbar != null) {
+            this.mCurrentSnackbar = this.mNextSnackbar;
+            this.mNextSnackbar = null;
+
+            const callback:SnackbarManager.Callback = this.mCurrentSnackbar.callback;
+            if (callback != null) {
+                callback.show();
+            } else {
+                // The callback doesn't exist any more, clear out the Snackbar
+                this.mCurrentSnackbar = null;
+            }
+        }
+    }
+
+    private cancelSnackbarLocked(record:SnackbarManager.SnackbarRecord, event:number):boolean {
+        const callback:SnackbarManager.Callback = record.callback;
+        if (callback != null) {
+            callback.dismiss(event);
+            return true;
+        }
+        return false;
+    }
+
+    private isCurrentSnackbar(callback:SnackbarManager.Callback):boolean {
+        return this.mCurrentSnackbar != null && this.mCurrentSnackbar.isSnackbar(callback);
+    }
+
+    private isNextSnackbar(callback:SnackbarManager.Callback):boolean {
+        return this.mNextSnackbar != null && this.mNextSnackbar.isSnackbar(callback);
+    }
+
+    private scheduleTimeoutLocked(r:SnackbarManager.SnackbarRecord):void {
+        if (r.duration == Snackbar.LENGTH_INDEFINITE) {
+            // If we're set to indefinite, we don't want to set a timeout
+            return;
+        }
+
+        let durationMs:number = r.duration;
+        //androidui: same timeouts as Toast
+        if (r.duration == Snackbar.LENGTH_LONG) {
+            durationMs = Toast.LONG_DURATION_MS;
+        } else if (r.duration == Snackbar.LENGTH_SHORT) {
+            durationMs = Toast.SHORT_DURATION_MS;
+        }
+        this.mHandler.removeCallbacksAndMessages(r);
+        this.mHandler.sendMessageDelayed(Message.obtain(this.mHandler, SnackbarManager.MSG_TIMEOUT, r), durationMs);
+    }
+
+    private handleTimeout(record:SnackbarManager.SnackbarRecord):void {
+        if (this.mCurrentSnackbar == record || this.mNextSnackbar == record) {
+            this.cancelSnackbarLocked(record, Snackbar.Callback.DISMISS_EVENT_TIMEOUT);
+        }
+    }
+}
+
+export module SnackbarManager{
+export interface Callback {
+    show():void;
+    dismiss(event:number):void;
+}
+
+export class SnackbarRecord {
+    callback:Callback;
+    duration:number = 0;
+
+    constructor(duration:number, callback:Callback) {
+        this.callback = callback;
+        this.duration = duration;
+    }
+
+    isSnackbar(callback:Callback):boolean {
+        return callback != null && this.callback == callback;
+    }
+}
+}
+}
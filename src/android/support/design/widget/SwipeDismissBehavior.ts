@@ -0,0 +1,382 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/MotionEvent.ts"/>
+///<reference path="../../../../android/support/v4/widget/ViewDragHelper.ts"/>
+///<reference path="../../../../android/support/design/widget/CoordinatorLayout.ts"/>
+///<reference path="../../../../java/lang/Runnable.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import MotionEvent = android.view.MotionEvent;
+import ViewDragHelper = android.support.v4.widget.ViewDragHelper;
+import Runnable = java.lang.Runnable;
+
+/**
+ * An interaction behavior plugin for child views of {@link CoordinatorLayout} to provide support
+ * for the 'swipe-to-dismiss' gesture.
+ */
+export class SwipeDismissBehavior<V extends View> extends CoordinatorLayout.Behavior<V> {
+
+    /**
+     * A view is not currently being dragged or animating as a result of a fling/snap.
+     */
+    static STATE_IDLE:number = ViewDragHelper.STATE_IDLE;
+
+    /**
+     * A view is currently being dragged. The position is currently changing as a result
+     * of user input or simulated user input.
+     */
+    static STATE_DRAGGING:number = ViewDragHelper.STATE_DRAGGING;
+
+    /**
+     * A view is currently settling into place as a result of a fling or
+     * predefined non-interactive motion.
+     */
+    static STATE_SETTLING:number = ViewDragHelper.STATE_SETTLING;
+
+    /**
+     * Swipe direction that only allows swiping in the direction of start-to-end. That is
+     * left-to-right in LTR, or right-to-left in RTL.
+     */
+    static SWIPE_DIRECTION_START_TO_END:number = 0;
+
+    /**
+     * Swipe direction that only allows swiping in the direction of end-to-start. That is
+     * right-to-left in LTR or left-to-right in RTL.
+     */
+    static SWIPE_DIRECTION_END_TO_START:number = 1;
+
+    /**
+     * Swipe direction that allows swiping in either direction.
+     */
+    static SWIPE_DIRECTION_ANY:number = 2;
+
+    private static DEFAULT_DRAG_DISMISS_THRESHOLD:number = 0.5;
+    private static DEFAULT_ALPHA_START_DISTANCE:number = 0;
+    private static DEFAULT_ALPHA_END_DISTANCE:number = SwipeDismissBehavior.DEFAULT_DRAG_DISMISS_THRESHOLD;
+
+    mViewDragHelper:ViewDragHelper;
+    mListener:SwipeDismissBehavior.OnDismissListener;
+    private mIgnoreEvents:boolean = false;
+
+    private mSensitivity:number = 0;
+    private mSensitivitySet:boolean = false;
+
+    private mSwipeDirection:number = SwipeDismissBehavior.SWIPE_DIRECTION_ANY;
+    private mDragDismissThreshold:number = SwipeDismissBehavior.DEFAULT_DRAG_DISMISS_THRESHOLD;
+    private mAlphaStartSwipeDistance:number = SwipeDismissBehavior.DEFAULT_ALPHA_START_DISTANCE;
+    private mAlphaEndSwipeDistance:number = SwipeDismissBehavior.DEFAULT_ALPHA_END_DISTANCE;
+
+    /**
+     * Set the listener to be used when a dismiss event occurs.
+     *
+     * @param listener the listener to use.
+     */
+    setListener(listener:SwipeDismissBehavior.OnDismissListener):void {
+        this.mListener = listener;
+    }
+
+    /**
+     * Sets the swipe direction for this behavior.
+     *
+     * @param direction one of the {@link #SWIPE_DIRECTION_START_TO_END},
+     *                  {@link #SWIPE_DIRECTION_END_TO_START} or {@link #SWIPE_DIRECTION_ANY}
+     */
+    setSwipeDirection(direction:number):void {
+        this.mSwipeDirection = direction;
+    }
+
+    /**
+     * Set the threshold for telling if a view has been dragged enough to be dismissed.
+     *
+     * @param distance a ratio of a view's width, values are clamped to 0 >= x <= 1f;
+     */
+    setDragDismissDistance(distance:number):void {
+        this.mDragDismissThreshold = SwipeDismissBehavior.clamp(0, distance, 1);
+    }
+
+    /**
+     * The minimum swipe distance before the view's alpha is modified.
+     *
+     * @param fraction the distance as a fraction of the view's width.
+     */
+    setStartAlphaSwipeDistance(fraction:number):void {
+        this.mAlphaStartSwipeDistance = SwipeDismissBehavior.clamp(0, fraction, 1);
+    }
+
+    /**
+     * The maximum swipe distance for the view's alpha is modified.
+     *
+     * @param fraction the distance as a fraction of the view's width.
+     */
+    setEndAlphaSwipeDistance(fraction:number):void {
+        this.mAlphaEndSwipeDistance = SwipeDismissBehavior.clamp(0, fraction, 1);
+    }
+
+    /**
+     * Set the sensitivity used for detecting the start of a swipe. This only takes effect if
+     * no touch handling has occured yet.
+     *
+     * @param sensitivity Multiplier for how sensitive we should be about detecting
+     *                    the start of a drag. Larger values are more sensitive. 1.0f is normal.
+     */
+    setSensitivity(sensitivity:number):void {
+        this.mSensitivity = sensitivity;
+        this.mSensitivitySet = true;
+    }
+
+    onInterceptTouchEvent(parent:CoordinatorLayout, child:V, event:MotionEvent):boolean {
+        switch (event.getActionMasked()) {
+            case MotionEvent.ACTION_UP:
+            case MotionEvent.ACTION_CANCEL:
+                // Reset the ignore flag
+                if (this.mIgnoreEvents) {
+                    this.mIgnoreEvents = false;
+                    return false;
+                }
+                break;
+            default:
+                this.mIgnoreEvents = !parent.isPointInChildBounds(child, event.getX(), event.getY());
+                break;
+        }
+
+        if (this.mIgnoreEvents) {
+            return false;
+        }
+
+        this.ensureViewDragHelper(parent);
+        return this.mViewDragHelper.shouldInterceptTouchEvent(event);
+    }
+
+    onTouchEvent(parent:CoordinatorLayout, child:V, event:MotionEvent):boolean {
+        //androidui add: don't swallow touches that started outside the child
+        if (this.mIgnoreEvents) {
+            return false;
+        }
+        if (this.mViewDragHelper != null) {
+            this.mViewDragHelper.processTouchEvent(event);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Called when the user's input indicates that they want to swipe the given view.
+     *
+     * @param view View the user is attempting to swipe
+     * @return true if the view can be dismissed via swiping, false otherwise
+     */
+    canSwipeDismissView(view:View):boolean {
+        return true;
+    }
+
+    private mDragCallback:ViewDragHelper.Callback = (()=>{
+        const _this = this;
+        class _Inner extends ViewDragHelper.Callback {
+
+            private mOriginalCapturedViewLeft:number = 0;
+
+            tryCaptureView(child:View, pointerId:number):boolean {
+                this.mOriginalCapturedViewLeft = child.getLeft();
+                return _this.canSwipeDismissView(child);
+            }
+
+            onViewDragStateChanged(state:number):void {
+                if (_this.mListener != null) {
+                    _this.mListener.onDragStateChanged(state);
+                }
+            }
+
+            onViewReleased(child:View, xvel:number, yvel:number):void {
+                const childWidth:number = child.getWidth();
+                let targetLeft:number;
+                let dismiss:boolean = false;
+
+                if (this.shouldDismiss(child, xvel)) {
+                    targetLeft = child.getLeft() < this.mOriginalCapturedViewLeft
+                        ? this.mOriginalCapturedViewLeft - childWidth
+                        : this.mOriginalCapturedViewLeft + childWidth;
+                    dismiss = true;
+                } else {
+                    // If we reach here, then don't dismiss and set the view back to it's
+                    // original position
+                    targetLeft = this.mOriginalCapturedViewLeft;
+                }
+
+                if (_this.mViewDragHelper.settleCapturedViewAt(targetLeft, child.getTop())) {
+                    child.postOnAnimation(new SwipeDismissBehavior.SettleRunnable(child, dismiss, _this));
+                } else if (dismiss && _this.mListener != null) {
+                    _this.mListener.onDismiss(child);
+                }
+            }
+
+            private shouldDismiss(child:View, xvel:number):boolean {
+                if (xvel != 0) {
+                    const isRtl:boolean = child.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL;
+
+                    if (_this.mSwipeDirection == SwipeDismissBehavior.SWIPE_DIRECTION_ANY) {
+                        // We don't care about the direction so return true
+                        return true;
+                    } else if (_this.mSwipeDirection == SwipeDismissBehavior.SWIPE_DIRECTION_START_TO_END) {
+                        // We only allow start-to-end swiping, so the fling needs to be in the
+                        // correct direction
+                        return isRtl ? xvel < 0 : xvel > 0;
+                    } else if (_this.mSwipeDirection == SwipeDismissBehavior.SWIPE_DIRECTION_END_TO_START) {
+                        // We only allow end-to-start swiping, so the fling needs to be in the
+                        // correct direction
+                        return isRtl ? xvel > 0 : xvel < 0;
+                    }
+                } else {
+                    const distance:number = child.getLeft() - this.mOriginalCapturedViewLeft;
+                    const thresholdDistance:number = Math.round(child.getWidth() * _this.mDragDismissThreshold);
+                    return Math.abs(distance) >= thresholdDistance;
+                }
+
+                return false;
+            }
+
+            getViewHorizontalDragRange(child:View):number {
+                return child.getWidth();
+            }
+
+            clampViewPositionHorizontal(child:View, left:number, dx:number):number {
+                const isRtl:boolean = child.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL;
+                let min:number, max:number;
+
+                if (_this.mSwipeDirection == SwipeDismissBehavior.SWIPE_DIRECTION_START_TO_END) {
+                    if (isRtl) {
+                        min = this.mOriginalCapturedViewLeft - child.getWidth();
+                        max = this.mOriginalCapturedViewLeft;
+                    } else {
+                        min = this.mOriginalCapturedViewLeft;
+                        max = this.mOriginalCapturedViewLeft + child.getWidth();
+                    }
+                } else if (_this.mSwipeDirection == SwipeDismissBehavior.SWIPE_DIRECTION_END_TO_START) {
+                    if (isRtl) {
+                        min = this.mOriginalCapturedViewLeft;
+                        max = this.mOriginalCapturedViewLeft + child.getWidth();
+                    } else {
+                        min = this.mOriginalCapturedViewLeft - child.getWidth();
+                        max = this.mOriginalCapturedViewLeft;
+                    }
+                } else {
+                    min = this.mOriginalCapturedViewLeft - child.getWidth();
+                    max = this.mOriginalCapturedViewLeft + child.getWidth();
+                }
+
+                return SwipeDismissBehavior.clamp(min, left, max);
+            }
+
+            clampViewPositionVertical(child:View, top:number, dy:number):number {
+                return child.getTop();
+            }
+
+            onViewPositionChanged(child:View, left:number, top:number, dx:number, dy:number):void {
+                const startAlphaDistance:number = this.mOriginalCapturedViewLeft
+                    + child.getWidth() * _this.mAlphaStartSwipeDistance;
+                const endAlphaDistance:number = this.mOriginalCapturedViewLeft
+                    + child.getWidth() * _this.mAlphaEndSwipeDistance;
+                const offset:number = Math.abs(left - this.mOriginalCapturedViewLeft) + this.mOriginalCapturedViewLeft;
+
+                if (offset <= startAlphaDistance) {
+                    child.setAlpha(1);
+                } else if (offset >= endAlphaDistance) {
+                    child.setAlpha(0);
+                } else {
+                    // We're between the start and end distances
+                    const distance:number = SwipeDismissBehavior.fraction(startAlphaDistance, endAlphaDistance, offset);
+                    child.setAlpha(SwipeDismissBehavior.clamp(0, 1 - distance, 1));
+                }
+            }
+        }
+        return new _Inner();
+    })();
+
+    private ensureViewDragHelper(parent:CoordinatorLayout):void {
+        if (this.mViewDragHelper == null) {
+            this.mViewDragHelper = this.mSensitivitySet
+                ? ViewDragHelper.create(parent, this.mSensitivity, this.mDragCallback)
+                : ViewDragHelper.create(parent, this.mDragCallback);
+        }
+    }
+
+    /**
+     * Retrieve the current drag state of this behavior. This will return one of
+     * {@link #STATE_IDLE}, {@link #STATE_DRAGGING} or {@link #STATE_SETTLING}.
+     *
+     * @return The current drag state
+     */
+    getDragState():number {
+        return this.mViewDragHelper != null ? this.mViewDragHelper.getViewDragState() : SwipeDismissBehavior.STATE_IDLE;
+    }
+
+    private static clamp(min:number, value:number, max:number):number {
+        return Math.min(Math.max(min, value), max);
+    }
+
+    /**
+     * Returns the fraction that {@code value} is between {@code startValue} and {@code endValue}.
+     */
+    static fraction(startValue:number, endValue:number, value:number):number {
+        return (value - startValue) / (endValue - startValue);
+    }
+}
+
+export module SwipeDismissBehavior{
+/**
+ * Callback interface used to notify the application that the view has been dismissed.
+ */
+export interface OnDismissListener {
+    /**
+     * Called when {@code view} has been dismissed via swiping.
+     */
+    onDismiss(view:View):void;
+
+    /**
+     * Called when the drag state has changed.
+     *
+     * @param state the new state. One of
+     * {@link #STATE_IDLE}, {@link #STATE_DRAGGING} or {@link #STATE_SETTLING}.
+     */
+    onDragStateChanged(state:number):void;
+}
+
+export class SettleRunnable implements Runnable {
+    private mView:View;
+    private mDismiss:boolean;
+    _SwipeDismissBehavior_this:SwipeDismissBehavior<any>;
+
+    constructor(view:View, dismiss:boolean, arg:SwipeDismissBehavior<any>) {
+        this.mView = view;
+        this.mDismiss = dismiss;
+        this._SwipeDismissBehavior_this = arg;
+    }
+
+    run():void {
+        const behavior = this._SwipeDismissBehavior_this;
+        if (behavior.mViewDragHelper != null && behavior.mViewDragHelper.continueSettling(true)) {
+            this.mView.postOnAnimation(this);
+        } else {
+            if (this.mDismiss && behavior.mListener != null) {
+                behavior.mListener.onDismiss(this.mView);
+            }
+        }
+    }
+}
+}
+}
@@ -0,0 +1,59 @@
+/*
+ * Copyright (C) 2016 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import Drawable = android.graphics.drawable.Drawable;
+import Context = android.content.Context;
+
+/**
+ * TabItem is a special 'view' which allows you to declare tab items for a {@link TabLayout}
+ * within a layout. This view is not actually added to TabLayout, it is just a dummy which allows
+ * setting of a tab items's text, icon and custom layout. See TabLayout for more information on how
+ * to use it.
+ * <pre>
+ * &lt;android.support.design.widget.TabLayout&gt;
+ *     &lt;android.support.design.widget.TabItem android:text="Home" android:icon="@drawable/home"/&gt;
+ *     &lt;android.support.design.widget.TabItem android:layout="@layout/custom_tab"/&gt;
+ * &lt;/android.support.design.widget.TabLayout&gt;
+ * </pre>
+ */
+export class TabItem extends View {
+
+    mText:string;
+
+    mIcon:Drawable;
+
+    mCustomLayout:string;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any){
+        super(context, bindElement, defStyle);
+        this._attrBinder.addAttr('text', (value)=>{
+            this.mText = this._attrBinder.parseString(value);
+        });
+        this._attrBinder.addAttr('icon', (value)=>{
+            this.mIcon = this._attrBinder.parseDrawable(value);
+        });
+        this._attrBinder.addAttr('layout', (value)=>{
+            this.mCustomLayout = value;
+        });
+    }
+}
+}
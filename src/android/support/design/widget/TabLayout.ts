@@ -0,0 +1,1667 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/Gravity.ts"/>
+///<reference path="../../../../android/view/LayoutInflater.ts"/>
+///<reference path="../../../../android/view/animation/AccelerateDecelerateInterpolator.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/Paint.ts"/>
+///<reference path="../../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../android/content/res/Resources.ts"/>
+///<reference path="../../../../android/content/res/ColorStateList.ts"/>
+///<reference path="../../../../android/database/DataSetObserver.ts"/>
+///<reference path="../../../../android/animation/Animator.ts"/>
+///<reference path="../../../../android/animation/ValueAnimator.ts"/>
+///<reference path="../../../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../../../android/text/TextUtils.ts"/>
+///<reference path="../../../../android/widget/HorizontalScrollView.ts"/>
+///<reference path="../../../../android/widget/FrameLayout.ts"/>
+///<reference path="../../../../android/widget/LinearLayout.ts"/>
+///<reference path="../../../../android/widget/TextView.ts"/>
+///<reference path="../../../../android/widget/ImageView.ts"/>
+///<reference path="../../../../android/support/v4/view/ViewPager.ts"/>
+///<reference path="../../../../android/support/v4/view/PagerAdapter.ts"/>
+///<reference path="../../../../android/R/attr.ts"/>
+///<reference path="../../../../android/R/id.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="TabItem.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Gravity = android.view.Gravity;
+import LayoutInflater = android.view.LayoutInflater;
+import AccelerateDecelerateInterpolator = android.view.animation.AccelerateDecelerateInterpolator;
+import Canvas = android.graphics.Canvas;
+import Paint = android.graphics.Paint;
+import Drawable = android.graphics.drawable.Drawable;
+import Context = android.content.Context;
+import Resources = android.content.res.Resources;
+import ColorStateList = android.content.res.ColorStateList;
+import DataSetObserver = android.database.DataSetObserver;
+import Animator = android.animation.Animator;
+import ValueAnimator = android.animation.ValueAnimator;
+import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+import TextUtils = android.text.TextUtils;
+import HorizontalScrollView = android.widget.HorizontalScrollView;
+import FrameLayout = android.widget.FrameLayout;
+import LinearLayout = android.widget.LinearLayout;
+import TextView = android.widget.TextView;
+import ImageView = android.widget.ImageView;
+import ViewPager = android.support.v4.view.ViewPager;
+import PagerAdapter = android.support.v4.view.PagerAdapter;
+import R = android.R;
+import ArrayList = java.util.ArrayList;
+
+/**
+ * TabLayout provides a horizontal layout to display tabs.
+ *
+ * <p>Population of the tabs to display is
+ * done through {@link Tab} instances. You create tabs via {@link #newTab()}. From there you can
+ * change the tab's label or icon via {@link Tab#setText(String)} and {@link Tab#setIcon(Drawable)}
+ * respectively. To display the tab, you need to add it to the layout via one of the
+ * {@link #addTab(Tab)} methods. For example:
+ * <pre>
+ * let tabLayout = ...;
+ * tabLayout.addTab(tabLayout.newTab().setText("Tab 1"));
+ * tabLayout.addTab(tabLayout.newTab().setText("Tab 2"));
+ * tabLayout.addTab(tabLayout.newTab().setText("Tab 3"));
+ * </pre>
+ * You should set a listener via {@link #setOnTabSelectedListener(OnTabSelectedListener)} to be
+ * notified when any tab's selection state has been changed.
+ *
+ * <p>You can also add items to TabLayout in your layout through the use of {@link TabItem}.
+ * An example usage is like so:</p>
+ *
+ * <pre>
+ * &lt;android.support.design.widget.TabLayout
+ *         android:layout_height="wrap_content"
+ *         android:layout_width="match_parent"&gt;
+ *
+ *     &lt;android.support.design.widget.TabItem
+ *             android:text="@string/tab_text"/&gt;
+ *
+ *     &lt;android.support.design.widget.TabItem
+ *             android:icon="@drawable/ic_android"/&gt;
+ *
+ * &lt;/android.support.design.widget.TabLayout&gt;
+ * </pre>
+ *
+ * <h3>ViewPager integration</h3>
+ * <p>
+ * If you're using a {@link android.support.v4.view.ViewPager} together
+ * with this layout, you can call {@link #setupWithViewPager(ViewPager)} to link the two together.
+ * This layout will be automatically populated from the {@link PagerAdapter}'s page titles.</p>
+ *
+ * @see TabItem
+ */
+export class TabLayout extends HorizontalScrollView {
+
+    // dps
+    private static DEFAULT_HEIGHT_WITH_TEXT_ICON:number = 72;
+
+    // dps
+    private static DEFAULT_GAP_TEXT_ICON:number = 8;
+
+    private static INVALID_WIDTH:number = -1;
+
+    // dps
+    private static DEFAULT_HEIGHT:number = 48;
+
+    // dps
+    private static TAB_MIN_WIDTH_MARGIN:number = 56;
+
+    // dps
+    private static FIXED_WRAP_GUTTER_MIN:number = 16;
+
+    // dps
+    private static MOTION_NON_ADJACENT_OFFSET:number = 24;
+
+    // dps
+    private static SCROLLABLE_TAB_MIN_WIDTH:number = 72;
+
+    private static ANIMATION_DURATION:number = 300;
+
+    /**
+     * Scrollable tabs display a subset of tabs at any given moment, and can contain longer tab
+     * labels and a larger number of tabs. They are best used for browsing contexts in touch
+     * interfaces when users don’t need to directly compare the tab labels.
+     *
+     * @see #setTabMode(int)
+     * @see #getTabMode()
+     */
+    static MODE_SCROLLABLE:number = 0;
+
+    /**
+     * Fixed tabs display all tabs concurrently and are best used with content that benefits from
+     * quick pivots between tabs. The maximum number of tabs is limited by the view’s width.
+     * Fixed tabs have equal width, based on the widest tab label.
+     *
+     * @see #setTabMode(int)
+     * @see #getTabMode()
+     */
+    static MODE_FIXED:number = 1;
+
+    /**
+     * Gravity used to fill the {@link TabLayout} as much as possible. This option only takes effect
+     * when used with {@link #MODE_FIXED}.
+     *
+     * @see #setTabGravity(int)
+     * @see #getTabGravity()
+     */
+    static GRAVITY_FILL:number = 0;
+
+    /**
+     * Gravity used to lay out the tabs in the center of the {@link TabLayout}.
+     *
+     * @see #setTabGravity(int)
+     * @see #getTabGravity()
+     */
+    static GRAVITY_CENTER:number = 1;
+
+    private mTabs:ArrayList<TabLayout.Tab> = new ArrayList<TabLayout.Tab>();
+
+    private mSelectedTab:TabLayout.Tab;
+
+    private mTabStrip:TabLayout.SlidingTabStrip;
+
+    mTabPaddingStart:number = 0;
+
+    mTabPaddingTop:number = 0;
+
+    mTabPaddingEnd:number = 0;
+
+    mTabPaddingBottom:number = 0;
+
+    mTabTextSize:number = 0;
+
+    mTabTextColors:ColorStateList;
+
+    mTabBackground:Drawable;
+
+    mTabMaxWidth:number = Number.MAX_SAFE_INTEGER;
+
+    private mRequestedTabMinWidth:number = TabLayout.INVALID_WIDTH;
+
+    private mRequestedTabMaxWidth:number = TabLayout.INVALID_WIDTH;
+
+    private mScrollableTabMinWidth:number = 0;
+
+    private mContentInsetStart:number = 0;
+
+    mTabGravity:number = TabLayout.GRAVITY_FILL;
+
+    mMode:number = TabLayout.MODE_FIXED;
+
+    private mOnTabSelectedListener:TabLayout.OnTabSelectedListener;
+
+    private mScrollAnimator:ValueAnimator;
+
+    private mViewPager:ViewPager;
+
+    private mPagerAdapter:PagerAdapter;
+
+    private mPagerAdapterObserver:DataSetObserver;
+
+    private mPageChangeListener:TabLayout.TabLayoutOnPageChangeListener;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle:any=R.attr.tabLayoutStyle){
+        super(context, bindElement, null);
+        // Disable the Scroll Bar
+        this.setHorizontalScrollBarEnabled(false);
+        // Add the TabStrip
+        this.mTabStrip = new TabLayout.SlidingTabStrip(context, this);
+        super.addView(this.mTabStrip, 0, new FrameLayout.LayoutParams(
+            ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.MATCH_PARENT));
+        this.mScrollableTabMinWidth = this.dpToPx(TabLayout.SCROLLABLE_TAB_MIN_WIDTH);
+
+        const a = this._attrBinder;
+        a.addAttr('tabIndicatorHeight', (value)=>{
+            this.setSelectedTabIndicatorHeight(a.parseNumber(value, 0));
+        });
+        a.addAttr('tabIndicatorColor', (value)=>{
+            this.setSelectedTabIndicatorColor(a.parseColor(value, 0));
+        });
+        a.addAttr('tabPadding', (value)=>{
+            const padding = a.parseNumber(value, 0);
+            this.mTabPaddingStart = this.mTabPaddingTop = this.mTabPaddingEnd = this.mTabPaddingBottom = padding;
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabPaddingStart', (value)=>{
+            this.mTabPaddingStart = a.parseNumber(value, this.mTabPaddingStart);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabPaddingTop', (value)=>{
+            this.mTabPaddingTop = a.parseNumber(value, this.mTabPaddingTop);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabPaddingEnd', (value)=>{
+            this.mTabPaddingEnd = a.parseNumber(value, this.mTabPaddingEnd);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabPaddingBottom', (value)=>{
+            this.mTabPaddingBottom = a.parseNumber(value, this.mTabPaddingBottom);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabTextSize', (value)=>{
+            this.mTabTextSize = a.parseNumber(value, this.mTabTextSize);
+            this.updateAllTabs();
+        });
+        a.addAttr('tabTextColor', (value)=>{
+            const textColors = a.parseColorList(value);
+            if (this.mTabTextColors != null && textColors != null && textColors.isStateful() == false) {
+                // keep the selected color if only the normal color changes
+                const selected = this.mTabTextColors.getColorForState(View.SELECTED_STATE_SET, textColors.getDefaultColor());
+                this.setTabTextColors(TabLayout.createColorStateList(textColors.getDefaultColor(), selected));
+            } else {
+                this.setTabTextColors(textColors);
+            }
+        });
+        a.addAttr('tabSelectedTextColor', (value)=>{
+            const normal = this.mTabTextColors != null ? this.mTabTextColors.getDefaultColor() : 0xff000000;
+            this.setTabTextColors(TabLayout.createColorStateList(normal, a.parseColor(value, normal)));
+        });
+        a.addAttr('tabBackground', (value)=>{
+            this.mTabBackground = a.parseDrawable(value);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabMinWidth', (value)=>{
+            this.mRequestedTabMinWidth = a.parseNumber(value, TabLayout.INVALID_WIDTH);
+            this.updateTabViews(true);
+        });
+        a.addAttr('tabMaxWidth', (value)=>{
+            this.mRequestedTabMaxWidth = a.parseNumber(value, TabLayout.INVALID_WIDTH);
+            this.requestLayout();
+        });
+        a.addAttr('tabContentStart', (value)=>{
+            this.mContentInsetStart = a.parseNumber(value, 0);
+            this.applyModeAndGravity();
+        });
+        a.addAttr('tabMode', (value)=>{
+            this.setTabMode((value + '').toLowerCase() == 'scrollable' ? TabLayout.MODE_SCROLLABLE : TabLayout.MODE_FIXED);
+        });
+        a.addAttr('tabGravity', (value)=>{
+            this.setTabGravity((value + '').toLowerCase() == 'center' ? TabLayout.GRAVITY_CENTER : TabLayout.GRAVITY_FILL);
+        });
+
+        if(defStyle) this.applyDefaultAttributes(defStyle);
+        // Now apply the tab mode and gravity
+        this.applyModeAndGravity();
+    }
+
+    /**
+     * Sets the tab indicator's color for the currently selected tab.
+     *
+     * @param color color to use for the indicator
+     */
+    setSelectedTabIndicatorColor(color:number):void  {
+        this.mTabStrip.setSelectedIndicatorColor(color);
+    }
+
+    /**
+     * Sets the tab indicator's height for the currently selected tab.
+     *
+     * @param height height to use for the indicator in pixels
+     */
+    setSelectedTabIndicatorHeight(height:number):void  {
+        this.mTabStrip.setSelectedIndicatorHeight(height);
+    }
+
+    /**
+     * Set the scroll position of the tabs. This is useful for when the tabs are being displayed as
+     * part of a scrolling container such as {@link ViewPager}.
+     * <p>
+     * Calling this method does not update the selected tab, it is only used for drawing purposes.
+     *
+     * @param position current scroll position
+     * @param positionOffset Value from [0, 1) indicating the offset from {@code position}.
+     * @param updateSelectedText Whether to update the text's selected state.
+     */
+    setScrollPosition(position:number, positionOffset:number, updateSelectedText:boolean):void  {
+        const roundedPosition:number = Math.round(position + positionOffset);
+        if (roundedPosition < 0 || roundedPosition >= this.mTabStrip.getChildCount()) {
+            return;
+        }
+        if (this.mScrollAnimator != null && this.mScrollAnimator.isRunning()) {
+            this.mScrollAnimator.cancel();
+        }
+        // Set the indicator position and update the scroll to match
+        this.mTabStrip.setIndicatorPositionFromTabPosition(position, positionOffset);
+        this.scrollTo(this.calculateScrollXForTab(position, positionOffset), 0);
+        // Update the 'selected state' view as we scroll
+        if (updateSelectedText) {
+            this.setSelectedTabView(roundedPosition);
+        }
+    }
+
+    private getScrollPosition():number  {
+        return this.mTabStrip.getIndicatorPosition();
+    }
+
+    /**
+     * Add a tab to this layout. The tab will be inserted at <code>position</code>, or added at the
+     * end when no position is given. If this is the first tab to be added it will become the
+     * selected tab, unless <code>setSelected</code> says otherwise.
+     *
+     * @param tab Tab to add
+     * @param position The new position of the tab
+     * @param setSelected True if the added tab should become the selected tab.
+     */
+    addTab(tab:TabLayout.Tab, setSelected?:boolean):void;
+    addTab(tab:TabLayout.Tab, position:number, setSelected?:boolean):void;
+    addTab(...args):void  {
+        const tab:TabLayout.Tab = args[0];
+        let position = this.mTabs.size();
+        let setSelected = this.mTabs.isEmpty();
+        if (typeof args[1] === 'number') {
+            position = args[1];
+            if (args.length > 2) setSelected = args[2];
+        } else if (typeof args[1] === 'boolean') {
+            setSelected = args[1];
+        }
+        if (tab.mParent != this) {
+            throw Error(`new IllegalArgumentException("Tab belongs to a different TabLayout.")`);
+        }
+        this.addTabView(tab, position, setSelected);
+        this.configureTab(tab, position);
+        if (setSelected) {
+            tab.select();
+        }
+    }
+
+    private addTabFromItemView(item:TabItem):void  {
+        const tab:TabLayout.Tab = this.newTab();
+        if (item.mText != null) {
+            tab.setText(item.mText);
+        }
+        if (item.mIcon != null) {
+            tab.setIcon(item.mIcon);
+        }
+        if (item.mCustomLayout != null) {
+            tab.setCustomView(item.mCustomLayout);
+        }
+        this.addTab(tab);
+        // The item only describes the tab, drop its element from the layout
+        const element = item.bindElement;
+        if (element != null && element.parentNode != null) {
+            element.parentNode.removeChild(element);
+        }
+    }
+
+    /**
+     * Set the {@link TabLayout.OnTabSelectedListener} that will handle switching to and from tabs.
+     *
+     * @param onTabSelectedListener Listener to handle tab selection events
+     */
+    setOnTabSelectedListener(onTabSelectedListener:TabLayout.OnTabSelectedListener):void  {
+        this.mOnTabSelectedListener = onTabSelectedListener;
+    }
+
+    /**
+     * Create and return a new {@link Tab}. You need to manually add this using
+     * {@link #addTab(Tab)} or a related method.
+     *
+     * @return A new Tab
+     * @see #addTab(Tab)
+     */
+    newTab():TabLayout.Tab  {
+        const tab:TabLayout.Tab = new TabLayout.Tab(this);
+        tab.mView = this.createTabView(tab);
+        return tab;
+    }
+
+    /**
+     * Returns the number of tabs currently registered with the action bar.
+     *
+     * @return Tab count
+     */
+    getTabCount():number  {
+        return this.mTabs.size();
+    }
+
+    /**
+     * Returns the tab at the specified index.
+     */
+    getTabAt(index:number):TabLayout.Tab  {
+        return index < 0 || index >= this.mTabs.size() ? null : this.mTabs.get(index);
+    }
+
+    /**
+     * Returns the position of the current selected tab.
+     *
+     * @return selected tab position, or {@code -1} if there isn't a selected tab.
+     */
+    getSelectedTabPosition():number  {
+        return this.mSelectedTab != null ? this.mSelectedTab.getPosition() : -1;
+    }
+
+    /**
+     * Remove a tab from the layout. If the removed tab was selected it will be deselected
+     * and another tab will be selected if present.
+     *
+     * @param tab The tab to remove
+     */
+    removeTab(tab:TabLayout.Tab):void  {
+        if (tab.mParent != this) {
+            throw Error(`new IllegalArgumentException("Tab does not belong to this TabLayout.")`);
+        }
+        this.removeTabAt(tab.getPosition());
+    }
+
+    /**
+     * Remove a tab from the layout. If the removed tab was selected it will be deselected
+     * and another tab will be selected if present.
+     *
+     * @param position Position of the tab to remove
+     */
+    removeTabAt(position:number):void  {
+        const selectedTabPosition:number = this.mSelectedTab != null ? this.mSelectedTab.getPosition() : 0;
+        this.removeTabViewAt(position);
+        const removedTab:TabLayout.Tab = this.mTabs.remove(position);
+        if (removedTab != null) {
+            removedTab.reset();
+        }
+        const newTabCount:number = this.mTabs.size();
+        for (let i:number = position; i < newTabCount; i++) {
+            this.mTabs.get(i).setPosition(i);
+        }
+        if (selectedTabPosition == position) {
+            this.selectTab(this.mTabs.isEmpty() ? null : this.mTabs.get(Math.max(0, position - 1)));
+        }
+    }
+
+    /**
+     * Remove all tabs from the action bar and deselect the current tab.
+     */
+    removeAllTabs():void  {
+        // Remove all the views
+        for (let i:number = this.mTabStrip.getChildCount() - 1; i >= 0; i--) {
+            this.removeTabViewAt(i);
+        }
+        for (let tab of this.mTabs.toArray()) {
+            tab.reset();
+        }
+        this.mTabs.clear();
+        this.mSelectedTab = null;
+    }
+
+    /**
+     * Set the behavior mode for the Tabs in this layout. The valid input options are:
+     * <ul>
+     * <li>{@link #MODE_FIXED}: Fixed tabs display all tabs concurrently and are best used
+     * with content that benefits from quick pivots between tabs.</li>
+     * <li>{@link #MODE_SCROLLABLE}: Scrollable tabs display a subset of tabs at any given moment,
+     * and can contain longer tab labels and a larger number of tabs. They are best used for
+     * browsing contexts in touch interfaces when users don’t need to directly compare the tab
+     * labels. This mode is commonly used with a {@link android.support.v4.view.ViewPager}.</li>
+     * </ul>
+     *
+     * @param mode one of {@link #MODE_FIXED} or {@link #MODE_SCROLLABLE}.
+     */
+    setTabMode(mode:number):void  {
+        if (mode != this.mMode) {
+            this.mMode = mode;
+            this.applyModeAndGravity();
+        }
+    }
+
+    /**
+     * Returns the current mode used by this {@link TabLayout}.
+     *
+     * @see #setTabMode(int)
+     */
+    getTabMode():number  {
+        return this.mMode;
+    }
+
+    /**
+     * Set the gravity to use when laying out the tabs.
+     *
+     * @param gravity one of {@link #GRAVITY_CENTER} or {@link #GRAVITY_FILL}.
+     */
+    setTabGravity(gravity:number):void  {
+        if (this.mTabGravity != gravity) {
+            this.mTabGravity = gravity;
+            this.applyModeAndGravity();
+        }
+    }
+
+    /**
+     * The current gravity used for laying out tabs.
+     *
+     * @return one of {@link #GRAVITY_CENTER} or {@link #GRAVITY_FILL}.
+     */
+    getTabGravity():number  {
+        return this.mTabGravity;
+    }
+
+    /**
+     * Sets the text colors for the different states (normal, selected) used for the tabs.
+     */
+    setTabTextColors(textColor:ColorStateList):void;
+    setTabTextColors(normalColor:number, selectedColor:number):void;
+    setTabTextColors(...args):void  {
+        let textColor:ColorStateList = args[0];
+        if (typeof args[0] === 'number') {
+            textColor = TabLayout.createColorStateList(args[0], args[1]);
+        }
+        if (this.mTabTextColors != textColor) {
+            this.mTabTextColors = textColor;
+            this.updateAllTabs();
+        }
+    }
+
+    /**
+     * Gets the text colors for the different states (normal, selected) used for the tabs.
+     */
+    getTabTextColors():ColorStateList  {
+        return this.mTabTextColors;
+    }
+
+    /**
+     * The one-stop shop for setting up this {@link TabLayout} with a {@link ViewPager}.
+     *
+     * <p>This method will link the given ViewPager and this TabLayout together so that any
+     * changes in one are automatically reflected in the other. This includes adapter changes,
+     * scroll state changes, and clicks. The tabs displayed in this layout will be populated
+     * from the ViewPager adapter's page titles.</p>
+     *
+     * <p>After this method is called, you will not need this method again unless you change
+     * the ViewPager's adapter.</p>
+     *
+     * @param viewPager The ViewPager to link to, or {@code null} to clear any previous link.
+     */
+    setupWithViewPager(viewPager:ViewPager):void  {
+        if (this.mViewPager != null && this.mPageChangeListener != null) {
+            // If we've already been setup with a ViewPager, remove us from it
+            this.mViewPager.removeOnPageChangeListener(this.mPageChangeListener);
+        }
+        if (viewPager != null) {
+            const adapter:PagerAdapter = viewPager.getAdapter();
+            if (adapter == null) {
+                throw Error(`new IllegalArgumentException("ViewPager does not have a PagerAdapter set")`);
+            }
+            this.mViewPager = viewPager;
+            // Add our custom OnPageChangeListener to the ViewPager
+            if (this.mPageChangeListener == null) {
+                this.mPageChangeListener = new TabLayout.TabLayoutOnPageChangeListener(this);
+            }
+            this.mPageChangeListener.reset();
+            viewPager.addOnPageChangeListener(this.mPageChangeListener);
+            // Now we'll add a tab selected listener to set ViewPager's current item
+            this.setOnTabSelectedListener(new TabLayout.ViewPagerOnTabSelectedListener(viewPager));
+            // Now we'll populate ourselves from the pager adapter
+            this.setPagerAdapter(adapter, true);
+        } else {
+            // We've been given a null ViewPager so we need to clear out the internal state,
+            // listeners and observers
+            this.mViewPager = null;
+            this.setOnTabSelectedListener(null);
+            this.setPagerAdapter(null, true);
+        }
+    }
+
+    /**
+     * Populate our tab content from the given {@link PagerAdapter}.
+     * <p>
+     * Any existing tabs will be removed first. Each tab will have it's text set to the value
+     * returned from {@link PagerAdapter#getPageTitle(int)}
+     * </p>
+     *
+     * @param adapter the adapter to populate from
+     * @deprecated Use {@link #setupWithViewPager(ViewPager)} to link a TabLayout with a ViewPager
+     *             together. When that method is used, the TabLayout will be automatically updated
+     *             when the {@link PagerAdapter} is changed.
+     */
+    setTabsFromPagerAdapter(adapter:PagerAdapter):void  {
+        this.setPagerAdapter(adapter, false);
+    }
+
+    private setPagerAdapter(adapter:PagerAdapter, addObserver:boolean):void  {
+        if (this.mPagerAdapter != null && this.mPagerAdapterObserver != null) {
+            // If we already have a PagerAdapter, unregister our observer
+            this.mPagerAdapter.unregisterDataSetObserver(this.mPagerAdapterObserver);
+        }
+        this.mPagerAdapter = adapter;
+        if (addObserver && adapter != null) {
+            // Register our observer on the new adapter
+            if (this.mPagerAdapterObserver == null) {
+                this.mPagerAdapterObserver = new TabLayout.PagerAdapterObserver(this);
+            }
+            adapter.registerDataSetObserver(this.mPagerAdapterObserver);
+        }
+        // Finally make sure we reflect the new adapter
+        this.populateFromPagerAdapter();
+    }
+
+    populateFromPagerAdapter():void  {
+        this.removeAllTabs();
+        if (this.mPagerAdapter != null) {
+            const adapterCount:number = this.mPagerAdapter.getCount();
+            for (let i:number = 0; i < adapterCount; i++) {
+                this.addTab(this.newTab().setText(this.mPagerAdapter.getPageTitle(i)), false);
+            }
+            // Make sure we reflect the currently set ViewPager item
+            if (this.mViewPager != null && adapterCount > 0) {
+                const curItem:number = this.mViewPager.getCurrentItem();
+                if (curItem != this.getSelectedTabPosition() && curItem < this.getTabCount()) {
+                    this.selectTab(this.getTabAt(curItem));
+                }
+            }
+        } else {
+            this.removeAllTabs();
+        }
+    }
+
+    private updateAllTabs():void  {
+        for (let i:number = 0, z:number = this.mTabs.size(); i < z; i++) {
+            this.mTabs.get(i).updateView();
+        }
+    }
+
+    private createTabView(tab:TabLayout.Tab):TabLayout.TabView  {
+        const tabView:TabLayout.TabView = new TabLayout.TabView(this.getContext(), tab, this);
+        tabView.setFocusable(true);
+        tabView.setMinimumWidth(this.getTabMinWidth());
+        return tabView;
+    }
+
+    private configureTab(tab:TabLayout.Tab, position:number):void  {
+        tab.setPosition(position);
+        this.mTabs.add(position, tab);
+        const count:number = this.mTabs.size();
+        for (let i:number = position + 1; i < count; i++) {
+            this.mTabs.get(i).setPosition(i);
+        }
+    }
+
+    private addTabView(tab:TabLayout.Tab, position:number, setSelected:boolean):void  {
+        const tabView:TabLayout.TabView = tab.mView;
+        this.mTabStrip.addView(tabView, position, this.createLayoutParamsForTabs());
+        if (setSelected) {
+            tabView.setSelected(true);
+        }
+    }
+
+    addView(view:View);
+    addView(view:View, index:number);
+    addView(view:View, params:ViewGroup.LayoutParams);
+    addView(view:View, index:number, params:ViewGroup.LayoutParams);
+    addView(view:View, width:number, height:number);
+    addView(...args);
+    addView(...args) {
+        this.addViewInternal(args[0]);
+    }
+
+    private addViewInternal(child:View):void  {
+        if (child instanceof TabItem) {
+            this.addTabFromItemView(<TabItem>child);
+        } else {
+            throw Error(`new IllegalArgumentException("Only TabItem instances can be added to TabLayout")`);
+        }
+    }
+
+    private createLayoutParamsForTabs():LinearLayout.LayoutParams  {
+        const lp = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.MATCH_PARENT);
+        this.updateTabViewLayoutParams(lp);
+        return lp;
+    }
+
+    private updateTabViewLayoutParams(lp:LinearLayout.LayoutParams):void  {
+        if (this.mMode == TabLayout.MODE_FIXED && this.mTabGravity == TabLayout.GRAVITY_FILL) {
+            lp.width = 0;
+            lp.weight = 1;
+        } else {
+            lp.width = ViewGroup.LayoutParams.WRAP_CONTENT;
+            lp.weight = 0;
+        }
+    }
+
+    dpToPx(dps:number):number  {
+        return Math.round(Resources.getDisplayMetrics().density * dps);
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        // If we have a MeasureSpec which allows us to decide our height, try and use the default
+        // height
+        const idealHeight:number = this.dpToPx(this.getDefaultHeight()) + this.getPaddingTop() + this.getPaddingBottom();
+        switch (View.MeasureSpec.getMode(heightMeasureSpec)) {
+            case View.MeasureSpec.AT_MOST:
+                heightMeasureSpec = View.MeasureSpec.makeMeasureSpec(
+                    Math.min(idealHeight, View.MeasureSpec.getSize(heightMeasureSpec)), View.MeasureSpec.EXACTLY);
+                break;
+            case View.MeasureSpec.UNSPECIFIED:
+                heightMeasureSpec = View.MeasureSpec.makeMeasureSpec(idealHeight, View.MeasureSpec.EXACTLY);
+                break;
+        }
+        const specWidth:number = View.MeasureSpec.getSize(widthMeasureSpec);
+        if (View.MeasureSpec.getMode(widthMeasureSpec) != View.MeasureSpec.UNSPECIFIED) {
+            // If we don't have an unspecified width spec, use the given size to calculate
+            // the max tab width
+            this.mTabMaxWidth = this.mRequestedTabMaxWidth > 0
+                ? this.mRequestedTabMaxWidth : specWidth - this.dpToPx(TabLayout.TAB_MIN_WIDTH_MARGIN);
+        }
+        // Now super measure itself using the (possibly) modified height spec
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        if (this.getChildCount() == 1) {
+            // If we're in fixed mode then we need to make the tab strip is the same width as us
+            // so we don't scroll
+            const child:View = this.getChildAt(0);
+            let remeasure:boolean = false;
+            switch (this.mMode) {
+                case TabLayout.MODE_SCROLLABLE:
+                    // We only need to resize the child if it's smaller than us. This is similar
+                    // to fillViewport
+                    remeasure = child.getMeasuredWidth() < this.getMeasuredWidth();
+                    break;
+                case TabLayout.MODE_FIXED:
+                    // Resize the child so that it doesn't scroll
+                    remeasure = child.getMeasuredWidth() != this.getMeasuredWidth();
+                    break;
+            }
+            if (remeasure) {
+                // Re-measure the child with a widthSpec set to be exactly our measure width
+                const childHeightMeasureSpec:number = ViewGroup.getChildMeasureSpec(heightMeasureSpec,
+                    this.getPaddingTop() + this.getPaddingBottom(), child.getLayoutParams().height);
+                const childWidthMeasureSpec:number = View.MeasureSpec.makeMeasureSpec(
+                    this.getMeasuredWidth(), View.MeasureSpec.EXACTLY);
+                child.measure(childWidthMeasureSpec, childHeightMeasureSpec);
+            }
+        }
+    }
+
+    private removeTabViewAt(position:number):void  {
+        const view = <TabLayout.TabView>this.mTabStrip.getChildAt(position);
+        this.mTabStrip.removeViewAt(position);
+        if (view != null) {
+            view.reset();
+        }
+        this.requestLayout();
+    }
+
+    private animateToTab(newPosition:number):void  {
+        if (newPosition == TabLayout.Tab.INVALID_POSITION) {
+            return;
+        }
+        if (!this.isAttachedToWindow() || !this.isLaidOut() || this.mTabStrip.childrenNeedLayout()) {
+            // If we don't have a window token, or we haven't been laid out yet just draw the new
+            // position now
+            this.setScrollPosition(newPosition, 0, true);
+            return;
+        }
+        const startScrollX:number = this.getScrollX();
+        const targetScrollX:number = this.calculateScrollXForTab(newPosition, 0);
+        if (startScrollX != targetScrollX) {
+            if (this.mScrollAnimator != null) {
+                this.mScrollAnimator.cancel();
+            }
+            this.mScrollAnimator = ValueAnimator.ofInt(startScrollX, targetScrollX);
+            this.mScrollAnimator.setInterpolator(new AccelerateDecelerateInterpolator());
+            this.mScrollAnimator.setDuration(TabLayout.ANIMATION_DURATION);
+            this.mScrollAnimator.addUpdateListener({
+                onAnimationUpdate: (animator:ValueAnimator)=> {
+                    this.scrollTo(animator.getAnimatedValue(), 0);
+                }
+            });
+            this.mScrollAnimator.start();
+        }
+        // Now animate the indicator
+        this.mTabStrip.animateIndicatorToPosition(newPosition, TabLayout.ANIMATION_DURATION);
+    }
+
+    private setSelectedTabView(position:number):void  {
+        const tabCount:number = this.mTabStrip.getChildCount();
+        if (position < tabCount && !this.mTabStrip.getChildAt(position).isSelected()) {
+            for (let i:number = 0; i < tabCount; i++) {
+                const child:View = this.mTabStrip.getChildAt(i);
+                child.setSelected(i == position);
+            }
+        }
+    }
+
+    selectTab(tab:TabLayout.Tab, updateIndicator:boolean = true):void  {
+        const currentTab:TabLayout.Tab = this.mSelectedTab;
+        if (currentTab == tab) {
+            if (currentTab != null) {
+                if (this.mOnTabSelectedListener != null) {
+                    this.mOnTabSelectedListener.onTabReselected(currentTab);
+                }
+                this.animateToTab(tab.getPosition());
+            }
+        } else {
+            const newPosition:number = tab != null ? tab.getPosition() : TabLayout.Tab.INVALID_POSITION;
+            if (updateIndicator) {
+                if ((currentTab == null || currentTab.getPosition() == TabLayout.Tab.INVALID_POSITION)
+                    && newPosition != TabLayout.Tab.INVALID_POSITION) {
+                    // If we don't currently have a tab, just draw the indicator
+                    this.setScrollPosition(newPosition, 0, true);
+                } else {
+                    this.animateToTab(newPosition);
+                }
+            }
+            if (newPosition != TabLayout.Tab.INVALID_POSITION) {
+                this.setSelectedTabView(newPosition);
+            }
+            if (currentTab != null && this.mOnTabSelectedListener != null) {
+                this.mOnTabSelectedListener.onTabUnselected(currentTab);
+            }
+            this.mSelectedTab = tab;
+            if (tab != null && this.mOnTabSelectedListener != null) {
+                this.mOnTabSelectedListener.onTabSelected(tab);
+            }
+        }
+    }
+
+    private calculateScrollXForTab(position:number, positionOffset:number):number  {
+        if (this.mMode == TabLayout.MODE_SCROLLABLE) {
+            const selectedChild:View = this.mTabStrip.getChildAt(position);
+            if (selectedChild == null) {
+                return 0;
+            }
+            const nextChild:View = position + 1 < this.mTabStrip.getChildCount() ? this.mTabStrip.getChildAt(position + 1) : null;
+            const selectedWidth:number = selectedChild.getWidth();
+            const nextWidth:number = nextChild != null ? nextChild.getWidth() : 0;
+            return selectedChild.getLeft() + Math.floor((selectedWidth + nextWidth) * positionOffset * 0.5)
+                + Math.floor(selectedChild.getWidth() / 2) - Math.floor(this.getWidth() / 2);
+        }
+        return 0;
+    }
+
+    private applyModeAndGravity():void  {
+        let paddingStart:number = 0;
+        if (this.mMode == TabLayout.MODE_SCROLLABLE) {
+            // If we're scrollable, or fixed at start, inset using padding
+            paddingStart = Math.max(0, this.mContentInsetStart - this.mTabPaddingStart);
+        }
+        this.mTabStrip.setPadding(paddingStart, 0, 0, 0);
+        switch (this.mMode) {
+            case TabLayout.MODE_FIXED:
+                this.mTabStrip.setGravity(Gravity.CENTER_HORIZONTAL);
+                break;
+            case TabLayout.MODE_SCROLLABLE:
+                this.mTabStrip.setGravity(Gravity.START);
+                break;
+        }
+        this.updateTabViews(true);
+    }
+
+    updateTabViews(requestLayout:boolean):void  {
+        if (this.mTabStrip == null) {
+            return;
+        }
+        for (let i:number = 0; i < this.mTabStrip.getChildCount(); i++) {
+            const child = <TabLayout.TabView>this.mTabStrip.getChildAt(i);
+            child.setMinimumWidth(this.getTabMinWidth());
+            child.updateStyle();
+            this.updateTabViewLayoutParams(<LinearLayout.LayoutParams>child.getLayoutParams());
+            if (requestLayout) {
+                child.requestLayout();
+            }
+        }
+    }
+
+    private getDefaultHeight():number  {
+        let hasIconAndText:boolean = false;
+        for (let i:number = 0, count:number = this.mTabs.size(); i < count; i++) {
+            const tab:TabLayout.Tab = this.mTabs.get(i);
+            if (tab != null && tab.getIcon() != null && !TextUtils.isEmpty(tab.getText())) {
+                hasIconAndText = true;
+                break;
+            }
+        }
+        return hasIconAndText ? TabLayout.DEFAULT_HEIGHT_WITH_TEXT_ICON : TabLayout.DEFAULT_HEIGHT;
+    }
+
+    private getTabMinWidth():number  {
+        if (this.mRequestedTabMinWidth != TabLayout.INVALID_WIDTH) {
+            // If we have been given a min width, use it
+            return this.mRequestedTabMinWidth;
+        }
+        // Else, we'll use the default value
+        return this.mMode == TabLayout.MODE_SCROLLABLE ? this.mScrollableTabMinWidth : 0;
+    }
+
+    private static createColorStateList(defaultColor:number, selectedColor:number):ColorStateList  {
+        return new ColorStateList([View.SELECTED_STATE_SET, View.EMPTY_STATE_SET], [selectedColor, defaultColor]);
+    }
+}
+
+export module TabLayout{
+/**
+     * Callback interface invoked when a tab's selection state changes.
+     */
+export interface OnTabSelectedListener {
+
+    /**
+         * Called when a tab enters the selected state.
+         *
+         * @param tab The tab that was selected
+         */
+    onTabSelected(tab:TabLayout.Tab):void ;
+
+    /**
+         * Called when a tab exits the selected state.
+         *
+         * @param tab The tab that was unselected
+         */
+    onTabUnselected(tab:TabLayout.Tab):void ;
+
+    /**
+         * Called when a tab that is already selected is chosen again by the user. Some applications
+         * may use this action to return to the top level of a category.
+         *
+         * @param tab The tab that was reselected.
+         */
+    onTabReselected(tab:TabLayout.Tab):void ;
+}
+
+/**
+     * A tab in this layout. Instances can be created via {@link #newTab()}.
+     */
+export class Tab {
+
+    /**
+         * An invalid position for a tab.
+         *
+         * @see #getPosition()
+         */
+    static INVALID_POSITION:number = -1;
+
+    private mTag:any;
+
+    private mIcon:Drawable;
+
+    private mText:string;
+
+    private mPosition:number = Tab.INVALID_POSITION;
+
+    private mCustomView:View;
+
+    mParent:TabLayout;
+
+    mView:TabLayout.TabView;
+
+    constructor(parent:TabLayout) {
+        this.mParent = parent;
+    }
+
+    /**
+         * @return This Tab's tag object.
+         */
+    getTag():any  {
+        return this.mTag;
+    }
+
+    /**
+         * Give this Tab an arbitrary object to hold for later use.
+         *
+         * @param tag Object to store
+         * @return The current instance for call chaining
+         */
+    setTag(tag:any):Tab  {
+        this.mTag = tag;
+        return this;
+    }
+
+    /**
+         * Returns the custom view used for this tab.
+         *
+         * @see #setCustomView(View)
+         */
+    getCustomView():View  {
+        return this.mCustomView;
+    }
+
+    /**
+         * Set a custom view to be used for this tab.
+         * <p>
+         * If the provided view contains a {@link TextView} with an ID of
+         * {@link android.R.id#text1} then that will be updated with the value given
+         * to {@link #setText(String)}. Similarly, if this layout contains an
+         * {@link ImageView} with ID {@link android.R.id#icon} then it will be updated with
+         * the value given to {@link #setIcon(Drawable)}.
+         * </p>
+         *
+         * @param view Custom view to be used as a tab, or a layout reference to inflate it from.
+         * @return The current instance for call chaining
+         */
+    setCustomView(view:View|string):Tab  {
+        if (typeof view === 'string') {
+            view = LayoutInflater.from(this.mView.getContext()).inflate(<string>view, this.mView, false);
+        }
+        this.mCustomView = <View>view;
+        this.updateView();
+        return this;
+    }
+
+    /**
+         * Return the icon associated with this tab.
+         *
+         * @return The tab's icon
+         */
+    getIcon():Drawable  {
+        return this.mIcon;
+    }
+
+    /**
+         * Return the current position of this tab in the action bar.
+         *
+         * @return Current position, or {@link #INVALID_POSITION} if this tab is not currently in
+         * the action bar.
+         */
+    getPosition():number  {
+        return this.mPosition;
+    }
+
+    setPosition(position:number):void  {
+        this.mPosition = position;
+    }
+
+    /**
+         * Return the text of this tab.
+         *
+         * @return The tab's text
+         */
+    getText():string  {
+        return this.mText;
+    }
+
+    /**
+         * Set the icon displayed on this tab.
+         *
+         * @param icon The drawable to use as an icon
+         * @return The current instance for call chaining
+         */
+    setIcon(icon:Drawable):Tab  {
+        this.mIcon = icon;
+        this.updateView();
+        return this;
+    }
+
+    /**
+         * Set the text displayed on this tab. Text may be truncated if there is not room to display
+         * the entire string.
+         *
+         * @param text The text to display
+         * @return The current instance for call chaining
+         */
+    setText(text:string):Tab  {
+        this.mText = text;
+        this.updateView();
+        return this;
+    }
+
+    /**
+         * Select this tab. Only valid if the tab has been added to the action bar.
+         */
+    select():void  {
+        if (this.mParent == null) {
+            throw Error(`new IllegalArgumentException("Tab not attached to a TabLayout")`);
+        }
+        this.mParent.selectTab(this);
+    }
+
+    /**
+         * Returns true if this tab is currently selected.
+         */
+    isSelected():boolean  {
+        if (this.mParent == null) {
+            throw Error(`new IllegalArgumentException("Tab not attached to a TabLayout")`);
+        }
+        return this.mParent.getSelectedTabPosition() == this.mPosition;
+    }
+
+    updateView():void  {
+        if (this.mView != null) {
+            this.mView.update();
+        }
+    }
+
+    reset():void  {
+        this.mParent = null;
+        this.mView = null;
+        this.mTag = null;
+        this.mIcon = null;
+        this.mText = null;
+        this.mPosition = Tab.INVALID_POSITION;
+        this.mCustomView = null;
+    }
+}
+
+export class TabView extends LinearLayout {
+    _TabLayout_this:TabLayout;
+
+    private mTab:TabLayout.Tab;
+
+    private mTextView:TextView;
+
+    private mIconView:ImageView;
+
+    private mCustomView:View;
+
+    private mCustomTextView:TextView;
+
+    private mCustomIconView:ImageView;
+
+    constructor(context:Context, tab:TabLayout.Tab, arg:TabLayout) {
+        super(context);
+        this._TabLayout_this = arg;
+        this.mTab = tab;
+        this.updateStyle();
+        this.setGravity(Gravity.CENTER);
+        this.setOrientation(LinearLayout.VERTICAL);
+        this.setClickable(true);
+        this.update();
+    }
+
+    /**
+         * Applies the tab padding and background of the TabLayout.
+         */
+    updateStyle():void  {
+        const tabLayout = this._TabLayout_this;
+        this.setPadding(tabLayout.mTabPaddingStart, tabLayout.mTabPaddingTop, tabLayout.mTabPaddingEnd, tabLayout.mTabPaddingBottom);
+        const background = tabLayout.mTabBackground;
+        if (background == null) {
+            this.setBackground(null);
+        } else {
+            // Each tab needs its own drawable to keep its own state
+            const state = background.getConstantState();
+            this.setBackground(state != null ? state.newDrawable() : background);
+        }
+    }
+
+    performClick():boolean  {
+        const value:boolean = super.performClick();
+        if (this.mTab != null) {
+            this.mTab.select();
+            return true;
+        } else {
+            return value;
+        }
+    }
+
+    setSelected(selected:boolean):void  {
+        super.setSelected(selected);
+        // Always dispatch this to the child views, regardless of whether the value has
+        // changed
+        if (this.mTextView != null) {
+            this.mTextView.setSelected(selected);
+        }
+        if (this.mIconView != null) {
+            this.mIconView.setSelected(selected);
+        }
+        if (this.mCustomView != null) {
+            this.mCustomView.setSelected(selected);
+        }
+    }
+
+    protected onMeasure(origWidthMeasureSpec:number, origHeightMeasureSpec:number):void  {
+        const specWidthSize:number = View.MeasureSpec.getSize(origWidthMeasureSpec);
+        const specWidthMode:number = View.MeasureSpec.getMode(origWidthMeasureSpec);
+        const maxWidth:number = this._TabLayout_this.mTabMaxWidth;
+        let widthMeasureSpec:number = origWidthMeasureSpec;
+        if (maxWidth > 0 && (specWidthMode == View.MeasureSpec.UNSPECIFIED || specWidthSize > maxWidth)) {
+            // If we have a max width and a given spec which is either unspecified or
+            // larger than the max width, update the width spec using the same mode
+            widthMeasureSpec = View.MeasureSpec.makeMeasureSpec(maxWidth, View.MeasureSpec.AT_MOST);
+        }
+        // Now lets measure
+        super.onMeasure(widthMeasureSpec, origHeightMeasureSpec);
+    }
+
+    setTab(tab:TabLayout.Tab):void  {
+        if (tab != this.mTab) {
+            this.mTab = tab;
+            this.update();
+        }
+    }
+
+    reset():void  {
+        this.setTab(null);
+        this.setSelected(false);
+    }
+
+    update():void  {
+        const tab:TabLayout.Tab = this.mTab;
+        const custom:View = tab != null ? tab.getCustomView() : null;
+        if (custom != null) {
+            const customParent = custom.getParent();
+            if (customParent != this) {
+                if (customParent != null) {
+                    (<ViewGroup><any>customParent).removeView(custom);
+                }
+                this.addView(custom);
+            }
+            this.mCustomView = custom;
+            if (this.mTextView != null) {
+                this.mTextView.setVisibility(View.GONE);
+            }
+            if (this.mIconView != null) {
+                this.mIconView.setVisibility(View.GONE);
+                this.mIconView.setImageDrawable(null);
+            }
+            this.mCustomTextView = <TextView>custom.findViewById(R.id.text1);
+            this.mCustomIconView = <ImageView>custom.findViewById(R.id.icon);
+        } else {
+            // We do not have a custom view. Remove one if it already exists
+            if (this.mCustomView != null) {
+                this.removeView(this.mCustomView);
+                this.mCustomView = null;
+            }
+            this.mCustomTextView = null;
+            this.mCustomIconView = null;
+        }
+        if (this.mCustomView == null) {
+            // If there isn't a custom view, we'll us our own in-built layouts
+            if (this.mIconView == null) {
+                const iconView = new ImageView(this.getContext());
+                this.addView(iconView, 0, new LinearLayout.LayoutParams(
+                    ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT));
+                this.mIconView = iconView;
+            }
+            if (this.mTextView == null) {
+                const textView = new TextView(this.getContext());
+                textView.setMaxLines(2);
+                textView.setEllipsize(TextUtils.TruncateAt.END);
+                textView.setGravity(Gravity.CENTER);
+                textView.setAllCaps(true);
+                this.addView(textView, new LinearLayout.LayoutParams(
+                    ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT));
+                this.mTextView = textView;
+            }
+            const tabLayout = this._TabLayout_this;
+            if (tabLayout.mTabTextSize > 0) {
+                this.mTextView.setTextSize(android.util.TypedValue.COMPLEX_UNIT_PX, tabLayout.mTabTextSize);
+            }
+            if (tabLayout.mTabTextColors != null) {
+                this.mTextView.setTextColor(tabLayout.mTabTextColors);
+            }
+            this.updateTextAndIcon(this.mTextView, this.mIconView);
+        } else {
+            // Else, we'll see if there is a TextView or ImageView present and update them
+            if (this.mCustomTextView != null || this.mCustomIconView != null) {
+                this.updateTextAndIcon(this.mCustomTextView, this.mCustomIconView);
+            }
+        }
+    }
+
+    private updateTextAndIcon(textView:TextView, iconView:ImageView):void  {
+        const icon:Drawable = this.mTab != null ? this.mTab.getIcon() : null;
+        const text:string = this.mTab != null ? this.mTab.getText() : null;
+        if (iconView != null) {
+            if (icon != null) {
+                iconView.setImageDrawable(icon);
+                iconView.setVisibility(View.VISIBLE);
+                this.setVisibility(View.VISIBLE);
+            } else {
+                iconView.setVisibility(View.GONE);
+                iconView.setImageDrawable(null);
+            }
+        }
+        const hasText:boolean = !TextUtils.isEmpty(text);
+        if (textView != null) {
+            if (hasText) {
+                textView.setText(text);
+                textView.setVisibility(View.VISIBLE);
+                this.setVisibility(View.VISIBLE);
+            } else {
+                textView.setVisibility(View.GONE);
+                textView.setText(null);
+            }
+        }
+        if (iconView != null) {
+            const lp = <ViewGroup.MarginLayoutParams>iconView.getLayoutParams();
+            let bottomMargin:number = 0;
+            if (hasText && iconView.getVisibility() == View.VISIBLE) {
+                // If we're showing both text and icon, add some margin bottom to the icon
+                bottomMargin = this._TabLayout_this.dpToPx(TabLayout.DEFAULT_GAP_TEXT_ICON);
+            }
+            if (bottomMargin != lp.bottomMargin) {
+                lp.bottomMargin = bottomMargin;
+                iconView.requestLayout();
+            }
+        }
+    }
+
+    getTab():TabLayout.Tab  {
+        return this.mTab;
+    }
+}
+
+export class SlidingTabStrip extends LinearLayout {
+    _TabLayout_this:TabLayout;
+
+    private mSelectedIndicatorHeight:number = 0;
+
+    private mSelectedIndicatorPaint:Paint = new Paint();
+
+    private mSelectedPosition:number = -1;
+
+    private mSelectionOffset:number = 0;
+
+    private mIndicatorLeft:number = -1;
+
+    private mIndicatorRight:number = -1;
+
+    private mIndicatorAnimator:ValueAnimator;
+
+    constructor(context:Context, arg:TabLayout) {
+        super(context);
+        this._TabLayout_this = arg;
+        this.setWillNotDraw(false);
+    }
+
+    setSelectedIndicatorColor(color:number):void  {
+        if (this.mSelectedIndicatorPaint.getColor() != color) {
+            this.mSelectedIndicatorPaint.setColor(color);
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    setSelectedIndicatorHeight(height:number):void  {
+        if (this.mSelectedIndicatorHeight != height) {
+            this.mSelectedIndicatorHeight = height;
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    childrenNeedLayout():boolean  {
+        for (let i:number = 0, z:number = this.getChildCount(); i < z; i++) {
+            const child:View = this.getChildAt(i);
+            if (child.getWidth() <= 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    setIndicatorPositionFromTabPosition(position:number, positionOffset:number):void  {
+        if (this.mIndicatorAnimator != null && this.mIndicatorAnimator.isRunning()) {
+            this.mIndicatorAnimator.cancel();
+        }
+        this.mSelectedPosition = position;
+        this.mSelectionOffset = positionOffset;
+        this.updateIndicatorPosition();
+    }
+
+    getIndicatorPosition():number  {
+        return this.mSelectedPosition + this.mSelectionOffset;
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        if (View.MeasureSpec.getMode(widthMeasureSpec) != View.MeasureSpec.EXACTLY) {
+            // HorizontalScrollView will first measure use with UNSPECIFIED, and then with
+            // EXACTLY. Ignore the first call since anything we do will be overwritten anyway
+            return;
+        }
+        const tabLayout = this._TabLayout_this;
+        if (tabLayout.mMode == TabLayout.MODE_FIXED && tabLayout.mTabGravity == TabLayout.GRAVITY_CENTER) {
+            const count:number = this.getChildCount();
+            // First we'll find the widest tab
+            let largestTabWidth:number = 0;
+            for (let i:number = 0; i < count; i++) {
+                const child:View = this.getChildAt(i);
+                if (child.getVisibility() == View.VISIBLE) {
+                    largestTabWidth = Math.max(largestTabWidth, child.getMeasuredWidth());
+                }
+            }
+            if (largestTabWidth <= 0) {
+                // If we don't have a largest child yet, skip until the next measure pass
+                return;
+            }
+            const gutter:number = tabLayout.dpToPx(TabLayout.FIXED_WRAP_GUTTER_MIN);
+            let remeasure:boolean = false;
+            if (largestTabWidth * count <= this.getMeasuredWidth() - gutter * 2) {
+                // If the tabs fit within our width minus gutters, we will set all tabs to have
+                // the same width
+                for (let i:number = 0; i < count; i++) {
+                    const lp = <LinearLayout.LayoutParams>this.getChildAt(i).getLayoutParams();
+                    if (lp.width != largestTabWidth || lp.weight != 0) {
+                        lp.width = largestTabWidth;
+                        lp.weight = 0;
+                        remeasure = true;
+                    }
+                }
+            } else {
+                // If the tabs will wrap to be larger than the width minus gutters, we need
+                // to switch to GRAVITY_FILL
+                tabLayout.mTabGravity = TabLayout.GRAVITY_FILL;
+                tabLayout.updateTabViews(false);
+                remeasure = true;
+            }
+            if (remeasure) {
+                // Now re-measure after our changes
+                super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+            }
+        }
+    }
+
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void  {
+        super.onLayout(changed, l, t, r, b);
+        if (this.mIndicatorAnimator != null && this.mIndicatorAnimator.isRunning()) {
+            // If we're currently running an animation, lets cancel it and start a
+            // new animation with the remaining duration
+            this.mIndicatorAnimator.cancel();
+            const duration:number = this.mIndicatorAnimator.getDuration();
+            this.animateIndicatorToPosition(this.mSelectedPosition,
+                Math.round((1 - this.mIndicatorAnimator.getAnimatedFraction()) * duration));
+        } else {
+            // If we've been laid out, update the indicator position
+            this.updateIndicatorPosition();
+        }
+    }
+
+    private updateIndicatorPosition():void  {
+        const selectedTitle:View = this.getChildAt(this.mSelectedPosition);
+        let left:number, right:number;
+        if (selectedTitle != null && selectedTitle.getWidth() > 0) {
+            left = selectedTitle.getLeft();
+            right = selectedTitle.getRight();
+            if (this.mSelectionOffset > 0 && this.mSelectedPosition < this.getChildCount() - 1) {
+                // Draw the selection partway between the tabs
+                const nextTitle:View = this.getChildAt(this.mSelectedPosition + 1);
+                left = Math.floor(this.mSelectionOffset * nextTitle.getLeft() + (1 - this.mSelectionOffset) * left);
+                right = Math.floor(this.mSelectionOffset * nextTitle.getRight() + (1 - this.mSelectionOffset) * right);
+            }
+        } else {
+            left = right = -1;
+        }
+        this.setIndicatorPosition(left, right);
+    }
+
+    private setIndicatorPosition(left:number, right:number):void  {
+        if (left != this.mIndicatorLeft || right != this.mIndicatorRight) {
+            // If the indicator's left/right has changed, invalidate
+            this.mIndicatorLeft = left;
+            this.mIndicatorRight = right;
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    animateIndicatorToPosition(position:number, duration:number):void  {
+        if (this.mIndicatorAnimator != null && this.mIndicatorAnimator.isRunning()) {
+            this.mIndicatorAnimator.cancel();
+        }
+        const isRtl:boolean = this.isLayoutRtl();
+        const targetView:View = this.getChildAt(position);
+        if (targetView == null) {
+            // If we don't have a view, just update the position now and return
+            this.updateIndicatorPosition();
+            return;
+        }
+        const targetLeft:number = targetView.getLeft();
+        const targetRight:number = targetView.getRight();
+        let startLeft:number;
+        let startRight:number;
+        if (Math.abs(position - this.mSelectedPosition) <= 1) {
+            // If the views are adjacent, we'll animate from edge-to-edge
+            startLeft = this.mIndicatorLeft;
+            startRight = this.mIndicatorRight;
+        } else {
+            // Else, we'll just grow from the nearest edge
+            const offset:number = this._TabLayout_this.dpToPx(TabLayout.MOTION_NON_ADJACENT_OFFSET);
+            if (position < this.mSelectedPosition) {
+                // We're going end-to-start
+                if (isRtl) {
+                    startLeft = startRight = targetLeft - offset;
+                } else {
+                    startLeft = startRight = targetRight + offset;
+                }
+            } else {
+                // We're going start-to-end
+                if (isRtl) {
+                    startLeft = startRight = targetRight + offset;
+                } else {
+                    startLeft = startRight = targetLeft - offset;
+                }
+            }
+        }
+        if (startLeft != targetLeft || startRight != targetRight) {
+            const animator = this.mIndicatorAnimator = ValueAnimator.ofFloat(0, 1);
+            animator.setInterpolator(new AccelerateDecelerateInterpolator());
+            animator.setDuration(duration);
+            animator.addUpdateListener({
+                onAnimationUpdate: (animator:ValueAnimator)=> {
+                    const fraction:number = animator.getAnimatedFraction();
+                    this.setIndicatorPosition(Math.round(startLeft + fraction * (targetLeft - startLeft)),
+                        Math.round(startRight + fraction * (targetRight - startRight)));
+                }
+            });
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationEnd(animator:Animator):void  {
+                    _this.mSelectedPosition = position;
+                    _this.mSelectionOffset = 0;
+                }
+            }
+            animator.addListener(new _Inner());
+            animator.start();
+        }
+    }
+
+    draw(canvas:Canvas):void  {
+        super.draw(canvas);
+        // Thick colored underline below the current selection
+        if (this.mIndicatorLeft >= 0 && this.mIndicatorRight > this.mIndicatorLeft) {
+            canvas.drawRect(this.mIndicatorLeft, this.getHeight() - this.mSelectedIndicatorHeight,
+                this.mIndicatorRight, this.getHeight(), this.mSelectedIndicatorPaint);
+        }
+    }
+}
+
+/**
+     * A {@link ViewPager.OnPageChangeListener} class which contains the
+     * necessary calls back to the provided {@link TabLayout} so that the tab position is
+     * kept in sync.
+     *
+     * <p>This class stores the provided TabLayout weakly, meaning that you can use
+     * {@link ViewPager#addOnPageChangeListener(ViewPager.OnPageChangeListener)
+     * addOnPageChangeListener(OnPageChangeListener)} without removing the listener and
+     * not cause a leak.
+     */
+export class TabLayoutOnPageChangeListener implements ViewPager.OnPageChangeListener {
+
+    private mTabLayout:TabLayout;
+
+    private mPreviousScrollState:number = 0;
+
+    private mScrollState:number = 0;
+
+    constructor(tabLayout:TabLayout) {
+        this.mTabLayout = tabLayout;
+    }
+
+    onPageScrollStateChanged(state:number):void  {
+        this.mPreviousScrollState = this.mScrollState;
+        this.mScrollState = state;
+    }
+
+    onPageScrolled(position:number, positionOffset:number, positionOffsetPixels:number):void  {
+        const tabLayout:TabLayout = this.mTabLayout;
+        if (tabLayout != null) {
+            // Only update the text selection if we're not settling, or we are settling after
+            // being dragged
+            const updateText:boolean = this.mScrollState != ViewPager.SCROLL_STATE_SETTLING
+                || this.mPreviousScrollState == ViewPager.SCROLL_STATE_DRAGGING;
+            tabLayout.setScrollPosition(position, positionOffset, updateText);
+        }
+    }
+
+    onPageSelected(position:number):void  {
+        const tabLayout:TabLayout = this.mTabLayout;
+        if (tabLayout != null && tabLayout.getSelectedTabPosition() != position) {
+            // Select the tab, only updating the indicator if we're not being dragged/settled
+            // (since onPageScrolled will handle that).
+            const updateIndicator:boolean = this.mScrollState == ViewPager.SCROLL_STATE_IDLE
+                || (this.mScrollState == ViewPager.SCROLL_STATE_SETTLING
+                    && this.mPreviousScrollState == ViewPager.SCROLL_STATE_IDLE);
+            tabLayout.selectTab(tabLayout.getTabAt(position), updateIndicator);
+        }
+    }
+
+    reset():void  {
+        this.mPreviousScrollState = this.mScrollState = ViewPager.SCROLL_STATE_IDLE;
+    }
+}
+
+/**
+     * A {@link TabLayout.OnTabSelectedListener} class which contains the necessary calls back
+     * to the provided {@link ViewPager} so that the tab position is kept in sync.
+     */
+export class ViewPagerOnTabSelectedListener implements TabLayout.OnTabSelectedListener {
+
+    private mViewPager:ViewPager;
+
+    constructor(viewPager:ViewPager) {
+        this.mViewPager = viewPager;
+    }
+
+    onTabSelected(tab:TabLayout.Tab):void  {
+        this.mViewPager.setCurrentItem(tab.getPosition());
+    }
+
+    onTabUnselected(tab:TabLayout.Tab):void  {
+        // No-op
+    }
+
+    onTabReselected(tab:TabLayout.Tab):void  {
+        // No-op
+    }
+}
+
+export class PagerAdapterObserver extends DataSetObserver {
+    _TabLayout_this:TabLayout;
+
+    constructor(arg:TabLayout) {
+        super();
+        this._TabLayout_this = arg;
+    }
+
+    onChanged():void  {
+        this._TabLayout_this.populateFromPagerAdapter();
+    }
+
+    onInvalidated():void  {
+        this._TabLayout_this.populateFromPagerAdapter();
+    }
+}
+}
+
+}
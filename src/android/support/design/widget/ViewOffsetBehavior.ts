@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/support/design/widget/CoordinatorLayout.ts"/>
+///<reference path="../../../../android/support/design/widget/ViewOffsetHelper.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+
+/**
+ * Behavior will automatically sets up a {@link ViewOffsetHelper} on a {@link View}.
+ */
+export class ViewOffsetBehavior<V extends View> extends CoordinatorLayout.Behavior<V> {
+
+    private mViewOffsetHelper:ViewOffsetHelper;
+
+    private mTempTopBottomOffset:number = 0;
+
+    private mTempLeftRightOffset:number = 0;
+
+    constructor() {
+        super();
+    }
+
+    onLayoutChild(parent:CoordinatorLayout, child:V, layoutDirection:number):boolean {
+        // First let the parent lay it out
+        parent.onLayoutChild(child, layoutDirection);
+        if (this.mViewOffsetHelper == null) {
+            this.mViewOffsetHelper = new ViewOffsetHelper(child);
+        }
+        this.mViewOffsetHelper.onViewLayout();
+        if (this.mTempTopBottomOffset != 0) {
+            this.mViewOffsetHelper.setTopAndBottomOffset(this.mTempTopBottomOffset);
+            this.mTempTopBottomOffset = 0;
+        }
+        if (this.mTempLeftRightOffset != 0) {
+            this.mViewOffsetHelper.setLeftAndRightOffset(this.mTempLeftRightOffset);
+            this.mTempLeftRightOffset = 0;
+        }
+        return true;
+    }
+
+    setTopAndBottomOffset(offset:number):boolean {
+        if (this.mViewOffsetHelper != null) {
+            return this.mViewOffsetHelper.setTopAndBottomOffset(offset);
+        } else {
+            this.mTempTopBottomOffset = offset;
+        }
+        return false;
+    }
+
+    setLeftAndRightOffset(offset:number):boolean {
+        if (this.mViewOffsetHelper != null) {
+            return this.mViewOffsetHelper.setLeftAndRightOffset(offset);
+        } else {
+            this.mTempLeftRightOffset = offset;
+        }
+        return false;
+    }
+
+    getTopAndBottomOffset():number {
+        return this.mViewOffsetHelper != null ? this.mViewOffsetHelper.getTopAndBottomOffset() : 0;
+    }
+
+    getLeftAndRightOffset():number {
+        return this.mViewOffsetHelper != null ? this.mViewOffsetHelper.getLeftAndRightOffset() : 0;
+    }
+}
+}
@@ -0,0 +1,97 @@
+/*
+ * Copyright (C) 2015 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+
+module android.support.design.widget {
+import View = android.view.View;
+
+/**
+ * Utility helper for moving a {@link android.view.View} around using
+ * {@link android.view.View#offsetLeftAndRight(int)} and
+ * {@link android.view.View#offsetTopAndBottom(int)}.
+ * <p>
+ * Also the setting of absolute offsets (similar to translationX/Y), rather than additive
+ * offsets.
+ */
+export class ViewOffsetHelper {
+
+    private mView:View;
+
+    private mLayoutTop:number = 0;
+
+    private mLayoutLeft:number = 0;
+
+    private mOffsetTop:number = 0;
+
+    private mOffsetLeft:number = 0;
+
+    constructor(view:View) {
+        this.mView = view;
+    }
+
+    onViewLayout():void {
+        // Now grab the intended top
+        this.mLayoutTop = this.mView.getTop();
+        this.mLayoutLeft = this.mView.getLeft();
+        // And offset it as needed
+        this.updateOffsets();
+    }
+
+    private updateOffsets():void {
+        this.mView.offsetTopAndBottom(this.mOffsetTop - (this.mView.getTop() - this.mLayoutTop));
+        this.mView.offsetLeftAndRight(this.mOffsetLeft - (this.mView.getLeft() - this.mLayoutLeft));
+    }
+
+    /**
+     * Set the top and bottom offset for this {@link ViewOffsetHelper}'s view.
+     *
+     * @param offset the offset in px.
+     * @return true if the offset has changed
+     */
+    setTopAndBottomOffset(offset:number):boolean {
+        if (this.mOffsetTop != offset) {
+            this.mOffsetTop = offset;
+            this.updateOffsets();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Set the left and right offset for this {@link ViewOffsetHelper}'s view.
+     *
+     * @param offset the offset in px.
+     * @return true if the offset has changed
+     */
+    setLeftAndRightOffset(offset:number):boolean {
+        if (this.mOffsetLeft != offset) {
+            this.mOffsetLeft = offset;
+            this.updateOffsets();
+            return true;
+        }
+        return false;
+    }
+
+    getTopAndBottomOffset():number {
+        return this.mOffsetTop;
+    }
+
+    getLeftAndRightOffset():number {
+        return this.mOffsetLeft;
+    }
+}
+}
@@ -98,8 +98,10 @@ module android.support.v4.view {
         private mDefaultGutterSize:number = 0;
         private mGutterSize:number = 0;
         //private mTouchSlop: number = 0;
+        private mOrientation = ViewPager.HORIZONTAL;
         /**
-         * Position of the last motion event.
+         * Position of the last motion event. X is measured along the paging axis and Y across it,
+         * so they hold the event's y and x coordinates in {@link #VERTICAL} orientation.
          */
         private mLastMotionX = 0;
         private mLastMotionY = 0;
@@ -176,6 +178,16 @@ module android.support.v4.view {
          */
         static SCROLL_STATE_SETTLING = 2
 
+        /**
+         * Pages are laid out side by side and paged with horizontal swipes. This is the default.
+         */
+        static HORIZONTAL = 0;
+
+        /**
+         * Pages are stacked from top to bottom and paged with vertical swipes.
+         */
+        static VERTICAL = 1;
+
         private mEndScrollRunnable = (()=>{
             let ViewPager_this = this;
             class InnerClass implements Runnable{
@@ -192,6 +204,32 @@ module android.support.v4.view {
         constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle?){
             super(context, bindElement, defStyle);
             this.initViewPager();
+
+            this._attrBinder.addAttr('orientation', (value)=>{
+                if((value+"").toUpperCase() === 'VERTICAL' || ViewPager.VERTICAL == value){
+                    this.setOrientation(ViewPager.VERTICAL);
+
+                }else if((value+"").toUpperCase() === 'HORIZONTAL' || ViewPager.HORIZONTAL == value) {
+                    this.setOrientation(ViewPager.HORIZONTAL);
+                }
+            }, ()=>{
+                return this.mOrientation;
+            });
+            this._attrBinder.addAttr('offscreenPageLimit', (value)=>{
+                this.setOffscreenPageLimit(this._attrBinder.parseNumber(value, this.mOffscreenPageLimit));
+            }, ()=>{
+                return this.mOffscreenPageLimit;
+            });
+            this._attrBinder.addAttr('pageMargin', (value)=>{
+                this.setPageMargin(this._attrBinder.parseNumber(value, this.mPageMargin));
+            }, ()=>{
+                return this.mPageMargin;
+            });
+            this._attrBinder.addAttr('pageMarginDrawable', (value)=>{
+                this.setPageMarginDrawable(this._attrBinder.parseDrawable(value));
+            }, ()=>{
+                return this.mMarginDrawable;
+            });
         }
 
         private initViewPager() {
@@ -318,6 +356,74 @@ module android.support.v4.view {
             return this.getMeasuredWidth() - this.getPaddingLeft() - this.getPaddingRight();
         }
 
+        /**
+         * @return the size of the page area along the paging axis.
+         */
+        private getClientSize() {
+            if (this.mOrientation == ViewPager.VERTICAL) {
+                return this.getMeasuredHeight() - this.getPaddingTop() - this.getPaddingBottom();
+            }
+            return this.getClientWidth();
+        }
+
+        private getPagingScroll():number {
+            return this.mOrientation == ViewPager.VERTICAL ? this.getScrollY() : this.getScrollX();
+        }
+
+        private setPagingScroll(pos:number):void {
+            if (this.mOrientation == ViewPager.VERTICAL) {
+                this.scrollTo(this.getScrollX(), pos);
+            } else {
+                this.scrollTo(pos, this.getScrollY());
+            }
+        }
+
+        private getPrimaryMotion(ev:MotionEvent, pointerIndex = 0):number {
+            return this.mOrientation == ViewPager.VERTICAL ? ev.getY(pointerIndex) : ev.getX(pointerIndex);
+        }
+
+        private getSecondaryMotion(ev:MotionEvent, pointerIndex = 0):number {
+            return this.mOrientation == ViewPager.VERTICAL ? ev.getX(pointerIndex) : ev.getY(pointerIndex);
+        }
+
+        private getScrollerRemaining():number {
+            if (this.mOrientation == ViewPager.VERTICAL) {
+                return Math.abs(this.mScroller.getFinalY() - this.mScroller.getCurrY());
+            }
+            return Math.abs(this.mScroller.getFinalX() - this.mScroller.getCurrX());
+        }
+
+        private getPrimaryVelocity(velocityTracker:VelocityTracker):number {
+            return this.mOrientation == ViewPager.VERTICAL ?
+                velocityTracker.getYVelocity(this.mActivePointerId) : velocityTracker.getXVelocity(this.mActivePointerId);
+        }
+
+        /**
+         * Set the paging orientation. Pages keep their adapter order; in {@link #VERTICAL}
+         * orientation they are stacked from top to bottom and all of the touch, fling,
+         * page transformer and offscreen page handling follows the vertical axis.
+         *
+         * @param orientation {@link #HORIZONTAL} or {@link #VERTICAL}
+         */
+        setOrientation(orientation:number):void {
+            if (this.mOrientation == orientation) {
+                return;
+            }
+            this.completeScroll(false);
+            this.mOrientation = orientation;
+            this.scrollTo(0, 0);
+            // Let the next layout position the current page on the new axis.
+            this.mFirstLayout = true;
+            this.requestLayout();
+        }
+
+        /**
+         * @return the paging orientation, {@link #HORIZONTAL} or {@link #VERTICAL}.
+         */
+        getOrientation():number {
+            return this.mOrientation;
+        }
+
 
         /**
          * Set the currently selected page.
@@ -376,14 +482,15 @@ module android.support.v4.view {
 
         private scrollToItem(item:number, smoothScroll:boolean, velocity:number, dispatchSelected:boolean) {
             const curInfo = this.infoForPosition(item);
-            let destX = 0;
+            let dest = 0;
             if (curInfo != null) {
-                const width = this.getClientWidth();
-                destX = Math.floor(width * Math.max(this.mFirstOffset,
+                const size = this.getClientSize();
+                dest = Math.floor(size * Math.max(this.mFirstOffset,
                         Math.min(curInfo.offset, this.mLastOffset)));
             }
+            const vertical = this.mOrientation == ViewPager.VERTICAL;
             if (smoothScroll) {
-                this.smoothScrollTo(destX, 0, velocity);
+                this.smoothScrollTo(vertical ? 0 : dest, vertical ? dest : 0, velocity);
                 if (dispatchSelected) {
                     this.dispatchOnPageSelected(item);
                 }
@@ -392,8 +499,8 @@ module android.support.v4.view {
                     this.dispatchOnPageSelected(item);
                 }
                 this.completeScroll(false);
-                this.scrollTo(destX, 0);
-                this.pageScrolled(destX);
+                this.scrollTo(vertical ? 0 : dest, vertical ? dest : 0);
+                this.pageScrolled(dest);
             }
         }
 
@@ -475,6 +582,10 @@ module android.support.v4.view {
                 this.mDrawingOrder = ViewPager.DRAW_ORDER_DEFAULT;
             }
             if (needsPopulate) this.populate();
+            // Transform the attached pages now instead of waiting for the next scroll.
+            if (!this.mFirstLayout && this.mItems.size() > 0) {
+                this.pageScrolled(this.getPagingScroll());
+            }
         }
 
         setChildrenDrawingOrderEnabledCompat(enable=true) {
@@ -554,7 +665,7 @@ module android.support.v4.view {
             const oldMargin = this.mPageMargin;
             this.mPageMargin = marginPixels;
 
-            const width = this.getWidth();
+            const width = this.mOrientation == ViewPager.VERTICAL ? this.getHeight() : this.getWidth();
             this.recomputeScrollPosition(width, width, marginPixels, oldMargin);
 
             this.requestLayout();
@@ -633,9 +744,10 @@ module android.support.v4.view {
             this.setScrollingCacheEnabled(true);
             this.setScrollState(ViewPager.SCROLL_STATE_SETTLING);
 
-            const width = this.getClientWidth();
+            const width = this.getClientSize();
             const halfWidth = width / 2;
-            const distanceRatio = Math.min(1, 1.0 * Math.abs(dx) / width);
+            const delta = this.mOrientation == ViewPager.VERTICAL ? dy : dx;
+            const distanceRatio = Math.min(1, 1.0 * Math.abs(delta) / width);
             const distance = halfWidth + halfWidth *
                 this.distanceInfluenceForSnapDuration(distanceRatio);
 
@@ -645,7 +757,7 @@ module android.support.v4.view {
                 duration = 4 * Math.round(1000 * Math.abs(distance / velocity));
             } else {
                 const pageWidth = width * this.mAdapter.getPageWidth(this.mCurItem);
-                const pageDelta = Math.abs(dx) / (pageWidth + this.mPageMargin);
+                const pageDelta = Math.abs(delta) / (pageWidth + this.mPageMargin);
                 duration = Math.floor((pageDelta + 1) * 100);
             }
             duration = Math.min(duration, ViewPager.MAX_SETTLE_DURATION);
@@ -743,7 +855,11 @@ module android.support.v4.view {
             let oldCurInfo:ItemInfo = null;
             let focusDirection = View.FOCUS_FORWARD;
             if (this.mCurItem != newCurrentItem) {
-                focusDirection = this.mCurItem < newCurrentItem ? View.FOCUS_RIGHT : View.FOCUS_LEFT;
+                if (this.mOrientation == ViewPager.VERTICAL) {
+                    focusDirection = this.mCurItem < newCurrentItem ? View.FOCUS_DOWN : View.FOCUS_UP;
+                } else {
+                    focusDirection = this.mCurItem < newCurrentItem ? View.FOCUS_RIGHT : View.FOCUS_LEFT;
+                }
                 oldCurInfo = this.infoForPosition(this.mCurItem);
                 this.mCurItem = newCurrentItem;
             }
@@ -808,9 +924,10 @@ module android.support.v4.view {
                 let extraWidthLeft = 0;
                 let itemIndex = curIndex - 1;
                 let ii = itemIndex >= 0 ? this.mItems.get(itemIndex) : null;
-                const clientWidth = this.getClientWidth();
+                const vertical = this.mOrientation == ViewPager.VERTICAL;
+                const clientWidth = this.getClientSize();
                 const leftWidthNeeded = clientWidth <= 0 ? 0 :
-                    2 - curItem.widthFactor + this.getPaddingLeft() / clientWidth;
+                    2 - curItem.widthFactor + (vertical ? this.getPaddingTop() : this.getPaddingLeft()) / clientWidth;
                 for (let pos = this.mCurItem - 1; pos >= 0; pos--) {
                     if (extraWidthLeft >= leftWidthNeeded && pos < startPos) {
                         if (ii == null) {
@@ -844,7 +961,7 @@ module android.support.v4.view {
                 if (extraWidthRight < 2) {
                     ii = itemIndex < this.mItems.size() ? this.mItems.get(itemIndex) : null;
                     const rightWidthNeeded = clientWidth <= 0 ? 0 :
-                    this.getPaddingRight() / clientWidth + 2;
+                    (vertical ? this.getPaddingBottom() : this.getPaddingRight()) / clientWidth + 2;
                     for (let pos = this.mCurItem + 1; pos < N; pos++) {
                         if (extraWidthRight >= rightWidthNeeded && pos > endPos) {
                             if (ii == null) {
@@ -940,7 +1057,7 @@ module android.support.v4.view {
 
         private calculatePageOffsets(curItem:ItemInfo, curIndex:number, oldCurInfo:ItemInfo) {
             const N = this.mAdapter.getCount();
-            const width = this.getClientWidth();
+            const width = this.getClientSize();
             const marginOffset = width > 0 ? this.mPageMargin / width : 0;
             // Fix up offsets for later layout.
             if (oldCurInfo != null) {
@@ -1113,7 +1230,8 @@ module android.support.v4.view {
                 ViewPager.getDefaultSize(0, heightMeasureSpec));
 
             const measuredWidth = this.getMeasuredWidth();
-            const maxGutterSize = measuredWidth / 10;
+            const vertical = this.mOrientation == ViewPager.VERTICAL;
+            const maxGutterSize = (vertical ? this.getMeasuredHeight() : measuredWidth) / 10;
             this.mGutterSize = Math.min(maxGutterSize, this.mDefaultGutterSize);
 
             // Children are just made to fill our space.
@@ -1189,8 +1307,13 @@ module android.support.v4.view {
 
                     const lp = <ViewPager.LayoutParams>child.getLayoutParams();
                     if (lp == null || !lp.isDecor) {
-                        const widthSpec = MeasureSpec.makeMeasureSpec((childWidthSize * lp.widthFactor), MeasureSpec.EXACTLY);
-                        child.measure(widthSpec, this.mChildHeightMeasureSpec);
+                        if (vertical) {
+                            const heightSpec = MeasureSpec.makeMeasureSpec((childHeightSize * lp.widthFactor), MeasureSpec.EXACTLY);
+                            child.measure(this.mChildWidthMeasureSpec, heightSpec);
+                        } else {
+                            const widthSpec = MeasureSpec.makeMeasureSpec((childWidthSize * lp.widthFactor), MeasureSpec.EXACTLY);
+                            child.measure(widthSpec, this.mChildHeightMeasureSpec);
+                        }
                     }
                 }
             }
@@ -1199,35 +1322,45 @@ module android.support.v4.view {
         protected onSizeChanged(w:number, h:number, oldw:number, oldh:number):void {
             super.onSizeChanged(w, h, oldw, oldh);
             // Make sure scroll position is set correctly.
-            if (w != oldw) {
+            if (this.mOrientation == ViewPager.VERTICAL) {
+                if (h != oldh) {
+                    this.recomputeScrollPosition(h, oldh, this.mPageMargin, this.mPageMargin);
+                }
+            } else if (w != oldw) {
                 this.recomputeScrollPosition(w, oldw, this.mPageMargin, this.mPageMargin);
             }
         }
 
         private recomputeScrollPosition(width:number, oldWidth:number, margin:number, oldMargin:number):void {
+            const vertical = this.mOrientation == ViewPager.VERTICAL;
+            const padding = vertical ? this.getPaddingTop() + this.getPaddingBottom()
+                : this.getPaddingLeft() + this.getPaddingRight();
             if (oldWidth > 0 && !this.mItems.isEmpty()) {
-                const widthWithMargin = width - this.getPaddingLeft() - this.getPaddingRight() + margin;
-                const oldWidthWithMargin = oldWidth - this.getPaddingLeft() - this.getPaddingRight()
-                    + oldMargin;
-                const xpos = this.getScrollX();
+                const widthWithMargin = width - padding + margin;
+                const oldWidthWithMargin = oldWidth - padding + oldMargin;
+                const xpos = this.getPagingScroll();
                 const pageOffset = xpos / oldWidthWithMargin;
                 const newOffsetPixels = Math.floor(pageOffset * widthWithMargin);
 
-                this.scrollTo(newOffsetPixels, this.getScrollY());
+                this.setPagingScroll(newOffsetPixels);
                 if (!this.mScroller.isFinished()) {
                     // We now return to your regularly scheduled scroll, already in progress.
                     const newDuration = this.mScroller.getDuration() - this.mScroller.timePassed();
                     let targetInfo = this.infoForPosition(this.mCurItem);
-                    this.mScroller.startScroll(newOffsetPixels, 0, Math.floor(targetInfo.offset * width), 0, newDuration);
+                    const delta = Math.floor(targetInfo.offset * width);
+                    if (vertical) {
+                        this.mScroller.startScroll(0, newOffsetPixels, 0, delta, newDuration);
+                    } else {
+                        this.mScroller.startScroll(newOffsetPixels, 0, delta, 0, newDuration);
+                    }
                 }
             } else {
                 const ii = this.infoForPosition(this.mCurItem);
                 const scrollOffset = ii != null ? Math.min(ii.offset, this.mLastOffset) : 0;
-                const scrollPos = Math.floor(scrollOffset *
-                    (width - this.getPaddingLeft() - this.getPaddingRight()));
-                if (scrollPos != this.getScrollX()) {
+                const scrollPos = Math.floor(scrollOffset * (width - padding));
+                if (scrollPos != this.getPagingScroll()) {
                     this.completeScroll(false);
-                    this.scrollTo(scrollPos, this.getScrollY());
+                    this.setPagingScroll(scrollPos);
                 }
             }
         }
@@ -1241,6 +1374,8 @@ module android.support.v4.view {
             let paddingRight = this.getPaddingRight();
             let paddingBottom = this.getPaddingBottom();
             const scrollX = this.getScrollX();
+            const scrollY = this.getScrollY();
+            const vertical = this.mOrientation == ViewPager.VERTICAL;
 
             let decorCount = 0;
 
@@ -1289,7 +1424,11 @@ module android.support.v4.view {
                                 paddingBottom += child.getMeasuredHeight();
                                 break;
                         }
-                        childLeft += scrollX;
+                        if (vertical) {
+                            childTop += scrollY;
+                        } else {
+                            childLeft += scrollX;
+                        }
                         child.layout(childLeft, childTop,
                             childLeft + child.getMeasuredWidth(),
                             childTop + child.getMeasuredHeight());
@@ -1299,6 +1438,7 @@ module android.support.v4.view {
             }
 
             const childWidth = width - paddingLeft - paddingRight;
+            const childHeight = height - paddingTop - paddingBottom;
             // Page views. Do this once we have the right padding offsets from above.
             for (let i = 0; i < count; i++) {
                 const child = this.getChildAt(i);
@@ -1306,18 +1446,22 @@ module android.support.v4.view {
                     const lp = <ViewPager.LayoutParams>child.getLayoutParams();
                     let ii;
                     if (!lp.isDecor && (ii = this.infoForChild(child)) != null) {
-                        let loff = Math.floor(childWidth * ii.offset);
-                        let childLeft = paddingLeft + loff;
+                        let childLeft = paddingLeft;
                         let childTop = paddingTop;
+                        if (vertical) {
+                            childTop += Math.floor(childHeight * ii.offset);
+                        } else {
+                            childLeft += Math.floor(childWidth * ii.offset);
+                        }
                         if (lp.needsMeasure) {
                             // This was added during layout and needs measurement.
                             // Do it now that we know what we're working with.
                             lp.needsMeasure = false;
                             const widthSpec = MeasureSpec.makeMeasureSpec(
-                                Math.floor(childWidth * lp.widthFactor),
+                                Math.floor(vertical ? childWidth : childWidth * lp.widthFactor),
                                 MeasureSpec.EXACTLY);
                             const heightSpec = MeasureSpec.makeMeasureSpec(
-                                Math.floor(height - paddingTop - paddingBottom),
+                                Math.floor(vertical ? childHeight * lp.widthFactor : childHeight),
                                 MeasureSpec.EXACTLY);
                             child.measure(widthSpec, heightSpec);
                         }
@@ -1349,9 +1493,10 @@ module android.support.v4.view {
 
                 if (oldX != x || oldY != y) {
                     this.scrollTo(x, y);
-                    if (!this.pageScrolled(x)) {
+                    const vertical = this.mOrientation == ViewPager.VERTICAL;
+                    if (!this.pageScrolled(vertical ? y : x)) {
                         this.mScroller.abortAnimation();
-                        this.scrollTo(0, y);
+                        this.scrollTo(vertical ? x : 0, vertical ? 0 : y);
                     }
                 }
 
@@ -1375,7 +1520,7 @@ module android.support.v4.view {
                 return false;
             }
             const ii = this.infoForCurrentScrollPosition();
-            const width = this.getClientWidth();
+            const width = this.getClientSize();
             const widthWithMargin = width + this.mPageMargin;
             const marginOffset = this.mPageMargin / width;
             const currentPage = ii.position;
@@ -1406,7 +1551,9 @@ module android.support.v4.view {
          */
         onPageScrolled(position:number, offset:number, offsetPixels:number):void {
             // Offset any decor views if needed - keep them on-screen at all times.
-            if (this.mDecorChildCount > 0) {
+            if (this.mDecorChildCount > 0 && this.mOrientation == ViewPager.VERTICAL) {
+                this.offsetDecorViewsVertically();
+            } else if (this.mDecorChildCount > 0) {
                 const scrollX = this.getScrollX();
                 let paddingLeft = this.getPaddingLeft();
                 let paddingRight = this.getPaddingRight();
@@ -1448,7 +1595,9 @@ module android.support.v4.view {
             this.dispatchOnPageScrolled(position, offset, offsetPixels);
 
             if (this.mPageTransformer != null) {
-                const scrollX = this.getScrollX();
+                const vertical = this.mOrientation == ViewPager.VERTICAL;
+                const scroll = this.getPagingScroll();
+                const clientSize = this.getClientSize();
                 const childCount = this.getChildCount();
                 for (let i = 0; i < childCount; i++) {
                     const child = this.getChildAt(i);
@@ -1456,7 +1605,7 @@ module android.support.v4.view {
 
                     if (lp.isDecor) continue;
 
-                    const transformPos = (child.getLeft() - scrollX) / this.getClientWidth();
+                    const transformPos = ((vertical ? child.getTop() : child.getLeft()) - scroll) / clientSize;
                     this.mPageTransformer.transformPage(child, transformPos);
                 }
             }
@@ -1464,6 +1613,45 @@ module android.support.v4.view {
             this.mCalledSuper = true;
         }
 
+        private offsetDecorViewsVertically():void {
+            const scrollY = this.getScrollY();
+            let paddingTop = this.getPaddingTop();
+            let paddingBottom = this.getPaddingBottom();
+            const height = this.getHeight();
+            const childCount = this.getChildCount();
+            for (let i = 0; i < childCount; i++) {
+                const child = this.getChildAt(i);
+                const lp = <ViewPager.LayoutParams>child.getLayoutParams();
+                if (!lp.isDecor) continue;
+
+                const vgrav = lp.gravity & Gravity.VERTICAL_GRAVITY_MASK;
+                let childTop = 0;
+                switch (vgrav) {
+                    default:
+                        childTop = paddingTop;
+                        break;
+                    case Gravity.TOP:
+                        childTop = paddingTop;
+                        paddingTop += child.getHeight();
+                        break;
+                    case Gravity.CENTER_VERTICAL:
+                        childTop = Math.max((height - child.getMeasuredHeight()) / 2,
+                            paddingTop);
+                        break;
+                    case Gravity.BOTTOM:
+                        childTop = height - paddingBottom - child.getMeasuredHeight();
+                        paddingBottom += child.getMeasuredHeight();
+                        break;
+                }
+                childTop += scrollY;
+
+                const childOffset = childTop - child.getTop();
+                if (childOffset != 0) {
+                    child.offsetTopAndBottom(childOffset);
+                }
+            }
+        }
+
         private dispatchOnPageScrolled(position:number, offset:number, offsetPixels:number) {
             if (this.mOnPageChangeListener != null) {
                 this.mOnPageChangeListener.onPageScrolled(position, offset, offsetPixels);
@@ -1527,7 +1715,11 @@ module android.support.v4.view {
                 let y = this.mScroller.getCurrY();
                 if (oldX != x || oldY != y) {
                     this.scrollTo(x, y);
-                    if (x != oldX) {
+                    if (this.mOrientation == ViewPager.VERTICAL) {
+                        if (y != oldY) {
+                            this.pageScrolled(y);
+                        }
+                    } else if (x != oldX) {
                         this.pageScrolled(x);
                     }
                 }
@@ -1550,7 +1742,8 @@ module android.support.v4.view {
         }
 
         private isGutterDrag(x:number, dx:number):boolean {
-            return (x < this.mGutterSize && dx > 0) || (x > this.getWidth() - this.mGutterSize && dx < 0);
+            const size = this.mOrientation == ViewPager.VERTICAL ? this.getHeight() : this.getWidth();
+            return (x < this.mGutterSize && dx > 0) || (x > size - this.mGutterSize && dx < 0);
         }
 
         private enableLayers(enable:boolean) {
@@ -1611,15 +1804,16 @@ module android.support.v4.view {
                     }
 
                     const pointerIndex = ev.findPointerIndex(activePointerId);
-                    const x = ev.getX(pointerIndex);
+                    const x = this.getPrimaryMotion(ev, pointerIndex);
                     const dx = x - this.mLastMotionX;
                     const xDiff = Math.abs(dx);
-                    const y = ev.getY(pointerIndex);
+                    const y = this.getSecondaryMotion(ev, pointerIndex);
                     const yDiff = Math.abs(y - this.mInitialMotionY);
                     if (DEBUG) Log.v(TAG, "Moved x to " + x + "," + y + " diff=" + xDiff + "," + yDiff);
 
                     if (dx != 0 && !this.isGutterDrag(this.mLastMotionX, dx) &&
-                        this.canScroll(this, false, Math.floor(dx), Math.floor(x), Math.floor(y))) {
+                        this.canScroll(this, false, Math.floor(dx),
+                            Math.floor(ev.getX(pointerIndex)), Math.floor(ev.getY(pointerIndex)))) {
                         // Nested view has scrollable area under this point. Let it be handled there.
                         this.mLastMotionX = x;
                         this.mLastMotionY = y;
@@ -1657,15 +1851,15 @@ module android.support.v4.view {
                      * Remember location of down touch.
                      * ACTION_DOWN always refers to pointer index 0.
                      */
-                    this.mLastMotionX = this.mInitialMotionX = ev.getX();
-                    this.mLastMotionY = this.mInitialMotionY = ev.getY();
+                    this.mLastMotionX = this.mInitialMotionX = this.getPrimaryMotion(ev);
+                    this.mLastMotionY = this.mInitialMotionY = this.getSecondaryMotion(ev);
                     this.mActivePointerId = ev.getPointerId(0);
                     this.mIsUnableToDrag = false;
 
                     this.mScroller.computeScrollOffset();
 
                     if (this.mScrollState == ViewPager.SCROLL_STATE_SETTLING &&
-                        Math.abs(this.mScroller.getFinalX() - this.mScroller.getCurrX()) > this.mCloseEnough) {
+                        this.getScrollerRemaining() > this.mCloseEnough) {
                         // Let the user 'catch' the pager as it animates.
                         this.mScroller.abortAnimation();
                         this.mPopulatePending = false;
@@ -1736,8 +1930,8 @@ module android.support.v4.view {
                     this.populate();
 
                     // Remember where the motion event started
-                    this.mLastMotionX = this.mInitialMotionX = ev.getX();
-                    this.mLastMotionY = this.mInitialMotionY = ev.getY();
+                    this.mLastMotionX = this.mInitialMotionX = this.getPrimaryMotion(ev);
+                    this.mLastMotionY = this.mInitialMotionY = this.getSecondaryMotion(ev);
                     this.mActivePointerId = ev.getPointerId(0);
                     break;
                 }
@@ -1749,9 +1943,9 @@ module android.support.v4.view {
                             needsInvalidate = this.resetTouch();
                             break;
                         }
-                        const x = ev.getX(pointerIndex);
+                        const x = this.getPrimaryMotion(ev, pointerIndex);
                         const xDiff = Math.abs(x - this.mLastMotionX);
-                        const y = ev.getY(pointerIndex);
+                        const y = this.getSecondaryMotion(ev, pointerIndex);
                         const yDiff = Math.abs(y - this.mLastMotionY);
                         if (DEBUG) Log.v(TAG, "Moved x to " + x + "," + y + " diff=" + xDiff + "," + yDiff);
                         if (xDiff > this.mTouchSlop && xDiff > yDiff) {
@@ -1775,7 +1969,7 @@ module android.support.v4.view {
                     if (this.mIsBeingDragged) {
                         // Scroll to follow the motion event
                         const activePointerIndex = ev.findPointerIndex(this.mActivePointerId);
-                        const x = ev.getX(activePointerIndex);
+                        const x = this.getPrimaryMotion(ev, activePointerIndex);
                         needsInvalidate = needsInvalidate || this.performDrag(x);
                     }
                     break;
@@ -1783,15 +1977,15 @@ module android.support.v4.view {
                     if (this.mIsBeingDragged) {
                         const velocityTracker = this.mVelocityTracker;
                         velocityTracker.computeCurrentVelocity(1000, this.mMaximumVelocity);
-                        let initialVelocity = velocityTracker.getXVelocity(this.mActivePointerId);
+                        let initialVelocity = this.getPrimaryVelocity(velocityTracker);
                         this.mPopulatePending = true;
-                        const width = this.getClientWidth();
-                        const scrollX = this.getScrollX();
+                        const width = this.getClientSize();
+                        const scrollX = this.getPagingScroll();
                         const ii = this.infoForCurrentScrollPosition();
                         const currentPage = ii.position;
                         const pageOffset = ((scrollX / width) - ii.offset) / ii.widthFactor;
                         const activePointerIndex = ev.findPointerIndex(this.mActivePointerId);
-                        const x = ev.getX(activePointerIndex);
+                        const x = this.getPrimaryMotion(ev, activePointerIndex);
                         const totalDelta = (x - this.mInitialMotionX);
                         let nextPage = this.determineTargetPage(currentPage, pageOffset, initialVelocity,
                             totalDelta);
@@ -1808,14 +2002,14 @@ module android.support.v4.view {
                     break;
                 case MotionEvent.ACTION_POINTER_DOWN: {
                     const index = ev.getActionIndex();
-                    const x = ev.getX(index);
+                    const x = this.getPrimaryMotion(ev, index);
                     this.mLastMotionX = x;
                     this.mActivePointerId = ev.getPointerId(index);
                     break;
                 }
                 case MotionEvent.ACTION_POINTER_UP:
                     this.onSecondaryPointerUp(ev);
-                    this.mLastMotionX = ev.getX(ev.findPointerIndex(this.mActivePointerId));
+                    this.mLastMotionX = this.getPrimaryMotion(ev, ev.findPointerIndex(this.mActivePointerId));
                     break;
             }
             if (needsInvalidate) {
@@ -1842,9 +2036,9 @@ module android.support.v4.view {
             const deltaX = this.mLastMotionX - x;
             this.mLastMotionX = x;
 
-            let oldScrollX = this.getScrollX();
+            let oldScrollX = this.getPagingScroll();
             let scrollX = oldScrollX + deltaX;
-            const width = this.getClientWidth();
+            const width = this.getClientSize();
 
             let leftBound = width * this.mFirstOffset;
             let rightBound = width * this.mLastOffset;
@@ -1877,15 +2071,15 @@ module android.support.v4.view {
             }
             // Don't lose the rounded component
             this.mLastMotionX += scrollX - Math.floor(scrollX);
-            this.scrollTo(scrollX, this.getScrollY());
+            this.setPagingScroll(scrollX);
             this.pageScrolled(scrollX);
 
             return needsInvalidate;
         }
 
         private infoForCurrentScrollPosition():ItemInfo {
-            const width = this.getClientWidth();
-            const scrollOffset = width > 0 ? this.getScrollX() / width : 0;
+            const width = this.getClientSize();
+            const scrollOffset = width > 0 ? this.getPagingScroll() / width : 0;
             const marginOffset = width > 0 ? this.mPageMargin / width : 0;
             let lastPos = -1;
             let lastOffset = 0;
@@ -1994,8 +2188,9 @@ module android.support.v4.view {
 
             // Draw the margin drawable between pages if needed.
             if (this.mPageMargin > 0 && this.mMarginDrawable != null && this.mItems.size() > 0 && this.mAdapter != null) {
-                const scrollX = this.getScrollX();
-                const width = this.getWidth();
+                const vertical = this.mOrientation == ViewPager.VERTICAL;
+                const scrollX = this.getPagingScroll();
+                const width = vertical ? this.getHeight() : this.getWidth();
 
                 const marginOffset = this.mPageMargin / width;
                 let itemIndex = 0;
@@ -2020,8 +2215,13 @@ module android.support.v4.view {
                     }
 
                     if (drawAt + this.mPageMargin > scrollX) {
-                        this.mMarginDrawable.setBounds(drawAt, this.mTopPageBounds,
-                            drawAt + this.mPageMargin, this.mBottomPageBounds);
+                        if (vertical) {
+                            this.mMarginDrawable.setBounds(this.getPaddingLeft(), drawAt,
+                                this.getWidth() - this.getPaddingRight(), drawAt + this.mPageMargin);
+                        } else {
+                            this.mMarginDrawable.setBounds(drawAt, this.mTopPageBounds,
+                                drawAt + this.mPageMargin, this.mBottomPageBounds);
+                        }
                         this.mMarginDrawable.draw(canvas);
                     }
 
@@ -2084,10 +2284,10 @@ module android.support.v4.view {
 
             const velocityTracker = this.mVelocityTracker;
             velocityTracker.computeCurrentVelocity(1000, this.mMaximumVelocity);
-            let initialVelocity = Math.floor(velocityTracker.getXVelocity(this.mActivePointerId));
+            let initialVelocity = Math.floor(this.getPrimaryVelocity(velocityTracker));
             this.mPopulatePending = true;
-            const width = this.getClientWidth();
-            const scrollX = this.getScrollX();
+            const width = this.getClientSize();
+            const scrollX = this.getPagingScroll();
             const ii = this.infoForCurrentScrollPosition();
             const currentPage = ii.position;
             const pageOffset = ((scrollX / width) - ii.offset) / ii.widthFactor;
@@ -2115,9 +2315,9 @@ module android.support.v4.view {
 
             this.mLastMotionX += xOffset;
 
-            let oldScrollX = this.getScrollX();
+            let oldScrollX = this.getPagingScroll();
             let scrollX = oldScrollX - xOffset;
-            const width = this.getClientWidth();
+            const width = this.getClientSize();
 
             let leftBound = width * this.mFirstOffset;
             let rightBound = width * this.mLastOffset;
@@ -2138,13 +2338,14 @@ module android.support.v4.view {
             }
             // Don't lose the rounded component
             this.mLastMotionX += scrollX - Math.floor(scrollX);
-            this.scrollTo(Math.floor(scrollX), this.getScrollY());
+            this.setPagingScroll(Math.floor(scrollX));
             this.pageScrolled(Math.floor(scrollX));
 
             // Synthesize an event for the VelocityTracker.
             const time = android.os.SystemClock.uptimeMillis();
+            const vertical = this.mOrientation == ViewPager.VERTICAL;
             const ev = MotionEvent.obtainWithAction(this.mFakeDragBeginTime, time, MotionEvent.ACTION_MOVE,
-                this.mLastMotionX, 0, 0);
+                vertical ? 0 : this.mLastMotionX, vertical ? this.mLastMotionX : 0, 0);
             this.mVelocityTracker.addMovement(ev);
             ev.recycle();
         }
@@ -2170,7 +2371,7 @@ module android.support.v4.view {
                 // This was our active pointer going up. Choose a new
                 // active pointer and adjust accordingly.
                 const newPointerIndex = pointerIndex == 0 ? 1 : 0;
-                this.mLastMotionX = ev.getX(newPointerIndex);
+                this.mLastMotionX = this.getPrimaryMotion(ev, newPointerIndex);
                 this.mActivePointerId = ev.getPointerId(newPointerIndex);
                 if (this.mVelocityTracker != null) {
                     this.mVelocityTracker.clear();
@@ -2204,7 +2405,7 @@ module android.support.v4.view {
 
 
         canScrollHorizontally(direction:number):boolean {
-            if (this.mAdapter == null) {
+            if (this.mAdapter == null || this.mOrientation == ViewPager.VERTICAL) {
                 return false;
             }
 
@@ -2219,11 +2420,27 @@ module android.support.v4.view {
             }
         }
 
+        canScrollVertically(direction:number):boolean {
+            if (this.mAdapter == null || this.mOrientation != ViewPager.VERTICAL) {
+                return false;
+            }
+
+            const height = this.getClientSize();
+            const scrollY = this.getScrollY();
+            if (direction < 0) {
+                return (scrollY > (height * this.mFirstOffset));
+            } else if (direction > 0) {
+                return (scrollY < (height * this.mLastOffset));
+            } else {
+                return false;
+            }
+        }
+
 
         /**
-         * Tests scrollability within child views of v given a delta of dx.
+         * Tests scrollability within child views of v given a delta of dx along the paging axis.
          *
-         * @param v View to test for horizontal scrollability
+         * @param v View to test for scrollability along the paging axis
          * @param checkV Whether the view v passed should itself be checked for scrollability (true),
          *               or just its children (false).
          * @param dx Delta scrolled in pixels
@@ -2251,6 +2468,9 @@ module android.support.v4.view {
                 }
             }
 
+            if (this.mOrientation == ViewPager.VERTICAL) {
+                return checkV && v.canScrollVertically(-dx);
+            }
             return checkV && v.canScrollHorizontally(-dx);
         }
 
@@ -2279,6 +2499,16 @@ module android.support.v4.view {
                     case KeyEvent.KEYCODE_DPAD_RIGHT:
                         handled = this.arrowScroll(View.FOCUS_RIGHT);
                         break;
+                    case KeyEvent.KEYCODE_DPAD_UP:
+                        if (this.mOrientation == ViewPager.VERTICAL) {
+                            handled = this.arrowScroll(View.FOCUS_UP);
+                        }
+                        break;
+                    case KeyEvent.KEYCODE_DPAD_DOWN:
+                        if (this.mOrientation == ViewPager.VERTICAL) {
+                            handled = this.arrowScroll(View.FOCUS_DOWN);
+                        }
+                        break;
                     case KeyEvent.KEYCODE_TAB:
                         // The focus finder had a bug handling FOCUS_FORWARD and FOCUS_BACKWARD
                         // before Android 3.0. Ignore the tab key on those devices.
@@ -2342,11 +2572,29 @@ module android.support.v4.view {
                     } else {
                         handled = nextFocused.requestFocus();
                     }
+                } else if (direction == View.FOCUS_UP && this.mOrientation == ViewPager.VERTICAL) {
+                    const nextTop = this.getChildRectInPagerCoordinates(this.mTempRect, nextFocused).top;
+                    const currTop = this.getChildRectInPagerCoordinates(this.mTempRect, currentFocused).top;
+                    if (currentFocused != null && nextTop >= currTop) {
+                        handled = this.pageLeft();
+                    } else {
+                        handled = nextFocused.requestFocus();
+                    }
+                } else if (direction == View.FOCUS_DOWN && this.mOrientation == ViewPager.VERTICAL) {
+                    const nextTop = this.getChildRectInPagerCoordinates(this.mTempRect, nextFocused).top;
+                    const currTop = this.getChildRectInPagerCoordinates(this.mTempRect, currentFocused).top;
+                    if (currentFocused != null && nextTop <= currTop) {
+                        handled = this.pageRight();
+                    } else {
+                        handled = nextFocused.requestFocus();
+                    }
                 }
-            } else if (direction == View.FOCUS_LEFT || direction == View.FOCUS_BACKWARD) {
+            } else if (direction == View.FOCUS_LEFT || direction == View.FOCUS_BACKWARD
+                || (direction == View.FOCUS_UP && this.mOrientation == ViewPager.VERTICAL)) {
                 // Trying to move left and nothing there; try to page.
                 handled = this.pageLeft();
-            } else if (direction == View.FOCUS_RIGHT || direction == View.FOCUS_FORWARD) {
+            } else if (direction == View.FOCUS_RIGHT || direction == View.FOCUS_FORWARD
+                || (direction == View.FOCUS_DOWN && this.mOrientation == ViewPager.VERTICAL)) {
                 // Trying to move right and nothing there; try to page.
                 handled = this.pageRight();
             }
@@ -2587,6 +2835,7 @@ module android.support.v4.view {
              * @param position Position of page relative to the current front-and-center
              * *                 position of the pager. 0 is front and center. 1 is one full
              * *                 page position to the right, and -1 is one page position to the left.
+             * *                 In {@link ViewPager#VERTICAL} orientation 1 is one page below and -1 one page above.
              */
             transformPage(page:View, position:number):void;
         }
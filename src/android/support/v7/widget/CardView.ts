@@ -0,0 +1,353 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/widget/FrameLayout.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/Rect.ts"/>
+///<reference path="../../../../android/content/Context.ts"/>
+///<reference path="../../../../android/content/res/Resources.ts"/>
+///<reference path="RoundRectDrawableWithShadow.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import FrameLayout = android.widget.FrameLayout;
+import Canvas = android.graphics.Canvas;
+import Rect = android.graphics.Rect;
+import Context = android.content.Context;
+import Resources = android.content.res.Resources;
+
+/**
+ * A FrameLayout with a rounded corner background and shadow.
+ * <p>
+ * CardView adds padding to draw its shadow, so the card itself is drawn inside of the view
+ * bounds. The amount of padding added depends on the {@link #getMaxCardElevation() max
+ * elevation}. Since padding is used to offset content for shadows, you cannot set padding on
+ * CardView. Instead, you can use content padding attributes in XML or
+ * {@link #setContentPadding(int, int, int, int)} in code to set the padding between the edges
+ * of the Card and children of CardView.
+ * <p>
+ * androidui: children are clipped to the rounded corners of the card. Use
+ * {@link #setPreventCornerOverlap(boolean)} to also pad them away from the corners.
+ *
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_cardBackgroundColor
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_cardCornerRadius
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_cardElevation
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_cardMaxElevation
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_cardPreventCornerOverlap
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPadding
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPaddingLeft
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPaddingTop
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPaddingRight
+ * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPaddingBottom
+ */
+export class CardView extends FrameLayout {
+
+    private mPreventCornerOverlap:boolean = true;
+
+    private mBackgroundDrawable:RoundRectDrawableWithShadow;
+
+    private mContentPadding:Rect = new Rect();
+
+    private mShadowBounds:Rect = new Rect();
+
+    private mCardBounds:Rect = new Rect();
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        const density = Resources.getDisplayMetrics().density;
+        const elevation = 2 * density;
+        this.mBackgroundDrawable = new RoundRectDrawableWithShadow(0xFFFAFAFA, 2 * density, elevation, elevation);
+        this.mBackgroundDrawable.setAddPaddingForCorners(this.mPreventCornerOverlap);
+        this.setBackground(this.mBackgroundDrawable);
+        this.updatePadding();
+
+        const a = this._attrBinder;
+        a.addAttr('cardBackgroundColor', (value)=>{
+            this.setCardBackgroundColor(a.parseColor(value, 0xFFFAFAFA));
+        });
+        a.addAttr('cardCornerRadius', (value)=>{
+            this.setRadius(a.parseNumber(value, this.getRadius()));
+        }, ()=>{
+            return this.getRadius();
+        });
+        a.addAttr('cardElevation', (value)=>{
+            let elevation = a.parseNumber(value, this.getCardElevation());
+            if (elevation > this.getMaxCardElevation()) {
+                this.setMaxCardElevation(elevation);
+            }
+            this.setCardElevation(elevation);
+        }, ()=>{
+            return this.getCardElevation();
+        });
+        a.addAttr('cardMaxElevation', (value)=>{
+            this.setMaxCardElevation(Math.max(a.parseNumber(value, this.getMaxCardElevation()), this.getCardElevation()));
+        }, ()=>{
+            return this.getMaxCardElevation();
+        });
+        a.addAttr('cardPreventCornerOverlap', (value)=>{
+            this.setPreventCornerOverlap(a.parseBoolean(value, true));
+        }, ()=>{
+            return this.mPreventCornerOverlap;
+        });
+        a.addAttr('contentPadding', (value)=>{
+            let padding = a.parseNumber(value, 0);
+            this.setContentPadding(padding, padding, padding, padding);
+        });
+        a.addAttr('contentPaddingLeft', (value)=>{
+            this.setContentPadding(a.parseNumber(value, 0), this.mContentPadding.top,
+                this.mContentPadding.right, this.mContentPadding.bottom);
+        }, ()=>{
+            return this.mContentPadding.left;
+        });
+        a.addAttr('contentPaddingTop', (value)=>{
+            this.setContentPadding(this.mContentPadding.left, a.parseNumber(value, 0),
+                this.mContentPadding.right, this.mContentPadding.bottom);
+        }, ()=>{
+            return this.mContentPadding.top;
+        });
+        a.addAttr('contentPaddingRight', (value)=>{
+            this.setContentPadding(this.mContentPadding.left, this.mContentPadding.top,
+                a.parseNumber(value, 0), this.mContentPadding.bottom);
+        }, ()=>{
+            return this.mContentPadding.right;
+        });
+        a.addAttr('contentPaddingBottom', (value)=>{
+            this.setContentPadding(this.mContentPadding.left, this.mContentPadding.top,
+                this.mContentPadding.right, a.parseNumber(value, 0));
+        }, ()=>{
+            return this.mContentPadding.bottom;
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+    }
+
+    setPadding(left:number, top:number, right:number, bottom:number):void {
+        // NO OP
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        const widthMode:number = View.MeasureSpec.getMode(widthMeasureSpec);
+        switch (widthMode) {
+            case View.MeasureSpec.EXACTLY:
+            case View.MeasureSpec.AT_MOST:
+                const minWidth:number = Math.ceil(this.mBackgroundDrawable.getMinWidth());
+                widthMeasureSpec = View.MeasureSpec.makeMeasureSpec(Math.max(minWidth,
+                    View.MeasureSpec.getSize(widthMeasureSpec)), widthMode);
+                break;
+        }
+
+        const heightMode:number = View.MeasureSpec.getMode(heightMeasureSpec);
+        switch (heightMode) {
+            case View.MeasureSpec.EXACTLY:
+            case View.MeasureSpec.AT_MOST:
+                const minHeight:number = Math.ceil(this.mBackgroundDrawable.getMinHeight());
+                heightMeasureSpec = View.MeasureSpec.makeMeasureSpec(Math.max(minHeight,
+                    View.MeasureSpec.getSize(heightMeasureSpec)), heightMode);
+                break;
+        }
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+    }
+
+    protected dispatchDraw(canvas:Canvas):void {
+        //androidui add: clip the children to the rounded card
+        const r:number = this.mBackgroundDrawable.getCornerRadius();
+        if (r <= 0) {
+            super.dispatchDraw(canvas);
+            return;
+        }
+        this.mBackgroundDrawable.getCardBounds(this.mCardBounds);
+        const saveCount:number = canvas.save();
+        canvas.clipRoundRect(this.mCardBounds, r, r, r, r);
+        super.dispatchDraw(canvas);
+        canvas.restoreToCount(saveCount);
+    }
+
+    /**
+     * Updates the background color of the CardView
+     *
+     * @param color The new color to set for the card background
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_cardBackgroundColor
+     */
+    setCardBackgroundColor(color:number):void {
+        this.mBackgroundDrawable.setColor(color);
+    }
+
+    /**
+     * Returns the inner padding after the Card's left edge
+     *
+     * @return the inner padding after the Card's left edge
+     */
+    getContentPaddingLeft():number {
+        return this.mContentPadding.left;
+    }
+
+    /**
+     * Returns the inner padding before the Card's right edge
+     *
+     * @return the inner padding before the Card's right edge
+     */
+    getContentPaddingRight():number {
+        return this.mContentPadding.right;
+    }
+
+    /**
+     * Returns the inner padding after the Card's top edge
+     *
+     * @return the inner padding after the Card's top edge
+     */
+    getContentPaddingTop():number {
+        return this.mContentPadding.top;
+    }
+
+    /**
+     * Returns the inner padding before the Card's bottom edge
+     *
+     * @return the inner padding before the Card's bottom edge
+     */
+    getContentPaddingBottom():number {
+        return this.mContentPadding.bottom;
+    }
+
+    /**
+     * Sets the padding between the Card's edges and the children of CardView.
+     * <p>
+     * CardView adds the space taken by its shadow to these values before calling
+     * {@link android.view.View#setPadding(int, int, int, int)}.
+     *
+     * @param left   The left padding in pixels
+     * @param top    The top padding in pixels
+     * @param right  The right padding in pixels
+     * @param bottom The bottom padding in pixels
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_contentPadding
+     */
+    setContentPadding(left:number, top:number, right:number, bottom:number):void {
+        this.mContentPadding.set(left, top, right, bottom);
+        this.updatePadding();
+    }
+
+    /**
+     * Updates the corner radius of the CardView.
+     *
+     * @param radius The radius in pixels of the corners of the rectangle shape
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_cardCornerRadius
+     * @see #setRadius(float)
+     */
+    setRadius(radius:number):void {
+        this.mBackgroundDrawable.setCornerRadius(radius);
+        this.updatePadding();
+    }
+
+    /**
+     * Returns the corner radius of the CardView.
+     *
+     * @return Corner radius of the CardView
+     * @see #getRadius()
+     */
+    getRadius():number {
+        return this.mBackgroundDrawable.getCornerRadius();
+    }
+
+    /**
+     * Updates the backward compatible elevation of the CardView.
+     *
+     * @param radius The backward compatible elevation in pixels.
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_cardElevation
+     * @see #getCardElevation()
+     * @see #setMaxCardElevation(float)
+     */
+    setCardElevation(radius:number):void {
+        this.mBackgroundDrawable.setShadowSizeOnly(radius);
+    }
+
+    /**
+     * Returns the backward compatible elevation of the CardView.
+     *
+     * @return Elevation of the CardView
+     * @see #setCardElevation(float)
+     * @see #getMaxCardElevation()
+     */
+    getCardElevation():number {
+        return this.mBackgroundDrawable.getShadowSize();
+    }
+
+    /**
+     * Updates the maximum elevation of the CardView, the space reserved for its shadow.
+     *
+     * @param radius The backward compatible elevation in pixels.
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_cardMaxElevation
+     * @see #setCardElevation(float)
+     * @see #getMaxCardElevation()
+     */
+    setMaxCardElevation(radius:number):void {
+        this.mBackgroundDrawable.setMaxShadowSize(radius);
+        this.updatePadding();
+    }
+
+    /**
+     * Returns the backward compatible elevation of the CardView.
+     *
+     * @return Elevation of the CardView
+     * @see #setMaxCardElevation(float)
+     * @see #getCardElevation()
+     */
+    getMaxCardElevation():number {
+        return this.mBackgroundDrawable.getMaxShadowSize();
+    }
+
+    /**
+     * Returns whether CardView should add extra padding to content to avoid overlaps with rounded
+     * corners.
+     *
+     * @return True if CardView prevents overlaps with rounded corners, false otherwise.
+     * @see #setPreventCornerOverlap(boolean)
+     */
+    getPreventCornerOverlap():boolean {
+        return this.mPreventCornerOverlap;
+    }
+
+    /**
+     * CardView adds additional padding to its content to avoid the rounded corners of the card
+     * overlapping it.
+     * <p>
+     * androidui: the content is clipped to the rounded corners either way, this only decides
+     * whether it is also padded away from them.
+     *
+     * @param preventCornerOverlap Whether CardView should add extra padding to content to avoid
+     *                             overlaps with the CardView corners.
+     * @attr ref android.support.v7.cardview.R.styleable#CardView_cardPreventCornerOverlap
+     */
+    setPreventCornerOverlap(preventCornerOverlap:boolean):void {
+        if (preventCornerOverlap == this.mPreventCornerOverlap) {
+            return;
+        }
+        this.mPreventCornerOverlap = preventCornerOverlap;
+        this.mBackgroundDrawable.setAddPaddingForCorners(preventCornerOverlap);
+        this.updatePadding();
+    }
+
+    private updatePadding():void {
+        const shadowPadding:Rect = new Rect();
+        this.mBackgroundDrawable.getMaxShadowAndCornerPadding(shadowPadding);
+        this.setShadowPadding(shadowPadding.left, shadowPadding.top, shadowPadding.right, shadowPadding.bottom);
+    }
+
+    private setShadowPadding(left:number, top:number, right:number, bottom:number):void {
+        this.mShadowBounds.set(left, top, right, bottom);
+        super.setPadding(left + this.mContentPadding.left, top + this.mContentPadding.top,
+            right + this.mContentPadding.right, bottom + this.mContentPadding.bottom);
+    }
+}
+}
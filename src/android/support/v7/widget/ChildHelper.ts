@@ -0,0 +1,292 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ArrayList = java.util.ArrayList;
+
+/**
+ * Helper class to manage children.
+ * <p>
+ * It wraps a RecyclerView and adds ability to hide some children. There are two sets of methods
+ * provided by this class. <b>Regular</b> methods are the ones that replicate ViewGroup methods
+ * like getChildAt, getChildCount etc. These methods ignore hidden children.
+ * <p>
+ * When RecyclerView needs direct access to the view group children, it can call unfiltered
+ * methods like get getUnfilteredChildCount or getUnfilteredChildAt.
+ */
+export class ChildHelper {
+
+    private mCallback:ChildHelper.Callback;
+
+    private mHiddenViews:ArrayList<View> = new ArrayList<View>();
+
+    constructor(callback:ChildHelper.Callback) {
+        this.mCallback = callback;
+    }
+
+    /**
+     * Adds a view to the ViewGroup
+     *
+     * @param child  View to add.
+     * @param index  Index of the child from the regular perspective (excluding hidden views).
+     *               ChildHelper offsets this index to actual ViewGroup index.
+     * @param hidden If set to true, this item will be invisible from regular methods.
+     */
+    addView(child:View, index = -1, hidden = false):void  {
+        const offset:number = this.getOffset(index);
+        if (hidden) {
+            this.mHiddenViews.add(child);
+        }
+        this.mCallback.addView(child, offset);
+    }
+
+    private getOffset(index:number):number  {
+        const limit:number = this.mCallback.getChildCount();
+        if (index < 0) {
+            return limit;
+        }
+        let visibleIndex = -1;
+        for (let i = 0; i < limit; i++) {
+            if (!this.mHiddenViews.contains(this.mCallback.getChildAt(i))) {
+                visibleIndex++;
+                if (visibleIndex == index) {
+                    return i;
+                }
+            }
+        }
+        return limit;
+    }
+
+    /**
+     * Removes the provided View from underlying RecyclerView.
+     *
+     * @param view The view to remove.
+     */
+    removeView(view:View):void  {
+        let index:number = this.mCallback.indexOfChild(view);
+        if (index < 0) {
+            return;
+        }
+        this.mHiddenViews.remove(view);
+        this.mCallback.removeViewAt(index);
+    }
+
+    /**
+     * Removes the view at the provided index from RecyclerView.
+     *
+     * @param index Index of the child from the regular perspective (excluding hidden views).
+     *              ChildHelper offsets this index to actual ViewGroup index.
+     */
+    removeViewAt(index:number):void  {
+        const offset:number = this.getOffset(index);
+        const view:View = this.mCallback.getChildAt(offset);
+        if (view == null) {
+            return;
+        }
+        this.mHiddenViews.remove(view);
+        this.mCallback.removeViewAt(offset);
+    }
+
+    /**
+     * Returns the child at provided index.
+     *
+     * @param index Index of the child to return in regular perspective.
+     */
+    getChildAt(index:number):View  {
+        const offset:number = this.getOffset(index);
+        return this.mCallback.getChildAt(offset);
+    }
+
+    /**
+     * Removes all views from the ViewGroup including the hidden ones.
+     */
+    removeAllViewsUnfiltered():void  {
+        this.mHiddenViews.clear();
+        this.mCallback.removeAllViews();
+    }
+
+    /**
+     * This can be used to find a disappearing view by position.
+     *
+     * @param position The adapter position of the item.
+     * @param type     View type, can be {@link RecyclerView#INVALID_TYPE}.
+     * @return         A hidden view with a valid ViewHolder that matches the position and type.
+     */
+    findHiddenNonRemovedView(position:number, type:number):View  {
+        const count:number = this.mHiddenViews.size();
+        for (let i = 0; i < count; i++) {
+            const view:View = this.mHiddenViews.get(i);
+            let holder:RecyclerView.ViewHolder = this.mCallback.getChildViewHolder(view);
+            if (holder.getLayoutPosition() == position && !holder.isInvalid() && !holder.isRemoved()
+                    && (type == RecyclerView.INVALID_TYPE || holder.getItemViewType() == type)) {
+                return view;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Attaches the provided view to the underlying ViewGroup.
+     *
+     * @param child        Child to attach.
+     * @param index        Index of the child to attach in regular perspective.
+     * @param layoutParams LayoutParams for the child.
+     * @param hidden       If set to true, this item will be invisible to the regular methods.
+     */
+    attachViewToParent(child:View, index:number, layoutParams:ViewGroup.LayoutParams, hidden:boolean):void  {
+        const offset:number = this.getOffset(index);
+        if (hidden) {
+            this.mHiddenViews.add(child);
+        }
+        this.mCallback.attachViewToParent(child, offset, layoutParams);
+    }
+
+    /**
+     * Returns the number of children that are not hidden.
+     *
+     * @return Number of children that are not hidden.
+     * @see #getChildAt(int)
+     */
+    getChildCount():number  {
+        return this.mCallback.getChildCount() - this.mHiddenViews.size();
+    }
+
+    /**
+     * Returns the total number of children.
+     *
+     * @return The total number of children including the hidden views.
+     * @see #getUnfilteredChildAt(int)
+     */
+    getUnfilteredChildCount():number  {
+        return this.mCallback.getChildCount();
+    }
+
+    /**
+     * Returns a child by ViewGroup offset. ChildHelper won't offset this index.
+     *
+     * @param index ViewGroup index of the child to return.
+     * @return The view in the provided index.
+     */
+    getUnfilteredChildAt(index:number):View  {
+        return this.mCallback.getChildAt(index);
+    }
+
+    /**
+     * Detaches the view from the ViewGroup.
+     *
+     * @param index Index of the child to return in regular perspective.
+     */
+    detachViewFromParent(index:number):void  {
+        const offset:number = this.getOffset(index);
+        const view:View = this.mCallback.getChildAt(offset);
+        this.mHiddenViews.remove(view);
+        this.mCallback.detachViewFromParent(offset);
+    }
+
+    /**
+     * Returns the index of the child in regular perspective.
+     *
+     * @param child The child whose index will be returned.
+     * @return The regular perspective index of the child or -1 if it does not exists.
+     */
+    indexOfChild(child:View):number  {
+        const index:number = this.mCallback.indexOfChild(child);
+        if (index == -1) {
+            return -1;
+        }
+        if (this.mHiddenViews.contains(child)) {
+            return -1;
+        }
+        let hiddenBefore = 0;
+        for (let i = 0; i < index; i++) {
+            if (this.mHiddenViews.contains(this.mCallback.getChildAt(i))) {
+                hiddenBefore++;
+            }
+        }
+        return index - hiddenBefore;
+    }
+
+    /**
+     * Returns whether a View is visible to LayoutManager or not.
+     *
+     * @param view The child view to check. Should be a child of the Callback.
+     * @return True if the View is not visible to LayoutManager
+     */
+    isHidden(view:View):boolean  {
+        return this.mHiddenViews.contains(view);
+    }
+
+    /**
+     * Marks a child view as hidden.
+     *
+     * @param view The view to hide.
+     */
+    hide(view:View):void  {
+        const offset:number = this.mCallback.indexOfChild(view);
+        if (offset < 0) {
+            throw Error("view is not a child, cannot hide " + view);
+        }
+        if (!this.mHiddenViews.contains(view)) {
+            this.mHiddenViews.add(view);
+        }
+    }
+
+    /**
+     * Removes a view from the ViewGroup if it is hidden.
+     *
+     * @param view The view to remove.
+     * @return True if the View is found and it is hidden. False otherwise.
+     */
+    removeViewIfHidden(view:View):boolean  {
+        const index:number = this.mCallback.indexOfChild(view);
+        if (index == -1) {
+            this.mHiddenViews.remove(view);
+            return true;
+        }
+        if (this.mHiddenViews.contains(view)) {
+            this.mHiddenViews.remove(view);
+            this.mCallback.removeViewAt(index);
+            return true;
+        }
+        return false;
+    }
+
+    toString():string  {
+        return "ChildHelper, hidden list:" + this.mHiddenViews.size();
+    }
+}
+
+export module ChildHelper{
+export interface Callback {
+    getChildCount():number;
+    addView(child:View, index:number):void;
+    indexOfChild(view:View):number;
+    removeViewAt(index:number):void;
+    getChildAt(offset:number):View;
+    removeAllViews():void;
+    getChildViewHolder(view:View):RecyclerView.ViewHolder;
+    attachViewToParent(child:View, index:number, layoutParams:ViewGroup.LayoutParams):void;
+    detachViewFromParent(offset:number):void;
+}
+}
+
+}
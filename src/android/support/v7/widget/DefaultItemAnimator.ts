@@ -0,0 +1,617 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewPropertyAnimator.ts"/>
+///<reference path="../../../../android/animation/Animator.ts"/>
+///<reference path="../../../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="../../../../java/lang/Runnable.ts"/>
+///<reference path="RecyclerView.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewPropertyAnimator = android.view.ViewPropertyAnimator;
+import Animator = android.animation.Animator;
+import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+import ArrayList = java.util.ArrayList;
+import Runnable = java.lang.Runnable;
+import ViewHolder = android.support.v7.widget.RecyclerView.ViewHolder;
+
+/**
+ * This implementation of {@link RecyclerView.ItemAnimator} provides basic
+ * animations on remove, add, and move events that happen to the items in
+ * a RecyclerView. RecyclerView uses a DefaultItemAnimator by default.
+ *
+ * @see RecyclerView#setItemAnimator(RecyclerView.ItemAnimator)
+ */
+export class DefaultItemAnimator extends RecyclerView.ItemAnimator {
+
+    private static DEBUG:boolean = false;
+
+    private mPendingRemovals:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mPendingAdditions:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mPendingMoves:ArrayList<DefaultItemAnimator.MoveInfo> = new ArrayList<DefaultItemAnimator.MoveInfo>();
+
+    private mPendingChanges:ArrayList<DefaultItemAnimator.ChangeInfo> = new ArrayList<DefaultItemAnimator.ChangeInfo>();
+
+    private mAdditionsList:ArrayList<ArrayList<ViewHolder>> = new ArrayList<ArrayList<ViewHolder>>();
+
+    private mMovesList:ArrayList<ArrayList<DefaultItemAnimator.MoveInfo>> = new ArrayList<ArrayList<DefaultItemAnimator.MoveInfo>>();
+
+    private mChangesList:ArrayList<ArrayList<DefaultItemAnimator.ChangeInfo>> = new ArrayList<ArrayList<DefaultItemAnimator.ChangeInfo>>();
+
+    private mAddAnimations:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mMoveAnimations:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mRemoveAnimations:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mChangeAnimations:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    runPendingAnimations():void  {
+        let removalsPending = !this.mPendingRemovals.isEmpty();
+        let movesPending = !this.mPendingMoves.isEmpty();
+        let changesPending = !this.mPendingChanges.isEmpty();
+        let additionsPending = !this.mPendingAdditions.isEmpty();
+        if (!removalsPending && !movesPending && !additionsPending && !changesPending) {
+            // nothing to animate
+            return;
+        }
+        // First, remove stuff
+        for (let holder of this.mPendingRemovals.array) {
+            this.animateRemoveImpl(holder);
+        }
+        this.mPendingRemovals.clear();
+        // Next, move stuff
+        if (movesPending) {
+            const moves = new ArrayList<DefaultItemAnimator.MoveInfo>();
+            moves.addAll(this.mPendingMoves);
+            this.mMovesList.add(moves);
+            this.mPendingMoves.clear();
+            let mover:Runnable = {
+                run: ()=>{
+                    for (let moveInfo of moves.array) {
+                        this.animateMoveImpl(moveInfo.holder, moveInfo.fromX, moveInfo.fromY, moveInfo.toX, moveInfo.toY);
+                    }
+                    moves.clear();
+                    this.mMovesList.remove(moves);
+                }
+            };
+            if (removalsPending) {
+                let view = moves.get(0).holder.itemView;
+                view.postOnAnimationDelayed(mover, this.getRemoveDuration());
+            } else {
+                mover.run();
+            }
+        }
+        // Next, change stuff, to run in parallel with move animations
+        if (changesPending) {
+            const changes = new ArrayList<DefaultItemAnimator.ChangeInfo>();
+            changes.addAll(this.mPendingChanges);
+            this.mChangesList.add(changes);
+            this.mPendingChanges.clear();
+            let changer:Runnable = {
+                run: ()=>{
+                    for (let change of changes.array) {
+                        this.animateChangeImpl(change);
+                    }
+                    changes.clear();
+                    this.mChangesList.remove(changes);
+                }
+            };
+            if (removalsPending) {
+                let holder = changes.get(0).oldHolder;
+                holder.itemView.postOnAnimationDelayed(changer, this.getRemoveDuration());
+            } else {
+                changer.run();
+            }
+        }
+        // Next, add stuff
+        if (additionsPending) {
+            const additions = new ArrayList<ViewHolder>();
+            additions.addAll(this.mPendingAdditions);
+            this.mAdditionsList.add(additions);
+            this.mPendingAdditions.clear();
+            let adder:Runnable = {
+                run: ()=>{
+                    for (let holder of additions.array) {
+                        this.animateAddImpl(holder);
+                    }
+                    additions.clear();
+                    this.mAdditionsList.remove(additions);
+                }
+            };
+            if (removalsPending || movesPending || changesPending) {
+                let removeDuration = removalsPending ? this.getRemoveDuration() : 0;
+                let moveDuration = movesPending ? this.getMoveDuration() : 0;
+                let changeDuration = changesPending ? this.getChangeDuration() : 0;
+                let totalDelay = removeDuration + Math.max(moveDuration, changeDuration);
+                let view = additions.get(0).itemView;
+                view.postOnAnimationDelayed(adder, totalDelay);
+            } else {
+                adder.run();
+            }
+        }
+    }
+
+    animateRemove(holder:ViewHolder):boolean  {
+        this.resetAnimation(holder);
+        this.mPendingRemovals.add(holder);
+        return true;
+    }
+
+    private animateRemoveImpl(holder:ViewHolder):void  {
+        const view = holder.itemView;
+        const animation = view.animate();
+        this.mRemoveAnimations.add(holder);
+        animation.setDuration(this.getRemoveDuration()).alpha(0).setListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationStart(animator:Animator):void  {
+                    _this.dispatchRemoveStarting(holder);
+                }
+                onAnimationEnd(animator:Animator):void  {
+                    animation.setListener(null);
+                    view.setAlpha(1);
+                    _this.dispatchRemoveFinished(holder);
+                    _this.mRemoveAnimations.remove(holder);
+                    _this.dispatchFinishedWhenDone();
+                }
+            }
+            return new _Inner();
+        })()).start();
+    }
+
+    animateAdd(holder:ViewHolder):boolean  {
+        this.resetAnimation(holder);
+        holder.itemView.setAlpha(0);
+        this.mPendingAdditions.add(holder);
+        return true;
+    }
+
+    private animateAddImpl(holder:ViewHolder):void  {
+        const view = holder.itemView;
+        const animation = view.animate();
+        this.mAddAnimations.add(holder);
+        animation.alpha(1).setDuration(this.getAddDuration()).setListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationStart(animator:Animator):void  {
+                    _this.dispatchAddStarting(holder);
+                }
+                onAnimationCancel(animator:Animator):void  {
+                    view.setAlpha(1);
+                }
+                onAnimationEnd(animator:Animator):void  {
+                    animation.setListener(null);
+                    _this.dispatchAddFinished(holder);
+                    _this.mAddAnimations.remove(holder);
+                    _this.dispatchFinishedWhenDone();
+                }
+            }
+            return new _Inner();
+        })()).start();
+    }
+
+    animateMove(holder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number):boolean  {
+        const view = holder.itemView;
+        fromX += holder.itemView.getTranslationX();
+        fromY += holder.itemView.getTranslationY();
+        this.resetAnimation(holder);
+        let deltaX = toX - fromX;
+        let deltaY = toY - fromY;
+        if (deltaX == 0 && deltaY == 0) {
+            this.dispatchMoveFinished(holder);
+            return false;
+        }
+        if (deltaX != 0) {
+            view.setTranslationX(-deltaX);
+        }
+        if (deltaY != 0) {
+            view.setTranslationY(-deltaY);
+        }
+        this.mPendingMoves.add(new DefaultItemAnimator.MoveInfo(holder, fromX, fromY, toX, toY));
+        return true;
+    }
+
+    private animateMoveImpl(holder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number):void  {
+        const view = holder.itemView;
+        const deltaX = toX - fromX;
+        const deltaY = toY - fromY;
+        if (deltaX != 0) {
+            view.animate().translationX(0);
+        }
+        if (deltaY != 0) {
+            view.animate().translationY(0);
+        }
+        // TODO: make EndActions end listeners instead, since end actions aren't called when
+        // vpas are canceled (and can't end them. why?)
+        // need listener functionality in VPACompat for this. Ick.
+        const animation = view.animate();
+        this.mMoveAnimations.add(holder);
+        animation.setDuration(this.getMoveDuration()).setListener((()=>{
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationStart(animator:Animator):void  {
+                    _this.dispatchMoveStarting(holder);
+                }
+                onAnimationCancel(animator:Animator):void  {
+                    if (deltaX != 0) {
+                        view.setTranslationX(0);
+                    }
+                    if (deltaY != 0) {
+                        view.setTranslationY(0);
+                    }
+                }
+                onAnimationEnd(animator:Animator):void  {
+                    animation.setListener(null);
+                    _this.dispatchMoveFinished(holder);
+                    _this.mMoveAnimations.remove(holder);
+                    _this.dispatchFinishedWhenDone();
+                }
+            }
+            return new _Inner();
+        })()).start();
+    }
+
+    animateChange(oldHolder:ViewHolder, newHolder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number):boolean  {
+        const prevTranslationX = oldHolder.itemView.getTranslationX();
+        const prevTranslationY = oldHolder.itemView.getTranslationY();
+        const prevAlpha = oldHolder.itemView.getAlpha();
+        this.resetAnimation(oldHolder);
+        let deltaX = Math.floor(toX - fromX - prevTranslationX);
+        let deltaY = Math.floor(toY - fromY - prevTranslationY);
+        // recover prev translation state after ending animation
+        oldHolder.itemView.setTranslationX(prevTranslationX);
+        oldHolder.itemView.setTranslationY(prevTranslationY);
+        oldHolder.itemView.setAlpha(prevAlpha);
+        if (newHolder != null && newHolder.itemView != null) {
+            // carry over translation values
+            this.resetAnimation(newHolder);
+            newHolder.itemView.setTranslationX(-deltaX);
+            newHolder.itemView.setTranslationY(-deltaY);
+            newHolder.itemView.setAlpha(0);
+        }
+        this.mPendingChanges.add(new DefaultItemAnimator.ChangeInfo(oldHolder, newHolder, fromX, fromY, toX, toY));
+        return true;
+    }
+
+    private animateChangeImpl(changeInfo:DefaultItemAnimator.ChangeInfo):void  {
+        const holder = changeInfo.oldHolder;
+        const view = holder == null ? null : holder.itemView;
+        const newHolder = changeInfo.newHolder;
+        const newView = newHolder != null ? newHolder.itemView : null;
+        if (view != null) {
+            const oldViewAnim = view.animate().setDuration(this.getChangeDuration());
+            this.mChangeAnimations.add(changeInfo.oldHolder);
+            oldViewAnim.translationX(changeInfo.toX - changeInfo.fromX);
+            oldViewAnim.translationY(changeInfo.toY - changeInfo.fromY);
+            oldViewAnim.alpha(0).setListener((()=>{
+                const _this = this;
+                class _Inner extends AnimatorListenerAdapter {
+                    onAnimationStart(animator:Animator):void  {
+                        _this.dispatchChangeStarting(changeInfo.oldHolder, true);
+                    }
+                    onAnimationEnd(animator:Animator):void  {
+                        oldViewAnim.setListener(null);
+                        view.setAlpha(1);
+                        view.setTranslationX(0);
+                        view.setTranslationY(0);
+                        _this.dispatchChangeFinished(changeInfo.oldHolder, true);
+                        _this.mChangeAnimations.remove(changeInfo.oldHolder);
+                        _this.dispatchFinishedWhenDone();
+                    }
+                }
+                return new _Inner();
+            })()).start();
+        }
+        if (newView != null) {
+            const newViewAnimation = newView.animate();
+            this.mChangeAnimations.add(changeInfo.newHolder);
+            newViewAnimation.translationX(0).translationY(0).setDuration(this.getChangeDuration()).alpha(1).setListener((()=>{
+                const _this = this;
+                class _Inner extends AnimatorListenerAdapter {
+                    onAnimationStart(animator:Animator):void  {
+                        _this.dispatchChangeStarting(changeInfo.newHolder, false);
+                    }
+                    onAnimationEnd(animator:Animator):void  {
+                        newViewAnimation.setListener(null);
+                        newView.setAlpha(1);
+                        newView.setTranslationX(0);
+                        newView.setTranslationY(0);
+                        _this.dispatchChangeFinished(changeInfo.newHolder, false);
+                        _this.mChangeAnimations.remove(changeInfo.newHolder);
+                        _this.dispatchFinishedWhenDone();
+                    }
+                }
+                return new _Inner();
+            })()).start();
+        }
+    }
+
+    private endChangeAnimation(infoList:ArrayList<DefaultItemAnimator.ChangeInfo>, item:ViewHolder):void  {
+        for (let i = infoList.size() - 1; i >= 0; i--) {
+            let changeInfo = infoList.get(i);
+            if (this.endChangeAnimationIfNecessary(changeInfo, item)) {
+                if (changeInfo.oldHolder == null && changeInfo.newHolder == null) {
+                    infoList.remove(changeInfo);
+                }
+            }
+        }
+    }
+
+    private endChangeAnimationIfNecessary(changeInfo:DefaultItemAnimator.ChangeInfo, item?:ViewHolder):boolean  {
+        if (item === undefined) {
+            if (changeInfo.oldHolder != null) {
+                this.endChangeAnimationIfNecessary(changeInfo, changeInfo.oldHolder);
+            }
+            if (changeInfo.newHolder != null) {
+                this.endChangeAnimationIfNecessary(changeInfo, changeInfo.newHolder);
+            }
+            return false;
+        }
+        let oldItem = false;
+        if (changeInfo.newHolder == item) {
+            changeInfo.newHolder = null;
+        } else if (changeInfo.oldHolder == item) {
+            changeInfo.oldHolder = null;
+            oldItem = true;
+        } else {
+            return false;
+        }
+        item.itemView.setAlpha(1);
+        item.itemView.setTranslationX(0);
+        item.itemView.setTranslationY(0);
+        this.dispatchChangeFinished(item, oldItem);
+        return true;
+    }
+
+    endAnimation(item:ViewHolder):void  {
+        const view = item.itemView;
+        // this will trigger end callback which should set properties to their target values.
+        view.animate().cancel();
+        // TODO if some other animations are chained to end, how do we cancel them as well?
+        for (let i = this.mPendingMoves.size() - 1; i >= 0; i--) {
+            let moveInfo = this.mPendingMoves.get(i);
+            if (moveInfo.holder == item) {
+                view.setTranslationY(0);
+                view.setTranslationX(0);
+                this.dispatchMoveFinished(item);
+                this.mPendingMoves.remove(i);
+            }
+        }
+        this.endChangeAnimation(this.mPendingChanges, item);
+        if (this.mPendingRemovals.remove(item) != null) {
+            view.setAlpha(1);
+            this.dispatchRemoveFinished(item);
+        }
+        if (this.mPendingAdditions.remove(item) != null) {
+            view.setAlpha(1);
+            this.dispatchAddFinished(item);
+        }
+        for (let i = this.mChangesList.size() - 1; i >= 0; i--) {
+            let changes = this.mChangesList.get(i);
+            this.endChangeAnimation(changes, item);
+            if (changes.isEmpty()) {
+                this.mChangesList.remove(i);
+            }
+        }
+        for (let i = this.mMovesList.size() - 1; i >= 0; i--) {
+            let moves = this.mMovesList.get(i);
+            for (let j = moves.size() - 1; j >= 0; j--) {
+                let moveInfo = moves.get(j);
+                if (moveInfo.holder == item) {
+                    view.setTranslationY(0);
+                    view.setTranslationX(0);
+                    this.dispatchMoveFinished(item);
+                    moves.remove(j);
+                    if (moves.isEmpty()) {
+                        this.mMovesList.remove(i);
+                    }
+                    break;
+                }
+            }
+        }
+        for (let i = this.mAdditionsList.size() - 1; i >= 0; i--) {
+            let additions = this.mAdditionsList.get(i);
+            if (additions.remove(item) != null) {
+                view.setAlpha(1);
+                this.dispatchAddFinished(item);
+                if (additions.isEmpty()) {
+                    this.mAdditionsList.remove(i);
+                }
+            }
+        }
+        // animations should be ended by the cancel above.
+        if (this.mRemoveAnimations.remove(item) != null && DefaultItemAnimator.DEBUG) {
+            throw Error("after animation is cancelled, item should not be in " + "mRemoveAnimations list");
+        }
+        if (this.mAddAnimations.remove(item) != null && DefaultItemAnimator.DEBUG) {
+            throw Error("after animation is cancelled, item should not be in " + "mAddAnimations list");
+        }
+        if (this.mChangeAnimations.remove(item) != null && DefaultItemAnimator.DEBUG) {
+            throw Error("after animation is cancelled, item should not be in " + "mChangeAnimations list");
+        }
+        if (this.mMoveAnimations.remove(item) != null && DefaultItemAnimator.DEBUG) {
+            throw Error("after animation is cancelled, item should not be in " + "mMoveAnimations list");
+        }
+        this.dispatchFinishedWhenDone();
+    }
+
+    private resetAnimation(holder:ViewHolder):void  {
+        holder.itemView.animate().setInterpolator(null);
+        this.endAnimation(holder);
+    }
+
+    isRunning():boolean  {
+        return (!this.mPendingAdditions.isEmpty() || !this.mPendingChanges.isEmpty() || !this.mPendingMoves.isEmpty()
+            || !this.mPendingRemovals.isEmpty() || !this.mMoveAnimations.isEmpty() || !this.mRemoveAnimations.isEmpty()
+            || !this.mAddAnimations.isEmpty() || !this.mChangeAnimations.isEmpty() || !this.mMovesList.isEmpty()
+            || !this.mAdditionsList.isEmpty() || !this.mChangesList.isEmpty());
+    }
+
+    /**
+     * Check the state of currently pending and running animations. If there are none
+     * pending/running, call {@link #dispatchAnimationsFinished()} to notify any
+     * listeners.
+     */
+    private dispatchFinishedWhenDone():void  {
+        if (!this.isRunning()) {
+            this.dispatchAnimationsFinished();
+        }
+    }
+
+    endAnimations():void  {
+        let count = this.mPendingMoves.size();
+        for (let i = count - 1; i >= 0; i--) {
+            let item = this.mPendingMoves.get(i);
+            let view = item.holder.itemView;
+            view.setTranslationY(0);
+            view.setTranslationX(0);
+            this.dispatchMoveFinished(item.holder);
+            this.mPendingMoves.remove(i);
+        }
+        count = this.mPendingRemovals.size();
+        for (let i = count - 1; i >= 0; i--) {
+            let item = this.mPendingRemovals.get(i);
+            this.dispatchRemoveFinished(item);
+            this.mPendingRemovals.remove(i);
+        }
+        count = this.mPendingAdditions.size();
+        for (let i = count - 1; i >= 0; i--) {
+            let item = this.mPendingAdditions.get(i);
+            item.itemView.setAlpha(1);
+            this.dispatchAddFinished(item);
+            this.mPendingAdditions.remove(i);
+        }
+        count = this.mPendingChanges.size();
+        for (let i = count - 1; i >= 0; i--) {
+            this.endChangeAnimationIfNecessary(this.mPendingChanges.get(i));
+        }
+        this.mPendingChanges.clear();
+        if (!this.isRunning()) {
+            return;
+        }
+        let listCount = this.mMovesList.size();
+        for (let i = listCount - 1; i >= 0; i--) {
+            let moves = this.mMovesList.get(i);
+            count = moves.size();
+            for (let j = count - 1; j >= 0; j--) {
+                let moveInfo = moves.get(j);
+                let view = moveInfo.holder.itemView;
+                view.setTranslationY(0);
+                view.setTranslationX(0);
+                this.dispatchMoveFinished(moveInfo.holder);
+                moves.remove(j);
+                if (moves.isEmpty()) {
+                    this.mMovesList.remove(moves);
+                }
+            }
+        }
+        listCount = this.mAdditionsList.size();
+        for (let i = listCount - 1; i >= 0; i--) {
+            let additions = this.mAdditionsList.get(i);
+            count = additions.size();
+            for (let j = count - 1; j >= 0; j--) {
+                let item = additions.get(j);
+                item.itemView.setAlpha(1);
+                this.dispatchAddFinished(item);
+                additions.remove(j);
+                if (additions.isEmpty()) {
+                    this.mAdditionsList.remove(additions);
+                }
+            }
+        }
+        listCount = this.mChangesList.size();
+        for (let i = listCount - 1; i >= 0; i--) {
+            let changes = this.mChangesList.get(i);
+            count = changes.size();
+            for (let j = count - 1; j >= 0; j--) {
+                this.endChangeAnimationIfNecessary(changes.get(j));
+                if (changes.isEmpty()) {
+                    this.mChangesList.remove(changes);
+                }
+            }
+        }
+        this.cancelAll(this.mRemoveAnimations);
+        this.cancelAll(this.mMoveAnimations);
+        this.cancelAll(this.mAddAnimations);
+        this.cancelAll(this.mChangeAnimations);
+        this.dispatchAnimationsFinished();
+    }
+
+    cancelAll(viewHolders:ArrayList<ViewHolder>):void  {
+        for (let i = viewHolders.size() - 1; i >= 0; i--) {
+            viewHolders.get(i).itemView.animate().cancel();
+        }
+    }
+}
+
+export module DefaultItemAnimator{
+export class MoveInfo {
+
+    holder:ViewHolder;
+
+    fromX:number = 0;
+
+    fromY:number = 0;
+
+    toX:number = 0;
+
+    toY:number = 0;
+
+    constructor(holder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number) {
+        this.holder = holder;
+        this.fromX = fromX;
+        this.fromY = fromY;
+        this.toX = toX;
+        this.toY = toY;
+    }
+}
+
+export class ChangeInfo {
+
+    oldHolder:ViewHolder;
+
+    newHolder:ViewHolder;
+
+    fromX:number = 0;
+
+    fromY:number = 0;
+
+    toX:number = 0;
+
+    toY:number = 0;
+
+    constructor(oldHolder:ViewHolder, newHolder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number) {
+        this.oldHolder = oldHolder;
+        this.newHolder = newHolder;
+        this.fromX = fromX;
+        this.fromY = fromY;
+        this.toX = toX;
+        this.toY = toY;
+    }
+
+    toString():string  {
+        return "ChangeInfo{" + "oldHolder=" + this.oldHolder + ", newHolder=" + this.newHolder + ", fromX=" + this.fromX + ", fromY=" + this.fromY + ", toX=" + this.toX + ", toY=" + this.toY + '}';
+    }
+}
+}
+
+}
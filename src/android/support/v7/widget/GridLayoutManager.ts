@@ -0,0 +1,643 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../android/util/SparseArray.ts"/>
+///<reference path="RecyclerView.ts"/>
+///<reference path="LinearLayoutManager.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Log = android.util.Log;
+import SparseArray = android.util.SparseArray;
+import Recycler = android.support.v7.widget.RecyclerView.Recycler;
+import State = android.support.v7.widget.RecyclerView.State;
+
+/**
+ * A {@link RecyclerView.LayoutManager} implementations that lays out items in a grid.
+ * <p>
+ * By default, each item occupies 1 span. You can change it by providing a custom
+ * {@link SpanSizeLookup} instance via {@link #setSpanSizeLookup(SpanSizeLookup)}.
+ */
+export class GridLayoutManager extends LinearLayoutManager {
+
+    private static GRID_DEBUG:boolean = false;
+
+    private static GRID_TAG:string = "GridLayoutManager";
+
+    static DEFAULT_SPAN_COUNT:number = -1;
+
+    /**
+     * The measure spec for the scroll direction.
+     */
+    static MAIN_DIR_SPEC:number = View.MeasureSpec.makeMeasureSpec(0, View.MeasureSpec.UNSPECIFIED);
+
+    mSpanCount:number = GridLayoutManager.DEFAULT_SPAN_COUNT;
+
+    /**
+     * The size of each span
+     */
+    mSizePerSpan:number = 0;
+
+    /**
+     * Temporary array to keep views in layoutChunk method
+     */
+    mSet:View[];
+
+    mSpanSizeLookup:GridLayoutManager.SpanSizeLookup = new GridLayoutManager.DefaultSpanSizeLookup();
+
+    /**
+     * Creates a GridLayoutManager with the given span count, orientation and layout order.
+     *
+     * @param spanCount The number of columns or rows in the grid
+     * @param orientation Layout orientation. Should be {@link #HORIZONTAL} or {@link
+     *                      #VERTICAL}.
+     * @param reverseLayout When set to true, layouts from end to start.
+     */
+    constructor(spanCount = 1, orientation = LinearLayoutManager.VERTICAL, reverseLayout = false) {
+        super(orientation, reverseLayout);
+        this.setSpanCount(spanCount);
+    }
+
+    /**
+     * stackFromEnd is not supported by GridLayoutManager. Consider using
+     * {@link #setReverseLayout(boolean)}.
+     */
+    setStackFromEnd(stackFromEnd:boolean):void  {
+        if (stackFromEnd) {
+            throw Error("GridLayoutManager does not support stack from end." + " Consider using reverse layout");
+        }
+        super.setStackFromEnd(false);
+    }
+
+    onItemsChanged(recyclerView:RecyclerView):void  {
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+    }
+
+    onItemsAdded(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+    }
+
+    onItemsRemoved(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+    }
+
+    onItemsUpdated(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+    }
+
+    onItemsMoved(recyclerView:RecyclerView, from:number, to:number, itemCount:number):void  {
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+    }
+
+    generateDefaultLayoutParams():RecyclerView.LayoutParams  {
+        return new GridLayoutManager.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    generateLayoutParams(lp:ViewGroup.LayoutParams):RecyclerView.LayoutParams  {
+        return new GridLayoutManager.LayoutParams(lp);
+    }
+
+    checkLayoutParams(lp:RecyclerView.LayoutParams):boolean  {
+        return lp instanceof GridLayoutManager.LayoutParams;
+    }
+
+    /**
+     * Sets the source to get the number of spans occupied by each item in the adapter.
+     *
+     * @param spanSizeLookup {@link SpanSizeLookup} instance to be used to query number of spans
+     *                       occupied by each item
+     */
+    setSpanSizeLookup(spanSizeLookup:GridLayoutManager.SpanSizeLookup):void  {
+        this.mSpanSizeLookup = spanSizeLookup;
+    }
+
+    /**
+     * Returns the current {@link SpanSizeLookup} used by the GridLayoutManager.
+     *
+     * @return The current {@link SpanSizeLookup} used by the GridLayoutManager.
+     */
+    getSpanSizeLookup():GridLayoutManager.SpanSizeLookup  {
+        return this.mSpanSizeLookup;
+    }
+
+    private updateMeasurements():void  {
+        let totalSpace:number;
+        if (this.getOrientation() == GridLayoutManager.VERTICAL) {
+            totalSpace = this.getWidth() - this.getPaddingRight() - this.getPaddingLeft();
+        } else {
+            totalSpace = this.getHeight() - this.getPaddingBottom() - this.getPaddingTop();
+        }
+        this.mSizePerSpan = Math.floor(totalSpace / this.mSpanCount);
+    }
+
+    onLayoutChildren(recycler:Recycler, state:State):void  {
+        this.updateMeasurements();
+        super.onLayoutChildren(recycler, state);
+    }
+
+    onAnchorReady(state:State, anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+        super.onAnchorReady(state, anchorInfo);
+        this.updateMeasurements();
+        if (state.getItemCount() > 0 && !state.isPreLayout()) {
+            this.ensureAnchorIsInFirstSpan(anchorInfo);
+        }
+        if (this.mSet == null || this.mSet.length != this.mSpanCount) {
+            this.mSet = new Array<View>(this.mSpanCount);
+        }
+    }
+
+    private ensureAnchorIsInFirstSpan(anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+        let span = this.mSpanSizeLookup.getCachedSpanIndex(anchorInfo.mPosition, this.mSpanCount);
+        while (span > 0 && anchorInfo.mPosition > 0) {
+            anchorInfo.mPosition--;
+            span = this.mSpanSizeLookup.getCachedSpanIndex(anchorInfo.mPosition, this.mSpanCount);
+        }
+    }
+
+    findReferenceChild(start:number, end:number, itemCount:number):View  {
+        this.ensureLayoutState();
+        let invalidMatch:View = null;
+        let outOfBoundsMatch:View = null;
+        const boundsStart = this.mOrientationHelper.getStartAfterPadding();
+        const boundsEnd = this.mOrientationHelper.getEndAfterPadding();
+        const diff = end > start ? 1 : -1;
+        for (let i = start; i != end; i += diff) {
+            const view = this.getChildAt(i);
+            const position = this.getPosition(view);
+            if (position >= 0 && position < itemCount) {
+                const span = this.mSpanSizeLookup.getCachedSpanIndex(position, this.mSpanCount);
+                if (span != 0) {
+                    continue;
+                }
+                if ((<RecyclerView.LayoutParams>view.getLayoutParams()).isItemRemoved()) {
+                    if (invalidMatch == null) {
+                        // removed item, least preferred
+                        invalidMatch = view;
+                    }
+                } else if (this.mOrientationHelper.getDecoratedStart(view) >= boundsEnd || this.mOrientationHelper.getDecoratedEnd(view) < boundsStart) {
+                    if (outOfBoundsMatch == null) {
+                        // item is not visible, less preferred
+                        outOfBoundsMatch = view;
+                    }
+                } else {
+                    return view;
+                }
+            }
+        }
+        return outOfBoundsMatch != null ? outOfBoundsMatch : invalidMatch;
+    }
+
+    layoutChunk(recycler:Recycler, state:State, layoutState:LinearLayoutManager.LayoutState, result:LinearLayoutManager.LayoutChunkResult):void  {
+        const layingOutInPrimaryDirection = layoutState.mItemDirection == LinearLayoutManager.LayoutState.ITEM_DIRECTION_TAIL;
+        let count = 0;
+        let consumedSpanCount = 0;
+        let remainingSpan = this.mSpanCount;
+        if (!layingOutInPrimaryDirection) {
+            let itemSpanIndex = this.mSpanSizeLookup.getCachedSpanIndex(layoutState.mCurrentPosition, this.mSpanCount);
+            let itemSpanSize = this.mSpanSizeLookup.getSpanSize(layoutState.mCurrentPosition);
+            remainingSpan = itemSpanIndex + itemSpanSize;
+        }
+        // grab views that will fill the row
+        while (count < this.mSpanCount && layoutState.hasMore(state) && remainingSpan > 0) {
+            let pos = layoutState.mCurrentPosition;
+            const spanSize = this.mSpanSizeLookup.getSpanSize(pos);
+            if (spanSize > this.mSpanCount) {
+                throw Error("Item at position " + pos + " requires " + spanSize + " spans but GridLayoutManager has only " + this.mSpanCount + " spans.");
+            }
+            remainingSpan -= spanSize;
+            if (remainingSpan < 0) {
+                // item did not fit into this row or column
+                break;
+            }
+            let view = layoutState.next(recycler);
+            if (view == null) {
+                break;
+            }
+            consumedSpanCount += spanSize;
+            this.mSet[count] = view;
+            count++;
+        }
+        if (count == 0) {
+            result.mFinished = true;
+            return;
+        }
+        let maxSize = 0;
+        // we should assign spans before item decor offsets are calculated
+        this.assignSpans(count, consumedSpanCount, layingOutInPrimaryDirection);
+        for (let i = 0; i < count; i++) {
+            let view = this.mSet[i];
+            if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_END) {
+                this.addView(view);
+            } else {
+                this.addView(view, 0);
+            }
+            const lp = <GridLayoutManager.LayoutParams>view.getLayoutParams();
+            const spec = View.MeasureSpec.makeMeasureSpec(this.mSizePerSpan * lp.mSpanSize, View.MeasureSpec.EXACTLY);
+            if (this.mOrientation == GridLayoutManager.VERTICAL) {
+                this.measureChildWithDecorationsAndMargin(view, spec, this.getMainDirSpec(lp.height));
+            } else {
+                this.measureChildWithDecorationsAndMargin(view, this.getMainDirSpec(lp.width), spec);
+            }
+            const size = this.mOrientationHelper.getDecoratedMeasurement(view);
+            if (size > maxSize) {
+                maxSize = size;
+            }
+        }
+        // views that did not measure the maxSize has to be re-measured
+        const maxMeasureSpec = this.getMainDirSpec(maxSize);
+        for (let i = 0; i < count; i++) {
+            const view = this.mSet[i];
+            if (this.mOrientationHelper.getDecoratedMeasurement(view) != maxSize) {
+                const lp = <GridLayoutManager.LayoutParams>view.getLayoutParams();
+                const spec = View.MeasureSpec.makeMeasureSpec(this.mSizePerSpan * lp.mSpanSize, View.MeasureSpec.EXACTLY);
+                if (this.mOrientation == GridLayoutManager.VERTICAL) {
+                    this.measureChildWithDecorationsAndMargin(view, spec, maxMeasureSpec);
+                } else {
+                    this.measureChildWithDecorationsAndMargin(view, maxMeasureSpec, spec);
+                }
+            }
+        }
+        result.mConsumed = maxSize;
+        let left = 0, right = 0, top = 0, bottom = 0;
+        if (this.mOrientation == GridLayoutManager.VERTICAL) {
+            if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START) {
+                bottom = layoutState.mOffset;
+                top = bottom - maxSize;
+            } else {
+                top = layoutState.mOffset;
+                bottom = top + maxSize;
+            }
+        } else {
+            if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START) {
+                right = layoutState.mOffset;
+                left = right - maxSize;
+            } else {
+                left = layoutState.mOffset;
+                right = left + maxSize;
+            }
+        }
+        for (let i = 0; i < count; i++) {
+            let view = this.mSet[i];
+            let params = <GridLayoutManager.LayoutParams>view.getLayoutParams();
+            if (this.mOrientation == GridLayoutManager.VERTICAL) {
+                left = this.getPaddingLeft() + this.mSizePerSpan * params.mSpanIndex;
+                right = left + this.mOrientationHelper.getDecoratedMeasurementInOther(view);
+            } else {
+                top = this.getPaddingTop() + this.mSizePerSpan * params.mSpanIndex;
+                bottom = top + this.mOrientationHelper.getDecoratedMeasurementInOther(view);
+            }
+            // We calculate everything with View's bounding box (which includes decor and margins)
+            // To calculate correct layout position, we subtract margins.
+            this.layoutDecorated(view, left + params.leftMargin, top + params.topMargin, right - params.rightMargin, bottom - params.bottomMargin);
+            if (GridLayoutManager.GRID_DEBUG) {
+                Log.d(GridLayoutManager.GRID_TAG, "laid out child at position " + this.getPosition(view) + ", with l:"
+                    + (left + params.leftMargin) + ", t:" + (top + params.topMargin) + ", r:"
+                    + (right - params.rightMargin) + ", b:" + (bottom - params.bottomMargin)
+                    + ", span:" + params.mSpanIndex + ", spanSize:" + params.mSpanSize);
+            }
+            // Consume the available space if the view is not removed OR changed
+            if (params.isItemRemoved() || params.isItemChanged()) {
+                result.mIgnoreConsumed = true;
+            }
+            result.mFocusable = result.mFocusable || view.isFocusable();
+        }
+        for (let i = 0; i < this.mSet.length; i++) {
+            this.mSet[i] = null;
+        }
+    }
+
+    private getMainDirSpec(dim:number):number  {
+        if (dim < 0) {
+            return GridLayoutManager.MAIN_DIR_SPEC;
+        } else {
+            return View.MeasureSpec.makeMeasureSpec(dim, View.MeasureSpec.EXACTLY);
+        }
+    }
+
+    private measureChildWithDecorationsAndMargin(child:View, widthSpec:number, heightSpec:number):void  {
+        let lp = <RecyclerView.LayoutParams>child.getLayoutParams();
+        // RecyclerView caches the decor insets on the layout params
+        this.calculateItemDecorationsForChild(child, lp.mDecorInsets);
+        widthSpec = this.updateSpecWithExtra(widthSpec, lp.leftMargin + lp.mDecorInsets.left, lp.rightMargin + lp.mDecorInsets.right);
+        heightSpec = this.updateSpecWithExtra(heightSpec, lp.topMargin + lp.mDecorInsets.top, lp.bottomMargin + lp.mDecorInsets.bottom);
+        lp.mInsetsDirty = false;
+        child.measure(widthSpec, heightSpec);
+    }
+
+    private updateSpecWithExtra(spec:number, startInset:number, endInset:number):number  {
+        if (startInset == 0 && endInset == 0) {
+            return spec;
+        }
+        const mode = View.MeasureSpec.getMode(spec);
+        if (mode == View.MeasureSpec.AT_MOST || mode == View.MeasureSpec.EXACTLY) {
+            return View.MeasureSpec.makeMeasureSpec(View.MeasureSpec.getSize(spec) - startInset - endInset, mode);
+        }
+        return spec;
+    }
+
+    private assignSpans(count:number, consumedSpanCount:number, layingOutInPrimaryDirection:boolean):void  {
+        let span:number, spanDiff:number, start:number, end:number, diff:number;
+        // make sure we traverse from min position to max position
+        if (layingOutInPrimaryDirection) {
+            start = 0;
+            end = count;
+            diff = 1;
+        } else {
+            start = count - 1;
+            end = -1;
+            diff = -1;
+        }
+        if (this.mOrientation == GridLayoutManager.VERTICAL && this.isLayoutRTL()) {
+            // start from last span
+            span = this.mSpanCount - 1;
+            spanDiff = -1;
+        } else {
+            span = 0;
+            spanDiff = 1;
+        }
+        for (let i = start; i != end; i += diff) {
+            let view = this.mSet[i];
+            let params = <GridLayoutManager.LayoutParams>view.getLayoutParams();
+            params.mSpanSize = this.mSpanSizeLookup.getSpanSize(this.getPosition(view));
+            if (spanDiff == -1 && params.mSpanSize > 1) {
+                params.mSpanIndex = span - (params.mSpanSize - 1);
+            } else {
+                params.mSpanIndex = span;
+            }
+            span += spanDiff * params.mSpanSize;
+        }
+    }
+
+    /**
+     * Returns the number of spans laid out by this grid.
+     *
+     * @return The number of spans
+     * @see #setSpanCount(int)
+     */
+    getSpanCount():number  {
+        return this.mSpanCount;
+    }
+
+    /**
+     * Sets the number of spans to be laid out.
+     * <p>
+     * If {@link #getOrientation()} is {@link #VERTICAL}, this is the number of columns.
+     * If {@link #getOrientation()} is {@link #HORIZONTAL}, this is the number of rows.
+     *
+     * @param spanCount The total number of spans in the grid
+     * @see #getSpanCount()
+     */
+    setSpanCount(spanCount:number):void  {
+        if (spanCount == this.mSpanCount) {
+            return;
+        }
+        if (spanCount < 1) {
+            throw Error("Span count should be at least 1. Provided " + spanCount);
+        }
+        this.mSpanCount = spanCount;
+        this.mSpanSizeLookup.invalidateSpanIndexCache();
+        this.requestLayout();
+    }
+
+    supportsPredictiveItemAnimations():boolean  {
+        return false;
+    }
+}
+
+export module GridLayoutManager{
+/**
+ * A helper class to provide the number of spans each item occupies.
+ * <p>
+ * Default implementation sets each item to occupy exactly 1 span.
+ *
+ * @see GridLayoutManager#setSpanSizeLookup(SpanSizeLookup)
+ */
+export abstract class SpanSizeLookup {
+
+    mSpanIndexCache:SparseArray<number> = new SparseArray<number>();
+
+    private mCacheSpanIndices:boolean = false;
+
+    /**
+     * Returns the number of span occupied by the item at <code>position</code>.
+     *
+     * @param position The adapter position of the item
+     * @return The number of spans occupied by the item at the provided position
+     */
+    abstract getSpanSize(position:number):number ;
+
+    /**
+     * Sets whether the results of {@link #getSpanIndex(int, int)} method should be cached or
+     * not. By default these values are not cached. If you are not overriding
+     * {@link #getSpanIndex(int, int)}, you should set this to true for better performance.
+     *
+     * @param cacheSpanIndices Whether results of getSpanIndex should be cached or not.
+     */
+    setSpanIndexCacheEnabled(cacheSpanIndices:boolean):void  {
+        this.mCacheSpanIndices = cacheSpanIndices;
+    }
+
+    /**
+     * Clears the span index cache. GridLayoutManager automatically calls this method when
+     * adapter changes occur.
+     */
+    invalidateSpanIndexCache():void  {
+        this.mSpanIndexCache.clear();
+    }
+
+    /**
+     * Returns whether results of {@link #getSpanIndex(int, int)} method are cached or not.
+     *
+     * @return True if results of {@link #getSpanIndex(int, int)} are cached.
+     */
+    isSpanIndexCacheEnabled():boolean  {
+        return this.mCacheSpanIndices;
+    }
+
+    getCachedSpanIndex(position:number, spanCount:number):number  {
+        if (!this.mCacheSpanIndices) {
+            return this.getSpanIndex(position, spanCount);
+        }
+        const existing = this.mSpanIndexCache.get(position, -1);
+        if (existing != -1) {
+            return existing;
+        }
+        const value = this.getSpanIndex(position, spanCount);
+        this.mSpanIndexCache.put(position, value);
+        return value;
+    }
+
+    /**
+     * Returns the final span index of the provided position.
+     * <p>
+     * If you have a faster way to calculate span index for your items, you should override
+     * this method. Otherwise, you should enable span index cache
+     * ({@link #setSpanIndexCacheEnabled(boolean)}) for better performance. When caching is
+     * disabled, default implementation traverses all items from 0 to
+     * <code>position</code>. When caching is enabled, it calculates from the closest cached
+     * value before the <code>position</code>.
+     * <p>
+     * If you override this method, you need to make sure it is consistent with
+     * {@link #getSpanSize(int)}. GridLayoutManager does not call this method for
+     * each item. It is called only for the reference item and rest of the items
+     * are assigned to spans based on the reference item. For example, you cannot assign a
+     * position to span 2 while span 1 is empty.
+     * <p>
+     * Note that span offsets always start with 0 and are not affected by RTL.
+     *
+     * @param position  The position of the item
+     * @param spanCount The total number of spans in the grid
+     * @return The final span position of the item. Should be between 0 (inclusive) and
+     * <code>spanCount</code>(exclusive)
+     */
+    getSpanIndex(position:number, spanCount:number):number  {
+        let positionSpanSize = this.getSpanSize(position);
+        if (positionSpanSize == spanCount) {
+            return 0; // quick return for full-span items
+        }
+        let span = 0;
+        let startPos = 0;
+        // If caching is enabled, try to jump
+        if (this.mCacheSpanIndices && this.mSpanIndexCache.size() > 0) {
+            let prevKey = this.findReferenceIndexFromCache(position);
+            if (prevKey >= 0) {
+                span = this.mSpanIndexCache.get(prevKey) + this.getSpanSize(prevKey);
+                startPos = prevKey + 1;
+            }
+        }
+        for (let i = startPos; i < position; i++) {
+            let size = this.getSpanSize(i);
+            span += size;
+            if (span == spanCount) {
+                span = 0;
+            } else if (span > spanCount) {
+                // did not fit, moving to next row / column
+                span = size;
+            }
+        }
+        if (span + positionSpanSize <= spanCount) {
+            return span;
+        }
+        return 0;
+    }
+
+    findReferenceIndexFromCache(position:number):number  {
+        // SparseArray keys are kept in insertion order here, so scan for the closest key below
+        let reference = -1;
+        for (let i = 0, size = this.mSpanIndexCache.size(); i < size; i++) {
+            const key = this.mSpanIndexCache.keyAt(i);
+            if (key < position && key > reference) {
+                reference = key;
+            }
+        }
+        return reference;
+    }
+
+    /**
+     * Returns the index of the group this position belongs.
+     * <p>
+     * For example, if grid has 3 columns and each item occupies 1 span, span group index
+     * for item 1 will be 0, item 5 will be 1.
+     *
+     * @param adapterPosition The position in adapter
+     * @param spanCount The total number of spans in the grid
+     * @return The index of the span group including the item at the given adapter position
+     */
+    getSpanGroupIndex(adapterPosition:number, spanCount:number):number  {
+        let span = 0;
+        let group = 0;
+        let positionSpanSize = this.getSpanSize(adapterPosition);
+        for (let i = 0; i < adapterPosition; i++) {
+            let size = this.getSpanSize(i);
+            span += size;
+            if (span == spanCount) {
+                span = 0;
+                group++;
+            } else if (span > spanCount) {
+                // did not fit, moving to next row / column
+                span = size;
+                group++;
+            }
+        }
+        if (span + positionSpanSize > spanCount) {
+            group++;
+        }
+        return group;
+    }
+}
+
+/**
+ * Default implementation for {@link SpanSizeLookup}. Each item occupies 1 span.
+ */
+export class DefaultSpanSizeLookup extends SpanSizeLookup {
+
+    getSpanSize(position:number):number  {
+        return 1;
+    }
+
+    getSpanIndex(position:number, spanCount:number):number  {
+        return position % spanCount;
+    }
+}
+
+/**
+ * LayoutParams used by GridLayoutManager.
+ */
+export class LayoutParams extends RecyclerView.LayoutParams {
+
+    /**
+     * Span Id for Views that are not laid out yet.
+     */
+    static INVALID_SPAN_ID:number = -1;
+
+    mSpanIndex:number = LayoutParams.INVALID_SPAN_ID;
+
+    mSpanSize:number = 0;
+
+    /**
+     * Returns the current span index of this View. If the View is not laid out yet, the return
+     * value is <code>undefined</code>.
+     * <p>
+     * Note that span index may change by whether the RecyclerView is RTL or not. For
+     * example, if the number of spans is 3 and layout is RTL, the rightmost item will have
+     * span index of 2. If the layout changes back to LTR, span index for this view will be 0.
+     * If the item was occupying 2 spans, span indices would be 1 and 0 respectively.
+     * <p>
+     * If the View occupies multiple spans, span with the minimum index is returned.
+     *
+     * @return The span index of the View.
+     */
+    getSpanIndex():number  {
+        return this.mSpanIndex;
+    }
+
+    /**
+     * Returns the number of spans occupied by this View. If the View not laid out yet, the
+     * return value is <code>undefined</code>.
+     *
+     * @return The number of spans occupied by this View.
+     */
+    getSpanSize():number  {
+        return this.mSpanSize;
+    }
+}
+}
+
+}
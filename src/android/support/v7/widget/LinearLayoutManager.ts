@@ -0,0 +1,1635 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/graphics/Point.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../java/lang/Integer.ts"/>
+///<reference path="RecyclerView.ts"/>
+///<reference path="OrientationHelper.ts"/>
+///<reference path="ScrollbarHelper.ts"/>
+///<reference path="LinearSmoothScroller.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Point = android.graphics.Point;
+import Log = android.util.Log;
+import Integer = java.lang.Integer;
+import Recycler = android.support.v7.widget.RecyclerView.Recycler;
+import State = android.support.v7.widget.RecyclerView.State;
+
+/**
+ * A {@link android.support.v7.widget.RecyclerView.LayoutManager} implementation which provides
+ * similar functionality to {@link android.widget.ListView}.
+ */
+export class LinearLayoutManager extends RecyclerView.LayoutManager {
+
+    private static TAG:string = "LinearLayoutManager";
+
+    static DEBUG:boolean = false;
+
+    static HORIZONTAL:number = OrientationHelper.HORIZONTAL;
+
+    static VERTICAL:number = OrientationHelper.VERTICAL;
+
+    static INVALID_OFFSET:number = Integer.MIN_VALUE;
+
+    /**
+     * While trying to find next view to focus, LayoutManager will not try to scroll more
+     * than this factor times the total space of the list. If layout is vertical, total space is the
+     * height minus padding, if layout is horizontal, total space is the width minus padding.
+     */
+    private static MAX_SCROLL_FACTOR:number = 0.33;
+
+    /**
+     * Current orientation. Either {@link #HORIZONTAL} or {@link #VERTICAL}
+     */
+    mOrientation:number = 0;
+
+    /**
+     * Helper class that keeps temporary layout state.
+     * It does not keep state after layout is complete but we still keep a reference to re-use
+     * the same object.
+     */
+    private mLayoutState:LinearLayoutManager.LayoutState;
+
+    /**
+     * Many calculations are made depending on orientation. To keep it clean, this interface
+     * helps {@link LinearLayoutManager} make those decisions.
+     * Based on {@link #mOrientation}, an implementation is lazily created in
+     * {@link #ensureLayoutState} method.
+     */
+    mOrientationHelper:OrientationHelper;
+
+    /**
+     * We need to track this so that we can ignore current position when it changes.
+     */
+    private mLastStackFromEnd:boolean = false;
+
+    /**
+     * Defines if layout should be calculated from end to start.
+     *
+     * @see #mShouldReverseLayout
+     */
+    private mReverseLayout:boolean = false;
+
+    /**
+     * This keeps the final value for how LayoutManager should start laying out views.
+     * It is calculated by checking {@link #getReverseLayout()} and View's layout direction.
+     * {@link #onLayoutChildren(RecyclerView.Recycler, RecyclerView.State)} is run.
+     */
+    mShouldReverseLayout:boolean = false;
+
+    /**
+     * Works the same way as {@link android.widget.AbsListView#setStackFromBottom(boolean)} and
+     * it supports both orientations.
+     * see {@link android.widget.AbsListView#setStackFromBottom(boolean)}
+     */
+    private mStackFromEnd:boolean = false;
+
+    /**
+     * Works the same way as {@link android.widget.AbsListView#setSmoothScrollbarEnabled(boolean)}.
+     * see {@link android.widget.AbsListView#setSmoothScrollbarEnabled(boolean)}
+     */
+    private mSmoothScrollbarEnabled:boolean = true;
+
+    /**
+     * When LayoutManager needs to scroll to a position, it sets this variable and requests a
+     * layout which will check this variable and re-layout accordingly.
+     */
+    mPendingScrollPosition:number = RecyclerView.NO_POSITION;
+
+    /**
+     * Used to keep the offset value when {@link #scrollToPositionWithOffset(int, int)} is
+     * called.
+     */
+    mPendingScrollPositionOffset:number = LinearLayoutManager.INVALID_OFFSET;
+
+    private mRecycleChildrenOnDetach:boolean = false;
+
+    /**
+     * Re-used variable to keep anchor information on re-layout.
+     * Anchor position and coordinate defines the reference point for LLM while doing a layout.
+     */
+    private mAnchorInfo:LinearLayoutManager.AnchorInfo;
+
+    /**
+     * @param orientation   Layout orientation. Should be {@link #HORIZONTAL} or {@link
+     *                      #VERTICAL}.
+     * @param reverseLayout When set to true, layouts from end to start.
+     */
+    constructor(orientation = LinearLayoutManager.VERTICAL, reverseLayout = false) {
+        super();
+        this.mAnchorInfo = new LinearLayoutManager.AnchorInfo(this);
+        this.setOrientation(orientation);
+        this.setReverseLayout(reverseLayout);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    generateDefaultLayoutParams():RecyclerView.LayoutParams  {
+        return new RecyclerView.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    /**
+     * Returns whether LayoutManager will recycle its children when it is detached from
+     * RecyclerView.
+     *
+     * @return true if LayoutManager will recycle its children when it is detached from
+     * RecyclerView.
+     */
+    getRecycleChildrenOnDetach():boolean  {
+        return this.mRecycleChildrenOnDetach;
+    }
+
+    /**
+     * Set whether LayoutManager will recycle its children when it is detached from
+     * RecyclerView.
+     * <p>
+     * If you are using a {@link RecyclerView.RecycledViewPool}, it might be a good idea to set
+     * this flag to <code>true</code> so that views will be avilable to other RecyclerViews
+     * immediately.
+     * <p>
+     * Note that, setting this flag will result in a performance drop if RecyclerView
+     * is restored.
+     *
+     * @param recycleChildrenOnDetach Whether children should be recycled in detach or not.
+     */
+    setRecycleChildrenOnDetach(recycleChildrenOnDetach:boolean):void  {
+        this.mRecycleChildrenOnDetach = recycleChildrenOnDetach;
+    }
+
+    onDetachedFromWindow(view:RecyclerView, recycler:Recycler):void  {
+        super.onDetachedFromWindow(view, recycler);
+        if (this.mRecycleChildrenOnDetach) {
+            this.removeAndRecycleAllViews(recycler);
+            recycler.clear();
+        }
+    }
+
+    /**
+     * @return true if {@link #getOrientation()} is {@link #HORIZONTAL}
+     */
+    canScrollHorizontally():boolean  {
+        return this.mOrientation == LinearLayoutManager.HORIZONTAL;
+    }
+
+    /**
+     * @return true if {@link #getOrientation()} is {@link #VERTICAL}
+     */
+    canScrollVertically():boolean  {
+        return this.mOrientation == LinearLayoutManager.VERTICAL;
+    }
+
+    /**
+     * Compatibility support for {@link android.widget.AbsListView#setStackFromBottom(boolean)}
+     */
+    setStackFromEnd(stackFromEnd:boolean):void  {
+        this.assertNotInLayoutOrScroll(null);
+        if (this.mStackFromEnd == stackFromEnd) {
+            return;
+        }
+        this.mStackFromEnd = stackFromEnd;
+        this.requestLayout();
+    }
+
+    getStackFromEnd():boolean  {
+        return this.mStackFromEnd;
+    }
+
+    /**
+     * Returns the current orientaion of the layout.
+     *
+     * @return Current orientation.
+     * @see #mOrientation
+     * @see #setOrientation(int)
+     */
+    getOrientation():number  {
+        return this.mOrientation;
+    }
+
+    /**
+     * Sets the orientation of the layout. {@link android.support.v7.widget.LinearLayoutManager}
+     * will do its best to keep scroll position.
+     *
+     * @param orientation {@link #HORIZONTAL} or {@link #VERTICAL}
+     */
+    setOrientation(orientation:number):void  {
+        if (orientation != LinearLayoutManager.HORIZONTAL && orientation != LinearLayoutManager.VERTICAL) {
+            throw Error("invalid orientation:" + orientation);
+        }
+        this.assertNotInLayoutOrScroll(null);
+        if (orientation == this.mOrientation) {
+            return;
+        }
+        this.mOrientation = orientation;
+        this.mOrientationHelper = null;
+        this.requestLayout();
+    }
+
+    /**
+     * Calculates the view layout order. (e.g. from end to start or start to end)
+     * RTL layout support is applied automatically. So if layout is RTL and
+     * {@link #getReverseLayout()} is {@code true}, elements will be laid out starting from left.
+     */
+    private resolveShouldLayoutReverse():void  {
+        // A == B is the same result, but we rather keep it readable
+        if (this.mOrientation == LinearLayoutManager.VERTICAL || !this.isLayoutRTL()) {
+            this.mShouldReverseLayout = this.mReverseLayout;
+        } else {
+            this.mShouldReverseLayout = !this.mReverseLayout;
+        }
+    }
+
+    /**
+     * Returns if views are laid out from the opposite direction of the layout.
+     *
+     * @return If layout is reversed or not.
+     * @see {@link #setReverseLayout(boolean)}
+     */
+    getReverseLayout():boolean  {
+        return this.mReverseLayout;
+    }
+
+    /**
+     * Used to reverse item traversal and layout order.
+     * This behaves similar to the layout change for RTL views. When set to true, first item is
+     * laid out at the end of the UI, second item is laid out before it etc.
+     *
+     * For horizontal layouts, it depends on the layout direction.
+     * When set to true, If {@link android.support.v7.widget.RecyclerView} is LTR, than it will
+     * layout from RTL, if {@link android.support.v7.widget.RecyclerView}} is RTL, it will layout
+     * from LTR.
+     *
+     * If you are looking for the exact same behavior of
+     * {@link android.widget.AbsListView#setStackFromBottom(boolean)}, use
+     * {@link #setStackFromEnd(boolean)}
+     */
+    setReverseLayout(reverseLayout:boolean):void  {
+        this.assertNotInLayoutOrScroll(null);
+        if (reverseLayout == this.mReverseLayout) {
+            return;
+        }
+        this.mReverseLayout = reverseLayout;
+        this.requestLayout();
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    findViewByPosition(position:number):View  {
+        const childCount = this.getChildCount();
+        if (childCount == 0) {
+            return null;
+        }
+        const firstChild = this.getPosition(this.getChildAt(0));
+        const viewPosition = position - firstChild;
+        if (viewPosition >= 0 && viewPosition < childCount) {
+            return this.getChildAt(viewPosition);
+        }
+        return super.findViewByPosition(position);
+    }
+
+    /**
+     * <p>Returns the amount of extra space that should be laid out by LayoutManager.
+     * By default, {@link android.support.v7.widget.LinearLayoutManager} lays out 1 extra page of
+     * items while smooth scrolling and 0 otherwise. You can override this method to implement your
+     * custom layout pre-cache logic.</p>
+     * <p>Laying out invisible elements will eventually come with performance cost. On the other
+     * hand, in places like smooth scrolling to an unknown location, this extra content helps
+     * LayoutManager to calculate a much smoother scrolling; which improves user experience.</p>
+     * <p>You can also use this if you are trying to pre-layout your upcoming views.</p>
+     *
+     * @return The extra space that should be laid out (in pixels).
+     */
+    protected getExtraLayoutSpace(state:State):number  {
+        if (state.hasTargetScrollPosition()) {
+            return this.mOrientationHelper.getTotalSpace();
+        } else {
+            return 0;
+        }
+    }
+
+    smoothScrollToPosition(recyclerView:RecyclerView, state:State, position:number):void  {
+        const _this = this;
+        class _Inner extends LinearSmoothScroller {
+            computeScrollVectorForPosition(targetPosition:number):Point  {
+                return _this.computeScrollVectorForPosition(targetPosition);
+            }
+        }
+        let linearSmoothScroller = new _Inner();
+        linearSmoothScroller.setTargetPosition(position);
+        this.startSmoothScroll(linearSmoothScroller);
+    }
+
+    computeScrollVectorForPosition(targetPosition:number):Point  {
+        if (this.getChildCount() == 0) {
+            return null;
+        }
+        const firstChildPos = this.getPosition(this.getChildAt(0));
+        const direction = targetPosition < firstChildPos != this.mShouldReverseLayout ? -1 : 1;
+        if (this.mOrientation == LinearLayoutManager.HORIZONTAL) {
+            return new Point(direction, 0);
+        } else {
+            return new Point(0, direction);
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    onLayoutChildren(recycler:Recycler, state:State):void  {
+        // layout algorithm:
+        // 1) by checking children and other variables, find an anchor coordinate and an anchor
+        //  item position.
+        // 2) fill towards start, stacking from bottom
+        // 3) fill towards end, stacking from top
+        // 4) scroll to fulfill requirements like stack from bottom.
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "is pre layout:" + state.isPreLayout());
+        }
+        this.ensureLayoutState();
+        this.mLayoutState.mRecycle = false;
+        // resolve layout direction
+        this.resolveShouldLayoutReverse();
+        this.mAnchorInfo.reset();
+        this.mAnchorInfo.mLayoutFromEnd = this.mShouldReverseLayout != this.mStackFromEnd;
+        // calculate anchor position and coordinate
+        this.updateAnchorInfoForLayout(state, this.mAnchorInfo);
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "Anchor info:" + this.mAnchorInfo);
+        }
+        // LLM may decide to layout items for "extra" pixels to account for scrolling target,
+        // caching or predictive animations.
+        let extraForStart:number;
+        let extraForEnd:number;
+        const extra = this.getExtraLayoutSpace(state);
+        // If the previous scroll delta was less than zero, the extra space should be laid out
+        // at the start. Otherwise, it should be at the end.
+        if (this.mLayoutState.mLastScrollDelta >= 0) {
+            extraForEnd = extra;
+            extraForStart = 0;
+        } else {
+            extraForStart = extra;
+            extraForEnd = 0;
+        }
+        extraForStart += this.mOrientationHelper.getStartAfterPadding();
+        extraForEnd += this.mOrientationHelper.getEndPadding();
+        let startOffset:number;
+        let endOffset:number;
+        this.onAnchorReady(state, this.mAnchorInfo);
+        this.detachAndScrapAttachedViews(recycler);
+        this.mLayoutState.mIsPreLayout = state.isPreLayout();
+        if (this.mAnchorInfo.mLayoutFromEnd) {
+            // fill towards start
+            this.updateLayoutStateToFillStart(this.mAnchorInfo);
+            this.mLayoutState.mExtra = extraForStart;
+            this.fill(recycler, this.mLayoutState, state, false);
+            startOffset = this.mLayoutState.mOffset;
+            if (this.mLayoutState.mAvailable > 0) {
+                extraForEnd += this.mLayoutState.mAvailable;
+            }
+            // fill towards end
+            this.updateLayoutStateToFillEnd(this.mAnchorInfo);
+            this.mLayoutState.mExtra = extraForEnd;
+            this.mLayoutState.mCurrentPosition += this.mLayoutState.mItemDirection;
+            this.fill(recycler, this.mLayoutState, state, false);
+            endOffset = this.mLayoutState.mOffset;
+        } else {
+            // fill towards end
+            this.updateLayoutStateToFillEnd(this.mAnchorInfo);
+            this.mLayoutState.mExtra = extraForEnd;
+            this.fill(recycler, this.mLayoutState, state, false);
+            endOffset = this.mLayoutState.mOffset;
+            if (this.mLayoutState.mAvailable > 0) {
+                extraForStart += this.mLayoutState.mAvailable;
+            }
+            // fill towards start
+            this.updateLayoutStateToFillStart(this.mAnchorInfo);
+            this.mLayoutState.mExtra = extraForStart;
+            this.mLayoutState.mCurrentPosition += this.mLayoutState.mItemDirection;
+            this.fill(recycler, this.mLayoutState, state, false);
+            startOffset = this.mLayoutState.mOffset;
+        }
+        // changes may cause gaps on the UI, try to fix them.
+        // TODO we can probably avoid this if neither stackFromEnd/reverseLayout/RTL values have
+        // changed
+        if (this.getChildCount() > 0) {
+            // because layout from end may be changed by scroll to position
+            // we re-calculate it.
+            // find which side we should check for gaps.
+            if (this.mShouldReverseLayout != this.mStackFromEnd) {
+                let fixOffset = this.fixLayoutEndGap(endOffset, recycler, state, true);
+                startOffset += fixOffset;
+                endOffset += fixOffset;
+                fixOffset = this.fixLayoutStartGap(startOffset, recycler, state, false);
+                startOffset += fixOffset;
+                endOffset += fixOffset;
+            } else {
+                let fixOffset = this.fixLayoutStartGap(startOffset, recycler, state, true);
+                startOffset += fixOffset;
+                endOffset += fixOffset;
+                fixOffset = this.fixLayoutEndGap(endOffset, recycler, state, false);
+                startOffset += fixOffset;
+                endOffset += fixOffset;
+            }
+        }
+        if (!state.isPreLayout()) {
+            this.mPendingScrollPosition = RecyclerView.NO_POSITION;
+            this.mPendingScrollPositionOffset = LinearLayoutManager.INVALID_OFFSET;
+            this.mOrientationHelper.onLayoutComplete();
+        }
+        this.mLastStackFromEnd = this.mStackFromEnd;
+        if (LinearLayoutManager.DEBUG) {
+            this.validateChildOrder();
+        }
+    }
+
+    /**
+     * Method called when Anchor position is decided. Extending class can setup accordingly or
+     * even update anchor info if necessary.
+     *
+     * @param state
+     * @param anchorInfo Simple data structure to keep anchor point information for the next layout
+     */
+    onAnchorReady(state:State, anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+    }
+
+    private updateAnchorInfoForLayout(state:State, anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+        if (this.updateAnchorFromPendingData(state, anchorInfo)) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "updated anchor info from pending information");
+            }
+            return;
+        }
+        if (this.updateAnchorFromChildren(state, anchorInfo)) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "updated anchor info from existing children");
+            }
+            return;
+        }
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "deciding anchor info for fresh state");
+        }
+        anchorInfo.assignCoordinateFromPadding();
+        anchorInfo.mPosition = this.mStackFromEnd ? state.getItemCount() - 1 : 0;
+    }
+
+    /**
+     * Finds an anchor child from existing Views. Most of the time, this is the view closest to
+     * start or end that has a valid position (e.g. not removed).
+     * <p>
+     * If a child has focus, it is given priority.
+     */
+    private updateAnchorFromChildren(state:State, anchorInfo:LinearLayoutManager.AnchorInfo):boolean  {
+        if (this.getChildCount() == 0) {
+            return false;
+        }
+        let focused = this.getFocusedChild();
+        if (focused != null && anchorInfo.assignFromViewIfValid(focused, state)) {
+            return true;
+        }
+        if (this.mLastStackFromEnd != this.mStackFromEnd) {
+            return false;
+        }
+        let referenceChild = anchorInfo.mLayoutFromEnd ? this.findReferenceChildClosestToEnd(state) : this.findReferenceChildClosestToStart(state);
+        if (referenceChild != null) {
+            anchorInfo.assignFromView(referenceChild);
+            // If all visible views are removed in 1 pass, reference child might be out of bounds.
+            // If that is the case, offset it back to 0 so that we use these pre-layout children.
+            if (!state.isPreLayout() && this.supportsPredictiveItemAnimations()) {
+                // validate this child is at least partially visible. if not, offset it to start
+                const notVisible = this.mOrientationHelper.getDecoratedStart(referenceChild) >= this.mOrientationHelper.getEndAfterPadding()
+                    || this.mOrientationHelper.getDecoratedEnd(referenceChild) < this.mOrientationHelper.getStartAfterPadding();
+                if (notVisible) {
+                    anchorInfo.mCoordinate = anchorInfo.mLayoutFromEnd ? this.mOrientationHelper.getEndAfterPadding() : this.mOrientationHelper.getStartAfterPadding();
+                }
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * If there is a pending scroll position, updates the anchor info from that data.
+     */
+    private updateAnchorFromPendingData(state:State, anchorInfo:LinearLayoutManager.AnchorInfo):boolean  {
+        if (state.isPreLayout() || this.mPendingScrollPosition == RecyclerView.NO_POSITION) {
+            return false;
+        }
+        // validate scroll position
+        if (this.mPendingScrollPosition < 0 || this.mPendingScrollPosition >= state.getItemCount()) {
+            this.mPendingScrollPosition = RecyclerView.NO_POSITION;
+            this.mPendingScrollPositionOffset = LinearLayoutManager.INVALID_OFFSET;
+            if (LinearLayoutManager.DEBUG) {
+                Log.e(LinearLayoutManager.TAG, "ignoring invalid scroll position " + this.mPendingScrollPosition);
+            }
+            return false;
+        }
+        // if child is visible, try to make it a reference child and ensure it is fully visible.
+        // if child is not visible, align it depending on its virtual position.
+        anchorInfo.mPosition = this.mPendingScrollPosition;
+        if (this.mPendingScrollPositionOffset == LinearLayoutManager.INVALID_OFFSET) {
+            let child = this.findViewByPosition(this.mPendingScrollPosition);
+            if (child != null) {
+                const childSize = this.mOrientationHelper.getDecoratedMeasurement(child);
+                if (childSize > this.mOrientationHelper.getTotalSpace()) {
+                    // item does not fit. fix depending on layout direction
+                    anchorInfo.assignCoordinateFromPadding();
+                    return true;
+                }
+                const startGap = this.mOrientationHelper.getDecoratedStart(child) - this.mOrientationHelper.getStartAfterPadding();
+                if (startGap < 0) {
+                    anchorInfo.mCoordinate = this.mOrientationHelper.getStartAfterPadding();
+                    anchorInfo.mLayoutFromEnd = false;
+                    return true;
+                }
+                const endGap = this.mOrientationHelper.getEndAfterPadding() - this.mOrientationHelper.getDecoratedEnd(child);
+                if (endGap < 0) {
+                    anchorInfo.mCoordinate = this.mOrientationHelper.getEndAfterPadding();
+                    anchorInfo.mLayoutFromEnd = true;
+                    return true;
+                }
+                anchorInfo.mCoordinate = anchorInfo.mLayoutFromEnd
+                    ? (this.mOrientationHelper.getDecoratedEnd(child) + this.mOrientationHelper.getTotalSpaceChange())
+                    : this.mOrientationHelper.getDecoratedStart(child);
+            } else {
+                // item is not visible.
+                if (this.getChildCount() > 0) {
+                    // get position of any child, does not matter
+                    let pos = this.getPosition(this.getChildAt(0));
+                    anchorInfo.mLayoutFromEnd = this.mPendingScrollPosition < pos == this.mShouldReverseLayout;
+                }
+                anchorInfo.assignCoordinateFromPadding();
+            }
+            return true;
+        }
+        // override layout from end values for consistency
+        anchorInfo.mLayoutFromEnd = this.mShouldReverseLayout;
+        if (this.mShouldReverseLayout) {
+            anchorInfo.mCoordinate = this.mOrientationHelper.getEndAfterPadding() - this.mPendingScrollPositionOffset;
+        } else {
+            anchorInfo.mCoordinate = this.mOrientationHelper.getStartAfterPadding() + this.mPendingScrollPositionOffset;
+        }
+        return true;
+    }
+
+    /**
+     * @return The final offset amount for children
+     */
+    private fixLayoutEndGap(endOffset:number, recycler:Recycler, state:State, canOffsetChildren:boolean):number  {
+        let gap = this.mOrientationHelper.getEndAfterPadding() - endOffset;
+        let fixOffset = 0;
+        if (gap > 0) {
+            fixOffset = -this.scrollBy(-gap, recycler, state);
+        } else {
+            // no fix needed
+            return 0;
+        }
+        // move offset according to scroll amount
+        endOffset += fixOffset;
+        if (canOffsetChildren) {
+            // re-calculate gap, see if we could fix it
+            gap = this.mOrientationHelper.getEndAfterPadding() - endOffset;
+            if (gap > 0) {
+                this.mOrientationHelper.offsetChildren(gap);
+                return gap + fixOffset;
+            }
+        }
+        return fixOffset;
+    }
+
+    /**
+     * @return The final offset amount for children
+     */
+    private fixLayoutStartGap(startOffset:number, recycler:Recycler, state:State, canOffsetChildren:boolean):number  {
+        let gap = startOffset - this.mOrientationHelper.getStartAfterPadding();
+        let fixOffset = 0;
+        if (gap > 0) {
+            // check if we should fix this gap.
+            fixOffset = -this.scrollBy(gap, recycler, state);
+        } else {
+            // no fix needed
+            return 0;
+        }
+        // move offset according to scroll amount
+        startOffset += fixOffset;
+        if (canOffsetChildren) {
+            // re-calculate gap, see if we could fix it
+            gap = startOffset - this.mOrientationHelper.getStartAfterPadding();
+            if (gap > 0) {
+                this.mOrientationHelper.offsetChildren(-gap);
+                return fixOffset - gap;
+            }
+        }
+        return fixOffset;
+    }
+
+    private updateLayoutStateToFillEnd(anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+        this.updateLayoutStateToFillEndPosition(anchorInfo.mPosition, anchorInfo.mCoordinate);
+    }
+
+    private updateLayoutStateToFillEndPosition(itemPosition:number, offset:number):void  {
+        this.mLayoutState.mAvailable = this.mOrientationHelper.getEndAfterPadding() - offset;
+        this.mLayoutState.mItemDirection = this.mShouldReverseLayout ? LinearLayoutManager.LayoutState.ITEM_DIRECTION_HEAD : LinearLayoutManager.LayoutState.ITEM_DIRECTION_TAIL;
+        this.mLayoutState.mCurrentPosition = itemPosition;
+        this.mLayoutState.mLayoutDirection = LinearLayoutManager.LayoutState.LAYOUT_END;
+        this.mLayoutState.mOffset = offset;
+        this.mLayoutState.mScrollingOffset = LinearLayoutManager.LayoutState.SCOLLING_OFFSET_NaN;
+    }
+
+    private updateLayoutStateToFillStart(anchorInfo:LinearLayoutManager.AnchorInfo):void  {
+        this.updateLayoutStateToFillStartPosition(anchorInfo.mPosition, anchorInfo.mCoordinate);
+    }
+
+    private updateLayoutStateToFillStartPosition(itemPosition:number, offset:number):void  {
+        this.mLayoutState.mAvailable = offset - this.mOrientationHelper.getStartAfterPadding();
+        this.mLayoutState.mCurrentPosition = itemPosition;
+        this.mLayoutState.mItemDirection = this.mShouldReverseLayout ? LinearLayoutManager.LayoutState.ITEM_DIRECTION_TAIL : LinearLayoutManager.LayoutState.ITEM_DIRECTION_HEAD;
+        this.mLayoutState.mLayoutDirection = LinearLayoutManager.LayoutState.LAYOUT_START;
+        this.mLayoutState.mOffset = offset;
+        this.mLayoutState.mScrollingOffset = LinearLayoutManager.LayoutState.SCOLLING_OFFSET_NaN;
+    }
+
+    protected isLayoutRTL():boolean  {
+        return this.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL;
+    }
+
+    ensureLayoutState():void  {
+        if (this.mLayoutState == null) {
+            this.mLayoutState = new LinearLayoutManager.LayoutState();
+        }
+        if (this.mOrientationHelper == null) {
+            this.mOrientationHelper = OrientationHelper.createOrientationHelper(this, this.mOrientation);
+        }
+    }
+
+    /**
+     * <p>Scroll the RecyclerView to make the position visible.</p>
+     *
+     * <p>RecyclerView will scroll the minimum amount that is necessary to make the
+     * target position visible. If you are looking for a similar behavior to
+     * {@link android.widget.ListView#setSelection(int)} or
+     * {@link android.widget.ListView#setSelectionFromTop(int, int)}, use
+     * {@link #scrollToPositionWithOffset(int, int)}.</p>
+     *
+     * <p>Note that scroll position change will not be reflected until the next layout call.</p>
+     *
+     * @param position Scroll to this adapter position
+     * @see #scrollToPositionWithOffset(int, int)
+     */
+    scrollToPosition(position:number):void  {
+        this.mPendingScrollPosition = position;
+        this.mPendingScrollPositionOffset = LinearLayoutManager.INVALID_OFFSET;
+        this.requestLayout();
+    }
+
+    /**
+     * Scroll to the specified adapter position with the given offset from resolved layout
+     * start. Resolved layout start depends on {@link #getReverseLayout()},
+     * {@link View#getLayoutDirection()} and {@link #getStackFromEnd()}.
+     * <p>
+     * For example, if layout is {@link #VERTICAL} and {@link #getStackFromEnd()} is true, calling
+     * <code>scrollToPositionWithOffset(10, 20)</code> will layout such that
+     * <code>item[10]</code>'s bottom is 20 pixels above the RecyclerView's bottom.
+     * <p>
+     * Note that scroll position change will not be reflected until the next layout call.
+     * <p>
+     * If you are just trying to make a position visible, use {@link #scrollToPosition(int)}.
+     *
+     * @param position Index (starting at 0) of the reference item.
+     * @param offset   The distance (in pixels) between the start edge of the item view and
+     *                 start edge of the RecyclerView.
+     * @see #setReverseLayout(boolean)
+     * @see #scrollToPosition(int)
+     */
+    scrollToPositionWithOffset(position:number, offset:number):void  {
+        this.mPendingScrollPosition = position;
+        this.mPendingScrollPositionOffset = offset;
+        this.requestLayout();
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    scrollHorizontallyBy(dx:number, recycler:Recycler, state:State):number  {
+        if (this.mOrientation == LinearLayoutManager.VERTICAL) {
+            return 0;
+        }
+        return this.scrollBy(dx, recycler, state);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    scrollVerticallyBy(dy:number, recycler:Recycler, state:State):number  {
+        if (this.mOrientation == LinearLayoutManager.HORIZONTAL) {
+            return 0;
+        }
+        return this.scrollBy(dy, recycler, state);
+    }
+
+    computeHorizontalScrollOffset(state:State):number  {
+        return this.computeScrollOffset(state);
+    }
+
+    computeVerticalScrollOffset(state:State):number  {
+        return this.computeScrollOffset(state);
+    }
+
+    computeHorizontalScrollExtent(state:State):number  {
+        return this.computeScrollExtent(state);
+    }
+
+    computeVerticalScrollExtent(state:State):number  {
+        return this.computeScrollExtent(state);
+    }
+
+    computeHorizontalScrollRange(state:State):number  {
+        return this.computeScrollRange(state);
+    }
+
+    computeVerticalScrollRange(state:State):number  {
+        return this.computeScrollRange(state);
+    }
+
+    private computeScrollOffset(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureLayoutState();
+        return ScrollbarHelper.computeScrollOffset(state, this.mOrientationHelper, this.getChildClosestToStart(), this.getChildClosestToEnd(),
+            this, this.mSmoothScrollbarEnabled, this.mShouldReverseLayout);
+    }
+
+    private computeScrollExtent(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureLayoutState();
+        return ScrollbarHelper.computeScrollExtent(state, this.mOrientationHelper, this.getChildClosestToStart(), this.getChildClosestToEnd(),
+            this, this.mSmoothScrollbarEnabled);
+    }
+
+    private computeScrollRange(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureLayoutState();
+        return ScrollbarHelper.computeScrollRange(state, this.mOrientationHelper, this.getChildClosestToStart(), this.getChildClosestToEnd(),
+            this, this.mSmoothScrollbarEnabled);
+    }
+
+    /**
+     * When smooth scrollbar is enabled, the position and size of the scrollbar thumb is computed
+     * based on the number of visible pixels in the visible items. This however assumes that all
+     * list items have similar or equal widths or heights (depending on list orientation).
+     * If you use a list in which items have different dimensions, the scrollbar will change
+     * appearance as the user scrolls through the list. To avoid this issue,  you need to disable
+     * this property.
+     *
+     * When smooth scrollbar is disabled, the position and size of the scrollbar thumb is based
+     * solely on the number of items in the adapter and the position of the visible items inside
+     * the adapter. This provides a stable scrollbar as the user navigates through a list of items
+     * with varying widths / heights.
+     *
+     * @param enabled Whether or not to enable smooth scrollbar.
+     *
+     * @see #setSmoothScrollbarEnabled(boolean)
+     */
+    setSmoothScrollbarEnabled(enabled:boolean):void  {
+        this.mSmoothScrollbarEnabled = enabled;
+    }
+
+    /**
+     * Returns the current state of the smooth scrollbar feature. It is enabled by default.
+     *
+     * @return True if smooth scrollbar is enabled, false otherwise.
+     *
+     * @see #setSmoothScrollbarEnabled(boolean)
+     */
+    isSmoothScrollbarEnabled():boolean  {
+        return this.mSmoothScrollbarEnabled;
+    }
+
+    private updateLayoutState(layoutDirection:number, requiredSpace:number, canUseExistingSpace:boolean, state:State):void  {
+        this.mLayoutState.mExtra = this.getExtraLayoutSpace(state);
+        this.mLayoutState.mLayoutDirection = layoutDirection;
+        let fastScrollSpace:number;
+        if (layoutDirection == LinearLayoutManager.LayoutState.LAYOUT_END) {
+            this.mLayoutState.mExtra += this.mOrientationHelper.getEndPadding();
+            // get the first child in the direction we are going
+            const child = this.getChildClosestToEnd();
+            // the direction in which we are traversing children
+            this.mLayoutState.mItemDirection = this.mShouldReverseLayout ? LinearLayoutManager.LayoutState.ITEM_DIRECTION_HEAD : LinearLayoutManager.LayoutState.ITEM_DIRECTION_TAIL;
+            this.mLayoutState.mCurrentPosition = this.getPosition(child) + this.mLayoutState.mItemDirection;
+            this.mLayoutState.mOffset = this.mOrientationHelper.getDecoratedEnd(child);
+            // calculate how much we can scroll without adding new children (independent of layout)
+            fastScrollSpace = this.mOrientationHelper.getDecoratedEnd(child) - this.mOrientationHelper.getEndAfterPadding();
+        } else {
+            const child = this.getChildClosestToStart();
+            this.mLayoutState.mExtra += this.mOrientationHelper.getStartAfterPadding();
+            this.mLayoutState.mItemDirection = this.mShouldReverseLayout ? LinearLayoutManager.LayoutState.ITEM_DIRECTION_TAIL : LinearLayoutManager.LayoutState.ITEM_DIRECTION_HEAD;
+            this.mLayoutState.mCurrentPosition = this.getPosition(child) + this.mLayoutState.mItemDirection;
+            this.mLayoutState.mOffset = this.mOrientationHelper.getDecoratedStart(child);
+            fastScrollSpace = -this.mOrientationHelper.getDecoratedStart(child) + this.mOrientationHelper.getStartAfterPadding();
+        }
+        this.mLayoutState.mAvailable = requiredSpace;
+        if (canUseExistingSpace) {
+            this.mLayoutState.mAvailable -= fastScrollSpace;
+        }
+        this.mLayoutState.mScrollingOffset = fastScrollSpace;
+    }
+
+    scrollBy(dy:number, recycler:Recycler, state:State):number  {
+        if (this.getChildCount() == 0 || dy == 0) {
+            return 0;
+        }
+        this.mLayoutState.mRecycle = true;
+        this.ensureLayoutState();
+        const layoutDirection = dy > 0 ? LinearLayoutManager.LayoutState.LAYOUT_END : LinearLayoutManager.LayoutState.LAYOUT_START;
+        const absDy = Math.abs(dy);
+        this.updateLayoutState(layoutDirection, absDy, true, state);
+        const freeScroll = this.mLayoutState.mScrollingOffset;
+        const consumed = freeScroll + this.fill(recycler, this.mLayoutState, state, false);
+        if (consumed < 0) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "Don't have any more elements to scroll");
+            }
+            return 0;
+        }
+        const scrolled = absDy > consumed ? layoutDirection * consumed : dy;
+        this.mOrientationHelper.offsetChildren(-scrolled);
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "scroll req: " + dy + " scrolled: " + scrolled);
+        }
+        this.mLayoutState.mLastScrollDelta = scrolled;
+        return scrolled;
+    }
+
+    /**
+     * Recycles children between given indices.
+     *
+     * @param startIndex inclusive
+     * @param endIndex   exclusive
+     */
+    private recycleChildren(recycler:Recycler, startIndex:number, endIndex:number):void  {
+        if (startIndex == endIndex) {
+            return;
+        }
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "Recycling " + Math.abs(startIndex - endIndex) + " items");
+        }
+        if (endIndex > startIndex) {
+            for (let i = endIndex - 1; i >= startIndex; i--) {
+                this.removeAndRecycleViewAt(i, recycler);
+            }
+        } else {
+            for (let i = startIndex; i > endIndex; i--) {
+                this.removeAndRecycleViewAt(i, recycler);
+            }
+        }
+    }
+
+    /**
+     * Recycles views that went out of bounds after scrolling towards the end of the layout.
+     *
+     * @param recycler Recycler instance of {@link android.support.v7.widget.RecyclerView}
+     * @param dt       This can be used to add additional padding to the visible area. This is used
+     *                 to detect children that will go out of bounds after scrolling, without
+     *                 actually moving them.
+     */
+    private recycleViewsFromStart(recycler:Recycler, dt:number):void  {
+        if (dt < 0) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "Called recycle from start with a negative value. This might happen" + " during layout changes but may be sign of a bug");
+            }
+            return;
+        }
+        // ignore padding, ViewGroup may not clip children.
+        const limit = dt;
+        const childCount = this.getChildCount();
+        if (this.mShouldReverseLayout) {
+            for (let i = childCount - 1; i >= 0; i--) {
+                let child = this.getChildAt(i);
+                if (this.mOrientationHelper.getDecoratedEnd(child) > limit) {
+                    // stop here
+                    this.recycleChildren(recycler, childCount - 1, i);
+                    return;
+                }
+            }
+        } else {
+            for (let i = 0; i < childCount; i++) {
+                let child = this.getChildAt(i);
+                if (this.mOrientationHelper.getDecoratedEnd(child) > limit) {
+                    // stop here
+                    this.recycleChildren(recycler, 0, i);
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Recycles views that went out of bounds after scrolling towards the start of the layout.
+     *
+     * @param recycler Recycler instance of {@link android.support.v7.widget.RecyclerView}
+     * @param dt       This can be used to add additional padding to the visible area. This is used
+     *                 to detect children that will go out of bounds after scrolling, without
+     *                 actually moving them.
+     */
+    private recycleViewsFromEnd(recycler:Recycler, dt:number):void  {
+        const childCount = this.getChildCount();
+        if (dt < 0) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "Called recycle from end with a negative value. This might happen" + " during layout changes but may be sign of a bug");
+            }
+            return;
+        }
+        const limit = this.mOrientationHelper.getEnd() - dt;
+        if (this.mShouldReverseLayout) {
+            for (let i = 0; i < childCount; i++) {
+                let child = this.getChildAt(i);
+                if (this.mOrientationHelper.getDecoratedStart(child) < limit) {
+                    // stop here
+                    this.recycleChildren(recycler, 0, i);
+                    return;
+                }
+            }
+        } else {
+            for (let i = childCount - 1; i >= 0; i--) {
+                let child = this.getChildAt(i);
+                if (this.mOrientationHelper.getDecoratedStart(child) < limit) {
+                    // stop here
+                    this.recycleChildren(recycler, childCount - 1, i);
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Helper method to call appropriate recycle method depending on current layout direction
+     *
+     * @param recycler    Current recycler that is attached to RecyclerView
+     * @param layoutState Current layout state. Right now, this object does not change but
+     *                    we may consider moving it out of this view so passing around as a
+     *                    parameter for now, rather than accessing {@link #mLayoutState}
+     * @see #recycleViewsFromStart(android.support.v7.widget.RecyclerView.Recycler, int)
+     * @see #recycleViewsFromEnd(android.support.v7.widget.RecyclerView.Recycler, int)
+     * @see android.support.v7.widget.LinearLayoutManager.LayoutState#mLayoutDirection
+     */
+    private recycleByLayoutState(recycler:Recycler, layoutState:LinearLayoutManager.LayoutState):void  {
+        if (!layoutState.mRecycle) {
+            return;
+        }
+        if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START) {
+            this.recycleViewsFromEnd(recycler, layoutState.mScrollingOffset);
+        } else {
+            this.recycleViewsFromStart(recycler, layoutState.mScrollingOffset);
+        }
+    }
+
+    /**
+     * The magic functions :). Fills the given layout, defined by the layoutState. This is fairly
+     * independent from the rest of the {@link android.support.v7.widget.LinearLayoutManager}
+     * and with little change, can be made publicly available as a helper class.
+     *
+     * @param recycler        Current recycler that is attached to RecyclerView
+     * @param layoutState     Configuration on how we should fill out the available space.
+     * @param state           Context passed by the RecyclerView to control scroll steps.
+     * @param stopOnFocusable If true, filling stops in the first focusable new child
+     * @return Number of pixels that it added. Useful for scoll functions.
+     */
+    fill(recycler:Recycler, layoutState:LinearLayoutManager.LayoutState, state:State, stopOnFocusable:boolean):number  {
+        // max offset we should set is mFastScroll + available
+        const start = layoutState.mAvailable;
+        if (layoutState.mScrollingOffset != LinearLayoutManager.LayoutState.SCOLLING_OFFSET_NaN) {
+            // TODO ugly bug fix. should not happen
+            if (layoutState.mAvailable < 0) {
+                layoutState.mScrollingOffset += layoutState.mAvailable;
+            }
+            this.recycleByLayoutState(recycler, layoutState);
+        }
+        let remainingSpace = layoutState.mAvailable + layoutState.mExtra;
+        let layoutChunkResult = new LinearLayoutManager.LayoutChunkResult();
+        while (remainingSpace > 0 && layoutState.hasMore(state)) {
+            layoutChunkResult.resetInternal();
+            this.layoutChunk(recycler, state, layoutState, layoutChunkResult);
+            if (layoutChunkResult.mFinished) {
+                break;
+            }
+            layoutState.mOffset += layoutChunkResult.mConsumed * layoutState.mLayoutDirection;
+            /**
+             * Consume the available space if:
+             * * layoutChunk did not request to be ignored
+             * * OR we are laying out scrap children
+             * * OR we are not doing pre-layout
+             */
+            if (!layoutChunkResult.mIgnoreConsumed || !state.isPreLayout()) {
+                layoutState.mAvailable -= layoutChunkResult.mConsumed;
+                // we keep a separate remaining space because mAvailable is important for recycling
+                remainingSpace -= layoutChunkResult.mConsumed;
+            }
+            if (layoutState.mScrollingOffset != LinearLayoutManager.LayoutState.SCOLLING_OFFSET_NaN) {
+                layoutState.mScrollingOffset += layoutChunkResult.mConsumed;
+                if (layoutState.mAvailable < 0) {
+                    layoutState.mScrollingOffset += layoutState.mAvailable;
+                }
+                this.recycleByLayoutState(recycler, layoutState);
+            }
+            if (stopOnFocusable && layoutChunkResult.mFocusable) {
+                break;
+            }
+        }
+        if (LinearLayoutManager.DEBUG) {
+            this.validateChildOrder();
+        }
+        return start - layoutState.mAvailable;
+    }
+
+    layoutChunk(recycler:Recycler, state:State, layoutState:LinearLayoutManager.LayoutState, result:LinearLayoutManager.LayoutChunkResult):void  {
+        let view = layoutState.next(recycler);
+        if (view == null) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "received null view when unexpected");
+            }
+            // if we are laying out views in scrap, this may return null which means there is
+            // no more items to layout.
+            result.mFinished = true;
+            return;
+        }
+        let params = <RecyclerView.LayoutParams>view.getLayoutParams();
+        if (this.mShouldReverseLayout == (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START)) {
+            this.addView(view);
+        } else {
+            this.addView(view, 0);
+        }
+        this.measureChildWithMargins(view, 0, 0);
+        result.mConsumed = this.mOrientationHelper.getDecoratedMeasurement(view);
+        let left:number, top:number, right:number, bottom:number;
+        if (this.mOrientation == LinearLayoutManager.VERTICAL) {
+            if (this.isLayoutRTL()) {
+                right = this.getWidth() - this.getPaddingRight();
+                left = right - this.mOrientationHelper.getDecoratedMeasurementInOther(view);
+            } else {
+                left = this.getPaddingLeft();
+                right = left + this.mOrientationHelper.getDecoratedMeasurementInOther(view);
+            }
+            if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START) {
+                bottom = layoutState.mOffset;
+                top = layoutState.mOffset - result.mConsumed;
+            } else {
+                top = layoutState.mOffset;
+                bottom = layoutState.mOffset + result.mConsumed;
+            }
+        } else {
+            top = this.getPaddingTop();
+            bottom = top + this.mOrientationHelper.getDecoratedMeasurementInOther(view);
+            if (layoutState.mLayoutDirection == LinearLayoutManager.LayoutState.LAYOUT_START) {
+                right = layoutState.mOffset;
+                left = layoutState.mOffset - result.mConsumed;
+            } else {
+                left = layoutState.mOffset;
+                right = layoutState.mOffset + result.mConsumed;
+            }
+        }
+        // We calculate everything with View's bounding box (which includes decor and margins)
+        // To calculate correct layout position, we subtract margins.
+        this.layoutDecorated(view, left + params.leftMargin, top + params.topMargin, right - params.rightMargin, bottom - params.bottomMargin);
+        if (LinearLayoutManager.DEBUG) {
+            Log.d(LinearLayoutManager.TAG, "laid out child at position " + this.getPosition(view) + ", with l:"
+                + (left + params.leftMargin) + ", t:" + (top + params.topMargin) + ", r:"
+                + (right - params.rightMargin) + ", b:" + (bottom - params.bottomMargin));
+        }
+        // Consume the available space if the view is not removed OR changed
+        if (params.isItemRemoved() || params.isItemChanged()) {
+            result.mIgnoreConsumed = true;
+        }
+        result.mFocusable = view.isFocusable();
+    }
+
+    /**
+     * Converts a focusDirection to orientation.
+     *
+     * @param focusDirection One of {@link View#FOCUS_UP}, {@link View#FOCUS_DOWN},
+     *                       {@link View#FOCUS_LEFT}, {@link View#FOCUS_RIGHT},
+     *                       {@link View#FOCUS_BACKWARD}, {@link View#FOCUS_FORWARD}
+     *                       or 0 for not applicable
+     * @return {@link LayoutState#LAYOUT_START} or {@link LayoutState#LAYOUT_END} if focus direction
+     * is applicable to current state, {@link LayoutState#INVALID_LAYOUT} otherwise.
+     */
+    private convertFocusDirectionToLayoutDirection(focusDirection:number):number  {
+        switch(focusDirection) {
+            case View.FOCUS_BACKWARD:
+                return LinearLayoutManager.LayoutState.LAYOUT_START;
+            case View.FOCUS_FORWARD:
+                return LinearLayoutManager.LayoutState.LAYOUT_END;
+            case View.FOCUS_UP:
+                return this.mOrientation == LinearLayoutManager.VERTICAL ? LinearLayoutManager.LayoutState.LAYOUT_START : LinearLayoutManager.LayoutState.INVALID_LAYOUT;
+            case View.FOCUS_DOWN:
+                return this.mOrientation == LinearLayoutManager.VERTICAL ? LinearLayoutManager.LayoutState.LAYOUT_END : LinearLayoutManager.LayoutState.INVALID_LAYOUT;
+            case View.FOCUS_LEFT:
+                return this.mOrientation == LinearLayoutManager.HORIZONTAL ? LinearLayoutManager.LayoutState.LAYOUT_START : LinearLayoutManager.LayoutState.INVALID_LAYOUT;
+            case View.FOCUS_RIGHT:
+                return this.mOrientation == LinearLayoutManager.HORIZONTAL ? LinearLayoutManager.LayoutState.LAYOUT_END : LinearLayoutManager.LayoutState.INVALID_LAYOUT;
+            default:
+                if (LinearLayoutManager.DEBUG) {
+                    Log.d(LinearLayoutManager.TAG, "Unknown focus request:" + focusDirection);
+                }
+                return LinearLayoutManager.LayoutState.INVALID_LAYOUT;
+        }
+    }
+
+    /**
+     * Convenience method to find the child closes to start. Caller should check it has enough
+     * children.
+     *
+     * @return The child closes to start of the layout from user's perspective.
+     */
+    private getChildClosestToStart():View  {
+        return this.getChildAt(this.mShouldReverseLayout ? this.getChildCount() - 1 : 0);
+    }
+
+    /**
+     * Convenience method to find the child closes to end. Caller should check it has enough
+     * children.
+     *
+     * @return The child closes to end of the layout from user's perspective.
+     */
+    private getChildClosestToEnd():View  {
+        return this.getChildAt(this.mShouldReverseLayout ? 0 : this.getChildCount() - 1);
+    }
+
+    /**
+     * Among the children that are suitable to be considered as an anchor child, returns the one
+     * closest to the end of the layout.
+     * <p>
+     * Due to ambiguous adapter updates or children being removed, some children's positions may be
+     * invalid. This method is a best effort to find a position within adapter bounds if possible.
+     * <p>
+     * It also prioritizes children that are within the visible bounds.
+     * @return A View that can be used an an anchor View.
+     */
+    private findReferenceChildClosestToEnd(state:State):View  {
+        return this.mShouldReverseLayout ? this.findFirstReferenceChild(state.getItemCount()) : this.findLastReferenceChild(state.getItemCount());
+    }
+
+    /**
+     * Among the children that are suitable to be considered as an anchor child, returns the one
+     * closest to the start of the layout.
+     * <p>
+     * Due to ambiguous adapter updates or children being removed, some children's positions may be
+     * invalid. This method is a best effort to find a position within adapter bounds if possible.
+     * <p>
+     * It also prioritizes children that are within the visible bounds.
+     *
+     * @return A View that can be used an an anchor View.
+     */
+    private findReferenceChildClosestToStart(state:State):View  {
+        return this.mShouldReverseLayout ? this.findLastReferenceChild(state.getItemCount()) : this.findFirstReferenceChild(state.getItemCount());
+    }
+
+    private findFirstReferenceChild(itemCount:number):View  {
+        return this.findReferenceChild(0, this.getChildCount(), itemCount);
+    }
+
+    private findLastReferenceChild(itemCount:number):View  {
+        return this.findReferenceChild(this.getChildCount() - 1, -1, itemCount);
+    }
+
+    // overridden by GridLayoutManager
+    findReferenceChild(start:number, end:number, itemCount:number):View  {
+        this.ensureLayoutState();
+        let invalidMatch:View = null;
+        let outOfBoundsMatch:View = null;
+        const boundsStart = this.mOrientationHelper.getStartAfterPadding();
+        const boundsEnd = this.mOrientationHelper.getEndAfterPadding();
+        const diff = end > start ? 1 : -1;
+        for (let i = start; i != end; i += diff) {
+            const view = this.getChildAt(i);
+            const position = this.getPosition(view);
+            if (position >= 0 && position < itemCount) {
+                if ((<RecyclerView.LayoutParams>view.getLayoutParams()).isItemRemoved()) {
+                    if (invalidMatch == null) {
+                        // removed item, least preferred
+                        invalidMatch = view;
+                    }
+                } else if (this.mOrientationHelper.getDecoratedStart(view) >= boundsEnd || this.mOrientationHelper.getDecoratedEnd(view) < boundsStart) {
+                    if (outOfBoundsMatch == null) {
+                        // item is not visible, less preferred
+                        outOfBoundsMatch = view;
+                    }
+                } else {
+                    return view;
+                }
+            }
+        }
+        return outOfBoundsMatch != null ? outOfBoundsMatch : invalidMatch;
+    }
+
+    /**
+     * Returns the adapter position of the first visible view. This position does not include
+     * adapter changes that were dispatched after the last layout pass.
+     * <p>
+     * Note that, this value is not affected by layout orientation or item order traversal.
+     * ({@link #setReverseLayout(boolean)}). Views are sorted by their positions in the adapter,
+     * not in the layout.
+     * <p>
+     * If RecyclerView has item decorators, they will be considered in calculations as well.
+     * <p>
+     * LayoutManager may pre-cache some views that are not necessarily visible. Those views
+     * are ignored in this method.
+     *
+     * @return The adapter position of the first visible item or {@link RecyclerView#NO_POSITION} if
+     * there aren't any visible items.
+     * @see #findFirstCompletelyVisibleItemPosition()
+     * @see #findLastVisibleItemPosition()
+     */
+    findFirstVisibleItemPosition():number  {
+        const child = this.findOneVisibleChild(0, this.getChildCount(), false, true);
+        return child == null ? RecyclerView.NO_POSITION : this.getPosition(child);
+    }
+
+    /**
+     * Returns the adapter position of the first fully visible view. This position does not include
+     * adapter changes that were dispatched after the last layout pass.
+     * <p>
+     * Note that bounds check is only performed in the current orientation. That means, if
+     * LayoutManager is horizontal, it will only check the view's left and right edges.
+     *
+     * @return The adapter position of the first fully visible item or
+     * {@link RecyclerView#NO_POSITION} if there aren't any visible items.
+     * @see #findFirstVisibleItemPosition()
+     * @see #findLastCompletelyVisibleItemPosition()
+     */
+    findFirstCompletelyVisibleItemPosition():number  {
+        const child = this.findOneVisibleChild(0, this.getChildCount(), true, false);
+        return child == null ? RecyclerView.NO_POSITION : this.getPosition(child);
+    }
+
+    /**
+     * Returns the adapter position of the last visible view. This position does not include
+     * adapter changes that were dispatched after the last layout pass.
+     * <p>
+     * Note that, this value is not affected by layout orientation or item order traversal.
+     * ({@link #setReverseLayout(boolean)}). Views are sorted by their positions in the adapter,
+     * not in the layout.
+     * <p>
+     * If RecyclerView has item decorators, they will be considered in calculations as well.
+     * <p>
+     * LayoutManager may pre-cache some views that are not necessarily visible. Those views
+     * are ignored in this method.
+     *
+     * @return The adapter position of the last visible view or {@link RecyclerView#NO_POSITION} if
+     * there aren't any visible items.
+     * @see #findLastCompletelyVisibleItemPosition()
+     * @see #findFirstVisibleItemPosition()
+     */
+    findLastVisibleItemPosition():number  {
+        const child = this.findOneVisibleChild(this.getChildCount() - 1, -1, false, true);
+        return child == null ? RecyclerView.NO_POSITION : this.getPosition(child);
+    }
+
+    /**
+     * Returns the adapter position of the last fully visible view. This position does not include
+     * adapter changes that were dispatched after the last layout pass.
+     * <p>
+     * Note that bounds check is only performed in the current orientation. That means, if
+     * LayoutManager is horizontal, it will only check the view's left and right edges.
+     *
+     * @return The adapter position of the last fully visible view or
+     * {@link RecyclerView#NO_POSITION} if there aren't any visible items.
+     * @see #findLastVisibleItemPosition()
+     * @see #findFirstCompletelyVisibleItemPosition()
+     */
+    findLastCompletelyVisibleItemPosition():number  {
+        const child = this.findOneVisibleChild(this.getChildCount() - 1, -1, true, false);
+        return child == null ? RecyclerView.NO_POSITION : this.getPosition(child);
+    }
+
+    findOneVisibleChild(fromIndex:number, toIndex:number, completelyVisible:boolean, acceptPartiallyVisible:boolean):View  {
+        this.ensureLayoutState();
+        const start = this.mOrientationHelper.getStartAfterPadding();
+        const end = this.mOrientationHelper.getEndAfterPadding();
+        const next = toIndex > fromIndex ? 1 : -1;
+        let partiallyVisible:View = null;
+        for (let i = fromIndex; i != toIndex; i += next) {
+            const child = this.getChildAt(i);
+            const childStart = this.mOrientationHelper.getDecoratedStart(child);
+            const childEnd = this.mOrientationHelper.getDecoratedEnd(child);
+            if (childStart < end && childEnd > start) {
+                if (completelyVisible) {
+                    if (childStart >= start && childEnd <= end) {
+                        return child;
+                    } else if (acceptPartiallyVisible && partiallyVisible == null) {
+                        partiallyVisible = child;
+                    }
+                } else {
+                    return child;
+                }
+            }
+        }
+        return partiallyVisible;
+    }
+
+    onFocusSearchFailed(focused:View, focusDirection:number, recycler:Recycler, state:State):View  {
+        this.resolveShouldLayoutReverse();
+        if (this.getChildCount() == 0) {
+            return null;
+        }
+        const layoutDir = this.convertFocusDirectionToLayoutDirection(focusDirection);
+        if (layoutDir == LinearLayoutManager.LayoutState.INVALID_LAYOUT) {
+            return null;
+        }
+        this.ensureLayoutState();
+        let referenceChild:View;
+        if (layoutDir == LinearLayoutManager.LayoutState.LAYOUT_START) {
+            referenceChild = this.findReferenceChildClosestToStart(state);
+        } else {
+            referenceChild = this.findReferenceChildClosestToEnd(state);
+        }
+        if (referenceChild == null) {
+            if (LinearLayoutManager.DEBUG) {
+                Log.d(LinearLayoutManager.TAG, "Cannot find a child with a valid position to be used for focus search.");
+            }
+            return null;
+        }
+        const maxScroll = Math.floor(LinearLayoutManager.MAX_SCROLL_FACTOR * this.mOrientationHelper.getTotalSpace());
+        this.updateLayoutState(layoutDir, maxScroll, false, state);
+        this.mLayoutState.mScrollingOffset = LinearLayoutManager.LayoutState.SCOLLING_OFFSET_NaN;
+        this.mLayoutState.mRecycle = false;
+        this.fill(recycler, this.mLayoutState, state, true);
+        let nextFocus:View;
+        if (layoutDir == LinearLayoutManager.LayoutState.LAYOUT_START) {
+            nextFocus = this.getChildClosestToStart();
+        } else {
+            nextFocus = this.getChildClosestToEnd();
+        }
+        if (nextFocus == referenceChild || !nextFocus.isFocusable()) {
+            return null;
+        }
+        return nextFocus;
+    }
+
+    /**
+     * Used for debugging.
+     * Logs the internal representation of children to default logger.
+     */
+    private logChildren():void  {
+        Log.d(LinearLayoutManager.TAG, "internal representation of views on the screen");
+        for (let i = 0; i < this.getChildCount(); i++) {
+            let child = this.getChildAt(i);
+            Log.d(LinearLayoutManager.TAG, "item " + this.getPosition(child) + ", coord:" + this.mOrientationHelper.getDecoratedStart(child));
+        }
+        Log.d(LinearLayoutManager.TAG, "==============");
+    }
+
+    /**
+     * Used for debugging.
+     * Validates that child views are laid out in correct order. This is important because rest of
+     * the algorithm relies on this constraint.
+     *
+     * In default layout, child 0 should be closest to screen position 0 and last child should be
+     * closest to position WIDTH or HEIGHT.
+     * In reverse layout, last child should be closes to screen position 0 and first child should
+     * be closest to position WIDTH  or HEIGHT
+     */
+    validateChildOrder():void  {
+        Log.d(LinearLayoutManager.TAG, "validating child count " + this.getChildCount());
+        if (this.getChildCount() < 1) {
+            return;
+        }
+        let lastPos = this.getPosition(this.getChildAt(0));
+        let lastScreenLoc = this.mOrientationHelper.getDecoratedStart(this.getChildAt(0));
+        if (this.mShouldReverseLayout) {
+            for (let i = 1; i < this.getChildCount(); i++) {
+                let child = this.getChildAt(i);
+                let pos = this.getPosition(child);
+                let screenLoc = this.mOrientationHelper.getDecoratedStart(child);
+                if (pos < lastPos) {
+                    this.logChildren();
+                    throw Error("detected invalid position. loc invalid? " + (screenLoc < lastScreenLoc));
+                }
+                if (screenLoc > lastScreenLoc) {
+                    this.logChildren();
+                    throw Error("detected invalid location");
+                }
+            }
+        } else {
+            for (let i = 1; i < this.getChildCount(); i++) {
+                let child = this.getChildAt(i);
+                let pos = this.getPosition(child);
+                let screenLoc = this.mOrientationHelper.getDecoratedStart(child);
+                if (pos < lastPos) {
+                    this.logChildren();
+                    throw Error("detected invalid position. loc invalid? " + (screenLoc < lastScreenLoc));
+                }
+                if (screenLoc < lastScreenLoc) {
+                    this.logChildren();
+                    throw Error("detected invalid location");
+                }
+            }
+        }
+    }
+
+    supportsPredictiveItemAnimations():boolean  {
+        return this.mLastStackFromEnd == this.mStackFromEnd;
+    }
+}
+
+export module LinearLayoutManager{
+/**
+ * Helper class that keeps temporary state while {LayoutManager} is filling out the empty
+ * space.
+ */
+export class LayoutState {
+
+    static TAG:string = "LinearLayoutManager#LayoutState";
+
+    static LAYOUT_START:number = -1;
+
+    static LAYOUT_END:number = 1;
+
+    static INVALID_LAYOUT:number = Integer.MIN_VALUE;
+
+    static ITEM_DIRECTION_HEAD:number = -1;
+
+    static ITEM_DIRECTION_TAIL:number = 1;
+
+    static SCOLLING_OFFSET_NaN:number = Integer.MIN_VALUE;
+
+    /**
+     * We may not want to recycle children in some cases (e.g. layout)
+     */
+    mRecycle:boolean = true;
+
+    /**
+     * Pixel offset where layout should start
+     */
+    mOffset:number = 0;
+
+    /**
+     * Number of pixels that we should fill, in the layout direction.
+     */
+    mAvailable:number = 0;
+
+    /**
+     * Current position on the adapter to get the next item.
+     */
+    mCurrentPosition:number = 0;
+
+    /**
+     * Defines the direction in which the data adapter is traversed.
+     * Should be {@link #ITEM_DIRECTION_HEAD} or {@link #ITEM_DIRECTION_TAIL}
+     */
+    mItemDirection:number = 0;
+
+    /**
+     * Defines the direction in which the layout is filled.
+     * Should be {@link #LAYOUT_START} or {@link #LAYOUT_END}
+     */
+    mLayoutDirection:number = 0;
+
+    /**
+     * Used when LayoutState is constructed in a scrolling state.
+     * It should be set the amount of scrolling we can make without creating a new view.
+     * Settings this is required for efficient view recycling.
+     */
+    mScrollingOffset:number = 0;
+
+    /**
+     * Used if you want to pre-layout items that are not yet visible.
+     * The difference with {@link #mAvailable} is that, when recycling, distance laid out for
+     * {@link #mExtra} is not considered to avoid recycling visible children.
+     */
+    mExtra:number = 0;
+
+    /**
+     * Equal to {@link RecyclerView.State#isPreLayout()}. When consuming scrap, if this value
+     * is set to true, we skip removed views since they should not be laid out in post layout
+     * step.
+     */
+    mIsPreLayout:boolean = false;
+
+    /**
+     * The most recent {@link #scrollBy(int, RecyclerView.Recycler, RecyclerView.State)} amount.
+     */
+    mLastScrollDelta:number = 0;
+
+    /**
+     * @return true if there are more items in the data adapter
+     */
+    hasMore(state:State):boolean  {
+        return this.mCurrentPosition >= 0 && this.mCurrentPosition < state.getItemCount();
+    }
+
+    /**
+     * Gets the view for the next element that we should layout.
+     * Also updates current item index to the next item, based on {@link #mItemDirection}
+     *
+     * @return The next element that we should layout.
+     */
+    next(recycler:Recycler):View  {
+        const view = recycler.getViewForPosition(this.mCurrentPosition);
+        this.mCurrentPosition += this.mItemDirection;
+        return view;
+    }
+
+    log():void  {
+        Log.d(LayoutState.TAG, "avail:" + this.mAvailable + ", ind:" + this.mCurrentPosition + ", dir:" + this.mItemDirection + ", offset:" + this.mOffset + ", layoutDir:" + this.mLayoutDirection);
+    }
+}
+
+/**
+ * Simple data class to keep Anchor information
+ */
+export class AnchorInfo {
+    _LinearLayoutManager_this:LinearLayoutManager;
+    constructor(arg:LinearLayoutManager) {
+        this._LinearLayoutManager_this = arg;
+    }
+
+    mPosition:number = 0;
+
+    mCoordinate:number = 0;
+
+    mLayoutFromEnd:boolean = false;
+
+    reset():void  {
+        this.mPosition = RecyclerView.NO_POSITION;
+        this.mCoordinate = LinearLayoutManager.INVALID_OFFSET;
+        this.mLayoutFromEnd = false;
+    }
+
+    /**
+     * assigns anchor coordinate from the RecyclerView's padding depending on current
+     * layoutFromEnd value
+     */
+    assignCoordinateFromPadding():void  {
+        this.mCoordinate = this.mLayoutFromEnd ? this._LinearLayoutManager_this.mOrientationHelper.getEndAfterPadding() : this._LinearLayoutManager_this.mOrientationHelper.getStartAfterPadding();
+    }
+
+    toString():string  {
+        return "AnchorInfo{" + "mPosition=" + this.mPosition + ", mCoordinate=" + this.mCoordinate + ", mLayoutFromEnd=" + this.mLayoutFromEnd + '}';
+    }
+
+    /**
+     * Assign anchor position information from the provided view if it is valid as a reference
+     * child.
+     */
+    assignFromViewIfValid(child:View, state:State):boolean  {
+        let lp = <RecyclerView.LayoutParams>child.getLayoutParams();
+        if (!lp.isItemRemoved() && lp.getViewLayoutPosition() >= 0 && lp.getViewLayoutPosition() < state.getItemCount()) {
+            this.assignFromView(child);
+            return true;
+        }
+        return false;
+    }
+
+    assignFromView(child:View):void  {
+        if (this.mLayoutFromEnd) {
+            this.mCoordinate = this._LinearLayoutManager_this.mOrientationHelper.getDecoratedEnd(child) + this._LinearLayoutManager_this.mOrientationHelper.getTotalSpaceChange();
+        } else {
+            this.mCoordinate = this._LinearLayoutManager_this.mOrientationHelper.getDecoratedStart(child);
+        }
+        this.mPosition = this._LinearLayoutManager_this.getPosition(child);
+    }
+}
+
+export class LayoutChunkResult {
+
+    mConsumed:number = 0;
+
+    mFinished:boolean = false;
+
+    mIgnoreConsumed:boolean = false;
+
+    mFocusable:boolean = false;
+
+    resetInternal():void  {
+        this.mConsumed = 0;
+        this.mFinished = false;
+        this.mIgnoreConsumed = false;
+        this.mFocusable = false;
+    }
+}
+}
+
+}
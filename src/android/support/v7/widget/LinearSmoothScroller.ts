@@ -0,0 +1,339 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/graphics/Point.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../android/content/res/Resources.ts"/>
+///<reference path="../../../../android/view/animation/LinearInterpolator.ts"/>
+///<reference path="../../../../android/view/animation/DecelerateInterpolator.ts"/>
+///<reference path="RecyclerView.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import Point = android.graphics.Point;
+import Log = android.util.Log;
+import Resources = android.content.res.Resources;
+import LinearInterpolator = android.view.animation.LinearInterpolator;
+import DecelerateInterpolator = android.view.animation.DecelerateInterpolator;
+
+/**
+ * {@link RecyclerView.SmoothScroller} implementation which uses
+ * {@link android.view.animation.LinearInterpolator} until the target position becames a child of
+ * the RecyclerView and then uses
+ * {@link android.view.animation.DecelerateInterpolator} to slowly approach to target position.
+ */
+export abstract class LinearSmoothScroller extends RecyclerView.SmoothScroller {
+
+    private static TAG:string = "LinearSmoothScroller";
+
+    private static DEBUG:boolean = false;
+
+    private static MILLISECONDS_PER_INCH:number = 25;
+
+    private static TARGET_SEEK_SCROLL_DISTANCE_PX:number = 10000;
+
+    /**
+     * Align child view's left or top with parent view's left or top
+     *
+     * @see #calculateDtToFit(int, int, int, int, int)
+     * @see #calculateDxToMakeVisible(android.view.View, int)
+     * @see #calculateDyToMakeVisible(android.view.View, int)
+     */
+    static SNAP_TO_START:number = -1;
+
+    /**
+     * Align child view's right or bottom with parent view's right or bottom
+     *
+     * @see #calculateDtToFit(int, int, int, int, int)
+     * @see #calculateDxToMakeVisible(android.view.View, int)
+     * @see #calculateDyToMakeVisible(android.view.View, int)
+     */
+    static SNAP_TO_END:number = 1;
+
+    /**
+     * <p>Decides if the child should be snapped from start or end, depending on where it
+     * currently is in relation to its parent.</p>
+     * <p>For instance, if the view is virtually on the left of RecyclerView, using
+     * {@code SNAP_TO_ANY} is the same as using {@code SNAP_TO_START}</p>
+     *
+     * @see #calculateDtToFit(int, int, int, int, int)
+     * @see #calculateDxToMakeVisible(android.view.View, int)
+     * @see #calculateDyToMakeVisible(android.view.View, int)
+     */
+    static SNAP_TO_ANY:number = 0;
+
+    // Trigger a scroll to a further distance than TARGET_SEEK_SCROLL_DISTANCE_PX so that if target
+    // view is not laid out until interim target position is reached, we can detect the case before
+    // scrolling slows down and reschedule another interim target scroll
+    private static TARGET_SEEK_EXTRA_SCROLL_RATIO:number = 1.2;
+
+    protected mLinearInterpolator:LinearInterpolator = new LinearInterpolator();
+
+    protected mDecelerateInterpolator:DecelerateInterpolator = new DecelerateInterpolator();
+
+    protected mTargetVector:Point;
+
+    private MILLISECONDS_PER_PX:number = 0;
+
+    // Temporary variables to keep track of the interim scroll target. These values do not
+    // point to a real item position, rather point to an estimated location pixels.
+    protected mInterimTargetDx:number = 0;
+
+    protected mInterimTargetDy:number = 0;
+
+    constructor() {
+        super();
+        this.MILLISECONDS_PER_PX = this.calculateSpeedPerPixel(Resources.getDisplayMetrics().density * 160);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onStart():void  {
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onTargetFound(targetView:View, state:RecyclerView.State, action:RecyclerView.SmoothScroller.Action):void  {
+        const dx = this.calculateDxToMakeVisible(targetView, this.getHorizontalSnapPreference());
+        const dy = this.calculateDyToMakeVisible(targetView, this.getVerticalSnapPreference());
+        const distance = Math.floor(Math.sqrt(dx * dx + dy * dy));
+        const time = this.calculateTimeForDeceleration(distance);
+        if (time > 0) {
+            action.update(-dx, -dy, time, this.mDecelerateInterpolator);
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onSeekTargetStep(dx:number, dy:number, state:RecyclerView.State, action:RecyclerView.SmoothScroller.Action):void  {
+        if (this.getChildCount() == 0) {
+            this.stop();
+            return;
+        }
+        if (LinearSmoothScroller.DEBUG && this.mTargetVector != null
+                && ((this.mTargetVector.x * dx < 0 || this.mTargetVector.y * dy < 0))) {
+            throw Error("Scroll happened in the opposite direction" + " of the target. Some calculations are wrong");
+        }
+        this.mInterimTargetDx = this.clampApplyScroll(this.mInterimTargetDx, dx);
+        this.mInterimTargetDy = this.clampApplyScroll(this.mInterimTargetDy, dy);
+        if (this.mInterimTargetDx == 0 && this.mInterimTargetDy == 0) {
+            this.updateActionForInterimTarget(action);
+        }
+        // everything is valid, keep going
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onStop():void  {
+        this.mInterimTargetDx = this.mInterimTargetDy = 0;
+        this.mTargetVector = null;
+    }
+
+    /**
+     * Calculates the scroll speed.
+     *
+     * @param densityDpi The dpi of the screen
+     * @return The time (in ms) it should take for each pixel. For instance, if returned value is 2
+     * ms, it means scrolling 1000 pixels with LinearInterpolation should take 2 seconds.
+     */
+    protected calculateSpeedPerPixel(densityDpi:number):number  {
+        return LinearSmoothScroller.MILLISECONDS_PER_INCH / densityDpi;
+    }
+
+    /**
+     * <p>Calculates the time for deceleration so that transition from LinearInterpolator to
+     * DecelerateInterpolator looks smooth.</p>
+     *
+     * @param dx Distance to scroll
+     * @return Time for DecelerateInterpolator to smoothly traverse the distance when transitioning
+     * from LinearInterpolation
+     */
+    protected calculateTimeForDeceleration(dx:number):number  {
+        // we want to cover same area with the linear interpolator for the first 10% of the
+        // interpolation. After that, deceleration will take control.
+        // area under curve (1-(1-x)^2) can be calculated as (1 - x/3) * x * x
+        // which gives 0.100028 when x = .3356
+        // this is why we divide linear scrolling time with .3356
+        return Math.ceil(this.calculateTimeForScrolling(dx) / .3356);
+    }
+
+    /**
+     * Calculates the time it should take to scroll the given distance (in pixels)
+     *
+     * @param dx Distance in pixels that we want to scroll
+     * @return Time in milliseconds
+     * @see #calculateSpeedPerPixel(android.util.DisplayMetrics)
+     */
+    protected calculateTimeForScrolling(dx:number):number  {
+        // In a case where dx is very small, rounding may return 0 although dx > 0.
+        // To avoid that issue, ceil the result so that if dx > 0, we'll always return positive
+        // time.
+        return Math.ceil(Math.abs(dx) * this.MILLISECONDS_PER_PX);
+    }
+
+    /**
+     * When scrolling towards a child view, this method defines whether we should align the left
+     * or the right edge of the child with the parent RecyclerView.
+     *
+     * @return SNAP_TO_START, SNAP_TO_END or SNAP_TO_ANY; depending on the current target vector
+     * @see #SNAP_TO_START
+     * @see #SNAP_TO_END
+     * @see #SNAP_TO_ANY
+     */
+    protected getHorizontalSnapPreference():number  {
+        return this.mTargetVector == null || this.mTargetVector.x == 0 ? LinearSmoothScroller.SNAP_TO_ANY : this.mTargetVector.x > 0 ? LinearSmoothScroller.SNAP_TO_END : LinearSmoothScroller.SNAP_TO_START;
+    }
+
+    /**
+     * When scrolling towards a child view, this method defines whether we should align the top
+     * or the bottom edge of the child with the parent RecyclerView.
+     *
+     * @return SNAP_TO_START, SNAP_TO_END or SNAP_TO_ANY; depending on the current target vector
+     * @see #SNAP_TO_START
+     * @see #SNAP_TO_END
+     * @see #SNAP_TO_ANY
+     */
+    protected getVerticalSnapPreference():number  {
+        return this.mTargetVector == null || this.mTargetVector.y == 0 ? LinearSmoothScroller.SNAP_TO_ANY : this.mTargetVector.y > 0 ? LinearSmoothScroller.SNAP_TO_END : LinearSmoothScroller.SNAP_TO_START;
+    }
+
+    /**
+     * When the target scroll position is not a child of the RecyclerView, this method calculates
+     * a direction vector towards that child and triggers a smooth scroll.
+     *
+     * @see #computeScrollVectorForPosition(int)
+     */
+    protected updateActionForInterimTarget(action:RecyclerView.SmoothScroller.Action):void  {
+        // find an interim target position
+        let scrollVector = this.computeScrollVectorForPosition(this.getTargetPosition());
+        if (scrollVector == null || (scrollVector.x == 0 && scrollVector.y == 0)) {
+            Log.e(LinearSmoothScroller.TAG, "To support smooth scrolling, you should override \n" + "LayoutManager#computeScrollVectorForPosition.\n" + "Falling back to instant scroll");
+            const target = this.getTargetPosition();
+            action.jumpTo(target);
+            this.stop();
+            return;
+        }
+        this.normalize(scrollVector);
+        this.mTargetVector = scrollVector;
+        this.mInterimTargetDx = Math.floor(LinearSmoothScroller.TARGET_SEEK_SCROLL_DISTANCE_PX * scrollVector.x);
+        this.mInterimTargetDy = Math.floor(LinearSmoothScroller.TARGET_SEEK_SCROLL_DISTANCE_PX * scrollVector.y);
+        const time = this.calculateTimeForScrolling(LinearSmoothScroller.TARGET_SEEK_SCROLL_DISTANCE_PX);
+        // To avoid UI hiccups, trigger a smooth scroll to a distance little further than the
+        // interim target. Since we track the distance travelled in onSeekTargetStep callback, it
+        // won't actually scroll more than what we need.
+        action.update(Math.floor(this.mInterimTargetDx * LinearSmoothScroller.TARGET_SEEK_EXTRA_SCROLL_RATIO), Math.floor(this.mInterimTargetDy * LinearSmoothScroller.TARGET_SEEK_EXTRA_SCROLL_RATIO), Math.floor(time * LinearSmoothScroller.TARGET_SEEK_EXTRA_SCROLL_RATIO), this.mLinearInterpolator);
+    }
+
+    private clampApplyScroll(tmpDt:number, dt:number):number  {
+        const before = tmpDt;
+        tmpDt -= dt;
+        if (before * tmpDt <= 0) {
+            // changed sign, reached 0 or was 0, reset
+            return 0;
+        }
+        return tmpDt;
+    }
+
+    /**
+     * Helper method for {@link #calculateDxToMakeVisible(android.view.View, int)} and
+     * {@link #calculateDyToMakeVisible(android.view.View, int)}
+     */
+    calculateDtToFit(viewStart:number, viewEnd:number, boxStart:number, boxEnd:number, snapPreference:number):number  {
+        switch(snapPreference) {
+            case LinearSmoothScroller.SNAP_TO_START:
+                return boxStart - viewStart;
+            case LinearSmoothScroller.SNAP_TO_END:
+                return boxEnd - viewEnd;
+            case LinearSmoothScroller.SNAP_TO_ANY:
+                const dtStart = boxStart - viewStart;
+                if (dtStart > 0) {
+                    return dtStart;
+                }
+                const dtEnd = boxEnd - viewEnd;
+                if (dtEnd < 0) {
+                    return dtEnd;
+                }
+                break;
+            default:
+                throw Error("snap preference should be one of the" + " constants defined in SmoothScroller, starting with SNAP_");
+        }
+        return 0;
+    }
+
+    /**
+     * Calculates the vertical scroll amount necessary to make the given view fully visible
+     * inside the RecyclerView.
+     *
+     * @param view           The view which we want to make fully visible
+     * @param snapPreference The edge which the view should snap to when entering the visible
+     *                       area. One of {@link #SNAP_TO_START}, {@link #SNAP_TO_END} or
+     *                       {@link #SNAP_TO_END}.
+     * @return The vertical scroll amount necessary to make the view visible with the given
+     * snap preference.
+     */
+    calculateDyToMakeVisible(view:View, snapPreference:number):number  {
+        const layoutManager = this.getLayoutManager();
+        if (!layoutManager.canScrollVertically()) {
+            return 0;
+        }
+        const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+        const top = layoutManager.getDecoratedTop(view) - params.topMargin;
+        const bottom = layoutManager.getDecoratedBottom(view) + params.bottomMargin;
+        const start = layoutManager.getPaddingTop();
+        const end = layoutManager.getHeight() - layoutManager.getPaddingBottom();
+        return this.calculateDtToFit(top, bottom, start, end, snapPreference);
+    }
+
+    /**
+     * Calculates the horizontal scroll amount necessary to make the given view fully visible
+     * inside the RecyclerView.
+     *
+     * @param view           The view which we want to make fully visible
+     * @param snapPreference The edge which the view should snap to when entering the visible
+     *                       area. One of {@link #SNAP_TO_START}, {@link #SNAP_TO_END} or
+     *                       {@link #SNAP_TO_END}
+     * @return The vertical scroll amount necessary to make the view visible with the given
+     * snap preference.
+     */
+    calculateDxToMakeVisible(view:View, snapPreference:number):number  {
+        const layoutManager = this.getLayoutManager();
+        if (!layoutManager.canScrollHorizontally()) {
+            return 0;
+        }
+        const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+        const left = layoutManager.getDecoratedLeft(view) - params.leftMargin;
+        const right = layoutManager.getDecoratedRight(view) + params.rightMargin;
+        const start = layoutManager.getPaddingLeft();
+        const end = layoutManager.getWidth() - layoutManager.getPaddingRight();
+        return this.calculateDtToFit(left, right, start, end, snapPreference);
+    }
+
+    /**
+     * Returns the vector that points to the direction of the target position. The vector only
+     * needs to show the direction (its magnitude is ignored).
+     *
+     * @param targetPosition the target position
+     * @return the scroll vector for a given target position
+     */
+    abstract computeScrollVectorForPosition(targetPosition:number):Point ;
+}
+
+}
@@ -0,0 +1,287 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../java/lang/Integer.ts"/>
+///<reference path="RecyclerView.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import Integer = java.lang.Integer;
+
+/**
+ * Helper class for LayoutManagers to abstract measurements depending on the View's orientation.
+ * <p>
+ * It is developed to easily support vertical and horizontal orientations in a LayoutManager but
+ * can also be used to abstract calls around view bounds and child measurements with margins and
+ * decorations.
+ *
+ * @see #createHorizontalHelper(RecyclerView.LayoutManager)
+ * @see #createVerticalHelper(RecyclerView.LayoutManager)
+ */
+export abstract class OrientationHelper {
+
+    private static INVALID_SIZE:number = Integer.MIN_VALUE;
+
+    protected mLayoutManager:RecyclerView.LayoutManager;
+
+    static HORIZONTAL:number = 0;
+
+    static VERTICAL:number = 1;
+
+    private mLastTotalSpace:number = OrientationHelper.INVALID_SIZE;
+
+    constructor(layoutManager:RecyclerView.LayoutManager) {
+        this.mLayoutManager = layoutManager;
+    }
+
+    /**
+     * Call this method after onLayout method is complete if state is NOT pre-layout.
+     * This method records information like layout bounds that might be useful in the next layout
+     * calculations.
+     */
+    onLayoutComplete():void  {
+        this.mLastTotalSpace = this.getTotalSpace();
+    }
+
+    /**
+     * Returns the layout space change between the previous layout pass and current layout pass.
+     * <p>
+     * Make sure you call {@link #onLayoutComplete()} at the end of your LayoutManager's
+     * {@link RecyclerView.LayoutManager#onLayoutChildren(RecyclerView.Recycler,
+     * RecyclerView.State)} method.
+     *
+     * @return The difference between the current total space and previous layout's total space.
+     * @see #onLayoutComplete()
+     */
+    getTotalSpaceChange():number  {
+        return OrientationHelper.INVALID_SIZE == this.mLastTotalSpace ? 0 : this.getTotalSpace() - this.mLastTotalSpace;
+    }
+
+    /**
+     * Returns the start of the view including its decoration and margin.
+     * <p>
+     * For example, for the horizontal helper, if a View's left is at pixel 20, has 2px left
+     * decoration and 3px left margin, returned value will be 15px.
+     *
+     * @param view The view element to check
+     * @return The first pixel of the element
+     * @see #getDecoratedEnd(android.view.View)
+     */
+    abstract getDecoratedStart(view:View):number ;
+
+    /**
+     * Returns the end of the view including its decoration and margin.
+     * <p>
+     * For example, for the horizontal helper, if a View's right is at pixel 200, has 2px right
+     * decoration and 3px right margin, returned value will be 205.
+     *
+     * @param view The view element to check
+     * @return The last pixel of the element
+     * @see #getDecoratedStart(android.view.View)
+     */
+    abstract getDecoratedEnd(view:View):number ;
+
+    /**
+     * Returns the space occupied by this View in the current orientation including decorations and
+     * margins.
+     *
+     * @param view The view element to check
+     * @return Total space occupied by this view
+     * @see #getDecoratedMeasurementInOther(View)
+     */
+    abstract getDecoratedMeasurement(view:View):number ;
+
+    /**
+     * Returns the space occupied by this View in the perpendicular orientation including
+     * decorations and margins.
+     *
+     * @param view The view element to check
+     * @return Total space occupied by this view in the perpendicular orientation to current one
+     * @see #getDecoratedMeasurement(View)
+     */
+    abstract getDecoratedMeasurementInOther(view:View):number ;
+
+    /**
+     * Returns the start position of the layout after the start padding is added.
+     *
+     * @return The very first pixel we can draw.
+     */
+    abstract getStartAfterPadding():number ;
+
+    /**
+     * Returns the end position of the layout after the end padding is removed.
+     *
+     * @return The end boundary for this layout.
+     */
+    abstract getEndAfterPadding():number ;
+
+    /**
+     * Returns the end position of the layout without taking padding into account.
+     *
+     * @return The end boundary for this layout without considering padding.
+     */
+    abstract getEnd():number ;
+
+    /**
+     * Offsets all children's positions by the given amount.
+     *
+     * @param amount Value to add to each child's layout parameters
+     */
+    abstract offsetChildren(amount:number):void ;
+
+    /**
+     * Returns the total space to layout. This number is the difference between
+     * {@link #getEndAfterPadding()} and {@link #getStartAfterPadding()}.
+     *
+     * @return Total space to layout children
+     */
+    abstract getTotalSpace():number ;
+
+    /**
+     * Offsets the child in this orientation.
+     *
+     * @param view   View to offset
+     * @param offset offset amount
+     */
+    abstract offsetChild(view:View, offset:number):void ;
+
+    /**
+     * Returns the padding at the end of the layout. For horizontal helper, this is the right
+     * padding and for vertical helper, this is the bottom padding. This method does not check
+     * whether the layout is RTL or not.
+     *
+     * @return The padding at the end of the layout.
+     */
+    abstract getEndPadding():number ;
+
+    /**
+     * Creates an OrientationHelper for the given LayoutManager and orientation.
+     *
+     * @param layoutManager LayoutManager to attach to
+     * @param orientation   Desired orientation. Should be {@link #HORIZONTAL} or {@link #VERTICAL}
+     * @return A new OrientationHelper
+     */
+    static createOrientationHelper(layoutManager:RecyclerView.LayoutManager, orientation:number):OrientationHelper  {
+        switch(orientation) {
+            case OrientationHelper.HORIZONTAL:
+                return OrientationHelper.createHorizontalHelper(layoutManager);
+            case OrientationHelper.VERTICAL:
+                return OrientationHelper.createVerticalHelper(layoutManager);
+        }
+        throw Error("invalid orientation");
+    }
+
+    /**
+     * Creates a horizontal OrientationHelper for the given LayoutManager.
+     *
+     * @param layoutManager The LayoutManager to attach to.
+     * @return A new OrientationHelper
+     */
+    static createHorizontalHelper(layoutManager:RecyclerView.LayoutManager):OrientationHelper  {
+        class _Inner extends OrientationHelper {
+            getEndAfterPadding():number  {
+                return this.mLayoutManager.getWidth() - this.mLayoutManager.getPaddingRight();
+            }
+            getEnd():number  {
+                return this.mLayoutManager.getWidth();
+            }
+            offsetChildren(amount:number):void  {
+                this.mLayoutManager.offsetChildrenHorizontal(amount);
+            }
+            getStartAfterPadding():number  {
+                return this.mLayoutManager.getPaddingLeft();
+            }
+            getDecoratedMeasurement(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedMeasuredWidth(view) + params.leftMargin + params.rightMargin;
+            }
+            getDecoratedMeasurementInOther(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedMeasuredHeight(view) + params.topMargin + params.bottomMargin;
+            }
+            getDecoratedEnd(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedRight(view) + params.rightMargin;
+            }
+            getDecoratedStart(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedLeft(view) - params.leftMargin;
+            }
+            getTotalSpace():number  {
+                return this.mLayoutManager.getWidth() - this.mLayoutManager.getPaddingLeft() - this.mLayoutManager.getPaddingRight();
+            }
+            offsetChild(view:View, offset:number):void  {
+                view.offsetLeftAndRight(offset);
+            }
+            getEndPadding():number  {
+                return this.mLayoutManager.getPaddingRight();
+            }
+        }
+        return new _Inner(layoutManager);
+    }
+
+    /**
+     * Creates a vertical OrientationHelper for the given LayoutManager.
+     *
+     * @param layoutManager The LayoutManager to attach to.
+     * @return A new OrientationHelper
+     */
+    static createVerticalHelper(layoutManager:RecyclerView.LayoutManager):OrientationHelper  {
+        class _Inner extends OrientationHelper {
+            getEndAfterPadding():number  {
+                return this.mLayoutManager.getHeight() - this.mLayoutManager.getPaddingBottom();
+            }
+            getEnd():number  {
+                return this.mLayoutManager.getHeight();
+            }
+            offsetChildren(amount:number):void  {
+                this.mLayoutManager.offsetChildrenVertical(amount);
+            }
+            getStartAfterPadding():number  {
+                return this.mLayoutManager.getPaddingTop();
+            }
+            getDecoratedMeasurement(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedMeasuredHeight(view) + params.topMargin + params.bottomMargin;
+            }
+            getDecoratedMeasurementInOther(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedMeasuredWidth(view) + params.leftMargin + params.rightMargin;
+            }
+            getDecoratedEnd(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedBottom(view) + params.bottomMargin;
+            }
+            getDecoratedStart(view:View):number  {
+                const params = <RecyclerView.LayoutParams>view.getLayoutParams();
+                return this.mLayoutManager.getDecoratedTop(view) - params.topMargin;
+            }
+            getTotalSpace():number  {
+                return this.mLayoutManager.getHeight() - this.mLayoutManager.getPaddingTop() - this.mLayoutManager.getPaddingBottom();
+            }
+            offsetChild(view:View, offset:number):void  {
+                view.offsetTopAndBottom(offset);
+            }
+            getEndPadding():number  {
+                return this.mLayoutManager.getPaddingBottom();
+            }
+        }
+        return new _Inner(layoutManager);
+    }
+}
+
+}
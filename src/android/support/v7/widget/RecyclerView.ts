@@ -0,0 +1,7160 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/view/MotionEvent.ts"/>
+///<reference path="../../../../android/view/VelocityTracker.ts"/>
+///<reference path="../../../../android/view/ViewConfiguration.ts"/>
+///<reference path="../../../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../../../android/widget/OverScroller.ts"/>
+///<reference path="../../../../android/graphics/Rect.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/Point.ts"/>
+///<reference path="../../../../android/util/SparseArray.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../android/os/SystemClock.ts"/>
+///<reference path="../../../../android/database/Observable.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="../../../../java/lang/Runnable.ts"/>
+///<reference path="../../../../androidui/util/ClassFinder.ts"/>
+///<reference path="ChildHelper.ts"/>
+
+//support v7 22.2.0
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import MotionEvent = android.view.MotionEvent;
+import VelocityTracker = android.view.VelocityTracker;
+import ViewConfiguration = android.view.ViewConfiguration;
+import Interpolator = android.view.animation.Interpolator;
+import OverScroller = android.widget.OverScroller;
+import Rect = android.graphics.Rect;
+import Canvas = android.graphics.Canvas;
+import Point = android.graphics.Point;
+import SparseArray = android.util.SparseArray;
+import Log = android.util.Log;
+import SystemClock = android.os.SystemClock;
+import Observable = android.database.Observable;
+import ArrayList = java.util.ArrayList;
+import Runnable = java.lang.Runnable;
+import ClassFinder = androidui.util.ClassFinder;
+
+/**
+ * A flexible view for providing a limited window into a large data set.
+ *
+ * <h3>Glossary of terms:</h3>
+ *
+ * <ul>
+ *     <li><em>Adapter:</em> A subclass of {@link Adapter} responsible for providing views
+ *     that represent items in a data set.</li>
+ *     <li><em>Position:</em> The position of a data item within an <em>Adapter</em>.</li>
+ *     <li><em>Index:</em> The index of an attached child view as used in a call to
+ *     {@link ViewGroup#getChildAt}. Contrast with <em>Position.</em></li>
+ *     <li><em>Binding:</em> The process of preparing a child view to display data corresponding
+ *     to a <em>position</em> within the adapter.</li>
+ *     <li><em>Recycle (view):</em> A view previously used to display data for a specific adapter
+ *     position may be placed in a cache for later reuse to display the same type of data again
+ *     later. This can drastically improve performance by skipping initial layout inflation
+ *     or construction.</li>
+ *     <li><em>Scrap (view):</em> A child view that has entered into a temporarily detached
+ *     state during layout. Scrap views may be reused without becoming fully detached
+ *     from the parent RecyclerView, either unmodified if no rebinding is required or modified
+ *     by the adapter if the view was considered <em>dirty</em>.</li>
+ *     <li><em>Dirty (view):</em> A child view that must be rebound by the adapter before
+ *     being displayed.</li>
+ * </ul>
+ *
+ * In the html layout, the <code>layoutManager</code> attribute takes a LayoutManager class
+ * name (for example <code>LinearLayoutManager</code> or <code>GridLayoutManager</code>);
+ * <code>android:orientation</code>, <code>spanCount</code>, <code>reverseLayout</code> and
+ * <code>stackFromEnd</code> on the same element configure it.
+ */
+export class RecyclerView extends ViewGroup {
+
+    static TAG:string = "RecyclerView";
+
+    static DEBUG:boolean = false;
+
+    static DISPATCH_TEMP_DETACH:boolean = false;
+
+    static HORIZONTAL:number = 0;
+
+    static VERTICAL:number = 1;
+
+    static NO_POSITION:number = -1;
+
+    static NO_ID:number = -1;
+
+    static INVALID_TYPE:number = -1;
+
+    /**
+     * Constant for use with {@link #setScrollingTouchSlop(int)}. Indicates
+     * that the RecyclerView should use the standard touch slop for smooth,
+     * continuous scrolling.
+     */
+    static TOUCH_SLOP_DEFAULT:number = 0;
+
+    /**
+     * Constant for use with {@link #setScrollingTouchSlop(int)}. Indicates
+     * that the RecyclerView should use the standard touch slop for scrolling
+     * widgets that snap to a page or other coarse-grained barrier.
+     */
+    static TOUCH_SLOP_PAGING:number = 1;
+
+    static MAX_SCROLL_DURATION:number = 2000;
+
+    /**
+     * The RecyclerView is not currently scrolling.
+     * @see #getScrollState()
+     */
+    static SCROLL_STATE_IDLE:number = 0;
+
+    /**
+     * The RecyclerView is currently being dragged by outside input such as user touch input.
+     * @see #getScrollState()
+     */
+    static SCROLL_STATE_DRAGGING:number = 1;
+
+    /**
+     * The RecyclerView is currently animating to a final position while not under
+     * outside control.
+     * @see #getScrollState()
+     */
+    static SCROLL_STATE_SETTLING:number = 2;
+
+    private static INVALID_POINTER:number = -1;
+
+    static sQuinticInterpolator:Interpolator = {
+        getInterpolation(t:number):number {
+            t -= 1.0;
+            return t * t * t * t * t + 1.0;
+        }
+    };
+
+    mRecycler:RecyclerView.Recycler = new RecyclerView.Recycler(this);
+
+    mChildHelper:ChildHelper;
+
+    mAdapter:RecyclerView.Adapter<any>;
+
+    mLayout:RecyclerView.LayoutManager;
+
+    mRecyclerListener:RecyclerView.RecyclerListener;
+
+    mItemDecorations:ArrayList<RecyclerView.ItemDecoration> = new ArrayList<RecyclerView.ItemDecoration>();
+
+    private mOnItemTouchListeners:ArrayList<RecyclerView.OnItemTouchListener> = new ArrayList<RecyclerView.OnItemTouchListener>();
+
+    private mActiveOnItemTouchListener:RecyclerView.OnItemTouchListener;
+
+    mIsAttached:boolean = false;
+
+    mHasFixedSize:boolean = false;
+
+    mFirstLayoutComplete:boolean = false;
+
+    private mEatRequestLayout:boolean = false;
+
+    private mLayoutRequestEaten:boolean = false;
+
+    private mLayoutFrozen:boolean = false;
+
+    private mIgnoreMotionEventTillDown:boolean = false;
+
+    mItemsAddedOrRemoved:boolean = false;
+
+    mItemsChanged:boolean = false;
+
+    /**
+     * Set to true when an adapter data set changed notification is received.
+     * In that case, we cannot run any animations since we don't know what happened.
+     */
+    mDataSetHasChangedAfterLayout:boolean = false;
+
+    /**
+     * Adapter updates received since the last layout, applied in order at the start of the
+     * next layout pass.
+     */
+    private mPendingUpdates:ArrayList<UpdateOp> = new ArrayList<UpdateOp>();
+
+    mItemAnimator:RecyclerView.ItemAnimator = new DefaultItemAnimator();
+
+    mPostedAnimatorRunner:boolean = false;
+
+    private mItemAnimatorRunner:Runnable = {
+        run: ()=>{
+            if (this.mItemAnimator != null) {
+                this.mItemAnimator.runPendingAnimations();
+            }
+            this.mPostedAnimatorRunner = false;
+        }
+    };
+
+    private mUpdateChildViewsRunnable:Runnable = {
+        run: ()=>{
+            if (!this.mFirstLayoutComplete) {
+                // a layout request will happen, we should not do layout here.
+                return;
+            }
+            if (this.mDataSetHasChangedAfterLayout) {
+                this.dispatchLayout();
+            } else if (this.mPendingUpdates.size() > 0) {
+                this.eatRequestLayout();
+                this.dispatchLayout();
+                this.resumeRequestLayout(true);
+            }
+        }
+    };
+
+    mState:RecyclerView.State = new RecyclerView.State();
+
+    private mObserver:RecyclerView.AdapterDataObserver;
+
+    private mItemAnimatorListener:RecyclerView.ItemAnimator.ItemAnimatorListener;
+
+    private mScrollState:number = RecyclerView.SCROLL_STATE_IDLE;
+
+    private mScrollPointerId:number = RecyclerView.INVALID_POINTER;
+
+    private mVelocityTracker:VelocityTracker;
+
+    private mInitialTouchX:number = 0;
+
+    private mInitialTouchY:number = 0;
+
+    private mLastTouchX:number = 0;
+
+    private mLastTouchY:number = 0;
+
+    private mMinFlingVelocity:number = 0;
+
+    private mMaxFlingVelocity:number = 0;
+
+    mViewFlinger:RecyclerView.ViewFlinger = new RecyclerView.ViewFlinger(this);
+
+    private mScrollListener:RecyclerView.OnScrollListener;
+
+    private mScrollListeners:ArrayList<RecyclerView.OnScrollListener>;
+
+    private mTempRect:Rect = new Rect();
+
+    constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle?) {
+        super(context, bindElement, defStyle);
+        this.setFocusableInTouchMode(true);
+        this.setWillNotDraw(false);
+        const vc = ViewConfiguration.get();
+        this.mTouchSlop = vc.getScaledTouchSlop();
+        this.mMinFlingVelocity = vc.getScaledMinimumFlingVelocity();
+        this.mMaxFlingVelocity = vc.getScaledMaximumFlingVelocity();
+        this.initObservers();
+        this.initChildrenHelper();
+        this.mItemAnimator.setListener(this.mItemAnimatorListener);
+
+        this._attrBinder.addAttr('layoutManager', (value)=>{
+            if (value instanceof RecyclerView.LayoutManager) {
+                this.setLayoutManager(value);
+            } else if (value) {
+                this.createLayoutManager(value + '');
+            }
+        }, ()=>{
+            return this.mLayout;
+        });
+    }
+
+    /**
+     * Instantiate and set a LayoutManager from the html layout attribute.
+     */
+    private createLayoutManager(className:string):void  {
+        className = className.trim();
+        if (className.startsWith('.')) {
+            className = className.substring(1);
+        }
+        let layoutManagerClass = ClassFinder.findClass(className, android.support.v7.widget);
+        if (!layoutManagerClass) layoutManagerClass = ClassFinder.findClass(className);
+        if (!layoutManagerClass) {
+            throw Error("Unable to find LayoutManager " + className);
+        }
+        let layoutManager:RecyclerView.LayoutManager = new layoutManagerClass();
+        if (!(layoutManager instanceof RecyclerView.LayoutManager)) {
+            throw Error("Class is not a LayoutManager " + className);
+        }
+        const a = this._attrBinder;
+        let orientation = this.getAttributeIgnoreCase('orientation');
+        if (orientation != null && layoutManager['setOrientation']) {
+            layoutManager['setOrientation'](orientation.toUpperCase() === 'HORIZONTAL' || orientation == RecyclerView.HORIZONTAL + ''
+                ? RecyclerView.HORIZONTAL : RecyclerView.VERTICAL);
+        }
+        let spanCount = Number.parseInt(this.getAttributeIgnoreCase('spanCount'));
+        if (Number.isInteger(spanCount) && layoutManager['setSpanCount']) {
+            layoutManager['setSpanCount'](spanCount);
+        }
+        let reverseLayout = this.getAttributeIgnoreCase('reverseLayout');
+        if (reverseLayout != null && layoutManager['setReverseLayout']) {
+            layoutManager['setReverseLayout'](a.parseBoolean(reverseLayout, false));
+        }
+        let stackFromEnd = this.getAttributeIgnoreCase('stackFromEnd');
+        if (stackFromEnd != null && layoutManager['setStackFromEnd']) {
+            layoutManager['setStackFromEnd'](a.parseBoolean(stackFromEnd, false));
+        }
+        this.setLayoutManager(layoutManager);
+    }
+
+    private initObservers():void  {
+        const _this = this;
+        class RecyclerViewDataObserver extends RecyclerView.AdapterDataObserver {
+            onChanged():void {
+                if (_this.mAdapter.hasStableIds()) {
+                    // TODO Determine what actually changed.
+                    // This is more important to implement now since this callback will disable all
+                    // animations because we cannot rely on positions.
+                    _this.mState.mStructureChanged = true;
+                    _this.setDataSetChangedAfterLayout();
+                } else {
+                    _this.mState.mStructureChanged = true;
+                    _this.setDataSetChangedAfterLayout();
+                }
+                _this.requestLayout();
+            }
+            onItemRangeChanged(positionStart:number, itemCount:number):void {
+                if (itemCount < 1) return;
+                _this.mPendingUpdates.add(new UpdateOp(UpdateOp.UPDATE, positionStart, itemCount));
+                _this.triggerUpdateProcessor();
+            }
+            onItemRangeInserted(positionStart:number, itemCount:number):void {
+                if (itemCount < 1) return;
+                _this.mPendingUpdates.add(new UpdateOp(UpdateOp.ADD, positionStart, itemCount));
+                _this.triggerUpdateProcessor();
+            }
+            onItemRangeRemoved(positionStart:number, itemCount:number):void {
+                if (itemCount < 1) return;
+                _this.mPendingUpdates.add(new UpdateOp(UpdateOp.REMOVE, positionStart, itemCount));
+                _this.triggerUpdateProcessor();
+            }
+            onItemRangeMoved(fromPosition:number, toPosition:number, itemCount:number):void {
+                if (itemCount != 1) {
+                    throw Error("Moving more than 1 item is not supported yet");
+                }
+                if (fromPosition == toPosition) return;
+                _this.mPendingUpdates.add(new UpdateOp(UpdateOp.MOVE, fromPosition, toPosition));
+                _this.triggerUpdateProcessor();
+            }
+        }
+        this.mObserver = new RecyclerViewDataObserver();
+
+        class ItemAnimatorRestoreListener implements RecyclerView.ItemAnimator.ItemAnimatorListener {
+            onRemoveFinished(item:RecyclerView.ViewHolder):void {
+                item.setIsRecyclable(true);
+                if (!_this.removeAnimatingView(item.itemView) && item.isTmpDetached()) {
+                    _this.removeDetachedView(item.itemView, false);
+                }
+            }
+            onAddFinished(item:RecyclerView.ViewHolder):void {
+                item.setIsRecyclable(true);
+                if (!item.shouldBeKeptAsChild()) {
+                    _this.removeAnimatingView(item.itemView);
+                }
+            }
+            onMoveFinished(item:RecyclerView.ViewHolder):void {
+                item.setIsRecyclable(true);
+                if (!item.shouldBeKeptAsChild()) {
+                    _this.removeAnimatingView(item.itemView);
+                }
+            }
+            onChangeFinished(item:RecyclerView.ViewHolder):void {
+                item.setIsRecyclable(true);
+                // NOTE: The order of these is important; calling removeAnimatingView clears the
+                // changed flag, so the view is recycled into the pool and not the cache.
+                if (item.mShadowedHolder != null && item.mShadowingHolder == null) {
+                    // old vh
+                    item.mShadowedHolder = null;
+                    item.setFlags(~RecyclerView.ViewHolder.FLAG_CHANGED, item.mFlags);
+                }
+                // always null this because an OldViewHolder can never become NewViewHolder w/o being
+                // recycled.
+                item.mShadowingHolder = null;
+                if (!item.shouldBeKeptAsChild()) {
+                    _this.removeAnimatingView(item.itemView);
+                }
+            }
+        }
+        this.mItemAnimatorListener = new ItemAnimatorRestoreListener();
+    }
+
+    private initChildrenHelper():void  {
+        const _this = this;
+        class ChildHelperCallback implements ChildHelper.Callback {
+            getChildCount():number {
+                return _this.getChildCount();
+            }
+            addView(child:View, index:number):void {
+                _this.addView(child, index);
+                _this.dispatchChildAttached(child);
+            }
+            indexOfChild(view:View):number {
+                return _this.indexOfChild(view);
+            }
+            removeViewAt(index:number):void {
+                const child = _this.getChildAt(index);
+                if (child != null) {
+                    _this.dispatchChildDetached(child);
+                }
+                _this.removeViewAt(index);
+            }
+            getChildAt(offset:number):View {
+                return _this.getChildAt(offset);
+            }
+            removeAllViews():void {
+                const count = this.getChildCount();
+                for (let i = 0; i < count; i++) {
+                    _this.dispatchChildDetached(this.getChildAt(i));
+                }
+                _this.removeAllViews();
+            }
+            getChildViewHolder(view:View):RecyclerView.ViewHolder {
+                return RecyclerView.getChildViewHolderInt(view);
+            }
+            attachViewToParent(child:View, index:number, layoutParams:ViewGroup.LayoutParams):void {
+                const vh = RecyclerView.getChildViewHolderInt(child);
+                if (vh != null) {
+                    if (!vh.isTmpDetached() && !vh.shouldIgnore()) {
+                        throw Error("Called attach on a child which is not detached: " + vh);
+                    }
+                    vh.clearTmpDetachFlag();
+                }
+                _this.attachViewToParent(child, index, layoutParams);
+            }
+            detachViewFromParent(offset:number):void {
+                const view = this.getChildAt(offset);
+                if (view != null) {
+                    const vh = RecyclerView.getChildViewHolderInt(view);
+                    if (vh != null) {
+                        if (vh.isTmpDetached() && !vh.shouldIgnore()) {
+                            throw Error("called detach on an already detached child " + vh);
+                        }
+                        vh.addFlags(RecyclerView.ViewHolder.FLAG_TMP_DETACHED);
+                    }
+                }
+                _this.detachViewFromParent(offset);
+            }
+        }
+        this.mChildHelper = new ChildHelper(new ChildHelperCallback());
+    }
+
+    /**
+     * RecyclerView can perform several optimizations if it can know in advance that changes in
+     * adapter content cannot change the size of the RecyclerView itself.
+     * If your use of RecyclerView falls into this category, set this to true.
+     *
+     * @param hasFixedSize true if adapter changes cannot affect the size of the RecyclerView.
+     */
+    setHasFixedSize(hasFixedSize:boolean):void  {
+        this.mHasFixedSize = hasFixedSize;
+    }
+
+    /**
+     * @return true if the app has specified that changes in adapter content cannot change
+     * the size of the RecyclerView itself.
+     */
+    hasFixedSize():boolean  {
+        return this.mHasFixedSize;
+    }
+
+    /**
+     * Configure the scrolling touch slop for a specific use case.
+     *
+     * @param slopConstant One of the <code>TOUCH_SLOP_</code> constants representing
+     *                     the intended usage of this RecyclerView
+     */
+    setScrollingTouchSlop(slopConstant:number):void  {
+        const vc = ViewConfiguration.get();
+        switch(slopConstant) {
+            default:
+                Log.w(RecyclerView.TAG, "setScrollingTouchSlop(): bad argument constant "
+                    + slopConstant + "; using default value");
+            // fall-through
+            case RecyclerView.TOUCH_SLOP_DEFAULT:
+                this.mTouchSlop = vc.getScaledTouchSlop();
+                break;
+            case RecyclerView.TOUCH_SLOP_PAGING:
+                this.mTouchSlop = vc.getScaledPagingTouchSlop();
+                break;
+        }
+    }
+
+    /**
+     * Swaps the current adapter with the provided one. It is similar to
+     * {@link #setAdapter(Adapter)} but assumes existing adapter and the new adapter uses the same
+     * {@link ViewHolder} and does not clear the RecycledViewPool.
+     *
+     * @param adapter The new adapter to set, or null to set no adapter.
+     * @param removeAndRecycleExistingViews If set to true, RecyclerView will recycle all existing
+     *                                      Views. If adapters have stable ids and/or you want to
+     *                                      animate the disappearing views, you may prefer to set
+     *                                      this to false.
+     * @see #setAdapter(Adapter)
+     */
+    swapAdapter(adapter:RecyclerView.Adapter<any>, removeAndRecycleExistingViews:boolean):void  {
+        this.setAdapterInternal(adapter, true, removeAndRecycleExistingViews);
+        this.setDataSetChangedAfterLayout();
+        this.requestLayout();
+    }
+
+    /**
+     * Set a new adapter to provide child views on demand.
+     * <p>
+     * When adapter is changed, all existing views are recycled back to the pool. If the pool has
+     * only one adapter, it will be cleared.
+     *
+     * @param adapter The new adapter to set, or null to set no adapter.
+     * @see #swapAdapter(Adapter, boolean)
+     */
+    setAdapter(adapter:RecyclerView.Adapter<any>):void  {
+        this.setAdapterInternal(adapter, false, true);
+        this.requestLayout();
+    }
+
+    /**
+     * Replaces the current adapter with the new one and triggers listeners.
+     * @param adapter The new adapter
+     * @param compatibleWithPrevious If true, the new adapter is using the same View Holders and
+     *                               item types with the current adapter (helps us avoid cache
+     *                               invalidation).
+     * @param removeAndRecycleViews  If true, we'll remove and recycle all existing views. If
+     *                               compatibleWithPrevious is false, this parameter is ignored.
+     */
+    private setAdapterInternal(adapter:RecyclerView.Adapter<any>, compatibleWithPrevious:boolean, removeAndRecycleViews:boolean):void  {
+        if (this.mAdapter != null) {
+            this.mAdapter.unregisterAdapterDataObserver(this.mObserver);
+            this.mAdapter.onDetachedFromRecyclerView(this);
+        }
+        if (!compatibleWithPrevious || removeAndRecycleViews) {
+            // end all running animations
+            if (this.mItemAnimator != null) {
+                this.mItemAnimator.endAnimations();
+            }
+            // Since animations are ended, mLayout.children should be equal to
+            // recyclerView.children. This may not be true if item animator's end does not work as
+            // expected. (e.g. not release children instantly). It is safer to use mLayout's child
+            // count.
+            if (this.mLayout != null) {
+                this.mLayout.removeAndRecycleAllViews(this.mRecycler);
+                this.mLayout.removeAndRecycleScrapInt(this.mRecycler);
+            }
+            // we should clear it here before adapters are swapped to ensure correct callbacks.
+            this.mRecycler.clear();
+        }
+        this.mPendingUpdates.clear();
+        const oldAdapter = this.mAdapter;
+        this.mAdapter = adapter;
+        if (adapter != null) {
+            adapter.registerAdapterDataObserver(this.mObserver);
+            adapter.onAttachedToRecyclerView(this);
+        }
+        if (this.mLayout != null) {
+            this.mLayout.onAdapterChanged(oldAdapter, this.mAdapter);
+        }
+        this.mRecycler.onAdapterChanged(oldAdapter, this.mAdapter, compatibleWithPrevious);
+        this.mState.mStructureChanged = true;
+        this.markKnownViewsInvalid();
+    }
+
+    /**
+     * Retrieves the previously set adapter or null if no adapter is set.
+     *
+     * @return The previously set adapter
+     * @see #setAdapter(Adapter)
+     */
+    getAdapter():RecyclerView.Adapter<any>  {
+        return this.mAdapter;
+    }
+
+    /**
+     * Register a listener that will be notified whenever a child view is recycled.
+     *
+     * @param listener Listener to register, or null to clear
+     */
+    setRecyclerListener(listener:RecyclerView.RecyclerListener):void  {
+        this.mRecyclerListener = listener;
+    }
+
+    /**
+     * Set the {@link LayoutManager} that this RecyclerView will use.
+     *
+     * <p>In contrast to other adapter-backed views such as {@link android.widget.ListView}
+     * or {@link android.widget.GridView}, RecyclerView allows client code to provide custom
+     * layout arrangements for child views. These arrangements are controlled by the
+     * {@link LayoutManager}. A LayoutManager must be provided for RecyclerView to function.</p>
+     *
+     * @param layout LayoutManager to use
+     */
+    setLayoutManager(layout:RecyclerView.LayoutManager):void  {
+        if (layout == this.mLayout) {
+            return;
+        }
+        // TODO We should do this switch a dispachLayout pass and animate children. There is a good
+        // chance that LayoutManagers will re-use views.
+        if (this.mLayout != null) {
+            if (this.mIsAttached) {
+                this.mLayout.dispatchDetachedFromWindow(this, this.mRecycler);
+            }
+            this.mLayout.setRecyclerView(null);
+        }
+        this.mRecycler.clear();
+        this.mChildHelper.removeAllViewsUnfiltered();
+        this.mLayout = layout;
+        if (layout != null) {
+            if (layout.mRecyclerView != null) {
+                throw Error("LayoutManager " + layout + " is already attached to a RecyclerView: " + layout.mRecyclerView);
+            }
+            this.mLayout.setRecyclerView(this);
+            if (this.mIsAttached) {
+                this.mLayout.dispatchAttachedToWindow(this);
+            }
+        }
+        this.requestLayout();
+    }
+
+    /**
+     * Return the {@link LayoutManager} currently responsible for
+     * layout policy for this RecyclerView.
+     *
+     * @return The currently bound LayoutManager
+     */
+    getLayoutManager():RecyclerView.LayoutManager  {
+        return this.mLayout;
+    }
+
+    /**
+     * Retrieve this RecyclerView's {@link RecycledViewPool}. This method will never return null;
+     * if no pool is set for this view a new one will be created.
+     *
+     * @return The pool used to store recycled item views for reuse.
+     */
+    getRecycledViewPool():RecyclerView.RecycledViewPool  {
+        return this.mRecycler.getRecycledViewPool();
+    }
+
+    /**
+     * Recycled view pools allow multiple RecyclerViews to share a common pool of scrap views.
+     * This can be useful if you have multiple RecyclerViews with adapters that use the same
+     * view types, for example if you have several data sets with the same kinds of item views
+     * displayed by a {@link android.support.v4.view.ViewPager ViewPager}.
+     *
+     * @param pool Pool to set. If this parameter is null a new pool will be created and used.
+     */
+    setRecycledViewPool(pool:RecyclerView.RecycledViewPool):void  {
+        this.mRecycler.setRecycledViewPool(pool);
+    }
+
+    /**
+     * Set the number of offscreen views to retain before adding them to the potentially shared
+     * {@link #getRecycledViewPool() recycled view pool}.
+     *
+     * <p>The offscreen view cache stays aware of changes in the attached adapter, allowing
+     * a LayoutManager to reuse those views unmodified without needing to return to the adapter
+     * to rebind them.</p>
+     *
+     * @param size Number of views to cache offscreen before returning them to the general
+     *             recycled view pool
+     */
+    setItemViewCacheSize(size:number):void  {
+        this.mRecycler.setViewCacheSize(size);
+    }
+
+    /**
+     * Return the current scrolling state of the RecyclerView.
+     *
+     * @return {@link #SCROLL_STATE_IDLE}, {@link #SCROLL_STATE_DRAGGING} or
+     * {@link #SCROLL_STATE_SETTLING}
+     */
+    getScrollState():number  {
+        return this.mScrollState;
+    }
+
+    setScrollState(state:number):void  {
+        if (state == this.mScrollState) {
+            return;
+        }
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "setting scroll state to " + state + " from " + this.mScrollState);
+        }
+        this.mScrollState = state;
+        if (state != RecyclerView.SCROLL_STATE_SETTLING) {
+            this.stopScrollersInternal();
+        }
+        this.dispatchOnScrollStateChanged(state);
+    }
+
+    /**
+     * Add an {@link ItemDecoration} to this RecyclerView. Item decorations can
+     * affect both measurement and drawing of individual item views.
+     *
+     * <p>Item decorations are ordered. Decorations placed earlier in the list will
+     * be run/queried/drawn first for their effects on item views. Padding added to views
+     * will be nested; a padding added by an earlier decoration will mean further
+     * item decorations in the list will be asked to draw/pad within the previous decoration's
+     * given area.</p>
+     *
+     * @param decor Decoration to add
+     * @param index Position in the decoration chain to insert this decoration at. If this value
+     *              is negative the decoration will be added at the end.
+     */
+    addItemDecoration(decor:RecyclerView.ItemDecoration, index = -1):void  {
+        if (this.mItemDecorations.isEmpty()) {
+            this.setWillNotDraw(false);
+        }
+        if (index < 0) {
+            this.mItemDecorations.add(decor);
+        } else {
+            this.mItemDecorations.add(index, decor);
+        }
+        this.markItemDecorInsetsDirty();
+        this.requestLayout();
+    }
+
+    /**
+     * Remove an {@link ItemDecoration} from this RecyclerView.
+     *
+     * <p>The given decoration will no longer impact the measurement and drawing of
+     * item views.</p>
+     *
+     * @param decor Decoration to remove
+     * @see #addItemDecoration(ItemDecoration)
+     */
+    removeItemDecoration(decor:RecyclerView.ItemDecoration):void  {
+        this.mItemDecorations.remove(decor);
+        this.markItemDecorInsetsDirty();
+        this.requestLayout();
+    }
+
+    /**
+     * Set a listener that will be notified of any changes in scroll state or position.
+     *
+     * @param listener Listener to set or null to clear
+     *
+     * @deprecated Use {@link #addOnScrollListener(OnScrollListener)} and
+     *             {@link #removeOnScrollListener(OnScrollListener)}
+     */
+    setOnScrollListener(listener:RecyclerView.OnScrollListener):void  {
+        this.mScrollListener = listener;
+    }
+
+    /**
+     * Add a listener that will be notified of any changes in scroll state or position.
+     *
+     * <p>Components that add a listener should take care to remove it when finished.
+     * Other components that take ownership of a view may call {@link #clearOnScrollListeners()}
+     * to remove all attached listeners.</p>
+     *
+     * @param listener listener to set or null to clear
+     */
+    addOnScrollListener(listener:RecyclerView.OnScrollListener):void  {
+        if (this.mScrollListeners == null) {
+            this.mScrollListeners = new ArrayList<RecyclerView.OnScrollListener>();
+        }
+        this.mScrollListeners.add(listener);
+    }
+
+    /**
+     * Remove a listener that was notified of any changes in scroll state or position.
+     *
+     * @param listener listener to set or null to clear
+     */
+    removeOnScrollListener(listener:RecyclerView.OnScrollListener):void  {
+        if (this.mScrollListeners != null) {
+            this.mScrollListeners.remove(listener);
+        }
+    }
+
+    /**
+     * Remove all secondary listener that were notified of any changes in scroll state or position.
+     */
+    clearOnScrollListeners():void  {
+        if (this.mScrollListeners != null) {
+            this.mScrollListeners.clear();
+        }
+    }
+
+    /**
+     * Convenience method to scroll to a certain position.
+     *
+     * RecyclerView does not implement scrolling logic, rather forwards the call to
+     * {@link RecyclerView.LayoutManager#scrollToPosition(int)}
+     * @param position Scroll to this adapter position
+     * @see RecyclerView.LayoutManager#scrollToPosition(int)
+     */
+    scrollToPosition(position:number):void  {
+        this.stopScroll();
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "Cannot scroll to position a LayoutManager set. " + "Call setLayoutManager with a non-null argument.");
+            return;
+        }
+        this.mLayout.scrollToPosition(position);
+        this.awakenScrollBars();
+    }
+
+    jumpToPositionForSmoothScroller(position:number):void  {
+        if (this.mLayout == null) {
+            return;
+        }
+        this.mLayout.scrollToPosition(position);
+        this.awakenScrollBars();
+    }
+
+    /**
+     * Starts a smooth scroll to an adapter position.
+     * <p>
+     * To support smooth scrolling, you must override
+     * {@link LayoutManager#smoothScrollToPosition(RecyclerView, State, int)} and create a
+     * {@link SmoothScroller}.
+     *
+     * @param position The adapter position to scroll to
+     * @see LayoutManager#smoothScrollToPosition(RecyclerView, State, int)
+     */
+    smoothScrollToPosition(position:number):void  {
+        if (this.mLayoutFrozen) {
+            return;
+        }
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "Cannot smooth scroll without a LayoutManager set. " + "Call setLayoutManager with a non-null argument.");
+            return;
+        }
+        this.mLayout.smoothScrollToPosition(this, this.mState, position);
+    }
+
+    scrollTo(x:number, y:number):void  {
+        throw Error("RecyclerView does not support scrolling to an absolute position.");
+    }
+
+    scrollBy(x:number, y:number):void  {
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "Cannot scroll without a LayoutManager set. " + "Call setLayoutManager with a non-null argument.");
+            return;
+        }
+        if (this.mLayoutFrozen) {
+            return;
+        }
+        const canScrollHorizontal = this.mLayout.canScrollHorizontally();
+        const canScrollVertical = this.mLayout.canScrollVertically();
+        if (canScrollHorizontal || canScrollVertical) {
+            this.scrollByInternal(canScrollHorizontal ? x : 0, canScrollVertical ? y : 0);
+        }
+    }
+
+    /**
+     * Helper method reflect data changes to the state.
+     * <p>
+     * Adapter changes during a scroll may trigger a crash because scroll assumes no data change
+     * but data actually changed.
+     * <p>
+     * This method consumes all deferred changes to avoid that case.
+     */
+    consumePendingUpdateOperations():void  {
+        this.mUpdateChildViewsRunnable.run();
+    }
+
+    /**
+     * Does not perform bounds checking. Used by internal methods that have already validated input.
+     * <p>
+     * It also reports any unused scroll request to the related EdgeEffect.
+     *
+     * @param x The amount of horizontal scroll request
+     * @param y The amount of vertical scroll request
+     *
+     * @return Whether any scroll was consumed in either direction.
+     */
+    scrollByInternal(x:number, y:number):boolean  {
+        let consumedX = 0, consumedY = 0;
+        this.consumePendingUpdateOperations();
+        if (this.mAdapter != null) {
+            this.eatRequestLayout();
+            if (x != 0) {
+                consumedX = this.mLayout.scrollHorizontallyBy(x, this.mRecycler, this.mState);
+            }
+            if (y != 0) {
+                consumedY = this.mLayout.scrollVerticallyBy(y, this.mRecycler, this.mState);
+            }
+            this.resumeRequestLayout(false);
+        }
+        if (!this.mItemDecorations.isEmpty()) {
+            this.invalidate();
+        }
+        if (consumedX != 0 || consumedY != 0) {
+            this.dispatchOnScrolled(consumedX, consumedY);
+        }
+        if (!this.awakenScrollBars()) {
+            this.invalidate();
+        }
+        return consumedX != 0 || consumedY != 0;
+    }
+
+    protected computeHorizontalScrollOffset():number  {
+        return this.mLayout != null && this.mLayout.canScrollHorizontally() ? this.mLayout.computeHorizontalScrollOffset(this.mState) : 0;
+    }
+
+    protected computeHorizontalScrollExtent():number  {
+        return this.mLayout != null && this.mLayout.canScrollHorizontally() ? this.mLayout.computeHorizontalScrollExtent(this.mState) : 0;
+    }
+
+    protected computeHorizontalScrollRange():number  {
+        return this.mLayout != null && this.mLayout.canScrollHorizontally() ? this.mLayout.computeHorizontalScrollRange(this.mState) : 0;
+    }
+
+    protected computeVerticalScrollOffset():number  {
+        return this.mLayout != null && this.mLayout.canScrollVertically() ? this.mLayout.computeVerticalScrollOffset(this.mState) : 0;
+    }
+
+    protected computeVerticalScrollExtent():number  {
+        return this.mLayout != null && this.mLayout.canScrollVertically() ? this.mLayout.computeVerticalScrollExtent(this.mState) : 0;
+    }
+
+    protected computeVerticalScrollRange():number  {
+        return this.mLayout != null && this.mLayout.canScrollVertically() ? this.mLayout.computeVerticalScrollRange(this.mState) : 0;
+    }
+
+    eatRequestLayout():void  {
+        if (!this.mEatRequestLayout) {
+            this.mEatRequestLayout = true;
+            if (!this.mLayoutFrozen) {
+                this.mLayoutRequestEaten = false;
+            }
+        }
+    }
+
+    resumeRequestLayout(performLayoutChildren:boolean):void  {
+        if (this.mEatRequestLayout) {
+            // when layout is frozen we should delay dispatchLayout()
+            if (performLayoutChildren && this.mLayoutRequestEaten && !this.mLayoutFrozen
+                    && this.mLayout != null && this.mAdapter != null) {
+                this.dispatchLayout();
+            }
+            this.mEatRequestLayout = false;
+            if (!this.mLayoutFrozen) {
+                this.mLayoutRequestEaten = false;
+            }
+        }
+    }
+
+    /**
+     * Checks if RecyclerView is in the middle of a layout or scroll and throws an
+     * {@link Error} if it is.
+     *
+     * @param message The message for the exception. Can be null.
+     */
+    assertNotInLayoutOrScroll(message:string):void  {
+        if (this.mEatRequestLayout) {
+            if (message == null) {
+                throw Error("Cannot call this method while RecyclerView is " + "computing a layout or scrolling");
+            }
+            throw Error(message);
+        }
+    }
+
+    /**
+     * Enable or disable layout and scroll. After <code>setLayoutFrozen(true)</code> is called,
+     * Layout requests will be postponed until <code>setLayoutFrozen(false)</code> is called;
+     * child views are not updated when RecyclerView is frozen, {@link #smoothScrollBy(int, int)},
+     * {@link #scrollBy(int, int)}, {@link #scrollToPosition(int)} and
+     * {@link #smoothScrollToPosition(int)} are dropped; TouchEvents and GenericMotionEvents are
+     * dropped.
+     *
+     * @param frozen   true to freeze layout and scroll, false to re-enable.
+     */
+    setLayoutFrozen(frozen:boolean):void  {
+        if (frozen != this.mLayoutFrozen) {
+            if (!frozen) {
+                this.mLayoutFrozen = false;
+                if (this.mLayoutRequestEaten && this.mLayout != null && this.mAdapter != null) {
+                    this.requestLayout();
+                }
+                this.mLayoutRequestEaten = false;
+            } else {
+                const now = SystemClock.uptimeMillis();
+                let cancelEvent = MotionEvent.obtainWithAction(now, now, MotionEvent.ACTION_CANCEL, 0, 0);
+                this.onTouchEvent(cancelEvent);
+                this.mLayoutFrozen = true;
+                this.mIgnoreMotionEventTillDown = true;
+                this.stopScroll();
+            }
+        }
+    }
+
+    /**
+     * Returns true if layout and scroll are frozen.
+     *
+     * @return true if layout and scroll are frozen
+     * @see #setLayoutFrozen(boolean)
+     */
+    isLayoutFrozen():boolean  {
+        return this.mLayoutFrozen;
+    }
+
+    /**
+     * Animate a scroll by the given amount of pixels along either axis.
+     *
+     * @param dx Pixels to scroll horizontally
+     * @param dy Pixels to scroll vertically
+     */
+    smoothScrollBy(dx:number, dy:number):void  {
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "Cannot smooth scroll without a LayoutManager set. " + "Call setLayoutManager with a non-null argument.");
+            return;
+        }
+        if (this.mLayoutFrozen) {
+            return;
+        }
+        if (!this.mLayout.canScrollHorizontally()) {
+            dx = 0;
+        }
+        if (!this.mLayout.canScrollVertically()) {
+            dy = 0;
+        }
+        if (dx != 0 || dy != 0) {
+            this.mViewFlinger.smoothScrollBy(dx, dy);
+        }
+    }
+
+    /**
+     * Begin a standard fling with an initial velocity along each axis in pixels per second.
+     * If the velocity given is below the system-defined minimum this method will return false
+     * and no fling will occur.
+     *
+     * @param velocityX Initial horizontal velocity in pixels per second
+     * @param velocityY Initial vertical velocity in pixels per second
+     * @return true if the fling was started, false if the velocity was too low to fling or
+     * LayoutManager does not support scrolling in the axis fling is issued.
+     */
+    fling(velocityX:number, velocityY:number):boolean  {
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "Cannot fling without a LayoutManager set. " + "Call setLayoutManager with a non-null argument.");
+            return false;
+        }
+        if (this.mLayoutFrozen) {
+            return false;
+        }
+        const canScrollHorizontal = this.mLayout.canScrollHorizontally();
+        const canScrollVertical = this.mLayout.canScrollVertically();
+        if (!canScrollHorizontal || Math.abs(velocityX) < this.mMinFlingVelocity) {
+            velocityX = 0;
+        }
+        if (!canScrollVertical || Math.abs(velocityY) < this.mMinFlingVelocity) {
+            velocityY = 0;
+        }
+        if (velocityX == 0 && velocityY == 0) {
+            // If we don't have any velocity, return false
+            return false;
+        }
+        velocityX = Math.max(-this.mMaxFlingVelocity, Math.min(velocityX, this.mMaxFlingVelocity));
+        velocityY = Math.max(-this.mMaxFlingVelocity, Math.min(velocityY, this.mMaxFlingVelocity));
+        this.mViewFlinger.fling(velocityX, velocityY);
+        return true;
+    }
+
+    /**
+     * Stop any current scroll in progress, such as one started by
+     * {@link #smoothScrollBy(int, int)}, {@link #fling(int, int)} or a touch-initiated fling.
+     */
+    stopScroll():void  {
+        this.setScrollState(RecyclerView.SCROLL_STATE_IDLE);
+        this.stopScrollersInternal();
+    }
+
+    /**
+     * Similar to {@link #stopScroll()} but does not set the state.
+     */
+    private stopScrollersInternal():void  {
+        this.mViewFlinger.stop();
+        if (this.mLayout != null) {
+            this.mLayout.stopSmoothScroller();
+        }
+    }
+
+    /**
+     * Returns the minimum velocity to start a fling.
+     *
+     * @return The minimum velocity to start a fling
+     */
+    getMinFlingVelocity():number  {
+        return this.mMinFlingVelocity;
+    }
+
+    /**
+     * Returns the maximum fling velocity used by this RecyclerView.
+     *
+     * @return The maximum velocity for fling
+     */
+    getMaxFlingVelocity():number  {
+        return this.mMaxFlingVelocity;
+    }
+
+    /**
+     * Dispatch a scroll event to the listeners, the LayoutManager's smooth scroller and the
+     * overridable {@link #onScrolled(int, int)} hook.
+     */
+    dispatchOnScrolled(hresult:number, vresult:number):void  {
+        this.onScrolled(hresult, vresult);
+        if (this.mScrollListener != null) {
+            this.mScrollListener.onScrolled(this, hresult, vresult);
+        }
+        if (this.mScrollListeners != null) {
+            for (let i = this.mScrollListeners.size() - 1; i >= 0; i--) {
+                this.mScrollListeners.get(i).onScrolled(this, hresult, vresult);
+            }
+        }
+    }
+
+    /**
+     * Called when the scroll position of this RecyclerView changes. Subclasses should use
+     * this method to respond to scrolling within the adapter's data set instead of an explicit
+     * listener.
+     *
+     * @param dx horizontal distance scrolled in pixels
+     * @param dy vertical distance scrolled in pixels
+     */
+    onScrolled(dx:number, dy:number):void  {
+        // Do nothing
+    }
+
+    private dispatchOnScrollStateChanged(state:number):void  {
+        // Let the LayoutManager go first; this allows it to bring any properties into
+        // a consistent state before the RecyclerView subclass responds.
+        if (this.mLayout != null) {
+            this.mLayout.onScrollStateChanged(state);
+        }
+        this.onScrollStateChanged(state);
+        if (this.mScrollListener != null) {
+            this.mScrollListener.onScrollStateChanged(this, state);
+        }
+        if (this.mScrollListeners != null) {
+            for (let i = this.mScrollListeners.size() - 1; i >= 0; i--) {
+                this.mScrollListeners.get(i).onScrollStateChanged(this, state);
+            }
+        }
+    }
+
+    /**
+     * Override this method to react to changes in the scroll state.
+     *
+     * @param state the new scroll state, one of {@link #SCROLL_STATE_IDLE},
+     * {@link #SCROLL_STATE_DRAGGING} or {@link #SCROLL_STATE_SETTLING}
+     */
+    onScrollStateChanged(state:number):void  {
+        // Do nothing
+    }
+
+    protected onAttachedToWindow():void  {
+        super.onAttachedToWindow();
+        this.mIsAttached = true;
+        this.mFirstLayoutComplete = false;
+        if (this.mLayout != null) {
+            this.mLayout.dispatchAttachedToWindow(this);
+        }
+        this.mPostedAnimatorRunner = false;
+    }
+
+    protected onDetachedFromWindow():void  {
+        super.onDetachedFromWindow();
+        if (this.mItemAnimator != null) {
+            this.mItemAnimator.endAnimations();
+        }
+        this.mFirstLayoutComplete = false;
+        this.stopScroll();
+        this.mIsAttached = false;
+        if (this.mLayout != null) {
+            this.mLayout.dispatchDetachedFromWindow(this, this.mRecycler);
+        }
+        this.removeCallbacks(this.mItemAnimatorRunner);
+    }
+
+    /**
+     * Add an {@link OnItemTouchListener} to intercept touch events before they are dispatched
+     * to child views or this view's standard scrolling behavior.
+     *
+     * <p>Client code may use listeners to implement item manipulation behavior. Once a listener
+     * returns true from
+     * {@link OnItemTouchListener#onInterceptTouchEvent(RecyclerView, MotionEvent)} its
+     * {@link OnItemTouchListener#onTouchEvent(RecyclerView, MotionEvent)} method will be called
+     * for each incoming MotionEvent until the end of the gesture.</p>
+     *
+     * @param listener Listener to add
+     */
+    addOnItemTouchListener(listener:RecyclerView.OnItemTouchListener):void  {
+        this.mOnItemTouchListeners.add(listener);
+    }
+
+    /**
+     * Remove an {@link OnItemTouchListener}. It will no longer be able to intercept touch events.
+     *
+     * @param listener Listener to remove
+     */
+    removeOnItemTouchListener(listener:RecyclerView.OnItemTouchListener):void  {
+        this.mOnItemTouchListeners.remove(listener);
+        if (this.mActiveOnItemTouchListener == listener) {
+            this.mActiveOnItemTouchListener = null;
+        }
+    }
+
+    private dispatchOnItemTouchIntercept(e:MotionEvent):boolean  {
+        const action = e.getAction();
+        if (action == MotionEvent.ACTION_CANCEL || action == MotionEvent.ACTION_DOWN) {
+            this.mActiveOnItemTouchListener = null;
+        }
+        const listenerCount = this.mOnItemTouchListeners.size();
+        for (let i = 0; i < listenerCount; i++) {
+            const listener = this.mOnItemTouchListeners.get(i);
+            if (listener.onInterceptTouchEvent(this, e) && action != MotionEvent.ACTION_CANCEL) {
+                this.mActiveOnItemTouchListener = listener;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private dispatchOnItemTouch(e:MotionEvent):boolean  {
+        const action = e.getAction();
+        if (this.mActiveOnItemTouchListener != null) {
+            if (action == MotionEvent.ACTION_DOWN) {
+                // Stale state from a previous gesture, we're starting a new one. Clear it.
+                this.mActiveOnItemTouchListener = null;
+            } else {
+                this.mActiveOnItemTouchListener.onTouchEvent(this, e);
+                if (action == MotionEvent.ACTION_CANCEL || action == MotionEvent.ACTION_UP) {
+                    // Clean up for the next gesture.
+                    this.mActiveOnItemTouchListener = null;
+                }
+                return true;
+            }
+        }
+        // Listeners will have already received the ACTION_DOWN via dispatchOnItemTouchIntercept
+        // as called from onInterceptTouchEvent; skip it.
+        if (action != MotionEvent.ACTION_DOWN) {
+            const listenerCount = this.mOnItemTouchListeners.size();
+            for (let i = 0; i < listenerCount; i++) {
+                const listener = this.mOnItemTouchListeners.get(i);
+                if (listener.onInterceptTouchEvent(this, e)) {
+                    this.mActiveOnItemTouchListener = listener;
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    onInterceptTouchEvent(e:MotionEvent):boolean  {
+        if (this.mLayoutFrozen) {
+            // When layout is frozen,  RV does not intercept the motion event.
+            // A child view e.g. a button may still get the click.
+            return false;
+        }
+        if (this.dispatchOnItemTouchIntercept(e)) {
+            this.cancelTouch();
+            return true;
+        }
+        if (this.mLayout == null) {
+            return false;
+        }
+        const canScrollHorizontally = this.mLayout.canScrollHorizontally();
+        const canScrollVertically = this.mLayout.canScrollVertically();
+        if (this.mVelocityTracker == null) {
+            this.mVelocityTracker = VelocityTracker.obtain();
+        }
+        this.mVelocityTracker.addMovement(e);
+        const action = e.getActionMasked();
+        const actionIndex = e.getActionIndex();
+        switch(action) {
+            case MotionEvent.ACTION_DOWN:
+                if (this.mIgnoreMotionEventTillDown) {
+                    this.mIgnoreMotionEventTillDown = false;
+                }
+                this.mScrollPointerId = e.getPointerId(0);
+                this.mInitialTouchX = this.mLastTouchX = Math.floor(e.getX() + 0.5);
+                this.mInitialTouchY = this.mLastTouchY = Math.floor(e.getY() + 0.5);
+                if (this.mScrollState == RecyclerView.SCROLL_STATE_SETTLING) {
+                    this.getParent().requestDisallowInterceptTouchEvent(true);
+                    this.setScrollState(RecyclerView.SCROLL_STATE_DRAGGING);
+                }
+                break;
+            case MotionEvent.ACTION_POINTER_DOWN:
+                this.mScrollPointerId = e.getPointerId(actionIndex);
+                this.mInitialTouchX = this.mLastTouchX = Math.floor(e.getX(actionIndex) + 0.5);
+                this.mInitialTouchY = this.mLastTouchY = Math.floor(e.getY(actionIndex) + 0.5);
+                break;
+            case MotionEvent.ACTION_MOVE:
+                {
+                    const index = e.findPointerIndex(this.mScrollPointerId);
+                    if (index < 0) {
+                        Log.e(RecyclerView.TAG, "Error processing scroll; pointer index for id " + this.mScrollPointerId + " not found. Did any MotionEvents get skipped?");
+                        return false;
+                    }
+                    const x = Math.floor(e.getX(index) + 0.5);
+                    const y = Math.floor(e.getY(index) + 0.5);
+                    if (this.mScrollState != RecyclerView.SCROLL_STATE_DRAGGING) {
+                        const dx = x - this.mInitialTouchX;
+                        const dy = y - this.mInitialTouchY;
+                        let startScroll = false;
+                        if (canScrollHorizontally && Math.abs(dx) > this.mTouchSlop) {
+                            this.mLastTouchX = this.mInitialTouchX + this.mTouchSlop * (dx < 0 ? -1 : 1);
+                            startScroll = true;
+                        }
+                        if (canScrollVertically && Math.abs(dy) > this.mTouchSlop) {
+                            this.mLastTouchY = this.mInitialTouchY + this.mTouchSlop * (dy < 0 ? -1 : 1);
+                            startScroll = true;
+                        }
+                        if (startScroll) {
+                            const parent = this.getParent();
+                            if (parent != null) {
+                                parent.requestDisallowInterceptTouchEvent(true);
+                            }
+                            this.setScrollState(RecyclerView.SCROLL_STATE_DRAGGING);
+                        }
+                    }
+                }
+                break;
+            case MotionEvent.ACTION_POINTER_UP:
+                this.onPointerUp(e);
+                break;
+            case MotionEvent.ACTION_UP:
+                this.mVelocityTracker.clear();
+                break;
+            case MotionEvent.ACTION_CANCEL:
+                this.cancelTouch();
+        }
+        return this.mScrollState == RecyclerView.SCROLL_STATE_DRAGGING;
+    }
+
+    requestDisallowInterceptTouchEvent(disallowIntercept:boolean):void  {
+        const listenerCount = this.mOnItemTouchListeners.size();
+        for (let i = 0; i < listenerCount; i++) {
+            const listener = this.mOnItemTouchListeners.get(i);
+            listener.onRequestDisallowInterceptTouchEvent(disallowIntercept);
+        }
+        super.requestDisallowInterceptTouchEvent(disallowIntercept);
+    }
+
+    onTouchEvent(e:MotionEvent):boolean  {
+        if (this.mLayoutFrozen || this.mIgnoreMotionEventTillDown) {
+            return false;
+        }
+        if (this.dispatchOnItemTouch(e)) {
+            this.cancelTouch();
+            return true;
+        }
+        if (this.mLayout == null) {
+            return false;
+        }
+        const canScrollHorizontally = this.mLayout.canScrollHorizontally();
+        const canScrollVertically = this.mLayout.canScrollVertically();
+        if (this.mVelocityTracker == null) {
+            this.mVelocityTracker = VelocityTracker.obtain();
+        }
+        this.mVelocityTracker.addMovement(e);
+        const action = e.getActionMasked();
+        const actionIndex = e.getActionIndex();
+        switch(action) {
+            case MotionEvent.ACTION_DOWN:
+                this.mScrollPointerId = e.getPointerId(0);
+                this.mInitialTouchX = this.mLastTouchX = Math.floor(e.getX() + 0.5);
+                this.mInitialTouchY = this.mLastTouchY = Math.floor(e.getY() + 0.5);
+                break;
+            case MotionEvent.ACTION_POINTER_DOWN:
+                this.mScrollPointerId = e.getPointerId(actionIndex);
+                this.mInitialTouchX = this.mLastTouchX = Math.floor(e.getX(actionIndex) + 0.5);
+                this.mInitialTouchY = this.mLastTouchY = Math.floor(e.getY(actionIndex) + 0.5);
+                break;
+            case MotionEvent.ACTION_MOVE:
+                {
+                    const index = e.findPointerIndex(this.mScrollPointerId);
+                    if (index < 0) {
+                        Log.e(RecyclerView.TAG, "Error processing scroll; pointer index for id " + this.mScrollPointerId + " not found. Did any MotionEvents get skipped?");
+                        return false;
+                    }
+                    const x = Math.floor(e.getX(index) + 0.5);
+                    const y = Math.floor(e.getY(index) + 0.5);
+                    if (this.mScrollState != RecyclerView.SCROLL_STATE_DRAGGING) {
+                        const dx = x - this.mInitialTouchX;
+                        const dy = y - this.mInitialTouchY;
+                        let startScroll = false;
+                        if (canScrollHorizontally && Math.abs(dx) > this.mTouchSlop) {
+                            this.mLastTouchX = this.mInitialTouchX + this.mTouchSlop * (dx < 0 ? -1 : 1);
+                            startScroll = true;
+                        }
+                        if (canScrollVertically && Math.abs(dy) > this.mTouchSlop) {
+                            this.mLastTouchY = this.mInitialTouchY + this.mTouchSlop * (dy < 0 ? -1 : 1);
+                            startScroll = true;
+                        }
+                        if (startScroll) {
+                            const parent = this.getParent();
+                            if (parent != null) {
+                                parent.requestDisallowInterceptTouchEvent(true);
+                            }
+                            this.setScrollState(RecyclerView.SCROLL_STATE_DRAGGING);
+                        }
+                    }
+                    if (this.mScrollState == RecyclerView.SCROLL_STATE_DRAGGING) {
+                        const dx = x - this.mLastTouchX;
+                        const dy = y - this.mLastTouchY;
+                        if (this.scrollByInternal(canScrollHorizontally ? -dx : 0, canScrollVertically ? -dy : 0)) {
+                            this.getParent().requestDisallowInterceptTouchEvent(true);
+                        }
+                    }
+                    this.mLastTouchX = x;
+                    this.mLastTouchY = y;
+                }
+                break;
+            case MotionEvent.ACTION_POINTER_UP:
+                this.onPointerUp(e);
+                break;
+            case MotionEvent.ACTION_UP:
+                {
+                    this.mVelocityTracker.computeCurrentVelocity(1000, this.mMaxFlingVelocity);
+                    const xvel = canScrollHorizontally ? -this.mVelocityTracker.getXVelocity(this.mScrollPointerId) : 0;
+                    const yvel = canScrollVertically ? -this.mVelocityTracker.getYVelocity(this.mScrollPointerId) : 0;
+                    if (!((xvel != 0 || yvel != 0) && this.fling(xvel, yvel))) {
+                        this.setScrollState(RecyclerView.SCROLL_STATE_IDLE);
+                    }
+                    this.mVelocityTracker.clear();
+                }
+                break;
+            case MotionEvent.ACTION_CANCEL:
+                this.cancelTouch();
+                break;
+        }
+        return true;
+    }
+
+    private cancelTouch():void  {
+        if (this.mVelocityTracker != null) {
+            this.mVelocityTracker.clear();
+        }
+        this.setScrollState(RecyclerView.SCROLL_STATE_IDLE);
+    }
+
+    private onPointerUp(e:MotionEvent):void  {
+        const actionIndex = e.getActionIndex();
+        if (e.getPointerId(actionIndex) == this.mScrollPointerId) {
+            // Pick a new pointer to pick up the slack.
+            const newIndex = actionIndex == 0 ? 1 : 0;
+            this.mScrollPointerId = e.getPointerId(newIndex);
+            this.mInitialTouchX = this.mLastTouchX = Math.floor(e.getX(newIndex) + 0.5);
+            this.mInitialTouchY = this.mLastTouchY = Math.floor(e.getY(newIndex) + 0.5);
+        }
+    }
+
+    protected onMeasure(widthSpec:number, heightSpec:number):void  {
+        if (this.mLayout == null) {
+            this.defaultOnMeasure(widthSpec, heightSpec);
+            return;
+        }
+        if (this.mPendingUpdates.size() > 0 && !this.mHasFixedSize) {
+            // the size may change with adapter updates, process them before measuring.
+            this.eatRequestLayout();
+            this.processAdapterUpdates();
+            this.resumeRequestLayout(false);
+        }
+        this.mState.mItemCount = this.mAdapter != null ? this.mAdapter.getItemCount() : 0;
+        this.mLayout.onMeasure(this.mRecycler, this.mState, widthSpec, heightSpec);
+    }
+
+    /**
+     * Used when onMeasure is called before layout manager is set
+     */
+    defaultOnMeasure(widthSpec:number, heightSpec:number):void  {
+        const widthMode = View.MeasureSpec.getMode(widthSpec);
+        const heightMode = View.MeasureSpec.getMode(heightSpec);
+        const widthSize = View.MeasureSpec.getSize(widthSpec);
+        const heightSize = View.MeasureSpec.getSize(heightSpec);
+        let width = 0;
+        let height = 0;
+        switch(widthMode) {
+            case View.MeasureSpec.EXACTLY:
+            case View.MeasureSpec.AT_MOST:
+                width = widthSize;
+                break;
+            case View.MeasureSpec.UNSPECIFIED:
+            default:
+                width = this.getMinimumWidth();
+                break;
+        }
+        switch(heightMode) {
+            case View.MeasureSpec.EXACTLY:
+            case View.MeasureSpec.AT_MOST:
+                height = heightSize;
+                break;
+            case View.MeasureSpec.UNSPECIFIED:
+            default:
+                height = this.getMinimumHeight();
+                break;
+        }
+        this.setMeasuredDimension(width, height);
+    }
+
+    protected onSizeChanged(w:number, h:number, oldw:number, oldh:number):void  {
+        super.onSizeChanged(w, h, oldw, oldh);
+        if (w != oldw || h != oldh) {
+            this.invalidateGlows();
+        }
+    }
+
+    private invalidateGlows():void  {
+        // no edge effects on this platform
+    }
+
+    /**
+     * Sets the {@link ItemAnimator} that will handle animations involving changes
+     * to the items in this RecyclerView. By default, RecyclerView instantiates and
+     * uses an instance of {@link DefaultItemAnimator}. Whether item animations are
+     * enabled for the RecyclerView depends on the ItemAnimator and whether
+     * the LayoutManager {@link LayoutManager#supportsPredictiveItemAnimations()
+     * supports item animations}.
+     *
+     * @param animator The ItemAnimator being set. If null, no animations will occur
+     * when changes occur to the items in this RecyclerView.
+     */
+    setItemAnimator(animator:RecyclerView.ItemAnimator):void  {
+        if (this.mItemAnimator != null) {
+            this.mItemAnimator.endAnimations();
+            this.mItemAnimator.setListener(null);
+        }
+        this.mItemAnimator = animator;
+        if (this.mItemAnimator != null) {
+            this.mItemAnimator.setListener(this.mItemAnimatorListener);
+        }
+    }
+
+    /**
+     * Gets the current ItemAnimator for this RecyclerView. A null return value
+     * indicates that there is no animator and that item changes will happen without
+     * any animations. By default, RecyclerView instantiates and
+     * uses an instance of {@link DefaultItemAnimator}.
+     *
+     * @return ItemAnimator The current ItemAnimator. If null, no animations will occur
+     * when changes occur to the items in this RecyclerView.
+     */
+    getItemAnimator():RecyclerView.ItemAnimator  {
+        return this.mItemAnimator;
+    }
+
+    /**
+     * Post a runnable to the next frame to run pending item animations. Only the first such
+     * request will be posted, governed by the mPostedAnimatorRunner flag.
+     */
+    private postAnimationRunner():void  {
+        if (!this.mPostedAnimatorRunner && this.mIsAttached) {
+            this.postOnAnimation(this.mItemAnimatorRunner);
+            this.mPostedAnimatorRunner = true;
+        }
+    }
+
+    /**
+     * Schedules a layout or a deferred update pass for newly received adapter updates.
+     */
+    private triggerUpdateProcessor():void  {
+        if (this.mHasFixedSize && this.mIsAttached) {
+            this.postOnAnimation(this.mUpdateChildViewsRunnable);
+        } else {
+            this.requestLayout();
+        }
+    }
+
+    /**
+     * Applies the pending adapter updates to the view holders, in the order they were received.
+     */
+    private processAdapterUpdates():void  {
+        if (this.mPendingUpdates.size() == 0) {
+            return;
+        }
+        this.saveOldPositions();
+        const supportsChangeAnimations = this.mItemAnimator != null && this.mItemAnimator.getSupportsChangeAnimations();
+        for (let op of this.mPendingUpdates.getArray()) {
+            switch(op.cmd) {
+                case UpdateOp.ADD:
+                    this.offsetPositionRecordsForInsert(op.positionStart, op.itemCount);
+                    this.mItemsAddedOrRemoved = true;
+                    if (this.mLayout != null) {
+                        this.mLayout.onItemsAdded(this, op.positionStart, op.itemCount);
+                    }
+                    break;
+                case UpdateOp.REMOVE:
+                    this.offsetPositionRecordsForRemove(op.positionStart, op.itemCount, true);
+                    this.mItemsAddedOrRemoved = true;
+                    this.mState.mDeletedInvisibleItemCountSincePreviousLayout += op.itemCount;
+                    if (this.mLayout != null) {
+                        this.mLayout.onItemsRemoved(this, op.positionStart, op.itemCount);
+                    }
+                    break;
+                case UpdateOp.UPDATE:
+                    this.viewRangeUpdate(op.positionStart, op.itemCount, supportsChangeAnimations);
+                    this.mItemsChanged = true;
+                    if (this.mLayout != null) {
+                        this.mLayout.onItemsUpdated(this, op.positionStart, op.itemCount);
+                    }
+                    break;
+                case UpdateOp.MOVE:
+                    this.offsetPositionRecordsForMove(op.positionStart, op.itemCount);
+                    this.mItemsAddedOrRemoved = true;
+                    if (this.mLayout != null) {
+                        this.mLayout.onItemsMoved(this, op.positionStart, op.itemCount, 1);
+                    }
+                    break;
+            }
+        }
+        this.mPendingUpdates.clear();
+    }
+
+    /**
+     * Returns the adapter position of the given holder once the pending updates are applied,
+     * or {@link #NO_POSITION} if the item was removed.
+     */
+    getAdapterPositionFor(viewHolder:RecyclerView.ViewHolder):number  {
+        if (viewHolder.hasAnyOfTheFlags(RecyclerView.ViewHolder.FLAG_INVALID | RecyclerView.ViewHolder.FLAG_REMOVED
+                | RecyclerView.ViewHolder.FLAG_ADAPTER_POSITION_UNKNOWN)
+                || !viewHolder.isBound()) {
+            return RecyclerView.NO_POSITION;
+        }
+        let position = viewHolder.mPosition;
+        for (let op of this.mPendingUpdates.getArray()) {
+            switch(op.cmd) {
+                case UpdateOp.ADD:
+                    if (op.positionStart <= position) {
+                        position += op.itemCount;
+                    }
+                    break;
+                case UpdateOp.REMOVE:
+                    if (op.positionStart <= position) {
+                        if (op.positionStart + op.itemCount > position) {
+                            return RecyclerView.NO_POSITION;
+                        }
+                        position -= op.itemCount;
+                    }
+                    break;
+                case UpdateOp.MOVE:
+                    if (op.positionStart == position) {
+                        position = op.itemCount;
+                    } else {
+                        if (op.positionStart < position) {
+                            position -= 1;
+                        }
+                        if (op.itemCount <= position) {
+                            position += 1;
+                        }
+                    }
+                    break;
+            }
+        }
+        return position;
+    }
+
+    /**
+     * Consumes adapter updates and calculates which type of animations we want to run.
+     * Called in onMeasure and dispatchLayout.
+     */
+    private processAdapterUpdatesAndSetAnimationFlags():void  {
+        if (this.mDataSetHasChangedAfterLayout) {
+            // Processing these items have no value since data set changed unexpectedly.
+            // Instead, we just reset it.
+            this.mPendingUpdates.clear();
+            this.markKnownViewsInvalid();
+            if (this.mLayout != null) {
+                this.mLayout.onItemsChanged(this);
+            }
+        } else {
+            this.processAdapterUpdates();
+        }
+        const animationTypeSupported = this.mItemsAddedOrRemoved || this.mItemsChanged;
+        this.mState.mRunSimpleAnimations = this.mFirstLayoutComplete && this.mItemAnimator != null
+            && (this.mDataSetHasChangedAfterLayout || animationTypeSupported || this.mLayout.mRequestedSimpleAnimations)
+            && (!this.mDataSetHasChangedAfterLayout || this.mAdapter.hasStableIds());
+        this.mState.mRunPredictiveAnimations = false;
+    }
+
+    /**
+     * Wrapper around layoutChildren() that handles animating changes caused by layout.
+     * Animations work on the assumption that there are five different kinds of items
+     * in play:
+     * PERSISTENT: items are visible before and after layout
+     * REMOVED: items were visible before layout and were removed by the app
+     * ADDED: items did not exist before layout and were added by the app
+     * DISAPPEARING: items exist in the data set before/after, but changed from
+     * visible to non-visible in the process of layout (they were moved off
+     * screen as a side-effect of other changes)
+     * APPEARING: items exist in the data set before/after, but changed from
+     * non-visible to visible in the process of layout (they were moved on
+     * screen as a side-effect of other changes)
+     * The overall approach figures out what items exist before/after layout and
+     * infers one of the five above states for each of the items. Then the animations
+     * are set up accordingly:
+     * PERSISTENT views are moved ({@link ItemAnimator#animateMove(ViewHolder, int, int, int, int)})
+     * REMOVED views are removed ({@link ItemAnimator#animateRemove(ViewHolder)})
+     * ADDED views are added ({@link ItemAnimator#animateAdd(ViewHolder)})
+     * DISAPPEARING views are moved off screen
+     * APPEARING views are moved on screen
+     */
+    dispatchLayout():void  {
+        if (this.mAdapter == null) {
+            Log.e(RecyclerView.TAG, "No adapter attached; skipping layout");
+            return;
+        }
+        if (this.mLayout == null) {
+            Log.e(RecyclerView.TAG, "No layout manager attached; skipping layout");
+            return;
+        }
+        this.eatRequestLayout();
+        this.processAdapterUpdatesAndSetAnimationFlags();
+        const state = this.mState;
+        state.mItemCount = this.mAdapter.getItemCount();
+        state.mDeletedInvisibleItemCountSincePreviousLayout = 0;
+        let preLayoutHolderMap:Map<RecyclerView.ViewHolder, ItemHolderInfo> = null;
+        if (state.mRunSimpleAnimations) {
+            // Step 0: Find out where all non-removed items are, pre-layout
+            preLayoutHolderMap = new Map<RecyclerView.ViewHolder, ItemHolderInfo>();
+            const count = this.mChildHelper.getChildCount();
+            for (let i = 0; i < count; ++i) {
+                const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getChildAt(i));
+                if (holder.shouldIgnore() || (holder.isInvalid() && !this.mAdapter.hasStableIds())) {
+                    continue;
+                }
+                const view = holder.itemView;
+                preLayoutHolderMap.set(holder, new ItemHolderInfo(holder, view.getLeft(), view.getTop(), view.getRight(), view.getBottom()));
+            }
+        }
+        // Step 2: Run layout
+        state.mInPreLayout = false;
+        this.mLayout.onLayoutChildren(this.mRecycler, state);
+        state.mStructureChanged = false;
+
+        if (state.mRunSimpleAnimations) {
+            // Step 3: Find out where things are now, post-layout
+            let postLayoutHolderMap = new Map<RecyclerView.ViewHolder, ItemHolderInfo>();
+            const count = this.mChildHelper.getChildCount();
+            for (let i = 0; i < count; ++i) {
+                const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getChildAt(i));
+                if (holder.shouldIgnore()) {
+                    continue;
+                }
+                const view = holder.itemView;
+                postLayoutHolderMap.set(holder, new ItemHolderInfo(holder, view.getLeft(), view.getTop(), view.getRight(), view.getBottom()));
+            }
+            // Step 4: Animate DISAPPEARING, REMOVED and CHANGED items
+            for (let [holder, info] of Array.from(preLayoutHolderMap.entries())) {
+                if (postLayoutHolderMap.has(holder)) {
+                    continue;
+                }
+                if (holder.isChanged()) {
+                    const newHolder = this.findChangedHolderReplacement(holder, preLayoutHolderMap, postLayoutHolderMap);
+                    if (newHolder != null) {
+                        const newInfo = postLayoutHolderMap.get(newHolder);
+                        postLayoutHolderMap.delete(newHolder);
+                        this.animateChange(holder, newHolder, info, newInfo);
+                        continue;
+                    }
+                }
+                this.animateDisappearance(info);
+            }
+            // Step 5: Animate APPEARING and ADDED items
+            for (let [holder, info] of Array.from(postLayoutHolderMap.entries())) {
+                if (!preLayoutHolderMap.has(holder)) {
+                    this.animateAppearance(holder);
+                }
+            }
+            // Step 6: Animate PERSISTENT items
+            for (let [holder, info] of Array.from(postLayoutHolderMap.entries())) {
+                const preInfo = preLayoutHolderMap.get(holder);
+                if (preInfo != null && (preInfo.left != info.left || preInfo.top != info.top)) {
+                    holder.setIsRecyclable(false);
+                    if (RecyclerView.DEBUG) {
+                        Log.d(RecyclerView.TAG, "PERSISTENT: " + holder + " with view " + holder.itemView);
+                    }
+                    if (this.mItemAnimator.animateMove(holder, preInfo.left, preInfo.top, info.left, info.top)) {
+                        this.postAnimationRunner();
+                    }
+                }
+            }
+        }
+        this.mLayout.removeAndRecycleScrapInt(this.mRecycler);
+        state.mPreviousLayoutItemCount = state.mItemCount;
+        this.mDataSetHasChangedAfterLayout = false;
+        state.mRunSimpleAnimations = false;
+        state.mRunPredictiveAnimations = false;
+        this.mItemsAddedOrRemoved = this.mItemsChanged = false;
+        this.mLayout.mRequestedSimpleAnimations = false;
+        this.clearOldPositions();
+        this.resumeRequestLayout(false);
+    }
+
+    /**
+     * Finds the holder which replaced a changed holder in the post layout: it is laid out at the
+     * same position but did not exist before the layout.
+     */
+    private findChangedHolderReplacement(oldHolder:RecyclerView.ViewHolder,
+                                         preLayoutHolderMap:Map<RecyclerView.ViewHolder, ItemHolderInfo>,
+                                         postLayoutHolderMap:Map<RecyclerView.ViewHolder, ItemHolderInfo>):RecyclerView.ViewHolder  {
+        for (let holder of Array.from(postLayoutHolderMap.keys())) {
+            if (!preLayoutHolderMap.has(holder) && holder.getLayoutPosition() == oldHolder.getLayoutPosition()) {
+                return holder;
+            }
+        }
+        return null;
+    }
+
+    private animateAppearance(itemHolder:RecyclerView.ViewHolder):void  {
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "APPEARING: " + itemHolder + " with view " + itemHolder.itemView);
+        }
+        itemHolder.setIsRecyclable(false);
+        if (this.mItemAnimator.animateAdd(itemHolder)) {
+            this.postAnimationRunner();
+        }
+    }
+
+    private animateDisappearance(disappearingItem:ItemHolderInfo):void  {
+        const holder = disappearingItem.holder;
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "DISAPPEARING: " + holder + " with view " + holder.itemView);
+        }
+        this.addAnimatingView(holder);
+        holder.setIsRecyclable(false);
+        if (this.mItemAnimator.animateRemove(holder)) {
+            this.postAnimationRunner();
+        }
+    }
+
+    private animateChange(oldHolder:RecyclerView.ViewHolder, newHolder:RecyclerView.ViewHolder,
+                          oldInfo:ItemHolderInfo, newInfo:ItemHolderInfo):void  {
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "CHANGED: " + oldHolder + " with view " + oldHolder.itemView);
+        }
+        this.addAnimatingView(oldHolder);
+        oldHolder.setIsRecyclable(false);
+        oldHolder.mShadowingHolder = newHolder;
+        newHolder.mShadowedHolder = oldHolder;
+        newHolder.setIsRecyclable(false);
+        if (this.mItemAnimator.animateChange(oldHolder, newHolder, oldInfo.left, oldInfo.top, newInfo.left, newInfo.top)) {
+            this.postAnimationRunner();
+        }
+    }
+
+    /**
+     * Adds a view to the animatingViews list.
+     * mAnimatingViews holds the child views that are currently being kept around
+     * purely for the purpose of being animated out of view. They are drawn as a regular
+     * part of the child list of the RecyclerView, but they are invisible to the LayoutManager
+     * as they are managed separately from the regular child views.
+     * @param viewHolder The ViewHolder to be removed
+     */
+    private addAnimatingView(viewHolder:RecyclerView.ViewHolder):void  {
+        const view = viewHolder.itemView;
+        const alreadyParented = view.getParent() == this;
+        this.mRecycler.unscrapView(this.getChildViewHolder(view));
+        this.mRecycler.removeFromCacheOrPool(viewHolder);
+        if (viewHolder.isTmpDetached()) {
+            // re-attach
+            this.mChildHelper.attachViewToParent(view, -1, view.getLayoutParams(), true);
+        } else if (!alreadyParented) {
+            this.mChildHelper.addView(view, -1, true);
+        } else {
+            this.mChildHelper.hide(view);
+        }
+    }
+
+    /**
+     * Removes a view from the animatingViews list.
+     * @param view The view to be removed
+     * @see #addAnimatingView(RecyclerView.ViewHolder)
+     * @return true if an animating view is removed
+     */
+    removeAnimatingView(view:View):boolean  {
+        this.eatRequestLayout();
+        const removed = this.mChildHelper.removeViewIfHidden(view);
+        if (removed) {
+            const viewHolder = RecyclerView.getChildViewHolderInt(view);
+            this.mRecycler.unscrapView(viewHolder);
+            this.mRecycler.recycleViewHolderInternal(viewHolder);
+            if (RecyclerView.DEBUG) {
+                Log.d(RecyclerView.TAG, "after removing animated view: " + view + ", " + this);
+            }
+        }
+        this.resumeRequestLayout(false);
+        return removed;
+    }
+
+    removeDetachedView(child:View, animate:boolean):void  {
+        const vh = RecyclerView.getChildViewHolderInt(child);
+        if (vh != null) {
+            if (vh.isTmpDetached()) {
+                vh.clearTmpDetachFlag();
+            } else if (!vh.shouldIgnore()) {
+                throw Error("Called removeDetachedView with a view which" + " is not flagged as tmp detached." + vh);
+            }
+        }
+        this.dispatchChildDetached(child);
+        super.removeDetachedView(child, animate);
+    }
+
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void  {
+        this.eatRequestLayout();
+        this.dispatchLayout();
+        this.resumeRequestLayout(false);
+        this.mFirstLayoutComplete = true;
+    }
+
+    requestLayout():void  {
+        if (!this.mEatRequestLayout && !this.mLayoutFrozen) {
+            super.requestLayout();
+        } else {
+            this.mLayoutRequestEaten = true;
+        }
+    }
+
+    markItemDecorInsetsDirty():void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const child = this.mChildHelper.getUnfilteredChildAt(i);
+            (<RecyclerView.LayoutParams>child.getLayoutParams()).mInsetsDirty = true;
+        }
+        this.mRecycler.markItemDecorInsetsDirty();
+    }
+
+    draw(c:Canvas):void  {
+        super.draw(c);
+        const count = this.mItemDecorations.size();
+        for (let i = 0; i < count; i++) {
+            this.mItemDecorations.get(i).onDrawOver(c, this, this.mState);
+        }
+    }
+
+    protected onDraw(c:Canvas):void  {
+        super.onDraw(c);
+        const count = this.mItemDecorations.size();
+        for (let i = 0; i < count; i++) {
+            this.mItemDecorations.get(i).onDraw(c, this, this.mState);
+        }
+    }
+
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean  {
+        return (p instanceof RecyclerView.LayoutParams) && this.mLayout.checkLayoutParams(<RecyclerView.LayoutParams>p);
+    }
+
+    protected generateDefaultLayoutParams():ViewGroup.LayoutParams  {
+        if (this.mLayout == null) {
+            throw Error("RecyclerView has no LayoutManager");
+        }
+        return this.mLayout.generateDefaultLayoutParams();
+    }
+
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):ViewGroup.LayoutParams  {
+        if (this.mLayout == null) {
+            throw Error("RecyclerView has no LayoutManager");
+        }
+        return this.mLayout.generateLayoutParams(p);
+    }
+
+    /**
+     * Returns true if RecyclerView is currently running some animations.
+     * <p>
+     * If you want to be notified when animations are finished, use
+     * {@link ItemAnimator#isRunningWithListener(ItemAnimator.ItemAnimatorFinishedListener)}.
+     *
+     * @return True if there are some item animations currently running or waiting to be started.
+     */
+    isAnimating():boolean  {
+        return this.mItemAnimator != null && this.mItemAnimator.isRunning();
+    }
+
+    saveOldPositions():void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (!holder.shouldIgnore()) {
+                holder.saveOldPosition();
+            }
+        }
+    }
+
+    clearOldPositions():void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (!holder.shouldIgnore()) {
+                holder.clearOldPosition();
+            }
+        }
+        this.mRecycler.clearOldPositions();
+    }
+
+    offsetPositionRecordsForMove(from:number, to:number):void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        let start:number, end:number, inBetweenOffset:number;
+        if (from < to) {
+            start = from;
+            end = to;
+            inBetweenOffset = -1;
+        } else {
+            start = to;
+            end = from;
+            inBetweenOffset = 1;
+        }
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder == null || holder.mPosition < start || holder.mPosition > end) {
+                continue;
+            }
+            if (holder.mPosition == from) {
+                holder.offsetPosition(to - from, false);
+            } else {
+                holder.offsetPosition(inBetweenOffset, false);
+            }
+            this.mState.mStructureChanged = true;
+        }
+        this.mRecycler.offsetPositionRecordsForMove(from, to);
+        this.requestLayout();
+    }
+
+    offsetPositionRecordsForInsert(positionStart:number, itemCount:number):void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.shouldIgnore() && holder.mPosition >= positionStart) {
+                if (RecyclerView.DEBUG) {
+                    Log.d(RecyclerView.TAG, "offsetPositionRecordsForInsert attached child " + i + " holder " + holder + " now at position " + (holder.mPosition + itemCount));
+                }
+                holder.offsetPosition(itemCount, false);
+                this.mState.mStructureChanged = true;
+            }
+        }
+        this.mRecycler.offsetPositionRecordsForInsert(positionStart, itemCount);
+        this.requestLayout();
+    }
+
+    offsetPositionRecordsForRemove(positionStart:number, itemCount:number, applyToPreLayout:boolean):void  {
+        const positionEnd = positionStart + itemCount;
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.shouldIgnore()) {
+                if (holder.mPosition >= positionEnd) {
+                    if (RecyclerView.DEBUG) {
+                        Log.d(RecyclerView.TAG, "offsetPositionRecordsForRemove attached child " + i + " holder " + holder + " now at position " + (holder.mPosition - itemCount));
+                    }
+                    holder.offsetPosition(-itemCount, applyToPreLayout);
+                    this.mState.mStructureChanged = true;
+                } else if (holder.mPosition >= positionStart) {
+                    if (RecyclerView.DEBUG) {
+                        Log.d(RecyclerView.TAG, "offsetPositionRecordsForRemove attached child " + i + " holder " + holder + " now REMOVED");
+                    }
+                    holder.flagRemovedAndOffsetPosition(positionStart - 1, -itemCount, applyToPreLayout);
+                    this.mState.mStructureChanged = true;
+                }
+            }
+        }
+        this.mRecycler.offsetPositionRecordsForRemove(positionStart, itemCount, applyToPreLayout);
+        this.requestLayout();
+    }
+
+    /**
+     * Rebind existing views for the given range, or create as needed.
+     *
+     * @param positionStart Adapter position to start at
+     * @param itemCount Number of views that must explicitly be rebound
+     * @param changed Whether the holders should be flagged for a change animation
+     */
+    viewRangeUpdate(positionStart:number, itemCount:number, changed:boolean):void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        const positionEnd = positionStart + itemCount;
+        for (let i = 0; i < childCount; i++) {
+            const child = this.mChildHelper.getUnfilteredChildAt(i);
+            const holder = RecyclerView.getChildViewHolderInt(child);
+            if (holder == null || holder.shouldIgnore()) {
+                continue;
+            }
+            if (holder.mPosition >= positionStart && holder.mPosition < positionEnd) {
+                // We re-bind these view holders after pre-processing is complete so that
+                // ViewHolders have their final positions assigned.
+                holder.addFlags(RecyclerView.ViewHolder.FLAG_UPDATE);
+                if (changed) {
+                    holder.addFlags(RecyclerView.ViewHolder.FLAG_CHANGED);
+                }
+                // lp cannot be null since we get ViewHolder from it.
+                (<RecyclerView.LayoutParams>child.getLayoutParams()).mInsetsDirty = true;
+            }
+        }
+        this.mRecycler.viewRangeUpdate(positionStart, itemCount);
+    }
+
+    setDataSetChangedAfterLayout():void  {
+        if (this.mDataSetHasChangedAfterLayout) {
+            return;
+        }
+        this.mDataSetHasChangedAfterLayout = true;
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.shouldIgnore()) {
+                holder.addFlags(RecyclerView.ViewHolder.FLAG_ADAPTER_POSITION_UNKNOWN);
+            }
+        }
+        this.mRecycler.setAdapterPositionsAsUnknown();
+    }
+
+    /**
+     * Mark all known views as invalid. Used in response to a, "the whole world might have changed"
+     * data change event.
+     */
+    markKnownViewsInvalid():void  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.shouldIgnore()) {
+                holder.addFlags(RecyclerView.ViewHolder.FLAG_UPDATE | RecyclerView.ViewHolder.FLAG_INVALID);
+            }
+        }
+        this.markItemDecorInsetsDirty();
+        this.mRecycler.markKnownViewsInvalid();
+    }
+
+    /**
+     * Invalidates all ItemDecorations. If RecyclerView has item decorations, calling this method
+     * will trigger a {@link #requestLayout()} call.
+     */
+    invalidateItemDecorations():void  {
+        if (this.mItemDecorations.size() == 0) {
+            return;
+        }
+        if (this.mLayout != null) {
+            this.mLayout.assertNotInLayoutOrScroll("Cannot invalidate item decorations during a scroll" + " or layout");
+        }
+        this.markItemDecorInsetsDirty();
+        this.requestLayout();
+    }
+
+    /**
+     * Retrieve the {@link ViewHolder} for the given child view.
+     *
+     * @param child Child of this RecyclerView to query for its ViewHolder
+     * @return The child view's ViewHolder
+     */
+    getChildViewHolder(child:View):RecyclerView.ViewHolder  {
+        const parent = child.getParent();
+        if (parent != null && parent != this) {
+            throw Error("View " + child + " is not a direct child of " + this);
+        }
+        return RecyclerView.getChildViewHolderInt(child);
+    }
+
+    static getChildViewHolderInt(child:View):RecyclerView.ViewHolder  {
+        if (child == null) {
+            return null;
+        }
+        const lp = <RecyclerView.LayoutParams>child.getLayoutParams();
+        return lp instanceof RecyclerView.LayoutParams ? lp.mViewHolder : null;
+    }
+
+    /**
+     * @deprecated use {@link #getChildAdapterPosition(View)} or
+     * {@link #getChildLayoutPosition(View)}.
+     */
+    getChildPosition(child:View):number  {
+        return this.getChildAdapterPosition(child);
+    }
+
+    /**
+     * Return the adapter position that the given child view corresponds to.
+     *
+     * @param child Child View to query
+     * @return Adapter position corresponding to the given view or {@link #NO_POSITION}
+     */
+    getChildAdapterPosition(child:View):number  {
+        const holder = RecyclerView.getChildViewHolderInt(child);
+        return holder != null ? holder.getAdapterPosition() : RecyclerView.NO_POSITION;
+    }
+
+    /**
+     * Return the adapter position of the given child view as of the latest completed layout pass.
+     *
+     * @param child Child View to query
+     * @return Adapter position of the given View as of last layout pass or {@link #NO_POSITION} if
+     * the View is representing a removed item.
+     */
+    getChildLayoutPosition(child:View):number  {
+        const holder = RecyclerView.getChildViewHolderInt(child);
+        return holder != null ? holder.getLayoutPosition() : RecyclerView.NO_POSITION;
+    }
+
+    /**
+     * Return the stable item id that the given child view corresponds to.
+     *
+     * @param child Child View to query
+     * @return Item id corresponding to the given view or {@link #NO_ID}
+     */
+    getChildItemId(child:View):number  {
+        if (this.mAdapter == null || !this.mAdapter.hasStableIds()) {
+            return RecyclerView.NO_ID;
+        }
+        const holder = RecyclerView.getChildViewHolderInt(child);
+        return holder != null ? holder.getItemId() : RecyclerView.NO_ID;
+    }
+
+    /**
+     * @deprecated use {@link #findViewHolderForLayoutPosition(int)} or
+     * {@link #findViewHolderForAdapterPosition(int)}
+     */
+    findViewHolderForPosition(position:number):RecyclerView.ViewHolder  {
+        return this.findViewHolderForPositionInt(position, false);
+    }
+
+    /**
+     * Return the ViewHolder for the item in the given position of the data set as of the latest
+     * layout pass.
+     *
+     * @param position The position of the item in the data set of the adapter
+     * @return The ViewHolder at <code>position</code> or null if there is no such item
+     */
+    findViewHolderForLayoutPosition(position:number):RecyclerView.ViewHolder  {
+        return this.findViewHolderForPositionInt(position, false);
+    }
+
+    /**
+     * Return the ViewHolder for the item in the given position of the data set. Unlike
+     * {@link #findViewHolderForLayoutPosition(int)} this method takes into account any pending
+     * adapter changes that may not be reflected to the layout yet.
+     *
+     * @param position The position of the item in the data set of the adapter
+     * @return The ViewHolder at <code>position</code> or null if there is no such item
+     */
+    findViewHolderForAdapterPosition(position:number):RecyclerView.ViewHolder  {
+        if (this.mDataSetHasChangedAfterLayout) {
+            return null;
+        }
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.isRemoved() && this.getAdapterPositionFor(holder) == position) {
+                return holder;
+            }
+        }
+        return null;
+    }
+
+    findViewHolderForPositionInt(position:number, checkNewPosition:boolean):RecyclerView.ViewHolder  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && !holder.isRemoved()) {
+                if (checkNewPosition) {
+                    if (holder.mPosition == position) {
+                        return holder;
+                    }
+                } else if (holder.getLayoutPosition() == position) {
+                    return holder;
+                }
+            }
+        }
+        // This method should not query cached views. It creates a problem during adapter updates
+        // when we are dealing with already laid out views. Also, for the public method, it is more
+        // reasonable to return null if position is not laid out.
+        return null;
+    }
+
+    /**
+     * Return the ViewHolder for the item with the given id. The RecyclerView must
+     * use an Adapter with {@link Adapter#setHasStableIds(boolean) stableIds} to
+     * return a non-null value.
+     *
+     * @param id The id for the requested item
+     * @return The ViewHolder with the given <code>id</code> or null if there is no such item
+     */
+    findViewHolderForItemId(id:number):RecyclerView.ViewHolder  {
+        const childCount = this.mChildHelper.getUnfilteredChildCount();
+        for (let i = 0; i < childCount; i++) {
+            const holder = RecyclerView.getChildViewHolderInt(this.mChildHelper.getUnfilteredChildAt(i));
+            if (holder != null && holder.getItemId() == id) {
+                return holder;
+            }
+        }
+        // this method should not query cached views. They are not children so they
+        // should not be returned in this public method
+        return null;
+    }
+
+    /**
+     * Find the topmost view under the given point.
+     *
+     * @param x Horizontal position in pixels to search
+     * @param y Vertical position in pixels to search
+     * @return The child view under (x, y) or null if no matching child is found
+     */
+    findChildViewUnder(x:number, y:number):View  {
+        const count = this.mChildHelper.getChildCount();
+        for (let i = count - 1; i >= 0; i--) {
+            const child = this.mChildHelper.getChildAt(i);
+            const translationX = child.getTranslationX();
+            const translationY = child.getTranslationY();
+            if (x >= child.getLeft() + translationX && x <= child.getRight() + translationX
+                    && y >= child.getTop() + translationY && y <= child.getBottom() + translationY) {
+                return child;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Offset the bounds of all child views by <code>dy</code> pixels.
+     * Useful for implementing simple scrolling in {@link LayoutManager LayoutManagers}.
+     *
+     * @param dy Vertical pixel offset to apply to the bounds of all child views
+     */
+    offsetChildrenVertical(dy:number):void  {
+        const childCount = this.mChildHelper.getChildCount();
+        for (let i = 0; i < childCount; i++) {
+            this.mChildHelper.getChildAt(i).offsetTopAndBottom(dy);
+        }
+    }
+
+    /**
+     * Offset the bounds of all child views by <code>dx</code> pixels.
+     * Useful for implementing simple scrolling in {@link LayoutManager LayoutManagers}.
+     *
+     * @param dx Horizontal pixel offset to apply to the bounds of all child views
+     */
+    offsetChildrenHorizontal(dx:number):void  {
+        const childCount = this.mChildHelper.getChildCount();
+        for (let i = 0; i < childCount; i++) {
+            this.mChildHelper.getChildAt(i).offsetLeftAndRight(dx);
+        }
+    }
+
+    /**
+     * Called when an item view is attached to this RecyclerView.
+     *
+     * <p>Subclasses of RecyclerView may want to perform extra bookkeeping or modifications
+     * of child views as they become attached. This will be called before a
+     * {@link LayoutManager} measures or lays out the view and is a good time to perform these
+     * changes.</p>
+     *
+     * @param child Child view that is now attached to this RecyclerView and its associated window
+     */
+    onChildAttachedToWindow(child:View):void  {
+    }
+
+    /**
+     * Called when an item view is detached from this RecyclerView.
+     *
+     * @param child Child view that is now detached from this RecyclerView and its associated window
+     */
+    onChildDetachedFromWindow(child:View):void  {
+    }
+
+    private dispatchChildDetached(child:View):void  {
+        const viewHolder = RecyclerView.getChildViewHolderInt(child);
+        this.onChildDetachedFromWindow(child);
+        if (this.mAdapter != null && viewHolder != null) {
+            this.mAdapter.onViewDetachedFromWindow(viewHolder);
+        }
+    }
+
+    private dispatchChildAttached(child:View):void  {
+        const viewHolder = RecyclerView.getChildViewHolderInt(child);
+        this.onChildAttachedToWindow(child);
+        if (this.mAdapter != null && viewHolder != null) {
+            this.mAdapter.onViewAttachedToWindow(viewHolder);
+        }
+        if (this.mLayout != null && this.mLayout.mSmoothScroller != null) {
+            this.mLayout.mSmoothScroller.onChildAttachedToWindow(child);
+        }
+    }
+
+    getItemDecorInsetsForChild(child:View):Rect  {
+        const lp = <RecyclerView.LayoutParams>child.getLayoutParams();
+        if (!lp.mInsetsDirty) {
+            return lp.mDecorInsets;
+        }
+        const insets = lp.mDecorInsets;
+        insets.set(0, 0, 0, 0);
+        const decorCount = this.mItemDecorations.size();
+        for (let i = 0; i < decorCount; i++) {
+            this.mTempRect.set(0, 0, 0, 0);
+            this.mItemDecorations.get(i).getItemOffsets(this.mTempRect, child, this, this.mState);
+            insets.left += this.mTempRect.left;
+            insets.top += this.mTempRect.top;
+            insets.right += this.mTempRect.right;
+            insets.bottom += this.mTempRect.bottom;
+        }
+        lp.mInsetsDirty = false;
+        return insets;
+    }
+
+    requestChildFocus(child:View, focused:View):void  {
+        if (!this.mLayout.onRequestChildFocus(this, this.mState, child, focused) && focused != null) {
+            this.mTempRect.set(0, 0, focused.getWidth(), focused.getHeight());
+            this.offsetDescendantRectToMyCoords(focused, this.mTempRect);
+            this.offsetRectIntoDescendantCoords(child, this.mTempRect);
+            this.requestChildRectangleOnScreen(child, this.mTempRect, !this.mFirstLayoutComplete);
+        }
+        super.requestChildFocus(child, focused);
+    }
+
+    requestChildRectangleOnScreen(child:View, rect:Rect, immediate:boolean):boolean  {
+        return this.mLayout.requestChildRectangleOnScreen(this, child, rect, immediate);
+    }
+}
+
+export module RecyclerView{
+
+export class ViewFlinger implements Runnable {
+
+    private mRecyclerView:RecyclerView;
+
+    private mLastFlingX:number = 0;
+
+    private mLastFlingY:number = 0;
+
+    private mScroller:OverScroller;
+
+    private mInterpolator:Interpolator = RecyclerView.sQuinticInterpolator;
+
+    // When set to true, postOnAnimation callbacks are delayed until the run method completes
+    private mEatRunOnAnimationRequest:boolean = false;
+
+    // Tracks if postAnimationCallback should be re-run after current run finishes.
+    private mReSchedulePostAnimationCallback:boolean = false;
+
+    constructor(recyclerView:RecyclerView) {
+        this.mRecyclerView = recyclerView;
+        this.mScroller = new OverScroller(RecyclerView.sQuinticInterpolator);
+    }
+
+    run():void  {
+        const rv = this.mRecyclerView;
+        this.disableRunOnAnimationRequests();
+        rv.consumePendingUpdateOperations();
+        // keep a local reference so that if it is changed during onAnimation method, it won't
+        // cause unexpected behaviors
+        const scroller = this.mScroller;
+        const smoothScroller = rv.mLayout.mSmoothScroller;
+        if (scroller.computeScrollOffset()) {
+            const x = scroller.getCurrX();
+            const y = scroller.getCurrY();
+            const dx = x - this.mLastFlingX;
+            const dy = y - this.mLastFlingY;
+            let hresult = 0;
+            let vresult = 0;
+            this.mLastFlingX = x;
+            this.mLastFlingY = y;
+            if (rv.mAdapter != null) {
+                rv.eatRequestLayout();
+                if (dx != 0) {
+                    hresult = rv.mLayout.scrollHorizontallyBy(dx, rv.mRecycler, rv.mState);
+                }
+                if (dy != 0) {
+                    vresult = rv.mLayout.scrollVerticallyBy(dy, rv.mRecycler, rv.mState);
+                }
+                if (smoothScroller != null && !smoothScroller.isPendingInitialRun() && smoothScroller.isRunning()) {
+                    const adapterSize = rv.mState.getItemCount();
+                    if (adapterSize == 0) {
+                        smoothScroller.stop();
+                    } else if (smoothScroller.getTargetPosition() >= adapterSize) {
+                        smoothScroller.setTargetPosition(adapterSize - 1);
+                        smoothScroller.onAnimation(dx - hresult, dy - vresult);
+                    } else {
+                        smoothScroller.onAnimation(dx - hresult, dy - vresult);
+                    }
+                }
+                rv.resumeRequestLayout(false);
+            }
+            if (!rv.mItemDecorations.isEmpty()) {
+                rv.invalidate();
+            }
+            if (hresult != 0 || vresult != 0) {
+                rv.dispatchOnScrolled(hresult, vresult);
+            }
+            if (!rv.awakenScrollBars()) {
+                rv.invalidate();
+            }
+            const fullyConsumedVertical = dy != 0 && rv.mLayout.canScrollVertically() && vresult == dy;
+            const fullyConsumedHorizontal = dx != 0 && rv.mLayout.canScrollHorizontally() && hresult == dx;
+            const fullyConsumedAny = (dx == 0 && dy == 0) || fullyConsumedHorizontal || fullyConsumedVertical;
+            if (scroller.isFinished() || !fullyConsumedAny) {
+                // setting state to idle will stop this.
+                rv.setScrollState(RecyclerView.SCROLL_STATE_IDLE);
+            } else {
+                this.postOnAnimation();
+            }
+        }
+        // call this after the onAnimation is complete not to have inconsistent callbacks etc.
+        if (smoothScroller != null && smoothScroller.isPendingInitialRun()) {
+            smoothScroller.onAnimation(0, 0);
+        }
+        this.enableRunOnAnimationRequests();
+    }
+
+    private disableRunOnAnimationRequests():void  {
+        this.mReSchedulePostAnimationCallback = false;
+        this.mEatRunOnAnimationRequest = true;
+    }
+
+    private enableRunOnAnimationRequests():void  {
+        this.mEatRunOnAnimationRequest = false;
+        if (this.mReSchedulePostAnimationCallback) {
+            this.postOnAnimation();
+        }
+    }
+
+    postOnAnimation():void  {
+        if (this.mEatRunOnAnimationRequest) {
+            this.mReSchedulePostAnimationCallback = true;
+        } else {
+            this.mRecyclerView.removeCallbacks(this);
+            this.mRecyclerView.postOnAnimation(this);
+        }
+    }
+
+    fling(velocityX:number, velocityY:number):void  {
+        this.mRecyclerView.setScrollState(RecyclerView.SCROLL_STATE_SETTLING);
+        this.mLastFlingX = this.mLastFlingY = 0;
+        this.mScroller.fling(0, 0, velocityX, velocityY, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER,
+            Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+        this.postOnAnimation();
+    }
+
+    smoothScrollBy(dx:number, dy:number, duration?:number, interpolator:Interpolator = RecyclerView.sQuinticInterpolator):void  {
+        if (duration == null) {
+            duration = this.computeScrollDuration(dx, dy, 0, 0);
+        }
+        if (this.mInterpolator != interpolator) {
+            this.mInterpolator = interpolator;
+            this.mScroller = new OverScroller(interpolator);
+        }
+        this.mRecyclerView.setScrollState(RecyclerView.SCROLL_STATE_SETTLING);
+        this.mLastFlingX = this.mLastFlingY = 0;
+        this.mScroller.startScroll(0, 0, dx, dy, duration);
+        this.postOnAnimation();
+    }
+
+    private distanceInfluenceForSnapDuration(f:number):number  {
+        f -= 0.5;
+        // center the values about 0.
+        f *= 0.3 * Math.PI / 2.0;
+        return Math.sin(f);
+    }
+
+    private computeScrollDuration(dx:number, dy:number, vx:number, vy:number):number  {
+        const absDx = Math.abs(dx);
+        const absDy = Math.abs(dy);
+        const horizontal = absDx > absDy;
+        const velocity = Math.sqrt(vx * vx + vy * vy);
+        const delta = Math.sqrt(dx * dx + dy * dy);
+        const containerSize = horizontal ? this.mRecyclerView.getWidth() : this.mRecyclerView.getHeight();
+        const halfContainerSize = containerSize / 2;
+        const distanceRatio = Math.min(1, delta / containerSize);
+        const distance = halfContainerSize + halfContainerSize * this.distanceInfluenceForSnapDuration(distanceRatio);
+        let duration:number;
+        if (velocity > 0) {
+            duration = 4 * Math.round(1000 * Math.abs(distance / velocity));
+        } else {
+            const absDelta = horizontal ? absDx : absDy;
+            duration = Math.floor(((absDelta / containerSize) + 1) * 300);
+        }
+        return Math.min(duration, RecyclerView.MAX_SCROLL_DURATION);
+    }
+
+    stop():void  {
+        this.mRecyclerView.removeCallbacks(this);
+        this.mScroller.abortAnimation();
+    }
+}
+
+/**
+ * RecycledViewPool lets you share Views between multiple RecyclerViews.
+ * <p>
+ * If you want to recycle views across RecyclerViews, create an instance of RecycledViewPool
+ * and use {@link RecyclerView#setRecycledViewPool(RecycledViewPool)}.
+ * <p>
+ * RecyclerView automatically creates a pool for itself if you don't provide one.
+ */
+export class RecycledViewPool {
+
+    private mScrap:SparseArray<ArrayList<ViewHolder>> = new SparseArray<ArrayList<ViewHolder>>();
+
+    private mMaxScrap:SparseArray<number> = new SparseArray<number>();
+
+    private mAttachCount:number = 0;
+
+    private static DEFAULT_MAX_SCRAP:number = 5;
+
+    clear():void  {
+        this.mScrap.clear();
+    }
+
+    setMaxRecycledViews(viewType:number, max:number):void  {
+        this.mMaxScrap.put(viewType, max);
+        const scrapHeap = this.mScrap.get(viewType);
+        if (scrapHeap != null) {
+            while (scrapHeap.size() > max) {
+                scrapHeap.remove(scrapHeap.size() - 1);
+            }
+        }
+    }
+
+    getRecycledView(viewType:number):ViewHolder  {
+        const scrapHeap = this.mScrap.get(viewType);
+        if (scrapHeap != null && !scrapHeap.isEmpty()) {
+            const index = scrapHeap.size() - 1;
+            const scrap = scrapHeap.get(index);
+            scrapHeap.remove(index);
+            return scrap;
+        }
+        return null;
+    }
+
+    size():number  {
+        let count = 0;
+        for (let i = 0; i < this.mScrap.size(); i++) {
+            const viewHolders = this.mScrap.valueAt(i);
+            if (viewHolders != null) {
+                count += viewHolders.size();
+            }
+        }
+        return count;
+    }
+
+    putRecycledView(scrap:ViewHolder):void  {
+        const viewType = scrap.getItemViewType();
+        const scrapHeap = this.getScrapHeapForType(viewType);
+        if (this.mMaxScrap.get(viewType) <= scrapHeap.size()) {
+            return;
+        }
+        if (RecyclerView.DEBUG && scrapHeap.contains(scrap)) {
+            throw Error("this scrap item already exists");
+        }
+        scrap.resetInternal();
+        scrapHeap.add(scrap);
+    }
+
+    /**
+     * Takes the holder back out of the pool; used when a recycled view is kept around to run
+     * its disappearing animation.
+     */
+    remove(scrap:ViewHolder):boolean  {
+        const scrapHeap = this.mScrap.get(scrap.getItemViewType());
+        return scrapHeap != null && scrapHeap.remove(scrap) != null;
+    }
+
+    attach(adapter:Adapter<any>):void  {
+        this.mAttachCount++;
+    }
+
+    detach():void  {
+        this.mAttachCount--;
+    }
+
+    /**
+     * Detaches the old adapter and attaches the new one.
+     * <p>
+     * RecycledViewPool will clear its cache if it has only one adapter attached and the new
+     * adapter uses a different ViewHolder than the oldAdapter.
+     *
+     * @param oldAdapter The previous adapter instance. Will be detached.
+     * @param newAdapter The new adapter instance. Will be attached.
+     * @param compatibleWithPrevious True if both oldAdapter and newAdapter are using the same
+     *                               ViewHolder and view types.
+     */
+    onAdapterChanged(oldAdapter:Adapter<any>, newAdapter:Adapter<any>, compatibleWithPrevious:boolean):void  {
+        if (oldAdapter != null) {
+            this.detach();
+        }
+        if (!compatibleWithPrevious && this.mAttachCount == 0) {
+            this.clear();
+        }
+        if (newAdapter != null) {
+            this.attach(newAdapter);
+        }
+    }
+
+    private getScrapHeapForType(viewType:number):ArrayList<ViewHolder>  {
+        let scrap = this.mScrap.get(viewType);
+        if (scrap == null) {
+            scrap = new ArrayList<ViewHolder>();
+            this.mScrap.put(viewType, scrap);
+            if (this.mMaxScrap.indexOfKey(viewType) < 0) {
+                this.mMaxScrap.put(viewType, RecycledViewPool.DEFAULT_MAX_SCRAP);
+            }
+        }
+        return scrap;
+    }
+}
+
+/**
+ * A Recycler is responsible for managing scrapped or detached item views for reuse.
+ *
+ * <p>A "scrapped" view is a view that is still attached to its parent RecyclerView but
+ * that has been marked for removal or reuse.</p>
+ *
+ * <p>Typical use of a Recycler by a {@link LayoutManager} will be to obtain views for
+ * an adapter's data set representing the data at a given position or item ID.
+ * If the view to be reused is considered "dirty" the adapter will be asked to rebind it.
+ * If not, the view can be quickly reused by the LayoutManager with no further work.
+ * Clean views that have not {@link android.view.View#isLayoutRequested() requested layout}
+ * may be repositioned by a LayoutManager without remeasurement.</p>
+ */
+export class Recycler {
+
+    mAttachedScrap:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    mCachedViews:ArrayList<ViewHolder> = new ArrayList<ViewHolder>();
+
+    private mViewCacheMax:number = Recycler.DEFAULT_CACHE_SIZE;
+
+    private mRecyclerPool:RecycledViewPool;
+
+    static DEFAULT_CACHE_SIZE:number = 2;
+
+    private mRecyclerView:RecyclerView;
+
+    constructor(recyclerView:RecyclerView) {
+        this.mRecyclerView = recyclerView;
+    }
+
+    /**
+     * Clear scrap views out of this recycler. Detached views contained within a
+     * recycled view pool will remain.
+     */
+    clear():void  {
+        this.mAttachedScrap.clear();
+        this.recycleAndClearCachedViews();
+    }
+
+    /**
+     * Set the maximum number of detached, valid views we should retain for later use.
+     *
+     * @param viewCount Number of views to keep before sending views to the shared pool
+     */
+    setViewCacheSize(viewCount:number):void  {
+        this.mViewCacheMax = viewCount;
+        // first, try the views that can be recycled
+        for (let i = this.mCachedViews.size() - 1; i >= 0 && this.mCachedViews.size() > viewCount; i--) {
+            this.recycleCachedViewAt(i);
+        }
+    }
+
+    /**
+     * Returns the list of scrapped views currently attached to the RecyclerView.
+     *
+     * @return List of ViewHolders in the scrap list.
+     */
+    getScrapList():ArrayList<ViewHolder>  {
+        return this.mAttachedScrap;
+    }
+
+    /**
+     * Helper method for getViewForPosition.
+     * <p>
+     * Checks whether a given view holder can be used for the provided position.
+     *
+     * @param holder ViewHolder
+     * @return true if ViewHolder matches the provided position, false otherwise
+     */
+    validateViewHolderForOffsetPosition(holder:ViewHolder):boolean  {
+        // if it is a removed holder, nothing to verify since we cannot ask adapter anymore
+        // if it is not removed, verify the type and id.
+        if (holder.isRemoved()) {
+            return false;
+        }
+        const adapter = this.mRecyclerView.mAdapter;
+        if (holder.mPosition < 0 || holder.mPosition >= adapter.getItemCount()) {
+            throw Error("Inconsistency detected. Invalid view holder adapter" + "position" + holder);
+        }
+        const type = adapter.getItemViewType(holder.mPosition);
+        if (type != holder.getItemViewType()) {
+            return false;
+        }
+        if (adapter.hasStableIds()) {
+            return holder.getItemId() == adapter.getItemId(holder.mPosition);
+        }
+        return true;
+    }
+
+    /**
+     * Binds the given View to the position. The View can be a View previously retrieved via
+     * {@link #getViewForPosition(int)} or created by
+     * {@link Adapter#onCreateViewHolder(ViewGroup, int)}.
+     *
+     * @param view The view to update.
+     * @param position The position of the item to bind to.
+     */
+    bindViewToPosition(view:View, position:number):void  {
+        const holder = RecyclerView.getChildViewHolderInt(view);
+        if (holder == null) {
+            throw Error("The view does not have a ViewHolder. You cannot pass arbitrary views to this method, they should be created by the Adapter");
+        }
+        if (position < 0 || position >= this.mRecyclerView.mAdapter.getItemCount()) {
+            throw Error("Inconsistency detected. Invalid item position " + position + "(offset:" + position + ")." + "state:" + this.mRecyclerView.mState.getItemCount());
+        }
+        holder.mOwnerRecyclerView = this.mRecyclerView;
+        this.mRecyclerView.mAdapter.bindViewHolder(holder, position);
+        this.ensureLayoutParams(holder);
+    }
+
+    /**
+     * RecyclerView provides artificial position range (item count) in pre-layout state and
+     * automatically maps these positions to {@link Adapter} positions when
+     * {@link #getViewForPosition(int)} or {@link #bindViewToPosition(View, int)} is called.
+     * <p>
+     * No pre-layout pass runs in this implementation, so the position is returned as is.
+     */
+    convertPreLayoutPositionToPostLayout(position:number):number  {
+        if (position < 0 || position >= this.mRecyclerView.mState.getItemCount()) {
+            throw Error("invalid position " + position + ". State " + "item count is " + this.mRecyclerView.mState.getItemCount());
+        }
+        return position;
+    }
+
+    /**
+     * Obtain a view initialized for the given position.
+     *
+     * This method should be used by {@link LayoutManager} implementations to obtain
+     * views to represent data from an {@link Adapter}.
+     * <p>
+     * The Recycler may reuse a scrap or detached view from a shared pool if one is
+     * available for the correct view type. If the adapter has not indicated that the
+     * data at the given position has changed, the Recycler will attempt to hand back
+     * a scrap view that was previously initialized for that data without rebinding.
+     *
+     * @param position Position to obtain a view for
+     * @param dryRun  True if the returned view should not be removed from the scrap or cache
+     * @return A view representing the data at <code>position</code> from <code>adapter</code>
+     */
+    getViewForPosition(position:number, dryRun = false):View  {
+        const rv = this.mRecyclerView;
+        if (position < 0 || position >= rv.mState.getItemCount()) {
+            throw Error("Invalid item position " + position + "(" + position + "). Item count:" + rv.mState.getItemCount());
+        }
+        let fromScrap = false;
+        let holder:ViewHolder = null;
+        // 1) Find from scrap by position
+        holder = this.getScrapViewForPosition(position, RecyclerView.INVALID_TYPE, dryRun);
+        if (holder != null) {
+            if (!this.validateViewHolderForOffsetPosition(holder)) {
+                // recycle this scrap
+                if (!dryRun) {
+                    // we would like to recycle this but need to make sure it is not used by
+                    // animation logic etc.
+                    holder.addFlags(ViewHolder.FLAG_INVALID);
+                    if (holder.isScrap()) {
+                        rv.removeDetachedView(holder.itemView, false);
+                        holder.unScrap();
+                    } else if (holder.wasReturnedFromScrap()) {
+                        holder.clearReturnedFromScrapFlag();
+                    }
+                    this.recycleViewHolderInternal(holder);
+                }
+                holder = null;
+            } else {
+                fromScrap = true;
+            }
+        }
+        if (holder == null) {
+            const type = rv.mAdapter.getItemViewType(position);
+            // 2) Find from scrap via stable ids, if exists
+            if (rv.mAdapter.hasStableIds()) {
+                holder = this.getScrapViewForId(rv.mAdapter.getItemId(position), type, dryRun);
+                if (holder != null) {
+                    // update position
+                    holder.mPosition = position;
+                    fromScrap = true;
+                }
+            }
+            if (holder == null) {
+                // fallback to recycler
+                holder = this.getRecycledViewPool().getRecycledView(type);
+            }
+            if (holder == null) {
+                holder = rv.mAdapter.createViewHolder(rv, type);
+                if (RecyclerView.DEBUG) {
+                    Log.d(RecyclerView.TAG, "getViewForPosition created new ViewHolder");
+                }
+            }
+        }
+        let bound = false;
+        if (!holder.isBound() || holder.needsUpdate() || holder.isInvalid()) {
+            holder.mOwnerRecyclerView = rv;
+            rv.mAdapter.bindViewHolder(holder, position);
+            bound = true;
+        }
+        const rvLayoutParams = this.ensureLayoutParams(holder);
+        rvLayoutParams.mPendingInvalidate = fromScrap && bound;
+        return holder.itemView;
+    }
+
+    private ensureLayoutParams(holder:ViewHolder):LayoutParams  {
+        const lp = holder.itemView.getLayoutParams();
+        let rvLayoutParams:LayoutParams;
+        if (lp == null) {
+            rvLayoutParams = this.mRecyclerView.mLayout.generateDefaultLayoutParams();
+            holder.itemView.setLayoutParams(rvLayoutParams);
+        } else if (!(lp instanceof LayoutParams) || !this.mRecyclerView.mLayout.checkLayoutParams(<LayoutParams>lp)) {
+            rvLayoutParams = this.mRecyclerView.mLayout.generateLayoutParams(lp);
+            holder.itemView.setLayoutParams(rvLayoutParams);
+        } else {
+            rvLayoutParams = <LayoutParams>lp;
+        }
+        rvLayoutParams.mViewHolder = holder;
+        return rvLayoutParams;
+    }
+
+    /**
+     * Recycle a detached view. The specified view will be added to a pool of views
+     * for later rebinding and reuse.
+     *
+     * <p>A view must be fully detached (removed from parent) before it may be recycled. If the
+     * View is scrapped, it will be removed from scrap list.</p>
+     *
+     * @param view Removed view for recycling
+     * @see LayoutManager#removeAndRecycleView(View, Recycler)
+     */
+    recycleView(view:View):void  {
+        // This public recycle method tries to make view recycle-able since layout manager
+        // intended to recycle this view (e.g. even if it is in scrap or change cache)
+        const holder = RecyclerView.getChildViewHolderInt(view);
+        if (holder.isTmpDetached()) {
+            this.mRecyclerView.removeDetachedView(view, false);
+        }
+        if (holder.isScrap()) {
+            holder.unScrap();
+        } else if (holder.wasReturnedFromScrap()) {
+            holder.clearReturnedFromScrapFlag();
+        }
+        this.recycleViewHolderInternal(holder);
+    }
+
+    /**
+     * Internally, use this method instead of {@link #recycleView(android.view.View)} to
+     * catch potential bugs.
+     * @param view
+     */
+    recycleViewInternal(view:View):void  {
+        this.recycleViewHolderInternal(RecyclerView.getChildViewHolderInt(view));
+    }
+
+    recycleAndClearCachedViews():void  {
+        const count = this.mCachedViews.size();
+        for (let i = count - 1; i >= 0; i--) {
+            this.recycleCachedViewAt(i);
+        }
+        this.mCachedViews.clear();
+    }
+
+    /**
+     * Recycles a cached view and removes the view from the list. Views are added to cache
+     * if and only if they are recyclable, so this method does not check it again.
+     *
+     * @param cachedViewIndex The index of the view in cached views list
+     */
+    recycleCachedViewAt(cachedViewIndex:number):void  {
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "Recycling cached view at index " + cachedViewIndex);
+        }
+        const viewHolder = this.mCachedViews.get(cachedViewIndex);
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "CachedViewHolder to be recycled: " + viewHolder);
+        }
+        this.addViewHolderToRecycledViewPool(viewHolder);
+        this.mCachedViews.remove(cachedViewIndex);
+    }
+
+    /**
+     * internal implementation checks if view is scrapped or attached and throws an exception
+     * if so.
+     * Public version un-scraps before calling recycle.
+     */
+    recycleViewHolderInternal(holder:ViewHolder):void  {
+        if (holder.isScrap() || holder.itemView.getParent() != null) {
+            throw Error("Scrapped or attached views may not be recycled. isScrap:" + holder.isScrap() + " isAttached:" + (holder.itemView.getParent() != null));
+        }
+        if (holder.isTmpDetached()) {
+            throw Error("Tmp detached view should be removed " + "from RecyclerView before it can be recycled: " + holder);
+        }
+        if (holder.shouldIgnore()) {
+            throw Error("Trying to recycle an ignored view holder. You should first call" + " stopIgnoringView(view) before calling recycle.");
+        }
+        const transientStatePreventsRecycling = holder.doesTransientStatePreventRecycling();
+        const adapter = this.mRecyclerView.mAdapter;
+        const forceRecycle = adapter != null && transientStatePreventsRecycling && adapter.onFailedToRecycleView(holder);
+        let cached = false;
+        if (forceRecycle || holder.isRecyclable()) {
+            if (!holder.hasAnyOfTheFlags(ViewHolder.FLAG_INVALID | ViewHolder.FLAG_REMOVED | ViewHolder.FLAG_CHANGED
+                    | ViewHolder.FLAG_UPDATE)) {
+                // Retire oldest cached view
+                if (this.mCachedViews.size() == this.mViewCacheMax && this.mCachedViews.size() > 0) {
+                    this.recycleCachedViewAt(0);
+                }
+                if (this.mCachedViews.size() < this.mViewCacheMax) {
+                    this.mCachedViews.add(holder);
+                    cached = true;
+                }
+            }
+            if (!cached) {
+                this.addViewHolderToRecycledViewPool(holder);
+            }
+        } else if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "trying to recycle a non-recycleable holder. Hopefully, it will " + "re-visit here. We are still removing it from animation lists");
+        }
+    }
+
+    addViewHolderToRecycledViewPool(holder:ViewHolder):void  {
+        this.dispatchViewRecycled(holder);
+        holder.mOwnerRecyclerView = null;
+        this.getRecycledViewPool().putRecycledView(holder);
+    }
+
+    /**
+     * Used as a fast path for unscrapping and recycling a view during a bulk operation.
+     * The caller must call {@link #clearScrap()} when it's done to update the recycler's
+     * internal bookkeeping.
+     */
+    quickRecycleScrapView(view:View):void  {
+        const holder = RecyclerView.getChildViewHolderInt(view);
+        holder.mScrapContainer = null;
+        holder.clearReturnedFromScrapFlag();
+        this.recycleViewHolderInternal(holder);
+    }
+
+    /**
+     * Mark an attached view as scrap.
+     *
+     * <p>"Scrap" views are still attached to their parent RecyclerView but are eligible
+     * for rebinding and reuse. Requests for a view for a given position may return a
+     * reused or rebound scrap view instance.</p>
+     *
+     * @param view View to scrap
+     */
+    scrapView(view:View):void  {
+        const holder = RecyclerView.getChildViewHolderInt(view);
+        holder.setScrapContainer(this);
+        this.mAttachedScrap.add(holder);
+    }
+
+    /**
+     * Remove a previously scrapped view from the pool of eligible scrap.
+     *
+     * <p>This view will no longer be eligible for reuse until re-scrapped or
+     * until it is explicitly removed and recycled.</p>
+     */
+    unscrapView(holder:ViewHolder):void  {
+        this.mAttachedScrap.remove(holder);
+        holder.mScrapContainer = null;
+        holder.clearReturnedFromScrapFlag();
+    }
+
+    /**
+     * Takes a recycled holder back out of the view cache or the shared pool, so that it can be
+     * kept as a hidden child while it animates.
+     */
+    removeFromCacheOrPool(holder:ViewHolder):void  {
+        if (this.mCachedViews.remove(holder) == null) {
+            this.getRecycledViewPool().remove(holder);
+        }
+    }
+
+    getScrapCount():number  {
+        return this.mAttachedScrap.size();
+    }
+
+    getScrapViewAt(index:number):View  {
+        return this.mAttachedScrap.get(index).itemView;
+    }
+
+    clearScrap():void  {
+        this.mAttachedScrap.clear();
+    }
+
+    /**
+     * Returns a scrap view for the position. If type is not INVALID_TYPE, it also checks if
+     * ViewHolder's type matches the provided type.
+     *
+     * @param position Item position
+     * @param type View type
+     * @param dryRun  Does a dry run, finds the ViewHolder but does not remove
+     * @return a ViewHolder that can be re-used for this position.
+     */
+    getScrapViewForPosition(position:number, type:number, dryRun:boolean):ViewHolder  {
+        const rv = this.mRecyclerView;
+        const scrapCount = this.mAttachedScrap.size();
+        // Try first for an exact, non-invalid match from scrap.
+        for (let i = 0; i < scrapCount; i++) {
+            const holder = this.mAttachedScrap.get(i);
+            if (!holder.wasReturnedFromScrap() && holder.getLayoutPosition() == position && !holder.isInvalid()
+                    && !holder.isRemoved() && !(holder.isChanged() && rv.mState.mRunSimpleAnimations)) {
+                if (type != RecyclerView.INVALID_TYPE && holder.getItemViewType() != type) {
+                    Log.e(RecyclerView.TAG, "Scrap view for position " + position + " isn't dirty but has" + " wrong view type! (found " + holder.getItemViewType() + " but expected " + type + ")");
+                    break;
+                }
+                if (!dryRun) {
+                    holder.addFlags(ViewHolder.FLAG_RETURNED_FROM_SCRAP);
+                }
+                return holder;
+            }
+        }
+        if (!dryRun) {
+            const view = rv.mChildHelper.findHiddenNonRemovedView(position, type);
+            if (view != null) {
+                // ending the animation should cause it to get recycled before we reuse it
+                rv.mItemAnimator.endAnimation(rv.getChildViewHolder(view));
+            }
+        }
+        // Search in our first-level recycled view cache.
+        const cacheSize = this.mCachedViews.size();
+        for (let i = 0; i < cacheSize; i++) {
+            const holder = this.mCachedViews.get(i);
+            // invalid view holders may be in cache if adapter has stable ids as they can be
+            // retrieved via getScrapViewForId
+            if (!holder.isInvalid() && holder.getLayoutPosition() == position) {
+                if (!dryRun) {
+                    this.mCachedViews.remove(i);
+                }
+                if (RecyclerView.DEBUG) {
+                    Log.d(RecyclerView.TAG, "getScrapViewForPosition(" + position + ", " + type + ") found match in cache: " + holder);
+                }
+                return holder;
+            }
+        }
+        return null;
+    }
+
+    getScrapViewForId(id:number, type:number, dryRun:boolean):ViewHolder  {
+        const rv = this.mRecyclerView;
+        // Look in our attached views first
+        const count = this.mAttachedScrap.size();
+        for (let i = count - 1; i >= 0; i--) {
+            const holder = this.mAttachedScrap.get(i);
+            if (holder.getItemId() == id && !holder.wasReturnedFromScrap()
+                    && !(holder.isChanged() && rv.mState.mRunSimpleAnimations)) {
+                if (type == holder.getItemViewType()) {
+                    holder.addFlags(ViewHolder.FLAG_RETURNED_FROM_SCRAP);
+                    if (holder.isRemoved()) {
+                        // this might be valid in two cases:
+                        // > item is removed but we are in pre-layout pass
+                        // >> do nothing. return as is. make sure we don't rebind
+                        // > item is removed then added to another position and we are in
+                        // post layout.
+                        // >> remove removed and invalid flags, add update flag to rebind
+                        // because item was invisible to us and we don't know what happened in
+                        // between.
+                        holder.setFlags(ViewHolder.FLAG_UPDATE, ViewHolder.FLAG_REMOVED | ViewHolder.FLAG_INVALID | ViewHolder.FLAG_UPDATE);
+                    }
+                    return holder;
+                } else if (!dryRun) {
+                    // Recycle this scrap. Type mismatch.
+                    this.mAttachedScrap.remove(i);
+                    rv.removeDetachedView(holder.itemView, false);
+                    this.quickRecycleScrapView(holder.itemView);
+                }
+            }
+        }
+        // Search the first-level cache
+        const cacheSize = this.mCachedViews.size();
+        for (let i = cacheSize - 1; i >= 0; i--) {
+            const holder = this.mCachedViews.get(i);
+            if (holder.getItemId() == id) {
+                if (type == holder.getItemViewType()) {
+                    if (!dryRun) {
+                        this.mCachedViews.remove(i);
+                    }
+                    return holder;
+                } else if (!dryRun) {
+                    this.recycleCachedViewAt(i);
+                }
+            }
+        }
+        return null;
+    }
+
+    dispatchViewRecycled(holder:ViewHolder):void  {
+        const rv = this.mRecyclerView;
+        if (rv.mRecyclerListener != null) {
+            rv.mRecyclerListener.onViewRecycled(holder);
+        }
+        if (rv.mAdapter != null) {
+            rv.mAdapter.onViewRecycled(holder);
+        }
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "dispatchViewRecycled: " + holder);
+        }
+    }
+
+    onAdapterChanged(oldAdapter:Adapter<any>, newAdapter:Adapter<any>, compatibleWithPrevious:boolean):void  {
+        this.clear();
+        this.getRecycledViewPool().onAdapterChanged(oldAdapter, newAdapter, compatibleWithPrevious);
+    }
+
+    offsetPositionRecordsForMove(from:number, to:number):void  {
+        let start:number, end:number, inBetweenOffset:number;
+        if (from < to) {
+            start = from;
+            end = to;
+            inBetweenOffset = -1;
+        } else {
+            start = to;
+            end = from;
+            inBetweenOffset = 1;
+        }
+        const cachedCount = this.mCachedViews.size();
+        for (let i = 0; i < cachedCount; i++) {
+            const holder = this.mCachedViews.get(i);
+            if (holder == null || holder.mPosition < start || holder.mPosition > end) {
+                continue;
+            }
+            if (holder.mPosition == from) {
+                holder.offsetPosition(to - from, false);
+            } else {
+                holder.offsetPosition(inBetweenOffset, false);
+            }
+        }
+    }
+
+    offsetPositionRecordsForInsert(insertedAt:number, count:number):void  {
+        const cachedCount = this.mCachedViews.size();
+        for (let i = 0; i < cachedCount; i++) {
+            const holder = this.mCachedViews.get(i);
+            if (holder != null && holder.getLayoutPosition() >= insertedAt) {
+                holder.offsetPosition(count, true);
+            }
+        }
+    }
+
+    /**
+     * @param removedFrom Remove start index
+     * @param count Remove count
+     * @param applyToPreLayout If true, changes will affect ViewHolder's pre-layout position, if
+     *                         false, they'll be applied before the second layout pass
+     */
+    offsetPositionRecordsForRemove(removedFrom:number, count:number, applyToPreLayout:boolean):void  {
+        const removedEnd = removedFrom + count;
+        const cachedCount = this.mCachedViews.size();
+        for (let i = cachedCount - 1; i >= 0; i--) {
+            const holder = this.mCachedViews.get(i);
+            if (holder != null) {
+                if (holder.getLayoutPosition() >= removedEnd) {
+                    holder.offsetPosition(-count, applyToPreLayout);
+                } else if (holder.getLayoutPosition() >= removedFrom) {
+                    // Item for this view was removed. Dump it from the cache.
+                    this.recycleCachedViewAt(i);
+                }
+            }
+        }
+    }
+
+    getRecycledViewPool():RecycledViewPool  {
+        if (this.mRecyclerPool == null) {
+            this.mRecyclerPool = new RecycledViewPool();
+        }
+        return this.mRecyclerPool;
+    }
+
+    setRecycledViewPool(pool:RecycledViewPool):void  {
+        if (this.mRecyclerPool != null) {
+            this.mRecyclerPool.detach();
+        }
+        this.mRecyclerPool = pool;
+        if (pool != null) {
+            this.mRecyclerPool.attach(this.mRecyclerView.getAdapter());
+        }
+    }
+
+    viewRangeUpdate(positionStart:number, itemCount:number):void  {
+        const positionEnd = positionStart + itemCount;
+        const cachedCount = this.mCachedViews.size();
+        for (let i = cachedCount - 1; i >= 0; i--) {
+            const holder = this.mCachedViews.get(i);
+            if (holder == null) {
+                continue;
+            }
+            const pos = holder.getLayoutPosition();
+            if (pos >= positionStart && pos < positionEnd) {
+                holder.addFlags(ViewHolder.FLAG_UPDATE);
+                this.recycleCachedViewAt(i);
+                // cached views should not be flagged as changed because this will cause them
+                // to animate when they are returned from cache.
+            }
+        }
+    }
+
+    setAdapterPositionsAsUnknown():void  {
+        const cachedCount = this.mCachedViews.size();
+        for (let i = 0; i < cachedCount; i++) {
+            const holder = this.mCachedViews.get(i);
+            if (holder != null) {
+                holder.addFlags(ViewHolder.FLAG_ADAPTER_POSITION_UNKNOWN);
+            }
+        }
+    }
+
+    markKnownViewsInvalid():void  {
+        const adapter = this.mRecyclerView.mAdapter;
+        if (adapter != null && adapter.hasStableIds()) {
+            const cachedCount = this.mCachedViews.size();
+            for (let i = 0; i < cachedCount; i++) {
+                const holder = this.mCachedViews.get(i);
+                if (holder != null) {
+                    holder.addFlags(ViewHolder.FLAG_UPDATE | ViewHolder.FLAG_INVALID);
+                }
+            }
+        } else {
+            // we cannot re-use cached views in this case. Recycle them all
+            this.recycleAndClearCachedViews();
+        }
+    }
+
+    clearOldPositions():void  {
+        const cachedCount = this.mCachedViews.size();
+        for (let i = 0; i < cachedCount; i++) {
+            this.mCachedViews.get(i).clearOldPosition();
+        }
+        const scrapCount = this.mAttachedScrap.size();
+        for (let i = 0; i < scrapCount; i++) {
+            this.mAttachedScrap.get(i).clearOldPosition();
+        }
+    }
+
+    markItemDecorInsetsDirty():void  {
+        const cachedCount = this.mCachedViews.size();
+        for (let i = 0; i < cachedCount; i++) {
+            const holder = this.mCachedViews.get(i);
+            const layoutParams = <LayoutParams>holder.itemView.getLayoutParams();
+            if (layoutParams != null) {
+                layoutParams.mInsetsDirty = true;
+            }
+        }
+    }
+}
+
+/**
+ * Base class for an Adapter
+ *
+ * <p>Adapters provide a binding from an app-specific data set to views that are displayed
+ * within a {@link RecyclerView}.</p>
+ */
+export abstract class Adapter<VH extends ViewHolder> {
+
+    private mObservable:AdapterDataObservable = new AdapterDataObservable();
+
+    private mHasStableIds:boolean = false;
+
+    /**
+     * Called when RecyclerView needs a new {@link ViewHolder} of the given type to represent
+     * an item.
+     * <p>
+     * This new ViewHolder should be constructed with a new View that can represent the items
+     * of the given type. You can either create a new View manually or inflate it from an XML
+     * layout file.
+     * <p>
+     * The new ViewHolder will be used to display items of the adapter using
+     * {@link #onBindViewHolder(ViewHolder, int)}. Since it will be re-used to display different
+     * items in the data set, it is a good idea to cache references to sub views of the View to
+     * avoid unnecessary {@link View#findViewById(int)} calls.
+     *
+     * @param parent The ViewGroup into which the new View will be added after it is bound to
+     *               an adapter position.
+     * @param viewType The view type of the new View.
+     *
+     * @return A new ViewHolder that holds a View of the given view type.
+     * @see #getItemViewType(int)
+     * @see #onBindViewHolder(ViewHolder, int)
+     */
+    abstract onCreateViewHolder(parent:ViewGroup, viewType:number):VH ;
+
+    /**
+     * Called by RecyclerView to display the data at the specified position. This method
+     * should update the contents of the {@link ViewHolder#itemView} to reflect the item at
+     * the given position.
+     * <p>
+     * Note that unlike {@link android.widget.ListView}, RecyclerView will not call this
+     * method again if the position of the item changes in the data set unless the item itself
+     * is invalidated or the new position cannot be determined. For this reason, you should only
+     * use the <code>position</code> parameter while acquiring the related data item inside this
+     * method and should not keep a copy of it. If you need the position of an item later on
+     * (e.g. in a click listener), use {@link ViewHolder#getAdapterPosition()} which will have
+     * the updated adapter position.
+     *
+     * @param holder The ViewHolder which should be updated to represent the contents of the
+     *               item at the given position in the data set.
+     * @param position The position of the item within the adapter's data set.
+     */
+    abstract onBindViewHolder(holder:VH, position:number):void ;
+
+    /**
+     * This method calls {@link #onCreateViewHolder(ViewGroup, int)} to create a new
+     * {@link ViewHolder} and initializes some private fields to be used by RecyclerView.
+     *
+     * @see #onCreateViewHolder(ViewGroup, int)
+     */
+    createViewHolder(parent:ViewGroup, viewType:number):VH  {
+        const holder = this.onCreateViewHolder(parent, viewType);
+        holder.mItemViewType = viewType;
+        return holder;
+    }
+
+    /**
+     * This method internally calls {@link #onBindViewHolder(ViewHolder, int)} to update the
+     * {@link ViewHolder} contents with the item at the given position and also sets up some
+     * private fields to be used by RecyclerView.
+     *
+     * @see #onBindViewHolder(ViewHolder, int)
+     */
+    bindViewHolder(holder:VH, position:number):void  {
+        holder.mPosition = position;
+        if (this.hasStableIds()) {
+            holder.mItemId = this.getItemId(position);
+        }
+        holder.setFlags(ViewHolder.FLAG_BOUND, ViewHolder.FLAG_BOUND | ViewHolder.FLAG_UPDATE | ViewHolder.FLAG_INVALID
+            | ViewHolder.FLAG_ADAPTER_POSITION_UNKNOWN | ViewHolder.FLAG_CHANGED);
+        this.onBindViewHolder(holder, position);
+    }
+
+    /**
+     * Return the view type of the item at <code>position</code> for the purposes
+     * of view recycling.
+     *
+     * <p>The default implementation of this method returns 0, making the assumption of
+     * a single view type for the adapter. Unlike ListView adapters, types need not
+     * be contiguous. Consider using id resources to uniquely identify item view types.
+     *
+     * @param position position to query
+     * @return integer value identifying the type of the view needed to represent the item at
+     *                 <code>position</code>. Type codes need not be contiguous.
+     */
+    getItemViewType(position:number):number  {
+        return 0;
+    }
+
+    /**
+     * Indicates whether each item in the data set can be represented with a unique identifier
+     * of type {@link java.lang.Long}.
+     *
+     * @param hasStableIds Whether items in data set have unique identifiers or not.
+     * @see #hasStableIds()
+     * @see #getItemId(int)
+     */
+    setHasStableIds(hasStableIds:boolean):void  {
+        if (this.hasObservers()) {
+            throw Error("Cannot change whether this adapter has " + "stable IDs while the adapter has registered observers.");
+        }
+        this.mHasStableIds = hasStableIds;
+    }
+
+    /**
+     * Return the stable ID for the item at <code>position</code>. If {@link #hasStableIds()}
+     * would return false this method should return {@link #NO_ID}. The default implementation
+     * of this method returns {@link #NO_ID}.
+     *
+     * @param position Adapter position to query
+     * @return the stable ID of the item at position
+     */
+    getItemId(position:number):number  {
+        return RecyclerView.NO_ID;
+    }
+
+    /**
+     * Returns the total number of items in the data set hold by the adapter.
+     *
+     * @return The total number of items in this adapter.
+     */
+    abstract getItemCount():number ;
+
+    /**
+     * Returns true if this adapter publishes a unique <code>long</code> value that can
+     * act as a key for the item at a given position in the data set. If that item is relocated
+     * in the data set, the ID returned for that item should be the same.
+     *
+     * @return true if this adapter's items have stable IDs
+     */
+    hasStableIds():boolean  {
+        return this.mHasStableIds;
+    }
+
+    /**
+     * Called when a view created by this adapter has been recycled.
+     *
+     * <p>A view is recycled when a {@link LayoutManager} decides that it no longer
+     * needs to be attached to its parent {@link RecyclerView}. This can be because it has
+     * fallen out of visibility or a set of cached views represented by views still
+     * attached to the parent RecyclerView. If an item view has large or expensive data
+     * bound to it such as large bitmaps, this may be a good place to release those
+     * resources.</p>
+     *
+     * @param holder The ViewHolder for the view being recycled
+     */
+    onViewRecycled(holder:VH):void  {
+    }
+
+    /**
+     * Called by the RecyclerView if a ViewHolder created by this Adapter cannot be recycled
+     * due to its transient state. Upon receiving this callback, Adapter can clear the
+     * animation(s) that effect the View's transient state and return <code>true</code> so that
+     * the View can be recycled. Keep in mind that the View in question is already removed from
+     * the RecyclerView.
+     * <p>
+     * The default implementation returns <code>false</code>.
+     *
+     * @param holder The ViewHolder containing the View that could not be recycled due to its
+     *               transient state.
+     * @return True if the View should be recycled, false otherwise.
+     */
+    onFailedToRecycleView(holder:VH):boolean  {
+        return false;
+    }
+
+    /**
+     * Called when a view created by this adapter has been attached to a window.
+     *
+     * <p>This can be used as a reasonable signal that the view is about to be seen
+     * by the user. If the adapter previously freed any resources in
+     * {@link #onViewDetachedFromWindow(RecyclerView.ViewHolder) onViewDetachedFromWindow}
+     * those resources should be restored here.</p>
+     *
+     * @param holder Holder of the view being attached
+     */
+    onViewAttachedToWindow(holder:VH):void  {
+    }
+
+    /**
+     * Called when a view created by this adapter has been detached from its window.
+     *
+     * <p>Becoming detached from the window is not necessarily a permanent condition;
+     * the consumer of an Adapter's views may choose to cache views offscreen while they
+     * are not visible, attaching an detaching them as appropriate.</p>
+     *
+     * @param holder Holder of the view being detached
+     */
+    onViewDetachedFromWindow(holder:VH):void  {
+    }
+
+    /**
+     * Returns true if one or more observers are attached to this adapter.
+     *
+     * @return true if this adapter has observers
+     */
+    hasObservers():boolean  {
+        return this.mObservable.hasObservers();
+    }
+
+    /**
+     * Register a new observer to listen for data changes.
+     *
+     * <p>The adapter may publish a variety of events describing specific changes.
+     * Not all adapters may support all change types and some may fall back to a generic
+     * {@link android.support.v7.widget.RecyclerView.AdapterDataObserver#onChanged()
+     * "something changed"} event if more specific data is not available.</p>
+     *
+     * @param observer Observer to register
+     *
+     * @see #unregisterAdapterDataObserver(RecyclerView.AdapterDataObserver)
+     */
+    registerAdapterDataObserver(observer:AdapterDataObserver):void  {
+        this.mObservable.registerObserver(observer);
+    }
+
+    /**
+     * Unregister an observer currently listening for data changes.
+     *
+     * @param observer Observer to unregister
+     *
+     * @see #registerAdapterDataObserver(RecyclerView.AdapterDataObserver)
+     */
+    unregisterAdapterDataObserver(observer:AdapterDataObserver):void  {
+        this.mObservable.unregisterObserver(observer);
+    }
+
+    /**
+     * Called by RecyclerView when it starts observing this Adapter.
+     * <p>
+     * Keep in mind that same adapter may be observed by multiple RecyclerViews.
+     *
+     * @param recyclerView The RecyclerView instance which started observing this adapter.
+     * @see #onDetachedFromRecyclerView(RecyclerView)
+     */
+    onAttachedToRecyclerView(recyclerView:RecyclerView):void  {
+    }
+
+    /**
+     * Called by RecyclerView when it stops observing this Adapter.
+     *
+     * @param recyclerView The RecyclerView instance which stopped observing this adapter.
+     * @see #onAttachedToRecyclerView(RecyclerView)
+     */
+    onDetachedFromRecyclerView(recyclerView:RecyclerView):void  {
+    }
+
+    /**
+     * Notify any registered observers that the data set has changed.
+     *
+     * <p>There are two different classes of data change events, item changes and structural
+     * changes. Item changes are when a single item has its data updated but no positional
+     * changes have occurred. Structural changes are when items are inserted, removed or moved
+     * within the data set.</p>
+     *
+     * <p>This event does not specify what about the data set has changed, forcing
+     * any observers to assume that all existing items and structure may no longer be valid.
+     * LayoutManagers will be forced to fully rebind and relayout all visible views.</p>
+     *
+     * <p>If you are writing an adapter it will always be more efficient to use the more
+     * specific change events if you can. Rely on <code>notifyDataSetChanged()</code>
+     * as a last resort.</p>
+     *
+     * @see #notifyItemChanged(int)
+     * @see #notifyItemInserted(int)
+     * @see #notifyItemRemoved(int)
+     * @see #notifyItemRangeChanged(int, int)
+     * @see #notifyItemRangeInserted(int, int)
+     * @see #notifyItemRangeRemoved(int, int)
+     */
+    notifyDataSetChanged():void  {
+        this.mObservable.notifyChanged();
+    }
+
+    /**
+     * Notify any registered observers that the item at <code>position</code> has changed.
+     *
+     * <p>This is an item change event, not a structural change event. It indicates that any
+     * reflection of the data at <code>position</code> is out of date and should be updated.
+     * The item at <code>position</code> retains the same identity.</p>
+     *
+     * @param position Position of the item that has changed
+     *
+     * @see #notifyItemRangeChanged(int, int)
+     */
+    notifyItemChanged(position:number):void  {
+        this.mObservable.notifyItemRangeChanged(position, 1);
+    }
+
+    /**
+     * Notify any registered observers that the <code>itemCount</code> items starting at
+     * position <code>positionStart</code> have changed.
+     *
+     * <p>This is an item change event, not a structural change event. It indicates that
+     * any reflection of the data in the given position range is out of date and should
+     * be updated. The items in the given range retain the same identity.</p>
+     *
+     * @param positionStart Position of the first item that has changed
+     * @param itemCount Number of items that have changed
+     *
+     * @see #notifyItemChanged(int)
+     */
+    notifyItemRangeChanged(positionStart:number, itemCount:number):void  {
+        this.mObservable.notifyItemRangeChanged(positionStart, itemCount);
+    }
+
+    /**
+     * Notify any registered observers that the item reflected at <code>position</code>
+     * has been newly inserted. The item previously at <code>position</code> is now at
+     * position <code>position + 1</code>.
+     *
+     * <p>This is a structural change event. Representations of other existing items in the
+     * data set are still considered up to date and will not be rebound, though their
+     * positions may be altered.</p>
+     *
+     * @param position Position of the newly inserted item in the data set
+     *
+     * @see #notifyItemRangeInserted(int, int)
+     */
+    notifyItemInserted(position:number):void  {
+        this.mObservable.notifyItemRangeInserted(position, 1);
+    }
+
+    /**
+     * Notify any registered observers that the item reflected at <code>fromPosition</code>
+     * has been moved to <code>toPosition</code>.
+     *
+     * <p>This is a structural change event. Representations of other existing items in the
+     * data set are still considered up to date and will not be rebound, though their
+     * positions may be altered.</p>
+     *
+     * @param fromPosition Previous position of the item.
+     * @param toPosition New position of the item.
+     */
+    notifyItemMoved(fromPosition:number, toPosition:number):void  {
+        this.mObservable.notifyItemMoved(fromPosition, toPosition);
+    }
+
+    /**
+     * Notify any registered observers that the currently reflected <code>itemCount</code>
+     * items starting at <code>positionStart</code> have been newly inserted. The items
+     * previously located at <code>positionStart</code> and beyond can now be found starting
+     * at position <code>positionStart + itemCount</code>.
+     *
+     * <p>This is a structural change event. Representations of other existing items in the
+     * data set are still considered up to date and will not be rebound, though their positions
+     * may be altered.</p>
+     *
+     * @param positionStart Position of the first item that was inserted
+     * @param itemCount Number of items inserted
+     *
+     * @see #notifyItemInserted(int)
+     */
+    notifyItemRangeInserted(positionStart:number, itemCount:number):void  {
+        this.mObservable.notifyItemRangeInserted(positionStart, itemCount);
+    }
+
+    /**
+     * Notify any registered observers that the item previously located at <code>position</code>
+     * has been removed from the data set. The items previously located at and after
+     * <code>position</code> may now be found at <code>oldPosition - 1</code>.
+     *
+     * <p>This is a structural change event. Representations of other existing items in the
+     * data set are still considered up to date and will not be rebound, though their positions
+     * may be altered.</p>
+     *
+     * @param position Position of the item that has now been removed
+     *
+     * @see #notifyItemRangeRemoved(int, int)
+     */
+    notifyItemRemoved(position:number):void  {
+        this.mObservable.notifyItemRangeRemoved(position, 1);
+    }
+
+    /**
+     * Notify any registered observers that the <code>itemCount</code> items previously
+     * located at <code>positionStart</code> have been removed from the data set. The items
+     * previously located at and after <code>positionStart + itemCount</code> may now be found
+     * at <code>oldPosition - itemCount</code>.
+     *
+     * <p>This is a structural change event. Representations of other existing items in the data
+     * set are still considered up to date and will not be rebound, though their positions
+     * may be altered.</p>
+     *
+     * @param positionStart Previous position of the first item that was removed
+     * @param itemCount Number of items removed from the data set
+     */
+    notifyItemRangeRemoved(positionStart:number, itemCount:number):void  {
+        this.mObservable.notifyItemRangeRemoved(positionStart, itemCount);
+    }
+}
+
+export class AdapterDataObservable extends Observable<AdapterDataObserver> {
+
+    hasObservers():boolean  {
+        return !this.mObservers.isEmpty();
+    }
+
+    notifyChanged():void  {
+        // since onChanged() is implemented by the app, it could do anything, including
+        // removing itself from {@link mObservers} - and that could cause problems if
+        // an iterator is used on the ArrayList {@link mObservers}.
+        // to avoid such problems, just march thru the list in the reverse order.
+        for (let i = this.mObservers.size() - 1; i >= 0; i--) {
+            this.mObservers.get(i).onChanged();
+        }
+    }
+
+    notifyItemRangeChanged(positionStart:number, itemCount:number):void  {
+        for (let i = this.mObservers.size() - 1; i >= 0; i--) {
+            this.mObservers.get(i).onItemRangeChanged(positionStart, itemCount);
+        }
+    }
+
+    notifyItemRangeInserted(positionStart:number, itemCount:number):void  {
+        for (let i = this.mObservers.size() - 1; i >= 0; i--) {
+            this.mObservers.get(i).onItemRangeInserted(positionStart, itemCount);
+        }
+    }
+
+    notifyItemRangeRemoved(positionStart:number, itemCount:number):void  {
+        for (let i = this.mObservers.size() - 1; i >= 0; i--) {
+            this.mObservers.get(i).onItemRangeRemoved(positionStart, itemCount);
+        }
+    }
+
+    notifyItemMoved(fromPosition:number, toPosition:number):void  {
+        for (let i = this.mObservers.size() - 1; i >= 0; i--) {
+            this.mObservers.get(i).onItemRangeMoved(fromPosition, toPosition, 1);
+        }
+    }
+}
+
+/**
+ * Observer base class for watching changes to an {@link Adapter}.
+ * See {@link Adapter#registerAdapterDataObserver(AdapterDataObserver)}.
+ */
+export class AdapterDataObserver {
+
+    onChanged():void  {
+    // Do nothing
+    }
+
+    onItemRangeChanged(positionStart:number, itemCount:number):void  {
+    // do nothing
+    }
+
+    onItemRangeInserted(positionStart:number, itemCount:number):void  {
+    // do nothing
+    }
+
+    onItemRangeRemoved(positionStart:number, itemCount:number):void  {
+    // do nothing
+    }
+
+    onItemRangeMoved(fromPosition:number, toPosition:number, itemCount:number):void  {
+    // do nothing
+    }
+}
+
+/**
+ * A ViewHolder describes an item view and metadata about its place within the RecyclerView.
+ *
+ * <p>{@link Adapter} implementations should subclass ViewHolder and add fields for caching
+ * potentially expensive {@link View#findViewById(int)} results.</p>
+ *
+ * <p>While {@link LayoutParams} belong to the {@link LayoutManager},
+ * {@link ViewHolder ViewHolders} belong to the adapter. Adapters should feel free to use
+ * their own custom ViewHolder implementations to store data that makes binding view contents
+ * easier. Implementations should assume that individual item views will hold strong references
+ * to <code>ViewHolder</code> objects and that <code>RecyclerView</code> instances may hold
+ * strong references to extra off-screen item views for caching purposes</p>
+ */
+export class ViewHolder {
+
+    itemView:View;
+
+    mPosition:number = RecyclerView.NO_POSITION;
+
+    mOldPosition:number = RecyclerView.NO_POSITION;
+
+    mItemId:number = RecyclerView.NO_ID;
+
+    mItemViewType:number = RecyclerView.INVALID_TYPE;
+
+    mPreLayoutPosition:number = RecyclerView.NO_POSITION;
+
+    // The item that this holder is shadowing during an item change event/animation
+    mShadowedHolder:ViewHolder = null;
+
+    // The item that is shadowing this holder during an item change event/animation
+    mShadowingHolder:ViewHolder = null;
+
+    /**
+     * This ViewHolder has been bound to a position; mPosition, mItemId and mItemViewType
+     * are all valid.
+     */
+    static FLAG_BOUND:number = 1 << 0;
+
+    /**
+     * The data this ViewHolder's view reflects is stale and needs to be rebound
+     * by the adapter. mPosition and mItemId are consistent.
+     */
+    static FLAG_UPDATE:number = 1 << 1;
+
+    /**
+     * This ViewHolder's data is invalid. The identity implied by mPosition and mItemId
+     * are not to be trusted and may no longer match the item view type.
+     * This ViewHolder must be fully rebound to different data.
+     */
+    static FLAG_INVALID:number = 1 << 2;
+
+    /**
+     * This ViewHolder points at data that represents an item previously removed from the
+     * data set. Its view may still be used for things like outgoing animations.
+     */
+    static FLAG_REMOVED:number = 1 << 3;
+
+    /**
+     * This ViewHolder should not be recycled. This flag is set via setIsRecyclable()
+     * and is intended to keep views around during animations.
+     */
+    static FLAG_NOT_RECYCLABLE:number = 1 << 4;
+
+    /**
+     * This ViewHolder is returned from scrap which means we are expecting an addView call
+     * for this itemView. When returned from scrap, ViewHolder stays in the scrap list until
+     * the end of the layout pass and then recycled by RecyclerView if it is not added back to
+     * the RecyclerView.
+     */
+    static FLAG_RETURNED_FROM_SCRAP:number = 1 << 5;
+
+    /**
+     * This ViewHolder's contents have changed. This flag is used as an indication that
+     * change animations may be used, if supported by the ItemAnimator.
+     */
+    static FLAG_CHANGED:number = 1 << 6;
+
+    /**
+     * This ViewHolder is fully managed by the LayoutManager. We do not scrap, recycle or remove
+     * it unless LayoutManager is replaced.
+     * It is still fully visible to the LayoutManager.
+     */
+    static FLAG_IGNORE:number = 1 << 7;
+
+    /**
+     * When the View is detached form the parent, we set this flag so that we can take correct
+     * action when we need to remove it or add it back.
+     */
+    static FLAG_TMP_DETACHED:number = 1 << 8;
+
+    /**
+     * Set when we can no longer determine the adapter position of this ViewHolder until it is
+     * rebound to a new position. It is different than FLAG_INVALID because FLAG_INVALID is
+     * set even when the type does not match. Also, FLAG_ADAPTER_POSITION_UNKNOWN is set as soon
+     * as adapter notification arrives vs FLAG_INVALID is set lazily before layout is
+     * re-calculated.
+     */
+    static FLAG_ADAPTER_POSITION_UNKNOWN:number = 1 << 9;
+
+    mFlags:number = 0;
+
+    private mIsRecyclableCount:number = 0;
+
+    // If non-null, view is currently considered scrap and may be reused for other data by the
+    // scrap container.
+    mScrapContainer:Recycler = null;
+
+    // the RecyclerView that bound this holder, used to compute the adapter position
+    mOwnerRecyclerView:RecyclerView;
+
+    constructor(itemView:View) {
+        if (itemView == null) {
+            throw Error("itemView may not be null");
+        }
+        this.itemView = itemView;
+    }
+
+    flagRemovedAndOffsetPosition(mNewPosition:number, offset:number, applyToPreLayout:boolean):void  {
+        this.addFlags(ViewHolder.FLAG_REMOVED);
+        this.offsetPosition(offset, applyToPreLayout);
+        this.mPosition = mNewPosition;
+    }
+
+    offsetPosition(offset:number, applyToPreLayout:boolean):void  {
+        if (this.mOldPosition == RecyclerView.NO_POSITION) {
+            this.mOldPosition = this.mPosition;
+        }
+        if (this.mPreLayoutPosition == RecyclerView.NO_POSITION) {
+            this.mPreLayoutPosition = this.mPosition;
+        }
+        if (applyToPreLayout) {
+            this.mPreLayoutPosition += offset;
+        }
+        this.mPosition += offset;
+        if (this.itemView.getLayoutParams() != null) {
+            (<LayoutParams>this.itemView.getLayoutParams()).mInsetsDirty = true;
+        }
+    }
+
+    clearOldPosition():void  {
+        this.mOldPosition = RecyclerView.NO_POSITION;
+        this.mPreLayoutPosition = RecyclerView.NO_POSITION;
+    }
+
+    saveOldPosition():void  {
+        if (this.mOldPosition == RecyclerView.NO_POSITION) {
+            this.mOldPosition = this.mPosition;
+        }
+    }
+
+    shouldIgnore():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_IGNORE) != 0;
+    }
+
+    /**
+     * @deprecated This method is deprecated because its meaning is ambiguous due to the async
+     * handling of adapter updates. Please use {@link #getLayoutPosition()} or
+     * {@link #getAdapterPosition()} depending on your use case.
+     *
+     * @see #getLayoutPosition()
+     * @see #getAdapterPosition()
+     */
+    getPosition():number  {
+        return this.mPreLayoutPosition == RecyclerView.NO_POSITION ? this.mPosition : this.mPreLayoutPosition;
+    }
+
+    /**
+     * Returns the position of the ViewHolder in terms of the latest layout pass.
+     * <p>
+     * This position is mostly used by RecyclerView components to be consistent while
+     * RecyclerView lazily processes adapter updates.
+     * <p>
+     * If LayoutManager needs to call an external method that requires the adapter position of
+     * the item, it can use {@link #getAdapterPosition()} or
+     * {@link RecyclerView.Recycler#convertPreLayoutPositionToPostLayout(int)}.
+     *
+     * @return Returns the adapter position of the ViewHolder in the latest layout pass.
+     * @see #getAdapterPosition()
+     */
+    getLayoutPosition():number  {
+        return this.mPreLayoutPosition == RecyclerView.NO_POSITION ? this.mPosition : this.mPreLayoutPosition;
+    }
+
+    /**
+     * Returns the Adapter position of the item represented by this ViewHolder.
+     * <p>
+     * Note that this might be different than the {@link #getLayoutPosition()} if there are
+     * pending adapter updates but a new layout pass has not happened yet.
+     * <p>
+     * RecyclerView does not handle any adapter updates until the next layout traversal. This
+     * may create temporary inconsistencies between what user sees on the screen and what
+     * adapter contents have. This inconsistency is not important since it will be less than
+     * 16ms but it might be a problem if you want to use ViewHolder position to access the
+     * adapter. Sometimes, you may need to get the exact adapter position to do
+     * some actions in response to user events. In that case, you should use this method which
+     * will calculate the Adapter position of the ViewHolder.
+     *
+     * @return The adapter position of the item if it still exists in the adapter.
+     * {@link RecyclerView#NO_POSITION} if item has been removed from the adapter,
+     * {@link RecyclerView.Adapter#notifyDataSetChanged()} has been called after the last
+     * layout pass or the ViewHolder has already been recycled.
+     */
+    getAdapterPosition():number  {
+        if (this.mOwnerRecyclerView == null) {
+            return RecyclerView.NO_POSITION;
+        }
+        return this.mOwnerRecyclerView.getAdapterPositionFor(this);
+    }
+
+    /**
+     * When LayoutManager supports animations, RecyclerView tracks 3 positions for ViewHolders
+     * to perform animations.
+     * <p>
+     * If a ViewHolder was laid out in the previous onLayout call, old position will keep its
+     * adapter index in the previous layout.
+     *
+     * @return The previous adapter index of the Item represented by this ViewHolder or
+     * {@link #NO_POSITION} if old position does not exists or cleared (pre-layout is
+     * complete).
+     */
+    getOldPosition():number  {
+        return this.mOldPosition;
+    }
+
+    /**
+     * Returns The itemId represented by this ViewHolder.
+     *
+     * @return The the item's id if adapter has stable ids, {@link RecyclerView#NO_ID}
+     * otherwise
+     */
+    getItemId():number  {
+        return this.mItemId;
+    }
+
+    /**
+     * @return The view type of this ViewHolder.
+     */
+    getItemViewType():number  {
+        return this.mItemViewType;
+    }
+
+    isScrap():boolean  {
+        return this.mScrapContainer != null;
+    }
+
+    unScrap():void  {
+        this.mScrapContainer.unscrapView(this);
+    }
+
+    wasReturnedFromScrap():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_RETURNED_FROM_SCRAP) != 0;
+    }
+
+    clearReturnedFromScrapFlag():void  {
+        this.mFlags = this.mFlags & ~ViewHolder.FLAG_RETURNED_FROM_SCRAP;
+    }
+
+    clearTmpDetachFlag():void  {
+        this.mFlags = this.mFlags & ~ViewHolder.FLAG_TMP_DETACHED;
+    }
+
+    stopIgnoring():void  {
+        this.mFlags = this.mFlags & ~ViewHolder.FLAG_IGNORE;
+    }
+
+    setScrapContainer(recycler:Recycler):void  {
+        this.mScrapContainer = recycler;
+    }
+
+    isInvalid():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_INVALID) != 0;
+    }
+
+    needsUpdate():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_UPDATE) != 0;
+    }
+
+    isChanged():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_CHANGED) != 0;
+    }
+
+    isBound():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_BOUND) != 0;
+    }
+
+    isRemoved():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_REMOVED) != 0;
+    }
+
+    hasAnyOfTheFlags(flags:number):boolean  {
+        return (this.mFlags & flags) != 0;
+    }
+
+    isTmpDetached():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_TMP_DETACHED) != 0;
+    }
+
+    setFlags(flags:number, mask:number):void  {
+        this.mFlags = (this.mFlags & ~mask) | (flags & mask);
+    }
+
+    addFlags(flags:number):void  {
+        this.mFlags |= flags;
+    }
+
+    resetInternal():void  {
+        this.mFlags = 0;
+        this.mPosition = RecyclerView.NO_POSITION;
+        this.mOldPosition = RecyclerView.NO_POSITION;
+        this.mItemId = RecyclerView.NO_ID;
+        this.mPreLayoutPosition = RecyclerView.NO_POSITION;
+        this.mIsRecyclableCount = 0;
+        this.mShadowedHolder = null;
+        this.mShadowingHolder = null;
+    }
+
+    toString():string  {
+        let sb = "ViewHolder{" + " position=" + this.mPosition + " id=" + this.mItemId + ", oldPos=" + this.mOldPosition + ", pLpos:" + this.mPreLayoutPosition;
+        if (this.isScrap()) sb += " scrap";
+        if (this.isInvalid()) sb += " invalid";
+        if (!this.isBound()) sb += " unbound";
+        if (this.needsUpdate()) sb += " update";
+        if (this.isRemoved()) sb += " removed";
+        if (this.shouldIgnore()) sb += " ignored";
+        if (this.isChanged()) sb += " changed";
+        if (this.isTmpDetached()) sb += " tmpDetached";
+        if (!this.isRecyclable()) sb += " not recyclable(" + this.mIsRecyclableCount + ")";
+        if (this.isAdapterPositionUnknown()) sb += "undefined adapter position";
+        if (this.itemView.getParent() == null) sb += " no parent";
+        sb += "}";
+        return sb;
+    }
+
+    /**
+     * Informs the recycler whether this item can be recycled. Views which are not
+     * recyclable will not be reused for other items until setIsRecyclable() is
+     * later set to true. Calls to setIsRecyclable() should always be paired (one
+     * call to setIsRecyclabe(false) should always be matched with a later call to
+     * setIsRecyclable(true)). Pairs of calls may be nested, as the state is internally
+     * reference-counted.
+     *
+     * @param recyclable Whether this item is available to be recycled. Default value
+     * is true.
+     */
+    setIsRecyclable(recyclable:boolean):void  {
+        this.mIsRecyclableCount = recyclable ? this.mIsRecyclableCount - 1 : this.mIsRecyclableCount + 1;
+        if (this.mIsRecyclableCount < 0) {
+            this.mIsRecyclableCount = 0;
+            if (RecyclerView.DEBUG) {
+                throw Error("isRecyclable decremented below 0: " + "unmatched pair of setIsRecyable() calls for " + this);
+            }
+            Log.e("View", "isRecyclable decremented below 0: " + "unmatched pair of setIsRecyable() calls for " + this);
+        } else if (!recyclable && this.mIsRecyclableCount == 1) {
+            this.mFlags |= ViewHolder.FLAG_NOT_RECYCLABLE;
+        } else if (recyclable && this.mIsRecyclableCount == 0) {
+            this.mFlags &= ~ViewHolder.FLAG_NOT_RECYCLABLE;
+        }
+        if (RecyclerView.DEBUG) {
+            Log.d(RecyclerView.TAG, "setIsRecyclable val:" + recyclable + ":" + this);
+        }
+    }
+
+    /**
+     * @see {@link #setIsRecyclable(boolean)}
+     *
+     * @return true if this item is available to be recycled, false otherwise.
+     */
+    isRecyclable():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_NOT_RECYCLABLE) == 0 && !this.itemView.hasTransientState();
+    }
+
+    /**
+     * Returns whether we have animations referring to this view holder or not.
+     * This is similar to isRecyclable flag but does not check transient state.
+     */
+    shouldBeKeptAsChild():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_NOT_RECYCLABLE) != 0;
+    }
+
+    /**
+     * @return True if ViewHolder is not refenrenced by RecyclerView animations but has
+     * transient state which will prevent it from being recycled.
+     */
+    doesTransientStatePreventRecycling():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_NOT_RECYCLABLE) == 0 && this.itemView.hasTransientState();
+    }
+
+    isAdapterPositionUnknown():boolean  {
+        return (this.mFlags & ViewHolder.FLAG_ADAPTER_POSITION_UNKNOWN) != 0 || this.isInvalid();
+    }
+}
+
+/**
+ * A <code>LayoutManager</code> is responsible for measuring and positioning item views
+ * within a <code>RecyclerView</code> as well as determining the policy for when to recycle
+ * item views that are no longer visible to the user. By changing the <code>LayoutManager</code>
+ * a <code>RecyclerView</code> can be used to implement a standard vertically scrolling list,
+ * a uniform grid, staggered grids, horizontally scrolling collections and more. Several stock
+ * layout managers are provided for general use.
+ */
+export abstract class LayoutManager {
+
+    mChildHelper:ChildHelper;
+
+    mRecyclerView:RecyclerView;
+
+    mSmoothScroller:SmoothScroller;
+
+    mRequestedSimpleAnimations:boolean = false;
+
+    setRecyclerView(recyclerView:RecyclerView):void  {
+        if (recyclerView == null) {
+            this.mRecyclerView = null;
+            this.mChildHelper = null;
+        } else {
+            this.mRecyclerView = recyclerView;
+            this.mChildHelper = recyclerView.mChildHelper;
+        }
+    }
+
+    /**
+     * Calls {@code RecyclerView#requestLayout} on the underlying RecyclerView
+     */
+    requestLayout():void  {
+        if (this.mRecyclerView != null) {
+            this.mRecyclerView.requestLayout();
+        }
+    }
+
+    /**
+     * Checks if RecyclerView is in the middle of a layout or scroll and throws an
+     * {@link Error} if it is.
+     *
+     * @param message The message for the exception. Can be null.
+     */
+    assertNotInLayoutOrScroll(message:string):void  {
+        if (this.mRecyclerView != null) {
+            this.mRecyclerView.assertNotInLayoutOrScroll(message);
+        }
+    }
+
+    /**
+     * Returns whether this LayoutManager supports automatic item animations.
+     * A LayoutManager wishing to support item animations should obey certain
+     * rules as outlined in {@link #onLayoutChildren(Recycler, State)}.
+     * The default return value is <code>false</code>, so subclasses of LayoutManager
+     * will not get predictive item animations by default.
+     *
+     * <p>Whether item animations are enabled in a RecyclerView is determined both
+     * by the return value from this method and the
+     * {@link RecyclerView#setItemAnimator(ItemAnimator) ItemAnimator} set on the
+     * RecyclerView itself. If the RecyclerView has a non-null ItemAnimator but this
+     * method returns false, then simple item animations will be enabled, in which
+     * views that are moving onto or off of the screen are simply faded in/out. If
+     * the RecyclerView has a non-null ItemAnimator and this method returns true,
+     * then there will be two calls to {@link #onLayoutChildren(Recycler, State)} to
+     * setup up the information needed to more intelligently predict where appearing
+     * and disappearing views should be animated from/to.</p>
+     *
+     * @return true if predictive item animations should be enabled, false otherwise
+     */
+    supportsPredictiveItemAnimations():boolean  {
+        return false;
+    }
+
+    dispatchAttachedToWindow(view:RecyclerView):void  {
+        this.onAttachedToWindow(view);
+    }
+
+    dispatchDetachedFromWindow(view:RecyclerView, recycler:Recycler):void  {
+        this.onDetachedFromWindow(view, recycler);
+    }
+
+    /**
+     * Returns whether LayoutManager is currently attached to a RecyclerView which is attached
+     * to a window.
+     *
+     * @return True if this LayoutManager is controlling a RecyclerView and the RecyclerView
+     * is attached to window.
+     */
+    isAttachedToWindow():boolean  {
+        return this.mRecyclerView != null && this.mRecyclerView.mIsAttached;
+    }
+
+    /**
+     * Causes the Runnable to execute on the next animation time step.
+     * The runnable will be run on the user interface thread.
+     * <p>
+     * Calling this method when LayoutManager is not attached to a RecyclerView has no effect.
+     *
+     * @param action The Runnable that will be executed.
+     *
+     * @see #removeCallbacks
+     */
+    postOnAnimation(action:Runnable):void  {
+        if (this.mRecyclerView != null) {
+            this.mRecyclerView.postOnAnimation(action);
+        }
+    }
+
+    /**
+     * Removes the specified Runnable from the message queue.
+     * <p>
+     * Calling this method when LayoutManager is not attached to a RecyclerView has no effect.
+     *
+     * @param action The Runnable to remove from the message handling queue
+     *
+     * @return true if RecyclerView could ask the Handler to remove the Runnable,
+     *         false otherwise. When the returned value is true, the Runnable
+     *         may or may not have been actually removed from the message queue
+     *         (for instance, if the Runnable was not in the queue already.)
+     *
+     * @see #postOnAnimation
+     */
+    removeCallbacks(action:Runnable):boolean  {
+        if (this.mRecyclerView != null) {
+            return this.mRecyclerView.removeCallbacks(action);
+        }
+        return false;
+    }
+
+    /**
+     * Called when this LayoutManager is both attached to a RecyclerView and that RecyclerView
+     * is attached to a window.
+     *
+     * <p>Subclass implementations should always call through to the superclass implementation.
+     * </p>
+     *
+     * @param view The RecyclerView this LayoutManager is bound to
+     */
+    onAttachedToWindow(view:RecyclerView):void  {
+    }
+
+    /**
+     * Called when this LayoutManager is detached from its parent RecyclerView or when
+     * its parent RecyclerView is detached from its window.
+     *
+     * <p>Subclass implementations should always call through to the superclass implementation.
+     * </p>
+     *
+     * @param view The RecyclerView this LayoutManager is bound to
+     * @param recycler The recycler to use if you prefer to recycle your children instead of
+     *                 keeping them around.
+     */
+    onDetachedFromWindow(view:RecyclerView, recycler:Recycler):void  {
+    }
+
+    /**
+     * Check if the RecyclerView is configured to clip child views to its padding.
+     *
+     * @return true if this RecyclerView clips children to its padding, false otherwise
+     */
+    getClipToPadding():boolean  {
+        return this.mRecyclerView != null && this.mRecyclerView.isClipToPadding();
+    }
+
+    /**
+     * Lay out all relevant child views from the given adapter.
+     *
+     * The LayoutManager is in charge of the behavior of item animations. By default,
+     * RecyclerView has a non-null {@link #getItemAnimator() ItemAnimator}, and simple
+     * item animations are enabled. This means that add/remove operations on the
+     * adapter will result in animations to add new or appearing items, removed or
+     * disappearing items, and moved items. The items are diffed by RecyclerView from the
+     * children before and after this call, so a LayoutManager only needs to lay out the
+     * children for the current adapter state.
+     *
+     * @param recycler         Recycler to use for fetching potentially cached views for a
+     *                         position
+     * @param state            Transient state of RecyclerView
+     */
+    onLayoutChildren(recycler:Recycler, state:State):void  {
+        Log.e(RecyclerView.TAG, "You must override onLayoutChildren(Recycler recycler, State state) ");
+    }
+
+    /**
+     * Create a default <code>LayoutParams</code> object for a child of the RecyclerView.
+     *
+     * <p>LayoutManagers will often want to use a custom <code>LayoutParams</code> type
+     * to store extra information specific to the layout. Client code should subclass
+     * {@link RecyclerView.LayoutParams} for this purpose.</p>
+     *
+     * <p><em>Important:</em> if you use your own custom <code>LayoutParams</code> type
+     * you must also override
+     * {@link #checkLayoutParams(LayoutParams)},
+     * {@link #generateLayoutParams(android.view.ViewGroup.LayoutParams)}.</p>
+     *
+     * @return A new LayoutParams for a child view
+     */
+    abstract generateDefaultLayoutParams():LayoutParams ;
+
+    /**
+     * Determines the validity of the supplied LayoutParams object.
+     *
+     * <p>This should check to make sure that the object is of the correct type
+     * and all values are within acceptable ranges. The default implementation
+     * returns <code>true</code> for non-null params.</p>
+     *
+     * @param lp LayoutParams object to check
+     * @return true if this LayoutParams object is valid, false otherwise
+     */
+    checkLayoutParams(lp:LayoutParams):boolean  {
+        return lp != null;
+    }
+
+    /**
+     * Create a LayoutParams object suitable for this LayoutManager, copying relevant
+     * values from the supplied LayoutParams object if possible.
+     *
+     * <p><em>Important:</em> if you use your own custom <code>LayoutParams</code> type
+     * you must also override
+     * {@link #checkLayoutParams(LayoutParams)},
+     * {@link #generateLayoutParams(android.view.ViewGroup.LayoutParams)}.</p>
+     *
+     * @param lp Source LayoutParams object to copy values from
+     * @return a new LayoutParams object
+     */
+    generateLayoutParams(lp:ViewGroup.LayoutParams):LayoutParams  {
+        if (lp instanceof LayoutParams) {
+            return new LayoutParams(<LayoutParams>lp);
+        } else if (lp instanceof ViewGroup.MarginLayoutParams) {
+            return new LayoutParams(<ViewGroup.MarginLayoutParams>lp);
+        } else {
+            return new LayoutParams(lp);
+        }
+    }
+
+    /**
+     * Scroll horizontally by dx pixels in screen coordinates and return the distance traveled.
+     * The default implementation does nothing and returns 0.
+     *
+     * @param dx            distance to scroll by in pixels. X increases as scroll position
+     *                      approaches the right.
+     * @param recycler      Recycler to use for fetching potentially cached views for a
+     *                      position
+     * @param state         Transient state of RecyclerView
+     * @return The actual distance scrolled. The return value will be negative if dx was
+     * negative and scrolling proceeeded in that direction.
+     * <code>Math.abs(result)</code> may be less than dx if a boundary was reached.
+     */
+    scrollHorizontallyBy(dx:number, recycler:Recycler, state:State):number  {
+        return 0;
+    }
+
+    /**
+     * Scroll vertically by dy pixels in screen coordinates and return the distance traveled.
+     * The default implementation does nothing and returns 0.
+     *
+     * @param dy            distance to scroll in pixels. Y increases as scroll position
+     *                      approaches the bottom.
+     * @param recycler      Recycler to use for fetching potentially cached views for a
+     *                      position
+     * @param state         Transient state of RecyclerView
+     * @return The actual distance scrolled. The return value will be negative if dy was
+     * negative and scrolling proceeeded in that direction.
+     * <code>Math.abs(result)</code> may be less than dy if a boundary was reached.
+     */
+    scrollVerticallyBy(dy:number, recycler:Recycler, state:State):number  {
+        return 0;
+    }
+
+    /**
+     * Query if horizontal scrolling is currently supported. The default implementation
+     * returns false.
+     *
+     * @return True if this LayoutManager can scroll the current contents horizontally
+     */
+    canScrollHorizontally():boolean  {
+        return false;
+    }
+
+    /**
+     * Query if vertical scrolling is currently supported. The default implementation
+     * returns false.
+     *
+     * @return True if this LayoutManager can scroll the current contents vertically
+     */
+    canScrollVertically():boolean  {
+        return false;
+    }
+
+    /**
+     * Scroll to the specified adapter position.
+     *
+     * Actual position of the item on the screen depends on the LayoutManager implementation.
+     * @param position Scroll to this adapter position.
+     */
+    scrollToPosition(position:number):void  {
+        if (RecyclerView.DEBUG) {
+            Log.e(RecyclerView.TAG, "You MUST implement scrollToPosition. It will soon become abstract");
+        }
+    }
+
+    /**
+     * <p>Smooth scroll to the specified adapter position.</p>
+     * <p>To support smooth scrolling, override this method, create your {@link SmoothScroller}
+     * instance and call {@link #startSmoothScroll(SmoothScroller)}.
+     * </p>
+     * @param recyclerView The RecyclerView to which this layout manager is attached
+     * @param state    Current State of RecyclerView
+     * @param position Scroll to this adapter position.
+     */
+    smoothScrollToPosition(recyclerView:RecyclerView, state:State, position:number):void  {
+        Log.e(RecyclerView.TAG, "You must override smoothScrollToPosition to support smooth scrolling");
+    }
+
+    /**
+     * <p>Starts a smooth scroll using the provided SmoothScroller.</p>
+     * <p>Calling this method will cancel any previous smooth scroll request.</p>
+     * @param smoothScroller Unstance which defines how smooth scroll should be animated
+     */
+    startSmoothScroll(smoothScroller:SmoothScroller):void  {
+        if (this.mSmoothScroller != null && smoothScroller != this.mSmoothScroller && this.mSmoothScroller.isRunning()) {
+            this.mSmoothScroller.stop();
+        }
+        this.mSmoothScroller = smoothScroller;
+        this.mSmoothScroller.start(this.mRecyclerView, this);
+    }
+
+    /**
+     * @return true if RecycylerView is currently in the state of smooth scrolling.
+     */
+    isSmoothScrolling():boolean  {
+        return this.mSmoothScroller != null && this.mSmoothScroller.isRunning();
+    }
+
+    /**
+     * Returns the resolved layout direction for this RecyclerView.
+     *
+     * @return {@link android.view.View#LAYOUT_DIRECTION_RTL} if the layout
+     * direction is RTL or returns
+     * {@link android.view.View#LAYOUT_DIRECTION_LTR} if the layout direction
+     * is not RTL.
+     */
+    getLayoutDirection():number  {
+        return this.mRecyclerView.getLayoutDirection();
+    }
+
+    /**
+     * Add a view to the currently attached RecyclerView if needed. LayoutManagers should
+     * use this method to add views obtained from a {@link Recycler} using
+     * {@link Recycler#getViewForPosition(int)}.
+     *
+     * @param child View to add
+     * @param index Index to add child at
+     */
+    addView(child:View, index = -1):void  {
+        const holder = RecyclerView.getChildViewHolderInt(child);
+        if (holder.wasReturnedFromScrap() || holder.isScrap()) {
+            if (holder.isScrap()) {
+                holder.unScrap();
+            } else {
+                holder.clearReturnedFromScrapFlag();
+            }
+            this.mChildHelper.attachViewToParent(child, index, child.getLayoutParams(), false);
+            if (RecyclerView.DISPATCH_TEMP_DETACH) {
+                child.dispatchFinishTemporaryDetach();
+            }
+        } else if (child.getParent() == this.mRecyclerView) {
+            // it was not a scrap but a valid child
+            // ensure in correct position
+            let currentIndex = this.mChildHelper.indexOfChild(child);
+            if (index == -1) {
+                index = this.mChildHelper.getChildCount();
+            }
+            if (currentIndex == -1) {
+                throw Error("Added View has RecyclerView as parent but" + " view is not a real child. Unfiltered index:" + this.mRecyclerView.indexOfChild(child));
+            }
+            if (currentIndex != index) {
+                this.mRecyclerView.mLayout.moveView(currentIndex, index);
+            }
+        } else {
+            this.mChildHelper.addView(child, index, false);
+            const lp = <LayoutParams>child.getLayoutParams();
+            lp.mInsetsDirty = true;
+        }
+        const lp = <LayoutParams>child.getLayoutParams();
+        if (lp.mPendingInvalidate) {
+            if (RecyclerView.DEBUG) {
+                Log.d(RecyclerView.TAG, "consuming pending invalidate on child " + lp.mViewHolder);
+            }
+            holder.itemView.invalidate();
+            lp.mPendingInvalidate = false;
+        }
+    }
+
+    /**
+     * Remove a view from the currently attached RecyclerView if needed. LayoutManagers should
+     * use this method to completely remove a child view that is no longer needed.
+     * LayoutManagers should strongly consider recycling removed views using
+     * {@link Recycler#recycleView(android.view.View)}.
+     *
+     * @param child View to remove
+     */
+    removeView(child:View):void  {
+        this.mChildHelper.removeView(child);
+    }
+
+    /**
+     * Remove a view from the currently attached RecyclerView if needed. LayoutManagers should
+     * use this method to completely remove a child view that is no longer needed.
+     * LayoutManagers should strongly consider recycling removed views using
+     * {@link Recycler#recycleView(android.view.View)}.
+     *
+     * @param index Index of the child view to remove
+     */
+    removeViewAt(index:number):void  {
+        const child = this.getChildAt(index);
+        if (child != null) {
+            this.mChildHelper.removeViewAt(index);
+        }
+    }
+
+    /**
+     * Remove all views from the currently attached RecyclerView. This will not recycle
+     * any of the affected views; the LayoutManager is responsible for doing so if desired.
+     */
+    removeAllViews():void  {
+        // Only remove non-animating views
+        const childCount = this.getChildCount();
+        for (let i = childCount - 1; i >= 0; i--) {
+            this.mChildHelper.removeViewAt(i);
+        }
+    }
+
+    /**
+     * Returns the adapter position of the item represented by the given View. This does not
+     * contain any adapter changes that might have happened after the last layout.
+     *
+     * @param view The view to query
+     * @return The adapter position of the item which is rendered by this View.
+     */
+    getPosition(view:View):number  {
+        return (<LayoutParams>view.getLayoutParams()).getViewLayoutPosition();
+    }
+
+    /**
+     * Returns the View type defined by the adapter.
+     *
+     * @param view The view to query
+     * @return The type of the view assigned by the adapter.
+     */
+    getItemViewType(view:View):number  {
+        return RecyclerView.getChildViewHolderInt(view).getItemViewType();
+    }
+
+    /**
+     * Finds the view which represents the given adapter position.
+     * <p>
+     * This method traverses each child since it has no information about child order.
+     * Override this method to improve performance if your LayoutManager keeps data about
+     * child views.
+     * <p>
+     * If a view is ignored via {@link #ignoreView(View)}, it is also ignored by this method.
+     *
+     * @param position Position of the item in adapter
+     * @return The child view that represents the given position or null if the position is not
+     * laid out
+     */
+    findViewByPosition(position:number):View  {
+        const childCount = this.getChildCount();
+        for (let i = 0; i < childCount; i++) {
+            let child = this.getChildAt(i);
+            let vh = RecyclerView.getChildViewHolderInt(child);
+            if (vh == null) {
+                continue;
+            }
+            if (vh.getLayoutPosition() == position && !vh.shouldIgnore()) {
+                return child;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Temporarily detach a child view.
+     *
+     * <p>LayoutManagers may want to perform a lightweight detach operation to rearrange
+     * views currently attached to the RecyclerView. Generally LayoutManager implementations
+     * will want to use {@link #detachAndScrapView(android.view.View, RecyclerView.Recycler)}
+     * so that the detached view may be rebound and reused.</p>
+     *
+     * <p>If a LayoutManager uses this method to detach a view, it <em>must</em>
+     * {@link #attachView(android.view.View, int, RecyclerView.LayoutParams) reattach}
+     * or {@link #removeDetachedView(android.view.View) fully remove} the detached view
+     * before the LayoutManager entry point method called by RecyclerView returns.</p>
+     *
+     * @param child Child to detach
+     */
+    detachView(child:View):void  {
+        const ind = this.mChildHelper.indexOfChild(child);
+        if (ind >= 0) {
+            this.detachViewInternal(ind, child);
+        }
+    }
+
+    /**
+     * Temporarily detach a child view.
+     *
+     * <p>LayoutManagers may want to perform a lightweight detach operation to rearrange
+     * views currently attached to the RecyclerView. Generally LayoutManager implementations
+     * will want to use {@link #detachAndScrapView(android.view.View, RecyclerView.Recycler)}
+     * so that the detached view may be rebound and reused.</p>
+     *
+     * <p>If a LayoutManager uses this method to detach a view, it <em>must</em>
+     * {@link #attachView(android.view.View, int, RecyclerView.LayoutParams) reattach}
+     * or {@link #removeDetachedView(android.view.View) fully remove} the detached view
+     * before the LayoutManager entry point method called by RecyclerView returns.</p>
+     *
+     * @param index Index of the child to detach
+     */
+    detachViewAt(index:number):void  {
+        this.detachViewInternal(index, this.getChildAt(index));
+    }
+
+    private detachViewInternal(index:number, view:View):void  {
+        if (RecyclerView.DISPATCH_TEMP_DETACH) {
+            view.dispatchStartTemporaryDetach();
+        }
+        this.mChildHelper.detachViewFromParent(index);
+    }
+
+    /**
+     * Reattach a previously {@link #detachView(android.view.View) detached} view.
+     * This method should not be used to reattach views that were previously
+     * {@link #detachAndScrapView(android.view.View, RecyclerView.Recycler)}  scrapped}.
+     *
+     * @param child Child to reattach
+     * @param index Intended child index for child
+     * @param lp LayoutParams for child
+     */
+    attachView(child:View, index = -1, lp = <LayoutParams>child.getLayoutParams()):void  {
+        const vh = RecyclerView.getChildViewHolderInt(child);
+        this.mChildHelper.attachViewToParent(child, index, lp, false);
+        if (RecyclerView.DISPATCH_TEMP_DETACH) {
+            child.dispatchFinishTemporaryDetach();
+        }
+    }
+
+    /**
+     * Finish removing a view that was previously temporarily
+     * {@link #detachView(android.view.View) detached}.
+     *
+     * @param child Detached child to remove
+     */
+    removeDetachedView(child:View):void  {
+        this.mRecyclerView.removeDetachedView(child, false);
+    }
+
+    /**
+     * Moves a View from one position to another.
+     *
+     * @param fromIndex The View's initial index
+     * @param toIndex The View's target index
+     */
+    moveView(fromIndex:number, toIndex:number):void  {
+        let view = this.getChildAt(fromIndex);
+        if (view == null) {
+            throw Error("Cannot move a child from non-existing index:" + fromIndex);
+        }
+        this.detachViewAt(fromIndex);
+        this.attachView(view, toIndex);
+    }
+
+    /**
+     * Detach a child view and add it to a {@link Recycler Recycler's} scrap heap.
+     *
+     * <p>Scrapping a view allows it to be rebound and reused to show updated or
+     * different data.</p>
+     *
+     * @param child Child to detach and scrap
+     * @param recycler Recycler to deposit the new scrap view into
+     */
+    detachAndScrapView(child:View, recycler:Recycler):void  {
+        let index = this.mChildHelper.indexOfChild(child);
+        this.scrapOrRecycleView(recycler, index, child);
+    }
+
+    /**
+     * Detach a child view and add it to a {@link Recycler Recycler's} scrap heap.
+     *
+     * <p>Scrapping a view allows it to be rebound and reused to show updated or
+     * different data.</p>
+     *
+     * @param index Index of child to detach and scrap
+     * @param recycler Recycler to deposit the new scrap view into
+     */
+    detachAndScrapViewAt(index:number, recycler:Recycler):void  {
+        const child = this.getChildAt(index);
+        this.scrapOrRecycleView(recycler, index, child);
+    }
+
+    /**
+     * Remove a child view and recycle it using the given Recycler.
+     *
+     * @param child Child to remove and recycle
+     * @param recycler Recycler to use to recycle child
+     */
+    removeAndRecycleView(child:View, recycler:Recycler):void  {
+        this.removeView(child);
+        recycler.recycleView(child);
+    }
+
+    /**
+     * Remove a child view and recycle it using the given Recycler.
+     *
+     * @param index Index of child to remove and recycle
+     * @param recycler Recycler to use to recycle child
+     */
+    removeAndRecycleViewAt(index:number, recycler:Recycler):void  {
+        const view = this.getChildAt(index);
+        this.removeViewAt(index);
+        recycler.recycleView(view);
+    }
+
+    /**
+     * Return the current number of child views attached to the parent RecyclerView.
+     * This does not include child views that were temporarily detached and/or scrapped.
+     *
+     * @return Number of attached children
+     */
+    getChildCount():number  {
+        return this.mChildHelper != null ? this.mChildHelper.getChildCount() : 0;
+    }
+
+    /**
+     * Return the child view at the given index
+     * @param index Index of child to return
+     * @return Child view at index
+     */
+    getChildAt(index:number):View  {
+        return this.mChildHelper != null ? this.mChildHelper.getChildAt(index) : null;
+    }
+
+    /**
+     * Return the width of the parent RecyclerView
+     *
+     * @return Width in pixels
+     */
+    getWidth():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getWidth() : 0;
+    }
+
+    /**
+     * Return the height of the parent RecyclerView
+     *
+     * @return Height in pixels
+     */
+    getHeight():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getHeight() : 0;
+    }
+
+    /**
+     * Return the left padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingLeft():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getPaddingLeft() : 0;
+    }
+
+    /**
+     * Return the top padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingTop():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getPaddingTop() : 0;
+    }
+
+    /**
+     * Return the right padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingRight():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getPaddingRight() : 0;
+    }
+
+    /**
+     * Return the bottom padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingBottom():number  {
+        return this.mRecyclerView != null ? this.mRecyclerView.getPaddingBottom() : 0;
+    }
+
+    /**
+     * Return the start padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingStart():number  {
+        return this.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL ? this.getPaddingRight() : this.getPaddingLeft();
+    }
+
+    /**
+     * Return the end padding of the parent RecyclerView
+     *
+     * @return Padding in pixels
+     */
+    getPaddingEnd():number  {
+        return this.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL ? this.getPaddingLeft() : this.getPaddingRight();
+    }
+
+    /**
+     * Returns true if the RecyclerView this LayoutManager is bound to has focus.
+     *
+     * @return True if the RecyclerView has focus, false otherwise.
+     * @see View#isFocused()
+     */
+    isFocused():boolean  {
+        return this.mRecyclerView != null && this.mRecyclerView.isFocused();
+    }
+
+    /**
+     * Returns true if the RecyclerView this LayoutManager is bound to has or contains focus.
+     *
+     * @return true if the RecyclerView has or contains focus
+     * @see View#hasFocus()
+     */
+    hasFocus():boolean  {
+        return this.mRecyclerView != null && this.mRecyclerView.hasFocus();
+    }
+
+    /**
+     * Returns the item View which has or contains focus.
+     *
+     * @return A direct child of RecyclerView which has focus or contains the focused child.
+     */
+    getFocusedChild():View  {
+        if (this.mRecyclerView == null) {
+            return null;
+        }
+        const focused = this.mRecyclerView.getFocusedChild();
+        if (focused == null || this.mChildHelper.isHidden(focused)) {
+            return null;
+        }
+        return focused;
+    }
+
+    /**
+     * Returns the number of items in the adapter bound to the parent RecyclerView.
+     * <p>
+     * Note that this number is not necessarily equal to {@link State#getItemCount()}. In
+     * methods where State is available, you should use {@link State#getItemCount()} instead.
+     * For more details, check the documentation for {@link State#getItemCount()}.
+     *
+     * @return The number of items in the bound adapter
+     * @see State#getItemCount()
+     */
+    getItemCount():number  {
+        const a = this.mRecyclerView != null ? this.mRecyclerView.getAdapter() : null;
+        return a != null ? a.getItemCount() : 0;
+    }
+
+    /**
+     * Offset all child views attached to the parent RecyclerView by dx pixels along
+     * the horizontal axis.
+     *
+     * @param dx Pixels to offset by
+     */
+    offsetChildrenHorizontal(dx:number):void  {
+        if (this.mRecyclerView != null) {
+            this.mRecyclerView.offsetChildrenHorizontal(dx);
+        }
+    }
+
+    /**
+     * Offset all child views attached to the parent RecyclerView by dy pixels along
+     * the vertical axis.
+     *
+     * @param dy Pixels to offset by
+     */
+    offsetChildrenVertical(dy:number):void  {
+        if (this.mRecyclerView != null) {
+            this.mRecyclerView.offsetChildrenVertical(dy);
+        }
+    }
+
+    /**
+     * Flags a view so that it will not be scrapped or recycled.
+     * <p>
+     * Scope of ignoring a child is strictly restricted to position tracking, scrapping and
+     * recyling. Methods like {@link #removeAndRecycleAllViews(Recycler)} will ignore the child
+     * whereas {@link #removeAllViews()} or {@link #offsetChildrenHorizontal(int)} will not
+     * ignore the child.
+     * <p>
+     * Before this child can be recycled again, you have to call
+     * {@link #stopIgnoringView(View)}.
+     * <p>
+     * You can call this method only if your LayoutManger is in onLayout or onScroll callback.
+     *
+     * @param view View to ignore.
+     * @see #stopIgnoringView(View)
+     */
+    ignoreView(view:View):void  {
+        if (view.getParent() != this.mRecyclerView || this.mRecyclerView.indexOfChild(view) == -1) {
+            // checking this because calling this method on a recycled or detached view may
+            // cause loss of state.
+            throw Error("View should be fully attached to be ignored");
+        }
+        const vh = RecyclerView.getChildViewHolderInt(view);
+        vh.addFlags(ViewHolder.FLAG_IGNORE);
+    }
+
+    /**
+     * View can be scrapped and recycled again.
+     * <p>
+     * Note that calling this method removes all information in the view holder.
+     * <p>
+     * You can call this method only if your LayoutManger is in onLayout or onScroll callback.
+     *
+     * @param view View to ignore.
+     */
+    stopIgnoringView(view:View):void  {
+        const vh = RecyclerView.getChildViewHolderInt(view);
+        vh.stopIgnoring();
+        vh.resetInternal();
+        vh.addFlags(ViewHolder.FLAG_INVALID);
+    }
+
+    /**
+     * Temporarily detach and scrap all currently attached child views. Views will be scrapped
+     * into the given Recycler. The Recycler may prefer to reuse scrap views before
+     * other views that were previously recycled.
+     *
+     * @param recycler Recycler to scrap views into
+     */
+    detachAndScrapAttachedViews(recycler:Recycler):void  {
+        const childCount = this.getChildCount();
+        for (let i = childCount - 1; i >= 0; i--) {
+            const v = this.getChildAt(i);
+            this.scrapOrRecycleView(recycler, i, v);
+        }
+    }
+
+    private scrapOrRecycleView(recycler:Recycler, index:number, view:View):void  {
+        const viewHolder = RecyclerView.getChildViewHolderInt(view);
+        if (viewHolder.shouldIgnore()) {
+            if (RecyclerView.DEBUG) {
+                Log.d(RecyclerView.TAG, "ignoring view " + viewHolder);
+            }
+            return;
+        }
+        if (viewHolder.isInvalid() && !viewHolder.isRemoved() && !viewHolder.isChanged()
+                && !this.mRecyclerView.mAdapter.hasStableIds()) {
+            this.removeViewAt(index);
+            recycler.recycleViewHolderInternal(viewHolder);
+        } else {
+            this.detachViewAt(index);
+            recycler.scrapView(view);
+        }
+    }
+
+    /**
+     * Recycles the scrapped views.
+     * <p>
+     * When a view is detached and removed, it does not trigger a ViewGroup invalidate. This is
+     * the expected behavior if scrapped views are used for animations. Otherwise, we need to
+     * call remove and invalidate RecyclerView to ensure UI update.
+     *
+     * @param recycler Recycler
+     */
+    removeAndRecycleScrapInt(recycler:Recycler):void  {
+        const scrapCount = recycler.getScrapCount();
+        // Loop backward, recycler might be changed by removeDetachedView()
+        for (let i = scrapCount - 1; i >= 0; i--) {
+            const scrap = recycler.getScrapViewAt(i);
+            const vh = RecyclerView.getChildViewHolderInt(scrap);
+            if (vh.shouldIgnore()) {
+                continue;
+            }
+            // If the scrap view is animating, we need to cancel them first. If we cancel it
+            // here, ItemAnimator callback may recycle it which will cause double recycling.
+            // To avoid this, we mark it as not recycleable before calling the item animator.
+            // Since removeDetachedView calls a user API, a common mistake (ending animations on
+            // the view) may recycle it too, so we guard it before we call user APIs.
+            vh.setIsRecyclable(false);
+            if (vh.isTmpDetached()) {
+                this.mRecyclerView.removeDetachedView(scrap, false);
+            }
+            if (this.mRecyclerView.mItemAnimator != null) {
+                this.mRecyclerView.mItemAnimator.endAnimation(vh);
+            }
+            vh.setIsRecyclable(true);
+            recycler.quickRecycleScrapView(scrap);
+        }
+        recycler.clearScrap();
+        if (scrapCount > 0) {
+            this.mRecyclerView.invalidate();
+        }
+    }
+
+    /**
+     * Measure a child view using standard measurement policy, taking the padding
+     * of the parent RecyclerView and any added item decorations into account.
+     *
+     * <p>If the RecyclerView can be scrolled in either dimension the caller may
+     * pass 0 as the widthUsed or heightUsed parameters as they will be irrelevant.</p>
+     *
+     * @param child Child view to measure
+     * @param widthUsed Width in pixels currently consumed by other views, if relevant
+     * @param heightUsed Height in pixels currently consumed by other views, if relevant
+     */
+    measureChild(child:View, widthUsed:number, heightUsed:number):void  {
+        const lp = <LayoutParams>child.getLayoutParams();
+        const insets = this.mRecyclerView.getItemDecorInsetsForChild(child);
+        widthUsed += insets.left + insets.right;
+        heightUsed += insets.top + insets.bottom;
+        const widthSpec = LayoutManager.getChildMeasureSpec(this.getWidth(), this.getPaddingLeft() + this.getPaddingRight() + widthUsed, lp.width, this.canScrollHorizontally());
+        const heightSpec = LayoutManager.getChildMeasureSpec(this.getHeight(), this.getPaddingTop() + this.getPaddingBottom() + heightUsed, lp.height, this.canScrollVertically());
+        child.measure(widthSpec, heightSpec);
+    }
+
+    /**
+     * Measure a child view using standard measurement policy, taking the padding
+     * of the parent RecyclerView, any added item decorations and the child margins
+     * into account.
+     *
+     * <p>If the RecyclerView can be scrolled in either dimension the caller may
+     * pass 0 as the widthUsed or heightUsed parameters as they will be irrelevant.</p>
+     *
+     * @param child Child view to measure
+     * @param widthUsed Width in pixels currently consumed by other views, if relevant
+     * @param heightUsed Height in pixels currently consumed by other views, if relevant
+     */
+    measureChildWithMargins(child:View, widthUsed:number, heightUsed:number):void  {
+        const lp = <LayoutParams>child.getLayoutParams();
+        const insets = this.mRecyclerView.getItemDecorInsetsForChild(child);
+        widthUsed += insets.left + insets.right;
+        heightUsed += insets.top + insets.bottom;
+        const widthSpec = LayoutManager.getChildMeasureSpec(this.getWidth(), this.getPaddingLeft() + this.getPaddingRight() + lp.leftMargin + lp.rightMargin + widthUsed, lp.width, this.canScrollHorizontally());
+        const heightSpec = LayoutManager.getChildMeasureSpec(this.getHeight(), this.getPaddingTop() + this.getPaddingBottom() + lp.topMargin + lp.bottomMargin + heightUsed, lp.height, this.canScrollVertically());
+        child.measure(widthSpec, heightSpec);
+    }
+
+    /**
+     * Calculate a MeasureSpec value for measuring a child view in one dimension.
+     *
+     * @param parentSize Size of the parent view where the child will be placed
+     * @param padding Total space currently consumed by other elements of parent
+     * @param childDimension Desired size of the child view, or MATCH_PARENT/WRAP_CONTENT.
+     *                       Generally obtained from the child view's LayoutParams
+     * @param canScroll true if the parent RecyclerView can scroll in this dimension
+     *
+     * @return a MeasureSpec value for the child view
+     */
+    static getChildMeasureSpec(parentSize:number, padding:number, childDimension:number, canScroll:boolean):number  {
+        let size = Math.max(0, parentSize - padding);
+        let resultSize = 0;
+        let resultMode = 0;
+        if (canScroll) {
+            if (childDimension >= 0) {
+                resultSize = childDimension;
+                resultMode = View.MeasureSpec.EXACTLY;
+            } else {
+                // MATCH_PARENT can't be applied since we can scroll in this dimension, wrap
+                // instead using UNSPECIFIED.
+                resultSize = 0;
+                resultMode = View.MeasureSpec.UNSPECIFIED;
+            }
+        } else {
+            if (childDimension >= 0) {
+                resultSize = childDimension;
+                resultMode = View.MeasureSpec.EXACTLY;
+            } else if (childDimension == ViewGroup.LayoutParams.MATCH_PARENT) {
+                resultSize = size;
+                resultMode = View.MeasureSpec.EXACTLY;
+            } else if (childDimension == ViewGroup.LayoutParams.WRAP_CONTENT) {
+                resultSize = size;
+                resultMode = View.MeasureSpec.AT_MOST;
+            }
+        }
+        return View.MeasureSpec.makeMeasureSpec(resultSize, resultMode);
+    }
+
+    /**
+     * Returns the measured width of the given child, plus the additional size of
+     * any insets applied by {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child view to query
+     * @return child's measured width plus <code>ItemDecoration</code> insets
+     *
+     * @see View#getMeasuredWidth()
+     */
+    getDecoratedMeasuredWidth(child:View):number  {
+        const insets = (<LayoutParams>child.getLayoutParams()).mDecorInsets;
+        return child.getMeasuredWidth() + insets.left + insets.right;
+    }
+
+    /**
+     * Returns the measured height of the given child, plus the additional size of
+     * any insets applied by {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child view to query
+     * @return child's measured height plus <code>ItemDecoration</code> insets
+     *
+     * @see View#getMeasuredHeight()
+     */
+    getDecoratedMeasuredHeight(child:View):number  {
+        const insets = (<LayoutParams>child.getLayoutParams()).mDecorInsets;
+        return child.getMeasuredHeight() + insets.top + insets.bottom;
+    }
+
+    /**
+     * Lay out the given child view within the RecyclerView using coordinates that
+     * include any current {@link ItemDecoration ItemDecorations}.
+     *
+     * <p>LayoutManagers should prefer working in sizes and coordinates that include
+     * item decoration insets whenever possible. This allows the LayoutManager to effectively
+     * ignore decoration insets within measurement and layout code. See the following
+     * methods:</p>
+     * <ul>
+     *     <li>{@link #measureChild(View, int, int)}</li>
+     *     <li>{@link #measureChildWithMargins(View, int, int)}</li>
+     *     <li>{@link #getDecoratedLeft(View)}</li>
+     *     <li>{@link #getDecoratedTop(View)}</li>
+     *     <li>{@link #getDecoratedRight(View)}</li>
+     *     <li>{@link #getDecoratedBottom(View)}</li>
+     *     <li>{@link #getDecoratedMeasuredWidth(View)}</li>
+     *     <li>{@link #getDecoratedMeasuredHeight(View)}</li>
+     * </ul>
+     *
+     * @param child Child to lay out
+     * @param left Left edge, with item decoration insets included
+     * @param top Top edge, with item decoration insets included
+     * @param right Right edge, with item decoration insets included
+     * @param bottom Bottom edge, with item decoration insets included
+     *
+     * @see View#layout(int, int, int, int)
+     */
+    layoutDecorated(child:View, left:number, top:number, right:number, bottom:number):void  {
+        const insets = (<LayoutParams>child.getLayoutParams()).mDecorInsets;
+        child.layout(left + insets.left, top + insets.top, right - insets.right, bottom - insets.bottom);
+    }
+
+    /**
+     * Returns the left edge of the given child view within its parent, offset by any applied
+     * {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child to query
+     * @return Child left edge with offsets applied
+     * @see #getLeftDecorationWidth(View)
+     */
+    getDecoratedLeft(child:View):number  {
+        return child.getLeft() - this.getLeftDecorationWidth(child);
+    }
+
+    /**
+     * Returns the top edge of the given child view within its parent, offset by any applied
+     * {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child to query
+     * @return Child top edge with offsets applied
+     * @see #getTopDecorationHeight(View)
+     */
+    getDecoratedTop(child:View):number  {
+        return child.getTop() - this.getTopDecorationHeight(child);
+    }
+
+    /**
+     * Returns the right edge of the given child view within its parent, offset by any applied
+     * {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child to query
+     * @return Child right edge with offsets applied
+     * @see #getRightDecorationWidth(View)
+     */
+    getDecoratedRight(child:View):number  {
+        return child.getRight() + this.getRightDecorationWidth(child);
+    }
+
+    /**
+     * Returns the bottom edge of the given child view within its parent, offset by any applied
+     * {@link ItemDecoration ItemDecorations}.
+     *
+     * @param child Child to query
+     * @return Child bottom edge with offsets applied
+     * @see #getBottomDecorationHeight(View)
+     */
+    getDecoratedBottom(child:View):number  {
+        return child.getBottom() + this.getBottomDecorationHeight(child);
+    }
+
+    /**
+     * Calculates the item decor insets applied to the given child and updates the provided
+     * Rect instance with the inset values.
+     * <ul>
+     *     <li>The Rect's left is set to the total width of left decorations.</li>
+     *     <li>The Rect's top is set to the total height of top decorations.</li>
+     *     <li>The Rect's right is set to the total width of right decorations.</li>
+     *     <li>The Rect's bottom is set to total height of bottom decorations.</li>
+     * </ul>
+     * <p>
+     * Note that item decorations are automatically calculated when one of the LayoutManager's
+     * measure child methods is called. If you need to measure the child with custom specs via
+     * {@link View#measure(int, int)}, you can use this method to get decorations.
+     *
+     * @param child The child view whose decorations should be calculated
+     * @param outRect The Rect to hold result values
+     */
+    calculateItemDecorationsForChild(child:View, outRect:Rect):void  {
+        if (this.mRecyclerView == null) {
+            outRect.set(0, 0, 0, 0);
+            return;
+        }
+        const insets = this.mRecyclerView.getItemDecorInsetsForChild(child);
+        outRect.set(insets);
+    }
+
+    /**
+     * Returns the total height of item decorations applied to child's top.
+     * <p>
+     * Note that this value is not updated until the View is measured or
+     * {@link #calculateItemDecorationsForChild(View, Rect)} is called.
+     *
+     * @param child Child to query
+     * @return The total height of item decorations applied to the child's top.
+     */
+    getTopDecorationHeight(child:View):number  {
+        return (<LayoutParams>child.getLayoutParams()).mDecorInsets.top;
+    }
+
+    /**
+     * Returns the total height of item decorations applied to child's bottom.
+     * <p>
+     * Note that this value is not updated until the View is measured or
+     * {@link #calculateItemDecorationsForChild(View, Rect)} is called.
+     *
+     * @param child Child to query
+     * @return The total height of item decorations applied to the child's bottom.
+     */
+    getBottomDecorationHeight(child:View):number  {
+        return (<LayoutParams>child.getLayoutParams()).mDecorInsets.bottom;
+    }
+
+    /**
+     * Returns the total width of item decorations applied to child's left.
+     * <p>
+     * Note that this value is not updated until the View is measured or
+     * {@link #calculateItemDecorationsForChild(View, Rect)} is called.
+     *
+     * @param child Child to query
+     * @return The total width of item decorations applied to the child's left.
+     */
+    getLeftDecorationWidth(child:View):number  {
+        return (<LayoutParams>child.getLayoutParams()).mDecorInsets.left;
+    }
+
+    /**
+     * Returns the total width of item decorations applied to child's right.
+     * <p>
+     * Note that this value is not updated until the View is measured or
+     * {@link #calculateItemDecorationsForChild(View, Rect)} is called.
+     *
+     * @param child Child to query
+     * @return The total width of item decorations applied to the child's right.
+     */
+    getRightDecorationWidth(child:View):number  {
+        return (<LayoutParams>child.getLayoutParams()).mDecorInsets.right;
+    }
+
+    /**
+     * Called when searching for a focusable view in the given direction has failed
+     * for the current content of the RecyclerView.
+     *
+     * <p>This is the LayoutManager's opportunity to populate views in the given direction
+     * to fulfill the request if it can. The LayoutManager should attach and return
+     * the view to be focused. The default implementation returns null.</p>
+     *
+     * @param focused   The currently focused view
+     * @param direction One of {@link View#FOCUS_UP}, {@link View#FOCUS_DOWN},
+     *                  {@link View#FOCUS_LEFT}, {@link View#FOCUS_RIGHT},
+     *                  {@link View#FOCUS_BACKWARD}, {@link View#FOCUS_FORWARD}
+     *                  or 0 for not applicable
+     * @param recycler  The recycler to use for obtaining views for currently offscreen items
+     * @param state     Transient state of RecyclerView
+     * @return The chosen view to be focused
+     */
+    onFocusSearchFailed(focused:View, direction:number, recycler:Recycler, state:State):View  {
+        return null;
+    }
+
+    /**
+     * Called when a child of the RecyclerView wants a particular rectangle to be positioned
+     * onto the screen. See {@link ViewParent#requestChildRectangleOnScreen(android.view.View,
+     * android.graphics.Rect, boolean)} for more details.
+     *
+     * <p>The base implementation will attempt to perform a standard programmatic scroll
+     * to bring the given rect into view, within the padded area of the RecyclerView.</p>
+     *
+     * @param parent The RecyclerView this LayoutManager is bound to
+     * @param child The direct child making the request.
+     * @param rect  The rectangle in the child's coordinates the child
+     *              wishes to be on the screen.
+     * @param immediate True to forbid animated or delayed scrolling,
+     *                  false otherwise
+     * @return Whether the group scrolled to handle the operation
+     */
+    requestChildRectangleOnScreen(parent:RecyclerView, child:View, rect:Rect, immediate:boolean):boolean  {
+        const parentLeft = this.getPaddingLeft();
+        const parentTop = this.getPaddingTop();
+        const parentRight = this.getWidth() - this.getPaddingRight();
+        const parentBottom = this.getHeight() - this.getPaddingBottom();
+        const childLeft = child.getLeft() + rect.left;
+        const childTop = child.getTop() + rect.top;
+        const childRight = childLeft + rect.width();
+        const childBottom = childTop + rect.height();
+        const offScreenLeft = Math.min(0, childLeft - parentLeft);
+        const offScreenTop = Math.min(0, childTop - parentTop);
+        const offScreenRight = Math.max(0, childRight - parentRight);
+        const offScreenBottom = Math.max(0, childBottom - parentBottom);
+        // Favor the "start" layout direction over the end when bringing one side or the other
+        // of a large rect into view. If we decide to bring in end because start is already
+        // visible, limit the scroll such that start won't go out of bounds.
+        let dx:number;
+        if (this.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL) {
+            dx = offScreenRight != 0 ? offScreenRight : Math.max(offScreenLeft, childRight - parentRight);
+        } else {
+            dx = offScreenLeft != 0 ? offScreenLeft : Math.min(childLeft - parentLeft, offScreenRight);
+        }
+        // Favor bringing the top into view over the bottom. If top is already visible and
+        // we should scroll to make bottom visible, make sure top does not go out of bounds.
+        const dy = offScreenTop != 0 ? offScreenTop : Math.min(childTop - parentTop, offScreenBottom);
+        if (dx != 0 || dy != 0) {
+            if (immediate) {
+                parent.scrollBy(dx, dy);
+            } else {
+                parent.smoothScrollBy(dx, dy);
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Called when a descendant view of the RecyclerView requests focus.
+     *
+     * <p>A LayoutManager wishing to keep focused views aligned in a specific
+     * portion of the view may implement that behavior in an override of this method.</p>
+     *
+     * <p>If the LayoutManager executes different behavior that should override the default
+     * behavior of scrolling the focused child on screen instead of running alongside it,
+     * this method should return true.</p>
+     *
+     * @param parent  The RecyclerView hosting this LayoutManager
+     * @param state   Current state of RecyclerView
+     * @param child   Direct child of the RecyclerView containing the newly focused view
+     * @param focused The newly focused view. This may be the same view as child or it may be
+     *                null
+     * @return true if the default scroll behavior should be suppressed
+     */
+    onRequestChildFocus(parent:RecyclerView, state:State, child:View, focused:View):boolean  {
+        return this.isSmoothScrolling() || parent.isAnimating();
+    }
+
+    /**
+     * Called if the RecyclerView this LayoutManager is bound to has a different adapter set.
+     * The LayoutManager may use this opportunity to clear caches and configure state such
+     * that it can relayout appropriately with the new data and potentially new view types.
+     *
+     * <p>The default implementation removes all currently attached views.</p>
+     *
+     * @param oldAdapter The previous adapter instance. Will be null if there was previously no
+     *                   adapter.
+     * @param newAdapter The new adapter instance. Might be null if
+     *                   {@link #setAdapter(RecyclerView.Adapter)} is called with {@code null}.
+     */
+    onAdapterChanged(oldAdapter:Adapter<any>, newAdapter:Adapter<any>):void  {
+    }
+
+    /**
+     * Called when items have been added to the adapter. The LayoutManager may choose to
+     * requestLayout if the inserted items would require refreshing the currently visible set
+     * of child views. (e.g. currently empty space would be filled by appended items, etc.)
+     *
+     * @param recyclerView
+     * @param positionStart
+     * @param itemCount
+     */
+    onItemsAdded(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+    }
+
+    /**
+     * Called when items have been removed from the adapter.
+     *
+     * @param recyclerView
+     * @param positionStart
+     * @param itemCount
+     */
+    onItemsRemoved(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+    }
+
+    /**
+     * Called when items have been changed in the adapter.
+     *
+     * @param recyclerView
+     * @param positionStart
+     * @param itemCount
+     */
+    onItemsUpdated(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+    }
+
+    /**
+     * Called when an item is moved withing the adapter.
+     * <p>
+     * Note that, an item may also change position in response to another ADD/REMOVE/MOVE
+     * operation. This callback is only called if and only if {@link Adapter#notifyItemMoved}
+     * is called.
+     *
+     * @param recyclerView
+     * @param from
+     * @param to
+     * @param itemCount
+     */
+    onItemsMoved(recyclerView:RecyclerView, from:number, to:number, itemCount:number):void  {
+    }
+
+    /**
+     * Called when {@link Adapter#notifyDataSetChanged()} is triggered instead of giving
+     * detailed information on what has actually changed.
+     *
+     * @param recyclerView
+     */
+    onItemsChanged(recyclerView:RecyclerView):void  {
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeHorizontalScrollExtent()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current state of RecyclerView
+     * @return The horizontal extent of the scrollbar's thumb
+     * @see RecyclerView#computeHorizontalScrollExtent()
+     */
+    computeHorizontalScrollExtent(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeHorizontalScrollOffset()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current State of RecyclerView where you can find total item count
+     * @return The horizontal offset of the scrollbar's thumb
+     * @see RecyclerView#computeHorizontalScrollOffset()
+     */
+    computeHorizontalScrollOffset(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeHorizontalScrollRange()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current State of RecyclerView where you can find total item count
+     * @return The total horizontal range represented by the vertical scrollbar
+     * @see RecyclerView#computeHorizontalScrollRange()
+     */
+    computeHorizontalScrollRange(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeVerticalScrollExtent()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current state of RecyclerView
+     * @return The vertical extent of the scrollbar's thumb
+     * @see RecyclerView#computeVerticalScrollExtent()
+     */
+    computeVerticalScrollExtent(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeVerticalScrollOffset()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current State of RecyclerView where you can find total item count
+     * @return The vertical offset of the scrollbar's thumb
+     * @see RecyclerView#computeVerticalScrollOffset()
+     */
+    computeVerticalScrollOffset(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * <p>Override this method if you want to support scroll bars.</p>
+     *
+     * <p>Read {@link RecyclerView#computeVerticalScrollRange()} for details.</p>
+     *
+     * <p>Default implementation returns 0.</p>
+     *
+     * @param state Current State of RecyclerView where you can find total item count
+     * @return The total vertical range represented by the vertical scrollbar
+     * @see RecyclerView#computeVerticalScrollRange()
+     */
+    computeVerticalScrollRange(state:State):number  {
+        return 0;
+    }
+
+    /**
+     * Measure the attached RecyclerView. Implementations must call
+     * {@link #setMeasuredDimension(int, int)} before returning.
+     *
+     * <p>The default implementation will handle EXACTLY measurements and respect
+     * the minimum width and height properties of the host RecyclerView if measured
+     * as UNSPECIFIED. AT_MOST measurements will be treated as EXACTLY and the RecyclerView
+     * will consume all available space.</p>
+     *
+     * @param recycler Recycler
+     * @param state Transient state of RecyclerView
+     * @param widthSpec Width {@link android.view.View.MeasureSpec}
+     * @param heightSpec Height {@link android.view.View.MeasureSpec}
+     */
+    onMeasure(recycler:Recycler, state:State, widthSpec:number, heightSpec:number):void  {
+        this.mRecyclerView.defaultOnMeasure(widthSpec, heightSpec);
+    }
+
+    /**
+     * {@link View#setMeasuredDimension(int, int) Set the measured dimensions} of the
+     * host RecyclerView.
+     *
+     * @param widthSize Measured width
+     * @param heightSize Measured height
+     */
+    setMeasuredDimension(widthSize:number, heightSize:number):void  {
+        this.mRecyclerView.setMeasuredDimension(widthSize, heightSize);
+    }
+
+    /**
+     * @return The host RecyclerView's {@link View#getMinimumWidth()}
+     */
+    getMinimumWidth():number  {
+        return this.mRecyclerView.getMinimumWidth();
+    }
+
+    /**
+     * @return The host RecyclerView's {@link View#getMinimumHeight()}
+     */
+    getMinimumHeight():number  {
+        return this.mRecyclerView.getMinimumHeight();
+    }
+
+    /**
+     * RecyclerView calls this method to notify LayoutManager that scroll state has changed.
+     *
+     * @param state The new scroll state for RecyclerView
+     */
+    onScrollStateChanged(state:number):void  {
+    }
+
+    /**
+     * Removes all views and recycles them using the given recycler.
+     * <p>
+     * If you want to clean cached views as well, you should call {@link Recycler#clear()} too.
+     * <p>
+     * If a View is marked as "ignored", it is not removed nor recycled.
+     *
+     * @param recycler Recycler to use to recycle children
+     * @see #removeAndRecycleView(View, Recycler)
+     * @see #removeAndRecycleViewAt(int, Recycler)
+     * @see #ignoreView(View)
+     */
+    removeAndRecycleAllViews(recycler:Recycler):void  {
+        for (let i = this.getChildCount() - 1; i >= 0; i--) {
+            const view = this.getChildAt(i);
+            if (!RecyclerView.getChildViewHolderInt(view).shouldIgnore()) {
+                this.removeAndRecycleViewAt(i, recycler);
+            }
+        }
+    }
+
+    stopSmoothScroller():void  {
+        if (this.mSmoothScroller != null) {
+            this.mSmoothScroller.stop();
+        }
+    }
+
+    onSmoothScrollerStopped(smoothScroller:SmoothScroller):void  {
+        if (this.mSmoothScroller == smoothScroller) {
+            this.mSmoothScroller = null;
+        }
+    }
+}
+
+/**
+ * An ItemDecoration allows the application to add a special drawing and layout offset
+ * to specific item views from the adapter's data set. This can be useful for drawing dividers
+ * between items, highlights, visual grouping boundaries and more.
+ *
+ * <p>All ItemDecorations are drawn in the order they were added, before the item
+ * views (in {@link ItemDecoration#onDraw(Canvas, RecyclerView, RecyclerView.State) onDraw()}
+ * and after the items (in {@link ItemDecoration#onDrawOver(Canvas, RecyclerView,
+ * RecyclerView.State)}.</p>
+ */
+export class ItemDecoration {
+
+    /**
+     * Draw any appropriate decorations into the Canvas supplied to the RecyclerView.
+     * Any content drawn by this method will be drawn before the item views are drawn,
+     * and will thus appear underneath the views.
+     *
+     * @param c Canvas to draw into
+     * @param parent RecyclerView this ItemDecoration is drawing into
+     * @param state The current state of RecyclerView
+     */
+    onDraw(c:Canvas, parent:RecyclerView, state:State):void  {
+    }
+
+    /**
+     * Draw any appropriate decorations into the Canvas supplied to the RecyclerView.
+     * Any content drawn by this method will be drawn after the item views are drawn
+     * and will thus appear over the views.
+     *
+     * @param c Canvas to draw into
+     * @param parent RecyclerView this ItemDecoration is drawing into
+     * @param state The current state of RecyclerView.
+     */
+    onDrawOver(c:Canvas, parent:RecyclerView, state:State):void  {
+    }
+
+    /**
+     * Retrieve any offsets for the given item. Each field of <code>outRect</code> specifies
+     * the number of pixels that the item view should be inset by, similar to padding or margin.
+     * The default implementation sets the bounds of outRect to 0 and returns.
+     *
+     * <p>
+     * If this ItemDecoration does not affect the positioning of item views, it should set
+     * all four fields of <code>outRect</code> (left, top, right, bottom) to zero
+     * before returning.
+     *
+     * <p>
+     * If you need to access Adapter for additional data, you can call
+     * {@link RecyclerView#getChildAdapterPosition(View)} to get the adapter position of the
+     * View.
+     *
+     * @param outRect Rect to receive the output.
+     * @param view    The child view to decorate
+     * @param parent  RecyclerView this ItemDecoration is decorating
+     * @param state   The current state of RecyclerView.
+     */
+    getItemOffsets(outRect:Rect, view:View, parent:RecyclerView, state:State):void  {
+        outRect.set(0, 0, 0, 0);
+    }
+}
+
+/**
+ * An OnItemTouchListener allows the application to intercept touch events in progress at the
+ * view hierarchy level of the RecyclerView before those touch events are considered for
+ * RecyclerView's own scrolling behavior.
+ *
+ * <p>This can be useful for applications that wish to implement various forms of gestural
+ * manipulation of item views within the RecyclerView. OnItemTouchListeners may intercept
+ * a touch interaction already in progress even if the RecyclerView is already handling that
+ * gesture stream itself for the purposes of scrolling.</p>
+ *
+ * @see SimpleOnItemTouchListener
+ */
+export interface OnItemTouchListener {
+
+    /**
+     * Silently observe and/or take over touch events sent to the RecyclerView
+     * before they are handled by either the RecyclerView itself or its child views.
+     *
+     * <p>The onInterceptTouchEvent methods of each attached OnItemTouchListener will be run
+     * in the order in which each listener was added, before any other touch processing
+     * by the RecyclerView itself or child views occurs.</p>
+     *
+     * @param e MotionEvent describing the touch event. All coordinates are in
+     *          the RecyclerView's coordinate system.
+     * @return true if this OnItemTouchListener wishes to begin intercepting touch events, false
+     *         to continue with the current behavior and continue observing future events in
+     *         the gesture.
+     */
+    onInterceptTouchEvent(rv:RecyclerView, e:MotionEvent):boolean ;
+
+    /**
+     * Process a touch event as part of a gesture that was claimed by returning true from
+     * a previous call to {@link #onInterceptTouchEvent}.
+     *
+     * @param e MotionEvent describing the touch event. All coordinates are in
+     *          the RecyclerView's coordinate system.
+     */
+    onTouchEvent(rv:RecyclerView, e:MotionEvent):void ;
+
+    /**
+     * Called when a child of RecyclerView does not want RecyclerView and its ancestors to
+     * intercept touch events with
+     * {@link ViewGroup#onInterceptTouchEvent(MotionEvent)}.
+     *
+     * @param disallowIntercept True if the child does not want the parent to
+     *            intercept touch events.
+     * @see ViewParent#requestDisallowInterceptTouchEvent(boolean)
+     */
+    onRequestDisallowInterceptTouchEvent(disallowIntercept:boolean):void ;
+}
+
+/**
+ * An implementation of {@link RecyclerView.OnItemTouchListener} that has empty method bodies and
+ * default return values.
+ * <p>
+ * You may prefer to extend this class if you don't need to override all methods. Another
+ * benefit of using this class is future compatibility. As the interface may change, we'll
+ * always provide a default implementation on this class so that your code won't break when
+ * you update to a new version of the support library.
+ */
+export class SimpleOnItemTouchListener implements OnItemTouchListener {
+
+    onInterceptTouchEvent(rv:RecyclerView, e:MotionEvent):boolean  {
+        return false;
+    }
+
+    onTouchEvent(rv:RecyclerView, e:MotionEvent):void  {
+    }
+
+    onRequestDisallowInterceptTouchEvent(disallowIntercept:boolean):void  {
+    }
+}
+
+/**
+ * An OnScrollListener can be set on a RecyclerView to receive messages
+ * when a scrolling event has occurred on that RecyclerView.
+ *
+ * @see RecyclerView#setOnScrollListener(OnScrollListener) and
+ * RecyclerView#addOnScrollListener(OnScrollListener)
+ *
+ * If you are planning to have several listeners at the same time, use
+ * RecyclerView#addOnScrollListener. If there will be only one listener at the time and you
+ * want your components to be able to easily replace the listener use
+ * RecyclerView#setOnScrollListener.
+ */
+export class OnScrollListener {
+
+    /**
+     * Callback method to be invoked when RecyclerView's scroll state changes.
+     *
+     * @param recyclerView The RecyclerView whose scroll state has changed.
+     * @param newState     The updated scroll state. One of {@link #SCROLL_STATE_IDLE},
+     *                     {@link #SCROLL_STATE_DRAGGING} or {@link #SCROLL_STATE_SETTLING}.
+     */
+    onScrollStateChanged(recyclerView:RecyclerView, newState:number):void  {
+    }
+
+    /**
+     * Callback method to be invoked when the RecyclerView has been scrolled. This will be
+     * called after the scroll has completed.
+     * <p>
+     * This callback will also be called if visible item range changes after a layout
+     * calculation. In that case, dx and dy will be 0.
+     *
+     * @param recyclerView The RecyclerView which scrolled.
+     * @param dx The amount of horizontal scroll.
+     * @param dy The amount of vertical scroll.
+     */
+    onScrolled(recyclerView:RecyclerView, dx:number, dy:number):void  {
+    }
+}
+
+/**
+ * A RecyclerListener can be set on a RecyclerView to receive messages whenever
+ * a view is recycled.
+ *
+ * @see RecyclerView#setRecyclerListener(RecyclerListener)
+ */
+export interface RecyclerListener {
+
+    /**
+     * This method is called whenever the view in the ViewHolder is recycled.
+     *
+     * RecyclerView calls this method right before clearing ViewHolder's internal data and
+     * sending it to RecycledViewPool. This way, if ViewHolder was holding valid information
+     * before being recycled, you can call {@link ViewHolder#getAdapterPosition()} to get
+     * its adapter position.
+     *
+     * @param holder The ViewHolder containing the view that was recycled
+     */
+    onViewRecycled(holder:ViewHolder):void ;
+}
+
+/**
+ * {@link android.view.ViewGroup.MarginLayoutParams LayoutParams} subclass for children of
+ * {@link RecyclerView}. Custom {@link LayoutManager layout managers} are encouraged
+ * to create their own subclass of this <code>LayoutParams</code> class
+ * to store any additional required per-child view metadata about the layout.
+ */
+export class LayoutParams extends ViewGroup.MarginLayoutParams {
+
+    mViewHolder:ViewHolder;
+
+    mDecorInsets:Rect = new Rect();
+
+    mInsetsDirty:boolean = true;
+
+    // Flag is set to true if the view is bound while it is detached from RV.
+    // In this case, we need to manually call invalidate after view is added to guarantee that
+    // invalidation is populated through the View hierarchy
+    mPendingInvalidate:boolean = false;
+
+    constructor();
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(width:number, height:number);
+    constructor(...args) {
+        super(...args);
+    }
+
+    /**
+     * Returns true if the view this LayoutParams is attached to needs to have its content
+     * updated from the corresponding adapter.
+     *
+     * @return true if the view should have its content updated
+     */
+    viewNeedsUpdate():boolean  {
+        return this.mViewHolder.needsUpdate();
+    }
+
+    /**
+     * Returns true if the view this LayoutParams is attached to is now representing
+     * potentially invalid data. A LayoutManager should scrap/recycle it.
+     *
+     * @return true if the view is invalid
+     */
+    isViewInvalid():boolean  {
+        return this.mViewHolder.isInvalid();
+    }
+
+    /**
+     * Returns true if the adapter data item corresponding to the view this LayoutParams
+     * is attached to has been removed from the data set. A LayoutManager may choose to
+     * treat it differently in order to animate its outgoing or disappearing state.
+     *
+     * @return true if the item the view corresponds to was removed from the data set
+     */
+    isItemRemoved():boolean  {
+        return this.mViewHolder.isRemoved();
+    }
+
+    /**
+     * Returns true if the adapter data item corresponding to the view this LayoutParams
+     * is attached to has been changed in the data set. A LayoutManager may choose to
+     * treat it differently in order to animate its changing state.
+     *
+     * @return true if the item the view corresponds to was changed in the data set
+     */
+    isItemChanged():boolean  {
+        return this.mViewHolder.isChanged();
+    }
+
+    /**
+     * @deprecated use {@link #getViewLayoutPosition()} or {@link #getViewAdapterPosition()}
+     */
+    getViewPosition():number  {
+        return this.mViewHolder.getPosition();
+    }
+
+    /**
+     * Returns the adapter position that the view this LayoutParams is attached to corresponds
+     * to as of latest layout calculation.
+     *
+     * @return the adapter position this view as of latest layout pass
+     */
+    getViewLayoutPosition():number  {
+        return this.mViewHolder.getLayoutPosition();
+    }
+
+    /**
+     * Returns the up-to-date adapter position that the view this LayoutParams is attached to
+     * corresponds to.
+     *
+     * @return the up-to-date adapter position this view. It may return
+     * {@link RecyclerView#NO_POSITION} if item represented by this View has been removed or
+     * its up-to-date position cannot be calculated.
+     */
+    getViewAdapterPosition():number  {
+        return this.mViewHolder.getAdapterPosition();
+    }
+}
+
+/**
+ * <p>Base class for smooth scrolling. Handles basic tracking of the target view position and
+ * provides methods to trigger a programmatic scroll.</p>
+ *
+ * @see LinearSmoothScroller
+ */
+export abstract class SmoothScroller {
+
+    private mTargetPosition:number = RecyclerView.NO_POSITION;
+
+    private mRecyclerView:RecyclerView;
+
+    private mLayoutManager:LayoutManager;
+
+    private mPendingInitialRun:boolean = false;
+
+    private mRunning:boolean = false;
+
+    private mTargetView:View;
+
+    private mRecyclingAction:SmoothScroller.Action = new SmoothScroller.Action(0, 0);
+
+    /**
+     * Starts a smooth scroll for the given target position.
+     * <p>In each animation step, {@link RecyclerView} will check
+     * for the target view and call either
+     * {@link #onTargetFound(android.view.View, RecyclerView.State, SmoothScroller.Action)} or
+     * {@link #onSeekTargetStep(int, int, RecyclerView.State, SmoothScroller.Action)} until
+     * SmoothScroller is stopped.</p>
+     *
+     * <p>Note that if RecyclerView finds the target view, it will automatically stop the
+     * SmoothScroller. This <b>does not</b> mean that scroll will stop, it only means it will
+     * stop calling SmoothScroller in each animation step.</p>
+     */
+    start(recyclerView:RecyclerView, layoutManager:LayoutManager):void  {
+        this.mRecyclerView = recyclerView;
+        this.mLayoutManager = layoutManager;
+        if (this.mTargetPosition == RecyclerView.NO_POSITION) {
+            throw Error("Invalid target position");
+        }
+        this.mRecyclerView.mState.mTargetPosition = this.mTargetPosition;
+        this.mRunning = true;
+        this.mPendingInitialRun = true;
+        this.mTargetView = this.findViewByPosition(this.getTargetPosition());
+        this.onStart();
+        this.mRecyclerView.mViewFlinger.postOnAnimation();
+    }
+
+    setTargetPosition(targetPosition:number):void  {
+        this.mTargetPosition = targetPosition;
+    }
+
+    /**
+     * @return The LayoutManager to which this SmoothScroller is attached
+     */
+    getLayoutManager():LayoutManager  {
+        return this.mLayoutManager;
+    }
+
+    /**
+     * Stops running the SmoothScroller in each animation callback. Note that this does not
+     * cancel any existing {@link Action} updated by
+     * {@link #onTargetFound(android.view.View, RecyclerView.State, SmoothScroller.Action)} or
+     * {@link #onSeekTargetStep(int, int, RecyclerView.State, SmoothScroller.Action)}.
+     */
+    stop():void  {
+        if (!this.mRunning) {
+            return;
+        }
+        this.onStop();
+        this.mRecyclerView.mState.mTargetPosition = RecyclerView.NO_POSITION;
+        this.mTargetView = null;
+        this.mTargetPosition = RecyclerView.NO_POSITION;
+        this.mPendingInitialRun = false;
+        this.mRunning = false;
+        // trigger a cleanup
+        this.mLayoutManager.onSmoothScrollerStopped(this);
+        // clear references to avoid any potential leak by a custom smooth scroller
+        this.mLayoutManager = null;
+        this.mRecyclerView = null;
+    }
+
+    /**
+     * Returns true if SmoothScroller has been started but has not received the first
+     * animation
+     * callback yet.
+     *
+     * @return True if this SmoothScroller is waiting to start
+     */
+    isPendingInitialRun():boolean  {
+        return this.mPendingInitialRun;
+    }
+
+    /**
+     * @return True if SmoothScroller is currently active
+     */
+    isRunning():boolean  {
+        return this.mRunning;
+    }
+
+    /**
+     * Returns the adapter position of the target item
+     *
+     * @return Adapter position of the target item or
+     * {@link RecyclerView#NO_POSITION} if no target view is set.
+     */
+    getTargetPosition():number  {
+        return this.mTargetPosition;
+    }
+
+    onAnimation(dx:number, dy:number):void  {
+        const recyclerView = this.mRecyclerView;
+        if (!this.mRunning || this.mTargetPosition == RecyclerView.NO_POSITION || recyclerView == null) {
+            this.stop();
+        }
+        this.mPendingInitialRun = false;
+        if (this.mTargetView != null) {
+            // verify target position
+            if (this.getChildPosition(this.mTargetView) == this.mTargetPosition) {
+                this.onTargetFound(this.mTargetView, recyclerView.mState, this.mRecyclingAction);
+                this.mRecyclingAction.runIfNecessary(recyclerView);
+                this.stop();
+            } else {
+                Log.e(RecyclerView.TAG, "Passed over target position while smooth scrolling.");
+                this.mTargetView = null;
+            }
+        }
+        if (this.mRunning) {
+            this.onSeekTargetStep(dx, dy, recyclerView.mState, this.mRecyclingAction);
+            let hadJumpTarget = this.mRecyclingAction.hasJumpTarget();
+            this.mRecyclingAction.runIfNecessary(recyclerView);
+            if (hadJumpTarget) {
+                // It is not stopped so needs to be restarted
+                if (this.mRunning) {
+                    this.mPendingInitialRun = true;
+                    recyclerView.mViewFlinger.postOnAnimation();
+                } else {
+                    this.stop();
+                }
+            }
+        }
+    }
+
+    /**
+     * @see RecyclerView#getChildLayoutPosition(android.view.View)
+     */
+    getChildPosition(view:View):number  {
+        return this.mRecyclerView.getChildLayoutPosition(view);
+    }
+
+    /**
+     * @see RecyclerView.LayoutManager#getChildCount()
+     */
+    getChildCount():number  {
+        return this.mRecyclerView.mLayout.getChildCount();
+    }
+
+    /**
+     * @see RecyclerView.LayoutManager#findViewByPosition(int)
+     */
+    findViewByPosition(position:number):View  {
+        return this.mRecyclerView.mLayout.findViewByPosition(position);
+    }
+
+    /**
+     * @see RecyclerView#scrollToPosition(int)
+     */
+    instantScrollToPosition(position:number):void  {
+        this.mRecyclerView.scrollToPosition(position);
+    }
+
+    onChildAttachedToWindow(child:View):void  {
+        if (this.getChildPosition(child) == this.getTargetPosition()) {
+            this.mTargetView = child;
+            if (RecyclerView.DEBUG) {
+                Log.d(RecyclerView.TAG, "smooth scroll target view has been attached");
+            }
+        }
+    }
+
+    /**
+     * Normalizes the vector.
+     * @param scrollVector The vector that points to the target scroll position
+     */
+    protected normalize(scrollVector:Point):void  {
+        const magnitude = Math.sqrt(scrollVector.x * scrollVector.x + scrollVector.y * scrollVector.y);
+        scrollVector.x /= magnitude;
+        scrollVector.y /= magnitude;
+    }
+
+    /**
+     * Called when smooth scroll is started. This might be a good time to do setup.
+     */
+    protected abstract onStart():void ;
+
+    /**
+     * Called when smooth scroller is stopped. This is a good place to cleanup your state etc.
+     * @see #stop()
+     */
+    protected abstract onStop():void ;
+
+    /**
+     * <p>RecyclerView will call this method each time it scrolls until it can find the target
+     * position in the layout.</p>
+     * <p>SmoothScroller should check dx, dy and if scroll should be changed, update the
+     * provided {@link Action} to define the next scroll.</p>
+     *
+     * @param dx        Last scroll amount horizontally
+     * @param dy        Last scroll amount verticaully
+     * @param state     Transient state of RecyclerView
+     * @param action    If you want to trigger a new smooth scroll and cancel the previous one,
+     *                  update this object.
+     */
+    protected abstract onSeekTargetStep(dx:number, dy:number, state:State, action:SmoothScroller.Action):void ;
+
+    /**
+     * Called when the target position is laid out. This is the last callback SmoothScroller
+     * will receive and it should update the provided {@link Action} to define the scroll
+     * details towards the target view.
+     * @param targetView    The view element which render the target position.
+     * @param state         Transient state of RecyclerView
+     * @param action        Action instance that you should update to define final scroll action
+     *                      towards the targetView
+     */
+    protected abstract onTargetFound(targetView:View, state:State, action:SmoothScroller.Action):void ;
+}
+
+export module SmoothScroller{
+/**
+ * Holds information about a smooth scroll request by a {@link SmoothScroller}.
+ */
+export class Action {
+
+    static UNDEFINED_DURATION:number = Number.MIN_SAFE_INTEGER;
+
+    private mDx:number = 0;
+
+    private mDy:number = 0;
+
+    private mDuration:number = 0;
+
+    private mJumpToPosition:number = RecyclerView.NO_POSITION;
+
+    private mInterpolator:Interpolator;
+
+    private changed:boolean = false;
+
+    // we track this variable to inform custom implementer if they are updating the action
+    // in every animation callback
+    private consecutiveUpdates:number = 0;
+
+    /**
+     * @param dx Pixels to scroll horizontally
+     * @param dy Pixels to scroll vertically
+     * @param duration Duration of the animation in milliseconds
+     * @param interpolator Interpolator to be used when calculating scroll position in each
+     *                     animation step
+     */
+    constructor(dx:number, dy:number, duration = Action.UNDEFINED_DURATION, interpolator:Interpolator = null) {
+        this.mDx = dx;
+        this.mDy = dy;
+        this.mDuration = duration;
+        this.mInterpolator = interpolator;
+    }
+
+    /**
+     * Instead of specifying pixels to scroll, use the target position to jump using
+     * {@link RecyclerView#scrollToPosition(int)}.
+     * <p>
+     * You may prefer using this method if scroll target is really far away and you prefer
+     * to jump to a location and smooth scroll afterwards.
+     * <p>
+     * Note that calling this method takes priority over other update methods such as
+     * {@link #update(int, int, int, Interpolator)}, {@link #setX(float)},
+     * {@link #setY(float)} and #{@link #setInterpolator(Interpolator)}. If you call
+     * {@link #jumpTo(int)}, the other changes will not be considered for this animation
+     * frame.
+     *
+     * @param targetPosition The target item position to scroll to using instant scrolling.
+     */
+    jumpTo(targetPosition:number):void  {
+        this.mJumpToPosition = targetPosition;
+    }
+
+    hasJumpTarget():boolean  {
+        return this.mJumpToPosition >= 0;
+    }
+
+    runIfNecessary(recyclerView:RecyclerView):void  {
+        if (this.mJumpToPosition >= 0) {
+            const position = this.mJumpToPosition;
+            this.mJumpToPosition = RecyclerView.NO_POSITION;
+            recyclerView.jumpToPositionForSmoothScroller(position);
+            this.changed = false;
+            return;
+        }
+        if (this.changed) {
+            this.validate();
+            if (this.mInterpolator == null) {
+                if (this.mDuration == Action.UNDEFINED_DURATION) {
+                    recyclerView.mViewFlinger.smoothScrollBy(this.mDx, this.mDy);
+                } else {
+                    recyclerView.mViewFlinger.smoothScrollBy(this.mDx, this.mDy, this.mDuration);
+                }
+            } else {
+                recyclerView.mViewFlinger.smoothScrollBy(this.mDx, this.mDy, this.mDuration, this.mInterpolator);
+            }
+            this.consecutiveUpdates++;
+            if (this.consecutiveUpdates > 10) {
+                // A new action is being set in every animation step. This looks like a bad
+                // implementation. Inform developer.
+                Log.e(RecyclerView.TAG, "Smooth Scroll action is being updated too frequently. Make sure" + " you are not changing it unless necessary");
+            }
+            this.changed = false;
+        } else {
+            this.consecutiveUpdates = 0;
+        }
+    }
+
+    private validate():void  {
+        if (this.mInterpolator != null && this.mDuration < 1) {
+            throw Error("If you provide an interpolator, you must" + " set a positive duration");
+        } else if (this.mDuration < 1) {
+            throw Error("Scroll duration must be a positive number");
+        }
+    }
+
+    getDx():number  {
+        return this.mDx;
+    }
+
+    setDx(dx:number):void  {
+        this.changed = true;
+        this.mDx = dx;
+    }
+
+    getDy():number  {
+        return this.mDy;
+    }
+
+    setDy(dy:number):void  {
+        this.changed = true;
+        this.mDy = dy;
+    }
+
+    getDuration():number  {
+        return this.mDuration;
+    }
+
+    setDuration(duration:number):void  {
+        this.changed = true;
+        this.mDuration = duration;
+    }
+
+    getInterpolator():Interpolator  {
+        return this.mInterpolator;
+    }
+
+    /**
+     * Sets the interpolator to calculate scroll steps
+     * @param interpolator The interpolator to use. If you specify an interpolator, you must
+     *                     also set the duration.
+     * @see #setDuration(int)
+     */
+    setInterpolator(interpolator:Interpolator):void  {
+        this.changed = true;
+        this.mInterpolator = interpolator;
+    }
+
+    /**
+     * Updates the action with given parameters.
+     * @param dx Pixels to scroll horizontally
+     * @param dy Pixels to scroll vertically
+     * @param duration Duration of the animation in milliseconds
+     * @param interpolator Interpolator to be used when calculating scroll position in each
+     *                     animation step
+     */
+    update(dx:number, dy:number, duration:number, interpolator:Interpolator):void  {
+        this.mDx = dx;
+        this.mDy = dy;
+        this.mDuration = duration;
+        this.mInterpolator = interpolator;
+        this.changed = true;
+    }
+}
+}
+
+/**
+ * <p>Contains useful information about the current RecyclerView state like target scroll
+ * position or view focus. State object can also keep arbitrary data, identified by resource
+ * ids.</p>
+ * <p>Often times, RecyclerView components will need to pass information between each other.
+ * To provide a well defined data bus between components, RecyclerView passes the same State
+ * object to component callbacks and these components can use it to exchange data.</p>
+ * <p>If you implement custom components, you can use State's put/get/remove methods to pass
+ * data between your components without needing to manage their lifecycles.</p>
+ */
+export class State {
+
+    mTargetPosition:number = RecyclerView.NO_POSITION;
+
+    private mData:SparseArray<any>;
+
+    /**
+     * Number of items adapter has.
+     */
+    mItemCount:number = 0;
+
+    /**
+     * Number of items adapter had in the previous layout.
+     */
+    mPreviousLayoutItemCount:number = 0;
+
+    /**
+     * Number of items that were NOT laid out but has been deleted from the adapter after the
+     * previous layout.
+     */
+    mDeletedInvisibleItemCountSincePreviousLayout:number = 0;
+
+    mStructureChanged:boolean = false;
+
+    mInPreLayout:boolean = false;
+
+    mRunSimpleAnimations:boolean = false;
+
+    mRunPredictiveAnimations:boolean = false;
+
+    reset():State  {
+        this.mTargetPosition = RecyclerView.NO_POSITION;
+        if (this.mData != null) {
+            this.mData.clear();
+        }
+        this.mItemCount = 0;
+        this.mStructureChanged = false;
+        return this;
+    }
+
+    isPreLayout():boolean  {
+        return this.mInPreLayout;
+    }
+
+    /**
+     * Returns whether RecyclerView will run predictive animations in this layout pass
+     * or not.
+     *
+     * @return true if RecyclerView is calculating predictive animations to be run at the end
+     *         of the layout pass.
+     */
+    willRunPredictiveAnimations():boolean  {
+        return this.mRunPredictiveAnimations;
+    }
+
+    /**
+     * Returns whether RecyclerView will run simple animations in this layout pass
+     * or not.
+     *
+     * @return true if RecyclerView is calculating simple animations to be run at the end of
+     *         the layout pass.
+     */
+    willRunSimpleAnimations():boolean  {
+        return this.mRunSimpleAnimations;
+    }
+
+    /**
+     * Removes the mapping from the specified id, if there was any.
+     * @param resourceId Id of the resource you want to remove. It is suggested to use R.id.* to
+     *                   preserve cross functionality and avoid conflicts.
+     */
+    remove(resourceId:number):void  {
+        if (this.mData == null) {
+            return;
+        }
+        this.mData.remove(resourceId);
+    }
+
+    /**
+     * Gets the Object mapped from the specified id, or <code>null</code>
+     * if no such data exists.
+     *
+     * @param resourceId Id of the resource you want to remove. It is suggested to use R.id.*
+     *                   to
+     *                   preserve cross functionality and avoid conflicts.
+     */
+    get<T>(resourceId:number):T  {
+        if (this.mData == null) {
+            return null;
+        }
+        return <T>this.mData.get(resourceId);
+    }
+
+    /**
+     * Adds a mapping from the specified id to the specified value, replacing the previous
+     * mapping from the specified key if there was one.
+     *
+     * @param resourceId Id of the resource you want to add. It is suggested to use R.id.* to
+     *                   preserve cross functionality and avoid conflicts.
+     * @param data       The data you want to associate with the resourceId.
+     */
+    put(resourceId:number, data:any):void  {
+        if (this.mData == null) {
+            this.mData = new SparseArray<any>();
+        }
+        this.mData.put(resourceId, data);
+    }
+
+    /**
+     * If scroll is triggered to make a certain item visible, this value will return the
+     * adapter index of that item.
+     * @return Adapter index of the target item or
+     * {@link RecyclerView#NO_POSITION} if there is no target
+     * position.
+     */
+    getTargetScrollPosition():number  {
+        return this.mTargetPosition;
+    }
+
+    /**
+     * Returns if current scroll has a target position.
+     * @return true if scroll is being triggered to make a certain position visible
+     * @see #getTargetScrollPosition()
+     */
+    hasTargetScrollPosition():boolean  {
+        return this.mTargetPosition != RecyclerView.NO_POSITION;
+    }
+
+    /**
+     * @return true if the structure of the data set has changed since the last call to
+     *         onLayoutChildren, false otherwise
+     */
+    didStructureChange():boolean  {
+        return this.mStructureChanged;
+    }
+
+    /**
+     * Returns the total number of items that can be laid out. Note that this number is not
+     * necessarily equal to the number of items in the adapter, so you should always use this
+     * number for your position calculations and never access the adapter directly.
+     * <p>
+     * RecyclerView listens for Adapter's notify events and calculates the effects of adapter
+     * data changes on existing Views. These calculations are used to decide which animations
+     * should be run.
+     * <p>
+     * To support predictive animations, RecyclerView may rewrite or reorder Adapter changes to
+     * present the correct state to LayoutManager in pre-layout pass.
+     * <p>
+     * For example, a newly added item is not included in pre-layout item count because
+     * pre-layout reflects the contents of the adapter before the item is added. Behind the
+     * scenes, RecyclerView offsets {@link Recycler#getViewForPosition(int)} calls such that
+     * LayoutManager does not know about the new item's existence in pre-layout. The item will
+     * be available in second layout pass and will be included in the item count. Similar
+     * adjustments are made for moved and removed items as well.
+     * <p>
+     * You can get the adapter's item count via {@link LayoutManager#getItemCount()} method.
+     *
+     * @return The number of items currently available
+     * @see LayoutManager#getItemCount()
+     */
+    getItemCount():number  {
+        return this.mInPreLayout ? (this.mPreviousLayoutItemCount - this.mDeletedInvisibleItemCountSincePreviousLayout) : this.mItemCount;
+    }
+
+    toString():string  {
+        return "State{" + "mTargetPosition=" + this.mTargetPosition + ", mData=" + this.mData + ", mItemCount=" + this.mItemCount + ", mPreviousLayoutItemCount=" + this.mPreviousLayoutItemCount + ", mDeletedInvisibleItemCountSincePreviousLayout=" + this.mDeletedInvisibleItemCountSincePreviousLayout + ", mStructureChanged=" + this.mStructureChanged + ", mInPreLayout=" + this.mInPreLayout + ", mRunSimpleAnimations=" + this.mRunSimpleAnimations + ", mRunPredictiveAnimations=" + this.mRunPredictiveAnimations + '}';
+    }
+}
+
+/**
+ * This class defines the animations that take place on items as changes are made
+ * to the adapter.
+ *
+ * Subclasses of ItemAnimator can be used to implement custom animations for actions on
+ * ViewHolder items. The RecyclerView will manage retaining these items while they
+ * are being animated, but implementors must call the appropriate "Starting"
+ * ({@link #dispatchRemoveStarting(ViewHolder)}, {@link #dispatchMoveStarting(ViewHolder)},
+ * {@link #dispatchChangeStarting(ViewHolder, boolean)}, or
+ * {@link #dispatchAddStarting(ViewHolder)})
+ * and "Finished" ({@link #dispatchRemoveFinished(ViewHolder)},
+ * {@link #dispatchMoveFinished(ViewHolder)},
+ * {@link #dispatchChangeFinished(ViewHolder, boolean)},
+ * or {@link #dispatchAddFinished(ViewHolder)}) methods when each item animation is
+ * being started and ended.
+ *
+ * <p>By default, RecyclerView uses {@link DefaultItemAnimator}</p>
+ *
+ * @see #setItemAnimator(ItemAnimator)
+ */
+export abstract class ItemAnimator {
+
+    private mListener:ItemAnimator.ItemAnimatorListener = null;
+
+    private mFinishedListeners:ArrayList<ItemAnimator.ItemAnimatorFinishedListener> = new ArrayList<ItemAnimator.ItemAnimatorFinishedListener>();
+
+    private mAddDuration:number = 120;
+
+    private mRemoveDuration:number = 120;
+
+    private mMoveDuration:number = 250;
+
+    private mChangeDuration:number = 250;
+
+    private mSupportsChangeAnimations:boolean = true;
+
+    /**
+     * Gets the current duration for which all move animations will run.
+     *
+     * @return The current move duration
+     */
+    getMoveDuration():number  {
+        return this.mMoveDuration;
+    }
+
+    /**
+     * Sets the duration for which all move animations will run.
+     *
+     * @param moveDuration The move duration
+     */
+    setMoveDuration(moveDuration:number):void  {
+        this.mMoveDuration = moveDuration;
+    }
+
+    /**
+     * Gets the current duration for which all add animations will run.
+     *
+     * @return The current add duration
+     */
+    getAddDuration():number  {
+        return this.mAddDuration;
+    }
+
+    /**
+     * Sets the duration for which all add animations will run.
+     *
+     * @param addDuration The add duration
+     */
+    setAddDuration(addDuration:number):void  {
+        this.mAddDuration = addDuration;
+    }
+
+    /**
+     * Gets the current duration for which all remove animations will run.
+     *
+     * @return The current remove duration
+     */
+    getRemoveDuration():number  {
+        return this.mRemoveDuration;
+    }
+
+    /**
+     * Sets the duration for which all remove animations will run.
+     *
+     * @param removeDuration The remove duration
+     */
+    setRemoveDuration(removeDuration:number):void  {
+        this.mRemoveDuration = removeDuration;
+    }
+
+    /**
+     * Gets the current duration for which all change animations will run.
+     *
+     * @return The current change duration
+     */
+    getChangeDuration():number  {
+        return this.mChangeDuration;
+    }
+
+    /**
+     * Sets the duration for which all change animations will run.
+     *
+     * @param changeDuration The change duration
+     */
+    setChangeDuration(changeDuration:number):void  {
+        this.mChangeDuration = changeDuration;
+    }
+
+    /**
+     * Returns whether this ItemAnimator supports animations of change events.
+     *
+     * @return true if change animations are supported, false otherwise
+     */
+    getSupportsChangeAnimations():boolean  {
+        return this.mSupportsChangeAnimations;
+    }
+
+    /**
+     * Sets whether this ItemAnimator supports animations of item change events.
+     * If you set this property to false, actions on the data set which change the
+     * contents of items will not be animated. What those animations are is left
+     * up to the discretion of the ItemAnimator subclass, in its
+     * {@link #animateChange(ViewHolder, ViewHolder, int, int, int, int)} implementation.
+     * The value of this property is true by default.
+     *
+     * @param supportsChangeAnimations true if change animations are supported by
+     * this ItemAnimator, false otherwise. If the property is false, the ItemAnimator
+     * will not receive a call to
+     * {@link #animateChange(ViewHolder, ViewHolder, int, int, int, int)} when changes occur.
+     */
+    setSupportsChangeAnimations(supportsChangeAnimations:boolean):void  {
+        this.mSupportsChangeAnimations = supportsChangeAnimations;
+    }
+
+    /**
+     * Internal only:
+     * Sets the listener that must be called when the animator is finished
+     * animating the item (or immediately if no animation happens). This is set
+     * internally and is not intended to be set by external code.
+     *
+     * @param listener The listener that must be called.
+     */
+    setListener(listener:ItemAnimator.ItemAnimatorListener):void  {
+        this.mListener = listener;
+    }
+
+    /**
+     * Called when there are pending animations waiting to be started. This state
+     * is governed by the return values from {@link #animateAdd(ViewHolder) animateAdd()},
+     * {@link #animateMove(ViewHolder, int, int, int, int) animateMove()}, and
+     * {@link #animateRemove(ViewHolder) animateRemove()}, which inform the
+     * RecyclerView that the ItemAnimator wants to be called later to start the
+     * associated animations. runPendingAnimations() will be scheduled to be run
+     * on the next frame.
+     */
+    abstract runPendingAnimations():void ;
+
+    /**
+     * Called when an item is removed from the RecyclerView. Implementors can choose
+     * whether and how to animate that change, but must always call
+     * {@link #dispatchRemoveFinished(ViewHolder)} when done, either
+     * immediately (if no animation will occur) or after the animation actually finishes.
+     * The return value indicates whether an animation has been set up and whether the
+     * ItemAnimator's {@link #runPendingAnimations()} method should be called at the
+     * next opportunity. This mechanism allows ItemAnimator to set up individual animations
+     * as separate calls to {@link #animateAdd(ViewHolder) animateAdd()},
+     * {@link #animateMove(ViewHolder, int, int, int, int) animateMove()},
+     * {@link #animateRemove(ViewHolder) animateRemove()}, and
+     * {@link #animateChange(ViewHolder, ViewHolder, int, int, int, int)} come in one by one,
+     * then start the animations together in the later call to {@link #runPendingAnimations()}.
+     *
+     * <p>This method may also be called for disappearing items which continue to exist in the
+     * RecyclerView, but for which the system does not have enough information to animate
+     * them out of view. In that case, the default animation for removing items is run
+     * on those items as well.</p>
+     *
+     * @param holder The item that is being removed.
+     * @return true if a later call to {@link #runPendingAnimations()} is requested,
+     * false otherwise.
+     */
+    abstract animateRemove(holder:ViewHolder):boolean ;
+
+    /**
+     * Called when an item is added to the RecyclerView. Implementors can choose
+     * whether and how to animate that change, but must always call
+     * {@link #dispatchAddFinished(ViewHolder)} when done, either
+     * immediately (if no animation will occur) or after the animation actually finishes.
+     * The return value indicates whether an animation has been set up and whether the
+     * ItemAnimator's {@link #runPendingAnimations()} method should be called at the
+     * next opportunity.
+     *
+     * <p>This method may also be called for appearing items which were already in the
+     * RecyclerView, but for which the system does not have enough information to animate
+     * them into view. In that case, the default animation for adding items is run
+     * on those items as well.</p>
+     *
+     * @param holder The item that is being added.
+     * @return true if a later call to {@link #runPendingAnimations()} is requested,
+     * false otherwise.
+     */
+    abstract animateAdd(holder:ViewHolder):boolean ;
+
+    /**
+     * Called when an item is moved in the RecyclerView. Implementors can choose
+     * whether and how to animate that change, but must always call
+     * {@link #dispatchMoveFinished(ViewHolder)} when done, either
+     * immediately (if no animation will occur) or after the animation actually finishes.
+     * The return value indicates whether an animation has been set up and whether the
+     * ItemAnimator's {@link #runPendingAnimations()} method should be called at the
+     * next opportunity.
+     *
+     * @param holder The item that is being moved.
+     * @return true if a later call to {@link #runPendingAnimations()} is requested,
+     * false otherwise.
+     */
+    abstract animateMove(holder:ViewHolder, fromX:number, fromY:number, toX:number, toY:number):boolean ;
+
+    /**
+     * Called when an item is changed in the RecyclerView, as indicated by a call to
+     * {@link Adapter#notifyItemChanged(int)} or
+     * {@link Adapter#notifyItemRangeChanged(int, int)}.
+     * <p>
+     * Implementers can choose whether and how to animate changes, but must always call
+     * {@link #dispatchChangeFinished(ViewHolder, boolean)} for each non-null ViewHolder,
+     * either immediately (if no animation will occur) or after the animation actually finishes.
+     * The return value indicates whether an animation has been set up and whether the
+     * ItemAnimator's {@link #runPendingAnimations()} method should be called at the
+     * next opportunity.
+     *
+     * @param oldHolder The original item that changed.
+     * @param newHolder The new item that was created with the changed content. Might be null
+     * @param fromLeft  Left of the old view holder
+     * @param fromTop   Top of the old view holder
+     * @param toLeft    Left of the new view holder
+     * @param toTop     Top of the new view holder
+     * @return true if a later call to {@link #runPendingAnimations()} is requested,
+     * false otherwise.
+     */
+    abstract animateChange(oldHolder:ViewHolder, newHolder:ViewHolder, fromLeft:number, fromTop:number, toLeft:number, toTop:number):boolean ;
+
+    /**
+     * Method to be called by subclasses when a remove animation is done.
+     *
+     * @param item The item which has been removed
+     */
+    dispatchRemoveFinished(item:ViewHolder):void  {
+        this.onRemoveFinished(item);
+        if (this.mListener != null) {
+            this.mListener.onRemoveFinished(item);
+        }
+    }
+
+    /**
+     * Method to be called by subclasses when a move animation is done.
+     *
+     * @param item The item which has been moved
+     */
+    dispatchMoveFinished(item:ViewHolder):void  {
+        this.onMoveFinished(item);
+        if (this.mListener != null) {
+            this.mListener.onMoveFinished(item);
+        }
+    }
+
+    /**
+     * Method to be called by subclasses when an add animation is done.
+     *
+     * @param item The item which has been added
+     */
+    dispatchAddFinished(item:ViewHolder):void  {
+        this.onAddFinished(item);
+        if (this.mListener != null) {
+            this.mListener.onAddFinished(item);
+        }
+    }
+
+    /**
+     * Method to be called by subclasses when a change animation is done.
+     *
+     * @see #animateChange(ViewHolder, ViewHolder, int, int, int, int)
+     * @param item The item which has been changed (this method must be called for
+     * each non-null ViewHolder passed into
+     * {@link #animateChange(ViewHolder, ViewHolder, int, int, int, int)}).
+     * @param oldItem true if this is the old item that was changed, false if
+     * it is the new item that replaced the old item.
+     */
+    dispatchChangeFinished(item:ViewHolder, oldItem:boolean):void  {
+        this.onChangeFinished(item, oldItem);
+        if (this.mListener != null) {
+            this.mListener.onChangeFinished(item);
+        }
+    }
+
+    /**
+     * Method to be called by subclasses when a remove animation is being started.
+     *
+     * @param item The item being removed
+     */
+    dispatchRemoveStarting(item:ViewHolder):void  {
+        this.onRemoveStarting(item);
+    }
+
+    /**
+     * Method to be called by subclasses when a move animation is being started.
+     *
+     * @param item The item being moved
+     */
+    dispatchMoveStarting(item:ViewHolder):void  {
+        this.onMoveStarting(item);
+    }
+
+    /**
+     * Method to be called by subclasses when an add animation is being started.
+     *
+     * @param item The item being added
+     */
+    dispatchAddStarting(item:ViewHolder):void  {
+        this.onAddStarting(item);
+    }
+
+    /**
+     * Method to be called by subclasses when a change animation is being started.
+     *
+     * @param item The item which has been changed (this method must be called for
+     * each non-null ViewHolder passed into
+     * {@link #animateChange(ViewHolder, ViewHolder, int, int, int, int)}).
+     * @param oldItem true if this is the old item that was changed, false if
+     * it is the new item that replaced the old item.
+     */
+    dispatchChangeStarting(item:ViewHolder, oldItem:boolean):void  {
+        this.onChangeStarting(item, oldItem);
+    }
+
+    /**
+     * Method called when an animation on a view should be ended immediately.
+     * This could happen when other events, like scrolling, occur, so that
+     * animating views can be quickly put into their proper end locations.
+     * Implementations should ensure that any animations running on the item
+     * are canceled and affected properties are set to their end values.
+     * Also, appropriate dispatch methods (e.g., {@link #dispatchAddFinished(ViewHolder)}
+     * should be called since the animations are effectively done when this
+     * method is called.
+     *
+     * @param item The item for which an animation should be stopped.
+     */
+    abstract endAnimation(item:ViewHolder):void ;
+
+    /**
+     * Method called when all item animations should be ended immediately.
+     * This could happen when other events, like scrolling, occur, so that
+     * animating views can be quickly put into their proper end locations.
+     * Implementations should ensure that any animations running on any items
+     * are canceled and affected properties are set to their end values.
+     * Also, appropriate dispatch methods (e.g., {@link #dispatchAddFinished(ViewHolder)}
+     * should be called since the animations are effectively done when this
+     * method is called.
+     */
+    abstract endAnimations():void ;
+
+    /**
+     * Method which returns whether there are any item animations currently running.
+     * This method can be used to determine whether to delay other actions until
+     * animations end.
+     *
+     * @return true if there are any item animations currently running, false otherwise.
+     */
+    abstract isRunning():boolean ;
+
+    /**
+     * Like {@link #isRunning()}, this method returns whether there are any item
+     * animations currently running. Additionally, the listener passed in will be called
+     * when there are no item animations running, either immediately (before the method
+     * returns) if no animations are currently running, or when the currently running
+     * animations are {@link #dispatchAnimationsFinished() finished}.
+     *
+     * <p>Note that the listener is transient - it is either called immediately and not
+     * stored at all, or stored only until it is called when running animations
+     * are finished sometime later.</p>
+     *
+     * @param listener A listener to be called immediately if no animations are running
+     * or later when currently-running animations have finished. A null listener is
+     * equivalent to calling {@link #isRunning()}.
+     * @return true if there are any item animations currently running, false otherwise.
+     */
+    isRunningWithListener(listener:ItemAnimator.ItemAnimatorFinishedListener):boolean  {
+        let running = this.isRunning();
+        if (listener != null) {
+            if (!running) {
+                listener.onAnimationsFinished();
+            } else {
+                this.mFinishedListeners.add(listener);
+            }
+        }
+        return running;
+    }
+
+    /**
+     * This method should be called by ItemAnimator implementations to notify
+     * any listeners that all pending and active item animations are finished.
+     */
+    dispatchAnimationsFinished():void  {
+        const count = this.mFinishedListeners.size();
+        for (let i = 0; i < count; ++i) {
+            this.mFinishedListeners.get(i).onAnimationsFinished();
+        }
+        this.mFinishedListeners.clear();
+    }
+
+    /**
+     * Called when a remove animation is being started on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onRemoveStarting(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when a remove animation has ended on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onRemoveFinished(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when an add animation is being started on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onAddStarting(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when an add animation has ended on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onAddFinished(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when a move animation is being started on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onMoveStarting(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when a move animation has ended on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     */
+    onMoveFinished(item:ViewHolder):void  {
+    }
+
+    /**
+     * Called when a change animation is being started on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     * @param oldItem true if this is the old item that was changed, false if
+     * it is the new item that replaced the old item.
+     */
+    onChangeStarting(item:ViewHolder, oldItem:boolean):void  {
+    }
+
+    /**
+     * Called when a change animation has ended on the given ViewHolder.
+     * The default implementation does nothing. Subclasses may wish to override
+     * this method to handle any ViewHolder-specific operations linked to animation
+     * lifecycles.
+     *
+     * @param item The ViewHolder being animated.
+     * @param oldItem true if this is the old item that was changed, false if
+     * it is the new item that replaced the old item.
+     */
+    onChangeFinished(item:ViewHolder, oldItem:boolean):void  {
+    }
+}
+
+export module ItemAnimator{
+/**
+ * The interface to be implemented by listeners to animation events from this
+ * ItemAnimator. This is used internally and is not intended for developers to
+ * create directly.
+ */
+export interface ItemAnimatorListener {
+
+    onRemoveFinished(item:ViewHolder):void ;
+
+    onAddFinished(item:ViewHolder):void ;
+
+    onMoveFinished(item:ViewHolder):void ;
+
+    onChangeFinished(item:ViewHolder):void ;
+}
+
+/**
+ * This interface is used to inform listeners when all pending or running animations
+ * in an ItemAnimator are finished. This can be used, for example, to delay an action
+ * in a data set until currently-running animations are complete.
+ *
+ * @see #isRunningWithListener(ItemAnimatorFinishedListener)
+ */
+export interface ItemAnimatorFinishedListener {
+
+    onAnimationsFinished():void ;
+}
+}
+}
+
+/**
+ * A pending adapter update, applied to the view holders on the next layout pass.
+ */
+class UpdateOp {
+
+    static ADD:number = 0;
+
+    static REMOVE:number = 1;
+
+    static UPDATE:number = 2;
+
+    static MOVE:number = 3;
+
+    cmd:number = 0;
+
+    positionStart:number = 0;
+
+    // holds the target position if this is a MOVE
+    itemCount:number = 0;
+
+    constructor(cmd:number, positionStart:number, itemCount:number) {
+        this.cmd = cmd;
+        this.positionStart = positionStart;
+        this.itemCount = itemCount;
+    }
+}
+
+/**
+ * Holds the bounds of an item view, recorded before and after a layout pass to run the
+ * item animations.
+ */
+class ItemHolderInfo {
+
+    holder:RecyclerView.ViewHolder;
+
+    left:number = 0;
+
+    top:number = 0;
+
+    right:number = 0;
+
+    bottom:number = 0;
+
+    constructor(holder:RecyclerView.ViewHolder, left:number, top:number, right:number, bottom:number) {
+        this.holder = holder;
+        this.left = left;
+        this.top = top;
+        this.right = right;
+        this.bottom = bottom;
+    }
+}
+
+}
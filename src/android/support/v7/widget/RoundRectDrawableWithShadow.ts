@@ -0,0 +1,283 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../../android/graphics/Paint.ts"/>
+///<reference path="../../../../android/graphics/PixelFormat.ts"/>
+///<reference path="../../../../android/graphics/Rect.ts"/>
+///<reference path="../../../../android/graphics/RectF.ts"/>
+///<reference path="../../../../android/content/res/Resources.ts"/>
+
+module android.support.v7.widget {
+import Drawable = android.graphics.drawable.Drawable;
+import Canvas = android.graphics.Canvas;
+import Paint = android.graphics.Paint;
+import PixelFormat = android.graphics.PixelFormat;
+import Rect = android.graphics.Rect;
+import RectF = android.graphics.RectF;
+import Resources = android.content.res.Resources;
+
+/**
+ * A rounded rectangle drawable which also includes a shadow around.
+ *
+ * androidui: the shadow is blurred by the canvas once and kept in an offscreen canvas, it is
+ * only rebuilt when the bounds, corner radius or shadow size change.
+ */
+export class RoundRectDrawableWithShadow extends Drawable {
+
+    // used to calculate content padding
+    static COS_45:number = Math.cos(Math.PI / 4);
+
+    static SHADOW_MULTIPLIER:number = 1.5;
+
+    static SHADOW_COLOR:number = 0x37000000;
+
+    private mInsetShadow:number = 0; // extra shadow to avoid gaps between card and shadow
+
+    private mPaint:Paint;
+
+    private mShadowPaint:Paint;
+
+    private mCardBounds:RectF;
+
+    private mCornerRadius:number = 0;
+
+    // actual value set by developer
+    private mRawMaxShadowSize:number = 0;
+
+    // multiplied value to account for shadow offset
+    private mShadowSize:number = 0;
+
+    // actual value set by developer
+    private mRawShadowSize:number = 0;
+
+    private mDirty:boolean = true;
+
+    private mShadowCache:Canvas;
+
+    private mAddPaddingForCorners:boolean = true;
+
+    constructor(backgroundColor:number, radius:number, shadowSize:number, maxShadowSize:number) {
+        super();
+        this.mInsetShadow = Resources.getDisplayMetrics().density;
+        this.mPaint = new Paint();
+        this.mPaint.setColor(backgroundColor);
+        this.mShadowPaint = new Paint();
+        this.mShadowPaint.setColor(0xFF000000);
+        this.mCornerRadius = Math.floor(radius + .5);
+        this.mCardBounds = new RectF();
+        this.setShadowSize(shadowSize, maxShadowSize);
+    }
+
+    /**
+     * Casts the value to an even integer.
+     */
+    private toEven(value:number):number {
+        let i:number = Math.floor(value + .5);
+        if (i % 2 == 1) {
+            return i - 1;
+        }
+        return i;
+    }
+
+    setAddPaddingForCorners(addPaddingForCorners:boolean):void {
+        this.mAddPaddingForCorners = addPaddingForCorners;
+        this.invalidateSelf();
+    }
+
+    setAlpha(alpha:number):void {
+        this.mPaint.setAlpha(alpha);
+        this.mShadowPaint.setAlpha(alpha);
+        this.mDirty = true;
+        this.invalidateSelf();
+    }
+
+    protected onBoundsChange(bounds:Rect):void {
+        super.onBoundsChange(bounds);
+        this.mDirty = true;
+    }
+
+    setShadowSize(shadowSize:number, maxShadowSize:number):void {
+        if (shadowSize < 0) {
+            throw Error(`new IllegalArgumentException("Invalid shadow size " + shadowSize + ". Must be >= 0")`);
+        }
+        if (maxShadowSize < 0) {
+            throw Error(`new IllegalArgumentException("Invalid max shadow size " + maxShadowSize + ". Must be >= 0")`);
+        }
+        shadowSize = this.toEven(shadowSize);
+        maxShadowSize = this.toEven(maxShadowSize);
+        if (shadowSize > maxShadowSize) {
+            shadowSize = maxShadowSize;
+        }
+        if (this.mRawShadowSize == shadowSize && this.mRawMaxShadowSize == maxShadowSize) {
+            return;
+        }
+        this.mRawShadowSize = shadowSize;
+        this.mRawMaxShadowSize = maxShadowSize;
+        this.mShadowSize = Math.floor(shadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER + this.mInsetShadow + .5);
+        this.mDirty = true;
+        this.invalidateSelf();
+    }
+
+    getPadding(padding:Rect):boolean {
+        let vOffset:number = Math.ceil(RoundRectDrawableWithShadow.calculateVerticalPadding(this.mRawMaxShadowSize,
+            this.mCornerRadius, this.mAddPaddingForCorners));
+        let hOffset:number = Math.ceil(RoundRectDrawableWithShadow.calculateHorizontalPadding(this.mRawMaxShadowSize,
+            this.mCornerRadius, this.mAddPaddingForCorners));
+        padding.set(hOffset, vOffset, hOffset, vOffset);
+        return true;
+    }
+
+    static calculateVerticalPadding(maxShadowSize:number, cornerRadius:number, addPaddingForCorners:boolean):number {
+        if (addPaddingForCorners) {
+            return maxShadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER
+                + (1 - RoundRectDrawableWithShadow.COS_45) * cornerRadius;
+        } else {
+            return maxShadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER;
+        }
+    }
+
+    static calculateHorizontalPadding(maxShadowSize:number, cornerRadius:number, addPaddingForCorners:boolean):number {
+        if (addPaddingForCorners) {
+            return maxShadowSize + (1 - RoundRectDrawableWithShadow.COS_45) * cornerRadius;
+        } else {
+            return maxShadowSize;
+        }
+    }
+
+    setColor(color:number):void {
+        this.mPaint.setColor(color);
+        this.invalidateSelf();
+    }
+
+    getOpacity():number {
+        return PixelFormat.TRANSLUCENT;
+    }
+
+    setCornerRadius(radius:number):void {
+        radius = Math.floor(radius + .5);
+        if (this.mCornerRadius == radius) {
+            return;
+        }
+        this.mCornerRadius = radius;
+        this.mDirty = true;
+        this.invalidateSelf();
+    }
+
+    draw(canvas:Canvas):void {
+        if (this.mDirty) {
+            this.buildComponents(this.getBounds());
+            this.mDirty = false;
+        }
+        if (this.mShadowCache != null) {
+            const bounds:Rect = this.getBounds();
+            canvas.drawCanvas(this.mShadowCache, bounds.left, bounds.top);
+        }
+        const r:number = this.mCornerRadius;
+        canvas.drawRoundRect(this.mCardBounds, r, r, r, r, this.mPaint);
+    }
+
+    private buildComponents(bounds:Rect):void {
+        // Card is offset SHADOW_MULTIPLIER * maxShadowSize to account for the shadow shift.
+        // We could have different top-bottom offsets to avoid extra gap above but in that case
+        // center aligning Views inside the CardView would be problematic.
+        const verticalOffset:number = this.mRawMaxShadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER;
+        this.mCardBounds.set(bounds.left + this.mRawMaxShadowSize, bounds.top + verticalOffset,
+            bounds.right - this.mRawMaxShadowSize, bounds.bottom - verticalOffset);
+        this.buildShadowCache(bounds);
+    }
+
+    private buildShadowCache(bounds:Rect):void {
+        const width:number = bounds.width();
+        const height:number = bounds.height();
+        if (this.mRawShadowSize <= 0 || width <= 0 || height <= 0 || this.mCardBounds.isEmpty()) {
+            if (this.mShadowCache != null) {
+                this.mShadowCache.recycle();
+                this.mShadowCache = null;
+            }
+            return;
+        }
+
+        if (this.mShadowCache != null
+            && (this.mShadowCache.getWidth() != width || this.mShadowCache.getHeight() != height)) {
+            this.mShadowCache.recycle();
+            this.mShadowCache = null;
+        }
+        if (this.mShadowCache == null) {
+            this.mShadowCache = new Canvas(width, height);
+        } else {
+            this.mShadowCache.clearColor();
+        }
+
+        // Draw the card shape out of the cache and shift only its shadow back in, so the cache
+        // holds the shadow alone and a translucent card background doesn't show it through.
+        const shift:number = width + this.mShadowSize;
+        const shape:RectF = new RectF(this.mCardBounds);
+        shape.offset(-bounds.left - shift, -bounds.top);
+        this.mShadowPaint.setShadowLayer(this.mShadowSize, shift, this.mRawShadowSize / 2,
+            RoundRectDrawableWithShadow.SHADOW_COLOR);
+        const r:number = this.mCornerRadius;
+        this.mShadowCache.drawRoundRect(shape, r, r, r, r, this.mShadowPaint);
+    }
+
+    /**
+     * Returns the bounds the card itself is drawn in, without the space taken by the shadow.
+     */
+    getCardBounds(out:Rect):void {
+        if (this.mDirty) {
+            this.buildComponents(this.getBounds());
+            this.mDirty = false;
+        }
+        out.set(this.mCardBounds.left, this.mCardBounds.top, this.mCardBounds.right, this.mCardBounds.bottom);
+    }
+
+    getCornerRadius():number {
+        return this.mCornerRadius;
+    }
+
+    getMaxShadowAndCornerPadding(into:Rect):void {
+        this.getPadding(into);
+    }
+
+    setShadowSizeOnly(size:number):void {
+        this.setShadowSize(size, this.mRawMaxShadowSize);
+    }
+
+    setMaxShadowSize(size:number):void {
+        this.setShadowSize(this.mRawShadowSize, size);
+    }
+
+    getShadowSize():number {
+        return this.mRawShadowSize;
+    }
+
+    getMaxShadowSize():number {
+        return this.mRawMaxShadowSize;
+    }
+
+    getMinWidth():number {
+        const content:number = 2 * Math.max(this.mRawMaxShadowSize, this.mCornerRadius + this.mInsetShadow + this.mRawMaxShadowSize / 2);
+        return content + (this.mRawMaxShadowSize + this.mInsetShadow) * 2;
+    }
+
+    getMinHeight():number {
+        const content:number = 2 * Math.max(this.mRawMaxShadowSize, this.mCornerRadius + this.mInsetShadow
+            + this.mRawMaxShadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER / 2);
+        return content + (this.mRawMaxShadowSize * RoundRectDrawableWithShadow.SHADOW_MULTIPLIER + this.mInsetShadow) * 2;
+    }
+}
+}
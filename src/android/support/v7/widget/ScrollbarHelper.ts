@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="RecyclerView.ts"/>
+///<reference path="OrientationHelper.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+
+/**
+ * A helper class to do scroll offset calculations.
+ */
+export class ScrollbarHelper {
+
+    /**
+     * @param startChild View closest to start of the list. (top or left)
+     * @param endChild   View closest to end of the list (bottom or right)
+     */
+    static computeScrollOffset(state:RecyclerView.State, orientation:OrientationHelper, startChild:View, endChild:View,
+                               lm:RecyclerView.LayoutManager, smoothScrollbarEnabled:boolean, reverseLayout:boolean):number  {
+        if (lm.getChildCount() == 0 || state.getItemCount() == 0 || startChild == null || endChild == null) {
+            return 0;
+        }
+        const minPosition = Math.min(lm.getPosition(startChild), lm.getPosition(endChild));
+        const maxPosition = Math.max(lm.getPosition(startChild), lm.getPosition(endChild));
+        const itemsBefore = reverseLayout ? Math.max(0, state.getItemCount() - maxPosition - 1) : Math.max(0, minPosition);
+        if (!smoothScrollbarEnabled) {
+            return itemsBefore;
+        }
+        const laidOutArea = Math.abs(orientation.getDecoratedEnd(endChild) - orientation.getDecoratedStart(startChild));
+        const itemRange = Math.abs(lm.getPosition(startChild) - lm.getPosition(endChild)) + 1;
+        const avgSizePerRow = laidOutArea / itemRange;
+        return Math.round(itemsBefore * avgSizePerRow + (orientation.getStartAfterPadding() - orientation.getDecoratedStart(startChild)));
+    }
+
+    /**
+     * @param startChild View closest to start of the list. (top or left)
+     * @param endChild   View closest to end of the list (bottom or right)
+     */
+    static computeScrollExtent(state:RecyclerView.State, orientation:OrientationHelper, startChild:View, endChild:View,
+                               lm:RecyclerView.LayoutManager, smoothScrollbarEnabled:boolean):number  {
+        if (lm.getChildCount() == 0 || state.getItemCount() == 0 || startChild == null || endChild == null) {
+            return 0;
+        }
+        if (!smoothScrollbarEnabled) {
+            return Math.abs(lm.getPosition(startChild) - lm.getPosition(endChild)) + 1;
+        }
+        const extend = orientation.getDecoratedEnd(endChild) - orientation.getDecoratedStart(startChild);
+        return Math.min(orientation.getTotalSpace(), extend);
+    }
+
+    /**
+     * @param startChild View closest to start of the list. (top or left)
+     * @param endChild   View closest to end of the list (bottom or right)
+     */
+    static computeScrollRange(state:RecyclerView.State, orientation:OrientationHelper, startChild:View, endChild:View,
+                              lm:RecyclerView.LayoutManager, smoothScrollbarEnabled:boolean):number  {
+        if (lm.getChildCount() == 0 || state.getItemCount() == 0 || startChild == null || endChild == null) {
+            return 0;
+        }
+        if (!smoothScrollbarEnabled) {
+            return state.getItemCount();
+        }
+        // smooth scrollbar enabled. try to estimate better.
+        const laidOutArea = orientation.getDecoratedEnd(endChild) - orientation.getDecoratedStart(startChild);
+        const laidOutRange = Math.abs(lm.getPosition(startChild) - lm.getPosition(endChild)) + 1;
+        // estimate a size for full list.
+        return Math.floor(laidOutArea / laidOutRange * state.getItemCount());
+    }
+}
+
+}
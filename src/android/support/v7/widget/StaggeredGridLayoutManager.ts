@@ -0,0 +1,1887 @@
+/*
+ * Copyright (C) 2014 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../../android/view/View.ts"/>
+///<reference path="../../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../../android/graphics/Rect.ts"/>
+///<reference path="../../../../android/graphics/Point.ts"/>
+///<reference path="../../../../android/util/Log.ts"/>
+///<reference path="../../../../java/util/ArrayList.ts"/>
+///<reference path="../../../../java/lang/Integer.ts"/>
+///<reference path="RecyclerView.ts"/>
+///<reference path="OrientationHelper.ts"/>
+///<reference path="ScrollbarHelper.ts"/>
+///<reference path="LinearSmoothScroller.ts"/>
+
+module android.support.v7.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Rect = android.graphics.Rect;
+import Point = android.graphics.Point;
+import Log = android.util.Log;
+import ArrayList = java.util.ArrayList;
+import Integer = java.lang.Integer;
+import Recycler = android.support.v7.widget.RecyclerView.Recycler;
+import State = android.support.v7.widget.RecyclerView.State;
+
+/**
+ * A LayoutManager that lays out children in a staggered grid formation.
+ * It supports horizontal & vertical layout as well as an ability to layout children in reverse.
+ * <p>
+ * Staggered grids are likely to have gaps at the edges of the layout. To avoid these gaps,
+ * StaggeredGridLayoutManager can offset spans independently or move items between spans. You can
+ * control this behavior via {@link #setGapStrategy(int)}.
+ * <p>
+ * AndroidUI: the layout does not run a pre-layout pass, so span assignments of items after an
+ * adapter change are recalculated on the next layout.
+ */
+export class StaggeredGridLayoutManager extends RecyclerView.LayoutManager {
+
+    private static TAG:string = "StaggeredGridLayoutManager";
+
+    private static DEBUG:boolean = false;
+
+    static HORIZONTAL:number = OrientationHelper.HORIZONTAL;
+
+    static VERTICAL:number = OrientationHelper.VERTICAL;
+
+    /**
+     * Does not do anything to hide gaps.
+     */
+    static GAP_HANDLING_NONE:number = 0;
+
+    /**
+     * When scroll state is changed to {@link RecyclerView#SCROLL_STATE_IDLE}, StaggeredGrid will
+     * check if there are gaps in the because of full span items. If it finds, it will re-layout
+     * and move items to correct positions with animations.
+     * <p>
+     * For example, if LayoutManager ends up with the following layout due to adapter changes:
+     * <pre>
+     * AAA
+     * _BC
+     * DDD
+     * </pre>
+     * <p>
+     * It will animate to the following state:
+     * <pre>
+     * AAA
+     * BC_
+     * DDD
+     * </pre>
+     */
+    static GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS:number = 2;
+
+    static INVALID_OFFSET:number = Integer.MIN_VALUE;
+
+    /**
+     * Number of spans
+     */
+    private mSpanCount:number = -1;
+
+    mSpans:StaggeredGridLayoutManager.Span[];
+
+    /**
+     * Primary orientation is the layout's orientation, secondary orientation is the orientation
+     * for spans. Having both makes code much cleaner for calculations.
+     */
+    mPrimaryOrientation:OrientationHelper;
+
+    mSecondaryOrientation:OrientationHelper;
+
+    private mOrientation:number = 0;
+
+    /**
+     * The width or height per span, depending on the orientation.
+     */
+    private mSizePerSpan:number = 0;
+
+    private mLayoutState:StaggeredGridLayoutManager.LayoutState = new StaggeredGridLayoutManager.LayoutState();
+
+    private mReverseLayout:boolean = false;
+
+    /**
+     * Aggregated reverse layout value that takes RTL into account.
+     */
+    mShouldReverseLayout:boolean = false;
+
+    /**
+     * Temporary variable used during fill method to check which spans needs to be filled.
+     */
+    private mRemainingSpans:boolean[];
+
+    /**
+     * When LayoutManager needs to scroll to a position, it sets this variable and requests a
+     * layout which will check this variable and re-layout accordingly.
+     */
+    mPendingScrollPosition:number = RecyclerView.NO_POSITION;
+
+    /**
+     * Used to keep the offset value when {@link #scrollToPositionWithOffset(int, int)} is
+     * called.
+     */
+    mPendingScrollPositionOffset:number = StaggeredGridLayoutManager.INVALID_OFFSET;
+
+    /**
+     * Keeps the mapping between the adapter positions and spans. This is necessary to provide
+     * a consistent experience when user scrolls the list.
+     */
+    mLazySpanLookup:StaggeredGridLayoutManager.LazySpanLookup = new StaggeredGridLayoutManager.LazySpanLookup();
+
+    /**
+     * how we handle gaps in UI.
+     */
+    private mGapStrategy:number = StaggeredGridLayoutManager.GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS;
+
+    /**
+     * Saved state needs this information to properly layout on restore.
+     */
+    private mLastLayoutFromEnd:boolean = false;
+
+    /**
+     * Saved state and onLayout needs this information to re-layout properly
+     */
+    private mLastLayoutRTL:boolean = false;
+
+    /**
+     * Re-used measure specs updated by onLayout.
+     */
+    private mFullSizeSpec:number = 0;
+
+    private mWidthSpec:number = 0;
+
+    private mHeightSpec:number = 0;
+
+    /**
+     * Re-used rectangle to get child decor offsets.
+     */
+    private mTmpRect:Rect = new Rect();
+
+    /**
+     * Re-used anchor info.
+     */
+    private mAnchorInfo:StaggeredGridLayoutManager.AnchorInfo;
+
+    /**
+     * If a full span item is invalid / or created in reverse direction; it may create gaps in
+     * the UI. While laying out, if such case is detected, we set this flag.
+     * <p>
+     * After scrolling stops, we check this flag and if it is set, re-layout.
+     */
+    private mLaidOutInvalidFullSpan:boolean = false;
+
+    /**
+     * Works the same way as {@link android.widget.AbsListView#setSmoothScrollbarEnabled(boolean)}.
+     * see {@link android.widget.AbsListView#setSmoothScrollbarEnabled(boolean)}
+     */
+    private mSmoothScrollbarEnabled:boolean = true;
+
+    /**
+     * Creates a StaggeredGridLayoutManager with given parameters.
+     *
+     * @param spanCount   If orientation is vertical, spanCount is number of columns. If
+     *                    orientation is horizontal, spanCount is number of rows.
+     * @param orientation {@link #VERTICAL} or {@link #HORIZONTAL}
+     */
+    constructor(spanCount = 2, orientation = StaggeredGridLayoutManager.VERTICAL) {
+        super();
+        this.mAnchorInfo = new StaggeredGridLayoutManager.AnchorInfo(this);
+        this.mOrientation = orientation;
+        this.setSpanCount(spanCount);
+    }
+
+    /**
+     * Checks for gaps in the UI that may be caused by adapter changes.
+     * <p>
+     * When a full span item is laid out in reverse direction, it sets a flag which we check when
+     * scroll is stopped (or re-layout happens) and re-layout after first valid item.
+     */
+    private checkForGaps():boolean  {
+        if (this.getChildCount() == 0 || this.mGapStrategy == StaggeredGridLayoutManager.GAP_HANDLING_NONE || !this.isAttachedToWindow()) {
+            return false;
+        }
+        let minPos = this.mShouldReverseLayout ? this.getLastChildPosition() : this.getFirstChildPosition();
+        if (minPos == 0 && (this.mLaidOutInvalidFullSpan || this.hasGapsToFix())) {
+            this.mLazySpanLookup.clear();
+            this.mLaidOutInvalidFullSpan = false;
+            this.requestLayout();
+            return true;
+        }
+        return false;
+    }
+
+    onScrollStateChanged(state:number):void  {
+        if (state == RecyclerView.SCROLL_STATE_IDLE) {
+            this.checkForGaps();
+        }
+    }
+
+    /**
+     * Checks for gaps if we've reached to the top of the list.
+     * <p>
+     * When the first item is laid out, all non-empty spans should start at the same line;
+     * otherwise items have to be moved between spans.
+     */
+    private hasGapsToFix():boolean  {
+        let referenceLine = StaggeredGridLayoutManager.Span.INVALID_LINE;
+        for (let span of this.mSpans) {
+            if (span.mViews.isEmpty()) {
+                continue;
+            }
+            let line = this.mShouldReverseLayout ? span.getEndLine() : span.getStartLine();
+            if (referenceLine == StaggeredGridLayoutManager.Span.INVALID_LINE) {
+                referenceLine = line;
+            } else if (line != referenceLine) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    onDetachedFromWindow(view:RecyclerView, recycler:Recycler):void  {
+        for (let i = 0; i < this.mSpanCount; i++) {
+            this.mSpans[i].clear();
+        }
+    }
+
+    /**
+     * Sets the number of spans for the layout. This will invalidate all of the span assignments
+     * for Views.
+     * <p>
+     * Calling this method will automatically result in a new layout request unless the spanCount
+     * parameter is equal to current span count.
+     *
+     * @param spanCount Number of spans to layout
+     */
+    setSpanCount(spanCount:number):void  {
+        this.assertNotInLayoutOrScroll(null);
+        if (spanCount != this.mSpanCount) {
+            if (spanCount < 1) {
+                throw Error("Span count should be at least 1. Provided " + spanCount);
+            }
+            this.invalidateSpanAssignments();
+            this.mSpanCount = spanCount;
+            this.mRemainingSpans = new Array<boolean>(this.mSpanCount);
+            this.mSpans = new Array<StaggeredGridLayoutManager.Span>(this.mSpanCount);
+            for (let i = 0; i < this.mSpanCount; i++) {
+                this.mSpans[i] = new StaggeredGridLayoutManager.Span(this, i);
+            }
+            this.requestLayout();
+        }
+    }
+
+    /**
+     * Sets the orientation of the layout. StaggeredGridLayoutManager will do its best to keep
+     * scroll position if this method is called after views are laid out.
+     *
+     * @param orientation {@link #HORIZONTAL} or {@link #VERTICAL}
+     */
+    setOrientation(orientation:number):void  {
+        if (orientation != StaggeredGridLayoutManager.HORIZONTAL && orientation != StaggeredGridLayoutManager.VERTICAL) {
+            throw Error("invalid orientation.");
+        }
+        this.assertNotInLayoutOrScroll(null);
+        if (orientation == this.mOrientation) {
+            return;
+        }
+        this.mOrientation = orientation;
+        if (this.mPrimaryOrientation != null && this.mSecondaryOrientation != null) {
+            // swap
+            let tmp = this.mPrimaryOrientation;
+            this.mPrimaryOrientation = this.mSecondaryOrientation;
+            this.mSecondaryOrientation = tmp;
+        }
+        this.requestLayout();
+    }
+
+    /**
+     * Sets whether LayoutManager should start laying out items from the end of the UI. The order
+     * items are traversed is not affected by this call.
+     * <p>
+     * For vertical layout, if it is set to <code>true</code>, first item will be at the bottom of
+     * the list.
+     * <p>
+     * For horizontal layouts, it depends on the layout direction.
+     * When set to true, If {@link RecyclerView} is LTR, than it will layout from RTL, if
+     * {@link RecyclerView}} is RTL, it will layout from LTR.
+     *
+     * @param reverseLayout Whether layout should be in reverse or not
+     */
+    setReverseLayout(reverseLayout:boolean):void  {
+        this.assertNotInLayoutOrScroll(null);
+        if (this.mReverseLayout == reverseLayout) {
+            return;
+        }
+        this.mReverseLayout = reverseLayout;
+        this.requestLayout();
+    }
+
+    /**
+     * Returns the current gap handling strategy for StaggeredGridLayoutManager.
+     * <p>
+     * Staggered grid may have gaps in the layout due to changes in the adapter. To avoid gaps,
+     * StaggeredGridLayoutManager provides 2 options. Check {@link #GAP_HANDLING_NONE} and
+     * {@link #GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS} for details.
+     * <p>
+     * By default, StaggeredGridLayoutManager uses {@link #GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS}.
+     *
+     * @return Current gap handling strategy.
+     * @see #setGapStrategy(int)
+     * @see #GAP_HANDLING_NONE
+     * @see #GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS
+     */
+    getGapStrategy():number  {
+        return this.mGapStrategy;
+    }
+
+    /**
+     * Sets the gap handling strategy for StaggeredGridLayoutManager. If the gapStrategy parameter
+     * is different than the current strategy, calling this method will trigger a layout request.
+     *
+     * @param gapStrategy The new gap handling strategy. Should be
+     *                    {@link #GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS} or {@link
+     *                    #GAP_HANDLING_NONE}.
+     * @see #getGapStrategy()
+     */
+    setGapStrategy(gapStrategy:number):void  {
+        this.assertNotInLayoutOrScroll(null);
+        if (gapStrategy == this.mGapStrategy) {
+            return;
+        }
+        if (gapStrategy != StaggeredGridLayoutManager.GAP_HANDLING_NONE && gapStrategy != StaggeredGridLayoutManager.GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS) {
+            throw Error("invalid gap strategy. Must be GAP_HANDLING_NONE " + "or GAP_HANDLING_MOVE_ITEMS_BETWEEN_SPANS");
+        }
+        this.mGapStrategy = gapStrategy;
+        this.requestLayout();
+    }
+
+    /**
+     * Returns the number of spans laid out by StaggeredGridLayoutManager.
+     *
+     * @return Number of spans in the layout
+     */
+    getSpanCount():number  {
+        return this.mSpanCount;
+    }
+
+    /**
+     * For consistency, StaggeredGridLayoutManager keeps a mapping between spans and items.
+     * <p>
+     * If you need to cancel current assignments, you can call this method which will clear all
+     * assignments and request a new layout.
+     */
+    invalidateSpanAssignments():void  {
+        this.mLazySpanLookup.clear();
+        this.requestLayout();
+    }
+
+    private ensureOrientationHelper():void  {
+        if (this.mPrimaryOrientation == null) {
+            this.mPrimaryOrientation = OrientationHelper.createOrientationHelper(this, this.mOrientation);
+            this.mSecondaryOrientation = OrientationHelper.createOrientationHelper(this, 1 - this.mOrientation);
+        }
+    }
+
+    /**
+     * Calculates the views' layout order. (e.g. from end to start or start to end)
+     * RTL layout support is applied automatically. So if layout is RTL and
+     * {@link #getReverseLayout()} is {@code true}, elements will be laid out starting from left.
+     */
+    private resolveShouldLayoutReverse():void  {
+        // A == B is the same result, but we rather keep it readable
+        if (this.mOrientation == StaggeredGridLayoutManager.VERTICAL || !this.isLayoutRTL()) {
+            this.mShouldReverseLayout = this.mReverseLayout;
+        } else {
+            this.mShouldReverseLayout = !this.mReverseLayout;
+        }
+    }
+
+    isLayoutRTL():boolean  {
+        return this.getLayoutDirection() == View.LAYOUT_DIRECTION_RTL;
+    }
+
+    /**
+     * Returns whether views are laid out in reverse order or not.
+     * <p>
+     * Not that this value is not affected by RecyclerView's layout direction.
+     *
+     * @return True if layout is reversed, false otherwise
+     * @see #setReverseLayout(boolean)
+     */
+    getReverseLayout():boolean  {
+        return this.mReverseLayout;
+    }
+
+    onLayoutChildren(recycler:Recycler, state:State):void  {
+        this.ensureOrientationHelper();
+        if (state.getItemCount() == 0) {
+            this.removeAndRecycleAllViews(recycler);
+            this.mAnchorInfo.reset();
+            return;
+        }
+        const anchorInfo = this.mAnchorInfo;
+        anchorInfo.reset();
+        this.resolveShouldLayoutReverse();
+        this.updateAnchorInfoForLayout(state, anchorInfo);
+        if (anchorInfo.mLayoutFromEnd != this.mLastLayoutFromEnd || this.isLayoutRTL() != this.mLastLayoutRTL) {
+            this.mLazySpanLookup.clear();
+            anchorInfo.mInvalidateOffsets = true;
+        }
+        if (this.getChildCount() > 0) {
+            if (anchorInfo.mInvalidateOffsets) {
+                for (let i = 0; i < this.mSpanCount; i++) {
+                    // Scroll to position is set, clear.
+                    this.mSpans[i].clear();
+                    if (anchorInfo.mOffset != StaggeredGridLayoutManager.INVALID_OFFSET) {
+                        this.mSpans[i].setLine(anchorInfo.mOffset);
+                    }
+                }
+            } else {
+                for (let i = 0; i < this.mSpanCount; i++) {
+                    this.mSpans[i].cacheReferenceLineAndClear(this.mShouldReverseLayout, anchorInfo.mOffset);
+                }
+            }
+        } else if (anchorInfo.mInvalidateOffsets) {
+            for (let i = 0; i < this.mSpanCount; i++) {
+                this.mSpans[i].clear();
+            }
+        }
+        this.detachAndScrapAttachedViews(recycler);
+        this.mLaidOutInvalidFullSpan = false;
+        this.updateMeasureSpecs();
+        this.updateLayoutState(anchorInfo.mPosition, state);
+        if (anchorInfo.mLayoutFromEnd) {
+            // Layout start.
+            this.setLayoutStateDirection(StaggeredGridLayoutManager.LayoutState.LAYOUT_START);
+            this.fill(recycler, this.mLayoutState, state);
+            // Layout end.
+            this.setLayoutStateDirection(StaggeredGridLayoutManager.LayoutState.LAYOUT_END);
+            this.mLayoutState.mCurrentPosition = anchorInfo.mPosition + this.mLayoutState.mItemDirection;
+            this.fill(recycler, this.mLayoutState, state);
+        } else {
+            // Layout end.
+            this.setLayoutStateDirection(StaggeredGridLayoutManager.LayoutState.LAYOUT_END);
+            this.fill(recycler, this.mLayoutState, state);
+            // Layout start.
+            this.setLayoutStateDirection(StaggeredGridLayoutManager.LayoutState.LAYOUT_START);
+            this.mLayoutState.mCurrentPosition = anchorInfo.mPosition + this.mLayoutState.mItemDirection;
+            this.fill(recycler, this.mLayoutState, state);
+        }
+        if (this.getChildCount() > 0) {
+            if (this.mShouldReverseLayout) {
+                this.fixEndGap(recycler, state, true);
+                this.fixStartGap(recycler, state, false);
+            } else {
+                this.fixStartGap(recycler, state, true);
+                this.fixEndGap(recycler, state, false);
+            }
+        }
+        if (!state.isPreLayout()) {
+            this.mPendingScrollPosition = RecyclerView.NO_POSITION;
+            this.mPendingScrollPositionOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+        }
+        this.mLastLayoutFromEnd = anchorInfo.mLayoutFromEnd;
+        this.mLastLayoutRTL = this.isLayoutRTL();
+    }
+
+    updateAnchorInfoForLayout(state:State, anchorInfo:StaggeredGridLayoutManager.AnchorInfo):void  {
+        if (this.updateAnchorFromPendingData(state, anchorInfo)) {
+            return;
+        }
+        if (this.updateAnchorFromChildren(state, anchorInfo)) {
+            return;
+        }
+        if (StaggeredGridLayoutManager.DEBUG) {
+            Log.d(StaggeredGridLayoutManager.TAG, "Deciding anchor info from fresh state");
+        }
+        anchorInfo.mLayoutFromEnd = this.mShouldReverseLayout;
+        anchorInfo.assignCoordinateFromPadding();
+        anchorInfo.mPosition = 0;
+        anchorInfo.mInvalidateOffsets = true;
+    }
+
+    private updateAnchorFromChildren(state:State, anchorInfo:StaggeredGridLayoutManager.AnchorInfo):boolean  {
+        if (this.getChildCount() == 0) {
+            return false;
+        }
+        // We don't recycle views out of adapter order. This way, we can rely on the first or
+        // last child as the anchor position.
+        anchorInfo.mLayoutFromEnd = this.mShouldReverseLayout;
+        anchorInfo.mPosition = this.mShouldReverseLayout ? this.findLastReferenceChildPosition(state.getItemCount()) : this.findFirstReferenceChildPosition(state.getItemCount());
+        anchorInfo.mOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+        return true;
+    }
+
+    updateAnchorFromPendingData(state:State, anchorInfo:StaggeredGridLayoutManager.AnchorInfo):boolean  {
+        // Validate scroll position if exists.
+        if (state.isPreLayout() || this.mPendingScrollPosition == RecyclerView.NO_POSITION) {
+            return false;
+        }
+        // Validate it.
+        if (this.mPendingScrollPosition < 0 || this.mPendingScrollPosition >= state.getItemCount()) {
+            this.mPendingScrollPosition = RecyclerView.NO_POSITION;
+            this.mPendingScrollPositionOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+            return false;
+        }
+        anchorInfo.mLayoutFromEnd = this.mShouldReverseLayout;
+        // child is visible, keep the current layout and offset it so that the child fits.
+        if (this.mPendingScrollPositionOffset == StaggeredGridLayoutManager.INVALID_OFFSET) {
+            const child = this.findViewByPosition(this.mPendingScrollPosition);
+            if (child != null) {
+                // Use regular anchor position, offset according to pending offset and target
+                // child
+                anchorInfo.mPosition = this.mShouldReverseLayout ? this.getLastChildPosition() : this.getFirstChildPosition();
+                const startGap = this.mPrimaryOrientation.getDecoratedStart(child) - this.mPrimaryOrientation.getStartAfterPadding();
+                if (startGap < 0) {
+                    anchorInfo.mOffset = -startGap;
+                    return true;
+                }
+                const endGap = this.mPrimaryOrientation.getEndAfterPadding() - this.mPrimaryOrientation.getDecoratedEnd(child);
+                if (endGap < 0) {
+                    anchorInfo.mOffset = endGap;
+                    return true;
+                }
+                anchorInfo.mOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+                return true;
+            }
+            // child is not visible, lay it out from the edge it is coming from.
+            anchorInfo.mPosition = this.mPendingScrollPosition;
+            if (this.getChildCount() > 0) {
+                const direction = this.calculateScrollDirectionForPosition(anchorInfo.mPosition);
+                anchorInfo.mLayoutFromEnd = direction == StaggeredGridLayoutManager.LayoutState.LAYOUT_END;
+            }
+            anchorInfo.assignCoordinateFromPadding();
+            anchorInfo.mInvalidateOffsets = true;
+            return true;
+        }
+        anchorInfo.mPosition = this.mPendingScrollPosition;
+        if (this.mShouldReverseLayout) {
+            anchorInfo.mOffset = this.mPrimaryOrientation.getEndAfterPadding() - this.mPendingScrollPositionOffset;
+        } else {
+            anchorInfo.mOffset = this.mPrimaryOrientation.getStartAfterPadding() + this.mPendingScrollPositionOffset;
+        }
+        anchorInfo.mInvalidateOffsets = true;
+        return true;
+    }
+
+    updateMeasureSpecs():void  {
+        this.mSizePerSpan = Math.floor(this.mSecondaryOrientation.getTotalSpace() / this.mSpanCount);
+        this.mFullSizeSpec = View.MeasureSpec.makeMeasureSpec(this.mSecondaryOrientation.getTotalSpace(), View.MeasureSpec.EXACTLY);
+        if (this.mOrientation == StaggeredGridLayoutManager.VERTICAL) {
+            this.mWidthSpec = View.MeasureSpec.makeMeasureSpec(this.mSizePerSpan, View.MeasureSpec.EXACTLY);
+            this.mHeightSpec = View.MeasureSpec.makeMeasureSpec(0, View.MeasureSpec.UNSPECIFIED);
+        } else {
+            this.mHeightSpec = View.MeasureSpec.makeMeasureSpec(this.mSizePerSpan, View.MeasureSpec.EXACTLY);
+            this.mWidthSpec = View.MeasureSpec.makeMeasureSpec(0, View.MeasureSpec.UNSPECIFIED);
+        }
+    }
+
+    supportsPredictiveItemAnimations():boolean  {
+        return false;
+    }
+
+    /**
+     * Returns the adapter position of the first visible view for each span.
+     * <p>
+     * Note that, this value is not affected by layout orientation or item order traversal.
+     * ({@link #setReverseLayout(boolean)}). Views are sorted by their positions in the adapter,
+     * not in the layout.
+     * <p>
+     * If RecyclerView has item decorators, they will be considered in calculations as well.
+     * <p>
+     * StaggeredGridLayoutManager may pre-cache some views that are not necessarily visible. Those
+     * views are ignored in this method.
+     *
+     * @param into An array to put the results into. If you don't provide any, LayoutManager will
+     *             create a new one.
+     * @return The adapter position of the first visible item in each span. If a span does not have
+     * any items, {@link RecyclerView#NO_POSITION} is returned for that span.
+     * @see #findFirstCompletelyVisibleItemPositions(int[])
+     * @see #findLastVisibleItemPositions(int[])
+     */
+    findFirstVisibleItemPositions(into?:number[]):number[]  {
+        into = this.ensurePositionsArray(into);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            into[i] = this.mSpans[i].findFirstVisibleItemPosition();
+        }
+        return into;
+    }
+
+    /**
+     * Returns the adapter position of the first completely visible view for each span.
+     * <p>
+     * Note that, this value is not affected by layout orientation or item order traversal.
+     * ({@link #setReverseLayout(boolean)}). Views are sorted by their positions in the adapter,
+     * not in the layout.
+     *
+     * @param into An array to put the results into. If you don't provide any, LayoutManager will
+     *             create a new one.
+     * @return The adapter position of the first fully visible item in each span. If a span does
+     * not have any items, {@link RecyclerView#NO_POSITION} is returned for that span.
+     * @see #findFirstVisibleItemPositions(int[])
+     * @see #findLastCompletelyVisibleItemPositions(int[])
+     */
+    findFirstCompletelyVisibleItemPositions(into?:number[]):number[]  {
+        into = this.ensurePositionsArray(into);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            into[i] = this.mSpans[i].findFirstCompletelyVisibleItemPosition();
+        }
+        return into;
+    }
+
+    /**
+     * Returns the adapter position of the last visible view for each span.
+     *
+     * @param into An array to put the results into. If you don't provide any, LayoutManager will
+     *             create a new one.
+     * @return The adapter position of the last visible item in each span. If a span does not have
+     * any items, {@link RecyclerView#NO_POSITION} is returned for that span.
+     * @see #findLastCompletelyVisibleItemPositions(int[])
+     * @see #findFirstVisibleItemPositions(int[])
+     */
+    findLastVisibleItemPositions(into?:number[]):number[]  {
+        into = this.ensurePositionsArray(into);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            into[i] = this.mSpans[i].findLastVisibleItemPosition();
+        }
+        return into;
+    }
+
+    /**
+     * Returns the adapter position of the last completely visible view for each span.
+     *
+     * @param into An array to put the results into. If you don't provide any, LayoutManager will
+     *             create a new one.
+     * @return The adapter position of the last fully visible item in each span. If a span does not
+     * have any items, {@link RecyclerView#NO_POSITION} is returned for that span.
+     * @see #findFirstCompletelyVisibleItemPositions(int[])
+     * @see #findLastVisibleItemPositions(int[])
+     */
+    findLastCompletelyVisibleItemPositions(into?:number[]):number[]  {
+        into = this.ensurePositionsArray(into);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            into[i] = this.mSpans[i].findLastCompletelyVisibleItemPosition();
+        }
+        return into;
+    }
+
+    private ensurePositionsArray(into:number[]):number[]  {
+        if (into == null) {
+            into = new Array<number>(this.mSpanCount);
+        } else if (into.length < this.mSpanCount) {
+            throw Error("Provided int[]'s size must be more than or equal" + " to span count. Expected:" + this.mSpanCount + ", array size:" + into.length);
+        }
+        return into;
+    }
+
+    computeHorizontalScrollOffset(state:State):number  {
+        return this.computeScrollOffset(state);
+    }
+
+    private computeScrollOffset(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureOrientationHelper();
+        return ScrollbarHelper.computeScrollOffset(state, this.mPrimaryOrientation, this.findFirstVisibleItemClosestToStart(!this.mSmoothScrollbarEnabled),
+            this.findFirstVisibleItemClosestToEnd(!this.mSmoothScrollbarEnabled), this, this.mSmoothScrollbarEnabled, this.mShouldReverseLayout);
+    }
+
+    computeVerticalScrollOffset(state:State):number  {
+        return this.computeScrollOffset(state);
+    }
+
+    computeHorizontalScrollExtent(state:State):number  {
+        return this.computeScrollExtent(state);
+    }
+
+    private computeScrollExtent(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureOrientationHelper();
+        return ScrollbarHelper.computeScrollExtent(state, this.mPrimaryOrientation, this.findFirstVisibleItemClosestToStart(!this.mSmoothScrollbarEnabled),
+            this.findFirstVisibleItemClosestToEnd(!this.mSmoothScrollbarEnabled), this, this.mSmoothScrollbarEnabled);
+    }
+
+    computeVerticalScrollExtent(state:State):number  {
+        return this.computeScrollExtent(state);
+    }
+
+    computeHorizontalScrollRange(state:State):number  {
+        return this.computeScrollRange(state);
+    }
+
+    private computeScrollRange(state:State):number  {
+        if (this.getChildCount() == 0) {
+            return 0;
+        }
+        this.ensureOrientationHelper();
+        return ScrollbarHelper.computeScrollRange(state, this.mPrimaryOrientation, this.findFirstVisibleItemClosestToStart(!this.mSmoothScrollbarEnabled),
+            this.findFirstVisibleItemClosestToEnd(!this.mSmoothScrollbarEnabled), this, this.mSmoothScrollbarEnabled);
+    }
+
+    computeVerticalScrollRange(state:State):number  {
+        return this.computeScrollRange(state);
+    }
+
+    private measureChildWithDecorationsAndMargin(child:View, lp:StaggeredGridLayoutManager.LayoutParams):void  {
+        if (lp.mFullSpan) {
+            if (this.mOrientation == StaggeredGridLayoutManager.VERTICAL) {
+                this.measureWithDecorations(child, this.mFullSizeSpec, this.getSpecForDimension(lp.height));
+            } else {
+                this.measureWithDecorations(child, this.getSpecForDimension(lp.width), this.mFullSizeSpec);
+            }
+        } else {
+            if (this.mOrientation == StaggeredGridLayoutManager.VERTICAL) {
+                this.measureWithDecorations(child, this.mWidthSpec, this.getSpecForDimension(lp.height));
+            } else {
+                this.measureWithDecorations(child, this.getSpecForDimension(lp.width), this.mHeightSpec);
+            }
+        }
+    }
+
+    private getSpecForDimension(dim:number):number  {
+        if (dim < 0) {
+            return View.MeasureSpec.makeMeasureSpec(0, View.MeasureSpec.UNSPECIFIED);
+        } else {
+            return View.MeasureSpec.makeMeasureSpec(dim, View.MeasureSpec.EXACTLY);
+        }
+    }
+
+    private measureWithDecorations(child:View, widthSpec:number, heightSpec:number):void  {
+        const lp = <StaggeredGridLayoutManager.LayoutParams>child.getLayoutParams();
+        this.calculateItemDecorationsForChild(child, this.mTmpRect);
+        widthSpec = this.updateSpecWithExtra(widthSpec, lp.leftMargin + this.mTmpRect.left, lp.rightMargin + this.mTmpRect.right);
+        heightSpec = this.updateSpecWithExtra(heightSpec, lp.topMargin + this.mTmpRect.top, lp.bottomMargin + this.mTmpRect.bottom);
+        child.measure(widthSpec, heightSpec);
+    }
+
+    private updateSpecWithExtra(spec:number, startInset:number, endInset:number):number  {
+        if (startInset == 0 && endInset == 0) {
+            return spec;
+        }
+        const mode = View.MeasureSpec.getMode(spec);
+        if (mode == View.MeasureSpec.AT_MOST || mode == View.MeasureSpec.EXACTLY) {
+            return View.MeasureSpec.makeMeasureSpec(View.MeasureSpec.getSize(spec) - startInset - endInset, mode);
+        }
+        return spec;
+    }
+
+    /**
+     * Finds the first fully visible child to be used as an anchor child if span count changes when
+     * state is restored. If no children is fully visible, returns a partially visible child instead
+     * of returning null.
+     */
+    findFirstVisibleItemClosestToStart(fullyVisible:boolean):View  {
+        this.ensureOrientationHelper();
+        const boundsStart = this.mPrimaryOrientation.getStartAfterPadding();
+        const boundsEnd = this.mPrimaryOrientation.getEndAfterPadding();
+        const limit = this.getChildCount();
+        let partiallyVisible:View = null;
+        for (let i = 0; i < limit; i++) {
+            const child = this.getChildAt(i);
+            const childStart = this.mPrimaryOrientation.getDecoratedStart(child);
+            const childEnd = this.mPrimaryOrientation.getDecoratedEnd(child);
+            if (childEnd <= boundsStart || childStart >= boundsEnd) {
+                continue; // not visible at all
+            }
+            if (childStart >= boundsStart || !fullyVisible) {
+                // when checking for start, it is enough even if part of the child's top is visible
+                // as long as fully visible is not requested.
+                return child;
+            }
+            if (partiallyVisible == null) {
+                partiallyVisible = child;
+            }
+        }
+        return partiallyVisible;
+    }
+
+    /**
+     * Finds the last fully visible child to be used as an anchor child if span count changes when
+     * state is restored. If no children is fully visible, returns a partially visible child instead
+     * of returning null.
+     */
+    findFirstVisibleItemClosestToEnd(fullyVisible:boolean):View  {
+        this.ensureOrientationHelper();
+        const boundsStart = this.mPrimaryOrientation.getStartAfterPadding();
+        const boundsEnd = this.mPrimaryOrientation.getEndAfterPadding();
+        let partiallyVisible:View = null;
+        for (let i = this.getChildCount() - 1; i >= 0; i--) {
+            const child = this.getChildAt(i);
+            const childStart = this.mPrimaryOrientation.getDecoratedStart(child);
+            const childEnd = this.mPrimaryOrientation.getDecoratedEnd(child);
+            if (childEnd <= boundsStart || childStart >= boundsEnd) {
+                continue; // not visible at all
+            }
+            if (childEnd <= boundsEnd || !fullyVisible) {
+                // when checking for end, it is enough even if part of the child's bottom is visible
+                // as long as fully visible is not requested.
+                return child;
+            }
+            if (partiallyVisible == null) {
+                partiallyVisible = child;
+            }
+        }
+        return partiallyVisible;
+    }
+
+    private fixEndGap(recycler:Recycler, state:State, canOffsetChildren:boolean):void  {
+        const maxEndLine = this.getMaxEnd(this.mPrimaryOrientation.getEndAfterPadding());
+        let gap = this.mPrimaryOrientation.getEndAfterPadding() - maxEndLine;
+        let fixOffset:number;
+        if (gap > 0) {
+            fixOffset = -this.scrollBy(-gap, recycler, state);
+        } else {
+            // nothing to fix
+            return;
+        }
+        gap -= fixOffset;
+        if (canOffsetChildren && gap > 0) {
+            this.mPrimaryOrientation.offsetChildren(gap);
+        }
+    }
+
+    private fixStartGap(recycler:Recycler, state:State, canOffsetChildren:boolean):void  {
+        const minStartLine = this.getMinStart(this.mPrimaryOrientation.getStartAfterPadding());
+        let gap = minStartLine - this.mPrimaryOrientation.getStartAfterPadding();
+        let fixOffset:number;
+        if (gap > 0) {
+            fixOffset = this.scrollBy(gap, recycler, state);
+        } else {
+            // nothing to fix
+            return;
+        }
+        gap -= fixOffset;
+        if (canOffsetChildren && gap > 0) {
+            this.mPrimaryOrientation.offsetChildren(-gap);
+        }
+    }
+
+    private updateLayoutState(anchorPosition:number, state:State):void  {
+        this.mLayoutState.mAvailable = 0;
+        this.mLayoutState.mCurrentPosition = anchorPosition;
+        let startExtra = 0;
+        let endExtra = 0;
+        if (this.isSmoothScrolling()) {
+            const targetPos = state.getTargetScrollPosition();
+            if (targetPos != RecyclerView.NO_POSITION) {
+                if (this.mShouldReverseLayout == targetPos < anchorPosition) {
+                    endExtra = this.mPrimaryOrientation.getTotalSpace();
+                } else {
+                    startExtra = this.mPrimaryOrientation.getTotalSpace();
+                }
+            }
+        }
+        this.mLayoutState.mStartLine = this.mPrimaryOrientation.getStartAfterPadding() - startExtra;
+        this.mLayoutState.mEndLine = this.mPrimaryOrientation.getEndAfterPadding() + endExtra;
+    }
+
+    private setLayoutStateDirection(direction:number):void  {
+        this.mLayoutState.mLayoutDirection = direction;
+        this.mLayoutState.mItemDirection = (this.mShouldReverseLayout == (direction == StaggeredGridLayoutManager.LayoutState.LAYOUT_START))
+            ? StaggeredGridLayoutManager.LayoutState.ITEM_DIRECTION_TAIL : StaggeredGridLayoutManager.LayoutState.ITEM_DIRECTION_HEAD;
+    }
+
+    offsetChildrenHorizontal(dx:number):void  {
+        super.offsetChildrenHorizontal(dx);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            this.mSpans[i].onOffset(dx);
+        }
+    }
+
+    offsetChildrenVertical(dy:number):void  {
+        super.offsetChildrenVertical(dy);
+        for (let i = 0; i < this.mSpanCount; i++) {
+            this.mSpans[i].onOffset(dy);
+        }
+    }
+
+    onItemsRemoved(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.handleUpdate(positionStart, itemCount);
+    }
+
+    onItemsAdded(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.handleUpdate(positionStart, itemCount);
+    }
+
+    onItemsChanged(recyclerView:RecyclerView):void  {
+        this.mLazySpanLookup.clear();
+        this.requestLayout();
+    }
+
+    onItemsMoved(recyclerView:RecyclerView, from:number, to:number, itemCount:number):void  {
+        this.handleUpdate(Math.min(from, to), Math.abs(from - to) + 1);
+    }
+
+    onItemsUpdated(recyclerView:RecyclerView, positionStart:number, itemCount:number):void  {
+        this.handleUpdate(positionStart, itemCount);
+    }
+
+    /**
+     * Checks whether it should invalidate span assignments in response to an adapter change.
+     */
+    private handleUpdate(positionStart:number, itemCount:number):void  {
+        const minPosition = this.mShouldReverseLayout ? this.getLastChildPosition() : this.getFirstChildPosition();
+        // Items after the change may move between spans, so forget their assignments.
+        this.mLazySpanLookup.invalidateAfter(positionStart);
+        if (positionStart + itemCount <= minPosition) {
+            return;
+        }
+        const maxPosition = this.mShouldReverseLayout ? this.getFirstChildPosition() : this.getLastChildPosition();
+        if (positionStart <= maxPosition) {
+            this.requestLayout();
+        }
+    }
+
+    private fill(recycler:Recycler, layoutState:StaggeredGridLayoutManager.LayoutState, state:State):number  {
+        for (let i = 0; i < this.mSpanCount; i++) {
+            this.mRemainingSpans[i] = true;
+        }
+        // The target position we are trying to reach.
+        let targetLine:number;
+        if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_END) {
+            targetLine = layoutState.mEndLine + layoutState.mAvailable;
+        } else {
+            targetLine = layoutState.mStartLine - layoutState.mAvailable;
+        }
+        this.updateAllRemainingSpans(layoutState.mLayoutDirection, targetLine);
+        // the default coordinate to add new view.
+        const defaultNewViewLine = this.mShouldReverseLayout ? this.mPrimaryOrientation.getEndAfterPadding() : this.mPrimaryOrientation.getStartAfterPadding();
+        while (layoutState.hasMore(state) && this.hasRemainingSpans()) {
+            let view = layoutState.next(recycler);
+            let lp = <StaggeredGridLayoutManager.LayoutParams>view.getLayoutParams();
+            const position = lp.getViewLayoutPosition();
+            const spanIndex = this.mLazySpanLookup.getSpan(position);
+            let currentSpan:StaggeredGridLayoutManager.Span;
+            const assignSpan = spanIndex == StaggeredGridLayoutManager.LayoutParams.INVALID_SPAN_ID;
+            if (assignSpan) {
+                currentSpan = lp.mFullSpan ? this.mSpans[0] : this.getNextSpan(layoutState);
+                this.mLazySpanLookup.setSpan(position, currentSpan);
+                if (StaggeredGridLayoutManager.DEBUG) {
+                    Log.d(StaggeredGridLayoutManager.TAG, "assigned " + currentSpan.mIndex + " for " + position);
+                }
+            } else {
+                if (StaggeredGridLayoutManager.DEBUG) {
+                    Log.d(StaggeredGridLayoutManager.TAG, "using " + spanIndex + " for pos " + position);
+                }
+                currentSpan = this.mSpans[spanIndex];
+            }
+            // assign span before measuring so that item decorators can get updated span index
+            lp.mSpan = currentSpan;
+            if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_END) {
+                this.addView(view);
+            } else {
+                this.addView(view, 0);
+            }
+            this.measureChildWithDecorationsAndMargin(view, lp);
+            let start:number;
+            let end:number;
+            if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_END) {
+                start = lp.mFullSpan ? this.getMaxEnd(defaultNewViewLine) : currentSpan.getEndLine(defaultNewViewLine);
+                end = start + this.mPrimaryOrientation.getDecoratedMeasurement(view);
+                if (assignSpan && lp.mFullSpan && this.hasUnalignedEnds()) {
+                    // a full span item laid out below unaligned spans leaves a gap behind
+                    this.mLaidOutInvalidFullSpan = true;
+                }
+            } else {
+                end = lp.mFullSpan ? this.getMinStart(defaultNewViewLine) : currentSpan.getStartLine(defaultNewViewLine);
+                start = end - this.mPrimaryOrientation.getDecoratedMeasurement(view);
+                if (lp.mFullSpan && this.hasUnalignedStarts()) {
+                    // full span items laid out upwards may leave gaps under them
+                    this.mLaidOutInvalidFullSpan = true;
+                }
+            }
+            this.attachViewToSpans(view, lp, layoutState);
+            let otherStart:number;
+            let otherEnd:number;
+            if (this.isLayoutRTL() && this.mOrientation == StaggeredGridLayoutManager.VERTICAL) {
+                otherEnd = lp.mFullSpan ? this.mSecondaryOrientation.getEndAfterPadding()
+                    : this.mSecondaryOrientation.getEndAfterPadding() - (this.mSpanCount - 1 - currentSpan.mIndex) * this.mSizePerSpan;
+                otherStart = otherEnd - this.mSecondaryOrientation.getDecoratedMeasurement(view);
+            } else {
+                otherStart = lp.mFullSpan ? this.mSecondaryOrientation.getStartAfterPadding()
+                    : currentSpan.mIndex * this.mSizePerSpan + this.mSecondaryOrientation.getStartAfterPadding();
+                otherEnd = otherStart + this.mSecondaryOrientation.getDecoratedMeasurement(view);
+            }
+            if (this.mOrientation == StaggeredGridLayoutManager.VERTICAL) {
+                this.layoutDecoratedWithMargins(view, otherStart, start, otherEnd, end);
+            } else {
+                this.layoutDecoratedWithMargins(view, start, otherStart, end, otherEnd);
+            }
+            if (lp.mFullSpan) {
+                this.updateAllRemainingSpans(layoutState.mLayoutDirection, targetLine);
+            } else {
+                this.updateRemainingSpans(currentSpan, layoutState.mLayoutDirection, targetLine);
+            }
+        }
+        if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_START) {
+            const minStart = this.getMinStart(this.mPrimaryOrientation.getStartAfterPadding());
+            return Math.max(0, layoutState.mAvailable + (layoutState.mStartLine - minStart));
+        } else {
+            const maxEnd = this.getMaxEnd(this.mPrimaryOrientation.getEndAfterPadding());
+            return Math.max(0, layoutState.mAvailable + (maxEnd - layoutState.mEndLine));
+        }
+    }
+
+    private hasRemainingSpans():boolean  {
+        for (let i = 0; i < this.mSpanCount; i++) {
+            if (this.mRemainingSpans[i]) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private hasUnalignedEnds():boolean  {
+        const end = this.mSpans[0].getEndLine(StaggeredGridLayoutManager.Span.INVALID_LINE);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            if (this.mSpans[i].getEndLine(StaggeredGridLayoutManager.Span.INVALID_LINE) != end) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private hasUnalignedStarts():boolean  {
+        const start = this.mSpans[0].getStartLine(StaggeredGridLayoutManager.Span.INVALID_LINE);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            if (this.mSpans[i].getStartLine(StaggeredGridLayoutManager.Span.INVALID_LINE) != start) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private layoutDecoratedWithMargins(child:View, left:number, top:number, right:number, bottom:number):void  {
+        const lp = <StaggeredGridLayoutManager.LayoutParams>child.getLayoutParams();
+        this.layoutDecorated(child, left + lp.leftMargin, top + lp.topMargin, right - lp.rightMargin, bottom - lp.bottomMargin);
+    }
+
+    private attachViewToSpans(view:View, lp:StaggeredGridLayoutManager.LayoutParams, layoutState:StaggeredGridLayoutManager.LayoutState):void  {
+        if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_END) {
+            if (lp.mFullSpan) {
+                this.appendViewToAllSpans(view);
+            } else {
+                lp.mSpan.appendToSpan(view);
+            }
+        } else {
+            if (lp.mFullSpan) {
+                this.prependViewToAllSpans(view);
+            } else {
+                lp.mSpan.prependToSpan(view);
+            }
+        }
+    }
+
+    /**
+     * Recycles views that went out of the visible area (and the extra layout space) after a
+     * scroll. Must be called after children are offset.
+     */
+    private recycle(recycler:Recycler, layoutDirection:number):void  {
+        if (layoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_START) {
+            this.recycleFromEnd(recycler, this.mLayoutState.mEndLine);
+        } else {
+            this.recycleFromStart(recycler, this.mLayoutState.mStartLine);
+        }
+    }
+
+    private appendViewToAllSpans(view:View):void  {
+        // traverse in reverse so that we end up assigning full span items to 0
+        for (let i = this.mSpanCount - 1; i >= 0; i--) {
+            this.mSpans[i].appendToSpan(view);
+        }
+    }
+
+    private prependViewToAllSpans(view:View):void  {
+        // traverse in reverse so that we end up assigning full span items to 0
+        for (let i = this.mSpanCount - 1; i >= 0; i--) {
+            this.mSpans[i].prependToSpan(view);
+        }
+    }
+
+    private updateAllRemainingSpans(layoutDir:number, targetLine:number):void  {
+        for (let i = 0; i < this.mSpanCount; i++) {
+            if (this.mSpans[i].mViews.isEmpty()) {
+                continue;
+            }
+            this.updateRemainingSpans(this.mSpans[i], layoutDir, targetLine);
+        }
+    }
+
+    private updateRemainingSpans(span:StaggeredGridLayoutManager.Span, layoutDir:number, targetLine:number):void  {
+        const deletedSize = span.getDeletedSize();
+        if (layoutDir == StaggeredGridLayoutManager.LayoutState.LAYOUT_START) {
+            const line = span.getStartLine();
+            if (line + deletedSize <= targetLine) {
+                this.mRemainingSpans[span.mIndex] = false;
+            }
+        } else {
+            const line = span.getEndLine();
+            if (line - deletedSize >= targetLine) {
+                this.mRemainingSpans[span.mIndex] = false;
+            }
+        }
+    }
+
+    private getMaxStart(def:number):number  {
+        let maxStart = this.mSpans[0].getStartLine(def);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            const spanStart = this.mSpans[i].getStartLine(def);
+            if (spanStart > maxStart) {
+                maxStart = spanStart;
+            }
+        }
+        return maxStart;
+    }
+
+    private getMinStart(def:number):number  {
+        let minStart = this.mSpans[0].getStartLine(def);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            const spanStart = this.mSpans[i].getStartLine(def);
+            if (spanStart < minStart) {
+                minStart = spanStart;
+            }
+        }
+        return minStart;
+    }
+
+    private getMaxEnd(def:number):number  {
+        let maxEnd = this.mSpans[0].getEndLine(def);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            const spanEnd = this.mSpans[i].getEndLine(def);
+            if (spanEnd > maxEnd) {
+                maxEnd = spanEnd;
+            }
+        }
+        return maxEnd;
+    }
+
+    private getMinEnd(def:number):number  {
+        let minEnd = this.mSpans[0].getEndLine(def);
+        for (let i = 1; i < this.mSpanCount; i++) {
+            const spanEnd = this.mSpans[i].getEndLine(def);
+            if (spanEnd < minEnd) {
+                minEnd = spanEnd;
+            }
+        }
+        return minEnd;
+    }
+
+    private recycleFromStart(recycler:Recycler, line:number):void  {
+        if (StaggeredGridLayoutManager.DEBUG) {
+            Log.d(StaggeredGridLayoutManager.TAG, "recycling from start for line " + line);
+        }
+        while (this.getChildCount() > 0) {
+            let child = this.getChildAt(0);
+            if (this.mPrimaryOrientation.getDecoratedEnd(child) < line) {
+                let lp = <StaggeredGridLayoutManager.LayoutParams>child.getLayoutParams();
+                if (lp.mFullSpan) {
+                    for (let j = 0; j < this.mSpanCount; j++) {
+                        if (this.mSpans[j].mViews.size() == 1) {
+                            return;
+                        }
+                    }
+                    for (let j = 0; j < this.mSpanCount; j++) {
+                        this.mSpans[j].popStart();
+                    }
+                } else {
+                    if (lp.mSpan.mViews.size() == 1) {
+                        return;
+                    }
+                    lp.mSpan.popStart();
+                }
+                this.removeAndRecycleView(child, recycler);
+            } else {
+                return; // done
+            }
+        }
+    }
+
+    private recycleFromEnd(recycler:Recycler, line:number):void  {
+        const childCount = this.getChildCount();
+        let i:number;
+        for (i = childCount - 1; i >= 0; i--) {
+            let child = this.getChildAt(i);
+            if (this.mPrimaryOrientation.getDecoratedStart(child) > line) {
+                let lp = <StaggeredGridLayoutManager.LayoutParams>child.getLayoutParams();
+                if (lp.mFullSpan) {
+                    for (let j = 0; j < this.mSpanCount; j++) {
+                        if (this.mSpans[j].mViews.size() == 1) {
+                            return;
+                        }
+                    }
+                    for (let j = 0; j < this.mSpanCount; j++) {
+                        this.mSpans[j].popEnd();
+                    }
+                } else {
+                    if (lp.mSpan.mViews.size() == 1) {
+                        return;
+                    }
+                    lp.mSpan.popEnd();
+                }
+                this.removeAndRecycleView(child, recycler);
+            } else {
+                return; // done
+            }
+        }
+    }
+
+    /**
+     * Finds the span for the next view.
+     */
+    private getNextSpan(layoutState:StaggeredGridLayoutManager.LayoutState):StaggeredGridLayoutManager.Span  {
+        const preferLastSpan = this.preferLastSpan(layoutState.mLayoutDirection);
+        let startIndex:number, endIndex:number, diff:number;
+        if (preferLastSpan) {
+            startIndex = this.mSpanCount - 1;
+            endIndex = -1;
+            diff = -1;
+        } else {
+            startIndex = 0;
+            endIndex = this.mSpanCount;
+            diff = 1;
+        }
+        if (layoutState.mLayoutDirection == StaggeredGridLayoutManager.LayoutState.LAYOUT_END) {
+            let min:StaggeredGridLayoutManager.Span = null;
+            let minLine = Integer.MAX_VALUE;
+            const defaultLine = this.mPrimaryOrientation.getStartAfterPadding();
+            for (let i = startIndex; i != endIndex; i += diff) {
+                const other = this.mSpans[i];
+                let otherLine = other.getEndLine(defaultLine);
+                if (otherLine < minLine) {
+                    min = other;
+                    minLine = otherLine;
+                }
+            }
+            return min;
+        } else {
+            let max:StaggeredGridLayoutManager.Span = null;
+            let maxLine = Integer.MIN_VALUE;
+            const defaultLine = this.mPrimaryOrientation.getEndAfterPadding();
+            for (let i = startIndex; i != endIndex; i += diff) {
+                const other = this.mSpans[i];
+                let otherLine = other.getStartLine(defaultLine);
+                if (otherLine > maxLine) {
+                    max = other;
+                    maxLine = otherLine;
+                }
+            }
+            return max;
+        }
+    }
+
+    /**
+     * In vertical orientation, we prefer the last span when laying out from end in RTL, or from
+     * start in LTR. In horizontal orientation, the last span is preferred when laying out towards
+     * the start.
+     */
+    private preferLastSpan(layoutDir:number):boolean  {
+        if (this.mOrientation == StaggeredGridLayoutManager.HORIZONTAL) {
+            return (layoutDir == StaggeredGridLayoutManager.LayoutState.LAYOUT_START) != this.mShouldReverseLayout;
+        }
+        return ((layoutDir == StaggeredGridLayoutManager.LayoutState.LAYOUT_START) == this.mShouldReverseLayout) == this.isLayoutRTL();
+    }
+
+    canScrollVertically():boolean  {
+        return this.mOrientation == StaggeredGridLayoutManager.VERTICAL;
+    }
+
+    canScrollHorizontally():boolean  {
+        return this.mOrientation == StaggeredGridLayoutManager.HORIZONTAL;
+    }
+
+    scrollHorizontallyBy(dx:number, recycler:Recycler, state:State):number  {
+        return this.scrollBy(dx, recycler, state);
+    }
+
+    scrollVerticallyBy(dy:number, recycler:Recycler, state:State):number  {
+        return this.scrollBy(dy, recycler, state);
+    }
+
+    private calculateScrollDirectionForPosition(position:number):number  {
+        if (this.getChildCount() == 0) {
+            return this.mShouldReverseLayout ? StaggeredGridLayoutManager.LayoutState.LAYOUT_END : StaggeredGridLayoutManager.LayoutState.LAYOUT_START;
+        }
+        const firstChildPos = this.getFirstChildPosition();
+        return position < firstChildPos != this.mShouldReverseLayout ? StaggeredGridLayoutManager.LayoutState.LAYOUT_START : StaggeredGridLayoutManager.LayoutState.LAYOUT_END;
+    }
+
+    smoothScrollToPosition(recyclerView:RecyclerView, state:State, position:number):void  {
+        const _this = this;
+        class _Inner extends LinearSmoothScroller {
+            computeScrollVectorForPosition(targetPosition:number):Point  {
+                const direction = _this.calculateScrollDirectionForPosition(targetPosition);
+                if (direction == 0) {
+                    return null;
+                }
+                if (_this.mOrientation == StaggeredGridLayoutManager.HORIZONTAL) {
+                    return new Point(direction, 0);
+                } else {
+                    return new Point(0, direction);
+                }
+            }
+        }
+        let scroller = new _Inner();
+        scroller.setTargetPosition(position);
+        this.startSmoothScroll(scroller);
+    }
+
+    scrollToPosition(position:number):void  {
+        this.mPendingScrollPosition = position;
+        this.mPendingScrollPositionOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+        this.requestLayout();
+    }
+
+    /**
+     * Scroll to the specified adapter position with the given offset from layout start.
+     * <p>
+     * Note that scroll position change will not be reflected until the next layout call.
+     * <p>
+     * If you are just trying to make a position visible, use {@link #scrollToPosition(int)}.
+     *
+     * @param position Index (starting at 0) of the reference item.
+     * @param offset   The distance (in pixels) between the start edge of the item view and
+     *                 start edge of the RecyclerView.
+     * @see #setReverseLayout(boolean)
+     * @see #scrollToPosition(int)
+     */
+    scrollToPositionWithOffset(position:number, offset:number):void  {
+        this.mPendingScrollPosition = position;
+        this.mPendingScrollPositionOffset = offset;
+        this.requestLayout();
+    }
+
+    scrollBy(dt:number, recycler:Recycler, state:State):number  {
+        this.ensureOrientationHelper();
+        if (this.getChildCount() == 0 || dt == 0) {
+            return 0;
+        }
+        let referenceChildPosition:number;
+        let layoutDir:number;
+        if (dt > 0) {
+            // layout towards end
+            layoutDir = StaggeredGridLayoutManager.LayoutState.LAYOUT_END;
+            referenceChildPosition = this.getLastChildPosition();
+        } else {
+            layoutDir = StaggeredGridLayoutManager.LayoutState.LAYOUT_START;
+            referenceChildPosition = this.getFirstChildPosition();
+        }
+        this.updateLayoutState(referenceChildPosition, state);
+        this.setLayoutStateDirection(layoutDir);
+        this.mLayoutState.mCurrentPosition = referenceChildPosition + this.mLayoutState.mItemDirection;
+        const absDt = Math.abs(dt);
+        this.mLayoutState.mAvailable = absDt;
+        let consumed = this.fill(recycler, this.mLayoutState, state);
+        let totalScroll:number;
+        if (absDt < consumed) {
+            totalScroll = dt;
+        } else if (dt < 0) {
+            totalScroll = -consumed;
+        } else {
+            // dt > 0
+            totalScroll = consumed;
+        }
+        if (StaggeredGridLayoutManager.DEBUG) {
+            Log.d(StaggeredGridLayoutManager.TAG, "asked " + dt + " scrolled" + totalScroll);
+        }
+        this.mPrimaryOrientation.offsetChildren(-totalScroll);
+        this.recycle(recycler, layoutDir);
+        // always reset this if we scroll for a proper save instance state
+        this.mLastLayoutFromEnd = this.mShouldReverseLayout;
+        return totalScroll;
+    }
+
+    private getLastChildPosition():number  {
+        const childCount = this.getChildCount();
+        return childCount == 0 ? 0 : this.getPosition(this.getChildAt(childCount - 1));
+    }
+
+    private getFirstChildPosition():number  {
+        const childCount = this.getChildCount();
+        return childCount == 0 ? 0 : this.getPosition(this.getChildAt(0));
+    }
+
+    /**
+     * Finds the first View that can be used as an anchor View.
+     *
+     * @return Position of the View or 0 if it cannot find any such View.
+     */
+    private findFirstReferenceChildPosition(itemCount:number):number  {
+        const limit = this.getChildCount();
+        for (let i = 0; i < limit; i++) {
+            const view = this.getChildAt(i);
+            const position = this.getPosition(view);
+            if (position >= 0 && position < itemCount) {
+                return position;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Finds the last View that can be used as an anchor View.
+     *
+     * @return Position of the View or 0 if it cannot find any such View.
+     */
+    private findLastReferenceChildPosition(itemCount:number):number  {
+        for (let i = this.getChildCount() - 1; i >= 0; i--) {
+            const view = this.getChildAt(i);
+            const position = this.getPosition(view);
+            if (position >= 0 && position < itemCount) {
+                return position;
+            }
+        }
+        return 0;
+    }
+
+    generateDefaultLayoutParams():RecyclerView.LayoutParams  {
+        return new StaggeredGridLayoutManager.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    generateLayoutParams(lp:ViewGroup.LayoutParams):RecyclerView.LayoutParams  {
+        return new StaggeredGridLayoutManager.LayoutParams(lp);
+    }
+
+    checkLayoutParams(lp:RecyclerView.LayoutParams):boolean  {
+        return lp instanceof StaggeredGridLayoutManager.LayoutParams;
+    }
+
+    getOrientation():number  {
+        return this.mOrientation;
+    }
+
+    /**
+     * Sets whether the scrollbar is computed from the visible pixels of the laid out items
+     * or only from the item positions.
+     *
+     * @see LinearLayoutManager#setSmoothScrollbarEnabled(boolean)
+     */
+    setSmoothScrollbarEnabled(enabled:boolean):void  {
+        this.mSmoothScrollbarEnabled = enabled;
+    }
+
+    isSmoothScrollbarEnabled():boolean  {
+        return this.mSmoothScrollbarEnabled;
+    }
+}
+
+export module StaggeredGridLayoutManager{
+/**
+ * LayoutParams used by StaggeredGridLayoutManager.
+ * <p>
+ * Note that if the orientation is {@link #VERTICAL}, the width parameter is ignored and if the
+ * orientation is {@link #HORIZONTAL} the height parameter is ignored because child view is
+ * expected to fill all of the space given to it.
+ */
+export class LayoutParams extends RecyclerView.LayoutParams {
+
+    /**
+     * Span Id for Views that are not laid out yet.
+     */
+    static INVALID_SPAN_ID:number = -1;
+
+    // Package scope to be able to access from tests.
+    mSpan:Span;
+
+    mFullSpan:boolean = false;
+
+    /**
+     * When set to true, the item will layout using all span area. That means, if orientation
+     * is vertical, the view will have full width; if orientation is horizontal, the view will
+     * have full height.
+     *
+     * @param fullSpan True if this item should traverse all spans.
+     * @see #isFullSpan()
+     */
+    setFullSpan(fullSpan:boolean):void  {
+        this.mFullSpan = fullSpan;
+    }
+
+    /**
+     * Returns whether this View occupies all available spans or just one.
+     *
+     * @return True if the View occupies all spans or false otherwise.
+     * @see #setFullSpan(boolean)
+     */
+    isFullSpan():boolean  {
+        return this.mFullSpan;
+    }
+
+    /**
+     * Returns the Span index to which this View is assigned.
+     *
+     * @return The Span index of the View. If View is not yet assigned to any span, returns
+     * {@link #INVALID_SPAN_ID}.
+     */
+    getSpanIndex():number  {
+        if (this.mSpan == null) {
+            return LayoutParams.INVALID_SPAN_ID;
+        }
+        return this.mSpan.mIndex;
+    }
+}
+
+// Package scoped to access from tests.
+export class Span {
+    _StaggeredGridLayoutManager_this:StaggeredGridLayoutManager;
+
+    static INVALID_LINE:number = Integer.MIN_VALUE;
+
+    mViews:ArrayList<View> = new ArrayList<View>();
+
+    mCachedStart:number = Span.INVALID_LINE;
+
+    mCachedEnd:number = Span.INVALID_LINE;
+
+    mDeletedSize:number = 0;
+
+    mIndex:number = 0;
+
+    constructor(arg:StaggeredGridLayoutManager, index:number) {
+        this._StaggeredGridLayoutManager_this = arg;
+        this.mIndex = index;
+    }
+
+    getStartLine(def?:number):number  {
+        if (this.mCachedStart != Span.INVALID_LINE) {
+            return this.mCachedStart;
+        }
+        if (def !== undefined && this.mViews.size() == 0) {
+            return def;
+        }
+        this.calculateCachedStart();
+        return this.mCachedStart;
+    }
+
+    calculateCachedStart():void  {
+        const startView = this.mViews.get(0);
+        this.mCachedStart = this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedStart(startView);
+    }
+
+    getEndLine(def?:number):number  {
+        if (this.mCachedEnd != Span.INVALID_LINE) {
+            return this.mCachedEnd;
+        }
+        if (def !== undefined && this.mViews.size() == 0) {
+            return def;
+        }
+        this.calculateCachedEnd();
+        return this.mCachedEnd;
+    }
+
+    calculateCachedEnd():void  {
+        const endView = this.mViews.get(this.mViews.size() - 1);
+        this.mCachedEnd = this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedEnd(endView);
+    }
+
+    prependToSpan(view:View):void  {
+        let lp = this.getLayoutParams(view);
+        lp.mSpan = this;
+        this.mViews.add(0, view);
+        this.mCachedStart = Span.INVALID_LINE;
+        if (this.mViews.size() == 1) {
+            this.mCachedEnd = Span.INVALID_LINE;
+        }
+        if (lp.isItemRemoved() || lp.isItemChanged()) {
+            this.mDeletedSize += this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedMeasurement(view);
+        }
+    }
+
+    appendToSpan(view:View):void  {
+        let lp = this.getLayoutParams(view);
+        lp.mSpan = this;
+        this.mViews.add(view);
+        this.mCachedEnd = Span.INVALID_LINE;
+        if (this.mViews.size() == 1) {
+            this.mCachedStart = Span.INVALID_LINE;
+        }
+        if (lp.isItemRemoved() || lp.isItemChanged()) {
+            this.mDeletedSize += this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedMeasurement(view);
+        }
+    }
+
+    // Use this one when default value does not make sense and not having a value means a bug.
+    cacheReferenceLineAndClear(reverseLayout:boolean, offset:number):void  {
+        let reference:number;
+        if (reverseLayout) {
+            reference = this.getEndLine(Span.INVALID_LINE);
+        } else {
+            reference = this.getStartLine(Span.INVALID_LINE);
+        }
+        this.clear();
+        if (reference == Span.INVALID_LINE) {
+            return;
+        }
+        const helper = this._StaggeredGridLayoutManager_this.mPrimaryOrientation;
+        if ((reverseLayout && reference < helper.getEndAfterPadding()) || (!reverseLayout && reference > helper.getStartAfterPadding())) {
+            return;
+        }
+        if (offset != StaggeredGridLayoutManager.INVALID_OFFSET) {
+            reference += offset;
+        }
+        this.mCachedStart = this.mCachedEnd = reference;
+    }
+
+    clear():void  {
+        this.mViews.clear();
+        this.invalidateCache();
+        this.mDeletedSize = 0;
+    }
+
+    invalidateCache():void  {
+        this.mCachedStart = Span.INVALID_LINE;
+        this.mCachedEnd = Span.INVALID_LINE;
+    }
+
+    setLine(line:number):void  {
+        this.mCachedEnd = this.mCachedStart = line;
+    }
+
+    popEnd():void  {
+        const size = this.mViews.size();
+        let end = this.mViews.remove(size - 1);
+        const lp = this.getLayoutParams(end);
+        lp.mSpan = null;
+        if (lp.isItemRemoved() || lp.isItemChanged()) {
+            this.mDeletedSize -= this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedMeasurement(end);
+        }
+        if (size == 1) {
+            this.mCachedStart = Span.INVALID_LINE;
+        }
+        this.mCachedEnd = Span.INVALID_LINE;
+    }
+
+    popStart():void  {
+        let start = this.mViews.remove(0);
+        const lp = this.getLayoutParams(start);
+        lp.mSpan = null;
+        if (this.mViews.size() == 0) {
+            this.mCachedEnd = Span.INVALID_LINE;
+        }
+        if (lp.isItemRemoved() || lp.isItemChanged()) {
+            this.mDeletedSize -= this._StaggeredGridLayoutManager_this.mPrimaryOrientation.getDecoratedMeasurement(start);
+        }
+        this.mCachedStart = Span.INVALID_LINE;
+    }
+
+    getDeletedSize():number  {
+        return this.mDeletedSize;
+    }
+
+    getLayoutParams(view:View):LayoutParams  {
+        return <LayoutParams>view.getLayoutParams();
+    }
+
+    onOffset(dt:number):void  {
+        if (this.mCachedStart != Span.INVALID_LINE) {
+            this.mCachedStart += dt;
+        }
+        if (this.mCachedEnd != Span.INVALID_LINE) {
+            this.mCachedEnd += dt;
+        }
+    }
+
+    findFirstVisibleItemPosition():number  {
+        return this._StaggeredGridLayoutManager_this.mShouldReverseLayout
+            ? this.findOneVisibleChild(this.mViews.size() - 1, -1, false) : this.findOneVisibleChild(0, this.mViews.size(), false);
+    }
+
+    findFirstCompletelyVisibleItemPosition():number  {
+        return this._StaggeredGridLayoutManager_this.mShouldReverseLayout
+            ? this.findOneVisibleChild(this.mViews.size() - 1, -1, true) : this.findOneVisibleChild(0, this.mViews.size(), true);
+    }
+
+    findLastVisibleItemPosition():number  {
+        return this._StaggeredGridLayoutManager_this.mShouldReverseLayout
+            ? this.findOneVisibleChild(0, this.mViews.size(), false) : this.findOneVisibleChild(this.mViews.size() - 1, -1, false);
+    }
+
+    findLastCompletelyVisibleItemPosition():number  {
+        return this._StaggeredGridLayoutManager_this.mShouldReverseLayout
+            ? this.findOneVisibleChild(0, this.mViews.size(), true) : this.findOneVisibleChild(this.mViews.size() - 1, -1, true);
+    }
+
+    findOneVisibleChild(fromIndex:number, toIndex:number, completelyVisible:boolean):number  {
+        const helper = this._StaggeredGridLayoutManager_this.mPrimaryOrientation;
+        const start = helper.getStartAfterPadding();
+        const end = helper.getEndAfterPadding();
+        const next = toIndex > fromIndex ? 1 : -1;
+        for (let i = fromIndex; i != toIndex; i += next) {
+            const child = this.mViews.get(i);
+            const childStart = helper.getDecoratedStart(child);
+            const childEnd = helper.getDecoratedEnd(child);
+            if (childStart < end && childEnd > start) {
+                if (completelyVisible) {
+                    if (childStart >= start && childEnd <= end) {
+                        return this._StaggeredGridLayoutManager_this.getPosition(child);
+                    }
+                } else {
+                    return this._StaggeredGridLayoutManager_this.getPosition(child);
+                }
+            }
+        }
+        return RecyclerView.NO_POSITION;
+    }
+}
+
+/**
+ * An array of mappings from adapter position to span.
+ * This only grows when a write happens and it grows up to the size of the adapter.
+ */
+export class LazySpanLookup {
+
+    private static MIN_SIZE:number = 10;
+
+    mData:number[];
+
+    /**
+     * Invalidates everything after this position.
+     */
+    invalidateAfter(position:number):void  {
+        if (this.mData == null) {
+            return;
+        }
+        if (position >= this.mData.length) {
+            return;
+        }
+        this.mData.length = Math.max(0, position);
+    }
+
+    getSpan(position:number):number  {
+        if (this.mData == null || position >= this.mData.length) {
+            return LayoutParams.INVALID_SPAN_ID;
+        } else {
+            return this.mData[position];
+        }
+    }
+
+    setSpan(position:number, span:Span):void  {
+        this.ensureSize(position);
+        this.mData[position] = span.mIndex;
+    }
+
+    ensureSize(position:number):void  {
+        if (this.mData == null) {
+            this.mData = [];
+        }
+        for (let i = this.mData.length, size = Math.max(position + 1, LazySpanLookup.MIN_SIZE); i < size; i++) {
+            this.mData[i] = LayoutParams.INVALID_SPAN_ID;
+        }
+    }
+
+    clear():void  {
+        this.mData = null;
+    }
+}
+
+/**
+ * Data class to hold the information about an anchor position which is used in onLayout call.
+ */
+export class AnchorInfo {
+    _StaggeredGridLayoutManager_this:StaggeredGridLayoutManager;
+    constructor(arg:StaggeredGridLayoutManager) {
+        this._StaggeredGridLayoutManager_this = arg;
+    }
+
+    mPosition:number = 0;
+
+    mOffset:number = 0;
+
+    mLayoutFromEnd:boolean = false;
+
+    mInvalidateOffsets:boolean = false;
+
+    reset():void  {
+        this.mPosition = RecyclerView.NO_POSITION;
+        this.mOffset = StaggeredGridLayoutManager.INVALID_OFFSET;
+        this.mLayoutFromEnd = false;
+        this.mInvalidateOffsets = false;
+    }
+
+    assignCoordinateFromPadding():void  {
+        const helper = this._StaggeredGridLayoutManager_this.mPrimaryOrientation;
+        this.mOffset = this.mLayoutFromEnd ? helper.getEndAfterPadding() : helper.getStartAfterPadding();
+    }
+}
+
+/**
+ * Keeps the temporary state while StaggeredGridLayoutManager fills its spans.
+ */
+export class LayoutState {
+
+    static LAYOUT_START:number = -1;
+
+    static LAYOUT_END:number = 1;
+
+    static ITEM_DIRECTION_HEAD:number = -1;
+
+    static ITEM_DIRECTION_TAIL:number = 1;
+
+    /**
+     * Number of pixels that we should fill, in the layout direction.
+     */
+    mAvailable:number = 0;
+
+    /**
+     * Current position on the adapter to get the next item.
+     */
+    mCurrentPosition:number = 0;
+
+    /**
+     * Defines the direction in which the data adapter is traversed.
+     * Should be {@link #ITEM_DIRECTION_HEAD} or {@link #ITEM_DIRECTION_TAIL}
+     */
+    mItemDirection:number = 0;
+
+    /**
+     * Defines the direction in which the layout is filled.
+     * Should be {@link #LAYOUT_START} or {@link #LAYOUT_END}
+     */
+    mLayoutDirection:number = 0;
+
+    /**
+     * This is the target pixel closest to the start of the layout that we are trying to fill
+     */
+    mStartLine:number = 0;
+
+    /**
+     * This is the target pixel closest to the end of the layout that we are trying to fill
+     */
+    mEndLine:number = 0;
+
+    /**
+     * @return true if there are more items in the data adapter
+     */
+    hasMore(state:State):boolean  {
+        return this.mCurrentPosition >= 0 && this.mCurrentPosition < state.getItemCount();
+    }
+
+    /**
+     * Gets the view for the next element that we should render.
+     * Also updates current item index to the next item, based on {@link #mItemDirection}
+     *
+     * @return The next element that we should render.
+     */
+    next(recycler:Recycler):View  {
+        const view = recycler.getViewForPosition(this.mCurrentPosition);
+        this.mCurrentPosition += this.mItemDirection;
+        return view;
+    }
+}
+}
+
+}
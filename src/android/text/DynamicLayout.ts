@@ -16,6 +16,7 @@
 
 ///<reference path="../../android/graphics/Paint.ts"/>
 ///<reference path="../../android/text/style/UpdateLayout.ts"/>
+///<reference path="../../android/text/style/MetricAffectingSpan.ts"/>
 ///<reference path="../../android/text/style/WrapTogetherSpan.ts"/>
 ///<reference path="../../java/lang/ref/WeakReference.ts"/>
 ///<reference path="../../java/lang/System.ts"/>
@@ -30,10 +31,12 @@
 ///<reference path="../../android/text/TextPaint.ts"/>
 ///<reference path="../../android/text/TextUtils.ts"/>
 ///<reference path="../../android/text/TextWatcher.ts"/>
+///<reference path="../../android/text/SpanWatcher.ts"/>
 
 module android.text {
 import Paint = android.graphics.Paint;
 import UpdateLayout = android.text.style.UpdateLayout;
+import MetricAffectingSpan = android.text.style.MetricAffectingSpan;
 import WrapTogetherSpan = android.text.style.WrapTogetherSpan;
 import WeakReference = java.lang.ref.WeakReference;
 import System = java.lang.System;
@@ -48,6 +51,7 @@ import TextDirectionHeuristics = android.text.TextDirectionHeuristics;
 import TextPaint = android.text.TextPaint;
 import TextUtils = android.text.TextUtils;
 import TextWatcher = android.text.TextWatcher;
+import SpanWatcher = android.text.SpanWatcher;
 /**
  * DynamicLayout is a text layout that updates itself as the text is edited.
  * <p>This is used by widgets to control text layout. You should not need
@@ -128,18 +132,19 @@ export class DynamicLayout extends Layout {
         this.mObjects.insertAt(0, dirs);
         // Update from 0 characters to whatever the real text is
         this.reflow(base, 0, 0, base.length);
-        //if (base instanceof Spannable) {
-        //    if (this.mWatcher == null)
-        //        this.mWatcher = new DynamicLayout.ChangeWatcher(this);
-        //    // Strip out any watchers for other DynamicLayouts.
-        //    let sp:Spannable = <Spannable> base;
-        //    let spans:DynamicLayout.ChangeWatcher[] = sp.getSpans(0, sp.length(), DynamicLayout.ChangeWatcher.class);
-        //    for (let i:number = 0; i < spans.length; i++) sp.removeSpan(spans[i]);
-        //    sp.setSpan(this.mWatcher, 0, base.length(), Spannable.SPAN_INCLUSIVE_INCLUSIVE | (DynamicLayout.PRIORITY << Spannable.SPAN_PRIORITY_SHIFT));
-        //}
+        if (Spannable.isImpl(base)) {
+            if (this.mWatcher == null)
+                this.mWatcher = new DynamicLayout.ChangeWatcher(this);
+            // Strip out any watchers for other DynamicLayouts.
+            let sp:Spannable = <Spannable> base;
+            let spans:DynamicLayout.ChangeWatcher[] = sp.getSpans<DynamicLayout.ChangeWatcher>(0, sp.length, DynamicLayout.ChangeWatcher);
+            for (let i:number = 0; i < spans.length; i++) sp.removeSpan(spans[i]);
+            sp.setSpan(this.mWatcher, 0, base.length, Spanned.SPAN_INCLUSIVE_INCLUSIVE | (DynamicLayout.PRIORITY << Spanned.SPAN_PRIORITY_SHIFT));
+        }
     }
 
-    private reflow(s:String, where:number, before:number, after:number):void  {
+    /* package */
+    reflow(s:String, where:number, before:number, after:number):void  {
         if (s != this.mBase)
             return;
         let text:String = this.mDisplay;
@@ -528,7 +533,7 @@ export class DynamicLayout extends Layout {
 
     private mDisplay:String;
 
-    private mWatcher;//:DynamicLayout.ChangeWatcher;
+    private mWatcher:DynamicLayout.ChangeWatcher;
 
     private mIncludePad:boolean;
 
@@ -597,51 +602,51 @@ export class DynamicLayout extends Layout {
 }
 
 export module DynamicLayout{
-//export class ChangeWatcher implements TextWatcher, SpanWatcher {
-//
-//    constructor( layout:DynamicLayout) {
-//        this.mLayout = new WeakReference<DynamicLayout>(layout);
-//    }
-//
-//    private reflow(s:CharSequence, where:number, before:number, after:number):void  {
-//        let ml:DynamicLayout = this.mLayout.get();
-//        if (ml != null)
-//            ml.reflow(s, where, before, after);
-//        else if (s instanceof Spannable)
-//            (<Spannable> s).removeSpan(this);
-//    }
-//
-//    beforeTextChanged(s:CharSequence, where:number, before:number, after:number):void  {
-//    // Intentionally empty
-//    }
-//
-//    onTextChanged(s:CharSequence, where:number, before:number, after:number):void  {
-//        this.reflow(s, where, before, after);
-//    }
-//
-//    afterTextChanged(s:Editable):void  {
-//    // Intentionally empty
-//    }
-//
-//    onSpanAdded(s:Spannable, o:any, start:number, end:number):void  {
-//        if (o instanceof UpdateLayout)
-//            this.reflow(s, start, end - start, end - start);
-//    }
-//
-//    onSpanRemoved(s:Spannable, o:any, start:number, end:number):void  {
-//        if (o instanceof UpdateLayout)
-//            this.reflow(s, start, end - start, end - start);
-//    }
-//
-//    onSpanChanged(s:Spannable, o:any, start:number, end:number, nstart:number, nend:number):void  {
-//        if (o instanceof UpdateLayout) {
-//            this.reflow(s, start, end - start, end - start);
-//            this.reflow(s, nstart, nend - nstart, nend - nstart);
-//        }
-//    }
-//
-//    private mLayout:WeakReference<DynamicLayout>;
-//}
+export class ChangeWatcher implements TextWatcher, SpanWatcher {
+
+    constructor( layout:DynamicLayout) {
+        this.mLayout = new WeakReference<DynamicLayout>(layout);
+    }
+
+    private reflow(s:String, where:number, before:number, after:number):void  {
+        let ml:DynamicLayout = this.mLayout.get();
+        if (ml != null)
+            ml.reflow(s, where, before, after);
+        else if (Spannable.isImpl(s))
+            (<Spannable> s).removeSpan(this);
+    }
+
+    beforeTextChanged(s:String, where:number, before:number, after:number):void  {
+    // Intentionally empty
+    }
+
+    onTextChanged(s:String, where:number, before:number, after:number):void  {
+        this.reflow(s, where, before, after);
+    }
+
+    afterTextChanged(s:String):void  {
+    // Intentionally empty
+    }
+
+    onSpanAdded(s:Spannable, o:any, start:number, end:number):void  {
+        if (o instanceof MetricAffectingSpan)
+            this.reflow(s, start, end - start, end - start);
+    }
+
+    onSpanRemoved(s:Spannable, o:any, start:number, end:number):void  {
+        if (o instanceof MetricAffectingSpan)
+            this.reflow(s, start, end - start, end - start);
+    }
+
+    onSpanChanged(s:Spannable, o:any, start:number, end:number, nstart:number, nend:number):void  {
+        if (o instanceof MetricAffectingSpan) {
+            this.reflow(s, start, end - start, end - start);
+            this.reflow(s, nstart, nend - nstart, nend - nstart);
+        }
+    }
+
+    private mLayout:WeakReference<DynamicLayout>;
+}
 }
 
 }
\ No newline at end of file
@@ -0,0 +1,746 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/graphics/Color.ts"/>
+///<reference path="../../android/graphics/Typeface.ts"/>
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/text/Spanned.ts"/>
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpannableStringBuilder.ts"/>
+///<reference path="../../android/text/TextUtils.ts"/>
+///<reference path="../../android/text/style/AbsoluteSizeSpan.ts"/>
+///<reference path="../../android/text/style/BulletSpan.ts"/>
+///<reference path="../../android/text/style/CharacterStyle.ts"/>
+///<reference path="../../android/text/style/ForegroundColorSpan.ts"/>
+///<reference path="../../android/text/style/ImageSpan.ts"/>
+///<reference path="../../android/text/style/ParagraphStyle.ts"/>
+///<reference path="../../android/text/style/QuoteSpan.ts"/>
+///<reference path="../../android/text/style/RelativeSizeSpan.ts"/>
+///<reference path="../../android/text/style/StrikethroughSpan.ts"/>
+///<reference path="../../android/text/style/StyleSpan.ts"/>
+///<reference path="../../android/text/style/SubscriptSpan.ts"/>
+///<reference path="../../android/text/style/SuperscriptSpan.ts"/>
+///<reference path="../../android/text/style/TypefaceSpan.ts"/>
+///<reference path="../../android/text/style/URLSpan.ts"/>
+///<reference path="../../android/text/style/UnderlineSpan.ts"/>
+///<reference path="../../java/lang/StringBuilder.ts"/>
+///<reference path="../../androidui/image/NetDrawable.ts"/>
+
+module android.text {
+import Color = android.graphics.Color;
+import Typeface = android.graphics.Typeface;
+import Drawable = android.graphics.drawable.Drawable;
+import Spanned = android.text.Spanned;
+import Spannable = android.text.Spannable;
+import SpannableStringBuilder = android.text.SpannableStringBuilder;
+import TextUtils = android.text.TextUtils;
+import AbsoluteSizeSpan = android.text.style.AbsoluteSizeSpan;
+import BulletSpan = android.text.style.BulletSpan;
+import CharacterStyle = android.text.style.CharacterStyle;
+import ForegroundColorSpan = android.text.style.ForegroundColorSpan;
+import ImageSpan = android.text.style.ImageSpan;
+import ParagraphStyle = android.text.style.ParagraphStyle;
+import QuoteSpan = android.text.style.QuoteSpan;
+import RelativeSizeSpan = android.text.style.RelativeSizeSpan;
+import StrikethroughSpan = android.text.style.StrikethroughSpan;
+import StyleSpan = android.text.style.StyleSpan;
+import SubscriptSpan = android.text.style.SubscriptSpan;
+import SuperscriptSpan = android.text.style.SuperscriptSpan;
+import TypefaceSpan = android.text.style.TypefaceSpan;
+import URLSpan = android.text.style.URLSpan;
+import UnderlineSpan = android.text.style.UnderlineSpan;
+import StringBuilder = java.lang.StringBuilder;
+import NetDrawable = androidui.image.NetDrawable;
+
+/**
+ * This class processes HTML strings into displayable styled text.
+ * Not all HTML tags are supported.
+ */
+export class Html {
+
+    /**
+     * Returns displayable styled text from the provided HTML string.
+     * Any &lt;img&gt; tags in the HTML will use the specified ImageGetter
+     * to request a representation of the image (use null if you want a
+     * {@link androidui.image.NetDrawable} loading the image source) and
+     * the specified TagHandler to handle unknown tags (specify null if
+     * you don't want this).
+     *
+     * <p>This uses the browser's DOMParser to parse the HTML, so malformed
+     * HTML is handled the same way the browser does.
+     */
+    static fromHtml(source:string, imageGetter:Html.ImageGetter = null, tagHandler:Html.TagHandler = null):Spanned  {
+        let converter:HtmlToSpannedConverter = new HtmlToSpannedConverter(source, imageGetter, tagHandler);
+        return converter.convert();
+    }
+
+    /**
+     * Returns an HTML representation of the provided Spanned text.
+     */
+    static toHtml(text:Spanned):string  {
+        let out:StringBuilder = new StringBuilder();
+        Html.withinHtml(out, text);
+        return out.toString();
+    }
+
+    /**
+     * Returns an HTML escaped representation of the given plain text.
+     */
+    static escapeHtml(text:String):string  {
+        let out:StringBuilder = new StringBuilder();
+        Html.withinStyle(out, text, 0, text.length);
+        return out.toString();
+    }
+
+    private static withinHtml(out:StringBuilder, text:Spanned):void  {
+        let len:number = text.length;
+        let next:number;
+        for (let i:number = 0; i < text.length; i = next) {
+            next = text.nextSpanTransition(i, len, QuoteSpan);
+            let quotes:QuoteSpan[] = text.getSpans<QuoteSpan>(i, next, QuoteSpan);
+            for (let quote of quotes) {
+                out.append("<blockquote>");
+            }
+            Html.withinBlockquote(out, text, i, next);
+            for (let quote of quotes) {
+                out.append("</blockquote>\n");
+            }
+        }
+    }
+
+    private static withinBlockquote(out:StringBuilder, text:Spanned, start:number, end:number):void  {
+        out.append(Html.getOpenParaTag());
+        let isInList:boolean = false;
+        let next:number;
+        for (let i:number = start; i < end; i = next) {
+            next = text.toString().indexOf('\n', i);
+            if (next < 0 || next > end) {
+                next = end;
+            }
+            let nl:number = 0;
+            while (next < end && text.charAt(next) == '\n') {
+                nl++;
+                next++;
+            }
+            let isListItem:boolean = text.getSpans<BulletSpan>(i, next - nl, BulletSpan).length > 0;
+            if (isListItem) {
+                if (!isInList) {
+                    isInList = true;
+                    out.append("</p>\n<ul>\n");
+                }
+                out.append("<li>");
+                Html.withinParagraph(out, text, i, next - nl);
+                out.append("</li>\n");
+                continue;
+            }
+            if (isInList) {
+                isInList = false;
+                out.append("</ul>\n").append(Html.getOpenParaTag());
+            }
+            Html.withinParagraph(out, text, i, next - nl);
+            let p:string = next == end ? "" : "</p>\n" + Html.getOpenParaTag();
+            if (nl == 1) {
+                out.append("<br>\n");
+            } else if (nl == 2) {
+                out.append(p);
+            } else {
+                for (let j:number = 2; j < nl; j++) {
+                    out.append("<br>");
+                }
+                out.append(p);
+            }
+        }
+        out.append(isInList ? "</ul>\n" : "</p>\n");
+    }
+
+    private static getOpenParaTag():string  {
+        // bidi is not supported, paragraphs are always left to right
+        return "<p dir=\"ltr\">";
+    }
+
+    private static withinParagraph(out:StringBuilder, text:Spanned, start:number, end:number):void  {
+        let next:number;
+        for (let i:number = start; i < end; i = next) {
+            next = text.nextSpanTransition(i, end, CharacterStyle.type);
+            let style:CharacterStyle[] = text.getSpans<CharacterStyle>(i, next, CharacterStyle.type);
+            for (let j:number = 0; j < style.length; j++) {
+                if (style[j] instanceof StyleSpan) {
+                    let s:number = (<StyleSpan> style[j]).getStyle();
+                    if ((s & Typeface.BOLD) != 0) {
+                        out.append("<b>");
+                    }
+                    if ((s & Typeface.ITALIC) != 0) {
+                        out.append("<i>");
+                    }
+                }
+                if (style[j] instanceof TypefaceSpan) {
+                    let s:string = (<TypefaceSpan> style[j]).getFamily();
+                    if (s == "monospace") {
+                        out.append("<tt>");
+                    }
+                }
+                if (style[j] instanceof SuperscriptSpan) {
+                    out.append("<sup>");
+                }
+                if (style[j] instanceof SubscriptSpan) {
+                    out.append("<sub>");
+                }
+                if (style[j] instanceof UnderlineSpan) {
+                    out.append("<u>");
+                }
+                if (style[j] instanceof StrikethroughSpan) {
+                    out.append("<strike>");
+                }
+                if (style[j] instanceof URLSpan) {
+                    out.append("<a href=\"");
+                    out.append(Html.escapeHtml((<URLSpan> style[j]).getURL()));
+                    out.append("\">");
+                }
+                if (style[j] instanceof ImageSpan) {
+                    out.append("<img src=\"");
+                    out.append(Html.escapeHtml((<ImageSpan> style[j]).getSource() || ''));
+                    out.append("\">");
+                    // Don't output the dummy character underlying the image.
+                    i = next;
+                }
+                if (style[j] instanceof AbsoluteSizeSpan) {
+                    let span = <AbsoluteSizeSpan> style[j];
+                    out.append("<font size=\"");
+                    out.append(span.getSize() + (span.getDip() ? "dp" : "px"));
+                    out.append("\">");
+                }
+                if (style[j] instanceof ForegroundColorSpan) {
+                    out.append("<font color=\"#");
+                    let color:string = ((<ForegroundColorSpan> style[j]).getForegroundColor() & 0xFFFFFF).toString(16);
+                    while (color.length < 6) {
+                        color = "0" + color;
+                    }
+                    out.append(color);
+                    out.append("\">");
+                }
+            }
+            Html.withinStyle(out, text, i, next);
+            for (let j:number = style.length - 1; j >= 0; j--) {
+                if (style[j] instanceof ForegroundColorSpan) {
+                    out.append("</font>");
+                }
+                if (style[j] instanceof AbsoluteSizeSpan) {
+                    out.append("</font>");
+                }
+                if (style[j] instanceof URLSpan) {
+                    out.append("</a>");
+                }
+                if (style[j] instanceof StrikethroughSpan) {
+                    out.append("</strike>");
+                }
+                if (style[j] instanceof UnderlineSpan) {
+                    out.append("</u>");
+                }
+                if (style[j] instanceof SubscriptSpan) {
+                    out.append("</sub>");
+                }
+                if (style[j] instanceof SuperscriptSpan) {
+                    out.append("</sup>");
+                }
+                if (style[j] instanceof TypefaceSpan) {
+                    let s:string = (<TypefaceSpan> style[j]).getFamily();
+                    if (s == "monospace") {
+                        out.append("</tt>");
+                    }
+                }
+                if (style[j] instanceof StyleSpan) {
+                    let s:number = (<StyleSpan> style[j]).getStyle();
+                    if ((s & Typeface.ITALIC) != 0) {
+                        out.append("</i>");
+                    }
+                    if ((s & Typeface.BOLD) != 0) {
+                        out.append("</b>");
+                    }
+                }
+            }
+        }
+    }
+
+    private static withinStyle(out:StringBuilder, text:String, start:number, end:number):void  {
+        for (let i:number = start; i < end; i++) {
+            let c:number = text.charCodeAt(i);
+            if (c == '<'.charCodeAt(0)) {
+                out.append("&lt;");
+            } else if (c == '>'.charCodeAt(0)) {
+                out.append("&gt;");
+            } else if (c == '&'.charCodeAt(0)) {
+                out.append("&amp;");
+            } else if (c == '"'.charCodeAt(0)) {
+                out.append("&quot;");
+            } else if (c >= 0xD800 && c <= 0xDFFF) {
+                if (c < 0xDC00 && i + 1 < end) {
+                    let d:number = text.charCodeAt(i + 1);
+                    if (d >= 0xDC00 && d <= 0xDFFF) {
+                        i++;
+                        let codepoint:number = 0x010000 | (c - 0xD800) << 10 | (d - 0xDC00);
+                        out.append("&#").append(codepoint).append(";");
+                    }
+                }
+            } else if (c > 0x7E || c < ' '.charCodeAt(0)) {
+                out.append("&#").append(c).append(";");
+            } else if (c == ' '.charCodeAt(0)) {
+                while (i + 1 < end && text.charAt(i + 1) == ' ') {
+                    out.append("&nbsp;");
+                    i++;
+                }
+                out.append(' ');
+            } else {
+                out.append(text.charAt(i));
+            }
+        }
+    }
+}
+
+export module Html {
+    /**
+     * Retrieves images for HTML &lt;img&gt; tags.
+     */
+    export interface ImageGetter {
+        /**
+         * This method is called when the HTML parser encounters an
+         * &lt;img&gt; tag.  The <code>source</code> argument is the
+         * string from the "src" attribute; the return value should be
+         * a Drawable representation of the image or <code>null</code>
+         * for a generic replacement image.  Make sure you call
+         * setBounds() on your Drawable if it doesn't already have
+         * its bounds set.
+         */
+        getDrawable(source:string):Drawable ;
+    }
+
+    /**
+     * Is notified when HTML tags are encountered that the parser does
+     * not know how to interpret.
+     */
+    export interface TagHandler {
+        /**
+         * This method will be called whenn the HTML parser encounters
+         * a tag that it does not know how to interpret.
+         * @param element the DOM element of the tag, to read its attributes
+         */
+        handleTag(opening:boolean, tag:string, output:SpannableStringBuilder, element:Element):void ;
+    }
+}
+
+class HtmlToSpannedConverter {
+
+    private static HEADER_SIZES:number[] = [ 1.5, 1.4, 1.3, 1.2, 1.1, 1 ];
+
+    // relative to the default size 3, as the browser does
+    private static FONT_SIZES:number[] = [ 0.625, 0.8125, 1, 1.125, 1.5, 2, 3 ];
+
+    private mSource:string;
+
+    private mSpannableStringBuilder:SpannableStringBuilder;
+
+    private mImageGetter:Html.ImageGetter;
+
+    private mTagHandler:Html.TagHandler;
+
+    constructor(source:string, imageGetter:Html.ImageGetter, tagHandler:Html.TagHandler) {
+        this.mSource = source;
+        this.mSpannableStringBuilder = new SpannableStringBuilder();
+        this.mImageGetter = imageGetter;
+        this.mTagHandler = tagHandler;
+    }
+
+    convert():Spanned  {
+        let doc:Document = new DOMParser().parseFromString(this.mSource, 'text/html');
+        this.handleChildren(doc.body);
+        // Fix flags and range for paragraph-type markup.
+        let text:SpannableStringBuilder = this.mSpannableStringBuilder;
+        let obj:ParagraphStyle[] = text.getSpans<ParagraphStyle>(0, text.length, ParagraphStyle.type);
+        for (let i:number = 0; i < obj.length; i++) {
+            let start:number = text.getSpanStart(obj[i]);
+            let end:number = text.getSpanEnd(obj[i]);
+            // If the last line of the range is blank, back off by one.
+            if (end - 2 >= 0) {
+                if (text.charAt(end - 1) == '\n' && text.charAt(end - 2) == '\n') {
+                    end--;
+                }
+            }
+            if (end == start) {
+                text.removeSpan(obj[i]);
+            } else {
+                text.setSpan(obj[i], start, end, Spanned.SPAN_PARAGRAPH);
+            }
+        }
+        return text;
+    }
+
+    private handleChildren(parent:Node):void  {
+        if (parent == null) return;
+        for (let node:Node = parent.firstChild; node != null; node = node.nextSibling) {
+            if (node.nodeType == Node.TEXT_NODE) {
+                this.characters(node.nodeValue);
+            } else if (node.nodeType == Node.ELEMENT_NODE) {
+                let element = <Element> node;
+                let tag:string = element.tagName.toLowerCase();
+                this.handleStartTag(tag, element);
+                this.handleChildren(element);
+                this.handleEndTag(tag, element);
+            }
+        }
+    }
+
+    private handleStartTag(tag:string, element:Element):void  {
+        let text:SpannableStringBuilder = this.mSpannableStringBuilder;
+        if (tag == "br") {
+            // We don't need to handle this. The line break is emitted when we
+            // handle the close tag.
+        } else if (tag == "p" || tag == "div") {
+            HtmlToSpannedConverter.handleP(text);
+        } else if (tag == "strong" || tag == "b") {
+            HtmlToSpannedConverter.start(text, new Bold());
+        } else if (tag == "em" || tag == "cite" || tag == "dfn" || tag == "i") {
+            HtmlToSpannedConverter.start(text, new Italic());
+        } else if (tag == "big") {
+            HtmlToSpannedConverter.start(text, new Big());
+        } else if (tag == "small") {
+            HtmlToSpannedConverter.start(text, new Small());
+        } else if (tag == "font") {
+            HtmlToSpannedConverter.startFont(text, element);
+        } else if (tag == "blockquote") {
+            HtmlToSpannedConverter.handleP(text);
+            HtmlToSpannedConverter.start(text, new Blockquote());
+        } else if (tag == "tt") {
+            HtmlToSpannedConverter.start(text, new Monospace());
+        } else if (tag == "a") {
+            HtmlToSpannedConverter.startA(text, element);
+        } else if (tag == "u") {
+            HtmlToSpannedConverter.start(text, new Underline());
+        } else if (tag == "s" || tag == "strike" || tag == "del") {
+            HtmlToSpannedConverter.start(text, new Strikethrough());
+        } else if (tag == "sup") {
+            HtmlToSpannedConverter.start(text, new Super());
+        } else if (tag == "sub") {
+            HtmlToSpannedConverter.start(text, new Sub());
+        } else if (tag == "ul") {
+            HtmlToSpannedConverter.handleP(text);
+        } else if (tag == "li") {
+            HtmlToSpannedConverter.handleLineStart(text);
+            HtmlToSpannedConverter.start(text, new Bullet());
+        } else if (tag.length == 2 && tag.charAt(0) == 'h' && tag.charAt(1) >= '1' && tag.charAt(1) <= '6') {
+            HtmlToSpannedConverter.handleP(text);
+            HtmlToSpannedConverter.start(text, new Header(Number.parseInt(tag.charAt(1)) - 1));
+        } else if (tag == "img") {
+            HtmlToSpannedConverter.startImg(text, element, this.mImageGetter);
+        } else if (this.mTagHandler != null) {
+            this.mTagHandler.handleTag(true, tag, text, element);
+        }
+    }
+
+    private handleEndTag(tag:string, element:Element):void  {
+        let text:SpannableStringBuilder = this.mSpannableStringBuilder;
+        if (tag == "br") {
+            HtmlToSpannedConverter.handleBr(text);
+        } else if (tag == "p" || tag == "div") {
+            HtmlToSpannedConverter.handleP(text);
+        } else if (tag == "strong" || tag == "b") {
+            HtmlToSpannedConverter.end(text, Bold, new StyleSpan(Typeface.BOLD));
+        } else if (tag == "em" || tag == "cite" || tag == "dfn" || tag == "i") {
+            HtmlToSpannedConverter.end(text, Italic, new StyleSpan(Typeface.ITALIC));
+        } else if (tag == "big") {
+            HtmlToSpannedConverter.end(text, Big, new RelativeSizeSpan(1.25));
+        } else if (tag == "small") {
+            HtmlToSpannedConverter.end(text, Small, new RelativeSizeSpan(0.8));
+        } else if (tag == "font") {
+            HtmlToSpannedConverter.endFont(text);
+        } else if (tag == "blockquote") {
+            HtmlToSpannedConverter.handleP(text);
+            HtmlToSpannedConverter.end(text, Blockquote, new QuoteSpan());
+        } else if (tag == "tt") {
+            HtmlToSpannedConverter.end(text, Monospace, new TypefaceSpan("monospace"));
+        } else if (tag == "a") {
+            HtmlToSpannedConverter.endA(text);
+        } else if (tag == "u") {
+            HtmlToSpannedConverter.end(text, Underline, new UnderlineSpan());
+        } else if (tag == "s" || tag == "strike" || tag == "del") {
+            HtmlToSpannedConverter.end(text, Strikethrough, new StrikethroughSpan());
+        } else if (tag == "sup") {
+            HtmlToSpannedConverter.end(text, Super, new SuperscriptSpan());
+        } else if (tag == "sub") {
+            HtmlToSpannedConverter.end(text, Sub, new SubscriptSpan());
+        } else if (tag == "ul") {
+            HtmlToSpannedConverter.handleP(text);
+        } else if (tag == "li") {
+            HtmlToSpannedConverter.handleLineStart(text);
+            HtmlToSpannedConverter.end(text, Bullet, new BulletSpan());
+        } else if (tag.length == 2 && tag.charAt(0) == 'h' && tag.charAt(1) >= '1' && tag.charAt(1) <= '6') {
+            HtmlToSpannedConverter.handleP(text);
+            HtmlToSpannedConverter.endHeader(text);
+        } else if (tag == "img") {
+            // handled at the start tag
+        } else if (this.mTagHandler != null) {
+            this.mTagHandler.handleTag(false, tag, text, element);
+        }
+    }
+
+    private static handleP(text:SpannableStringBuilder):void  {
+        let len:number = text.length;
+        if (len >= 1 && text.charAt(len - 1) == '\n') {
+            if (len >= 2 && text.charAt(len - 2) == '\n') {
+                return;
+            }
+            text.append("\n");
+            return;
+        }
+        if (len != 0) {
+            text.append("\n\n");
+        }
+    }
+
+    private static handleLineStart(text:SpannableStringBuilder):void  {
+        let len:number = text.length;
+        if (len != 0 && text.charAt(len - 1) != '\n') {
+            text.append("\n");
+        }
+    }
+
+    private static handleBr(text:SpannableStringBuilder):void  {
+        text.append("\n");
+    }
+
+    private static getLast(text:Spanned, kind:any):any  {
+        /*
+         * This knows that the last returned object from getSpans()
+         * will be the most recently added.
+         */
+        let objs:any[] = text.getSpans<any>(0, text.length, kind);
+        if (objs.length == 0) {
+            return null;
+        } else {
+            return objs[objs.length - 1];
+        }
+    }
+
+    private static start(text:SpannableStringBuilder, mark:any):void  {
+        let len:number = text.length;
+        text.setSpan(mark, len, len, Spanned.SPAN_MARK_MARK);
+    }
+
+    private static end(text:SpannableStringBuilder, kind:any, repl:any):void  {
+        let len:number = text.length;
+        let obj:any = HtmlToSpannedConverter.getLast(text, kind);
+        if (obj == null) return;
+        let where:number = text.getSpanStart(obj);
+        text.removeSpan(obj);
+        if (where != len) {
+            text.setSpan(repl, where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+        }
+    }
+
+    private static endHeader(text:SpannableStringBuilder):void  {
+        let len:number = text.length;
+        let obj:Header = HtmlToSpannedConverter.getLast(text, Header);
+        if (obj == null) return;
+        let where:number = text.getSpanStart(obj);
+        text.removeSpan(obj);
+        // Back off not to change only the text, not the blank line.
+        while (len > where && text.charAt(len - 1) == '\n') {
+            len--;
+        }
+        if (where != len) {
+            text.setSpan(new RelativeSizeSpan(HtmlToSpannedConverter.HEADER_SIZES[obj.mLevel]), where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+            text.setSpan(new StyleSpan(Typeface.BOLD), where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+        }
+    }
+
+    private static startImg(text:SpannableStringBuilder, element:Element, img:Html.ImageGetter):void  {
+        let src:string = element.getAttribute("src");
+        let d:Drawable = null;
+        if (img != null) {
+            d = img.getDrawable(src);
+        }
+        if (d == null) {
+            d = new NetDrawable(src);
+            d.setBounds(0, 0, d.getIntrinsicWidth(), d.getIntrinsicHeight());
+        }
+        let len:number = text.length;
+        text.append("￼");
+        text.setSpan(new ImageSpan(d, src), len, text.length, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+    }
+
+    private static startFont(text:SpannableStringBuilder, element:Element):void  {
+        let color:string = element.getAttribute("color");
+        let face:string = element.getAttribute("face");
+        let size:string = element.getAttribute("size");
+        let len:number = text.length;
+        text.setSpan(new Font(color, face, size), len, len, Spanned.SPAN_MARK_MARK);
+    }
+
+    private static endFont(text:SpannableStringBuilder):void  {
+        let len:number = text.length;
+        let f:Font = HtmlToSpannedConverter.getLast(text, Font);
+        if (f == null) return;
+        let where:number = text.getSpanStart(f);
+        text.removeSpan(f);
+        if (where == len) return;
+        if (!TextUtils.isEmpty(f.mColor)) {
+            let c:number = Color.parseColor(f.mColor.trim(), Number.NaN);
+            if (!Number.isNaN(c)) {
+                text.setSpan(new ForegroundColorSpan(c | 0xFF000000), where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+            }
+        }
+        if (f.mFace != null) {
+            text.setSpan(new TypefaceSpan(f.mFace), where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+        }
+        if (!TextUtils.isEmpty(f.mSize)) {
+            let sizeSpan:any = HtmlToSpannedConverter.getFontSizeSpan(f.mSize.trim());
+            if (sizeSpan != null) {
+                text.setSpan(sizeSpan, where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+            }
+        }
+    }
+
+    /**
+     * Html font size 1-7 (or relative like +1, -1) means a size relative to the default text size,
+     * a size with unit (px, dp, sp) means an absolute size.
+     */
+    private static getFontSizeSpan(size:string):any  {
+        let value:number = Number.parseFloat(size);
+        if (Number.isNaN(value)) return null;
+        if (size.endsWith('px')) {
+            return new AbsoluteSizeSpan(value);
+        }
+        if (size.endsWith('dp') || size.endsWith('dip') || size.endsWith('sp')) {
+            return new AbsoluteSizeSpan(value, true);
+        }
+        if (size.charAt(0) == '+' || size.charAt(0) == '-') {
+            value += 3;
+        }
+        let index:number = Math.min(Math.max(Math.floor(value), 1), 7) - 1;
+        return new RelativeSizeSpan(HtmlToSpannedConverter.FONT_SIZES[index]);
+    }
+
+    private static startA(text:SpannableStringBuilder, element:Element):void  {
+        let href:string = element.getAttribute("href");
+        let len:number = text.length;
+        text.setSpan(new Href(href), len, len, Spanned.SPAN_MARK_MARK);
+    }
+
+    private static endA(text:SpannableStringBuilder):void  {
+        let len:number = text.length;
+        let h:Href = HtmlToSpannedConverter.getLast(text, Href);
+        if (h == null) return;
+        let where:number = text.getSpanStart(h);
+        text.removeSpan(h);
+        if (where != len) {
+            if (h.mHref != null) {
+                text.setSpan(new URLSpan(h.mHref), where, len, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+            }
+        }
+    }
+
+    private characters(chars:string):void  {
+        let sb:StringBuilder = new StringBuilder();
+        let text:SpannableStringBuilder = this.mSpannableStringBuilder;
+        /*
+         * Ignore whitespace that immediately follows other whitespace;
+         * newlines count as spaces.
+         */
+        for (let i:number = 0; i < chars.length; i++) {
+            let c:string = chars.charAt(i);
+            if (c == ' ' || c == '\n' || c == '\r' || c == '\t') {
+                let pred:string;
+                let len:number = sb.length();
+                if (len == 0) {
+                    len = text.length;
+                    if (len == 0) {
+                        pred = '\n';
+                    } else {
+                        pred = text.charAt(len - 1);
+                    }
+                } else {
+                    pred = sb.toString().charAt(len - 1);
+                }
+                if (pred != ' ' && pred != '\n') {
+                    sb.append(' ');
+                }
+            } else {
+                sb.append(c);
+            }
+        }
+        text.append(sb.toString());
+    }
+}
+
+class Bold {
+}
+
+class Italic {
+}
+
+class Underline {
+}
+
+class Strikethrough {
+}
+
+class Big {
+}
+
+class Small {
+}
+
+class Monospace {
+}
+
+class Blockquote {
+}
+
+class Super {
+}
+
+class Sub {
+}
+
+class Bullet {
+}
+
+class Font {
+    mColor:string;
+    mFace:string;
+    mSize:string;
+
+    constructor(color:string, face:string, size:string) {
+        this.mColor = color;
+        this.mFace = face;
+        this.mSize = size;
+    }
+}
+
+class Href {
+    mHref:string;
+
+    constructor(href:string) {
+        this.mHref = href;
+    }
+}
+
+class Header {
+    mLevel:number = 0;
+
+    constructor(level:number) {
+        this.mLevel = level;
+    }
+}
+}
@@ -128,6 +128,7 @@ export class MeasuredText {
         if (Spanned.isImplements(text)) {
             let spanned:Spanned = <Spanned> text;
             let spans:ReplacementSpan[] = spanned.getSpans<ReplacementSpan>(start, end, ReplacementSpan.type);
+            let chars:string[] = spans.length > 0 ? this.mChars.split('') : null;
             for (let i:number = 0; i < spans.length; i++) {
                 let startInPara:number = spanned.getSpanStart(spans[i]) - start;
                 let endInPara:number = spanned.getSpanEnd(spans[i]) - start;
@@ -138,9 +139,12 @@ export class MeasuredText {
                     endInPara = len;
                 for (let j:number = startInPara; j < endInPara; j++) {
                     // object replacement character
-                    this.mChars[j] = '￼';
+                    chars[j] = '￼';
                 }
             }
+            if (chars != null) {
+                this.mChars = chars.join('');
+            }
         }
         //if ((textDir == TextDirectionHeuristics.LTR || textDir == TextDirectionHeuristics.FIRSTSTRONG_LTR || textDir == TextDirectionHeuristics.ANYRTL_LTR) && TextUtils.doesNotNeedBidi(this.mChars, 0, len)) {
             this.mDir = android.text.Layout.DIR_LEFT_TO_RIGHT;
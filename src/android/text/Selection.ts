@@ -0,0 +1,94 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/text/Spanned.ts"/>
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/NoCopySpan.ts"/>
+
+module android.text {
+import Spanned = android.text.Spanned;
+import Spannable = android.text.Spannable;
+import NoCopySpan = android.text.NoCopySpan;
+
+/**
+ * Utility class for manipulating cursors and selections in CharSequences.
+ * A cursor is a selection where the start and end are at the same offset.
+ */
+export class Selection {
+
+    /**
+     * Return the offset of the selection anchor or cursor, or -1 if
+     * there is no selection or cursor.
+     */
+    static getSelectionStart(text:String):number  {
+        if (Spanned.isImplements(text))
+            return (<Spanned> text).getSpanStart(Selection.SELECTION_START);
+        else
+            return -1;
+    }
+
+    /**
+     * Return the offset of the selection edge or cursor, or -1 if
+     * there is no selection or cursor.
+     */
+    static getSelectionEnd(text:String):number  {
+        if (Spanned.isImplements(text))
+            return (<Spanned> text).getSpanStart(Selection.SELECTION_END);
+        else
+            return -1;
+    }
+
+    /**
+     * Set the selection anchor to <code>start</code> and the selection edge
+     * to <code>stop</code>.
+     */
+    static setSelection(text:Spannable, start:number, stop = start):void  {
+        let ostart:number = Selection.getSelectionStart(text);
+        let oend:number = Selection.getSelectionEnd(text);
+        if (ostart != start || oend != stop) {
+            text.setSpan(Selection.SELECTION_START, start, start, Spanned.SPAN_POINT_POINT | Spanned.SPAN_INTERMEDIATE);
+            text.setSpan(Selection.SELECTION_END, stop, stop, Spanned.SPAN_POINT_POINT);
+        }
+    }
+
+    /**
+     * Select the entire text.
+     */
+    static selectAll(text:Spannable):void  {
+        Selection.setSelection(text, 0, text.length);
+    }
+
+    /**
+     * Move the selection edge to offset <code>index</code>.
+     */
+    static extendSelection(text:Spannable, index:number):void  {
+        if (text.getSpanStart(Selection.SELECTION_END) != index)
+            text.setSpan(Selection.SELECTION_END, index, index, Spanned.SPAN_POINT_POINT);
+    }
+
+    /**
+     * Remove the selection or cursor, if any, from the text.
+     */
+    static removeSelection(text:Spannable):void  {
+        text.removeSpan(Selection.SELECTION_START);
+        text.removeSpan(Selection.SELECTION_END);
+    }
+
+    static SELECTION_START:any = new NoCopySpan.Concrete();
+
+    static SELECTION_END:any = new NoCopySpan.Concrete();
+}
+}
@@ -44,4 +44,9 @@ export interface SpanWatcher {
      */
     onSpanChanged(text:Spannable, what:any, ostart:number, oend:number, nstart:number, nend:number):void ;
 }
+export module SpanWatcher{
+    export function isImpl(obj):boolean {
+        return obj && obj['onSpanAdded'] && obj['onSpanRemoved'] && obj['onSpanChanged'];
+    }
+}
 }
\ No newline at end of file
@@ -75,8 +75,7 @@ export class Factory {
          * You can override this to provide a different kind of Spannable.
          */
     newSpannable(source:String):Spannable  {
-        return <any>source;//FIXME when SpannableString impl
-        //return new SpannableString(source);
+        return new SpannableString(source);
     }
 }
 }
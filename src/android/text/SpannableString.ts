@@ -0,0 +1,54 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpannableStringInternal.ts"/>
+
+module android.text {
+import Spannable = android.text.Spannable;
+import SpannableStringInternal = android.text.SpannableStringInternal;
+/**
+ * This is the class for text whose content is immutable but to which
+ * markup objects can be attached and detached.
+ * For mutable text, see {@link SpannableStringBuilder}.
+ */
+export class SpannableString extends SpannableStringInternal implements Spannable {
+
+    constructor(source:String, start = 0, end = source.length) {
+        super(source, start, end);
+    }
+
+    static valueOf(source:String):SpannableString  {
+        if (source instanceof SpannableString) {
+            return <SpannableString> source;
+        } else {
+            return new SpannableString(source);
+        }
+    }
+
+    setSpan(what:any, start:number, end:number, flags:number):void  {
+        super.setSpanInternal(what, start, end, flags);
+    }
+
+    removeSpan(what:any):void  {
+        super.removeSpanInternal(what);
+    }
+
+    subSequence(start:number, end:number):String  {
+        return new SpannableString(this, start, end);
+    }
+}
+}
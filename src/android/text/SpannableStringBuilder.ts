@@ -0,0 +1,536 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/text/Spanned.ts"/>
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpanWatcher.ts"/>
+///<reference path="../../android/text/TextWatcher.ts"/>
+///<reference path="../../android/text/NoCopySpan.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+
+module android.text {
+import Spanned = android.text.Spanned;
+import Spannable = android.text.Spannable;
+import SpanWatcher = android.text.SpanWatcher;
+import TextWatcher = android.text.TextWatcher;
+import NoCopySpan = android.text.NoCopySpan;
+import Log = android.util.Log;
+
+/**
+ * A js String is immutable, so the builder isn't a String subclass. The String methods
+ * are delegated to the current text (see the end of this file).
+ */
+export interface SpannableStringBuilder extends String {
+}
+
+/**
+ * This is the class for text whose content and markup can both be changed.
+ */
+export class SpannableStringBuilder implements Spannable {
+
+    private mText:string = '';
+
+    private mSpans:any[] = [];
+
+    private mSpanStarts:number[] = [];
+
+    private mSpanEnds:number[] = [];
+
+    private mSpanFlags:number[] = [];
+
+    private static MARK:number = 1;
+
+    private static POINT:number = 2;
+
+    private static PARAGRAPH:number = 3;
+
+    private static START_MASK:number = 0xF0;
+
+    private static END_MASK:number = 0x0F;
+
+    private static START_SHIFT:number = 4;
+
+    /**
+     * Create a new SpannableStringBuilder containing a copy of the
+     * specified slice of the specified text, including its spans if any.
+     */
+    constructor(text:String = '', start = 0, end = text.length) {
+        let srclen:number = end - start;
+        if (srclen < 0)
+            throw Error(`new StringIndexOutOfBoundsException()`);
+        this.mText = text.toString().substring(start, end);
+        if (Spanned.isImplements(text)) {
+            let sp:Spanned = <Spanned> text;
+            let spans:any[] = sp.getSpans<any>(start, end, null);
+            for (let i:number = 0; i < spans.length; i++) {
+                // watchers are bound to the source text, as NoCopySpan
+                if (SpanWatcher.isImpl(spans[i]) || TextWatcher.isImpl(spans[i]) || Spanned.isSpanOfType(spans[i], NoCopySpan.type)) {
+                    continue;
+                }
+                let st:number = sp.getSpanStart(spans[i]) - start;
+                let en:number = sp.getSpanEnd(spans[i]) - start;
+                let fl:number = sp.getSpanFlags(spans[i]);
+                if (st < 0)
+                    st = 0;
+                if (st > end - start)
+                    st = end - start;
+                if (en < 0)
+                    en = 0;
+                if (en > end - start)
+                    en = end - start;
+                this.setSpanInternal(false, spans[i], st, en, fl);
+            }
+        }
+    }
+
+    static valueOf(source:String):SpannableStringBuilder  {
+        if (source instanceof SpannableStringBuilder) {
+            return <SpannableStringBuilder> source;
+        } else {
+            return new SpannableStringBuilder(source);
+        }
+    }
+
+    /**
+     * Return the number of chars in the buffer.
+     */
+    get length():number {
+        return this.mText.length;
+    }
+
+    toString():string {
+        return this.mText;
+    }
+
+    valueOf():string {
+        return this.mText;
+    }
+
+    /**
+     * Return a new SpannableStringBuilder from the specified slice of this text.
+     */
+    subSequence(start:number, end:number):String  {
+        return new SpannableStringBuilder(this, start, end);
+    }
+
+    insert(where:number, tb:String, start = 0, end = tb.length):SpannableStringBuilder  {
+        return this.replace(where, where, tb, start, end);
+    }
+
+    delete(start:number, end:number):SpannableStringBuilder  {
+        return this.replace(start, end, "", 0, 0);
+    }
+
+    /**
+     * Append the text. Or append the text and attach the span object to the appended text
+     * when call with (text, what, flags), or append a slice of the text when call with (text, start, end).
+     */
+    append(text:String):SpannableStringBuilder;
+    append(text:String, start:number, end:number):SpannableStringBuilder;
+    append(text:String, what:any, flags:number):SpannableStringBuilder;
+    append(text:String, ...args):SpannableStringBuilder  {
+        let length:number = this.length;
+        if (args.length == 2 && typeof args[0] === 'number') {
+            return this.replace(length, length, text, args[0], args[1]);
+        }
+        this.replace(length, length, text, 0, text.length);
+        if (args.length == 2) {
+            this.setSpan(args[0], length, this.length, args[1]);
+        }
+        return this;
+    }
+
+    clear():void  {
+        this.replace(0, this.length, "", 0, 0);
+    }
+
+    clearSpans():void  {
+        for (let i:number = this.mSpans.length - 1; i >= 0; i--) {
+            let what:any = this.mSpans[i];
+            let ostart:number = this.mSpanStarts[i];
+            let oend:number = this.mSpanEnds[i];
+            this.mSpans.splice(i, 1);
+            this.mSpanStarts.splice(i, 1);
+            this.mSpanEnds.splice(i, 1);
+            this.mSpanFlags.splice(i, 1);
+            this.sendSpanRemoved(what, ostart, oend);
+        }
+    }
+
+    /**
+     * Replace the specified range of the text with the slice of the specified text.
+     * The spans of the replacement text are copied in too. It's String.replace(searchValue, replaceValue)
+     * when the first argument isn't a number.
+     */
+    replace(start:number, end:number, tb:String, tbstart?:number, tbend?:number):SpannableStringBuilder;
+    replace(searchValue:any, replaceValue:any):string;
+    replace(...args):any  {
+        if (typeof args[0] !== 'number') {
+            return String.prototype.replace.apply(this.mText, args);
+        }
+        let start:number = args[0];
+        let end:number = args[1];
+        let tb:String = args[2];
+        let tbstart:number = args[3] != null ? args[3] : 0;
+        let tbend:number = args[4] != null ? args[4] : tb.length;
+        this.checkRange("replace", start, end);
+        const origLen:number = end - start;
+        const newLen:number = tbend - tbstart;
+        let textWatchers:TextWatcher[] = this.getTextWatchers(start, start + origLen);
+        this.sendBeforeTextChanged(textWatchers, start, origLen, newLen);
+        let spanChanges:any[][] = this.change(start, end, tb, tbstart, tbend);
+        this.sendTextChanged(textWatchers, start, origLen, newLen);
+        this.sendAfterTextChanged(textWatchers);
+        this.sendToSpanWatchers(spanChanges);
+        return this;
+    }
+
+    /**
+     * Change the text and move the spans, return the span changes need notify to the span watchers.
+     */
+    private change(start:number, end:number, cs:String, csStart:number, csEnd:number):any[][]  {
+        const replacementLength:number = csEnd - csStart;
+        const oldLength:number = this.mText.length;
+        let spanChanges:any[][] = [];
+        for (let i:number = this.mSpans.length - 1; i >= 0; i--) {
+            let what:any = this.mSpans[i];
+            let ost:number = this.mSpanStarts[i];
+            let oen:number = this.mSpanEnds[i];
+            let flags:number = this.mSpanFlags[i];
+            let nst:number = SpannableStringBuilder.updatedIntervalBound(ost, start, end, replacementLength,
+                (flags & SpannableStringBuilder.START_MASK) >> SpannableStringBuilder.START_SHIFT, false, oldLength);
+            let nen:number = SpannableStringBuilder.updatedIntervalBound(oen, start, end, replacementLength,
+                flags & SpannableStringBuilder.END_MASK, true, oldLength);
+            if (nst > nen)
+                nst = nen;
+            if (ost != oen && nst == nen && (flags & Spanned.SPAN_POINT_MARK_MASK) == Spanned.SPAN_EXCLUSIVE_EXCLUSIVE) {
+                // The text covered by the EXCLUSIVE_EXCLUSIVE span is removed, remove the span too.
+                this.mSpans.splice(i, 1);
+                this.mSpanStarts.splice(i, 1);
+                this.mSpanEnds.splice(i, 1);
+                this.mSpanFlags.splice(i, 1);
+                spanChanges.push([what, ost, oen, -1, -1]);
+                continue;
+            }
+            if (nst != ost || nen != oen) {
+                this.mSpanStarts[i] = nst;
+                this.mSpanEnds[i] = nen;
+                spanChanges.push([what, ost, oen, nst, nen]);
+            }
+        }
+        this.mText = this.mText.substring(0, start) + cs.toString().substring(csStart, csEnd) + this.mText.substring(end);
+        if (Spanned.isImplements(cs)) {
+            let sp:Spanned = <Spanned> cs;
+            let spans:any[] = sp.getSpans<any>(csStart, csEnd, null);
+            for (let i:number = 0; i < spans.length; i++) {
+                if (SpanWatcher.isImpl(spans[i]) || TextWatcher.isImpl(spans[i])) {
+                    continue;
+                }
+                let st:number = sp.getSpanStart(spans[i]);
+                let en:number = sp.getSpanEnd(spans[i]);
+                if (st < csStart)
+                    st = csStart;
+                if (en > csEnd)
+                    en = csEnd;
+                // Add span only if this object is not yet used as a span in this string
+                if (this.getSpanStart(spans[i]) < 0) {
+                    this.setSpanInternal(false, spans[i], st - csStart + start, en - csStart + start, sp.getSpanFlags(spans[i]));
+                    spanChanges.push([spans[i], -1, -1, st - csStart + start, en - csStart + start]);
+                }
+            }
+        }
+        return spanChanges;
+    }
+
+    /**
+     * Compute the new offset of a span bound after the text [start, end) replaced by nbNewChars chars.
+     */
+    private static updatedIntervalBound(offset:number, start:number, end:number, nbNewChars:number, flag:number,
+                                        atEnd:boolean, oldLength:number):number  {
+        if (offset < start) {
+            return offset;
+        }
+        if (offset > end) {
+            return offset + nbNewChars - (end - start);
+        }
+        if (start == end) {
+            // insert at the offset: a POINT is pushed forward, a MARK stays.
+            if (flag == SpannableStringBuilder.POINT || (flag == SpannableStringBuilder.PARAGRAPH && offset == oldLength)) {
+                return offset + nbNewChars;
+            }
+            return offset;
+        }
+        if (offset == end) {
+            return start + nbNewChars;
+        }
+        if (offset == start) {
+            return start;
+        }
+        // A POINT located inside the replaced range should be moved to the end of the replaced text,
+        // MARKs should be moved to the start.
+        if (flag == SpannableStringBuilder.POINT || (flag == SpannableStringBuilder.PARAGRAPH && atEnd)) {
+            return start + nbNewChars;
+        }
+        return start;
+    }
+
+    /**
+     * Mark the specified range of text with the specified object.
+     * The flags determine how the span will behave when text is
+     * inserted at the start or end of the span's range.
+     */
+    setSpan(what:any, start:number, end:number, flags:number):void  {
+        this.setSpanInternal(true, what, start, end, flags);
+    }
+
+    private setSpanInternal(send:boolean, what:any, start:number, end:number, flags:number):void  {
+        this.checkRange("setSpan", start, end);
+        let flagsStart:number = (flags & SpannableStringBuilder.START_MASK) >> SpannableStringBuilder.START_SHIFT;
+        if (flagsStart == SpannableStringBuilder.PARAGRAPH) {
+            if (start != 0 && start != this.length) {
+                let c:string = this.mText.charAt(start - 1);
+                if (c != '\n')
+                    throw Error(`new RuntimeException("PARAGRAPH span must start at paragraph boundary")`);
+            }
+        }
+        let flagsEnd:number = flags & SpannableStringBuilder.END_MASK;
+        if (flagsEnd == SpannableStringBuilder.PARAGRAPH) {
+            if (end != 0 && end != this.length) {
+                let c:string = this.mText.charAt(end - 1);
+                if (c != '\n')
+                    throw Error(`new RuntimeException("PARAGRAPH span must end at paragraph boundary")`);
+            }
+        }
+        // 0-length Spanned.SPAN_EXCLUSIVE_EXCLUSIVE
+        if (flagsStart == SpannableStringBuilder.POINT && flagsEnd == SpannableStringBuilder.MARK && start == end) {
+            if (send) {
+                Log.e("SpannableStringBuilder", "SPAN_EXCLUSIVE_EXCLUSIVE spans cannot have a zero length");
+            }
+            // Silently ignore invalid spans when they are created from this class.
+            // This avoids the duplication of the above test code before all the
+            // calls to setSpan that are done in this class
+            return;
+        }
+        let index:number = this.mSpans.indexOf(what);
+        if (index >= 0) {
+            let ostart:number = this.mSpanStarts[index];
+            let oend:number = this.mSpanEnds[index];
+            this.mSpanStarts[index] = start;
+            this.mSpanEnds[index] = end;
+            this.mSpanFlags[index] = flags;
+            if (send)
+                this.sendSpanChanged(what, ostart, oend, start, end);
+            return;
+        }
+        this.mSpans.push(what);
+        this.mSpanStarts.push(start);
+        this.mSpanEnds.push(end);
+        this.mSpanFlags.push(flags);
+        if (send)
+            this.sendSpanAdded(what, start, end);
+    }
+
+    /**
+     * Remove the specified markup object from the buffer.
+     */
+    removeSpan(what:any):void  {
+        let index:number = this.mSpans.indexOf(what);
+        if (index >= 0) {
+            let ostart:number = this.mSpanStarts[index];
+            let oend:number = this.mSpanEnds[index];
+            this.mSpans.splice(index, 1);
+            this.mSpanStarts.splice(index, 1);
+            this.mSpanEnds.splice(index, 1);
+            this.mSpanFlags.splice(index, 1);
+            this.sendSpanRemoved(what, ostart, oend);
+        }
+    }
+
+    /**
+     * Return the buffer offset of the beginning of the specified
+     * markup object, or -1 if it is not attached to this buffer.
+     */
+    getSpanStart(what:any):number  {
+        let index:number = this.mSpans.indexOf(what);
+        return index >= 0 ? this.mSpanStarts[index] : -1;
+    }
+
+    /**
+     * Return the buffer offset of the end of the specified
+     * markup object, or -1 if it is not attached to this buffer.
+     */
+    getSpanEnd(what:any):number  {
+        let index:number = this.mSpans.indexOf(what);
+        return index >= 0 ? this.mSpanEnds[index] : -1;
+    }
+
+    /**
+     * Return the flags of the end of the specified
+     * markup object, or 0 if it is not attached to this buffer.
+     */
+    getSpanFlags(what:any):number  {
+        let index:number = this.mSpans.indexOf(what);
+        return index >= 0 ? this.mSpanFlags[index] : 0;
+    }
+
+    /**
+     * Return an array of the spans of the specified type that overlap
+     * the specified range of the buffer.  The kind may be null to
+     * return all spans in the buffer.
+     */
+    getSpans<T> (queryStart:number, queryEnd:number, kind:any):T[]  {
+        let ret:T[] = [];
+        for (let i:number = 0, count = this.mSpans.length; i < count; i++) {
+            let spanStart:number = this.mSpanStarts[i];
+            let spanEnd:number = this.mSpanEnds[i];
+            if (spanStart > queryEnd) {
+                continue;
+            }
+            if (spanEnd < queryStart) {
+                continue;
+            }
+            if (spanStart != spanEnd && queryStart != queryEnd) {
+                if (spanStart == queryEnd)
+                    continue;
+                if (spanEnd == queryStart)
+                    continue;
+            }
+            if (!Spanned.isSpanOfType(this.mSpans[i], kind)) {
+                continue;
+            }
+            let prio:number = this.mSpanFlags[i] & Spanned.SPAN_PRIORITY;
+            if (prio != 0) {
+                let j:number;
+                for (j = 0; j < ret.length; j++) {
+                    let p:number = this.getSpanFlags(ret[j]) & Spanned.SPAN_PRIORITY;
+                    if (prio > p) {
+                        break;
+                    }
+                }
+                ret.splice(j, 0, this.mSpans[i]);
+            } else {
+                ret.push(this.mSpans[i]);
+            }
+        }
+        return ret;
+    }
+
+    /**
+     * Return the next offset after <code>start</code> but less than or
+     * equal to <code>limit</code> where a span of the specified type
+     * begins or ends.
+     */
+    nextSpanTransition(start:number, limit:number, kind:any):number  {
+        for (let i:number = 0, count = this.mSpans.length; i < count; i++) {
+            let st:number = this.mSpanStarts[i];
+            let en:number = this.mSpanEnds[i];
+            if (st > start && st < limit && Spanned.isSpanOfType(this.mSpans[i], kind))
+                limit = st;
+            if (en > start && en < limit && Spanned.isSpanOfType(this.mSpans[i], kind))
+                limit = en;
+        }
+        return limit;
+    }
+
+    private getTextWatchers(start:number, end:number):TextWatcher[] {
+        return this.getSpans<any>(start, end, null).filter((span)=>TextWatcher.isImpl(span));
+    }
+
+    private getSpanWatchers(start:number, end:number):SpanWatcher[] {
+        return this.getSpans<any>(start, end, null).filter((span)=>SpanWatcher.isImpl(span));
+    }
+
+    private sendBeforeTextChanged(watchers:TextWatcher[], start:number, before:number, after:number):void  {
+        for (let watcher of watchers) {
+            watcher.beforeTextChanged(this, start, before, after);
+        }
+    }
+
+    private sendTextChanged(watchers:TextWatcher[], start:number, before:number, after:number):void  {
+        for (let watcher of watchers) {
+            watcher.onTextChanged(this, start, before, after);
+        }
+    }
+
+    private sendAfterTextChanged(watchers:TextWatcher[]):void  {
+        for (let watcher of watchers) {
+            watcher.afterTextChanged(this);
+        }
+    }
+
+    private sendToSpanWatchers(spanChanges:any[][]):void  {
+        for (let [what, ostart, oend, nstart, nend] of spanChanges) {
+            if (ostart < 0) {
+                this.sendSpanAdded(what, nstart, nend);
+            } else if (nstart < 0) {
+                this.sendSpanRemoved(what, ostart, oend);
+            } else {
+                this.sendSpanChanged(what, ostart, oend, nstart, nend);
+            }
+        }
+    }
+
+    private sendSpanAdded(what:any, start:number, end:number):void  {
+        for (let watcher of this.getSpanWatchers(start, end)) {
+            watcher.onSpanAdded(this, what, start, end);
+        }
+    }
+
+    private sendSpanRemoved(what:any, start:number, end:number):void  {
+        for (let watcher of this.getSpanWatchers(start, end)) {
+            watcher.onSpanRemoved(this, what, start, end);
+        }
+    }
+
+    private sendSpanChanged(what:any, s:number, e:number, st:number, en:number):void  {
+        // The bounds of a possible SpanWatcher are guaranteed to be set before this method is
+        // called, so that the order of the span does not affect this broadcast.
+        for (let watcher of this.getSpanWatchers(Math.min(s, st), Math.max(e, en))) {
+            watcher.onSpanChanged(this, what, s, e, st, en);
+        }
+    }
+
+    private static region(start:number, end:number):string  {
+        return "(" + start + " ... " + end + ")";
+    }
+
+    private checkRange(operation:string, start:number, end:number):void  {
+        if (end < start) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringBuilder.region(start, end) + " has end before start")`);
+        }
+        let len:number = this.length;
+        if (start > len || end > len) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringBuilder.region(start, end) + " ends beyond length " + len)`);
+        }
+        if (start < 0 || end < 0) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringBuilder.region(start, end) + " starts before 0")`);
+        }
+    }
+}
+
+// delegate the String methods to the current text
+for (let name of Object.getOwnPropertyNames(String.prototype)) {
+    if (name in SpannableStringBuilder.prototype) continue;
+    let method = String.prototype[name];
+    if (typeof method !== 'function') continue;
+    SpannableStringBuilder.prototype[name] = function(...args) {
+        return method.apply(this.mText, args);
+    };
+}
+SpannableStringBuilder.prototype[Symbol.iterator] = function() {
+    return this.mText[Symbol.iterator]();
+};
+}
@@ -0,0 +1,303 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/text/Spanned.ts"/>
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpanWatcher.ts"/>
+///<reference path="../../android/text/TextWatcher.ts"/>
+///<reference path="../../android/text/NoCopySpan.ts"/>
+
+module android.text {
+import Spanned = android.text.Spanned;
+import Spannable = android.text.Spannable;
+import SpanWatcher = android.text.SpanWatcher;
+import TextWatcher = android.text.TextWatcher;
+import NoCopySpan = android.text.NoCopySpan;
+
+/* package */
+export abstract class SpannableStringInternal extends String {
+
+    private mText:string;
+
+    private mSpans:any[];
+
+    private mSpanData:number[];
+
+    private mSpanCount:number = 0;
+
+    private static START:number = 0;
+
+    private static END:number = 1;
+
+    private static FLAGS:number = 2;
+
+    private static COLUMNS:number = 3;
+
+    constructor(source:String, start:number, end:number) {
+        super(start == 0 && end == source.length ? source.toString() : source.toString().substring(start, end));
+        this.mText = String.prototype.toString.call(this);
+        this.mSpans = [];
+        this.mSpanData = [];
+        if (Spanned.isImplements(source)) {
+            let sp:Spanned = <Spanned> source;
+            let spans:any[] = sp.getSpans<any>(start, end, null);
+            for (let i:number = 0; i < spans.length; i++) {
+                // watchers are bound to the source text, as NoCopySpan
+                if (SpanWatcher.isImpl(spans[i]) || TextWatcher.isImpl(spans[i]) || Spanned.isSpanOfType(spans[i], NoCopySpan.type)) {
+                    continue;
+                }
+                let st:number = sp.getSpanStart(spans[i]);
+                let en:number = sp.getSpanEnd(spans[i]);
+                let fl:number = sp.getSpanFlags(spans[i]);
+                if (st < start)
+                    st = start;
+                if (en > end)
+                    en = end;
+                this.setSpanInternal(spans[i], st - start, en - start, fl);
+            }
+        }
+    }
+
+    toString():string {
+        return this.mText;
+    }
+
+    valueOf():string {
+        return this.mText;
+    }
+
+    /* package */
+    protected setSpanInternal(what:any, start:number, end:number, flags:number):void  {
+        let nstart:number = start;
+        let nend:number = end;
+        this.checkRange("setSpan", start, end);
+        if ((flags & Spanned.SPAN_PARAGRAPH) == Spanned.SPAN_PARAGRAPH) {
+            if (start != 0 && start != this.length) {
+                let c:string = this.charAt(start - 1);
+                if (c != '\n')
+                    throw Error(`new RuntimeException("PARAGRAPH span must start at paragraph boundary (" + start + " follows " + c + ")")`);
+            }
+            if (end != 0 && end != this.length) {
+                let c:string = this.charAt(end - 1);
+                if (c != '\n')
+                    throw Error(`new RuntimeException("PARAGRAPH span must end at paragraph boundary (" + end + " follows " + c + ")")`);
+            }
+        }
+        const COLUMNS = SpannableStringInternal.COLUMNS;
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = 0; i < count; i++) {
+            if (spans[i] == what) {
+                let ostart:number = data[i * COLUMNS + SpannableStringInternal.START];
+                let oend:number = data[i * COLUMNS + SpannableStringInternal.END];
+                data[i * COLUMNS + SpannableStringInternal.START] = start;
+                data[i * COLUMNS + SpannableStringInternal.END] = end;
+                data[i * COLUMNS + SpannableStringInternal.FLAGS] = flags;
+                this.sendSpanChanged(what, ostart, oend, nstart, nend);
+                return;
+            }
+        }
+        this.mSpans[this.mSpanCount] = what;
+        this.mSpanData[this.mSpanCount * COLUMNS + SpannableStringInternal.START] = start;
+        this.mSpanData[this.mSpanCount * COLUMNS + SpannableStringInternal.END] = end;
+        this.mSpanData[this.mSpanCount * COLUMNS + SpannableStringInternal.FLAGS] = flags;
+        this.mSpanCount++;
+        this.sendSpanAdded(what, nstart, nend);
+    }
+
+    /* package */
+    protected removeSpanInternal(what:any):void  {
+        const COLUMNS = SpannableStringInternal.COLUMNS;
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = count - 1; i >= 0; i--) {
+            if (spans[i] == what) {
+                let ostart:number = data[i * COLUMNS + SpannableStringInternal.START];
+                let oend:number = data[i * COLUMNS + SpannableStringInternal.END];
+                spans.splice(i, 1);
+                data.splice(i * COLUMNS, COLUMNS);
+                this.mSpanCount--;
+                this.sendSpanRemoved(what, ostart, oend);
+                return;
+            }
+        }
+    }
+
+    getSpanStart(what:any):number  {
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = count - 1; i >= 0; i--) {
+            if (spans[i] == what) {
+                return data[i * SpannableStringInternal.COLUMNS + SpannableStringInternal.START];
+            }
+        }
+        return -1;
+    }
+
+    getSpanEnd(what:any):number  {
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = count - 1; i >= 0; i--) {
+            if (spans[i] == what) {
+                return data[i * SpannableStringInternal.COLUMNS + SpannableStringInternal.END];
+            }
+        }
+        return -1;
+    }
+
+    getSpanFlags(what:any):number  {
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = count - 1; i >= 0; i--) {
+            if (spans[i] == what) {
+                return data[i * SpannableStringInternal.COLUMNS + SpannableStringInternal.FLAGS];
+            }
+        }
+        return 0;
+    }
+
+    getSpans<T> (queryStart:number, queryEnd:number, kind:any):T[]  {
+        const COLUMNS = SpannableStringInternal.COLUMNS;
+        let spanCount:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        let ret:T[] = [];
+        for (let i:number = 0; i < spanCount; i++) {
+            if (!Spanned.isSpanOfType(spans[i], kind)) {
+                continue;
+            }
+            let spanStart:number = data[i * COLUMNS + SpannableStringInternal.START];
+            let spanEnd:number = data[i * COLUMNS + SpannableStringInternal.END];
+            if (spanStart > queryEnd) {
+                continue;
+            }
+            if (spanEnd < queryStart) {
+                continue;
+            }
+            if (spanStart != spanEnd && queryStart != queryEnd) {
+                if (spanStart == queryEnd) {
+                    continue;
+                }
+                if (spanEnd == queryStart) {
+                    continue;
+                }
+            }
+            let prio:number = data[i * COLUMNS + SpannableStringInternal.FLAGS] & Spanned.SPAN_PRIORITY;
+            if (prio != 0) {
+                let j:number;
+                for (j = 0; j < ret.length; j++) {
+                    let p:number = this.getSpanFlags(ret[j]) & Spanned.SPAN_PRIORITY;
+                    if (prio > p) {
+                        break;
+                    }
+                }
+                ret.splice(j, 0, spans[i]);
+            } else {
+                ret.push(spans[i]);
+            }
+        }
+        return ret;
+    }
+
+    nextSpanTransition(start:number, limit:number, kind:any):number  {
+        const COLUMNS = SpannableStringInternal.COLUMNS;
+        let count:number = this.mSpanCount;
+        let spans:any[] = this.mSpans;
+        let data:number[] = this.mSpanData;
+        for (let i:number = 0; i < count; i++) {
+            let st:number = data[i * COLUMNS + SpannableStringInternal.START];
+            let en:number = data[i * COLUMNS + SpannableStringInternal.END];
+            if (st > start && st < limit && Spanned.isSpanOfType(spans[i], kind))
+                limit = st;
+            if (en > start && en < limit && Spanned.isSpanOfType(spans[i], kind))
+                limit = en;
+        }
+        return limit;
+    }
+
+    private getSpanWatchers(start:number, end:number):SpanWatcher[] {
+        return this.getSpans<any>(start, end, null).filter((span)=>SpanWatcher.isImpl(span));
+    }
+
+    private sendSpanAdded(what:any, start:number, end:number):void  {
+        let recip:SpanWatcher[] = this.getSpanWatchers(start, end);
+        let n:number = recip.length;
+        for (let i:number = 0; i < n; i++) {
+            recip[i].onSpanAdded(<Spannable><any> this, what, start, end);
+        }
+    }
+
+    private sendSpanRemoved(what:any, start:number, end:number):void  {
+        let recip:SpanWatcher[] = this.getSpanWatchers(start, end);
+        let n:number = recip.length;
+        for (let i:number = 0; i < n; i++) {
+            recip[i].onSpanRemoved(<Spannable><any> this, what, start, end);
+        }
+    }
+
+    private sendSpanChanged(what:any, s:number, e:number, st:number, en:number):void  {
+        // The bounds of a possible SpanWatcher are guaranteed to be set before this method is
+        // called, so that the order of the span does not affect this broadcast.
+        let recip:SpanWatcher[] = this.getSpanWatchers(Math.min(s, st), Math.max(e, en));
+        let n:number = recip.length;
+        for (let i:number = 0; i < n; i++) {
+            recip[i].onSpanChanged(<Spannable><any> this, what, s, e, st, en);
+        }
+    }
+
+    private static region(start:number, end:number):string  {
+        return "(" + start + " ... " + end + ")";
+    }
+
+    private checkRange(operation:string, start:number, end:number):void  {
+        if (end < start) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringInternal.region(start, end) + " has end before start")`);
+        }
+        let len:number = this.length;
+        if (start > len || end > len) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringInternal.region(start, end) + " ends beyond length " + len)`);
+        }
+        if (start < 0 || end < 0) {
+            throw Error(`new IndexOutOfBoundsException(operation + " " + SpannableStringInternal.region(start, end) + " starts before 0")`);
+        }
+    }
+
+    equals(o:any):boolean  {
+        if (Spanned.isImplements(o) && o.toString() == this.toString()) {
+            let other:Spanned = <Spanned> o;
+            let otherSpans:any[] = other.getSpans<any>(0, other.length, null);
+            if (this.mSpanCount == otherSpans.length) {
+                for (let i:number = 0; i < this.mSpanCount; ++i) {
+                    let thisSpan:any = this.mSpans[i];
+                    let otherSpan:any = otherSpans[i];
+                    if (thisSpan != otherSpan || this.getSpanStart(thisSpan) != other.getSpanStart(otherSpan)
+                        || this.getSpanEnd(thisSpan) != other.getSpanEnd(otherSpan)
+                        || this.getSpanFlags(thisSpan) != other.getSpanFlags(otherSpan)) {
+                        return false;
+                    }
+                }
+                return true;
+            }
+        }
+        return false;
+    }
+}
+}
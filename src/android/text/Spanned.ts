@@ -66,6 +66,26 @@ export module Spanned{
         return obj && obj['getSpans'] && obj['getSpanStart'] && obj['getSpanEnd']
             && obj['getSpanFlags'] && obj['nextSpanTransition'];
     }
+
+    /**
+     * Return true if the markup object is the specified type or a subclass of it.
+     * The type can be a class, or a type symbol declared as the static 'type' of the class
+     * (e.g. CharacterStyle.type). <code>null</code> type means any object.
+     * A span implementing several marker interfaces (e.g. ParagraphStyle and LeadingMarginSpan)
+     * can declare all their type symbols as an array in its 'mType'.
+     * @hide
+     */
+    export function isSpanOfType(span:any, type:any):boolean {
+        if (type == null) return true;
+        if (span == null) return false;
+        if (typeof type === 'function') return span instanceof type;
+        if (span.mType === type) return true;
+        if (span.mType instanceof Array && span.mType.indexOf(type) >= 0) return true;
+        for (let clazz = span.constructor; clazz && clazz !== Object && clazz !== Function.prototype; clazz = Object.getPrototypeOf(clazz)) {
+            if (clazz.type === type) return true;
+        }
+        return false;
+    }
     /**
      * Bitmask of bits that are relevent for controlling point/mark behavior
      * of spans.
@@ -177,14 +177,14 @@ export class TextLine {
             //    this.mChars = new Array<char>(ArrayUtils.idealCharArraySize(this.mLen));
             //}
             //TextUtils.getChars(text, start, limit, this.mChars, 0);
-            this.mChars = text;
+            this.mChars = text.toString().substring(start, limit);
             if (hasReplacement) {
                 // Handle these all at once so we don't have to do it as we go.
                 // Replace the first character of each replacement run with the
                 // object-replacement character and the remainder with zero width
                 // non-break space aka BOM.  Cursor movement code skips these
                 // zero-width characters.
-                let chars = this.mChars;
+                let chars:string[] = this.mChars.split('');
                 for (let i:number = start, inext:number; i < limit; i = inext) {
                     inext = this.mReplacementSpanSpanSet.getNextTransition(i, limit);
                     if (this.mReplacementSpanSpanSet.hasSpansIntersecting(i, inext)) {
@@ -196,6 +196,7 @@ export class TextLine {
                         }
                     }
                 }
+                this.mChars = chars.join('');
             }
         }
         this.mTabs = tabStops;
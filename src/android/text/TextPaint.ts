@@ -42,15 +42,24 @@ module android.text{
             this.underlineThickness = tp.underlineThickness;
         }
 
+        /**
+         * Helper for setFlags(), setting or clearing the UNDERLINE_TEXT_FLAG bit
+         */
+        setUnderlineText(underlineText:boolean):void;
         /**
          * Defines a custom underline for this Paint.
          * @param color underline solid color
          * @param thickness underline thickness
          * @hide
          */
-        setUnderlineText(color:number, thickness:number):void  {
-            this.underlineColor = color;
-            this.underlineThickness = thickness;
+        setUnderlineText(color:number, thickness:number):void;
+        setUnderlineText(...args):void  {
+            if(args.length == 1){
+                super.setUnderlineText(args[0]);
+                return;
+            }
+            this.underlineColor = args[0];
+            this.underlineThickness = args[1];
         }
     }
 }
\ No newline at end of file
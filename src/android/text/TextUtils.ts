@@ -11,6 +11,11 @@
 ///<reference path="../../android/text/TextDirectionHeuristic.ts"/>
 ///<reference path="../../android/text/TextDirectionHeuristics.ts"/>
 ///<reference path="../../android/text/TextPaint.ts"/>
+///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpannableString.ts"/>
+///<reference path="../../android/text/SpannableStringBuilder.ts"/>
+///<reference path="../../android/text/SpanWatcher.ts"/>
+///<reference path="../../android/text/TextWatcher.ts"/>
 
 
 module android.text{
@@ -21,6 +26,11 @@ module android.text{
     import TextDirectionHeuristic = android.text.TextDirectionHeuristic;
     import TextDirectionHeuristics = android.text.TextDirectionHeuristics;
     import TextPaint = android.text.TextPaint;
+    import Spannable = android.text.Spannable;
+    import SpannableString = android.text.SpannableString;
+    import SpannableStringBuilder = android.text.SpannableStringBuilder;
+    import SpanWatcher = android.text.SpanWatcher;
+    import TextWatcher = android.text.TextWatcher;
 
     export class TextUtils{
 
@@ -237,28 +247,28 @@ module android.text{
                         buf[i] = TextUtils.ZWNBS_CHAR;
                     }
                     let s:string = buf.join('');
-                    //if (sp == null) {//TODO when span impl
+                    if (sp == null) {
                         return s;
-                    //}
-                    //let ss:SpannableString = new SpannableString(s);
-                    //TextUtils.copySpansFrom(sp, 0, len, any.class, ss, 0);
-                    //return ss;
+                    }
+                    let ss:SpannableString = new SpannableString(s);
+                    TextUtils.copySpansFrom(sp, 0, len, null, ss, 0);
+                    return ss;
                 }
                 if (remaining == 0) {
                     return "";
                 }
-                //if (sp == null) {//TODO when span impl
-                    let sb:StringBuilder = new StringBuilder(remaining + ellipsis.length());
+                if (sp == null) {
+                    let sb:StringBuilder = new StringBuilder(remaining + ellipsis.length);
                     sb.append(buf.join('').substr(0, left));
                     sb.append(ellipsis);
                     sb.append(buf.join('').substr(right, len - right));
                     return sb.toString();
-                //}
-                //let ssb:SpannableStringBuilder = new SpannableStringBuilder();
-                //ssb.append(text, 0, left);
-                //ssb.append(ellipsis);
-                //ssb.append(text, right, len);
-                //return ssb;
+                }
+                let ssb:SpannableStringBuilder = new SpannableStringBuilder();
+                ssb.append(text, 0, left);
+                ssb.append(ellipsis);
+                ssb.append(text, right, len);
+                return ssb;
             } finally {
                 MeasuredText.recycle(mt);
             }
@@ -285,6 +295,32 @@ module android.text{
             return width;
         }
 
+        /**
+         * Copies the spans from the region <code>start...end</code> in
+         * <code>source</code> to the region
+         * <code>destoff...destoff+end-start</code> in <code>dest</code>.
+         * Spans in <code>source</code> that begin before <code>start</code>
+         * or end after <code>end</code> but overlap this range are trimmed
+         * as if they began at <code>start</code> or ended at <code>end</code>.
+         * The span watchers aren't copied.
+         */
+        static copySpansFrom(source:Spanned, start:number, end:number, kind:any, dest:Spannable, destoff:number):void  {
+            let spans:any[] = source.getSpans<any>(start, end, kind);
+            for (let i:number = 0; i < spans.length; i++) {
+                if (SpanWatcher.isImpl(spans[i]) || TextWatcher.isImpl(spans[i])) {
+                    continue;
+                }
+                let st:number = source.getSpanStart(spans[i]);
+                let en:number = source.getSpanEnd(spans[i]);
+                let fl:number = source.getSpanFlags(spans[i]);
+                if (st < start)
+                    st = start;
+                if (en > end)
+                    en = end;
+                dest.setSpan(spans[i], st - start + destoff, en - start + destoff, fl);
+            }
+        }
+
         /**
          * Removes empty spans from the <code>spans</code> array.
          *
@@ -56,4 +56,9 @@ export interface TextWatcher {
      */
     afterTextChanged(s:String):void ;//Editable
 }
+export module TextWatcher{
+    export function isImpl(obj):boolean {
+        return obj && obj['beforeTextChanged'] && obj['onTextChanged'] && obj['afterTextChanged'];
+    }
+}
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+module android.text.format {
+/**
+ * Utility class for producing strings with formatted date/time.
+ *
+ * androidui: the locale data comes from the browser's Intl support, using navigator.language.
+ */
+export class DateFormat {
+
+    /**
+     * This designator indicates the day of the month.
+     */
+    static DATE = 'd';
+
+    /**
+     * This designator indicates the month of the year.
+     */
+    static MONTH = 'M';
+
+    /**
+     * This designator indicates the year.
+     */
+    static YEAR = 'y';
+
+    /**
+     * Returns true if user preference is set to 24-hour format.
+     * @return true if 24 hour time format is selected, false otherwise.
+     */
+    static is24HourFormat():boolean  {
+        let formatted = new Date(2001, 0, 1, 13).toLocaleTimeString(DateFormat.getLocales(), { hour: 'numeric' });
+        return formatted.indexOf('13') >= 0;
+    }
+
+    /**
+     * Gets the current date format stored as a char array. The array will contain
+     * 3 elements ({@link #DATE}, {@link #MONTH}, and {@link #YEAR}) in the order
+     * specified by the user's format preference.  Note that this order is
+     * only appropriate for all-numeric dates; spelled-out (MEDIUM and LONG)
+     * dates will generally contain other punctuation, spaces, or words,
+     * not just the day, month, and year, and not necessarily in the same
+     * order returned here.
+     */
+    static getDateFormatOrder():string[]  {
+        let formatted = new Date(2001, 10, 22).toLocaleDateString(DateFormat.getLocales(),
+            { year: 'numeric', month: 'numeric', day: 'numeric' });
+        let yearIndex = formatted.indexOf('2001');
+        let monthIndex = formatted.indexOf('11');
+        let dayIndex = formatted.indexOf('22');
+        if (yearIndex < 0 || monthIndex < 0 || dayIndex < 0) {
+            // not an all-numeric ascii date, use the default order
+            return [DateFormat.MONTH, DateFormat.DATE, DateFormat.YEAR];
+        }
+        let order = [DateFormat.YEAR, DateFormat.MONTH, DateFormat.DATE];
+        let indexOf = (c:string)=> c === DateFormat.YEAR ? yearIndex : (c === DateFormat.MONTH ? monthIndex : dayIndex);
+        return order.sort((a, b)=> indexOf(a) - indexOf(b));
+    }
+
+    private static getLocales():string[] {
+        return navigator.language ? [navigator.language] : undefined;
+    }
+}
+}
@@ -0,0 +1,142 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/widget/TextView.ts"/>
+///<reference path="../../../android/view/KeyEvent.ts"/>
+///<reference path="../../../android/view/MotionEvent.ts"/>
+///<reference path="../../../android/view/View.ts"/>
+///<reference path="../../../android/text/Layout.ts"/>
+///<reference path="../../../android/text/NoCopySpan.ts"/>
+///<reference path="../../../android/text/Selection.ts"/>
+///<reference path="../../../android/text/Spannable.ts"/>
+///<reference path="../../../android/text/Spanned.ts"/>
+///<reference path="../../../android/text/method/MovementMethod.ts"/>
+///<reference path="../../../android/text/style/ClickableSpan.ts"/>
+
+module android.text.method {
+import TextView = android.widget.TextView;
+import KeyEvent = android.view.KeyEvent;
+import MotionEvent = android.view.MotionEvent;
+import View = android.view.View;
+import Layout = android.text.Layout;
+import NoCopySpan = android.text.NoCopySpan;
+import Selection = android.text.Selection;
+import Spannable = android.text.Spannable;
+import Spanned = android.text.Spanned;
+import MovementMethod = android.text.method.MovementMethod;
+import ClickableSpan = android.text.style.ClickableSpan;
+
+/**
+ * A movement method that traverses links in the text buffer and fires clicks. Supports
+ * clicking on links with touches: the touched link is highlighted (with the
+ * TextView's highlight color) while pressed, and {@link ClickableSpan#onClick}
+ * is called when the touch is released.
+ */
+export class LinkMovementMethod implements MovementMethod {
+
+    private static FROM_BELOW:any = new NoCopySpan.Concrete();
+
+    initialize(widget:TextView, text:Spannable):void  {
+        Selection.removeSelection(text);
+        text.removeSpan(LinkMovementMethod.FROM_BELOW);
+    }
+
+    onKeyDown(widget:TextView, text:Spannable, keyCode:number, event:KeyEvent):boolean  {
+        return false;
+    }
+
+    onKeyUp(widget:TextView, text:Spannable, keyCode:number, event:KeyEvent):boolean  {
+        return false;
+    }
+
+    onKeyOther(view:TextView, text:Spannable, event:KeyEvent):boolean  {
+        return false;
+    }
+
+    onTakeFocus(view:TextView, text:Spannable, dir:number):void  {
+        Selection.removeSelection(text);
+        if ((dir & View.FOCUS_BACKWARD) != 0) {
+            text.setSpan(LinkMovementMethod.FROM_BELOW, 0, 0, Spanned.SPAN_POINT_POINT);
+        } else {
+            text.removeSpan(LinkMovementMethod.FROM_BELOW);
+        }
+    }
+
+    onTrackballEvent(widget:TextView, text:Spannable, event:MotionEvent):boolean  {
+        return false;
+    }
+
+    onTouchEvent(widget:TextView, buffer:Spannable, event:MotionEvent):boolean  {
+        let action:number = event.getAction();
+        if (action == MotionEvent.ACTION_UP || action == MotionEvent.ACTION_DOWN) {
+            let link:ClickableSpan = this.getClickableSpanAt(widget, buffer, event);
+            if (link != null) {
+                if (action == MotionEvent.ACTION_UP) {
+                    link.onClick(widget);
+                } else if (action == MotionEvent.ACTION_DOWN) {
+                    Selection.setSelection(buffer, buffer.getSpanStart(link), buffer.getSpanEnd(link));
+                }
+                return true;
+            } else {
+                Selection.removeSelection(buffer);
+            }
+        } else if (action == MotionEvent.ACTION_CANCEL) {
+            Selection.removeSelection(buffer);
+        }
+        return false;
+    }
+
+    /**
+     * Find the link under the touch point, the touch point out of the line's text
+     * bound is not a link.
+     */
+    private getClickableSpanAt(widget:TextView, buffer:Spannable, event:MotionEvent):ClickableSpan  {
+        let x:number = Math.floor(event.getX());
+        let y:number = Math.floor(event.getY());
+        x -= widget.getTotalPaddingLeft();
+        y -= widget.getTotalPaddingTop();
+        x += widget.getScrollX();
+        y += widget.getScrollY();
+        let layout:Layout = widget.getLayout();
+        if (layout == null) {
+            return null;
+        }
+        let line:number = layout.getLineForVertical(y);
+        if (x < layout.getLineLeft(line) || x > layout.getLineRight(line)) {
+            return null;
+        }
+        let off:number = layout.getOffsetForHorizontal(line, x);
+        let link:ClickableSpan[] = buffer.getSpans<ClickableSpan>(off, off, ClickableSpan);
+        return link.length != 0 ? link[0] : null;
+    }
+
+    onGenericMotionEvent(widget:TextView, text:Spannable, event:MotionEvent):boolean  {
+        return false;
+    }
+
+    canSelectArbitrarily():boolean  {
+        return true;
+    }
+
+    static getInstance():MovementMethod  {
+        if (LinkMovementMethod.sInstance == null)
+            LinkMovementMethod.sInstance = new LinkMovementMethod();
+        return LinkMovementMethod.sInstance;
+    }
+
+    private static sInstance:LinkMovementMethod;
+}
+}
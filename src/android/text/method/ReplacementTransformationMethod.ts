@@ -17,6 +17,7 @@
 ///<reference path="../../../android/graphics/Rect.ts"/>
 ///<reference path="../../../android/text/Spannable.ts"/>
 ///<reference path="../../../android/text/Spanned.ts"/>
+///<reference path="../../../android/text/SpannableString.ts"/>
 ///<reference path="../../../android/text/TextUtils.ts"/>
 ///<reference path="../../../android/view/View.ts"/>
 ///<reference path="../../../android/text/method/TransformationMethod.ts"/>
@@ -25,6 +26,7 @@ module android.text.method {
 import Rect = android.graphics.Rect;
 import Spannable = android.text.Spannable;
 import Spanned = android.text.Spanned;
+import SpannableString = android.text.SpannableString;
 import TextUtils = android.text.TextUtils;
 import View = android.view.View;
 import TransformationMethod = android.text.method.TransformationMethod;
@@ -80,11 +82,14 @@ export abstract class ReplacementTransformationMethod implements TransformationM
                  * but they can be flattened out now instead of
                  * at display time.
                  */
-                //if (source instanceof Spanned) {
-                //    return new SpannedString(new ReplacementTransformationMethod.SpannedReplacementCharSequence(<Spanned> source, original, replacement));
-                //} else {
-                    return new ReplacementTransformationMethod.ReplacementCharSequence(source, original, replacement).toString();
-                //}
+                let replaced:string = new ReplacementTransformationMethod.ReplacementCharSequence(source, original, replacement).toString();
+                if (Spanned.isImplements(source)) {
+                    let ss:SpannableString = new SpannableString(replaced);
+                    TextUtils.copySpansFrom(<Spanned> source, 0, source.length, null, ss, 0);
+                    return ss;
+                } else {
+                    return replaced;
+                }
             //}
         //}
         //if (source instanceof Spanned) {
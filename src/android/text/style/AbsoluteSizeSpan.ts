@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/content/res/Resources.ts"/>
+///<reference path="../../../android/text/TextPaint.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/MetricAffectingSpan.ts"/>
+
+module android.text.style {
+    import Resources = android.content.res.Resources;
+    import TextPaint = android.text.TextPaint;
+    import TextUtils = android.text.TextUtils;
+    import MetricAffectingSpan = android.text.style.MetricAffectingSpan;
+
+    export class AbsoluteSizeSpan extends MetricAffectingSpan {
+
+        private mSize:number = 0;
+
+        private mDip:boolean;
+
+        /**
+         * Set the text size to <code>size</code> physical pixels,
+         * or to <code>size</code> device-independent pixels if
+         * <code>dip</code> is true.
+         */
+        constructor(size:number, dip = false) {
+            super();
+            this.mSize = size;
+            this.mDip = dip;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.ABSOLUTE_SIZE_SPAN;
+        }
+
+        getSize():number  {
+            return this.mSize;
+        }
+
+        getDip():boolean  {
+            return this.mDip;
+        }
+
+        updateDrawState(ds:TextPaint):void  {
+            this.updateMeasureState(ds);
+        }
+
+        updateMeasureState(ds:TextPaint):void  {
+            if (this.mDip) {
+                ds.setTextSize(this.mSize * Resources.getDisplayMetrics().density);
+            } else {
+                ds.setTextSize(this.mSize);
+            }
+        }
+    }
+}
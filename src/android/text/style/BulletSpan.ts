@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/graphics/Paint.ts"/>
+///<reference path="../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../android/text/Layout.ts"/>
+///<reference path="../../../android/text/Spanned.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/LeadingMarginSpan.ts"/>
+///<reference path="../../../android/text/style/ParagraphStyle.ts"/>
+
+module android.text.style {
+    import Paint = android.graphics.Paint;
+    import Canvas = android.graphics.Canvas;
+    import Layout = android.text.Layout;
+    import Spanned = android.text.Spanned;
+    import TextUtils = android.text.TextUtils;
+    import LeadingMarginSpan = android.text.style.LeadingMarginSpan;
+    import ParagraphStyle = android.text.style.ParagraphStyle;
+
+    export class BulletSpan implements LeadingMarginSpan {
+        mType = [ParagraphStyle.type, LeadingMarginSpan.type];
+
+        private mGapWidth:number = 0;
+
+        private mWantColor:boolean;
+
+        private mColor:number = 0;
+
+        private static BULLET_RADIUS:number = 3;
+
+        static STANDARD_GAP_WIDTH:number = 2;
+
+        /**
+         * @param gapWidth the gap between the bullet and the text
+         * @param color the bullet color, the paint color is used if not set
+         */
+        constructor(gapWidth = BulletSpan.STANDARD_GAP_WIDTH, color?:number) {
+            this.mGapWidth = gapWidth;
+            this.mWantColor = color != null;
+            this.mColor = color || 0;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.BULLET_SPAN;
+        }
+
+        getLeadingMargin(first:boolean):number  {
+            return 2 * BulletSpan.BULLET_RADIUS + this.mGapWidth;
+        }
+
+        drawLeadingMargin(c:Canvas, p:Paint, x:number, dir:number, top:number, baseline:number, bottom:number, text:String, start:number, end:number, first:boolean, l:Layout):void  {
+            if ((<Spanned> text).getSpanStart(this) == start) {
+                let style:Paint.Style = p.getStyle();
+                let oldcolor:number = 0;
+                if (this.mWantColor) {
+                    oldcolor = p.getColor();
+                    p.setColor(this.mColor);
+                }
+                p.setStyle(Paint.Style.FILL);
+                c.drawCircle(x + dir * BulletSpan.BULLET_RADIUS, (top + bottom) / 2.0, BulletSpan.BULLET_RADIUS, p);
+                if (this.mWantColor) {
+                    p.setColor(oldcolor);
+                }
+                p.setStyle(style);
+            }
+        }
+    }
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/text/TextPaint.ts"/>
+///<reference path="../../../android/view/View.ts"/>
+///<reference path="../../../android/text/style/CharacterStyle.ts"/>
+///<reference path="../../../android/text/style/UpdateAppearance.ts"/>
+
+module android.text.style {
+    import TextPaint = android.text.TextPaint;
+    import View = android.view.View;
+    import CharacterStyle = android.text.style.CharacterStyle;
+    import UpdateAppearance = android.text.style.UpdateAppearance;
+
+    /**
+     * If an object of this type is attached to the text of a TextView
+     * with a movement method of LinkMovementMethod, the affected spans of
+     * text can be selected.  If clicked, the {@link #onClick} method will
+     * be called.
+     */
+    export abstract class ClickableSpan extends CharacterStyle implements UpdateAppearance {
+        static type = Symbol();
+        mType = ClickableSpan.type;
+
+        /**
+         * Performs the click action associated with this span.
+         */
+        abstract onClick(widget:View):void ;
+
+        /**
+         * Makes the text underlined and in the link color.
+         */
+        updateDrawState(ds:TextPaint):void  {
+            ds.setColor(ds.linkColor);
+            ds.setUnderlineText(true);
+        }
+    }
+}
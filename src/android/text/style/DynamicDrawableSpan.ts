@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/graphics/Paint.ts"/>
+///<reference path="../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../android/graphics/Rect.ts"/>
+///<reference path="../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../java/lang/ref/WeakReference.ts"/>
+///<reference path="../../../android/text/style/ReplacementSpan.ts"/>
+
+module android.text.style {
+    import Paint = android.graphics.Paint;
+    import Canvas = android.graphics.Canvas;
+    import Rect = android.graphics.Rect;
+    import Drawable = android.graphics.drawable.Drawable;
+    import WeakReference = java.lang.ref.WeakReference;
+    import ReplacementSpan = android.text.style.ReplacementSpan;
+
+    /**
+     * A span that replaces the text it's attached to with a Drawable, drawn inline
+     * and aligned with the bottom or the baseline of the surrounding text.
+     * <p>
+     * The span is as big as the drawable's bounds. When the drawable changes its size
+     * (e.g. a {@link androidui.image.NetDrawable} finishes loading), the hosting
+     * {@link android.widget.TextView} lays the text out again.
+     */
+    export abstract class DynamicDrawableSpan extends ReplacementSpan {
+
+        /**
+         * A constant indicating that the bottom of this span should be aligned
+         * with the bottom of the surrounding text, i.e., at the same level as the
+         * lowest descender in the text.
+         */
+        static ALIGN_BOTTOM:number = 0;
+
+        /**
+         * A constant indicating that the bottom of this span should be aligned
+         * with the baseline of the surrounding text.
+         */
+        static ALIGN_BASELINE:number = 1;
+
+        protected mVerticalAlignment:number = 0;
+
+        /**
+         * @param verticalAlignment one of {@link #ALIGN_BOTTOM} or {@link #ALIGN_BASELINE}.
+         */
+        constructor(verticalAlignment = DynamicDrawableSpan.ALIGN_BOTTOM) {
+            super();
+            this.mVerticalAlignment = verticalAlignment;
+        }
+
+        /**
+         * Returns the vertical alignment of this span, one of {@link #ALIGN_BOTTOM} or
+         * {@link #ALIGN_BASELINE}.
+         */
+        getVerticalAlignment():number  {
+            return this.mVerticalAlignment;
+        }
+
+        /**
+         * Your subclass must implement this method to provide the bitmap
+         * to be drawn.  The dimensions of the bitmap must be the same
+         * from each call to the next.
+         */
+        abstract getDrawable():Drawable ;
+
+        getSize(paint:Paint, text:String, start:number, end:number, fm:Paint.FontMetricsInt):number  {
+            let d:Drawable = this.getCachedDrawable();
+            let rect:Rect = d.getBounds();
+            if (fm != null) {
+                fm.ascent = -rect.bottom;
+                fm.descent = 0;
+                fm.top = fm.ascent;
+                fm.bottom = 0;
+            }
+            return rect.right;
+        }
+
+        draw(canvas:Canvas, text:String, start:number, end:number, x:number, top:number, y:number, bottom:number, paint:Paint):void  {
+            let b:Drawable = this.getCachedDrawable();
+            canvas.save();
+            let transY:number = bottom - b.getBounds().bottom;
+            if (this.mVerticalAlignment == DynamicDrawableSpan.ALIGN_BASELINE) {
+                transY -= Math.floor(paint.descent());
+            }
+            canvas.translate(x, transY);
+            b.draw(canvas);
+            canvas.restore();
+        }
+
+        private getCachedDrawable():Drawable  {
+            let wr:WeakReference<Drawable> = this.mDrawableRef;
+            let d:Drawable = null;
+            if (wr != null)
+                d = wr.get();
+            if (d == null) {
+                d = this.getDrawable();
+                this.mDrawableRef = new WeakReference<Drawable>(d);
+            }
+            return d;
+        }
+
+        private mDrawableRef:WeakReference<Drawable>;
+    }
+}
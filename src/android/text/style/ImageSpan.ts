@@ -0,0 +1,66 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../../android/text/style/DynamicDrawableSpan.ts"/>
+
+module android.text.style {
+    import Drawable = android.graphics.drawable.Drawable;
+    import DynamicDrawableSpan = android.text.style.DynamicDrawableSpan;
+
+    /**
+     * Draws a Drawable inline with the text, e.g. a custom emoji or a badge.
+     * The drawable should have its bounds set, a drawable without bounds is sized
+     * to its intrinsic size once it is shown in a TextView.
+     */
+    export class ImageSpan extends DynamicDrawableSpan {
+
+        private mDrawable:Drawable;
+
+        private mSource:string;
+
+        /**
+         * @param verticalAlignment one of {@link DynamicDrawableSpan#ALIGN_BOTTOM} or
+         * {@link DynamicDrawableSpan#ALIGN_BASELINE}.
+         */
+        constructor(d:Drawable, verticalAlignment?:number);
+        /**
+         * @param source the source (url) of the drawable, see {@link android.text.Html#toHtml}
+         * @param verticalAlignment one of {@link DynamicDrawableSpan#ALIGN_BOTTOM} or
+         * {@link DynamicDrawableSpan#ALIGN_BASELINE}.
+         */
+        constructor(d:Drawable, source:string, verticalAlignment?:number);
+        constructor(d:Drawable, ...args) {
+            super(typeof args[0] === 'string' ? args[1] : args[0]);
+            this.mDrawable = d;
+            if (typeof args[0] === 'string') {
+                this.mSource = args[0];
+            }
+        }
+
+        getDrawable():Drawable  {
+            return this.mDrawable;
+        }
+
+        /**
+         * Returns the source string that was saved during construction.
+         */
+        getSource():string  {
+            return this.mSource;
+        }
+    }
+}
@@ -103,6 +103,7 @@ module android.text.style {
          * margin but does not do any rendering.
          */
         export class Standard implements LeadingMarginSpan {
+            mType = [ParagraphStyle.type, LeadingMarginSpan.type];
 
             private mFirst:number = 0;
             private mRest:number = 0;
@@ -0,0 +1,68 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/graphics/Paint.ts"/>
+///<reference path="../../../android/graphics/Canvas.ts"/>
+///<reference path="../../../android/text/Layout.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/LeadingMarginSpan.ts"/>
+///<reference path="../../../android/text/style/ParagraphStyle.ts"/>
+
+module android.text.style {
+    import Paint = android.graphics.Paint;
+    import Canvas = android.graphics.Canvas;
+    import Layout = android.text.Layout;
+    import TextUtils = android.text.TextUtils;
+    import LeadingMarginSpan = android.text.style.LeadingMarginSpan;
+    import ParagraphStyle = android.text.style.ParagraphStyle;
+
+    export class QuoteSpan implements LeadingMarginSpan {
+        mType = [ParagraphStyle.type, LeadingMarginSpan.type];
+
+        private static STRIPE_WIDTH:number = 2;
+
+        private static GAP_WIDTH:number = 2;
+
+        private mColor:number = 0;
+
+        constructor(color = 0xff0000ff) {
+            this.mColor = color;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.QUOTE_SPAN;
+        }
+
+        getColor():number  {
+            return this.mColor;
+        }
+
+        getLeadingMargin(first:boolean):number  {
+            return QuoteSpan.STRIPE_WIDTH + QuoteSpan.GAP_WIDTH;
+        }
+
+        drawLeadingMargin(c:Canvas, p:Paint, x:number, dir:number, top:number, baseline:number, bottom:number, text:String, start:number, end:number, first:boolean, layout:Layout):void  {
+            let style:Paint.Style = p.getStyle();
+            let color:number = p.getColor();
+            p.setStyle(Paint.Style.FILL);
+            p.setColor(this.mColor);
+            c.drawRect(x, top, x + dir * QuoteSpan.STRIPE_WIDTH, bottom, p);
+            p.setStyle(style);
+            p.setColor(color);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/text/TextPaint.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/MetricAffectingSpan.ts"/>
+
+module android.text.style {
+    import TextPaint = android.text.TextPaint;
+    import TextUtils = android.text.TextUtils;
+    import MetricAffectingSpan = android.text.style.MetricAffectingSpan;
+
+    export class RelativeSizeSpan extends MetricAffectingSpan {
+
+        private mProportion:number = 0;
+
+        constructor(proportion:number) {
+            super();
+            this.mProportion = proportion;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.RELATIVE_SIZE_SPAN;
+        }
+
+        getSizeChange():number  {
+            return this.mProportion;
+        }
+
+        updateDrawState(ds:TextPaint):void  {
+            ds.setTextSize(ds.getTextSize() * this.mProportion);
+        }
+
+        updateMeasureState(ds:TextPaint):void  {
+            ds.setTextSize(ds.getTextSize() * this.mProportion);
+        }
+    }
+}
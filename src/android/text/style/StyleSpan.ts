@@ -0,0 +1,94 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/graphics/Paint.ts"/>
+///<reference path="../../../android/graphics/Typeface.ts"/>
+///<reference path="../../../android/text/TextPaint.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/MetricAffectingSpan.ts"/>
+
+module android.text.style {
+    import Paint = android.graphics.Paint;
+    import Typeface = android.graphics.Typeface;
+    import TextPaint = android.text.TextPaint;
+    import TextUtils = android.text.TextUtils;
+    import MetricAffectingSpan = android.text.style.MetricAffectingSpan;
+
+    /**
+     * Describes a style in a span.
+     * Note that styles are cumulative -- if both bold and italic are set in
+     * separate spans, or if the base style is bold and a span calls for italic,
+     * you get bold italic.  You can't turn off a style from the base style.
+     */
+    export class StyleSpan extends MetricAffectingSpan {
+
+        private mStyle:number = 0;
+
+        /**
+         * @param style An integer constant describing the style for this span. Examples
+         * include bold, italic, and normal. Values are constants defined
+         * in {@link android.graphics.Typeface}.
+         */
+        constructor(style:number) {
+            super();
+            this.mStyle = style;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.STYLE_SPAN;
+        }
+
+        /**
+         * Returns the style constant defined in {@link android.graphics.Typeface}.
+         */
+        getStyle():number  {
+            return this.mStyle;
+        }
+
+        updateDrawState(ds:TextPaint):void  {
+            StyleSpan.applyStyle(ds, this.mStyle);
+        }
+
+        updateMeasureState(paint:TextPaint):void  {
+            StyleSpan.applyStyle(paint, this.mStyle);
+        }
+
+        private static applyStyle(paint:Paint, style:number):void  {
+            let oldStyle:number;
+            let old:Typeface = paint.getTypeface();
+            if (old == null) {
+                oldStyle = 0;
+            } else {
+                oldStyle = old.getStyle();
+            }
+            let want:number = oldStyle | style;
+            let tf:Typeface;
+            if (old == null) {
+                tf = Typeface.defaultFromStyle(want);
+            } else {
+                tf = Typeface.create(old, want);
+            }
+            let fake:number = want & ~tf.getStyle();
+            if ((fake & Typeface.BOLD) != 0) {
+                paint.setFakeBoldText(true);
+            }
+            if ((fake & Typeface.ITALIC) != 0) {
+                paint.setTextSkewX(-0.25);
+            }
+            paint.setTypeface(tf);
+        }
+    }
+}
@@ -0,0 +1,85 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/graphics/Paint.ts"/>
+///<reference path="../../../android/graphics/Typeface.ts"/>
+///<reference path="../../../android/text/TextPaint.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/MetricAffectingSpan.ts"/>
+
+module android.text.style {
+    import Paint = android.graphics.Paint;
+    import Typeface = android.graphics.Typeface;
+    import TextPaint = android.text.TextPaint;
+    import TextUtils = android.text.TextUtils;
+    import MetricAffectingSpan = android.text.style.MetricAffectingSpan;
+
+    /**
+     * Changes the typeface family of the text to which the span is attached.
+     */
+    export class TypefaceSpan extends MetricAffectingSpan {
+
+        private mFamily:string;
+
+        /**
+         * @param family The font family for this typeface.  Examples include
+         * "monospace", "serif", and "sans-serif".
+         */
+        constructor(family:string) {
+            super();
+            this.mFamily = family;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.TYPEFACE_SPAN;
+        }
+
+        /**
+         * Returns the font family name.
+         */
+        getFamily():string  {
+            return this.mFamily;
+        }
+
+        updateDrawState(ds:TextPaint):void  {
+            TypefaceSpan.applyFamily(ds, this.mFamily);
+        }
+
+        updateMeasureState(paint:TextPaint):void  {
+            TypefaceSpan.applyFamily(paint, this.mFamily);
+        }
+
+        private static applyFamily(paint:Paint, family:string):void  {
+            let oldStyle:number;
+            let old:Typeface = paint.getTypeface();
+            if (old == null) {
+                oldStyle = 0;
+            } else {
+                oldStyle = old.getStyle();
+            }
+            let tf:Typeface = Typeface.create(family, oldStyle);
+            let fake:number = oldStyle & ~tf.getStyle();
+            if ((fake & Typeface.BOLD) != 0) {
+                paint.setFakeBoldText(true);
+            }
+            if ((fake & Typeface.ITALIC) != 0) {
+                paint.setTextSkewX(-0.25);
+            }
+            paint.setTypeface(tf);
+        }
+    }
+}
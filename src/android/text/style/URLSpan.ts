@@ -0,0 +1,48 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+///<reference path="../../../android/view/View.ts"/>
+///<reference path="../../../android/text/TextUtils.ts"/>
+///<reference path="../../../android/text/style/ClickableSpan.ts"/>
+
+module android.text.style {
+    import View = android.view.View;
+    import TextUtils = android.text.TextUtils;
+    import ClickableSpan = android.text.style.ClickableSpan;
+
+    export class URLSpan extends ClickableSpan {
+
+        private mURL:string;
+
+        constructor(url:string) {
+            super();
+            this.mURL = url;
+        }
+
+        getSpanTypeId():number  {
+            return TextUtils.URL_SPAN;
+        }
+
+        getURL():string  {
+            return this.mURL;
+        }
+
+        onClick(widget:View):void  {
+            window.open(this.getURL());
+        }
+    }
+}
@@ -0,0 +1,443 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/text/Spannable.ts"/>
+///<reference path="../../../android/text/SpannableString.ts"/>
+///<reference path="../../../android/text/Spanned.ts"/>
+///<reference path="../../../android/text/method/LinkMovementMethod.ts"/>
+///<reference path="../../../android/text/method/MovementMethod.ts"/>
+///<reference path="../../../android/text/style/URLSpan.ts"/>
+///<reference path="../../../android/util/Patterns.ts"/>
+///<reference path="../../../android/widget/TextView.ts"/>
+
+module android.text.util {
+import Spannable = android.text.Spannable;
+import SpannableString = android.text.SpannableString;
+import Spanned = android.text.Spanned;
+import LinkMovementMethod = android.text.method.LinkMovementMethod;
+import MovementMethod = android.text.method.MovementMethod;
+import URLSpan = android.text.style.URLSpan;
+import Patterns = android.util.Patterns;
+import TextView = android.widget.TextView;
+
+/**
+ *  Linkify take a piece of text and a regular expression and turns all of the
+ *  regex matches in the text into clickable links.  This is particularly
+ *  useful for matching things like email addresses, web urls, etc. and making
+ *  them actionable.
+ *
+ *  Alone with the pattern that is to be matched, a url scheme prefix is also
+ *  required.  Any pattern match that does not begin with the supplied scheme
+ *  will have the scheme prepended to the matched text when the clickable url
+ *  is created.  For instance, if you are matching web urls you would supply
+ *  the scheme <code>http://</code>.  If the pattern matches example.com, which
+ *  does not have a url scheme prefix, the supplied scheme will be prepended to
+ *  create <code>http://example.com</code> when the clickable url link is
+ *  created.
+ */
+export class Linkify {
+
+    /**
+     *  Bit field indicating that web URLs should be matched in methods that
+     *  take an options mask
+     */
+    static WEB_URLS:number = 0x01;
+
+    /**
+     *  Bit field indicating that email addresses should be matched in methods
+     *  that take an options mask
+     */
+    static EMAIL_ADDRESSES:number = 0x02;
+
+    /**
+     *  Bit field indicating that phone numbers should be matched in methods that
+     *  take an options mask
+     */
+    static PHONE_NUMBERS:number = 0x04;
+
+    /**
+     *  Bit field indicating that street addresses should be matched in methods that
+     *  take an options mask. Not supported in browser, it is ignored.
+     */
+    static MAP_ADDRESSES:number = 0x08;
+
+    /**
+     *  Bit mask indicating that all available patterns should be matched in
+     *  methods that take an options mask
+     */
+    static ALL:number = Linkify.WEB_URLS | Linkify.EMAIL_ADDRESSES | Linkify.PHONE_NUMBERS | Linkify.MAP_ADDRESSES;
+
+    /**
+     * Don't treat anything with fewer than this many digits as a
+     * phone number.
+     */
+    private static PHONE_NUMBER_MINIMUM_DIGITS:number = 5;
+
+    /**
+     *  Filters out web URL matches that occur after an at-sign (@).  This is
+     *  to prevent turning the domain name in an email address into a web link.
+     */
+    static sUrlMatchFilter:Linkify.MatchFilter = {
+        acceptMatch(s:String, start:number, end:number):boolean  {
+            if (start == 0) {
+                return true;
+            }
+            if (s.charAt(start - 1) == '@') {
+                return false;
+            }
+            return true;
+        }
+    };
+
+    /**
+     *  Filters out URL matches that don't have enough digits to be a
+     *  phone number.
+     */
+    static sPhoneNumberMatchFilter:Linkify.MatchFilter = {
+        acceptMatch(s:String, start:number, end:number):boolean  {
+            let digitCount:number = 0;
+            for (let i:number = start; i < end; i++) {
+                let c:string = s.charAt(i);
+                if (c >= '0' && c <= '9') {
+                    digitCount++;
+                    if (digitCount >= Linkify.PHONE_NUMBER_MINIMUM_DIGITS) {
+                        return true;
+                    }
+                }
+            }
+            return false;
+        }
+    };
+
+    /**
+     *  Transforms matched phone number text into something suitable
+     *  to be used in a tel: URL.  It does this by removing everything
+     *  but the digits and plus signs.  For instance:
+     *  &apos;+1 (919) 555-1212&apos;
+     *  becomes &apos;+19195551212&apos;
+     */
+    static sPhoneNumberTransformFilter:Linkify.TransformFilter = {
+        transformUrl(match:RegExpExecArray, url:string):string  {
+            return Patterns.digitsAndPlusOnly(match);
+        }
+    };
+
+    /**
+     *  Scans the text of the provided Spannable and turns all occurrences
+     *  of the link types indicated in the mask into clickable links.
+     *  If the mask is nonzero, it also removes any existing URLSpans
+     *  attached to the Spannable, to avoid problems if you call it
+     *  repeatedly on the same text.
+     *
+     *  Or scans the text of the provided TextView and turns all occurrences of
+     *  the link types indicated in the mask into clickable links.  If matches
+     *  are found the movement method for the TextView is set to
+     *  LinkMovementMethod.
+     */
+    static addLinks(text:Spannable|TextView, mask:number):boolean;
+    /**
+     *  Applies a regex to the text of a TextView (or a Spannable) turning the matches
+     *  into links.  If links are found then UrlSpans are applied to the link
+     *  text match areas, and the movement method for a TextView is changed
+     *  to LinkMovementMethod.
+     *
+     *  @param text         TextView or Spannable whose text is to be marked-up with links
+     *  @param pattern      Regex pattern to be used for finding links
+     *  @param scheme       Url scheme string (eg <code>http://</code> to be
+     *                      prepended to the url of links that do not have
+     *                      a scheme specified in the link text
+     *  @param matchFilter  The filter that is used to allow the client code
+     *                      additional control over which pattern matches are
+     *                      to be converted into links.
+     *  @param transformFilter  Filter to allow the client code to update the link found.
+     */
+    static addLinks(text:Spannable|TextView, pattern:RegExp, scheme:string, matchFilter?:Linkify.MatchFilter, transformFilter?:Linkify.TransformFilter):boolean;
+    static addLinks(...args):boolean  {
+        if (args[1] instanceof RegExp) {
+            if (Spannable.isImpl(args[0])) {
+                return Linkify.addLinksToSpannable(args[0], args[1], args[2], args[3], args[4]);
+            }
+            return Linkify.addLinksToTextView(args[0], (s:Spannable)=>Linkify.addLinksToSpannable(s, args[1], args[2], args[3], args[4]));
+        }
+        if (Spannable.isImpl(args[0])) {
+            return Linkify.addLinksToSpannableWithMask(args[0], args[1]);
+        }
+        let mask:number = args[1];
+        if (mask == 0) {
+            return false;
+        }
+        return Linkify.addLinksToTextView(args[0], (s:Spannable)=>Linkify.addLinksToSpannableWithMask(s, mask));
+    }
+
+    private static addLinksToSpannableWithMask(text:Spannable, mask:number):boolean  {
+        if (mask == 0) {
+            return false;
+        }
+        let old:URLSpan[] = text.getSpans<URLSpan>(0, text.length, URLSpan);
+        for (let i:number = old.length - 1; i >= 0; i--) {
+            text.removeSpan(old[i]);
+        }
+        let links:LinkSpec[] = [];
+        if ((mask & Linkify.WEB_URLS) != 0) {
+            Linkify.gatherLinks(links, text, Patterns.WEB_URL, [ "http://", "https://", "rtsp://" ], Linkify.sUrlMatchFilter, null);
+        }
+        if ((mask & Linkify.EMAIL_ADDRESSES) != 0) {
+            Linkify.gatherLinks(links, text, Patterns.EMAIL_ADDRESS, [ "mailto:" ], null, null);
+        }
+        if ((mask & Linkify.PHONE_NUMBERS) != 0) {
+            Linkify.gatherLinks(links, text, Patterns.PHONE, [ "tel:" ], Linkify.sPhoneNumberMatchFilter, Linkify.sPhoneNumberTransformFilter);
+        }
+        //MAP_ADDRESSES not supported: it needs the address finder of WebView
+        Linkify.pruneOverlaps(links);
+        if (links.length == 0) {
+            return false;
+        }
+        for (let link of links) {
+            Linkify.applyLink(link.url, link.start, link.end, text);
+        }
+        return true;
+    }
+
+    private static addLinksToSpannable(s:Spannable, pattern:RegExp, scheme:string, matchFilter:Linkify.MatchFilter, transformFilter:Linkify.TransformFilter):boolean  {
+        let hasMatches:boolean = false;
+        let prefix:string = (scheme == null) ? "" : scheme.toLowerCase();
+        let m:RegExp = Linkify.toGlobalPattern(pattern);
+        let match:RegExpExecArray;
+        while ((match = m.exec(s.toString())) != null) {
+            if (match[0].length == 0) {
+                m.lastIndex++;
+                continue;
+            }
+            let start:number = match.index;
+            let end:number = start + match[0].length;
+            let allowed:boolean = true;
+            if (matchFilter != null) {
+                allowed = matchFilter.acceptMatch(s, start, end);
+            }
+            if (allowed) {
+                let url:string = Linkify.makeUrl(match[0], [ prefix ], match, transformFilter);
+                Linkify.applyLink(url, start, end, s);
+                hasMatches = true;
+            }
+        }
+        return hasMatches;
+    }
+
+    private static addLinksToTextView(text:TextView, addLinks:(s:Spannable)=>boolean):boolean  {
+        let t:String = text.getText();
+        if (Spannable.isImpl(t)) {
+            if (addLinks(<Spannable> t)) {
+                Linkify.addLinkMovementMethod(text);
+                return true;
+            }
+            return false;
+        } else {
+            let s:SpannableString = SpannableString.valueOf(t);
+            if (addLinks(s)) {
+                Linkify.addLinkMovementMethod(text);
+                text.setText(s);
+                return true;
+            }
+            return false;
+        }
+    }
+
+    private static addLinkMovementMethod(t:TextView):void  {
+        let m:MovementMethod = t.getMovementMethod();
+        if ((m == null) || !(m instanceof LinkMovementMethod)) {
+            if (t.getLinksClickable()) {
+                t.setMovementMethod(LinkMovementMethod.getInstance());
+            }
+        }
+    }
+
+    private static toGlobalPattern(pattern:RegExp):RegExp  {
+        let flags:string = 'g';
+        if (pattern.ignoreCase) flags += 'i';
+        if (pattern.multiline) flags += 'm';
+        return new RegExp(pattern.source, flags);
+    }
+
+    private static applyLink(url:string, start:number, end:number, text:Spannable):void  {
+        let span:URLSpan = new URLSpan(url);
+        text.setSpan(span, start, end, Spanned.SPAN_EXCLUSIVE_EXCLUSIVE);
+    }
+
+    private static makeUrl(url:string, prefixes:string[], m:RegExpExecArray, filter:Linkify.TransformFilter):string  {
+        if (filter != null) {
+            url = filter.transformUrl(m, url);
+        }
+        let hasPrefix:boolean = false;
+        for (let i:number = 0; i < prefixes.length; i++) {
+            if (url.substring(0, prefixes[i].length).toLowerCase() == prefixes[i].toLowerCase()) {
+                hasPrefix = true;
+                // Fix capitalization if necessary
+                if (!url.startsWith(prefixes[i])) {
+                    url = prefixes[i] + url.substring(prefixes[i].length);
+                }
+                break;
+            }
+        }
+        if (!hasPrefix) {
+            url = prefixes[0] + url;
+        }
+        return url;
+    }
+
+    private static gatherLinks(links:LinkSpec[], s:Spannable, pattern:RegExp, schemes:string[], matchFilter:Linkify.MatchFilter, transformFilter:Linkify.TransformFilter):void  {
+        let m:RegExp = Linkify.toGlobalPattern(pattern);
+        let match:RegExpExecArray;
+        while ((match = m.exec(s.toString())) != null) {
+            if (match[0].length == 0) {
+                m.lastIndex++;
+                continue;
+            }
+            let start:number = match.index;
+            let end:number = start + match[0].length;
+            let matched:string = match[0];
+            //androidui add: the url pattern can end with the punctuation of the sentence, e.g. "see http://a.com/b."
+            if (pattern == Patterns.WEB_URL) {
+                end = Linkify.trimUrlEnd(matched, start, end);
+                matched = matched.substring(0, end - start);
+            }
+            if (matchFilter == null || matchFilter.acceptMatch(s, start, end)) {
+                let spec:LinkSpec = new LinkSpec();
+                let url:string = Linkify.makeUrl(matched, schemes, match, transformFilter);
+                spec.url = url;
+                spec.start = start;
+                spec.end = end;
+                links.push(spec);
+            }
+        }
+    }
+
+    /**
+     *  Returns the end of the url matched from start to end without the trailing
+     *  sentence punctuation. A ')' is kept when the url has the matching '('.
+     */
+    private static trimUrlEnd(url:string, start:number, end:number):number  {
+        let open:number = url.split('(').length - 1;
+        let close:number = url.split(')').length - 1;
+        while (end > start) {
+            let c:string = url.charAt(end - start - 1);
+            if (c == ')' && close > open) {
+                close--;
+            } else if (".,;:!?'\"".indexOf(c) < 0) {
+                break;
+            }
+            end--;
+        }
+        return end;
+    }
+
+    private static pruneOverlaps(links:LinkSpec[]):void  {
+        links.sort((a:LinkSpec, b:LinkSpec)=>{
+            if (a.start < b.start) {
+                return -1;
+            }
+            if (a.start > b.start) {
+                return 1;
+            }
+            if (a.end < b.end) {
+                return 1;
+            }
+            if (a.end > b.end) {
+                return -1;
+            }
+            return 0;
+        });
+        let len:number = links.length;
+        let i:number = 0;
+        while (i < len - 1) {
+            let a:LinkSpec = links[i];
+            let b:LinkSpec = links[i + 1];
+            let remove:number = -1;
+            if ((a.start <= b.start) && (a.end > b.start)) {
+                if (b.end <= a.end) {
+                    remove = i + 1;
+                } else if ((a.end - a.start) > (b.end - b.start)) {
+                    remove = i + 1;
+                } else if ((a.end - a.start) < (b.end - b.start)) {
+                    remove = i;
+                }
+                if (remove != -1) {
+                    links.splice(remove, 1);
+                    len--;
+                    continue;
+                }
+            }
+            i++;
+        }
+    }
+}
+
+export module Linkify {
+    /**
+     *  MatchFilter enables client code to have more control over
+     *  what is allowed to match and become a link, and what is not.
+     *
+     *  For example:  when matching web urls you would like things like
+     *  http://www.example.com to match, as well as just example.com itelf.
+     *  However, you would not want to match against the domain in
+     *  support@example.com.  So, when matching against a web url pattern you
+     *  might also include a MatchFilter that disallows the match if it is
+     *  immediately preceded by an at-sign (@).
+     */
+    export interface MatchFilter {
+        /**
+         *  Examines the character span matched by the pattern and determines
+         *  if the match should be turned into an actionable link.
+         *
+         *  @param s        The body of text against which the pattern
+         *                  was matched
+         *  @param start    The index of the first character in s that was
+         *                  matched by the pattern - inclusive
+         *  @param end      The index of the last character in s that was
+         *                  matched - exclusive
+         *
+         *  @return         Whether this match should be turned into a link
+         */
+        acceptMatch(s:String, start:number, end:number):boolean ;
+    }
+
+    /**
+     *  TransformFilter enables client code to have more control over
+     *  how matched patterns are represented as URLs.
+     *
+     *  For example:  when converting a phone number such as (919)  555-1212
+     *  into a tel: URL the parentheses, white space, and hyphen need to be
+     *  removed to produce tel:9195551212.
+     */
+    export interface TransformFilter {
+        /**
+         *  Examines the matched text and either passes it through or uses the
+         *  data in the match result to create a different URL.
+         *
+         *  @param match    The regex exec result of the match
+         *  @param url      The matched text
+         *
+         *  @return         The transformed form of the URL
+         */
+        transformUrl(match:RegExpExecArray, url:string):string ;
+    }
+}
+
+class LinkSpec {
+    url:string;
+    start:number = 0;
+    end:number = 0;
+}
+}
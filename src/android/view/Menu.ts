@@ -17,11 +17,13 @@
 ///<reference path="../../android/app/Activity.ts"/>
 ///<reference path="../../android/view/KeyEvent.ts"/>
 ///<reference path="../../android/view/MenuItem.ts"/>
+///<reference path="../../android/view/menu/MenuPresenter.ts"/>
 
 module android.view {
 import Activity = android.app.Activity;
 import KeyEvent = android.view.KeyEvent;
 import MenuItem = android.view.MenuItem;
+import MenuPresenter = android.view.menu.MenuPresenter;
 import ArrayList = java.util.ArrayList;
 import Context = android.content.Context;
 
@@ -60,6 +62,20 @@ export class Menu {
      */
     private mItems = new ArrayList<MenuItem>();
     private mVisibleItems = new ArrayList<MenuItem>();
+    /** Contains items that should appear in the Action Bar, if present. */
+    private mActionItems = new ArrayList<MenuItem>();
+    /**
+     * Contains items that should appear in the overflow menu. Only valid
+     * if there is an Action Bar. Non-action items are grouped into the
+     * overflow menu.
+     */
+    private mNonActionItems = new ArrayList<MenuItem>();
+    /** Whether or not the items (or any one item's action state) has changed since it was last fetched. */
+    private mIsActionItemsStale = true;
+    private mPreventDispatchingItemsChanged = false;
+    private mItemsChangedWhileDispatchPrevented = false;
+    private mExpandedItem:MenuItem;
+    private mPresenters = new ArrayList<MenuPresenter>();
 
     /**
      * Callback that will receive the various menu-related events generated by this class. Use
@@ -144,7 +160,7 @@ export class Menu {
         //    item.setMenuInfo(this.mCurrentMenuInfo);
         //}
         this.mItems.add(/*MenuBuilder.findInsertIndex(this.mItems, ordering), */item);
-        //this.onItemsChanged(true);
+        this.onItemsChanged(true);
         return item;
     }
     ///**
@@ -311,6 +327,9 @@ export class Menu {
      * just been created.
      */
     clear():void {
+        if (this.mExpandedItem != null) {
+            this.collapseItemActionView(this.mExpandedItem);
+        }
         this.mItems.clear();
         this.onItemsChanged(true);
     }
@@ -527,15 +546,72 @@ export class Menu {
      *                         layout.)
      */
     onItemsChanged(structureChanged:boolean):void  {
-        //if (!this.mPreventDispatchingItemsChanged) {
-        //    if (structureChanged) {
-        //        this.mIsVisibleItemsStale = true;
-        //        this.mIsActionItemsStale = true;
-        //    }
-        //    this.dispatchPresenterUpdate(structureChanged);
-        //} else {
-        //    this.mItemsChangedWhileDispatchPrevented = true;
-        //}
+        if (!this.mPreventDispatchingItemsChanged) {
+            if (structureChanged) {
+                //this.mIsVisibleItemsStale = true;
+                this.mIsActionItemsStale = true;
+            }
+            this.dispatchPresenterUpdate(structureChanged);
+        } else {
+            if (structureChanged) {
+                this.mIsActionItemsStale = true;
+            }
+            this.mItemsChangedWhileDispatchPrevented = true;
+        }
+    }
+
+    /**
+     * Stop dispatching item changed events to presenters until
+     * {@link #startDispatchingItemsChanged()} is called. Useful when
+     * many menu operations are going to be performed as a batch.
+     */
+    stopDispatchingItemsChanged():void  {
+        if (!this.mPreventDispatchingItemsChanged) {
+            this.mPreventDispatchingItemsChanged = true;
+            this.mItemsChangedWhileDispatchPrevented = false;
+        }
+    }
+
+    startDispatchingItemsChanged():void  {
+        this.mPreventDispatchingItemsChanged = false;
+        if (this.mItemsChangedWhileDispatchPrevented) {
+            this.mItemsChangedWhileDispatchPrevented = false;
+            this.onItemsChanged(true);
+        }
+    }
+
+    /**
+     * Add a presenter to this menu. This will only hold a weak reference;
+     * you do not need to explicitly remove a presenter, but you can using
+     * {@link #removeMenuPresenter(MenuPresenter)}.
+     *
+     * @param presenter The presenter to add
+     */
+    addMenuPresenter(presenter:MenuPresenter):void  {
+        if (!this.mPresenters.contains(presenter)) {
+            this.mPresenters.add(presenter);
+        }
+        this.mIsActionItemsStale = true;
+    }
+
+    /**
+     * Remove a presenter from this menu. That presenter will no longer
+     * receive notifications of updates to this menu's data.
+     *
+     * @param presenter The presenter to remove
+     */
+    removeMenuPresenter(presenter:MenuPresenter):void  {
+        this.mPresenters.remove(presenter);
+        this.mIsActionItemsStale = true;
+    }
+
+    private dispatchPresenterUpdate(cleared:boolean):void  {
+        if (this.mPresenters.isEmpty()) return;
+        this.stopDispatchingItemsChanged();
+        for (let presenter of this.mPresenters.clone().array) {
+            presenter.updateMenuView(cleared);
+        }
+        this.startDispatchingItemsChanged();
     }
 
     /**
@@ -567,6 +643,108 @@ export class Menu {
         }
         return this.mVisibleItems;
     }
+
+    /**
+     * This method determines which menu items get to be 'action items' that will appear
+     * in an action bar and which items should be 'overflow items' in a secondary menu.
+     * The presenters decide which items are action items (see
+     * {@link MenuPresenter#flagActionItems()}), the menu only collects the result.
+     */
+    flagActionItems():void  {
+        // Important side effect: if getVisibleItems is stale it may refresh,
+        // which can affect action items staleness.
+        const visibleItems:ArrayList<MenuItem> = this.getVisibleItems();
+        if (!this.mIsActionItemsStale) {
+            return;
+        }
+        // Presenters flag action items as needed.
+        let flagged:boolean = false;
+        for (let presenter of this.mPresenters.clone().array) {
+            flagged = presenter.flagActionItems() || flagged;
+        }
+        this.mActionItems.clear();
+        this.mNonActionItems.clear();
+        if (flagged) {
+            const itemsSize:number = visibleItems.size();
+            for (let i:number = 0; i < itemsSize; i++) {
+                const item:MenuItem = visibleItems.get(i);
+                if (item.isActionButton()) {
+                    this.mActionItems.add(item);
+                } else {
+                    this.mNonActionItems.add(item);
+                }
+            }
+        } else {
+            // Nobody flagged anything, everything is a non-action item.
+            // (This happens during a first pass with no action-item presenters.)
+            this.mNonActionItems.addAll(visibleItems);
+        }
+        this.mIsActionItemsStale = false;
+    }
+
+    getActionItems():ArrayList<MenuItem>  {
+        this.flagActionItems();
+        return this.mActionItems;
+    }
+
+    getNonActionItems():ArrayList<MenuItem>  {
+        this.flagActionItems();
+        return this.mNonActionItems;
+    }
+
+    /**
+     * Performs the action of the item: invokes it and expands its action view
+     * if the item has a collapsible one.
+     *
+     * @param item The item to perform.
+     * @return Whether the item was handled.
+     */
+    performItemAction(item:MenuItem):boolean  {
+        if (item == null || !item.isEnabled()) {
+            return false;
+        }
+        let invoked:boolean = item.invoke();
+        if (item.hasCollapsibleActionView()) {
+            invoked = item.expandActionView() || invoked;
+        }
+        return invoked;
+    }
+
+    expandItemActionView(item:MenuItem):boolean  {
+        if (this.mPresenters.isEmpty()) return false;
+        let expanded:boolean = false;
+        this.stopDispatchingItemsChanged();
+        for (let presenter of this.mPresenters.clone().array) {
+            if ((expanded = presenter.expandItemActionView(this, item))) {
+                break;
+            }
+        }
+        this.startDispatchingItemsChanged();
+        if (expanded) {
+            this.mExpandedItem = item;
+        }
+        return expanded;
+    }
+
+    collapseItemActionView(item:MenuItem):boolean  {
+        if (this.mPresenters.isEmpty() || this.mExpandedItem != item) return false;
+        let collapsed:boolean = false;
+        this.stopDispatchingItemsChanged();
+        for (let presenter of this.mPresenters.clone().array) {
+            if ((collapsed = presenter.collapseItemActionView(this, item))) {
+                break;
+            }
+        }
+        this.startDispatchingItemsChanged();
+        if (collapsed) {
+            this.mExpandedItem = null;
+        }
+        return collapsed;
+    }
+
+    getExpandedItem():MenuItem  {
+        return this.mExpandedItem;
+    }
 }
 
 export module Menu{
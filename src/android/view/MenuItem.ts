@@ -63,6 +63,10 @@ export class MenuItem {
     private mClickListener:MenuItem.OnMenuItemClickListener;
 
     private mActionView:View;
+    private mShowAsAction:number = MenuItem.SHOW_AS_ACTION_NEVER;
+    private mIsActionButton = false;
+    private mIsActionViewExpanded = false;
+    private mOnActionExpandListener:MenuItem.OnActionExpandListener;
 
     private mMenu:Menu;
 
@@ -133,6 +137,7 @@ export class MenuItem {
      */
     setTitle(title:string):MenuItem {
         this.mTitle = title;
+        this.mMenu.onItemsChanged(false);
         return this;
     }
 
@@ -187,6 +192,7 @@ export class MenuItem {
      */
     setIcon(icon:Drawable):MenuItem {
         this.mIconDrawable = icon;
+        this.mMenu.onItemsChanged(false);
         return this;
     }
 
@@ -370,7 +376,9 @@ export class MenuItem {
      * @return This Item so additional setters can be called.
      */
     setVisible(visible:boolean):MenuItem {
+        if (this.mVisible == visible) return this;
         this.mVisible = visible;
+        this.mMenu.onItemsChanged(true);
         return this;
     }
 
@@ -394,6 +402,7 @@ export class MenuItem {
      */
     setEnabled(enabled:boolean):MenuItem {
         this.mEnable = enabled;
+        this.mMenu.onItemsChanged(false);
         return this;
     }
 
@@ -456,6 +465,10 @@ export class MenuItem {
      */
     setActionView(view:View):MenuItem {
         this.mActionView = view;
+        if (view != null && view.getId() == View.NO_ID && this.mId > 0) {
+            view.setId(this.mId + '');
+        }
+        this.mMenu.onItemsChanged(true);
         return this;
     }
 
@@ -471,6 +484,155 @@ export class MenuItem {
         return this.mActionView;
     }
 
+    /**
+     * Sets how this item should display in the presence of an Action Bar.
+     * The parameter actionEnum is a flag set. One of {@link #SHOW_AS_ACTION_ALWAYS},
+     * {@link #SHOW_AS_ACTION_IF_ROOM}, or {@link #SHOW_AS_ACTION_NEVER} should
+     * be used, and you may optionally OR the value with {@link #SHOW_AS_ACTION_WITH_TEXT}.
+     * SHOW_AS_ACTION_WITH_TEXT requests that when the item is shown as an action,
+     * it should be shown with a text label.
+     *
+     * @param actionEnum How the item should display. One of
+     * {@link #SHOW_AS_ACTION_ALWAYS}, {@link #SHOW_AS_ACTION_IF_ROOM}, or
+     * {@link #SHOW_AS_ACTION_NEVER}. SHOW_AS_ACTION_NEVER is the default.
+     *
+     * @see android.app.ActionBar
+     * @see #setActionView(View)
+     */
+    setShowAsAction(actionEnum:number):void  {
+        switch(actionEnum & MenuItem.SHOW_AS_ACTION_MASK) {
+            case MenuItem.SHOW_AS_ACTION_ALWAYS:
+            case MenuItem.SHOW_AS_ACTION_IF_ROOM:
+            case MenuItem.SHOW_AS_ACTION_NEVER:
+                // Looks good!
+                break;
+            default:
+                // Mutually exclusive options selected!
+                throw Error(`new IllegalArgumentException("SHOW_AS_ACTION_ALWAYS, SHOW_AS_ACTION_IF_ROOM," + " and SHOW_AS_ACTION_NEVER are mutually exclusive.")`);
+        }
+        this.mShowAsAction = actionEnum;
+        this.mMenu.onItemsChanged(true);
+    }
+
+    /**
+     * Sets how this item should display in the presence of an Action Bar.
+     * Same as {@link #setShowAsAction(int)}, but returns this item so additional
+     * setters can be called.
+     *
+     * @param actionEnum How the item should display.
+     * @return This MenuItem instance for call chaining.
+     */
+    setShowAsActionFlags(actionEnum:number):MenuItem  {
+        this.setShowAsAction(actionEnum);
+        return this;
+    }
+
+    requiresActionButton():boolean  {
+        return (this.mShowAsAction & MenuItem.SHOW_AS_ACTION_ALWAYS) == MenuItem.SHOW_AS_ACTION_ALWAYS;
+    }
+
+    requestsActionButton():boolean  {
+        return (this.mShowAsAction & MenuItem.SHOW_AS_ACTION_IF_ROOM) == MenuItem.SHOW_AS_ACTION_IF_ROOM;
+    }
+
+    showsTextAsAction():boolean  {
+        return (this.mShowAsAction & MenuItem.SHOW_AS_ACTION_WITH_TEXT) == MenuItem.SHOW_AS_ACTION_WITH_TEXT;
+    }
+
+    /**
+     * @return Whether this item is currently presented as an action button,
+     *         as decided by the last layout of the menu's action items.
+     */
+    isActionButton():boolean  {
+        return this.mIsActionButton;
+    }
+
+    setIsActionButton(isActionButton:boolean):void  {
+        this.mIsActionButton = isActionButton;
+    }
+
+    hasCollapsibleActionView():boolean  {
+        return (this.mShowAsAction & MenuItem.SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW) != 0 && this.mActionView != null;
+    }
+
+    /**
+     * Expand the action view associated with this menu item.
+     * The menu item must have an action view set, as well as
+     * the showAsAction flag {@link #SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW}.
+     * If a listener has been set using {@link #setOnActionExpandListener(OnActionExpandListener)}
+     * it will have its {@link OnActionExpandListener#onMenuItemActionExpand(MenuItem)}
+     * method invoked. The listener may return false from this method to prevent expanding
+     * the action view.
+     *
+     * @return true if the action view was expanded, false otherwise.
+     */
+    expandActionView():boolean  {
+        if (!this.hasCollapsibleActionView()) {
+            return false;
+        }
+        if (this.mOnActionExpandListener == null || this.mOnActionExpandListener.onMenuItemActionExpand(this)) {
+            return this.mMenu.expandItemActionView(this);
+        }
+        return false;
+    }
+
+    /**
+     * Collapse the action view associated with this menu item.
+     * The menu item must have an action view set, as well as the showAsAction flags
+     * {@link #SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW}. If a listener has been set using
+     * {@link #setOnActionExpandListener(OnActionExpandListener)} it will have its
+     * {@link OnActionExpandListener#onMenuItemActionCollapse(MenuItem)} method invoked.
+     * The listener may return false from this method to prevent collapsing the action view.
+     *
+     * @return true if the action view was collapsed, false otherwise.
+     */
+    collapseActionView():boolean  {
+        if ((this.mShowAsAction & MenuItem.SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW) == 0) {
+            return false;
+        }
+        if (this.mActionView == null) {
+            // We're already collapsed if we have no action view.
+            return true;
+        }
+        if (this.mOnActionExpandListener == null || this.mOnActionExpandListener.onMenuItemActionCollapse(this)) {
+            return this.mMenu.collapseItemActionView(this);
+        }
+        return false;
+    }
+
+    /**
+     * Returns true if this menu item's action view has been expanded.
+     *
+     * @return true if the item's action view is expanded, false otherwise.
+     *
+     * @see #expandActionView()
+     * @see #collapseActionView()
+     * @see #SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW
+     * @see OnActionExpandListener
+     */
+    isActionViewExpanded():boolean  {
+        return this.mIsActionViewExpanded;
+    }
+
+    setActionViewExpanded(isExpanded:boolean):void  {
+        this.mIsActionViewExpanded = isExpanded;
+        this.mMenu.onItemsChanged(false);
+    }
+
+    /**
+     * Set an {@link OnActionExpandListener} on this menu item to be notified when
+     * the associated action view is expanded or collapsed. The menu item must
+     * be configured to expand or collapse its action view using the flag
+     * {@link #SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW}.
+     *
+     * @param listener Listener that will respond to expand/collapse events
+     * @return This menu item instance for call chaining
+     */
+    setOnActionExpandListener(listener:MenuItem.OnActionExpandListener):MenuItem  {
+        this.mOnActionExpandListener = listener;
+        return this;
+    }
+
 
     /**
      * Invokes the item by calling various listeners or callbacks.
@@ -504,6 +666,34 @@ export class MenuItem {
 }
 
 export module MenuItem{
+/*
+ * These should be kept in sync with attrs.xml enum constants for showAsAction
+ */
+/** Never show this item as a button in an Action Bar. */
+export var SHOW_AS_ACTION_NEVER:number = 0;
+/** Show this item as a button in an Action Bar if the system decides there is room for it. */
+export var SHOW_AS_ACTION_IF_ROOM:number = 1;
+/**
+ * Always show this item as a button in an Action Bar.
+ * Use sparingly! If too many items are set to always show in the Action Bar it can
+ * crowd the Action Bar and degrade the user experience on devices with smaller screens.
+ * A good rule of thumb is to have no more than 2 items set to always show at a time.
+ */
+export var SHOW_AS_ACTION_ALWAYS:number = 2;
+/**
+ * When this item is in the action bar, always show it with a text label even if
+ * it also has an icon specified.
+ */
+export var SHOW_AS_ACTION_WITH_TEXT:number = 4;
+/**
+ * This item's action view collapses to a normal menu item.
+ * When expanded, the action view temporarily takes over
+ * a larger segment of its container.
+ */
+export var SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW:number = 8;
+/** @hide */
+export var SHOW_AS_ACTION_MASK:number = 0x00000003;
+
 /**
      * Interface definition for a callback to be invoked when a menu item is
      * clicked.
@@ -525,6 +715,34 @@ export interface OnMenuItemClickListener {
          */
     onMenuItemClick(item:MenuItem):boolean ;
 }
+
+/**
+ * Interface definition for a callback to be invoked when a menu item
+ * marked with {@link MenuItem#SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW} is
+ * expanded or collapsed.
+ *
+ * @see MenuItem#expandActionView()
+ * @see MenuItem#collapseActionView()
+ * @see MenuItem#setShowAsActionFlags(int)
+ */
+export interface OnActionExpandListener {
+
+    /**
+     * Called when a menu item with {@link MenuItem#SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW}
+     * is expanded.
+     * @param item Item that was expanded
+     * @return true if the item should expand, false if expansion should be suppressed.
+     */
+    onMenuItemActionExpand(item:MenuItem):boolean ;
+
+    /**
+     * Called when a menu item with {@link MenuItem#SHOW_AS_ACTION_COLLAPSE_ACTION_VIEW}
+     * is collapsed.
+     * @param item Item that was collapsed
+     * @return true if the item should collapse, false if collapsing should be suppressed.
+     */
+    onMenuItemActionCollapse(item:MenuItem):boolean ;
+}
 }
 
 }
\ No newline at end of file
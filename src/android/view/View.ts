@@ -49,6 +49,7 @@
 ///<reference path="../R/attr.ts"/>
 ///<reference path="animation/Animation.ts"/>
 ///<reference path="animation/Transformation.ts"/>
+///<reference path="ViewPropertyAnimator.ts"/>
 
 
 module android.view {
@@ -143,6 +144,7 @@ module android.view {
         static PFLAG3_IS_LAID_OUT = 0x4;
         static PFLAG3_MEASURE_NEEDED_BEFORE_LAYOUT = 0x8;
         static PFLAG3_CALLED_SUPER = 0x10;
+        static PFLAG3_NESTED_SCROLLING_ENABLED = 0x80;
 
         private static NOT_FOCUSABLE = 0x00000000;
         private static FOCUSABLE = 0x00000001;
@@ -154,6 +156,19 @@ module android.view {
         static OVER_SCROLL_IF_CONTENT_SCROLLS = 1;
         static OVER_SCROLL_NEVER = 2;
 
+        /**
+         * Indicates no axis of view scrolling.
+         */
+        static SCROLL_AXIS_NONE = 0;
+        /**
+         * Indicates scrolling along the horizontal axis.
+         */
+        static SCROLL_AXIS_HORIZONTAL = 1 << 0;
+        /**
+         * Indicates scrolling along the vertical axis.
+         */
+        static SCROLL_AXIS_VERTICAL = 1 << 1;
+
         static MEASURED_SIZE_MASK                  = 0x00ffffff;
         static MEASURED_STATE_MASK                 = 0xff000000;
         static MEASURED_HEIGHT_STATE_SHIFT         = 16;
@@ -175,6 +190,10 @@ module android.view {
         static SCROLLBARS_VERTICAL = 0x00000200;
         static SCROLLBARS_MASK = 0x00000300;
 
+        static SCROLLBAR_POSITION_DEFAULT = 0;
+        static SCROLLBAR_POSITION_LEFT = 1;
+        static SCROLLBAR_POSITION_RIGHT = 2;
+
         static FOCUSABLES_ALL = 0x00000000;
         static FOCUSABLES_TOUCH_MODE = 0x00000001;
         static FOCUS_BACKWARD = 0x00000001;
@@ -738,10 +757,18 @@ module android.view {
         private mPrivateFlags2 = 0;
         private mPrivateFlags3 = 0;
 
+        private mNestedScrollingParent:ViewParent;
+        private mTempNestedScrollConsumed:number[];
+
         private mContext:Context;
 
         protected mCurrentAnimation:Animation = null;
 
+        /**
+         * The animator used to animate this view's properties, created lazily by {@link #animate()}.
+         */
+        private mAnimator:ViewPropertyAnimator = null;
+
         private mOldWidthMeasureSpec = Number.MIN_SAFE_INTEGER;
         private mOldHeightMeasureSpec = Number.MIN_SAFE_INTEGER;
         private mMeasuredWidth = 0;
@@ -791,6 +818,7 @@ module android.view {
 
 
         private mOverlay:ViewOverlay;
+        private mVerticalScrollbarPosition = 0;
         private mWindowAttachCount=0;
         private mTransientStateCount = 0;
         private mListenerInfo:View.ListenerInfo;
@@ -1058,6 +1086,11 @@ module android.view {
                 if(scrollMode===undefined) scrollMode = View.OVER_SCROLL_IF_CONTENT_SCROLLS;
                 this.setOverScrollMode(scrollMode);
             }),
+            a.addAttr('nestedScrollingEnabled', (value)=>{
+                this.setNestedScrollingEnabled(a.parseBoolean(value, false));
+            }, ()=>{
+                return this.isNestedScrollingEnabled();
+            }),
             a.addAttr('layerType', (value)=>{
                 if((value+'').toLowerCase() == 'software'){
                     this.setLayerType(View.LAYER_TYPE_SOFTWARE);
@@ -1430,8 +1463,9 @@ module android.view {
                 info.mMatrixDirty = false;
                 info.mMatrixIsIdentity = info.mMatrix.isIdentity();
                 info.mInverseMatrixDirty = true;
+                // only sync when recomputed: _syncMatrixToElement() calls back into getMatrix()
+                this._syncMatrixToElement();
             }
-            this._syncMatrixToElement();
         }
 
         ///**
@@ -4255,6 +4289,19 @@ module android.view {
             this.requestLayout();
         }
 
+        /**
+         * This method returns a ViewPropertyAnimator object, which can be used to animate
+         * specific properties on this View.
+         *
+         * @return ViewPropertyAnimator The ViewPropertyAnimator associated with this View.
+         */
+        animate():ViewPropertyAnimator  {
+            if (this.mAnimator == null) {
+                this.mAnimator = new ViewPropertyAnimator(this);
+            }
+            return this.mAnimator;
+        }
+
         /**
          * Get the animation currently associated with this view.
          *
@@ -5705,6 +5752,289 @@ module android.view {
             }
             this.mOverScrollMode = overScrollMode;
         }
+
+        /**
+         * Enable or disable nested scrolling for this view.
+         *
+         * <p>If this property is set to true the view will be permitted to initiate nested
+         * scrolling operations with a compatible parent view in the current hierarchy. If this
+         * view does not implement nested scrolling this will have no effect. Disabling nested scrolling
+         * while a nested scroll is in progress has the effect of {@link #stopNestedScroll() stopping}
+         * the nested scroll.</p>
+         *
+         * @param enabled true to enable nested scrolling, false to disable
+         *
+         * @see #isNestedScrollingEnabled()
+         */
+        setNestedScrollingEnabled(enabled:boolean):void {
+            if (enabled) {
+                this.mPrivateFlags3 |= View.PFLAG3_NESTED_SCROLLING_ENABLED;
+            } else {
+                this.stopNestedScroll();
+                this.mPrivateFlags3 &= ~View.PFLAG3_NESTED_SCROLLING_ENABLED;
+            }
+        }
+
+        /**
+         * Returns true if nested scrolling is enabled for this view.
+         *
+         * <p>If nested scrolling is enabled and this View class implementation supports it,
+         * this view will act as a nested scrolling child view when applicable, forwarding data
+         * about the scroll operation in progress to a compatible and cooperating nested scrolling
+         * parent.</p>
+         *
+         * @return true if nested scrolling is enabled
+         *
+         * @see #setNestedScrollingEnabled(boolean)
+         */
+        isNestedScrollingEnabled():boolean {
+            return (this.mPrivateFlags3 & View.PFLAG3_NESTED_SCROLLING_ENABLED) ==
+                View.PFLAG3_NESTED_SCROLLING_ENABLED;
+        }
+
+        /**
+         * Begin a nestable scroll operation along the given axes.
+         *
+         * <p>A view starting a nested scroll promises to abide by the following contract:</p>
+         *
+         * <p>The view will call startNestedScroll upon initiating a scroll operation. In the case
+         * of a touch scroll this corresponds to the initial {@link MotionEvent#ACTION_DOWN}.
+         * In the case of touch scrolling the nested scroll will be terminated automatically in
+         * the same manner as {@link ViewParent#requestDisallowInterceptTouchEvent(boolean)}.
+         * In the event of programmatic scrolling the caller must explicitly call
+         * {@link #stopNestedScroll()} to indicate the end of the nested scroll.</p>
+         *
+         * <p>If startNestedScroll returns true, a cooperative parent was found.
+         * If it returns false the caller may ignore the rest of this contract until the next scroll.
+         * Calling startNestedScroll while a nested scroll is already in progress will return true.</p>
+         *
+         * <p>At each incremental step of the scroll the caller should invoke
+         * {@link #dispatchNestedPreScroll(int, int, int[], int[]) dispatchNestedPreScroll}
+         * once it has calculated the requested scrolling delta. If it returns true the nested scrolling
+         * parent at least partially consumed the scroll and the caller should adjust the amount it
+         * scrolls by.</p>
+         *
+         * <p>After applying the remainder of the scroll delta the caller should invoke
+         * {@link #dispatchNestedScroll(int, int, int, int, int[]) dispatchNestedScroll}, passing
+         * both the delta consumed and the delta unconsumed. A nested scrolling parent may treat
+         * these values differently. See {@link ViewParent#onNestedScroll(View, int, int, int, int)}.
+         * </p>
+         *
+         * @param axes Flags consisting of a combination of {@link #SCROLL_AXIS_HORIZONTAL} and/or
+         *             {@link #SCROLL_AXIS_VERTICAL}.
+         * @return true if a cooperative parent was found and nested scrolling has been enabled for
+         *         the current gesture.
+         *
+         * @see #stopNestedScroll()
+         * @see #dispatchNestedPreScroll(int, int, int[], int[])
+         * @see #dispatchNestedScroll(int, int, int, int, int[])
+         */
+        startNestedScroll(axes:number):boolean {
+            if (this.hasNestedScrollingParent()) {
+                // Already in progress
+                return true;
+            }
+            if (this.isNestedScrollingEnabled()) {
+                let p:ViewParent = this.getParent();
+                let child:View = this;
+                while (p != null) {
+                    try {
+                        if (p.onStartNestedScroll(child, this, axes)) {
+                            this.mNestedScrollingParent = p;
+                            p.onNestedScrollAccepted(child, this, axes);
+                            return true;
+                        }
+                    } catch (e) {
+                        Log.e(View.VIEW_LOG_TAG, "ViewParent " + p + " does not implement interface " +
+                            "method onStartNestedScroll", e);
+                        // Allow the search upward to continue
+                    }
+                    if (p instanceof View) {
+                        child = <View><any>p;
+                    }
+                    p = p.getParent();
+                }
+            }
+            return false;
+        }
+
+        /**
+         * Stop a nested scroll in progress.
+         *
+         * <p>Calling this method when a nested scroll is not currently in progress is harmless.</p>
+         *
+         * @see #startNestedScroll(int)
+         */
+        stopNestedScroll():void {
+            if (this.mNestedScrollingParent != null) {
+                this.mNestedScrollingParent.onStopNestedScroll(this);
+                this.mNestedScrollingParent = null;
+            }
+        }
+
+        /**
+         * Returns true if this view has a nested scrolling parent.
+         *
+         * <p>The presence of a nested scrolling parent indicates that this view has initiated
+         * a nested scroll and it was accepted by an ancestor view further up the view hierarchy.</p>
+         *
+         * @return whether this view has a nested scrolling parent
+         */
+        hasNestedScrollingParent():boolean {
+            return this.mNestedScrollingParent != null;
+        }
+
+        /**
+         * Dispatch one step of a nested scroll in progress.
+         *
+         * <p>Implementations of views that support nested scrolling should call this to report
+         * info about a scroll in progress to the current nested scrolling parent. If a nested scroll
+         * is not currently in progress or nested scrolling is not
+         * {@link #isNestedScrollingEnabled() enabled} for this view this method does nothing.</p>
+         *
+         * <p>Compatible View implementations should also call
+         * {@link #dispatchNestedPreScroll(int, int, int[], int[]) dispatchNestedPreScroll} before
+         * consuming a component of the scroll event themselves.</p>
+         *
+         * @param dxConsumed Horizontal distance in pixels consumed by this view during this scroll step
+         * @param dyConsumed Vertical distance in pixels consumed by this view during this scroll step
+         * @param dxUnconsumed Horizontal scroll distance in pixels not consumed by this view
+         * @param dyUnconsumed Horizontal scroll distance in pixels not consumed by this view
+         * @param offsetInWindow Optional. If not null, on return this will contain the offset
+         *                       in local view coordinates of this view from before this operation
+         *                       to after it completes. View implementations may use this to adjust
+         *                       expected input coordinate tracking.
+         * @return true if the event was dispatched, false if it could not be dispatched.
+         * @see #dispatchNestedPreScroll(int, int, int[], int[])
+         */
+        dispatchNestedScroll(dxConsumed:number, dyConsumed:number, dxUnconsumed:number, dyUnconsumed:number,
+                             offsetInWindow:number[]):boolean {
+            if (this.isNestedScrollingEnabled() && this.mNestedScrollingParent != null) {
+                if (dxConsumed != 0 || dyConsumed != 0 || dxUnconsumed != 0 || dyUnconsumed != 0) {
+                    let startX = 0;
+                    let startY = 0;
+                    if (offsetInWindow != null) {
+                        this.getLocationInWindow(offsetInWindow);
+                        startX = offsetInWindow[0];
+                        startY = offsetInWindow[1];
+                    }
+
+                    this.mNestedScrollingParent.onNestedScroll(this, dxConsumed, dyConsumed,
+                        dxUnconsumed, dyUnconsumed);
+
+                    if (offsetInWindow != null) {
+                        this.getLocationInWindow(offsetInWindow);
+                        offsetInWindow[0] -= startX;
+                        offsetInWindow[1] -= startY;
+                    }
+                    return true;
+                } else if (offsetInWindow != null) {
+                    // No motion, no dispatch. Keep offsetInWindow up to date.
+                    offsetInWindow[0] = 0;
+                    offsetInWindow[1] = 0;
+                }
+            }
+            return false;
+        }
+
+        /**
+         * Dispatch one step of a nested scroll in progress before this view consumes any portion of it.
+         *
+         * <p>Nested pre-scroll events are to nested scroll events what touch intercept is to touch.
+         * <code>dispatchNestedPreScroll</code> offers an opportunity for the parent view in a nested
+         * scrolling operation to consume some or all of the scroll operation before the child view
+         * consumes it.</p>
+         *
+         * @param dx Horizontal scroll distance in pixels
+         * @param dy Vertical scroll distance in pixels
+         * @param consumed Output. If not null, consumed[0] will contain the consumed component of dx
+         *                 and consumed[1] the consumed dy.
+         * @param offsetInWindow Optional. If not null, on return this will contain the offset
+         *                       in local view coordinates of this view from before this operation
+         *                       to after it completes. View implementations may use this to adjust
+         *                       expected input coordinate tracking.
+         * @return true if the parent consumed some or all of the scroll delta
+         * @see #dispatchNestedScroll(int, int, int, int, int[])
+         */
+        dispatchNestedPreScroll(dx:number, dy:number, consumed:number[], offsetInWindow:number[]):boolean {
+            if (this.isNestedScrollingEnabled() && this.mNestedScrollingParent != null) {
+                if (dx != 0 || dy != 0) {
+                    let startX = 0;
+                    let startY = 0;
+                    if (offsetInWindow != null) {
+                        this.getLocationInWindow(offsetInWindow);
+                        startX = offsetInWindow[0];
+                        startY = offsetInWindow[1];
+                    }
+
+                    if (consumed == null) {
+                        if (this.mTempNestedScrollConsumed == null) {
+                            this.mTempNestedScrollConsumed = [0, 0];
+                        }
+                        consumed = this.mTempNestedScrollConsumed;
+                    }
+                    consumed[0] = 0;
+                    consumed[1] = 0;
+                    this.mNestedScrollingParent.onNestedPreScroll(this, dx, dy, consumed);
+
+                    if (offsetInWindow != null) {
+                        this.getLocationInWindow(offsetInWindow);
+                        offsetInWindow[0] -= startX;
+                        offsetInWindow[1] -= startY;
+                    }
+                    return consumed[0] != 0 || consumed[1] != 0;
+                } else if (offsetInWindow != null) {
+                    offsetInWindow[0] = 0;
+                    offsetInWindow[1] = 0;
+                }
+            }
+            return false;
+        }
+
+        /**
+         * Dispatch a fling to a nested scrolling parent.
+         *
+         * <p>This method should be used to indicate that a nested scrolling child has detected
+         * suitable conditions for a fling. Generally this means that a touch scroll has ended with a
+         * {@link VelocityTracker velocity} in the direction of scrolling that meets or exceeds
+         * the {@link ViewConfiguration#getScaledMinimumFlingVelocity() minimum fling velocity}
+         * along a scrollable axis.</p>
+         *
+         * <p>If a nested scrolling child view would normally fling but it is at the edge of
+         * its own content, it can use this method to delegate the fling to its nested scrolling
+         * parent instead. The parent may optionally consume the fling or observe a child fling.</p>
+         *
+         * @param velocityX Horizontal fling velocity in pixels per second
+         * @param velocityY Vertical fling velocity in pixels per second
+         * @param consumed true if the child consumed the fling, false otherwise
+         * @return true if the nested scrolling parent consumed or otherwise reacted to the fling
+         */
+        dispatchNestedFling(velocityX:number, velocityY:number, consumed:boolean):boolean {
+            if (this.isNestedScrollingEnabled() && this.mNestedScrollingParent != null) {
+                return this.mNestedScrollingParent.onNestedFling(this, velocityX, velocityY, consumed);
+            }
+            return false;
+        }
+
+        /**
+         * Dispatch a fling to a nested scrolling parent before it is processed by this view.
+         *
+         * <p>Nested pre-fling events are to nested fling events what touch intercept is to touch
+         * and what nested pre-scroll is to nested scroll. <code>dispatchNestedPreFling</code>
+         * offsets an opportunity for the parent view in a nested fling to fully consume the fling
+         * before the child view consumes it. If this method returns <code>true</code>, a nested
+         * parent view consumed the fling and this view should not scroll as a result.</p>
+         *
+         * @param velocityX Horizontal fling velocity in pixels per second
+         * @param velocityY Vertical fling velocity in pixels per second
+         * @return true if a nested scrolling parent consumed the fling
+         */
+        dispatchNestedPreFling(velocityX:number, velocityY:number):boolean {
+            if (this.isNestedScrollingEnabled() && this.mNestedScrollingParent != null) {
+                return this.mNestedScrollingParent.onNestedPreFling(this, velocityX, velocityY);
+            }
+            return false;
+        }
         getVerticalScrollFactor():number {
             if (this.mVerticalScrollFactor == 0) {
                 this.mVerticalScrollFactor = Resources.getDisplayMetrics().density * 1;
@@ -5875,7 +6205,11 @@ module android.view {
             }
         }
         setVerticalScrollbarPosition(position:number){
-            //scrollbar position not impl
+            //scrollbar position not impl, only kept for the fast scroller
+            this.mVerticalScrollbarPosition = position;
+        }
+        getVerticalScrollbarPosition():number {
+            return this.mVerticalScrollbarPosition;
         }
         setHorizontalScrollbarPosition(position:number){
             //scrollbar position not impl
@@ -6136,6 +6470,7 @@ module android.view {
             this.mPrivateFlags3 &= ~View.PFLAG3_IS_LAID_OUT;
 
             this.removeUnsetPressCallback();
+            this.stopNestedScroll();
             this.removeLongPressCallback();
             this.removePerformClickCallback();
 
@@ -18,6 +18,8 @@
 ///<reference path="../../java/lang/Integer.ts"/>
 ///<reference path="animation/Animation.ts"/>
 ///<reference path="animation/Transformation.ts"/>
+///<reference path="animation/LayoutAnimationController.ts"/>
+///<reference path="../animation/LayoutTransition.ts"/>
 
 
 
@@ -36,6 +38,8 @@ module android.view {
     import Integer = java.lang.Integer;
     import Animation = animation.Animation;
     import Transformation = animation.Transformation;
+    import LayoutAnimationController = animation.LayoutAnimationController;
+    import LayoutTransition = android.animation.LayoutTransition;
 
     export abstract class ViewGroup extends View implements ViewParent {
         static FLAG_CLIP_CHILDREN = 0x1;
@@ -134,6 +138,19 @@ module android.view {
         private mLayoutCalledWhileSuppressed = false;
         private mChildCountWithTransientState = 0;
 
+        // Layout animation
+        private mLayoutAnimationController:LayoutAnimationController;
+        private mAnimationListener:Animation.AnimationListener;
+
+        // The layout transition associated with this ViewGroup
+        private mTransition:LayoutTransition;
+        // Views which are being removed from this ViewGroup but are still animating out
+        private mTransitioningViews:ArrayList<View>;
+        // Views which are hidden (not removed) but are still animating out
+        private mVisibilityChangingChildren:ArrayList<View>;
+
+        private mNestedScrollAxes = 0;
+
         constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle?){
             super(context, bindElement, defStyle);
             this.initViewGroup();
@@ -164,8 +181,10 @@ module android.view {
             a.addAttr('alwaysDrawnWithCache', (value)=>{
                 this.setAlwaysDrawnWithCacheEnabled(a.parseBoolean(value, true));
             });
-            //a.addAttr('layoutAnimation', (value)=>{//TODO when layout support
-            //});
+            a.addAttr('layoutAnimation', (value)=>{
+                let animation = a.parseAnimation(value);
+                if(animation) this.setLayoutAnimation(new LayoutAnimationController(animation));
+            });
             a.addAttr('descendantFocusability', (value)=>{
                 if(value == 'beforeDescendants') this.setDescendantFocusability(ViewGroup.FOCUS_BEFORE_DESCENDANTS);
                 else if(value == 'afterDescendants') this.setDescendantFocusability(ViewGroup.FOCUS_AFTER_DESCENDANTS);
@@ -174,8 +193,10 @@ module android.view {
             a.addAttr('splitMotionEvents', (value)=>{
                 this.setMotionEventSplittingEnabled(a.parseBoolean(value, false));
             });
-            //a.addAttr('animateLayoutChanges', (value)=>{//TODO when layout transition support
-            //});
+            a.addAttr('animateLayoutChanges', (value)=>{
+                if(a.parseBoolean(value, false)) this.setLayoutTransition(new LayoutTransition());
+                else this.setLayoutTransition(null);
+            });
             //a.addAttr('layoutMode', (value)=>{//TODO when more layout mode support
             //});
         }
@@ -538,11 +559,21 @@ module android.view {
 
         addViewInner(child:View, index:number, params:ViewGroup.LayoutParams, preventRequestLayout:boolean) {
 
+            if (this.mTransition != null) {
+                // Don't prevent other add transitions from completing, but cancel remove
+                // transitions to let them complete the process before we add to the container
+                this.mTransition.cancel(LayoutTransition.DISAPPEARING);
+            }
+
             if (child.getParent() != null) {
                 throw new Error("The specified child already has a parent. " +
                     "You must call removeView() on the child's parent first.");
             }
 
+            if (this.mTransition != null) {
+                this.mTransition.addChild(this, child);
+            }
+
             if (!this.checkLayoutParams(params)) {
                 params = this.generateLayoutParams(params);
             }
@@ -684,6 +715,10 @@ module android.view {
             for (let i = start; i < end; i++) {
                 const view = children[i];
 
+                if (this.mTransition != null) {
+                    this.mTransition.removeChild(this, view);
+                }
+
                 if (view == focused) {
                     view.unFocus();
                     clearChildFocus = true;
@@ -693,8 +728,7 @@ module android.view {
                 //this.cancelHoverTarget(view);//TODO when hover ok
 
                 if (view.getAnimation() != null
-                //    ||(mTransitioningViews != null && mTransitioningViews.contains(view)) //TODO when Transition ok
-                ){
+                    || (this.mTransitioningViews != null && this.mTransitioningViews.contains(view))) {
                     this.addDisappearingView(view);
                 } else if (detach) {
                     view.dispatchDetachedFromWindow();
@@ -758,9 +792,9 @@ module android.view {
          * @see #detachViewFromParent(int)
          */
         removeDetachedView(child:View, animate:boolean):void  {
-            //if (this.mTransition != null) {
-            //    this.mTransition.removeChild(this, child);
-            //}
+            if (this.mTransition != null) {
+                this.mTransition.removeChild(this, child);
+            }
             if (child == this.mFocused) {
                 child.clearFocus();
             }
@@ -769,8 +803,7 @@ module android.view {
             //TODO impl when hover
             //this.cancelHoverTarget(child);
             if ((animate && child.getAnimation() != null)
-                //|| (this.mTransitioningViews != null && this.mTransitioningViews.contains(child))
-            ) {
+                || (this.mTransitioningViews != null && this.mTransitioningViews.contains(child))) {
                 this.addDisappearingView(child);
             } else if (child.mAttachInfo != null) {
                 child.dispatchDetachedFromWindow();
@@ -1758,6 +1791,138 @@ module android.view {
             }
         }
 
+        /**
+         * Utility function called by View during invalidation to determine whether a view that
+         * is invisible or gone should still be invalidated because it is being transitioned (and
+         * therefore still needs to be drawn).
+         */
+        isViewTransitioning(view:View):boolean  {
+            return (this.mTransitioningViews != null && this.mTransitioningViews.contains(view));
+        }
+
+        /**
+         * This method tells the ViewGroup that the given View object, which should have this
+         * ViewGroup as its parent,
+         * should be kept around  (re-displayed when the ViewGroup draws its children) even if it
+         * is removed from its parent. This allows animations, such as those used by
+         * {@link android.app.Fragment} and {@link android.animation.LayoutTransition} to animate
+         * the removal of views. A call to this method should always be accompanied by a later call
+         * to {@link #endViewTransition(View)}, such as after an animation on the View has finished,
+         * so that the View finally gets removed.
+         *
+         * @param view The View object to be kept visible even if it gets removed from its parent.
+         */
+        startViewTransition(view:View):void  {
+            if (view.mParent == this) {
+                if (this.mTransitioningViews == null) {
+                    this.mTransitioningViews = new ArrayList<View>();
+                }
+                this.mTransitioningViews.add(view);
+            }
+        }
+
+        /**
+         * This method should always be called following an earlier call to
+         * {@link #startViewTransition(View)}. The given View is finally removed from its parent
+         * and will no longer be displayed. Note that this method does not perform the functionality
+         * of removing a view from its parent; it just discontinues the display of a View that
+         * has previously been removed.
+         *
+         * @return view The View object that has been removed but is being kept around in the visible
+         * hierarchy by an earlier call to {@link #startViewTransition(View)}.
+         */
+        endViewTransition(view:View):void  {
+            if (this.mTransitioningViews != null) {
+                this.mTransitioningViews.remove(view);
+                const disappearingChildren:ArrayList<View> = this.mDisappearingChildren;
+                if (disappearingChildren != null && disappearingChildren.contains(view)) {
+                    disappearingChildren.remove(view);
+                    if (this.mVisibilityChangingChildren != null && this.mVisibilityChangingChildren.contains(view)) {
+                        this.mVisibilityChangingChildren.remove(view);
+                    } else {
+                        if (view.mAttachInfo != null) {
+                            view.dispatchDetachedFromWindow();
+                        }
+                        if (view.mParent != null) {
+                            view.mParent = null;
+                        }
+                    }
+                    this.invalidate();
+                }
+            }
+        }
+
+        private mLayoutTransitionListener:LayoutTransition.TransitionListener = (()=>{
+            const _this = this;
+            class _Inner implements LayoutTransition.TransitionListener {
+                startTransition(transition:LayoutTransition, container:ViewGroup, view:View, transitionType:number):void  {
+                    // We only care about disappearing items, since we need special logic to keep
+                    // those items visible after they've been 'removed'
+                    if (transitionType == LayoutTransition.DISAPPEARING) {
+                        _this.startViewTransition(view);
+                    }
+                }
+
+                endTransition(transition:LayoutTransition, container:ViewGroup, view:View, transitionType:number):void  {
+                    if (_this.mLayoutCalledWhileSuppressed && !transition.isChangingLayout()) {
+                        _this.requestLayout();
+                        _this.mLayoutCalledWhileSuppressed = false;
+                    }
+                    if (transitionType == LayoutTransition.DISAPPEARING && _this.mTransitioningViews != null) {
+                        _this.endViewTransition(view);
+                    }
+                }
+            }
+            return new _Inner();
+        })();
+
+        /**
+         * Sets the LayoutTransition object for this ViewGroup. If the LayoutTransition object is
+         * not null, changes in layout which occur because of children being added to or removed from
+         * the ViewGroup will be animated according to the animations defined in that LayoutTransition
+         * object. By default, the transition object is null (so layout changes are not animated).
+         *
+         * @param transition The LayoutTransition object that will animated changes in layout. A value
+         * of <code>null</code> means no transition will run on layout changes.
+         * @attr ref android.R.styleable#ViewGroup_animateLayoutChanges
+         */
+        setLayoutTransition(transition:LayoutTransition):void  {
+            if (this.mTransition != null) {
+                this.mTransition.removeTransitionListener(this.mLayoutTransitionListener);
+            }
+            this.mTransition = transition;
+            if (this.mTransition != null) {
+                this.mTransition.addTransitionListener(this.mLayoutTransitionListener);
+            }
+        }
+
+        /**
+         * Gets the LayoutTransition object for this ViewGroup. If the LayoutTransition object is
+         * not null, changes in layout which occur because of children being added to or removed from
+         * the ViewGroup will be animated according to the animations defined in that LayoutTransition
+         * object. By default, the transition object is null (so layout changes are not animated).
+         *
+         * @return LayoutTranstion The LayoutTransition object that will animated changes in layout.
+         * A value of <code>null</code> means no transition will run on layout changes.
+         */
+        getLayoutTransition():LayoutTransition  {
+            return this.mTransition;
+        }
+
+        /**
+         * This method is called by LayoutTransition when there are 'changing' animations that need
+         * to start after the layout/setup phase. The request is forwarded to the ViewAncestor, who
+         * starts all pending transitions prior to the drawing phase in the current traversal.
+         *
+         * @param transition The LayoutTransition to be started on the next traversal.
+         */
+        requestTransitionStart(transition:LayoutTransition):void  {
+            let viewAncestor:ViewRootImpl = this.getViewRootImpl();
+            if (viewAncestor != null) {
+                viewAncestor.requestTransitionStart(transition);
+            }
+        }
+
 
 
         dispatchAttachedToWindow(info:View.AttachInfo, visibility:number) {
@@ -1824,21 +1989,22 @@ module android.view {
          * @hide
          */
         onChildVisibilityChanged(child:View, oldVisibility:number, newVisibility:number):void  {
-            //if (this.mTransition != null) {
-            //    if (newVisibility == ViewGroup.VISIBLE) {
-            //        this.mTransition.showChild(this, child, oldVisibility);
-            //    } else {
-            //        this.mTransition.hideChild(this, child, newVisibility);
-            //        if (this.mTransitioningViews != null && this.mTransitioningViews.contains(child)) {
-            //            // and don't need special handling during drawChild()
-            //            if (this.mVisibilityChangingChildren == null) {
-            //                this.mVisibilityChangingChildren = new ArrayList<View>();
-            //            }
-            //            this.mVisibilityChangingChildren.add(child);
-            //            this.addDisappearingView(child);
-            //        }
-            //    }
-            //}
+            if (this.mTransition != null) {
+                if (newVisibility == ViewGroup.VISIBLE) {
+                    this.mTransition.showChild(this, child, oldVisibility);
+                } else {
+                    this.mTransition.hideChild(this, child, newVisibility);
+                    if (this.mTransitioningViews != null && this.mTransitioningViews.contains(child)) {
+                        // Only track this on disappearing views - appearing views are already visible
+                        // and don't need special handling during drawChild()
+                        if (this.mVisibilityChangingChildren == null) {
+                            this.mVisibilityChangingChildren = new ArrayList<View>();
+                        }
+                        this.mVisibilityChangingChildren.add(child);
+                        this.addDisappearingView(child);
+                    }
+                }
+            }
             //// in all cases, for drags
             //if (this.mCurrentDrag != null) {
             //    if (newVisibility == ViewGroup.VISIBLE) {
@@ -1972,7 +2138,10 @@ module android.view {
 
 
         layout(l:number, t:number, r:number, b:number):void {
-            if (!this.mSuppressLayout) {
+            if (!this.mSuppressLayout && (this.mTransition == null || !this.mTransition.isChangingLayout())) {
+                if (this.mTransition != null) {
+                    this.mTransition.layoutChange(this);
+                }
                 super.layout(l, t, r, b);
             } else {
                 // record the fact that we noop'd it; request layout when transition finishes
@@ -1980,9 +2149,126 @@ module android.view {
             }
         }
 
+        /**
+         * Indicates whether the view group has the ability to animate its children
+         * after the first layout.
+         *
+         * @return true if the children can be animated, false otherwise
+         */
         canAnimate():boolean {
-            //layout animation no impl
-            return false;
+            return this.mLayoutAnimationController != null;
+        }
+
+        /**
+         * Runs the layout animation. Calling this method triggers a relayout of
+         * this view group.
+         */
+        startLayoutAnimation():void  {
+            if (this.mLayoutAnimationController != null) {
+                this.mGroupFlags |= ViewGroup.FLAG_RUN_ANIMATION;
+                this.requestLayout();
+            }
+        }
+
+        /**
+         * Schedules the layout animation to be played after the next layout pass
+         * of this view group. This can be used to restart the layout animation
+         * when the content of the view group changes or when the activity is
+         * paused and resumed.
+         */
+        scheduleLayoutAnimation():void  {
+            this.mGroupFlags |= ViewGroup.FLAG_RUN_ANIMATION;
+        }
+
+        /**
+         * Sets the layout animation controller used to animate the group's
+         * children after the first layout.
+         *
+         * @param controller the animation controller
+         */
+        setLayoutAnimation(controller:LayoutAnimationController):void  {
+            this.mLayoutAnimationController = controller;
+            if (this.mLayoutAnimationController != null) {
+                this.mGroupFlags |= ViewGroup.FLAG_RUN_ANIMATION;
+            }
+        }
+
+        /**
+         * Returns the layout animation controller used to animate the group's
+         * children.
+         *
+         * @return the current animation controller
+         */
+        getLayoutAnimation():LayoutAnimationController  {
+            return this.mLayoutAnimationController;
+        }
+
+        /**
+         * Returns the animation listener to which layout animation events are
+         * sent.
+         *
+         * @return an {@link android.view.animation.Animation.AnimationListener}
+         */
+        getLayoutAnimationListener():Animation.AnimationListener  {
+            return this.mAnimationListener;
+        }
+
+        /**
+         * Specifies the animation listener to which layout animation events must
+         * be sent. Only
+         * {@link android.view.animation.Animation.AnimationListener#onAnimationStart(Animation)}
+         * and
+         * {@link android.view.animation.Animation.AnimationListener#onAnimationEnd(Animation)}
+         * are invoked.
+         *
+         * @param animationListener the layout animation listener
+         */
+        setLayoutAnimationListener(animationListener:Animation.AnimationListener):void  {
+            this.mAnimationListener = animationListener;
+        }
+
+        /**
+         * Subclasses should override this method to set layout animation
+         * parameters on the supplied child.
+         *
+         * @param child the child to associate with animation parameters
+         * @param params the child's layout parameters which hold the animation
+         *        parameters
+         * @param index the index of the child in the view group
+         * @param count the number of children in the view group
+         */
+        protected attachLayoutAnimationParameters(child:View, params:ViewGroup.LayoutParams, index:number, count:number):void  {
+            let animationParams:LayoutAnimationController.AnimationParameters = params.layoutAnimationParameters;
+            if (animationParams == null) {
+                animationParams = new LayoutAnimationController.AnimationParameters();
+                params.layoutAnimationParameters = animationParams;
+            }
+            animationParams.count = count;
+            animationParams.index = index;
+        }
+
+        private bindLayoutAnimation(child:View):void  {
+            let a:Animation = this.mLayoutAnimationController.getAnimationForView(child);
+            child.setAnimation(a);
+        }
+
+        private notifyAnimationListener():void  {
+            this.mGroupFlags &= ~ViewGroup.FLAG_NOTIFY_ANIMATION_LISTENER;
+            this.mGroupFlags |= ViewGroup.FLAG_ANIMATION_DONE;
+            if (this.mAnimationListener != null) {
+                this.post({
+                    run: ()=>{
+                        this.mAnimationListener.onAnimationEnd(this.mLayoutAnimationController.getAnimation());
+                    }
+                });
+            }
+            if ((this.mGroupFlags & ViewGroup.FLAG_ANIMATION_CACHE) == ViewGroup.FLAG_ANIMATION_CACHE) {
+                this.mGroupFlags &= ~ViewGroup.FLAG_CHILDREN_DRAWN_WITH_CACHE;
+                if ((this.mPersistentDrawingCache & ViewGroup.PERSISTENT_ANIMATION_CACHE) == 0) {
+                    this.setChildrenDrawingCacheEnabled(false);
+                }
+            }
+            this.invalidate(true);
         }
         protected abstract onLayout(changed:boolean, l:number, t:number, r:number, b:number):void;
 
@@ -2031,38 +2317,37 @@ module android.view {
             let children = this.mChildren;
             let flags = this.mGroupFlags;
 
-            //TODO when layout animation impl
-            //if ((flags & ViewGroup.FLAG_RUN_ANIMATION) != 0 && this.canAnimate()) {
-            //    const cache:boolean = (this.mGroupFlags & ViewGroup.FLAG_ANIMATION_CACHE) == ViewGroup.FLAG_ANIMATION_CACHE;
-            //    const buildCache:boolean = !this.isHardwareAccelerated();
-            //    for (let i:number = 0; i < count; i++) {
-            //        const child:View = children[i];
-            //        if ((child.mViewFlags & ViewGroup.VISIBILITY_MASK) == ViewGroup.VISIBLE) {
-            //            const params:ViewGroup.LayoutParams = child.getLayoutParams();
-            //            this.attachLayoutAnimationParameters(child, params, i, count);
-            //            this.bindLayoutAnimation(child);
-            //            if (cache) {
-            //                child.setDrawingCacheEnabled(true);
-            //                if (buildCache) {
-            //                    child.buildDrawingCache(true);
-            //                }
-            //            }
-            //        }
-            //    }
-            //    const controller:LayoutAnimationController = this.mLayoutAnimationController;
-            //    if (controller.willOverlap()) {
-            //        this.mGroupFlags |= ViewGroup.FLAG_OPTIMIZE_INVALIDATE;
-            //    }
-            //    controller.start();
-            //    this.mGroupFlags &= ~ViewGroup.FLAG_RUN_ANIMATION;
-            //    this.mGroupFlags &= ~ViewGroup.FLAG_ANIMATION_DONE;
-            //    if (cache) {
-            //        this.mGroupFlags |= ViewGroup.FLAG_CHILDREN_DRAWN_WITH_CACHE;
-            //    }
-            //    if (this.mAnimationListener != null) {
-            //        this.mAnimationListener.onAnimationStart(controller.getAnimation());
-            //    }
-            //}
+            if ((flags & ViewGroup.FLAG_RUN_ANIMATION) != 0 && this.canAnimate()) {
+                const cache:boolean = (this.mGroupFlags & ViewGroup.FLAG_ANIMATION_CACHE) == ViewGroup.FLAG_ANIMATION_CACHE;
+                const buildCache:boolean = !this.isHardwareAccelerated();
+                for (let i:number = 0; i < count; i++) {
+                    const child:View = children[i];
+                    if ((child.mViewFlags & ViewGroup.VISIBILITY_MASK) == ViewGroup.VISIBLE) {
+                        const params:ViewGroup.LayoutParams = child.getLayoutParams();
+                        this.attachLayoutAnimationParameters(child, params, i, count);
+                        this.bindLayoutAnimation(child);
+                        if (cache) {
+                            child.setDrawingCacheEnabled(true);
+                            if (buildCache) {
+                                child.buildDrawingCache(true);
+                            }
+                        }
+                    }
+                }
+                const controller:LayoutAnimationController = this.mLayoutAnimationController;
+                if (controller.willOverlap()) {
+                    this.mGroupFlags |= ViewGroup.FLAG_OPTIMIZE_INVALIDATE;
+                }
+                controller.start();
+                this.mGroupFlags &= ~ViewGroup.FLAG_RUN_ANIMATION;
+                this.mGroupFlags &= ~ViewGroup.FLAG_ANIMATION_DONE;
+                if (cache) {
+                    this.mGroupFlags |= ViewGroup.FLAG_CHILDREN_DRAWN_WITH_CACHE;
+                }
+                if (this.mAnimationListener != null) {
+                    this.mAnimationListener.onAnimationStart(controller.getAnimation());
+                }
+            }
 
             let saveCount = 0;
             let clipToPadding = (flags & ViewGroup.CLIP_TO_PADDING_MASK) == ViewGroup.CLIP_TO_PADDING_MASK;
@@ -2115,6 +2400,19 @@ module android.view {
             if ((flags & ViewGroup.FLAG_INVALIDATE_REQUIRED) == ViewGroup.FLAG_INVALIDATE_REQUIRED) {
                 this.invalidate(true);
             }
+
+            if ((flags & ViewGroup.FLAG_ANIMATION_DONE) == 0 && (flags & ViewGroup.FLAG_NOTIFY_ANIMATION_LISTENER) == 0
+                && this.mLayoutAnimationController.isDone() && !more) {
+                // We want to erase the drawing cache and notify the listener after the
+                // next frame is drawn because one extra invalidate() is caused by
+                // drawChild() after the animation is over
+                this.mGroupFlags |= ViewGroup.FLAG_NOTIFY_ANIMATION_LISTENER;
+                this.post({
+                    run: ()=>{
+                        this.notifyAnimationListener();
+                    }
+                });
+            }
         }
 
         protected drawChild(canvas:Canvas, child:View , drawingTime:number):boolean {
@@ -2488,6 +2786,75 @@ module android.view {
             return true;
         }
 
+        /**
+         * @inheritDoc
+         */
+        onStartNestedScroll(child:View, target:View, nestedScrollAxes:number):boolean {
+            return false;
+        }
+
+        /**
+         * @inheritDoc
+         */
+        onNestedScrollAccepted(child:View, target:View, axes:number):void {
+            this.mNestedScrollAxes = axes;
+        }
+
+        /**
+         * @inheritDoc
+         *
+         * <p>The default implementation of onStopNestedScroll calls
+         * {@link #stopNestedScroll()} to halt any recursive nested scrolling in progress.</p>
+         */
+        onStopNestedScroll(child:View):void {
+            // Stop any recursive nested scrolling.
+            this.stopNestedScroll();
+            this.mNestedScrollAxes = 0;
+        }
+
+        /**
+         * @inheritDoc
+         */
+        onNestedScroll(target:View, dxConsumed:number, dyConsumed:number, dxUnconsumed:number, dyUnconsumed:number):void {
+            // Do nothing
+        }
+
+        /**
+         * @inheritDoc
+         */
+        onNestedPreScroll(target:View, dx:number, dy:number, consumed:number[]):void {
+            // Do nothing
+        }
+
+        /**
+         * @inheritDoc
+         */
+        onNestedFling(target:View, velocityX:number, velocityY:number, consumed:boolean):boolean {
+            return false;
+        }
+
+        /**
+         * @inheritDoc
+         */
+        onNestedPreFling(target:View, velocityX:number, velocityY:number):boolean {
+            return false;
+        }
+
+        /**
+         * Return the current axes of nested scrolling for this ViewGroup.
+         *
+         * <p>A ViewGroup returning something other than {@link #SCROLL_AXIS_NONE} is currently
+         * acting as a nested scrolling parent for one or more descendant views in the hierarchy.</p>
+         *
+         * @return Flags indicating the current axes of nested scrolling
+         * @see #SCROLL_AXIS_HORIZONTAL
+         * @see #SCROLL_AXIS_VERTICAL
+         * @see #SCROLL_AXIS_NONE
+         */
+        getNestedScrollAxes():number {
+            return this.mNestedScrollAxes;
+        }
+
         onSetLayoutParams(child:View, layoutParams:ViewGroup.LayoutParams) {
         }
     }
@@ -2546,6 +2913,11 @@ module android.view {
                 this._height = this._heightOrig = <any>value;
             }
 
+            /**
+             * Used to animate layouts.
+             */
+            layoutAnimationParameters:LayoutAnimationController.AnimationParameters;
+
             _measuringParentWidthMeasureSpec = 0;
             _measuringParentHeightMeasureSpec = 0;
             _measuringMeasureSpec:android.util.DisplayMetrics;
@@ -0,0 +1,969 @@
+/*
+ * Copyright (C) 2011 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/animation/Animator.ts"/>
+///<reference path="../../android/animation/ValueAnimator.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+///<reference path="../../java/util/ArrayList.ts"/>
+
+module android.view {
+import Animator = android.animation.Animator;
+import ValueAnimator = android.animation.ValueAnimator;
+import Interpolator = android.view.animation.Interpolator;
+import Runnable = java.lang.Runnable;
+import ArrayList = java.util.ArrayList;
+
+/**
+ * This class enables automatic and optimized animation of select properties on View objects.
+ * If only one or two properties on a View object are being animated, then using an
+ * {@link android.animation.ObjectAnimator} is fine; the property setters called by ObjectAnimator
+ * are well equipped to do the right thing to set the property and invalidate the view
+ * appropriately. But if several properties are animated simultaneously, or if you just want a
+ * more convenient syntax to animate a specific property, then ViewPropertyAnimator might be
+ * more well-suited to the task.
+ *
+ * <p>This class may provide better performance for several simultaneous animations, because
+ * it will optimize invalidate calls to take place only once for several properties instead of each
+ * animated property independently causing its own invalidation. Also, the syntax of using this
+ * class could be easier to use because the caller need only tell the View object which
+ * property to animate, and the value to animate either to or by, and this class handles the
+ * details of configuring the underlying Animator class and starting it.</p>
+ *
+ * <p>This class is not constructed by the caller, but rather by the View whose properties
+ * it will animate. Calls to {@link android.view.View#animate()} will return a reference
+ * to the appropriate ViewPropertyAnimator object for that View.</p>
+ *
+ */
+export class ViewPropertyAnimator {
+
+    /**
+     * The View whose properties are being animated by this class. This is set at
+     * construction time.
+     */
+    mView:View;
+
+    /**
+     * The duration of the underlying Animator object. By default, we don't set the duration
+     * on the Animator and just use its default duration. If the duration is ever set on this
+     * Animator, then we use the duration that it was set to.
+     */
+    private mDuration:number = 0;
+
+    /**
+     * A flag indicating whether the duration has been set on this object. If not, we don't set
+     * the duration on the underlying Animator, but instead just use its default duration.
+     */
+    private mDurationSet:boolean = false;
+
+    /**
+     * The startDelay of the underlying Animator object. By default, we don't set the startDelay
+     * on the Animator and just use its default startDelay. If the startDelay is ever set on this
+     * Animator, then we use the startDelay that it was set to.
+     */
+    private mStartDelay:number = 0;
+
+    /**
+     * A flag indicating whether the startDelay has been set on this object. If not, we don't set
+     * the startDelay on the underlying Animator, but instead just use its default startDelay.
+     */
+    private mStartDelaySet:boolean = false;
+
+    /**
+     * The interpolator of the underlying Animator object. By default, we don't set the interpolator
+     * on the Animator and just use its default interpolator. If the interpolator is ever set on
+     * this Animator, then we use the interpolator that it was set to.
+     */
+    private mInterpolator:Interpolator;
+
+    /**
+     * A flag indicating whether the interpolator has been set on this object. If not, we don't set
+     * the interpolator on the underlying Animator, but instead just use its default interpolator.
+     */
+    private mInterpolatorSet:boolean = false;
+
+    /**
+     * Listener for the lifecycle events of the underlying ValueAnimator object.
+     */
+    mListener:Animator.AnimatorListener = null;
+
+    /**
+     * Listener for the update events of the underlying ValueAnimator object.
+     */
+    mUpdateListener:ValueAnimator.AnimatorUpdateListener = null;
+
+    /**
+     * A lazily-created ValueAnimator used in order to get some default animator properties
+     * (duration, start delay, interpolator, etc.).
+     */
+    private mTempValueAnimator:ValueAnimator;
+
+    /**
+     * This listener is the mechanism by which the underlying Animator causes changes to the
+     * properties currently being animated, as well as the cleanup after an animation is
+     * complete.
+     */
+    private mAnimatorEventListener:ViewPropertyAnimator.AnimatorEventListener = new ViewPropertyAnimator.AnimatorEventListener(this);
+
+    /**
+     * This list holds the properties that have been asked to animate. We allow the caller to
+     * request several animations prior to actually starting the underlying animator. This
+     * enables us to run one single animator to handle several properties in parallel. Each
+     * property is tossed onto the pending list until the animation actually starts (which is
+     * done by posting it onto mView), at which time the pending list is cleared and the properties
+     * on that list are added to the list of properties associated with that animator.
+     */
+    private mPendingAnimations:ArrayList<ViewPropertyAnimator.NameValuesHolder> = new ArrayList<ViewPropertyAnimator.NameValuesHolder>();
+
+    private mPendingOnStartAction:Runnable;
+
+    private mPendingOnEndAction:Runnable;
+
+    /**
+     * Constants used to associate a property being requested and the mechanism used to set
+     * the property (this class calls directly into View to set the properties in question).
+     */
+    static NONE:number = 0x0000;
+
+    static TRANSLATION_X:number = 0x0001;
+
+    static TRANSLATION_Y:number = 0x0002;
+
+    static SCALE_X:number = 0x0004;
+
+    static SCALE_Y:number = 0x0008;
+
+    static ROTATION:number = 0x0010;
+
+    static X:number = 0x0080;
+
+    static Y:number = 0x0100;
+
+    static ALPHA:number = 0x0200;
+
+    static TRANSFORM_MASK:number = ViewPropertyAnimator.TRANSLATION_X | ViewPropertyAnimator.TRANSLATION_Y
+        | ViewPropertyAnimator.SCALE_X | ViewPropertyAnimator.SCALE_Y | ViewPropertyAnimator.ROTATION
+        | ViewPropertyAnimator.X | ViewPropertyAnimator.Y;
+
+    /**
+     * The mechanism by which the user can request several properties that are then animated
+     * together works by posting this Runnable to start the underlying Animator. Every time
+     * a property animation is requested, we cancel any previous postings of the Runnable
+     * and re-post it. This means that we will only ever run the Runnable (and thus start the
+     * underlying animator) after the caller is done setting the properties that should be
+     * animated together.
+     */
+    private mAnimationStarter:Runnable = (()=>{
+        const _this = this;
+        class _Inner implements Runnable {
+            run():void {
+                _this.startAnimation();
+            }
+        }
+        return new _Inner();
+    })();
+
+    /**
+     * This list tracks the list of properties being animated by any particular animator.
+     * In most situations, there would only ever be one animator running at a time. But it is
+     * possible to request some properties to animate together, then while those properties
+     * are animating, to request some other properties to animate together. The way that
+     * works is by having this map associate the group of properties being animated with the
+     * animator handling the animation. On every update event for an Animator, we ask the
+     * map for the associated properties and set them accordingly.
+     */
+    mAnimatorMap:Map<Animator, ViewPropertyAnimator.PropertyBundle> = new Map<Animator, ViewPropertyAnimator.PropertyBundle>();
+
+    mAnimatorOnStartMap:Map<Animator, Runnable>;
+
+    mAnimatorOnEndMap:Map<Animator, Runnable>;
+
+    /**
+     * Constructor, called by View. This is private by design, as the user should only
+     * get a ViewPropertyAnimator by calling View.animate().
+     *
+     * @param view The View associated with this ViewPropertyAnimator
+     */
+    constructor(view:View) {
+        this.mView = view;
+        view.ensureTransformationInfo();
+    }
+
+    /**
+     * Sets the duration for the underlying animator that animates the requested properties.
+     * By default, the animator uses the default value for ValueAnimator. Calling this method
+     * will cause the declared value to be used instead.
+     * @param duration The length of ensuing property animations, in milliseconds. The value
+     * cannot be negative.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    setDuration(duration:number):ViewPropertyAnimator  {
+        if (duration < 0) {
+            throw Error(`new IllegalArgumentException("Animators cannot have negative duration: " + duration)`);
+        }
+        this.mDurationSet = true;
+        this.mDuration = duration;
+        return this;
+    }
+
+    /**
+     * Returns the current duration of property animations. If the duration was set on this
+     * object, that value is returned. Otherwise, the default value of the underlying Animator
+     * is returned.
+     *
+     * @see #setDuration(long)
+     * @return The duration of animations, in milliseconds.
+     */
+    getDuration():number  {
+        if (this.mDurationSet) {
+            return this.mDuration;
+        } else {
+            // Just return the default from ValueAnimator, since that's what we'd get if
+            // the value has not been set otherwise
+            if (this.mTempValueAnimator == null) {
+                this.mTempValueAnimator = new ValueAnimator();
+            }
+            return this.mTempValueAnimator.getDuration();
+        }
+    }
+
+    /**
+     * Returns the current startDelay of property animations. If the startDelay was set on this
+     * object, that value is returned. Otherwise, the default value of the underlying Animator
+     * is returned.
+     *
+     * @see #setStartDelay(long)
+     * @return The startDelay of animations, in milliseconds.
+     */
+    getStartDelay():number  {
+        if (this.mStartDelaySet) {
+            return this.mStartDelay;
+        } else {
+            // Just return the default from ValueAnimator (0), since that's what we'd get if
+            // the value has not been set otherwise
+            return 0;
+        }
+    }
+
+    /**
+     * Sets the startDelay for the underlying animator that animates the requested properties.
+     * By default, the animator uses the default value for ValueAnimator. Calling this method
+     * will cause the declared value to be used instead.
+     * @param startDelay The delay of ensuing property animations, in milliseconds. The value
+     * cannot be negative.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    setStartDelay(startDelay:number):ViewPropertyAnimator  {
+        if (startDelay < 0) {
+            throw Error(`new IllegalArgumentException("Animators cannot have negative start delay: " + startDelay)`);
+        }
+        this.mStartDelaySet = true;
+        this.mStartDelay = startDelay;
+        return this;
+    }
+
+    /**
+     * Sets the interpolator for the underlying animator that animates the requested properties.
+     * By default, the animator uses the default interpolator for ValueAnimator. Calling this method
+     * will cause the declared object to be used instead.
+     *
+     * @param interpolator The TimeInterpolator to be used for ensuing property animations.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    setInterpolator(interpolator:Interpolator):ViewPropertyAnimator  {
+        this.mInterpolatorSet = true;
+        this.mInterpolator = interpolator;
+        return this;
+    }
+
+    /**
+     * Returns the timing interpolator that this animation uses.
+     *
+     * @return The timing interpolator for this animation.
+     */
+    getInterpolator():Interpolator  {
+        if (this.mInterpolatorSet) {
+            return this.mInterpolator;
+        } else {
+            // Just return the default from ValueAnimator, since that's what we'd get if
+            // the value has not been set otherwise
+            if (this.mTempValueAnimator == null) {
+                this.mTempValueAnimator = new ValueAnimator();
+            }
+            return this.mTempValueAnimator.getInterpolator();
+        }
+    }
+
+    /**
+     * Sets a listener for events in the underlying Animators that run the property
+     * animations.
+     *
+     * @see Animator.AnimatorListener
+     *
+     * @param listener The listener to be called with AnimatorListener events. A value of
+     * <code>null</code> removes any existing listener.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    setListener(listener:Animator.AnimatorListener):ViewPropertyAnimator  {
+        this.mListener = listener;
+        return this;
+    }
+
+    /**
+     * Sets a listener for update events in the underlying ValueAnimator that runs
+     * the property animations. Note that the underlying animator is animating between
+     * 0 and 1 (these values are then turned into the actual property values internally
+     * by ViewPropertyAnimator). So the animator cannot give information on the current
+     * values of the properties being animated by this ViewPropertyAnimator, although
+     * the view object itself can be queried to get the current values.
+     *
+     * @see android.animation.ValueAnimator.AnimatorUpdateListener
+     *
+     * @param listener The listener to be called with update events. A value of
+     * <code>null</code> removes any existing listener.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    setUpdateListener(listener:ValueAnimator.AnimatorUpdateListener):ViewPropertyAnimator  {
+        this.mUpdateListener = listener;
+        return this;
+    }
+
+    /**
+     * Starts the currently pending property animations immediately. Calling <code>start()</code>
+     * is optional because all animations start automatically at the next opportunity. However,
+     * if the animations are needed to start immediately and synchronously (not at the time when
+     * the next event is processed by the hierarchy, which is when the animations would begin
+     * otherwise), then this method can be used.
+     */
+    start():void  {
+        this.mView.removeCallbacks(this.mAnimationStarter);
+        this.startAnimation();
+    }
+
+    /**
+     * Cancels all property animations that are currently running or pending.
+     */
+    cancel():void  {
+        if (this.mAnimatorMap.size > 0) {
+            let mAnimatorMapCopy = new Map<Animator, ViewPropertyAnimator.PropertyBundle>(this.mAnimatorMap);
+            for (let runningAnim of mAnimatorMapCopy.keys()) {
+                runningAnim.cancel();
+            }
+        }
+        this.mPendingAnimations.clear();
+        this.mPendingOnStartAction = null;
+        this.mPendingOnEndAction = null;
+        this.mView.removeCallbacks(this.mAnimationStarter);
+    }
+
+    /**
+     * This method will cause the View's <code>x</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    x(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>x</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    xBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>y</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    y(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>y</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    yBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>rotation</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setRotation(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    rotation(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.ROTATION, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>rotation</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setRotation(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    rotationBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.ROTATION, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>translationX</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setTranslationX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    translationX(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.TRANSLATION_X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>translationX</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setTranslationX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    translationXBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.TRANSLATION_X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>translationY</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setTranslationY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    translationY(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.TRANSLATION_Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>translationY</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setTranslationY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    translationYBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.TRANSLATION_Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>scaleX</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setScaleX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    scaleX(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.SCALE_X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>scaleX</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setScaleX(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    scaleXBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.SCALE_X, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>scaleY</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setScaleY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    scaleY(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.SCALE_Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>scaleY</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setScaleY(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    scaleYBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.SCALE_Y, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>alpha</code> property to be animated to the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The value to be animated to.
+     * @see View#setAlpha(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    alpha(value:number):ViewPropertyAnimator  {
+        this.animateProperty(ViewPropertyAnimator.ALPHA, value);
+        return this;
+    }
+
+    /**
+     * This method will cause the View's <code>alpha</code> property to be animated by the
+     * specified value. Animations already running on the property will be canceled.
+     *
+     * @param value The amount to be animated by, as an offset from the current value.
+     * @see View#setAlpha(float)
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    alphaBy(value:number):ViewPropertyAnimator  {
+        this.animatePropertyBy(ViewPropertyAnimator.ALPHA, value);
+        return this;
+    }
+
+    /**
+     * Specifies an action to take place when the next animation runs. If there is a
+     * {@link #setStartDelay(long) startDelay} set on this ViewPropertyAnimator, then the
+     * action will run after that startDelay expires, when the actual animation begins.
+     *
+     * @param runnable The action to run when the next animation starts.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    withStartAction(runnable:Runnable):ViewPropertyAnimator  {
+        this.mPendingOnStartAction = runnable;
+        if (runnable != null && this.mAnimatorOnStartMap == null) {
+            this.mAnimatorOnStartMap = new Map<Animator, Runnable>();
+        }
+        return this;
+    }
+
+    /**
+     * Specifies an action to take place when the next animation ends. The action is only
+     * run if the animation ends normally; if the ViewPropertyAnimator is canceled during
+     * that animation, the runnable will not run.
+     * This method, along with {@link #withStartAction(Runnable)}, is intended to help facilitate
+     * choreographing ViewPropertyAnimator animations with other animations or actions
+     * in the application.
+     *
+     * <p>For example, the following code animates a view to x=200 and then back to 0:</p>
+     * <pre>
+     *     Runnable endAction = new Runnable() {
+     *         public void run() {
+     *             view.animate().x(0);
+     *         }
+     *     };
+     *     view.animate().x(200).withEndAction(endAction);
+     * </pre>
+     *
+     * @param runnable The action to run when the next animation ends.
+     * @return This object, allowing calls to methods in this class to be chained.
+     */
+    withEndAction(runnable:Runnable):ViewPropertyAnimator  {
+        this.mPendingOnEndAction = runnable;
+        if (runnable != null && this.mAnimatorOnEndMap == null) {
+            this.mAnimatorOnEndMap = new Map<Animator, Runnable>();
+        }
+        return this;
+    }
+
+    /**
+     * Starts the underlying Animator for a set of properties. We use a single animator that
+     * simply runs from 0 to 1, and then use that fractional value to set each property
+     * value accordingly.
+     */
+    private startAnimation():void  {
+        let animator:ValueAnimator = ValueAnimator.ofFloat(1.0);
+        let nameValueList:ArrayList<ViewPropertyAnimator.NameValuesHolder> = this.mPendingAnimations.clone();
+        this.mPendingAnimations.clear();
+        let propertyMask:number = 0;
+        let propertyCount:number = nameValueList.size();
+        for (let i:number = 0; i < propertyCount; ++i) {
+            let nameValuesHolder:ViewPropertyAnimator.NameValuesHolder = nameValueList.get(i);
+            propertyMask |= nameValuesHolder.mNameConstant;
+        }
+        this.mAnimatorMap.set(animator, new ViewPropertyAnimator.PropertyBundle(propertyMask, nameValueList));
+        if (this.mPendingOnStartAction != null) {
+            this.mAnimatorOnStartMap.set(animator, this.mPendingOnStartAction);
+            this.mPendingOnStartAction = null;
+        }
+        if (this.mPendingOnEndAction != null) {
+            this.mAnimatorOnEndMap.set(animator, this.mPendingOnEndAction);
+            this.mPendingOnEndAction = null;
+        }
+        animator.addUpdateListener(this.mAnimatorEventListener);
+        animator.addListener(this.mAnimatorEventListener);
+        if (this.mStartDelaySet) {
+            animator.setStartDelay(this.mStartDelay);
+        }
+        if (this.mDurationSet) {
+            animator.setDuration(this.mDuration);
+        }
+        if (this.mInterpolatorSet) {
+            animator.setInterpolator(this.mInterpolator);
+        }
+        animator.start();
+    }
+
+    /**
+     * Utility function, called by the various x(), y(), etc. methods. This stores the
+     * constant name for the property along with the from/delta values that will be used to
+     * calculate and set the property during the animation. This structure is added to the
+     * pending animations, awaiting the eventual start() of the underlying animator. A
+     * Runnable is posted to start the animation, and any pending such Runnable is canceled
+     * (which enables us to end up starting just one animator for all of the properties
+     * specified at one time).
+     *
+     * @param constantName The specifier for the property being animated
+     * @param toValue The value to which the property will animate
+     */
+    private animateProperty(constantName:number, toValue:number):void  {
+        let fromValue:number = this.getValue(constantName);
+        let deltaValue:number = toValue - fromValue;
+        this.animatePropertyWithDelta(constantName, fromValue, deltaValue);
+    }
+
+    /**
+     * Utility function, called by the various xBy(), yBy(), etc. methods. This method is
+     * just like animateProperty(), except the value is an offset from the property's
+     * current value, instead of an absolute "to" value.
+     *
+     * @param constantName The specifier for the property being animated
+     * @param byValue The amount by which the property will change
+     */
+    private animatePropertyBy(constantName:number, byValue:number):void  {
+        let fromValue:number = this.getValue(constantName);
+        this.animatePropertyWithDelta(constantName, fromValue, byValue);
+    }
+
+    /**
+     * Utility function, called by animateProperty() and animatePropertyBy(), which handles the
+     * details of adding a pending animation and posting the request to start the animation.
+     *
+     * @param constantName The specifier for the property being animated
+     * @param startValue The starting value of the property
+     * @param byValue The amount by which the property will change
+     */
+    private animatePropertyWithDelta(constantName:number, startValue:number, byValue:number):void  {
+        // First, cancel any existing animations on this property
+        if (this.mAnimatorMap.size > 0) {
+            let animatorToCancel:Animator = null;
+            for (let [runningAnim, bundle] of this.mAnimatorMap) {
+                if (bundle.cancel(constantName)) {
+                    // property was canceled - cancel the animation if it's now empty
+                    // Note that it's safe to break out here because every new animation
+                    // on a property will cancel a previous animation on that property, so
+                    // there can only ever be one such animation running.
+                    if (bundle.mPropertyMask == ViewPropertyAnimator.NONE) {
+                        // the animation is no longer changing anything - cancel it
+                        animatorToCancel = runningAnim;
+                        break;
+                    }
+                }
+            }
+            if (animatorToCancel != null) {
+                animatorToCancel.cancel();
+            }
+        }
+        let nameValuePair:ViewPropertyAnimator.NameValuesHolder = new ViewPropertyAnimator.NameValuesHolder(constantName, startValue, byValue);
+        this.mPendingAnimations.add(nameValuePair);
+        this.mView.removeCallbacks(this.mAnimationStarter);
+        this.mView.postOnAnimation(this.mAnimationStarter);
+    }
+
+    /**
+     * This method handles setting the property values directly in the View object's fields.
+     * propertyConstant tells it which property should be set, value is the value to set
+     * the property to.
+     *
+     * @param propertyConstant The property to be set
+     * @param value The value to set the property to
+     */
+    setValue(propertyConstant:number, value:number):void  {
+        const info:View.TransformationInfo = this.mView.mTransformationInfo;
+        switch(propertyConstant) {
+            case ViewPropertyAnimator.TRANSLATION_X:
+                info.mTranslationX = value;
+                break;
+            case ViewPropertyAnimator.TRANSLATION_Y:
+                info.mTranslationY = value;
+                break;
+            case ViewPropertyAnimator.ROTATION:
+                info.mRotation = value;
+                break;
+            case ViewPropertyAnimator.SCALE_X:
+                info.mScaleX = value;
+                break;
+            case ViewPropertyAnimator.SCALE_Y:
+                info.mScaleY = value;
+                break;
+            case ViewPropertyAnimator.X:
+                info.mTranslationX = value - this.mView.mLeft;
+                break;
+            case ViewPropertyAnimator.Y:
+                info.mTranslationY = value - this.mView.mTop;
+                break;
+            case ViewPropertyAnimator.ALPHA:
+                info.mAlpha = value;
+                break;
+        }
+    }
+
+    /**
+     * This method gets the value of the named property from the View object.
+     *
+     * @param propertyConstant The property whose value should be returned
+     * @return float The value of the named property
+     */
+    private getValue(propertyConstant:number):number  {
+        const info:View.TransformationInfo = this.mView.mTransformationInfo;
+        switch(propertyConstant) {
+            case ViewPropertyAnimator.TRANSLATION_X:
+                return info.mTranslationX;
+            case ViewPropertyAnimator.TRANSLATION_Y:
+                return info.mTranslationY;
+            case ViewPropertyAnimator.ROTATION:
+                return info.mRotation;
+            case ViewPropertyAnimator.SCALE_X:
+                return info.mScaleX;
+            case ViewPropertyAnimator.SCALE_Y:
+                return info.mScaleY;
+            case ViewPropertyAnimator.X:
+                return this.mView.mLeft + info.mTranslationX;
+            case ViewPropertyAnimator.Y:
+                return this.mView.mTop + info.mTranslationY;
+            case ViewPropertyAnimator.ALPHA:
+                return info.mAlpha;
+        }
+        return 0;
+    }
+}
+
+export module ViewPropertyAnimator{
+/**
+ * This class holds information about the overall animation being run on the set of
+ * properties. The mask describes which properties are being animated and the
+ * values holder is the list of all property/value objects.
+ */
+export class PropertyBundle {
+
+    mPropertyMask:number = 0;
+
+    mNameValuesHolder:ArrayList<ViewPropertyAnimator.NameValuesHolder>;
+
+    constructor(propertyMask:number, nameValuesHolder:ArrayList<ViewPropertyAnimator.NameValuesHolder>) {
+        this.mPropertyMask = propertyMask;
+        this.mNameValuesHolder = nameValuesHolder;
+    }
+
+    /**
+     * Removes the given property from being animated as a part of this
+     * PropertyBundle. If the property was a part of this bundle, it returns
+     * true to indicate that it was, in fact, canceled. This is an indication
+     * to the caller that a cancellation actually occurred.
+     *
+     * @param propertyConstant The property whose cancellation is requested.
+     * @return true if the given property is a part of this bundle and if it
+     * has therefore been canceled.
+     */
+    cancel(propertyConstant:number):boolean  {
+        if ((this.mPropertyMask & propertyConstant) != 0 && this.mNameValuesHolder != null) {
+            let count:number = this.mNameValuesHolder.size();
+            for (let i:number = 0; i < count; ++i) {
+                let nameValuesHolder:ViewPropertyAnimator.NameValuesHolder = this.mNameValuesHolder.get(i);
+                if (nameValuesHolder.mNameConstant == propertyConstant) {
+                    this.mNameValuesHolder.remove(i);
+                    this.mPropertyMask &= ~propertyConstant;
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+}
+
+/**
+ * This class holds information about the overall animation being run on the set of
+ * properties. The mask describes which properties are being animated and the
+ * values holder is the list of all property/value objects.
+ */
+export class NameValuesHolder {
+
+    mNameConstant:number = 0;
+
+    mFromValue:number = 0;
+
+    mDeltaValue:number = 0;
+
+    constructor(nameConstant:number, fromValue:number, deltaValue:number) {
+        this.mNameConstant = nameConstant;
+        this.mFromValue = fromValue;
+        this.mDeltaValue = deltaValue;
+    }
+}
+
+/**
+ * Utility class that handles the various Animator events. The only ones we care
+ * about are the end event (which we use to clean up the animator map when an animator
+ * finishes) and the update event (which we use to calculate the current value of each
+ * property and then set it on the view object).
+ */
+export class AnimatorEventListener implements Animator.AnimatorListener, ValueAnimator.AnimatorUpdateListener {
+    _ViewPropertyAnimator_this:ViewPropertyAnimator;
+
+    constructor(arg:ViewPropertyAnimator) {
+        this._ViewPropertyAnimator_this = arg;
+    }
+
+    onAnimationStart(animation:Animator):void  {
+        if (this._ViewPropertyAnimator_this.mAnimatorOnStartMap != null) {
+            let r:Runnable = this._ViewPropertyAnimator_this.mAnimatorOnStartMap.get(animation);
+            if (r != null) {
+                r.run();
+                this._ViewPropertyAnimator_this.mAnimatorOnStartMap.delete(animation);
+            }
+        }
+        if (this._ViewPropertyAnimator_this.mListener != null) {
+            this._ViewPropertyAnimator_this.mListener.onAnimationStart(animation);
+        }
+    }
+
+    onAnimationCancel(animation:Animator):void  {
+        if (this._ViewPropertyAnimator_this.mListener != null) {
+            this._ViewPropertyAnimator_this.mListener.onAnimationCancel(animation);
+        }
+        if (this._ViewPropertyAnimator_this.mAnimatorOnEndMap != null) {
+            this._ViewPropertyAnimator_this.mAnimatorOnEndMap.delete(animation);
+        }
+    }
+
+    onAnimationRepeat(animation:Animator):void  {
+        if (this._ViewPropertyAnimator_this.mListener != null) {
+            this._ViewPropertyAnimator_this.mListener.onAnimationRepeat(animation);
+        }
+    }
+
+    onAnimationEnd(animation:Animator):void  {
+        if (this._ViewPropertyAnimator_this.mListener != null) {
+            this._ViewPropertyAnimator_this.mListener.onAnimationEnd(animation);
+        }
+        if (this._ViewPropertyAnimator_this.mAnimatorOnEndMap != null) {
+            let r:Runnable = this._ViewPropertyAnimator_this.mAnimatorOnEndMap.get(animation);
+            if (r != null) {
+                r.run();
+                this._ViewPropertyAnimator_this.mAnimatorOnEndMap.delete(animation);
+            }
+        }
+        this._ViewPropertyAnimator_this.mAnimatorMap.delete(animation);
+    }
+
+    /**
+     * Calculate the current value for each property and set it on the view. Invalidate
+     * the view object appropriately, depending on which properties are being animated.
+     *
+     * @param animation The animator associated with the properties that need to be
+     * set. This animator holds the animation fraction which we will use to calculate
+     * the current value of each property.
+     */
+    onAnimationUpdate(animation:ValueAnimator):void  {
+        let propertyBundle:ViewPropertyAnimator.PropertyBundle = this._ViewPropertyAnimator_this.mAnimatorMap.get(animation);
+        if (propertyBundle == null) {
+            // Shouldn't happen, but just to play it safe
+            return;
+        }
+        const view:View = this._ViewPropertyAnimator_this.mView;
+        let alphaHandled:boolean = false;
+        view.invalidateParentCaches();
+        let fraction:number = animation.getAnimatedFraction();
+        let propertyMask:number = propertyBundle.mPropertyMask;
+        if ((propertyMask & ViewPropertyAnimator.TRANSFORM_MASK) != 0) {
+            view.invalidateViewProperty(false, false);
+        }
+        let valueList:ArrayList<ViewPropertyAnimator.NameValuesHolder> = propertyBundle.mNameValuesHolder;
+        if (valueList != null) {
+            let count:number = valueList.size();
+            for (let i:number = 0; i < count; ++i) {
+                let values:ViewPropertyAnimator.NameValuesHolder = valueList.get(i);
+                let value:number = values.mFromValue + fraction * values.mDeltaValue;
+                if (values.mNameConstant == ViewPropertyAnimator.ALPHA) {
+                    alphaHandled = view.setAlphaNoInvalidation(value);
+                } else {
+                    this._ViewPropertyAnimator_this.setValue(values.mNameConstant, value);
+                }
+            }
+        }
+        if ((propertyMask & ViewPropertyAnimator.TRANSFORM_MASK) != 0) {
+            view.mTransformationInfo.mMatrixDirty = true;
+            // force another invalidation
+            view.mPrivateFlags |= View.PFLAG_DRAWN;
+        }
+        // invalidate the view only once for all of the properties changed in this frame
+        if (alphaHandled) {
+            view.invalidate(true);
+        } else {
+            view.invalidateViewProperty(false, false);
+        }
+        if (this._ViewPropertyAnimator_this.mUpdateListener != null) {
+            this._ViewPropertyAnimator_this.mUpdateListener.onAnimationUpdate(animation);
+        }
+    }
+}
+}
+
+}
@@ -15,6 +15,7 @@
 ///<reference path="../graphics/Canvas.ts"/>
 ///<reference path="../../java/lang/Runnable.ts"/>
 ///<reference path="../../java/lang/System.ts"/>
+///<reference path="../../java/util/ArrayList.ts"/>
 ///<reference path="../../androidui/AndroidUIElement.ts"/>
 module android.view {
     import ViewParent = android.view.ViewParent;
@@ -30,6 +31,8 @@ module android.view {
     import System = java.lang.System;
     import Log = android.util.Log;
     import Surface = android.view.Surface;
+    import ArrayList = java.util.ArrayList;
+    import LayoutTransition = android.animation.LayoutTransition;
 
     export class ViewRootImpl implements ViewParent {
         static TAG = "ViewRootImpl";
@@ -67,6 +70,7 @@ module android.view {
         private mWinFrame = new Rect();//Root Element Bound
         private mInLayout:boolean;
         private mLayoutRequesters : Array<View> = [];
+        private mPendingTransitions:ArrayList<LayoutTransition>;
         private mHandlingLayoutInLayoutRequest:boolean;
         private mRemoved:boolean;
         private mHandler = new ViewRootHandler();
@@ -436,12 +440,23 @@ module android.view {
 
             if (!cancelDraw) {
                 if (!skipDraw) {
+                    if (this.mPendingTransitions != null && this.mPendingTransitions.size() > 0) {
+                        for (let i = 0; i < this.mPendingTransitions.size(); ++i) {
+                            this.mPendingTransitions.get(i).startChangingAnimations();
+                        }
+                        this.mPendingTransitions.clear();
+                    }
                     this.performDraw();
                 }
             } else {
                 if (viewVisibility == View.VISIBLE) {
                     // Try again
                     this.scheduleTraversals();
+                } else if (this.mPendingTransitions != null && this.mPendingTransitions.size() > 0) {
+                    for (let i = 0; i < this.mPendingTransitions.size(); ++i) {
+                        this.mPendingTransitions.get(i).endChangingAnimations();
+                    }
+                    this.mPendingTransitions.clear();
                 }
             }
 
@@ -628,6 +643,26 @@ module android.view {
             }
         }
 
+        /**
+         * Add LayoutTransition to the list of transitions to be started in the next traversal.
+         * This list will be cleared after the transitions on the list are start()'ed. These
+         * transitions are added by LayoutTransition itself when it sets up animations. The setup
+         * happens during the layout phase of traversal, which we want to complete before any of the
+         * animations are started (because those animations may side-effect properties that layout
+         * depends upon, like the bounding rectangles of the affected views). So we add the transition
+         * to the list and it is started just prior to starting the drawing phase of traversal.
+         *
+         * @param transition The LayoutTransition to be started on the next traversal.
+         */
+        requestTransitionStart(transition:LayoutTransition):void  {
+            if (this.mPendingTransitions == null || !this.mPendingTransitions.contains(transition)) {
+                if (this.mPendingTransitions == null) {
+                    this.mPendingTransitions = new ArrayList<LayoutTransition>();
+                }
+                this.mPendingTransitions.add(transition);
+            }
+        }
+
         private performDraw() {
             let fullRedrawNeeded = this.mFullRedrawNeeded;
             this.mFullRedrawNeeded = false;
@@ -905,6 +940,30 @@ module android.view {
             // Do nothing.
         }
 
+        onStartNestedScroll(child:View, target:View, nestedScrollAxes:number):boolean {
+            return false;
+        }
+
+        onStopNestedScroll(target:View):void {
+        }
+
+        onNestedScrollAccepted(child:View, target:View, nestedScrollAxes:number):void {
+        }
+
+        onNestedScroll(target:View, dxConsumed:number, dyConsumed:number, dxUnconsumed:number, dyUnconsumed:number):void {
+        }
+
+        onNestedPreScroll(target:View, dx:number, dy:number, consumed:number[]):void {
+        }
+
+        onNestedFling(target:View, velocityX:number, velocityY:number, consumed:boolean):boolean {
+            return false;
+        }
+
+        onNestedPreFling(target:View, velocityX:number, velocityY:number):boolean {
+            return false;
+        }
+
         dispatchInputEvent(event:MotionEvent|KeyEvent|Event):boolean {
             this.deliverInputEvent(event);
             let result = event[InputStage.FLAG_FINISHED_HANDLED];
@@ -0,0 +1,288 @@
+/*
+ * Copyright (C) 2008 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/view/ViewParent.ts"/>
+///<reference path="../../android/view/LayoutInflater.ts"/>
+///<reference path="../../android/graphics/Canvas.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../java/lang/ref/WeakReference.ts"/>
+
+module android.view {
+import Canvas = android.graphics.Canvas;
+import Context = android.content.Context;
+import WeakReference = java.lang.ref.WeakReference;
+
+/**
+ * A ViewStub is an invisible, zero-sized View that can be used to lazily inflate
+ * layout resources at runtime.
+ *
+ * When a ViewStub is made visible, or when {@link #inflate()}  is invoked, the layout resource
+ * is inflated. The ViewStub then replaces itself in its parent with the inflated View or Views.
+ * Therefore, the ViewStub exists in the view hierarchy until {@link #setVisibility(int)} or
+ * {@link #inflate()} is invoked.
+ *
+ * The inflated View is added to the ViewStub's parent with the ViewStub's layout
+ * parameters. Similarly, you can define/override the inflate View's id by using the
+ * ViewStub's inflatedId property. For instance:
+ *
+ * <pre>
+ *     &lt;ViewStub android:id="@+id/stub"
+ *               android:inflatedId="@+id/subTree"
+ *               android:layout="@layout/mySubTree"
+ *               android:layout_width="120dp"
+ *               android:layout_height="40dp" /&gt;
+ * </pre>
+ *
+ * The ViewStub thus defined can be found using the id "stub." After inflation of
+ * the layout resource "mySubTree," the ViewStub is removed from its parent. The
+ * View created by inflating the layout resource "mySubTree" can be found using the
+ * id "subTree," specified by the inflatedId property. The inflated View is finally
+ * assigned a width of 120dp and a height of 40dp.
+ *
+ * The preferred way to perform the inflation of the layout resource is the following:
+ *
+ * <pre>
+ *     ViewStub stub = findViewById("stub");
+ *     View inflated = stub.inflate();
+ * </pre>
+ *
+ * When {@link #inflate()} is invoked, the ViewStub is replaced by the inflated View
+ * and the inflated View is returned. This lets applications get a reference to the
+ * inflated View without executing an extra findViewById().
+ *
+ * @attr ref android.R.styleable#ViewStub_inflatedId
+ * @attr ref android.R.styleable#ViewStub_layout
+ */
+export class ViewStub extends View {
+
+    private mLayoutResource:string;
+
+    private mInflatedId:string;
+
+    private mInflatedViewRef:WeakReference<View>;
+
+    private mInflater:LayoutInflater;
+
+    private mInflateListener:ViewStub.OnInflateListener;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('inflatedId', (value)=>{
+            this.setInflatedId(value);
+        }, ()=>{
+            return this.mInflatedId;
+        });
+        this._attrBinder.addAttr('layout', (value)=>{
+            this.setLayoutResource(value);
+        }, ()=>{
+            return this.mLayoutResource;
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+
+        this.setVisibility(View.GONE);
+        this.setWillNotDraw(true);
+    }
+
+    /**
+     * Returns the id taken by the inflated view. If the inflated id is
+     * {@link View#NO_ID}, the inflated view keeps its original id.
+     *
+     * @return The id used to identify the inflated view or
+     *         {@link #NO_ID} if the inflated view should keep its id.
+     *
+     * @see #setInflatedId(String)
+     * @attr ref android.R.styleable#ViewStub_inflatedId
+     */
+    getInflatedId():string {
+        return this.mInflatedId;
+    }
+
+    /**
+     * Defines the id taken by the inflated view. If the inflated id is
+     * {@link View#NO_ID}, the inflated view keeps its original id.
+     *
+     * @param inflatedId The id used to identify the inflated view or
+     *                   {@link #NO_ID} if the inflated view should keep its id.
+     *
+     * @see #getInflatedId()
+     * @attr ref android.R.styleable#ViewStub_inflatedId
+     */
+    setInflatedId(inflatedId:string):void {
+        this.mInflatedId = inflatedId;
+    }
+
+    /**
+     * Returns the layout resource that will be used by {@link #setVisibility(int)} or
+     * {@link #inflate()} to replace this StubbedView
+     * in its parent by another view.
+     *
+     * @return The layout resource identifier used to inflate the new View.
+     *
+     * @see #setLayoutResource(String)
+     * @see #setVisibility(int)
+     * @see #inflate()
+     * @attr ref android.R.styleable#ViewStub_layout
+     */
+    getLayoutResource():string {
+        return this.mLayoutResource;
+    }
+
+    /**
+     * Specifies the layout resource to inflate when this StubbedView becomes visible or invisible
+     * or when {@link #inflate()} is invoked. The View created by inflating the layout resource is
+     * used to replace this StubbedView in its parent.
+     *
+     * @param layoutResource A valid layout resource reference, like "@layout/xxx".
+     *
+     * @see #getLayoutResource()
+     * @see #setVisibility(int)
+     * @see #inflate()
+     * @attr ref android.R.styleable#ViewStub_layout
+     */
+    setLayoutResource(layoutResource:string):void {
+        this.mLayoutResource = layoutResource;
+    }
+
+    /**
+     * Set {@link LayoutInflater} to use in {@link #inflate()}, or {@code null}
+     * to use the default.
+     */
+    setLayoutInflater(inflater:LayoutInflater):void {
+        this.mInflater = inflater;
+    }
+
+    /**
+     * Get current {@link LayoutInflater} used in {@link #inflate()}.
+     */
+    getLayoutInflater():LayoutInflater {
+        return this.mInflater;
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void {
+        this.setMeasuredDimension(0, 0);
+    }
+
+    draw(canvas:Canvas):void {
+    }
+
+    protected dispatchDraw(canvas:Canvas):void {
+    }
+
+    /**
+     * When visibility is set to {@link #VISIBLE} or {@link #INVISIBLE},
+     * {@link #inflate()} is invoked and this StubbedView is replaced in its parent
+     * by the inflated layout resource. After that calls to this function are passed
+     * through to the inflated view.
+     *
+     * @param visibility One of {@link #VISIBLE}, {@link #INVISIBLE}, or {@link #GONE}.
+     *
+     * @see #inflate()
+     */
+    setVisibility(visibility:number):void {
+        if (this.mInflatedViewRef != null) {
+            let view:View = this.mInflatedViewRef.get();
+            if (view != null) {
+                view.setVisibility(visibility);
+            } else {
+                throw Error(`new IllegalStateException("setVisibility called on un-referenced view")`);
+            }
+        } else {
+            super.setVisibility(visibility);
+            if (visibility == View.VISIBLE || visibility == View.INVISIBLE) {
+                this.inflate();
+            }
+        }
+    }
+
+    /**
+     * Inflates the layout resource identified by {@link #getLayoutResource()}
+     * and replaces this StubbedView in its parent by the inflated layout resource.
+     *
+     * @return The inflated layout resource.
+     *
+     */
+    inflate():View {
+        const viewParent:ViewParent = this.getParent();
+        if (viewParent != null && viewParent instanceof ViewGroup) {
+            if (this.mLayoutResource != null) {
+                const parent:ViewGroup = <ViewGroup> viewParent;
+                let factory:LayoutInflater;
+                if (this.mInflater != null) {
+                    factory = this.mInflater;
+                } else {
+                    factory = LayoutInflater.from(this.getContext());
+                }
+                const view:View = factory.inflate(this.mLayoutResource, parent, false);
+                if (this.mInflatedId != View.NO_ID) {
+                    view.setId(this.mInflatedId);
+                }
+                const index:number = parent.indexOfChild(this);
+                parent.removeViewInLayout(this);
+                const layoutParams:ViewGroup.LayoutParams = this.getLayoutParams();
+                if (layoutParams != null) {
+                    parent.addView(view, index, layoutParams);
+                } else {
+                    parent.addView(view, index);
+                }
+                this.mInflatedViewRef = new WeakReference<View>(view);
+                if (this.mInflateListener != null) {
+                    this.mInflateListener.onInflate(this, view);
+                }
+                return view;
+            } else {
+                throw Error(`new IllegalArgumentException("ViewStub must have a valid layoutResource")`);
+            }
+        } else {
+            throw Error(`new IllegalStateException("ViewStub must have a non-null ViewGroup viewParent")`);
+        }
+    }
+
+    /**
+     * Specifies the inflate listener to be notified after this ViewStub successfully
+     * inflated its layout resource.
+     *
+     * @param inflateListener The OnInflateListener to notify of successful inflation.
+     *
+     * @see android.view.ViewStub.OnInflateListener
+     */
+    setOnInflateListener(inflateListener:ViewStub.OnInflateListener):void {
+        this.mInflateListener = inflateListener;
+    }
+}
+
+export module ViewStub{
+/**
+ * Listener used to receive a notification after a ViewStub has successfully
+ * inflated its layout resource.
+ *
+ * @see android.view.ViewStub#setOnInflateListener(android.view.ViewStub.OnInflateListener)
+ */
+export interface OnInflateListener {
+    /**
+     * Invoked after a ViewStub successfully inflated its layout resource.
+     * This method is invoked after the inflated view was added to the
+     * hierarchy but before the layout pass.
+     *
+     * @param stub The ViewStub that initiated the inflation.
+     * @param inflated The inflated View.
+     */
+    onInflate(stub:ViewStub, inflated:View):void;
+}
+}
+
+}
@@ -179,7 +179,20 @@ export module WindowManager{
                 //handle touch to window
                 return true;
             }
-            return false;//super.isTransformedTouchPointInView(x, y, child, outLocalPoint);
+            if(wparams.isTouchable()){
+                //not focusable window (e.g. AutoCompleteTextView's drop down) only handle the touch inside it
+                return super.isTransformedTouchPointInView(x, y, child, outLocalPoint);
+            }
+            return false;
+        }
+
+        requestChildFocus(child:android.view.View, focused:android.view.View):void {
+            let wparams = <WindowManager.LayoutParams>child.getLayoutParams();
+            if(wparams instanceof WindowManager.LayoutParams && !wparams.isFocusable()){
+                //not focusable window can't take the focus from the window below it
+                return;
+            }
+            super.requestChildFocus(child, focused);
         }
 
         onChildVisibilityChanged(child:android.view.View, oldVisibility:number, newVisibility:number):void {
@@ -239,14 +239,14 @@ export abstract class Animation {
         this.ensureInterpolator();
     }
 
-    //protected clone():Animation  {
-    //    const animation:Animation = <Animation> super.clone();
-    //    animation.mPreviousRegion = new RectF();
-    //    animation.mRegion = new RectF();
-    //    animation.mTransformation = new Transformation();
-    //    animation.mPreviousTransformation = new Transformation();
-    //    return animation;
-    //}
+    clone():Animation  {
+        const animation:Animation = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        animation.mPreviousRegion = new RectF();
+        animation.mRegion = new RectF();
+        animation.mTransformation = new Transformation();
+        animation.mPreviousTransformation = new Transformation();
+        return animation;
+    }
 
     /**
      * Reset the initialization state of this animation.
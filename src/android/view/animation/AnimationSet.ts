@@ -130,17 +130,17 @@ export class AnimationSet extends Animation {
         this.init();
     }
 
-    //protected clone():AnimationSet  {
-    //    const animation:AnimationSet = <AnimationSet> super.clone();
-    //    animation.mTempTransformation = new Transformation();
-    //    animation.mAnimations = new ArrayList<Animation>();
-    //    const count:number = this.mAnimations.size();
-    //    const animations:ArrayList<Animation> = this.mAnimations;
-    //    for (let i:number = 0; i < count; i++) {
-    //        animation.mAnimations.add(animations.get(i).clone());
-    //    }
-    //    return animation;
-    //}
+    clone():AnimationSet  {
+        const animation:AnimationSet = <AnimationSet> super.clone();
+        animation.mTempTransformation = new Transformation();
+        animation.mAnimations = new ArrayList<Animation>();
+        const count:number = this.mAnimations.size();
+        const animations:ArrayList<Animation> = this.mAnimations;
+        for (let i:number = 0; i < count; i++) {
+            animation.mAnimations.add(animations.get(i).clone());
+        }
+        return animation;
+    }
 
     private setFlag(mask:number, value:boolean):void  {
         if (value) {
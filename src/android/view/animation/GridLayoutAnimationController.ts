@@ -0,0 +1,369 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/view/View.ts"/>
+///<reference path="../../../android/view/animation/Animation.ts"/>
+///<reference path="../../../android/view/animation/LayoutAnimationController.ts"/>
+///<reference path="../../../android/view/animation/LinearInterpolator.ts"/>
+
+module android.view.animation {
+import View = android.view.View;
+import Animation = android.view.animation.Animation;
+import LayoutAnimationController = android.view.animation.LayoutAnimationController;
+import LinearInterpolator = android.view.animation.LinearInterpolator;
+
+/**
+ * A layout animation controller is used to animated a grid layout's children.
+ *
+ * While {@link LayoutAnimationController} relies only on the index of the child
+ * in the view group to compute the animation delay, this class uses both the
+ * X and Y coordinates of the child within a grid.
+ *
+ * In addition, the animation direction can be controlled. The default direction
+ * is <code>DIRECTION_LEFT_TO_RIGHT | DIRECTION_TOP_TO_BOTTOM</code>. You can
+ * also set the animation priority to columns or rows. The default priority is
+ * none.
+ *
+ * Information used to compute the animation delay of each child are stored
+ * in an instance of
+ * {@link android.view.animation.GridLayoutAnimationController.AnimationParameters},
+ * itself stored in the {@link android.view.ViewGroup.LayoutParams} of the view.
+ *
+ * @see LayoutAnimationController
+ * @see android.widget.GridView
+ */
+export class GridLayoutAnimationController extends LayoutAnimationController {
+
+    /**
+     * Animates the children starting from the left of the grid to the right.
+     */
+    static DIRECTION_LEFT_TO_RIGHT:number = 0x0;
+
+    /**
+     * Animates the children starting from the right of the grid to the left.
+     */
+    static DIRECTION_RIGHT_TO_LEFT:number = 0x1;
+
+    /**
+     * Animates the children starting from the top of the grid to the bottom.
+     */
+    static DIRECTION_TOP_TO_BOTTOM:number = 0x0;
+
+    /**
+     * Animates the children starting from the bottom of the grid to the top.
+     */
+    static DIRECTION_BOTTOM_TO_TOP:number = 0x2;
+
+    /**
+     * Bitmask used to retrieve the horizontal component of the direction.
+     */
+    static DIRECTION_HORIZONTAL_MASK:number = 0x1;
+
+    /**
+     * Bitmask used to retrieve the vertical component of the direction.
+     */
+    static DIRECTION_VERTICAL_MASK:number = 0x2;
+
+    /**
+     * Rows and columns are animated at the same time.
+     */
+    static PRIORITY_NONE:number = 0;
+
+    /**
+     * Columns are animated first.
+     */
+    static PRIORITY_COLUMN:number = 1;
+
+    /**
+     * Rows are animated first.
+     */
+    static PRIORITY_ROW:number = 2;
+
+    private mColumnDelay:number = 0;
+
+    private mRowDelay:number = 0;
+
+    private mDirection:number = 0;
+
+    private mDirectionPriority:number = 0;
+
+    /**
+     * Creates a new grid layout animation controller with the specified delays
+     * and the specified animation.
+     *
+     * @param animation the animation to use on each child of the view group
+     * @param columnDelay the delay by which each column animation must be offset,
+     *        as a fraction of the animation's duration. Default is 0.5.
+     * @param rowDelay the delay by which each row animation must be offset,
+     *        as a fraction of the animation's duration. Default is 0.5.
+     */
+    constructor(animation:Animation, columnDelay = 0.5, rowDelay = 0.5) {
+        super(animation);
+        this.mColumnDelay = columnDelay;
+        this.mRowDelay = rowDelay;
+    }
+
+    /**
+     * Returns the delay by which the children's animation are offset from one
+     * column to the other. The delay is expressed as a fraction of the
+     * animation duration.
+     *
+     * @return a fraction of the animation duration
+     *
+     * @see #setColumnDelay(float)
+     * @see #getRowDelay()
+     * @see #setRowDelay(float)
+     */
+    getColumnDelay():number  {
+        return this.mColumnDelay;
+    }
+
+    /**
+     * Sets the delay, as a fraction of the animation duration, by which the
+     * children's animations are offset from one column to the other.
+     *
+     * @param columnDelay a fraction of the animation duration
+     *
+     * @see #getColumnDelay()
+     * @see #getRowDelay()
+     * @see #setRowDelay(float)
+     */
+    setColumnDelay(columnDelay:number):void  {
+        this.mColumnDelay = columnDelay;
+    }
+
+    /**
+     * Returns the delay by which the children's animation are offset from one
+     * row to the other. The delay is expressed as a fraction of the
+     * animation duration.
+     *
+     * @return a fraction of the animation duration
+     *
+     * @see #setRowDelay(float)
+     * @see #getColumnDelay()
+     * @see #setColumnDelay(float)
+     */
+    getRowDelay():number  {
+        return this.mRowDelay;
+    }
+
+    /**
+     * Sets the delay, as a fraction of the animation duration, by which the
+     * children's animations are offset from one row to the other.
+     *
+     * @param rowDelay a fraction of the animation duration
+     *
+     * @see #getRowDelay()
+     * @see #getColumnDelay()
+     * @see #setColumnDelay(float)
+     */
+    setRowDelay(rowDelay:number):void  {
+        this.mRowDelay = rowDelay;
+    }
+
+    /**
+     * Returns the direction of the animation. {@link #DIRECTION_HORIZONTAL_MASK}
+     * and {@link #DIRECTION_VERTICAL_MASK} can be used to retrieve the
+     * horizontal and vertical components of the direction.
+     *
+     * @return the direction of the animation
+     *
+     * @see #setDirection(int)
+     * @see #DIRECTION_BOTTOM_TO_TOP
+     * @see #DIRECTION_TOP_TO_BOTTOM
+     * @see #DIRECTION_LEFT_TO_RIGHT
+     * @see #DIRECTION_RIGHT_TO_LEFT
+     * @see #DIRECTION_HORIZONTAL_MASK
+     * @see #DIRECTION_VERTICAL_MASK
+     */
+    getDirection():number  {
+        return this.mDirection;
+    }
+
+    /**
+     * Sets the direction of the animation. The direction is expressed as an
+     * integer containing a horizontal and vertical component. For instance,
+     * <code>DIRECTION_BOTTOM_TO_TOP | DIRECTION_RIGHT_TO_LEFT</code>.
+     *
+     * @param direction the direction of the animation
+     *
+     * @see #getDirection()
+     * @see #DIRECTION_BOTTOM_TO_TOP
+     * @see #DIRECTION_TOP_TO_BOTTOM
+     * @see #DIRECTION_LEFT_TO_RIGHT
+     * @see #DIRECTION_RIGHT_TO_LEFT
+     * @see #DIRECTION_HORIZONTAL_MASK
+     * @see #DIRECTION_VERTICAL_MASK
+     */
+    setDirection(direction:number):void  {
+        this.mDirection = direction;
+    }
+
+    /**
+     * Returns the direction priority for the animation. The priority can
+     * be either {@link #PRIORITY_NONE}, {@link #PRIORITY_COLUMN} or
+     * {@link #PRIORITY_ROW}.
+     *
+     * @return the priority of the animation direction
+     *
+     * @see #setDirectionPriority(int)
+     * @see #PRIORITY_COLUMN
+     * @see #PRIORITY_NONE
+     * @see #PRIORITY_ROW
+     */
+    getDirectionPriority():number  {
+        return this.mDirectionPriority;
+    }
+
+    /**
+     * Specifies the direction priority of the animation. For instance,
+     * {@link #PRIORITY_COLUMN} will give priority to columns: the animation
+     * will first play on the column, then on the rows.Z
+     *
+     * @param directionPriority the direction priority
+     *
+     * @see #getDirectionPriority()
+     * @see #PRIORITY_COLUMN
+     * @see #PRIORITY_NONE
+     * @see #PRIORITY_ROW
+     */
+    setDirectionPriority(directionPriority:number):void  {
+        this.mDirectionPriority = directionPriority;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    willOverlap():boolean  {
+        return this.mColumnDelay < 1.0 || this.mRowDelay < 1.0;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected getDelayForView(view:View):number  {
+        let lp = view.getLayoutParams();
+        let params:GridLayoutAnimationController.AnimationParameters = <GridLayoutAnimationController.AnimationParameters>lp.layoutAnimationParameters;
+        if (params == null) {
+            return 0;
+        }
+        const column:number = this.getTransformedColumnIndex(params);
+        const row:number = this.getTransformedRowIndex(params);
+        const rowsCount:number = params.rowsCount;
+        const columnsCount:number = params.columnsCount;
+        const duration:number = this.mAnimation.getDuration();
+        const columnDelay:number = this.mColumnDelay * duration;
+        const rowDelay:number = this.mRowDelay * duration;
+        let totalDelay:number;
+        let viewDelay:number;
+        if (this.mInterpolator == null) {
+            this.mInterpolator = new LinearInterpolator();
+        }
+        switch(this.mDirectionPriority) {
+            case GridLayoutAnimationController.PRIORITY_COLUMN:
+                viewDelay = Math.floor((row * rowDelay + column * rowsCount * rowDelay));
+                totalDelay = rowsCount * rowDelay + columnsCount * rowsCount * rowDelay;
+                break;
+            case GridLayoutAnimationController.PRIORITY_ROW:
+                viewDelay = Math.floor((column * columnDelay + row * columnsCount * columnDelay));
+                totalDelay = columnsCount * columnDelay + rowsCount * columnsCount * columnDelay;
+                break;
+            case GridLayoutAnimationController.PRIORITY_NONE:
+            default:
+                viewDelay = Math.floor((column * columnDelay + row * rowDelay));
+                totalDelay = columnsCount * columnDelay + rowsCount * rowDelay;
+                break;
+        }
+        let normalizedDelay:number = viewDelay / totalDelay;
+        normalizedDelay = this.mInterpolator.getInterpolation(normalizedDelay);
+        return Math.floor((normalizedDelay * totalDelay));
+    }
+
+    private getTransformedColumnIndex(params:GridLayoutAnimationController.AnimationParameters):number  {
+        let index:number;
+        switch(this.getOrder()) {
+            case GridLayoutAnimationController.ORDER_REVERSE:
+                index = params.columnsCount - 1 - params.column;
+                break;
+            case GridLayoutAnimationController.ORDER_RANDOM:
+                index = Math.floor((params.columnsCount * Math.random()));
+                break;
+            case GridLayoutAnimationController.ORDER_NORMAL:
+            default:
+                index = params.column;
+                break;
+        }
+        let direction:number = this.mDirection & GridLayoutAnimationController.DIRECTION_HORIZONTAL_MASK;
+        if (direction == GridLayoutAnimationController.DIRECTION_RIGHT_TO_LEFT) {
+            index = params.columnsCount - 1 - index;
+        }
+        return index;
+    }
+
+    private getTransformedRowIndex(params:GridLayoutAnimationController.AnimationParameters):number  {
+        let index:number;
+        switch(this.getOrder()) {
+            case GridLayoutAnimationController.ORDER_REVERSE:
+                index = params.rowsCount - 1 - params.row;
+                break;
+            case GridLayoutAnimationController.ORDER_RANDOM:
+                index = Math.floor((params.rowsCount * Math.random()));
+                break;
+            case GridLayoutAnimationController.ORDER_NORMAL:
+            default:
+                index = params.row;
+                break;
+        }
+        let direction:number = this.mDirection & GridLayoutAnimationController.DIRECTION_VERTICAL_MASK;
+        if (direction == GridLayoutAnimationController.DIRECTION_BOTTOM_TO_TOP) {
+            index = params.rowsCount - 1 - index;
+        }
+        return index;
+    }
+}
+
+export module GridLayoutAnimationController{
+/**
+ * The set of parameters that has to be attached to each view contained in
+ * the view group animated by the grid layout animation controller. These
+ * parameters are used to compute the start time of each individual view's
+ * animation.
+ */
+export class AnimationParameters extends LayoutAnimationController.AnimationParameters {
+
+    /**
+     * The view group's column to which the view belongs.
+     */
+    column:number = 0;
+
+    /**
+     * The view group's row to which the view belongs.
+     */
+    row:number = 0;
+
+    /**
+     * The number of columns in the view's enclosing grid layout.
+     */
+    columnsCount:number = 0;
+
+    /**
+     * The number of rows in the view's enclosing grid layout.
+     */
+    rowsCount:number = 0;
+}
+}
+
+}
@@ -0,0 +1,346 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/view/View.ts"/>
+///<reference path="../../../android/view/ViewGroup.ts"/>
+///<reference path="../../../android/view/animation/Animation.ts"/>
+///<reference path="../../../android/view/animation/AnimationUtils.ts"/>
+///<reference path="../../../android/view/animation/Interpolator.ts"/>
+///<reference path="../../../android/view/animation/LinearInterpolator.ts"/>
+
+module android.view.animation {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Animation = android.view.animation.Animation;
+import AnimationUtils = android.view.animation.AnimationUtils;
+import Interpolator = android.view.animation.Interpolator;
+import LinearInterpolator = android.view.animation.LinearInterpolator;
+
+/**
+ * A layout animation controller is used to animated a layout's, or a view
+ * group's, children. Each child uses the same animation but for every one of
+ * them, the animation starts at a different time. A layout animation controller
+ * is used by {@link android.view.ViewGroup} to compute the delay by which each
+ * child's animation start must be offset. The delay is computed by using
+ * characteristics of each child, like its index in the view group.
+ *
+ * This standard implementation computes the delay by multiplying a fixed
+ * amount of miliseconds by the index of the child in its parent view group.
+ * Subclasses are supposed to override
+ * {@link #getDelayForView(android.view.View)} to implement a different way
+ * of computing the delay. For instance, a
+ * {@link android.view.animation.GridLayoutAnimationController} will compute the
+ * delay based on the column and row indices of the child in its parent view
+ * group.
+ *
+ * Information used to compute the animation delay of each child are stored
+ * in an instance of
+ * {@link android.view.animation.LayoutAnimationController.AnimationParameters},
+ * itself stored in the {@link android.view.ViewGroup.LayoutParams} of the view.
+ *
+ * In the html layout, set a {@link android.view.ViewGroup}'s
+ * <code>android:layoutAnimation</code> to an animation reference (for example
+ * <code>@android:anim/fade_in</code>) to run it on the children with the
+ * default delay of 50% of the animation's duration.
+ */
+export class LayoutAnimationController {
+
+    /**
+     * Distributes the animation delays in the order in which view were added
+     * to their view group.
+     */
+    static ORDER_NORMAL:number = 0;
+
+    /**
+     * Distributes the animation delays in the reverse order in which view were
+     * added to their view group.
+     */
+    static ORDER_REVERSE:number = 1;
+
+    /**
+     * Randomly distributes the animation delays.
+     */
+    static ORDER_RANDOM:number = 2;
+
+    /**
+     * The animation applied on each child of the view group on which this
+     * layout animation controller is set.
+     */
+    protected mAnimation:Animation;
+
+    /**
+     * The interpolator used to interpolate the delays.
+     */
+    protected mInterpolator:Interpolator;
+
+    private mDelay:number = 0;
+
+    private mOrder:number = 0;
+
+    private mDuration:number = 0;
+
+    private mMaxDelay:number = 0;
+
+    /**
+     * Creates a new layout animation controller with the specified delay
+     * and the specified animation.
+     *
+     * @param animation the animation to use on each child of the view group
+     * @param delay the delay by which each child's animation must be offset,
+     *        as a fraction of the animation's duration. Default is 0.5.
+     */
+    constructor(animation:Animation, delay = 0.5) {
+        this.mDelay = delay;
+        this.setAnimation(animation);
+    }
+
+    /**
+     * Returns the order used to compute the delay of each child's animation.
+     *
+     * @return one of {@link #ORDER_NORMAL}, {@link #ORDER_REVERSE} or
+     *         {@link #ORDER_RANDOM)
+     */
+    getOrder():number  {
+        return this.mOrder;
+    }
+
+    /**
+     * Sets the order used to compute the delay of each child's animation.
+     *
+     * @param order one of {@link #ORDER_NORMAL}, {@link #ORDER_REVERSE} or
+     *        {@link #ORDER_RANDOM}
+     */
+    setOrder(order:number):void  {
+        this.mOrder = order;
+    }
+
+    /**
+     * Sets the animation to be run on each child of the view group on which
+     * this layout animation controller is .
+     *
+     * @param animation the animation to run on each child of the view group
+     *
+     * @see #getAnimation()
+     */
+    setAnimation(animation:Animation):void  {
+        this.mAnimation = animation;
+        this.mAnimation.setFillBefore(true);
+    }
+
+    /**
+     * Returns the animation applied to each child of the view group on which
+     * this controller is set.
+     *
+     * @return an {@link android.view.animation.Animation} instance
+     *
+     * @see #setAnimation(android.view.animation.Animation)
+     */
+    getAnimation():Animation  {
+        return this.mAnimation;
+    }
+
+    /**
+     * Sets the interpolator used to interpolate the delays between the
+     * children.
+     *
+     * @param interpolator the interpolator
+     *
+     * @see #getInterpolator()
+     */
+    setInterpolator(interpolator:Interpolator):void  {
+        this.mInterpolator = interpolator;
+    }
+
+    /**
+     * Returns the interpolator used to interpolate the delays between the
+     * children.
+     *
+     * @return an {@link android.view.animation.Interpolator}
+     */
+    getInterpolator():Interpolator  {
+        return this.mInterpolator;
+    }
+
+    /**
+     * Returns the delay by which the children's animation are offset. The
+     * delay is expressed as a fraction of the animation duration.
+     *
+     * @return a fraction of the animation duration
+     *
+     * @see #setDelay(float)
+     */
+    getDelay():number  {
+        return this.mDelay;
+    }
+
+    /**
+     * Sets the delay, as a fraction of the animation duration, by which the
+     * children's animations are offset. The general formula is:
+     *
+     * <pre>
+     * child animation delay = child index * delay * animation duration
+     * </pre>
+     *
+     * @param delay a fraction of the animation duration
+     *
+     * @see #getDelay()
+     */
+    setDelay(delay:number):void  {
+        this.mDelay = delay;
+    }
+
+    /**
+     * Indicates whether two children's animations will overlap. Animations
+     * overlap when the delay is lower than 100% (or 1.0).
+     *
+     * @return true if animations will overlap, false otherwise
+     */
+    willOverlap():boolean  {
+        return this.mDelay < 1.0;
+    }
+
+    /**
+     * Starts the animation.
+     */
+    start():void  {
+        this.mDuration = this.mAnimation.getDuration();
+        this.mMaxDelay = Number.MIN_SAFE_INTEGER;
+        this.mAnimation.setStartTime(-1);
+    }
+
+    /**
+     * Returns the animation to be applied to the specified view. The returned
+     * animation is delayed by an offset computed according to the information
+     * provided by
+     * {@link android.view.animation.LayoutAnimationController.AnimationParameters}.
+     * This method is called by view groups to obtain the animation to set on
+     * a specific child.
+     *
+     * @param view the view to animate
+     * @return an animation delayed by the number of milliseconds returned by
+     *         {@link #getDelayForView(android.view.View)}
+     *
+     * @see #getDelay()
+     * @see #setDelay(float)
+     * @see #getDelayForView(android.view.View)
+     */
+    getAnimationForView(view:View):Animation  {
+        const delay:number = this.getDelayForView(view) + this.mAnimation.getStartOffset();
+        this.mMaxDelay = Math.max(this.mMaxDelay, delay);
+        const animation:Animation = this.mAnimation.clone();
+        animation.setStartOffset(delay);
+        return animation;
+    }
+
+    /**
+     * Indicates whether the layout animation is over or not. A layout animation
+     * is considered done when the animation with the longest delay is done.
+     *
+     * @return true if all of the children's animations are over, false otherwise
+     */
+    isDone():boolean  {
+        return AnimationUtils.currentAnimationTimeMillis() > this.mAnimation.getStartTime() + this.mMaxDelay + this.mDuration;
+    }
+
+    /**
+     * Returns the amount of milliseconds by which the specified view's
+     * animation must be delayed or offset. Subclasses should override this
+     * method to return a suitable value.
+     *
+     * This implementation returns <code>child animation delay</code>
+     * milliseconds where:
+     *
+     * <pre>
+     * child animation delay = child index * delay
+     * </pre>
+     *
+     * The index is retrieved from the
+     * {@link android.view.animation.LayoutAnimationController.AnimationParameters}
+     * found in the view's {@link android.view.ViewGroup.LayoutParams}.
+     *
+     * @param view the view for which to obtain the animation's delay
+     * @return a delay in milliseconds
+     *
+     * @see #getAnimationForView(android.view.View)
+     * @see #getDelay()
+     * @see #getTransformedIndex(android.view.animation.LayoutAnimationController.AnimationParameters)
+     * @see android.view.ViewGroup.LayoutParams
+     */
+    protected getDelayForView(view:View):number  {
+        let lp:ViewGroup.LayoutParams = view.getLayoutParams();
+        let params:LayoutAnimationController.AnimationParameters = lp.layoutAnimationParameters;
+        if (params == null) {
+            return 0;
+        }
+        const delay:number = this.mDelay * this.mAnimation.getDuration();
+        const viewDelay:number = Math.floor((this.getTransformedIndex(params) * delay));
+        let totalDelay:number = delay * params.count;
+        if (this.mInterpolator == null) {
+            this.mInterpolator = new LinearInterpolator();
+        }
+        let normalizedDelay:number = viewDelay / totalDelay;
+        normalizedDelay = this.mInterpolator.getInterpolation(normalizedDelay);
+        return Math.floor((normalizedDelay * totalDelay));
+    }
+
+    /**
+     * Transforms the index stored in
+     * {@link android.view.animation.LayoutAnimationController.AnimationParameters}
+     * by the order returned by {@link #getOrder()}. Subclasses should override
+     * this method to provide additional support for other types of ordering.
+     * This method should be invoked by
+     * {@link #getDelayForView(android.view.View)} prior to any computation.
+     *
+     * @param params the animation parameters containing the index
+     * @return a transformed index
+     */
+    protected getTransformedIndex(params:LayoutAnimationController.AnimationParameters):number  {
+        switch(this.getOrder()) {
+            case LayoutAnimationController.ORDER_REVERSE:
+                return params.count - 1 - params.index;
+            case LayoutAnimationController.ORDER_RANDOM:
+                return Math.floor((params.count * Math.random()));
+            case LayoutAnimationController.ORDER_NORMAL:
+            default:
+                return params.index;
+        }
+    }
+}
+
+export module LayoutAnimationController{
+/**
+ * The set of parameters that has to be attached to each view contained in
+ * the view group animated by the layout animation controller. These
+ * parameters are used to compute the start time of each individual view's
+ * animation.
+ */
+export class AnimationParameters {
+
+    /**
+     * The number of children in the view group containing the view to which
+     * these parameters are attached.
+     */
+    count:number = 0;
+
+    /**
+     * The index of the view to which these parameters are attached in its
+     * containing view group.
+     */
+    index:number = 0;
+}
+}
+
+}
@@ -22,6 +22,7 @@
 ///<reference path="../../../android/view/LayoutInflater.ts"/>
 ///<reference path="../../../android/view/Menu.ts"/>
 ///<reference path="../../../android/view/MenuItem.ts"/>
+///<reference path="../../../android/view/menu/MenuPresenter.ts"/>
 ///<reference path="../../../android/view/View.ts"/>
 ///<reference path="../../../android/view/ViewGroup.ts"/>
 ///<reference path="../../../android/view/ViewTreeObserver.ts"/>
@@ -42,6 +43,7 @@ import KeyEvent = android.view.KeyEvent;
 import LayoutInflater = android.view.LayoutInflater;
 import MenuItem = android.view.MenuItem;
 import Menu = android.view.Menu;
+import MenuPresenter = android.view.menu.MenuPresenter;
 import View = android.view.View;
 import MeasureSpec = android.view.View.MeasureSpec;
 import ViewGroup = android.view.ViewGroup;
@@ -61,9 +63,7 @@ import ArrayList = java.util.ArrayList;
  * @hide
  */
 export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.OnKeyListener,
-    ViewTreeObserver.OnGlobalLayoutListener, PopupWindow.OnDismissListener
-        //, MenuPresenter
-    {
+    ViewTreeObserver.OnGlobalLayoutListener, PopupWindow.OnDismissListener, MenuPresenter {
 
     private static TAG:string = "MenuPopupHelper";
 
@@ -81,7 +81,7 @@ export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.On
 
     private mAnchorView:View;
 
-    //private mOverflowOnly:boolean;
+    private mOverflowOnly:boolean;
 
     private mTreeObserver:ViewTreeObserver;
 
@@ -93,15 +93,15 @@ export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.On
 
     private mMeasureParent:ViewGroup;
 
-    constructor(context:Context, menu:Menu, anchorView:View=null) {
+    constructor(context:Context, menu:Menu, anchorView:View=null, overflowOnly=false) {
         this.mContext = context;
         this.mInflater = LayoutInflater.from(context);
         this.mMenu = menu;
-        //this.mOverflowOnly = overflowOnly;
+        this.mOverflowOnly = overflowOnly;
         const res:Resources = context.getResources();
         this.mPopupMaxWidth = Math.max(res.getDisplayMetrics().widthPixels / 2, res.getDisplayMetrics().density * 320);
         this.mAnchorView = anchorView;
-        //menu.addMenuPresenter(this);
+        menu.addMenuPresenter(this);
     }
 
     setAnchorView(anchor:View):void  {
@@ -168,9 +168,8 @@ export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.On
 
     onItemClick(parent:AdapterView<any>, view:View, position:number, id:number):void  {
         let adapter:MenuPopupHelper.MenuAdapter = this.mAdapter;
-        let invoked:boolean = adapter.getItem(position).invoke();
+        let invoked:boolean = this.mMenu.performItemAction(adapter.getItem(position));
         if(invoked) this.mPopup.dismiss();
-        //adapter.mAdapterMenu.performItemAction(adapter.getItem(position), 0);
     }
 
     onKey(v:View, keyCode:number, event:KeyEvent):boolean  {
@@ -224,13 +223,13 @@ export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.On
     //getMenuView(root:ViewGroup):MenuView  {
     //    throw Error(`new UnsupportedOperationException("MenuPopupHelpers manage their own views")`);
     //}
-    //
-    //updateMenuView(cleared:boolean):void  {
-    //    if (this.mAdapter != null) {
-    //        this.mAdapter.notifyDataSetChanged();
-    //    }
-    //}
-    //
+
+    updateMenuView(cleared:boolean):void  {
+        if (this.mAdapter != null) {
+            this.mAdapter.notifyDataSetChanged();
+        }
+    }
+
     //setCallback(cb:Callback):void  {
     //    this.mPresenterCallback = cb;
     //}
@@ -271,18 +270,19 @@ export class MenuPopupHelper implements AdapterView.OnItemClickListener, View.On
     //    }
     //}
     //
-    //flagActionItems():boolean  {
-    //    return false;
-    //}
-    //
-    //expandItemActionView(menu:Menu, item:MenuItem):boolean  {
-    //    return false;
-    //}
-    //
-    //collapseItemActionView(menu:Menu, item:MenuItem):boolean  {
-    //    return false;
-    //}
-    //
+
+    flagActionItems():boolean  {
+        return false;
+    }
+
+    expandItemActionView(menu:Menu, item:MenuItem):boolean  {
+        return false;
+    }
+
+    collapseItemActionView(menu:Menu, item:MenuItem):boolean  {
+        return false;
+    }
+
     //getId():number  {
     //    return 0;
     //}
@@ -303,32 +303,30 @@ export class MenuAdapter extends BaseAdapter {
 
     private mAdapterMenu:Menu;
 
-    //private mExpandedIndex:number = -1;
+    private mExpandedIndex:number = -1;
 
     constructor(menu:Menu, arg:MenuPopupHelper){
         super();
         this._MenuPopupHelper_this = arg;
         this.mAdapterMenu = menu;
-        //this.findExpandedIndex();
+        this.findExpandedIndex();
     }
 
     getCount():number  {
-        let items:ArrayList<MenuItem> =
-            //this._MenuPopupHelper_this.mOverflowOnly ? this.mAdapterMenu.getNonActionItems() :
-                this.mAdapterMenu.getVisibleItems();
-        //if (this.mExpandedIndex < 0) {
+        let items:ArrayList<MenuItem> = this._MenuPopupHelper_this.mOverflowOnly ?
+            this.mAdapterMenu.getNonActionItems() : this.mAdapterMenu.getVisibleItems();
+        if (this.mExpandedIndex < 0) {
             return items.size();
-        //}
-        //return items.size() - 1;
+        }
+        return items.size() - 1;
     }
 
     getItem(position:number):MenuItem  {
-        let items:ArrayList<MenuItem> =
-            //this._MenuPopupHelper_this.mOverflowOnly ? this.mAdapterMenu.getNonActionItems() :
-                this.mAdapterMenu.getVisibleItems();
-        //if (this.mExpandedIndex >= 0 && position >= this.mExpandedIndex) {
-        //    position++;
-        //}
+        let items:ArrayList<MenuItem> = this._MenuPopupHelper_this.mOverflowOnly ?
+            this.mAdapterMenu.getNonActionItems() : this.mAdapterMenu.getVisibleItems();
+        if (this.mExpandedIndex >= 0 && position >= this.mExpandedIndex) {
+            position++;
+        }
         return items.get(position);
     }
 
@@ -373,24 +371,25 @@ export class MenuAdapter extends BaseAdapter {
         return convertView;
     }
 
-    //findExpandedIndex():void  {
-    //    const expandedItem:MenuItem = this._MenuPopupHelper_this.mMenu.getExpandedItem();
-    //    if (expandedItem != null) {
-    //        const items:ArrayList<MenuItem> = this._MenuPopupHelper_this.mMenu.getNonActionItems();
-    //        const count:number = items.size();
-    //        for (let i:number = 0; i < count; i++) {
-    //            const item:MenuItem = items.get(i);
-    //            if (item == expandedItem) {
-    //                this.mExpandedIndex = i;
-    //                return;
-    //            }
-    //        }
-    //    }
-    //    this.mExpandedIndex = -1;
-    //}
+    findExpandedIndex():void  {
+        const expandedItem:MenuItem = this._MenuPopupHelper_this.mMenu.getExpandedItem();
+        if (expandedItem != null) {
+            const items:ArrayList<MenuItem> = this._MenuPopupHelper_this.mOverflowOnly ?
+                this.mAdapterMenu.getNonActionItems() : this.mAdapterMenu.getVisibleItems();
+            const count:number = items.size();
+            for (let i:number = 0; i < count; i++) {
+                const item:MenuItem = items.get(i);
+                if (item == expandedItem) {
+                    this.mExpandedIndex = i;
+                    return;
+                }
+            }
+        }
+        this.mExpandedIndex = -1;
+    }
 
     notifyDataSetChanged():void  {
-        //this.findExpandedIndex();
+        this.findExpandedIndex();
         super.notifyDataSetChanged();
     }
 }
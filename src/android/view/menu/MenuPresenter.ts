@@ -0,0 +1,73 @@
+/*
+ * Copyright (C) 2011 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../../android/view/Menu.ts"/>
+///<reference path="../../../android/view/MenuItem.ts"/>
+
+module android.view.menu {
+import Menu = android.view.Menu;
+import MenuItem = android.view.MenuItem;
+
+/**
+ * A MenuPresenter is responsible for building views for a Menu object.
+ * It takes over some responsibility from the old style monolithic MenuBuilder class.
+ *
+ * androidui: sub menu and saved state not support yet
+ */
+export interface MenuPresenter {
+
+    /**
+     * Update the menu UI in response to a change. Called by
+     * MenuBuilder during the normal course of operation.
+     *
+     * @param cleared true if the menu was entirely cleared
+     */
+    updateMenuView(cleared:boolean):void ;
+
+    /**
+     * Called by Menu when action items are to be flagged.
+     * The presenter should decide which items show as action buttons
+     * and call {@link MenuItem#setIsActionButton(boolean)} on them.
+     *
+     * @return true if this presenter changed the action status of any items.
+     */
+    flagActionItems():boolean ;
+
+    /**
+     * Called when a menu item with a collapsable action view should expand its action view.
+     *
+     * @param menu Menu containing the item to be expanded
+     * @param item Item to be expanded
+     * @return true if this presenter expanded the action view, false otherwise.
+     */
+    expandItemActionView(menu:Menu, item:MenuItem):boolean ;
+
+    /**
+     * Called when a menu item with a collapsable action view should collapse its action view.
+     *
+     * @param menu Menu containing the item to be collapsed
+     * @param item Item to be collapsed
+     * @return true if this presenter collapsed the action view, false otherwise.
+     */
+    collapseItemActionView(menu:Menu, item:MenuItem):boolean ;
+}
+
+export module MenuPresenter{
+    export function isImpl(obj){
+        return obj && obj['updateMenuView'] && obj['flagActionItems'] && obj['expandItemActionView'] && obj['collapseItemActionView'];
+    }
+}
+}
@@ -47,6 +47,7 @@
 ///<reference path="../../android/widget/Checkable.ts"/>
 ///<reference path="../../android/widget/ListAdapter.ts"/>
 ///<reference path="../../android/widget/OverScroller.ts"/>
+///<reference path="../../android/widget/FastScroller.ts"/>
 ///<reference path="../../android/R/drawable.ts"/>
 
 module android.widget {
@@ -404,6 +405,15 @@ module android.widget {
          */
         private mMotionCorrection:number = 0;
 
+        /**
+         * Offset from the nested scrolling parent applied to the velocity tracking events
+         */
+        private mNestedYOffset:number = 0;
+
+        private mScrollOffset:number[] = [0, 0];
+
+        private mScrollConsumed:number[] = [0, 0];
+
         /**
          * Determines speed during touch scrolling
          */
@@ -564,7 +574,7 @@ module android.widget {
         /**
          * Helper object that renders and controls the fast scroll thumb.
          */
-        //private mFastScroller:FastScroller;//TODO when fast scroll impl
+        mFastScroller:FastScroller;
 
         private mGlobalLayoutListenerAddedFilter:boolean;
 
@@ -772,6 +782,8 @@ module android.widget {
             this.setWillNotDraw(false);
             this.setAlwaysDrawnWithCacheEnabled(false);
             this.setScrollingCacheEnabled(true);
+            //androidui add: act as a nested scrolling child by default, so it can work with CoordinatorLayout
+            this.setNestedScrollingEnabled(true);
             const configuration:ViewConfiguration = ViewConfiguration.get();
             this.mTouchSlop = configuration.getScaledTouchSlop();
             this.mMinimumVelocity = configuration.getScaledMinimumFlingVelocity();
@@ -813,6 +825,9 @@ module android.widget {
             if (this.mCheckedIdStates != null) {
                 this.mCheckedIdStates.clear();
             }
+            if (this.mFastScroller != null) {
+                this.mFastScroller.onSectionsChanged();
+            }
         }
 
         /**
@@ -1145,17 +1160,16 @@ module android.widget {
         }
 
         private setFastScrollerEnabledUiThread(enabled:boolean):void {
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.setEnabled(enabled);
-            //} else if (enabled) {
-            //    this.mFastScroller = new FastScroller(this);
-            //    this.mFastScroller.setEnabled(true);
-            //}
-            //this.resolvePadding();
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.updateLayout();
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.setEnabled(enabled);
+            } else if (enabled) {
+                this.mFastScroller = new FastScroller(this);
+                this.mFastScroller.setEnabled(true);
+                this.mFastScroller.setAlwaysShow(this.mFastScrollAlwaysVisible);
+            }
+            if (this.mFastScroller != null) {
+                this.mFastScroller.updateLayout();
+            }
         }
 
         /**
@@ -1183,10 +1197,9 @@ module android.widget {
         }
 
         private setFastScrollerAlwaysVisibleUiThread(alwaysShow:boolean):void {
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.setAlwaysShow(alwaysShow);
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.setAlwaysShow(alwaysShow);
+            }
         }
 
         /**
@@ -1203,20 +1216,17 @@ module android.widget {
          * @see #setFastScrollAlwaysVisible(boolean)
          */
         isFastScrollAlwaysVisible():boolean {
-            //TODO when fastScroller impl
-            return false;
-            //if (this.mFastScroller == null) {
-            //    return this.mFastScrollEnabled && this.mFastScrollAlwaysVisible;
-            //} else {
-            //    return this.mFastScroller.isEnabled() && this.mFastScroller.isAlwaysShowEnabled();
-            //}
+            if (this.mFastScroller == null) {
+                return this.mFastScrollEnabled && this.mFastScrollAlwaysVisible;
+            } else {
+                return this.mFastScroller.isEnabled() && this.mFastScroller.isAlwaysShowEnabled();
+            }
         }
 
         getVerticalScrollbarWidth():number {
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null && this.mFastScroller.isEnabled()) {
-            //    return Math.max(super.getVerticalScrollbarWidth(), this.mFastScroller.getWidth());
-            //}
+            if (this.mFastScroller != null && this.mFastScroller.isEnabled()) {
+                return Math.max(super.getVerticalScrollbarWidth(), this.mFastScroller.getWidth());
+            }
             return super.getVerticalScrollbarWidth();
         }
 
@@ -1227,29 +1237,25 @@ module android.widget {
          * @return true if fast scroll is enabled, false otherwise
          */
         isFastScrollEnabled():boolean {
-            //TODO when fastScroller impl
-            return false;
-            //if (this.mFastScroller == null) {
-            //    return this.mFastScrollEnabled;
-            //} else {
-            //    return this.mFastScroller.isEnabled();
-            //}
+            if (this.mFastScroller == null) {
+                return this.mFastScrollEnabled;
+            } else {
+                return this.mFastScroller.isEnabled();
+            }
         }
 
         setVerticalScrollbarPosition(position:number):void {
             super.setVerticalScrollbarPosition(position);
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.setScrollbarPosition(position);
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.setScrollbarPosition(position);
+            }
         }
 
         setScrollBarStyle(style:number):void {
             super.setScrollBarStyle(style);
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.setScrollBarStyle(style);
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.setScrollBarStyle(style);
+            }
         }
 
         /**
@@ -1307,10 +1313,9 @@ module android.widget {
          * Notify our scroll listener (if there is one) of a change in scroll state
          */
         invokeOnItemScrollListener():void {
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.onScroll(this.mFirstPosition, this.getChildCount(), this.mItemCount);
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.onScroll(this.mFirstPosition, this.getChildCount(), this.mItemCount);
+            }
             if (this.mOnScrollListener != null) {
                 this.mOnScrollListener.onScroll(this, this.mFirstPosition, this.getChildCount(), this.mItemCount);
             }
@@ -1715,10 +1720,9 @@ module android.widget {
                 }
                 this.mRecycler.markChildrenDirty();
             }
-            //TODO when fastScroller impl
-            //if (this.mFastScroller != null && (mItemCount != mOldItemCount || mDataChanged)) {
-            //    this.mFastScroller.onItemCountChanged(mItemCount);
-            //}
+            if (this.mFastScroller != null && (this.mItemCount != this.mOldItemCount || this.mDataChanged)) {
+                this.mFastScroller.onItemCountChanged(this.mItemCount);
+            }
             this.layoutChildren();
             this.mInLayout = false;
             this.mOverscrollMax = (b - t) / AbsListView.OVERSCROLL_LIMIT_DIVISOR;
@@ -2018,10 +2022,9 @@ module android.widget {
                 this.mDataChanged = true;
                 this.rememberSyncState();
             }
-            //TODO when fast scroller impl
-            //if (this.mFastScroller != null) {
-            //    this.mFastScroller.onSizeChanged(w, h, oldw, oldh);
-            //}
+            if (this.mFastScroller != null) {
+                this.mFastScroller.onSizeChanged(w, h, oldw, oldh);
+            }
         }
 
         /**
@@ -2483,13 +2486,14 @@ module android.widget {
             return this.mScrollY != 0;
         }
 
-        private startScrollIfNeeded(y:number):boolean {
+        private startScrollIfNeeded(y:number, vtev:MotionEvent):boolean {
             // Check if we have moved far enough that it looks more like a
             // scroll than a tap
             const deltaY:number = y - this.mMotionY;
             const distance:number = Math.abs(deltaY);
             const overscroll:boolean = this.checkOverScrollStartScrollIfNeeded();
-            if (overscroll || distance > this.mTouchSlop) {
+            if ((overscroll || distance > this.mTouchSlop) &&
+                (this.getNestedScrollAxes() & AbsListView.SCROLL_AXIS_VERTICAL) == 0) {
                 this.createScrollingCache();
                 if (this.mScrollY != 0) {
                     this.mTouchMode = AbsListView.TOUCH_MODE_OVERSCROLL;
@@ -2511,16 +2515,32 @@ module android.widget {
                 if (parent != null) {
                     parent.requestDisallowInterceptTouchEvent(true);
                 }
-                this.scrollIfNeeded(y);
+                this.scrollIfNeeded(y, vtev);
                 return true;
             }
             return false;
         }
 
-        private scrollIfNeeded(y:number):void {
-            const rawDeltaY:number = y - this.mMotionY;
-            const deltaY:number = rawDeltaY - this.mMotionCorrection;
-            let incrementalDeltaY:number = this.mLastY != Integer.MIN_VALUE ? y - this.mLastY : deltaY;
+        private scrollIfNeeded(y:number, vtev:MotionEvent):void {
+            let rawDeltaY:number = y - this.mMotionY;
+            let scrollOffsetCorrection:number = 0;
+            let scrollConsumedCorrection:number = 0;
+            if (this.mLastY == Integer.MIN_VALUE) {
+                rawDeltaY -= this.mMotionCorrection;
+            }
+            if (this.dispatchNestedPreScroll(0, this.mLastY != Integer.MIN_VALUE ? this.mLastY - y : -rawDeltaY,
+                    this.mScrollConsumed, this.mScrollOffset)) {
+                rawDeltaY += this.mScrollConsumed[1];
+                scrollOffsetCorrection = -this.mScrollOffset[1];
+                scrollConsumedCorrection = this.mScrollConsumed[1];
+                if (vtev != null) {
+                    vtev.offsetLocation(0, this.mScrollOffset[1]);
+                    this.mNestedYOffset += this.mScrollOffset[1];
+                }
+            }
+            const deltaY:number = rawDeltaY;
+            let incrementalDeltaY:number = this.mLastY != Integer.MIN_VALUE ? y - this.mLastY + scrollConsumedCorrection : deltaY;
+            let lastYCorrection:number = 0;
             if (this.mTouchMode == AbsListView.TOUCH_MODE_SCROLL) {
                 if (AbsListView.PROFILE_SCROLLING) {
                     if (!this.mScrollProfilingStarted) {
@@ -2567,36 +2587,45 @@ module android.widget {
                         if (atEdge) {
                             // Apply overscroll
                             let overscroll:number = -incrementalDeltaY - (motionViewRealTop - motionViewPrevTop);
-                            this.overScrollBy(0, overscroll, 0, this.mScrollY, 0, 0, 0, this.mOverscrollDistance, true);
-                            if (Math.abs(this.mOverscrollDistance) == Math.abs(this.mScrollY)) {
-                                // Don't allow overfling if we're at the edge.
-                                if (this.mVelocityTracker != null) {
-                                    this.mVelocityTracker.clear();
+                            if (this.dispatchNestedScroll(0, overscroll - incrementalDeltaY, 0, overscroll,
+                                    this.mScrollOffset)) {
+                                lastYCorrection -= this.mScrollOffset[1];
+                                if (vtev != null) {
+                                    vtev.offsetLocation(0, this.mScrollOffset[1]);
+                                    this.mNestedYOffset += this.mScrollOffset[1];
                                 }
-                            }
-                            const overscrollMode:number = this.getOverScrollMode();
-                            if (overscrollMode == AbsListView.OVER_SCROLL_ALWAYS || (overscrollMode == AbsListView.OVER_SCROLL_IF_CONTENT_SCROLLS && !this.contentFits())) {
-                                // Reset when entering overscroll.
-                                this.mDirection = 0;
-                                this.mTouchMode = AbsListView.TOUCH_MODE_OVERSCROLL;
-                                if (rawDeltaY > 0) {
-                                    //this.mEdgeGlowTop.onPull(<number> overscroll / this.getHeight());
-                                    //if (!this.mEdgeGlowBottom.isFinished()) {
-                                    //    this.mEdgeGlowBottom.onRelease();
-                                    //}
-                                    //this.invalidate(this.mEdgeGlowTop.getBounds(false));
-                                } else if (rawDeltaY < 0) {
-                                    //this.mEdgeGlowBottom.onPull(<number> overscroll / this.getHeight());
-                                    //if (!this.mEdgeGlowTop.isFinished()) {
-                                    //    this.mEdgeGlowTop.onRelease();
-                                    //}
-                                    //this.invalidate(this.mEdgeGlowBottom.getBounds(true));
+                            } else {
+                                this.overScrollBy(0, overscroll, 0, this.mScrollY, 0, 0, 0, this.mOverscrollDistance, true);
+                                if (Math.abs(this.mOverscrollDistance) == Math.abs(this.mScrollY)) {
+                                    // Don't allow overfling if we're at the edge.
+                                    if (this.mVelocityTracker != null) {
+                                        this.mVelocityTracker.clear();
+                                    }
+                                }
+                                const overscrollMode:number = this.getOverScrollMode();
+                                if (overscrollMode == AbsListView.OVER_SCROLL_ALWAYS || (overscrollMode == AbsListView.OVER_SCROLL_IF_CONTENT_SCROLLS && !this.contentFits())) {
+                                    // Reset when entering overscroll.
+                                    this.mDirection = 0;
+                                    this.mTouchMode = AbsListView.TOUCH_MODE_OVERSCROLL;
+                                    if (rawDeltaY > 0) {
+                                        //this.mEdgeGlowTop.onPull(<number> overscroll / this.getHeight());
+                                        //if (!this.mEdgeGlowBottom.isFinished()) {
+                                        //    this.mEdgeGlowBottom.onRelease();
+                                        //}
+                                        //this.invalidate(this.mEdgeGlowTop.getBounds(false));
+                                    } else if (rawDeltaY < 0) {
+                                        //this.mEdgeGlowBottom.onPull(<number> overscroll / this.getHeight());
+                                        //if (!this.mEdgeGlowTop.isFinished()) {
+                                        //    this.mEdgeGlowTop.onRelease();
+                                        //}
+                                        //this.invalidate(this.mEdgeGlowBottom.getBounds(true));
+                                    }
                                 }
                             }
                         }
-                        this.mMotionY = y;
+                        this.mMotionY = y + lastYCorrection + scrollOffsetCorrection;
                     }
-                    this.mLastY = y;
+                    this.mLastY = y + lastYCorrection + scrollOffsetCorrection;
                 }
             } else if (this.mTouchMode == AbsListView.TOUCH_MODE_OVERSCROLL) {
                 if (y != this.mLastY) {
@@ -2646,10 +2675,10 @@ module android.widget {
                         this.mMotionCorrection = 0;
                         let motionView:View = this.getChildAt(motionPosition - this.mFirstPosition);
                         this.mMotionViewOriginalTop = motionView != null ? motionView.getTop() : 0;
-                        this.mMotionY = y;
+                        this.mMotionY = y + scrollOffsetCorrection;
                         this.mMotionPosition = motionPosition;
                     }
-                    this.mLastY = y;
+                    this.mLastY = y + lastYCorrection + scrollOffsetCorrection;
                     this.mDirection = newDirection;
                 }
             }
@@ -2697,16 +2726,20 @@ module android.widget {
                 // in a bogus state.
                 return false;
             }
-            //TODO when fast scroller impl
-            //if (this.mFastScroller != null) {
-            //    let intercepted:boolean = this.mFastScroller.onTouchEvent(ev);
-            //    if (intercepted) {
-            //        return true;
-            //    }
-            //}
+            this.startNestedScroll(AbsListView.SCROLL_AXIS_VERTICAL);
+            if (this.mFastScroller != null) {
+                let intercepted:boolean = this.mFastScroller.onTouchEvent(ev);
+                if (intercepted) {
+                    return true;
+                }
+            }
             this.initVelocityTrackerIfNotExists();
-            this.mVelocityTracker.addMovement(ev);
+            const vtev:MotionEvent = MotionEvent.obtain(ev);
             const actionMasked:number = ev.getActionMasked();
+            if (actionMasked == MotionEvent.ACTION_DOWN) {
+                this.mNestedYOffset = 0;
+            }
+            vtev.offsetLocation(0, this.mNestedYOffset);
             switch (actionMasked) {
                 case MotionEvent.ACTION_DOWN:
                 {
@@ -2715,7 +2748,7 @@ module android.widget {
                 }
                 case MotionEvent.ACTION_MOVE:
                 {
-                    this.onTouchMove(ev);
+                    this.onTouchMove(ev, vtev);
                     break;
                 }
                 case MotionEvent.ACTION_UP:
@@ -2765,6 +2798,10 @@ module android.widget {
                     break;
                 }
             }
+            if (this.mVelocityTracker != null) {
+                this.mVelocityTracker.addMovement(vtev);
+            }
+            vtev.recycle();
             return true;
         }
 
@@ -2826,7 +2863,7 @@ module android.widget {
             }
         }
 
-        private onTouchMove(ev:MotionEvent):void {
+        private onTouchMove(ev:MotionEvent, vtev:MotionEvent):void {
             let pointerIndex:number = ev.findPointerIndex(this.mActivePointerId);
             if (pointerIndex == -1) {
                 pointerIndex = 0;
@@ -2843,7 +2880,7 @@ module android.widget {
                 case AbsListView.TOUCH_MODE_TAP:
                 case AbsListView.TOUCH_MODE_DONE_WAITING:
                     // scroll than a tap. If so, we'll enter scrolling mode.
-                    if (this.startScrollIfNeeded(y)) {
+                    if (this.startScrollIfNeeded(y, vtev)) {
                         break;
                     }
                     // Otherwise, check containment within list bounds. If we're
@@ -2862,7 +2899,7 @@ module android.widget {
                     break;
                 case AbsListView.TOUCH_MODE_SCROLL:
                 case AbsListView.TOUCH_MODE_OVERSCROLL:
-                    this.scrollIfNeeded(y);
+                    this.scrollIfNeeded(y, vtev);
                     break;
             }
         }
@@ -2954,15 +2991,22 @@ module android.widget {
                             velocityTracker.computeCurrentVelocity(1000, this.mMaximumVelocity);
                             const initialVelocity:number = Math.floor((velocityTracker.getYVelocity(this.mActivePointerId) * this.mVelocityScale));
                             // fling further.
-                            if (Math.abs(initialVelocity) > this.mMinimumVelocity
+                            const flingVelocity:boolean = Math.abs(initialVelocity) > this.mMinimumVelocity;
+                            if (flingVelocity
                                 && !( (this.mFirstPosition == 0 && firstChildTop == contentTop - this.mOverscrollDistance)
                                     || (this.mFirstPosition + childCount == this.mItemCount
                                         && lastChildBottom == contentBottom + this.mOverscrollDistance))) {
-                                if (this.mFlingRunnable == null) {
-                                    this.mFlingRunnable = new AbsListView.FlingRunnable(this);
+                                if (!this.dispatchNestedPreFling(0, -initialVelocity)) {
+                                    if (this.mFlingRunnable == null) {
+                                        this.mFlingRunnable = new AbsListView.FlingRunnable(this);
+                                    }
+                                    this.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_FLING);
+                                    this.mFlingRunnable.start(-initialVelocity);
+                                    this.dispatchNestedFling(0, -initialVelocity, true);
+                                } else {
+                                    this.mTouchMode = AbsListView.TOUCH_MODE_REST;
+                                    this.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_IDLE);
                                 }
-                                this.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_FLING);
-                                this.mFlingRunnable.start(-initialVelocity);
                             } else {
                                 this.mTouchMode = AbsListView.TOUCH_MODE_REST;
                                 this.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_IDLE);
@@ -2972,6 +3016,9 @@ module android.widget {
                                 if (this.mPositionScroller != null) {
                                     this.mPositionScroller.stop();
                                 }
+                                if (flingVelocity && !this.dispatchNestedPreFling(0, -initialVelocity)) {
+                                    this.dispatchNestedFling(0, -initialVelocity, false);
+                                }
                             }
                         }
                     } else {
@@ -3004,6 +3051,7 @@ module android.widget {
             this.removeCallbacks(this.mPendingCheckForLongPress_List);
             this.recycleVelocityTracker();
             this.mActivePointerId = AbsListView.INVALID_POINTER;
+            this.stopNestedScroll();
             if (AbsListView.PROFILE_SCROLLING) {
                 if (this.mScrollProfilingStarted) {
                     //Debug.stopMethodTracing();
@@ -3043,6 +3091,7 @@ module android.widget {
             //    this.mEdgeGlowBottom.onRelease();
             //}
             this.mActivePointerId = AbsListView.INVALID_POINTER;
+            this.stopNestedScroll();
         }
 
         protected onOverScrolled(scrollX:number, scrollY:number, clampedX:boolean, clampedY:boolean):void {
@@ -3076,6 +3125,9 @@ module android.widget {
 
         draw(canvas:Canvas):void {
             super.draw(canvas);
+            if (this.mFastScroller != null) {
+                this.mFastScroller.draw(canvas);
+            }
             //if (this.mEdgeGlowTop != null) {
             //    const scrollY:number = this.mScrollY;
             //    if (!this.mEdgeGlowTop.isFinished()) {
@@ -3168,10 +3220,9 @@ module android.widget {
                 // in a bogus state.
                 return false;
             }
-            //TODO when fast scroller impl
-            //if (this.mFastScroller != null && this.mFastScroller.onInterceptTouchEvent(ev)) {
-            //    return true;
-            //}
+            if (this.mFastScroller != null && this.mFastScroller.onInterceptTouchEvent(ev)) {
+                return true;
+            }
             switch (action & MotionEvent.ACTION_MASK) {
                 case MotionEvent.ACTION_DOWN:
                 {
@@ -3198,6 +3249,8 @@ module android.widget {
                     this.mLastY = Integer.MIN_VALUE;
                     this.initOrResetVelocityTracker();
                     this.mVelocityTracker.addMovement(ev);
+                    this.mNestedYOffset = 0;
+                    this.startNestedScroll(AbsListView.SCROLL_AXIS_VERTICAL);
                     if (touchMode == AbsListView.TOUCH_MODE_FLING) {
                         return true;
                     }
@@ -3215,7 +3268,7 @@ module android.widget {
                             const y:number = Math.floor(ev.getY(pointerIndex));
                             this.initVelocityTrackerIfNotExists();
                             this.mVelocityTracker.addMovement(ev);
-                            if (this.startScrollIfNeeded(y)) {
+                            if (this.startScrollIfNeeded(y, null)) {
                                 return true;
                             }
                             break;
@@ -3229,6 +3282,7 @@ module android.widget {
                     this.mActivePointerId = AbsListView.INVALID_POINTER;
                     this.recycleVelocityTracker();
                     this.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_IDLE);
+                    this.stopNestedScroll();
                     break;
                 }
                 case MotionEvent.ACTION_POINTER_UP:
@@ -3281,7 +3335,7 @@ module android.widget {
          *
          * @param newState The new scroll state.
          */
-        private reportScrollStateChange(newState:number):void {
+        reportScrollStateChange(newState:number):void {
             if (newState != this.mLastScrollState) {
                 if (this.mOnScrollListener != null) {
                     this.mLastScrollState = newState;
@@ -5458,18 +5512,16 @@ module android.widget {
 
             onChanged():void {
                 super.onChanged();
-                //TODO when fast scroller impl
-                //if (this._AbsListView_this.mFastScroller != null) {
-                //    this._AbsListView_this.mFastScroller.onSectionsChanged();
-                //}
+                if (this._AbsListView_this.mFastScroller != null) {
+                    this._AbsListView_this.mFastScroller.onSectionsChanged();
+                }
             }
 
             onInvalidated():void {
                 super.onInvalidated();
-                //TODO when fast scroller impl
-                //if (this._AbsListView_this.mFastScroller != null) {
-                //    this._AbsListView_this.mFastScroller.onSectionsChanged();
-                //}
+                if (this._AbsListView_this.mFastScroller != null) {
+                    this._AbsListView_this.mFastScroller.onSectionsChanged();
+                }
             }
         }
 
@@ -28,6 +28,8 @@
 ///<reference path="../../android/widget/ImageView.ts"/>
 ///<reference path="../../android/widget/ListView.ts"/>
 ///<reference path="../../android/widget/TextView.ts"/>
+///<reference path="../../android/widget/Filter.ts"/>
+///<reference path="../../android/widget/Filterable.ts"/>
 ///<reference path="../../android/content/Context.ts"/>
 
 module android.widget {
@@ -45,6 +47,8 @@ import BaseAdapter = android.widget.BaseAdapter;
 import ImageView = android.widget.ImageView;
 import ListView = android.widget.ListView;
 import TextView = android.widget.TextView;
+import Filter = android.widget.Filter;
+import Filterable = android.widget.Filterable;
 import Context = android.content.Context;
 /**
  * A concrete BaseAdapter that is backed by an array of arbitrary
@@ -61,7 +65,7 @@ import Context = android.content.Context;
  * or to have some of data besides toString() results fill the views,
  * override {@link #getView(int, View, ViewGroup)} to return the type of view you want.
  */
-export class ArrayAdapter<T> extends BaseAdapter {
+export class ArrayAdapter<T> extends BaseAdapter implements Filterable {
 
     /**
      * Contains the list of objects that represent the data of this ArrayAdapter.
@@ -104,11 +108,11 @@ export class ArrayAdapter<T> extends BaseAdapter {
 
     private mContext:Context;
 
-    //// A copy of the original mObjects array, initialized from and then used instead as soon as
-    //// the mFilter ArrayFilter is used. mObjects will then only contain the filtered values.
-    //private mOriginalValues:ArrayList<T>;
-    //
-    //private mFilter:ArrayAdapter.ArrayFilter;
+    // A copy of the original mObjects array, initialized from and then used instead as soon as
+    // the mFilter ArrayFilter is used. mObjects will then only contain the filtered values.
+    private mOriginalValues:List<T>;
+
+    private mFilter:ArrayAdapter.ArrayFilter<T>;
 
     private mInflater:LayoutInflater;
 
@@ -168,11 +172,11 @@ export class ArrayAdapter<T> extends BaseAdapter {
      */
     add(object:T):void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    this.mOriginalValues.add(object);
-            //} else {
+            if (this.mOriginalValues != null) {
+                this.mOriginalValues.add(object);
+            } else {
                 this.mObjects.add(object);
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
@@ -185,11 +189,11 @@ export class ArrayAdapter<T> extends BaseAdapter {
      */
     addAll(collection:List<T>):void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    this.mOriginalValues.addAll(collection);
-            //} else {
+            if (this.mOriginalValues != null) {
+                this.mOriginalValues.addAll(collection);
+            } else {
                 this.mObjects.addAll(collection);
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
@@ -220,11 +224,11 @@ export class ArrayAdapter<T> extends BaseAdapter {
      */
     insert(object:T, index:number):void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    this.mOriginalValues.add(index, object);
-            //} else {
+            if (this.mOriginalValues != null) {
+                this.mOriginalValues.add(index, object);
+            } else {
                 this.mObjects.add(index, object);
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
@@ -237,26 +241,47 @@ export class ArrayAdapter<T> extends BaseAdapter {
      */
     remove(object:T):void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    this.mOriginalValues.remove(object);
-            //} else {
+            if (this.mOriginalValues != null) {
+                this.mOriginalValues.remove(object);
+            } else {
                 this.mObjects.remove(object);
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
     }
 
+    /**
+     * Removes the object at the specified index in the array. Unlike {@link #remove(Object)}
+     * it removes that exact entry even if the array has equal objects before it.
+     *
+     * @param index The index of the object to remove.
+     * @return The removed object.
+     */
+    removeAt(index:number):T  {//androidui add
+        let object:T;
+        {
+            if (this.mOriginalValues != null) {
+                object = this.mOriginalValues.remove(index);
+            } else {
+                object = this.mObjects.remove(index);
+            }
+        }
+        if (this.mNotifyOnChange)
+            this.notifyDataSetChanged();
+        return object;
+    }
+
     /**
      * Remove all elements from the list.
      */
     clear():void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    this.mOriginalValues.clear();
-            //} else {
+            if (this.mOriginalValues != null) {
+                this.mOriginalValues.clear();
+            } else {
                 this.mObjects.clear();
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
@@ -270,11 +295,11 @@ export class ArrayAdapter<T> extends BaseAdapter {
      */
     sort(comparator:Comparator<T>):void  {
         {
-            //if (this.mOriginalValues != null) {
-            //    Collections.sort(this.mOriginalValues, comparator);
-            //} else {
+            if (this.mOriginalValues != null) {
+                Collections.sort(this.mOriginalValues, comparator);
+            } else {
                 Collections.sort(this.mObjects, comparator);
-            //}
+            }
         }
         if (this.mNotifyOnChange)
             this.notifyDataSetChanged();
@@ -425,88 +450,79 @@ export class ArrayAdapter<T> extends BaseAdapter {
     //    return new ArrayAdapter<string>(context, textViewResId, strings);
     //}
 
-    ///**
-    // * {@inheritDoc}
-    // */
-    //getFilter():Filter  {
-    //    if (this.mFilter == null) {
-    //        this.mFilter = new ArrayAdapter.ArrayFilter(this);
-    //    }
-    //    return this.mFilter;
-    //}
+    /**
+     * {@inheritDoc}
+     */
+    getFilter():Filter  {
+        if (this.mFilter == null) {
+            this.mFilter = new ArrayAdapter.ArrayFilter<T>(this);
+        }
+        return this.mFilter;
+    }
 
 
 }
 
 export module ArrayAdapter{
-///**
-//     * <p>An array filter constrains the content of the array adapter with
-//     * a prefix. Each item that does not start with the supplied prefix
-//     * is removed from the list.</p>
-//     */
-//export class ArrayFilter extends Filter {
-//    _ArrayAdapter_this:ArrayAdapter;
-//    constructor(arg:ArrayAdapter){
-//        super();
-//        this._ArrayAdapter_this = arg;
-//    }
-//
-//    protected performFiltering(prefix:string):Filter.FilterResults  {
-//        let results:Filter.FilterResults = new Filter.FilterResults();
-//        if (this._ArrayAdapter_this.mOriginalValues == null) {
-//            {
-//                this._ArrayAdapter_this.mOriginalValues = new ArrayList<T>(this._ArrayAdapter_this.mObjects);
-//            }
-//        }
-//        if (prefix == null || prefix.length() == 0) {
-//            let list:ArrayList<T>;
-//            {
-//                list = new ArrayList<T>(this._ArrayAdapter_this.mOriginalValues);
-//            }
-//            results.values = list;
-//            results.count = list.size();
-//        } else {
-//            let prefixString:string = prefix.toString().toLowerCase();
-//            let values:ArrayList<T>;
-//            {
-//                values = new ArrayList<T>(this._ArrayAdapter_this.mOriginalValues);
-//            }
-//            const count:number = values.size();
-//            const newValues:ArrayList<T> = new ArrayList<T>();
-//            for (let i:number = 0; i < count; i++) {
-//                const value:T = values.get(i);
-//                const valueText:string = value.toString().toLowerCase();
-//                // First match against the whole, non-splitted value
-//                if (valueText.startsWith(prefixString)) {
-//                    newValues.add(value);
-//                } else {
-//                    const words:string[] = valueText.split(" ");
-//                    const wordCount:number = words.length;
-//                    // Start at index 0, in case valueText starts with space(s)
-//                    for (let k:number = 0; k < wordCount; k++) {
-//                        if (words[k].startsWith(prefixString)) {
-//                            newValues.add(value);
-//                            break;
-//                        }
-//                    }
-//                }
-//            }
-//            results.values = newValues;
-//            results.count = newValues.size();
-//        }
-//        return results;
-//    }
-//
-//    protected publishResults(constraint:string, results:Filter.FilterResults):void  {
-//        //noinspection unchecked
-//        this._ArrayAdapter_this.mObjects = <List<T>> results.values;
-//        if (results.count > 0) {
-//            this._ArrayAdapter_this.notifyDataSetChanged();
-//        } else {
-//            this._ArrayAdapter_this.notifyDataSetInvalidated();
-//        }
-//    }
-//}
+/**
+ * <p>An array filter constrains the content of the array adapter with
+ * a prefix. Each item that does not start with the supplied prefix
+ * is removed from the list.</p>
+ */
+export class ArrayFilter<T> extends Filter {
+    _ArrayAdapter_this:ArrayAdapter<T>;
+    constructor(arg:ArrayAdapter<T>){
+        super();
+        this._ArrayAdapter_this = arg;
+    }
+
+    protected performFiltering(prefix:string):Filter.FilterResults  {
+        let results:Filter.FilterResults = new Filter.FilterResults();
+        if (this._ArrayAdapter_this.mOriginalValues == null) {
+            this._ArrayAdapter_this.mOriginalValues = this._ArrayAdapter_this.mObjects.clone();
+        }
+        if (prefix == null || prefix.length == 0) {
+            let list:List<T> = this._ArrayAdapter_this.mOriginalValues.clone();
+            results.values = list;
+            results.count = list.size();
+        } else {
+            let prefixString:string = prefix.toString().toLowerCase();
+            let values:List<T> = this._ArrayAdapter_this.mOriginalValues.clone();
+            const count:number = values.size();
+            const newValues:ArrayList<T> = new ArrayList<T>();
+            for (let i:number = 0; i < count; i++) {
+                const value:T = values.get(i);
+                const valueText:string = value.toString().toLowerCase();
+                // First match against the whole, non-splitted value
+                if (valueText.startsWith(prefixString)) {
+                    newValues.add(value);
+                } else {
+                    const words:string[] = valueText.split(" ");
+                    const wordCount:number = words.length;
+                    // Start at index 0, in case valueText starts with space(s)
+                    for (let k:number = 0; k < wordCount; k++) {
+                        if (words[k].startsWith(prefixString)) {
+                            newValues.add(value);
+                            break;
+                        }
+                    }
+                }
+            }
+            results.values = newValues;
+            results.count = newValues.size();
+        }
+        return results;
+    }
+
+    protected publishResults(constraint:string, results:Filter.FilterResults):void  {
+        this._ArrayAdapter_this.mObjects = <List<T>> results.values;
+        if (results.count > 0) {
+            this._ArrayAdapter_this.notifyDataSetChanged();
+        } else {
+            this._ArrayAdapter_this.notifyDataSetInvalidated();
+        }
+    }
+}
 }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,1111 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/database/DataSetObserver.ts"/>
+///<reference path="../../android/graphics/Rect.ts"/>
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/text/TextUtils.ts"/>
+///<reference path="../../android/text/TextWatcher.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../android/view/KeyEvent.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/view/ViewRootImpl.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+///<reference path="../../android/widget/AdapterView.ts"/>
+///<reference path="../../android/widget/EditText.ts"/>
+///<reference path="../../android/widget/Filter.ts"/>
+///<reference path="../../android/widget/Filterable.ts"/>
+///<reference path="../../android/widget/ListAdapter.ts"/>
+///<reference path="../../android/widget/ListPopupWindow.ts"/>
+///<reference path="../../android/widget/TextView.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import DataSetObserver = android.database.DataSetObserver;
+import Rect = android.graphics.Rect;
+import Drawable = android.graphics.drawable.Drawable;
+import TextUtils = android.text.TextUtils;
+import TextWatcher = android.text.TextWatcher;
+import Log = android.util.Log;
+import KeyEvent = android.view.KeyEvent;
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import ViewRootImpl = android.view.ViewRootImpl;
+import Runnable = java.lang.Runnable;
+import AdapterView = android.widget.AdapterView;
+import EditText = android.widget.EditText;
+import Filter = android.widget.Filter;
+import Filterable = android.widget.Filterable;
+import ListAdapter = android.widget.ListAdapter;
+import ListPopupWindow = android.widget.ListPopupWindow;
+import TextView = android.widget.TextView;
+
+/**
+ * <p>An editable text view that shows completion suggestions automatically
+ * while the user is typing. The list of suggestions is displayed in a drop
+ * down menu from which the user can choose an item to replace the content
+ * of the edit box with.</p>
+ *
+ * <p>The drop down can be dismissed at any time by pressing the escape key or,
+ * if no item is selected in the drop down, by pressing the enter/dpad center
+ * key.</p>
+ *
+ * <p>The list of suggestions is obtained from a data adapter and appears
+ * only after a given number of characters defined by
+ * {@link #getThreshold() the threshold}.</p>
+ *
+ * <p>The following code snippet shows how to create a text view which suggests
+ * various countries names while the user is typing:</p>
+ *
+ * <pre class="prettyprint">
+ * let adapter = new ArrayAdapter&lt;string&gt;(context,
+ *         android.R.layout.simple_spinner_dropdown_item, null, COUNTRIES);
+ * let textView = &lt;AutoCompleteTextView&gt;findViewById('countries_list');
+ * textView.setAdapter(adapter);
+ *
+ * const COUNTRIES = ["Belgium", "France", "Italy", "Germany", "Spain"];
+ * </pre>
+ *
+ * <p>Up/down keys move the selection in the drop down, enter or tab completes
+ * the text with the selected item.</p>
+ *
+ * androidui: there is no input method, so the completion hint is the only extra
+ * view shown with the drop down and completions are never sent to an IME.
+ *
+ * @attr ref android.R.styleable#AutoCompleteTextView_completionHint
+ * @attr ref android.R.styleable#AutoCompleteTextView_completionThreshold
+ * @attr ref android.R.styleable#AutoCompleteTextView_dropDownAnchor
+ * @attr ref android.R.styleable#AutoCompleteTextView_dropDownWidth
+ * @attr ref android.R.styleable#AutoCompleteTextView_dropDownHeight
+ * @attr ref android.R.styleable#ListPopupWindow_dropDownVerticalOffset
+ * @attr ref android.R.styleable#ListPopupWindow_dropDownHorizontalOffset
+ */
+export class AutoCompleteTextView extends EditText implements Filter.FilterListener {
+
+    static DEBUG:boolean = false;
+
+    static TAG:string = "AutoCompleteTextView";
+
+    static EXPAND_MAX:number = 3;
+
+    private mHintText:string;
+
+    private mHintView:TextView;
+
+    private mThreshold:number = 0;
+
+    private mPopup:ListPopupWindow;
+
+    private mDropDownAnchorId:string;
+
+    private mAdapter:ListAdapter;
+
+    private mFilter:Filter;
+
+    private mItemClickListener:AdapterView.OnItemClickListener;
+
+    private mItemSelectedListener:AdapterView.OnItemSelectedListener;
+
+    private mDropDownDismissedOnCompletion:boolean = true;
+
+    private mOpenBefore:boolean;
+
+    private mValidator:AutoCompleteTextView.Validator = null;
+
+    // Set to true when text is set directly and no filtering shall be performed
+    private mBlockCompletion:boolean;
+
+    // When set, an update in the underlying adapter will update the result list popup.
+    // Set to false when the list is hidden to prevent asynchronous updates to popup the list again.
+    private mPopupCanBeUpdated:boolean = true;
+
+    private mPassThroughClickListener:AutoCompleteTextView.PassThroughClickListener;
+
+    private mObserver:AutoCompleteTextView.PopupDataSetObserver;
+
+    constructor(context:Context, bindElement?:HTMLElement, defStyle:any = android.R.attr.autoCompleteTextViewStyle) {
+        super(context, bindElement, null);
+        this.mPopup = new ListPopupWindow(context);
+        this.mPopup.setPromptPosition(ListPopupWindow.POSITION_PROMPT_BELOW);
+
+        let a = this._attrBinder;
+        a.addAttr('completionThreshold', (value)=>{
+            this.setThreshold(a.parseNumber(value, 2));
+        }, ()=>{
+            return this.mThreshold;
+        });
+        a.addAttr('completionHint', (value)=>{
+            this.setCompletionHint(a.parseString(value));
+        }, ()=>{
+            return this.mHintText;
+        });
+        a.addAttr('dropDownAnchor', (value)=>{
+            // Get the anchor's id now, but the view won't be ready, so wait to actually get the
+            // view and store it in mDropDownAnchorView lazily in getDropDownAnchorView later.
+            // Defaults to NO_ID, in which case the getDropDownAnchorView method will simply return
+            // this TextView, as a default anchoring point.
+            this.mDropDownAnchorId = a.parseString(value, View.NO_ID);
+        }, ()=>{
+            return this.mDropDownAnchorId;
+        });
+        a.addAttr('dropDownWidth', (value)=>{
+            // For dropdown width, the developer can specify a specific width, or MATCH_PARENT
+            // (for full screen width) or WRAP_CONTENT (to match the width of the anchored view).
+            this.mPopup.setWidth(AutoCompleteTextView.parseDropDownDimension(a, value));
+        }, ()=>{
+            return this.mPopup.getWidth();
+        });
+        a.addAttr('dropDownHeight', (value)=>{
+            this.mPopup.setHeight(AutoCompleteTextView.parseDropDownDimension(a, value));
+        }, ()=>{
+            return this.mPopup.getHeight();
+        });
+        a.addAttr('popupBackground', (value)=>{
+            this.mPopup.setBackgroundDrawable(a.parseDrawable(value));
+        });
+        a.addAttr('dropDownVerticalOffset', (value)=>{
+            this.mPopup.setVerticalOffset(a.parseNumber(value, 0));
+        }, ()=>{
+            return this.mPopup.getVerticalOffset();
+        });
+        a.addAttr('dropDownHorizontalOffset', (value)=>{
+            this.mPopup.setHorizontalOffset(a.parseNumber(value, 0));
+        }, ()=>{
+            return this.mPopup.getHorizontalOffset();
+        });
+
+        this.mPopup.setWidth(ViewGroup.LayoutParams.WRAP_CONTENT);
+        this.mPopup.setHeight(ViewGroup.LayoutParams.WRAP_CONTENT);
+        this.mPopup.setOnItemClickListener(new AutoCompleteTextView.DropDownItemClickListener(this));
+        this.mThreshold = 2;
+
+        if (defStyle != null) this.applyDefaultAttributes(defStyle);
+
+        this.setFocusable(true);
+        this.addTextChangedListener(new AutoCompleteTextView.MyWatcher(this));
+        this.mPassThroughClickListener = new AutoCompleteTextView.PassThroughClickListener(this);
+        super.setOnClickListener(this.mPassThroughClickListener);
+    }
+
+    private static parseDropDownDimension(a:androidui.attr.AttrBinder, value:any):number {
+        let up = (value + '').toUpperCase();
+        if (up === 'FILL_PARENT' || up === 'MATCH_PARENT') return ViewGroup.LayoutParams.MATCH_PARENT;
+        if (up === 'WRAP_CONTENT') return ViewGroup.LayoutParams.WRAP_CONTENT;
+        return a.parseNumber(value, ViewGroup.LayoutParams.WRAP_CONTENT);
+    }
+
+    setOnClickListener(listener:View.OnClickListener):void  {
+        this.mPassThroughClickListener.mWrapped = listener;
+    }
+
+    /**
+     * Private hook into the on click event, dispatched from {@link PassThroughClickListener}
+     */
+    private onClickImpl():void  {
+        // If the dropdown is showing, bring the keyboard to the front
+        // when the user touches the text field.
+        if (this.isPopupShowing()) {
+            this.ensureImeVisible(true);
+        }
+    }
+
+    /**
+     * <p>Sets the optional hint text that is displayed at the bottom of the
+     * the matching list.  This can be used as a cue to the user on how to
+     * best use the list, or to provide extra information.</p>
+     *
+     * @param hint the text to be displayed to the user
+     *
+     * @see #getCompletionHint()
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_completionHint
+     */
+    setCompletionHint(hint:string):void  {
+        this.mHintText = hint;
+        if (hint != null) {
+            if (this.mHintView == null) {
+                const hintView:TextView = new TextView(this.getContext());
+                const padding = Math.floor(10 * this.getResources().getDisplayMetrics().density);
+                hintView.setPadding(padding, padding, padding, padding);
+                hintView.setTextColor(0xff808080);
+                hintView.setSingleLine(true);
+                hintView.setText(this.mHintText);
+                this.mHintView = hintView;
+                this.mPopup.setPromptView(hintView);
+            } else {
+                this.mHintView.setText(hint);
+            }
+        } else {
+            this.mPopup.setPromptView(null);
+            this.mHintView = null;
+        }
+    }
+
+    /**
+     * Gets the optional hint text displayed at the bottom of the the matching list.
+     *
+     * @return The hint text, if any
+     *
+     * @see #setCompletionHint(CharSequence)
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_completionHint
+     */
+    getCompletionHint():string  {
+        return this.mHintText;
+    }
+
+    /**
+     * <p>Returns the current width for the auto-complete drop down list. This can
+     * be a fixed width, or {@link ViewGroup.LayoutParams#MATCH_PARENT} to fill the screen, or
+     * {@link ViewGroup.LayoutParams#WRAP_CONTENT} to fit the width of its anchor view.</p>
+     *
+     * @return the width for the drop down list
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownWidth
+     */
+    getDropDownWidth():number  {
+        return this.mPopup.getWidth();
+    }
+
+    /**
+     * <p>Sets the current width for the auto-complete drop down list. This can
+     * be a fixed width, or {@link ViewGroup.LayoutParams#MATCH_PARENT} to fill the screen, or
+     * {@link ViewGroup.LayoutParams#WRAP_CONTENT} to fit the width of its anchor view.</p>
+     *
+     * @param width the width to use
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownWidth
+     */
+    setDropDownWidth(width:number):void  {
+        this.mPopup.setWidth(width);
+    }
+
+    /**
+     * <p>Returns the current height for the auto-complete drop down list. This can
+     * be a fixed height, or {@link ViewGroup.LayoutParams#MATCH_PARENT} to fill
+     * the screen, or {@link ViewGroup.LayoutParams#WRAP_CONTENT} to fit the height
+     * of the drop down's content.</p>
+     *
+     * @return the height for the drop down list
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownHeight
+     */
+    getDropDownHeight():number  {
+        return this.mPopup.getHeight();
+    }
+
+    /**
+     * <p>Sets the current height for the auto-complete drop down list. This can
+     * be a fixed height, or {@link ViewGroup.LayoutParams#MATCH_PARENT} to fill
+     * the screen, or {@link ViewGroup.LayoutParams#WRAP_CONTENT} to fit the height
+     * of the drop down's content.</p>
+     *
+     * @param height the height to use
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownHeight
+     */
+    setDropDownHeight(height:number):void  {
+        this.mPopup.setHeight(height);
+    }
+
+    /**
+     * <p>Returns the id for the view that the auto-complete drop down list is anchored to.</p>
+     *
+     * @return the view's id, or {@link View#NO_ID} if none specified
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownAnchor
+     */
+    getDropDownAnchor():string  {
+        return this.mDropDownAnchorId;
+    }
+
+    /**
+     * <p>Sets the view to which the auto-complete drop down list should anchor. The view
+     * corresponding to this id will not be loaded until the next time it is needed to avoid
+     * loading a view which is not yet instantiated.</p>
+     *
+     * @param id the id to anchor the drop down list view to
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_dropDownAnchor
+     */
+    setDropDownAnchor(id:string):void  {
+        this.mDropDownAnchorId = id;
+        this.mPopup.setAnchorView(null);
+    }
+
+    /**
+     * <p>Gets the background of the auto-complete drop-down list.</p>
+     *
+     * @return the background drawable
+     *
+     * @attr ref android.R.styleable#PopupWindow_popupBackground
+     */
+    getDropDownBackground():Drawable  {
+        return this.mPopup.getBackground();
+    }
+
+    /**
+     * <p>Sets the background of the auto-complete drop-down list.</p>
+     *
+     * @param d the drawable to set as the background
+     *
+     * @attr ref android.R.styleable#PopupWindow_popupBackground
+     */
+    setDropDownBackgroundDrawable(d:Drawable):void  {
+        this.mPopup.setBackgroundDrawable(d);
+    }
+
+    /**
+     * <p>Sets the vertical offset used for the auto-complete drop-down list.</p>
+     *
+     * @param offset the vertical offset
+     *
+     * @attr ref android.R.styleable#ListPopupWindow_dropDownVerticalOffset
+     */
+    setDropDownVerticalOffset(offset:number):void  {
+        this.mPopup.setVerticalOffset(offset);
+    }
+
+    /**
+     * <p>Gets the vertical offset used for the auto-complete drop-down list.</p>
+     *
+     * @return the vertical offset
+     *
+     * @attr ref android.R.styleable#ListPopupWindow_dropDownVerticalOffset
+     */
+    getDropDownVerticalOffset():number  {
+        return this.mPopup.getVerticalOffset();
+    }
+
+    /**
+     * <p>Sets the horizontal offset used for the auto-complete drop-down list.</p>
+     *
+     * @param offset the horizontal offset
+     *
+     * @attr ref android.R.styleable#ListPopupWindow_dropDownHorizontalOffset
+     */
+    setDropDownHorizontalOffset(offset:number):void  {
+        this.mPopup.setHorizontalOffset(offset);
+    }
+
+    /**
+     * <p>Gets the horizontal offset used for the auto-complete drop-down list.</p>
+     *
+     * @return the horizontal offset
+     *
+     * @attr ref android.R.styleable#ListPopupWindow_dropDownHorizontalOffset
+     */
+    getDropDownHorizontalOffset():number  {
+        return this.mPopup.getHorizontalOffset();
+    }
+
+    /**
+     * <p>Returns the number of characters the user must type before the drop
+     * down list is shown.</p>
+     *
+     * @return the minimum number of characters to type to show the drop down
+     *
+     * @see #setThreshold(int)
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_completionThreshold
+     */
+    getThreshold():number  {
+        return this.mThreshold;
+    }
+
+    /**
+     * <p>Specifies the minimum number of characters the user has to type in the
+     * edit box before the drop down list is shown.</p>
+     *
+     * <p>When <code>threshold</code> is less than or equals 0, a threshold of
+     * 1 is applied.</p>
+     *
+     * @param threshold the number of characters to type before the drop down
+     *                  is shown
+     *
+     * @see #getThreshold()
+     *
+     * @attr ref android.R.styleable#AutoCompleteTextView_completionThreshold
+     */
+    setThreshold(threshold:number):void  {
+        if (threshold <= 0) {
+            threshold = 1;
+        }
+        this.mThreshold = threshold;
+    }
+
+    /**
+     * <p>Sets the listener that will be notified when the user clicks an item
+     * in the drop down list.</p>
+     *
+     * @param l the item click listener
+     */
+    setOnItemClickListener(l:AdapterView.OnItemClickListener):void  {
+        this.mItemClickListener = l;
+    }
+
+    /**
+     * <p>Sets the listener that will be notified when the user selects an item
+     * in the drop down list.</p>
+     *
+     * @param l the item selected listener
+     */
+    setOnItemSelectedListener(l:AdapterView.OnItemSelectedListener):void  {
+        this.mItemSelectedListener = l;
+        this.mPopup.setOnItemSelectedListener(l);
+    }
+
+    /**
+     * <p>Returns the listener that is notified whenever the user clicks an item
+     * in the drop down list.</p>
+     *
+     * @return the item click listener
+     */
+    getOnItemClickListener():AdapterView.OnItemClickListener  {
+        return this.mItemClickListener;
+    }
+
+    /**
+     * <p>Returns the listener that is notified whenever the user selects an
+     * item in the drop down list.</p>
+     *
+     * @return the item selected listener
+     */
+    getOnItemSelectedListener():AdapterView.OnItemSelectedListener  {
+        return this.mItemSelectedListener;
+    }
+
+    /**
+     * <p>Returns a filterable list adapter used for auto completion.</p>
+     *
+     * @return a data adapter used for auto completion
+     */
+    getAdapter():ListAdapter  {
+        return this.mAdapter;
+    }
+
+    /**
+     * <p>Changes the list of data used for auto completion. The provided list
+     * must be a filterable list adapter.</p>
+     *
+     * <p>The caller is still responsible for managing any resources used by the adapter.
+     * Notably, when the AutoCompleteTextView is closed or released, the adapter is not notified.
+     * A common case is the use of {@link android.widget.CursorAdapter}, which
+     * contains a {@link android.database.Cursor} that must be closed.  This can be done
+     * automatically (see
+     * {@link android.app.Activity#startManagingCursor(android.database.Cursor)
+     * startManagingCursor()}),
+     * or by manually closing the cursor when the AutoCompleteTextView is dismissed.</p>
+     *
+     * @param adapter the adapter holding the auto completion data
+     *
+     * @see #getAdapter()
+     * @see android.widget.Filterable
+     * @see android.widget.ListAdapter
+     */
+    setAdapter<T extends ListAdapter & Filterable>(adapter:T):void  {
+        if (this.mObserver == null) {
+            this.mObserver = new AutoCompleteTextView.PopupDataSetObserver(this);
+        } else if (this.mAdapter != null) {
+            this.mAdapter.unregisterDataSetObserver(this.mObserver);
+        }
+        this.mAdapter = adapter;
+        if (this.mAdapter != null) {
+            this.mFilter = adapter.getFilter();
+            adapter.registerDataSetObserver(this.mObserver);
+        } else {
+            this.mFilter = null;
+        }
+        this.mPopup.setAdapter(this.mAdapter);
+    }
+
+    onKeyDown(keyCode:number, event:KeyEvent):boolean  {
+        if (this.mPopup.onKeyDown(keyCode, event)) {
+            // the drop down drives the selection, keep the key away from the input element
+            event[ViewRootImpl.ContinueEventToDom] = false;
+            return true;
+        }
+        if (!this.isPopupShowing()) {
+            switch(keyCode) {
+                case KeyEvent.KEYCODE_DPAD_DOWN:
+                    if (event.hasNoModifiers()) {
+                        this.performValidation();
+                    }
+            }
+        } else {
+            if (keyCode == KeyEvent.KEYCODE_ESCAPE || (keyCode == KeyEvent.KEYCODE_TAB && event.hasNoModifiers())) {
+                event[ViewRootImpl.ContinueEventToDom] = false;
+                return true;
+            }
+        }
+        let handled:boolean = super.onKeyDown(keyCode, event);
+        if (handled && this.isPopupShowing()) {
+            this.clearListSelection();
+        }
+        return handled;
+    }
+
+    onKeyUp(keyCode:number, event:KeyEvent):boolean  {
+        let consumed:boolean = this.mPopup.onKeyUp(keyCode, event);
+        if (consumed) {
+            switch(keyCode) {
+                // if the list accepts the key events and the key event
+                // was a click, the text view gets the selected item
+                // from the drop down as its content
+                case KeyEvent.KEYCODE_ENTER:
+                case KeyEvent.KEYCODE_DPAD_CENTER:
+                case KeyEvent.KEYCODE_TAB:
+                    if (event.hasNoModifiers()) {
+                        this.performCompletion();
+                    }
+                    event[ViewRootImpl.ContinueEventToDom] = false;
+                    return true;
+            }
+        }
+        if (this.isPopupShowing()) {
+            if (keyCode == KeyEvent.KEYCODE_TAB && event.hasNoModifiers()) {
+                this.performCompletion();
+                event[ViewRootImpl.ContinueEventToDom] = false;
+                return true;
+            }
+            if (keyCode == KeyEvent.KEYCODE_ESCAPE) {
+                this.dismissDropDown();
+                event[ViewRootImpl.ContinueEventToDom] = false;
+                return true;
+            }
+        }
+        return super.onKeyUp(keyCode, event);
+    }
+
+    /**
+     * Returns <code>true</code> if the amount of text in the field meets
+     * or exceeds the {@link #getThreshold} requirement.  You can override
+     * this to impose a different standard for when filtering will be
+     * triggered.
+     */
+    enoughToFilter():boolean  {
+        if (AutoCompleteTextView.DEBUG)
+            Log.v(AutoCompleteTextView.TAG, "Enough to filter: len=" + this.getText().length + " threshold=" + this.mThreshold);
+        return this.getText().length >= this.mThreshold;
+    }
+
+    doBeforeTextChanged():void  {
+        if (this.mBlockCompletion)
+            return;
+        // when text is changed, inserted or deleted, we attempt to show
+        // the drop down
+        this.mOpenBefore = this.isPopupShowing();
+        if (AutoCompleteTextView.DEBUG)
+            Log.v(AutoCompleteTextView.TAG, "before text changed: open=" + this.mOpenBefore);
+    }
+
+    doAfterTextChanged():void  {
+        if (this.mBlockCompletion)
+            return;
+        // if the list was open before the keystroke, but closed afterwards,
+        // then something in the keystroke processing (an input filter perhaps)
+        // called performCompletion() and we shouldn't do any more processing.
+        if (AutoCompleteTextView.DEBUG)
+            Log.v(AutoCompleteTextView.TAG, "after text changed: openBefore=" + this.mOpenBefore + " open=" + this.isPopupShowing());
+        if (this.mOpenBefore && !this.isPopupShowing()) {
+            return;
+        }
+        // the drop down is shown only when a minimum number of characters
+        // was typed in the text view
+        if (this.enoughToFilter()) {
+            if (this.mFilter != null) {
+                this.mPopupCanBeUpdated = true;
+                this.performFiltering(this.getText());
+            }
+        } else {
+            // drop down is automatically dismissed when enough characters
+            // are deleted from the text view
+            if (!this.mPopup.isDropDownAlwaysVisible()) {
+                this.dismissDropDown();
+            }
+            if (this.mFilter != null) {
+                this.mFilter.filter(null);
+            }
+        }
+    }
+
+    /**
+     * <p>Indicates whether the popup menu is showing.</p>
+     *
+     * @return true if the popup menu is showing, false otherwise
+     */
+    isPopupShowing():boolean  {
+        return this.mPopup.isShowing();
+    }
+
+    /**
+     * <p>Converts the selected item from the drop down list into a sequence
+     * of character that can be used in the edit box.</p>
+     *
+     * @param selectedItem the item selected by the user for completion
+     *
+     * @return a sequence of characters representing the selected suggestion
+     */
+    protected convertSelectionToString(selectedItem:any):string  {
+        return this.mFilter.convertResultToString(selectedItem);
+    }
+
+    /**
+     * <p>Clear the list selection.  This may only be temporary, as user input will often bring
+     * it back.
+     */
+    clearListSelection():void  {
+        this.mPopup.clearListSelection();
+    }
+
+    /**
+     * Set the position of the dropdown view selection.
+     *
+     * @param position The position to move the selector to.
+     */
+    setListSelection(position:number):void  {
+        this.mPopup.setSelection(position);
+    }
+
+    /**
+     * Get the position of the dropdown view selection, if there is one.  Returns
+     * {@link ListView#INVALID_POSITION ListView.INVALID_POSITION} if there is no dropdown or if
+     * there is no selection.
+     *
+     * @return the position of the current selection, if there is one, or
+     * {@link ListView#INVALID_POSITION ListView.INVALID_POSITION} if not.
+     *
+     * @see ListView#getSelectedItemPosition()
+     */
+    getListSelection():number  {
+        return this.mPopup.getSelectedItemPosition();
+    }
+
+    /**
+     * <p>Starts filtering the content of the drop down list. The filtering
+     * pattern is the content of the edit box. Subclasses should override this
+     * method to filter with a different pattern, for instance a substring of
+     * <code>text</code>.</p>
+     *
+     * @param text the filtering pattern
+     */
+    protected performFiltering(text:String):void  {
+        this.mFilter.filter(text == null ? null : text.toString(), this);
+    }
+
+    /**
+     * <p>Performs the text completion by converting the selected item from
+     * the drop down list into a string, replacing the text box's content with
+     * this string and finally dismissing the drop down menu.</p>
+     */
+    performCompletion(selectedView:View = null, position:number = -1, id:number = -1):void  {
+        if (this.isPopupShowing()) {
+            let selectedItem:any;
+            if (position < 0) {
+                selectedItem = this.mPopup.getSelectedItem();
+            } else {
+                selectedItem = this.mAdapter.getItem(position);
+            }
+            if (selectedItem == null) {
+                Log.w(AutoCompleteTextView.TAG, "performCompletion: no selected item");
+                return;
+            }
+            this.mBlockCompletion = true;
+            this.replaceText(this.convertSelectionToString(selectedItem));
+            this.mBlockCompletion = false;
+            if (this.mItemClickListener != null) {
+                const list:ListPopupWindow = this.mPopup;
+                if (selectedView == null || position < 0) {
+                    selectedView = list.getSelectedView();
+                    position = list.getSelectedItemPosition();
+                    id = list.getSelectedItemId();
+                }
+                this.mItemClickListener.onItemClick(list.getListView(), selectedView, position, id);
+            }
+        }
+        if (this.mDropDownDismissedOnCompletion && !this.mPopup.isDropDownAlwaysVisible()) {
+            this.dismissDropDown();
+        }
+    }
+
+    /**
+     * Identifies whether the view is currently performing a text completion, so subclasses
+     * can decide whether to respond to text changed events.
+     */
+    isPerformingCompletion():boolean  {
+        return this.mBlockCompletion;
+    }
+
+    /**
+     * Like {@link #setText(CharSequence)}, except that it can disable filtering.
+     *
+     * @param filter If <code>false</code>, no filtering will be performed
+     *        as a result of this call.
+     */
+    setTextWithFilter(text:String, filter:boolean):void  {
+        if (filter) {
+            this.setText(text);
+        } else {
+            this.mBlockCompletion = true;
+            this.setText(text);
+            this.mBlockCompletion = false;
+        }
+    }
+
+    /**
+     * <p>Performs the text completion by replacing the current text by the
+     * selected item. Subclasses should override this method to avoid replacing
+     * the whole content of the edit box.</p>
+     *
+     * @param text the selected suggestion in the drop down list
+     */
+    protected replaceText(text:String):void  {
+        this.setText(text);
+    }
+
+    /** {@inheritDoc} */
+    onFilterComplete(count:number):void  {
+        this.updateDropDownForFilter(count);
+    }
+
+    private updateDropDownForFilter(count:number):void  {
+        // Not attached to window, don't update drop-down
+        if (this.getWindowVisibility() == View.GONE)
+            return;
+        /*
+         * This checks enoughToFilter() again because filtering requests
+         * are asynchronous, so the result may come back after enough text
+         * has since been deleted to make it no longer appropriate
+         * to filter.
+         */
+        const dropDownAlwaysVisible:boolean = this.mPopup.isDropDownAlwaysVisible();
+        const enoughToFilter:boolean = this.enoughToFilter();
+        if ((count > 0 || dropDownAlwaysVisible) && enoughToFilter) {
+            if (this.hasFocus() && this.hasWindowFocus() && this.mPopupCanBeUpdated) {
+                this.showDropDown();
+            }
+        } else if (!dropDownAlwaysVisible && this.isPopupShowing()) {
+            this.dismissDropDown();
+            // When the filter text is changed, the first update from the adapter may show an empty
+            // count (when the query is being performed on the network). Future updates when some
+            // content has been retrieved should still be able to update the list.
+            this.mPopupCanBeUpdated = true;
+        }
+    }
+
+    onWindowFocusChanged(hasWindowFocus:boolean):void  {
+        super.onWindowFocusChanged(hasWindowFocus);
+        if (!hasWindowFocus && !this.mPopup.isDropDownAlwaysVisible()) {
+            this.dismissDropDown();
+        }
+    }
+
+    onDisplayHint(hint:number):void  {
+        super.onDisplayHint(hint);
+        switch(hint) {
+            case View.INVISIBLE:
+                if (!this.mPopup.isDropDownAlwaysVisible()) {
+                    this.dismissDropDown();
+                }
+                break;
+        }
+    }
+
+    protected onFocusChanged(focused:boolean, direction:number, previouslyFocusedRect:Rect):void  {
+        super.onFocusChanged(focused, direction, previouslyFocusedRect);
+        // Perform validation if the view is losing focus.
+        if (!focused) {
+            this.performValidation();
+        }
+        if (!focused && !this.mPopup.isDropDownAlwaysVisible()) {
+            this.dismissDropDown();
+        }
+    }
+
+    protected onDetachedFromWindow():void  {
+        this.dismissDropDown();
+        super.onDetachedFromWindow();
+    }
+
+    /**
+     * <p>Closes the drop down if present on screen.</p>
+     */
+    dismissDropDown():void  {
+        this.mPopup.dismiss();
+        this.mPopupCanBeUpdated = false;
+    }
+
+    protected setFrame(l:number, t:number, r:number, b:number):boolean  {
+        let result:boolean = super.setFrame(l, t, r, b);
+        if (this.isPopupShowing()) {
+            this.showDropDown();
+        }
+        return result;
+    }
+
+    /**
+     * Issues a runnable to show the dropdown as soon as possible.
+     */
+    showDropDownAfterLayout():void  {
+        this.mPopup.postShow();
+    }
+
+    /**
+     * Ensures that the drop down is not obscuring the IME.
+     * @param visible whether the ime should be in front. If false, the ime is pushed to
+     * the background.
+     */
+    ensureImeVisible(visible:boolean):void  {
+        this.mPopup.setInputMethodMode(visible ? ListPopupWindow.INPUT_METHOD_NEEDED : ListPopupWindow.INPUT_METHOD_NOT_NEEDED);
+        if (this.mPopup.isDropDownAlwaysVisible() || (this.mFilter != null && this.enoughToFilter())) {
+            this.showDropDown();
+        }
+    }
+
+    /**
+     * <p>Displays the drop down on screen.</p>
+     */
+    showDropDown():void  {
+        if (this.mPopup.getAnchorView() == null) {
+            if (this.mDropDownAnchorId != View.NO_ID) {
+                this.mPopup.setAnchorView(this.getRootView().findViewById(this.mDropDownAnchorId));
+            } else {
+                this.mPopup.setAnchorView(this);
+            }
+        }
+        if (!this.isPopupShowing()) {
+            // Make sure the list does not obscure the IME when shown for the first time.
+            this.mPopup.setInputMethodMode(ListPopupWindow.INPUT_METHOD_NEEDED);
+            this.mPopup.setListItemExpandMax(AutoCompleteTextView.EXPAND_MAX);
+        }
+        this.mPopup.show();
+        this.mPopup.getListView().setOverScrollMode(View.OVER_SCROLL_ALWAYS);
+    }
+
+    /**
+     * Forces outside touches to be ignored. Normally if {@link #isDropDownAlwaysVisible()} is
+     * false, we allow outside touch to dismiss the dropdown. If this is set to true, then we
+     * ignore outside touch even when the drop down is not set to always visible.
+     *
+     * @hide used only by SearchDialog
+     */
+    setForceIgnoreOutsideTouch(forceIgnoreOutsideTouch:boolean):void  {
+        this.mPopup.setForceIgnoreOutsideTouch(forceIgnoreOutsideTouch);
+    }
+
+    /**
+     * Sets whether the drop-down should remain visible as long as there is there is
+     * {@link #enoughToFilter()}.  This is useful if an unknown number of results are expected
+     * to show up in the adapter sometime in the future.
+     *
+     * The drop-down will occupy the entire screen below {@link #getDropDownAnchor} regardless
+     * of the size or content of the list.  {@link #getDropDownBackground()} will fill any space
+     * that is not used by the list.
+     *
+     * @param dropDownAlwaysVisible Whether to keep the drop-down visible.
+     *
+     * @hide Only used by SearchDialog
+     */
+    setDropDownAlwaysVisible(dropDownAlwaysVisible:boolean):void  {
+        this.mPopup.setDropDownAlwaysVisible(dropDownAlwaysVisible);
+    }
+
+    /**
+     * @return Whether the drop-down is visible as long as there is {@link #enoughToFilter()}.
+     * @hide
+     */
+    isDropDownAlwaysVisible():boolean  {
+        return this.mPopup.isDropDownAlwaysVisible();
+    }
+
+    /**
+     * Sets whether the drop-down should be dismissed when a suggestion is clicked. This is
+     * true by default.
+     *
+     * @param dropDownDismissedOnCompletion Whether to dismiss the drop-down.
+     *
+     * @hide Only used by SearchDialog
+     */
+    setDropDownDismissedOnCompletion(dropDownDismissedOnCompletion:boolean):void  {
+        this.mDropDownDismissedOnCompletion = dropDownDismissedOnCompletion;
+    }
+
+    /**
+     * Sets the validator used to perform text validation.
+     *
+     * @param validator The validator used to validate the text entered in this widget.
+     *
+     * @see #getValidator()
+     * @see #performValidation()
+     */
+    setValidator(validator:AutoCompleteTextView.Validator):void  {
+        this.mValidator = validator;
+    }
+
+    /**
+     * Returns the Validator set with {@link #setValidator},
+     * or <code>null</code> if it was not set.
+     *
+     * @see #setValidator(android.widget.AutoCompleteTextView.Validator)
+     * @see #performValidation()
+     */
+    getValidator():AutoCompleteTextView.Validator  {
+        return this.mValidator;
+    }
+
+    /**
+     * If a validator was set on this view and the current string is not valid,
+     * ask the validator to fix it.
+     *
+     * @see #getValidator()
+     * @see #setValidator(android.widget.AutoCompleteTextView.Validator)
+     */
+    performValidation():void  {
+        if (this.mValidator == null)
+            return;
+        let text:String = this.getText();
+        if (!TextUtils.isEmpty(text) && !this.mValidator.isValid(text)) {
+            this.setText(this.mValidator.fixText(text));
+        }
+    }
+
+    /**
+     * Returns the Filter obtained from {@link Filterable#getFilter},
+     * or <code>null</code> if {@link #setAdapter} was not called with
+     * a Filterable.
+     */
+    protected getFilter():Filter  {
+        return this.mFilter;
+    }
+}
+
+export module AutoCompleteTextView{
+/**
+ * This is used to watch for edits to the text view.  Note that we call
+ * to methods on the auto complete text view class so that we can access
+ * private vars without going through thunks.
+ */
+export class MyWatcher implements TextWatcher {
+    _AutoCompleteTextView_this:AutoCompleteTextView;
+    constructor(arg:AutoCompleteTextView){
+        this._AutoCompleteTextView_this = arg;
+    }
+
+    afterTextChanged(s:String):void  {
+        this._AutoCompleteTextView_this.doAfterTextChanged();
+    }
+
+    beforeTextChanged(s:String, start:number, count:number, after:number):void  {
+        this._AutoCompleteTextView_this.doBeforeTextChanged();
+    }
+
+    onTextChanged(s:String, start:number, before:number, count:number):void  {
+    }
+}
+
+export class DropDownItemClickListener implements AdapterView.OnItemClickListener {
+    _AutoCompleteTextView_this:AutoCompleteTextView;
+    constructor(arg:AutoCompleteTextView){
+        this._AutoCompleteTextView_this = arg;
+    }
+
+    onItemClick(parent:AdapterView<any>, v:View, position:number, id:number):void  {
+        this._AutoCompleteTextView_this.performCompletion(v, position, id);
+    }
+}
+
+/**
+ * This interface is used to make sure that the text entered in this TextView complies to
+ * a certain format.  Since there is no foolproof way to prevent the user from leaving
+ * this View with an incorrect value in it, all we can do is try to fix it ourselves
+ * when this happens.
+ */
+export interface Validator {
+
+    /**
+     * Validates the specified text.
+     *
+     * @return true If the text currently in the text editor is valid.
+     *
+     * @see #fixText(CharSequence)
+     */
+    isValid(text:String):boolean ;
+
+    /**
+     * Corrects the specified text to make it valid.
+     *
+     * @param invalidText A string that doesn't pass validation: isValid(invalidText)
+     *        returns false
+     *
+     * @return A string based on invalidText such as invoking isValid() on it returns true.
+     *
+     * @see #isValid(CharSequence)
+     */
+    fixText(invalidText:String):String ;
+}
+
+/**
+ * Allows us a private hook into the on click event without preventing users from setting
+ * their own click listener.
+ */
+export class PassThroughClickListener implements View.OnClickListener {
+    _AutoCompleteTextView_this:AutoCompleteTextView;
+    constructor(arg:AutoCompleteTextView){
+        this._AutoCompleteTextView_this = arg;
+    }
+
+    mWrapped:View.OnClickListener;
+
+    /** {@inheritDoc} */
+    onClick(v:View):void  {
+        this._AutoCompleteTextView_this.onClickImpl();
+        if (this.mWrapped != null)
+            this.mWrapped.onClick(v);
+    }
+}
+
+export class PopupDataSetObserver extends DataSetObserver {
+    _AutoCompleteTextView_this:AutoCompleteTextView;
+    constructor(arg:AutoCompleteTextView){
+        super();
+        this._AutoCompleteTextView_this = arg;
+    }
+
+    onChanged():void  {
+        if (this._AutoCompleteTextView_this.mAdapter != null) {
+            // If the popup is not showing already, showing it will cause
+            // the list of data set observers attached to the adapter to
+            // change. We can't do it from here, because we are in the middle
+            // of iterating through the list of observers.
+            this._AutoCompleteTextView_this.post({
+                run: ()=>{
+                    const adapter:ListAdapter = this._AutoCompleteTextView_this.mAdapter;
+                    if (adapter != null) {
+                        // This will re-layout, thus resetting mDataChanged, so that the
+                        // listView click listener stays responsive
+                        this._AutoCompleteTextView_this.updateDropDownForFilter(adapter.getCount());
+                    }
+                }
+            });
+        }
+    }
+}
+}
+
+}
@@ -0,0 +1,479 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/text/format/DateFormat.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../android/view/Gravity.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/FrameLayout.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+///<reference path="../../android/widget/NumberPicker.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import DateFormat = android.text.format.DateFormat;
+import Log = android.util.Log;
+import Gravity = android.view.Gravity;
+import ViewGroup = android.view.ViewGroup;
+import FrameLayout = android.widget.FrameLayout;
+import LinearLayout = android.widget.LinearLayout;
+import NumberPicker = android.widget.NumberPicker;
+
+/**
+ * This class is a widget for selecting a date. The date can be selected by a
+ * year, month, and day spinners. The min and max dates from which dates to be selected
+ * can be customized.
+ * <p>
+ * See the <a href="{@docRoot}guide/topics/ui/controls/pickers.html">Pickers</a>
+ * guide.
+ * </p>
+ * <p>
+ * For a dialog using this view, see {@link android.app.DatePickerDialog}.
+ * </p>
+ *
+ * androidui: only the spinners mode is supported, the month names come from the browser locale.
+ *
+ * @attr ref android.R.styleable#DatePicker_startYear
+ * @attr ref android.R.styleable#DatePicker_endYear
+ * @attr ref android.R.styleable#DatePicker_maxDate
+ * @attr ref android.R.styleable#DatePicker_minDate
+ */
+export class DatePicker extends FrameLayout {
+
+    private static LOG_TAG:string = "DatePicker";
+
+    private static DATE_FORMAT:RegExp = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+    private static DEFAULT_START_YEAR:number = 1900;
+
+    private static DEFAULT_END_YEAR:number = 2100;
+
+    private static DEFAULT_ENABLED_STATE:boolean = true;
+
+    private mSpinners:LinearLayout;
+
+    private mDaySpinner:NumberPicker;
+
+    private mMonthSpinner:NumberPicker;
+
+    private mYearSpinner:NumberPicker;
+
+    private mOnDateChangedListener:DatePicker.OnDateChangedListener;
+
+    private mShortMonths:string[];
+
+    private mNumberOfMonths:number = 12;
+
+    private mMinDate:Date = new Date(DatePicker.DEFAULT_START_YEAR, 0, 1);
+
+    private mMaxDate:Date = new Date(DatePicker.DEFAULT_END_YEAR, 11, 31);
+
+    private mCurrentDate:Date = new Date();
+
+    private mIsEnabled:boolean = DatePicker.DEFAULT_ENABLED_STATE;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle = android.R.attr.datePickerStyle) {
+        super(context, bindElement, null);
+        this.mShortMonths = DatePicker.getShortMonths();
+
+        let onChangeListener:NumberPicker.OnValueChangeListener = {
+            onValueChange: (picker:NumberPicker, oldVal:number, newVal:number)=>{
+                let tempDate = new Date(this.mCurrentDate.getTime());
+                // take care of wrapping of days and months to update greater fields
+                if (picker == this.mDaySpinner) {
+                    let maxDayOfMonth = DatePicker.getDaysOfMonth(tempDate.getFullYear(), tempDate.getMonth());
+                    if (oldVal == maxDayOfMonth && newVal == 1) {
+                        tempDate.setDate(tempDate.getDate() + 1);
+                    } else if (oldVal == 1 && newVal == maxDayOfMonth) {
+                        tempDate.setDate(tempDate.getDate() - 1);
+                    } else {
+                        tempDate.setDate(tempDate.getDate() + newVal - oldVal);
+                    }
+                } else if (picker == this.mMonthSpinner) {
+                    let month:number;
+                    if (oldVal == 11 && newVal == 0) {
+                        month = tempDate.getMonth() + 1;
+                    } else if (oldVal == 0 && newVal == 11) {
+                        month = tempDate.getMonth() - 1;
+                    } else {
+                        month = tempDate.getMonth() + newVal - oldVal;
+                    }
+                    DatePicker.setDatePinned(tempDate, tempDate.getFullYear(), month, tempDate.getDate());
+                } else if (picker == this.mYearSpinner) {
+                    DatePicker.setDatePinned(tempDate, newVal, tempDate.getMonth(), tempDate.getDate());
+                } else {
+                    throw Error(`new IllegalArgumentException()`);
+                }
+                // now set the date to the adjusted one
+                this.setDate(tempDate.getFullYear(), tempDate.getMonth(), tempDate.getDate());
+                this.updateSpinners();
+                this.notifyDateChanged();
+            }
+        };
+
+        this.mSpinners = new LinearLayout(context);
+        this.mSpinners.setOrientation(LinearLayout.HORIZONTAL);
+        this.addView(this.mSpinners, new FrameLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT,
+            ViewGroup.LayoutParams.WRAP_CONTENT, Gravity.CENTER_HORIZONTAL));
+
+        // day
+        this.mDaySpinner = new NumberPicker(context);
+        this.mDaySpinner.setFormatter(NumberPicker.getTwoDigitFormatter());
+        this.mDaySpinner.setOnLongPressUpdateInterval(100);
+        this.mDaySpinner.setOnValueChangedListener(onChangeListener);
+
+        // month
+        this.mMonthSpinner = new NumberPicker(context);
+        this.mMonthSpinner.setMinValue(0);
+        this.mMonthSpinner.setMaxValue(this.mNumberOfMonths - 1);
+        this.mMonthSpinner.setDisplayedValues(this.mShortMonths);
+        this.mMonthSpinner.setOnLongPressUpdateInterval(200);
+        this.mMonthSpinner.setOnValueChangedListener(onChangeListener);
+
+        // year
+        this.mYearSpinner = new NumberPicker(context);
+        this.mYearSpinner.setOnLongPressUpdateInterval(100);
+        this.mYearSpinner.setOnValueChangedListener(onChangeListener);
+
+        // re-order the number spinners to match the current date format
+        this.reorderSpinners();
+
+        const a = this._attrBinder;
+        a.addAttr('startYear', (value)=>{
+            let startYear = a.parseNumber(value, DatePicker.DEFAULT_START_YEAR);
+            this.setMinDate(new Date(startYear, 0, 1).getTime());
+        }, ()=>{
+            return this.mMinDate.getFullYear();
+        });
+        a.addAttr('endYear', (value)=>{
+            let endYear = a.parseNumber(value, DatePicker.DEFAULT_END_YEAR);
+            this.setMaxDate(new Date(endYear, 11, 31).getTime());
+        }, ()=>{
+            return this.mMaxDate.getFullYear();
+        });
+        a.addAttr('minDate', (value)=>{
+            let date = DatePicker.parseDate(value);
+            if (date != null) this.setMinDate(date.getTime());
+        });
+        a.addAttr('maxDate', (value)=>{
+            let date = DatePicker.parseDate(value);
+            if (date != null) this.setMaxDate(date.getTime());
+        });
+        if(defStyle!=null) this.applyDefaultAttributes(defStyle);
+
+        // initialize to current date
+        let now = new Date();
+        this.init(now.getFullYear(), now.getMonth(), now.getDate(), null);
+    }
+
+    /**
+     * Gets the minimal date supported by this {@link DatePicker} in
+     * milliseconds since January 1, 1970 00:00:00 in local time zone.
+     * <p>
+     * Note: The default minimal date is 01/01/1900.
+     * <p>
+     *
+     * @return The minimal supported date.
+     */
+    getMinDate():number  {
+        return this.mMinDate.getTime();
+    }
+
+    /**
+     * Sets the minimal date supported by this {@link NumberPicker} in
+     * milliseconds since January 1, 1970 00:00:00 in local time zone.
+     *
+     * @param minDate The minimal supported date.
+     */
+    setMinDate(minDate:number):void  {
+        let tempDate = new Date(minDate);
+        if (tempDate.getFullYear() == this.mMinDate.getFullYear()
+            && DatePicker.isSameDayOfYear(tempDate, this.mMinDate)) {
+            return;
+        }
+        this.mMinDate = tempDate;
+        if (this.mCurrentDate.getTime() < this.mMinDate.getTime()) {
+            this.mCurrentDate.setTime(this.mMinDate.getTime());
+        }
+        this.updateSpinners();
+    }
+
+    /**
+     * Gets the maximal date supported by this {@link DatePicker} in
+     * milliseconds since January 1, 1970 00:00:00 in local time zone.
+     * <p>
+     * Note: The default maximal date is 12/31/2100.
+     * <p>
+     *
+     * @return The maximal supported date.
+     */
+    getMaxDate():number  {
+        return this.mMaxDate.getTime();
+    }
+
+    /**
+     * Sets the maximal date supported by this {@link DatePicker} in
+     * milliseconds since January 1, 1970 00:00:00 in local time zone.
+     *
+     * @param maxDate The maximal supported date.
+     */
+    setMaxDate(maxDate:number):void  {
+        let tempDate = new Date(maxDate);
+        if (tempDate.getFullYear() == this.mMaxDate.getFullYear()
+            && DatePicker.isSameDayOfYear(tempDate, this.mMaxDate)) {
+            return;
+        }
+        this.mMaxDate = tempDate;
+        if (this.mCurrentDate.getTime() > this.mMaxDate.getTime()) {
+            this.mCurrentDate.setTime(this.mMaxDate.getTime());
+        }
+        this.updateSpinners();
+    }
+
+    setEnabled(enabled:boolean):void  {
+        if (this.mIsEnabled == enabled) {
+            return;
+        }
+        super.setEnabled(enabled);
+        this.mDaySpinner.setEnabled(enabled);
+        this.mMonthSpinner.setEnabled(enabled);
+        this.mYearSpinner.setEnabled(enabled);
+        this.mIsEnabled = enabled;
+    }
+
+    isEnabled():boolean  {
+        return this.mIsEnabled;
+    }
+
+    /**
+     * Reorders the spinners according to the date format that is
+     * explicitly set by the user and if no such is set fall back
+     * to the current locale's default format.
+     */
+    private reorderSpinners():void  {
+        this.mSpinners.removeAllViews();
+        let order = DateFormat.getDateFormatOrder();
+        for (let i = 0; i < order.length; i++) {
+            switch(order[i]) {
+                case DateFormat.DATE:
+                    this.addSpinner(this.mDaySpinner);
+                    break;
+                case DateFormat.MONTH:
+                    this.addSpinner(this.mMonthSpinner);
+                    break;
+                case DateFormat.YEAR:
+                    this.addSpinner(this.mYearSpinner);
+                    break;
+                default:
+                    throw Error(`new IllegalArgumentException(${order})`);
+            }
+        }
+    }
+
+    private addSpinner(spinner:NumberPicker):void  {
+        const margin = Math.floor(8 * this.getResources().getDisplayMetrics().density);
+        let params = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        params.setMargins(margin, 0, margin, 0);
+        this.mSpinners.addView(spinner, params);
+    }
+
+    /**
+     * Updates the current date.
+     *
+     * @param year The year.
+     * @param month The month which is <strong>starting from zero</strong>.
+     * @param dayOfMonth The day of the month.
+     */
+    updateDate(year:number, month:number, dayOfMonth:number):void  {
+        if (!this.isNewDate(year, month, dayOfMonth)) {
+            return;
+        }
+        this.setDate(year, month, dayOfMonth);
+        this.updateSpinners();
+        this.notifyDateChanged();
+    }
+
+    /**
+     * Initialize the state. If the provided values designate an inconsistent
+     * date the values are normalized before updating the spinners.
+     *
+     * @param year The initial year.
+     * @param monthOfYear The initial month <strong>starting from zero</strong>.
+     * @param dayOfMonth The initial day of the month.
+     * @param onDateChangedListener How user is notified date is changed by
+     *            user, can be null.
+     */
+    init(year:number, monthOfYear:number, dayOfMonth:number, onDateChangedListener:DatePicker.OnDateChangedListener):void  {
+        this.setDate(year, monthOfYear, dayOfMonth);
+        this.updateSpinners();
+        this.mOnDateChangedListener = onDateChangedListener;
+    }
+
+    /**
+     * Set the callback that indicates the date has been adjusted by the user.
+     *
+     * @param onDateChangedListener How user is notified date is changed by
+     *            user, can be null.
+     */
+    setOnDateChangedListener(onDateChangedListener:DatePicker.OnDateChangedListener):void  {
+        this.mOnDateChangedListener = onDateChangedListener;
+    }
+
+    private isNewDate(year:number, month:number, dayOfMonth:number):boolean  {
+        return (this.mCurrentDate.getFullYear() != year || this.mCurrentDate.getMonth() != month
+            || this.mCurrentDate.getDate() != dayOfMonth);
+    }
+
+    private setDate(year:number, month:number, dayOfMonth:number):void  {
+        this.mCurrentDate = new Date(year, month, dayOfMonth);
+        if (this.mCurrentDate.getTime() < this.mMinDate.getTime()) {
+            this.mCurrentDate.setTime(this.mMinDate.getTime());
+        } else if (this.mCurrentDate.getTime() > this.mMaxDate.getTime()) {
+            this.mCurrentDate.setTime(this.mMaxDate.getTime());
+        }
+    }
+
+    private updateSpinners():void  {
+        if (this.mDaySpinner == null) {
+            return;
+        }
+        const year = this.mCurrentDate.getFullYear();
+        const month = this.mCurrentDate.getMonth();
+        const inMinYear = year == this.mMinDate.getFullYear();
+        const inMaxYear = year == this.mMaxDate.getFullYear();
+        const inMinMonth = inMinYear && month == this.mMinDate.getMonth();
+        const inMaxMonth = inMaxYear && month == this.mMaxDate.getMonth();
+
+        this.mDaySpinner.setMinValue(inMinMonth ? this.mMinDate.getDate() : 1);
+        this.mDaySpinner.setMaxValue(inMaxMonth ? this.mMaxDate.getDate() : DatePicker.getDaysOfMonth(year, month));
+        this.mDaySpinner.setWrapSelectorWheel(!inMinMonth && !inMaxMonth);
+
+        this.mMonthSpinner.setDisplayedValues(null);
+        this.mMonthSpinner.setMinValue(inMinYear ? this.mMinDate.getMonth() : 0);
+        this.mMonthSpinner.setMaxValue(inMaxYear ? this.mMaxDate.getMonth() : this.mNumberOfMonths - 1);
+        this.mMonthSpinner.setWrapSelectorWheel(!inMinYear && !inMaxYear);
+        // make sure the month names are a zero based array
+        // with the months in the month spinner
+        let displayedValues = this.mShortMonths.slice(this.mMonthSpinner.getMinValue(), this.mMonthSpinner.getMaxValue() + 1);
+        this.mMonthSpinner.setDisplayedValues(displayedValues);
+
+        // year spinner range does not change based on the current date
+        this.mYearSpinner.setMinValue(this.mMinDate.getFullYear());
+        this.mYearSpinner.setMaxValue(this.mMaxDate.getFullYear());
+        this.mYearSpinner.setWrapSelectorWheel(false);
+
+        // set the spinner values
+        this.mYearSpinner.setValue(year);
+        this.mMonthSpinner.setValue(month);
+        this.mDaySpinner.setValue(this.mCurrentDate.getDate());
+    }
+
+    /**
+     * @return The selected year.
+     */
+    getYear():number  {
+        return this.mCurrentDate.getFullYear();
+    }
+
+    /**
+     * @return The selected month.
+     */
+    getMonth():number  {
+        return this.mCurrentDate.getMonth();
+    }
+
+    /**
+     * @return The selected day of month.
+     */
+    getDayOfMonth():number  {
+        return this.mCurrentDate.getDate();
+    }
+
+    /**
+     * Notifies the listener, if such, for a change in the selected date.
+     */
+    private notifyDateChanged():void  {
+        if (this.mOnDateChangedListener != null) {
+            this.mOnDateChangedListener.onDateChanged(this, this.getYear(), this.getMonth(), this.getDayOfMonth());
+        }
+    }
+
+    /**
+     * Sets the date, pinning the day of month to the last day of the target
+     * month as {@link java.util.Calendar#add} does, so Jan 31 + 1 month is
+     * the end of February and Feb 29 of a leap year - 1 year is Feb 28.
+     */
+    private static setDatePinned(date:Date, year:number, month:number, dayOfMonth:number):void  {
+        let firstDayOfMonth = new Date(year, month, 1);
+        let maxDayOfMonth = DatePicker.getDaysOfMonth(firstDayOfMonth.getFullYear(), firstDayOfMonth.getMonth());
+        date.setFullYear(firstDayOfMonth.getFullYear(), firstDayOfMonth.getMonth(), Math.min(dayOfMonth, maxDayOfMonth));
+    }
+
+    private static getDaysOfMonth(year:number, month:number):number  {
+        // day 0 of the next month is the last day of this month, leap years included
+        return new Date(year, month + 1, 0).getDate();
+    }
+
+    private static isSameDayOfYear(date1:Date, date2:Date):boolean  {
+        return date1.getMonth() == date2.getMonth() && date1.getDate() == date2.getDate();
+    }
+
+    private static getShortMonths():string[]  {
+        let locales = navigator.language ? [navigator.language] : undefined;
+        let months:string[] = [];
+        for (let i = 0; i < 12; i++) {
+            months.push(new Date(2000, i, 1).toLocaleDateString(locales, { month: 'short' }));
+        }
+        return months;
+    }
+
+    /**
+     * Parses the given <code>date</code> in the format "MM/dd/yyyy".
+     *
+     * @return The parsed date, null if the format is wrong.
+     */
+    private static parseDate(date:string):Date  {
+        let match = DatePicker.DATE_FORMAT.exec((date || '').trim());
+        if (match == null) {
+            Log.w(DatePicker.LOG_TAG, 'Date: ' + date + ' not in format: MM/dd/yyyy');
+            return null;
+        }
+        return new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2]));
+    }
+}
+
+export module DatePicker{
+/**
+ * The callback used to indicate the user changed the date.
+ */
+export interface OnDateChangedListener {
+
+    /**
+     * Called upon a date change.
+     *
+     * @param view The view associated with this listener.
+     * @param year The year that was set.
+     * @param monthOfYear The month that was set (0-11) for compatibility
+     *            with {@link java.util.Calendar}.
+     * @param dayOfMonth The day of the month that was set.
+     */
+    onDateChanged(view:DatePicker, year:number, monthOfYear:number, dayOfMonth:number):void ;
+}
+}
+
+}
@@ -131,6 +131,8 @@ export class EditText extends TextView {
             this.setForceDisableDrawText(true);
         }
         this.setText(text);
+        //androidui add: setText(string) don't send afterTextChanged, the watchers (e.g. AutoCompleteTextView filter) need it for typed input
+        this.sendAfterTextChanged(this.getText());
     }
     private switchToSingleLineInputElement(){
         if(!this.mSingleLineInputElement){
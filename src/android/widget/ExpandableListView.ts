@@ -373,6 +373,7 @@ export class ExpandableListView extends ListView {
         super.dispatchDraw(canvas);
         // If we have any indicators to draw, we do it here
         if ((this.mChildIndicator == null) && (this.mGroupIndicator == null)) {
+            super.dispatchDrawPinnedSection(canvas);
             return;
         }
         let saveCount:number = 0;
@@ -461,6 +462,75 @@ export class ExpandableListView extends ListView {
         if (clipToPadding) {
             canvas.restoreToCount(saveCount);
         }
+        // The pinned group goes above the indicators of the items it covers
+        super.dispatchDrawPinnedSection(canvas);
+    }
+
+    protected dispatchDrawPinnedSection(canvas:Canvas):void  {
+        // Drawn at the end of our own dispatchDraw, see above
+    }
+
+    protected drawPinnedSectionView(canvas:Canvas, view:View):void  {
+        super.drawPinnedSectionView(canvas, view);
+        if (this.mGroupIndicator == null || this.mPinnedSection == null) {
+            return;
+        }
+        const indicatorRect:Rect = this.mIndicatorRect;
+        if (this.isLayoutRtl()) {
+            const width:number = this.getWidth();
+            indicatorRect.left = width - this.mIndicatorRight - this.mPaddingRight;
+            indicatorRect.right = width - this.mIndicatorLeft - this.mPaddingRight;
+        } else {
+            indicatorRect.left = this.mIndicatorLeft + this.mPaddingLeft;
+            indicatorRect.right = this.mIndicatorRight + this.mPaddingLeft;
+        }
+        if (indicatorRect.left == indicatorRect.right) {
+            return;
+        }
+        // The canvas is translated to the pinned view, which starts at the list padding
+        indicatorRect.offset(-this.getListPaddingLeft(), 0);
+        indicatorRect.top = 0;
+        indicatorRect.bottom = view.getHeight();
+        const pos:PositionMetadata = this.mConnector.getUnflattenedPos(
+            this.getFlatPositionForConnector(this.mPinnedSection.position));
+        const indicator:Drawable = this.getIndicator(pos);
+        if (indicator != null) {
+            indicator.setBounds(indicatorRect);
+            indicator.draw(canvas);
+        }
+        pos.recycle();
+    }
+
+    protected isPinnedSectionPosition(position:number):boolean  {
+        if (this.mAdapter == null || position < 0 || position >= this.mItemCount) {
+            return false;
+        }
+        const packedPosition:number = this.getExpandableListPosition(position);
+        return packedPosition != ExpandableListView.PACKED_POSITION_VALUE_NULL
+            && ExpandableListView.getPackedPositionType(packedPosition) == ExpandableListView.PACKED_POSITION_TYPE_GROUP;
+    }
+
+    protected findCurrentSectionPosition(fromPosition:number):number  {
+        if (this.isHeaderOrFooterPosition(fromPosition)) {
+            return -1;
+        }
+        const groupPosition:number = ExpandableListView.getPackedPositionGroup(this.getExpandableListPosition(fromPosition));
+        return this.getFlatListPosition(ExpandableListView.getPackedPositionForGroup(groupPosition));
+    }
+
+    protected performPinnedSectionClick():boolean  {
+        const pinned = this.mPinnedSection;
+        if (pinned == null) {
+            return false;
+        }
+        const groupPosition:number = ExpandableListView.getPackedPositionGroup(this.getExpandableListPosition(pinned.position));
+        const wasExpanded:boolean = this.isGroupExpanded(groupPosition);
+        const handled:boolean = super.performPinnedSectionClick();
+        if (wasExpanded && !this.isGroupExpanded(groupPosition)) {
+            // The group's children scrolled out with it, keep the collapsed group in sight
+            this.setSelectedGroup(groupPosition);
+        }
+        return handled;
     }
 
     /**
@@ -0,0 +1,867 @@
+/*
+ * Copyright (C) 2008 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/graphics/Canvas.ts"/>
+///<reference path="../../android/graphics/Paint.ts"/>
+///<reference path="../../android/graphics/Rect.ts"/>
+///<reference path="../../android/graphics/RectF.ts"/>
+///<reference path="../../android/graphics/Color.ts"/>
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/os/Handler.ts"/>
+///<reference path="../../android/os/SystemClock.ts"/>
+///<reference path="../../android/view/MotionEvent.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewConfiguration.ts"/>
+///<reference path="../../android/content/res/Resources.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+///<reference path="../../android/widget/Adapter.ts"/>
+///<reference path="../../android/widget/SectionIndexer.ts"/>
+///<reference path="../../android/R/drawable.ts"/>
+
+module android.widget {
+import Canvas = android.graphics.Canvas;
+import Paint = android.graphics.Paint;
+import Rect = android.graphics.Rect;
+import RectF = android.graphics.RectF;
+import Color = android.graphics.Color;
+import Drawable = android.graphics.drawable.Drawable;
+import Handler = android.os.Handler;
+import SystemClock = android.os.SystemClock;
+import MotionEvent = android.view.MotionEvent;
+import View = android.view.View;
+import ViewConfiguration = android.view.ViewConfiguration;
+import Resources = android.content.res.Resources;
+import Runnable = java.lang.Runnable;
+
+/**
+ * Helper class for AbsListView to draw and control the Fast Scroll thumb
+ * <p>
+ * AndroidUI: the thumb, track and section preview are drawn straight onto the list's canvas
+ * (see {@link AbsListView#draw}) instead of being hosted in the list's overlay.
+ */
+export class FastScroller {
+
+    private static TAG:string = "FastScroller";
+
+    // Minimum number of pages to justify showing a fast scroll thumb
+    private static MIN_PAGES:number = 4;
+
+    // Scroll thumb not showing
+    static STATE_NONE:number = 0;
+
+    // Not implemented yet - fade-in transition
+    static STATE_ENTER:number = 1;
+
+    // Scroll thumb visible and moving along with the scrollbar
+    static STATE_VISIBLE:number = 2;
+
+    // Scroll thumb being dragged by user
+    static STATE_DRAGGING:number = 3;
+
+    // Scroll thumb fading out due to inactivity timeout
+    static STATE_EXIT:number = 4;
+
+    /**
+     * Delay before considering a tap in the thumb area to be a drag.
+     */
+    private static PENDING_DRAG_DELAY:number = 180;
+
+    private static FADE_TIMEOUT:number = 1500;
+
+    private static OVERLAY_SIZE_DP:number = 104;
+
+    private mThumbDrawable:Drawable;
+
+    private mOverlayDrawable:Drawable;
+
+    private mTrackDrawable:Drawable;
+
+    mThumbH:number = 0;
+
+    mThumbW:number = 0;
+
+    mThumbY:number = 0;
+
+    private mOverlayPos:RectF;
+
+    private mOverlaySize:number = 0;
+
+    mList:AbsListView;
+
+    mScrollCompleted:boolean;
+
+    private mVisibleItem:number = 0;
+
+    private mPaint:Paint;
+
+    private mListOffset:number = 0;
+
+    private mItemCount:number = -1;
+
+    private mLongList:boolean;
+
+    private mSections:any[];
+
+    private mSectionText:string;
+
+    private mDrawOverlay:boolean;
+
+    private mScrollFade:FastScroller.ScrollFade;
+
+    private mState:number = 0;
+
+    private mHandler:Handler = new Handler();
+
+    mListAdapter:Adapter;
+
+    private mSectionIndexer:SectionIndexer;
+
+    private mChangedBounds:boolean;
+
+    private mPosition:number = 0;
+
+    private mAlwaysShow:boolean;
+
+    private mEnabled:boolean;
+
+    private mScrollBarStyle:number = 0;
+
+    mInitialTouchY:number = 0;
+
+    mPendingDrag:boolean;
+
+    private mScaledTouchSlop:number = 0;
+
+    private mTmpRect:Rect = new Rect();
+
+    private mDeferStartDrag:Runnable = {
+        run: ()=>{
+            if (this.mList.isAttachedToWindow()) {
+                this.beginDrag();
+                const viewHeight = this.mList.getHeight();
+                // Jitter
+                let newThumbY = Math.floor(this.mInitialTouchY) - this.mThumbH + 10;
+                if (newThumbY < 0) {
+                    newThumbY = 0;
+                } else if (newThumbY + this.mThumbH > viewHeight) {
+                    newThumbY = viewHeight - this.mThumbH;
+                }
+                this.mThumbY = newThumbY;
+                this.scrollTo(this.mThumbY / (viewHeight - this.mThumbH));
+            }
+            this.mPendingDrag = false;
+        }
+    };
+
+    constructor(listView:AbsListView) {
+        this.mList = listView;
+        this.init();
+    }
+
+    /**
+     * Enables or disables fast scrolling. A disabled fast scroller hides its thumb and ignores
+     * touch events until it is enabled again.
+     */
+    setEnabled(enabled:boolean):void  {
+        if (this.mEnabled == enabled) {
+            return;
+        }
+        this.mEnabled = enabled;
+        if (enabled) {
+            this.mItemCount = -1;
+            this.mChangedBounds = true;
+            if (this.mAlwaysShow) {
+                this.setState(FastScroller.STATE_VISIBLE);
+            }
+        } else {
+            this.cancelPendingDrag();
+            this.stop();
+        }
+    }
+
+    isEnabled():boolean  {
+        return this.mEnabled;
+    }
+
+    setAlwaysShow(alwaysShow:boolean):void  {
+        this.mAlwaysShow = alwaysShow;
+        if (alwaysShow) {
+            this.mHandler.removeCallbacks(this.mScrollFade);
+            if (this.mEnabled) {
+                this.setState(FastScroller.STATE_VISIBLE);
+            }
+        } else if (this.mState == FastScroller.STATE_VISIBLE) {
+            this.mHandler.postDelayed(this.mScrollFade, FastScroller.FADE_TIMEOUT);
+        }
+    }
+
+    isAlwaysShowEnabled():boolean  {
+        return this.mAlwaysShow;
+    }
+
+    private refreshDrawableState():void  {
+        let state = this.mState == FastScroller.STATE_DRAGGING ? View.PRESSED_STATE_SET : View.EMPTY_STATE_SET;
+        if (this.mThumbDrawable != null && this.mThumbDrawable.isStateful()) {
+            this.mThumbDrawable.setState(state);
+        }
+        if (this.mTrackDrawable != null && this.mTrackDrawable.isStateful()) {
+            this.mTrackDrawable.setState(state);
+        }
+    }
+
+    setScrollbarPosition(position:number):void  {
+        if (position == View.SCROLLBAR_POSITION_DEFAULT) {
+            position = this.mList.isLayoutRtl() ? View.SCROLLBAR_POSITION_LEFT : View.SCROLLBAR_POSITION_RIGHT;
+        }
+        this.mPosition = position;
+        this.mChangedBounds = true;
+        if (this.mState != FastScroller.STATE_NONE) {
+            this.resetThumbPos();
+            this.mList.invalidate();
+        }
+    }
+
+    setScrollBarStyle(style:number):void  {
+        this.mScrollBarStyle = style;
+    }
+
+    /**
+     * Re-reads the list size after its padding or scrollbar settings change.
+     */
+    updateLayout():void  {
+        this.setScrollbarPosition(this.mList.getVerticalScrollbarPosition());
+        if (this.mList.getWidth() > 0 && this.mList.getHeight() > 0) {
+            this.onSizeChanged(this.mList.getWidth(), this.mList.getHeight(), 0, 0);
+        }
+    }
+
+    getWidth():number  {
+        return this.mThumbW;
+    }
+
+    setState(state:number):void  {
+        switch(state) {
+            case FastScroller.STATE_NONE:
+                this.mHandler.removeCallbacks(this.mScrollFade);
+                this.mList.invalidate();
+                break;
+            case FastScroller.STATE_VISIBLE:
+                if (this.mState != FastScroller.STATE_VISIBLE) {
+                    // Optimization
+                    this.resetThumbPos();
+                }
+            // Fall through
+            case FastScroller.STATE_DRAGGING:
+                this.mHandler.removeCallbacks(this.mScrollFade);
+                break;
+            case FastScroller.STATE_EXIT:
+                const viewWidth = this.mList.getWidth();
+                const top = this.mThumbY;
+                const bottom = this.mThumbY + this.mThumbH;
+                let left:number;
+                let right:number;
+                if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+                    left = 0;
+                    right = this.mThumbW;
+                } else {
+                    left = viewWidth - this.mThumbW;
+                    right = viewWidth;
+                }
+                this.mList.invalidate(left, top, right, bottom);
+                break;
+        }
+        this.mState = state;
+        this.refreshDrawableState();
+    }
+
+    getState():number  {
+        return this.mState;
+    }
+
+    private resetThumbPos():void  {
+        const viewWidth = this.mList.getWidth();
+        // Bounds are always top right. Y coordinate get's translated during draw
+        if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+            this.mThumbDrawable.setBounds(0, 0, this.mThumbW, this.mThumbH);
+        } else {
+            this.mThumbDrawable.setBounds(viewWidth - this.mThumbW, 0, viewWidth, this.mThumbH);
+        }
+        this.mThumbDrawable.setAlpha(FastScroller.ScrollFade.ALPHA_MAX);
+    }
+
+    private useThumbDrawable(drawable:Drawable):void  {
+        this.mThumbDrawable = drawable;
+        this.mThumbW = drawable.getIntrinsicWidth();
+        this.mThumbH = drawable.getIntrinsicHeight();
+        this.mChangedBounds = true;
+    }
+
+    private init():void  {
+        this.useThumbDrawable(android.R.drawable.fastscroll_thumb_holo);
+        this.mTrackDrawable = android.R.drawable.fastscroll_track_holo;
+        this.mOverlayDrawable = android.R.drawable.fastscroll_label_holo;
+        this.mScrollCompleted = true;
+        this.getSectionsFromIndexer();
+        this.mOverlaySize = Math.floor(FastScroller.OVERLAY_SIZE_DP * Resources.getDisplayMetrics().density);
+        this.mOverlayPos = new RectF();
+        this.mScrollFade = new FastScroller.ScrollFade(this);
+        this.mPaint = new Paint();
+        this.mPaint.setAntiAlias(true);
+        this.mPaint.setTextAlign(Paint.Align.CENTER);
+        this.mPaint.setTextSize(this.mOverlaySize / 2);
+        this.mPaint.setColor(Color.WHITE);
+        this.mPaint.setStyle(Paint.Style.FILL_AND_STROKE);
+        // to show mOverlayDrawable properly
+        if (this.mList.getWidth() > 0 && this.mList.getHeight() > 0) {
+            this.onSizeChanged(this.mList.getWidth(), this.mList.getHeight(), 0, 0);
+        }
+        this.mState = FastScroller.STATE_NONE;
+        this.refreshDrawableState();
+        this.mScaledTouchSlop = ViewConfiguration.get().getScaledTouchSlop();
+        this.setScrollbarPosition(this.mList.getVerticalScrollbarPosition());
+    }
+
+    stop():void  {
+        this.setState(FastScroller.STATE_NONE);
+    }
+
+    isVisible():boolean  {
+        return !(this.mState == FastScroller.STATE_NONE);
+    }
+
+    draw(canvas:Canvas):void  {
+        if (this.mState == FastScroller.STATE_NONE) {
+            // No need to draw anything
+            return;
+        }
+        const y = this.mThumbY;
+        const viewWidth = this.mList.getWidth();
+        const scrollFade = this.mScrollFade;
+        let alpha = -1;
+        if (this.mState == FastScroller.STATE_EXIT) {
+            alpha = scrollFade.getAlpha();
+            if (alpha < FastScroller.ScrollFade.ALPHA_MAX / 2) {
+                this.mThumbDrawable.setAlpha(alpha * 2);
+            }
+            let left = 0;
+            if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+                left = -this.mThumbW + Math.floor((this.mThumbW * alpha) / FastScroller.ScrollFade.ALPHA_MAX);
+            } else {
+                left = viewWidth - Math.floor((this.mThumbW * alpha) / FastScroller.ScrollFade.ALPHA_MAX);
+            }
+            this.mThumbDrawable.setBounds(left, 0, left + this.mThumbW, this.mThumbH);
+            this.mChangedBounds = true;
+        }
+        if (this.mTrackDrawable != null) {
+            const thumbBounds = this.mThumbDrawable.getBounds();
+            const left = thumbBounds.left;
+            const halfThumbHeight = Math.floor((thumbBounds.bottom - thumbBounds.top) / 2);
+            const trackWidth = this.mTrackDrawable.getIntrinsicWidth();
+            const trackLeft = Math.floor((left + this.mThumbW / 2) - trackWidth / 2);
+            this.mTrackDrawable.setBounds(trackLeft, halfThumbHeight, trackLeft + trackWidth, this.mList.getHeight() - halfThumbHeight);
+            this.mTrackDrawable.draw(canvas);
+        }
+        canvas.translate(0, y);
+        this.mThumbDrawable.draw(canvas);
+        canvas.translate(0, -y);
+        // If user is dragging the scroll bar, draw the alphabet overlay
+        if (this.mState == FastScroller.STATE_DRAGGING && this.mDrawOverlay) {
+            const overlay = this.mOverlayDrawable;
+            const paint = this.mPaint;
+            let descent = paint.descent();
+            const rectF = this.mOverlayPos;
+            const tmpRect = this.mTmpRect;
+            overlay.setBounds(Math.floor(rectF.left), Math.floor(rectF.top), Math.floor(rectF.right), Math.floor(rectF.bottom));
+            overlay.getPadding(tmpRect);
+            const hOff = Math.floor((tmpRect.right - tmpRect.left) / 2);
+            const vOff = Math.floor((tmpRect.bottom - tmpRect.top) / 2);
+            overlay.draw(canvas);
+            canvas.drawText(this.mSectionText, Math.floor((rectF.left + rectF.right) / 2) - hOff,
+                Math.floor((rectF.bottom + rectF.top) / 2) + this.mOverlaySize / 4 - descent - vOff, paint);
+        } else if (this.mState == FastScroller.STATE_EXIT) {
+            if (alpha == 0) {
+                // Done with exit
+                this.setState(FastScroller.STATE_NONE);
+            } else {
+                let left:number, right:number, top:number, bottom:number;
+                if (this.mTrackDrawable != null) {
+                    top = 0;
+                    bottom = this.mList.getHeight();
+                } else {
+                    top = y;
+                    bottom = y + this.mThumbH;
+                }
+                if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+                    left = 0;
+                    right = this.mThumbW;
+                } else {
+                    left = viewWidth - this.mThumbW;
+                    right = viewWidth;
+                }
+                this.mList.invalidate(left, top, right, bottom);
+            }
+        }
+    }
+
+    onSizeChanged(w:number, h:number, oldw:number, oldh:number):void  {
+        if (this.mThumbDrawable != null) {
+            if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+                this.mThumbDrawable.setBounds(0, 0, this.mThumbW, this.mThumbH);
+            } else {
+                this.mThumbDrawable.setBounds(w - this.mThumbW, 0, w, this.mThumbH);
+            }
+        }
+        const pos = this.mOverlayPos;
+        pos.left = Math.floor((w - this.mOverlaySize) / 2);
+        pos.right = pos.left + this.mOverlaySize;
+        // 10% from top
+        pos.top = Math.floor(h / 10);
+        pos.bottom = pos.top + this.mOverlaySize;
+        if (this.mOverlayDrawable != null) {
+            this.mOverlayDrawable.setBounds(pos.left, pos.top, pos.right, pos.bottom);
+        }
+    }
+
+    onItemCountChanged(totalItemCount:number):void  {
+        // Recompute whether the list is long enough on the next scroll
+        this.mItemCount = -1;
+        if (this.mAlwaysShow) {
+            this.mLongList = true;
+        }
+    }
+
+    onScroll(firstVisibleItem:number, visibleItemCount:number, totalItemCount:number):void  {
+        if (!this.mEnabled) {
+            return;
+        }
+        // Are there enough pages to require fast scroll? Recompute only if total count changes
+        if (this.mItemCount != totalItemCount && visibleItemCount > 0) {
+            this.mItemCount = totalItemCount;
+            this.mLongList = this.mItemCount / visibleItemCount >= FastScroller.MIN_PAGES;
+        }
+        if (this.mAlwaysShow) {
+            this.mLongList = true;
+        }
+        if (!this.mLongList) {
+            if (this.mState != FastScroller.STATE_NONE) {
+                this.setState(FastScroller.STATE_NONE);
+            }
+            return;
+        }
+        if (totalItemCount - visibleItemCount > 0 && this.mState != FastScroller.STATE_DRAGGING) {
+            this.mThumbY = this.getThumbPositionForListPosition(firstVisibleItem, visibleItemCount, totalItemCount);
+            if (this.mChangedBounds) {
+                this.resetThumbPos();
+                this.mChangedBounds = false;
+            }
+        }
+        this.mScrollCompleted = true;
+        if (firstVisibleItem == this.mVisibleItem && (this.mState != FastScroller.STATE_NONE || !this.mAlwaysShow)) {
+            return;
+        }
+        this.mVisibleItem = firstVisibleItem;
+        if (this.mState != FastScroller.STATE_DRAGGING) {
+            this.setState(FastScroller.STATE_VISIBLE);
+            if (!this.mAlwaysShow) {
+                this.mHandler.postDelayed(this.mScrollFade, FastScroller.FADE_TIMEOUT);
+            }
+        }
+    }
+
+    getSectionIndexer():SectionIndexer  {
+        return this.mSectionIndexer;
+    }
+
+    getSections():any[]  {
+        if (this.mListAdapter == null && this.mList != null) {
+            this.getSectionsFromIndexer();
+        }
+        return this.mSections;
+    }
+
+    getSectionsFromIndexer():void  {
+        let adapter:Adapter = this.mList.getAdapter();
+        this.mSectionIndexer = null;
+        this.mListOffset = 0;
+        if (adapter instanceof HeaderViewListAdapter) {
+            this.mListOffset = (<HeaderViewListAdapter>adapter).getHeadersCount();
+            adapter = (<HeaderViewListAdapter>adapter).getWrappedAdapter();
+        }
+        if (adapter instanceof ExpandableListConnector) {
+            let expAdapter = (<ExpandableListConnector>adapter).getAdapter();
+            if (SectionIndexer.isImpl(expAdapter)) {
+                this.mSectionIndexer = <SectionIndexer><any>expAdapter;
+                this.mListAdapter = adapter;
+                this.mSections = this.mSectionIndexer.getSections();
+            }
+        } else {
+            if (SectionIndexer.isImpl(adapter)) {
+                this.mListAdapter = adapter;
+                this.mSectionIndexer = <SectionIndexer><any>adapter;
+                this.mSections = this.mSectionIndexer.getSections();
+                if (this.mSections == null) {
+                    this.mSections = [" "];
+                }
+            } else {
+                this.mListAdapter = adapter;
+                this.mSections = [" "];
+            }
+        }
+    }
+
+    onSectionsChanged():void  {
+        this.mListAdapter = null;
+    }
+
+    scrollTo(position:number):void  {
+        let count = this.mList.getCount();
+        this.mScrollCompleted = false;
+        let fThreshold = (1.0 / count) / 8;
+        const sections = this.mSections;
+        let sectionIndex:number;
+        if (sections != null && sections.length > 1) {
+            const nSections = sections.length;
+            let section = Math.floor(position * nSections);
+            if (section >= nSections) {
+                section = nSections - 1;
+            }
+            let exactSection = section;
+            sectionIndex = section;
+            let index = this.mSectionIndexer.getPositionForSection(section);
+            // Given the expected section and index, the following code will
+            // try to account for missing sections (no names starting with..)
+            // It will compute the scroll space of surrounding empty sections
+            // and interpolate the currently visible letter's range across the
+            // available space, so that there is always some list movement while
+            // the user moves the thumb.
+            let nextIndex = count;
+            let prevIndex = index;
+            let prevSection = section;
+            let nextSection = section + 1;
+            // Assume the next section is unique
+            if (section < nSections - 1) {
+                nextIndex = this.mSectionIndexer.getPositionForSection(section + 1);
+            }
+            // Find the previous index if we're slicing the previous section
+            if (nextIndex == index) {
+                // Non-existent letter
+                while (section > 0) {
+                    section--;
+                    prevIndex = this.mSectionIndexer.getPositionForSection(section);
+                    if (prevIndex != index) {
+                        prevSection = section;
+                        sectionIndex = section;
+                        break;
+                    } else if (section == 0) {
+                        // When section reaches 0 here, sectionIndex must follow it.
+                        // Assuming mSectionIndexer.getPositionForSection(0) == 0.
+                        sectionIndex = 0;
+                        break;
+                    }
+                }
+            }
+            // Find the next index, in case the assumed next index is not
+            // unique. For instance, if there is no P, then request for P's
+            // position actually returns Q's. So we need to look ahead to make
+            // sure that there is really a Q at Q's position. If not, move
+            // further down...
+            let nextNextSection = nextSection + 1;
+            while (nextNextSection < nSections && this.mSectionIndexer.getPositionForSection(nextNextSection) == nextIndex) {
+                nextNextSection++;
+                nextSection++;
+            }
+            // Compute the beginning and ending scroll range percentage of the
+            // currently visible letter. This could be equal to or greater than
+            // (1 / nSections).
+            let fPrev = prevSection / nSections;
+            let fNext = nextSection / nSections;
+            if (prevSection == exactSection && position - fPrev < fThreshold) {
+                index = prevIndex;
+            } else {
+                index = prevIndex + Math.floor((nextIndex - prevIndex) * (position - fPrev) / (fNext - fPrev));
+            }
+            // Don't overflow
+            if (index > count - 1) {
+                index = count - 1;
+            }
+            this.setListSelection(index);
+        } else {
+            let index = Math.floor(position * count);
+            // Don't overflow
+            if (index > count - 1) {
+                index = count - 1;
+            }
+            this.setListSelection(index);
+            sectionIndex = -1;
+        }
+        if (sectionIndex >= 0) {
+            let text = this.mSectionText = sections[sectionIndex].toString();
+            this.mDrawOverlay = (text.length != 1 || text.charAt(0) != ' ') && sectionIndex < sections.length;
+        } else {
+            this.mDrawOverlay = false;
+        }
+    }
+
+    private setListSelection(index:number):void  {
+        if (this.mList instanceof ExpandableListView) {
+            let expList = <ExpandableListView>this.mList;
+            expList.setSelectionFromTop(expList.getFlatListPosition(ExpandableListView.getPackedPositionForGroup(index + this.mListOffset)), 0);
+        } else if (this.mList instanceof ListView) {
+            (<ListView>this.mList).setSelectionFromTop(index + this.mListOffset, 0);
+        } else {
+            this.mList.setSelection(index + this.mListOffset);
+        }
+    }
+
+    private getThumbPositionForListPosition(firstVisibleItem:number, visibleItemCount:number, totalItemCount:number):number  {
+        if (this.mSectionIndexer == null || this.mListAdapter == null) {
+            this.getSectionsFromIndexer();
+        }
+        if (this.mSectionIndexer == null) {
+            return Math.floor(((this.mList.getHeight() - this.mThumbH) * firstVisibleItem) / (totalItemCount - visibleItemCount));
+        }
+        firstVisibleItem -= this.mListOffset;
+        if (firstVisibleItem < 0) {
+            return 0;
+        }
+        totalItemCount -= this.mListOffset;
+        const trackHeight = this.mList.getHeight() - this.mThumbH;
+        const section = this.mSectionIndexer.getSectionForPosition(firstVisibleItem);
+        const sectionPos = this.mSectionIndexer.getPositionForSection(section);
+        const nextSectionPos = this.mSectionIndexer.getPositionForSection(section + 1);
+        const sectionCount = this.mSections.length;
+        const positionsInSection = nextSectionPos - sectionPos;
+        const child = this.mList.getChildAt(0);
+        const incrementalPos = child == null ? 0 : firstVisibleItem + (this.mList.getPaddingTop() - child.getTop()) / child.getHeight();
+        const posWithinSection = positionsInSection > 0 ? (incrementalPos - sectionPos) / positionsInSection : 0;
+        let result = Math.floor((section + posWithinSection) / sectionCount * trackHeight);
+        // Fake out the scrollbar for the last item. Since the section indexer won't
+        // ever actually move the list in this end space, make scrolling across the last item
+        // account for whatever space is remaining.
+        if (firstVisibleItem > 0 && firstVisibleItem + visibleItemCount == totalItemCount) {
+            const lastChild = this.mList.getChildAt(visibleItemCount - 1);
+            const lastItemVisible = (this.mList.getHeight() - this.mList.getPaddingBottom() - lastChild.getTop()) / lastChild.getHeight();
+            result += Math.floor((trackHeight - result) * lastItemVisible);
+        }
+        return Math.max(0, Math.min(result, trackHeight));
+    }
+
+    private cancelFling():void  {
+        // Cancel the list fling
+        let cancelFling = MotionEvent.obtainWithAction(0, 0, MotionEvent.ACTION_CANCEL, 0, 0);
+        this.mList.onTouchEvent(cancelFling);
+        cancelFling.recycle();
+    }
+
+    cancelPendingDrag():void  {
+        this.mList.removeCallbacks(this.mDeferStartDrag);
+        this.mPendingDrag = false;
+    }
+
+    startPendingDrag():void  {
+        this.mPendingDrag = true;
+        this.mList.postDelayed(this.mDeferStartDrag, FastScroller.PENDING_DRAG_DELAY);
+    }
+
+    beginDrag():void  {
+        this.setState(FastScroller.STATE_DRAGGING);
+        if (this.mListAdapter == null && this.mList != null) {
+            this.getSectionsFromIndexer();
+        }
+        if (this.mList != null) {
+            this.mList.requestDisallowInterceptTouchEvent(true);
+            this.mList.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_TOUCH_SCROLL);
+        }
+        this.cancelFling();
+    }
+
+    onInterceptTouchEvent(ev:MotionEvent):boolean  {
+        if (!this.mEnabled) {
+            return false;
+        }
+        switch(ev.getActionMasked()) {
+            case MotionEvent.ACTION_DOWN:
+                if (this.mState > FastScroller.STATE_NONE && this.isPointInside(ev.getX(), ev.getY())) {
+                    if (!this.mList.isInScrollingContainer()) {
+                        this.beginDrag();
+                        return true;
+                    }
+                    this.mInitialTouchY = ev.getY();
+                    this.startPendingDrag();
+                }
+                break;
+            case MotionEvent.ACTION_UP:
+            case MotionEvent.ACTION_CANCEL:
+                this.cancelPendingDrag();
+                break;
+        }
+        return false;
+    }
+
+    onTouchEvent(me:MotionEvent):boolean  {
+        if (!this.mEnabled || this.mState == FastScroller.STATE_NONE) {
+            return false;
+        }
+        const action = me.getAction();
+        if (action == MotionEvent.ACTION_DOWN) {
+            if (this.isPointInside(me.getX(), me.getY())) {
+                if (!this.mList.isInScrollingContainer()) {
+                    this.beginDrag();
+                    return true;
+                }
+                this.mInitialTouchY = me.getY();
+                this.startPendingDrag();
+            }
+        } else if (action == MotionEvent.ACTION_UP) {
+            // don't add ACTION_CANCEL here
+            if (this.mPendingDrag) {
+                // Allow a tap to scroll.
+                this.beginDrag();
+                const viewHeight = this.mList.getHeight();
+                // Jitter
+                let newThumbY = Math.floor(me.getY()) - this.mThumbH + 10;
+                if (newThumbY < 0) {
+                    newThumbY = 0;
+                } else if (newThumbY + this.mThumbH > viewHeight) {
+                    newThumbY = viewHeight - this.mThumbH;
+                }
+                this.mThumbY = newThumbY;
+                this.scrollTo(this.mThumbY / (viewHeight - this.mThumbH));
+                this.cancelPendingDrag();
+            // Will hit the STATE_DRAGGING check below
+            }
+            if (this.mState == FastScroller.STATE_DRAGGING) {
+                if (this.mList != null) {
+                    // ViewGroup does the right thing already, but there might
+                    // be other classes that don't properly reset on touch-up,
+                    // so do this explicitly just in case.
+                    this.mList.requestDisallowInterceptTouchEvent(false);
+                    this.mList.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_IDLE);
+                }
+                this.setState(FastScroller.STATE_VISIBLE);
+                const handler = this.mHandler;
+                handler.removeCallbacks(this.mScrollFade);
+                if (!this.mAlwaysShow) {
+                    handler.postDelayed(this.mScrollFade, 1000);
+                }
+                this.mList.invalidate();
+                return true;
+            }
+        } else if (action == MotionEvent.ACTION_MOVE) {
+            if (this.mPendingDrag) {
+                const y = me.getY();
+                if (Math.abs(y - this.mInitialTouchY) > this.mScaledTouchSlop) {
+                    this.setState(FastScroller.STATE_DRAGGING);
+                    if (this.mListAdapter == null && this.mList != null) {
+                        this.getSectionsFromIndexer();
+                    }
+                    if (this.mList != null) {
+                        this.mList.requestDisallowInterceptTouchEvent(true);
+                        this.mList.reportScrollStateChange(AbsListView.OnScrollListener.SCROLL_STATE_TOUCH_SCROLL);
+                    }
+                    this.cancelFling();
+                    this.cancelPendingDrag();
+                // Will hit the STATE_DRAGGING check below
+                }
+            }
+            if (this.mState == FastScroller.STATE_DRAGGING) {
+                const viewHeight = this.mList.getHeight();
+                // Jitter
+                let newThumbY = Math.floor(me.getY()) - this.mThumbH + 10;
+                if (newThumbY < 0) {
+                    newThumbY = 0;
+                } else if (newThumbY + this.mThumbH > viewHeight) {
+                    newThumbY = viewHeight - this.mThumbH;
+                }
+                if (Math.abs(this.mThumbY - newThumbY) < 2) {
+                    return true;
+                }
+                this.mThumbY = newThumbY;
+                // If the previous scrollTo is still pending
+                if (this.mScrollCompleted) {
+                    this.scrollTo(this.mThumbY / (viewHeight - this.mThumbH));
+                }
+                return true;
+            }
+        } else if (action == MotionEvent.ACTION_CANCEL) {
+            this.cancelPendingDrag();
+        }
+        return false;
+    }
+
+    isPointInside(x:number, y:number):boolean  {
+        let inTrack = false;
+        if (this.mPosition == View.SCROLLBAR_POSITION_LEFT) {
+            inTrack = x < this.mThumbW;
+        } else {
+            inTrack = x > this.mList.getWidth() - this.mThumbW;
+        }
+        // Allow taps in the track to start moving.
+        return inTrack && (this.mTrackDrawable != null || y >= this.mThumbY && y <= this.mThumbY + this.mThumbH);
+    }
+}
+
+export module FastScroller{
+export class ScrollFade implements Runnable {
+    _FastScroller_this:FastScroller;
+
+    constructor(arg:FastScroller) {
+        this._FastScroller_this = arg;
+    }
+
+    mStartTime:number = 0;
+
+    mFadeDuration:number = 0;
+
+    static ALPHA_MAX:number = 208;
+
+    static FADE_DURATION:number = 200;
+
+    startFade():void  {
+        this.mFadeDuration = ScrollFade.FADE_DURATION;
+        this.mStartTime = SystemClock.uptimeMillis();
+        this._FastScroller_this.setState(FastScroller.STATE_EXIT);
+    }
+
+    getAlpha():number  {
+        if (this._FastScroller_this.getState() != FastScroller.STATE_EXIT) {
+            return ScrollFade.ALPHA_MAX;
+        }
+        let alpha:number;
+        let now = SystemClock.uptimeMillis();
+        if (now > this.mStartTime + this.mFadeDuration) {
+            alpha = 0;
+        } else {
+            alpha = Math.floor(ScrollFade.ALPHA_MAX - ((now - this.mStartTime) * ScrollFade.ALPHA_MAX) / this.mFadeDuration);
+        }
+        return alpha;
+    }
+
+    run():void  {
+        if (this._FastScroller_this.getState() != FastScroller.STATE_EXIT) {
+            this.startFade();
+            return;
+        }
+        if (this.getAlpha() > 0) {
+            this._FastScroller_this.mList.invalidate();
+        } else {
+            this._FastScroller_this.setState(FastScroller.STATE_NONE);
+        }
+    }
+}
+}
+
+}
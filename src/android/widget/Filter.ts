@@ -0,0 +1,198 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/os/Handler.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+
+module android.widget {
+import Handler = android.os.Handler;
+import Log = android.util.Log;
+import Runnable = java.lang.Runnable;
+
+/**
+ * <p>A filter constrains data with a filtering pattern.</p>
+ *
+ * <p>Filters are usually created by {@link android.widget.Filterable}
+ * classes.</p>
+ *
+ * <p>Filtering operations performed by calling {@link #filter(CharSequence)} or
+ * {@link #filter(CharSequence, android.widget.Filter.FilterListener)} are
+ * performed asynchronously. When these methods are called, a filtering request
+ * is posted in a request queue and processed later. Any call to one of these
+ * methods will cancel any previous non-executed filtering request.</p>
+ *
+ * androidui: there is no worker thread, the request is posted to the main looper.
+ *
+ * @see android.widget.Filterable
+ */
+export abstract class Filter {
+
+    private static LOG_TAG:string = "Filter";
+
+    private mHandler:Handler = new Handler();
+
+    private mPendingRequest:Runnable;
+
+    private mDelayer:Filter.Delayer;
+
+    /**
+     * Provide an interface that decides how long to delay the message for a given query.  Useful
+     * for heuristics such as posting a delay for the delete key to avoid doing any work while the
+     * user holds down the delete key.
+     *
+     * @param delayer The delayer.
+     * @hide
+     */
+    setDelayer(delayer:Filter.Delayer):void  {
+        this.mDelayer = delayer;
+    }
+
+    /**
+     * <p>Starts an asynchronous filtering operation. Calling this method
+     * cancels all previous non-executed filtering requests and posts a new
+     * filtering request that will be executed later.</p>
+     *
+     * <p>Upon completion, the listener is notified.</p>
+     *
+     * @param constraint the constraint used to filter the data
+     * @param listener a listener notified upon completion of the operation
+     *
+     * @see #filter(CharSequence)
+     * @see #performFiltering(CharSequence)
+     * @see #publishResults(CharSequence, android.widget.Filter.FilterResults)
+     */
+    filter(constraint:string, listener:Filter.FilterListener = null):void  {
+        if (this.mPendingRequest != null) {
+            this.mHandler.removeCallbacks(this.mPendingRequest);
+        }
+        const delay:number = (this.mDelayer == null) ? 0 : this.mDelayer.getPostingDelay(constraint);
+        const request:Runnable = {
+            run: ()=>{
+                if (this.mPendingRequest == request) {
+                    this.mPendingRequest = null;
+                }
+                let results:Filter.FilterResults;
+                try {
+                    results = this.performFiltering(constraint);
+                } catch (e) {
+                    results = new Filter.FilterResults();
+                    Log.w(Filter.LOG_TAG, "An exception occured during performFiltering()!", e);
+                }
+                this.publishResults(constraint, results);
+                if (listener != null) {
+                    listener.onFilterComplete(results.count);
+                }
+            }
+        };
+        this.mPendingRequest = request;
+        this.mHandler.postDelayed(request, delay);
+    }
+
+    /**
+     * <p>Invoked in a worker thread to filter the data according to the
+     * constraint. Subclasses must implement this method to perform the
+     * filtering operation. Results computed by the filtering operation
+     * must be returned as a {@link android.widget.Filter.FilterResults} that
+     * will then be published in the UI thread through
+     * {@link #publishResults(CharSequence,
+     * android.widget.Filter.FilterResults)}.</p>
+     *
+     * @param constraint the constraint used to filter the data
+     * @return the results of the filtering operation
+     *
+     * @see #filter(CharSequence, android.widget.Filter.FilterListener)
+     * @see #publishResults(CharSequence, android.widget.Filter.FilterResults)
+     * @see android.widget.Filter.FilterResults
+     */
+    protected abstract performFiltering(constraint:string):Filter.FilterResults ;
+
+    /**
+     * <p>Invoked in the UI thread to publish the filtering results in the
+     * user interface. Subclasses must implement this method to display the
+     * results computed in {@link #performFiltering}.</p>
+     *
+     * @param constraint the constraint used to filter the data
+     * @param results the results of the filtering operation
+     *
+     * @see #filter(CharSequence, android.widget.Filter.FilterListener)
+     * @see #performFiltering(CharSequence)
+     * @see android.widget.Filter.FilterResults
+     */
+    protected abstract publishResults(constraint:string, results:Filter.FilterResults):void ;
+
+    /**
+     * <p>Converts a value from the filtered set into a CharSequence. Subclasses
+     * should override this method to convert their results. The default
+     * implementation returns an empty String for null values or the default
+     * String representation of the value.</p>
+     *
+     * @param resultValue the value to convert to a CharSequence
+     * @return a CharSequence representing the value
+     */
+    convertResultToString(resultValue:any):string  {
+        return resultValue == null ? "" : resultValue.toString();
+    }
+}
+
+export module Filter{
+/**
+ * <p>Holds the results of a filtering operation. The results are the values
+ * computed by the filtering operation and the number of these values.</p>
+ */
+export class FilterResults {
+
+    /**
+     * <p>Contains all the values computed by the filtering operation.</p>
+     */
+    values:any;
+
+    /**
+     * <p>Contains the number of values computed by the filtering
+     * operation.</p>
+     */
+    count:number = 0;
+}
+
+/**
+ * <p>Listener used to receive a notification upon completion of a filtering
+ * operation.</p>
+ */
+export interface FilterListener {
+
+    /**
+     * <p>Notifies the end of a filtering operation.</p>
+     *
+     * @param count the number of values computed by the filter
+     */
+    onFilterComplete(count:number):void ;
+}
+
+/**
+ * @hide
+ */
+export interface Delayer {
+
+    /**
+     * @param constraint The constraint passed to {@link Filter#filter(CharSequence)}
+     * @return The delay that should be used for
+     *         {@link Handler#sendMessageDelayed(android.os.Message, long)}
+     */
+    getPostingDelay(constraint:string):number ;
+}
+}
+
+}
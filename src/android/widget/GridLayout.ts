@@ -0,0 +1,2646 @@
+/*
+ * Copyright (C) 2011 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../android/view/Gravity.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+///<reference path="../../java/util/ArrayList.ts"/>
+///<reference path="../../java/util/List.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import Log = android.util.Log;
+import Gravity = android.view.Gravity;
+import View = android.view.View;
+import MeasureSpec = android.view.View.MeasureSpec;
+import ViewGroup = android.view.ViewGroup;
+import LinearLayout = android.widget.LinearLayout;
+import ArrayList = java.util.ArrayList;
+import List = java.util.List;
+
+/**
+ * A layout that places its children in a rectangular <em>grid</em>.
+ * <p>
+ * The grid is composed of a set of infinitely thin lines that separate the
+ * viewing area into <em>cells</em>. Throughout the API, grid lines are referenced
+ * by grid <em>indices</em>. A grid with {@code N} columns
+ * has {@code N + 1} grid indices that run from {@code 0}
+ * through {@code N} inclusive. Regardless of how GridLayout is
+ * configured, grid index {@code 0} is fixed to the leading edge of the
+ * container and grid index {@code N} is fixed to its trailing edge
+ * (after padding is taken into account).
+ *
+ * <h4>Row and Column Specs</h4>
+ *
+ * Children occupy one or more contiguous cells, as defined
+ * by their {@link GridLayout.LayoutParams#rowSpec rowSpec} and
+ * {@link GridLayout.LayoutParams#columnSpec columnSpec} layout parameters.
+ * Each spec defines the set of rows or columns that are to be
+ * occupied; and how children should be aligned within the resulting group of cells.
+ * Although cells do not normally overlap in a GridLayout, GridLayout does
+ * not prevent children being defined to occupy the same cell or group of cells.
+ * In this case however, there is no guarantee that children will not themselves
+ * overlap after the layout operation completes.
+ *
+ * <h4>Default Cell Assignment</h4>
+ *
+ * If a child does not specify the row and column indices of the cell it
+ * wishes to occupy, GridLayout assigns cell locations automatically using its:
+ * {@link GridLayout#setOrientation(int) orientation},
+ * {@link GridLayout#setRowCount(int) rowCount} and
+ * {@link GridLayout#setColumnCount(int) columnCount} properties.
+ *
+ * <h4>Space</h4>
+ *
+ * Space between children may be specified either by using instances of the
+ * dedicated {@link Space} view or by setting the
+ *
+ * {@link ViewGroup.MarginLayoutParams#leftMargin leftMargin},
+ * {@link ViewGroup.MarginLayoutParams#topMargin topMargin},
+ * {@link ViewGroup.MarginLayoutParams#rightMargin rightMargin} and
+ * {@link ViewGroup.MarginLayoutParams#bottomMargin bottomMargin}
+ *
+ * layout parameters. When the
+ * {@link GridLayout#setUseDefaultMargins(boolean) useDefaultMargins}
+ * property is set, default margins around children are automatically
+ * allocated based on the prevailing UI style guide for the platform.
+ * Each of the margins so defined may be independently overridden by an assignment
+ * to the appropriate layout parameter.
+ * Default values will generally produce a reasonable spacing between components
+ * but values may change between different releases of the platform.
+ *
+ * <h4>Excess Space Distribution</h4>
+ *
+ * GridLayout's distribution of excess space accommodates the principle of weight.
+ * In the event that no weights are specified, columns and rows are taken as
+ * flexible if their views specify some form of alignment within their groups.
+ * <p>
+ * The flexibility of a view is therefore influenced by its alignment which is,
+ * in turn, typically defined by setting the
+ * {@link LayoutParams#setGravity(int) gravity} property of the child's layout parameters.
+ * If either a weight or alignment were defined along a given axis then the component
+ * is taken as <em>flexible</em> in that direction. If no weight or alignment was set,
+ * the component is instead assumed to be <em>inflexible</em>.
+ * <p>
+ * Multiple components in the same row or column group are
+ * considered to act in <em>parallel</em>. Such a
+ * group is flexible only if <em>all</em> of the components
+ * within it are flexible. Row and column groups that sit either side of a common boundary
+ * are instead considered to act in <em>series</em>. The composite group made of these two
+ * elements is flexible if <em>one</em> of its elements is flexible.
+ * <p>
+ * To make a column stretch, make sure all of the components inside it define a
+ * weight or a gravity. To prevent a column from stretching, ensure that one of the components
+ * in the column does not define a weight or a gravity.
+ * <p>
+ * When the principle of flexibility does not provide complete disambiguation,
+ * GridLayout's algorithms favour rows and columns that are closer to its <em>right</em>
+ * and <em>bottom</em> edges. To be more precise, GridLayout treats each of its layout
+ * parameters as a constraint in the a set of variables that define the grid-lines along a
+ * given axis. During layout, GridLayout solves the constraints so as to return the unique
+ * solution to those constraints for which all variables are less-than-or-equal-to
+ * the corresponding value in any other valid solution.
+ *
+ * <h4>Interpretation of GONE</h4>
+ *
+ * For layout purposes, GridLayout treats views whose visibility status is
+ * {@link View#GONE GONE}, as having zero width and height. This is subtly different from
+ * the policy of ignoring views that are marked as GONE outright. If, for example, a gone-marked
+ * view was alone in a column, that column would itself collapse to zero width if and only if
+ * no gravity was defined on the view. If gravity was defined, then the gone-marked
+ * view has no effect on the layout and the container should be laid out as if the view
+ * had never been added to it. GONE views are taken to have zero weight during excess space
+ * distribution.
+ * <p>
+ * These statements apply equally to rows as well as columns, and to groups of rows or columns.
+ *
+ * <p>
+ * See {@link GridLayout.LayoutParams} for a full description of the
+ * layout parameters used by GridLayout.
+ *
+ * androidui: in html layouts the specs are set by the layout_row, layout_rowSpan,
+ * layout_rowWeight, layout_column, layout_columnSpan, layout_columnWeight and
+ * layout_gravity attributes of the children.
+ *
+ * @attr ref android.R.styleable#GridLayout_orientation
+ * @attr ref android.R.styleable#GridLayout_rowCount
+ * @attr ref android.R.styleable#GridLayout_columnCount
+ * @attr ref android.R.styleable#GridLayout_useDefaultMargins
+ * @attr ref android.R.styleable#GridLayout_rowOrderPreserved
+ * @attr ref android.R.styleable#GridLayout_columnOrderPreserved
+ */
+export class GridLayout extends ViewGroup {
+
+    // Public constants
+
+    /**
+     * The horizontal orientation.
+     */
+    static HORIZONTAL:number = LinearLayout.HORIZONTAL;
+
+    /**
+     * The vertical orientation.
+     */
+    static VERTICAL:number = LinearLayout.VERTICAL;
+
+    /**
+     * The constant used to indicate that a value is undefined.
+     * Fields can use this value to indicate that their values
+     * have not yet been set. Similarly, methods can return this value
+     * to indicate that there was no suitable value that could be
+     * returned.
+     *
+     * androidui: the java int min value, the solver relies on int arithmetic
+     * when undefined values are combined.
+     */
+    static UNDEFINED:number = -2147483648;
+
+    /**
+     * This constant is an {@link #setAlignmentMode(int) alignmentMode}.
+     * When the {@code alignmentMode} is set to {@link #ALIGN_BOUNDS}, alignment
+     * is made between the edges of each component's raw
+     * view boundary: i.e. the area delimited by the component's:
+     * {@link android.view.View#getTop() top},
+     * {@link android.view.View#getLeft() left},
+     * {@link android.view.View#getBottom() bottom} and
+     * {@link android.view.View#getRight() right} properties.
+     * <p>
+     * For example, when {@code GridLayout} is in {@link #ALIGN_BOUNDS} mode,
+     * children that belong to a row group that uses {@link #TOP} alignment will
+     * all return the same value when their {@link android.view.View#getTop()}
+     * method is called.
+     *
+     * @see #setAlignmentMode(int)
+     */
+    static ALIGN_BOUNDS:number = 0;
+
+    /**
+     * This constant is an {@link #setAlignmentMode(int) alignmentMode}.
+     * When the {@code alignmentMode} is set to {@link #ALIGN_MARGINS},
+     * the bounds of each view are extended outwards, according
+     * to their margins, before the edges of the resulting rectangle are aligned.
+     * <p>
+     * For example, when {@code GridLayout} is in {@link #ALIGN_MARGINS} mode,
+     * the quantity {@code top - layoutParams.topMargin} is the same for all children that
+     * belong to a row group that uses {@link #TOP} alignment.
+     *
+     * @see #setAlignmentMode(int)
+     */
+    static ALIGN_MARGINS:number = 1;
+
+    // Misc constants
+
+    static TAG:string = "GridLayout";
+
+    static DEBUG:boolean = false;
+
+    static MAX_SIZE:number = 100000;
+
+    static DEFAULT_CONTAINER_MARGIN:number = 0;
+
+    static UNINITIALIZED_HASH:number = 0;
+
+    // Defaults
+
+    private static DEFAULT_ORIENTATION:number = GridLayout.HORIZONTAL;
+
+    private static DEFAULT_COUNT:number = GridLayout.UNDEFINED;
+
+    private static DEFAULT_USE_DEFAULT_MARGINS:boolean = false;
+
+    static DEFAULT_ORDER_PRESERVED:boolean = true;
+
+    private static DEFAULT_ALIGNMENT_MODE:number = GridLayout.ALIGN_MARGINS;
+
+    // Instance variables
+
+    mHorizontalAxis:GridLayout.Axis = new GridLayout.Axis(this, true);
+
+    mVerticalAxis:GridLayout.Axis = new GridLayout.Axis(this, false);
+
+    mOrientation:number = GridLayout.DEFAULT_ORIENTATION;
+
+    mUseDefaultMargins:boolean = GridLayout.DEFAULT_USE_DEFAULT_MARGINS;
+
+    mAlignmentMode:number = GridLayout.DEFAULT_ALIGNMENT_MODE;
+
+    mDefaultGap:number = 0;
+
+    mLastLayoutParamsHashCode:number = GridLayout.UNINITIALIZED_HASH;
+
+    // Constructors
+
+    constructor(context:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this.mDefaultGap = 8 * context.getResources().getDisplayMetrics().density;
+
+        const a = this._attrBinder;
+        a.addAttr('orientation', (value)=>{
+            if (value === 'vertical' || value == GridLayout.VERTICAL) {
+                this.setOrientation(GridLayout.VERTICAL);
+            } else if (value === 'horizontal' || value == GridLayout.HORIZONTAL) {
+                this.setOrientation(GridLayout.HORIZONTAL);
+            }
+        }, ()=>{
+            return this.mOrientation;
+        });
+        a.addAttr('rowCount', (value)=>{
+            this.setRowCount(a.parseNumber(value, GridLayout.DEFAULT_COUNT));
+        }, ()=>{
+            return this.getRowCount();
+        });
+        a.addAttr('columnCount', (value)=>{
+            this.setColumnCount(a.parseNumber(value, GridLayout.DEFAULT_COUNT));
+        }, ()=>{
+            return this.getColumnCount();
+        });
+        a.addAttr('useDefaultMargins', (value)=>{
+            this.setUseDefaultMargins(a.parseBoolean(value, GridLayout.DEFAULT_USE_DEFAULT_MARGINS));
+        }, ()=>{
+            return this.mUseDefaultMargins;
+        });
+        a.addAttr('alignmentMode', (value)=>{
+            if (value === 'alignBounds' || value == GridLayout.ALIGN_BOUNDS) {
+                this.setAlignmentMode(GridLayout.ALIGN_BOUNDS);
+            } else if (value === 'alignMargins' || value == GridLayout.ALIGN_MARGINS) {
+                this.setAlignmentMode(GridLayout.ALIGN_MARGINS);
+            }
+        }, ()=>{
+            return this.mAlignmentMode;
+        });
+        a.addAttr('rowOrderPreserved', (value)=>{
+            this.setRowOrderPreserved(a.parseBoolean(value, GridLayout.DEFAULT_ORDER_PRESERVED));
+        }, ()=>{
+            return this.isRowOrderPreserved();
+        });
+        a.addAttr('columnOrderPreserved', (value)=>{
+            this.setColumnOrderPreserved(a.parseBoolean(value, GridLayout.DEFAULT_ORDER_PRESERVED));
+        }, ()=>{
+            return this.isColumnOrderPreserved();
+        });
+
+        if (defStyle != null) this.applyDefaultAttributes(defStyle);
+    }
+
+    // Implementation
+
+    /**
+     * Returns the current orientation.
+     *
+     * @return either {@link #HORIZONTAL} or {@link #VERTICAL}
+     *
+     * @see #setOrientation(int)
+     *
+     * @attr ref android.R.styleable#GridLayout_orientation
+     */
+    getOrientation():number  {
+        return this.mOrientation;
+    }
+
+    /**
+     *
+     * GridLayout uses the orientation property for two purposes:
+     * <ul>
+     *  <li>
+     *      To control the 'direction' in which default row/column indices are generated
+     *      when they are not specified in a component's layout parameters.
+     *  </li>
+     *  <li>
+     *      To control which axis should be processed first during the layout operation:
+     *      when orientation is {@link #HORIZONTAL} the horizontal axis is laid out first.
+     *  </li>
+     * </ul>
+     *
+     * The order in which axes are laid out is important if, for example, the height of
+     * one of GridLayout's children is dependent on its width - and its width is, in turn,
+     * dependent on the widths of other components.
+     * <p>
+     * If your layout contains a {@link TextView} (or derivative:
+     * {@code Button}, {@code EditText}, {@code CheckBox}, etc.) which is
+     * in multi-line mode (the default) it is normally best to leave GridLayout's
+     * orientation as {@code HORIZONTAL} - because {@code TextView} is capable of
+     * deriving its height for a given width, but not the other way around.
+     * <p>
+     * Other than the effects above, orientation does not affect the actual layout operation of
+     * GridLayout, so it's fine to leave GridLayout in {@code HORIZONTAL} mode even if
+     * the height of the intended layout greatly exceeds its width.
+     * <p>
+     * The default value of this property is {@link #HORIZONTAL}.
+     *
+     * @param orientation either {@link #HORIZONTAL} or {@link #VERTICAL}
+     *
+     * @see #getOrientation()
+     *
+     * @attr ref android.R.styleable#GridLayout_orientation
+     */
+    setOrientation(orientation:number):void  {
+        if (this.mOrientation != orientation) {
+            this.mOrientation = orientation;
+            this.invalidateStructure();
+            this.requestLayout();
+        }
+    }
+
+    /**
+     * Returns the current number of rows. This is either the last value that was set
+     * with {@link #setRowCount(int)} or, if no such value was set, the maximum
+     * value of each the upper bounds defined in {@link LayoutParams#rowSpec}.
+     *
+     * @return the current number of rows
+     *
+     * @see #setRowCount(int)
+     * @see LayoutParams#rowSpec
+     *
+     * @attr ref android.R.styleable#GridLayout_rowCount
+     */
+    getRowCount():number  {
+        return this.mVerticalAxis.getCount();
+    }
+
+    /**
+     * RowCount is used only to generate default row/column indices when
+     * they are not specified by a component's layout parameters.
+     *
+     * @param rowCount the number of rows
+     *
+     * @see #getRowCount()
+     * @see LayoutParams#rowSpec
+     *
+     * @attr ref android.R.styleable#GridLayout_rowCount
+     */
+    setRowCount(rowCount:number):void  {
+        this.mVerticalAxis.setCount(rowCount);
+        this.invalidateStructure();
+        this.requestLayout();
+    }
+
+    /**
+     * Returns the current number of columns. This is either the last value that was set
+     * with {@link #setColumnCount(int)} or, if no such value was set, the maximum
+     * value of each the upper bounds defined in {@link LayoutParams#columnSpec}.
+     *
+     * @return the current number of columns
+     *
+     * @see #setColumnCount(int)
+     * @see LayoutParams#columnSpec
+     *
+     * @attr ref android.R.styleable#GridLayout_columnCount
+     */
+    getColumnCount():number  {
+        return this.mHorizontalAxis.getCount();
+    }
+
+    /**
+     * ColumnCount is used only to generate default column/column indices when
+     * they are not specified by a component's layout parameters.
+     *
+     * @param columnCount the number of columns.
+     *
+     * @see #getColumnCount()
+     * @see LayoutParams#columnSpec
+     *
+     * @attr ref android.R.styleable#GridLayout_columnCount
+     */
+    setColumnCount(columnCount:number):void  {
+        this.mHorizontalAxis.setCount(columnCount);
+        this.invalidateStructure();
+        this.requestLayout();
+    }
+
+    /**
+     * Returns whether or not this GridLayout will allocate default margins when no
+     * corresponding layout parameters are defined.
+     *
+     * @return {@code true} if default margins should be allocated
+     *
+     * @see #setUseDefaultMargins(boolean)
+     *
+     * @attr ref android.R.styleable#GridLayout_useDefaultMargins
+     */
+    getUseDefaultMargins():boolean  {
+        return this.mUseDefaultMargins;
+    }
+
+    /**
+     * When {@code true}, GridLayout allocates default margins around children
+     * based on the child's visual characteristics. Each of the
+     * margins so defined may be independently overridden by an assignment
+     * to the appropriate layout parameter.
+     * <p>
+     * When {@code false}, the default value of all margins is zero.
+     * <p>
+     * When setting to {@code true}, consider setting the value of the
+     * {@link #setAlignmentMode(int) alignmentMode}
+     * property to {@link #ALIGN_BOUNDS}.
+     * <p>
+     * The default value of this property is {@code false}.
+     *
+     * @param useDefaultMargins use {@code true} to make GridLayout allocate default margins
+     *
+     * @see #getUseDefaultMargins()
+     * @see #setAlignmentMode(int)
+     *
+     * @see MarginLayoutParams#leftMargin
+     * @see MarginLayoutParams#topMargin
+     * @see MarginLayoutParams#rightMargin
+     * @see MarginLayoutParams#bottomMargin
+     *
+     * @attr ref android.R.styleable#GridLayout_useDefaultMargins
+     */
+    setUseDefaultMargins(useDefaultMargins:boolean):void  {
+        this.mUseDefaultMargins = useDefaultMargins;
+        this.requestLayout();
+    }
+
+    /**
+     * Returns the alignment mode.
+     *
+     * @return the alignment mode; either {@link #ALIGN_BOUNDS} or {@link #ALIGN_MARGINS}
+     *
+     * @see #ALIGN_BOUNDS
+     * @see #ALIGN_MARGINS
+     *
+     * @see #setAlignmentMode(int)
+     *
+     * @attr ref android.R.styleable#GridLayout_alignmentMode
+     */
+    getAlignmentMode():number  {
+        return this.mAlignmentMode;
+    }
+
+    /**
+     * Sets the alignment mode to be used for all of the alignments between the
+     * children of this container.
+     * <p>
+     * The default value of this property is {@link #ALIGN_MARGINS}.
+     *
+     * @param alignmentMode either {@link #ALIGN_BOUNDS} or {@link #ALIGN_MARGINS}
+     *
+     * @see #ALIGN_BOUNDS
+     * @see #ALIGN_MARGINS
+     *
+     * @see #getAlignmentMode()
+     *
+     * @attr ref android.R.styleable#GridLayout_alignmentMode
+     */
+    setAlignmentMode(alignmentMode:number):void  {
+        this.mAlignmentMode = alignmentMode;
+        this.requestLayout();
+    }
+
+    /**
+     * Returns whether or not row boundaries are ordered by their grid indices.
+     *
+     * @return {@code true} if row boundaries must appear in the order of their indices,
+     *         {@code false} otherwise
+     *
+     * @see #setRowOrderPreserved(boolean)
+     *
+     * @attr ref android.R.styleable#GridLayout_rowOrderPreserved
+     */
+    isRowOrderPreserved():boolean  {
+        return this.mVerticalAxis.isOrderPreserved();
+    }
+
+    /**
+     * When this property is {@code true}, GridLayout is forced to place the row boundaries
+     * so that their associated grid indices are in ascending order in the view.
+     * <p>
+     * When this property is {@code false} GridLayout is at liberty to place the vertical row
+     * boundaries in whatever order best fits the given constraints.
+     * <p>
+     * The default value of this property is {@code true}.
+
+     * @param rowOrderPreserved {@code true} to force GridLayout to respect the order
+     *        of row boundaries
+     *
+     * @see #isRowOrderPreserved()
+     *
+     * @attr ref android.R.styleable#GridLayout_rowOrderPreserved
+     */
+    setRowOrderPreserved(rowOrderPreserved:boolean):void  {
+        this.mVerticalAxis.setOrderPreserved(rowOrderPreserved);
+        this.invalidateStructure();
+        this.requestLayout();
+    }
+
+    /**
+     * Returns whether or not column boundaries are ordered by their grid indices.
+     *
+     * @return {@code true} if column boundaries must appear in the order of their indices,
+     *         {@code false} otherwise
+     *
+     * @see #setColumnOrderPreserved(boolean)
+     *
+     * @attr ref android.R.styleable#GridLayout_columnOrderPreserved
+     */
+    isColumnOrderPreserved():boolean  {
+        return this.mHorizontalAxis.isOrderPreserved();
+    }
+
+    /**
+     * When this property is {@code true}, GridLayout is forced to place the column boundaries
+     * so that their associated grid indices are in ascending order in the view.
+     * <p>
+     * When this property is {@code false} GridLayout is at liberty to place the horizontal column
+     * boundaries in whatever order best fits the given constraints.
+     * <p>
+     * The default value of this property is {@code true}.
+     *
+     * @param columnOrderPreserved use {@code true} to force GridLayout to respect the order
+     *        of column boundaries.
+     *
+     * @see #isColumnOrderPreserved()
+     *
+     * @attr ref android.R.styleable#GridLayout_columnOrderPreserved
+     */
+    setColumnOrderPreserved(columnOrderPreserved:boolean):void  {
+        this.mHorizontalAxis.setOrderPreserved(columnOrderPreserved);
+        this.invalidateStructure();
+        this.requestLayout();
+    }
+
+    // Static utility methods
+
+    static max2(a:number[], valueIfEmpty:number):number  {
+        let result:number = valueIfEmpty;
+        for (let i:number = 0, N:number = a.length; i < N; i++) {
+            result = Math.max(result, a[i]);
+        }
+        return result;
+    }
+
+    static append<T>(a:T[], b:T[]):T[]  {
+        return a.concat(b);
+    }
+
+    static getAlignment(gravity:number, horizontal:boolean):GridLayout.Alignment  {
+        let mask:number = horizontal ? Gravity.HORIZONTAL_GRAVITY_MASK : Gravity.VERTICAL_GRAVITY_MASK;
+        let shift:number = horizontal ? Gravity.AXIS_X_SHIFT : Gravity.AXIS_Y_SHIFT;
+        let flags:number = (gravity & mask) >> shift;
+        switch(flags) {
+            case (Gravity.AXIS_SPECIFIED | Gravity.AXIS_PULL_BEFORE):
+                return horizontal ? GridLayout.LEFT : GridLayout.TOP;
+            case (Gravity.AXIS_SPECIFIED | Gravity.AXIS_PULL_AFTER):
+                return horizontal ? GridLayout.RIGHT : GridLayout.BOTTOM;
+            case (Gravity.AXIS_SPECIFIED | Gravity.AXIS_PULL_BEFORE | Gravity.AXIS_PULL_AFTER):
+                return GridLayout.FILL;
+            case Gravity.AXIS_SPECIFIED:
+                return GridLayout.CENTER;
+            default:
+                return GridLayout.UNDEFINED_ALIGNMENT;
+        }
+    }
+
+    /** @noinspection UnusedParameters*/
+    private getDefaultMargin(c:View, horizontal:boolean, leading:boolean):number  {
+        return this.mDefaultGap / 2;
+    }
+
+    private getDefaultMarginAtEdge(c:View, isAtEdge:boolean, horizontal:boolean, leading:boolean):number  {
+        return isAtEdge ? GridLayout.DEFAULT_CONTAINER_MARGIN : this.getDefaultMargin(c, horizontal, leading);
+    }
+
+    private getDefaultMarginOfParams(c:View, p:GridLayout.LayoutParams, horizontal:boolean, leading:boolean):number  {
+        if (!this.mUseDefaultMargins) {
+            return 0;
+        }
+        let spec:GridLayout.Spec = horizontal ? p.columnSpec : p.rowSpec;
+        let axis:GridLayout.Axis = horizontal ? this.mHorizontalAxis : this.mVerticalAxis;
+        let span:GridLayout.Interval = spec.span;
+        let leading1:boolean = (horizontal && this.isLayoutRtl()) ? !leading : leading;
+        let isAtEdge:boolean = leading1 ? (span.min == 0) : (span.max == axis.getCount());
+        return this.getDefaultMarginAtEdge(c, isAtEdge, horizontal, leading);
+    }
+
+    getMargin1(view:View, horizontal:boolean, leading:boolean):number  {
+        let lp:GridLayout.LayoutParams = this.getLayoutParams(view);
+        let margin:number = horizontal ? (leading ? lp.leftMargin : lp.rightMargin) : (leading ? lp.topMargin : lp.bottomMargin);
+        return margin == GridLayout.UNDEFINED ? this.getDefaultMarginOfParams(view, lp, horizontal, leading) : margin;
+    }
+
+    private getMargin(view:View, horizontal:boolean, leading:boolean):number  {
+        if (this.mAlignmentMode == GridLayout.ALIGN_MARGINS) {
+            return this.getMargin1(view, horizontal, leading);
+        } else {
+            let axis:GridLayout.Axis = horizontal ? this.mHorizontalAxis : this.mVerticalAxis;
+            let margins:number[] = leading ? axis.getLeadingMargins() : axis.getTrailingMargins();
+            let lp:GridLayout.LayoutParams = this.getLayoutParams(view);
+            let spec:GridLayout.Spec = horizontal ? lp.columnSpec : lp.rowSpec;
+            let index:number = leading ? spec.span.min : spec.span.max;
+            return margins[index];
+        }
+    }
+
+    private getTotalMargin(child:View, horizontal:boolean):number  {
+        return this.getMargin(child, horizontal, true) + this.getMargin(child, horizontal, false);
+    }
+
+    private static fits(a:number[], value:number, start:number, end:number):boolean  {
+        if (end > a.length) {
+            return false;
+        }
+        for (let i:number = start; i < end; i++) {
+            if (a[i] > value) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private static procrusteanFill(a:number[], start:number, end:number, value:number):void  {
+        let length:number = a.length;
+        for (let i = Math.min(start, length), to = Math.min(end, length); i < to; i++) {
+            a[i] = value;
+        }
+    }
+
+    private static setCellGroup(lp:GridLayout.LayoutParams, row:number, rowSpan:number, col:number, colSpan:number):void  {
+        lp.setRowSpecSpan(new GridLayout.Interval(row, row + rowSpan));
+        lp.setColumnSpecSpan(new GridLayout.Interval(col, col + colSpan));
+    }
+
+    // Logic to avert infinite loops by ensuring that the cells can be placed somewhere.
+    private static clip(minorRange:GridLayout.Interval, minorWasDefined:boolean, count:number):number  {
+        let size:number = minorRange.size();
+        if (count == 0) {
+            return size;
+        }
+        let min:number = minorWasDefined ? Math.min(minorRange.min, count) : 0;
+        return Math.min(size, count - min);
+    }
+
+    // install default indices for cells that don't define them
+    private validateLayoutParams():void  {
+        const horizontal:boolean = (this.mOrientation == GridLayout.HORIZONTAL);
+        const axis:GridLayout.Axis = horizontal ? this.mHorizontalAxis : this.mVerticalAxis;
+        const count:number = (axis.definedCount != GridLayout.UNDEFINED) ? axis.definedCount : 0;
+        let major:number = 0;
+        let minor:number = 0;
+        let maxSizes:number[] = GridLayout.newIntArray(count);
+        for (let i:number = 0, N:number = this.getChildCount(); i < N; i++) {
+            let lp:GridLayout.LayoutParams = <GridLayout.LayoutParams> this.getChildAt(i).getLayoutParams();
+            const majorSpec:GridLayout.Spec = horizontal ? lp.rowSpec : lp.columnSpec;
+            const majorRange:GridLayout.Interval = majorSpec.span;
+            const majorWasDefined:boolean = majorSpec.startDefined;
+            const majorSpan:number = majorRange.size();
+            if (majorWasDefined) {
+                major = majorRange.min;
+            }
+            const minorSpec:GridLayout.Spec = horizontal ? lp.columnSpec : lp.rowSpec;
+            const minorRange:GridLayout.Interval = minorSpec.span;
+            const minorWasDefined:boolean = minorSpec.startDefined;
+            const minorSpan:number = GridLayout.clip(minorRange, minorWasDefined, count);
+            if (minorWasDefined) {
+                minor = minorRange.min;
+            }
+            if (count != 0) {
+                // Find suitable row/col values when at least one is undefined.
+                if (!majorWasDefined || !minorWasDefined) {
+                    while (!GridLayout.fits(maxSizes, major, minor, minor + minorSpan)) {
+                        if (minorWasDefined) {
+                            major++;
+                        } else {
+                            if (minor + minorSpan <= count) {
+                                minor++;
+                            } else {
+                                minor = 0;
+                                major++;
+                            }
+                        }
+                    }
+                }
+                GridLayout.procrusteanFill(maxSizes, minor, minor + minorSpan, major + majorSpan);
+            }
+            if (horizontal) {
+                GridLayout.setCellGroup(lp, major, majorSpan, minor, minorSpan);
+            } else {
+                GridLayout.setCellGroup(lp, minor, minorSpan, major, majorSpan);
+            }
+            minor = minor + minorSpan;
+        }
+    }
+
+    private invalidateStructure():void  {
+        this.mLastLayoutParamsHashCode = GridLayout.UNINITIALIZED_HASH;
+        this.mHorizontalAxis.invalidateStructure();
+        this.mVerticalAxis.invalidateStructure();
+        // This can end up being done twice. Better twice than not at all.
+        this.invalidateValues();
+    }
+
+    private invalidateValues():void  {
+        // Need null check because requestLayout() is called in View's initializer,
+        // before we are set up.
+        if (this.mHorizontalAxis != null && this.mVerticalAxis != null) {
+            this.mHorizontalAxis.invalidateValues();
+            this.mVerticalAxis.invalidateValues();
+        }
+    }
+
+    getLayoutParams(c?:View):GridLayout.LayoutParams  {
+        if (c == null) {
+            return <GridLayout.LayoutParams>super.getLayoutParams();
+        }
+        return <GridLayout.LayoutParams> c.getLayoutParams();
+    }
+
+    static handleInvalidParams(msg:string):void  {
+        throw Error(`new IllegalArgumentException(${msg + ". "})`);
+    }
+
+    private checkLayoutParamsOfAxis(lp:GridLayout.LayoutParams, horizontal:boolean):void  {
+        let groupName:string = horizontal ? "column" : "row";
+        let spec:GridLayout.Spec = horizontal ? lp.columnSpec : lp.rowSpec;
+        let span:GridLayout.Interval = spec.span;
+        if (span.min != GridLayout.UNDEFINED && span.min < 0) {
+            GridLayout.handleInvalidParams(groupName + " indices must be positive");
+        }
+        let axis:GridLayout.Axis = horizontal ? this.mHorizontalAxis : this.mVerticalAxis;
+        let count:number = axis.definedCount;
+        if (count != GridLayout.UNDEFINED) {
+            if (span.max > count) {
+                GridLayout.handleInvalidParams(groupName + " indices (start + span) mustn't exceed the " + groupName + " count");
+            }
+            if (span.size() > count) {
+                GridLayout.handleInvalidParams(groupName + " span mustn't exceed the " + groupName + " count");
+            }
+        }
+    }
+
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean  {
+        if (!(p instanceof GridLayout.LayoutParams)) {
+            return false;
+        }
+        let lp:GridLayout.LayoutParams = <GridLayout.LayoutParams> p;
+        this.checkLayoutParamsOfAxis(lp, true);
+        this.checkLayoutParamsOfAxis(lp, false);
+        return true;
+    }
+
+    protected generateDefaultLayoutParams():GridLayout.LayoutParams  {
+        return new GridLayout.LayoutParams();
+    }
+
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):GridLayout.LayoutParams  {
+        return new GridLayout.LayoutParams(p);
+    }
+
+    // Add/remove
+
+    protected onViewAdded(child:View):void  {
+        super.onViewAdded(child);
+        this.invalidateStructure();
+    }
+
+    protected onViewRemoved(child:View):void  {
+        super.onViewRemoved(child);
+        this.invalidateStructure();
+    }
+
+    /**
+     * We need to call invalidateStructure() when a child's GONE flag changes state.
+     * This implementation is a catch-all, invalidating on any change in the visibility flags.
+     */
+    onChildVisibilityChanged(child:View, oldVisibility:number, newVisibility:number):void  {
+        super.onChildVisibilityChanged(child, oldVisibility, newVisibility);
+        if (oldVisibility == View.GONE || newVisibility == View.GONE) {
+            this.invalidateStructure();
+        }
+    }
+
+    private computeLayoutParamsHashCode():number  {
+        let result:number = 1;
+        for (let i:number = 0, N:number = this.getChildCount(); i < N; i++) {
+            let c:View = this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) continue;
+            let lp:GridLayout.LayoutParams = <GridLayout.LayoutParams> c.getLayoutParams();
+            result = (31 * result + lp.hashCode()) | 0;
+        }
+        return result;
+    }
+
+    private consistencyCheck():void  {
+        if (this.mLastLayoutParamsHashCode == GridLayout.UNINITIALIZED_HASH) {
+            this.validateLayoutParams();
+            this.mLastLayoutParamsHashCode = this.computeLayoutParamsHashCode();
+        } else if (this.mLastLayoutParamsHashCode != this.computeLayoutParamsHashCode()) {
+            Log.w(GridLayout.TAG, "The fields of some layout parameters were modified in between " + "layout operations. Check the javadoc for GridLayout.LayoutParams#rowSpec.");
+            this.invalidateStructure();
+            this.consistencyCheck();
+        }
+    }
+
+    // Measurement
+
+    // Note: padding has already been removed from the supplied specs
+    private measureChildWithMargins2(child:View, parentWidthSpec:number, parentHeightSpec:number, childWidth:number, childHeight:number):void  {
+        let childWidthSpec:number = ViewGroup.getChildMeasureSpec(parentWidthSpec, this.getTotalMargin(child, true), childWidth);
+        let childHeightSpec:number = ViewGroup.getChildMeasureSpec(parentHeightSpec, this.getTotalMargin(child, false), childHeight);
+        child.measure(childWidthSpec, childHeightSpec);
+    }
+
+    // Note: padding has already been removed from the supplied specs
+    private measureChildrenWithMargins(widthSpec:number, heightSpec:number, firstPass:boolean):void  {
+        for (let i:number = 0, N:number = this.getChildCount(); i < N; i++) {
+            let c:View = this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) continue;
+            let lp:GridLayout.LayoutParams = this.getLayoutParams(c);
+            lp._measuringParentWidthMeasureSpec = widthSpec;
+            lp._measuringParentHeightMeasureSpec = heightSpec;
+            if (firstPass) {
+                this.measureChildWithMargins2(c, widthSpec, heightSpec, lp.width, lp.height);
+            } else {
+                let horizontal:boolean = (this.mOrientation == GridLayout.HORIZONTAL);
+                let spec:GridLayout.Spec = horizontal ? lp.columnSpec : lp.rowSpec;
+                if (spec.getAbsoluteAlignment(horizontal) == GridLayout.FILL) {
+                    let span:GridLayout.Interval = spec.span;
+                    let axis:GridLayout.Axis = horizontal ? this.mHorizontalAxis : this.mVerticalAxis;
+                    let locations:number[] = axis.getLocations();
+                    let cellSize:number = locations[span.max] - locations[span.min];
+                    let viewSize:number = cellSize - this.getTotalMargin(c, horizontal);
+                    if (horizontal) {
+                        this.measureChildWithMargins2(c, widthSpec, heightSpec, viewSize, lp.height);
+                    } else {
+                        this.measureChildWithMargins2(c, widthSpec, heightSpec, lp.width, viewSize);
+                    }
+                }
+            }
+            lp._measuringParentWidthMeasureSpec = null;
+            lp._measuringParentHeightMeasureSpec = null;
+        }
+    }
+
+    static adjust(measureSpec:number, delta:number):number  {
+        return MeasureSpec.makeMeasureSpec(MeasureSpec.getSize(measureSpec + delta), MeasureSpec.getMode(measureSpec));
+    }
+
+    protected onMeasure(widthSpec:number, heightSpec:number):void  {
+        this.consistencyCheck();
+        /** If we have been called by {@link View#measure(int, int)}, one of width or height
+         *  is  likely to have changed. We must invalidate if so. */
+        this.invalidateValues();
+        let hPadding:number = this.getPaddingLeft() + this.getPaddingRight();
+        let vPadding:number = this.getPaddingTop() + this.getPaddingBottom();
+        let widthSpecSansPadding:number = GridLayout.adjust(widthSpec, -hPadding);
+        let heightSpecSansPadding:number = GridLayout.adjust(heightSpec, -vPadding);
+        this.measureChildrenWithMargins(widthSpecSansPadding, heightSpecSansPadding, true);
+        let widthSansPadding:number;
+        let heightSansPadding:number;
+        // Use the orientation property to decide which axis should be laid out first.
+        if (this.mOrientation == GridLayout.HORIZONTAL) {
+            widthSansPadding = this.mHorizontalAxis.getMeasure(widthSpecSansPadding);
+            this.measureChildrenWithMargins(widthSpecSansPadding, heightSpecSansPadding, false);
+            heightSansPadding = this.mVerticalAxis.getMeasure(heightSpecSansPadding);
+        } else {
+            heightSansPadding = this.mVerticalAxis.getMeasure(heightSpecSansPadding);
+            this.measureChildrenWithMargins(widthSpecSansPadding, heightSpecSansPadding, false);
+            widthSansPadding = this.mHorizontalAxis.getMeasure(widthSpecSansPadding);
+        }
+        let measuredWidth:number = Math.max(widthSansPadding + hPadding, this.getSuggestedMinimumWidth());
+        let measuredHeight:number = Math.max(heightSansPadding + vPadding, this.getSuggestedMinimumHeight());
+        this.setMeasuredDimension(View.resolveSizeAndState(measuredWidth, widthSpec, 0), View.resolveSizeAndState(measuredHeight, heightSpec, 0));
+    }
+
+    private getMeasurement(c:View, horizontal:boolean):number  {
+        return horizontal ? c.getMeasuredWidth() : c.getMeasuredHeight();
+    }
+
+    getMeasurementIncludingMargin(c:View, horizontal:boolean):number  {
+        if (c.getVisibility() == View.GONE) {
+            return 0;
+        }
+        return this.getMeasurement(c, horizontal) + this.getTotalMargin(c, horizontal);
+    }
+
+    requestLayout():void  {
+        super.requestLayout();
+        this.invalidateValues();
+    }
+
+    // Layout container
+
+    /**
+     * {@inheritDoc}
+     */
+    /*
+     The layout operation is implemented by delegating the heavy lifting to the
+     to the mHorizontalAxis and mVerticalAxis instances of the internal Axis class.
+     Together they compute the locations of the vertical and horizontal lines of
+     the grid (respectively!).
+
+     This method is then left with the simpler task of applying margins, gravity
+     and sizing to each child view and then placing it in its cell.
+     */
+    protected onLayout(changed:boolean, left:number, top:number, right:number, bottom:number):void  {
+        this.consistencyCheck();
+        let targetWidth:number = right - left;
+        let targetHeight:number = bottom - top;
+        let paddingLeft:number = this.getPaddingLeft();
+        let paddingTop:number = this.getPaddingTop();
+        let paddingRight:number = this.getPaddingRight();
+        let paddingBottom:number = this.getPaddingBottom();
+        this.mHorizontalAxis.layout(targetWidth - paddingLeft - paddingRight);
+        this.mVerticalAxis.layout(targetHeight - paddingTop - paddingBottom);
+        let hLocations:number[] = this.mHorizontalAxis.getLocations();
+        let vLocations:number[] = this.mVerticalAxis.getLocations();
+        for (let i:number = 0, N:number = this.getChildCount(); i < N; i++) {
+            let c:View = this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) continue;
+            let lp:GridLayout.LayoutParams = this.getLayoutParams(c);
+            let columnSpec:GridLayout.Spec = lp.columnSpec;
+            let rowSpec:GridLayout.Spec = lp.rowSpec;
+            let colSpan:GridLayout.Interval = columnSpec.span;
+            let rowSpan:GridLayout.Interval = rowSpec.span;
+            let x1:number = hLocations[colSpan.min];
+            let y1:number = vLocations[rowSpan.min];
+            let x2:number = hLocations[colSpan.max];
+            let y2:number = vLocations[rowSpan.max];
+            let cellWidth:number = x2 - x1;
+            let cellHeight:number = y2 - y1;
+            let pWidth:number = this.getMeasurement(c, true);
+            let pHeight:number = this.getMeasurement(c, false);
+            let hAlign:GridLayout.Alignment = columnSpec.getAbsoluteAlignment(true);
+            let vAlign:GridLayout.Alignment = rowSpec.getAbsoluteAlignment(false);
+            let boundsX:GridLayout.Bounds = this.mHorizontalAxis.getGroupBounds().getValue(i);
+            let boundsY:GridLayout.Bounds = this.mVerticalAxis.getGroupBounds().getValue(i);
+            // Gravity offsets: the location of the alignment group relative to its cell group.
+            let gravityOffsetX:number = hAlign.getGravityOffset(c, cellWidth - boundsX.size(true));
+            let gravityOffsetY:number = vAlign.getGravityOffset(c, cellHeight - boundsY.size(true));
+            let leftMargin:number = this.getMargin(c, true, true);
+            let topMargin:number = this.getMargin(c, false, true);
+            let rightMargin:number = this.getMargin(c, true, false);
+            let bottomMargin:number = this.getMargin(c, false, false);
+            let sumMarginsX:number = leftMargin + rightMargin;
+            let sumMarginsY:number = topMargin + bottomMargin;
+            // Alignment offsets: the location of the view relative to its alignment group.
+            let alignmentOffsetX:number = boundsX.getOffset(this, c, hAlign, pWidth + sumMarginsX, true);
+            let alignmentOffsetY:number = boundsY.getOffset(this, c, vAlign, pHeight + sumMarginsY, false);
+            let width:number = hAlign.getSizeInCell(c, pWidth, cellWidth - sumMarginsX);
+            let height:number = vAlign.getSizeInCell(c, pHeight, cellHeight - sumMarginsY);
+            let dx:number = x1 + gravityOffsetX + alignmentOffsetX;
+            let cx:number = !this.isLayoutRtl() ? paddingLeft + leftMargin + dx : targetWidth - width - paddingRight - rightMargin - dx;
+            let cy:number = paddingTop + y1 + gravityOffsetY + alignmentOffsetY + topMargin;
+            if (width != c.getMeasuredWidth() || height != c.getMeasuredHeight()) {
+                c.measure(MeasureSpec.makeMeasureSpec(width, MeasureSpec.EXACTLY), MeasureSpec.makeMeasureSpec(height, MeasureSpec.EXACTLY));
+            }
+            c.layout(cx, cy, cx + width, cy + height);
+        }
+    }
+
+    static newIntArray(length:number):number[] {
+        let a = new Array<number>(length);
+        for (let i = 0; i < length; i++) {
+            a[i] = 0;
+        }
+        return a;
+    }
+
+    /**
+     * Return a Spec, {@code spec}, where:
+     * <ul>
+     *     <li> {@code spec.span = [start, start + size]} </li>
+     *     <li> {@code spec.alignment = alignment} </li>
+     *     <li> {@code spec.weight = weight} </li>
+     * </ul>
+     * <p>
+     * To leave the start index undefined, use the value {@link #UNDEFINED}.
+     *
+     * androidui: a weight with the default size must be given as {@code spec(start, 1, weight)},
+     * the two number arguments form is always {@code spec(start, size)}.
+     *
+     * @param start     the start
+     * @param size      the size
+     * @param alignment the alignment
+     * @param weight    the weight
+     */
+    static spec(start:number):GridLayout.Spec;
+    static spec(start:number, size:number):GridLayout.Spec;
+    static spec(start:number, alignment:GridLayout.Alignment):GridLayout.Spec;
+    static spec(start:number, alignment:GridLayout.Alignment, weight:number):GridLayout.Spec;
+    static spec(start:number, size:number, alignment:GridLayout.Alignment):GridLayout.Spec;
+    static spec(start:number, size:number, weight:number):GridLayout.Spec;
+    static spec(start:number, size:number, alignment:GridLayout.Alignment, weight:number):GridLayout.Spec;
+    static spec(start:number, ...args):GridLayout.Spec {
+        let size = 1;
+        let alignment = GridLayout.UNDEFINED_ALIGNMENT;
+        let weight = GridLayout.Spec.DEFAULT_WEIGHT;
+        if (args[0] instanceof GridLayout.Alignment) {
+            alignment = args[0];
+            if (args.length > 1) weight = args[1];
+        } else if (args.length > 0) {
+            size = args[0];
+            if (args[1] instanceof GridLayout.Alignment) {
+                alignment = args[1];
+                if (args.length > 2) weight = args[2];
+            } else if (args.length > 1) {
+                weight = args[1];
+            }
+        }
+        return new GridLayout.Spec(start != GridLayout.UNDEFINED, start, size, alignment, weight);
+    }
+
+    static UNDEFINED_ALIGNMENT:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>start</em>
+     * edges of the other views in its cell group.
+     */
+    private static LEADING:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>end</em>
+     * edges of the other views in its cell group.
+     */
+    private static TRAILING:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>top</em>
+     * edges of the other views in its cell group.
+     */
+    static TOP:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>bottom</em>
+     * edges of the other views in its cell group.
+     */
+    static BOTTOM:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>start</em>
+     * edges of the other views in its cell group.
+     */
+    static START:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>end</em>
+     * edges of the other views in its cell group.
+     */
+    static END:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>left</em>
+     * edges of the other views in its cell group.
+     */
+    static LEFT:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>right</em>
+     * edges of the other views in its cell group.
+     */
+    static RIGHT:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be <em>centered</em> with the other views in its cell group.
+     * This constant may be used in both {@link LayoutParams#rowSpec rowSpecs} and {@link
+     * LayoutParams#columnSpec columnSpecs}.
+     */
+    static CENTER:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should be aligned with the <em>baselines</em>
+     * of the other views in its cell group.
+     * This constant may only be used as an alignment in {@link LayoutParams#rowSpec rowSpecs}.
+     *
+     * @see View#getBaseline()
+     */
+    static BASELINE:GridLayout.Alignment;
+
+    /**
+     * Indicates that a view should expanded to fit the boundaries of its cell group.
+     * This constant may be used in both {@link LayoutParams#rowSpec rowSpecs} and
+     * {@link LayoutParams#columnSpec columnSpecs}.
+     */
+    static FILL:GridLayout.Alignment;
+
+    static createSwitchingAlignment(ltr:GridLayout.Alignment, rtl:GridLayout.Alignment):GridLayout.Alignment  {
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return (!view.isLayoutRtl() ? ltr : rtl).getGravityOffset(view, cellDelta);
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return (!view.isLayoutRtl() ? ltr : rtl).getAlignmentValue(view, viewSize);
+            }
+        }
+        return new _Inner();
+    }
+
+    static canStretch(flexibility:number):boolean  {
+        return (flexibility & GridLayout.CAN_STRETCH) != 0;
+    }
+
+    static INFLEXIBLE:number = 0;
+
+    static CAN_STRETCH:number = 2;
+}
+
+export module GridLayout{
+/*
+This internal class houses the algorithm for computing the locations of grid lines;
+along either the horizontal or vertical axis. A GridLayout uses two instances of this class -
+distinguished by the "horizontal" flag which is true for the horizontal axis and false
+for the vertical one.
+*/
+export class Axis {
+    _GridLayout_this:GridLayout;
+
+    private static NEW:number = 0;
+
+    private static PENDING:number = 1;
+
+    private static COMPLETE:number = 2;
+
+    horizontal:boolean;
+
+    definedCount:number = GridLayout.UNDEFINED;
+
+    private maxIndex:number = GridLayout.UNDEFINED;
+
+    groupBounds:GridLayout.PackedMap<GridLayout.Spec, GridLayout.Bounds>;
+
+    groupBoundsValid:boolean = false;
+
+    forwardLinks:GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>;
+
+    forwardLinksValid:boolean = false;
+
+    backwardLinks:GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>;
+
+    backwardLinksValid:boolean = false;
+
+    leadingMargins:number[];
+
+    leadingMarginsValid:boolean = false;
+
+    trailingMargins:number[];
+
+    trailingMarginsValid:boolean = false;
+
+    arcs:GridLayout.Arc[];
+
+    arcsValid:boolean = false;
+
+    locations:number[];
+
+    locationsValid:boolean = false;
+
+    hasWeights_:boolean;
+
+    hasWeightsValid:boolean = false;
+
+    deltas:number[];
+
+    orderPreserved:boolean = GridLayout.DEFAULT_ORDER_PRESERVED;
+
+    private parentMin:GridLayout.MutableInt = new GridLayout.MutableInt(0);
+
+    private parentMax:GridLayout.MutableInt = new GridLayout.MutableInt(-GridLayout.MAX_SIZE);
+
+    constructor(arg:GridLayout, horizontal:boolean) {
+        this._GridLayout_this = arg;
+        this.horizontal = horizontal;
+    }
+
+    private calculateMaxIndex():number  {
+        // the number Integer.MIN_VALUE + 1 comes up in undefined cells
+        let result:number = -1;
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            let c:View = this._GridLayout_this.getChildAt(i);
+            let params:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? params.columnSpec : params.rowSpec;
+            let span:GridLayout.Interval = spec.span;
+            result = Math.max(result, span.min);
+            result = Math.max(result, span.max);
+            result = Math.max(result, span.size());
+        }
+        return result == -1 ? GridLayout.UNDEFINED : result;
+    }
+
+    private getMaxIndex():number  {
+        if (this.maxIndex == GridLayout.UNDEFINED) {
+            // use zero when there are no children
+            this.maxIndex = Math.max(0, this.calculateMaxIndex());
+        }
+        return this.maxIndex;
+    }
+
+    getCount():number  {
+        return Math.max(this.definedCount, this.getMaxIndex());
+    }
+
+    setCount(count:number):void  {
+        if (count != GridLayout.UNDEFINED && count < this.getMaxIndex()) {
+            GridLayout.handleInvalidParams((this.horizontal ? "column" : "row") + "Count must be greater than or equal to the maximum of all grid indices " + "(and spans) defined in the LayoutParams of each child");
+        }
+        this.definedCount = count;
+    }
+
+    isOrderPreserved():boolean  {
+        return this.orderPreserved;
+    }
+
+    setOrderPreserved(orderPreserved:boolean):void  {
+        this.orderPreserved = orderPreserved;
+        this.invalidateStructure();
+    }
+
+    private createGroupBounds():GridLayout.PackedMap<GridLayout.Spec, GridLayout.Bounds>  {
+        let keys:GridLayout.Spec[] = [];
+        let values:GridLayout.Bounds[] = [];
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            let c:View = this._GridLayout_this.getChildAt(i);
+            // we must include views that are GONE here, see introductory javadoc
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            let bounds:GridLayout.Bounds = spec.getAbsoluteAlignment(this.horizontal).getBounds();
+            keys.push(spec);
+            values.push(bounds);
+        }
+        return new GridLayout.PackedMap<GridLayout.Spec, GridLayout.Bounds>(keys, values);
+    }
+
+    private computeGroupBounds():void  {
+        let values:GridLayout.Bounds[] = this.groupBounds.values;
+        for (let i:number = 0; i < values.length; i++) {
+            values[i].reset();
+        }
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            let c:View = this._GridLayout_this.getChildAt(i);
+            // we must include views that are GONE here, see introductory javadoc
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            let size:number = this._GridLayout_this.getMeasurementIncludingMargin(c, this.horizontal) + ((spec.weight == 0) ? 0 : this.getDeltas()[i]);
+            this.groupBounds.getValue(i).includeView(this._GridLayout_this, c, spec, this, size);
+        }
+    }
+
+    getGroupBounds():GridLayout.PackedMap<GridLayout.Spec, GridLayout.Bounds>  {
+        if (this.groupBounds == null) {
+            this.groupBounds = this.createGroupBounds();
+        }
+        if (!this.groupBoundsValid) {
+            this.computeGroupBounds();
+            this.groupBoundsValid = true;
+        }
+        return this.groupBounds;
+    }
+
+    // Add values computed by alignment - taking the max of all alignments in each span
+    private createLinks(min:boolean):GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>  {
+        let keys:GridLayout.Interval[] = [];
+        let values:GridLayout.MutableInt[] = [];
+        let specs:GridLayout.Spec[] = this.getGroupBounds().keys;
+        for (let i:number = 0, N:number = specs.length; i < N; i++) {
+            let span:GridLayout.Interval = min ? specs[i].span : specs[i].span.inverse();
+            keys.push(span);
+            values.push(new GridLayout.MutableInt());
+        }
+        return new GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>(keys, values);
+    }
+
+    private computeLinks(links:GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>, min:boolean):void  {
+        let spans:GridLayout.MutableInt[] = links.values;
+        for (let i:number = 0; i < spans.length; i++) {
+            spans[i].reset();
+        }
+        // Use getter to trigger a re-evaluation
+        let bounds:GridLayout.Bounds[] = this.getGroupBounds().values;
+        for (let i:number = 0; i < bounds.length; i++) {
+            let size:number = bounds[i].size(min);
+            let valueHolder:GridLayout.MutableInt = links.getValue(i);
+            // this effectively takes the max() of the minima and the min() of the maxima
+            valueHolder.value = Math.max(valueHolder.value, min ? size : (-size | 0));
+        }
+    }
+
+    private getForwardLinks():GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>  {
+        if (this.forwardLinks == null) {
+            this.forwardLinks = this.createLinks(true);
+        }
+        if (!this.forwardLinksValid) {
+            this.computeLinks(this.forwardLinks, true);
+            this.forwardLinksValid = true;
+        }
+        return this.forwardLinks;
+    }
+
+    private getBackwardLinks():GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>  {
+        if (this.backwardLinks == null) {
+            this.backwardLinks = this.createLinks(false);
+        }
+        if (!this.backwardLinksValid) {
+            this.computeLinks(this.backwardLinks, false);
+            this.backwardLinksValid = true;
+        }
+        return this.backwardLinks;
+    }
+
+    private include(arcs:List<GridLayout.Arc>, key:GridLayout.Interval, size:GridLayout.MutableInt, ignoreIfAlreadyPresent = true):void  {
+        /*
+        Remove self referential links.
+        These appear:
+            . as parental constraints when GridLayout has no children
+            . when components have been marked as GONE
+        */
+        if (key.size() == 0) {
+            return;
+        }
+        // its just to stop default (row/col > 0) constraints obliterating valid entries
+        if (ignoreIfAlreadyPresent) {
+            for (let i = 0, N = arcs.size(); i < N; i++) {
+                let span:GridLayout.Interval = arcs.get(i).span;
+                if (span.equals(key)) {
+                    return;
+                }
+            }
+        }
+        arcs.add(new GridLayout.Arc(key, size));
+    }
+
+    // Group arcs by their first vertex, returning an array of arrays.
+    // This is linear in the number of arcs.
+    groupArcsByFirstVertex(arcs:GridLayout.Arc[]):GridLayout.Arc[][]  {
+        // the number of vertices
+        let N:number = this.getCount() + 1;
+        let result:GridLayout.Arc[][] = new Array<GridLayout.Arc[]>(N);
+        let sizes:number[] = GridLayout.newIntArray(N);
+        for (let arc of arcs) {
+            sizes[arc.span.min]++;
+        }
+        for (let i:number = 0; i < sizes.length; i++) {
+            result[i] = new Array<GridLayout.Arc>(sizes[i]);
+        }
+        // reuse the sizes array to hold the current last elements as we insert each arc
+        for (let i:number = 0; i < sizes.length; i++) {
+            sizes[i] = 0;
+        }
+        for (let arc of arcs) {
+            let i:number = arc.span.min;
+            result[i][sizes[i]++] = arc;
+        }
+        return result;
+    }
+
+    private topologicalSort(arcs:GridLayout.Arc[]):GridLayout.Arc[]  {
+        const result:GridLayout.Arc[] = new Array<GridLayout.Arc>(arcs.length);
+        let cursor:number = result.length - 1;
+        const arcsByVertex:GridLayout.Arc[][] = this.groupArcsByFirstVertex(arcs);
+        const visited:number[] = GridLayout.newIntArray(this.getCount() + 1);
+        const walk = (loc:number):void => {
+            switch(visited[loc]) {
+                case Axis.NEW:
+                    {
+                        visited[loc] = Axis.PENDING;
+                        for (let arc of arcsByVertex[loc]) {
+                            walk(arc.span.max);
+                            result[cursor--] = arc;
+                        }
+                        visited[loc] = Axis.COMPLETE;
+                        break;
+                    }
+                case Axis.PENDING:
+                    {
+                        // le singe est dans l'arbre
+                        break;
+                    }
+                case Axis.COMPLETE:
+                    {
+                        break;
+                    }
+            }
+        };
+        for (let loc:number = 0, N:number = arcsByVertex.length; loc < N; loc++) {
+            walk(loc);
+        }
+        return result;
+    }
+
+    private addComponentSizes(result:List<GridLayout.Arc>, links:GridLayout.PackedMap<GridLayout.Interval, GridLayout.MutableInt>):void  {
+        for (let i:number = 0; i < links.keys.length; i++) {
+            let key:GridLayout.Interval = links.keys[i];
+            this.include(result, key, links.values[i], false);
+        }
+    }
+
+    private createArcs():GridLayout.Arc[]  {
+        let mins:List<GridLayout.Arc> = new ArrayList<GridLayout.Arc>();
+        let maxs:List<GridLayout.Arc> = new ArrayList<GridLayout.Arc>();
+        // Add the minimum values from the components.
+        this.addComponentSizes(mins, this.getForwardLinks());
+        // Add the maximum values from the components.
+        this.addComponentSizes(maxs, this.getBackwardLinks());
+        // Add ordering constraints to prevent row/col sizes from going negative
+        if (this.orderPreserved) {
+            // Add a constraint for every row/col
+            for (let i:number = 0; i < this.getCount(); i++) {
+                this.include(mins, new GridLayout.Interval(i, i + 1), new GridLayout.MutableInt(0));
+            }
+        }
+        // Add the container constraints. Use the version of include that allows
+        // duplicate entries in case a child spans the entire grid.
+        let N:number = this.getCount();
+        this.include(mins, new GridLayout.Interval(0, N), this.parentMin, false);
+        this.include(maxs, new GridLayout.Interval(N, 0), this.parentMax, false);
+        // Sort
+        let sMins:GridLayout.Arc[] = this.topologicalSort(mins.toArray(new Array<GridLayout.Arc>(mins.size())));
+        let sMaxs:GridLayout.Arc[] = this.topologicalSort(maxs.toArray(new Array<GridLayout.Arc>(maxs.size())));
+        return GridLayout.append(sMins, sMaxs);
+    }
+
+    private computeArcs():void  {
+        // getting the links validates the values that are shared by the arc list
+        this.getForwardLinks();
+        this.getBackwardLinks();
+    }
+
+    getArcs():GridLayout.Arc[]  {
+        if (this.arcs == null) {
+            this.arcs = this.createArcs();
+        }
+        if (!this.arcsValid) {
+            this.computeArcs();
+            this.arcsValid = true;
+        }
+        return this.arcs;
+    }
+
+    private relax(locations:number[], entry:GridLayout.Arc):boolean  {
+        if (!entry.valid) {
+            return false;
+        }
+        let span:GridLayout.Interval = entry.span;
+        let u:number = span.min;
+        let v:number = span.max;
+        let value:number = entry.value.value;
+        let candidate:number = locations[u] + value;
+        if (candidate > locations[v]) {
+            locations[v] = candidate;
+            return true;
+        }
+        return false;
+    }
+
+    private init(locations:number[]):void  {
+        for (let i = 0, N = locations.length; i < N; i++) {
+            locations[i] = 0;
+        }
+    }
+
+    private logError(axisName:string, arcs:GridLayout.Arc[], culprits0:boolean[]):void  {
+        let removed:string[] = [];
+        let culprits:string[] = [];
+        for (let c:number = 0; c < arcs.length; c++) {
+            let arc:GridLayout.Arc = arcs[c];
+            if (culprits0[c]) {
+                culprits.push(arc.toString());
+            }
+            if (!arc.valid) {
+                removed.push(arc.toString());
+            }
+        }
+        Log.d(GridLayout.TAG, axisName + " constraints: " + culprits.join(", ") + " are inconsistent; permanently removing: " + removed.join(", ") + ". ");
+    }
+
+    /*
+    Bellman-Ford variant - modified to reduce typical running time from O(N^2) to O(N)
+
+    GridLayout converts its requirements into a system of linear constraints of the
+    form:
+
+    x[i] - x[j] < a[k]
+
+    Where the x[i] are variables and the a[k] are constants.
+
+    For example, if the variables were instead labeled x, y, z we might have:
+
+        x - y < 17
+        y - z < 23
+        z - x < 42
+
+    This is a special case of the Linear Programming problem that is, in turn,
+    equivalent to the single-source shortest paths problem on a digraph, for
+    which the O(n^2) Bellman-Ford algorithm the most commonly used general solution.
+    */
+    private solve(arcs:GridLayout.Arc[], locations:number[], modifyOnError = true):boolean  {
+        let axisName:string = this.horizontal ? "horizontal" : "vertical";
+        // The number of vertices is the number of columns/rows + 1.
+        let N:number = this.getCount() + 1;
+        let originalCulprits:boolean[] = null;
+        for (let p:number = 0; p < arcs.length; p++) {
+            this.init(locations);
+            // We take one extra pass over traditional Bellman-Ford (and omit their final step)
+            for (let i:number = 0; i < N; i++) {
+                let changed:boolean = false;
+                for (let j:number = 0, length:number = arcs.length; j < length; j++) {
+                    changed = this.relax(locations, arcs[j]) || changed;
+                }
+                if (!changed) {
+                    if (originalCulprits != null) {
+                        this.logError(axisName, arcs, originalCulprits);
+                    }
+                    return true;
+                }
+            }
+            if (!modifyOnError) {
+                // cannot solve with these constraints
+                return false;
+            }
+            let culprits:boolean[] = new Array<boolean>(arcs.length);
+            for (let j:number = 0, length:number = arcs.length; j < length; j++) {
+                culprits[j] = false;
+            }
+            for (let i:number = 0; i < N; i++) {
+                for (let j:number = 0, length:number = arcs.length; j < length; j++) {
+                    culprits[j] = this.relax(locations, arcs[j]) || culprits[j];
+                }
+            }
+            if (p == 0) {
+                originalCulprits = culprits;
+            }
+            for (let i:number = 0; i < arcs.length; i++) {
+                if (culprits[i]) {
+                    let arc:GridLayout.Arc = arcs[i];
+                    // Only remove max values, min values alone cannot be inconsistent
+                    if (arc.span.min < arc.span.max) {
+                        continue;
+                    }
+                    arc.valid = false;
+                    break;
+                }
+            }
+        }
+        return true;
+    }
+
+    private computeMargins(leading:boolean):void  {
+        let margins:number[] = leading ? this.leadingMargins : this.trailingMargins;
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            let c:View = this._GridLayout_this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) continue;
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            let span:GridLayout.Interval = spec.span;
+            let index:number = leading ? span.min : span.max;
+            margins[index] = Math.max(margins[index], this._GridLayout_this.getMargin1(c, this.horizontal, leading));
+        }
+    }
+
+    // External entry points
+
+    getLeadingMargins():number[]  {
+        if (this.leadingMargins == null) {
+            this.leadingMargins = GridLayout.newIntArray(this.getCount() + 1);
+        }
+        if (!this.leadingMarginsValid) {
+            this.computeMargins(true);
+            this.leadingMarginsValid = true;
+        }
+        return this.leadingMargins;
+    }
+
+    getTrailingMargins():number[]  {
+        if (this.trailingMargins == null) {
+            this.trailingMargins = GridLayout.newIntArray(this.getCount() + 1);
+        }
+        if (!this.trailingMarginsValid) {
+            this.computeMargins(false);
+            this.trailingMarginsValid = true;
+        }
+        return this.trailingMargins;
+    }
+
+    private computeHasWeights():boolean  {
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            const child:View = this._GridLayout_this.getChildAt(i);
+            if (child.getVisibility() == View.GONE) {
+                continue;
+            }
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(child);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            if (spec.weight != 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private hasWeights():boolean  {
+        if (!this.hasWeightsValid) {
+            this.hasWeights_ = this.computeHasWeights();
+            this.hasWeightsValid = true;
+        }
+        return this.hasWeights_;
+    }
+
+    getDeltas():number[]  {
+        if (this.deltas == null) {
+            this.deltas = GridLayout.newIntArray(this._GridLayout_this.getChildCount());
+        }
+        return this.deltas;
+    }
+
+    private shareOutDelta(totalDelta:number, totalWeight:number):void  {
+        const deltas = this.getDeltas();
+        for (let i = 0; i < deltas.length; i++) {
+            deltas[i] = 0;
+        }
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            const c:View = this._GridLayout_this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) {
+                continue;
+            }
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            let weight:number = spec.weight;
+            if (weight != 0) {
+                let delta:number = Math.round((weight * totalDelta / totalWeight));
+                deltas[i] = delta;
+                // the two adjustments below are to counter the above rounding and avoid
+                // leaving empty space
+                totalDelta -= delta;
+                totalWeight -= weight;
+            }
+        }
+    }
+
+    private solveAndDistributeSpace(a:number[]):void  {
+        const deltas = this.getDeltas();
+        for (let i = 0; i < deltas.length; i++) {
+            deltas[i] = 0;
+        }
+        this.solve(this.getArcs(), a);
+        //exclusive
+        let deltaMax:number = this.parentMin.value * this._GridLayout_this.getChildCount() + 1;
+        if (deltaMax < 2) {
+            //don't have any delta to distribute
+            return;
+        }
+        //inclusive
+        let deltaMin:number = 0;
+        let totalWeight:number = this.calculateTotalWeight();
+        //delta for which a solution exists
+        let validDelta:number = -1;
+        let validSolution:boolean = true;
+        // do a binary search to find the max delta that won't conflict with constraints
+        while (deltaMin < deltaMax) {
+            const delta:number = Math.floor((deltaMin + deltaMax) / 2);
+            this.invalidateValues();
+            this.shareOutDelta(delta, totalWeight);
+            validSolution = this.solve(this.getArcs(), a, false);
+            if (validSolution) {
+                validDelta = delta;
+                deltaMin = delta + 1;
+            } else {
+                deltaMax = delta;
+            }
+        }
+        if (validDelta > 0 && !validSolution) {
+            // last solution was not successful but we have a successful one. Use it.
+            this.invalidateValues();
+            this.shareOutDelta(validDelta, totalWeight);
+            this.solve(this.getArcs(), a);
+        }
+    }
+
+    private calculateTotalWeight():number  {
+        let totalWeight:number = 0;
+        for (let i:number = 0, N:number = this._GridLayout_this.getChildCount(); i < N; i++) {
+            let c:View = this._GridLayout_this.getChildAt(i);
+            if (c.getVisibility() == View.GONE) {
+                continue;
+            }
+            let lp:GridLayout.LayoutParams = this._GridLayout_this.getLayoutParams(c);
+            let spec:GridLayout.Spec = this.horizontal ? lp.columnSpec : lp.rowSpec;
+            totalWeight += spec.weight;
+        }
+        return totalWeight;
+    }
+
+    private computeLocations(a:number[]):void  {
+        if (!this.hasWeights()) {
+            this.solve(this.getArcs(), a);
+        } else {
+            this.solveAndDistributeSpace(a);
+        }
+        if (!this.orderPreserved) {
+            // Solve returns the smallest solution to the constraint system for which all
+            // values are positive. One value is therefore zero - though if the row/col
+            // order is not preserved this may not be the first vertex. For consistency,
+            // translate all the values so that they measure the distance from a[0]; the
+            // leading edge of the parent. After this transformation some values may be
+            // negative.
+            let a0:number = a[0];
+            for (let i:number = 0, N:number = a.length; i < N; i++) {
+                a[i] = a[i] - a0;
+            }
+        }
+    }
+
+    getLocations():number[]  {
+        if (this.locations == null) {
+            let N:number = this.getCount() + 1;
+            this.locations = GridLayout.newIntArray(N);
+        }
+        if (!this.locationsValid) {
+            this.computeLocations(this.locations);
+            this.locationsValid = true;
+        }
+        return this.locations;
+    }
+
+    private size(locations:number[]):number  {
+        // The parental edges are attached to vertices 0 and N - even when order is not
+        // being preserved and other vertices fall outside this range. Measure the distance
+        // between vertices 0 and N, assuming that locations[0] = 0.
+        return locations[this.getCount()];
+    }
+
+    private setParentConstraints(min:number, max:number):void  {
+        this.parentMin.value = min;
+        this.parentMax.value = -max;
+        this.locationsValid = false;
+    }
+
+    private getMeasureOfRange(min:number, max:number):number  {
+        this.setParentConstraints(min, max);
+        return this.size(this.getLocations());
+    }
+
+    getMeasure(measureSpec:number):number  {
+        let mode:number = MeasureSpec.getMode(measureSpec);
+        let size:number = MeasureSpec.getSize(measureSpec);
+        switch(mode) {
+            case MeasureSpec.UNSPECIFIED:
+                {
+                    return this.getMeasureOfRange(0, GridLayout.MAX_SIZE);
+                }
+            case MeasureSpec.EXACTLY:
+                {
+                    return this.getMeasureOfRange(size, size);
+                }
+            case MeasureSpec.AT_MOST:
+                {
+                    return this.getMeasureOfRange(0, size);
+                }
+            default:
+                {
+                    return 0;
+                }
+        }
+    }
+
+    layout(size:number):void  {
+        this.setParentConstraints(size, size);
+        this.getLocations();
+    }
+
+    invalidateStructure():void  {
+        this.maxIndex = GridLayout.UNDEFINED;
+        this.groupBounds = null;
+        this.forwardLinks = null;
+        this.backwardLinks = null;
+        this.leadingMargins = null;
+        this.trailingMargins = null;
+        this.arcs = null;
+        this.locations = null;
+        this.deltas = null;
+        this.hasWeightsValid = false;
+        this.invalidateValues();
+    }
+
+    invalidateValues():void  {
+        this.groupBoundsValid = false;
+        this.forwardLinksValid = false;
+        this.backwardLinksValid = false;
+        this.leadingMarginsValid = false;
+        this.trailingMarginsValid = false;
+        this.arcsValid = false;
+        this.locationsValid = false;
+    }
+}
+
+/**
+ * Layout information associated with each of the children of a GridLayout.
+ * <p>
+ * GridLayout supports both row and column spanning and arbitrary forms of alignment within
+ * each cell group. The fundamental parameters associated with each cell group are
+ * gathered into their vertical and horizontal components and stored
+ * in the {@link #rowSpec} and {@link #columnSpec} layout parameters.
+ * {@link GridLayout.Spec Specs} are immutable structures
+ * and may be shared between the layout parameters of different children.
+ * <p>
+ * The row and column specs contain the leading and trailing indices along each axis
+ * and together specify the four grid indices that delimit the cells of this cell group.
+ * <p>
+ * The  alignment properties of the row and column specs together specify
+ * both aspects of alignment within the cell group. It is also possible to specify a child's
+ * alignment within its cell group by using the {@link GridLayout.LayoutParams#setGravity(int)}
+ * method.
+ * <p>
+ * The weight property is also included in Spec and specifies the proportion of any
+ * excess space that is due to the associated view.
+ *
+ * <h4>WRAP_CONTENT and MATCH_PARENT</h4>
+ *
+ * Because the default values of the {@link #width} and {@link #height}
+ * properties are both {@link #WRAP_CONTENT}, this value never needs to be explicitly
+ * declared in the layout parameters of GridLayout's children. In addition,
+ * GridLayout does not distinguish the special size value {@link #MATCH_PARENT} from
+ * {@link #WRAP_CONTENT}. A component's ability to expand to the size of the parent is
+ * instead controlled by the principle of <em>flexibility</em>,
+ * as discussed in {@link GridLayout}.
+ *
+ * <h4>Summary</h4>
+ *
+ * You should not need to use either of the special size values:
+ * {@code WRAP_CONTENT} or {@code MATCH_PARENT} when configuring the children of
+ * a GridLayout.
+ *
+ * <h4>Default values</h4>
+ *
+ * <ul>
+ *     <li>{@link #width} = {@link #WRAP_CONTENT}</li>
+ *     <li>{@link #height} = {@link #WRAP_CONTENT}</li>
+ *     <li>{@link #topMargin} = 0 when
+ *          {@link GridLayout#setUseDefaultMargins(boolean) useDefaultMargins} is
+ *          {@code false}; otherwise {@link #UNDEFINED}, to
+ *          indicate that a default value should be computed on demand. </li>
+ *     <li>{@link #leftMargin} = 0 when
+ *          {@link GridLayout#setUseDefaultMargins(boolean) useDefaultMargins} is
+ *          {@code false}; otherwise {@link #UNDEFINED}, to
+ *          indicate that a default value should be computed on demand. </li>
+ *     <li>{@link #bottomMargin} = 0 when
+ *          {@link GridLayout#setUseDefaultMargins(boolean) useDefaultMargins} is
+ *          {@code false}; otherwise {@link #UNDEFINED}, to
+ *          indicate that a default value should be computed on demand. </li>
+ *     <li>{@link #rightMargin} = 0 when
+ *          {@link GridLayout#setUseDefaultMargins(boolean) useDefaultMargins} is
+ *          {@code false}; otherwise {@link #UNDEFINED}, to
+ *          indicate that a default value should be computed on demand. </li>
+ *     <li>{@link #rowSpec}<code>.row</code> = {@link #UNDEFINED} </li>
+ *     <li>{@link #rowSpec}<code>.rowSpan</code> = 1 </li>
+ *     <li>{@link #rowSpec}<code>.alignment</code> = {@link #BASELINE} </li>
+ *     <li>{@link #rowSpec}<code>.weight</code> = 0 </li>
+ *     <li>{@link #columnSpec}<code>.column</code> = {@link #UNDEFINED} </li>
+ *     <li>{@link #columnSpec}<code>.columnSpan</code> = 1 </li>
+ *     <li>{@link #columnSpec}<code>.alignment</code> = {@link #START} </li>
+ *     <li>{@link #columnSpec}<code>.weight</code> = 0 </li>
+ * </ul>
+ *
+ * See {@link GridLayout} for a more complete description of the conventions
+ * used by GridLayout in the interpretation of the properties of this class.
+ *
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_row
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_rowSpan
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_rowWeight
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_column
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_columnSpan
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_columnWeight
+ * @attr ref android.R.styleable#GridLayout_Layout_layout_gravity
+ */
+export class LayoutParams extends ViewGroup.MarginLayoutParams {
+
+    // Default values
+
+    private static DEFAULT_WIDTH:number = LayoutParams.WRAP_CONTENT;
+
+    private static DEFAULT_HEIGHT:number = LayoutParams.WRAP_CONTENT;
+
+    private static DEFAULT_MARGIN:number = GridLayout.UNDEFINED;
+
+    private static DEFAULT_ROW:number = GridLayout.UNDEFINED;
+
+    private static DEFAULT_COLUMN:number = GridLayout.UNDEFINED;
+
+    private static DEFAULT_SPAN_SIZE:number = 1;
+
+    // Instance variables
+
+    /**
+     * The spec that defines the vertical characteristics of the cell group
+     * described by these layout parameters.
+     * If an assignment is made to this field after a measurement or layout operation
+     * has already taken place, a call to
+     * {@link ViewGroup#setLayoutParams(ViewGroup.LayoutParams)}
+     * must be made to notify GridLayout of the change. GridLayout is normally able
+     * to detect when code fails to observe this rule, issue a warning and take steps to
+     * compensate for the omission. This facility is implemented on a best effort basis
+     * and should not be relied upon in production code - so it is best to include the above
+     * calls to remove the warnings as soon as it is practical.
+     */
+    rowSpec:GridLayout.Spec = GridLayout.Spec.UNDEFINED;
+
+    /**
+     * The spec that defines the horizontal characteristics of the cell group
+     * described by these layout parameters.
+     * If an assignment is made to this field after a measurement or layout operation
+     * has already taken place, a call to
+     * {@link ViewGroup#setLayoutParams(ViewGroup.LayoutParams)}
+     * must be made to notify GridLayout of the change. GridLayout is normally able
+     * to detect when code fails to observe this rule, issue a warning and take steps to
+     * compensate for the omission. This facility is implemented on a best effort basis
+     * and should not be relied upon in production code - so it is best to include the above
+     * calls to remove the warnings as soon as it is practical.
+     */
+    columnSpec:GridLayout.Spec = GridLayout.Spec.UNDEFINED;
+
+    /**
+     * Constructs a new LayoutParams instance for this <code>rowSpec</code>
+     * and <code>columnSpec</code>. All other fields are initialized with
+     * default values as defined in {@link LayoutParams}.
+     *
+     * @param rowSpec    the rowSpec
+     * @param columnSpec the columnSpec
+     */
+    constructor();
+    constructor(rowSpec:GridLayout.Spec, columnSpec:GridLayout.Spec);
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(...args) {
+        super();
+        if (args.length === 1) {
+            let source = args[0];
+            super(source);
+            if (source instanceof LayoutParams) {
+                this.rowSpec = source.rowSpec;
+                this.columnSpec = source.columnSpec;
+            }
+        } else {
+            super(LayoutParams.DEFAULT_WIDTH, LayoutParams.DEFAULT_HEIGHT);
+            this.setMargins(LayoutParams.DEFAULT_MARGIN, LayoutParams.DEFAULT_MARGIN, LayoutParams.DEFAULT_MARGIN, LayoutParams.DEFAULT_MARGIN);
+            if (args.length === 2) {
+                this.rowSpec = args[0];
+                this.columnSpec = args[1];
+            }
+        }
+
+        const a = this._attrBinder;
+        a.addAttr('gravity', (value)=>{
+            this.setGravity(a.parseGravity(value, Gravity.NO_GRAVITY));
+        });
+        a.addAttr('row', (value)=>{
+            let spec = this.rowSpec;
+            this.rowSpec = GridLayout.spec(a.parseNumber(value, LayoutParams.DEFAULT_ROW), spec.span.size(), spec.alignment, spec.weight);
+        }, ()=>{
+            return this.rowSpec.startDefined ? this.rowSpec.span.min : LayoutParams.DEFAULT_ROW;
+        });
+        a.addAttr('rowSpan', (value)=>{
+            let spec = this.rowSpec;
+            let start = spec.startDefined ? spec.span.min : LayoutParams.DEFAULT_ROW;
+            this.rowSpec = GridLayout.spec(start, a.parseNumber(value, LayoutParams.DEFAULT_SPAN_SIZE), spec.alignment, spec.weight);
+        }, ()=>{
+            return this.rowSpec.span.size();
+        });
+        a.addAttr('rowWeight', (value)=>{
+            let spec = this.rowSpec;
+            let start = spec.startDefined ? spec.span.min : LayoutParams.DEFAULT_ROW;
+            this.rowSpec = GridLayout.spec(start, spec.span.size(), spec.alignment, a.parseNumber(value, GridLayout.Spec.DEFAULT_WEIGHT));
+        }, ()=>{
+            return this.rowSpec.weight;
+        });
+        a.addAttr('column', (value)=>{
+            let spec = this.columnSpec;
+            this.columnSpec = GridLayout.spec(a.parseNumber(value, LayoutParams.DEFAULT_COLUMN), spec.span.size(), spec.alignment, spec.weight);
+        }, ()=>{
+            return this.columnSpec.startDefined ? this.columnSpec.span.min : LayoutParams.DEFAULT_COLUMN;
+        });
+        a.addAttr('columnSpan', (value)=>{
+            let spec = this.columnSpec;
+            let start = spec.startDefined ? spec.span.min : LayoutParams.DEFAULT_COLUMN;
+            this.columnSpec = GridLayout.spec(start, a.parseNumber(value, LayoutParams.DEFAULT_SPAN_SIZE), spec.alignment, spec.weight);
+        }, ()=>{
+            return this.columnSpec.span.size();
+        });
+        a.addAttr('columnWeight', (value)=>{
+            let spec = this.columnSpec;
+            let start = spec.startDefined ? spec.span.min : LayoutParams.DEFAULT_COLUMN;
+            this.columnSpec = GridLayout.spec(start, spec.span.size(), spec.alignment, a.parseNumber(value, GridLayout.Spec.DEFAULT_WEIGHT));
+        }, ()=>{
+            return this.columnSpec.weight;
+        });
+    }
+
+    /**
+     * Describes how the child views are positioned. Default is {@code LEFT | BASELINE}.
+     * See {@link Gravity}.
+     *
+     * @param gravity the new gravity value
+     *
+     * @attr ref android.R.styleable#GridLayout_Layout_layout_gravity
+     */
+    setGravity(gravity:number):void  {
+        this.rowSpec = this.rowSpec.copyWriteAlignment(GridLayout.getAlignment(gravity, false));
+        this.columnSpec = this.columnSpec.copyWriteAlignment(GridLayout.getAlignment(gravity, true));
+    }
+
+    setRowSpecSpan(span:GridLayout.Interval):void  {
+        this.rowSpec = this.rowSpec.copyWriteSpan(span);
+    }
+
+    setColumnSpecSpan(span:GridLayout.Interval):void  {
+        this.columnSpec = this.columnSpec.copyWriteSpan(span);
+    }
+
+    equals(o:any):boolean  {
+        if (this == o) return true;
+        if (o == null || !(o instanceof LayoutParams)) return false;
+        let that:LayoutParams = <LayoutParams> o;
+        if (!this.columnSpec.equals(that.columnSpec)) return false;
+        if (!this.rowSpec.equals(that.rowSpec)) return false;
+        return true;
+    }
+
+    hashCode():number  {
+        let result:number = this.rowSpec.hashCode();
+        result = (31 * result + this.columnSpec.hashCode()) | 0;
+        return result;
+    }
+}
+
+/*
+In place of a HashMap from span to Int, use an array of key/value pairs - stored in Arcs.
+Add the mutables completesCycle flag to avoid creating another hash table for detecting cycles.
+ */
+export class Arc {
+
+    span:GridLayout.Interval;
+
+    value:GridLayout.MutableInt;
+
+    valid:boolean = true;
+
+    constructor(span:GridLayout.Interval, value:GridLayout.MutableInt) {
+        this.span = span;
+        this.value = value;
+    }
+
+    toString():string  {
+        return this.span + " " + (!this.valid ? "+>" : "->") + " " + this.value;
+    }
+}
+
+// A mutable Integer - used to avoid heap allocation during the layout operation
+export class MutableInt {
+
+    value:number = 0;
+
+    constructor(value = GridLayout.UNDEFINED) {
+        this.value = value;
+    }
+
+    reset():void  {
+        this.value = GridLayout.UNDEFINED;
+    }
+
+    toString():string  {
+        return this.value + '';
+    }
+}
+
+/*
+This data structure is used in place of a Map where we have an index that refers to the order
+in which each key/value pairs were added to the map. In this case we store keys and values
+in arrays of a length that is equal to the number of unique keys. We also maintain an
+array of indexes from insertion order to the compacted arrays of keys and values.
+
+Note that behavior differs from that of a LinkedHashMap in that repeated entries
+*do* get added multiples times. So the length of index is equals to the number of
+items added.
+
+This is useful in the GridLayout class where we can rely on the order of children not
+changing during layout - to use integer-based lookup for our internal structures
+rather than using (and storing) an implementation of Map<Key, ?>.
+ */
+export class PackedMap<K extends {equals(o:any):boolean}, V> {
+
+    index:number[];
+
+    keys:K[];
+
+    values:V[];
+
+    constructor(keys:K[], values:V[]) {
+        this.index = PackedMap.createIndex(keys);
+        this.keys = PackedMap.compact(keys, this.index);
+        this.values = PackedMap.compact(values, this.index);
+    }
+
+    getValue(i:number):V  {
+        return this.values[this.index[i]];
+    }
+
+    private static createIndex<K extends {equals(o:any):boolean}>(keys:K[]):number[]  {
+        let size:number = keys.length;
+        let result:number[] = GridLayout.newIntArray(size);
+        let uniqueKeys:K[] = [];
+        for (let i:number = 0; i < size; i++) {
+            let key:K = keys[i];
+            let index:number = -1;
+            for (let j = 0, N = uniqueKeys.length; j < N; j++) {
+                if (uniqueKeys[j].equals(key)) {
+                    index = j;
+                    break;
+                }
+            }
+            if (index == -1) {
+                index = uniqueKeys.length;
+                uniqueKeys.push(key);
+            }
+            result[i] = index;
+        }
+        return result;
+    }
+
+    /*
+    Create a compact array of keys or values using the supplied index.
+     */
+    private static compact<K>(a:K[], index:number[]):K[]  {
+        let size:number = a.length;
+        let result:K[] = new Array<K>(GridLayout.max2(index, -1) + 1);
+        // this overwrite duplicates, retaining the last equivalent entry
+        for (let i:number = 0; i < size; i++) {
+            result[index[i]] = a[i];
+        }
+        return result;
+    }
+}
+
+/*
+For each group (with a given alignment) we need to store the amount of space required
+before the alignment point and the amount of space required after it. One side of this
+calculation is always 0 for START and END alignments but we don't make use of this.
+For CENTER and BASELINE alignments both sides are needed and in the BASELINE case no
+simple optimisations are possible.
+
+The general algorithm therefore is to create a Map (actually a PackedMap) from
+group to Bounds and to loop through all Views in the group taking the maximum
+of the values for each View.
+
+androidui: the sums are made with int arithmetic, as the undefined alignment values
+rely on the int overflow.
+*/
+export class Bounds {
+
+    before:number = 0;
+
+    after:number = 0;
+
+    // we're flexible iff all included specs are flexible
+    flexibility:number = 0;
+
+    constructor() {
+        this.reset();
+    }
+
+    reset():void  {
+        this.before = GridLayout.UNDEFINED;
+        this.after = GridLayout.UNDEFINED;
+        // from the above, we're flexible when empty
+        this.flexibility = GridLayout.CAN_STRETCH;
+    }
+
+    include(before:number, after:number):void  {
+        this.before = Math.max(this.before, before);
+        this.after = Math.max(this.after, after);
+    }
+
+    size(min:boolean):number  {
+        if (!min) {
+            if (GridLayout.canStretch(this.flexibility)) {
+                return GridLayout.MAX_SIZE;
+            }
+        }
+        return (this.before + this.after) | 0;
+    }
+
+    getOffset(gl:GridLayout, c:View, a:GridLayout.Alignment, size:number, horizontal:boolean):number  {
+        return (this.before - a.getAlignmentValue(c, size)) | 0;
+    }
+
+    includeView(gl:GridLayout, c:View, spec:GridLayout.Spec, axis:GridLayout.Axis, size:number):void  {
+        this.flexibility &= spec.getFlexibility();
+        let horizontal:boolean = axis.horizontal;
+        let alignment:GridLayout.Alignment = spec.getAbsoluteAlignment(horizontal);
+        // todo test this works correctly when the returned value is UNDEFINED
+        let before:number = alignment.getAlignmentValue(c, size);
+        this.include(before, (size - before) | 0);
+    }
+
+    toString():string  {
+        return "Bounds{" + "before=" + this.before + ", after=" + this.after + '}';
+    }
+}
+
+/**
+ * An Interval represents a contiguous range of values that lie between
+ * the interval's {@link #min} and {@link #max} values.
+ * <p>
+ * Intervals are immutable so may be passed as values and used as keys in hash tables.
+ * It is not necessary to have multiple instances of Intervals which have the same
+ * {@link #min} and {@link #max} values.
+ * <p>
+ * Intervals are often written as {@code [min, max]} and represent the set of values
+ * {@code x} such that {@code min <= x < max}.
+ */
+export class Interval {
+
+    /**
+     * The minimum value.
+     */
+    min:number = 0;
+
+    /**
+     * The maximum value.
+     */
+    max:number = 0;
+
+    /**
+     * Construct a new Interval, {@code interval}, where:
+     * <ul>
+     *     <li> {@code interval.min = min} </li>
+     *     <li> {@code interval.max = max} </li>
+     * </ul>
+     *
+     * @param min the minimum value.
+     * @param max the maximum value.
+     */
+    constructor(min:number, max:number) {
+        this.min = min;
+        this.max = max;
+    }
+
+    size():number  {
+        return this.max - this.min;
+    }
+
+    inverse():Interval  {
+        return new Interval(this.max, this.min);
+    }
+
+    /**
+     * Returns {@code true} if the {@link #getClass class},
+     * {@link #min} and {@link #max} properties of this Interval and the
+     * supplied parameter are pairwise equal; {@code false} otherwise.
+     *
+     * @param that the object to compare this interval with
+     *
+     * @return {@code true} if the specified object is equal to this
+     *         {@code Interval}, {@code false} otherwise.
+     */
+    equals(that:any):boolean  {
+        if (this == that) {
+            return true;
+        }
+        if (that == null || !(that instanceof Interval)) {
+            return false;
+        }
+        let interval:Interval = <Interval> that;
+        if (this.max != interval.max) {
+            return false;
+        }
+        //noinspection RedundantIfStatement
+        if (this.min != interval.min) {
+            return false;
+        }
+        return true;
+    }
+
+    hashCode():number  {
+        let result:number = this.min;
+        result = (31 * result + this.max) | 0;
+        return result;
+    }
+
+    toString():string  {
+        return "[" + this.min + ", " + this.max + "]";
+    }
+}
+
+/**
+ * A Spec defines the horizontal or vertical characteristics of a group of
+ * cells. Each spec. defines the <em>grid indices</em> and <em>alignment</em>
+ * along the appropriate axis.
+ * <p>
+ * The <em>grid indices</em> are the leading and trailing edges of this cell group.
+ * See {@link GridLayout} for a description of the conventions used by GridLayout
+ * for grid indices.
+ * <p>
+ * The <em>alignment</em> property specifies how cells should be aligned in this group.
+ * For row groups, this specifies the vertical alignment.
+ * For column groups, this specifies the horizontal alignment.
+ * <p>
+ * Use the following static methods to create specs:
+ * <ul>
+ *   <li>{@link #spec(int)}</li>
+ *   <li>{@link #spec(int, int)}</li>
+ *   <li>{@link #spec(int, Alignment)}</li>
+ *   <li>{@link #spec(int, int, Alignment)}</li>
+ *   <li>{@link #spec(int, int, float)}</li>
+ *   <li>{@link #spec(int, Alignment, float)}</li>
+ *   <li>{@link #spec(int, int, Alignment, float)}</li>
+ * </ul>
+ *
+ */
+export class Spec {
+
+    static UNDEFINED:Spec;
+
+    static DEFAULT_WEIGHT:number = 0;
+
+    startDefined:boolean;
+
+    span:GridLayout.Interval;
+
+    alignment:GridLayout.Alignment;
+
+    weight:number = 0;
+
+    constructor(startDefined:boolean, span:GridLayout.Interval, alignment:GridLayout.Alignment, weight:number);
+    constructor(startDefined:boolean, start:number, size:number, alignment:GridLayout.Alignment, weight:number);
+    constructor(...args) {
+        if (args.length === 4) {
+            this.startDefined = args[0];
+            this.span = args[1];
+            this.alignment = args[2];
+            this.weight = args[3];
+        } else {
+            let [startDefined, start, size, alignment, weight] = args;
+            this.startDefined = startDefined;
+            this.span = new GridLayout.Interval(start, start + size);
+            this.alignment = alignment;
+            this.weight = weight;
+        }
+    }
+
+    getAbsoluteAlignment(horizontal:boolean):GridLayout.Alignment  {
+        if (this.alignment != GridLayout.UNDEFINED_ALIGNMENT) {
+            return this.alignment;
+        }
+        if (this.weight == 0) {
+            return horizontal ? GridLayout.START : GridLayout.BASELINE;
+        }
+        return GridLayout.FILL;
+    }
+
+    copyWriteSpan(span:GridLayout.Interval):Spec  {
+        return new Spec(this.startDefined, span, this.alignment, this.weight);
+    }
+
+    copyWriteAlignment(alignment:GridLayout.Alignment):Spec  {
+        return new Spec(this.startDefined, this.span, alignment, this.weight);
+    }
+
+    getFlexibility():number  {
+        return (this.alignment == GridLayout.UNDEFINED_ALIGNMENT && this.weight == 0) ? GridLayout.INFLEXIBLE : GridLayout.CAN_STRETCH;
+    }
+
+    /**
+     * Returns {@code true} if the {@code class}, {@code alignment} and {@code span}
+     * properties of this Spec and the supplied parameter are pairwise equal,
+     * {@code false} otherwise.
+     *
+     * @param that the object to compare this spec with
+     *
+     * @return {@code true} if the specified object is equal to this
+     *         {@code Spec}; {@code false} otherwise
+     */
+    equals(that:any):boolean  {
+        if (this == that) {
+            return true;
+        }
+        if (that == null || !(that instanceof Spec)) {
+            return false;
+        }
+        let spec:Spec = <Spec> that;
+        if (this.alignment != spec.alignment) {
+            return false;
+        }
+        //noinspection RedundantIfStatement
+        if (!this.span.equals(spec.span)) {
+            return false;
+        }
+        return true;
+    }
+
+    hashCode():number  {
+        let result:number = this.span.hashCode();
+        result = (31 * result + this.alignment.hashCode()) | 0;
+        return result;
+    }
+}
+
+/**
+ * Alignments specify where a view should be placed within a cell group and
+ * what size it should be.
+ * <p>
+ * The {@link LayoutParams} class contains a {@link LayoutParams#rowSpec rowSpec}
+ * and a {@link LayoutParams#columnSpec columnSpec} each of which contains an
+ * {@code alignment}. Overall placement of the view in the cell
+ * group is specified by the two alignments which act along each axis independently.
+ * <p>
+ *  The GridLayout class defines the most common alignments used in general layout:
+ * {@link #TOP}, {@link #LEFT}, {@link #BOTTOM}, {@link #RIGHT}, {@link #START},
+ * {@link #END}, {@link #CENTER}, {@link #BASELINE} and {@link #FILL}.
+ */
+/*
+ * An Alignment implementation must define {@link #getAlignmentValue(View, int, int)},
+ * to return the appropriate value for the type of alignment being defined.
+ * The enclosing algorithms position the children
+ * so that the locations defined by the alignment values
+ * are the same for all of the views in a group.
+ * <p>
+ */
+export abstract class Alignment {
+
+    private static sHashCodeGenerator = 0;
+
+    private mHashCode = ++Alignment.sHashCodeGenerator;
+
+    /**
+     * Returns an alignment value. In the case of vertical alignments the value
+     * returned should indicate the distance from the top of the view to the
+     * alignment location.
+     * For horizontal alignments measurement is made from the left edge of the component.
+     *
+     * @param view              the view to which this alignment should be applied
+     * @param cellDelta         the difference between the size of the view and the size of the cell
+     * @return the alignment value
+     */
+    abstract getGravityOffset(view:View, cellDelta:number):number ;
+
+    /**
+     * Returns an alignment value. In the case of vertical alignments the value
+     * returned should indicate the distance from the top of the view to the
+     * alignment location.
+     * For horizontal alignments measurement is made from the left edge of the component.
+     *
+     * @param view     the view to which this alignment should be applied
+     * @param viewSize the measured size of the view
+     * @return the alignment value
+     */
+    abstract getAlignmentValue(view:View, viewSize:number):number ;
+
+    /**
+     * Returns the size of the view specified by this alignment.
+     * In the case of vertical alignments this method should return a height; for
+     * horizontal alignments this method should return the width.
+     * <p>
+     * The default implementation returns {@code viewSize}.
+     *
+     * @param view              the view to which this alignment should be applied
+     * @param viewSize          the measured size of the view
+     * @param cellSize          the size of the cell into which this view will be placed
+     * @return the aligned size
+     */
+    getSizeInCell(view:View, viewSize:number, cellSize:number):number  {
+        return viewSize;
+    }
+
+    getBounds():GridLayout.Bounds  {
+        return new GridLayout.Bounds();
+    }
+
+    hashCode():number  {
+        return this.mHashCode;
+    }
+}
+}
+
+    //delay init
+    GridLayout.UNDEFINED_ALIGNMENT = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return GridLayout.UNDEFINED;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return GridLayout.UNDEFINED;
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.LEADING = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return 0;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return 0;
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.TRAILING = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return cellDelta;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return viewSize;
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.TOP = GridLayout.LEADING;
+    GridLayout.BOTTOM = GridLayout.TRAILING;
+    GridLayout.START = GridLayout.LEADING;
+    GridLayout.END = GridLayout.TRAILING;
+    GridLayout.LEFT = GridLayout.createSwitchingAlignment(GridLayout.START, GridLayout.END);
+    GridLayout.RIGHT = GridLayout.createSwitchingAlignment(GridLayout.END, GridLayout.START);
+    GridLayout.CENTER = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return cellDelta >> 1;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return viewSize >> 1;
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.BASELINE = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                // baseline gravity is top
+                return 0;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                if (view.getVisibility() == View.GONE) {
+                    return 0;
+                }
+                let baseline:number = view.getBaseline();
+                return baseline == -1 ? GridLayout.UNDEFINED : baseline;
+            }
+
+            getBounds():GridLayout.Bounds  {
+                class _Bounds extends GridLayout.Bounds {
+                    /*
+                    In a baseline aligned row in which some components define a baseline
+                    and some don't, we need a third variable to properly account for all
+                    the sizes. This tracks the maximum size of all the components -
+                    including those that don't define a baseline.
+                    */
+                    private mSize:number;
+
+                    reset():void  {
+                        super.reset();
+                        this.mSize = GridLayout.UNDEFINED;
+                    }
+
+                    include(before:number, after:number):void  {
+                        super.include(before, after);
+                        this.mSize = Math.max(this.mSize, (before + after) | 0);
+                    }
+
+                    size(min:boolean):number  {
+                        return Math.max(super.size(min), this.mSize);
+                    }
+
+                    getOffset(gl:GridLayout, c:View, a:GridLayout.Alignment, size:number, hrz:boolean):number  {
+                        return Math.max(0, super.getOffset(gl, c, a, size, hrz));
+                    }
+                }
+                return new _Bounds();
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.FILL = (()=>{
+        class _Inner extends GridLayout.Alignment {
+            getGravityOffset(view:View, cellDelta:number):number  {
+                return 0;
+            }
+
+            getAlignmentValue(view:View, viewSize:number):number  {
+                return GridLayout.UNDEFINED;
+            }
+
+            getSizeInCell(view:View, viewSize:number, cellSize:number):number  {
+                return cellSize;
+            }
+        }
+        return new _Inner();
+    })();
+    GridLayout.Spec.UNDEFINED = GridLayout.spec(GridLayout.UNDEFINED);
+
+}
@@ -21,6 +21,7 @@
 ///<reference path="../../android/view/SoundEffectConstants.ts"/>
 ///<reference path="../../android/view/View.ts"/>
 ///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/view/animation/GridLayoutAnimationController.ts"/>
 ///<reference path="../../java/lang/Integer.ts"/>
 ///<reference path="../../android/widget/AbsListView.ts"/>
 ///<reference path="../../android/widget/Adapter.ts"/>
@@ -37,6 +38,7 @@ import KeyEvent = android.view.KeyEvent;
 import SoundEffectConstants = android.view.SoundEffectConstants;
 import View = android.view.View;
 import ViewGroup = android.view.ViewGroup;
+import GridLayoutAnimationController = android.view.animation.GridLayoutAnimationController;
 import Integer = java.lang.Integer;
 import AbsListView = android.widget.AbsListView;
 import LayoutParams = android.widget.AbsListView.LayoutParams;
@@ -146,6 +148,10 @@ export class GridView extends AbsListView {
         this._attrBinder.addAttr('gravity', (value)=>{
             this.setNumColumns(this._attrBinder.parseNumber(value, 1));
         });
+        this._attrBinder.addAttr('layoutAnimation', (value)=>{
+            let animation = this._attrBinder.parseAnimation(value);
+            if(animation) this.setLayoutAnimation(new GridLayoutAnimationController(animation));
+        });
 
         if(defStyle) this.applyDefaultAttributes(defStyle);
     }
@@ -958,6 +964,26 @@ export class GridView extends AbsListView {
         this.mWidthMeasureSpec = widthMeasureSpec;
     }
 
+    protected attachLayoutAnimationParameters(child:View, params:ViewGroup.LayoutParams, index:number, count:number):void  {
+        let animationParams:GridLayoutAnimationController.AnimationParameters = <GridLayoutAnimationController.AnimationParameters> params.layoutAnimationParameters;
+        if (animationParams == null) {
+            animationParams = new GridLayoutAnimationController.AnimationParameters();
+            params.layoutAnimationParameters = animationParams;
+        }
+        animationParams.count = count;
+        animationParams.index = index;
+        animationParams.columnsCount = this.mNumColumns;
+        animationParams.rowsCount = Math.floor(count / this.mNumColumns);
+        if (!this.mStackFromBottom) {
+            animationParams.column = index % this.mNumColumns;
+            animationParams.row = Math.floor(index / this.mNumColumns);
+        } else {
+            const invertedIndex:number = count - 1 - index;
+            animationParams.column = this.mNumColumns - 1 - (invertedIndex % this.mNumColumns);
+            animationParams.row = animationParams.rowsCount - 1 - Math.floor(invertedIndex / this.mNumColumns);
+        }
+    }
+
     protected layoutChildren():void  {
         const blockLayoutRequests:boolean = this.mBlockLayoutRequests;
         if (!blockLayoutRequests) {
@@ -0,0 +1,60 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/widget/ImageView.ts"/>
+///<reference path="../../android/widget/ViewSwitcher.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+
+module android.widget {
+import Drawable = android.graphics.drawable.Drawable;
+import ImageView = android.widget.ImageView;
+import ViewSwitcher = android.widget.ViewSwitcher;
+import Context = android.content.Context;
+
+/**
+ * Specialized {@link android.widget.ViewSwitcher} that contains
+ * only children of type {@link android.widget.ImageView}.
+ */
+export class ImageSwitcher extends ViewSwitcher {
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, defStyle);
+    }
+
+    /**
+     * Sets the image uri of the next view and switches to the next view.
+     *
+     * @param uri the uri of the image to display
+     */
+    setImageURI(uri:string):void {
+        let image:ImageView = <ImageView> this.getNextView();
+        image.setImageURI(uri);
+        this.showNext();
+    }
+
+    /**
+     * Sets the drawable of the next view and switches to the next view.
+     *
+     * @param drawable the drawable to display
+     */
+    setImageDrawable(drawable:Drawable):void {
+        let image:ImageView = <ImageView> this.getNextView();
+        image.setImageDrawable(drawable);
+        this.showNext();
+    }
+}
+}
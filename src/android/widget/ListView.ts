@@ -16,6 +16,8 @@
 
 ///<reference path="../../android/graphics/Canvas.ts"/>
 ///<reference path="../../android/graphics/Paint.ts"/>
+///<reference path="../../android/graphics/LinearGradient.ts"/>
+///<reference path="../../android/graphics/Shader.ts"/>
 ///<reference path="../../android/graphics/PixelFormat.ts"/>
 ///<reference path="../../android/graphics/Rect.ts"/>
 ///<reference path="../../android/graphics/drawable/Drawable.ts"/>
@@ -23,6 +25,8 @@
 ///<reference path="../../android/util/SparseBooleanArray.ts"/>
 ///<reference path="../../android/view/FocusFinder.ts"/>
 ///<reference path="../../android/view/KeyEvent.ts"/>
+///<reference path="../../android/view/MotionEvent.ts"/>
+///<reference path="../../android/content/res/Resources.ts"/>
 ///<reference path="../../android/view/SoundEffectConstants.ts"/>
 ///<reference path="../../android/view/View.ts"/>
 ///<reference path="../../android/view/ViewGroup.ts"/>
@@ -41,11 +45,14 @@
 ///<reference path="../../android/widget/ListAdapter.ts"/>
 ///<reference path="../../android/widget/WrapperListAdapter.ts"/>
 ///<reference path="../../android/widget/BaseAdapter.ts"/>
+///<reference path="../../android/widget/SectionIndexer.ts"/>
 ///<reference path="../../android/R/attr.ts"/>
 
 module android.widget {
 import Canvas = android.graphics.Canvas;
 import Paint = android.graphics.Paint;
+import LinearGradient = android.graphics.LinearGradient;
+import Shader = android.graphics.Shader;
 import PixelFormat = android.graphics.PixelFormat;
 import Rect = android.graphics.Rect;
 import Drawable = android.graphics.drawable.Drawable;
@@ -53,6 +60,8 @@ import MathUtils = android.util.MathUtils;
 import SparseBooleanArray = android.util.SparseBooleanArray;
 import FocusFinder = android.view.FocusFinder;
 import KeyEvent = android.view.KeyEvent;
+import Resources = android.content.res.Resources;
+import MotionEvent = android.view.MotionEvent;
 import SoundEffectConstants = android.view.SoundEffectConstants;
 import View = android.view.View;
 import ViewGroup = android.view.ViewGroup;
@@ -103,6 +112,11 @@ export class ListView extends AbsListView {
      */
     private static MIN_SCROLL_PREVIEW_PIXELS:number = 2;
 
+    /**
+     * Height of the shadow drawn below a pinned section header, in dips.
+     */
+    private static PINNED_SHADOW_HEIGHT_DP:number = 8;
+
 
 
     private mHeaderViewInfos:ArrayList<ListView.FixedViewInfo> = new ArrayList<ListView.FixedViewInfo>();
@@ -141,6 +155,39 @@ export class ListView extends AbsListView {
     // Keeps focused children visible through resizes
     private mFocusSelector:ListView.FocusSelector;
 
+    private mPinnedSectionEnabled:boolean = false;
+
+    // The section header currently pinned to the top of the list, if any
+    mPinnedSection:ListView.PinnedSection;
+
+    // A destroyed pinned section whose view is reused as convert view
+    private mRecyclePinnedSection:ListView.PinnedSection;
+
+    // Negative while the next section header pushes the pinned one up
+    mPinnedSectionTranslateY:number = 0;
+
+    private mPinnedSectionsDistanceY:number = 0;
+
+    private mPinnedShadowVisible:boolean = true;
+
+    private mPinnedShadowPaint:Paint;
+
+    private mPinnedShadowHeight:number = 0;
+
+    private mPinnedTouchTarget:View;
+
+    private mPinnedTouchDownEvent:MotionEvent;
+
+    private mPinnedTouchDownY:number = 0;
+
+    // true if the pinned view (or a child of it) handled the down event itself
+    private mPinnedTouchConsumed:boolean = false;
+
+    // true once the touch moved out of the pinned view, the gesture won't click it anymore
+    private mPinnedTouchOutside:boolean = false;
+
+    private mPinnedTouchRect:Rect = new Rect();
+
     constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle:any=android.R.attr.listViewStyle){
         super(context, bindElement, null);
         this._attrBinder.addAttr('divider', (value)=>{
@@ -167,6 +214,9 @@ export class ListView extends AbsListView {
         this._attrBinder.addAttr('footerDividersEnabled', (value)=>{
             this.setFooterDividersEnabled(this._attrBinder.parseBoolean(value, true));
         })
+        this._attrBinder.addAttr('pinnedSectionEnabled', (value)=>{
+            this.setPinnedSectionEnabled(this._attrBinder.parseBoolean(value, false));
+        })
 
         if(defStyle) this.applyDefaultAttributes(defStyle);
     }
@@ -462,6 +512,7 @@ export class ListView extends AbsListView {
         this.clearRecycledState(this.mFooterViewInfos);
         super.resetList();
         this.mLayoutMode = ListView.LAYOUT_NORMAL;
+        this.destroyPinnedSection();
     }
 
     private clearRecycledState(infos:ArrayList<ListView.FixedViewInfo>):void  {
@@ -1291,6 +1342,8 @@ export class ListView extends AbsListView {
             let dataChanged:boolean = this.mDataChanged;
             if (dataChanged) {
                 this.handleDataChanged();
+                // the pinned header may show stale data, rebind it after layout
+                this.destroyPinnedSection();
             }
             // and calling it a day
             if (this.mItemCount == 0) {
@@ -2843,6 +2896,7 @@ export class ListView extends AbsListView {
         }
         // Draw the indicators (these should be drawn above the dividers) and children
         super.dispatchDraw(canvas);
+        this.dispatchDrawPinnedSection(canvas);
     }
 
     protected drawChild(canvas:Canvas, child:View, drawingTime:number):boolean  {
@@ -2869,6 +2923,339 @@ export class ListView extends AbsListView {
         divider.draw(canvas);
     }
 
+    /**
+     * Enables or disables pinned section headers. When enabled, the header of the section
+     * containing the first visible item stays at the top of the list until the next
+     * section header pushes it away.
+     * <p>
+     * Section headers are the items whose view type is reported as pinned by a
+     * {@link ListView.PinnedSectionListAdapter}.
+     *
+     * @param enabled whether section headers should be pinned
+     */
+    setPinnedSectionEnabled(enabled:boolean):void  {
+        if (this.mPinnedSectionEnabled == enabled) {
+            return;
+        }
+        this.mPinnedSectionEnabled = enabled;
+        if (enabled) {
+            this.updatePinnedSection();
+        } else {
+            this.destroyPinnedSection();
+            this.mRecyclePinnedSection = null;
+        }
+        this.invalidate();
+    }
+
+    /**
+     * @return true if section headers are pinned to the top of the list
+     * @see #setPinnedSectionEnabled(boolean)
+     */
+    isPinnedSectionEnabled():boolean  {
+        return this.mPinnedSectionEnabled;
+    }
+
+    /**
+     * Sets whether a shadow is drawn below the pinned section header.
+     *
+     * @param visible true to draw the shadow (the default)
+     */
+    setPinnedSectionShadowVisible(visible:boolean):void  {
+        this.mPinnedShadowVisible = visible;
+        this.invalidate();
+    }
+
+    invokeOnItemScrollListener():void  {
+        if (this.mPinnedSectionEnabled) {
+            this.updatePinnedSection();
+        }
+        super.invokeOnItemScrollListener();
+    }
+
+    private updatePinnedSection():void  {
+        const visibleItemCount:number = this.getChildCount();
+        if (this.mAdapter == null || this.mItemCount == 0 || visibleItemCount == 0) {
+            this.destroyPinnedSection();
+            return;
+        }
+        const firstVisibleItem:number = this.mFirstPosition;
+        if (this.isPinnedSectionPosition(firstVisibleItem)) {
+            // the header is in place, only pin it once it starts scrolling out
+            if (this.getChildAt(0).getTop() == this.getListPaddingTop()) {
+                this.destroyPinnedSection();
+            } else {
+                this.ensurePinnedSection(firstVisibleItem, firstVisibleItem, visibleItemCount);
+            }
+        } else {
+            const sectionPosition:number = this.findCurrentSectionPosition(firstVisibleItem);
+            if (sectionPosition > -1) {
+                this.ensurePinnedSection(sectionPosition, firstVisibleItem, visibleItemCount);
+            } else {
+                this.destroyPinnedSection();
+            }
+        }
+    }
+
+    private ensurePinnedSection(sectionPosition:number, firstVisibleItem:number, visibleItemCount:number):void  {
+        if (visibleItemCount < 2) {
+            this.destroyPinnedSection();
+            return;
+        }
+        let pinned = this.mPinnedSection;
+        const listWidth = this.getWidth() - this.getListPaddingLeft() - this.getListPaddingRight();
+        if (pinned != null && (pinned.position != sectionPosition || pinned.view.getWidth() != listWidth)) {
+            this.destroyPinnedSection();
+        }
+        if (this.mPinnedSection == null) {
+            this.createPinnedSection(sectionPosition);
+        }
+        this.mPinnedSectionTranslateY = 0;
+        this.mPinnedSectionsDistanceY = Number.MAX_SAFE_INTEGER;
+        const nextPosition:number = sectionPosition + 1;
+        if (nextPosition < this.mItemCount) {
+            const nextSectionPosition = this.findFirstVisibleSectionPosition(nextPosition,
+                visibleItemCount - (nextPosition - firstVisibleItem));
+            if (nextSectionPosition > -1) {
+                const nextSectionView:View = this.getChildAt(nextSectionPosition - firstVisibleItem);
+                const bottom:number = this.mPinnedSection.view.getBottom() + this.getListPaddingTop();
+                this.mPinnedSectionsDistanceY = nextSectionView.getTop() - bottom;
+                if (this.mPinnedSectionsDistanceY < 0) {
+                    // the next header pushes the pinned one away
+                    this.mPinnedSectionTranslateY = this.mPinnedSectionsDistanceY;
+                }
+            }
+        }
+    }
+
+    private createPinnedSection(position:number):void  {
+        let pinned = this.mRecyclePinnedSection;
+        this.mRecyclePinnedSection = null;
+        if (pinned == null) {
+            pinned = new ListView.PinnedSection();
+        }
+        const pinnedView:View = this.mAdapter.getView(position, pinned.view, this);
+
+        let lp = <AbsListView.LayoutParams> pinnedView.getLayoutParams();
+        if (lp == null) {
+            lp = <AbsListView.LayoutParams> this.generateDefaultLayoutParams();
+            pinnedView.setLayoutParams(lp);
+        }
+        const maxHeight:number = this.getHeight() - this.getListPaddingTop() - this.getListPaddingBottom();
+        let heightSpec:number;
+        if (lp.height >= 0) {
+            heightSpec = View.MeasureSpec.makeMeasureSpec(Math.min(lp.height, maxHeight), View.MeasureSpec.EXACTLY);
+        } else {
+            heightSpec = View.MeasureSpec.makeMeasureSpec(0, View.MeasureSpec.UNSPECIFIED);
+        }
+        const widthSpec:number = View.MeasureSpec.makeMeasureSpec(
+            this.getWidth() - this.getListPaddingLeft() - this.getListPaddingRight(), View.MeasureSpec.EXACTLY);
+        pinnedView.measure(widthSpec, heightSpec);
+        pinnedView.layout(0, 0, pinnedView.getMeasuredWidth(), pinnedView.getMeasuredHeight());
+
+        pinned.view = pinnedView;
+        pinned.position = position;
+        pinned.id = this.mAdapter.getItemId(position);
+        this.mPinnedSection = pinned;
+        this.mPinnedSectionTranslateY = 0;
+    }
+
+    private destroyPinnedSection():void  {
+        if (this.mPinnedSection != null) {
+            // keep the view, it is used as convert view for the next pinned section
+            this.mRecyclePinnedSection = this.mPinnedSection;
+            this.mPinnedSection = null;
+        }
+        this.clearPinnedTouchTarget();
+    }
+
+    private findFirstVisibleSectionPosition(firstVisibleItem:number, visibleItemCount:number):number  {
+        for (let childIndex = 0; childIndex < visibleItemCount; childIndex++) {
+            const position:number = firstVisibleItem + childIndex;
+            if (this.isPinnedSectionPosition(position)) {
+                return position;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Returns whether the item at the given flat list position is a section header
+     * which should be pinned. Headers and footers added to the list are never pinned.
+     *
+     * @param position the position of the item in the list, including header views
+     */
+    protected isPinnedSectionPosition(position:number):boolean  {
+        let adapter:ListAdapter = this.mAdapter;
+        if (adapter == null || position < 0 || position >= this.mItemCount) {
+            return false;
+        }
+        const viewType:number = adapter.getItemViewType(position);
+        if (viewType == AdapterView.ITEM_VIEW_TYPE_HEADER_OR_FOOTER || viewType == AdapterView.ITEM_VIEW_TYPE_IGNORE) {
+            return false;
+        }
+        if (adapter instanceof HeaderViewListAdapter) {
+            adapter = (<HeaderViewListAdapter>adapter).getWrappedAdapter();
+        }
+        return ListView.PinnedSectionListAdapter.isImpl(adapter)
+            && (<ListView.PinnedSectionListAdapter>adapter).isItemViewTypePinned(viewType);
+    }
+
+    /**
+     * Returns the position of the section header the given item belongs to, or -1 if the
+     * item is not inside any section. Adapters implementing {@link SectionIndexer} are
+     * asked first, otherwise the list is scanned backwards from the given position.
+     *
+     * @param fromPosition the position of the item in the list, including header views
+     */
+    protected findCurrentSectionPosition(fromPosition:number):number  {
+        let adapter:ListAdapter = this.mAdapter;
+        let headersCount = 0;
+        if (adapter instanceof HeaderViewListAdapter) {
+            headersCount = (<HeaderViewListAdapter>adapter).getHeadersCount();
+            adapter = (<HeaderViewListAdapter>adapter).getWrappedAdapter();
+        }
+        if (SectionIndexer.isImpl(adapter) && fromPosition >= headersCount) {
+            const indexer = <SectionIndexer><any>adapter;
+            const sectionPosition:number = indexer.getSectionForPosition(fromPosition - headersCount);
+            const itemPosition:number = indexer.getPositionForSection(sectionPosition) + headersCount;
+            if (itemPosition <= fromPosition && this.isPinnedSectionPosition(itemPosition)) {
+                return itemPosition;
+            }
+        }
+        for (let position = fromPosition; position >= 0; position--) {
+            if (this.isPinnedSectionPosition(position)) {
+                return position;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Called when the pinned section header was clicked. The default implementation
+     * performs an item click on the section's position.
+     *
+     * @return true if there was an assigned OnItemClickListener that was called
+     */
+    protected performPinnedSectionClick():boolean  {
+        const pinned = this.mPinnedSection;
+        if (pinned == null) {
+            return false;
+        }
+        return this.performItemClick(pinned.view, pinned.position, pinned.id);
+    }
+
+    /**
+     * Draws the pinned section header, if any, above the list's children.
+     */
+    protected dispatchDrawPinnedSection(canvas:Canvas):void  {
+        const pinned = this.mPinnedSection;
+        if (pinned == null) {
+            return;
+        }
+        const view:View = pinned.view;
+        const pLeft:number = this.getListPaddingLeft();
+        const pTop:number = this.getListPaddingTop();
+        let shadowHeight = 0;
+        if (this.mPinnedShadowVisible && this.mPinnedSectionsDistanceY > 0) {
+            if (this.mPinnedShadowPaint == null) {
+                this.mPinnedShadowHeight = Math.floor(ListView.PINNED_SHADOW_HEIGHT_DP * Resources.getDisplayMetrics().density);
+                this.mPinnedShadowPaint = new Paint();
+                this.mPinnedShadowPaint.setShader(new LinearGradient(0, 0, 0, this.mPinnedShadowHeight,
+                    [0xffa0a0a0, 0x50a0a0a0, 0x00a0a0a0], null, Shader.TileMode.CLAMP));
+            }
+            shadowHeight = Math.min(this.mPinnedShadowHeight, this.mPinnedSectionsDistanceY);
+        }
+
+        const saveCount = canvas.save();
+        canvas.clipRect(pLeft, pTop, pLeft + view.getWidth(), pTop + view.getHeight() + shadowHeight);
+        canvas.translate(pLeft, pTop + this.mPinnedSectionTranslateY);
+        this.drawPinnedSectionView(canvas, view);
+        if (shadowHeight > 0) {
+            canvas.translate(0, view.getHeight());
+            canvas.drawRect(0, 0, view.getWidth(), this.mPinnedShadowHeight, this.mPinnedShadowPaint);
+        }
+        canvas.restoreToCount(saveCount);
+    }
+
+    /**
+     * Draws the pinned section view. The canvas is already translated to the view's origin.
+     */
+    protected drawPinnedSectionView(canvas:Canvas, view:View):void  {
+        view.draw(canvas);
+    }
+
+    dispatchTouchEvent(ev:MotionEvent):boolean  {
+        const x:number = ev.getX();
+        const y:number = ev.getY();
+        const action:number = ev.getActionMasked();
+
+        if (action == MotionEvent.ACTION_DOWN && this.mPinnedTouchTarget == null && this.mPinnedSection != null
+            && this.isPinnedSectionTouched(this.mPinnedSection.view, x, y)) {
+            this.mPinnedTouchTarget = this.mPinnedSection.view;
+            this.mPinnedTouchDownY = y;
+            this.mPinnedTouchDownEvent = MotionEvent.obtain(ev);
+            this.mPinnedTouchConsumed = this.dispatchPinnedSectionTouchEvent(ev, action);
+            return true;
+        }
+
+        if (this.mPinnedTouchTarget != null) {
+            const touched = !this.mPinnedTouchOutside && this.isPinnedSectionTouched(this.mPinnedTouchTarget, x, y);
+            if (touched) {
+                this.dispatchPinnedSectionTouchEvent(ev, action);
+            } else if (!this.mPinnedTouchOutside) {
+                // moved off the pinned view, let it drop the pressed state
+                this.dispatchPinnedSectionTouchEvent(ev, MotionEvent.ACTION_CANCEL);
+                this.mPinnedTouchOutside = true;
+            }
+            if (action == MotionEvent.ACTION_UP) {
+                if (touched && !this.mPinnedTouchConsumed) {
+                    this.performPinnedSectionClick();
+                }
+                this.clearPinnedTouchTarget();
+            } else if (action == MotionEvent.ACTION_CANCEL) {
+                this.clearPinnedTouchTarget();
+            } else if (action == MotionEvent.ACTION_MOVE && Math.abs(y - this.mPinnedTouchDownY) > this.mTouchSlop) {
+                // the user is scrolling, hand the gesture over to the list
+                if (!this.mPinnedTouchOutside) {
+                    this.dispatchPinnedSectionTouchEvent(ev, MotionEvent.ACTION_CANCEL);
+                }
+                super.dispatchTouchEvent(this.mPinnedTouchDownEvent);
+                super.dispatchTouchEvent(ev);
+                this.clearPinnedTouchTarget();
+            }
+            return true;
+        }
+        return super.dispatchTouchEvent(ev);
+    }
+
+    private dispatchPinnedSectionTouchEvent(ev:MotionEvent, action:number):boolean  {
+        const event = MotionEvent.obtain(ev);
+        event.setAction(action);
+        event.offsetLocation(-this.getListPaddingLeft(), -(this.getListPaddingTop() + this.mPinnedSectionTranslateY));
+        const handled = this.mPinnedTouchTarget.dispatchTouchEvent(event);
+        event.recycle();
+        // the pinned view isn't attached, so its state changes won't invalidate the list
+        this.invalidate();
+        return handled;
+    }
+
+    private isPinnedSectionTouched(view:View, x:number, y:number):boolean  {
+        const rect = this.mPinnedTouchRect;
+        view.getHitRect(rect);
+        rect.offset(this.getListPaddingLeft(), this.getListPaddingTop() + this.mPinnedSectionTranslateY);
+        return rect.contains(x, y);
+    }
+
+    private clearPinnedTouchTarget():void  {
+        this.mPinnedTouchTarget = null;
+        this.mPinnedTouchConsumed = false;
+        this.mPinnedTouchOutside = false;
+        if (this.mPinnedTouchDownEvent != null) {
+            this.mPinnedTouchDownEvent.recycle();
+            this.mPinnedTouchDownEvent = null;
+        }
+    }
+
     /**
      * Returns the drawable that will be drawn between each item in the list.
      *
@@ -3308,6 +3695,37 @@ export class ArrowScrollFocusResult {
         return this.mAmountToScroll;
     }
 }
+/**
+     * A section header pinned to the top of the list.
+     */
+export class PinnedSection {
+
+    view:View;
+
+    position:number = -1;
+
+    id:number = -1;
 }
 
-}
\ No newline at end of file
+/**
+     * Adapter which marks some of its view types as section headers. Items of these
+     * types are pinned to the top of a list with pinned sections enabled.
+     *
+     * @see ListView#setPinnedSectionEnabled(boolean)
+     */
+export interface PinnedSectionListAdapter extends ListAdapter {
+
+    /**
+         * @param viewType the view type returned by {@link Adapter#getItemViewType(int)}
+         * @return true if items of the given view type are section headers
+         */
+    isItemViewTypePinned(viewType:number):boolean;
+}
+export module PinnedSectionListAdapter{
+    export function isImpl(obj):boolean {
+        return obj && obj['isItemViewTypePinned'];
+    }
+}
+}
+
+}
@@ -0,0 +1,241 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/text/TextUtils.ts"/>
+///<reference path="../../android/widget/AutoCompleteTextView.ts"/>
+///<reference path="../../android/widget/Filter.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import TextUtils = android.text.TextUtils;
+import AutoCompleteTextView = android.widget.AutoCompleteTextView;
+import Filter = android.widget.Filter;
+
+/**
+ * An editable text view, extending {@link AutoCompleteTextView}, that
+ * can show completion suggestions for the substring of the text where
+ * the user is typing instead of necessarily for the entire thing.
+ * <p>
+ * You must provide a {@link Tokenizer} to distinguish the
+ * various substrings.
+ *
+ * <p>The following code snippet shows how to create a text view which suggests
+ * English words while the user is typing:</p>
+ *
+ * <pre class="prettyprint">
+ * let adapter = new ArrayAdapter&lt;string&gt;(context,
+ *         android.R.layout.simple_spinner_dropdown_item, null, COUNTRIES);
+ * let textView = &lt;MultiAutoCompleteTextView&gt;findViewById('edit');
+ * textView.setAdapter(adapter);
+ * textView.setTokenizer(new MultiAutoCompleteTextView.CommaTokenizer());
+ *
+ * const COUNTRIES = ["Belgium", "France", "Italy", "Germany", "Spain"];
+ * </pre>
+ *
+ * androidui: the text is always completed at its end, the token being edited
+ * is the one before the end of the text.
+ */
+export class MultiAutoCompleteTextView extends AutoCompleteTextView {
+
+    private mTokenizer:MultiAutoCompleteTextView.Tokenizer;
+
+    constructor(context:Context, bindElement?:HTMLElement, defStyle:any = android.R.attr.autoCompleteTextViewStyle) {
+        super(context, bindElement, defStyle);
+    }
+
+    /**
+     * Sets the Tokenizer that will be used to determine the relevant
+     * range of the text where the user is typing.
+     */
+    setTokenizer(t:MultiAutoCompleteTextView.Tokenizer):void  {
+        this.mTokenizer = t;
+    }
+
+    /**
+     * Instead of filtering on the entire contents of the edit box,
+     * this subclass method filters on the range from
+     * {@link Tokenizer#findTokenStart} to the end of the text
+     * if the length of that range meets or exceeds {@link #getThreshold}.
+     *
+     * When called with a range, it starts filtering based on the substring
+     * between <code>start</code> and <code>end</code>.
+     */
+    protected performFiltering(text:String, start?:number, end?:number):void  {
+        if (arguments.length === 1) {
+            if (this.enoughToFilter()) {
+                let tokenEnd:number = this.getCompletionEnd();
+                let tokenStart:number = this.mTokenizer.findTokenStart(text, tokenEnd);
+                this.performFiltering(text, tokenStart, tokenEnd);
+            } else {
+                this.dismissDropDown();
+                let f:Filter = this.getFilter();
+                if (f != null) {
+                    f.filter(null);
+                }
+            }
+        } else {
+            this.getFilter().filter(text.substring(start, end), this);
+        }
+    }
+
+    /**
+     * Instead of filtering whenever the total length of the text
+     * exceeds the threshhold, this subclass filters only when the
+     * length of the range from
+     * {@link Tokenizer#findTokenStart} to the end of the text
+     * meets or exceeds {@link #getThreshold}.
+     */
+    enoughToFilter():boolean  {
+        let text:String = this.getText();
+        let end:number = this.getCompletionEnd();
+        if (end < 0 || this.mTokenizer == null) {
+            return false;
+        }
+        let start:number = this.mTokenizer.findTokenStart(text, end);
+        if (end - start >= this.getThreshold()) {
+            return true;
+        } else {
+            return false;
+        }
+    }
+
+    /**
+     * Instead of validating the entire text, this subclass method validates
+     * each token of the text individually.  Empty tokens are removed.
+     */
+    performValidation():void  {
+        let v:AutoCompleteTextView.Validator = this.getValidator();
+        if (v == null || this.mTokenizer == null) {
+            return;
+        }
+        let e:string = this.getText().toString();
+        let i:number = e.length;
+        while (i > 0) {
+            let start:number = this.mTokenizer.findTokenStart(e, i);
+            let end:number = this.mTokenizer.findTokenEnd(e, start);
+            let sub:string = e.substring(start, end);
+            if (TextUtils.isEmpty(sub)) {
+                e = e.substring(0, start) + e.substring(i);
+            } else if (!v.isValid(sub)) {
+                e = e.substring(0, start) + this.mTokenizer.terminateToken(v.fixText(sub)) + e.substring(i);
+            }
+            i = start;
+        }
+        if (e != this.getText().toString()) {
+            this.setText(e);
+        }
+    }
+
+    /**
+     * <p>Performs the text completion by replacing the range from
+     * {@link Tokenizer#findTokenStart} to the end of the text by the
+     * the result of passing <code>text</code> through
+     * {@link Tokenizer#terminateToken}.
+     * Subclasses may override this method to do some different
+     * insertion of the content into the edit box.</p>
+     *
+     * @param text the selected suggestion in the drop down list
+     */
+    protected replaceText(text:String):void  {
+        let editable:string = this.getText().toString();
+        let end:number = this.getCompletionEnd();
+        let start:number = this.mTokenizer.findTokenStart(editable, end);
+        this.setText(editable.substring(0, start) + this.mTokenizer.terminateToken(text) + editable.substring(end));
+    }
+
+    /**
+     * androidui: the selection of the input element isn't tracked, the token
+     * being completed always ends at the end of the text.
+     */
+    private getCompletionEnd():number  {
+        return this.getText().length;
+    }
+}
+
+export module MultiAutoCompleteTextView{
+export interface Tokenizer {
+
+    /**
+     * Returns the start of the token that ends at offset
+     * <code>cursor</code> within <code>text</code>.
+     */
+    findTokenStart(text:String, cursor:number):number ;
+
+    /**
+     * Returns the end of the token (minus trailing punctuation)
+     * that begins at offset <code>cursor</code> within <code>text</code>.
+     */
+    findTokenEnd(text:String, cursor:number):number ;
+
+    /**
+     * Returns <code>text</code>, modified, if necessary, to ensure that
+     * it ends with a token terminator (for example a space or comma).
+     */
+    terminateToken(text:String):String ;
+}
+export module Tokenizer{
+    export function isImpl(obj){
+        return obj && obj['findTokenStart'] && obj['findTokenEnd'] && obj['terminateToken'];
+    }
+}
+
+/**
+ * This simple Tokenizer can be used for lists where the items are
+ * separated by a comma and one or more spaces.
+ */
+export class CommaTokenizer implements MultiAutoCompleteTextView.Tokenizer {
+
+    findTokenStart(text:String, cursor:number):number  {
+        let i:number = cursor;
+        while (i > 0 && text.charAt(i - 1) != ',') {
+            i--;
+        }
+        while (i < cursor && text.charAt(i) == ' ') {
+            i++;
+        }
+        return i;
+    }
+
+    findTokenEnd(text:String, cursor:number):number  {
+        let i:number = cursor;
+        let len:number = text.length;
+        while (i < len) {
+            if (text.charAt(i) == ',') {
+                return i;
+            } else {
+                i++;
+            }
+        }
+        return len;
+    }
+
+    terminateToken(text:String):String  {
+        let i:number = text.length;
+        while (i > 0 && text.charAt(i - 1) == ' ') {
+            i--;
+        }
+        if (i > 0 && text.charAt(i - 1) == ',') {
+            return text;
+        } else {
+            return text + ", ";
+        }
+    }
+}
+}
+
+}
@@ -71,6 +71,13 @@ module android.widget {
 
         private mActivePointerId = ScrollView.INVALID_POINTER;
 
+        /**
+         * Used during scrolling to retrieve the new offset within the window.
+         */
+        private mScrollOffset = [0, 0];
+        private mScrollConsumed = [0, 0];
+        private mNestedYOffset = 0;
+
         constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle?){
             super(context, bindElement, defStyle);
             this.initScrollView();
@@ -92,6 +99,8 @@ module android.widget {
             this.setFocusable(true);
             this.setDescendantFocusability(ViewGroup.FOCUS_AFTER_DESCENDANTS);
             this.setWillNotDraw(false);
+            //androidui add: there is no NestedScrollView, act as a nested scrolling child by default
+            this.setNestedScrollingEnabled(true);
             const configuration = ViewConfiguration.get();
             this.mTouchSlop = configuration.getScaledTouchSlop();
             this.mMinimumVelocity = configuration.getScaledMinimumFlingVelocity();
@@ -308,11 +317,12 @@ module android.widget {
 
                     const y = ev.getY(pointerIndex);
                     const yDiff = Math.abs(y - this.mLastMotionY);
-                    if (yDiff > this.mTouchSlop) {
+                    if (yDiff > this.mTouchSlop && (this.getNestedScrollAxes() & ScrollView.SCROLL_AXIS_VERTICAL) == 0) {
                         this.mIsBeingDragged = true;
                         this.mLastMotionY = y;
                         this.initVelocityTrackerIfNotExists();
                         this.mVelocityTracker.addMovement(ev);
+                        this.mNestedYOffset = 0;
                         const parent = this.getParent();
                         if (parent != null) {
                             parent.requestDisallowInterceptTouchEvent(true);
@@ -345,6 +355,7 @@ module android.widget {
                      * being flinged.
                      */
                     this.mIsBeingDragged = !this.mScroller.isFinished();
+                    this.startNestedScroll(ScrollView.SCROLL_AXIS_VERTICAL);
                     break;
                 }
 
@@ -357,6 +368,7 @@ module android.widget {
                     if (this.mScroller.springBack(this.mScrollX, this.mScrollY, 0, 0, 0, this.getScrollRange())) {
                         this.postInvalidateOnAnimation();
                     }
+                    this.stopNestedScroll();
                     break;
                 case MotionEvent.ACTION_POINTER_UP:
                     this.onSecondaryPointerUp(ev);
@@ -372,11 +384,18 @@ module android.widget {
 
         onTouchEvent(ev:MotionEvent):boolean {
             this.initVelocityTrackerIfNotExists();
-            this.mVelocityTracker.addMovement(ev);
+
+            const vtev = MotionEvent.obtain(ev);
 
             const action = ev.getAction();
+            const actionMasked = action & MotionEvent.ACTION_MASK;
 
-            switch (action & MotionEvent.ACTION_MASK) {
+            if (actionMasked == MotionEvent.ACTION_DOWN) {
+                this.mNestedYOffset = 0;
+            }
+            vtev.offsetLocation(0, this.mNestedYOffset);
+
+            switch (actionMasked) {
                 case MotionEvent.ACTION_DOWN:
                 {
                     if (this.getChildCount() == 0) {
@@ -400,6 +419,7 @@ module android.widget {
                     // Remember where the motion event started
                     this.mLastMotionY = ev.getY();
                     this.mActivePointerId = ev.getPointerId(0);
+                    this.startNestedScroll(ScrollView.SCROLL_AXIS_VERTICAL);
                     break;
                 }
                 case MotionEvent.ACTION_MOVE:
@@ -411,6 +431,11 @@ module android.widget {
 
                     const y = ev.getY(activePointerIndex);
                     let deltaY = this.mLastMotionY - y;
+                    if (this.dispatchNestedPreScroll(0, deltaY, this.mScrollConsumed, this.mScrollOffset)) {
+                        deltaY -= this.mScrollConsumed[1];
+                        vtev.offsetLocation(0, this.mScrollOffset[1]);
+                        this.mNestedYOffset += this.mScrollOffset[1];
+                    }
                     if (!this.mIsBeingDragged && Math.abs(deltaY) > this.mTouchSlop) {
                         const parent = this.getParent();
                         if (parent != null) {
@@ -425,7 +450,7 @@ module android.widget {
                     }
                     if (this.mIsBeingDragged) {
                         // Scroll to follow the motion event
-                        this.mLastMotionY = y;
+                        this.mLastMotionY = y - this.mScrollOffset[1];
 
                         const oldX = this.mScrollX;
                         const oldY = this.mScrollY;
@@ -433,16 +458,24 @@ module android.widget {
                         const overscrollMode = this.getOverScrollMode();
                         const canOverscroll = overscrollMode == ScrollView.OVER_SCROLL_ALWAYS ||
                             (overscrollMode == ScrollView.OVER_SCROLL_IF_CONTENT_SCROLLS && range > 0);
+                        //androidui: leave the edge pull to the nested scrolling parent instead of bouncing
+                        const overscrollDistance = this.hasNestedScrollingParent() ? 0 : this.mOverscrollDistance;
 
                         // Calling overScrollBy will call onOverScrolled, which
                         // calls onScrollChanged if applicable.
                         if (this.overScrollBy(0, deltaY, 0, this.mScrollY,
-                                0, range, 0, this.mOverscrollDistance, true)) {
+                                0, range, 0, overscrollDistance, true) && !this.hasNestedScrollingParent()) {
                             // Break our velocity if we hit a scroll barrier.
                             this.mVelocityTracker.clear();
                         }
 
-                        if (canOverscroll) {
+                        const scrolledDeltaY = this.mScrollY - oldY;
+                        const unconsumedY = deltaY - scrolledDeltaY;
+                        if (this.dispatchNestedScroll(0, scrolledDeltaY, 0, unconsumedY, this.mScrollOffset)) {
+                            this.mLastMotionY -= this.mScrollOffset[1];
+                            vtev.offsetLocation(0, this.mScrollOffset[1]);
+                            this.mNestedYOffset += this.mScrollOffset[1];
+                        } else if (canOverscroll) {
                             const pulledToY = oldY + deltaY;
                             if (pulledToY < 0) {
 //                            mEdgeGlowTop.onPull((float) deltaY / getHeight());
@@ -468,7 +501,7 @@ module android.widget {
                             let forceSpringBack = (this.mScrollY<-this._mOverflingDistance && initialVelocity>0)
                                 || (this.mScrollY > (this.getScrollRange() + this._mOverflingDistance) && initialVelocity<0);
                             if (!forceSpringBack && (Math.abs(initialVelocity) > this.mMinimumVelocity)) {
-                                this.fling(-initialVelocity);
+                                this.flingWithNestedDispatch(-initialVelocity);
                             } else {
                                 if (this.mScroller.springBack(this.mScrollX, this.mScrollY, 0, 0, 0,
                                         this.getScrollRange())) {
@@ -502,6 +535,11 @@ module android.widget {
                     this.mLastMotionY = ev.getY(ev.findPointerIndex(this.mActivePointerId));
                     break;
             }
+
+            if (this.mVelocityTracker != null) {
+                this.mVelocityTracker.addMovement(vtev);
+            }
+            vtev.recycle();
             return true;
         }
 
@@ -1099,10 +1137,28 @@ module android.widget {
                 this.postInvalidateOnAnimation();
             }
         }
+        private flingWithNestedDispatch(velocityY:number):void {
+            const canFling = (this.mScrollY > 0 || velocityY > 0) &&
+                (this.mScrollY < this.getScrollRange() || velocityY < 0);
+            if (!this.dispatchNestedPreFling(0, velocityY)) {
+                this.dispatchNestedFling(0, velocityY, canFling);
+                if (canFling) {
+                    this.fling(velocityY);
+                    return;
+                }
+            }
+            //androidui add: not fling, but may be over scrolled, spring back.
+            if (this.mScroller.springBack(this.mScrollX, this.mScrollY, 0, 0, 0, this.getScrollRange())) {
+                this.postInvalidateOnAnimation();
+            }
+        }
+
         private endDrag(){
             this.mIsBeingDragged = false;
 
             this.recycleVelocityTracker();
+
+            this.stopNestedScroll();
         }
 
         scrollTo(x:number, y:number){
@@ -0,0 +1,993 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/graphics/Canvas.ts"/>
+///<reference path="../../android/graphics/Paint.ts"/>
+///<reference path="../../android/graphics/Path.ts"/>
+///<reference path="../../android/graphics/PixelFormat.ts"/>
+///<reference path="../../android/graphics/Rect.ts"/>
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/text/TextUtils.ts"/>
+///<reference path="../../android/text/TextWatcher.ts"/>
+///<reference path="../../android/util/Log.ts"/>
+///<reference path="../../android/view/CollapsibleActionView.ts"/>
+///<reference path="../../android/view/KeyEvent.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/AdapterView.ts"/>
+///<reference path="../../android/widget/AutoCompleteTextView.ts"/>
+///<reference path="../../android/widget/Filterable.ts"/>
+///<reference path="../../android/widget/ImageView.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+///<reference path="../../android/widget/ListAdapter.ts"/>
+///<reference path="../../android/widget/ListView.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+///<reference path="../../android/R/drawable.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import Canvas = android.graphics.Canvas;
+import Paint = android.graphics.Paint;
+import Path = android.graphics.Path;
+import PixelFormat = android.graphics.PixelFormat;
+import Rect = android.graphics.Rect;
+import Drawable = android.graphics.drawable.Drawable;
+import TextUtils = android.text.TextUtils;
+import TextWatcher = android.text.TextWatcher;
+import Log = android.util.Log;
+import CollapsibleActionView = android.view.CollapsibleActionView;
+import KeyEvent = android.view.KeyEvent;
+import View = android.view.View;
+import MeasureSpec = android.view.View.MeasureSpec;
+import ViewGroup = android.view.ViewGroup;
+import AdapterView = android.widget.AdapterView;
+import AutoCompleteTextView = android.widget.AutoCompleteTextView;
+import Filterable = android.widget.Filterable;
+import ImageView = android.widget.ImageView;
+import LinearLayout = android.widget.LinearLayout;
+import ListAdapter = android.widget.ListAdapter;
+import ListView = android.widget.ListView;
+
+/**
+ * A widget that provides a user interface for the user to enter a search query and submit a request
+ * to a search provider. Shows a list of query suggestions or results, if available, and allows the
+ * user to pick a suggestion or result to launch into.
+ *
+ * <p>
+ * When the SearchView is used in an ActionBar as an action view for a collapsible menu item, it
+ * needs to be set to iconified by default using {@link #setIconifiedByDefault(boolean)
+ * setIconifiedByDefault(true)}. This is the default, so nothing needs to be done.
+ * </p>
+ * <p>
+ * If you want the search field to always be visible, then call setIconifiedByDefault(false).
+ * </p>
+ *
+ * androidui: there is no searchable activity, a query is only delivered to the
+ * {@link SearchView.OnQueryTextListener}, and clicking a suggestion fills the query with it
+ * and submits it. The suggestions come from any {@link ListAdapter} that is {@link Filterable}.
+ *
+ * @attr ref android.R.styleable#SearchView_iconifiedByDefault
+ * @attr ref android.R.styleable#SearchView_maxWidth
+ * @attr ref android.R.styleable#SearchView_queryHint
+ */
+export class SearchView extends LinearLayout implements CollapsibleActionView {
+
+    static DBG:boolean = false;
+
+    private static LOG_TAG:string = "SearchView";
+
+    private mOnQueryChangeListener:SearchView.OnQueryTextListener;
+
+    private mOnCloseListener:SearchView.OnCloseListener;
+
+    private mOnQueryTextFocusChangeListener:View.OnFocusChangeListener;
+
+    private mOnSuggestionListener:SearchView.OnSuggestionListener;
+
+    private mOnSearchClickListener:View.OnClickListener;
+
+    private mIconifiedByDefault:boolean;
+
+    private mIconified:boolean;
+
+    private mSuggestionsAdapter:ListAdapter;
+
+    private mSearchButton:ImageView;
+
+    private mSubmitButton:ImageView;
+
+    private mSearchEditFrame:LinearLayout;
+
+    private mSearchPlate:LinearLayout;
+
+    private mQueryTextView:SearchView.SearchAutoComplete;
+
+    private mCloseButton:ImageView;
+
+    private mSearchHintIcon:ImageView;
+
+    private mSubmitButtonEnabled:boolean;
+
+    private mQueryHint:string;
+
+    private mClearingFocus:boolean;
+
+    private mMaxWidth:number = 0;
+
+    private mOldQueryText:string;
+
+    private mUserQuery:string;
+
+    private mExpandedInActionView:boolean;
+
+    constructor(context:Context, bindElement?:HTMLElement, defStyle:any = android.R.attr.searchViewStyle) {
+        super(context, bindElement, null);
+        const density = context.getResources().getDisplayMetrics().density;
+
+        this.mSearchButton = this.createIconView(SearchViewIconDrawable.TYPE_SEARCH, density);
+        this.addView(this.mSearchButton, new LinearLayout.LayoutParams(-2, -2));
+
+        this.mSearchEditFrame = new LinearLayout(context);
+        this.mSearchEditFrame.setGravity(android.view.Gravity.CENTER_VERTICAL);
+        this.addView(this.mSearchEditFrame, new LinearLayout.LayoutParams(0, -2, 1));
+
+        this.mSearchHintIcon = new ImageView(context);
+        this.mSearchHintIcon.setImageDrawable(new SearchViewIconDrawable(SearchViewIconDrawable.TYPE_SEARCH, density));
+        this.mSearchEditFrame.addView(this.mSearchHintIcon, new LinearLayout.LayoutParams(-2, -2));
+
+        this.mSearchPlate = new LinearLayout(context);
+        this.mSearchPlate.setGravity(android.view.Gravity.CENTER_VERTICAL);
+        this.mSearchPlate.setBackground(android.R.drawable.editbox_background);
+        this.mSearchEditFrame.addView(this.mSearchPlate, new LinearLayout.LayoutParams(0, -2, 1));
+
+        this.mQueryTextView = new SearchView.SearchAutoComplete(context);
+        this.mQueryTextView.setSearchView(this);
+        this.mQueryTextView.setBackground(null);
+        this.mSearchPlate.addView(this.mQueryTextView, new LinearLayout.LayoutParams(0, -2, 1));
+
+        this.mCloseButton = this.createIconView(SearchViewIconDrawable.TYPE_CLOSE, density);
+        this.mSearchPlate.addView(this.mCloseButton, new LinearLayout.LayoutParams(-2, -2));
+
+        this.mSubmitButton = this.createIconView(SearchViewIconDrawable.TYPE_GO, density);
+        this.addView(this.mSubmitButton, new LinearLayout.LayoutParams(-2, -2));
+
+        this.mSearchButton.setOnClickListener({
+            onClick: (v:View)=>{
+                this.onSearchClicked();
+            }
+        });
+        this.mCloseButton.setOnClickListener({
+            onClick: (v:View)=>{
+                this.onCloseClicked();
+            }
+        });
+        this.mSubmitButton.setOnClickListener({
+            onClick: (v:View)=>{
+                this.onSubmitQuery();
+            }
+        });
+        this.mQueryTextView.addTextChangedListener({
+            beforeTextChanged: (s:String, start:number, before:number, after:number)=>{
+            },
+            onTextChanged: (s:String, start:number, before:number, after:number)=>{
+                this.onTextChanged(s);
+            },
+            afterTextChanged: (s:String)=>{
+            }
+        });
+        this.mQueryTextView.setOnKeyListener({
+            onKey: (v:View, keyCode:number, event:KeyEvent):boolean=>{
+                return this.onQueryTextKey(v, keyCode, event);
+            }
+        });
+        this.mQueryTextView.setOnItemClickListener({
+            onItemClick: (parent:AdapterView<any>, view:View, position:number, id:number)=>{
+                if (SearchView.DBG) Log.d(SearchView.LOG_TAG, "onItemClick() position " + position);
+                this.onItemClicked(position);
+            }
+        });
+        this.mQueryTextView.setOnItemSelectedListener({
+            onItemSelected: (parent:AdapterView<any>, view:View, position:number, id:number)=>{
+                if (SearchView.DBG) Log.d(SearchView.LOG_TAG, "onItemSelected() position " + position);
+                this.onItemSelected(position);
+            },
+            onNothingSelected: (parent:AdapterView<any>)=>{
+                if (SearchView.DBG) Log.d(SearchView.LOG_TAG, "onNothingSelected()");
+            }
+        });
+        this.mQueryTextView.setOnFocusChangeListener({
+            onFocusChange: (v:View, hasFocus:boolean)=>{
+                if (this.mOnQueryTextFocusChangeListener != null) {
+                    this.mOnQueryTextFocusChangeListener.onFocusChange(this, hasFocus);
+                }
+            }
+        });
+
+        let a = this._attrBinder;
+        a.addAttr('iconifiedByDefault', (value)=>{
+            this.setIconifiedByDefault(a.parseBoolean(value, true));
+        }, ()=>{
+            return this.mIconifiedByDefault;
+        });
+        a.addAttr('maxWidth', (value)=>{
+            this.setMaxWidth(a.parseNumber(value, -1));
+        }, ()=>{
+            return this.mMaxWidth;
+        });
+        a.addAttr('queryHint', (value)=>{
+            this.setQueryHint(a.parseString(value));
+        }, ()=>{
+            return this.mQueryHint;
+        });
+
+        this.setFocusable(true);
+        this.mIconifiedByDefault = true;
+        this.updateViewsVisibility(this.mIconifiedByDefault);
+        this.updateQueryHint();
+
+        if (defStyle != null) this.applyDefaultAttributes(defStyle);
+    }
+
+    private createIconView(type:number, density:number):ImageView {
+        const iconView = new ImageView(this.getContext());
+        iconView.setImageDrawable(new SearchViewIconDrawable(type, density));
+        iconView.setBackground(android.R.drawable.item_background);
+        iconView.setPadding(8 * density, 8 * density, 8 * density, 8 * density);
+        iconView.setFocusable(true);
+        return iconView;
+    }
+
+    /** @hide */
+    requestFocus(direction = View.FOCUS_DOWN, previouslyFocusedRect:Rect = null):boolean  {
+        // Don't accept focus if in the middle of clearing focus
+        if (this.mClearingFocus) return false;
+        // Check if SearchView is focusable.
+        if (!this.isFocusable()) return false;
+        // If it is not iconified, then give the focus to the text field
+        if (!this.isIconified()) {
+            let result:boolean = this.mQueryTextView.requestFocus(direction, previouslyFocusedRect);
+            if (result) {
+                this.updateViewsVisibility(false);
+            }
+            return result;
+        } else {
+            return super.requestFocus(direction, previouslyFocusedRect);
+        }
+    }
+
+    /** @hide */
+    clearFocus():void  {
+        this.mClearingFocus = true;
+        super.clearFocus();
+        this.mQueryTextView.clearFocus();
+        this.mClearingFocus = false;
+    }
+
+    /**
+     * Sets a listener for user actions within the SearchView.
+     *
+     * @param listener the listener object that receives callbacks when the user performs
+     * actions in the SearchView such as clicking on buttons or typing a query.
+     */
+    setOnQueryTextListener(listener:SearchView.OnQueryTextListener):void  {
+        this.mOnQueryChangeListener = listener;
+    }
+
+    /**
+     * Sets a listener to inform when the user closes the SearchView.
+     *
+     * @param listener the listener to call when the user closes the SearchView.
+     */
+    setOnCloseListener(listener:SearchView.OnCloseListener):void  {
+        this.mOnCloseListener = listener;
+    }
+
+    /**
+     * Sets a listener to inform when the focus of the query text field changes.
+     *
+     * @param listener
+     */
+    setOnQueryTextFocusChangeListener(listener:View.OnFocusChangeListener):void  {
+        this.mOnQueryTextFocusChangeListener = listener;
+    }
+
+    /**
+     * Sets a listener to inform when a suggestion is focused or clicked.
+     *
+     * @param listener the listener to inform of suggestion selection events.
+     */
+    setOnSuggestionListener(listener:SearchView.OnSuggestionListener):void  {
+        this.mOnSuggestionListener = listener;
+    }
+
+    /**
+     * Sets a listener to inform when the search button is pressed. This is only
+     * relevant when the text field is not visible by default. Calling {@link #setIconified
+     * setIconified(false)} can also cause this listener to be informed.
+     *
+     * @param listener
+     */
+    setOnSearchClickListener(listener:View.OnClickListener):void  {
+        this.mOnSearchClickListener = listener;
+    }
+
+    /**
+     * Returns the query string currently in the text field.
+     *
+     * @return the query string
+     */
+    getQuery():string  {
+        return this.mQueryTextView.getText().toString();
+    }
+
+    /**
+     * Sets a query string in the text field and optionally submits the query as well.
+     *
+     * @param query the query string. This replaces any query text already present in the
+     * text field.
+     * @param submit whether to submit the query right now or only update the contents of
+     * text field.
+     */
+    setQuery(query:string, submit:boolean):void  {
+        this.mQueryTextView.setText(query);
+        this.mUserQuery = query;
+        // If the query is not empty and submit is requested, submit the query
+        if (submit && !TextUtils.isEmpty(query)) {
+            this.onSubmitQuery();
+        }
+    }
+
+    /**
+     * Sets the hint text to display in the query text field.
+     *
+     * @param hint the hint text to display
+     *
+     * @attr ref android.R.styleable#SearchView_queryHint
+     */
+    setQueryHint(hint:string):void  {
+        this.mQueryHint = hint;
+        this.updateQueryHint();
+    }
+
+    /**
+     * Gets the hint text to display in the query text field.
+     * @return the query hint text, if specified, null otherwise.
+     *
+     * @attr ref android.R.styleable#SearchView_queryHint
+     */
+    getQueryHint():string  {
+        return this.mQueryHint;
+    }
+
+    /**
+     * Sets the default or resting state of the search field. If true, a single search icon is
+     * shown by default and expands to show the text field and other buttons when pressed. Also,
+     * if the default state is iconified, then it collapses to that state when the close button
+     * is pressed. Changes to this property will take effect immediately.
+     *
+     * <p>The default value is true.</p>
+     *
+     * @param iconified whether the search field should be iconified by default
+     *
+     * @attr ref android.R.styleable#SearchView_iconifiedByDefault
+     */
+    setIconifiedByDefault(iconified:boolean):void  {
+        if (this.mIconifiedByDefault == iconified) return;
+        this.mIconifiedByDefault = iconified;
+        this.updateViewsVisibility(iconified);
+        this.updateQueryHint();
+    }
+
+    /**
+     * Returns the default iconified state of the search field.
+     * @return
+     *
+     * @attr ref android.R.styleable#SearchView_iconifiedByDefault
+     */
+    isIconfiedByDefault():boolean  {
+        return this.mIconifiedByDefault;
+    }
+
+    /**
+     * Iconifies or expands the SearchView. Any query text is cleared when iconified. This is
+     * a temporary state and does not override the default iconified state set by
+     * {@link #setIconifiedByDefault(boolean)}. If the default state is iconified, then
+     * a false here will only be valid until the user closes the field. And if the default
+     * state is expanded, then a true here will only clear the text field and not close it.
+     *
+     * @param iconify a true value will collapse the SearchView to an icon, while a false will
+     * expand it.
+     */
+    setIconified(iconify:boolean):void  {
+        if (iconify) {
+            this.onCloseClicked();
+        } else {
+            this.onSearchClicked();
+        }
+    }
+
+    /**
+     * Returns the current iconified state of the SearchView.
+     *
+     * @return true if the SearchView is currently iconified, false if the search field is
+     * fully visible.
+     */
+    isIconified():boolean  {
+        return this.mIconified;
+    }
+
+    /**
+     * Enables showing a submit button when the query is non-empty. In cases where the SearchView
+     * is being used to filter the contents of the current activity and doesn't launch a separate
+     * results activity, then the submit button should be disabled.
+     *
+     * @param enabled true to show a submit button for submitting queries, false if a submit
+     * button is not required.
+     */
+    setSubmitButtonEnabled(enabled:boolean):void  {
+        this.mSubmitButtonEnabled = enabled;
+        this.updateViewsVisibility(this.isIconified());
+    }
+
+    /**
+     * Returns whether the submit button is enabled when necessary or never displayed.
+     *
+     * @return whether the submit button is enabled automatically when necessary
+     */
+    isSubmitButtonEnabled():boolean  {
+        return this.mSubmitButtonEnabled;
+    }
+
+    /**
+     * You can set a custom adapter if you wish. The adapter supplies the suggestions,
+     * its filter is run with the query text as the user types.
+     *
+     * @param adapter the adapter to set
+     */
+    setSuggestionsAdapter<T extends ListAdapter & Filterable>(adapter:T):void  {
+        this.mSuggestionsAdapter = adapter;
+        this.mQueryTextView.setAdapter(adapter);
+    }
+
+    /**
+     * Returns the adapter used for suggestions, if any.
+     * @return the suggestions adapter
+     */
+    getSuggestionsAdapter():ListAdapter  {
+        return this.mSuggestionsAdapter;
+    }
+
+    /**
+     * Makes the view at most this many pixels wide
+     *
+     * @attr ref android.R.styleable#SearchView_maxWidth
+     */
+    setMaxWidth(maxpixels:number):void  {
+        this.mMaxWidth = maxpixels;
+        this.requestLayout();
+    }
+
+    /**
+     * Gets the specified maximum width in pixels, if set. Returns zero if
+     * no maximum width was specified.
+     * @return the maximum width of the view
+     *
+     * @attr ref android.R.styleable#SearchView_maxWidth
+     */
+    getMaxWidth():number  {
+        return this.mMaxWidth;
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        // Let the standard measurements take effect in iconified state.
+        if (this.isIconified()) {
+            super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+            return;
+        }
+        let widthMode:number = MeasureSpec.getMode(widthMeasureSpec);
+        let width:number = MeasureSpec.getSize(widthMeasureSpec);
+        switch(widthMode) {
+            case MeasureSpec.AT_MOST:
+                // If there is an upper limit, don't exceed maximum width (explicit or implicit)
+                if (this.mMaxWidth > 0) {
+                    width = Math.min(this.mMaxWidth, width);
+                } else {
+                    width = Math.min(this.getPreferredWidth(), width);
+                }
+                break;
+            case MeasureSpec.EXACTLY:
+                // If an exact width is specified, still don't exceed any specified maximum width
+                if (this.mMaxWidth > 0) {
+                    width = Math.min(this.mMaxWidth, width);
+                }
+                break;
+            case MeasureSpec.UNSPECIFIED:
+                // Use maximum width, if specified, else preferred width
+                width = this.mMaxWidth > 0 ? this.mMaxWidth : this.getPreferredWidth();
+                break;
+        }
+        widthMode = MeasureSpec.EXACTLY;
+        super.onMeasure(MeasureSpec.makeMeasureSpec(width, widthMode), heightMeasureSpec);
+    }
+
+    private getPreferredWidth():number  {
+        return 320 * this.getResources().getDisplayMetrics().density;
+    }
+
+    private updateViewsVisibility(collapsed:boolean):void  {
+        this.mIconified = collapsed;
+        // Visibility of views that are visible when collapsed
+        const visCollapsed:number = collapsed ? View.VISIBLE : View.GONE;
+        // Is there text in the query
+        const hasText:boolean = !TextUtils.isEmpty(this.mQueryTextView.getText());
+        this.mSearchButton.setVisibility(visCollapsed);
+        this.updateSubmitButton(hasText);
+        this.mSearchEditFrame.setVisibility(collapsed ? View.GONE : View.VISIBLE);
+        this.mSearchHintIcon.setVisibility(this.mIconifiedByDefault ? View.GONE : View.VISIBLE);
+        this.updateCloseButton();
+    }
+
+    private isSubmitAreaEnabled():boolean  {
+        return this.mSubmitButtonEnabled && !this.isIconified();
+    }
+
+    private updateSubmitButton(hasText:boolean):void  {
+        let visibility:number = View.GONE;
+        if (this.isSubmitAreaEnabled() && this.hasFocus() && hasText) {
+            visibility = View.VISIBLE;
+        }
+        this.mSubmitButton.setVisibility(visibility);
+    }
+
+    private updateCloseButton():void  {
+        const hasText:boolean = !TextUtils.isEmpty(this.mQueryTextView.getText());
+        // Should we show the close button? It is not shown if there's no focus,
+        // field is not iconified by default and there is no text in it.
+        const showClose:boolean = hasText || (this.mIconifiedByDefault && !this.mExpandedInActionView);
+        this.mCloseButton.setVisibility(showClose ? View.VISIBLE : View.GONE);
+    }
+
+    private updateQueryHint():void  {
+        this.mQueryTextView.setHint(this.mQueryHint == null ? '' : this.mQueryHint);
+    }
+
+    /**
+     * Called by the query text field when its focus changes.
+     */
+    onTextFocusChanged():void  {
+        this.updateViewsVisibility(this.isIconified());
+    }
+
+    onWindowFocusChanged(hasWindowFocus:boolean):void  {
+        super.onWindowFocusChanged(hasWindowFocus);
+        this.updateSubmitButton(!TextUtils.isEmpty(this.mQueryTextView.getText()));
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    onActionViewCollapsed():void  {
+        this.setQuery("", false);
+        this.clearFocus();
+        this.updateViewsVisibility(true);
+        this.mExpandedInActionView = false;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    onActionViewExpanded():void  {
+        if (this.mExpandedInActionView) return;
+        this.mExpandedInActionView = true;
+        this.mQueryTextView.setText("");
+        this.setIconified(false);
+    }
+
+    /**
+     * React to the user typing while in the suggestions list. First, check for action
+     * keys. If not handled, try refocusing regular characters into the EditText.
+     */
+    private onSuggestionsKey(v:View, keyCode:number, event:KeyEvent):boolean  {
+        // If there is text in the query box, handle enter, and action keys
+        // The search key is handled by the dialog's onKeyDown().
+        if (event.getAction() == KeyEvent.ACTION_UP && event.hasNoModifiers()) {
+            if (keyCode == KeyEvent.KEYCODE_ENTER || keyCode == KeyEvent.KEYCODE_TAB) {
+                let position:number = this.mQueryTextView.getListSelection();
+                return this.onItemClicked(position);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * React to the user typing "enter" or other hardwired keys while typing in
+     * the search box. This handles these special keys while the edit box has
+     * focus.
+     */
+    private onQueryTextKey(v:View, keyCode:number, event:KeyEvent):boolean  {
+        if (SearchView.DBG) {
+            Log.d(SearchView.LOG_TAG, "mTextListener.onKey(" + keyCode + "," + event + "), selection: " + this.mQueryTextView.getListSelection());
+        }
+        // If a suggestion is selected, handle enter, search key, and action keys
+        // as presses on the selected suggestion
+        if (this.mQueryTextView.isPopupShowing() && this.mQueryTextView.getListSelection() != ListView.INVALID_POSITION) {
+            return this.onSuggestionsKey(v, keyCode, event);
+        }
+        // If there is text in the query box, handle enter, and action keys
+        // The search key is handled by the dialog's onKeyDown().
+        if (!this.mQueryTextView.isEmpty() && event.hasNoModifiers()) {
+            if (event.getAction() == KeyEvent.ACTION_UP) {
+                if (keyCode == KeyEvent.KEYCODE_ENTER) {
+                    this.onSubmitQuery();
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private onTextChanged(newText:String):void  {
+        const text:String = this.mQueryTextView.getText();
+        this.mUserQuery = text.toString();
+        const hasText:boolean = !TextUtils.isEmpty(text);
+        this.updateSubmitButton(hasText);
+        this.updateCloseButton();
+        if (this.mOnQueryChangeListener != null && newText.toString() != this.mOldQueryText) {
+            this.mOnQueryChangeListener.onQueryTextChange(newText.toString());
+        }
+        this.mOldQueryText = newText.toString();
+    }
+
+    private onSubmitQuery():void  {
+        const query:String = this.mQueryTextView.getText();
+        if (query != null && query.trim().length > 0) {
+            if (this.mOnQueryChangeListener == null || !this.mOnQueryChangeListener.onQueryTextSubmit(query.toString())) {
+                // androidui: no searchable activity to launch the query
+                this.dismissSuggestions();
+            }
+        }
+    }
+
+    private dismissSuggestions():void  {
+        this.mQueryTextView.dismissDropDown();
+    }
+
+    private onCloseClicked():void  {
+        const text:String = this.mQueryTextView.getText();
+        if (TextUtils.isEmpty(text)) {
+            if (this.mIconifiedByDefault) {
+                // If the app doesn't override the close behavior
+                if (this.mOnCloseListener == null || !this.mOnCloseListener.onClose()) {
+                    // hide the keyboard and remove focus
+                    this.clearFocus();
+                    // collapse the search field
+                    this.updateViewsVisibility(true);
+                }
+            }
+        } else {
+            this.mQueryTextView.setText("");
+            this.mQueryTextView.requestFocus();
+        }
+    }
+
+    private onSearchClicked():void  {
+        this.updateViewsVisibility(false);
+        this.mQueryTextView.requestFocus();
+        if (this.mOnSearchClickListener != null) {
+            this.mOnSearchClickListener.onClick(this);
+        }
+    }
+
+    private onItemClicked(position:number):boolean  {
+        if (this.mOnSuggestionListener == null || !this.mOnSuggestionListener.onSuggestionClick(position)) {
+            this.launchSuggestion(position);
+            this.dismissSuggestions();
+            return true;
+        }
+        return false;
+    }
+
+    private onItemSelected(position:number):boolean  {
+        if (this.mOnSuggestionListener == null || !this.mOnSuggestionListener.onSuggestionSelect(position)) {
+            this.rewriteQueryFromSuggestion(position);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Query rewriting.
+     */
+    private rewriteQueryFromSuggestion(position:number):void  {
+        let newQuery:string = this.getSuggestionText(position);
+        if (newQuery != null) {
+            // The suggestion rewrites the query.
+            // Update the text field, without getting new suggestions.
+            this.setQueryWithoutFilter(newQuery);
+        } else {
+            // The suggestion does not rewrite the query, restore the user's query.
+            this.setQueryWithoutFilter(this.mUserQuery);
+        }
+    }
+
+    /**
+     * Fills the query with the suggestion at the given position and submits it.
+     *
+     * androidui: there is no intent of the suggestion to launch.
+     *
+     * @param position The position of the suggestion
+     */
+    private launchSuggestion(position:number):void  {
+        let query:string = this.getSuggestionText(position);
+        if (query != null) {
+            this.setQueryWithoutFilter(query);
+            this.onSubmitQuery();
+        }
+    }
+
+    private getSuggestionText(position:number):string  {
+        const adapter = this.mSuggestionsAdapter;
+        if (adapter == null || position < 0 || position >= adapter.getCount()) {
+            return null;
+        }
+        const item = adapter.getItem(position);
+        if (Filterable.isImpl(adapter)) {
+            return (<Filterable><any>adapter).getFilter().convertResultToString(item);
+        }
+        return item == null ? null : item.toString();
+    }
+
+    /**
+     * Sets the text in the query box, without updating the suggestions.
+     */
+    private setQueryWithoutFilter(query:string):void  {
+        this.mQueryTextView.setTextWithFilter(query, false);
+    }
+}
+
+/**
+ * androidui: draws the icons of the SearchView, there are no image resources for them.
+ */
+class SearchViewIconDrawable extends Drawable {
+    static TYPE_SEARCH = 0;
+    static TYPE_CLOSE = 1;
+    static TYPE_GO = 2;
+
+    private mType:number;
+    private mSize:number;
+    private mPaint = new Paint();
+    private mPath = new Path();
+
+    constructor(type:number, density:number) {
+        super();
+        this.mType = type;
+        this.mSize = 24 * density;
+        this.mPaint.setAntiAlias(true);
+        this.mPaint.setStyle(Paint.Style.STROKE);
+        this.mPaint.setStrokeWidth(2 * density);
+        this.mPaint.setStrokeCap(Paint.Cap.ROUND);
+        this.mPaint.setColor(0xff808080);
+    }
+
+    draw(canvas:Canvas):void {
+        const bounds = this.getBounds();
+        // the icons are drawn in a 24*24 box
+        const unit = Math.min(bounds.width(), bounds.height()) / 24;
+        const left = bounds.centerX() - 12 * unit;
+        const top = bounds.centerY() - 12 * unit;
+        const path = this.mPath;
+        path.reset();
+        switch (this.mType) {
+            case SearchViewIconDrawable.TYPE_SEARCH:
+                canvas.drawCircle(left + 10 * unit, top + 10 * unit, 6 * unit, this.mPaint);
+                path.moveTo(left + 14.5 * unit, top + 14.5 * unit);
+                path.lineTo(left + 20 * unit, top + 20 * unit);
+                break;
+            case SearchViewIconDrawable.TYPE_CLOSE:
+                path.moveTo(left + 6 * unit, top + 6 * unit);
+                path.lineTo(left + 18 * unit, top + 18 * unit);
+                path.moveTo(left + 18 * unit, top + 6 * unit);
+                path.lineTo(left + 6 * unit, top + 18 * unit);
+                break;
+            case SearchViewIconDrawable.TYPE_GO:
+                path.moveTo(left + 5 * unit, top + 12 * unit);
+                path.lineTo(left + 19 * unit, top + 12 * unit);
+                path.moveTo(left + 13 * unit, top + 6 * unit);
+                path.lineTo(left + 19 * unit, top + 12 * unit);
+                path.lineTo(left + 13 * unit, top + 18 * unit);
+                break;
+        }
+        canvas.drawPath(path, this.mPaint);
+    }
+
+    setAlpha(alpha:number):void {
+        this.mPaint.setAlpha(alpha);
+        this.invalidateSelf();
+    }
+
+    getAlpha():number {
+        return this.mPaint.getAlpha();
+    }
+
+    getOpacity():number {
+        return PixelFormat.TRANSLUCENT;
+    }
+
+    getIntrinsicWidth():number {
+        return this.mSize;
+    }
+
+    getIntrinsicHeight():number {
+        return this.mSize;
+    }
+}
+
+export module SearchView{
+/**
+ * Callbacks for changes to the query text.
+ */
+export interface OnQueryTextListener {
+
+    /**
+     * Called when the user submits the query. This could be due to a key press on the
+     * keyboard or due to pressing a submit button.
+     * The listener can override the standard behavior by returning true
+     * to indicate that it has handled the submit request. Otherwise return false to
+     * let the SearchView handle the submission by dismissing the suggestions.
+     *
+     * @param query the query text that is to be submitted
+     *
+     * @return true if the query has been handled by the listener, false to let the
+     * SearchView perform the default action.
+     */
+    onQueryTextSubmit(query:string):boolean ;
+
+    /**
+     * Called when the query text is changed by the user.
+     *
+     * @param newText the new content of the query text field.
+     *
+     * @return false if the SearchView should perform the default action of showing any
+     * suggestions if available, true if the action was handled by the listener.
+     */
+    onQueryTextChange(newText:string):boolean ;
+}
+export module OnQueryTextListener{
+    export function isImpl(obj){
+        return obj && obj['onQueryTextSubmit'] && obj['onQueryTextChange'];
+    }
+}
+
+
+export interface OnCloseListener {
+
+    /**
+     * The user is attempting to close the SearchView.
+     *
+     * @return true if the listener wants to override the default behavior of clearing the
+     * text field and dismissing it, false otherwise.
+     */
+    onClose():boolean ;
+}
+export module OnCloseListener{
+    export function isImpl(obj){
+        return obj && obj['onClose'];
+    }
+}
+
+
+/**
+ * Callback interface for selection events on suggestions. These callbacks
+ * are only relevant when a suggestions adapter has been specified by {@link #setSuggestionsAdapter}.
+ */
+export interface OnSuggestionListener {
+
+    /**
+     * Called when a suggestion was selected by navigating to it.
+     * @param position the absolute position in the list of suggestions.
+     *
+     * @return true if the listener handles the event and wants to override the default
+     * behavior of possibly rewriting the query based on the selected item, false otherwise.
+     */
+    onSuggestionSelect(position:number):boolean ;
+
+    /**
+     * Called when a suggestion was clicked.
+     * @param position the absolute position of the clicked item in the list of suggestions.
+     *
+     * @return true if the listener handles the event and wants to override the default
+     * behavior of launching any intent or submitting a search query specified on that item.
+     * Return false otherwise.
+     */
+    onSuggestionClick(position:number):boolean ;
+}
+export module OnSuggestionListener{
+    export function isImpl(obj){
+        return obj && obj['onSuggestionSelect'] && obj['onSuggestionClick'];
+    }
+}
+
+
+/**
+ * Local subclass for AutoCompleteTextView.
+ * @hide
+ */
+export class SearchAutoComplete extends AutoCompleteTextView {
+
+    private mSearchThreshold:number = 0;
+
+    private mSearchView:SearchView;
+
+    constructor(context:Context, bindElement?:HTMLElement, defStyle:any = android.R.attr.autoCompleteTextViewStyle) {
+        super(context, bindElement, defStyle);
+        this.mSearchThreshold = this.getThreshold();
+    }
+
+    setSearchView(searchView:SearchView):void  {
+        this.mSearchView = searchView;
+    }
+
+    setThreshold(threshold:number):void  {
+        super.setThreshold(threshold);
+        this.mSearchThreshold = threshold;
+    }
+
+    /**
+     * Returns true if the text field is empty, or contains only whitespace.
+     */
+    isEmpty():boolean  {
+        return this.getText().trim().length == 0;
+    }
+
+    /**
+     * We override this method to avoid replacing the query box text when a
+     * suggestion is clicked.
+     */
+    protected replaceText(text:String):void  {
+    }
+
+    /**
+     * We override this method to avoid an extra onItemClick being called on
+     * the drop-down's OnItemClickListener by
+     * {@link AutoCompleteTextView#onKeyUp(int, KeyEvent)} when an item is
+     * clicked with the trackball.
+     */
+    performCompletion(selectedView:View = null, position:number = -1, id:number = -1):void  {
+        if (selectedView == null && position < 0) {
+            return;
+        }
+        super.performCompletion(selectedView, position, id);
+    }
+
+    /**
+     * We override this method so that we can allow a threshold of zero,
+     * which ACTV does not.
+     */
+    enoughToFilter():boolean  {
+        return this.mSearchThreshold <= 0 || super.enoughToFilter();
+    }
+
+    protected onFocusChanged(focused:boolean, direction:number, previouslyFocusedRect:Rect):void  {
+        super.onFocusChanged(focused, direction, previouslyFocusedRect);
+        if (this.mSearchView != null) {
+            this.mSearchView.onTextFocusChanged();
+        }
+    }
+}
+}
+
+}
@@ -0,0 +1,766 @@
+/*
+ * Copyright (C) 2010 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/res/ColorStateList.ts"/>
+///<reference path="../../android/graphics/Canvas.ts"/>
+///<reference path="../../android/graphics/Paint.ts"/>
+///<reference path="../../android/graphics/Rect.ts"/>
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/text/Layout.ts"/>
+///<reference path="../../android/text/StaticLayout.ts"/>
+///<reference path="../../android/text/TextPaint.ts"/>
+///<reference path="../../android/text/TextUtils.ts"/>
+///<reference path="../../android/text/TextDirectionHeuristics.ts"/>
+///<reference path="../../android/view/Gravity.ts"/>
+///<reference path="../../android/view/MotionEvent.ts"/>
+///<reference path="../../android/view/VelocityTracker.ts"/>
+///<reference path="../../android/view/ViewConfiguration.ts"/>
+///<reference path="../../android/widget/CompoundButton.ts"/>
+///<reference path="../../android/widget/Scroller.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+
+module android.widget {
+import ColorStateList = android.content.res.ColorStateList;
+import Canvas = android.graphics.Canvas;
+import Paint = android.graphics.Paint;
+import Rect = android.graphics.Rect;
+import Drawable = android.graphics.drawable.Drawable;
+import Layout = android.text.Layout;
+import StaticLayout = android.text.StaticLayout;
+import TextPaint = android.text.TextPaint;
+import TextUtils = android.text.TextUtils;
+import TextDirectionHeuristics = android.text.TextDirectionHeuristics;
+import Gravity = android.view.Gravity;
+import MotionEvent = android.view.MotionEvent;
+import VelocityTracker = android.view.VelocityTracker;
+import ViewConfiguration = android.view.ViewConfiguration;
+import CompoundButton = android.widget.CompoundButton;
+import Scroller = android.widget.Scroller;
+
+/**
+ * A Switch is a two-state toggle switch widget that can select between two
+ * options. The user may drag the "thumb" back and forth to choose the selected option,
+ * or simply tap to toggle as if it were a checkbox. The {@link #setText(CharSequence) text}
+ * property controls the text displayed in the label for the switch, whereas the
+ * {@link #setTextOff(CharSequence) off} and {@link #setTextOn(CharSequence) on} text
+ * controls the text on the thumb. The switchTextColor and switchTextSize attributes control
+ * the typeface of the thumb text, the textColor and textSize attributes control the label.
+ *
+ * <p>See the <a href="{@docRoot}guide/topics/ui/controls/togglebutton.html">Toggle Buttons</a>
+ * guide.</p>
+ *
+ * @attr ref android.R.styleable#Switch_textOn
+ * @attr ref android.R.styleable#Switch_textOff
+ * @attr ref android.R.styleable#Switch_switchMinWidth
+ * @attr ref android.R.styleable#Switch_switchPadding
+ * @attr ref android.R.styleable#Switch_switchTextColor
+ * @attr ref android.R.styleable#Switch_switchTextSize
+ * @attr ref android.R.styleable#Switch_thumb
+ * @attr ref android.R.styleable#Switch_thumbTextPadding
+ * @attr ref android.R.styleable#Switch_track
+ */
+export class Switch extends CompoundButton {
+
+    private static TOUCH_MODE_IDLE:number = 0;
+
+    private static TOUCH_MODE_DOWN:number = 1;
+
+    private static TOUCH_MODE_DRAGGING:number = 2;
+
+    private static THUMB_ANIMATION_DURATION:number = 250;
+
+    private static SWITCH_CHECKED_STATE_SET:number[] = [ Switch.VIEW_STATE_CHECKED ];
+
+    private mThumbDrawable:Drawable;
+
+    private mTrackDrawable:Drawable;
+
+    private mThumbTextPadding:number = 0;
+
+    private mSwitchMinWidth:number = 0;
+
+    private mSwitchPadding:number = 0;
+
+    private mTextOn:string;
+
+    private mTextOff:string;
+
+    private mTouchMode:number = 0;
+
+    private mTouchX:number = 0;
+
+    private mTouchY:number = 0;
+
+    private mVelocityTracker:VelocityTracker = VelocityTracker.obtain();
+
+    private mMinFlingVelocity:number = 0;
+
+    private mThumbPosition:number = 0;
+
+    private mThumbScroller:Scroller = new Scroller();
+
+    private mSwitchWidth:number = 0;
+
+    private mSwitchHeight:number = 0;
+
+    // Does not include padding
+    private mThumbWidth:number = 0;
+
+    private mSwitchLeft:number = 0;
+
+    private mSwitchTop:number = 0;
+
+    private mSwitchRight:number = 0;
+
+    private mSwitchBottom:number = 0;
+
+    private mSwitchTextPaint:TextPaint;
+
+    private mSwitchTextColors:ColorStateList;
+
+    private mOnLayout:Layout;
+
+    private mOffLayout:Layout;
+
+    private mTmpRect:Rect = new Rect();
+
+    /**
+     * Construct a new Switch with a default style determined by the given theme attribute,
+     * overriding specific style attributes as requested.
+     *
+     * @param context The Context that will determine this widget's theming.
+     * @param bindElement Element this switch is inflated from, if any.
+     * @param defStyle Default style applied to this switch, {@link android.R.attr#switchStyle}
+     * unless specified.
+     */
+    constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle = android.R.attr.switchStyle) {
+        super(context, bindElement, null);
+        this.mSwitchTextPaint = new TextPaint(Paint.ANTI_ALIAS_FLAG);
+
+        const a = this._attrBinder;
+        a.addAttr('thumb', (value)=>{
+            this.setThumbDrawable(a.parseDrawable(value));
+        }, ()=>{
+            return this.mThumbDrawable;
+        });
+        a.addAttr('track', (value)=>{
+            this.setTrackDrawable(a.parseDrawable(value));
+        }, ()=>{
+            return this.mTrackDrawable;
+        });
+        a.addAttr('textOn', (value)=>{
+            this.setTextOn(a.parseString(value));
+        }, ()=>{
+            return this.mTextOn;
+        });
+        a.addAttr('textOff', (value)=>{
+            this.setTextOff(a.parseString(value));
+        }, ()=>{
+            return this.mTextOff;
+        });
+        a.addAttr('thumbTextPadding', (value)=>{
+            this.setThumbTextPadding(a.parseNumber(value, this.mThumbTextPadding));
+        }, ()=>{
+            return this.mThumbTextPadding;
+        });
+        a.addAttr('switchMinWidth', (value)=>{
+            this.setSwitchMinWidth(a.parseNumber(value, this.mSwitchMinWidth));
+        }, ()=>{
+            return this.mSwitchMinWidth;
+        });
+        a.addAttr('switchPadding', (value)=>{
+            this.setSwitchPadding(a.parseNumber(value, this.mSwitchPadding));
+        }, ()=>{
+            return this.mSwitchPadding;
+        });
+        a.addAttr('switchTextColor', (value)=>{
+            this.setSwitchTextColor(a.parseColorList(value));
+        }, ()=>{
+            return this.mSwitchTextColors;
+        });
+        a.addAttr('switchTextSize', (value)=>{
+            this.setSwitchTextSize(a.parseNumber(value, this.mSwitchTextPaint.getTextSize()));
+        }, ()=>{
+            return this.mSwitchTextPaint.getTextSize();
+        });
+        if(defStyle!=null) this.applyDefaultAttributes(defStyle);
+
+        const config = ViewConfiguration.get();
+        this.mMinFlingVelocity = config.getScaledMinimumFlingVelocity();
+        // Refresh display with current params
+        this.refreshDrawableState();
+        this.setChecked(this.isChecked());
+    }
+
+    /**
+     * Sets the color of the text drawn on the thumb.
+     */
+    setSwitchTextColor(colors:ColorStateList):void  {
+        if (colors != null) {
+            this.mSwitchTextColors = colors;
+        } else {
+            // If no color set in the style, use the label's text colors
+            this.mSwitchTextColors = this.getTextColors();
+        }
+        this.invalidate();
+    }
+
+    /**
+     * Sets the size in pixels of the text drawn on the thumb.
+     */
+    setSwitchTextSize(size:number):void  {
+        if (size != this.mSwitchTextPaint.getTextSize()) {
+            this.mSwitchTextPaint.setTextSize(size);
+            this.mOnLayout = null;
+            this.mOffLayout = null;
+            this.requestLayout();
+            this.invalidate();
+        }
+    }
+
+    /**
+     * Set the amount of horizontal padding between the switch and the associated text.
+     *
+     * @param pixels Amount of padding in pixels
+     *
+     * @attr ref android.R.styleable#Switch_switchPadding
+     */
+    setSwitchPadding(pixels:number):void  {
+        this.mSwitchPadding = pixels;
+        this.requestLayout();
+    }
+
+    /**
+     * Get the amount of horizontal padding between the switch and the associated text.
+     *
+     * @return Amount of padding in pixels
+     *
+     * @attr ref android.R.styleable#Switch_switchPadding
+     */
+    getSwitchPadding():number  {
+        return this.mSwitchPadding;
+    }
+
+    /**
+     * Set the minimum width of the switch in pixels. The switch's width will be the maximum
+     * of this value and its measured width as determined by the switch drawables and text used.
+     *
+     * @param pixels Minimum width of the switch in pixels
+     *
+     * @attr ref android.R.styleable#Switch_switchMinWidth
+     */
+    setSwitchMinWidth(pixels:number):void  {
+        this.mSwitchMinWidth = pixels;
+        this.requestLayout();
+    }
+
+    /**
+     * Get the minimum width of the switch in pixels. The switch's width will be the maximum
+     * of this value and its measured width as determined by the switch drawables and text used.
+     *
+     * @return Minimum width of the switch in pixels
+     *
+     * @attr ref android.R.styleable#Switch_switchMinWidth
+     */
+    getSwitchMinWidth():number  {
+        return this.mSwitchMinWidth;
+    }
+
+    /**
+     * Set the horizontal padding around the text drawn on the switch itself.
+     *
+     * @param pixels Horizontal padding for switch thumb text in pixels
+     *
+     * @attr ref android.R.styleable#Switch_thumbTextPadding
+     */
+    setThumbTextPadding(pixels:number):void  {
+        this.mThumbTextPadding = pixels;
+        this.requestLayout();
+    }
+
+    /**
+     * Get the horizontal padding around the text drawn on the switch itself.
+     *
+     * @return Horizontal padding for switch thumb text in pixels
+     *
+     * @attr ref android.R.styleable#Switch_thumbTextPadding
+     */
+    getThumbTextPadding():number  {
+        return this.mThumbTextPadding;
+    }
+
+    /**
+     * Set the drawable used for the track that the switch slides within.
+     *
+     * @param track Track drawable
+     *
+     * @attr ref android.R.styleable#Switch_track
+     */
+    setTrackDrawable(track:Drawable):void  {
+        if (this.mTrackDrawable != null) {
+            this.mTrackDrawable.setCallback(null);
+        }
+        this.mTrackDrawable = track;
+        if (track != null) {
+            track.setCallback(this);
+            track.setState(this.getDrawableState());
+        }
+        this.requestLayout();
+    }
+
+    /**
+     * Get the drawable used for the track that the switch slides within.
+     *
+     * @return Track drawable
+     *
+     * @attr ref android.R.styleable#Switch_track
+     */
+    getTrackDrawable():Drawable  {
+        return this.mTrackDrawable;
+    }
+
+    /**
+     * Set the drawable used for the switch "thumb" - the piece that the user
+     * can physically touch and drag along the track.
+     *
+     * @param thumb Thumb drawable
+     *
+     * @attr ref android.R.styleable#Switch_thumb
+     */
+    setThumbDrawable(thumb:Drawable):void  {
+        if (this.mThumbDrawable != null) {
+            this.mThumbDrawable.setCallback(null);
+        }
+        this.mThumbDrawable = thumb;
+        if (thumb != null) {
+            thumb.setCallback(this);
+            thumb.setState(this.getDrawableState());
+        }
+        this.requestLayout();
+    }
+
+    /**
+     * Get the drawable used for the switch "thumb" - the piece that the user
+     * can physically touch and drag along the track.
+     *
+     * @return Thumb drawable
+     *
+     * @attr ref android.R.styleable#Switch_thumb
+     */
+    getThumbDrawable():Drawable  {
+        return this.mThumbDrawable;
+    }
+
+    /**
+     * Returns the text displayed when the button is in the checked state.
+     *
+     * @attr ref android.R.styleable#Switch_textOn
+     */
+    getTextOn():string  {
+        return this.mTextOn;
+    }
+
+    /**
+     * Sets the text displayed when the button is in the checked state.
+     *
+     * @attr ref android.R.styleable#Switch_textOn
+     */
+    setTextOn(textOn:string):void  {
+        this.mTextOn = textOn;
+        this.mOnLayout = null;
+        this.requestLayout();
+    }
+
+    /**
+     * Returns the text displayed when the button is not in the checked state.
+     *
+     * @attr ref android.R.styleable#Switch_textOff
+     */
+    getTextOff():string  {
+        return this.mTextOff;
+    }
+
+    /**
+     * Sets the text displayed when the button is not in the checked state.
+     *
+     * @attr ref android.R.styleable#Switch_textOff
+     */
+    setTextOff(textOff:string):void  {
+        this.mTextOff = textOff;
+        this.mOffLayout = null;
+        this.requestLayout();
+    }
+
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        if (this.mOnLayout == null) {
+            this.mOnLayout = this.makeLayout(this.mTextOn);
+        }
+        if (this.mOffLayout == null) {
+            this.mOffLayout = this.makeLayout(this.mTextOff);
+        }
+        let switchHeight = 0;
+        if (this.mTrackDrawable != null) {
+            this.mTrackDrawable.getPadding(this.mTmpRect);
+            switchHeight = this.mTrackDrawable.getIntrinsicHeight();
+        } else {
+            this.mTmpRect.setEmpty();
+        }
+        const maxTextWidth:number = Math.max(this.mOnLayout.getWidth(), this.mOffLayout.getWidth());
+        const switchWidth:number = Math.max(this.mSwitchMinWidth,
+            maxTextWidth * 2 + this.mThumbTextPadding * 4 + this.mTmpRect.left + this.mTmpRect.right);
+        this.mThumbWidth = maxTextWidth + this.mThumbTextPadding * 2;
+        this.mSwitchWidth = switchWidth;
+        this.mSwitchHeight = switchHeight;
+        super.onMeasure(widthMeasureSpec, heightMeasureSpec);
+        const measuredHeight:number = this.getMeasuredHeight();
+        if (measuredHeight < switchHeight) {
+            this.setMeasuredDimension(this.getMeasuredWidthAndState(), switchHeight);
+        }
+    }
+
+    private makeLayout(text:string):Layout  {
+        if (text == null) text = '';
+        return new StaticLayout(text, 0, text.length, this.mSwitchTextPaint,
+            Math.ceil(Layout.getDesiredWidth(text, this.mSwitchTextPaint)),
+            Layout.Alignment.ALIGN_NORMAL, TextDirectionHeuristics.FIRSTSTRONG_LTR, 1, 0, true);
+    }
+
+    /**
+     * @return true if (x, y) is within the target area of the switch thumb
+     */
+    private hitThumb(x:number, y:number):boolean  {
+        if (this.mThumbDrawable == null) {
+            return false;
+        }
+        this.mThumbDrawable.getPadding(this.mTmpRect);
+        const thumbTop:number = this.mSwitchTop - this.mTouchSlop;
+        const thumbLeft:number = this.mSwitchLeft + Math.floor(this.mThumbPosition + 0.5) - this.mTouchSlop;
+        const thumbRight:number = thumbLeft + this.mThumbWidth + this.mTmpRect.left + this.mTmpRect.right + this.mTouchSlop;
+        const thumbBottom:number = this.mSwitchBottom + this.mTouchSlop;
+        return x > thumbLeft && x < thumbRight && y > thumbTop && y < thumbBottom;
+    }
+
+    onTouchEvent(ev:MotionEvent):boolean  {
+        this.mVelocityTracker.addMovement(ev);
+        const action:number = ev.getActionMasked();
+        switch(action) {
+            case MotionEvent.ACTION_DOWN:
+            {
+                const x:number = ev.getX();
+                const y:number = ev.getY();
+                if (this.isEnabled() && this.hitThumb(x, y)) {
+                    this.mTouchMode = Switch.TOUCH_MODE_DOWN;
+                    this.mTouchX = x;
+                    this.mTouchY = y;
+                }
+                break;
+            }
+            case MotionEvent.ACTION_MOVE:
+            {
+                switch(this.mTouchMode) {
+                    case Switch.TOUCH_MODE_IDLE:
+                        // Didn't target the thumb, treat normally.
+                        break;
+                    case Switch.TOUCH_MODE_DOWN:
+                    {
+                        const x:number = ev.getX();
+                        const y:number = ev.getY();
+                        if (Math.abs(x - this.mTouchX) > this.mTouchSlop || Math.abs(y - this.mTouchY) > this.mTouchSlop) {
+                            this.mTouchMode = Switch.TOUCH_MODE_DRAGGING;
+                            this.mThumbScroller.abortAnimation();
+                            this.getParent().requestDisallowInterceptTouchEvent(true);
+                            this.mTouchX = x;
+                            this.mTouchY = y;
+                            return true;
+                        }
+                        break;
+                    }
+                    case Switch.TOUCH_MODE_DRAGGING:
+                    {
+                        const x:number = ev.getX();
+                        const dx:number = x - this.mTouchX;
+                        let newPos:number = Math.max(0, Math.min(this.mThumbPosition + dx, this.getThumbScrollRange()));
+                        if (newPos != this.mThumbPosition) {
+                            this.mThumbPosition = newPos;
+                            this.mTouchX = x;
+                            this.invalidate();
+                        }
+                        return true;
+                    }
+                }
+                break;
+            }
+            case MotionEvent.ACTION_UP:
+            case MotionEvent.ACTION_CANCEL:
+            {
+                if (this.mTouchMode == Switch.TOUCH_MODE_DRAGGING) {
+                    this.stopDrag(ev);
+                    return true;
+                }
+                this.mTouchMode = Switch.TOUCH_MODE_IDLE;
+                this.mVelocityTracker.clear();
+                break;
+            }
+        }
+        return super.onTouchEvent(ev);
+    }
+
+    private cancelSuperTouch(ev:MotionEvent):void  {
+        let cancel:MotionEvent = MotionEvent.obtain(ev);
+        cancel.setAction(MotionEvent.ACTION_CANCEL);
+        super.onTouchEvent(cancel);
+        cancel.recycle();
+    }
+
+    /**
+     * Called from onTouchEvent to end a drag operation.
+     *
+     * @param ev Event that triggered the end of drag mode - ACTION_UP or ACTION_CANCEL
+     */
+    private stopDrag(ev:MotionEvent):void  {
+        this.mTouchMode = Switch.TOUCH_MODE_IDLE;
+        // Up and not canceled, also checks the switch has not been disabled during the drag
+        let commitChange:boolean = ev.getAction() == MotionEvent.ACTION_UP && this.isEnabled();
+        this.cancelSuperTouch(ev);
+        if (commitChange) {
+            let newState:boolean;
+            this.mVelocityTracker.computeCurrentVelocity(1000);
+            let xvel:number = this.mVelocityTracker.getXVelocity();
+            if (Math.abs(xvel) > this.mMinFlingVelocity) {
+                newState = this.isLayoutRtl() ? (xvel < 0) : (xvel > 0);
+            } else {
+                newState = this.getTargetCheckedState();
+            }
+            if (newState == this.isChecked()) {
+                // No change of state, just settle the thumb back to its side
+                this.animateThumbToCheckedState(newState);
+            } else {
+                this.setChecked(newState);
+            }
+        } else {
+            this.animateThumbToCheckedState(this.isChecked());
+        }
+    }
+
+    private animateThumbToCheckedState(newCheckedState:boolean):void  {
+        const targetPosition = this.getThumbPositionForState(newCheckedState);
+        this.mThumbScroller.abortAnimation();
+        const startPosition = this.mThumbPosition;
+        if (startPosition == targetPosition) {
+            return;
+        }
+        const range = this.getThumbScrollRange();
+        const duration = range > 0
+            ? Math.round(Switch.THUMB_ANIMATION_DURATION * Math.abs(targetPosition - startPosition) / range)
+            : Switch.THUMB_ANIMATION_DURATION;
+        this.mThumbScroller.startScroll(startPosition, 0, targetPosition - startPosition, 0, duration);
+        this.postInvalidateOnAnimation();
+    }
+
+    computeScroll():void  {
+        super.computeScroll();
+        if (!this.mThumbScroller.isFinished() && this.mThumbScroller.computeScrollOffset()) {
+            this.mThumbPosition = this.mThumbScroller.getCurrX();
+            this.postInvalidateOnAnimation();
+        }
+    }
+
+    private getTargetCheckedState():boolean  {
+        if (this.isLayoutRtl()) {
+            return this.mThumbPosition <= this.getThumbScrollRange() / 2;
+        } else {
+            return this.mThumbPosition >= this.getThumbScrollRange() / 2;
+        }
+    }
+
+    private getThumbPositionForState(checked:boolean):number  {
+        if (this.isLayoutRtl()) {
+            return checked ? 0 : this.getThumbScrollRange();
+        } else {
+            return checked ? this.getThumbScrollRange() : 0;
+        }
+    }
+
+    private setThumbPosition(checked:boolean):void  {
+        if (this.mThumbScroller != null) {
+            this.mThumbScroller.abortAnimation();
+        }
+        this.mThumbPosition = this.getThumbPositionForState(checked);
+    }
+
+    setChecked(checked:boolean):void  {
+        super.setChecked(checked);
+        // Calling the super method may result in setChecked() getting called
+        // recursively with a different value, so load the REAL value...
+        checked = this.isChecked();
+        if (this.mThumbScroller != null && this.isAttachedToWindow() && this.isLaidOut()) {
+            this.animateThumbToCheckedState(checked);
+        } else {
+            // Immediately move the thumb to the new position.
+            this.setThumbPosition(checked);
+        }
+        this.invalidate();
+    }
+
+    protected onLayout(changed:boolean, left:number, top:number, right:number, bottom:number):void  {
+        super.onLayout(changed, left, top, right, bottom);
+        if (this.mThumbScroller.isFinished() && this.mTouchMode != Switch.TOUCH_MODE_DRAGGING) {
+            this.setThumbPosition(this.isChecked());
+        }
+        let switchRight:number;
+        let switchLeft:number;
+        if (this.isLayoutRtl()) {
+            switchLeft = this.getPaddingLeft();
+            switchRight = switchLeft + this.mSwitchWidth;
+        } else {
+            switchRight = this.getWidth() - this.getPaddingRight();
+            switchLeft = switchRight - this.mSwitchWidth;
+        }
+        let switchTop:number = 0;
+        let switchBottom:number = 0;
+        switch(this.getGravity() & Gravity.VERTICAL_GRAVITY_MASK) {
+            default:
+            case Gravity.TOP:
+                switchTop = this.getPaddingTop();
+                switchBottom = switchTop + this.mSwitchHeight;
+                break;
+            case Gravity.CENTER_VERTICAL:
+                switchTop = Math.floor((this.getPaddingTop() + this.getHeight() - this.getPaddingBottom()) / 2 - this.mSwitchHeight / 2);
+                switchBottom = switchTop + this.mSwitchHeight;
+                break;
+            case Gravity.BOTTOM:
+                switchBottom = this.getHeight() - this.getPaddingBottom();
+                switchTop = switchBottom - this.mSwitchHeight;
+                break;
+        }
+        this.mSwitchLeft = switchLeft;
+        this.mSwitchTop = switchTop;
+        this.mSwitchBottom = switchBottom;
+        this.mSwitchRight = switchRight;
+    }
+
+    protected onDraw(canvas:Canvas):void  {
+        super.onDraw(canvas);
+        // Draw the switch
+        let switchLeft:number = this.mSwitchLeft;
+        let switchTop:number = this.mSwitchTop;
+        let switchRight:number = this.mSwitchRight;
+        let switchBottom:number = this.mSwitchBottom;
+        let switchInnerLeft:number = switchLeft;
+        let switchInnerTop:number = switchTop;
+        let switchInnerRight:number = switchRight;
+        let switchInnerBottom:number = switchBottom;
+        if (this.mTrackDrawable != null) {
+            this.mTrackDrawable.setBounds(switchLeft, switchTop, switchRight, switchBottom);
+            this.mTrackDrawable.draw(canvas);
+            this.mTrackDrawable.getPadding(this.mTmpRect);
+            switchInnerLeft += this.mTmpRect.left;
+            switchInnerTop += this.mTmpRect.top;
+            switchInnerRight -= this.mTmpRect.right;
+            switchInnerBottom -= this.mTmpRect.bottom;
+        }
+        let saveCount = canvas.save();
+        canvas.clipRect(switchInnerLeft, switchTop, switchInnerRight, switchBottom);
+        if (this.mThumbDrawable != null) {
+            this.mThumbDrawable.getPadding(this.mTmpRect);
+        } else {
+            this.mTmpRect.setEmpty();
+        }
+        const thumbPos:number = Math.floor(this.mThumbPosition + 0.5);
+        let thumbLeft:number = switchInnerLeft - this.mTmpRect.left + thumbPos;
+        let thumbRight:number = switchInnerLeft + thumbPos + this.mThumbWidth + this.mTmpRect.right;
+        if (this.mThumbDrawable != null) {
+            this.mThumbDrawable.setBounds(thumbLeft, switchTop, thumbRight, switchBottom);
+            this.mThumbDrawable.draw(canvas);
+        }
+        // mSwitchTextColors should not be null, but just in case
+        if (this.mSwitchTextColors != null) {
+            this.mSwitchTextPaint.setColor(this.mSwitchTextColors.getColorForState(this.getDrawableState(),
+                this.mSwitchTextColors.getDefaultColor()));
+        }
+        this.mSwitchTextPaint.drawableState = this.getDrawableState();
+        let switchText:Layout = this.getTargetCheckedState() ? this.mOnLayout : this.mOffLayout;
+        if (switchText != null) {
+            canvas.translate(Math.floor((thumbLeft + thumbRight) / 2 - switchText.getWidth() / 2),
+                Math.floor((switchInnerTop + switchInnerBottom) / 2 - switchText.getHeight() / 2));
+            switchText.draw(canvas);
+        }
+        canvas.restoreToCount(saveCount);
+    }
+
+    getCompoundPaddingLeft():number  {
+        if (!this.isLayoutRtl()) {
+            return super.getCompoundPaddingLeft();
+        }
+        let padding:number = super.getCompoundPaddingLeft() + this.mSwitchWidth;
+        if (!TextUtils.isEmpty(this.getText())) {
+            padding += this.mSwitchPadding;
+        }
+        return padding;
+    }
+
+    getCompoundPaddingRight():number  {
+        if (this.isLayoutRtl()) {
+            return super.getCompoundPaddingRight();
+        }
+        let padding:number = super.getCompoundPaddingRight() + this.mSwitchWidth;
+        if (!TextUtils.isEmpty(this.getText())) {
+            padding += this.mSwitchPadding;
+        }
+        return padding;
+    }
+
+    private getThumbScrollRange():number  {
+        if (this.mTrackDrawable == null) {
+            return 0;
+        }
+        this.mTrackDrawable.getPadding(this.mTmpRect);
+        return Math.max(0, this.mSwitchWidth - this.mThumbWidth - this.mTmpRect.left - this.mTmpRect.right);
+    }
+
+    protected onCreateDrawableState(extraSpace:number):number[]  {
+        const drawableState:number[] = super.onCreateDrawableState(extraSpace + 1);
+        if (this.isChecked()) {
+            Switch.mergeDrawableStates(drawableState, Switch.SWITCH_CHECKED_STATE_SET);
+        }
+        return drawableState;
+    }
+
+    protected drawableStateChanged():void  {
+        super.drawableStateChanged();
+        let myDrawableState:number[] = this.getDrawableState();
+        // Set the state of the Drawable
+        // Drawable may be null when checked state is set from XML, from super constructor
+        if (this.mThumbDrawable != null)
+            this.mThumbDrawable.setState(myDrawableState);
+        if (this.mTrackDrawable != null)
+            this.mTrackDrawable.setState(myDrawableState);
+        this.invalidate();
+    }
+
+    protected verifyDrawable(who:Drawable):boolean  {
+        return super.verifyDrawable(who) || who == this.mThumbDrawable || who == this.mTrackDrawable;
+    }
+
+    jumpDrawablesToCurrentState():void  {
+        super.jumpDrawablesToCurrentState();
+        if (this.mThumbDrawable != null)
+            this.mThumbDrawable.jumpToCurrentState();
+        if (this.mTrackDrawable != null)
+            this.mTrackDrawable.jumpToCurrentState();
+    }
+}
+}
@@ -0,0 +1,664 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/util/SparseBooleanArray.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+///<reference path="../../android/widget/TableRow.ts"/>
+///<reference path="../../java/lang/System.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import SparseBooleanArray = android.util.SparseBooleanArray;
+import View = android.view.View;
+import MeasureSpec = android.view.View.MeasureSpec;
+import ViewGroup = android.view.ViewGroup;
+import LinearLayout = android.widget.LinearLayout;
+import TableRow = android.widget.TableRow;
+import System = java.lang.System;
+
+/**
+ * <p>A layout that arranges its children into rows and columns.
+ * A TableLayout consists of a number of {@link android.widget.TableRow} objects,
+ * each defining a row (actually, you can have other children, which will be
+ * explained below). TableLayout containers do not display border lines for
+ * their rows, columns, or cells. Each row has zero or more cells; each cell can
+ * hold one {@link android.view.View View} object. The table has as many columns
+ * as the row with the most cells. A table can leave cells empty. Cells can span
+ * columns, as they can in HTML.</p>
+ *
+ * <p>The width of a column is defined by the row with the widest cell in that
+ * column. However, a TableLayout can specify certain columns as shrinkable or
+ * stretchable by calling
+ * {@link #setColumnShrinkable(int, boolean) setColumnShrinkable()}
+ * or {@link #setColumnStretchable(int, boolean) setColumnStretchable()}. If
+ * marked as shrinkable, the column width can be shrunk to fit the table into
+ * its parent object. If marked as stretchable, it can expand in width to fit
+ * any extra space. The total width of the table is defined by its parent
+ * container. It is important to remember that a column can be both shrinkable
+ * and stretchable. In such a situation, the column will change its size to
+ * always use up the available space, but never more. Finally, you can hide a
+ * column by calling
+ * {@link #setColumnCollapsed(int,boolean) setColumnCollapsed()}.</p>
+ *
+ * <p>The children of a TableLayout cannot specify the <code>layout_width</code>
+ * attribute. Width is always <code>MATCH_PARENT</code>. However, the
+ * <code>layout_height</code> attribute can be defined by a child; default value
+ * is {@link android.widget.TableLayout.LayoutParams#WRAP_CONTENT}. If the child
+ * is a {@link android.widget.TableRow}, then the height is always
+ * {@link android.widget.TableLayout.LayoutParams#WRAP_CONTENT}.</p>
+ *
+ * <p> Cells must be added to a row in increasing column order, both in code and
+ * XML. Column numbers are zero-based. If you don't specify a column number for
+ * a child cell, it will autoincrement to the next available column. If you skip
+ * a column number, it will be considered an empty cell in that row. See the
+ * TableLayout examples in ApiDemos for examples of creating tables in XML.</p>
+ *
+ * <p>Although the typical child of a TableLayout is a TableRow, you can
+ * actually use any View subclass as a direct child of TableLayout. The View
+ * will be inserted as a single row that spans all the table columns.</p>
+ *
+ * androidui: the column lists are given as html attributes, e.g.
+ * stretchColumns="1,2" or stretchColumns="*".
+ *
+ * @attr ref android.R.styleable#TableLayout_collapseColumns
+ * @attr ref android.R.styleable#TableLayout_shrinkColumns
+ * @attr ref android.R.styleable#TableLayout_stretchColumns
+ */
+export class TableLayout extends LinearLayout {
+
+    private mMaxWidths:number[];
+
+    private mStretchableColumns:SparseBooleanArray;
+
+    private mShrinkableColumns:SparseBooleanArray;
+
+    private mCollapsedColumns:SparseBooleanArray;
+
+    private mShrinkAllColumns:boolean = false;
+
+    private mStretchAllColumns:boolean = false;
+
+    private mPassThroughListener:TableLayout.PassThroughHierarchyChangeListener;
+
+    private mInitialized:boolean = false;
+
+    /**
+     * <p>Creates a new TableLayout for the given context and with the
+     * specified set attributes.</p>
+     *
+     * @param context the application environment
+     * @param bindElement the html element holding the attributes
+     */
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this.initTableLayout();
+
+        const a = this._attrBinder;
+        a.addAttr('stretchColumns', (value)=>{
+            if (value == null) return;
+            value = value + '';
+            if (value.charAt(0) == '*') {
+                this.mStretchAllColumns = true;
+            } else {
+                this.mStretchableColumns = TableLayout.parseColumns(value);
+            }
+            this.requestRowsLayout();
+        });
+        a.addAttr('shrinkColumns', (value)=>{
+            if (value == null) return;
+            value = value + '';
+            if (value.charAt(0) == '*') {
+                this.mShrinkAllColumns = true;
+            } else {
+                this.mShrinkableColumns = TableLayout.parseColumns(value);
+            }
+            this.requestRowsLayout();
+        });
+        a.addAttr('collapseColumns', (value)=>{
+            if (value == null) return;
+            let collapsedColumns = TableLayout.parseColumns(value + '');
+            for (let i = 0, count = collapsedColumns.size(); i < count; i++) {
+                this.setColumnCollapsed(collapsedColumns.keyAt(i), collapsedColumns.valueAt(i));
+            }
+        });
+
+        if (defStyle != null) this.applyDefaultAttributes(defStyle);
+    }
+
+    /**
+     * <p>Parses a sequence of columns ids defined in a CharSequence with the
+     * following pattern (regex): \d+(\s*,\s*\d+)*</p>
+     *
+     * <p>Examples: "1" or "13, 7, 6" or "".</p>
+     *
+     * <p>The result of the parsing is stored in a sparse boolean array. The
+     * parsed column ids are used as the keys of the sparse array. The values
+     * are always true.</p>
+     *
+     * @param sequence a sequence of column ids, can be empty but not null
+     * @return a sparse array of boolean mapping column indexes to the columns
+     *         collapse state
+     */
+    private static parseColumns(sequence:string):SparseBooleanArray  {
+        let columns:SparseBooleanArray = new SparseBooleanArray();
+        let columnDefs:string[] = sequence.split(/\s*,\s*/);
+        for (let columnIdentifier of columnDefs) {
+            let columnIndex:number = Number.parseInt(columnIdentifier);
+            // LayoutInflater.inflate() makes sure the argument is a number,
+            // here we just ignore the wrong values
+            if (!Number.isNaN(columnIndex) && columnIndex >= 0) {
+                // putting true in this sparse array indicates that the
+                // column index was defined in the XML file
+                columns.put(columnIndex, true);
+            }
+        }
+        return columns;
+    }
+
+    /**
+     * <p>Performs initialization common to prorgrammatic use and XML use of
+     * this widget.</p>
+     */
+    private initTableLayout():void  {
+        if (this.mCollapsedColumns == null) {
+            this.mCollapsedColumns = new SparseBooleanArray();
+        }
+        if (this.mStretchableColumns == null) {
+            this.mStretchableColumns = new SparseBooleanArray();
+        }
+        if (this.mShrinkableColumns == null) {
+            this.mShrinkableColumns = new SparseBooleanArray();
+        }
+        // TableLayouts are always in vertical orientation; keep this tracked
+        // for shared LinearLayout code.
+        this.setOrientation(LinearLayout.VERTICAL);
+        this.mPassThroughListener = new TableLayout.PassThroughHierarchyChangeListener(this);
+        // make sure to call the parent class method to avoid potential
+        // infinite loops
+        super.setOnHierarchyChangeListener(this.mPassThroughListener);
+        this.mInitialized = true;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    setOnHierarchyChangeListener(listener:ViewGroup.OnHierarchyChangeListener):void  {
+        // the user listener is delegated to our pass-through listener
+        this.mPassThroughListener.mOnHierarchyChangeListener = listener;
+    }
+
+    private requestRowsLayout():void  {
+        if (this.mInitialized) {
+            const count:number = this.getChildCount();
+            for (let i:number = 0; i < count; i++) {
+                this.getChildAt(i).requestLayout();
+            }
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    requestLayout():void  {
+        if (this.mInitialized) {
+            let count:number = this.getChildCount();
+            for (let i:number = 0; i < count; i++) {
+                this.getChildAt(i).forceLayout();
+            }
+        }
+        super.requestLayout();
+    }
+
+    /**
+     * <p>Indicates whether all columns are shrinkable or not.</p>
+     *
+     * @return true if all columns are shrinkable, false otherwise
+     *
+     * @attr ref android.R.styleable#TableLayout_shrinkColumns
+     */
+    isShrinkAllColumns():boolean  {
+        return this.mShrinkAllColumns;
+    }
+
+    /**
+     * <p>Convenience method to mark all columns as shrinkable.</p>
+     *
+     * @param shrinkAllColumns true to mark all columns shrinkable
+     *
+     * @attr ref android.R.styleable#TableLayout_shrinkColumns
+     */
+    setShrinkAllColumns(shrinkAllColumns:boolean):void  {
+        this.mShrinkAllColumns = shrinkAllColumns;
+    }
+
+    /**
+     * <p>Indicates whether all columns are stretchable or not.</p>
+     *
+     * @return true if all columns are stretchable, false otherwise
+     *
+     * @attr ref android.R.styleable#TableLayout_stretchColumns
+     */
+    isStretchAllColumns():boolean  {
+        return this.mStretchAllColumns;
+    }
+
+    /**
+     * <p>Convenience method to mark all columns as stretchable.</p>
+     *
+     * @param stretchAllColumns true to mark all columns stretchable
+     *
+     * @attr ref android.R.styleable#TableLayout_stretchColumns
+     */
+    setStretchAllColumns(stretchAllColumns:boolean):void  {
+        this.mStretchAllColumns = stretchAllColumns;
+    }
+
+    /**
+     * <p>Collapses or restores a given column. When collapsed, a column
+     * does not appear on screen and the extra space is reallocated to the
+     * other columns. A column is collapsed/restored by setting the visibility
+     * of every cell of this column.</p>
+     *
+     * <p>Calling this method requests a layout operation.</p>
+     *
+     * @param columnIndex the index of the column
+     * @param isCollapsed true if the column must be collapsed, false otherwise
+     *
+     * @attr ref android.R.styleable#TableLayout_collapseColumns
+     */
+    setColumnCollapsed(columnIndex:number, isCollapsed:boolean):void  {
+        // update the collapse status of the column
+        this.mCollapsedColumns.put(columnIndex, isCollapsed);
+        let count:number = this.getChildCount();
+        for (let i:number = 0; i < count; i++) {
+            const view:View = this.getChildAt(i);
+            if (view instanceof TableRow) {
+                (<TableRow> view).setColumnCollapsed(columnIndex, isCollapsed);
+            }
+        }
+        this.requestRowsLayout();
+    }
+
+    /**
+     * <p>Returns the collapsed state of the specified column.</p>
+     *
+     * @param columnIndex the index of the column
+     * @return true if the column is collapsed, false otherwise
+     */
+    isColumnCollapsed(columnIndex:number):boolean  {
+        return this.mCollapsedColumns.get(columnIndex, false);
+    }
+
+    /**
+     * <p>Makes the given column stretchable or not. When stretchable, a column
+     * takes up as much as available space as possible in its row.</p>
+     *
+     * <p>Calling this method requests a layout operation.</p>
+     *
+     * @param columnIndex the index of the column
+     * @param isStretchable true if the column must be stretchable,
+     *                      false otherwise. Default is false.
+     *
+     * @attr ref android.R.styleable#TableLayout_stretchColumns
+     */
+    setColumnStretchable(columnIndex:number, isStretchable:boolean):void  {
+        this.mStretchableColumns.put(columnIndex, isStretchable);
+        this.requestRowsLayout();
+    }
+
+    /**
+     * <p>Returns whether the specified column is stretchable or not.</p>
+     *
+     * @param columnIndex the index of the column
+     * @return true if the column is stretchable, false otherwise
+     */
+    isColumnStretchable(columnIndex:number):boolean  {
+        return this.mStretchAllColumns || this.mStretchableColumns.get(columnIndex, false);
+    }
+
+    /**
+     * <p>Makes the given column shrinkable or not. When a row is too wide, the
+     * table can reclaim extra space from shrinkable columns.</p>
+     *
+     * <p>Calling this method requests a layout operation.</p>
+     *
+     * @param columnIndex the index of the column
+     * @param isShrinkable true if the column must be shrinkable,
+     *                     false otherwise. Default is false.
+     *
+     * @attr ref android.R.styleable#TableLayout_shrinkColumns
+     */
+    setColumnShrinkable(columnIndex:number, isShrinkable:boolean):void  {
+        this.mShrinkableColumns.put(columnIndex, isShrinkable);
+        this.requestRowsLayout();
+    }
+
+    /**
+     * <p>Returns whether the specified column is shrinkable or not.</p>
+     *
+     * @param columnIndex the index of the column
+     * @return true if the column is shrinkable, false otherwise. Default is false.
+     */
+    isColumnShrinkable(columnIndex:number):boolean  {
+        return this.mShrinkAllColumns || this.mShrinkableColumns.get(columnIndex, false);
+    }
+
+    /**
+     * <p>Applies the columns collapse status to a new row added to this
+     * table. This method is invoked by PassThroughHierarchyChangeListener
+     * upon child insertion.</p>
+     *
+     * <p>This method only applies to {@link android.widget.TableRow}
+     * instances.</p>
+     *
+     * @param child the newly added child
+     */
+    private trackCollapsedColumns(child:View):void  {
+        if (child instanceof TableRow) {
+            const row:TableRow = <TableRow> child;
+            const collapsedColumns:SparseBooleanArray = this.mCollapsedColumns;
+            const count:number = collapsedColumns.size();
+            for (let i:number = 0; i < count; i++) {
+                let columnIndex:number = collapsedColumns.keyAt(i);
+                let isCollapsed:boolean = collapsedColumns.valueAt(i);
+                // the collapse status is set only when the column should be
+                // collapsed; otherwise, this might affect the default
+                // visibility of the row's children
+                if (isCollapsed) {
+                    row.setColumnCollapsed(columnIndex, isCollapsed);
+                }
+            }
+        }
+    }
+
+    addView(...args) {
+        super.addView(...args);
+        this.requestRowsLayout();
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        // enforce vertical layout
+        this.measureVertical(widthMeasureSpec, heightMeasureSpec);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void  {
+        // enforce vertical layout
+        this.layoutVertical(l, t, r, b);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    measureChildBeforeLayout(child:View, childIndex:number, widthMeasureSpec:number, totalWidth:number, heightMeasureSpec:number, totalHeight:number):void  {
+        // when the measured child is a table row, we force the width of its
+        // children with the widths computed in findLargestCells()
+        if (child instanceof TableRow) {
+            (<TableRow> child).setColumnsWidthConstraints(this.mMaxWidths);
+        }
+        super.measureChildBeforeLayout(child, childIndex, widthMeasureSpec, totalWidth, heightMeasureSpec, totalHeight);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    measureVertical(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        this.findLargestCells(widthMeasureSpec);
+        this.shrinkAndStretchColumns(widthMeasureSpec);
+        super.measureVertical(widthMeasureSpec, heightMeasureSpec);
+    }
+
+    /**
+     * <p>Finds the largest cell in each column. For each column, the width of
+     * the largest cell is applied to all the other cells.</p>
+     *
+     * @param widthMeasureSpec the measure constraint imposed by our parent
+     */
+    private findLargestCells(widthMeasureSpec:number):void  {
+        let firstRow:boolean = true;
+        // find the maximum width for each column
+        // the total number of columns is dynamically changed if we find
+        // wider rows as we go through the children
+        // the array is reused for each layout operation; the array can grow
+        // but never shrinks. Unused extra cells in the array are just ignored
+        // this behavior avoids to unnecessary grow the array after the first
+        // layout operation
+        const count:number = this.getChildCount();
+        for (let i:number = 0; i < count; i++) {
+            const child:View = this.getChildAt(i);
+            if (child.getVisibility() == View.GONE) {
+                continue;
+            }
+            if (child instanceof TableRow) {
+                const row:TableRow = <TableRow> child;
+                // forces the row's height
+                const layoutParams:ViewGroup.LayoutParams = row.getLayoutParams();
+                layoutParams.height = TableLayout.LayoutParams.WRAP_CONTENT;
+                const widths:number[] = row.getColumnsWidths(widthMeasureSpec);
+                const newLength:number = widths.length;
+                // this is the first row, we just need to copy the values
+                if (firstRow) {
+                    if (this.mMaxWidths == null || this.mMaxWidths.length != newLength) {
+                        this.mMaxWidths = new Array<number>(newLength);
+                    }
+                    System.arraycopy(widths, 0, this.mMaxWidths, 0, newLength);
+                    firstRow = false;
+                } else {
+                    let length:number = this.mMaxWidths.length;
+                    const difference:number = newLength - length;
+                    // the current row is wider than the previous rows, so
+                    // we just grow the array and copy the values
+                    if (difference > 0) {
+                        const oldMaxWidths:number[] = this.mMaxWidths;
+                        this.mMaxWidths = new Array<number>(newLength);
+                        System.arraycopy(oldMaxWidths, 0, this.mMaxWidths, 0, oldMaxWidths.length);
+                        System.arraycopy(widths, oldMaxWidths.length, this.mMaxWidths, oldMaxWidths.length, difference);
+                    }
+                    // the row is narrower or of the same width as the previous
+                    // rows, so we find the maximum width for each column
+                    // if the row is narrower than the previous ones,
+                    // difference will be negative
+                    const maxWidths:number[] = this.mMaxWidths;
+                    length = Math.min(length, newLength);
+                    for (let j:number = 0; j < length; j++) {
+                        maxWidths[j] = Math.max(maxWidths[j], widths[j]);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * <p>Shrinks the columns if their total width is greater than the
+     * width allocated by widthMeasureSpec. When the total width is less
+     * than the allocated width, this method attempts to stretch columns
+     * to fill the remaining space.</p>
+     *
+     * @param widthMeasureSpec the width measure specification as indicated
+     *                         by this widget's parent
+     */
+    private shrinkAndStretchColumns(widthMeasureSpec:number):void  {
+        // when we have no row, mMaxWidths is not initialized and the loop
+        // below could cause a NPE
+        if (this.mMaxWidths == null) {
+            return;
+        }
+        // should we honor AT_MOST, EXACTLY and UNSPECIFIED?
+        let totalWidth:number = 0;
+        for (let width of this.mMaxWidths) {
+            totalWidth += width;
+        }
+        let size:number = MeasureSpec.getSize(widthMeasureSpec) - this.mPaddingLeft - this.mPaddingRight;
+        if ((totalWidth > size) && (this.mShrinkAllColumns || this.mShrinkableColumns.size() > 0)) {
+            // oops, the largest columns are wider than the row itself
+            // fairly redistribute the row's width among the columns
+            this.mutateColumnsWidth(this.mShrinkableColumns, this.mShrinkAllColumns, size, totalWidth);
+        } else if ((totalWidth < size) && (this.mStretchAllColumns || this.mStretchableColumns.size() > 0)) {
+            // if we have some space left, we distribute it among the
+            // expandable columns
+            this.mutateColumnsWidth(this.mStretchableColumns, this.mStretchAllColumns, size, totalWidth);
+        }
+    }
+
+    private mutateColumnsWidth(columns:SparseBooleanArray, allColumns:boolean, size:number, totalWidth:number):void  {
+        let skipped:number = 0;
+        const maxWidths:number[] = this.mMaxWidths;
+        const length:number = maxWidths.length;
+        const count:number = allColumns ? length : columns.size();
+        const totalExtraSpace:number = size - totalWidth;
+        let extraSpace:number = Math.floor(totalExtraSpace / count);
+        // Column's widths are changed: force child table rows to re-measure.
+        // (done by super.measureVertical after shrinkAndStretchColumns.)
+        const nbChildren:number = this.getChildCount();
+        for (let i:number = 0; i < nbChildren; i++) {
+            let child:View = this.getChildAt(i);
+            if (child instanceof TableRow) {
+                child.forceLayout();
+            }
+        }
+        if (!allColumns) {
+            for (let i:number = 0; i < count; i++) {
+                let column:number = columns.keyAt(i);
+                if (columns.valueAt(i)) {
+                    if (column < length) {
+                        maxWidths[column] += extraSpace;
+                    } else {
+                        skipped++;
+                    }
+                }
+            }
+        } else {
+            for (let i:number = 0; i < count; i++) {
+                maxWidths[i] += extraSpace;
+            }
+            // we don't skip any column so we can return right away
+            return;
+        }
+        if (skipped > 0 && skipped < count) {
+            // reclaim any extra space we left to columns that don't exist
+            extraSpace = Math.floor(skipped * extraSpace / (count - skipped));
+            for (let i:number = 0; i < count; i++) {
+                let column:number = columns.keyAt(i);
+                if (columns.valueAt(i) && column < length) {
+                    if (extraSpace > maxWidths[column]) {
+                        maxWidths[column] = 0;
+                    } else {
+                        maxWidths[column] += extraSpace;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns a set of layout parameters with a width of
+     * {@link android.view.ViewGroup.LayoutParams#MATCH_PARENT},
+     * and a height of {@link android.view.ViewGroup.LayoutParams#WRAP_CONTENT}.
+     */
+    protected generateDefaultLayoutParams():LinearLayout.LayoutParams  {
+        return new TableLayout.LayoutParams();
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean  {
+        return p instanceof TableLayout.LayoutParams;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):LinearLayout.LayoutParams  {
+        return new TableLayout.LayoutParams(p);
+    }
+}
+
+export module TableLayout{
+/**
+ * <p>This set of layout parameters enforces the width of each child to be
+ * {@link #MATCH_PARENT} and the height of each child to be
+ * {@link #WRAP_CONTENT}, but only if the height is not specified.</p>
+ */
+export class LayoutParams extends LinearLayout.LayoutParams {
+
+    /**
+     * {@inheritDoc}
+     */
+    constructor();
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(w:number, h:number, initWeight?:number);
+    constructor(...args) {
+        super();
+        if (args.length === 1) {
+            super(args[0]);
+        } else {
+            let [w, h=LayoutParams.WRAP_CONTENT, initWeight=0] = args;
+            super(LayoutParams.MATCH_PARENT, h, initWeight);
+        }
+
+        // the width of a row is always MATCH_PARENT
+        this._attrBinder.addAttr('width', (value)=>{
+            this.width = LayoutParams.MATCH_PARENT;
+        }, ()=>{
+            return LayoutParams.MATCH_PARENT;
+        });
+    }
+}
+
+/**
+ * <p>A pass-through listener acts upon the events and dispatches them
+ * to another listener. This allows the table layout to set its own internal
+ * hierarchy change listener without preventing the user to setup his.</p>
+ */
+export class PassThroughHierarchyChangeListener implements ViewGroup.OnHierarchyChangeListener {
+    _TableLayout_this:TableLayout;
+    constructor(arg:TableLayout){
+        this._TableLayout_this = arg;
+    }
+
+    mOnHierarchyChangeListener:ViewGroup.OnHierarchyChangeListener;
+
+    /**
+     * {@inheritDoc}
+     */
+    onChildViewAdded(parent:View, child:View):void  {
+        this._TableLayout_this.trackCollapsedColumns(child);
+        if (this.mOnHierarchyChangeListener != null) {
+            this.mOnHierarchyChangeListener.onChildViewAdded(parent, child);
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    onChildViewRemoved(parent:View, child:View):void  {
+        if (this.mOnHierarchyChangeListener != null) {
+            this.mOnHierarchyChangeListener.onChildViewRemoved(parent, child);
+        }
+    }
+}
+}
+
+}
@@ -0,0 +1,437 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/util/SparseArray.ts"/>
+///<reference path="../../android/view/Gravity.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import SparseArray = android.util.SparseArray;
+import Gravity = android.view.Gravity;
+import View = android.view.View;
+import MeasureSpec = android.view.View.MeasureSpec;
+import ViewGroup = android.view.ViewGroup;
+import LinearLayout = android.widget.LinearLayout;
+
+/**
+ * <p>A layout that arranges its children horizontally. A TableRow should
+ * always be used as a child of a {@link android.widget.TableLayout}. If a
+ * TableRow's parent is not a TableLayout, the TableRow will behave as
+ * an horizontal {@link android.widget.LinearLayout}.</p>
+ *
+ * <p>The children of a TableRow do not need to specify the
+ * <code>layout_width</code> and <code>layout_height</code> attributes in the
+ * XML file. TableRow always enforces those values to be respectively
+ * {@link android.widget.TableLayout.LayoutParams#MATCH_PARENT} and
+ * {@link android.widget.TableLayout.LayoutParams#WRAP_CONTENT}.</p>
+ *
+ * <p>
+ * Also see {@link TableRow.LayoutParams android.widget.TableRow.LayoutParams}
+ * for layout attributes </p>
+ */
+export class TableRow extends LinearLayout {
+
+    private mNumColumns:number = 0;
+
+    private mColumnWidths:number[];
+
+    private mConstrainedColumnWidths:number[];
+
+    private mColumnToChildIndex:SparseArray<number>;
+
+    private mChildrenTracker:TableRow.ChildrenTracker;
+
+    /**
+     * <p>Creates a new TableRow for the given context.</p>
+     *
+     * @param context the application environment
+     */
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, defStyle);
+        this.initTableRow();
+    }
+
+    private initTableRow():void  {
+        let oldListener:ViewGroup.OnHierarchyChangeListener = this.mOnHierarchyChangeListener;
+        this.mChildrenTracker = new TableRow.ChildrenTracker(this);
+        if (oldListener != null) {
+            this.mChildrenTracker.setOnHierarchyChangeListener(oldListener);
+        }
+        super.setOnHierarchyChangeListener(this.mChildrenTracker);
+        this.setOrientation(TableRow.HORIZONTAL);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    setOnHierarchyChangeListener(listener:ViewGroup.OnHierarchyChangeListener):void  {
+        this.mChildrenTracker.setOnHierarchyChangeListener(listener);
+    }
+
+    /**
+     * <p>Collapses or restores a given column.</p>
+     *
+     * @param columnIndex the index of the column
+     * @param collapsed true if the column must be collapsed, false otherwise
+     * {@hide}
+     */
+    setColumnCollapsed(columnIndex:number, collapsed:boolean):void  {
+        let child:View = this.getVirtualChildAt(columnIndex);
+        if (child != null) {
+            child.setVisibility(collapsed ? View.GONE : View.VISIBLE);
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onMeasure(widthMeasureSpec:number, heightMeasureSpec:number):void  {
+        // enforce horizontal layout
+        this.measureHorizontal(widthMeasureSpec, heightMeasureSpec);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected onLayout(changed:boolean, l:number, t:number, r:number, b:number):void  {
+        // enforce horizontal layout
+        this.layoutHorizontal(l, t, r, b);
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    getVirtualChildAt(i:number):View  {
+        if (this.mColumnToChildIndex == null) {
+            this.mapIndexAndColumns();
+        }
+        const deflectedIndex:number = this.mColumnToChildIndex.get(i, -1);
+        if (deflectedIndex != -1) {
+            return this.getChildAt(deflectedIndex);
+        }
+        return null;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    getVirtualChildCount():number  {
+        if (this.mColumnToChildIndex == null) {
+            this.mapIndexAndColumns();
+        }
+        return this.mNumColumns;
+    }
+
+    private mapIndexAndColumns():void  {
+        if (this.mColumnToChildIndex == null) {
+            let virtualCount:number = 0;
+            const count:number = this.getChildCount();
+            this.mColumnToChildIndex = new SparseArray<number>();
+            const columnToChild:SparseArray<number> = this.mColumnToChildIndex;
+            for (let i:number = 0; i < count; i++) {
+                const child:View = this.getChildAt(i);
+                const layoutParams:TableRow.LayoutParams = <TableRow.LayoutParams> child.getLayoutParams();
+                if (layoutParams.column >= virtualCount) {
+                    virtualCount = layoutParams.column;
+                }
+                for (let j:number = 0; j < layoutParams.span; j++) {
+                    columnToChild.put(virtualCount++, i);
+                }
+            }
+            this.mNumColumns = virtualCount;
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    measureNullChild(childIndex:number):number  {
+        return this.mConstrainedColumnWidths[childIndex];
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    measureChildBeforeLayout(child:View, childIndex:number, widthMeasureSpec:number, totalWidth:number, heightMeasureSpec:number, totalHeight:number):void  {
+        if (this.mConstrainedColumnWidths != null) {
+            const lp:TableRow.LayoutParams = <TableRow.LayoutParams> child.getLayoutParams();
+            let measureMode:number = MeasureSpec.EXACTLY;
+            let columnWidth:number = 0;
+            const span:number = lp.span;
+            const constrainedColumnWidths:number[] = this.mConstrainedColumnWidths;
+            for (let i:number = 0; i < span; i++) {
+                columnWidth += constrainedColumnWidths[childIndex + i];
+            }
+            const gravity:number = lp.gravity;
+            const isHorizontalGravity:boolean = gravity > 0 && (gravity & Gravity.HORIZONTAL_GRAVITY_MASK) != 0;
+            if (isHorizontalGravity) {
+                measureMode = MeasureSpec.AT_MOST;
+            }
+            // no need to care about padding here,
+            // ViewGroup.getChildMeasureSpec() would get rid of it anyway
+            // because of the EXACTLY measure spec we use
+            lp._measuringParentWidthMeasureSpec = widthMeasureSpec;
+            lp._measuringParentHeightMeasureSpec = heightMeasureSpec;
+            let childWidthMeasureSpec:number = MeasureSpec.makeMeasureSpec(Math.max(0, columnWidth - lp.leftMargin - lp.rightMargin), measureMode);
+            let childHeightMeasureSpec:number = TableRow.getChildMeasureSpec(heightMeasureSpec, this.mPaddingTop + this.mPaddingBottom + lp.topMargin + lp.bottomMargin + totalHeight, lp.height);
+            lp._measuringParentWidthMeasureSpec = null;
+            lp._measuringParentHeightMeasureSpec = null;
+            child.measure(childWidthMeasureSpec, childHeightMeasureSpec);
+            if (isHorizontalGravity) {
+                const childWidth:number = child.getMeasuredWidth();
+                lp.mOffset[TableRow.LayoutParams.LOCATION_NEXT] = columnWidth - childWidth;
+                const layoutDirection:number = this.getLayoutDirection();
+                const absoluteGravity:number = Gravity.getAbsoluteGravity(gravity, layoutDirection);
+                switch(absoluteGravity & Gravity.HORIZONTAL_GRAVITY_MASK) {
+                    case Gravity.LEFT:
+                        // don't offset on X axis
+                        break;
+                    case Gravity.RIGHT:
+                        lp.mOffset[TableRow.LayoutParams.LOCATION] = lp.mOffset[TableRow.LayoutParams.LOCATION_NEXT];
+                        break;
+                    case Gravity.CENTER_HORIZONTAL:
+                        lp.mOffset[TableRow.LayoutParams.LOCATION] = Math.floor(lp.mOffset[TableRow.LayoutParams.LOCATION_NEXT] / 2);
+                        break;
+                }
+            } else {
+                lp.mOffset[TableRow.LayoutParams.LOCATION] = lp.mOffset[TableRow.LayoutParams.LOCATION_NEXT] = 0;
+            }
+        } else {
+            // fail silently when column widths are not available
+            super.measureChildBeforeLayout(child, childIndex, widthMeasureSpec, totalWidth, heightMeasureSpec, totalHeight);
+        }
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    getChildrenSkipCount(child:View, index:number):number  {
+        let layoutParams:TableRow.LayoutParams = <TableRow.LayoutParams> child.getLayoutParams();
+        // when the span is 1 (default), we need to skip 0 child
+        return layoutParams.span - 1;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    getLocationOffset(child:View):number  {
+        return (<TableRow.LayoutParams> child.getLayoutParams()).mOffset[TableRow.LayoutParams.LOCATION];
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    getNextLocationOffset(child:View):number  {
+        return (<TableRow.LayoutParams> child.getLayoutParams()).mOffset[TableRow.LayoutParams.LOCATION_NEXT];
+    }
+
+    /**
+     * <p>Measures the preferred width of each child, including its margins.</p>
+     *
+     * @param widthMeasureSpec the width constraint imposed by our parent
+     *
+     * @return an array of integers corresponding to the width of each cell, or
+     *         column, in this row
+     * {@hide}
+     */
+    getColumnsWidths(widthMeasureSpec:number):number[]  {
+        const numColumns:number = this.getVirtualChildCount();
+        if (this.mColumnWidths == null || numColumns != this.mColumnWidths.length) {
+            this.mColumnWidths = new Array<number>(numColumns);
+        }
+        const columnWidths:number[] = this.mColumnWidths;
+        for (let i:number = 0; i < numColumns; i++) {
+            const child:View = this.getVirtualChildAt(i);
+            if (child != null && child.getVisibility() != TableRow.GONE) {
+                const layoutParams:TableRow.LayoutParams = <TableRow.LayoutParams> child.getLayoutParams();
+                if (layoutParams.span == 1) {
+                    layoutParams._measuringParentWidthMeasureSpec = widthMeasureSpec;
+                    let spec:number;
+                    switch(layoutParams.width) {
+                        case TableRow.LayoutParams.WRAP_CONTENT:
+                            spec = TableRow.getChildMeasureSpec(widthMeasureSpec, 0, TableRow.LayoutParams.WRAP_CONTENT);
+                            break;
+                        case TableRow.LayoutParams.MATCH_PARENT:
+                            spec = MeasureSpec.makeMeasureSpec(0, MeasureSpec.UNSPECIFIED);
+                            break;
+                        default:
+                            spec = MeasureSpec.makeMeasureSpec(layoutParams.width, MeasureSpec.EXACTLY);
+                    }
+                    child.measure(spec, spec);
+                    const width:number = child.getMeasuredWidth() + layoutParams.leftMargin + layoutParams.rightMargin;
+                    layoutParams._measuringParentWidthMeasureSpec = null;
+                    columnWidths[i] = width;
+                } else {
+                    columnWidths[i] = 0;
+                }
+            } else {
+                columnWidths[i] = 0;
+            }
+        }
+        return columnWidths;
+    }
+
+    /**
+     * <p>Sets the width of all of the columns in this row. At layout time,
+     * this row sets a fixed width, as defined by <code>columnWidths</code>,
+     * on each child (or cell, or column.)</p>
+     *
+     * @param columnWidths the fixed width of each column that this row must
+     *                     honor
+     * @throws IllegalArgumentException when columnWidths' length is smaller
+     *         than the number of children in this row
+     * {@hide}
+     */
+    setColumnsWidthConstraints(columnWidths:number[]):void  {
+        if (columnWidths == null || columnWidths.length < this.getVirtualChildCount()) {
+            throw Error(`new IllegalArgumentException("columnWidths should be >= getVirtualChildCount()")`);
+        }
+        this.mConstrainedColumnWidths = columnWidths;
+    }
+
+    /**
+     * Returns a set of layout parameters with a width of
+     * {@link android.view.ViewGroup.LayoutParams#MATCH_PARENT},
+     * a height of {@link android.view.ViewGroup.LayoutParams#WRAP_CONTENT} and no spanning.
+     */
+    protected generateDefaultLayoutParams():LinearLayout.LayoutParams  {
+        return new TableRow.LayoutParams();
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected checkLayoutParams(p:ViewGroup.LayoutParams):boolean  {
+        return p instanceof TableRow.LayoutParams;
+    }
+
+    /**
+     * {@inheritDoc}
+     */
+    protected generateLayoutParams(p:ViewGroup.LayoutParams):LinearLayout.LayoutParams  {
+        return new TableRow.LayoutParams(p);
+    }
+}
+
+export module TableRow{
+/**
+ * <p>Set of layout parameters used in table rows.</p>
+ *
+ * @see android.widget.TableLayout.LayoutParams
+ *
+ * @attr ref android.R.styleable#TableRow_Cell_layout_column
+ * @attr ref android.R.styleable#TableRow_Cell_layout_span
+ */
+export class LayoutParams extends LinearLayout.LayoutParams {
+
+    /**
+     * <p>The column index of the cell represented by the widget.</p>
+     */
+    column:number = -1;
+
+    /**
+     * <p>The number of columns the widgets spans over.</p>
+     */
+    span:number = 1;
+
+    static LOCATION:number = 0;
+
+    static LOCATION_NEXT:number = 1;
+
+    mOffset:number[] = [0, 0];
+
+    /**
+     * <p>Sets the child width to
+     * {@link android.view.ViewGroup.LayoutParams} and the child height to
+     * {@link android.view.ViewGroup.LayoutParams#WRAP_CONTENT}.</p>
+     *
+     * <p>Sets the child column to the given index.</p>
+     */
+    constructor();
+    constructor(column:number);
+    constructor(source:ViewGroup.LayoutParams);
+    constructor(width:number, height:number, weight?:number);
+    constructor(...args) {
+        super();
+        if (args.length === 1 && typeof args[0] !== 'number') {
+            let source = args[0];
+            super(source);
+            if (source instanceof LayoutParams) {
+                this.column = source.column;
+                this.span = source.span;
+            }
+        } else if (args.length > 1) {
+            super(args[0], args[1], args[2]);
+        } else {
+            super(LayoutParams.MATCH_PARENT, LayoutParams.WRAP_CONTENT);
+            if (args.length === 1) {
+                this.column = args[0];
+            }
+        }
+
+        const a = this._attrBinder;
+        a.addAttr('column', (value)=>{
+            this.column = a.parseNumber(value, this.column);
+        }, ()=>{
+            return this.column;
+        });
+        a.addAttr('span', (value)=>{
+            this.span = a.parseNumber(value, this.span);
+            if (this.span <= 1) {
+                this.span = 1;
+            }
+        }, ()=>{
+            return this.span;
+        });
+    }
+}
+
+// special transparent hierarchy change listener
+export class ChildrenTracker implements ViewGroup.OnHierarchyChangeListener {
+    _TableRow_this:TableRow;
+    constructor(arg:TableRow){
+        this._TableRow_this = arg;
+    }
+
+    private listener:ViewGroup.OnHierarchyChangeListener;
+
+    setOnHierarchyChangeListener(listener:ViewGroup.OnHierarchyChangeListener):void  {
+        this.listener = listener;
+    }
+
+    onChildViewAdded(parent:View, child:View):void  {
+        // dirties the index to column map
+        this._TableRow_this.mColumnToChildIndex = null;
+        if (this.listener != null) {
+            this.listener.onChildViewAdded(parent, child);
+        }
+    }
+
+    onChildViewRemoved(parent:View, child:View):void  {
+        // dirties the index to column map
+        this._TableRow_this.mColumnToChildIndex = null;
+        if (this.listener != null) {
+            this.listener.onChildViewRemoved(parent, child);
+        }
+    }
+}
+}
+
+}
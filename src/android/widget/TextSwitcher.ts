@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/widget/TextView.ts"/>
+///<reference path="../../android/widget/ViewSwitcher.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+
+module android.widget {
+import TextView = android.widget.TextView;
+import ViewSwitcher = android.widget.ViewSwitcher;
+import Context = android.content.Context;
+
+/**
+ * Specialized {@link android.widget.ViewSwitcher} that contains
+ * only children of type {@link android.widget.TextView}.
+ *
+ * A TextSwitcher is useful to animate a label on screen. Whenever
+ * {@link #setText(CharSequence)} is called, TextSwitcher animates the current text
+ * out and animates the new text in.
+ */
+export class TextSwitcher extends ViewSwitcher {
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, defStyle);
+    }
+
+    /**
+     * {@inheritDoc}
+     *
+     * @throws IllegalArgumentException if child is not an instance of
+     *         {@link android.widget.TextView}
+     */
+    addView(...args) {
+        if (!(args[0] instanceof TextView)) {
+            throw Error(`new IllegalArgumentException("TextSwitcher children must be instances of TextView")`);
+        }
+        super.addView(...args);
+    }
+
+    /**
+     * Sets the text of the next view and switches to the next view. This can
+     * be used to animate the old text out and animate the next text in.
+     *
+     * @param text the new text to display
+     */
+    setText(text:string):void {
+        const t:TextView = <TextView> this.getNextView();
+        t.setText(text);
+        this.showNext();
+    }
+
+    /**
+     * Sets the text of the text view that is currently showing.  This does
+     * not perform the animations.
+     *
+     * @param text the new text to display
+     */
+    setCurrentText(text:string):void {
+        (<TextView> this.getCurrentView()).setText(text);
+    }
+}
+}
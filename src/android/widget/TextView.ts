@@ -25,6 +25,7 @@
 ///<reference path="../../android/graphics/Path.ts"/>
 ///<reference path="../../android/graphics/Rect.ts"/>
 ///<reference path="../../android/graphics/RectF.ts"/>
+///<reference path="../../android/graphics/Typeface.ts"/>
 ///<reference path="../../android/graphics/drawable/Drawable.ts"/>
 ///<reference path="../../android/os/Handler.ts"/>
 ///<reference path="../../android/os/Message.ts"/>
@@ -33,8 +34,11 @@
 ///<reference path="../../android/text/DynamicLayout.ts"/>
 ///<reference path="../../android/text/InputType.ts"/>
 ///<reference path="../../android/text/Layout.ts"/>
+///<reference path="../../android/text/Selection.ts"/>
 ///<reference path="../../android/text/SpanWatcher.ts"/>
 ///<reference path="../../android/text/Spannable.ts"/>
+///<reference path="../../android/text/SpannableString.ts"/>
+///<reference path="../../android/text/SpannableStringBuilder.ts"/>
 ///<reference path="../../android/text/Spanned.ts"/>
 ///<reference path="../../android/text/StaticLayout.ts"/>
 ///<reference path="../../android/text/TextDirectionHeuristic.ts"/>
@@ -43,12 +47,16 @@
 ///<reference path="../../android/text/TextUtils.ts"/>
 ///<reference path="../../android/text/TextWatcher.ts"/>
 ///<reference path="../../android/text/method/AllCapsTransformationMethod.ts"/>
+///<reference path="../../android/text/method/LinkMovementMethod.ts"/>
 ///<reference path="../../android/text/method/MovementMethod.ts"/>
 ///<reference path="../../android/text/method/SingleLineTransformationMethod.ts"/>
 ///<reference path="../../android/text/method/TransformationMethod.ts"/>
 ///<reference path="../../android/text/method/TransformationMethod2.ts"/>
 ///<reference path="../../android/text/style/CharacterStyle.ts"/>
+///<reference path="../../android/text/style/DynamicDrawableSpan.ts"/>
 ///<reference path="../../android/text/style/ParagraphStyle.ts"/>
+///<reference path="../../android/text/style/URLSpan.ts"/>
+///<reference path="../../android/text/util/Linkify.ts"/>
 ///<reference path="../../android/text/style/UpdateAppearance.ts"/>
 ///<reference path="../../android/util/Log.ts"/>
 ///<reference path="../../android/util/TypedValue.ts"/>
@@ -79,6 +87,7 @@ import Path = android.graphics.Path;
 import Rect = android.graphics.Rect;
 import Color = android.graphics.Color;
 import RectF = android.graphics.RectF;
+import Typeface = android.graphics.Typeface;
 import Drawable = android.graphics.drawable.Drawable;
 import Handler = android.os.Handler;
 import Message = android.os.Message;
@@ -87,6 +96,7 @@ import BoringLayout = android.text.BoringLayout;
 import DynamicLayout = android.text.DynamicLayout;
 import InputType = android.text.InputType;
 import Layout = android.text.Layout;
+import Selection = android.text.Selection;
 import SpanWatcher = android.text.SpanWatcher;
 import Spannable = android.text.Spannable;
 import Spanned = android.text.Spanned;
@@ -98,12 +108,16 @@ import TextUtils = android.text.TextUtils;
 import TruncateAt = android.text.TextUtils.TruncateAt;
 import TextWatcher = android.text.TextWatcher;
 import AllCapsTransformationMethod = android.text.method.AllCapsTransformationMethod;
+import LinkMovementMethod = android.text.method.LinkMovementMethod;
 import MovementMethod = android.text.method.MovementMethod;
 import SingleLineTransformationMethod = android.text.method.SingleLineTransformationMethod;
 import TransformationMethod = android.text.method.TransformationMethod;
 import TransformationMethod2 = android.text.method.TransformationMethod2;
 import CharacterStyle = android.text.style.CharacterStyle;
+import DynamicDrawableSpan = android.text.style.DynamicDrawableSpan;
 import ParagraphStyle = android.text.style.ParagraphStyle;
+import URLSpan = android.text.style.URLSpan;
+import Linkify = android.text.util.Linkify;
 import UpdateAppearance = android.text.style.UpdateAppearance;
 import Log = android.util.Log;
 import TypedValue = android.util.TypedValue;
@@ -428,6 +442,20 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
 
     private mHighlightPathBogus:boolean = true;
 
+    //androidui add: the fontFamily/typeface/textStyle attrs, resolve together so the result not depend on the attr order
+    private mFontFamilyAttr:string = null;
+    private mTypefaceIndexAttr = -1;
+    private mTextStyleAttr = -1;
+
+    //re-measure the text when the web font of typeface loaded, listen while attached to window
+    private mTypefaceLoadListener = ()=>{
+        if (this.mLayout != null) {
+            this.nullLayouts();
+            this.requestLayout();
+            this.invalidate();
+        }
+    };
+
     // Although these fields are specific to editable text, they are not added to Editor because
     // they are defined by the TextView's style and are theme-dependent.
     mCursorDrawableRes:number = 0;
@@ -493,12 +521,69 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         }, ()=>{
             return this.mHintTextColor;
         });
+        a.addAttr('textColorLink', (value)=>{
+            let color = a.parseColorList(value);
+            if(color) this.setLinkTextColor(color);
+        }, ()=>{
+            return this.mLinkTextColor;
+        });
+        a.addAttr('autoLink', (value)=>{
+            let mask = 0;
+            for (let flag of (value + '').split('|')) {
+                switch (flag.trim().toLowerCase()) {
+                    case 'web': mask |= Linkify.WEB_URLS; break;
+                    case 'email': mask |= Linkify.EMAIL_ADDRESSES; break;
+                    case 'phone': mask |= Linkify.PHONE_NUMBERS; break;
+                    case 'map': mask |= Linkify.MAP_ADDRESSES; break;
+                    case 'all': mask |= Linkify.ALL; break;
+                }
+            }
+            this.setAutoLinkMask(mask);
+        }, ()=>{
+            return this.getAutoLinkMask();
+        });
+        a.addAttr('linksClickable', (value)=>{
+            this.setLinksClickable(a.parseBoolean(value, true));
+        }, ()=>{
+            return this.getLinksClickable();
+        });
         a.addAttr('textSize', (value)=>{
             let size = a.parseNumber(value, this.mTextPaint.getTextSize());
             this.setTextSize(TypedValue.COMPLEX_UNIT_PX, size);
         }, ()=>{
             return this.mTextPaint.getTextSize();
         });
+        a.addAttr('fontFamily', (value)=>{
+            this.mFontFamilyAttr = a.parseString(value);
+            this.resolveTypefaceAttrs();
+        }, ()=>{
+            let tf = this.getTypeface();
+            return tf == null ? null : tf.getFamilyName();
+        });
+        a.addAttr('typeface', (value)=>{
+            let typefaceIndex = ['normal', 'sans', 'serif', 'monospace'].indexOf((value + '').trim().toLowerCase());
+            if(typefaceIndex < 0) typefaceIndex = Number.parseInt(value);
+            if(Number.isInteger(typefaceIndex)){
+                this.mTypefaceIndexAttr = typefaceIndex;
+                this.resolveTypefaceAttrs();
+            }
+        });
+        a.addAttr('textStyle', (value)=>{
+            let style = Typeface.NORMAL;
+            for(let part of (value + '').split('|')){
+                part = part.trim().toLowerCase();
+                if(part === 'bold') style |= Typeface.BOLD;
+                else if(part === 'italic') style |= Typeface.ITALIC;
+            }
+            this.mTextStyleAttr = style;
+            this.resolveTypefaceAttrs();
+        }, ()=>{
+            let style = this.getTypefaceStyle();
+            if(style === Typeface.BOLD_ITALIC) return 'bold|italic';
+            if(style === Typeface.BOLD) return 'bold';
+            if(style === Typeface.ITALIC) return 'italic';
+            return 'normal';
+        });
         a.addAttr('textAllCaps', (value)=>{
             this.setAllCaps(a.parseBoolean(value, true));
         });
@@ -687,26 +772,51 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
     }
 
     private setTypefaceFromAttrs(familyName:string, typefaceIndex:number, styleIndex:number):void  {
-        //let tf:Typeface = null;
-        //if (familyName != null) {
-        //    tf = Typeface.create(familyName, styleIndex);
-        //    if (tf != null) {
-        //        this.setTypeface(tf);
-        //        return;
-        //    }
-        //}
-        //switch(typefaceIndex) {
-        //    case TextView.SANS:
-        //        tf = Typeface.SANS_SERIF;
-        //        break;
-        //    case TextView.SERIF:
-        //        tf = Typeface.SERIF;
-        //        break;
-        //    case TextView.MONOSPACE:
-        //        tf = Typeface.MONOSPACE;
-        //        break;
-        //}
-        //this.setTypeface(tf, styleIndex);
+        let tf:Typeface = null;
+        if (familyName != null) {
+            tf = Typeface.create(familyName, styleIndex);
+            if (tf != null) {
+                this.setTypeface(tf);
+                return;
+            }
+        }
+        switch(typefaceIndex) {
+            case TextView.SANS:
+                tf = Typeface.SANS_SERIF;
+                break;
+            case TextView.SERIF:
+                tf = Typeface.SERIF;
+                break;
+            case TextView.MONOSPACE:
+                tf = Typeface.MONOSPACE;
+                break;
+        }
+        this.setTypeface(tf, styleIndex);
+    }
+
+    /**
+     * fontFamily (if set) takes precedence over typeface, same as android.
+     */
+    private resolveTypefaceAttrs():void {
+        let style = this.mTextStyleAttr >= 0 ? this.mTextStyleAttr : this.getTypefaceStyle();
+        let familyName = this.mFontFamilyAttr;
+        if (familyName == null && this.mTypefaceIndexAttr < 0) {
+            //only textStyle set, keep the family of current typeface
+            let tf = this.getTypeface();
+            familyName = tf == null ? null : tf.getFamilyName();
+        }
+        this.setTypefaceFromAttrs(familyName, this.mTypefaceIndexAttr, style);
+    }
+
+    /**
+     * the style of current typeface, contain the fake bold & italic.
+     */
+    private getTypefaceStyle():number {
+        let tf = this.getTypeface();
+        let style = tf != null ? tf.getStyle() : Typeface.NORMAL;
+        if (this.mTextPaint.isFakeBoldText()) style |= Typeface.BOLD;
+        if (this.mTextPaint.getTextSkewX() != 0) style |= Typeface.ITALIC;
+        return style;
     }
 
     private setRelativeDrawablesIfNeeded(start:Drawable, end:Drawable):void  {
@@ -773,6 +883,20 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         //}
     }
 
+    /**
+     * Sets the typeface and style in which the text should be displayed.
+     * Note that not all Typeface families actually have bold and italic
+     * variants, so you may need to use
+     * {@link #setTypeface(Typeface, int)} to get the appearance
+     * that you actually want.
+     *
+     * @see #getTypeface()
+     *
+     * @attr ref android.R.styleable#TextView_fontFamily
+     * @attr ref android.R.styleable#TextView_typeface
+     * @attr ref android.R.styleable#TextView_textStyle
+     */
+    setTypeface(tf:Typeface):void;
     /**
      * Sets the typeface and style in which the text should be displayed,
      * and turns on the fake bold and italic bits in the Paint if the
@@ -782,24 +906,39 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
      * @attr ref android.R.styleable#TextView_typeface
      * @attr ref android.R.styleable#TextView_textStyle
      */
-    setTypeface(tf:any, style:number):void  {
-        //if (style > 0) {
-        //    if (tf == null) {
-        //        tf = Typeface.defaultFromStyle(style);
-        //    } else {
-        //        tf = Typeface.create(tf, style);
-        //    }
-        //    this.setTypeface(tf);
-        //    // now compute what (if any) algorithmic styling is needed
-        //    let typefaceStyle:number = tf != null ? tf.getStyle() : 0;
-        //    let need:number = style & ~typefaceStyle;
-        //    this.mTextPaint.setFakeBoldText((need & Typeface.BOLD) != 0);
-        //    this.mTextPaint.setTextSkewX((need & Typeface.ITALIC) != 0 ? -0.25 : 0);
-        //} else {
-        //    this.mTextPaint.setFakeBoldText(false);
-        //    this.mTextPaint.setTextSkewX(0);
-        //    this.setTypeface(tf);
-        //}
+    setTypeface(tf:Typeface, style:number):void;
+    setTypeface(tf:Typeface, style?:number):void  {
+        if (style == null) {
+            let oldTf = this.mTextPaint.getTypeface();
+            if (oldTf != tf) {
+                if (oldTf != null) oldTf.removeLoadListener(this.mTypefaceLoadListener);
+                this.mTextPaint.setTypeface(tf);
+                if (tf != null && this.isAttachedToWindow()) tf.addLoadListener(this.mTypefaceLoadListener);
+                if (this.mLayout != null) {
+                    this.nullLayouts();
+                    this.requestLayout();
+                    this.invalidate();
+                }
+            }
+            return;
+        }
+        if (style > 0) {
+            if (tf == null) {
+                tf = Typeface.defaultFromStyle(style);
+            } else {
+                tf = Typeface.create(tf, style);
+            }
+            this.setTypeface(tf);
+            // now compute what (if any) algorithmic styling is needed
+            let typefaceStyle:number = tf != null ? tf.getStyle() : 0;
+            let need:number = style & ~typefaceStyle;
+            this.mTextPaint.setFakeBoldText((need & Typeface.BOLD) != 0);
+            this.mTextPaint.setTextSkewX((need & Typeface.ITALIC) != 0 ? -0.25 : 0);
+        } else {
+            this.mTextPaint.setFakeBoldText(false);
+            this.mTextPaint.setTextSkewX(0);
+            this.setTypeface(tf);
+        }
     }
 
     /**
@@ -1817,30 +1956,6 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         //}
     }
 
-    ///**
-    // * Sets the typeface and style in which the text should be displayed.
-    // * Note that not all Typeface families actually have bold and italic
-    // * variants, so you may need to use
-    // * {@link #setTypeface(Typeface, int)} to get the appearance
-    // * that you actually want.
-    // *
-    // * @see #getTypeface()
-    // *
-    // * @attr ref android.R.styleable#TextView_fontFamily
-    // * @attr ref android.R.styleable#TextView_typeface
-    // * @attr ref android.R.styleable#TextView_textStyle
-    // */
-    //setTypeface(tf:any):void  {
-    //    if (this.mTextPaint.getTypeface() != tf) {
-    //        this.mTextPaint.setTypeface(tf);
-    //        if (this.mLayout != null) {
-    //            this.nullLayouts();
-    //            this.requestLayout();
-    //            this.invalidate();
-    //        }
-    //    }
-    //}
-
     /**
      * @return the current typeface and style in which the text is being
      * displayed.
@@ -1851,9 +1966,8 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
      * @attr ref android.R.styleable#TextView_typeface
      * @attr ref android.R.styleable#TextView_textStyle
      */
-    getTypeface():any  {
-        return null;//TODO when Typeface impl
-        //return this.mTextPaint.getTypeface();
+    getTypeface():Typeface  {
+        return this.mTextPaint.getTypeface();
     }
 
     /**
@@ -2058,12 +2172,12 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
      * or use {@link Spanned#getSpanStart} and {@link Spanned#getSpanEnd}
      * to find the region of the text they are attached to.
      */
-    getUrls():any[]  {
-        //if (this.mText instanceof Spanned) {
-        //    return (<Spanned> this.mText).getSpans(0, this.mText.length(), URLSpan.class);
-        //} else {
-            return new Array<any>(0);
-        //}
+    getUrls():URLSpan[]  {
+        if (Spanned.isImplements(this.mText)) {
+            return (<Spanned> this.mText).getSpans<URLSpan>(0, this.mText.length, URLSpan);
+        } else {
+            return new Array<URLSpan>(0);
+        }
     }
 
     /**
@@ -2107,46 +2221,34 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         return this.mHintTextColor != null ? this.mCurHintTextColor : this.mCurTextColor;
     }
 
-    ///**
-    // * Sets the color of links in the text.
-    // *
-    // * @see #setLinkTextColor(ColorStateList)
-    // * @see #getLinkTextColors()
-    // *
-    // * @attr ref android.R.styleable#TextView_textColorLink
-    // */
-    //setLinkTextColor(color:number):void  {
-    //    this.mLinkTextColor = ColorStateList.valueOf(color);
-    //    this.updateTextColors();
-    //}
-    //
-    ///**
-    // * Sets the color of links in the text.
-    // *
-    // * @see #setLinkTextColor(int)
-    // * @see #getLinkTextColors()
-    // * @see #setTextColor(ColorStateList)
-    // * @see #setHintTextColor(ColorStateList)
-    // *
-    // * @attr ref android.R.styleable#TextView_textColorLink
-    // */
-    //setLinkTextColor(colors:ColorStateList):void  {
-    //    this.mLinkTextColor = colors;
-    //    this.updateTextColors();
-    //}
-    //
-    ///**
-    // * @return the list of colors used to paint the links in the text, for the different states of
-    // * this TextView
-    // *
-    // * @see #setLinkTextColor(ColorStateList)
-    // * @see #setLinkTextColor(int)
-    // *
-    // * @attr ref android.R.styleable#TextView_textColorLink
-    // */
-    //getLinkTextColors():ColorStateList  {
-    //    return this.mLinkTextColor;
-    //}
+    /**
+     * Sets the color of links in the text.
+     *
+     * @see #getLinkTextColors()
+     * @see #setTextColor(ColorStateList)
+     * @see #setHintTextColor(ColorStateList)
+     *
+     * @attr ref android.R.styleable#TextView_textColorLink
+     */
+    setLinkTextColor(colors:ColorStateList|number):void  {
+        if(typeof colors === 'number'){
+            colors = ColorStateList.valueOf(<number>colors);
+        }
+        this.mLinkTextColor = <ColorStateList>colors;
+        this.updateTextColors();
+    }
+
+    /**
+     * @return the list of colors used to paint the links in the text, for the different states of
+     * this TextView
+     *
+     * @see #setLinkTextColor(ColorStateList)
+     *
+     * @attr ref android.R.styleable#TextView_textColorLink
+     */
+    getLinkTextColors():ColorStateList  {
+        return this.mLinkTextColor;
+    }
 
     /**
      * Sets the horizontal alignment of the text and the
@@ -2839,28 +2941,29 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         //else if (!(text instanceof TextView.CharWrapper)) {
         //    text = TextUtils.stringOrSpannedString(text);
         //}
-        //if (this.mAutoLinkMask != 0) {
-        //    let s2:Spannable;
-        //    if (type == TextView.BufferType.EDITABLE || text instanceof Spannable) {
-        //        s2 = <Spannable> text;
-        //    } else {
-        //        s2 = this.mSpannableFactory.newSpannable(text);
-        //    }
-        //    if (Linkify.addLinks(s2, this.mAutoLinkMask)) {
-        //        text = s2;
-        //        type = (type == TextView.BufferType.EDITABLE) ? TextView.BufferType.EDITABLE : TextView.BufferType.SPANNABLE;
-        //        /*
-        //         * We must go ahead and set the text before changing the
-        //         * movement method, because setMovementMethod() may call
-        //         * setText() again to try to upgrade the buffer type.
-        //         */
-        //        this.mText = text;
-        //        // would prevent an arbitrary cursor displacement.
-        //        if (this.mLinksClickable && !this.textCanBeSelected()) {
-        //            this.setMovementMethod(LinkMovementMethod.getInstance());
-        //        }
-        //    }
-        //}
+        if (this.mAutoLinkMask != 0) {
+            let s2:Spannable;
+            //androidui: EDITABLE text is not made an Editable yet, it can be a plain string
+            if (Spannable.isImpl(text)) {
+                s2 = <Spannable> text;
+            } else {
+                s2 = this.mSpannableFactory.newSpannable(text);
+            }
+            if (Linkify.addLinks(s2, this.mAutoLinkMask)) {
+                text = s2;
+                type = (type == TextView.BufferType.EDITABLE) ? TextView.BufferType.EDITABLE : TextView.BufferType.SPANNABLE;
+                /*
+                 * We must go ahead and set the text before changing the
+                 * movement method, because setMovementMethod() may call
+                 * setText() again to try to upgrade the buffer type.
+                 */
+                this.mText = text;
+                // would prevent an arbitrary cursor displacement.
+                if (this.mLinksClickable && !this.textCanBeSelected()) {
+                    this.setMovementMethod(LinkMovementMethod.getInstance());
+                }
+            }
+        }
         this.mBufferType = type;
         this.mText = text;
         if (this.mTransformation == null) {
@@ -2869,32 +2972,39 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
             this.mTransformed = this.mTransformation.getTransformation(text, this);
         }
         const textLength:number = text.length;
-        //if (Spannable.isImpl(text) && !this.mAllowTransformationLengthChange) {
-        //    let sp:Spannable = <Spannable> text;
-        //    // Remove any ChangeWatchers that might have come from other TextViews.
-        //    const watchers:TextView.ChangeWatcher[] = sp.getSpans(0, sp.length, TextView.ChangeWatcher.type);
-        //    const count:number = watchers.length;
-        //    for (let i:number = 0; i < count; i++) {
-        //        sp.removeSpan(watchers[i]);
-        //    }
-        //    if (this.mChangeWatcher == null)
-        //        this.mChangeWatcher = new TextView.ChangeWatcher(this);
-        //    sp.setSpan(this.mChangeWatcher, 0, textLength, Spanned.SPAN_INCLUSIVE_INCLUSIVE | (TextView.CHANGE_WATCHER_PRIORITY << Spanned.SPAN_PRIORITY_SHIFT));
+        if (Spannable.isImpl(text) && !this.mAllowTransformationLengthChange) {
+            let sp:Spannable = <Spannable> text;
+            // Remove any ChangeWatchers that might have come from other TextViews.
+            const watchers:TextView.ChangeWatcher[] = sp.getSpans<TextView.ChangeWatcher>(0, sp.length, TextView.ChangeWatcher);
+            const count:number = watchers.length;
+            for (let i:number = 0; i < count; i++) {
+                sp.removeSpan(watchers[i]);
+            }
+            if (this.mChangeWatcher == null)
+                this.mChangeWatcher = new TextView.ChangeWatcher(this);
+            sp.setSpan(this.mChangeWatcher, 0, textLength, Spanned.SPAN_INCLUSIVE_INCLUSIVE | (TextView.CHANGE_WATCHER_PRIORITY << Spanned.SPAN_PRIORITY_SHIFT));
         //    //if (this.mEditor != null) this.mEditor.addSpanWatchers(sp);
         //    if (this.mTransformation != null) {
         //        sp.setSpan(this.mTransformation, 0, textLength, Spanned.SPAN_INCLUSIVE_INCLUSIVE);
         //    }
-        //    if (this.mMovement != null) {
-        //        this.mMovement.initialize(this, <Spannable> text);
-        //        /*
-        //         * Initializing the movement method will have set the
-        //         * selection, so reset mSelectionMoved to keep that from
-        //         * interfering with the normal on-focus selection-setting.
-        //         */
-        //        //if (this.mEditor != null)
-        //        //    this.mEditor.mSelectionMoved = false;
-        //    }
-        //}
+            if (this.mMovement != null) {
+                this.mMovement.initialize(this, <Spannable> text);
+                /*
+                 * Initializing the movement method will have set the
+                 * selection, so reset mSelectionMoved to keep that from
+                 * interfering with the normal on-focus selection-setting.
+                 */
+                //if (this.mEditor != null)
+                //    this.mEditor.mSelectionMoved = false;
+            }
+        }
+        if (Spanned.isImplements(text)) {
+            // Get notified when the inline drawables (e.g. NetDrawable) load or change.
+            const drawableSpans:DynamicDrawableSpan[] = (<Spanned> text).getSpans<DynamicDrawableSpan>(0, textLength, DynamicDrawableSpan);
+            for (let drawableSpan of drawableSpans) {
+                this.attachDrawableSpan(drawableSpan);
+            }
+        }
         if (this.mLayout != null) {
             this.checkForRelayout();
         }
@@ -3664,6 +3774,8 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
     protected onAttachedToWindow():void  {
         super.onAttachedToWindow();
         this.mTemporaryDetach = false;
+        let tf = this.mTextPaint.getTypeface();
+        if (tf != null) tf.addLoadListener(this.mTypefaceLoadListener);
         //if (this.mEditor != null)
         //    this.mEditor.onAttachedToWindow();
     }
@@ -3675,6 +3787,8 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
             this.mPreDrawRegistered = false;
         }
         this.resetResolvedDrawables();
+        let tf = this.mTextPaint.getTypeface();
+        if (tf != null) tf.removeLoadListener(this.mTypefaceLoadListener);
         //if (this.mEditor != null)
         //    this.mEditor.onDetachedFromWindow();
     }
@@ -3708,9 +3822,40 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
     protected verifyDrawable(who:Drawable):boolean  {
         const verified:boolean = super.verifyDrawable(who);
         if (!verified && this.mDrawables != null) {
-            return who == this.mDrawables.mDrawableLeft || who == this.mDrawables.mDrawableTop || who == this.mDrawables.mDrawableRight || who == this.mDrawables.mDrawableBottom || who == this.mDrawables.mDrawableStart || who == this.mDrawables.mDrawableEnd;
+            if (who == this.mDrawables.mDrawableLeft || who == this.mDrawables.mDrawableTop || who == this.mDrawables.mDrawableRight || who == this.mDrawables.mDrawableBottom || who == this.mDrawables.mDrawableStart || who == this.mDrawables.mDrawableEnd) {
+                return true;
+            }
+        }
+        return verified || this.isDrawableSpanDrawable(who);
+    }
+
+    private attachDrawableSpan(drawableSpan:DynamicDrawableSpan):void  {
+        const d:Drawable = drawableSpan.getDrawable();
+        TextView.ensureDrawableBounds(d);
+        d.setCallback(this);
+    }
+
+    private static ensureDrawableBounds(d:Drawable):void  {
+        if (d.getBounds().isEmpty()) {
+            d.setBounds(0, 0, Math.max(0, d.getIntrinsicWidth()), Math.max(0, d.getIntrinsicHeight()));
         }
-        return verified;
+    }
+
+    /**
+     * Returns true if the drawable is drawn by a {@link DynamicDrawableSpan} of the text.
+     */
+    private isDrawableSpanDrawable(who:Drawable):boolean  {
+        if (who == null || !Spanned.isImplements(this.mText)) {
+            return false;
+        }
+        const sp:Spanned = <Spanned> this.mText;
+        const drawableSpans:DynamicDrawableSpan[] = sp.getSpans<DynamicDrawableSpan>(0, sp.length, DynamicDrawableSpan);
+        for (let drawableSpan of drawableSpans) {
+            if (drawableSpan.getDrawable() == who) {
+                return true;
+            }
+        }
+        return false;
     }
 
     jumpDrawablesToCurrentState():void  {
@@ -3746,12 +3891,27 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
         if(isCompoundDrawable){
             d.setBounds(0, 0, d.getIntrinsicWidth(), d.getIntrinsicHeight());
             this.setCompoundDrawables(drawables.mDrawableLeft, drawables.mDrawableTop, drawables.mDrawableRight, drawables.mDrawableBottom);
+        }else if(this.isDrawableSpanDrawable(d)){
+            // a drawable without bounds (e.g. a NetDrawable not loaded when the span was made)
+            // takes its intrinsic size, then the text is measured again with the new span size.
+            TextView.ensureDrawableBounds(d);
+            if (this.mLayout != null) {
+                this.checkForRelayout();
+            } else {
+                this.requestLayout();
+                this.invalidate();
+            }
         }else{
             super.drawableSizeChange(d);
         }
     }
 
     invalidateDrawable(drawable:Drawable):void  {
+        if (this.isDrawableSpanDrawable(drawable)) {
+            // The drawable's position is only known to the layout.
+            this.invalidate();
+            return;
+        }
         if (this.verifyDrawable(drawable)) {
             const dirty:Rect = drawable.getBounds();
             let scrollX:number = this.mScrollX;
@@ -5596,16 +5756,14 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
      * Convenience for {@link Selection#getSelectionStart}.
      */
     getSelectionStart():number  {
-        return -1;
-        //return Selection.getSelectionStart(this.getText());
+        return Selection.getSelectionStart(this.getText());
     }
 
     /**
      * Convenience for {@link Selection#getSelectionEnd}.
      */
     getSelectionEnd():number  {
-        return -1;
-        //return Selection.getSelectionEnd(this.getText());
+        return Selection.getSelectionEnd(this.getText());
     }
 
     /**
@@ -6042,6 +6200,9 @@ export class TextView extends View implements ViewTreeObserver.OnPreDrawListener
     spanChange(buf:Spanned, what:any, oldStart:number, newStart:number, oldEnd:number, newEnd:number):void  {
         // XXX Make the start and end move together if this ends up
         // spending too much time invalidating.
+        if (what instanceof DynamicDrawableSpan && newStart >= 0) {
+            this.attachDrawableSpan(<DynamicDrawableSpan> what);
+        }
         let selChanged:boolean = false;
         let newSelStart:number = -1, newSelEnd:number = -1;
         //const ims:Editor.InputMethodState = this.mEditor == null ? null : this.mEditor.mInputMethodState;
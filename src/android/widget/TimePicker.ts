@@ -0,0 +1,366 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/view/Gravity.ts"/>
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/FrameLayout.ts"/>
+///<reference path="../../android/widget/LinearLayout.ts"/>
+///<reference path="../../android/widget/NumberPicker.ts"/>
+///<reference path="../../android/widget/TextView.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+///<reference path="../../android/R/string.ts"/>
+
+module android.widget {
+import Context = android.content.Context;
+import Gravity = android.view.Gravity;
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import FrameLayout = android.widget.FrameLayout;
+import LinearLayout = android.widget.LinearLayout;
+import NumberPicker = android.widget.NumberPicker;
+import TextView = android.widget.TextView;
+
+/**
+ * A view for selecting the time of day, in either 24 hour or AM/PM mode. The
+ * hour, each minute digit, and AM/PM (if applicable) can be controlled by
+ * vertical spinners.
+ * <p>
+ * See the <a href="{@docRoot}guide/topics/ui/controls/pickers.html">Pickers</a>
+ * guide.
+ * </p>
+ * <p>
+ * For a dialog using this view, see {@link android.app.TimePickerDialog}.
+ * </p>
+ *
+ * androidui: 'is24HourView' can be set as an attribute, the AM/PM strings come from {@link android.R.string_}.
+ */
+export class TimePicker extends FrameLayout {
+
+    private static DEFAULT_ENABLED_STATE:boolean = true;
+
+    private static HOURS_IN_HALF_DAY:number = 12;
+
+    /**
+     * A no-op callback used in the constructor to avoid null checks later in
+     * the code.
+     */
+    private static NO_OP_CHANGE_LISTENER:TimePicker.OnTimeChangedListener = {
+        onTimeChanged(view:TimePicker, hourOfDay:number, minute:number):void  {
+        }
+    };
+
+    // state
+    private mIs24HourView:boolean = false;
+
+    private mIsAm:boolean;
+
+    // ui components
+    private mHourSpinner:NumberPicker;
+
+    private mMinuteSpinner:NumberPicker;
+
+    private mAmPmSpinner:NumberPicker;
+
+    private mDivider:TextView;
+
+    private mAmPmStrings:string[];
+
+    private mIsEnabled:boolean = TimePicker.DEFAULT_ENABLED_STATE;
+
+    // callbacks
+    private mOnTimeChangedListener:TimePicker.OnTimeChangedListener;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle = android.R.attr.timePickerStyle) {
+        super(context, bindElement, null);
+
+        let timePickerLayout = new LinearLayout(context);
+        timePickerLayout.setOrientation(LinearLayout.HORIZONTAL);
+        this.addView(timePickerLayout, new FrameLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT,
+            ViewGroup.LayoutParams.WRAP_CONTENT, Gravity.CENTER_HORIZONTAL));
+        const margin = Math.floor(8 * this.getResources().getDisplayMetrics().density);
+
+        // hour
+        this.mHourSpinner = new NumberPicker(context);
+        this.mHourSpinner.setOnValueChangedListener({
+            onValueChange: (spinner:NumberPicker, oldVal:number, newVal:number)=>{
+                if (!this.is24HourView()) {
+                    if ((oldVal == TimePicker.HOURS_IN_HALF_DAY - 1 && newVal == TimePicker.HOURS_IN_HALF_DAY)
+                        || (oldVal == TimePicker.HOURS_IN_HALF_DAY && newVal == TimePicker.HOURS_IN_HALF_DAY - 1)) {
+                        this.mIsAm = !this.mIsAm;
+                        this.updateAmPmControl();
+                    }
+                }
+                this.onTimeChanged();
+            }
+        });
+        let hourParams = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        hourParams.setMargins(margin, 0, 0, 0);
+        timePickerLayout.addView(this.mHourSpinner, hourParams);
+
+        // divider
+        this.mDivider = new TextView(context);
+        this.mDivider.setText(':');
+        this.mDivider.setTextSize(18);
+        this.mDivider.setGravity(Gravity.CENTER);
+        let dividerParams = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        dividerParams.gravity = Gravity.CENTER_VERTICAL;
+        dividerParams.setMargins(margin, 0, margin, 0);
+        timePickerLayout.addView(this.mDivider, dividerParams);
+
+        // minute
+        this.mMinuteSpinner = new NumberPicker(context);
+        this.mMinuteSpinner.setMinValue(0);
+        this.mMinuteSpinner.setMaxValue(59);
+        this.mMinuteSpinner.setOnLongPressUpdateInterval(100);
+        this.mMinuteSpinner.setFormatter(NumberPicker.getTwoDigitFormatter());
+        this.mMinuteSpinner.setOnValueChangedListener({
+            onValueChange: (spinner:NumberPicker, oldVal:number, newVal:number)=>{
+                let minValue:number = this.mMinuteSpinner.getMinValue();
+                let maxValue:number = this.mMinuteSpinner.getMaxValue();
+                if (oldVal == maxValue && newVal == minValue) {
+                    let newHour:number = this.mHourSpinner.getValue() + 1;
+                    if (!this.is24HourView() && newHour == TimePicker.HOURS_IN_HALF_DAY) {
+                        this.mIsAm = !this.mIsAm;
+                        this.updateAmPmControl();
+                    }
+                    this.mHourSpinner.setValue(newHour);
+                } else if (oldVal == minValue && newVal == maxValue) {
+                    let newHour:number = this.mHourSpinner.getValue() - 1;
+                    if (!this.is24HourView() && newHour == TimePicker.HOURS_IN_HALF_DAY - 1) {
+                        this.mIsAm = !this.mIsAm;
+                        this.updateAmPmControl();
+                    }
+                    this.mHourSpinner.setValue(newHour);
+                }
+                this.onTimeChanged();
+            }
+        });
+        let minuteParams = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        minuteParams.setMargins(0, 0, margin, 0);
+        timePickerLayout.addView(this.mMinuteSpinner, minuteParams);
+
+        /* Get the localized am/pm strings and use them in the spinner */
+        this.mAmPmStrings = [android.R.string_.am, android.R.string_.pm];
+
+        // am/pm
+        this.mAmPmSpinner = new NumberPicker(context);
+        this.mAmPmSpinner.setMinValue(0);
+        this.mAmPmSpinner.setMaxValue(1);
+        this.mAmPmSpinner.setDisplayedValues(this.mAmPmStrings);
+        this.mAmPmSpinner.setOnValueChangedListener({
+            onValueChange: (picker:NumberPicker, oldVal:number, newVal:number)=>{
+                picker.requestFocus();
+                this.mIsAm = !this.mIsAm;
+                this.updateAmPmControl();
+                this.onTimeChanged();
+            }
+        });
+        let amPmParams = new LinearLayout.LayoutParams(ViewGroup.LayoutParams.WRAP_CONTENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        amPmParams.setMargins(margin, 0, margin, 0);
+        if (TimePicker.isAmPmAtStart()) {
+            timePickerLayout.addView(this.mAmPmSpinner, 0, amPmParams);
+        } else {
+            timePickerLayout.addView(this.mAmPmSpinner, amPmParams);
+        }
+
+        this._attrBinder.addAttr('is24HourView', (value)=>{
+            this.setIs24HourView(this._attrBinder.parseBoolean(value, this.mIs24HourView));
+        }, ()=>{
+            return this.mIs24HourView;
+        });
+        if(defStyle!=null) this.applyDefaultAttributes(defStyle);
+
+        // update controls to initial state
+        this.updateHourControl();
+        this.updateAmPmControl();
+
+        this.setOnTimeChangedListener(TimePicker.NO_OP_CHANGE_LISTENER);
+
+        // set to current time
+        let now = new Date();
+        this.setCurrentHour(now.getHours());
+        this.setCurrentMinute(now.getMinutes());
+    }
+
+    setEnabled(enabled:boolean):void  {
+        if (this.mIsEnabled == enabled) {
+            return;
+        }
+        super.setEnabled(enabled);
+        this.mMinuteSpinner.setEnabled(enabled);
+        this.mDivider.setEnabled(enabled);
+        this.mHourSpinner.setEnabled(enabled);
+        this.mAmPmSpinner.setEnabled(enabled);
+        this.mIsEnabled = enabled;
+    }
+
+    isEnabled():boolean  {
+        return this.mIsEnabled;
+    }
+
+    /**
+     * Set the callback that indicates the time has been adjusted by the user.
+     *
+     * @param onTimeChangedListener the callback, should not be null.
+     */
+    setOnTimeChangedListener(onTimeChangedListener:TimePicker.OnTimeChangedListener):void  {
+        this.mOnTimeChangedListener = onTimeChangedListener;
+    }
+
+    /**
+     * @return The current hour in the range (0-23).
+     */
+    getCurrentHour():number  {
+        let currentHour:number = this.mHourSpinner.getValue();
+        if (this.is24HourView()) {
+            return currentHour;
+        } else if (this.mIsAm) {
+            return currentHour % TimePicker.HOURS_IN_HALF_DAY;
+        } else {
+            return (currentHour % TimePicker.HOURS_IN_HALF_DAY) + TimePicker.HOURS_IN_HALF_DAY;
+        }
+    }
+
+    /**
+     * Set the current hour.
+     */
+    setCurrentHour(currentHour:number, notifyTimeChanged = true):void  {
+        if (currentHour == null || currentHour == this.getCurrentHour()) {
+            return;
+        }
+        if (!this.is24HourView()) {
+            // convert [0,23] ordinal to wall clock display
+            if (currentHour >= TimePicker.HOURS_IN_HALF_DAY) {
+                this.mIsAm = false;
+                if (currentHour > TimePicker.HOURS_IN_HALF_DAY) {
+                    currentHour = currentHour - TimePicker.HOURS_IN_HALF_DAY;
+                }
+            } else {
+                this.mIsAm = true;
+                if (currentHour == 0) {
+                    currentHour = TimePicker.HOURS_IN_HALF_DAY;
+                }
+            }
+            this.updateAmPmControl();
+        }
+        this.mHourSpinner.setValue(currentHour);
+        if (notifyTimeChanged) {
+            this.onTimeChanged();
+        }
+    }
+
+    /**
+     * Set whether in 24 hour or AM/PM mode.
+     *
+     * @param is24HourView True = 24 hour mode. False = AM/PM.
+     */
+    setIs24HourView(is24HourView:boolean):void  {
+        if (this.mIs24HourView == is24HourView) {
+            return;
+        }
+        // cache the current hour since spinner range changes and BEFORE changing mIs24HourView!!
+        let currentHour:number = this.getCurrentHour();
+        // Order is important here.
+        this.mIs24HourView = is24HourView;
+        this.updateHourControl();
+        // set value after spinner range is updated - be aware that because mIs24HourView has
+        // changed then getCurrentHour() is not equal to the currentHour we cached before so
+        // explicitly ask for *not* propagating any onTimeChanged()
+        this.setCurrentHour(currentHour, false);
+        this.updateAmPmControl();
+    }
+
+    /**
+     * @return true if this is in 24 hour view else false.
+     */
+    is24HourView():boolean  {
+        return this.mIs24HourView;
+    }
+
+    /**
+     * @return The current minute.
+     */
+    getCurrentMinute():number  {
+        return this.mMinuteSpinner.getValue();
+    }
+
+    /**
+     * Set the current minute (0-59).
+     */
+    setCurrentMinute(currentMinute:number):void  {
+        if (currentMinute == this.getCurrentMinute()) {
+            return;
+        }
+        this.mMinuteSpinner.setValue(currentMinute);
+        this.onTimeChanged();
+    }
+
+    private updateHourControl():void  {
+        if (this.is24HourView()) {
+            this.mHourSpinner.setMinValue(0);
+            this.mHourSpinner.setMaxValue(23);
+            this.mHourSpinner.setFormatter(NumberPicker.getTwoDigitFormatter());
+        } else {
+            this.mHourSpinner.setMinValue(1);
+            this.mHourSpinner.setMaxValue(12);
+            this.mHourSpinner.setFormatter(null);
+        }
+    }
+
+    private updateAmPmControl():void  {
+        if (this.is24HourView()) {
+            this.mAmPmSpinner.setVisibility(View.GONE);
+        } else {
+            let index:number = this.mIsAm ? 0 : 1;
+            this.mAmPmSpinner.setValue(index);
+            this.mAmPmSpinner.setVisibility(View.VISIBLE);
+        }
+    }
+
+    private onTimeChanged():void  {
+        if (this.mOnTimeChangedListener != null) {
+            this.mOnTimeChangedListener.onTimeChanged(this, this.getCurrentHour(), this.getCurrentMinute());
+        }
+    }
+
+    /**
+     * Whether the current locale shows the AM/PM marker before the hour, e.g. "上午9时".
+     */
+    private static isAmPmAtStart():boolean  {
+        let locales = navigator.language ? [navigator.language] : undefined;
+        let formatted = new Date(2001, 0, 1, 9).toLocaleTimeString(locales, { hour: 'numeric', hour12: true });
+        return formatted.trim().indexOf('9') > 0;
+    }
+}
+
+export module TimePicker{
+/**
+ * The callback interface used to indicate the time has been adjusted.
+ */
+export interface OnTimeChangedListener {
+
+    /**
+     * @param view The view associated with this listener.
+     * @param hourOfDay The current hour.
+     * @param minute The current minute.
+     */
+    onTimeChanged(view:TimePicker, hourOfDay:number, minute:number):void ;
+}
+}
+
+}
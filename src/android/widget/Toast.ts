@@ -84,6 +84,10 @@ module android.widget {
          */
         static LENGTH_LONG:number = 1;
 
+        //androidui add: how long LENGTH_SHORT/LENGTH_LONG show, in milliseconds. The Snackbar uses them too.
+        static SHORT_DURATION_MS:number = 2000;
+        static LONG_DURATION_MS:number = 3500;
+
         mContext:Context;
 
         mTN:Toast.TN;
@@ -128,7 +132,8 @@ module android.widget {
             tn.show();
 
             this.mHandler.removeCallbacks(this.mDelayHide);
-            let showDuration = this.mDuration === Toast.LENGTH_LONG ? 3500 : (this.mDuration === Toast.LENGTH_SHORT ? 2000 : this.mDuration);
+            let showDuration = this.mDuration === Toast.LENGTH_LONG ? Toast.LONG_DURATION_MS
+                : (this.mDuration === Toast.LENGTH_SHORT ? Toast.SHORT_DURATION_MS : this.mDuration);
             this.mHandler.postDelayed(this.mDelayHide, showDuration);
         }
 
@@ -0,0 +1,151 @@
+/*
+ * Copyright (C) 2007 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/graphics/drawable/Drawable.ts"/>
+///<reference path="../../android/graphics/drawable/LayerDrawable.ts"/>
+///<reference path="../../android/widget/CompoundButton.ts"/>
+///<reference path="../../android/R/attr.ts"/>
+///<reference path="../../android/R/id.ts"/>
+
+module android.widget {
+import Drawable = android.graphics.drawable.Drawable;
+import LayerDrawable = android.graphics.drawable.LayerDrawable;
+import CompoundButton = android.widget.CompoundButton;
+
+/**
+ * Displays checked/unchecked states as a button
+ * with a "light" indicator and by default accompanied with the text "ON" or "OFF".
+ *
+ * <p>See the <a href="{@docRoot}guide/topics/ui/controls/togglebutton.html">Toggle Buttons</a>
+ * guide.</p>
+ *
+ * @attr ref android.R.styleable#ToggleButton_disabledAlpha
+ * @attr ref android.R.styleable#ToggleButton_textOff
+ * @attr ref android.R.styleable#ToggleButton_textOn
+ */
+export class ToggleButton extends CompoundButton {
+
+    private static NO_ALPHA:number = 0xFF;
+
+    private mTextOn:string;
+
+    private mTextOff:string;
+
+    private mIndicatorDrawable:Drawable;
+
+    private mDisabledAlpha:number = 0.5;
+
+    constructor(context?:android.content.Context, bindElement?:HTMLElement, defStyle = android.R.attr.toggleButtonStyle) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('textOn', (value)=>{
+            this.setTextOn(this._attrBinder.parseString(value));
+        }, ()=>{
+            return this.mTextOn;
+        });
+        this._attrBinder.addAttr('textOff', (value)=>{
+            this.setTextOff(this._attrBinder.parseString(value));
+        }, ()=>{
+            return this.mTextOff;
+        });
+        this._attrBinder.addAttr('disabledAlpha', (value)=>{
+            this.mDisabledAlpha = this._attrBinder.parseNumber(value, this.mDisabledAlpha);
+            this.refreshDrawableState();
+        }, ()=>{
+            return this.mDisabledAlpha;
+        });
+        if(defStyle!=null) this.applyDefaultAttributes(defStyle);
+        this.syncTextState();
+    }
+
+    setChecked(checked:boolean):void  {
+        super.setChecked(checked);
+        this.syncTextState();
+    }
+
+    private syncTextState():void  {
+        let checked:boolean = this.isChecked();
+        if (checked && this.mTextOn != null) {
+            this.setText(this.mTextOn);
+        } else if (!checked && this.mTextOff != null) {
+            this.setText(this.mTextOff);
+        }
+    }
+
+    /**
+     * Returns the text for when the button is in the checked state.
+     *
+     * @return The text.
+     */
+    getTextOn():string  {
+        return this.mTextOn;
+    }
+
+    /**
+     * Sets the text for when the button is in the checked state.
+     *
+     * @param textOn The text.
+     */
+    setTextOn(textOn:string):void  {
+        this.mTextOn = textOn;
+        this.syncTextState();
+    }
+
+    /**
+     * Returns the text for when the button is not in the checked state.
+     *
+     * @return The text.
+     */
+    getTextOff():string  {
+        return this.mTextOff;
+    }
+
+    /**
+     * Sets the text for when the button is not in the checked state.
+     *
+     * @param textOff The text.
+     */
+    setTextOff(textOff:string):void  {
+        this.mTextOff = textOff;
+        this.syncTextState();
+    }
+
+    protected onFinishInflate():void  {
+        super.onFinishInflate();
+        this.updateReferenceToIndicatorDrawable(this.getBackground());
+    }
+
+    setBackgroundDrawable(d:Drawable):void  {
+        super.setBackgroundDrawable(d);
+        this.updateReferenceToIndicatorDrawable(d);
+    }
+
+    private updateReferenceToIndicatorDrawable(backgroundDrawable:Drawable):void  {
+        if (backgroundDrawable instanceof LayerDrawable) {
+            let layerDrawable:LayerDrawable = <LayerDrawable> backgroundDrawable;
+            this.mIndicatorDrawable = layerDrawable.findDrawableByLayerId(android.R.id.toggle);
+        } else {
+            this.mIndicatorDrawable = null;
+        }
+    }
+
+    protected drawableStateChanged():void  {
+        super.drawableStateChanged();
+        if (this.mIndicatorDrawable != null) {
+            this.mIndicatorDrawable.setAlpha(this.isEnabled() ? ToggleButton.NO_ALPHA : Math.floor(ToggleButton.NO_ALPHA * this.mDisabledAlpha));
+        }
+    }
+}
+}
@@ -0,0 +1,295 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/view/animation/Animation.ts"/>
+///<reference path="../../android/widget/FrameLayout.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+
+module android.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import Animation = android.view.animation.Animation;
+import FrameLayout = android.widget.FrameLayout;
+import Context = android.content.Context;
+
+/**
+ * Base class for a {@link FrameLayout} container that will perform animations
+ * when switching between its views.
+ *
+ * @attr ref android.R.styleable#ViewAnimator_inAnimation
+ * @attr ref android.R.styleable#ViewAnimator_outAnimation
+ * @attr ref android.R.styleable#ViewAnimator_animateFirstView
+ */
+export class ViewAnimator extends FrameLayout {
+
+    mWhichChild:number = 0;
+
+    mFirstTime:boolean = true;
+
+    mAnimateFirstTime:boolean = true;
+
+    mInAnimation:Animation;
+
+    mOutAnimation:Animation;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('inAnimation', (value)=>{
+            this.setInAnimation(this._attrBinder.parseAnimation(value));
+        }, ()=>{
+            return this.mInAnimation;
+        });
+        this._attrBinder.addAttr('outAnimation', (value)=>{
+            this.setOutAnimation(this._attrBinder.parseAnimation(value));
+        }, ()=>{
+            return this.mOutAnimation;
+        });
+        this._attrBinder.addAttr('animateFirstView', (value)=>{
+            this.setAnimateFirstView(this._attrBinder.parseBoolean(value, true));
+        }, ()=>{
+            return this.mAnimateFirstTime;
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+
+        // ViewAnimator's default is to measure all children
+        this.setMeasureAllChildren(true);
+    }
+
+    /**
+     * Sets which child view will be displayed.
+     *
+     * @param whichChild the index of the child view to display
+     */
+    setDisplayedChild(whichChild:number):void {
+        this.mWhichChild = whichChild;
+        if (whichChild >= this.getChildCount()) {
+            this.mWhichChild = 0;
+        } else if (whichChild < 0) {
+            this.mWhichChild = this.getChildCount() - 1;
+        }
+        let hasFocus:boolean = this.getFocusedChild() != null;
+        // This will clear old focus if we had it
+        this.showOnly(this.mWhichChild);
+        if (hasFocus) {
+            // Try to retake focus if we had it
+            this.requestFocus(View.FOCUS_FORWARD);
+        }
+    }
+
+    /**
+     * Returns the index of the currently displayed child view.
+     */
+    getDisplayedChild():number {
+        return this.mWhichChild;
+    }
+
+    /**
+     * Manually shows the next child.
+     */
+    showNext():void {
+        this.setDisplayedChild(this.mWhichChild + 1);
+    }
+
+    /**
+     * Manually shows the previous child.
+     */
+    showPrevious():void {
+        this.setDisplayedChild(this.mWhichChild - 1);
+    }
+
+    /**
+     * Shows only the specified child. The other displays Views exit the screen,
+     * optionally with the with the {@link #getOutAnimation() out animation} and
+     * the specified child enters the screen, optionally with the
+     * {@link #getInAnimation() in animation}.
+     *
+     * @param childIndex The index of the child to be shown.
+     * @param animate Whether or not to use the in and out animations, defaults to
+     *            <code>true</code>.
+     */
+    showOnly(childIndex:number, animate:boolean = (!this.mFirstTime || this.mAnimateFirstTime)):void {
+        const count:number = this.getChildCount();
+        for (let i:number = 0; i < count; i++) {
+            const child:View = this.getChildAt(i);
+            if (i == childIndex) {
+                if (animate && this.mInAnimation != null) {
+                    child.startAnimation(this.mInAnimation);
+                }
+                child.setVisibility(View.VISIBLE);
+                this.mFirstTime = false;
+            } else {
+                if (animate && this.mOutAnimation != null && child.getVisibility() == View.VISIBLE) {
+                    child.startAnimation(this.mOutAnimation);
+                } else if (child.getAnimation() == this.mInAnimation) {
+                    child.clearAnimation();
+                }
+                child.setVisibility(View.GONE);
+            }
+        }
+    }
+
+    addView(...args) {
+        super.addView(...args);
+        const child:View = args[0];
+        let index:number = -1;
+        if ((args.length == 2 && typeof args[1] === 'number')
+            || (args.length == 3 && args[2] instanceof ViewGroup.LayoutParams)) {
+            index = args[1];
+        }
+        if (this.getChildCount() == 1) {
+            child.setVisibility(View.VISIBLE);
+        } else {
+            child.setVisibility(View.GONE);
+        }
+        if (index >= 0 && this.mWhichChild >= index) {
+            // Added a view that was in front of the current one
+            this.setDisplayedChild(this.mWhichChild + 1);
+        }
+    }
+
+    removeAllViews():void {
+        super.removeAllViews();
+        this.mWhichChild = 0;
+        this.mFirstTime = true;
+    }
+
+    removeView(view:View):void {
+        const index:number = this.indexOfChild(view);
+        if (index >= 0) {
+            this.removeViewAt(index);
+        }
+    }
+
+    removeViewAt(index:number):void {
+        super.removeViewAt(index);
+        const childCount:number = this.getChildCount();
+        if (childCount == 0) {
+            this.mWhichChild = 0;
+            this.mFirstTime = true;
+        } else if (this.mWhichChild >= childCount) {
+            // Displayed is above child count, so float down to top of stack
+            this.setDisplayedChild(childCount - 1);
+        } else if (this.mWhichChild == index) {
+            // Displayed was removed, so show the new child living in its place
+            this.setDisplayedChild(this.mWhichChild);
+        }
+    }
+
+    removeViewInLayout(view:View):void {
+        this.removeView(view);
+    }
+
+    removeViews(start:number, count:number):void {
+        super.removeViews(start, count);
+        if (this.getChildCount() == 0) {
+            this.mWhichChild = 0;
+            this.mFirstTime = true;
+        } else if (this.mWhichChild >= start && this.mWhichChild < start + count) {
+            // Try showing new displayed child, wrapping if needed
+            this.setDisplayedChild(this.mWhichChild);
+        }
+    }
+
+    removeViewsInLayout(start:number, count:number):void {
+        this.removeViews(start, count);
+    }
+
+    /**
+     * Returns the View corresponding to the currently displayed child.
+     *
+     * @return The View currently displayed.
+     *
+     * @see #getDisplayedChild()
+     */
+    getCurrentView():View {
+        return this.getChildAt(this.mWhichChild);
+    }
+
+    /**
+     * Returns the current animation used to animate a View that enters the screen.
+     *
+     * @return An Animation or null if none is set.
+     *
+     * @see #setInAnimation(android.view.animation.Animation)
+     */
+    getInAnimation():Animation {
+        return this.mInAnimation;
+    }
+
+    /**
+     * Specifies the animation used to animate a View that enters the screen.
+     *
+     * @param inAnimation The animation started when a View enters the screen.
+     *
+     * @see #getInAnimation()
+     */
+    setInAnimation(inAnimation:Animation):void {
+        this.mInAnimation = inAnimation;
+    }
+
+    /**
+     * Returns the current animation used to animate a View that exits the screen.
+     *
+     * @return An Animation or null if none is set.
+     *
+     * @see #setOutAnimation(android.view.animation.Animation)
+     */
+    getOutAnimation():Animation {
+        return this.mOutAnimation;
+    }
+
+    /**
+     * Specifies the animation used to animate a View that exit the screen.
+     *
+     * @param outAnimation The animation started when a View exit the screen.
+     *
+     * @see #getOutAnimation()
+     */
+    setOutAnimation(outAnimation:Animation):void {
+        this.mOutAnimation = outAnimation;
+    }
+
+    /**
+     * Returns whether the current View should be animated the first time the ViewAnimator
+     * is displayed.
+     *
+     * @return true if the current View will be animated the first time it is displayed,
+     * false otherwise.
+     *
+     * @see #setAnimateFirstView(boolean)
+     */
+    getAnimateFirstView():boolean {
+        return this.mAnimateFirstTime;
+    }
+
+    /**
+     * Indicates whether the current View should be animated the first time
+     * the ViewAnimator is displayed.
+     *
+     * @param animate True to animate the current View the first time it is displayed,
+     *                false otherwise.
+     */
+    setAnimateFirstView(animate:boolean):void {
+        this.mAnimateFirstTime = animate;
+    }
+
+    getBaseline():number {
+        return (this.getCurrentView() != null) ? this.getCurrentView().getBaseline() : super.getBaseline();
+    }
+}
+}
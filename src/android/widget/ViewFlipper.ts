@@ -0,0 +1,159 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/widget/ViewAnimator.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+
+module android.widget {
+import ViewAnimator = android.widget.ViewAnimator;
+import Context = android.content.Context;
+import Runnable = java.lang.Runnable;
+
+/**
+ * Simple {@link ViewAnimator} that will animate between two or more views
+ * that have been added to it.  Only one child is shown at a time.  If
+ * requested, can automatically flip between each child at a regular interval.
+ *
+ * @attr ref android.R.styleable#ViewFlipper_flipInterval
+ * @attr ref android.R.styleable#ViewFlipper_autoStart
+ */
+export class ViewFlipper extends ViewAnimator {
+
+    private static DEFAULT_INTERVAL:number = 3000;
+
+    private mFlipInterval:number = ViewFlipper.DEFAULT_INTERVAL;
+
+    private mAutoStart:boolean = false;
+
+    private mRunning:boolean = false;
+
+    private mStarted:boolean = false;
+
+    private mVisible:boolean = false;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, null);
+        this._attrBinder.addAttr('flipInterval', (value)=>{
+            this.setFlipInterval(this._attrBinder.parseNumber(value, ViewFlipper.DEFAULT_INTERVAL));
+        }, ()=>{
+            return this.mFlipInterval;
+        });
+        this._attrBinder.addAttr('autoStart', (value)=>{
+            this.setAutoStart(this._attrBinder.parseBoolean(value, false));
+        }, ()=>{
+            return this.mAutoStart;
+        });
+        if (defStyle) this.applyDefaultAttributes(defStyle);
+    }
+
+    protected onAttachedToWindow():void {
+        super.onAttachedToWindow();
+        if (this.mAutoStart) {
+            // Automatically start when requested
+            this.startFlipping();
+        }
+        //androidui add: there is no window visibility callback, treat attached as visible
+        this.mVisible = true;
+        this.updateRunning(false);
+    }
+
+    protected onDetachedFromWindow():void {
+        super.onDetachedFromWindow();
+        this.mVisible = false;
+        this.updateRunning();
+    }
+
+    /**
+     * How long to wait before flipping to the next view
+     *
+     * @param milliseconds
+     *            time in milliseconds
+     */
+    setFlipInterval(milliseconds:number):void {
+        this.mFlipInterval = milliseconds;
+    }
+
+    /**
+     * Start a timer to cycle through child views
+     */
+    startFlipping():void {
+        this.mStarted = true;
+        this.updateRunning();
+    }
+
+    /**
+     * No more flips
+     */
+    stopFlipping():void {
+        this.mStarted = false;
+        this.updateRunning();
+    }
+
+    /**
+     * Internal method to start or stop dispatching flip {@link Runnable} based
+     * on {@link #mRunning} and {@link #mVisible} state.
+     *
+     * @param flipNow Determines whether or not to execute the animation now, in
+     *            addition to queuing future flips. If omitted, defaults to
+     *            true.
+     */
+    private updateRunning(flipNow:boolean = true):void {
+        let running:boolean = this.mVisible && this.mStarted;
+        if (running != this.mRunning) {
+            if (running) {
+                this.showOnly(this.mWhichChild, flipNow);
+                this.postDelayed(this.mFlipRunnable, this.mFlipInterval);
+            } else {
+                this.removeCallbacks(this.mFlipRunnable);
+            }
+            this.mRunning = running;
+        }
+    }
+
+    /**
+     * Returns true if the child views are flipping.
+     */
+    isFlipping():boolean {
+        return this.mStarted;
+    }
+
+    /**
+     * Set if this view automatically calls {@link #startFlipping()} when it
+     * becomes attached to a window.
+     */
+    setAutoStart(autoStart:boolean):void {
+        this.mAutoStart = autoStart;
+    }
+
+    /**
+     * Returns true if this view automatically calls {@link #startFlipping()}
+     * when it becomes attached to a window.
+     */
+    isAutoStart():boolean {
+        return this.mAutoStart;
+    }
+
+    private mFlipRunnable:Runnable = {
+        run: ()=>{
+            if (this.mRunning) {
+                this.showNext();
+                this.postDelayed(this.mFlipRunnable, this.mFlipInterval);
+            }
+        }
+    };
+}
+}
@@ -0,0 +1,126 @@
+/*
+ * Copyright (C) 2006 The Android Open Source Project
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/ViewGroup.ts"/>
+///<reference path="../../android/widget/FrameLayout.ts"/>
+///<reference path="../../android/widget/ViewAnimator.ts"/>
+///<reference path="../../android/content/Context.ts"/>
+
+module android.widget {
+import View = android.view.View;
+import ViewGroup = android.view.ViewGroup;
+import FrameLayout = android.widget.FrameLayout;
+import ViewAnimator = android.widget.ViewAnimator;
+import Context = android.content.Context;
+
+/**
+ * {@link ViewAnimator} that switches between two views, and has a factory
+ * from which these views are created.  You can either use the factory to
+ * create the views, or add them yourself.  A ViewSwitcher can only have two
+ * child views, of which only one is shown at a time.
+ */
+export class ViewSwitcher extends ViewAnimator {
+
+    /**
+     * The factory used to create the two children.
+     */
+    mFactory:ViewSwitcher.ViewFactory;
+
+    constructor(context?:Context, bindElement?:HTMLElement, defStyle?:any) {
+        super(context, bindElement, defStyle);
+    }
+
+    /**
+     * {@inheritDoc}
+     *
+     * @throws IllegalStateException if this switcher already contains two children
+     */
+    addView(...args) {
+        if (this.getChildCount() >= 2) {
+            throw Error(`new IllegalStateException("Can't add more than 2 views to a ViewSwitcher")`);
+        }
+        super.addView(...args);
+    }
+
+    /**
+     * Returns the next view to be displayed.
+     *
+     * @return the view that will be displayed after the next views flip.
+     */
+    getNextView():View {
+        let which:number = this.mWhichChild == 0 ? 1 : 0;
+        return this.getChildAt(which);
+    }
+
+    private obtainView():View {
+        let child:View = this.mFactory.makeView();
+        let lp:FrameLayout.LayoutParams = <FrameLayout.LayoutParams> child.getLayoutParams();
+        if (lp == null) {
+            lp = new FrameLayout.LayoutParams(ViewGroup.LayoutParams.MATCH_PARENT, ViewGroup.LayoutParams.WRAP_CONTENT);
+        }
+        this.addView(child, lp);
+        return child;
+    }
+
+    /**
+     * Sets the factory used to create the two views between which the
+     * ViewSwitcher will flip. Instead of using a factory, you can call
+     * {@link #addView(android.view.View, int, android.view.ViewGroup.LayoutParams)}
+     * twice.
+     *
+     * @param factory the view factory used to generate the switcher's content
+     */
+    setFactory(factory:ViewSwitcher.ViewFactory):void {
+        this.mFactory = factory;
+        this.obtainView();
+        this.obtainView();
+    }
+
+    /**
+     * Reset the ViewSwitcher to hide all of the existing views and to make it
+     * think that the first time animation has not yet played.
+     */
+    reset():void {
+        this.mFirstTime = true;
+        let v:View;
+        v = this.getChildAt(0);
+        if (v != null) {
+            v.setVisibility(View.GONE);
+        }
+        v = this.getChildAt(1);
+        if (v != null) {
+            v.setVisibility(View.GONE);
+        }
+    }
+}
+
+export module ViewSwitcher{
+/**
+ * Creates views in a ViewSwitcher.
+ */
+export interface ViewFactory {
+    /**
+     * Creates a new {@link android.view.View} to be added in a
+     * {@link android.widget.ViewSwitcher}.
+     *
+     * @return a {@link android.view.View}
+     */
+    makeView():View;
+}
+}
+
+}
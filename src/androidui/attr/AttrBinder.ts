@@ -8,6 +8,7 @@
 ///<reference path="../../android/content/res/ColorStateList.ts"/>
 ///<reference path="../../android/content/res/Resources.ts"/>
 ///<reference path="../../android/content/Context.ts"/>
+///<reference path="../../android/view/animation/Animation.ts"/>
 
 module androidui.attr {
     import View = android.view.View;
@@ -20,6 +21,7 @@ module androidui.attr {
     import Resources = android.content.res.Resources;
     import Context = android.content.Context;
     import TypedValue = android.util.TypedValue;
+    import Animation = android.view.animation.Animation;
 
     export class AttrBinder {
         private host:View|ViewGroup.LayoutParams;
@@ -192,6 +194,19 @@ module androidui.attr {
             return null;
         }
 
+        parseAnimation(s:string):Animation{
+            if(!s) return null;
+            if((<any>s) instanceof Animation) return <Animation><any>s;
+            s = (s + '').trim();
+            if(s.startsWith('@')){
+                let refObj = this.getRefObject(s);
+                if(refObj) return refObj;
+
+                return Resources.getSystem().getAnimation(s);
+            }
+            return null;
+        }
+
         parseNumber(value, defaultValue = 0, baseValue = 0):number{
             if(typeof value === 'string' && value.startsWith('@')){
                 value = Resources.getSystem().getString(value);
@@ -117,6 +117,24 @@ module androidui.native {
                 callQueues.pushCall('drawText', [canvasId, encodeURIComponent(text), x, y, fillStyle]);
             }
 
+            /**
+             * @param verbs path verbs, see android.graphics.Path.VERB_*
+             * @param points x,y pairs consumed by the verbs in order
+             * @param fillRule nonzero/evenodd
+             * @param fillStyle 0:fill / 1:stroke / 2:fill&stroke
+             */
+            drawPath(canvasId:number, verbs:number[], points:number[], fillRule:string, fillStyle:number):void{
+                callQueues.pushCall('drawPath', [canvasId, verbs, points, fillRule, fillStyle]);
+            }
+            /**
+             * @param verbs path verbs, see android.graphics.Path.VERB_*
+             * @param points x,y pairs consumed by the verbs in order
+             * @param fillRule nonzero/evenodd
+             */
+            clipPath(canvasId:number, verbs:number[], points:number[], fillRule:string):void{
+                callQueues.pushCall('clipPath', [canvasId, verbs, points, fillRule]);
+            }
+
             setFillColor(canvasId:number, color:number):void{
                 callQueues.pushCall('setFillColor', [canvasId, color]);
             }
@@ -159,8 +177,11 @@ module androidui.native {
             setFontSize(canvasId:number, size:number):void{
                 callQueues.pushCall('setFontSize', [canvasId, size]);
             }
-            setFont(canvasId:number, fontName:string):void {
-                callQueues.pushCall('setFont', [canvasId, fontName]);
+            /**
+             * @param fontName the font family, null to keep current font family
+             */
+            setFont(canvasId:number, fontName:string, bold:boolean, italic:boolean):void {
+                callQueues.pushCall('setFont', [canvasId, fontName, bold, italic]);
             }
 
         }
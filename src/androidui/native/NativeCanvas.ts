@@ -12,6 +12,7 @@ module androidui.native {
     import Rect = android.graphics.Rect;
 
     let sNextID = 0;
+    let sShaderWarned = false;
 
     export class NativeCanvas extends Canvas {
         private canvasId:number;
@@ -102,6 +103,14 @@ module androidui.native {
             //TODO
         }
 
+        protected drawPathImpl(path:android.graphics.Path, style:android.graphics.Paint.Style):void {
+            NativeApi.canvas.drawPath(this.canvasId, path.mVerbs.concat(), path.mPoints.concat(), Canvas.getFillRule(path), style);
+        }
+
+        protected clipPathImpl(path:android.graphics.Path):void {
+            NativeApi.canvas.clipPath(this.canvasId, path.mVerbs.concat(), path.mPoints.concat(), Canvas.getFillRule(path));
+        }
+
         protected drawTextImpl(text:string, x:number, y:number, style:android.graphics.Paint.Style):void {
             NativeApi.canvas.drawText(this.canvasId, text, x, y, style);
         }
@@ -110,6 +119,14 @@ module androidui.native {
             NativeApi.canvas.setFillColor(this.canvasId, color);//TODO pass style
         }
 
+        protected setShaderImpl(shader:android.graphics.Shader, style?:android.graphics.Paint.Style):void {
+            //native canvas has no gradient/pattern style, keep drawing with the paint color (already set before shader)
+            if(!sShaderWarned){
+                sShaderWarned = true;
+                console.warn('NativeCanvas not support Shader, draw with the paint color instead');
+            }
+        }
+
         protected multiplyAlphaImpl(alpha:number):void {
             NativeApi.canvas.multiplyAlpha(this.canvasId, alpha);
         }
@@ -142,8 +159,8 @@ module androidui.native {
             NativeApi.canvas.setFontSize(this.canvasId, size);
         }
 
-        protected setFontImpl(fontName:string):void {
-            NativeApi.canvas.setFont(this.canvasId, fontName);
+        protected setFontImpl(fontName:string, bold:boolean, italic:boolean):void {
+            NativeApi.canvas.setFont(this.canvasId, fontName, bold, italic);
         }
 
         private static applyTextMeasure(cacheMeasureTextSize:number, defaultWidth:number, widths:number[]){
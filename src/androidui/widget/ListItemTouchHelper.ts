@@ -0,0 +1,660 @@
+///<reference path="../../android/view/View.ts"/>
+///<reference path="../../android/view/MotionEvent.ts"/>
+///<reference path="../../android/view/VelocityTracker.ts"/>
+///<reference path="../../android/view/ViewConfiguration.ts"/>
+///<reference path="../../android/graphics/Canvas.ts"/>
+///<reference path="../../android/content/res/Resources.ts"/>
+///<reference path="../../android/animation/Animator.ts"/>
+///<reference path="../../android/animation/ValueAnimator.ts"/>
+///<reference path="../../android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="../../android/widget/AbsListView.ts"/>
+///<reference path="../../android/widget/ListView.ts"/>
+///<reference path="../../android/widget/GridView.ts"/>
+///<reference path="../../android/widget/ArrayAdapter.ts"/>
+///<reference path="../../java/lang/Runnable.ts"/>
+
+module androidui.widget {
+    import View = android.view.View;
+    import MotionEvent = android.view.MotionEvent;
+    import VelocityTracker = android.view.VelocityTracker;
+    import ViewConfiguration = android.view.ViewConfiguration;
+    import Canvas = android.graphics.Canvas;
+    import Resources = android.content.res.Resources;
+    import Animator = android.animation.Animator;
+    import ValueAnimator = android.animation.ValueAnimator;
+    import AnimatorListenerAdapter = android.animation.AnimatorListenerAdapter;
+    import AbsListView = android.widget.AbsListView;
+    import ListView = android.widget.ListView;
+    import GridView = android.widget.GridView;
+    import ArrayAdapter = android.widget.ArrayAdapter;
+    import Runnable = java.lang.Runnable;
+
+    /**
+     * Adds swipe to dismiss and drag & drop reordering to the rows of a ListView or GridView.
+     * <p>
+     * Rows are swiped horizontally to dismiss them and long pressed to pick them up and move
+     * them around (in both directions across the cells of a GridView); the list scrolls by
+     * itself while a row is dragged near its top or bottom edge. The
+     * {@link ListItemTouchHelper.Callback} decides which rows may move and applies the changes
+     * to the adapter, {@link ListItemTouchHelper.ArrayAdapterCallback} does so for an
+     * {@link ArrayAdapter}.
+     * <p>
+     * All positions passed to the callback are adapter positions: header and footer views
+     * added to a ListView are not counted and can neither be swiped nor dragged.
+     */
+    export class ListItemTouchHelper {
+        static LEFT = 1;
+        static RIGHT = 1 << 1;
+
+        private static ANIMATION_DURATION = 200;
+        private static AUTO_SCROLL_EDGE_DP = 48;
+        private static AUTO_SCROLL_MAX_SPEED_DP = 16;
+        private static SWIPE_ESCAPE_VELOCITY_DP = 120;
+
+        private mCallback:ListItemTouchHelper.Callback;
+        private mListView:AbsListView;
+        private mListOriginFunctions:any;
+
+        private mTouchSlop = 0;
+        private mDensity = 1;
+        private mVelocityTracker:VelocityTracker;
+
+        private mDownX = 0;
+        private mDownY = 0;
+        private mLastX = 0;
+        private mLastY = 0;
+        private mDownPosition = AbsListView.INVALID_POSITION;
+        private mDownView:View;
+
+        private mSwiping = false;
+        private mDragging = false;
+        private mDragPosition = AbsListView.INVALID_POSITION;
+        private mDragView:View;
+        private mDragTouchOffsetX = 0;
+        private mDragTouchOffsetY = 0;
+        private mDragLayoutPending = false;
+
+        private mDismissAnimationCount = 0;
+        private mLastSwipedPosition = AbsListView.INVALID_POSITION;
+        private mLastSwipedDirection = 0;
+
+        private mCheckForLongPress:Runnable = {
+            run: ()=> {
+                this.startDrag();
+            }
+        };
+
+        private mAutoScroller:Runnable = {
+            run: ()=> {
+                if (this.mDragging && this.scrollIfNecessary()) {
+                    this.mListView.postOnAnimation(this.mAutoScroller);
+                }
+            }
+        };
+
+        constructor(callback:ListItemTouchHelper.Callback) {
+            this.mCallback = callback;
+            this.mTouchSlop = ViewConfiguration.get().getScaledTouchSlop();
+            this.mDensity = Resources.getDisplayMetrics().density;
+        }
+
+        /**
+         * Attaches the helper to the given list. A helper serves one list at a time, attaching
+         * it to another one (or to null) detaches it from the previous list.
+         */
+        attachToListView(listView:AbsListView):void {
+            if (this.mListView == listView) return;
+            if (this.mListView != null) {
+                this.destroyCallbacks();
+            }
+            this.mListView = listView;
+            if (listView != null) {
+                this.setupCallbacks();
+            }
+        }
+
+        private setupCallbacks():void {
+            const list = this.mListView;
+            const origin = this.mListOriginFunctions = {
+                dispatchTouchEvent: list.dispatchTouchEvent,
+                dispatchDraw: list['dispatchDraw'],
+                layoutChildren: list['layoutChildren']
+            };
+            list.dispatchTouchEvent = (ev:MotionEvent):boolean => {
+                if (this.onTouchEvent(ev)) return true;
+                return origin.dispatchTouchEvent.call(list, ev);
+            };
+            list['dispatchDraw'] = (canvas:Canvas):void => {
+                origin.dispatchDraw.call(list, canvas);
+                this.onDrawOver(canvas);
+            };
+            list['layoutChildren'] = ():void => {
+                origin.layoutChildren.call(list);
+                this.onLayoutChildren();
+            };
+        }
+
+        private destroyCallbacks():void {
+            this.cancelGesture();
+            const list = this.mListView;
+            const origin = this.mListOriginFunctions;
+            list.dispatchTouchEvent = origin.dispatchTouchEvent;
+            list['dispatchDraw'] = origin.dispatchDraw;
+            list['layoutChildren'] = origin.layoutChildren;
+            this.mListOriginFunctions = null;
+            this.mLastSwipedPosition = AbsListView.INVALID_POSITION;
+        }
+
+        /**
+         * Puts the most recently dismissed row back by calling
+         * {@link ListItemTouchHelper.Callback#onUndoSwipe}.
+         *
+         * @return true if the callback restored the row
+         */
+        undoLastSwipe():boolean {
+            const position = this.mLastSwipedPosition;
+            if (position == AbsListView.INVALID_POSITION || this.mListView == null) return false;
+            this.mLastSwipedPosition = AbsListView.INVALID_POSITION;
+            return this.mCallback.onUndoSwipe(this.mListView, position, this.mLastSwipedDirection);
+        }
+
+        /**
+         * @return true if there is a dismissed row {@link #undoLastSwipe()} can restore
+         */
+        canUndoLastSwipe():boolean {
+            return this.mLastSwipedPosition != AbsListView.INVALID_POSITION;
+        }
+
+        private onTouchEvent(ev:MotionEvent):boolean {
+            const list = this.mListView;
+            const action = ev.getActionMasked();
+            if (action == MotionEvent.ACTION_DOWN) {
+                this.cancelGesture();
+                if (this.mDismissAnimationCount > 0 || !list.isEnabled()) return false;
+                this.mDownX = this.mLastX = ev.getX();
+                this.mDownY = this.mLastY = ev.getY();
+                const position = list.pointToPosition(this.mDownX, this.mDownY);
+                if (!this.isItemPosition(position)) return false;
+                this.mDownPosition = position;
+                this.mDownView = list.getChildAt(position - list.getFirstVisiblePosition());
+                this.mVelocityTracker = VelocityTracker.obtain();
+                this.mVelocityTracker.addMovement(ev);
+                if (this.mCallback.isLongPressDragEnabled() && this.mCallback.canDrag(list, this.toAdapterPosition(position))) {
+                    list.postDelayed(this.mCheckForLongPress, ViewConfiguration.getLongPressTimeout());
+                }
+                return false;
+            }
+            if (this.mDownPosition == AbsListView.INVALID_POSITION) return false;
+            this.mVelocityTracker.addMovement(ev);
+            this.mLastX = ev.getX();
+            this.mLastY = ev.getY();
+
+            switch (action) {
+                case MotionEvent.ACTION_MOVE:
+                    if (this.mDragging) {
+                        this.updateDrag();
+                        this.scrollIfNecessary();
+                        list.removeCallbacks(this.mAutoScroller);
+                        list.postOnAnimation(this.mAutoScroller);
+                        return true;
+                    }
+                    const deltaX = ev.getX() - this.mDownX;
+                    const deltaY = ev.getY() - this.mDownY;
+                    if (!this.mSwiping) {
+                        if (Math.abs(deltaX) <= this.mTouchSlop && Math.abs(deltaY) <= this.mTouchSlop) return false;
+                        list.removeCallbacks(this.mCheckForLongPress);
+                        const direction = deltaX > 0 ? ListItemTouchHelper.RIGHT : ListItemTouchHelper.LEFT;
+                        if (Math.abs(deltaX) > Math.abs(deltaY) && this.canSwipe(direction)) {
+                            this.startSwipe(ev);
+                        } else {
+                            // the list scrolls, let it have the rest of the gesture
+                            this.cancelGesture();
+                            return false;
+                        }
+                    }
+                    const view = this.mDownView;
+                    view.setTranslationX(deltaX);
+                    view.setAlpha(Math.max(0, Math.min(1, 1 - Math.abs(deltaX) / view.getWidth())));
+                    return true;
+
+                case MotionEvent.ACTION_UP:
+                    if (this.mDragging) {
+                        this.stopDrag();
+                        this.cancelGesture();
+                        return true;
+                    }
+                    if (this.mSwiping) {
+                        this.releaseSwipe(ev.getX() - this.mDownX);
+                        this.cancelGesture();
+                        return true;
+                    }
+                    this.cancelGesture();
+                    return false;
+
+                case MotionEvent.ACTION_CANCEL:
+                    const handled = this.mSwiping || this.mDragging;
+                    if (this.mDragging) {
+                        this.stopDrag();
+                    } else if (this.mSwiping) {
+                        this.animateSwipeBack(this.mDownView);
+                    }
+                    this.cancelGesture();
+                    return handled;
+            }
+            return this.mSwiping || this.mDragging;
+        }
+
+        private canSwipe(direction:number):boolean {
+            const callback = this.mCallback;
+            if (!callback.isItemViewSwipeEnabled() || this.mDownView == null) return false;
+            return (callback.getSwipeDirections(this.mListView, this.toAdapterPosition(this.mDownPosition)) & direction) != 0;
+        }
+
+        private startSwipe(ev:MotionEvent):void {
+            this.mSwiping = true;
+            this.takeOverGesture(ev);
+            this.mDownView.setHasTransientState(true);
+        }
+
+        private releaseSwipe(deltaX:number):void {
+            const view = this.mDownView;
+            const adapterPosition = this.toAdapterPosition(this.mDownPosition);
+            const direction = deltaX > 0 ? ListItemTouchHelper.RIGHT : ListItemTouchHelper.LEFT;
+
+            this.mVelocityTracker.computeCurrentVelocity(1000);
+            const velocityX = this.mVelocityTracker.getXVelocity();
+            const velocityY = this.mVelocityTracker.getYVelocity();
+            const escapeVelocity = this.mCallback.getSwipeEscapeVelocity(ListItemTouchHelper.SWIPE_ESCAPE_VELOCITY_DP * this.mDensity);
+
+            let dismiss = Math.abs(deltaX) > view.getWidth() * this.mCallback.getSwipeThreshold(adapterPosition);
+            if (!dismiss && Math.abs(velocityX) >= escapeVelocity && Math.abs(velocityX) > Math.abs(velocityY)) {
+                // a fling dismisses the row only in the direction it was swiped
+                dismiss = (velocityX > 0) == (deltaX > 0);
+            }
+            if (dismiss && this.canSwipe(direction)) {
+                this.animateDismiss(view, adapterPosition, direction);
+            } else {
+                this.animateSwipeBack(view);
+            }
+        }
+
+        private animateSwipeBack(view:View):void {
+            view.animate().translationX(0).alpha(1).setDuration(ListItemTouchHelper.ANIMATION_DURATION).withEndAction({
+                run: ()=> {
+                    view.setHasTransientState(false);
+                }
+            });
+        }
+
+        private animateDismiss(view:View, adapterPosition:number, direction:number):void {
+            this.mDismissAnimationCount++;
+            const translationX = direction == ListItemTouchHelper.RIGHT ? view.getWidth() : -view.getWidth();
+            view.animate().translationX(translationX).alpha(0).setDuration(ListItemTouchHelper.ANIMATION_DURATION).withEndAction({
+                run: ()=> {
+                    this.collapseDismissedView(view, adapterPosition, direction);
+                }
+            });
+        }
+
+        /**
+         * Shrinks the dismissed row so the rows below slide up into its place, then lets the
+         * callback remove it.
+         */
+        private collapseDismissedView(view:View, adapterPosition:number, direction:number):void {
+            const lp = view.getLayoutParams();
+            const originalHeight = lp.height;
+            const animator = ValueAnimator.ofInt(view.getHeight(), 1).setDuration(ListItemTouchHelper.ANIMATION_DURATION);
+            animator.addUpdateListener({
+                onAnimationUpdate: (animation:ValueAnimator)=> {
+                    lp.height = animation.getAnimatedValue();
+                    view.setLayoutParams(lp);
+                }
+            });
+            const _this = this;
+            class _Inner extends AnimatorListenerAdapter {
+                onAnimationEnd(animator:Animator):void {
+                    _this.mDismissAnimationCount--;
+                    _this.mLastSwipedPosition = adapterPosition;
+                    _this.mLastSwipedDirection = direction;
+                    _this.mCallback.onSwiped(_this.mListView, adapterPosition, direction);
+
+                    // the view goes back to the recycler, reset it for its next row
+                    view.setAlpha(1);
+                    view.setTranslationX(0);
+                    lp.height = originalHeight;
+                    view.setLayoutParams(lp);
+                    view.setHasTransientState(false);
+                }
+            }
+            animator.addListener(new _Inner());
+            animator.start();
+        }
+
+        private startDrag():void {
+            const list = this.mListView;
+            const view = this.mDownView;
+            if (this.mSwiping || this.mDragging || view == null || view.getParent() != list) return;
+            this.mDragging = true;
+            this.mDragPosition = this.mDownPosition;
+            this.mDragView = view;
+            this.mDragTouchOffsetX = this.mDownX - view.getLeft();
+            this.mDragTouchOffsetY = this.mDownY - view.getTop();
+
+            const cancelEvent = MotionEvent.obtainWithAction(0, 0, MotionEvent.ACTION_CANCEL, this.mLastX, this.mLastY);
+            this.takeOverGesture(cancelEvent);
+            cancelEvent.recycle();
+
+            view.setHasTransientState(true);
+            this.mCallback.onDragStarted(list, view, this.toAdapterPosition(this.mDragPosition));
+            this.updateDrag();
+        }
+
+        /**
+         * Moves the dragged row under the finger and swaps it with a neighbour once it covers
+         * half of that neighbour. In a GridView the dragged cell follows the finger in both
+         * directions and moves to the cell its center is over.
+         */
+        private updateDrag():void {
+            if (this.mDragLayoutPending) return;
+            const list = this.mListView;
+            const index = this.mDragPosition - list.getFirstVisiblePosition();
+            const view = list.getChildAt(index);
+            if (view == null) return;
+            if (view != this.mDragView) {
+                this.resetDragView();
+                this.mDragView = view;
+                view.setHasTransientState(true);
+            }
+
+            const maxTop = list.getHeight() - view.getHeight();
+            const top = Math.max(0, Math.min(maxTop, this.mLastY - this.mDragTouchOffsetY));
+            view.setTranslationY(top - view.getTop());
+            if (list instanceof GridView) {
+                const maxLeft = list.getWidth() - view.getWidth();
+                const left = Math.max(0, Math.min(maxLeft, this.mLastX - this.mDragTouchOffsetX));
+                view.setTranslationX(left - view.getLeft());
+                list.invalidate();
+
+                const position = list.pointToPosition(left + view.getWidth() / 2, top + view.getHeight() / 2);
+                if (position != AbsListView.INVALID_POSITION && position != this.mDragPosition) {
+                    this.moveDragTo(position);
+                }
+                return;
+            }
+            list.invalidate();
+
+            const center = top + view.getHeight() / 2;
+            const above = list.getChildAt(index - 1);
+            const below = list.getChildAt(index + 1);
+            if (below != null && center > below.getTop() + below.getHeight() / 2) {
+                this.moveDragTo(this.mDragPosition + 1);
+            } else if (above != null && center < above.getTop() + above.getHeight() / 2) {
+                this.moveDragTo(this.mDragPosition - 1);
+            }
+        }
+
+        private moveDragTo(position:number):void {
+            if (!this.isItemPosition(position)) return;
+            const list = this.mListView;
+            if (this.mCallback.onMove(list, this.toAdapterPosition(this.mDragPosition), this.toAdapterPosition(position))) {
+                this.mDragPosition = position;
+                // the adapter changed, wait for the list to lay out the rows again
+                this.mDragLayoutPending = true;
+                list.requestLayout();
+            }
+        }
+
+        private stopDrag():void {
+            const list = this.mListView;
+            list.removeCallbacks(this.mAutoScroller);
+            const view = this.mDragView;
+            const adapterPosition = this.toAdapterPosition(this.mDragPosition);
+            this.mDragging = false;
+            this.mDragView = null;
+            this.mDragPosition = AbsListView.INVALID_POSITION;
+            this.mDragLayoutPending = false;
+            if (view != null) {
+                view.animate().translationX(0).translationY(0).setDuration(ListItemTouchHelper.ANIMATION_DURATION).withEndAction({
+                    run: ()=> {
+                        view.setHasTransientState(false);
+                    }
+                });
+                this.mCallback.onDragFinished(list, view, adapterPosition);
+            }
+            list.invalidate();
+        }
+
+        private resetDragView():void {
+            const view = this.mDragView;
+            if (view == null) return;
+            view.setTranslationX(0);
+            view.setTranslationY(0);
+            view.setHasTransientState(false);
+            this.mDragView = null;
+        }
+
+        /**
+         * Scrolls the list while the dragged row is held near its top or bottom edge.
+         *
+         * @return true if the list scrolled
+         */
+        private scrollIfNecessary():boolean {
+            const list = this.mListView;
+            const edge = ListItemTouchHelper.AUTO_SCROLL_EDGE_DP * this.mDensity;
+            const maxSpeed = ListItemTouchHelper.AUTO_SCROLL_MAX_SPEED_DP * this.mDensity;
+            const y = this.mLastY;
+            let scrollBy = 0;
+            if (y < edge && list.canScrollList(-1)) {
+                scrollBy = -maxSpeed * Math.min(1, (edge - y) / edge);
+            } else if (y > list.getHeight() - edge && list.canScrollList(1)) {
+                scrollBy = maxSpeed * Math.min(1, (y - list.getHeight() + edge) / edge);
+            }
+            scrollBy = scrollBy > 0 ? Math.ceil(scrollBy) : Math.floor(scrollBy);
+            if (scrollBy == 0) return false;
+            list.scrollListBy(scrollBy);
+            this.updateDrag();
+            return true;
+        }
+
+        private onLayoutChildren():void {
+            if (!this.mDragging) return;
+            this.mDragLayoutPending = false;
+            this.updateDrag();
+        }
+
+        private onDrawOver(canvas:Canvas):void {
+            const view = this.mDragView;
+            if (!this.mDragging || view == null || view.getParent() != this.mListView) return;
+            // draw the dragged row again so it stays above the rows it passes over
+            const saveCount = canvas.save();
+            canvas.translate(view.getLeft() + view.getTranslationX(), view.getTop() + view.getTranslationY());
+            view.draw(canvas);
+            canvas.restoreToCount(saveCount);
+        }
+
+        /**
+         * Cancels the list's own handling of the current gesture, the helper consumes the
+         * following events.
+         */
+        private takeOverGesture(ev:MotionEvent):void {
+            const list = this.mListView;
+            list.removeCallbacks(this.mCheckForLongPress);
+            const cancelEvent = MotionEvent.obtain(ev);
+            cancelEvent.setAction(MotionEvent.ACTION_CANCEL);
+            this.mListOriginFunctions.dispatchTouchEvent.call(list, cancelEvent);
+            cancelEvent.recycle();
+            const parent = list.getParent();
+            if (parent != null) {
+                parent.requestDisallowInterceptTouchEvent(true);
+            }
+        }
+
+        private cancelGesture():void {
+            const list = this.mListView;
+            if (list != null) {
+                list.removeCallbacks(this.mCheckForLongPress);
+                if (this.mDragging) this.stopDrag();
+            }
+            if (this.mVelocityTracker != null) {
+                this.mVelocityTracker.recycle();
+                this.mVelocityTracker = null;
+            }
+            this.mSwiping = false;
+            this.mDownPosition = AbsListView.INVALID_POSITION;
+            this.mDownView = null;
+        }
+
+        private getHeaderViewsCount():number {
+            return this.mListView instanceof ListView ? (<ListView>this.mListView).getHeaderViewsCount() : 0;
+        }
+
+        private isItemPosition(position:number):boolean {
+            if (position == AbsListView.INVALID_POSITION) return false;
+            const list = this.mListView;
+            const footerCount = list instanceof ListView ? (<ListView>list).getFooterViewsCount() : 0;
+            const adapterPosition = this.toAdapterPosition(position);
+            return adapterPosition >= 0 && adapterPosition < list.getCount() - this.getHeaderViewsCount() - footerCount;
+        }
+
+        private toAdapterPosition(position:number):number {
+            return position - this.getHeaderViewsCount();
+        }
+    }
+
+    export module ListItemTouchHelper {
+
+        /**
+         * Decides which rows can be swiped or dragged and applies the changes to the adapter.
+         */
+        export abstract class Callback {
+
+            /**
+             * @return true to pick up a row for dragging when it is long pressed
+             */
+            isLongPressDragEnabled():boolean {
+                return true;
+            }
+
+            /**
+             * @return true to allow swiping rows to dismiss them
+             */
+            isItemViewSwipeEnabled():boolean {
+                return true;
+            }
+
+            /**
+             * @param position the adapter position of the row
+             * @return whether the row can be picked up and dragged
+             */
+            canDrag(listView:AbsListView, position:number):boolean {
+                return true;
+            }
+
+            /**
+             * @param position the adapter position of the row
+             * @return the directions the row can be swiped in, a combination of
+             *         {@link ListItemTouchHelper#LEFT} and {@link ListItemTouchHelper#RIGHT}
+             */
+            getSwipeDirections(listView:AbsListView, position:number):number {
+                return ListItemTouchHelper.LEFT | ListItemTouchHelper.RIGHT;
+            }
+
+            /**
+             * Returns the fraction of the row's width it has to be swiped to be dismissed.
+             *
+             * @param position the adapter position of the row
+             */
+            getSwipeThreshold(position:number):number {
+                return .5;
+            }
+
+            /**
+             * Returns the horizontal fling velocity, in pixels per second, above which a row is
+             * dismissed even if it has not been swiped past {@link #getSwipeThreshold(int)}.
+             *
+             * @param defaultValue the velocity the helper uses by default
+             */
+            getSwipeEscapeVelocity(defaultValue:number):number {
+                return defaultValue;
+            }
+
+            /**
+             * Called when a dragged row passes over its neighbour (or, in a GridView, over any
+             * other cell). Move the item in the adapter and notify the change.
+             *
+             * @param fromPosition the adapter position of the dragged row
+             * @param toPosition the adapter position it moves to
+             * @return true if the item was moved
+             */
+            abstract onMove(listView:AbsListView, fromPosition:number, toPosition:number):boolean ;
+
+            /**
+             * Called when a row was swiped away. Remove the item from the adapter and notify
+             * the change.
+             *
+             * @param position the adapter position of the row
+             * @param direction {@link ListItemTouchHelper#LEFT} or {@link ListItemTouchHelper#RIGHT}
+             */
+            abstract onSwiped(listView:AbsListView, position:number, direction:number):void ;
+
+            /**
+             * Called by {@link ListItemTouchHelper#undoLastSwipe()} to restore the item removed
+             * by the last {@link #onSwiped}.
+             *
+             * @return true if the item was restored
+             */
+            onUndoSwipe(listView:AbsListView, position:number, direction:number):boolean {
+                return false;
+            }
+
+            /**
+             * Called when a row is picked up, e.g. to highlight it.
+             */
+            onDragStarted(listView:AbsListView, view:View, position:number):void {
+            }
+
+            /**
+             * Called when a dragged row is dropped at its final adapter position.
+             */
+            onDragFinished(listView:AbsListView, view:View, position:number):void {
+            }
+        }
+
+        /**
+         * A callback which moves and removes the items of an {@link ArrayAdapter}.
+         */
+        export class ArrayAdapterCallback<T> extends Callback {
+            private mAdapter:ArrayAdapter<T>;
+            private mLastSwipedItem:T;
+            private mLastSwipedPosition = -1;
+
+            constructor(adapter:ArrayAdapter<T>) {
+                super();
+                this.mAdapter = adapter;
+            }
+
+            onMove(listView:AbsListView, fromPosition:number, toPosition:number):boolean {
+                const adapter = this.mAdapter;
+                adapter.setNotifyOnChange(false);
+                // by position, the array may hold equal items
+                const item = adapter.removeAt(fromPosition);
+                adapter.insert(item, toPosition);
+                adapter.notifyDataSetChanged();
+                return true;
+            }
+
+            onSwiped(listView:AbsListView, position:number, direction:number):void {
+                this.mLastSwipedItem = this.mAdapter.removeAt(position);
+                this.mLastSwipedPosition = position;
+            }
+
+            onUndoSwipe(listView:AbsListView, position:number, direction:number):boolean {
+                if (this.mLastSwipedPosition < 0) return false;
+                this.mAdapter.insert(this.mLastSwipedItem, this.mLastSwipedPosition);
+                this.mLastSwipedItem = null;
+                this.mLastSwipedPosition = -1;
+                return true;
+            }
+        }
+    }
+}
@@ -71,6 +71,7 @@ module java.util{
                 index = <number>o;
             }else{
                 index = this.array.indexOf(<T>o);
+                if (index < 0) return null;
             }
             let old = this.array[index];
             this.array.splice(index, 1);
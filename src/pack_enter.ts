@@ -2,11 +2,39 @@
 //use the deepest sub class as enter
 ///<reference path="android/app/Application.ts"/>
 ///<reference path="android/view/GestureDetector.ts"/>
+///<reference path="android/view/ViewStub.ts"/>
+
+///<reference path="android/graphics/LinearGradient.ts"/>
+///<reference path="android/graphics/RadialGradient.ts"/>
+///<reference path="android/graphics/SweepGradient.ts"/>
+///<reference path="android/graphics/BitmapShader.ts"/>
+
+///<reference path="android/text/SpannableString.ts"/>
+///<reference path="android/text/SpannableStringBuilder.ts"/>
+///<reference path="android/text/style/ForegroundColorSpan.ts"/>
+///<reference path="android/text/style/BackgroundColorSpan.ts"/>
+///<reference path="android/text/style/AbsoluteSizeSpan.ts"/>
+///<reference path="android/text/style/RelativeSizeSpan.ts"/>
+///<reference path="android/text/style/StyleSpan.ts"/>
+///<reference path="android/text/style/UnderlineSpan.ts"/>
+///<reference path="android/text/style/StrikethroughSpan.ts"/>
+///<reference path="android/text/style/ClickableSpan.ts"/>
+///<reference path="android/text/style/URLSpan.ts"/>
+///<reference path="android/text/style/TypefaceSpan.ts"/>
+///<reference path="android/text/style/SuperscriptSpan.ts"/>
+///<reference path="android/text/style/SubscriptSpan.ts"/>
+///<reference path="android/text/style/QuoteSpan.ts"/>
+///<reference path="android/text/style/BulletSpan.ts"/>
+///<reference path="android/text/style/ImageSpan.ts"/>
+///<reference path="android/text/Html.ts"/>
 
 ///<reference path="android/widget/FrameLayout.ts"/>
 ///<reference path="android/widget/ScrollView.ts"/>
 ///<reference path="android/widget/LinearLayout.ts"/>
 ///<reference path="android/widget/RelativeLayout.ts"/>
+///<reference path="android/widget/GridLayout.ts"/>
+///<reference path="android/widget/TableLayout.ts"/>
+///<reference path="android/widget/TableRow.ts"/>
 ///<reference path="android/widget/TextView.ts"/>
 ///<reference path="android/widget/Button.ts"/>
 ///<reference path="android/widget/EditText.ts"/>
@@ -16,9 +44,13 @@
 ///<reference path="android/widget/GridView.ts"/>
 ///<reference path="android/widget/HorizontalScrollView.ts"/>
 ///<reference path="android/widget/NumberPicker.ts"/>
+///<reference path="android/widget/DatePicker.ts"/>
+///<reference path="android/widget/TimePicker.ts"/>
 ///<reference path="android/widget/ProgressBar.ts"/>
 ///<reference path="android/widget/CheckBox.ts"/>
 ///<reference path="android/widget/RadioButton.ts"/>
+///<reference path="android/widget/Switch.ts"/>
+///<reference path="android/widget/ToggleButton.ts"/>
 ///<reference path="android/widget/RadioGroup.ts"/>
 ///<reference path="android/widget/CheckedTextView.ts"/>
 ///<reference path="android/widget/SeekBar.ts"/>
@@ -28,10 +60,18 @@
 ///<reference path="android/widget/Toast.ts"/>
 ///<reference path="android/widget/Spinner.ts"/>
 ///<reference path="android/widget/ListPopupWindow.ts"/>
+///<reference path="android/widget/AutoCompleteTextView.ts"/>
+///<reference path="android/widget/MultiAutoCompleteTextView.ts"/>
+///<reference path="android/widget/SearchView.ts"/>
+///<reference path="android/widget/ViewFlipper.ts"/>
+///<reference path="android/widget/TextSwitcher.ts"/>
+///<reference path="android/widget/ImageSwitcher.ts"/>
 
 ///<reference path="android/webkit/WebView.ts"/>
 
 ///<reference path="android/app/AlertDialog.ts"/>
+///<reference path="android/app/DatePickerDialog.ts"/>
+///<reference path="android/app/TimePickerDialog.ts"/>
 
 
 ///<reference path="android/view/animation/AlphaAnimation.ts"/>
@@ -39,14 +79,42 @@
 ///<reference path="android/view/animation/RotateAnimation.ts"/>
 ///<reference path="android/view/animation/TranslateAnimation.ts"/>
 ///<reference path="android/view/animation/AnimationSet.ts"/>
+///<reference path="android/view/animation/LayoutAnimationController.ts"/>
+///<reference path="android/view/animation/GridLayoutAnimationController.ts"/>
+
+///<reference path="android/animation/ValueAnimator.ts"/>
+///<reference path="android/animation/ObjectAnimator.ts"/>
+///<reference path="android/animation/AnimatorSet.ts"/>
+///<reference path="android/animation/AnimatorListenerAdapter.ts"/>
+///<reference path="android/animation/ArgbEvaluator.ts"/>
+///<reference path="android/animation/LayoutTransition.ts"/>
 
 ///<reference path="android/view/Menu.ts"/>
+///<reference path="android/view/CollapsibleActionView.ts"/>
+///<reference path="android/view/menu/MenuPresenter.ts"/>
 ///<reference path="android/view/menu/MenuPopupHelper.ts"/>
 
 
 ///<reference path="android/support/v4/view/ViewPager.ts"/>
 ///<reference path="android/support/v4/widget/ViewDragHelper.ts"/>
 ///<reference path="android/support/v4/widget/DrawerLayout.ts"/>
+///<reference path="android/support/v7/widget/RecyclerView.ts"/>
+///<reference path="android/support/v7/widget/DefaultItemAnimator.ts"/>
+///<reference path="android/support/v7/widget/OrientationHelper.ts"/>
+///<reference path="android/support/v7/widget/ScrollbarHelper.ts"/>
+///<reference path="android/support/v7/widget/LinearSmoothScroller.ts"/>
+///<reference path="android/support/v7/widget/LinearLayoutManager.ts"/>
+///<reference path="android/support/v7/widget/GridLayoutManager.ts"/>
+///<reference path="android/support/v7/widget/StaggeredGridLayoutManager.ts"/>
+///<reference path="android/support/v7/widget/CardView.ts"/>
+///<reference path="android/support/design/widget/TabItem.ts"/>
+///<reference path="android/support/design/widget/TabLayout.ts"/>
+///<reference path="android/support/design/widget/ViewOffsetHelper.ts"/>
+///<reference path="android/support/design/widget/CoordinatorLayout.ts"/>
+///<reference path="android/support/design/widget/ViewOffsetBehavior.ts"/>
+///<reference path="android/support/design/widget/AppBarLayout.ts"/>
+///<reference path="android/support/design/widget/CollapsingToolbarLayout.ts"/>
+///<reference path="android/support/design/widget/Snackbar.ts"/>
 
 ///<reference path="lib/com/jakewharton/salvage/RecyclingPagerAdapter.ts"/>
 ///<reference path="lib/uk/co/senab/photoview/PhotoView.ts"/>
@@ -63,6 +131,7 @@
 ///<reference path="androidui/widget/HtmlDataPagerAdapter.ts"/>
 ///<reference path="androidui/widget/HtmlDataPickerAdapter.ts"/>
 ///<reference path="androidui/widget/PullRefreshLoadLayout.ts"/>
+///<reference path="androidui/widget/ListItemTouchHelper.ts"/>
 
 ///<reference path="androidui/util/PerformanceAdjuster.ts"/>
 ///<reference path="androidui/native/NativeApi.ts"/>